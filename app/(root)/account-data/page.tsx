@@ -32,26 +32,25 @@ export default function AccountDataPage() {
             <span>🗑️</span> Delete Your Account
           </h2>
           <p className="text-slate-300">
-            Permanently deletes your PropertyFlow HQ account and all associated data. <strong className="text-white">This cannot be undone.</strong>
+            Permanently deletes your PropertyFlow HQ account and the personal data associated with it. <strong className="text-white">This cannot be undone.</strong>
           </p>
 
           <div className="space-y-3">
             <h3 className="font-semibold text-white">What gets deleted:</h3>
             <ul className="list-disc list-inside space-y-1 text-slate-300 ml-2">
-              <li>Your account profile, name, email, and phone number</li>
-              <li>All properties, units, and lease records (for Property Managers)</li>
-              <li>All job history, invoices, and estimates (for Contractors)</li>
-              <li>All maintenance requests and tenant records</li>
-              <li>All payment history and financial records</li>
-              <li>All messages, notifications, and documents</li>
-              <li>Your subscription will be canceled immediately</li>
+              <li>Your account profile, name, email, phone number, and addresses</li>
+              <li>Your sign-in methods, sessions, and registered devices</li>
+              <li>The contents of messages you sent, your notifications, saved searches, and favorites</li>
+              <li>Personal details on your rental applications, and the identity and verification documents you uploaded</li>
+              <li>Your subscription will be canceled</li>
             </ul>
           </div>
 
           <div className="space-y-3">
             <h3 className="font-semibold text-white">What may be retained:</h3>
             <ul className="list-disc list-inside space-y-1 text-slate-300 ml-2">
-              <li>Financial transaction records required by law (up to 7 years, per IRS regulations)</li>
+              <li>Lease, rent payment, and invoice records required by law (up to 7 years, per IRS regulations), with your name and contact details removed</li>
+              <li>Our security audit log</li>
               <li>Records required for active dispute resolution</li>
               <li>Anonymized, aggregated usage statistics (no personal identifiers)</li>
             </ul>
@@ -76,7 +75,7 @@ export default function AccountDataPage() {
           </div>
 
           <p className="text-slate-400 text-sm">
-            Account deletion is processed immediately when done in-app. Email requests are processed within <strong className="text-white">30 days</strong>.
+            Deletion requests are reviewed by our team and completed within <strong className="text-white">30 days</strong>. We email you when your account has been deleted.
           </p>
         </section>
 
@@ -105,7 +104,7 @@ export default function AccountDataPage() {
             <div className="space-y-3">
               <div className="flex gap-3">
                 <span className="flex-shrink-0 h-6 w-6 rounded-full bg-amber-500/20 text-amber-400 text-xs font-bold flex items-center justify-center">1</span>
-                <p className="text-slate-300 text-sm"><strong className="text-white">Mobile app:</strong> Open the app → go to your Profile or More tab → scroll to the ACCOUNT section → tap <em>Request My Data</em>. A data export will be emailed to you within 30 days, along with instructions to request deletion of specific items.</p>
+                <p className="text-slate-300 text-sm"><strong className="text-white">Mobile app:</strong> Open the app → go to your Profile or More tab → scroll to the ACCOUNT section → tap <em>Request My Data</em>. We will email you when a ZIP of your data is ready to download from Settings → Data &amp; Privacy. Downloads stay available for 7 days.</p>
               </div>
               <div className="flex gap-3">
                 <span className="flex-shrink-0 h-6 w-6 rounded-full bg-amber-500/20 text-amber-400 text-xs font-bold flex items-center justify-center">2</span>
@@ -132,7 +131,7 @@ export default function AccountDataPage() {
               full Privacy Policy
             </Link>.
           </p>
-          <p className="text-slate-500 text-sm">Last updated: April 20, 2025</p>
+          <p className="text-slate-500 text-sm">Last updated: October 19, 2026</p>
         </section>
 
       </div>
@@ -0,0 +1,54 @@
+import { Metadata } from 'next';
+import { findSearchByUnsubscribeToken } from '@/lib/services/saved-search-alerts.service';
+import UnsubscribeButton from './unsubscribe-button';
+
+export const metadata: Metadata = {
+  title: 'Unsubscribe from Alerts | PropertyFlow HQ',
+  robots: { index: false },
+};
+
+export const dynamic = 'force-dynamic';
+
+// Unsubscribing takes a click on this page rather than happening on load,
+// so mail scanners that prefetch links don't turn alerts off
+export default async function UnsubscribeAlertPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token = '' } = await searchParams;
+  const search = await findSearchByUnsubscribeToken(token);
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-200">
+      <div className="max-w-xl mx-auto px-6 py-24 space-y-6 text-center">
+        <span className="text-sky-400 font-semibold text-sm tracking-wide uppercase">PropertyFlow HQ</span>
+        {!search ? (
+          <>
+            <h1 className="text-3xl font-bold text-white">Link expired</h1>
+            <p className="text-slate-400">
+              This unsubscribe link is no longer valid. The saved search may have been deleted. You can manage
+              alerts from your saved searches while signed in.
+            </p>
+          </>
+        ) : !search.emailAlerts ? (
+          <>
+            <h1 className="text-3xl font-bold text-white">Already unsubscribed</h1>
+            <p className="text-slate-400">
+              You don&apos;t get alerts for &ldquo;{search.name}&rdquo;. You can turn them back on from your saved searches.
+            </p>
+          </>
+        ) : (
+          <>
+            <h1 className="text-3xl font-bold text-white">Stop these alerts?</h1>
+            <p className="text-slate-400">
+              You&apos;ll stop getting emails and notifications about new matches for &ldquo;{search.name}&rdquo;. The
+              search itself stays saved.
+            </p>
+            <UnsubscribeButton token={token} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
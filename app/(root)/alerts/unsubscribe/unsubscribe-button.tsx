@@ -0,0 +1,42 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Loader2 } from 'lucide-react';
+
+export default function UnsubscribeButton({ token }: { token: string }) {
+  const [status, setStatus] = useState<'idle' | 'saving' | 'done' | 'error'>('idle');
+  const [message, setMessage] = useState('');
+
+  const handleUnsubscribe = async () => {
+    setStatus('saving');
+    try {
+      const response = await fetch('/api/saved-searches/unsubscribe', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to unsubscribe');
+      setMessage(data.message);
+      setStatus('done');
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Failed to unsubscribe');
+      setStatus('error');
+    }
+  };
+
+  if (status === 'done') {
+    return <p className="text-emerald-400 font-medium">{message}</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <Button onClick={handleUnsubscribe} disabled={status === 'saving'} className="bg-sky-600 hover:bg-sky-500">
+        {status === 'saving' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        Unsubscribe
+      </Button>
+      {status === 'error' && <p className="text-red-400 text-sm">{message}</p>}
+    </div>
+  );
+}
@@ -12,6 +12,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
+import { NotificationDeliverySettings } from '@/components/notifications/notification-delivery-settings';
 
 interface Notification {
   id: string;
@@ -475,6 +476,19 @@ export default function UserNotificationsPage() {
           )}
         </CardContent>
       </Card>
+
+      {/* Per-event delivery, quiet hours and digest */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Delivery by Event</CardTitle>
+          <CardDescription>
+            Pick the channels for each kind of update, pause alerts overnight, or get routine updates as one digest email.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <NotificationDeliverySettings />
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -236,7 +236,7 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ landlordId }) =
       const result = await response.json();
       if (result.success) {
         await fetchQuickBooksStatus();
-        alert('QuickBooks sync successful!');
+        alert(result.message || 'QuickBooks sync successful!');
       } else {
         if (result.code === 'QUICKBOOKS_NOT_CONNECTED') {
           window.location.href = `/api/integrations/quickbooks/connect?landlordId=${landlordId}`;
@@ -0,0 +1,25 @@
+import { Metadata } from 'next';
+import { requireSuperAdmin } from '@/lib/auth-guard';
+import DataRequestQueue from '@/components/admin/data-request-queue';
+
+export const metadata: Metadata = {
+  title: 'Privacy Requests',
+};
+
+export default async function DataRequestsPage() {
+  await requireSuperAdmin();
+
+  return (
+    <main className="w-full px-4 py-8 md:px-0">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-semibold text-white">Privacy Requests</h1>
+          <p className="text-sm text-slate-300/80">
+            GDPR and CCPA data exports and account erasure. Erasure requests wait here for review; respond before the deadline.
+          </p>
+        </div>
+        <DataRequestQueue />
+      </div>
+    </main>
+  );
+}
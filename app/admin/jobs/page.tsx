@@ -0,0 +1,25 @@
+import { Metadata } from 'next';
+import { requireSuperAdmin } from '@/lib/auth-guard';
+import JobConsole from '@/components/admin/job-console';
+
+export const metadata: Metadata = {
+  title: 'Background Jobs',
+};
+
+export default async function JobsPage() {
+  await requireSuperAdmin();
+
+  return (
+    <main className="w-full px-4 py-8 md:px-0">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-semibold text-white">Background Jobs</h1>
+          <p className="text-sm text-slate-300/80">
+            Queue health, recurring schedules and the dead-letter queue. Retry or purge jobs from here.
+          </p>
+        </div>
+        <JobConsole />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,60 @@
+import { Metadata } from 'next';
+import { Lock } from 'lucide-react';
+import { requireAdmin } from '@/lib/auth-guard';
+import { getOrCreateCurrentLandlord } from '@/lib/actions/landlord.actions';
+import { getCurrentUserTeamRole } from '@/lib/actions/team.actions';
+import { EXPENSE_CATEGORIES } from '@/lib/actions/document.actions';
+import { BankReconciliation } from '@/components/shared/bank-reconciliation';
+
+export const metadata: Metadata = {
+  title: 'Bank Reconciliation',
+};
+
+const AdminReconciliationPage = async () => {
+  await requireAdmin();
+
+  const landlordResult = await getOrCreateCurrentLandlord();
+  if (!landlordResult.success) {
+    return (
+      <main className='px-4 py-10'>
+        <div className='max-w-3xl mx-auto text-sm text-red-600'>
+          {landlordResult.message || 'Unable to load landlord context for reconciliation.'}
+        </div>
+      </main>
+    );
+  }
+
+  const userRole = await getCurrentUserTeamRole(landlordResult.landlord.id);
+  const canManageFinances = userRole.isOwner || (userRole.permissions as string[]).includes('manage_finances');
+
+  if (!canManageFinances) {
+    return (
+      <main className='px-4 py-10'>
+        <div className='max-w-lg mx-auto text-center space-y-4'>
+          <div className='mx-auto w-14 h-14 rounded-full bg-red-500/20 flex items-center justify-center'>
+            <Lock className='h-7 w-7 text-red-400' />
+          </div>
+          <h1 className='text-xl font-semibold text-white'>Access Restricted</h1>
+          <p className='text-slate-400'>
+            Your role does not have permission to reconcile bank accounts.
+            Contact your account owner to request access.
+          </p>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className='w-full space-y-6'>
+      <div>
+        <h1 className='text-2xl md:text-3xl font-semibold text-white'>Bank Reconciliation</h1>
+        <p className='text-sm text-slate-400 mt-1'>
+          Import bank statements, match them to rent, payouts and expenses, and close each month once it ties out.
+        </p>
+      </div>
+      <BankReconciliation apiBase='/api/landlord/reconciliation' expenseCategories={EXPENSE_CATEGORIES} />
+    </main>
+  );
+};
+
+export default AdminReconciliationPage;
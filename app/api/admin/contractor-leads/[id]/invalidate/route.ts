@@ -0,0 +1,30 @@
+/**
+ * Admin API - Invalidate a contractor lead
+ * Cancels a spam, duplicate or unreachable lead and refunds every contractor
+ * who paid for it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { getLeadRoutingErrorStatus, invalidateLead, LeadRoutingError } from '@/lib/services/lead-routing.service';
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = await auth();
+  if (session?.user?.role !== 'superAdmin') {
+    return NextResponse.json({ message: 'Not authorized' }, { status: 403 });
+  }
+
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const reason = typeof body.reason === 'string' && body.reason.trim() ? body.reason.trim() : 'Invalid lead';
+    const result = await invalidateLead(id, reason);
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof LeadRoutingError) {
+      return NextResponse.json({ message: error.message, code: error.code }, { status: getLeadRoutingErrorStatus(error.code) });
+    }
+    console.error('Invalidate lead error:', error);
+    return NextResponse.json({ message: 'Failed to invalidate lead' }, { status: 500 });
+  }
+}
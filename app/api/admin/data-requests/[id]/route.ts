@@ -0,0 +1,71 @@
+/**
+ * Admin API - Review a data subject request
+ * GET shows what erasure would remove and retain; PATCH approves, rejects or
+ * retries a failed request
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/db/prisma';
+import {
+  DataRequestError,
+  getDataRequestErrorStatus,
+  getErasureImpact,
+  retryDataSubjectRequest,
+  reviewDataSubjectRequest,
+} from '@/lib/services/data-subject-request.service';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  const session = await auth();
+  if (session?.user?.role !== 'superAdmin') {
+    return NextResponse.json({ message: 'Not authorized' }, { status: 403 });
+  }
+
+  try {
+    const { id } = await params;
+    const request = await prisma.dataSubjectRequest.findUnique({ where: { id } });
+    if (!request) {
+      return NextResponse.json({ message: 'Request not found' }, { status: 404 });
+    }
+    const impact = request.type === 'erasure' ? await getErasureImpact(request.userId) : null;
+    return NextResponse.json({ request, impact });
+  } catch (error) {
+    console.error('Get data request error:', error);
+    return NextResponse.json({ message: 'Failed to load data request' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const session = await auth();
+  if (session?.user?.role !== 'superAdmin' || !session.user.id) {
+    return NextResponse.json({ message: 'Not authorized' }, { status: 403 });
+  }
+
+  try {
+    const { id } = await params;
+    const { action, note } = await request.json();
+
+    if (action === 'retry') {
+      return NextResponse.json({ request: await retryDataSubjectRequest(id) });
+    }
+    if (action !== 'approve' && action !== 'reject') {
+      return NextResponse.json({ message: 'Action must be approve, reject or retry' }, { status: 400 });
+    }
+
+    const reviewed = await reviewDataSubjectRequest({
+      requestId: id,
+      reviewerId: session.user.id,
+      decision: action,
+      note: typeof note === 'string' ? note : null,
+    });
+    return NextResponse.json({ request: reviewed });
+  } catch (error) {
+    if (error instanceof DataRequestError) {
+      return NextResponse.json({ message: error.message, code: error.code }, { status: getDataRequestErrorStatus(error.code) });
+    }
+    console.error('Review data request error:', error);
+    return NextResponse.json({ message: 'Failed to update data request' }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Admin API - Data subject request queue
+ * GDPR / CCPA exports and erasure requests, soonest deadline first
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { listDataSubjectRequests } from '@/lib/services/data-subject-request.service';
+
+export async function GET(request: NextRequest) {
+  const session = await auth();
+  if (session?.user?.role !== 'superAdmin') {
+    return NextResponse.json({ message: 'Not authorized' }, { status: 403 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const requests = await listDataSubjectRequests({
+      status: searchParams.get('status') || undefined,
+      type: searchParams.get('type') || undefined,
+    });
+    return NextResponse.json({ requests });
+  } catch (error) {
+    console.error('List data requests error:', error);
+    return NextResponse.json({ message: 'Failed to load data requests' }, { status: 500 });
+  }
+}
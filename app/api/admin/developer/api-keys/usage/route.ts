@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/db/prisma';
+import { getApiKeyUsage } from '@/lib/services/api-key.service';
+
+// GET - Quota usage and recent request volume per API key
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const landlord = await prisma.landlord.findFirst({
+      where: { ownerUserId: session.user.id },
+      select: { id: true },
+    });
+
+    if (!landlord) {
+      return NextResponse.json({ success: false, message: 'Landlord not found' }, { status: 404 });
+    }
+
+    const usage = await getApiKeyUsage(landlord.id);
+    return NextResponse.json({ success: true, usage });
+  } catch (error) {
+    console.error('Failed to fetch API usage:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch API usage' },
+      { status: 500 }
+    );
+  }
+}
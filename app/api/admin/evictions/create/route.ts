@@ -3,6 +3,7 @@ import { auth } from '@/auth';
 import { getOrCreateCurrentLandlord } from '@/lib/actions/landlord.actions';
 import { prisma } from '@/db/prisma';
 import { evictionService } from '@/lib/services/eviction-service';
+import { JurisdictionComplianceError } from '@/lib/services/jurisdiction-rules.service';
 import { NoticeType } from '@/types/tenant-lifecycle';
 
 export async function POST(req: NextRequest) {
@@ -71,6 +72,9 @@ export async function POST(req: NextRequest) {
       deadlineDate: evictionNotice.deadlineDate.toISOString(),
     });
   } catch (error) {
+    if (error instanceof JurisdictionComplianceError) {
+      return NextResponse.json({ message: error.message, issues: error.issues }, { status: 422 });
+    }
     console.error('Create eviction notice error:', error);
     return NextResponse.json({ message: 'Failed to create eviction notice' }, { status: 500 });
   }
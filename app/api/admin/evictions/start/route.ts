@@ -55,6 +55,8 @@ export async function POST(req: NextRequest) {
       actionUrl: '/user/notifications',
       metadata: { leaseId, propertyId, portalUrl },
       landlordId,
+      // Legal notice: never held for quiet hours or a digest
+      priority: 'high',
     });
 
     return NextResponse.json({
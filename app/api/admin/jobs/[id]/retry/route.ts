@@ -0,0 +1,27 @@
+/**
+ * Admin API - Retry a dead-lettered job
+ * Puts the job back in the queue with a fresh set of attempts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { JobError, getJobErrorStatus, jobRuntime } from '@/lib/queue';
+
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = await auth();
+  if (session?.user?.role !== 'superAdmin') {
+    return NextResponse.json({ message: 'Not authorized' }, { status: 403 });
+  }
+
+  try {
+    const { id } = await params;
+    const job = await jobRuntime.retryJob(id);
+    return NextResponse.json({ job });
+  } catch (error) {
+    if (error instanceof JobError) {
+      return NextResponse.json({ message: error.message, code: error.code }, { status: getJobErrorStatus(error.code) });
+    }
+    console.error('Retry job error:', error);
+    return NextResponse.json({ message: 'Failed to retry job' }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Admin API - Single job
+ * GET: full job including payload, result and error history
+ * DELETE: remove a job that isn't running
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { JobError, getJobErrorStatus, jobRuntime } from '@/lib/queue';
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = await auth();
+  if (session?.user?.role !== 'superAdmin') {
+    return NextResponse.json({ message: 'Not authorized' }, { status: 403 });
+  }
+
+  try {
+    const { id } = await params;
+    const job = await jobRuntime.getJob(id);
+    return NextResponse.json({ job });
+  } catch (error) {
+    if (error instanceof JobError) {
+      return NextResponse.json({ message: error.message, code: error.code }, { status: getJobErrorStatus(error.code) });
+    }
+    console.error('Get job error:', error);
+    return NextResponse.json({ message: 'Failed to load job' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = await auth();
+  if (session?.user?.role !== 'superAdmin') {
+    return NextResponse.json({ message: 'Not authorized' }, { status: 403 });
+  }
+
+  try {
+    const { id } = await params;
+    await jobRuntime.deleteJob(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof JobError) {
+      return NextResponse.json({ message: error.message, code: error.code }, { status: getJobErrorStatus(error.code) });
+    }
+    console.error('Delete job error:', error);
+    return NextResponse.json({ message: 'Failed to delete job' }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Admin API - Run a recurring job now
+ * Runs the current slot of a scheduled job inline and returns the finished job
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { JobError, getJobErrorStatus, jobRuntime, type RecurringJobName } from '@/lib/queue';
+
+export const maxDuration = 60;
+
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ name: string }> }) {
+  const session = await auth();
+  if (session?.user?.role !== 'superAdmin') {
+    return NextResponse.json({ message: 'Not authorized' }, { status: 403 });
+  }
+
+  try {
+    const { name } = await params;
+    const job = await jobRuntime.runRecurringNow(name as RecurringJobName, { manual: true });
+    return NextResponse.json({ job });
+  } catch (error) {
+    if (error instanceof JobError) {
+      return NextResponse.json({ message: error.message, code: error.code }, { status: getJobErrorStatus(error.code) });
+    }
+    console.error('Run recurring job error:', error);
+    return NextResponse.json({ message: 'Failed to run job' }, { status: 500 });
+  }
+}
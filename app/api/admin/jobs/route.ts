@@ -0,0 +1,53 @@
+/**
+ * Admin API - Jobs
+ * GET: page through jobs, filtered by status and type
+ * DELETE: purge completed or dead-lettered jobs
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { JobError, getJobErrorStatus, jobRuntime } from '@/lib/queue';
+
+export async function GET(request: NextRequest) {
+  const session = await auth();
+  if (session?.user?.role !== 'superAdmin') {
+    return NextResponse.json({ message: 'Not authorized' }, { status: 403 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const result = await jobRuntime.listJobs({
+      status: searchParams.get('status') || undefined,
+      type: searchParams.get('type') || undefined,
+      page: Number(searchParams.get('page')) || 1,
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('List jobs error:', error);
+    return NextResponse.json({ message: 'Failed to load jobs' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const session = await auth();
+  if (session?.user?.role !== 'superAdmin') {
+    return NextResponse.json({ message: 'Not authorized' }, { status: 403 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const olderThanDays = Number(body.olderThanDays) || 0;
+    const purged = await jobRuntime.purgeJobs({
+      status: String(body.status ?? ''),
+      type: body.type || undefined,
+      olderThan: olderThanDays > 0 ? new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000) : undefined,
+    });
+    return NextResponse.json({ purged });
+  } catch (error) {
+    if (error instanceof JobError) {
+      return NextResponse.json({ message: error.message, code: error.code }, { status: getJobErrorStatus(error.code) });
+    }
+    console.error('Purge jobs error:', error);
+    return NextResponse.json({ message: 'Failed to purge jobs' }, { status: 500 });
+  }
+}
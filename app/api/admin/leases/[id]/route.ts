@@ -9,6 +9,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/db/prisma';
 import { updateLeaseTerms, checkLeaseImmutability } from '@/lib/services/lease.service';
+import { diffRecords } from '@/lib/security/audit-chain';
+import { logAuditEvent } from '@/lib/security/audit-logger';
 
 export async function GET(
   _req: NextRequest,
@@ -143,11 +145,40 @@ export async function PUT(
       updates.billingDayOfMonth = Number(body.billingDayOfMonth);
     }
 
+    // Rent changes that start mid-period are prorated from this date
+    const rentEffectiveDate = body.rentEffectiveDate ? new Date(body.rentEffectiveDate) : undefined;
+    if (rentEffectiveDate && Number.isNaN(rentEffectiveDate.getTime())) {
+      return NextResponse.json({ message: 'Invalid rentEffectiveDate' }, { status: 400 });
+    }
+
+    // Household size isn't a signed term, so it stays editable after signing
+    if (body.occupantCount !== undefined) {
+      const occupantCount = body.occupantCount === null ? null : Number(body.occupantCount);
+      if (occupantCount !== null && (!Number.isInteger(occupantCount) || occupantCount < 1 || occupantCount > 50)) {
+        return NextResponse.json({ message: 'occupantCount must be between 1 and 50' }, { status: 400 });
+      }
+      await prisma.lease.update({ where: { id: leaseId }, data: { occupantCount } });
+    }
+
     // Update with immutability check
-    const updatedLease = await updateLeaseTerms({
-      leaseId,
-      ...updates,
-    });
+    const updatedLease = Object.keys(updates).length > 0 || body.occupantCount === undefined
+      ? await updateLeaseTerms({ leaseId, ...updates, rentEffectiveDate })
+      : await prisma.lease.findUnique({ where: { id: leaseId } });
+
+    const changes = diffRecords(lease, updatedLease, [...Object.keys(updates), 'occupantCount']);
+    if (Object.keys(changes).length > 0) {
+      await logAuditEvent({
+        action: 'LEASE_MODIFIED',
+        userId: session.user.id,
+        landlordId: lease.unit.property?.landlord?.id,
+        resourceType: 'lease',
+        resourceId: leaseId,
+        metadata: rentEffectiveDate ? { rentEffectiveDate: rentEffectiveDate.toISOString() } : undefined,
+        changes,
+        ipAddress: req.headers.get('x-forwarded-for')?.split(',')[0].trim(),
+        userAgent: req.headers.get('user-agent') ?? undefined,
+      });
+    }
 
     return NextResponse.json({ lease: updatedLease });
   } catch (error: any) {
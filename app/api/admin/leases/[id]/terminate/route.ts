@@ -3,6 +3,8 @@ import { auth } from '@/auth';
 import { getOrCreateCurrentLandlord } from '@/lib/actions/landlord.actions';
 import { prisma } from '@/db/prisma';
 import { offboardingService } from '@/lib/services/offboarding-service';
+import { diffRecords } from '@/lib/security/audit-chain';
+import { logAuditEvent } from '@/lib/security/audit-logger';
 import { DepartureType } from '@/types/tenant-lifecycle';
 
 export async function POST(
@@ -62,6 +64,25 @@ export async function POST(
       return NextResponse.json({ message: 'Lease is already terminated' }, { status: 400 });
     }
 
+    const terminated = {
+      status: 'terminated',
+      terminationReason: reason,
+      terminatedAt: new Date(terminationDate),
+      endDate: new Date(terminationDate),
+    };
+    const logTermination = () =>
+      logAuditEvent({
+        action: 'LEASE_TERMINATED',
+        userId: session.user.id,
+        landlordId,
+        resourceType: 'lease',
+        resourceId: leaseId,
+        metadata: { reason, notes, initiateOffboarding, tenantId: lease.tenant?.id },
+        changes: diffRecords(lease, terminated, Object.keys(terminated)),
+        ipAddress: req.headers.get('x-forwarded-for')?.split(',')[0].trim(),
+        userAgent: req.headers.get('user-agent') ?? undefined,
+      });
+
     // If initiating offboarding, use the offboarding service
     if (initiateOffboarding) {
       const result = await offboardingService.executeOffboarding({
@@ -71,6 +92,7 @@ export async function POST(
         notes,
         markUnitAvailable,
       });
+      if (result.leaseTerminated) await logTermination();
 
       return NextResponse.json({
         success: result.success,
@@ -85,12 +107,7 @@ export async function POST(
     // Otherwise, just terminate the lease without full offboarding
     const updatedLease = await prisma.lease.update({
       where: { id: leaseId },
-      data: {
-        status: 'terminated',
-        terminationReason: reason,
-        terminatedAt: new Date(terminationDate),
-        endDate: new Date(terminationDate),
-      },
+      data: terminated,
     });
 
     // Cancel pending payments
@@ -104,6 +121,8 @@ export async function POST(
       },
     });
 
+    await logTermination();
+
     return NextResponse.json({
       success: true,
       lease: updatedLease,
@@ -1,31 +1,24 @@
 /**
  * Admin API - Queue Statistics
- * Monitor job queue health
+ * Monitor job queue health: counts per job type and status, the oldest
+ * overdue job, and the recurring schedules defined in code
  */
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { auth } from '@/auth';
-import { jobQueue } from '@/lib/queue/redis-queue';
+import { jobRuntime } from '@/lib/queue';
 
-export async function GET(request: NextRequest) {
+export async function GET() {
   try {
-    // Check authentication
     const session = await auth();
     if (!session?.user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
+    if (session.user.role !== 'superAdmin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
 
-    // Check if user is admin (adjust based on your auth system)
-    // const user = await prisma.user.findUnique({
-    //   where: { id: session.user.id },
-    //   select: { role: true },
-    // });
-    // if (user?.role !== 'SUPER_ADMIN') {
-    //   return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
-    // }
-
-    // Get queue stats
-    const stats = await jobQueue.getStats();
+    const stats = await jobRuntime.getStats();
 
     return NextResponse.json({
       success: true,
@@ -17,7 +17,7 @@ export async function POST(request: NextRequest) {
 
     // Rate limiting
     const clientId = getClientIdentifier(request);
-    const rateLimit = checkRateLimit(`2fa-disable:${session.user.id}`, RATE_LIMIT_CONFIGS.authStrict);
+    const rateLimit = await checkRateLimit(`2fa-disable:${session.user.id}`, RATE_LIMIT_CONFIGS.authStrict);
     
     if (!rateLimit.allowed) {
       return NextResponse.json(
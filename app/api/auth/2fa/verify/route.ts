@@ -17,7 +17,7 @@ export async function POST(request: NextRequest) {
 
     // Rate limiting - strict for 2FA verification
     const clientId = getClientIdentifier(request);
-    const rateLimit = checkRateLimit(`2fa-verify:${session.user.id}`, RATE_LIMIT_CONFIGS.authStrict);
+    const rateLimit = await checkRateLimit(`2fa-verify:${session.user.id}`, RATE_LIMIT_CONFIGS.authStrict);
     
     if (!rateLimit.allowed) {
       await logAuthEvent('AUTH_2FA_VERIFIED', {
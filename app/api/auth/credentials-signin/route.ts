@@ -29,7 +29,7 @@ export async function POST(req: NextRequest) {
 
     // Check rate limit for this IP
     const rateLimitKey = `auth:${ip}`;
-    const rateLimit = checkRateLimit(rateLimitKey, RATE_LIMIT_CONFIGS.auth);
+    const rateLimit = await checkRateLimit(rateLimitKey, RATE_LIMIT_CONFIGS.auth);
     
     if (!rateLimit.allowed) {
       // Notify admin of potential brute force
@@ -25,7 +25,7 @@ export async function GET(req: NextRequest) {
   const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim()
     || req.headers.get('x-real-ip')
     || 'unknown';
-  const limit = checkRateLimit(`beta-validate:${ip}`, {
+  const limit = await checkRateLimit(`beta-validate:${ip}`, {
     windowMs: 10 * 60 * 1000,
     maxRequests: 30,
   });
@@ -0,0 +1,57 @@
+/**
+ * GET /api/contractor/crew-locations/history?employeeId=...&date=yyyy-MM-dd
+ *
+ * One employee's day for replay on the Live Crew Map: breadcrumbs in order,
+ * job-site arrivals and departures, time entries with their geofence check,
+ * and a summary of distance, time on site and travel time between sites.
+ *
+ * Auth: signed-in contractor owner, same as /api/contractor/crew-locations.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { parse, isValid } from 'date-fns';
+import { auth } from '@/auth';
+import { prisma } from '@/db/prisma';
+import {
+  CrewTrackingError,
+  getCrewTrackingErrorStatus,
+  getRouteHistory,
+} from '@/lib/services/crew-tracking.service';
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const allowedRoles = new Set(['contractor', 'admin', 'superAdmin']);
+    if (session.user.role && !allowedRoles.has(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const profile = await prisma.contractorProfile.findUnique({
+      where: { userId: session.user.id },
+      select: { id: true },
+    });
+    if (!profile) {
+      return NextResponse.json({ error: 'Profile not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const employeeId = searchParams.get('employeeId');
+    const dateParam = searchParams.get('date');
+    const date = dateParam ? parse(dateParam, 'yyyy-MM-dd', new Date()) : new Date();
+    if (!employeeId || !isValid(date)) {
+      return NextResponse.json({ error: 'employeeId and a yyyy-MM-dd date are required' }, { status: 400 });
+    }
+
+    const history = await getRouteHistory(profile.id, employeeId, date);
+    return NextResponse.json(history);
+  } catch (error) {
+    if (error instanceof CrewTrackingError) {
+      return NextResponse.json({ error: error.message }, { status: getCrewTrackingErrorStatus(error.code) });
+    }
+    console.error('[contractor/crew-locations/history]', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
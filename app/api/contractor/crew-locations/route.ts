@@ -3,8 +3,9 @@
  *
  * Web counterpart to /api/mobile/contractor/crew-locations. Returns the
  * currently clocked-in crew (active time entries with `clockOut === null`)
- * along with last known GPS coordinates, the job they're working, and how
- * long they've been on the clock. Drives the Live Crew Map dashboard page.
+ * along with last known GPS coordinates (latest breadcrumb from the employee
+ * app, else the clock-in fix), the job they're working, and how long they've
+ * been on the clock. Drives the Live Crew Map dashboard page.
  *
  * Auth: signed-in contractor (via session). Contractor employees are
  * intentionally excluded — only the contractor account owner sees the crew.
@@ -12,6 +13,7 @@
 import { NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/db/prisma';
+import { getLatestPings } from '@/lib/services/crew-tracking.service';
 
 export async function GET() {
   try {
@@ -47,14 +49,21 @@ export async function GET() {
         id: true,
         clockIn: true,
         clockInLocation: true,
+        geofenceFlagged: true,
         employee: { select: { id: true, firstName: true, lastName: true, photo: true } },
         job: { select: { id: true, title: true, jobNumber: true } },
       },
     });
 
+    // Latest breadcrumb wins over where they clocked in
+    const latestPings = await getLatestPings(
+      activeEntries.map((e: { employee?: { id: string } | null }) => e.employee?.id).filter(Boolean)
+    );
+
     const now = Date.now();
     const crew = activeEntries.map((e: any) => {
-      const loc = e.clockInLocation as { lat?: number; lng?: number; address?: string } | null;
+      const ping = e.employee ? latestPings.get(e.employee.id) : undefined;
+      const loc = (ping ?? e.clockInLocation) as { lat?: number; lng?: number; address?: string } | null;
       const elapsedMinutes = Math.floor((now - new Date(e.clockIn).getTime()) / 60000);
       return {
         entryId: e.id,
@@ -71,6 +80,8 @@ export async function GET() {
         jobId: e.job?.id ?? null,
         jobTitle: e.job?.title ?? null,
         jobNumber: e.job?.jobNumber ?? null,
+        lastSeenAt: ping ? ping.recordedAt.toISOString() : new Date(e.clockIn).toISOString(),
+        geofenceFlagged: !!e.geofenceFlagged,
       };
     });
 
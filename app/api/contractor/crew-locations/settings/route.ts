@@ -0,0 +1,84 @@
+/**
+ * GET/PUT /api/contractor/crew-locations/settings
+ *
+ * Job-site geofence settings: the default radius in meters (jobs can
+ * override it) and what happens when someone clocks in outside it —
+ * 'off', 'flag' for review, or 'reject'.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/db/prisma';
+import {
+  GEOFENCE_MODES,
+  MAX_GEOFENCE_RADIUS_METERS,
+  MIN_GEOFENCE_RADIUS_METERS,
+} from '@/lib/services/crew-tracking.service';
+
+async function getProfile() {
+  const session = await auth();
+  if (!session?.user?.id) return null;
+  return prisma.contractorProfile.findUnique({
+    where: { userId: session.user.id },
+    select: { id: true, geofenceRadiusMeters: true, geofenceClockInMode: true },
+  });
+}
+
+export async function GET() {
+  try {
+    const profile = await getProfile();
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.json({
+      radiusMeters: profile.geofenceRadiusMeters,
+      clockInMode: profile.geofenceClockInMode,
+    });
+  } catch (error) {
+    console.error('[contractor/crew-locations/settings]', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const profile = await getProfile();
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const data: { geofenceRadiusMeters?: number; geofenceClockInMode?: string } = {};
+
+    if (body.radiusMeters !== undefined) {
+      const radius = Number(body.radiusMeters);
+      if (!Number.isInteger(radius) || radius < MIN_GEOFENCE_RADIUS_METERS || radius > MAX_GEOFENCE_RADIUS_METERS) {
+        return NextResponse.json(
+          { error: `radiusMeters must be a whole number from ${MIN_GEOFENCE_RADIUS_METERS} to ${MAX_GEOFENCE_RADIUS_METERS}` },
+          { status: 400 }
+        );
+      }
+      data.geofenceRadiusMeters = radius;
+    }
+    if (body.clockInMode !== undefined) {
+      if (!(GEOFENCE_MODES as readonly string[]).includes(body.clockInMode)) {
+        return NextResponse.json({ error: `clockInMode must be one of ${GEOFENCE_MODES.join(', ')}` }, { status: 400 });
+      }
+      data.geofenceClockInMode = body.clockInMode;
+    }
+
+    const updated = await prisma.contractorProfile.update({
+      where: { id: profile.id },
+      data,
+      select: { geofenceRadiusMeters: true, geofenceClockInMode: true },
+    });
+
+    return NextResponse.json({
+      radiusMeters: updated.geofenceRadiusMeters,
+      clockInMode: updated.geofenceClockInMode,
+    });
+  } catch (error) {
+    console.error('[contractor/crew-locations/settings]', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
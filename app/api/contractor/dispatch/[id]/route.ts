@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { resolveContractorAuth, can } from '@/lib/contractor-auth';
+import {
+  DispatchError,
+  getDispatchErrorStatus,
+  moveDispatchStop,
+  publishDispatchPlan,
+  unpinDispatchStop,
+} from '@/lib/services/dispatch.service';
+
+/**
+ * PATCH /api/contractor/dispatch/[id]
+ *
+ * Body is one of:
+ *   { action: 'move', stopId, crewId | null, index }  drag a stop to a crew (pins it)
+ *   { action: 'unpin', stopId }                       let the optimizer move it again
+ *   { action: 'publish' }                             assign crews and start times to the work
+ */
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const contractorAuth = await resolveContractorAuth(session.user.id);
+    if (!contractorAuth) {
+      return NextResponse.json({ error: 'Contractor profile not found' }, { status: 404 });
+    }
+
+    const { id } = await params;
+    const body = await req.json().catch(() => ({}));
+    const permission = body.action === 'publish' ? 'jobs.assign' : 'jobs.schedule';
+    if (!can(contractorAuth, permission)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    switch (body.action) {
+      case 'move': {
+        if (typeof body.stopId !== 'string') {
+          return NextResponse.json({ error: 'stopId is required' }, { status: 400 });
+        }
+        const plan = await moveDispatchStop(contractorAuth.contractorId, id, {
+          stopId: body.stopId,
+          crewId: typeof body.crewId === 'string' ? body.crewId : null,
+          index: Number.isInteger(body.index) ? body.index : Number.MAX_SAFE_INTEGER,
+        });
+        return NextResponse.json({ plan });
+      }
+      case 'unpin': {
+        if (typeof body.stopId !== 'string') {
+          return NextResponse.json({ error: 'stopId is required' }, { status: 400 });
+        }
+        const plan = await unpinDispatchStop(contractorAuth.contractorId, id, body.stopId);
+        return NextResponse.json({ plan });
+      }
+      case 'publish': {
+        const plan = await publishDispatchPlan(contractorAuth.contractorId, id);
+        return NextResponse.json({ plan });
+      }
+      default:
+        return NextResponse.json({ error: 'action must be move, unpin or publish' }, { status: 400 });
+    }
+  } catch (error) {
+    if (error instanceof DispatchError) {
+      return NextResponse.json({ error: error.message }, { status: getDispatchErrorStatus(error.code) });
+    }
+    console.error('PATCH /api/contractor/dispatch/[id]', error);
+    return NextResponse.json({ error: 'Failed to update dispatch plan' }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { resolveContractorAuth, can } from '@/lib/contractor-auth';
+import { DispatchError, getDispatchErrorStatus, setDispatchDepot } from '@/lib/services/dispatch.service';
+
+/**
+ * PUT /api/contractor/dispatch/depot
+ * Body: { lat, lng, address? } or { depot: null }
+ *
+ * Where crews start and end the day. Without a depot each crew's route
+ * starts at its first stop.
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const contractorAuth = await resolveContractorAuth(session.user.id);
+    if (!contractorAuth) {
+      return NextResponse.json({ error: 'Contractor profile not found' }, { status: 404 });
+    }
+    if (!can(contractorAuth, 'jobs.schedule')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const board = await setDispatchDepot(
+      contractorAuth.contractorId,
+      body.depot === null ? null : { lat: Number(body.lat), lng: Number(body.lng), address: body.address ?? null }
+    );
+
+    return NextResponse.json({ depot: board.depot });
+  } catch (error) {
+    if (error instanceof DispatchError) {
+      return NextResponse.json({ error: error.message }, { status: getDispatchErrorStatus(error.code) });
+    }
+    console.error('PUT /api/contractor/dispatch/depot', error);
+    return NextResponse.json({ error: 'Failed to save depot' }, { status: 500 });
+  }
+}
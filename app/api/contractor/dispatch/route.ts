@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { resolveContractorAuth, can } from '@/lib/contractor-auth';
+import {
+  DispatchError,
+  getDispatchErrorStatus,
+  getDispatchPlan,
+  optimizeDispatchDay,
+  parseDispatchDate,
+} from '@/lib/services/dispatch.service';
+
+/**
+ * GET /api/contractor/dispatch?date=yyyy-MM-dd
+ *
+ * The day's dispatch plan: crew routes with stop times and drive minutes,
+ * plus stops that couldn't be placed. `plan` is null until the day has been
+ * optimized.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const contractorAuth = await resolveContractorAuth(session.user.id);
+    if (!contractorAuth) {
+      return NextResponse.json({ error: 'Contractor profile not found' }, { status: 404 });
+    }
+    if (!can(contractorAuth, 'jobs.view')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const date = parseDispatchDate(new URL(req.url).searchParams.get('date'));
+    const plan = await getDispatchPlan(contractorAuth.contractorId, date);
+
+    return NextResponse.json({ plan });
+  } catch (error) {
+    if (error instanceof DispatchError) {
+      return NextResponse.json({ error: error.message }, { status: getDispatchErrorStatus(error.code) });
+    }
+    console.error('GET /api/contractor/dispatch', error);
+    return NextResponse.json({ error: 'Failed to load dispatch plan' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/contractor/dispatch
+ * Body: { date: 'yyyy-MM-dd', emergencyJobId?: string }
+ *
+ * Optimizes (or re-optimizes) the day's routes into a draft plan. With
+ * emergencyJobId the job is made urgent, moved onto the day and every crew
+ * is re-routed around it. Manual pins are kept.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const contractorAuth = await resolveContractorAuth(session.user.id);
+    if (!contractorAuth) {
+      return NextResponse.json({ error: 'Contractor profile not found' }, { status: 404 });
+    }
+    if (!can(contractorAuth, 'jobs.schedule')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const date = parseDispatchDate(body.date);
+    const plan = await optimizeDispatchDay(contractorAuth.contractorId, date, {
+      emergencyJobId: typeof body.emergencyJobId === 'string' ? body.emergencyJobId : undefined,
+    });
+
+    return NextResponse.json({ plan });
+  } catch (error) {
+    if (error instanceof DispatchError) {
+      return NextResponse.json({ error: error.message }, { status: getDispatchErrorStatus(error.code) });
+    }
+    console.error('POST /api/contractor/dispatch', error);
+    return NextResponse.json({ error: 'Failed to optimize dispatch' }, { status: 500 });
+  }
+}
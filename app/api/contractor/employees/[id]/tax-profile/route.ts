@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/db/prisma';
+import { resolveContractorAuth, can, meetsMinTier } from '@/lib/contractor-auth';
+import { getSupportedStates } from '@/lib/config/payroll-tax';
+import {
+  PayrollTaxError,
+  getPayrollTaxErrorStatus,
+  getTaxProfile,
+  parseTaxProfileInput,
+  saveTaxProfile,
+} from '@/lib/services/payroll-tax.service';
+
+async function findEmployee(contractorId: string, employeeId: string) {
+  return prisma.contractorEmployee.findFirst({
+    where: { id: employeeId, contractorId },
+    select: { id: true, employeeType: true },
+  });
+}
+
+// ── GET — W-4 and state withholding elections ────────────────────────────────
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const contractorAuth = await resolveContractorAuth(session.user.id);
+    if (!contractorAuth) return NextResponse.json({ error: 'Contractor profile not found' }, { status: 404 });
+    if (!meetsMinTier(contractorAuth, 'pro')) return NextResponse.json({ error: 'Pro plan required' }, { status: 403 });
+    if (!can(contractorAuth, 'payroll.view')) return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+
+    const { id } = await params;
+    const employee = await findEmployee(contractorAuth.contractorId, id);
+    if (!employee) return NextResponse.json({ error: 'Employee not found' }, { status: 404 });
+
+    const profile = await getTaxProfile({ contractorEmployeeId: employee.id });
+    return NextResponse.json({
+      profile,
+      employeeType: employee.employeeType,
+      supportedStates: getSupportedStates(new Date().getFullYear()),
+    });
+  } catch (error) {
+    console.error('GET /api/contractor/employees/[id]/tax-profile', error);
+    return NextResponse.json({ error: 'Failed to fetch tax profile' }, { status: 500 });
+  }
+}
+
+// ── PUT — replace the employee's elections ────────────────────────────────────
+
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const contractorAuth = await resolveContractorAuth(session.user.id);
+    if (!contractorAuth) return NextResponse.json({ error: 'Contractor profile not found' }, { status: 404 });
+    if (!meetsMinTier(contractorAuth, 'pro')) return NextResponse.json({ error: 'Pro plan required' }, { status: 403 });
+    if (!can(contractorAuth, 'payroll.edit')) return NextResponse.json({ error: 'Insufficient permissions — payroll.edit required' }, { status: 403 });
+
+    const { id } = await params;
+    const employee = await findEmployee(contractorAuth.contractorId, id);
+    if (!employee) return NextResponse.json({ error: 'Employee not found' }, { status: 404 });
+
+    const profile = parseTaxProfileInput(await req.json());
+    return NextResponse.json({ profile: await saveTaxProfile({ contractorEmployeeId: employee.id }, profile) });
+  } catch (error) {
+    if (error instanceof PayrollTaxError) {
+      return NextResponse.json({ error: error.message }, { status: getPayrollTaxErrorStatus(error.code) });
+    }
+    console.error('PUT /api/contractor/employees/[id]/tax-profile', error);
+    return NextResponse.json({ error: 'Failed to save tax profile' }, { status: 500 });
+  }
+}
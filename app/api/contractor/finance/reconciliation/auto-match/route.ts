@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { resolveContractorAuth, can, meetsMinTier } from '@/lib/contractor-auth';
+import { getReconciliationErrorStatus, ReconciliationError, runAutoMatch } from '@/lib/services/bank-reconciliation.service';
+
+/**
+ * POST /api/contractor/finance/reconciliation/auto-match
+ *
+ * Body: { accountKey }. Re-scores the account's open lines against expenses.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const contractorAuth = await resolveContractorAuth(session.user.id);
+    if (!contractorAuth) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    if (!meetsMinTier(contractorAuth, 'pro')) return NextResponse.json({ error: 'Pro plan required' }, { status: 403 });
+    if (!can(contractorAuth, 'financials.manage')) return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+
+    const { accountKey } = await req.json();
+    if (typeof accountKey !== 'string' || !accountKey) {
+      return NextResponse.json({ error: 'accountKey is required' }, { status: 400 });
+    }
+
+    const result = await runAutoMatch({ type: 'contractor', contractorId: contractorAuth.contractorId }, accountKey);
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof ReconciliationError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: getReconciliationErrorStatus(error.code) });
+    }
+    console.error('Error auto-matching statement lines:', error);
+    return NextResponse.json({ error: 'Failed to match statement lines' }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { resolveContractorAuth, can, meetsMinTier } from '@/lib/contractor-auth';
+import {
+  getLineCandidates,
+  getReconciliationErrorStatus,
+  ReconciliationError,
+  updateStatementLine,
+} from '@/lib/services/bank-reconciliation.service';
+
+/**
+ * GET /api/contractor/finance/reconciliation/lines/:id
+ *
+ * Expenses within 30 days of the line that could be matched to it, best first.
+ */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const contractorAuth = await resolveContractorAuth(session.user.id);
+    if (!contractorAuth) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    if (!meetsMinTier(contractorAuth, 'pro')) return NextResponse.json({ error: 'Pro plan required' }, { status: 403 });
+    if (!can(contractorAuth, 'financials.view_detailed')) return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+
+    const { id } = await params;
+    const candidates = await getLineCandidates({ type: 'contractor', contractorId: contractorAuth.contractorId }, id);
+    return NextResponse.json({ candidates });
+  } catch (error) {
+    if (error instanceof ReconciliationError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: getReconciliationErrorStatus(error.code) });
+    }
+    console.error('Error loading match candidates:', error);
+    return NextResponse.json({ error: 'Failed to load candidates' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/contractor/finance/reconciliation/lines/:id
+ *
+ * Body: { action: 'match', type, id } | { action: 'unmatch' } | { action: 'exclude', note? }
+ *     | { action: 'include' } | { action: 'create_expense', category, description?, vendor? }
+ */
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const contractorAuth = await resolveContractorAuth(session.user.id);
+    if (!contractorAuth) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    if (!meetsMinTier(contractorAuth, 'pro')) return NextResponse.json({ error: 'Pro plan required' }, { status: 403 });
+    if (!can(contractorAuth, 'financials.manage')) return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+
+    const { id } = await params;
+    const body = await req.json();
+    const line = await updateStatementLine(
+      { type: 'contractor', contractorId: contractorAuth.contractorId },
+      id,
+      body,
+      session.user.id
+    );
+    return NextResponse.json({ line });
+  } catch (error) {
+    if (error instanceof ReconciliationError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: getReconciliationErrorStatus(error.code) });
+    }
+    console.error('Error updating statement line:', error);
+    return NextResponse.json({ error: 'Failed to update statement line' }, { status: 500 });
+  }
+}
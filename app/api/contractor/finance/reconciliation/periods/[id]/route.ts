@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { resolveContractorAuth, can, meetsMinTier } from '@/lib/contractor-auth';
+import {
+  getReconciliationErrorStatus,
+  getReconciliationPeriod,
+  ReconciliationError,
+  reconciliationReportToCsv,
+  type ReconciliationReport,
+} from '@/lib/services/bank-reconciliation.service';
+
+/**
+ * GET /api/contractor/finance/reconciliation/periods/:id?format=csv
+ *
+ * The report stored when the period was closed, as JSON or CSV.
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const contractorAuth = await resolveContractorAuth(session.user.id);
+    if (!contractorAuth) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    if (!meetsMinTier(contractorAuth, 'pro')) return NextResponse.json({ error: 'Pro plan required' }, { status: 403 });
+    if (!can(contractorAuth, 'financials.view_detailed')) return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+
+    const { id } = await params;
+    const period = await getReconciliationPeriod({ type: 'contractor', contractorId: contractorAuth.contractorId }, id);
+
+    if (new URL(req.url).searchParams.get('format') === 'csv') {
+      const csv = reconciliationReportToCsv(period.report as unknown as ReconciliationReport, period.reportHash);
+      return new NextResponse(csv, {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="reconciliation-${period.periodEnd.toISOString().slice(0, 10)}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({ period });
+  } catch (error) {
+    if (error instanceof ReconciliationError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: getReconciliationErrorStatus(error.code) });
+    }
+    console.error('Error loading reconciliation report:', error);
+    return NextResponse.json({ error: 'Failed to load report' }, { status: 500 });
+  }
+}
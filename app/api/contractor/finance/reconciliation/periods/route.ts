@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { resolveContractorAuth, can, meetsMinTier } from '@/lib/contractor-auth';
+import {
+  closeReconciliationPeriod,
+  getReconciliationErrorStatus,
+  ReconciliationError,
+} from '@/lib/services/bank-reconciliation.service';
+
+/**
+ * POST /api/contractor/finance/reconciliation/periods
+ *
+ * Body: { accountKey, periodStart, periodEnd, closingBalance, openingBalance? }
+ * Closes the period once every line is matched or excluded and the balance ties out.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const contractorAuth = await resolveContractorAuth(session.user.id);
+    if (!contractorAuth) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    if (!meetsMinTier(contractorAuth, 'pro')) return NextResponse.json({ error: 'Pro plan required' }, { status: 403 });
+    if (!can(contractorAuth, 'financials.manage')) return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+
+    const body = await req.json();
+    if (typeof body.accountKey !== 'string' || !body.periodStart || !body.periodEnd) {
+      return NextResponse.json({ error: 'accountKey, periodStart and periodEnd are required' }, { status: 400 });
+    }
+
+    const period = await closeReconciliationPeriod(
+      { type: 'contractor', contractorId: contractorAuth.contractorId },
+      body.accountKey,
+      {
+        periodStart: new Date(body.periodStart),
+        periodEnd: new Date(body.periodEnd),
+        closingBalance: Number(body.closingBalance),
+        openingBalance: body.openingBalance === undefined || body.openingBalance === '' ? undefined : Number(body.openingBalance),
+      },
+      session.user.id
+    );
+
+    return NextResponse.json({ period }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ReconciliationError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: getReconciliationErrorStatus(error.code) });
+    }
+    console.error('Error closing reconciliation period:', error);
+    return NextResponse.json({ error: 'Failed to close period' }, { status: 500 });
+  }
+}
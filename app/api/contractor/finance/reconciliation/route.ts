@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { resolveContractorAuth, can, meetsMinTier } from '@/lib/contractor-auth';
+import {
+  getReconciliationErrorStatus,
+  getReconciliationOverview,
+  importBankStatement,
+  LINE_STATUSES,
+  listStatementLines,
+  ReconciliationError,
+  type LineStatus,
+} from '@/lib/services/bank-reconciliation.service';
+
+const MAX_STATEMENT_BYTES = 5 * 1024 * 1024;
+
+/**
+ * GET /api/contractor/finance/reconciliation?accountKey=financial_account:<id>&status=unmatched
+ *
+ * Business bank accounts with open line counts and closed periods.
+ * With accountKey, also returns that account's statement lines.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const contractorAuth = await resolveContractorAuth(session.user.id);
+    if (!contractorAuth) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    if (!meetsMinTier(contractorAuth, 'pro')) return NextResponse.json({ error: 'Pro plan required' }, { status: 403 });
+    if (!can(contractorAuth, 'financials.view_detailed')) return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+
+    const owner = { type: 'contractor' as const, contractorId: contractorAuth.contractorId };
+    const { searchParams } = new URL(req.url);
+    const accountKey = searchParams.get('accountKey');
+    const status = searchParams.get('status');
+
+    const [accounts, lines] = await Promise.all([
+      getReconciliationOverview(owner),
+      accountKey
+        ? listStatementLines(owner, accountKey, {
+            status: LINE_STATUSES.includes(status as LineStatus) ? (status as LineStatus) : undefined,
+          })
+        : null,
+    ]);
+
+    return NextResponse.json({ accounts, lines });
+  } catch (error) {
+    if (error instanceof ReconciliationError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: getReconciliationErrorStatus(error.code) });
+    }
+    console.error('Error loading reconciliation:', error);
+    return NextResponse.json({ error: 'Failed to load reconciliation' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/contractor/finance/reconciliation
+ *
+ * multipart/form-data with file (OFX, QFX or CSV) and accountKey.
+ * Imports new lines and auto-matches them against expenses.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const contractorAuth = await resolveContractorAuth(session.user.id);
+    if (!contractorAuth) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    if (!meetsMinTier(contractorAuth, 'pro')) return NextResponse.json({ error: 'Pro plan required' }, { status: 403 });
+    if (!can(contractorAuth, 'financials.manage')) return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+
+    const formData = await req.formData();
+    const file = formData.get('file');
+    const accountKey = formData.get('accountKey');
+    if (!(file instanceof File) || typeof accountKey !== 'string' || !accountKey) {
+      return NextResponse.json({ error: 'A statement file and account are required' }, { status: 400 });
+    }
+    if (file.size > MAX_STATEMENT_BYTES) {
+      return NextResponse.json({ error: 'Statement files must be under 5 MB' }, { status: 400 });
+    }
+
+    const result = await importBankStatement(
+      { type: 'contractor', contractorId: contractorAuth.contractorId },
+      accountKey,
+      { name: file.name, content: await file.text() },
+      session.user.id
+    );
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof ReconciliationError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: getReconciliationErrorStatus(error.code) });
+    }
+    console.error('Error importing bank statement:', error);
+    return NextResponse.json({ error: 'Failed to import statement' }, { status: 500 });
+  }
+}
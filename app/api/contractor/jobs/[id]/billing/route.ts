@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { resolveContractorAuth, can } from '@/lib/contractor-auth';
+import {
+  ProgressBillingError,
+  getJobBilling,
+  getProgressBillingErrorStatus,
+  parseScheduleInput,
+  updateSchedule,
+} from '@/lib/services/progress-billing.service';
+
+/**
+ * GET /api/contractor/jobs/[id]/billing
+ *
+ * Schedule of values with billed-to-date figures per line, the job's
+ * contract sum (approved change orders included) and its pay applications.
+ */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const contractorAuth = await resolveContractorAuth(session.user.id);
+    if (!contractorAuth) {
+      return NextResponse.json({ error: 'Contractor profile not found' }, { status: 404 });
+    }
+    if (!can(contractorAuth, 'invoices.view')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    return NextResponse.json(await getJobBilling(contractorAuth.contractorId, id));
+  } catch (error) {
+    if (error instanceof ProgressBillingError) {
+      return NextResponse.json({ error: error.message }, { status: getProgressBillingErrorStatus(error.code) });
+    }
+    console.error('GET /api/contractor/jobs/[id]/billing', error);
+    return NextResponse.json({ error: 'Failed to load job billing' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/contractor/jobs/[id]/billing
+ * Body: { retainagePercent?, lines: [{ id?, itemNumber?, description, scheduledValue }] }
+ *
+ * Replaces the job's schedule of values. Change order lines are managed by
+ * approving change orders and are left untouched.
+ */
+export async function PUT(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const contractorAuth = await resolveContractorAuth(session.user.id);
+    if (!contractorAuth) {
+      return NextResponse.json({ error: 'Contractor profile not found' }, { status: 404 });
+    }
+    if (!can(contractorAuth, 'invoices.edit')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await req.json().catch(() => ({}));
+    return NextResponse.json(await updateSchedule(contractorAuth.contractorId, id, parseScheduleInput(body)));
+  } catch (error) {
+    if (error instanceof ProgressBillingError) {
+      return NextResponse.json({ error: error.message }, { status: getProgressBillingErrorStatus(error.code) });
+    }
+    console.error('PUT /api/contractor/jobs/[id]/billing', error);
+    return NextResponse.json({ error: 'Failed to save schedule of values' }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { resolveContractorAuth, can } from '@/lib/contractor-auth';
+import { checkLimit } from '@/lib/services/contractor-feature-gate';
+import { incrementInvoiceCount } from '@/lib/services/contractor-usage-tracker';
+import {
+  SubscriptionLimitError,
+  formatSubscriptionError,
+  logSubscriptionError,
+} from '@/lib/errors/subscription-errors';
+import {
+  ProgressBillingError,
+  getProgressBillingErrorStatus,
+  invoicePayApplication,
+} from '@/lib/services/progress-billing.service';
+
+/**
+ * POST /api/contractor/jobs/[id]/pay-applications/[applicationId]/invoice
+ *
+ * Raises the draft invoice for a pay application. The invoice PDF includes
+ * the application and continuation sheet. Counts toward the monthly invoice
+ * limit.
+ */
+export async function POST(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string; applicationId: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const contractorAuth = await resolveContractorAuth(session.user.id);
+    if (!contractorAuth) {
+      return NextResponse.json({ error: 'Contractor profile not found' }, { status: 404 });
+    }
+    if (!can(contractorAuth, 'invoices.create')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const limitCheck = await checkLimit(contractorAuth.contractorId, 'invoicesPerMonth');
+    if (!limitCheck.allowed) {
+      const error = new SubscriptionLimitError(
+        'invoices per month',
+        limitCheck.current,
+        limitCheck.limit,
+        contractorAuth.tier
+      );
+      logSubscriptionError(error, {
+        contractorId: contractorAuth.contractorId,
+        feature: 'invoicesPerMonth',
+        action: 'invoice_pay_application',
+      });
+      const formatted = formatSubscriptionError(error);
+      return NextResponse.json(formatted.body, { status: formatted.status });
+    }
+
+    const { id, applicationId } = await params;
+    const payApplication = await invoicePayApplication(contractorAuth.contractorId, id, applicationId);
+    await incrementInvoiceCount(contractorAuth.contractorId);
+
+    return NextResponse.json({ payApplication }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ProgressBillingError) {
+      return NextResponse.json({ error: error.message }, { status: getProgressBillingErrorStatus(error.code) });
+    }
+    console.error('POST /api/contractor/jobs/[id]/pay-applications/[applicationId]/invoice', error);
+    return NextResponse.json({ error: 'Failed to invoice pay application' }, { status: 500 });
+  }
+}
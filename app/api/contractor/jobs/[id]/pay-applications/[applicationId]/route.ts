@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { resolveContractorAuth, can } from '@/lib/contractor-auth';
+import {
+  ProgressBillingError,
+  deletePayApplication,
+  getProgressBillingErrorStatus,
+} from '@/lib/services/progress-billing.service';
+
+/**
+ * DELETE /api/contractor/jobs/[id]/pay-applications/[applicationId]
+ * Discards a draft pay application
+ */
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string; applicationId: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const contractorAuth = await resolveContractorAuth(session.user.id);
+    if (!contractorAuth) {
+      return NextResponse.json({ error: 'Contractor profile not found' }, { status: 404 });
+    }
+    if (!can(contractorAuth, 'invoices.delete')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id, applicationId } = await params;
+    await deletePayApplication(contractorAuth.contractorId, id, applicationId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof ProgressBillingError) {
+      return NextResponse.json({ error: error.message }, { status: getProgressBillingErrorStatus(error.code) });
+    }
+    console.error('DELETE /api/contractor/jobs/[id]/pay-applications/[applicationId]', error);
+    return NextResponse.json({ error: 'Failed to delete pay application' }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { resolveContractorAuth, can } from '@/lib/contractor-auth';
+import {
+  ProgressBillingError,
+  createPayApplication,
+  getProgressBillingErrorStatus,
+  parsePayApplicationInput,
+} from '@/lib/services/progress-billing.service';
+
+/**
+ * POST /api/contractor/jobs/[id]/pay-applications
+ * Body: { kind?: 'progress' | 'retainage_release', periodStart?, periodEnd?,
+ *         retainagePercent?, notes?, lines: [{ lineId, percentComplete }] }
+ *
+ * Saves a draft pay application. Progress applications bill each line up to
+ * its cumulative percent complete less retainage; a retainage release bills
+ * the retainage withheld once every line is complete.
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const contractorAuth = await resolveContractorAuth(session.user.id);
+    if (!contractorAuth) {
+      return NextResponse.json({ error: 'Contractor profile not found' }, { status: 404 });
+    }
+    if (!can(contractorAuth, 'invoices.create')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await req.json().catch(() => ({}));
+    const payApplication = await createPayApplication(
+      contractorAuth.contractorId,
+      id,
+      parsePayApplicationInput(body)
+    );
+
+    return NextResponse.json({ payApplication }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ProgressBillingError) {
+      return NextResponse.json({ error: error.message }, { status: getProgressBillingErrorStatus(error.code) });
+    }
+    console.error('POST /api/contractor/jobs/[id]/pay-applications', error);
+    return NextResponse.json({ error: 'Failed to create pay application' }, { status: 500 });
+  }
+}
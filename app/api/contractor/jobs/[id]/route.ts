@@ -1,8 +1,14 @@
 import { auth } from '@/auth';
 import { prisma } from '@/db/prisma';
 import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
 import { eventBus } from '@/lib/event-system';
 import { decrementJobCount } from '@/lib/services/contractor-usage-tracker';
+import {
+  geocodeJobSite,
+  MAX_GEOFENCE_RADIUS_METERS,
+  MIN_GEOFENCE_RADIUS_METERS,
+} from '@/lib/services/crew-tracking.service';
 
 // GET - Get single job
 export async function GET(
@@ -85,6 +91,21 @@ export async function PATCH(
     const { id } = await params;
     const body = await request.json();
 
+    // null drops the job's override so the contractor default applies
+    const radius = body.geofenceRadiusMeters;
+    if (
+      radius !== undefined &&
+      radius !== null &&
+      (!Number.isInteger(radius) || radius < MIN_GEOFENCE_RADIUS_METERS || radius > MAX_GEOFENCE_RADIUS_METERS)
+    ) {
+      return NextResponse.json(
+        {
+          error: `geofenceRadiusMeters must be a whole number from ${MIN_GEOFENCE_RADIUS_METERS} to ${MAX_GEOFENCE_RADIUS_METERS}`,
+        },
+        { status: 400 }
+      );
+    }
+
     const contractorProfile = await prisma.contractorProfile.findUnique({
       where: { userId: session.user.id },
     });
@@ -105,6 +126,17 @@ export async function PATCH(
       return NextResponse.json({ error: 'Job not found' }, { status: 404 });
     }
 
+    // A new address moves the job-site geofence
+    const addressChanged = ['address', 'city', 'state', 'zipCode'].some((key) => body[key] !== undefined);
+    const coordinates = addressChanged
+      ? await geocodeJobSite({
+          address: body.address !== undefined ? body.address : existingJob.address,
+          city: body.city !== undefined ? body.city : existingJob.city,
+          state: body.state !== undefined ? body.state : existingJob.state,
+          zipCode: body.zipCode !== undefined ? body.zipCode : existingJob.zipCode,
+        })
+      : null;
+
     const job = await prisma.contractorJob.update({
       where: { id },
       data: {
@@ -116,6 +148,7 @@ export async function PATCH(
         ...(body.city !== undefined && { city: body.city }),
         ...(body.state !== undefined && { state: body.state }),
         ...(body.zipCode !== undefined && { zipCode: body.zipCode }),
+        ...(addressChanged && { coordinates: coordinates ?? Prisma.JsonNull }),
         ...(body.estimatedCost !== undefined && { estimatedCost: body.estimatedCost }),
         ...(body.actualCost !== undefined && { actualCost: body.actualCost }),
         ...(body.laborCost !== undefined && { laborCost: body.laborCost }),
@@ -131,6 +164,7 @@ export async function PATCH(
         ...(body.internalNotes !== undefined && { internalNotes: body.internalNotes }),
         ...(body.tags && { tags: body.tags }),
         ...(body.priority && { priority: body.priority }),
+        ...(radius !== undefined && { geofenceRadiusMeters: radius }),
       },
       include: {
         customer: true,
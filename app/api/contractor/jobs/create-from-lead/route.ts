@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/db/prisma';
+import { geocodeJobSite } from '@/lib/services/crew-tracking.service';
 
 export async function POST(request: NextRequest) {
   try {
@@ -79,6 +80,13 @@ export async function POST(request: NextRequest) {
       orderBy: { createdAt: 'desc' },
     });
 
+    const coordinates = await geocodeJobSite({
+      address: lead.propertyAddress,
+      city: lead.propertyCity,
+      state: lead.propertyState,
+      zipCode: lead.propertyZip,
+    });
+
     // Create job
     const job = await prisma.contractorJob.create({
       data: {
@@ -94,6 +102,7 @@ export async function POST(request: NextRequest) {
         city: lead.propertyCity,
         state: lead.propertyState,
         zipCode: lead.propertyZip,
+        ...(coordinates && { coordinates }),
         estimatedCost: latestQuote?.totalPrice || lead.budgetMax || lead.budgetMin,
         priority: lead.urgency === 'emergency' ? 'urgent' : 'normal',
       },
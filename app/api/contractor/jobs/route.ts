@@ -6,6 +6,7 @@ import { checkLimit } from '@/lib/services/contractor-feature-gate';
 import { incrementJobCount } from '@/lib/services/contractor-usage-tracker';
 import { runBackgroundOps } from '@/lib/middleware/contractor-background-ops';
 import { resolveContractorAuth, can } from '@/lib/contractor-auth';
+import { geocodeJobSite } from '@/lib/services/crew-tracking.service';
 import { 
   SubscriptionLimitError, 
   formatSubscriptionError, 
@@ -134,6 +135,9 @@ export async function POST(request: Request) {
     }
     const jobNumber = `JOB-${year}-${String(nextNumber).padStart(4, '0')}`;
 
+    // Job-site geofence and dispatch routing both read the coordinates
+    const coordinates = await geocodeJobSite(body);
+
     // Create job
     const job = await prisma.contractorJob.create({
       data: {
@@ -148,6 +152,7 @@ export async function POST(request: Request) {
         city: body.city,
         state: body.state,
         zipCode: body.zipCode,
+        ...(coordinates && { coordinates }),
         estimatedCost: body.estimatedCost,
         laborCost: body.laborCost,
         materialCost: body.materialCost,
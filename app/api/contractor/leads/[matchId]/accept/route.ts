@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/db/prisma';
+import { acceptLeadMatch, getLeadRoutingErrorStatus, LeadRoutingError } from '@/lib/services/lead-routing.service';
 
 export async function POST(
   request: NextRequest,
@@ -48,49 +49,17 @@ export async function POST(
       );
     }
 
-    // Update lead match status
-    await prisma.contractorLeadMatch.update({
-      where: { id: matchId },
-      data: {
-        status: 'sent',
-        sentAt: new Date(),
-        viewedAt: new Date(), // Mark as viewed since contractor is accepting
-      },
-    });
-
-    // Deduct lead credit if applicable
-    if (leadMatch.pricingModel === 'per_lead' && leadMatch.leadCost) {
-      const leadCredit = await prisma.contractorLeadCredit.findUnique({
-        where: { contractorId: contractor.id },
-      });
-
-      if (leadCredit && Number(leadCredit.creditBalance) >= Number(leadMatch.leadCost)) {
-        await prisma.contractorLeadCredit.update({
-          where: { contractorId: contractor.id },
-          data: {
-            creditBalance: { decrement: Number(leadMatch.leadCost) },
-          },
-        });
-
-        // Create credit transaction
-        await prisma.contractorCreditTransaction.create({
-          data: {
-            creditAccountId: leadCredit.id,
-            type: 'lead_charge',
-            amount: -Number(leadMatch.leadCost),
-            balanceAfter: Number(leadCredit.creditBalance) - Number(leadMatch.leadCost),
-            description: `Lead accepted: ${leadMatch.lead.projectTitle || leadMatch.lead.projectType}`,
-            leadMatchId: matchId,
-          },
-        });
-      }
-    }
+    // Pay for the lead and mark it sent, unless it expired or was cancelled meanwhile
+    await acceptLeadMatch(matchId);
 
     return NextResponse.json({
       success: true,
       message: 'Lead accepted successfully',
     });
   } catch (error) {
+    if (error instanceof LeadRoutingError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: getLeadRoutingErrorStatus(error.code) });
+    }
     console.error('Error accepting lead:', error);
     return NextResponse.json(
       { error: 'Failed to accept lead' },
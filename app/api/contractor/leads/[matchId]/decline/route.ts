@@ -1,5 +1,6 @@
 import { auth } from '@/auth';
 import { prisma } from '@/db/prisma';
+import { refundLeadMatch } from '@/lib/services/lead-routing.service';
 import { NextRequest, NextResponse } from 'next/server';
 
 /**
@@ -39,28 +40,18 @@ export async function POST(
       return NextResponse.json({ error: 'Cannot decline after responding' }, { status: 400 });
     }
 
-    // Update the match
+    const refundReason = reason || 'Declined by contractor';
     await prisma.contractorLeadMatch.update({
       where: { id: matchId },
       data: {
         status: 'lost',
         refundRequested: true,
-        refundReason: reason || 'Declined by contractor',
+        refundReason,
       },
     });
 
-    // Auto-approve refund if lead wasn't charged yet
-    // (In a real system, you might have more complex refund logic)
-    if (match.pricingModel === 'per_lead' && !match.respondedAt) {
-      await prisma.contractorLeadMatch.update({
-        where: { id: matchId },
-        data: {
-          refundApproved: true,
-          refundAmount: match.leadCost,
-          refundedAt: new Date(),
-        },
-      });
-    }
+    // Declining before responding returns whatever accepting the lead charged
+    await refundLeadMatch(matchId, refundReason);
 
     return NextResponse.json({
       success: true,
@@ -1,5 +1,6 @@
 import { auth } from '@/auth';
 import { prisma } from '@/db/prisma';
+import { getLeadRoutingErrorStatus, LeadRoutingError, respondToLeadMatch } from '@/lib/services/lead-routing.service';
 import { NextRequest, NextResponse } from 'next/server';
 
 /**
@@ -45,50 +46,12 @@ export async function POST(
       return NextResponse.json({ error: 'Already responded to this lead' }, { status: 400 });
     }
 
-    // Update the match
-    await prisma.contractorLeadMatch.update({
-      where: { id: matchId },
-      data: {
-        status: quoteAmount ? 'quoted' : 'responded',
-        responseMessage: message.trim(),
-        quoteAmount: quoteAmount ? parseFloat(quoteAmount) : null,
-        estimatedDuration: estimatedDuration || null,
-        respondedAt: new Date(),
-        quotedAt: quoteAmount ? new Date() : null,
-      },
-    });
-
-    // Charge for the lead if pay-per-lead model
-    if (match.pricingModel === 'per_lead' && match.leadCost) {
-      const creditAccount = await prisma.contractorLeadCredit.findUnique({
-        where: { contractorId: match.contractorId },
-      });
-
-      if (creditAccount) {
-        const newBalance = parseFloat(creditAccount.creditBalance.toString()) - parseFloat(match.leadCost.toString());
-        
-        await prisma.contractorLeadCredit.update({
-          where: { id: creditAccount.id },
-          data: { creditBalance: newBalance },
-        });
-
-        await prisma.contractorCreditTransaction.create({
-          data: {
-            creditAccountId: creditAccount.id,
-            type: 'lead_charge',
-            amount: -parseFloat(match.leadCost.toString()),
-            balanceAfter: newBalance,
-            description: `Lead response: ${match.lead.projectType}`,
-            leadMatchId: matchId,
-          },
-        });
-      }
-    }
-
-    // Update lead status
-    await prisma.contractorLead.update({
-      where: { id: match.leadId },
-      data: { status: 'responded' },
+    // Pay for the lead unless accepting it already did, and record the
+    // response unless the lead expired or was cancelled meanwhile
+    await respondToLeadMatch(matchId, {
+      message: message.trim(),
+      quoteAmount: quoteAmount ? parseFloat(quoteAmount) : null,
+      estimatedDuration: estimatedDuration || null,
     });
 
     // TODO: Send email notification to customer with contractor's response
@@ -99,6 +62,9 @@ export async function POST(
       message: 'Response sent successfully',
     });
   } catch (error) {
+    if (error instanceof LeadRoutingError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: getLeadRoutingErrorStatus(error.code) });
+    }
     console.error('Error responding to lead:', error);
     return NextResponse.json(
       { success: false, message: 'Failed to send response' },
@@ -2,10 +2,10 @@ import { auth } from '@/auth';
 import { prisma } from '@/db/prisma';
 import { NextRequest, NextResponse } from 'next/server';
 import { sendContractorLeadNotification, sendCustomerLeadConfirmation } from '@/lib/services/marketplace-email';
-import { dbTriggers } from '@/lib/event-system';
 import { canAccessFeature, checkLimit } from '@/lib/services/contractor-feature-gate';
 import { incrementLeadCount, decrementLeadCount } from '@/lib/services/contractor-usage-tracker';
 import { createNotification } from '@/lib/services/contractor-notification-service';
+import { assignLeadToContractor, routeLead } from '@/lib/services/lead-routing.service';
 
 /**
  * Create a new contractor lead
@@ -159,7 +159,7 @@ export async function POST(req: NextRequest) {
 
     // If preselected contractor, create match immediately
     if (finalContractorId) {
-      await createLeadMatch(lead.id, finalContractorId, true);
+      await assignLeadToContractor(lead.id, finalContractorId);
       
       // Increment lead count for usage tracking
       await incrementLeadCount(finalContractorId);
@@ -181,8 +181,12 @@ export async function POST(req: NextRequest) {
         });
       }
     } else {
-      // Find and match contractors
-      await matchContractorsToLead(lead.id);
+      // Score and match contractors; unanswered leads escalate to the next tier later
+      try {
+        await routeLead(lead.id);
+      } catch (error) {
+        console.error('Failed to route lead:', error);
+      }
     }
 
     // Send email confirmation to customer
@@ -296,154 +300,3 @@ export async function GET(req: NextRequest) {
     );
   }
 }
-
-/**
- * Match contractors to a lead based on specialty, location, and availability
- */
-async function matchContractorsToLead(leadId: string) {
-  const lead = await prisma.contractorLead.findUnique({
-    where: { id: leadId },
-  });
-
-  if (!lead) return;
-
-  // Find matching contractors
-  const contractors = await prisma.contractorProfile.findMany({
-    where: {
-      isPublic: true,
-      acceptingNewWork: true,
-      isAvailable: true,
-      specialties: {
-        has: lead.projectType,
-      },
-      // Location matching - check if contractor serves this zip code
-      OR: [
-        { serviceAreas: { has: lead.propertyZip || '' } },
-        { baseState: lead.propertyState },
-        // If no specific service areas, match by state
-        { serviceAreas: { isEmpty: true }, baseState: lead.propertyState },
-      ],
-    },
-    include: {
-      leadCredit: true,
-      leadPreferences: true,
-    },
-    orderBy: [
-      { rankScore: 'desc' },
-      { avgRating: 'desc' },
-    ],
-    take: lead.maxContractors * 2, // Get extra in case some don't qualify
-  });
-
-  // Filter and score contractors
-  const scoredContractors = contractors
-    .filter(c => {
-      // Check if contractor has credits or subscription
-      const credit = c.leadCredit;
-      if (!credit) return true; // New contractors get free leads initially
-      
-      // Check preferences
-      const prefs = c.leadPreferences;
-      if (prefs?.isPaused) return false;
-      if (prefs?.minJobValue && lead.budgetMax && parseFloat(lead.budgetMax.toString()) < parseFloat(prefs.minJobValue.toString())) return false;
-      
-      return true;
-    })
-    .map(c => ({
-      contractor: c,
-      score: calculateMatchScore(c, lead),
-    }))
-    .sort((a, b) => b.score - a.score)
-    .slice(0, lead.maxContractors);
-
-  // Create matches
-  for (const { contractor, score } of scoredContractors) {
-    await createLeadMatch(leadId, contractor.id, lead.isExclusive, score);
-  }
-
-  // Update lead status
-  await prisma.contractorLead.update({
-    where: { id: leadId },
-    data: { status: scoredContractors.length > 0 ? 'matching' : 'new' },
-  });
-}
-
-/**
- * Create a lead match record
- */
-async function createLeadMatch(
-  leadId: string, 
-  contractorId: string, 
-  isExclusive: boolean,
-  matchScore: number = 50
-) {
-  // Determine pricing based on contractor's preferences
-  const contractor = await prisma.contractorProfile.findUnique({
-    where: { id: contractorId },
-    include: { leadCredit: true },
-  });
-
-  const pricingModel = contractor?.leadCredit?.preferredPricing || 'per_lead';
-  
-  // Calculate lead cost based on lead quality and exclusivity
-  let leadCost = 10; // Base cost
-  if (isExclusive) leadCost *= 2;
-  // Higher quality leads cost more
-  const lead = await prisma.contractorLead.findUnique({ where: { id: leadId } });
-  if (lead && lead.leadScore > 70) leadCost += 5;
-  if (lead && lead.leadScore > 85) leadCost += 5;
-
-  const match = await prisma.contractorLeadMatch.create({
-    data: {
-      leadId,
-      contractorId,
-      pricingModel,
-      leadCost: pricingModel === 'per_lead' ? leadCost : null,
-      bookingFeePercent: pricingModel === 'per_booking' ? 6 : null,
-      matchScore,
-      status: 'pending',
-      priority: matchScore,
-    },
-  });
-
-  // ✅ NEW: Emit event for contractor lead match (notifies contractor)
-  try {
-    if (lead) {
-      await dbTriggers.onContractorLeadMatch(match, lead);
-    }
-  } catch (error) {
-    console.error('Failed to emit lead match event:', error);
-  }
-}
-
-/**
- * Calculate how well a contractor matches a lead
- */
-function calculateMatchScore(contractor: any, lead: any): number {
-  let score = 50; // Base score
-
-  // Rating bonus
-  if (contractor.avgRating >= 4.5) score += 20;
-  else if (contractor.avgRating >= 4.0) score += 15;
-  else if (contractor.avgRating >= 3.5) score += 10;
-
-  // Experience bonus
-  if (contractor.completedJobs > 100) score += 15;
-  else if (contractor.completedJobs > 50) score += 10;
-  else if (contractor.completedJobs > 20) score += 5;
-
-  // Response rate bonus
-  if (contractor.responseRate > 90) score += 10;
-  else if (contractor.responseRate > 75) score += 5;
-
-  // Verification bonuses
-  if (contractor.insuranceVerified) score += 5;
-  if (contractor.backgroundChecked) score += 5;
-  if (contractor.identityVerified) score += 5;
-
-  // Location proximity (if we had coordinates, we'd calculate distance)
-  if (contractor.baseCity === lead.propertyCity) score += 10;
-  if (contractor.baseState === lead.propertyState) score += 5;
-
-  return Math.min(score, 100);
-}
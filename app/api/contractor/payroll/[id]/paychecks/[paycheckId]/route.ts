@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/db/prisma';
 import { resolveContractorAuth, can, meetsMinTier } from '@/lib/contractor-auth';
+import { voidPaycheckTaxes } from '@/lib/services/payroll-tax.service';
 
 // ── PATCH — mark a paycheck as paid, void, or update payment details ──────────
 
@@ -45,6 +46,11 @@ export async function PATCH(
       return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
     }
 
+    // Voided checks drop out of YTD, 941 and W-2 totals; un-voiding restores them
+    if (status && (status === 'void') !== (paycheck.status === 'void')) {
+      await voidPaycheckTaxes({ contractorPaycheckId: paycheck.id }, status === 'void');
+    }
+
     const updated = await db.contractorPaycheck.update({
       where: { id: params.paycheckId },
       data: {
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { resolveContractorAuth, can, meetsMinTier } from '@/lib/contractor-auth';
+import {
+  PayrollTaxError,
+  generateContractorPayStubPdf,
+  getPayrollTaxErrorStatus,
+} from '@/lib/services/payroll-tax.service';
+
+// ── GET — pay stub PDF with current and year-to-date figures ──────────────────
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string; paycheckId: string }> },
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const contractorAuth = await resolveContractorAuth(session.user.id);
+    if (!contractorAuth) return NextResponse.json({ error: 'Contractor profile not found' }, { status: 404 });
+    if (!meetsMinTier(contractorAuth, 'pro')) return NextResponse.json({ error: 'Pro plan required' }, { status: 403 });
+    if (!can(contractorAuth, 'payroll.view')) return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+
+    const { id, paycheckId } = await params;
+    const { filename, pdf } = await generateContractorPayStubPdf(contractorAuth.contractorId, id, paycheckId);
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof PayrollTaxError) {
+      return NextResponse.json({ error: error.message }, { status: getPayrollTaxErrorStatus(error.code) });
+    }
+    console.error('GET pay stub', error);
+    return NextResponse.json({ error: 'Failed to generate pay stub' }, { status: 500 });
+  }
+}
@@ -2,6 +2,14 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/db/prisma';
 import { resolveContractorAuth, can, meetsMinTier } from '@/lib/contractor-auth';
+import {
+  PayrollTaxError,
+  getPayrollTaxErrorStatus,
+  isWithheldEmployeeType,
+  recordPaycheckTaxes,
+  toPayFrequency,
+  withholdPaycheckTaxes,
+} from '@/lib/services/payroll-tax.service';
 
 // ── helpers ──────────────────────────────────────────────────────────────────
 
@@ -12,23 +20,6 @@ function calcHours(clockIn: Date, clockOut: Date, breakMinutes: number): number
   );
 }
 
-interface DeductionLine {
-  label: string;
-  amount: number;
-  type: string; // federal_tax, state_tax, social_security, medicare, health, other
-}
-
-// Very lightweight flat-rate withholding estimate (contractor can override deductions in UI)
-function estimateDeductions(grossPay: number, employeeType: string): DeductionLine[] {
-  if (employeeType === '1099') return []; // 1099s handle their own taxes
-  const lines: DeductionLine[] = [];
-  if (grossPay <= 0) return lines;
-  lines.push({ label: 'Federal Income Tax (est.)', amount: parseFloat((grossPay * 0.12).toFixed(2)), type: 'federal_tax' });
-  lines.push({ label: 'Social Security (6.2%)', amount: parseFloat((grossPay * 0.062).toFixed(2)), type: 'social_security' });
-  lines.push({ label: 'Medicare (1.45%)', amount: parseFloat((grossPay * 0.0145).toFixed(2)), type: 'medicare' });
-  return lines;
-}
-
 // ── GET — list payroll runs ───────────────────────────────────────────────────
 
 export async function GET(req: NextRequest) {
@@ -111,6 +102,8 @@ export async function POST(req: NextRequest) {
 
     const start = new Date(periodStart);
     const end = new Date(periodEnd);
+    const paidOn = new Date(payDate);
+    const payFrequency = toPayFrequency(paySchedule);
 
     // Fetch employees
     const employees = await db.contractorEmployee.findMany({
@@ -161,8 +154,8 @@ export async function POST(req: NextRequest) {
           contractorId: contractorProfile.id,
           periodStart: start,
           periodEnd: end,
-          payDate: new Date(payDate),
-          paySchedule: paySchedule || 'biweekly',
+          payDate: paidOn,
+          paySchedule: payFrequency,
           status: 'processing',
           runAt: new Date(),
           runBy: session.user!.id,
@@ -206,15 +199,21 @@ export async function POST(req: NextRequest) {
           ? rate // salary payRate is already per-period
           : regularPay + overtimePay + ptoPay;
 
-        const deductionLines = estimateDeductions(grossPay, emp.employeeType);
-        const totalDeductionsAmt = deductionLines.reduce((s, d) => s + d.amount, 0);
-        const netPay = grossPay - totalDeductionsAmt;
+        // W-2 employees are withheld on from their tax profile; 1099s handle their own taxes
+        const employer = { contractorId: contractorProfile.id };
+        const employee = { contractorEmployeeId: emp.id };
+        const taxes = isWithheldEmployeeType(emp.employeeType)
+          ? await withholdPaycheckTaxes(tx, { employer, employee, grossPay, payDate: paidOn, payFrequency })
+          : null;
+        const deductionLines = taxes?.deductions ?? [];
+        const totalDeductionsAmt = taxes?.totalDeductions ?? 0;
+        const netPay = taxes?.netPay ?? grossPay;
 
         totalGross += grossPay;
         totalDed += totalDeductionsAmt;
         totalNet += netPay;
 
-        await (tx as any).contractorPaycheck.create({
+        const paycheck = await (tx as any).contractorPaycheck.create({
           data: {
             payrollId: run.id,
             employeeId: emp.id,
@@ -236,6 +235,15 @@ export async function POST(req: NextRequest) {
             status: 'pending',
           },
         });
+
+        if (taxes) {
+          await recordPaycheckTaxes(tx, taxes, {
+            employer,
+            employee,
+            payDate: paidOn,
+            paycheck: { contractorPaycheckId: paycheck.id },
+          });
+        }
       }
 
       // Update payroll totals
@@ -260,6 +268,9 @@ export async function POST(req: NextRequest) {
 
     return NextResponse.json({ payroll }, { status: 201 });
   } catch (error) {
+    if (error instanceof PayrollTaxError) {
+      return NextResponse.json({ error: error.message }, { status: getPayrollTaxErrorStatus(error.code) });
+    }
     console.error('POST /api/contractor/payroll', error);
     return NextResponse.json({ error: 'Failed to run payroll' }, { status: 500 });
   }
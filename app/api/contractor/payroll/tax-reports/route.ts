@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { resolveContractorAuth, can, meetsMinTier } from '@/lib/contractor-auth';
+import {
+  PayrollTaxError,
+  getPayrollTaxErrorStatus,
+  getQuarterlyReport,
+  getW2Report,
+} from '@/lib/services/payroll-tax.service';
+
+// ── GET — Form 941 figures per quarter and W-2 figures per employee ───────────
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const contractorAuth = await resolveContractorAuth(session.user.id);
+    if (!contractorAuth) return NextResponse.json({ error: 'Contractor profile not found' }, { status: 404 });
+    if (!meetsMinTier(contractorAuth, 'pro')) return NextResponse.json({ error: 'Pro plan required' }, { status: 403 });
+    if (!can(contractorAuth, 'payroll.view')) return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+
+    const { searchParams } = new URL(req.url);
+    const year = parseInt(searchParams.get('year') || String(new Date().getFullYear()), 10);
+    const employer = { contractorId: contractorAuth.contractorId };
+
+    const quarters = await Promise.all([1, 2, 3, 4].map((quarter) => getQuarterlyReport(employer, year, quarter)));
+    const w2 = await getW2Report(employer, year);
+
+    return NextResponse.json({ year, quarters, w2 });
+  } catch (error) {
+    if (error instanceof PayrollTaxError) {
+      return NextResponse.json({ error: error.message }, { status: getPayrollTaxErrorStatus(error.code) });
+    }
+    console.error('GET /api/contractor/payroll/tax-reports', error);
+    return NextResponse.json({ error: 'Failed to build tax reports' }, { status: 500 });
+  }
+}
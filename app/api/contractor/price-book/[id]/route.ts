@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { resolveContractorAuth, can } from '@/lib/contractor-auth';
+import {
+  PriceBookError,
+  archivePriceBookItem,
+  getPriceBookErrorStatus,
+  parsePriceBookItemInput,
+  updatePriceBookItem,
+} from '@/lib/services/price-book.service';
+
+/**
+ * PATCH /api/contractor/price-book/[id]
+ *
+ * Updates the given fields. Quotes already sent keep the prices they were
+ * built with.
+ */
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const contractorAuth = await resolveContractorAuth(session.user.id);
+    if (!contractorAuth) {
+      return NextResponse.json({ error: 'Contractor profile not found' }, { status: 404 });
+    }
+    if (!can(contractorAuth, 'estimates.edit')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await req.json().catch(() => ({}));
+    const item = await updatePriceBookItem(contractorAuth.contractorId, id, parsePriceBookItemInput(body, true));
+
+    return NextResponse.json({ item });
+  } catch (error) {
+    if (error instanceof PriceBookError) {
+      return NextResponse.json({ error: error.message }, { status: getPriceBookErrorStatus(error.code) });
+    }
+    console.error('PATCH /api/contractor/price-book/[id]', error);
+    return NextResponse.json({ error: 'Failed to update price book item' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/contractor/price-book/[id]
+ *
+ * Archives the item so it no longer appears when building quotes.
+ */
+export async function DELETE(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const contractorAuth = await resolveContractorAuth(session.user.id);
+    if (!contractorAuth) {
+      return NextResponse.json({ error: 'Contractor profile not found' }, { status: 404 });
+    }
+    if (!can(contractorAuth, 'estimates.delete')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    await archivePriceBookItem(contractorAuth.contractorId, id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof PriceBookError) {
+      return NextResponse.json({ error: error.message }, { status: getPriceBookErrorStatus(error.code) });
+    }
+    console.error('DELETE /api/contractor/price-book/[id]', error);
+    return NextResponse.json({ error: 'Failed to archive price book item' }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { resolveContractorAuth, can } from '@/lib/contractor-auth';
+import {
+  PriceBookError,
+  getPriceBookErrorStatus,
+  parseMarkupRules,
+  replaceMarkupRules,
+} from '@/lib/services/price-book.service';
+
+/**
+ * PUT /api/contractor/price-book/markup-rules
+ * Body: { rules: [{ itemType?, category?, minCost?, maxCost?, markupPercent }] }
+ *
+ * Replaces the contractor's markup rules. The most specific matching rule
+ * (category, then item type, then the highest cost tier) prices items
+ * without a fixed price or their own markup.
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const contractorAuth = await resolveContractorAuth(session.user.id);
+    if (!contractorAuth) {
+      return NextResponse.json({ error: 'Contractor profile not found' }, { status: 404 });
+    }
+    if (!can(contractorAuth, 'estimates.edit')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const rules = await replaceMarkupRules(contractorAuth.contractorId, parseMarkupRules(body.rules));
+
+    return NextResponse.json({ rules });
+  } catch (error) {
+    if (error instanceof PriceBookError) {
+      return NextResponse.json({ error: error.message }, { status: getPriceBookErrorStatus(error.code) });
+    }
+    console.error('PUT /api/contractor/price-book/markup-rules', error);
+    return NextResponse.json({ error: 'Failed to save markup rules' }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { resolveContractorAuth, can } from '@/lib/contractor-auth';
+import {
+  PriceBookError,
+  createPriceBookItem,
+  getPriceBookErrorStatus,
+  listPriceBook,
+  parsePriceBookItemInput,
+  type PriceBookItemInput,
+} from '@/lib/services/price-book.service';
+
+/**
+ * GET /api/contractor/price-book?archived=true
+ *
+ * Price book items with their current sell price (fixed, or cost plus
+ * markup) and the contractor's markup rules.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const contractorAuth = await resolveContractorAuth(session.user.id);
+    if (!contractorAuth) {
+      return NextResponse.json({ error: 'Contractor profile not found' }, { status: 404 });
+    }
+    if (!can(contractorAuth, 'estimates.view')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const includeArchived = new URL(req.url).searchParams.get('archived') === 'true';
+    const priceBook = await listPriceBook(contractorAuth.contractorId, { includeArchived });
+
+    return NextResponse.json(priceBook);
+  } catch (error) {
+    console.error('GET /api/contractor/price-book', error);
+    return NextResponse.json({ error: 'Failed to load price book' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/contractor/price-book
+ * Body: { type, name, sku?, category?, description?, unit?, inventoryItemId?,
+ *         unitCost?, unitPrice?, markupPercent? }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const contractorAuth = await resolveContractorAuth(session.user.id);
+    if (!contractorAuth) {
+      return NextResponse.json({ error: 'Contractor profile not found' }, { status: 404 });
+    }
+    if (!can(contractorAuth, 'estimates.create')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const input = parsePriceBookItemInput(body) as PriceBookItemInput;
+    const item = await createPriceBookItem(contractorAuth.contractorId, input);
+
+    return NextResponse.json({ item }, { status: 201 });
+  } catch (error) {
+    if (error instanceof PriceBookError) {
+      return NextResponse.json({ error: error.message }, { status: getPriceBookErrorStatus(error.code) });
+    }
+    console.error('POST /api/contractor/price-book', error);
+    return NextResponse.json({ error: 'Failed to create price book item' }, { status: 500 });
+  }
+}
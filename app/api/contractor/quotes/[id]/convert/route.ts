@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { resolveContractorAuth, can } from '@/lib/contractor-auth';
+import { checkLimit } from '@/lib/services/contractor-feature-gate';
+import { incrementInvoiceCount } from '@/lib/services/contractor-usage-tracker';
+import {
+  SubscriptionLimitError,
+  formatSubscriptionError,
+  logSubscriptionError,
+} from '@/lib/errors/subscription-errors';
+import {
+  PriceBookError,
+  convertQuoteToJob,
+  getPriceBookErrorStatus,
+} from '@/lib/services/price-book.service';
+
+/**
+ * POST /api/contractor/quotes/[id]/convert
+ *
+ * Converts an accepted line-item quote: the chosen option's inventory-linked
+ * materials are planned on the job and a draft invoice is raised from its
+ * lines. Counts toward the monthly invoice limit.
+ */
+export async function POST(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const contractorAuth = await resolveContractorAuth(session.user.id);
+    if (!contractorAuth) {
+      return NextResponse.json({ error: 'Contractor profile not found' }, { status: 404 });
+    }
+    if (!can(contractorAuth, 'jobs.create') || !can(contractorAuth, 'invoices.create')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const limitCheck = await checkLimit(contractorAuth.contractorId, 'invoicesPerMonth');
+    if (!limitCheck.allowed) {
+      const error = new SubscriptionLimitError(
+        'invoices per month',
+        limitCheck.current,
+        limitCheck.limit,
+        contractorAuth.tier
+      );
+      logSubscriptionError(error, {
+        contractorId: contractorAuth.contractorId,
+        feature: 'invoicesPerMonth',
+        action: 'convert_quote',
+      });
+      const formatted = formatSubscriptionError(error);
+      return NextResponse.json(formatted.body, { status: formatted.status });
+    }
+
+    const { id } = await params;
+    const result = await convertQuoteToJob(contractorAuth.contractorId, id);
+    await incrementInvoiceCount(contractorAuth.contractorId);
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof PriceBookError) {
+      return NextResponse.json({ error: error.message }, { status: getPriceBookErrorStatus(error.code) });
+    }
+    console.error('POST /api/contractor/quotes/[id]/convert', error);
+    return NextResponse.json({ error: 'Failed to convert quote' }, { status: 500 });
+  }
+}
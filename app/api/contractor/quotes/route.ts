@@ -2,9 +2,21 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/db/prisma';
 import { MarketplaceNotifications } from '@/lib/services/marketplace-notifications';
+import {
+  PriceBookError,
+  getPriceBookErrorStatus,
+  parseQuoteDraft,
+  priceQuoteDraft,
+  saveQuotePricing,
+} from '@/lib/services/price-book.service';
 
 /**
  * POST - Create a new quote
+ *
+ * Either flat-priced (basePrice/discount/tax/totalPrice) or built from price
+ * book line items: `lineItems` are included in every option and `options`
+ * ([{ tier: 'good' | 'better' | 'best', name, recommended, lineItems }]) let
+ * the homeowner choose. Line-item quotes are priced here, not by the client.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -54,10 +66,12 @@ export async function POST(request: NextRequest) {
       notes,
     } = body;
 
+    const draft = parseQuoteDraft(body);
+
     // Validate required fields
-    if (!leadId || !title || !basePrice) {
+    if (!leadId || !title || (!basePrice && !draft)) {
       return NextResponse.json(
-        { error: 'Lead ID, title, and base price are required' },
+        { error: 'Lead ID, title, and base price or line items are required' },
         { status: 400 }
       );
     }
@@ -84,29 +98,36 @@ export async function POST(request: NextRequest) {
     const validUntil = new Date();
     validUntil.setDate(validUntil.getDate() + 7);
 
+    const pricing = draft ? await priceQuoteDraft(contractor.id, draft) : null;
+
     // Create quote
-    const quote = await prisma.contractorQuote.create({
-      data: {
-        leadId,
-        contractorId: contractor.id,
-        customerId,
-        title,
-        description,
-        projectScope,
-        deliverables: deliverables || [],
-        basePrice: Number(basePrice),
-        discount: Number(discount) || 0,
-        tax: Number(tax) || 0,
-        totalPrice: Number(totalPrice),
-        estimatedHours: estimatedHours ? Number(estimatedHours) : null,
-        hourlyRate: hourlyRate ? Number(hourlyRate) : null,
-        startDate: startDate ? new Date(startDate) : null,
-        completionDate: completionDate ? new Date(completionDate) : null,
-        paymentTerms,
-        warranty,
-        notes,
-        validUntil,
-      },
+    const quote = await prisma.$transaction(async (tx) => {
+      const created = await tx.contractorQuote.create({
+        data: {
+          leadId,
+          contractorId: contractor.id,
+          customerId,
+          title,
+          description,
+          projectScope,
+          deliverables: deliverables || [],
+          basePrice: pricing ? pricing.headline.basePrice : Number(basePrice),
+          discount: pricing ? pricing.headline.discount : Number(discount) || 0,
+          tax: pricing ? pricing.headline.tax : Number(tax) || 0,
+          totalPrice: pricing ? pricing.headline.totalPrice : Number(totalPrice),
+          taxRate: pricing ? pricing.taxRate : null,
+          estimatedHours: estimatedHours ? Number(estimatedHours) : null,
+          hourlyRate: hourlyRate ? Number(hourlyRate) : null,
+          startDate: startDate ? new Date(startDate) : null,
+          completionDate: completionDate ? new Date(completionDate) : null,
+          paymentTerms,
+          warranty,
+          notes,
+          validUntil,
+        },
+      });
+      if (pricing) await saveQuotePricing(tx, created.id, pricing);
+      return created;
     });
 
     // Update lead match status if exists
@@ -123,7 +144,7 @@ export async function POST(request: NextRequest) {
         data: {
           status: 'quoted',
           quotedAt: new Date(),
-          quoteAmount: Number(totalPrice),
+          quoteAmount: quote.totalPrice,
         },
       });
     }
@@ -135,7 +156,7 @@ export async function POST(request: NextRequest) {
         quoteId: quote.id,
         leadTitle: lead.projectTitle || lead.projectType,
         contractorName: contractor.businessName || contractor.user?.name || 'A contractor',
-        amount: Number(totalPrice),
+        amount: Number(quote.totalPrice),
       });
     } catch (error) {
       console.error('Failed to send quote notification:', error);
@@ -147,6 +168,9 @@ export async function POST(request: NextRequest) {
       quote,
     });
   } catch (error) {
+    if (error instanceof PriceBookError) {
+      return NextResponse.json({ error: error.message }, { status: getPriceBookErrorStatus(error.code) });
+    }
     console.error('Error creating quote:', error);
     return NextResponse.json(
       { error: 'Failed to create quote' },
@@ -204,10 +228,15 @@ export async function GET(request: NextRequest) {
             image: true,
           },
         },
+        options: {
+          select: { id: true, tier: true, name: true, total: true },
+          orderBy: { sortOrder: 'asc' },
+        },
         _count: {
           select: {
             counterOffers: true,
             messages: true,
+            lineItems: true,
           },
         },
       },
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/db/prisma';
+import {
+  addManualServiceArea,
+  getServiceAreaErrorStatus,
+  listServiceAreas,
+  removeManualServiceArea,
+  ServiceAreaError,
+} from '@/lib/services/contractor-service-area.service';
+
+async function getContractorProfile() {
+  const session = await auth();
+  if (!session?.user?.id || session.user.role !== 'contractor') return null;
+  return prisma.contractorProfile.findUnique({
+    where: { userId: session.user.id },
+    select: { id: true, baseLatitude: true, baseLongitude: true, geocodedAt: true },
+  });
+}
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof ServiceAreaError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: getServiceAreaErrorStatus(error.code) });
+  }
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+/**
+ * GET /api/contractor/service-areas
+ * The contractor's geocoded coverage: areas derived from the profile plus hand-drawn ones
+ */
+export async function GET() {
+  try {
+    const profile = await getContractorProfile();
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const areas = await listServiceAreas(profile.id);
+    return NextResponse.json({
+      base:
+        profile.baseLatitude !== null && profile.baseLongitude !== null
+          ? { lat: profile.baseLatitude, lng: profile.baseLongitude }
+          : null,
+      geocodedAt: profile.geocodedAt,
+      areas,
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch service areas');
+  }
+}
+
+/**
+ * POST /api/contractor/service-areas
+ * Add a manual area: { polygon: [[lat, lng], ...] } or { location | latitude + longitude, radiusMiles }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const profile = await getContractorProfile();
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const area = await addManualServiceArea(profile.id, {
+      label: typeof body.label === 'string' ? body.label : undefined,
+      polygon: body.polygon,
+      latitude: typeof body.latitude === 'number' ? body.latitude : undefined,
+      longitude: typeof body.longitude === 'number' ? body.longitude : undefined,
+      location: typeof body.location === 'string' ? body.location : undefined,
+      radiusMiles: body.radiusMiles,
+    });
+    return NextResponse.json({ area }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'Failed to add service area');
+  }
+}
+
+/**
+ * DELETE /api/contractor/service-areas?id=<areaId>
+ * Remove a manual area. Profile-derived areas change with the profile instead.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const profile = await getContractorProfile();
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+
+    await removeManualServiceArea(profile.id, id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, 'Failed to remove service area');
+  }
+}
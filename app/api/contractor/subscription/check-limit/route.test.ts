@@ -67,10 +67,12 @@ describe('POST /api/contractor/subscription/check-limit', () => {
     
     // Default mock implementations
     mockAuth.mockResolvedValue(mockSession as any);
-    mockCheckRateLimit.mockReturnValue({
+    mockCheckRateLimit.mockResolvedValue({
       allowed: true,
       remaining: 99,
       resetIn: 60000,
+      limit: 100,
+      windowMs: 60000,
     });
     mockGetClientIdentifier.mockReturnValue('127.0.0.1');
     mockCreateRateLimitHeaders.mockReturnValue(new Headers());
@@ -96,10 +98,12 @@ describe('POST /api/contractor/subscription/check-limit', () => {
 
   describe('Rate Limiting', () => {
     it('should return 429 if rate limit is exceeded', async () => {
-      mockCheckRateLimit.mockReturnValue({
+      mockCheckRateLimit.mockResolvedValue({
         allowed: false,
         remaining: 0,
         resetIn: 30000,
+        limit: 100,
+        windowMs: 60000,
       });
 
       const request = new Request('http://localhost/api/contractor/subscription/check-limit', {
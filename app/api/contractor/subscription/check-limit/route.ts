@@ -78,7 +78,7 @@ export async function POST(request: NextRequest) {
 
     // 2. Rate Limiting
     const identifier = `check-limit:${session.user.id}`;
-    const rateLimitResult = checkRateLimit(identifier, RATE_LIMIT_CONFIGS.api);
+    const rateLimitResult = await checkRateLimit(identifier, RATE_LIMIT_CONFIGS.api);
 
     if (!rateLimitResult.allowed) {
       const headers = createRateLimitHeaders(
@@ -1,153 +1,128 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
 import { prisma } from '@/db/prisma';
+import { parseContractorSearchCriteria, resolveContractorSearch } from '@/lib/services/contractor-search';
+
+// Location searches are ranked in memory, so cap how many profiles they load
+const MAX_LOCATION_RESULTS = 1000;
 
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
 
-    // Extract filters
-    const query = searchParams.get('query') || '';
-    const location = searchParams.get('location') || '';
-    const radius = parseInt(searchParams.get('radius') || '25');
-    const serviceTypes = searchParams.get('serviceTypes')?.split(',').filter(Boolean) || [];
-    const minRating = parseFloat(searchParams.get('minRating') || '0');
-    const maxPrice = parseInt(searchParams.get('maxPrice') || '10000');
-    const verified = searchParams.get('verified') === 'true';
-    const licensed = searchParams.get('licensed') === 'true';
-    const insured = searchParams.get('insured') === 'true';
-    const backgroundChecked = searchParams.get('backgroundChecked') === 'true';
-    const minExperience = parseInt(searchParams.get('minExperience') || '0');
-    const availability = searchParams.get('availability') || 'any';
-    const sortBy = searchParams.get('sortBy') || 'relevance';
-    const page = parseInt(searchParams.get('page') || '1');
-    const limit = parseInt(searchParams.get('limit') || '20');
-
-    // Build where clause
-    const where: any = {
-      isActive: true,
-    };
-
-    // Text search
-    if (query) {
-      where.OR = [
-        { businessName: { contains: query, mode: 'insensitive' } },
-        { bio: { contains: query, mode: 'insensitive' } },
-        { tagline: { contains: query, mode: 'insensitive' } },
-        { services: { hasSome: [query] } },
-      ];
-    }
-
-    // Location search (simplified - in production use geocoding)
-    if (location) {
-      where.location = { contains: location, mode: 'insensitive' };
-    }
-
-    // Service types
-    if (serviceTypes.length > 0) {
-      where.services = { hasSome: serviceTypes };
-    }
-
-    // Rating
-    if (minRating > 0) {
-      where.rating = { gte: minRating };
-    }
-
-    // Price
-    if (maxPrice < 10000) {
-      where.hourlyRate = { lte: maxPrice };
-    }
-
-    // Experience
-    if (minExperience > 0) {
-      where.yearsExperience = { gte: minExperience };
-    }
-
-    // Availability
-    if (availability !== 'any') {
-      where.availability = availability;
-    }
-
-    // Verification filters
-    if (verified || licensed || insured || backgroundChecked) {
-      where.verification = {};
+    const criteria = parseContractorSearchCriteria(searchParams);
+    const { sortBy } = criteria;
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20') || 20, 1), 100);
 
-      if (verified) {
-        where.verification.verificationStatus = 'verified';
-      }
-      if (licensed) {
-        where.verification.licenseStatus = 'verified';
-      }
-      if (insured) {
-        where.verification.insuranceStatus = 'verified';
-      }
-      if (backgroundChecked) {
-        where.verification.backgroundCheckStatus = 'verified';
-      }
-    }
+    const { where, origin, proximity } = await resolveContractorSearch(criteria);
 
     // Build orderBy
-    let orderBy: any = {};
+    let orderBy: Prisma.ContractorProfileOrderByWithRelationInput[];
     switch (sortBy) {
       case 'rating':
-        orderBy = { rating: 'desc' };
+        orderBy = [{ avgRating: 'desc' }];
         break;
       case 'reviews':
-        orderBy = { reviewCount: 'desc' };
+        orderBy = [{ totalReviews: 'desc' }];
         break;
       case 'price_low':
-        orderBy = { hourlyRate: 'asc' };
+        orderBy = [{ hourlyRate: { sort: 'asc', nulls: 'last' } }];
         break;
       case 'price_high':
-        orderBy = { hourlyRate: 'desc' };
+        orderBy = [{ hourlyRate: { sort: 'desc', nulls: 'last' } }];
         break;
       case 'experience':
-        orderBy = { yearsExperience: 'desc' };
+        orderBy = [{ yearsExperience: { sort: 'desc', nulls: 'last' } }];
         break;
       case 'recent':
-        orderBy = { updatedAt: 'desc' };
+        orderBy = [{ updatedAt: 'desc' }];
         break;
       default:
-        // Relevance - prioritize verified, then rating
-        orderBy = [
-          { verification: { verificationStatus: 'desc' } },
-          { rating: 'desc' },
-        ];
+        // Relevance - ranking job score, then rating
+        orderBy = [{ rankScore: 'desc' }, { avgRating: 'desc' }];
     }
 
-    // Execute query
-    const [contractors, total] = await Promise.all([
-      prisma.contractorProfile.findMany({
-        where,
-        orderBy,
-        skip: (page - 1) * limit,
-        take: limit,
-        include: {
-          user: {
-            select: {
-              name: true,
-              email: true,
-            },
-          },
-          verification: {
-            select: {
-              verificationStatus: true,
-              badges: true,
-              licenseStatus: true,
-              insuranceStatus: true,
-              backgroundCheckStatus: true,
-            },
-          },
+    const include = {
+      user: {
+        select: {
+          name: true,
+          email: true,
         },
-      }),
-      prisma.contractorProfile.count({ where }),
-    ]);
+      },
+      verification: {
+        select: {
+          verificationStatus: true,
+          badges: true,
+          licenseStatus: true,
+          insuranceStatus: true,
+          backgroundCheckStatus: true,
+        },
+      },
+    } satisfies Prisma.ContractorProfileInclude;
+
+    // Execute query. With a location, distance sorting needs every match, so
+    // page in memory; otherwise let the database page.
+    let contractors;
+    let total: number;
+    if (proximity) {
+      const all = await prisma.contractorProfile.findMany({ where, orderBy, include, take: MAX_LOCATION_RESULTS });
+      const byDistance = (a: { id: string }, b: { id: string }) =>
+        proximity!.get(a.id)!.distanceMiles - proximity!.get(b.id)!.distanceMiles;
+      if (sortBy === 'distance') {
+        all.sort(byDistance);
+      } else if (sortBy === 'relevance') {
+        // Contractors who serve the address first, nearest first; ties keep rank order
+        all.sort(
+          (a, b) =>
+            Number(proximity!.get(b.id)!.servesLocation) - Number(proximity!.get(a.id)!.servesLocation) ||
+            Math.round(proximity!.get(a.id)!.distanceMiles / 5) - Math.round(proximity!.get(b.id)!.distanceMiles / 5)
+        );
+      }
+      total = all.length;
+      contractors = all.slice((page - 1) * limit, page * limit);
+    } else {
+      [contractors, total] = await Promise.all([
+        prisma.contractorProfile.findMany({
+          where,
+          orderBy,
+          skip: (page - 1) * limit,
+          take: limit,
+          include,
+        }),
+        prisma.contractorProfile.count({ where }),
+      ]);
+    }
 
     // Calculate pagination
     const totalPages = Math.ceil(total / limit);
     const hasMore = page < totalPages;
 
     return NextResponse.json({
-      contractors,
+      contractors: contractors.map((contractor) => {
+        const near = proximity?.get(contractor.id);
+        return {
+          id: contractor.id,
+          slug: contractor.slug,
+          businessName: contractor.businessName,
+          displayName: contractor.displayName,
+          tagline: contractor.tagline,
+          bio: contractor.bio,
+          profileImage: contractor.profilePhoto,
+          services: contractor.specialties,
+          location: [contractor.baseCity, contractor.baseState].filter(Boolean).join(', ') || null,
+          hourlyRate: contractor.hourlyRate ? Number(contractor.hourlyRate) : null,
+          yearsExperience: contractor.yearsExperience,
+          rating: contractor.totalReviews > 0 ? contractor.avgRating : null,
+          reviewCount: contractor.totalReviews,
+          completedJobs: contractor.completedJobs,
+          availability: contractor.isAvailable && contractor.acceptingNewWork ? 'immediate' : null,
+          user: contractor.user,
+          verification: contractor.verification,
+          distanceMiles: near?.distanceMiles ?? null,
+          servesLocation: near?.servesLocation ?? null,
+        };
+      }),
       pagination: {
         page,
         limit,
@@ -155,21 +130,10 @@ export async function GET(request: NextRequest) {
         totalPages,
         hasMore,
       },
-      filters: {
-        query,
-        location,
-        radius,
-        serviceTypes,
-        minRating,
-        maxPrice,
-        verified,
-        licensed,
-        insured,
-        backgroundChecked,
-        minExperience,
-        availability,
-        sortBy,
-      },
+      origin: origin
+        ? { lat: origin.lat, lng: origin.lng, precision: origin.precision, city: origin.city, state: origin.state, zip: origin.zip }
+        : null,
+      filters: criteria,
     });
   } catch (error) {
     console.error('Error searching contractors:', error);
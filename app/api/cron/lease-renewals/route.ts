@@ -0,0 +1,37 @@
+/**
+ * Vercel Cron Job - Lease Renewals
+ *
+ * Drafts renewal offers for leases entering each landlord's renewal window
+ * (Landlord.renewalLeadDays) and expires offers the tenant didn't answer.
+ *
+ * Triggers the `lease-renewals` recurring job in lib/queue/jobs.ts.
+ *
+ * Add to vercel.json:
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/lease-renewals",
+ *     "schedule": "0 7 * * *"
+ *   }]
+ * }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { triggerRecurringJob } from '@/lib/queue/cron-trigger';
+
+export const maxDuration = 60;
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  const authHeader = request.headers.get('authorization');
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return await triggerRecurringJob('lease-renewals');
+  } catch (error) {
+    console.error('Lease renewals cron error:', error);
+    return NextResponse.json({ error: 'Failed to process lease renewals' }, { status: 500 });
+  }
+}
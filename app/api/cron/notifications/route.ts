@@ -0,0 +1,39 @@
+/**
+ * Vercel Cron Job - Notifications
+ *
+ * Sends email/SMS/push held back by a user's quiet hours once the window
+ * ends, and emails daily/weekly digests of everything but high-priority
+ * notifications at each user's digest hour. Runs hourly so every timezone gets its digest
+ * on time.
+ *
+ * Triggers the `notifications` recurring job in lib/queue/jobs.ts.
+ *
+ * Add to vercel.json:
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/notifications",
+ *     "schedule": "5 * * * *"
+ *   }]
+ * }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { triggerRecurringJob } from '@/lib/queue/cron-trigger';
+
+export const maxDuration = 60;
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  const authHeader = request.headers.get('authorization');
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return await triggerRecurringJob('notifications');
+  } catch (error) {
+    console.error('Notifications cron error:', error);
+    return NextResponse.json({ error: 'Failed to process notifications' }, { status: 500 });
+  }
+}
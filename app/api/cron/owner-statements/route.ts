@@ -0,0 +1,37 @@
+/**
+ * Vercel Cron Job - Monthly Owner Statements
+ *
+ * Drafts last month's owner statements for every landlord that manages
+ * properties for others. Landlords review and finalize them before sending.
+ *
+ * Triggers the `owner-statements` recurring job in lib/queue/jobs.ts.
+ *
+ * Add to vercel.json:
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/owner-statements",
+ *     "schedule": "0 6 1 * *"
+ *   }]
+ * }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { triggerRecurringJob } from '@/lib/queue/cron-trigger';
+
+export const maxDuration = 60;
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  const authHeader = request.headers.get('authorization');
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return await triggerRecurringJob('owner-statements');
+  } catch (error) {
+    console.error('Owner statements cron error:', error);
+    return NextResponse.json({ error: 'Failed to generate owner statements' }, { status: 500 });
+  }
+}
@@ -1,6 +1,11 @@
 /**
  * Vercel Cron Job - Process Background Jobs
- * 
+ *
+ * The job runtime's scheduler tick: enqueues any recurring job whose
+ * schedule has come due, then works through due jobs until the queue is
+ * empty or the time budget runs out. This one route is enough to run every
+ * job in lib/queue/jobs.ts.
+ *
  * Add to vercel.json:
  * {
  *   "crons": [{
@@ -11,8 +16,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { jobQueue } from '@/lib/queue/redis-queue';
-import { processJob } from '@/lib/queue/job-processors';
+import { jobRuntime } from '@/lib/queue';
 import { withCronLog } from '@/lib/ops/cron-log';
 
 export const maxDuration = 60; // 60 seconds max
@@ -29,32 +33,13 @@ export async function GET(request: NextRequest) {
   try {
     return await withCronLog('process-jobs', async () => {
       const startTime = Date.now();
-      const maxProcessingTime = 50000; // 50 seconds (leave buffer)
-      let processedCount = 0;
-      let failedCount = 0;
+      // 50 seconds (leave buffer)
+      const summary = await jobRuntime.tick({ budgetMs: 50000 });
 
-      while (Date.now() - startTime < maxProcessingTime) {
-        const job = await jobQueue.dequeue();
-        if (!job) break;
-
-        try {
-          await processJob(job);
-          await jobQueue.complete(job.id);
-          processedCount++;
-        } catch (error: any) {
-          await jobQueue.fail(job, error.message);
-          failedCount++;
-          console.error(`Job ${job.id} failed:`, error);
-        }
-      }
-
-      const stats = await jobQueue.getStats();
       return NextResponse.json({
         success: true,
-        processed: processedCount,
-        failed: failedCount,
+        ...summary,
         duration: Date.now() - startTime,
-        queueStats: stats,
       });
     });
   } catch (error: any) {
@@ -0,0 +1,36 @@
+/**
+ * Vercel Cron Job - QuickBooks Sync
+ *
+ * Runs an incremental QuickBooks sync for every connected landlord.
+ *
+ * Triggers the `quickbooks-sync` recurring job in lib/queue/jobs.ts.
+ *
+ * Add to vercel.json:
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/quickbooks-sync",
+ *     "schedule": "0 * * * *"
+ *   }]
+ * }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { triggerRecurringJob } from '@/lib/queue/cron-trigger';
+
+export const maxDuration = 60;
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  const authHeader = request.headers.get('authorization');
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return await triggerRecurringJob('quickbooks-sync');
+  } catch (error) {
+    console.error('QuickBooks sync cron error:', error);
+    return NextResponse.json({ error: 'QuickBooks sync failed' }, { status: 500 });
+  }
+}
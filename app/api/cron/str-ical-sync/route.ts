@@ -0,0 +1,37 @@
+/**
+ * Vercel Cron Job - STR iCal Channel Sync
+ *
+ * Pulls the Airbnb/VRBO/Booking.com calendar feeds configured on each
+ * short-term rental and records any double-bookings it finds.
+ *
+ * Triggers the `str-ical-sync` recurring job in lib/queue/jobs.ts.
+ *
+ * Add to vercel.json:
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/str-ical-sync",
+ *     "schedule": "0,30 * * * *"
+ *   }]
+ * }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { triggerRecurringJob } from '@/lib/queue/cron-trigger';
+
+export const maxDuration = 60;
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  const authHeader = request.headers.get('authorization');
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return await triggerRecurringJob('str-ical-sync');
+  } catch (error) {
+    console.error('STR iCal sync cron error:', error);
+    return NextResponse.json({ error: 'Failed to sync STR calendars' }, { status: 500 });
+  }
+}
@@ -1,7 +1,7 @@
 /**
  * GET /api/cron/work-order-auto-release
  *
- * Scheduled task — should run daily (e.g., Vercel Cron or external scheduler).
+ * Triggers the `work-order-auto-release` recurring job in lib/queue/jobs.ts.
  *
  * Finds all work orders that are `awaiting_approval` past their
  * `pmApprovalDeadline` and have no open dispute, then auto-releases funds
@@ -19,9 +19,7 @@
  *   }
  */
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/db/prisma';
-import { releaseFundsForWorkOrder } from '@/app/api/work-orders/[id]/lifecycle/route';
-import { withCronLog } from '@/lib/ops/cron-log';
+import { triggerRecurringJob } from '@/lib/queue/cron-trigger';
 
 export async function GET(req: NextRequest) {
   const authHeader = req.headers.get('authorization') ?? '';
@@ -30,50 +28,5 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
   }
 
-  return withCronLog('work-order-auto-release', async () => {
-    const now = new Date();
-
-    const candidates = await prisma.workOrder.findMany({
-      where: {
-        lifecycleStatus: 'awaiting_approval',
-        pmApprovalDeadline: { lte: now },
-        disputes: {
-          none: { status: { in: ['open', 'in_review'] } },
-        },
-      },
-      select: { id: true },
-      take: 200,
-    });
-
-    const results: Array<{
-      workOrderId: string;
-      ok: boolean;
-      error?: string;
-      transferred?: boolean;
-    }> = [];
-
-    for (const wo of candidates) {
-      try {
-        const r = await releaseFundsForWorkOrder({
-          workOrderId: wo.id,
-          actorUserId: null,
-          actorRole: 'system',
-          note: 'Auto-released after PM approval window expired',
-        });
-        results.push({ workOrderId: wo.id, ok: true, transferred: r.transferred });
-      } catch (e) {
-        results.push({
-          workOrderId: wo.id,
-          ok: false,
-          error: e instanceof Error ? e.message : 'Unknown',
-        });
-      }
-    }
-
-    return NextResponse.json({
-      success: true,
-      processed: results.length,
-      results,
-    });
-  });
+  return triggerRecurringJob('work-order-auto-release');
 }
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/db/prisma';
+import { syncMarketplaceListingQuietly } from '@/lib/services/marketplace-feed.service';
 
 export async function POST(
   req: NextRequest,
@@ -147,6 +148,7 @@ export async function POST(
 
       return { acceptedBid, contractorJob };
     });
+    await syncMarketplaceListingQuietly('landlord', bid.jobId);
 
     return NextResponse.json({
       success: true,
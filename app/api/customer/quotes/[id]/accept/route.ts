@@ -2,6 +2,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/db/prisma';
 import { onQuoteAccepted } from '@/lib/services/contractor-automation';
+import {
+  PriceBookError,
+  getPriceBookErrorStatus,
+  selectQuoteOption,
+} from '@/lib/services/price-book.service';
 
 export async function POST(
   req: NextRequest,
@@ -38,6 +43,10 @@ export async function POST(
       );
     }
 
+    // Record the chosen good/better/best option before the job is created from it
+    const body = await req.json().catch(() => ({}));
+    await selectQuoteOption(quoteId, body.optionId);
+
     // Update quote status
     const updatedQuote = await prisma.contractorQuote.update({
       where: { id: quoteId },
@@ -59,6 +68,9 @@ export async function POST(
       signingUrl,
     });
   } catch (error) {
+    if (error instanceof PriceBookError) {
+      return NextResponse.json({ error: error.message }, { status: getPriceBookErrorStatus(error.code) });
+    }
     console.error('Error accepting quote:', error);
     return NextResponse.json(
       { error: 'Failed to accept quote' },
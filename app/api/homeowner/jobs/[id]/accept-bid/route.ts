@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/db/prisma';
 import { MarketplaceNotifications } from '@/lib/services/marketplace-notifications';
+import { syncMarketplaceListingQuietly } from '@/lib/services/marketplace-feed.service';
 
 export async function POST(
   request: NextRequest,
@@ -97,6 +98,7 @@ export async function POST(
         data: { status: 'declined' },
       });
     });
+    await syncMarketplaceListingQuietly('homeowner', jobId);
 
     // Send notifications
     try {
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/db/prisma';
+import { syncMarketplaceListingQuietly } from '@/lib/services/marketplace-feed.service';
 
 export async function GET() {
   try {
@@ -72,6 +73,15 @@ export async function POST(request: NextRequest) {
         isOpenBid: true,
       },
     });
+    await syncMarketplaceListingQuietly('homeowner', job.id);
+
+    // Notify contractors and instant saved-search alerts
+    try {
+      const { dbTriggers } = await import('@/lib/event-system');
+      await dbTriggers.onWorkOrderCreate(job, 'homeowner');
+    } catch (error) {
+      console.error('Failed to emit work order event:', error);
+    }
 
     return NextResponse.json({ success: true, jobId: job.id });
   } catch (error) {
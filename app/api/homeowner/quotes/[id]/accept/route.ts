@@ -2,9 +2,15 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/db/prisma';
 import { MarketplaceNotifications } from '@/lib/services/marketplace-notifications';
+import {
+  PriceBookError,
+  getPriceBookErrorStatus,
+  selectQuoteOption,
+} from '@/lib/services/price-book.service';
 
 /**
  * POST - Accept a quote
+ * Body: { optionId } - required when the quote offers good/better/best options
  */
 export async function POST(
   request: NextRequest,
@@ -64,6 +70,11 @@ export async function POST(
       );
     }
 
+    // Record the chosen option; the quote's price becomes that option's total
+    const body = await request.json().catch(() => ({}));
+    const selected = await selectQuoteOption(quoteId, body.optionId);
+    const acceptedTotal = selected?.totalPrice ?? quote.totalPrice;
+
     // Update quote status
     const updatedQuote = await prisma.contractorQuote.update({
       where: { id: quoteId },
@@ -80,7 +91,7 @@ export async function POST(
         data: {
           status: 'won',
           wasBooked: true,
-          jobValue: quote.totalPrice,
+          jobValue: acceptedTotal,
         },
       });
     }
@@ -107,8 +118,8 @@ export async function POST(
           status: 'assigned',
           priority: quote.lead.urgency === 'emergency' ? 'urgent' : 
                    quote.lead.urgency === 'urgent' ? 'high' : 'medium',
-          budgetMin: quote.totalPrice.toString(),
-          budgetMax: quote.totalPrice.toString(),
+          budgetMin: acceptedTotal.toString(),
+          budgetMax: acceptedTotal.toString(),
           scheduledDate: quote.startDate || null,
           notes: quote.notes || '',
           images: [],
@@ -127,7 +138,7 @@ export async function POST(
         data: {
           workOrderId: workOrder.id,
           contractorId: quote.contractorId,
-          amount: quote.totalPrice,
+          amount: acceptedTotal,
           message: `Quote accepted: ${quote.title}`,
           status: 'accepted',
         },
@@ -153,7 +164,7 @@ export async function POST(
         quoteId: quote.id,
         leadTitle: quote.lead.projectTitle || quote.lead.projectType,
         customerName: session.user.name || 'A customer',
-        amount: Number(quote.totalPrice),
+        amount: Number(acceptedTotal),
       });
     } catch (error) {
       console.error('Failed to send quote acceptance notification:', error);
@@ -165,6 +176,9 @@ export async function POST(
       quote: updatedQuote,
     });
   } catch (error) {
+    if (error instanceof PriceBookError) {
+      return NextResponse.json({ error: error.message }, { status: getPriceBookErrorStatus(error.code) });
+    }
     console.error('Error accepting quote:', error);
     return NextResponse.json(
       { error: 'Failed to accept quote' },
@@ -1,34 +1,86 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/db/prisma';
-import { fetchQuickBooksCompanyInfo } from '@/lib/services/quickbooks-service';
+import { getQuickBooksSyncRuns, runQuickBooksSync } from '@/lib/services/quickbooks-sync.service';
 
-export async function POST(request: NextRequest) {
+async function findOwnedLandlord(landlordId: string, userId: string) {
+  return prisma.landlord.findFirst({
+    where: {
+      id: landlordId,
+      ownerUserId: userId,
+    },
+    select: { id: true },
+  });
+}
+
+/**
+ * GET /api/integrations/quickbooks/sync?landlordId=...
+ * Recent sync runs with their per-record logs and conflicts.
+ */
+export async function GET(request: NextRequest) {
   try {
     const session = await auth();
     if (!session?.user?.id) {
       return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
     }
 
-    const { landlordId } = await request.json();
+    const { searchParams } = new URL(request.url);
+    const landlordId = searchParams.get('landlordId');
 
     if (!landlordId) {
       return NextResponse.json({ success: false, message: 'Landlord ID required' }, { status: 400 });
     }
 
-    // Verify user owns this landlord
-    const landlord = await prisma.landlord.findFirst({
-      where: {
-        id: landlordId,
-        ownerUserId: session.user.id,
-      },
+    const landlord = await findOwnedLandlord(landlordId, session.user.id);
+    if (!landlord) {
+      return NextResponse.json({ success: false, message: 'Landlord not found' }, { status: 404 });
+    }
+
+    const runs = await getQuickBooksSyncRuns(landlordId);
+    const conflicts = await prisma.quickBooksSyncMapping.findMany({
+      where: { landlordId, status: { in: ['conflict', 'error'] } },
+      orderBy: { updatedAt: 'desc' },
+      take: 100,
     });
 
+    return NextResponse.json({ success: true, runs, conflicts });
+  } catch (error) {
+    console.error('QuickBooks sync history error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to load sync history' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/integrations/quickbooks/sync
+ * Body: { landlordId, full?: boolean, conflictStrategy?: 'skip' | 'overwrite' }
+ * Pushes rent income, expenses, contractor payments and properties changed
+ * since the last run.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { landlordId, full, conflictStrategy } = body as {
+      landlordId?: string;
+      full?: boolean;
+      conflictStrategy?: 'skip' | 'overwrite';
+    };
+
+    if (!landlordId) {
+      return NextResponse.json({ success: false, message: 'Landlord ID required' }, { status: 400 });
+    }
+
+    // Verify user owns this landlord
+    const landlord = await findOwnedLandlord(landlordId, session.user.id);
     if (!landlord) {
       return NextResponse.json({ success: false, message: 'Landlord not found' }, { status: 404 });
     }
 
-    const qbConn = await (prisma as any).quickBooksConnection.findUnique({
+    const qbConn = await prisma.quickBooksConnection.findUnique({
       where: { landlordId },
       select: { connectedAt: true, realmId: true, accessTokenEncrypted: true, refreshTokenEncrypted: true },
     });
@@ -48,43 +100,29 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get financial data for QuickBooks sync
-    const properties = await prisma.property.findMany({
-      where: { landlordId },
-      include: {
-        units: {
-          include: {
-            leases: {
-              include: {
-                tenant: true,
-                rentPayments: {
-                  where: { status: 'paid' },
-                },
-              },
-            },
-          },
-        },
-      },
-    });
-
-    // Lightweight API call to validate tokens/realm; this also refreshes tokens if needed.
-    const companyInfo = await fetchQuickBooksCompanyInfo({ landlordId });
-
-    // Store sync timestamp
-    await prisma.landlord.update({
-      where: { id: landlordId },
-      data: {
-        updatedAt: new Date(),
-      },
+    const summary = await runQuickBooksSync(landlordId, {
+      trigger: 'manual',
+      full: Boolean(full),
+      conflictStrategy: conflictStrategy === 'overwrite' ? 'overwrite' : 'skip',
     });
 
-    return NextResponse.json({ 
-      success: true, 
-      message: 'QuickBooks connection verified. Ready for syncing.',
+    const changed = summary.created + summary.updated + summary.deleted;
+    return NextResponse.json({
+      success: summary.status !== 'failed',
+      message:
+        summary.status === 'success'
+          ? `QuickBooks sync complete: ${changed} record(s) pushed.`
+          : `QuickBooks sync finished with ${summary.failed} failure(s) and ${summary.conflicts} conflict(s).`,
       syncedAt: new Date().toISOString(),
-      propertiesCount: properties.length,
-      unitsCount: properties.reduce((sum, prop) => sum + prop.units.length, 0),
-      quickBooksCompany: companyInfo?.CompanyInfo?.CompanyName || null,
+      runId: summary.runId,
+      status: summary.status,
+      created: summary.created,
+      updated: summary.updated,
+      deleted: summary.deleted,
+      skipped: summary.skipped,
+      failed: summary.failed,
+      conflicts: summary.conflicts,
+      log: summary.log.filter((entry) => entry.action !== 'skipped'),
     });
   } catch (error) {
     console.error('QuickBooks sync error:', error);
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/db/prisma';
 import { getOrCreateCurrentLandlord } from '@/lib/actions/landlord.actions';
+import { syncLedgerSafely, syncTenantInvoiceLedger } from '@/lib/services/tenant-ledger.service';
 
 export async function POST(
   request: NextRequest,
@@ -42,6 +43,8 @@ export async function POST(
       },
     });
 
+    await syncLedgerSafely(`invoice ${invoiceId}`, () => syncTenantInvoiceLedger(invoiceId));
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error marking invoice paid:', error);
@@ -3,6 +3,7 @@ import { auth } from '@/auth';
 import { prisma } from '@/db/prisma';
 import { getOrCreateCurrentLandlord } from '@/lib/actions/landlord.actions';
 import { NotificationService } from '@/lib/services/notification-service';
+import { syncLedgerSafely, syncTenantInvoiceLedger } from '@/lib/services/tenant-ledger.service';
 
 export async function GET(request: NextRequest) {
   try {
@@ -100,6 +101,8 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    await syncLedgerSafely(`invoice ${invoice.id}`, () => syncTenantInvoiceLedger(invoice.id));
+
     // Notify the tenant
     await NotificationService.createNotification({
       userId: tenantId,
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrCreateCurrentLandlord } from '@/lib/actions/landlord.actions';
+import { Form1099Error, generateFireExport, getForm1099ErrorStatus } from '@/lib/services/form-1099.service';
+
+/**
+ * GET /api/landlord/1099/fire?year=2026&test=1
+ * IRS FIRE bulk file (Publication 1220) of the year's reportable 1099-NECs.
+ * test=1 sets the test file indicator for a FIRE test submission.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return NextResponse.json({ message: 'Not authorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const year = parseInt(searchParams.get('year') || String(new Date().getFullYear() - 1), 10);
+    const { filename, content } = await generateFireExport(landlordResult.landlord.id, year, {
+      test: searchParams.get('test') === '1',
+    });
+
+    return new NextResponse(content, {
+      headers: {
+        'Content-Type': 'text/plain; charset=us-ascii',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof Form1099Error) {
+      return NextResponse.json(
+        { message: error.message, code: error.code },
+        { status: getForm1099ErrorStatus(error.code) }
+      );
+    }
+    console.error('Error generating FIRE file:', error);
+    return NextResponse.json({ message: 'Failed to generate FIRE file' }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrCreateCurrentLandlord } from '@/lib/actions/landlord.actions';
+import {
+  Form1099Error,
+  getForm1099ErrorStatus,
+  getPayerSettings,
+  savePayerSettings,
+} from '@/lib/services/form-1099.service';
+
+/**
+ * GET /api/landlord/1099/payer
+ * Payer and FIRE transmitter details, with the EIN masked to its last four.
+ */
+export async function GET() {
+  try {
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return NextResponse.json({ message: 'Not authorized' }, { status: 401 });
+    }
+
+    const payer = await getPayerSettings(landlordResult.landlord.id);
+    return NextResponse.json({ success: true, payer });
+  } catch (error) {
+    console.error('Error fetching 1099 payer settings:', error);
+    return NextResponse.json({ message: 'Failed to fetch payer settings' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/landlord/1099/payer
+ * Body: { payerName, tin?, address1, address2?, city, state, postalCode,
+ *         phone?, transmitterControlCode?, contactName?, contactEmail? }
+ * tin may be left out once one is on file.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return NextResponse.json({ message: 'Not authorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const payer = await savePayerSettings(landlordResult.landlord.id, body);
+
+    return NextResponse.json({ success: true, payer });
+  } catch (error) {
+    if (error instanceof Form1099Error) {
+      return NextResponse.json(
+        { message: error.message, code: error.code },
+        { status: getForm1099ErrorStatus(error.code) }
+      );
+    }
+    console.error('Error saving 1099 payer settings:', error);
+    return NextResponse.json({ message: 'Failed to save payer settings' }, { status: 500 });
+  }
+}
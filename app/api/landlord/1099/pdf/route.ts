@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrCreateCurrentLandlord } from '@/lib/actions/landlord.actions';
+import {
+  Form1099Error,
+  generateRecipientCopiesPdf,
+  getForm1099ErrorStatus,
+} from '@/lib/services/form-1099.service';
+
+/**
+ * GET /api/landlord/1099/pdf?year=2026&contractorId=
+ * 1099-NEC recipient copies (Copy B), one page per payee. Pass contractorId
+ * for a single payee's copy.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return NextResponse.json({ message: 'Not authorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const year = parseInt(searchParams.get('year') || String(new Date().getFullYear() - 1), 10);
+    const { filename, pdf } = await generateRecipientCopiesPdf(
+      landlordResult.landlord.id,
+      year,
+      searchParams.get('contractorId') || undefined
+    );
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof Form1099Error) {
+      return NextResponse.json(
+        { message: error.message, code: error.code },
+        { status: getForm1099ErrorStatus(error.code) }
+      );
+    }
+    console.error('Error generating 1099-NEC PDF:', error);
+    return NextResponse.json({ message: 'Failed to generate 1099-NEC PDF' }, { status: 500 });
+  }
+}
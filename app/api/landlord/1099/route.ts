@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrCreateCurrentLandlord } from '@/lib/actions/landlord.actions';
+import { get1099Summary, getPayerSettings } from '@/lib/services/form-1099.service';
+
+/**
+ * GET /api/landlord/1099?year=2026
+ * Contractor payments for the year rolled up per payee, with each payee's
+ * W-9 state and whether a 1099-NEC is due.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return NextResponse.json({ message: 'Not authorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const year = parseInt(searchParams.get('year') || String(new Date().getFullYear() - 1), 10);
+    if (!Number.isInteger(year) || year < 2000) {
+      return NextResponse.json({ message: 'Invalid year' }, { status: 400 });
+    }
+
+    const [summary, payer] = await Promise.all([
+      get1099Summary(landlordResult.landlord.id, year),
+      getPayerSettings(landlordResult.landlord.id),
+    ]);
+
+    return NextResponse.json({ success: true, ...summary, payer });
+  } catch (error) {
+    console.error('Error building 1099 summary:', error);
+    return NextResponse.json({ message: 'Failed to load 1099 summary' }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrCreateCurrentLandlord } from '@/lib/actions/landlord.actions';
+import {
+  Form1099Error,
+  getContractorW9,
+  getForm1099ErrorStatus,
+  requestContractorW9,
+  saveContractorW9,
+} from '@/lib/services/form-1099.service';
+
+type Params = { params: Promise<{ contractorId: string }> };
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof Form1099Error) {
+    return NextResponse.json(
+      { message: error.message, code: error.code },
+      { status: getForm1099ErrorStatus(error.code) }
+    );
+  }
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ message: fallback }, { status: 500 });
+}
+
+/**
+ * GET /api/landlord/1099/w9/[contractorId]
+ * The contractor's W-9 on file, TIN masked.
+ */
+export async function GET(_request: NextRequest, { params }: Params) {
+  try {
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return NextResponse.json({ message: 'Not authorized' }, { status: 401 });
+    }
+
+    const { contractorId } = await params;
+    const w9 = await getContractorW9(landlordResult.landlord.id, contractorId);
+    return NextResponse.json({ success: true, w9 });
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch W-9');
+  }
+}
+
+/**
+ * PUT /api/landlord/1099/w9/[contractorId]
+ * Record a W-9 the contractor returned outside the app.
+ * Body: { legalName, businessName?, taxClassification, exemptPayeeCode?,
+ *         tinType, tin, address1, address2?, city, state, postalCode, certifiedByName }
+ */
+export async function PUT(request: NextRequest, { params }: Params) {
+  try {
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return NextResponse.json({ message: 'Not authorized' }, { status: 401 });
+    }
+
+    const { contractorId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const w9 = await saveContractorW9(landlordResult.landlord.id, contractorId, body);
+    return NextResponse.json({ success: true, w9 });
+  } catch (error) {
+    return errorResponse(error, 'Failed to save W-9');
+  }
+}
+
+/**
+ * POST /api/landlord/1099/w9/[contractorId]
+ * Email the contractor a single-use link to complete their W-9.
+ */
+export async function POST(_request: NextRequest, { params }: Params) {
+  try {
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return NextResponse.json({ message: 'Not authorized' }, { status: 401 });
+    }
+
+    const { contractorId } = await params;
+    const request = await requestContractorW9(landlordResult.landlord.id, contractorId);
+    return NextResponse.json({ success: true, ...request });
+  } catch (error) {
+    return errorResponse(error, 'Failed to request W-9');
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/db/prisma';
+import {
+  getJurisdictionRules,
+  getPropertyLocation,
+  type ResolvedJurisdictionRules,
+} from '@/lib/services/jurisdiction-rules.service';
+
+/**
+ * GET /api/landlord/jurisdiction-rules?propertyId=...
+ * Rules in effect for each jurisdiction the landlord's properties are in
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const landlord = await prisma.landlord.findFirst({
+      where: { ownerUserId: session.user.id },
+      select: { id: true },
+    });
+
+    if (!landlord) {
+      return NextResponse.json({ message: 'Landlord not found' }, { status: 404 });
+    }
+
+    const propertyId = req.nextUrl.searchParams.get('propertyId');
+    const properties = await prisma.property.findMany({
+      where: { landlordId: landlord.id, ...(propertyId ? { id: propertyId } : {}) },
+      select: { id: true, address: true },
+    });
+
+    if (propertyId && properties.length === 0) {
+      return NextResponse.json({ message: 'Property not found' }, { status: 404 });
+    }
+
+    const jurisdictions = new Map<string, { propertyIds: string[]; rules: ResolvedJurisdictionRules }>();
+    for (const property of properties) {
+      const location = getPropertyLocation(property.address);
+      const key = `${location.state}|${location.city}`;
+      const entry = jurisdictions.get(key);
+      if (entry) {
+        entry.propertyIds.push(property.id);
+      } else {
+        jurisdictions.set(key, { propertyIds: [property.id], rules: await getJurisdictionRules(location) });
+      }
+    }
+
+    return NextResponse.json({ jurisdictions: [...jurisdictions.values()] });
+  } catch (error) {
+    console.error('Error fetching jurisdiction rules:', error);
+    return NextResponse.json({ message: 'Failed to fetch jurisdiction rules' }, { status: 500 });
+  }
+}
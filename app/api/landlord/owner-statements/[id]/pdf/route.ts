@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { getOrCreateCurrentLandlord } from '@/lib/actions/landlord.actions';
+import { renderOwnerStatementPdf } from '@/lib/services/owner-statement.service';
+
+/**
+ * GET /api/landlord/owner-statements/[id]/pdf
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return NextResponse.json({ message: 'Landlord not found' }, { status: 404 });
+    }
+
+    const { id } = await params;
+    const pdfBuffer = await renderOwnerStatementPdf(id, landlordResult.landlord.id);
+
+    return new NextResponse(new Uint8Array(pdfBuffer), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="owner-statement-${id}.pdf"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Statement not found') {
+      return NextResponse.json({ message: error.message }, { status: 404 });
+    }
+    console.error('Owner statement PDF error:', error);
+    return NextResponse.json({ message: 'Failed to generate PDF' }, { status: 500 });
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/db/prisma';
+import { getOrCreateCurrentLandlord } from '@/lib/actions/landlord.actions';
+
+/**
+ * GET /api/landlord/owner-statements/[id]
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return NextResponse.json({ message: 'Landlord not found' }, { status: 404 });
+    }
+
+    const { id } = await params;
+    const statement = await prisma.ownerStatement.findFirst({
+      where: { id, landlordId: landlordResult.landlord.id },
+      include: { owner: { select: { id: true, name: true, companyName: true, email: true } } },
+    });
+    if (!statement) {
+      return NextResponse.json({ message: 'Statement not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, statement });
+  } catch (error) {
+    console.error('Error loading owner statement:', error);
+    return NextResponse.json({ message: 'Failed to load statement' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/landlord/owner-statements/[id]
+ * `{ status: 'finalized' | 'sent' }`. Finalized statements are locked and
+ * carry their closing reserve into the next month.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return NextResponse.json({ message: 'Landlord not found' }, { status: 404 });
+    }
+
+    const { id } = await params;
+    const statement = await prisma.ownerStatement.findFirst({
+      where: { id, landlordId: landlordResult.landlord.id },
+      select: { id: true, status: true, finalizedAt: true },
+    });
+    if (!statement) {
+      return NextResponse.json({ message: 'Statement not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const status = body?.status as string | undefined;
+    if (status !== 'finalized' && status !== 'sent') {
+      return NextResponse.json({ message: 'Invalid status' }, { status: 400 });
+    }
+    if (statement.status === 'sent' || (statement.status === 'finalized' && status === 'finalized')) {
+      return NextResponse.json({ message: `Statement is already ${statement.status}` }, { status: 409 });
+    }
+
+    const now = new Date();
+    const updated = await prisma.ownerStatement.update({
+      where: { id: statement.id },
+      data: {
+        status,
+        finalizedAt: statement.finalizedAt ?? now,
+        sentAt: status === 'sent' ? now : undefined,
+      },
+    });
+
+    return NextResponse.json({ success: true, statement: updated });
+  } catch (error) {
+    console.error('Error updating owner statement:', error);
+    return NextResponse.json({ message: 'Failed to update statement' }, { status: 500 });
+  }
+}
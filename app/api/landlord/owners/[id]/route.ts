@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/db/prisma';
+import { getOrCreateCurrentLandlord } from '@/lib/actions/landlord.actions';
+import { normalizeOwnerInput, type OwnerInput } from '@/lib/services/owner-statement.service';
+
+async function findLandlordOwner(ownerId: string) {
+  const landlordResult = await getOrCreateCurrentLandlord();
+  if (!landlordResult.success) return null;
+
+  return prisma.propertyOwner.findFirst({
+    where: { id: ownerId, landlordId: landlordResult.landlord.id },
+  });
+}
+
+/**
+ * GET /api/landlord/owners/[id]
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const owner = await findLandlordOwner(id);
+    if (!owner) {
+      return NextResponse.json({ message: 'Owner not found' }, { status: 404 });
+    }
+
+    const properties = await prisma.property.findMany({
+      where: { ownerId: owner.id, deletedAt: null },
+      select: { id: true, name: true, address: true, finance: { select: { managementFeePercent: true } } },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({ success: true, owner: { ...owner, properties } });
+  } catch (error) {
+    console.error('Error loading property owner:', error);
+    return NextResponse.json({ message: 'Failed to load owner' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/landlord/owners/[id]
+ * Update owner details and fee rules. Pass `propertyIds` to replace the set
+ * of properties assigned to this owner.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const owner = await findLandlordOwner(id);
+    if (!owner) {
+      return NextResponse.json({ message: 'Owner not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json({ message: 'Invalid request body' }, { status: 400 });
+    }
+
+    const { propertyIds, ...input } = body as OwnerInput & { propertyIds?: string[] };
+    const normalized = normalizeOwnerInput(input, { requireName: false });
+    if ('error' in normalized) {
+      return NextResponse.json({ message: normalized.error }, { status: 400 });
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      if (Array.isArray(propertyIds)) {
+        await tx.property.updateMany({
+          where: { ownerId: owner.id, id: { notIn: propertyIds } },
+          data: { ownerId: null },
+        });
+        if (propertyIds.length > 0) {
+          await tx.property.updateMany({
+            where: { id: { in: propertyIds }, landlordId: owner.landlordId },
+            data: { ownerId: owner.id },
+          });
+        }
+      }
+
+      return tx.propertyOwner.update({
+        where: { id: owner.id },
+        data: normalized.data,
+      });
+    });
+
+    return NextResponse.json({ success: true, owner: updated });
+  } catch (error) {
+    console.error('Error updating property owner:', error);
+    return NextResponse.json({ message: 'Failed to update owner' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/landlord/owners/[id]
+ * Owners with statements are deactivated so their history is kept; others
+ * are removed and their properties unassigned.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const owner = await findLandlordOwner(id);
+    if (!owner) {
+      return NextResponse.json({ message: 'Owner not found' }, { status: 404 });
+    }
+
+    const statementCount = await prisma.ownerStatement.count({ where: { ownerId: owner.id } });
+
+    if (statementCount > 0) {
+      await prisma.$transaction([
+        prisma.property.updateMany({ where: { ownerId: owner.id }, data: { ownerId: null } }),
+        prisma.propertyOwner.update({ where: { id: owner.id }, data: { status: 'inactive' } }),
+      ]);
+      return NextResponse.json({ success: true, deactivated: true });
+    }
+
+    await prisma.propertyOwner.delete({ where: { id: owner.id } });
+    return NextResponse.json({ success: true, deactivated: false });
+  } catch (error) {
+    console.error('Error deleting property owner:', error);
+    return NextResponse.json({ message: 'Failed to delete owner' }, { status: 500 });
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/db/prisma';
+import { getOrCreateCurrentLandlord } from '@/lib/actions/landlord.actions';
+import { generateOwnerStatement } from '@/lib/services/owner-statement.service';
+
+/**
+ * GET /api/landlord/owners/[id]/statements
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return NextResponse.json({ message: 'Landlord not found' }, { status: 404 });
+    }
+
+    const { id } = await params;
+    const statements = await prisma.ownerStatement.findMany({
+      where: { ownerId: id, landlordId: landlordResult.landlord.id },
+      select: {
+        id: true,
+        periodStart: true,
+        periodEnd: true,
+        totalIncome: true,
+        totalExpenses: true,
+        managementFees: true,
+        reserveContribution: true,
+        netDistribution: true,
+        status: true,
+        finalizedAt: true,
+        sentAt: true,
+      },
+      orderBy: { periodStart: 'desc' },
+    });
+
+    return NextResponse.json({ success: true, statements });
+  } catch (error) {
+    console.error('Error loading owner statements:', error);
+    return NextResponse.json({ message: 'Failed to load statements' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/landlord/owners/[id]/statements
+ * Generate (or regenerate) the draft statement for `{ year, month }`.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return NextResponse.json({ message: 'Landlord not found' }, { status: 404 });
+    }
+
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const year = Number(body?.year);
+    const month = Number(body?.month);
+    if (!Number.isInteger(year) || !Number.isInteger(month) || month < 1 || month > 12) {
+      return NextResponse.json({ message: 'Valid year and month are required' }, { status: 400 });
+    }
+
+    try {
+      const statement = await generateOwnerStatement({
+        landlordId: landlordResult.landlord.id,
+        ownerId: id,
+        year,
+        month,
+      });
+      return NextResponse.json({ success: true, statement });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to generate statement';
+      if (message === 'Owner not found') {
+        return NextResponse.json({ message }, { status: 404 });
+      }
+      if (message === 'Statement has already been finalized') {
+        return NextResponse.json({ message }, { status: 409 });
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error generating owner statement:', error);
+    return NextResponse.json({ message: 'Failed to generate statement' }, { status: 500 });
+  }
+}
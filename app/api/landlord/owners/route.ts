@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/db/prisma';
+import { getOrCreateCurrentLandlord } from '@/lib/actions/landlord.actions';
+import { normalizeOwnerInput, type OwnerInput } from '@/lib/services/owner-statement.service';
+
+/**
+ * GET /api/landlord/owners
+ * Property owners the landlord manages for, with their assigned properties.
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return NextResponse.json({ message: 'Landlord not found' }, { status: 404 });
+    }
+
+    const owners = await prisma.propertyOwner.findMany({
+      where: { landlordId: landlordResult.landlord.id },
+      include: {
+        properties: {
+          where: { deletedAt: null },
+          select: { id: true, name: true, finance: { select: { managementFeePercent: true } } },
+        },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({ success: true, owners });
+  } catch (error) {
+    console.error('Error loading property owners:', error);
+    return NextResponse.json({ message: 'Failed to load owners' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/landlord/owners
+ * Create an owner and optionally assign properties to them.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return NextResponse.json({ message: 'Landlord not found' }, { status: 404 });
+    }
+    const landlordId = landlordResult.landlord.id;
+
+    const body = await request.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json({ message: 'Invalid request body' }, { status: 400 });
+    }
+
+    const { propertyIds, ...input } = body as OwnerInput & { propertyIds?: string[] };
+    const normalized = normalizeOwnerInput(input, { requireName: true });
+    if ('error' in normalized) {
+      return NextResponse.json({ message: normalized.error }, { status: 400 });
+    }
+
+    const owner = await prisma.$transaction(async (tx) => {
+      const created = await tx.propertyOwner.create({
+        data: { ...normalized.data, name: normalized.data.name ?? '', landlordId },
+      });
+
+      if (Array.isArray(propertyIds) && propertyIds.length > 0) {
+        await tx.property.updateMany({
+          where: { id: { in: propertyIds }, landlordId },
+          data: { ownerId: created.id },
+        });
+      }
+
+      return created;
+    });
+
+    // Keep the onboarding flag in sync once the landlord starts adding owners
+    if (!landlordResult.landlord.managesForOthers) {
+      await prisma.landlord.update({
+        where: { id: landlordId },
+        data: { managesForOthers: true },
+      });
+    }
+
+    return NextResponse.json({ success: true, owner }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating property owner:', error);
+    return NextResponse.json({ message: 'Failed to create owner' }, { status: 500 });
+  }
+}
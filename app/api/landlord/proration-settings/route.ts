@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/db/prisma';
+import { PRORATION_METHODS, type ProrationMethod } from '@/lib/services/proration.service';
+
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const landlord = await prisma.landlord.findFirst({
+      where: { ownerUserId: session.user.id },
+      select: { prorationMethod: true },
+    });
+
+    if (!landlord) {
+      return NextResponse.json({ message: 'Landlord not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ prorationMethod: landlord.prorationMethod, methods: PRORATION_METHODS });
+  } catch (error) {
+    console.error('Error fetching proration settings:', error);
+    return NextResponse.json({ message: 'Failed to fetch proration settings' }, { status: 500 });
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const landlord = await prisma.landlord.findFirst({
+      where: { ownerUserId: session.user.id },
+      select: { id: true },
+    });
+
+    if (!landlord) {
+      return NextResponse.json({ message: 'Landlord not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    if (!PRORATION_METHODS.includes(body.prorationMethod as ProrationMethod)) {
+      return NextResponse.json(
+        { message: `prorationMethod must be one of ${PRORATION_METHODS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const updated = await prisma.landlord.update({
+      where: { id: landlord.id },
+      data: { prorationMethod: body.prorationMethod },
+      select: { prorationMethod: true },
+    });
+
+    return NextResponse.json({ prorationMethod: updated.prorationMethod });
+  } catch (error) {
+    console.error('Error updating proration settings:', error);
+    return NextResponse.json({ message: 'Failed to update proration settings' }, { status: 500 });
+  }
+}
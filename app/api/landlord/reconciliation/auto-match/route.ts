@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrCreateCurrentLandlord } from '@/lib/actions/landlord.actions';
+import { getReconciliationErrorStatus, ReconciliationError, runAutoMatch } from '@/lib/services/bank-reconciliation.service';
+
+/**
+ * POST /api/landlord/reconciliation/auto-match
+ * Body: { accountKey }. Re-scores the account's open lines against the books.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return NextResponse.json({ message: 'Not authorized' }, { status: 401 });
+    }
+
+    const { accountKey } = await request.json();
+    if (typeof accountKey !== 'string' || !accountKey) {
+      return NextResponse.json({ message: 'accountKey is required' }, { status: 400 });
+    }
+
+    const result = await runAutoMatch({ type: 'landlord', landlordId: landlordResult.landlord.id }, accountKey);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof ReconciliationError) {
+      return NextResponse.json({ message: error.message, code: error.code }, { status: getReconciliationErrorStatus(error.code) });
+    }
+    console.error('Error auto-matching statement lines:', error);
+    return NextResponse.json({ message: 'Failed to match statement lines' }, { status: 500 });
+  }
+}
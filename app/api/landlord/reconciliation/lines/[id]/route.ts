@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { getOrCreateCurrentLandlord } from '@/lib/actions/landlord.actions';
+import {
+  getLineCandidates,
+  getReconciliationErrorStatus,
+  ReconciliationError,
+  updateStatementLine,
+} from '@/lib/services/bank-reconciliation.service';
+
+/**
+ * GET /api/landlord/reconciliation/lines/:id
+ * Rent payments, payouts, wallet transactions and expenses within 30 days of
+ * the line that could be matched to it, best first.
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return NextResponse.json({ message: 'Not authorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const candidates = await getLineCandidates({ type: 'landlord', landlordId: landlordResult.landlord.id }, id);
+    return NextResponse.json({ success: true, candidates });
+  } catch (error) {
+    if (error instanceof ReconciliationError) {
+      return NextResponse.json({ message: error.message, code: error.code }, { status: getReconciliationErrorStatus(error.code) });
+    }
+    console.error('Error loading match candidates:', error);
+    return NextResponse.json({ message: 'Failed to load candidates' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/landlord/reconciliation/lines/:id
+ * Body: { action: 'match', type, id } | { action: 'unmatch' } | { action: 'exclude', note? }
+ *     | { action: 'include' } | { action: 'create_expense', category, description?, vendor?, propertyId? }
+ */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return NextResponse.json({ message: 'Not authorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const line = await updateStatementLine(
+      { type: 'landlord', landlordId: landlordResult.landlord.id },
+      id,
+      body,
+      session.user.id
+    );
+    return NextResponse.json({ success: true, line });
+  } catch (error) {
+    if (error instanceof ReconciliationError) {
+      return NextResponse.json({ message: error.message, code: error.code }, { status: getReconciliationErrorStatus(error.code) });
+    }
+    console.error('Error updating statement line:', error);
+    return NextResponse.json({ message: 'Failed to update statement line' }, { status: 500 });
+  }
+}
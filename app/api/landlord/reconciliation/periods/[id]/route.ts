@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrCreateCurrentLandlord } from '@/lib/actions/landlord.actions';
+import {
+  getReconciliationErrorStatus,
+  getReconciliationPeriod,
+  ReconciliationError,
+  reconciliationReportToCsv,
+  type ReconciliationReport,
+} from '@/lib/services/bank-reconciliation.service';
+
+/**
+ * GET /api/landlord/reconciliation/periods/:id?format=csv
+ * The report stored when the period was closed, as JSON or CSV.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return NextResponse.json({ message: 'Not authorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const period = await getReconciliationPeriod({ type: 'landlord', landlordId: landlordResult.landlord.id }, id);
+
+    if (new URL(request.url).searchParams.get('format') === 'csv') {
+      const csv = reconciliationReportToCsv(period.report as unknown as ReconciliationReport, period.reportHash);
+      return new NextResponse(csv, {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="reconciliation-${period.periodEnd.toISOString().slice(0, 10)}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({ success: true, period });
+  } catch (error) {
+    if (error instanceof ReconciliationError) {
+      return NextResponse.json({ message: error.message, code: error.code }, { status: getReconciliationErrorStatus(error.code) });
+    }
+    console.error('Error loading reconciliation report:', error);
+    return NextResponse.json({ message: 'Failed to load report' }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { getOrCreateCurrentLandlord } from '@/lib/actions/landlord.actions';
+import {
+  closeReconciliationPeriod,
+  getReconciliationErrorStatus,
+  ReconciliationError,
+} from '@/lib/services/bank-reconciliation.service';
+
+/**
+ * POST /api/landlord/reconciliation/periods
+ * Body: { accountKey, periodStart, periodEnd, closingBalance, openingBalance? }
+ * Closes the period once every line is matched or excluded and the balance ties out.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return NextResponse.json({ message: 'Not authorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    if (typeof body.accountKey !== 'string' || !body.periodStart || !body.periodEnd) {
+      return NextResponse.json({ message: 'accountKey, periodStart and periodEnd are required' }, { status: 400 });
+    }
+
+    const period = await closeReconciliationPeriod(
+      { type: 'landlord', landlordId: landlordResult.landlord.id },
+      body.accountKey,
+      {
+        periodStart: new Date(body.periodStart),
+        periodEnd: new Date(body.periodEnd),
+        closingBalance: Number(body.closingBalance),
+        openingBalance: body.openingBalance === undefined || body.openingBalance === '' ? undefined : Number(body.openingBalance),
+      },
+      session.user.id
+    );
+
+    return NextResponse.json({ success: true, period }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ReconciliationError) {
+      return NextResponse.json({ message: error.message, code: error.code }, { status: getReconciliationErrorStatus(error.code) });
+    }
+    console.error('Error closing reconciliation period:', error);
+    return NextResponse.json({ message: 'Failed to close period' }, { status: 500 });
+  }
+}
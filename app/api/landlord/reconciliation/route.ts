@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { getOrCreateCurrentLandlord } from '@/lib/actions/landlord.actions';
+import {
+  getReconciliationErrorStatus,
+  getReconciliationOverview,
+  importBankStatement,
+  LINE_STATUSES,
+  listStatementLines,
+  ReconciliationError,
+  type LineStatus,
+} from '@/lib/services/bank-reconciliation.service';
+
+const MAX_STATEMENT_BYTES = 5 * 1024 * 1024;
+
+/**
+ * GET /api/landlord/reconciliation?accountKey=property_bank_account:<id>&status=unmatched
+ * Bank accounts with open line counts and closed periods; with accountKey,
+ * also that account's statement lines.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return NextResponse.json({ message: 'Not authorized' }, { status: 401 });
+    }
+
+    const owner = { type: 'landlord' as const, landlordId: landlordResult.landlord.id };
+    const { searchParams } = new URL(request.url);
+    const accountKey = searchParams.get('accountKey');
+    const status = searchParams.get('status');
+
+    const [accounts, lines] = await Promise.all([
+      getReconciliationOverview(owner),
+      accountKey
+        ? listStatementLines(owner, accountKey, {
+            status: LINE_STATUSES.includes(status as LineStatus) ? (status as LineStatus) : undefined,
+          })
+        : null,
+    ]);
+
+    return NextResponse.json({ success: true, accounts, lines });
+  } catch (error) {
+    if (error instanceof ReconciliationError) {
+      return NextResponse.json({ message: error.message, code: error.code }, { status: getReconciliationErrorStatus(error.code) });
+    }
+    console.error('Error loading reconciliation:', error);
+    return NextResponse.json({ message: 'Failed to load reconciliation' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/landlord/reconciliation
+ * multipart/form-data with `file` (OFX, QFX or CSV) and `accountKey`.
+ * Imports new lines and auto-matches them.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return NextResponse.json({ message: 'Not authorized' }, { status: 401 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const accountKey = formData.get('accountKey');
+    if (!(file instanceof File) || typeof accountKey !== 'string' || !accountKey) {
+      return NextResponse.json({ message: 'A statement file and account are required' }, { status: 400 });
+    }
+    if (file.size > MAX_STATEMENT_BYTES) {
+      return NextResponse.json({ message: 'Statement files must be under 5 MB' }, { status: 400 });
+    }
+
+    const result = await importBankStatement(
+      { type: 'landlord', landlordId: landlordResult.landlord.id },
+      accountKey,
+      { name: file.name, content: await file.text() },
+      session.user.id
+    );
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof ReconciliationError) {
+      return NextResponse.json({ message: error.message, code: error.code }, { status: getReconciliationErrorStatus(error.code) });
+    }
+    console.error('Error importing bank statement:', error);
+    return NextResponse.json({ message: 'Failed to import statement' }, { status: 500 });
+  }
+}
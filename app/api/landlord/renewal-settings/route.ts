@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/db/prisma';
+
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const landlord = await prisma.landlord.findFirst({
+      where: { ownerUserId: session.user.id },
+      select: { renewalLeadDays: true, renewalIncreasePercent: true },
+    });
+
+    if (!landlord) {
+      return NextResponse.json({ message: 'Landlord not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      renewalLeadDays: landlord.renewalLeadDays,
+      renewalIncreasePercent: Number(landlord.renewalIncreasePercent),
+    });
+  } catch (error) {
+    console.error('Error fetching renewal settings:', error);
+    return NextResponse.json({ message: 'Failed to fetch renewal settings' }, { status: 500 });
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const landlord = await prisma.landlord.findFirst({
+      where: { ownerUserId: session.user.id },
+      select: { id: true },
+    });
+
+    if (!landlord) {
+      return NextResponse.json({ message: 'Landlord not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const renewalLeadDays = Number(body.renewalLeadDays);
+    const renewalIncreasePercent = Number(body.renewalIncreasePercent);
+
+    // 0 turns off automatic renewal drafts
+    if (!Number.isInteger(renewalLeadDays) || renewalLeadDays < 0 || renewalLeadDays > 365) {
+      return NextResponse.json({ message: 'renewalLeadDays must be between 0 and 365' }, { status: 400 });
+    }
+    if (!Number.isFinite(renewalIncreasePercent) || renewalIncreasePercent < 0 || renewalIncreasePercent > 100) {
+      return NextResponse.json({ message: 'renewalIncreasePercent must be between 0 and 100' }, { status: 400 });
+    }
+
+    const updated = await prisma.landlord.update({
+      where: { id: landlord.id },
+      data: { renewalLeadDays, renewalIncreasePercent },
+      select: { renewalLeadDays: true, renewalIncreasePercent: true },
+    });
+
+    return NextResponse.json({
+      renewalLeadDays: updated.renewalLeadDays,
+      renewalIncreasePercent: Number(updated.renewalIncreasePercent),
+    });
+  } catch (error) {
+    console.error('Error updating renewal settings:', error);
+    return NextResponse.json({ message: 'Failed to update renewal settings' }, { status: 500 });
+  }
+}
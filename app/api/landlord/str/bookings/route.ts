@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/db/prisma';
 import { prismaBase } from '@/db/prisma-base';
+import { findCalendarOverlap } from '@/lib/services/str-ical.service';
+import { getStayQuote } from '@/lib/services/str-pricing.service';
 import { differenceInDays } from 'date-fns';
 
 // GET - List all bookings
@@ -108,41 +110,47 @@ export async function POST(req: NextRequest) {
     const checkIn = new Date(data.checkIn);
     const checkOut = new Date(data.checkOut);
     
-    const overlapping = await prismaBase.sTRBooking.findFirst({
-      where: {
-        rentalId: data.rentalId,
-        status: { in: ['confirmed', 'checked_in'] },
-        OR: [
-          {
-            checkIn: { lte: checkIn },
-            checkOut: { gt: checkIn },
-          },
-          {
-            checkIn: { lt: checkOut },
-            checkOut: { gte: checkOut },
-          },
-          {
-            checkIn: { gte: checkIn },
-            checkOut: { lte: checkOut },
-          },
-        ],
-      },
-    });
+    // Bookings and blocked dates (including ones imported from Airbnb/VRBO)
+    const overlapping = await findCalendarOverlap(data.rentalId, checkIn, checkOut);
 
     if (overlapping) {
       return NextResponse.json(
-        { error: 'Dates overlap with existing booking' },
+        {
+          error:
+            overlapping.kind === 'booking'
+              ? 'Dates overlap with existing booking'
+              : 'Dates overlap with blocked dates',
+        },
         { status: 400 }
       );
     }
 
-    // Calculate nights and pricing
+    // Price the stay with the rental's pricing rules
     const nights = differenceInDays(checkOut, checkIn);
-    const basePrice = parseFloat(data.basePrice || rental.basePrice.toString());
-    const cleaningFee = parseFloat(data.cleaningFee || rental.cleaningFee?.toString() || '0');
+    const source = data.source || 'direct';
+    const quote = await getStayQuote(data.rentalId, {
+      checkIn,
+      checkOut,
+      guests: parseInt(data.numberOfGuests) || 1,
+    });
+
+    // Platform bookings were already accepted on the channel; only direct ones are held to the rules
+    if (source === 'direct' && quote.errors.length > 0) {
+      return NextResponse.json({ error: quote.errors[0], quote }, { status: 400 });
+    }
+
+    // An explicit nightly basePrice keeps the old manual pricing
+    const manualPricing = data.basePrice !== undefined && data.basePrice !== null && data.basePrice !== '';
+    const basePrice = manualPricing ? parseFloat(data.basePrice) : quote.averageNightlyRate;
+    const cleaningFee =
+      data.cleaningFee !== undefined && data.cleaningFee !== '' ? parseFloat(data.cleaningFee) : quote.cleaningFee;
+    const extraGuestFee = manualPricing ? 0 : quote.extraGuestFee;
+    const discount = manualPricing ? 0 : quote.discount;
     const serviceFee = parseFloat(data.serviceFee || '0');
-    const taxes = parseFloat(data.taxes || '0');
-    const totalPrice = (basePrice * nights) + cleaningFee + serviceFee + taxes;
+    const taxes = data.taxes !== undefined && data.taxes !== '' ? parseFloat(data.taxes) : quote.taxes;
+    const accommodation = manualPricing ? basePrice * nights : quote.accommodation;
+    const totalPrice =
+      Math.round((accommodation - discount + cleaningFee + extraGuestFee + serviceFee + taxes) * 100) / 100;
 
     // Generate confirmation code
     const confirmationCode = `STR${Date.now()}${Math.random().toString(36).substring(2, 11).toUpperCase()}`;
@@ -183,10 +191,13 @@ export async function POST(req: NextRequest) {
         nights,
         basePrice,
         cleaningFee,
+        extraGuestFee,
+        discount,
         serviceFee,
         taxes,
         totalPrice,
-        source: data.source || 'direct',
+        priceBreakdown: manualPricing ? undefined : quote,
+        source,
         externalBookingId: data.externalBookingId,
         platformFee: data.platformFee ? parseFloat(data.platformFee) : null,
         status: data.status || 'confirmed',
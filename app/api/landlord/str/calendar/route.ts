@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/db/prisma';
 import { prismaBase } from '@/db/prisma-base';
-import { startOfMonth, endOfMonth, eachDayOfInterval } from 'date-fns';
+import { startOfMonth, endOfMonth, eachDayOfInterval, format } from 'date-fns';
+import { getCalendarRates } from '@/lib/services/str-pricing.service';
 
 // GET - Get calendar availability
 export async function GET(req: NextRequest) {
@@ -90,6 +91,24 @@ export async function GET(req: NextRequest) {
       },
     });
 
+    // Double-bookings picked up by the channel sync
+    const conflicts = await prismaBase.sTRCalendarConflict.findMany({
+      where: {
+        ...where,
+        status: 'open',
+        startDate: { lte: endDate },
+        endDate: { gt: startDate },
+      },
+      orderBy: { startDate: 'asc' },
+    });
+
+    // Nightly rates from the pricing engine (single property only)
+    const ownsRental = rentalId
+      ? (await prisma.shortTermRental.count({ where: { id: rentalId, landlordId: landlord.id } })) > 0
+      : false;
+    const rates = rentalId && ownsRental ? await getCalendarRates(rentalId, startDate, endDate) : [];
+    const ratesByDate = new Map(rates.map(rate => [rate.date, rate]));
+
     // Build calendar data
     const days = eachDayOfInterval({ start: startDate, end: endDate });
     const calendar = days.map(day => {
@@ -105,15 +124,20 @@ export async function GET(req: NextRequest) {
         return day >= start && day <= end;
       });
 
+      const rate = ratesByDate.get(format(day, 'yyyy-MM-dd'));
+
       return {
         date: day.toISOString(),
+        price: rate?.rate ?? null,
+        minStay: rate?.minStay ?? null,
         bookings: dayBookings,
         blocked: dayBlocked,
         isAvailable: dayBookings.length === 0 && dayBlocked.length === 0,
+        hasConflict: dayBookings.length + dayBlocked.length > 1,
       };
     });
 
-    return NextResponse.json({ calendar, bookings, blockedDates });
+    return NextResponse.json({ calendar, bookings, blockedDates, conflicts });
   } catch (error) {
     console.error('Error fetching calendar:', error);
     return NextResponse.json({ error: 'Failed to fetch calendar' }, { status: 500 });
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/db/prisma';
+import { normalizePricingRuleInput } from '@/lib/services/str-pricing.service';
+
+async function getLandlord() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const landlord = await prisma.landlord.findFirst({
+    where: { ownerUserId: session.user.id },
+  });
+
+  if (!landlord) {
+    return { error: NextResponse.json({ error: 'Landlord not found' }, { status: 404 }) };
+  }
+
+  return { landlord };
+}
+
+// GET - List pricing rules for a property
+export async function GET(req: NextRequest) {
+  try {
+    const { landlord, error } = await getLandlord();
+    if (error) return error;
+
+    const { searchParams } = new URL(req.url);
+    const rentalId = searchParams.get('rentalId');
+
+    const rules = await prisma.sTRPricingRule.findMany({
+      where: {
+        rental: { landlordId: landlord.id },
+        ...(rentalId ? { rentalId } : {}),
+      },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+    });
+
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error('Error fetching pricing rules:', error);
+    return NextResponse.json({ error: 'Failed to fetch pricing rules' }, { status: 500 });
+  }
+}
+
+// POST - Create a pricing rule
+export async function POST(req: NextRequest) {
+  try {
+    const { landlord, error } = await getLandlord();
+    if (error) return error;
+
+    const data = await req.json();
+
+    const rental = await prisma.shortTermRental.findFirst({
+      where: { id: data.rentalId, landlordId: landlord.id },
+      select: { id: true },
+    });
+
+    if (!rental) {
+      return NextResponse.json({ error: 'Property not found' }, { status: 404 });
+    }
+
+    const normalized = normalizePricingRuleInput(data);
+    if ('error' in normalized) {
+      return NextResponse.json({ error: normalized.error }, { status: 400 });
+    }
+
+    const rule = await prisma.sTRPricingRule.create({
+      data: { ...normalized.data, rentalId: rental.id },
+    });
+
+    return NextResponse.json({ rule }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating pricing rule:', error);
+    return NextResponse.json({ error: 'Failed to create pricing rule' }, { status: 500 });
+  }
+}
+
+// DELETE - Remove a pricing rule
+export async function DELETE(req: NextRequest) {
+  try {
+    const { landlord, error } = await getLandlord();
+    if (error) return error;
+
+    const { searchParams } = new URL(req.url);
+    const id = searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json({ error: 'ID required' }, { status: 400 });
+    }
+
+    const { count } = await prisma.sTRPricingRule.deleteMany({
+      where: { id, rental: { landlordId: landlord.id } },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Pricing rule not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting pricing rule:', error);
+    return NextResponse.json({ error: 'Failed to delete pricing rule' }, { status: 500 });
+  }
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/db/prisma';
+import type { Prisma } from '@prisma/client';
+import {
+  assertPublicFeedUrl,
+  ensureIcalExportToken,
+  getIcalExportUrl,
+  importRentalCalendars,
+  normalizeFeedConfigs,
+  type ICalFeedConfig,
+} from '@/lib/services/str-ical.service';
+
+async function getOwnedRental(rentalId: string) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const landlord = await prisma.landlord.findFirst({
+    where: { ownerUserId: session.user.id },
+  });
+
+  if (!landlord) {
+    return { error: NextResponse.json({ error: 'Landlord not found' }, { status: 404 }) };
+  }
+
+  const rental = await prisma.shortTermRental.findFirst({
+    where: { id: rentalId, landlordId: landlord.id },
+    select: { id: true, icalImportUrls: true, lastIcalSync: true },
+  });
+
+  if (!rental) {
+    return { error: NextResponse.json({ error: 'Property not found' }, { status: 404 }) };
+  }
+
+  return { rental };
+}
+
+// GET - Export feed URL, channel feeds and open double-bookings
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { rental, error } = await getOwnedRental(id);
+    if (error) return error;
+
+    const token = await ensureIcalExportToken(rental.id);
+    const conflicts = await prisma.sTRCalendarConflict.findMany({
+      where: { rentalId: rental.id, status: 'open' },
+      orderBy: { startDate: 'asc' },
+    });
+
+    return NextResponse.json({
+      exportUrl: getIcalExportUrl(token),
+      feeds: normalizeFeedConfigs(rental.icalImportUrls),
+      lastSyncedAt: rental.lastIcalSync,
+      conflicts,
+    });
+  } catch (error) {
+    console.error('Error fetching iCal settings:', error);
+    return NextResponse.json({ error: 'Failed to fetch iCal settings' }, { status: 500 });
+  }
+}
+
+// PUT - Replace the channel feeds to import
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { rental, error } = await getOwnedRental(id);
+    if (error) return error;
+
+    const data = await req.json();
+    const feeds = normalizeFeedConfigs(data.feeds);
+    // The server fetches these feeds, so only public https hosts are allowed
+    for (const feed of feeds) {
+      try {
+        await assertPublicFeedUrl(feed.url);
+      } catch {
+        return NextResponse.json({ error: `Invalid calendar URL: ${feed.url}` }, { status: 400 });
+      }
+    }
+
+    // Keep sync status for feeds that didn't change
+    const existing = normalizeFeedConfigs(rental.icalImportUrls);
+    const merged: ICalFeedConfig[] = feeds.map((feed) => {
+      const previous = existing.find((e) => e.url === feed.url && e.platform === feed.platform);
+      return previous ? { ...previous } : { platform: feed.platform, url: feed.url };
+    });
+
+    await prisma.shortTermRental.update({
+      where: { id: rental.id },
+      data: { icalImportUrls: merged as unknown as Prisma.InputJsonValue },
+    });
+
+    return NextResponse.json({ feeds: merged });
+  } catch (error) {
+    console.error('Error updating iCal feeds:', error);
+    return NextResponse.json({ error: 'Failed to update iCal feeds' }, { status: 500 });
+  }
+}
+
+// POST - Import channel feeds now, or rotate the export feed URL
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { rental, error } = await getOwnedRental(id);
+    if (error) return error;
+
+    const data = await req.json().catch(() => ({}));
+
+    if (data.action === 'regenerate_export') {
+      const token = await ensureIcalExportToken(rental.id, true);
+      return NextResponse.json({ exportUrl: getIcalExportUrl(token) });
+    }
+
+    const result = await importRentalCalendars(rental.id);
+    return NextResponse.json({ result });
+  } catch (error) {
+    console.error('Error importing iCal feeds:', error);
+    return NextResponse.json({ error: 'Failed to import iCal feeds' }, { status: 500 });
+  }
+}
@@ -118,6 +118,7 @@ export async function PUT(
         securityDeposit: data.securityDeposit ? parseFloat(data.securityDeposit) : undefined,
         extraGuestFee: data.extraGuestFee ? parseFloat(data.extraGuestFee) : undefined,
         extraGuestThreshold: data.extraGuestThreshold ? parseInt(data.extraGuestThreshold) : undefined,
+        taxRate: data.taxRate ? parseFloat(data.taxRate) : undefined,
         isActive: data.isActive,
         isListed: data.isListed,
         listedOn: data.listedOn,
@@ -102,6 +102,7 @@ export async function POST(req: NextRequest) {
         securityDeposit: data.securityDeposit ? parseFloat(data.securityDeposit) : null,
         extraGuestFee: data.extraGuestFee ? parseFloat(data.extraGuestFee) : null,
         extraGuestThreshold: parseInt(data.extraGuestThreshold) || 2,
+        taxRate: data.taxRate ? parseFloat(data.taxRate) : null,
         icalExportUrl,
         isActive: true,
         isListed: data.isListed || false,
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/db/prisma';
+import { getStayQuote } from '@/lib/services/str-pricing.service';
+
+// GET - Itemized price quote for a stay
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const landlord = await prisma.landlord.findFirst({
+      where: { ownerUserId: session.user.id },
+    });
+
+    if (!landlord) {
+      return NextResponse.json({ error: 'Landlord not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const rentalId = searchParams.get('rentalId');
+    const checkIn = new Date(searchParams.get('checkIn') || '');
+    const checkOut = new Date(searchParams.get('checkOut') || '');
+    const guests = parseInt(searchParams.get('guests') || '1');
+
+    if (!rentalId || Number.isNaN(checkIn.getTime()) || Number.isNaN(checkOut.getTime())) {
+      return NextResponse.json({ error: 'rentalId, checkIn and checkOut are required' }, { status: 400 });
+    }
+
+    const rental = await prisma.shortTermRental.findFirst({
+      where: { id: rentalId, landlordId: landlord.id },
+      select: { id: true },
+    });
+
+    if (!rental) {
+      return NextResponse.json({ error: 'Property not found' }, { status: 404 });
+    }
+
+    const quote = await getStayQuote(rental.id, {
+      checkIn,
+      checkOut,
+      guests: Number.isNaN(guests) ? 1 : guests,
+    });
+
+    return NextResponse.json({ quote });
+  } catch (error) {
+    console.error('Error calculating quote:', error);
+    return NextResponse.json({ error: 'Failed to calculate quote' }, { status: 500 });
+  }
+}
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/db/prisma';
+import { getOrCreateCurrentLandlord } from '@/lib/actions/landlord.actions';
+import {
+  deleteUtilityBill,
+  getUtilityBillingErrorStatus,
+  postUtilityBill,
+  recalculateUtilityBill,
+  UtilityBillingError,
+  voidUtilityBill,
+} from '@/lib/services/utility-billing.service';
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof UtilityBillingError) {
+    return NextResponse.json(
+      { message: error.message, code: error.code },
+      { status: getUtilityBillingErrorStatus(error.code) }
+    );
+  }
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ message: fallback }, { status: 500 });
+}
+
+/**
+ * GET /api/landlord/utility-bills/[id]
+ * Bill with its per-tenancy allocations
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return NextResponse.json({ message: 'Not authorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const bill = await prisma.utilityBill.findFirst({
+      where: { id, landlordId: landlordResult.landlord.id },
+      include: {
+        property: { select: { id: true, name: true } },
+        expense: { select: { id: true, amount: true, category: true, incurredAt: true } },
+        allocations: {
+          include: { unit: { select: { id: true, name: true } } },
+          orderBy: { amount: 'desc' },
+        },
+      },
+    });
+
+    if (!bill) {
+      return NextResponse.json({ message: 'Utility bill not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, bill });
+  } catch (error) {
+    console.error('Error loading utility bill:', error);
+    return NextResponse.json({ message: 'Failed to load utility bill' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/landlord/utility-bills/[id]
+ * - { action: 'recalculate' } - re-run the allocation on a draft
+ * - { action: 'post' } - invoice each tenant for their share
+ * - { action: 'void' } - cancel unpaid invoices and void the bill
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return NextResponse.json({ message: 'Not authorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const landlordId = landlordResult.landlord.id;
+    const body = await request.json().catch(() => ({}));
+
+    switch (body.action) {
+      case 'recalculate': {
+        const bill = await recalculateUtilityBill(landlordId, id);
+        return NextResponse.json({ success: true, bill });
+      }
+      case 'post': {
+        const result = await postUtilityBill(landlordId, id);
+        return NextResponse.json({ success: true, ...result });
+      }
+      case 'void': {
+        const result = await voidUtilityBill(landlordId, id);
+        return NextResponse.json({ success: true, ...result });
+      }
+      default:
+        return NextResponse.json({ message: 'Invalid action' }, { status: 400 });
+    }
+  } catch (error) {
+    return errorResponse(error, 'Failed to update utility bill');
+  }
+}
+
+/**
+ * DELETE /api/landlord/utility-bills/[id]
+ * Delete a draft bill (the linked expense is kept)
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return NextResponse.json({ message: 'Not authorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    await deleteUtilityBill(landlordResult.landlord.id, id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete utility bill');
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/db/prisma';
+import { getOrCreateCurrentLandlord } from '@/lib/actions/landlord.actions';
+import {
+  createUtilityBill,
+  getUtilityBillingErrorStatus,
+  normalizeUtilityBillInput,
+  UtilityBillingError,
+} from '@/lib/services/utility-billing.service';
+
+/**
+ * GET /api/landlord/utility-bills
+ * Utility bills for the landlord, newest period first.
+ * Optional filters: ?propertyId=&status=
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return NextResponse.json({ message: 'Not authorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const propertyId = searchParams.get('propertyId');
+    const status = searchParams.get('status');
+
+    const bills = await prisma.utilityBill.findMany({
+      where: {
+        landlordId: landlordResult.landlord.id,
+        ...(propertyId && { propertyId }),
+        ...(status && { status }),
+      },
+      include: {
+        property: { select: { id: true, name: true } },
+        _count: { select: { allocations: true } },
+      },
+      orderBy: { periodStart: 'desc' },
+      take: 200,
+    });
+
+    return NextResponse.json({ success: true, bills });
+  } catch (error) {
+    console.error('Error fetching utility bills:', error);
+    return NextResponse.json({ message: 'Failed to fetch utility bills' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/landlord/utility-bills
+ * Record a shared-meter bill and allocate it as a draft.
+ * Body: { propertyId, utilityType, periodStart, periodEnd, totalAmount,
+ *         allocationMethod, recoveryPercent?, expenseId?, dueDate?, notes? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return NextResponse.json({ message: 'Not authorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const input = normalizeUtilityBillInput(body);
+    const bill = await createUtilityBill(landlordResult.landlord.id, input);
+
+    return NextResponse.json({ success: true, bill }, { status: 201 });
+  } catch (error) {
+    if (error instanceof UtilityBillingError) {
+      return NextResponse.json(
+        { message: error.message, code: error.code },
+        { status: getUtilityBillingErrorStatus(error.code) }
+      );
+    }
+    console.error('Error creating utility bill:', error);
+    return NextResponse.json({ message: 'Failed to create utility bill' }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/db/prisma';
+import { getOrCreateCurrentLandlord } from '@/lib/actions/landlord.actions';
+import {
+  getUtilityBillingErrorStatus,
+  recordMeterReading,
+  UtilityBillingError,
+} from '@/lib/services/utility-billing.service';
+
+/**
+ * GET /api/landlord/utility-meter-readings?propertyId=&unitId=&utilityType=
+ * Sub-meter reads for the landlord's units, newest first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return NextResponse.json({ message: 'Not authorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const propertyId = searchParams.get('propertyId');
+    const unitId = searchParams.get('unitId');
+    const utilityType = searchParams.get('utilityType');
+
+    const readings = await prisma.utilityMeterReading.findMany({
+      where: {
+        unit: {
+          property: { landlordId: landlordResult.landlord.id },
+          ...(propertyId && { propertyId }),
+        },
+        ...(unitId && { unitId }),
+        ...(utilityType && { utilityType }),
+      },
+      include: { unit: { select: { id: true, name: true, propertyId: true } } },
+      orderBy: { readAt: 'desc' },
+      take: 500,
+    });
+
+    return NextResponse.json({ success: true, readings });
+  } catch (error) {
+    console.error('Error fetching meter readings:', error);
+    return NextResponse.json({ message: 'Failed to fetch meter readings' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/landlord/utility-meter-readings
+ * Body: { unitId, utilityType, readAt, reading }. A second read for the same
+ * meter and time replaces the first.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return NextResponse.json({ message: 'Not authorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    if (typeof body.unitId !== 'string' || !body.unitId) {
+      return NextResponse.json({ message: 'unitId is required' }, { status: 400 });
+    }
+
+    const reading = await recordMeterReading(landlordResult.landlord.id, {
+      unitId: body.unitId,
+      utilityType: String(body.utilityType ?? ''),
+      readAt: new Date(body.readAt),
+      reading: Number(body.reading),
+    });
+
+    return NextResponse.json({ success: true, reading }, { status: 201 });
+  } catch (error) {
+    if (error instanceof UtilityBillingError) {
+      return NextResponse.json(
+        { message: error.message, code: error.code },
+        { status: getUtilityBillingErrorStatus(error.code) }
+      );
+    }
+    console.error('Error recording meter reading:', error);
+    return NextResponse.json({ message: 'Failed to record meter reading' }, { status: 500 });
+  }
+}
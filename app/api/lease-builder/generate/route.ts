@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/db/prisma';
-import { generateLeaseHtml, buildLeaseDataFromRecords, LeaseBuilderData } from '@/lib/services/lease-builder';
+import { generateLeaseHtml, buildLeaseDataFromRecords, getLeaseComplianceIssues, LeaseBuilderData } from '@/lib/services/lease-builder';
+import { getJurisdictionRules, getPropertyLocation } from '@/lib/services/jurisdiction-rules.service';
 import { htmlToPdfBuffer } from '@/lib/services/pdf';
 import { uploadToCloudinary } from '@/lib/cloudinary';
 
@@ -105,8 +106,22 @@ export async function POST(req: NextRequest) {
         billingDayOfMonth: leaseTerms?.billingDayOfMonth ?? 1,
       },
       customizations,
+      jurisdiction: await getJurisdictionRules(
+        getPropertyLocation(property.address),
+        leaseTerms?.startDate ? new Date(leaseTerms.startDate) : new Date()
+      ),
     });
 
+    // Customized terms can break the jurisdiction's limits
+    const complianceIssues = getLeaseComplianceIssues(leaseData);
+    const complianceErrors = complianceIssues.filter((issue) => issue.severity === 'error');
+    if (complianceErrors.length > 0) {
+      return NextResponse.json({
+        message: complianceErrors.map((issue) => issue.message).join(' '),
+        issues: complianceIssues,
+      }, { status: 422 });
+    }
+
     // Generate HTML
     const html = generateLeaseHtml(leaseData);
 
@@ -169,6 +184,7 @@ export async function POST(req: NextRequest) {
       pdfUrl: fileUrl,
       html,
       fileType,
+      warnings: complianceIssues.map((issue) => issue.message),
     });
   } catch (error: any) {
     console.error('Failed to generate lease:', error);
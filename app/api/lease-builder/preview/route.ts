@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/db/prisma';
 import { generateLeaseHtml, buildLeaseDataFromRecords, LeaseBuilderData, LEASE_DEFAULTS } from '@/lib/services/lease-builder';
+import { getJurisdictionRules, getPropertyLocation } from '@/lib/services/jurisdiction-rules.service';
 
 export async function POST(req: NextRequest) {
   try {
@@ -90,6 +91,10 @@ export async function POST(req: NextRequest) {
         billingDayOfMonth: leaseTerms?.billingDayOfMonth ?? 1,
       },
       customizations,
+      jurisdiction: await getJurisdictionRules(
+        getPropertyLocation(property.address),
+        leaseTerms?.startDate ? new Date(leaseTerms.startDate) : new Date()
+      ),
     });
 
     // Generate HTML preview
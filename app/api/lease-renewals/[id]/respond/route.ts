@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import {
+  getRenewalErrorStatus,
+  RenewalError,
+  respondToRenewal,
+} from '@/lib/services/lease-renewal.service';
+
+/**
+ * POST /api/lease-renewals/[id]/respond
+ * Tenant response to a renewal offer:
+ * - { action: 'accept', optionId } - generates the renewal lease for signing
+ * - { action: 'decline', message? }
+ * - { action: 'counter', termMonths, rentAmount, message? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: 'Not authenticated' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+
+    if (!['accept', 'decline', 'counter'].includes(body.action)) {
+      return NextResponse.json({ message: 'Invalid action' }, { status: 400 });
+    }
+
+    const result = await respondToRenewal({
+      renewalId: id,
+      tenantId: session.user.id,
+      action: body.action,
+      optionId: body.optionId,
+      termMonths: body.termMonths !== undefined ? Number(body.termMonths) : undefined,
+      rentAmount: body.rentAmount !== undefined ? Number(body.rentAmount) : undefined,
+      message: typeof body.message === 'string' ? body.message : undefined,
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof RenewalError) {
+      return NextResponse.json(
+        { message: error.message, code: error.code },
+        { status: getRenewalErrorStatus(error.code) }
+      );
+    }
+    console.error('Error responding to renewal:', error);
+    return NextResponse.json({ message: 'Failed to respond to renewal' }, { status: 500 });
+  }
+}
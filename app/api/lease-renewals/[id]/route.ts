@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/db/prisma';
+import { getOrCreateCurrentLandlord } from '@/lib/actions/landlord.actions';
+import {
+  acceptRenewalCounter,
+  getRenewalErrorStatus,
+  normalizeRenewalOptions,
+  RenewalError,
+  reviseRenewalOffer,
+  sendRenewalOffer,
+  withdrawRenewal,
+} from '@/lib/services/lease-renewal.service';
+
+/**
+ * GET /api/lease-renewals/[id]
+ * Renewal with its lease, for the landlord
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return NextResponse.json({ message: 'Not authorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const renewal = await prisma.leaseRenewal.findFirst({
+      where: { id, landlordId: landlordResult.landlord.id },
+      include: {
+        lease: {
+          select: {
+            id: true,
+            startDate: true,
+            endDate: true,
+            rentAmount: true,
+            tenant: { select: { id: true, name: true, email: true } },
+            unit: { select: { name: true, property: { select: { name: true } } } },
+          },
+        },
+        newLease: { select: { id: true, status: true, startDate: true, endDate: true, rentAmount: true } },
+      },
+    });
+
+    if (!renewal) {
+      return NextResponse.json({ message: 'Renewal not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, renewal });
+  } catch (error) {
+    console.error('Error loading renewal:', error);
+    return NextResponse.json({ message: 'Failed to load renewal' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/lease-renewals/[id]
+ * Landlord actions:
+ * - { action: 'send', offerExpiresAt? } - send the draft to the tenant
+ * - { action: 'revise', options } - replace the options (re-sends a countered offer)
+ * - { action: 'accept_counter' } - accept the tenant's counter and generate the lease
+ *   (repeating it retries a lease that failed to generate)
+ * - { action: 'withdraw' } - also allowed after acceptance while no lease was generated
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return NextResponse.json({ message: 'Not authorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const landlordId = landlordResult.landlord.id;
+    const body = await request.json().catch(() => ({}));
+
+    switch (body.action) {
+      case 'send': {
+        const offerExpiresAt = body.offerExpiresAt ? new Date(body.offerExpiresAt) : undefined;
+        if (offerExpiresAt && Number.isNaN(offerExpiresAt.getTime())) {
+          return NextResponse.json({ message: 'Invalid offerExpiresAt' }, { status: 400 });
+        }
+        const renewal = await sendRenewalOffer(id, landlordId, { offerExpiresAt });
+        return NextResponse.json({ success: true, renewal });
+      }
+      case 'revise': {
+        const normalized = normalizeRenewalOptions(body.options);
+        if ('error' in normalized) {
+          return NextResponse.json({ message: normalized.error }, { status: 400 });
+        }
+        const renewal = await reviseRenewalOffer(id, landlordId, normalized.options);
+        return NextResponse.json({ success: true, renewal });
+      }
+      case 'accept_counter': {
+        const result = await acceptRenewalCounter(id, landlordId);
+        return NextResponse.json({ success: true, ...result });
+      }
+      case 'withdraw': {
+        const renewal = await withdrawRenewal(id, landlordId);
+        return NextResponse.json({ success: true, renewal });
+      }
+      default:
+        return NextResponse.json({ message: 'Invalid action' }, { status: 400 });
+    }
+  } catch (error) {
+    if (error instanceof RenewalError) {
+      return NextResponse.json(
+        { message: error.message, code: error.code },
+        { status: getRenewalErrorStatus(error.code) }
+      );
+    }
+    console.error('Error updating renewal:', error);
+    return NextResponse.json({ message: 'Failed to update renewal' }, { status: 500 });
+  }
+}
@@ -0,0 +1,185 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/db/prisma';
+import { getOrCreateCurrentLandlord } from '@/lib/actions/landlord.actions';
+import { logFinancialEvent } from '@/lib/security/audit-logger';
+import {
+  getTenantLedgerReport,
+  getTenantLedgerStatement,
+  postManualEntry,
+  reverseLedgerEntry,
+  syncLeaseLedger,
+} from '@/lib/services/tenant-ledger.service';
+
+async function findLandlordLease(leaseId: string) {
+  const landlordResult = await getOrCreateCurrentLandlord();
+  if (!landlordResult.success) return null;
+
+  return prisma.lease.findFirst({
+    where: {
+      id: leaseId,
+      unit: { property: { landlordId: landlordResult.landlord.id } },
+    },
+    select: { id: true, tenantId: true, unit: { select: { property: { select: { landlordId: true } } } } },
+  });
+}
+
+/**
+ * GET /api/leases/[id]/ledger
+ * Tenant ledger with running balance. Pass `from` and `to` (ISO dates) for a
+ * balance-forward statement instead of the full history.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: 'Not authenticated' }, { status: 401 });
+    }
+
+    const { id: leaseId } = await params;
+
+    // Tenants can view their own ledger; landlords can view their leases
+    let lease = await prisma.lease.findFirst({
+      where: { id: leaseId, tenantId: session.user.id },
+      select: { id: true },
+    });
+    if (!lease) {
+      lease = await findLandlordLease(leaseId);
+    }
+    if (!lease) {
+      return NextResponse.json({ message: 'Lease not found or access denied' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+
+    if (from || to) {
+      const periodStart = from ? new Date(from) : new Date(0);
+      const periodEnd = to ? new Date(to) : new Date();
+      if (Number.isNaN(periodStart.getTime()) || Number.isNaN(periodEnd.getTime())) {
+        return NextResponse.json({ message: 'Invalid statement period' }, { status: 400 });
+      }
+      // Include the whole final day
+      periodEnd.setHours(23, 59, 59, 999);
+
+      const statement = await getTenantLedgerStatement(leaseId, periodStart, periodEnd);
+      return NextResponse.json({ success: true, statement });
+    }
+
+    const ledger = await getTenantLedgerReport(leaseId);
+    return NextResponse.json({ success: true, ledger });
+  } catch (error) {
+    console.error('Error loading tenant ledger:', error);
+    return NextResponse.json({ message: 'Failed to load ledger' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/leases/[id]/ledger
+ * Landlord adjustments: manual charge, credit, write-off, reversal, or a
+ * rebuild that re-syncs every source record for the lease.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: 'Not authenticated' }, { status: 401 });
+    }
+
+    const { id: leaseId } = await params;
+    const lease = await findLandlordLease(leaseId);
+    if (!lease) {
+      return NextResponse.json({ message: 'Lease not found or access denied' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const { action, amount, description, entryId, reason, effectiveDate } = (body || {}) as {
+      action?: 'charge' | 'credit' | 'write_off' | 'reverse' | 'rebuild';
+      amount?: number | string;
+      description?: string;
+      entryId?: string;
+      reason?: string;
+      effectiveDate?: string;
+    };
+
+    if (action === 'rebuild') {
+      await syncLeaseLedger(leaseId);
+      const ledger = await getTenantLedgerReport(leaseId);
+      return NextResponse.json({ success: true, ledger });
+    }
+
+    if (action === 'reverse') {
+      if (!entryId) {
+        return NextResponse.json({ message: 'entryId is required' }, { status: 400 });
+      }
+      const entry = await prisma.ledgerEntry.findFirst({
+        where: { id: entryId, leaseId },
+        select: { id: true },
+      });
+      if (!entry) {
+        return NextResponse.json({ message: 'Ledger entry not found' }, { status: 404 });
+      }
+
+      const reversal = await reverseLedgerEntry(entry.id, {
+        reason,
+        createdById: session.user.id,
+      });
+
+      logFinancialEvent('LEDGER_ENTRY_REVERSED', {
+        userId: session.user.id,
+        landlordId: lease.unit.property.landlordId || undefined,
+        amount: Number(reversal.amount),
+        transactionId: reversal.id,
+        additionalData: { leaseId, reversedEntryId: entry.id, reason },
+      }).catch(console.error);
+
+      return NextResponse.json({ success: true, entry: reversal });
+    }
+
+    if (action !== 'charge' && action !== 'credit' && action !== 'write_off') {
+      return NextResponse.json({ message: 'Invalid action' }, { status: 400 });
+    }
+
+    const parsedAmount = typeof amount === 'string' ? Number(amount) : amount;
+    if (typeof parsedAmount !== 'number' || Number.isNaN(parsedAmount) || parsedAmount <= 0) {
+      return NextResponse.json({ message: 'Invalid amount' }, { status: 400 });
+    }
+    if (!description || typeof description !== 'string' || !description.trim()) {
+      return NextResponse.json({ message: 'Description is required' }, { status: 400 });
+    }
+
+    const parsedDate = effectiveDate ? new Date(effectiveDate) : undefined;
+    if (parsedDate && Number.isNaN(parsedDate.getTime())) {
+      return NextResponse.json({ message: 'Invalid effectiveDate' }, { status: 400 });
+    }
+
+    const entry = await postManualEntry({
+      leaseId,
+      entryType: action,
+      amount: parsedAmount,
+      description: description.trim(),
+      effectiveDate: parsedDate,
+      createdById: session.user.id,
+    });
+
+    logFinancialEvent('LEDGER_ADJUSTMENT', {
+      userId: session.user.id,
+      landlordId: lease.unit.property.landlordId || undefined,
+      amount: parsedAmount,
+      transactionId: entry.id,
+      additionalData: { leaseId, entryType: action, description: entry.description },
+    }).catch(console.error);
+
+    return NextResponse.json({ success: true, entry });
+  } catch (error) {
+    console.error('Error posting ledger adjustment:', error);
+    return NextResponse.json({ message: 'Failed to post ledger adjustment' }, { status: 500 });
+  }
+}
@@ -28,7 +28,7 @@ export async function POST(
 
   await NotificationService.createNotification({
     userId: landlordUserId,
-    type: 'reminder',
+    type: 'lease',
     title: 'Lease ready for your signature',
     message: `${lease.tenant?.name || 'Tenant'} has signed. Please sign to complete.`,
     actionUrl: `/admin/products/${lease.unit.propertyId}/details`,
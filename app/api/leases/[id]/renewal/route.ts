@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/db/prisma';
+import { getOrCreateCurrentLandlord } from '@/lib/actions/landlord.actions';
+import {
+  createRenewalOffer,
+  getRenewalErrorStatus,
+  normalizeRenewalOptions,
+  RenewalError,
+} from '@/lib/services/lease-renewal.service';
+
+/**
+ * GET /api/leases/[id]/renewal
+ * Renewal offers for a lease, newest first. Tenants only see offers that
+ * have been sent to them.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: 'Not authenticated' }, { status: 401 });
+    }
+
+    const { id: leaseId } = await params;
+
+    const tenantLease = await prisma.lease.findFirst({
+      where: { id: leaseId, tenantId: session.user.id },
+      select: { id: true },
+    });
+
+    let isLandlord = false;
+    if (!tenantLease) {
+      const landlordResult = await getOrCreateCurrentLandlord();
+      const landlordLease = landlordResult.success
+        ? await prisma.lease.findFirst({
+            where: { id: leaseId, unit: { property: { landlordId: landlordResult.landlord.id } } },
+            select: { id: true },
+          })
+        : null;
+      if (!landlordLease) {
+        return NextResponse.json({ message: 'Lease not found or access denied' }, { status: 404 });
+      }
+      isLandlord = true;
+    }
+
+    const renewals = await prisma.leaseRenewal.findMany({
+      where: { leaseId, ...(isLandlord ? {} : { status: { not: 'draft' } }) },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({ success: true, renewals });
+  } catch (error) {
+    console.error('Error loading lease renewals:', error);
+    return NextResponse.json({ message: 'Failed to load renewals' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/leases/[id]/renewal
+ * Draft a renewal offer. Omit `options` to use the default 12-month,
+ * 6-month and month-to-month options at the landlord's renewal increase.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return NextResponse.json({ message: 'Not authorized' }, { status: 401 });
+    }
+
+    const { id: leaseId } = await params;
+    const body = await request.json().catch(() => ({}));
+
+    let options;
+    if (body.options !== undefined) {
+      const normalized = normalizeRenewalOptions(body.options);
+      if ('error' in normalized) {
+        return NextResponse.json({ message: normalized.error }, { status: 400 });
+      }
+      options = normalized.options;
+    }
+
+    const renewal = await createRenewalOffer({
+      leaseId,
+      landlordId: landlordResult.landlord.id,
+      options,
+    });
+
+    return NextResponse.json({ success: true, renewal }, { status: 201 });
+  } catch (error) {
+    if (error instanceof RenewalError) {
+      return NextResponse.json(
+        { message: error.message, code: error.code },
+        { status: getRenewalErrorStatus(error.code) }
+      );
+    }
+    console.error('Error creating lease renewal:', error);
+    return NextResponse.json({ message: 'Failed to create renewal' }, { status: 500 });
+  }
+}
@@ -114,6 +114,7 @@ export async function POST(req: NextRequest) {
         actionUrl: `/admin/maintenance`,
         metadata: { ticketId: ticket.id, priority: finalPriority },
         landlordId: landlordId ?? undefined,
+        priority: finalPriority === 'urgent' ? 'high' : 'normal',
       });
 
       // SMS alert if landlord has it enabled
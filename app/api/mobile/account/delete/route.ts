@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/db/prisma';
 import { verifyMobileToken } from '@/lib/mobile-auth';
+import {
+  createDataSubjectRequest,
+  DataRequestError,
+  getDataRequestErrorStatus,
+} from '@/lib/services/data-subject-request.service';
 
 export async function DELETE(req: NextRequest) {
   try {
@@ -9,23 +13,23 @@ export async function DELETE(req: NextRequest) {
     if (!token) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
 
     const payload = await verifyMobileToken(token);
-    if (!payload) return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    if (!payload?.userId) return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
 
-    const userId = payload.sub as string;
+    const userId = payload.userId;
 
-    // Cancel Stripe subscriptions before deleting
-    const landlord = await prisma.landlord.findFirst({ where: { ownerUserId: userId }, select: { id: true } });
-    const contractor = await prisma.contractorProfile.findFirst({ where: { userId }, select: { id: true } });
+    // Erasure anonymizes the account after an admin review instead of deleting
+    // the user row, which would cascade away leases and payment history
+    const { request } = await createDataSubjectRequest({ userId, type: 'erasure', source: 'mobile' });
 
-    // Delete related profiles first (cascades handle most, but explicit for safety)
-    if (landlord) await prisma.landlord.update({ where: { id: landlord.id }, data: { subscriptionStatus: 'canceled' } });
-    if (contractor) await prisma.contractorProfile.update({ where: { id: contractor.id }, data: { subscriptionStatus: 'canceled' } });
-
-    // Delete the user (cascades in schema handle related records)
-    await prisma.user.delete({ where: { id: userId } });
-
-    return NextResponse.json({ success: true, message: 'Account deleted successfully' });
+    return NextResponse.json({
+      success: true,
+      message: 'Your account deletion request has been received. We will confirm by email once it is complete.',
+      request: { id: request.id, status: request.status, dueAt: request.dueAt },
+    });
   } catch (error) {
+    if (error instanceof DataRequestError) {
+      return NextResponse.json({ error: error.message }, { status: getDataRequestErrorStatus(error.code) });
+    }
     console.error('Delete account error:', error);
     return NextResponse.json({ error: 'Failed to delete account' }, { status: 500 });
   }
@@ -1,49 +1,52 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/db/prisma';
 import { verifyMobileToken } from '@/lib/mobile-auth';
+import {
+  createDataSubjectRequest,
+  DataRequestError,
+  getDataRequestErrorStatus,
+  listUserDataRequests,
+} from '@/lib/services/data-subject-request.service';
 
-export async function POST(req: NextRequest) {
-  try {
-    const authHeader = req.headers.get('authorization');
-    const token = authHeader?.replace('Bearer ', '');
-    if (!token) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-
-    const payload = await verifyMobileToken(token);
-    if (!payload) return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+async function getUserId(req: NextRequest): Promise<string | null> {
+  const authHeader = req.headers.get('authorization');
+  const token = authHeader?.replace('Bearer ', '');
+  if (!token) return null;
+  const payload = await verifyMobileToken(token);
+  return payload?.userId ?? null;
+}
 
-    const userId = payload.sub as string;
+// Status of the user's data requests, for the in-app privacy screen
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await getUserId(req);
+    if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
 
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: {
-        id: true,
-        name: true,
-        email: true,
-        role: true,
-        phoneNumber: true,
-        createdAt: true,
-        emailVerified: true,
-      },
-    });
+    const requests = await listUserDataRequests(userId);
+    return NextResponse.json({ success: true, requests });
+  } catch (error) {
+    console.error('List data requests error:', error);
+    return NextResponse.json({ error: 'Failed to load data requests' }, { status: 500 });
+  }
+}
 
-    if (!user) return NextResponse.json({ error: 'User not found' }, { status: 404 });
+export async function POST(req: NextRequest) {
+  try {
+    const userId = await getUserId(req);
+    if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
 
-    // In production you'd email this — for now we return it and log the request
-    console.log(`Data request from user ${userId} (${user.email})`);
+    const { request, created } = await createDataSubjectRequest({ userId, type: 'export', source: 'mobile' });
 
     return NextResponse.json({
       success: true,
-      message: `Your data export has been requested. We will email a full copy to ${user.email} within 30 days as required by law.`,
-      summary: {
-        name: user.name,
-        email: user.email,
-        role: user.role,
-        phone: user.phoneNumber,
-        accountCreated: user.createdAt,
-        emailVerified: user.emailVerified,
-      },
+      message: created
+        ? `Your data export has been requested. We will email ${request.requestedEmail} when it is ready to download.`
+        : 'Your data export is already being prepared. We will email you when it is ready.',
+      request: { id: request.id, status: request.status, dueAt: request.dueAt },
     });
   } catch (error) {
+    if (error instanceof DataRequestError) {
+      return NextResponse.json({ error: error.message }, { status: getDataRequestErrorStatus(error.code) });
+    }
     console.error('Request data error:', error);
     return NextResponse.json({ error: 'Failed to process request' }, { status: 500 });
   }
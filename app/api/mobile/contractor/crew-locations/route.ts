@@ -11,7 +11,9 @@
  *   {
  *     crew: Array<{
  *       entryId, employeeId, employeeName,
- *       lat, lng,            // null if location not captured
+ *       lat, lng,            // latest breadcrumb, else clock-in fix; null if neither
+ *       lastSeenAt,          // ISO string of that fix
+ *       geofenceFlagged,     // clocked in outside the job site
  *       clockIn,             // ISO string
  *       elapsedMinutes,
  *       jobId, jobTitle,     // null if no job linked
@@ -23,6 +25,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/db/prisma';
 import { verifyMobileToken } from '@/lib/mobile-auth';
+import { getLatestPings } from '@/lib/services/crew-tracking.service';
 
 export async function GET(req: NextRequest) {
   try {
@@ -57,14 +60,21 @@ export async function GET(req: NextRequest) {
         id: true,
         clockIn: true,
         clockInLocation: true,
+        geofenceFlagged: true,
         employee: { select: { id: true, firstName: true, lastName: true } },
         job: { select: { id: true, title: true, jobNumber: true } },
       },
     });
 
+    // Latest breadcrumb wins over where they clocked in
+    const latestPings = await getLatestPings(
+      activeEntries.map((e: { employee?: { id: string } | null }) => e.employee?.id).filter(Boolean)
+    );
+
     const now = Date.now();
     const crew = activeEntries.map((e: any) => {
-      const loc = e.clockInLocation as { lat?: number; lng?: number; address?: string } | null;
+      const ping = e.employee ? latestPings.get(e.employee.id) : undefined;
+      const loc = (ping ?? e.clockInLocation) as { lat?: number; lng?: number; address?: string } | null;
       const elapsedMinutes = Math.floor((now - new Date(e.clockIn).getTime()) / 60000);
       return {
         entryId: e.id,
@@ -80,6 +90,8 @@ export async function GET(req: NextRequest) {
         jobId: e.job?.id ?? null,
         jobTitle: e.job?.title ?? null,
         jobNumber: e.job?.jobNumber ?? null,
+        lastSeenAt: ping ? ping.recordedAt.toISOString() : new Date(e.clockIn).toISOString(),
+        geofenceFlagged: !!e.geofenceFlagged,
       };
     });
 
@@ -3,11 +3,20 @@
  *
  * Body: { action: 'in' | 'out', location?: { lat, lng, address? }, jobId?, notes? }
  *
- * Works for both ContractorEmployee and TeamMember.
+ * Works for both ContractorEmployee and TeamMember. Contractor employees
+ * clocking in to a job are checked against the job-site geofence: outside
+ * it the entry is flagged for review or, in reject mode, refused with 422.
  */
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/db/prisma';
 import { verifyMobileToken } from '@/lib/mobile-auth';
+import {
+  CrewTrackingError,
+  checkClockInGeofence,
+  getCrewTrackingErrorStatus,
+  recordClockInLocation,
+  recordClockOutLocation,
+} from '@/lib/services/crew-tracking.service';
 
 export async function POST(req: NextRequest) {
   try {
@@ -55,6 +64,7 @@ export async function POST(req: NextRequest) {
         if (active) {
           return NextResponse.json({ error: 'Already clocked in', entryId: active.id }, { status: 400 });
         }
+        const geofence = await checkClockInGeofence(contractorEmp.contractorId, jobId, location);
         const entry = await db.contractorTimeEntry.create({
           data: {
             contractorId: contractorEmp.contractorId,
@@ -64,9 +74,16 @@ export async function POST(req: NextRequest) {
             clockInLocation: location ?? null,
             notes: notes ?? null,
             status: 'pending',
+            ...geofence.data,
           },
         });
-        return NextResponse.json({ success: true, entryId: entry.id, clockIn: entry.clockIn });
+        await recordClockInLocation(contractorEmp, entry.id, location, geofence.site, now);
+        return NextResponse.json({
+          success: true,
+          entryId: entry.id,
+          clockIn: entry.clockIn,
+          geofence: geofence.check,
+        });
       } else {
         if (!active) {
           return NextResponse.json({ error: 'Not clocked in' }, { status: 400 });
@@ -81,6 +98,7 @@ export async function POST(req: NextRequest) {
             notes: notes ? `${active.notes ?? ''}\n${notes}`.trim() : active.notes,
           },
         });
+        await recordClockOutLocation(contractorEmp, active, location, now);
         return NextResponse.json({ success: true, durationMinutes: duration });
       }
     } else if (teamMember) {
@@ -124,6 +142,12 @@ export async function POST(req: NextRequest) {
 
     return NextResponse.json({ error: 'Unknown employee type' }, { status: 500 });
   } catch (error) {
+    if (error instanceof CrewTrackingError) {
+      return NextResponse.json(
+        { error: error.message, distanceMeters: error.distanceMeters ?? null },
+        { status: getCrewTrackingErrorStatus(error.code) }
+      );
+    }
     console.error('[mobile/employee/clock]', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
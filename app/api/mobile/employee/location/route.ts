@@ -0,0 +1,58 @@
+/**
+ * POST /api/mobile/employee/location
+ *
+ * Body: { pings: [{ lat, lng, accuracy?, speed?, heading?, recordedAt }] }
+ *
+ * Breadcrumb batch from the employee app. Pings are only kept while the
+ * employee is clocked in; arriving at or leaving an assigned job site is
+ * detected from them and returned as `events`.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/db/prisma';
+import { verifyMobileToken } from '@/lib/mobile-auth';
+import {
+  CrewTrackingError,
+  getCrewTrackingErrorStatus,
+  parseLocationFixes,
+  recordLocationPings,
+} from '@/lib/services/crew-tracking.service';
+
+export async function POST(req: NextRequest) {
+  try {
+    const authHeader = req.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+    if (!token) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const payload = await verifyMobileToken(token);
+    if (!payload) return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+
+    const employee = await prisma.contractorEmployee.findFirst({
+      where: { userId: payload.userId, status: 'active' },
+      select: { id: true, contractorId: true },
+    });
+    if (!employee) {
+      return NextResponse.json({ error: 'No employee profile' }, { status: 404 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const fixes = parseLocationFixes(body.pings);
+    const result = await recordLocationPings(employee, fixes);
+
+    return NextResponse.json({
+      success: true,
+      accepted: result.accepted,
+      clockedIn: result.clockedIn,
+      events: result.events.map((event) => ({
+        type: event.type,
+        jobId: event.jobId,
+        occurredAt: event.fix.recordedAt.toISOString(),
+      })),
+    });
+  } catch (error) {
+    if (error instanceof CrewTrackingError) {
+      return NextResponse.json({ error: error.message }, { status: getCrewTrackingErrorStatus(error.code) });
+    }
+    console.error('[mobile/employee/location]', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/db/prisma';
 import { verifyMobileToken } from '@/lib/mobile-auth';
+import { CUSTOMER_QUOTE_LINE_SELECT } from '@/lib/services/price-book.service';
 
 export async function GET(req: NextRequest) {
   try {
@@ -18,6 +19,12 @@ export async function GET(req: NextRequest) {
         discount: true, tax: true, estimatedHours: true, startDate: true,
         completionDate: true, paymentTerms: true, validUntil: true, createdAt: true,
         contractor: { select: { businessName: true, displayName: true, email: true } },
+        selectedOptionId: true,
+        options: {
+          orderBy: { sortOrder: 'asc' },
+          select: { id: true, tier: true, name: true, description: true, recommended: true, total: true },
+        },
+        lineItems: { select: CUSTOMER_QUOTE_LINE_SELECT, orderBy: { sortOrder: 'asc' } },
       },
     });
 
@@ -32,6 +39,11 @@ export async function GET(req: NextRequest) {
         paymentTerms: q.paymentTerms, validUntil: q.validUntil.toISOString(),
         createdAt: q.createdAt.toISOString(),
         contractorName: q.contractor.businessName ?? q.contractor.displayName ?? 'Contractor',
+        selectedOptionId: q.selectedOptionId,
+        options: q.options.map((o) => ({ ...o, total: Number(o.total) })),
+        lineItems: q.lineItems.map((l) => ({
+          ...l, quantity: Number(l.quantity), unitPrice: Number(l.unitPrice), total: Number(l.total),
+        })),
       })),
     });
   } catch (error) {
@@ -1,36 +1,47 @@
 /**
- * POST /api/mobile/push-tokens
+ * POST   /api/mobile/push-tokens — register an Expo push token
+ * DELETE /api/mobile/push-tokens — unregister it (e.g. on sign-out)
  *
- * Registers an Expo push token for the authenticated user.
+ * Tokens are stored per device in PushToken. Re-registering a token moves it
+ * to the signed-in user, so a shared device only gets the current user's
+ * pushes. Which events actually push is up to the user's notification
+ * preferences.
  *
- * For now this just acks the request — the actual storage layer can be added
- * later (a `PushToken` table or a JSON column on User). Adding the storage
- * doesn't change the mobile-side contract.
- *
- * Body: { token: string, platform: 'ios' | 'android' }
+ * Body: { token: string, platform?: 'ios' | 'android' }
  */
 import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/db/prisma';
 import { verifyMobileToken } from '@/lib/mobile-auth';
 
+const PLATFORMS = ['ios', 'android'];
+
+async function getMobileUser(req: NextRequest) {
+  const authHeader = req.headers.get('authorization');
+  const auth = authHeader?.replace('Bearer ', '');
+  if (!auth) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+
+  const payload = await verifyMobileToken(auth);
+  if (!payload) return { error: NextResponse.json({ error: 'Invalid token' }, { status: 401 }) };
+
+  return { payload };
+}
+
 export async function POST(req: NextRequest) {
   try {
-    const authHeader = req.headers.get('authorization');
-    const auth = authHeader?.replace('Bearer ', '');
-    if (!auth) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-
-    const payload = await verifyMobileToken(auth);
-    if (!payload) return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    const mobileUser = await getMobileUser(req);
+    if ('error' in mobileUser) return mobileUser.error;
+    const { payload } = mobileUser;
 
     const body = await req.json().catch(() => ({}));
     const { token, platform } = body as { token?: string; platform?: string };
     if (!token) return NextResponse.json({ error: 'Token required' }, { status: 400 });
 
-    // TODO: persist token. For now log so we can see registrations during early rollout.
-    console.log('[push-tokens] registered', {
-      userId: payload.userId,
-      role: payload.role,
-      platform,
-      tokenPreview: token.slice(0, 20) + '…',
+    const normalizedPlatform = platform && PLATFORMS.includes(platform) ? platform : null;
+
+    await prisma.pushToken.upsert({
+      where: { token },
+      create: { token, userId: payload.userId, platform: normalizedPlatform },
+      update: { userId: payload.userId, platform: normalizedPlatform, lastSeenAt: new Date() },
     });
 
     return NextResponse.json({ success: true });
@@ -39,3 +50,22 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const mobileUser = await getMobileUser(req);
+    if ('error' in mobileUser) return mobileUser.error;
+    const { payload } = mobileUser;
+
+    const body = await req.json().catch(() => ({}));
+    const { token } = body as { token?: string };
+    if (!token) return NextResponse.json({ error: 'Token required' }, { status: 400 });
+
+    await prisma.pushToken.deleteMany({ where: { token, userId: payload.userId } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[mobile/push-tokens]', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -6,7 +6,7 @@ export async function POST(request: NextRequest) {
   try {
     // Rate limiting
     const clientId = getClientIdentifier(request);
-    const rateLimit = checkRateLimit(`newsletter:${clientId}`, RATE_LIMIT_CONFIGS.sensitive);
+    const rateLimit = await checkRateLimit(`newsletter:${clientId}`, RATE_LIMIT_CONFIGS.sensitive);
     
     if (!rateLimit.allowed) {
       return NextResponse.json(
@@ -1,6 +1,7 @@
 import { auth } from '@/auth';
 import { prisma } from '@/db/prisma';
 import { NextResponse } from 'next/server';
+import { syncContractorServiceAreas } from '@/lib/services/contractor-service-area.service';
 
 // Roles that cannot be changed through onboarding - these are privileged system roles
 const PROTECTED_ROLES = ['superAdmin', 'admin'];
@@ -69,7 +70,7 @@ export async function POST(request: Request) {
       const suffix = Math.random().toString(36).slice(2, 6);
       const slug = `${baseName}-${suffix}`;
 
-      await prisma.contractorProfile.create({
+      const profile = await prisma.contractorProfile.create({
         data: {
           userId: session.user.id,
           slug,
@@ -88,6 +89,19 @@ export async function POST(request: Request) {
           trialEndDate,
         },
       });
+
+      try {
+        await syncContractorServiceAreas(profile.id);
+      } catch (error) {
+        console.error('Failed to geocode contractor service areas:', error);
+      }
+
+      try {
+        const { dbTriggers } = await import('@/lib/event-system');
+        await dbTriggers.onContractorProfileCreate(profile);
+      } catch (error) {
+        console.error('Failed to emit contractor profile event:', error);
+      }
     }
 
     let linked = false;
@@ -2,6 +2,7 @@ import { auth } from '@/auth';
 import { prisma } from '@/db/prisma';
 import { NextRequest, NextResponse } from 'next/server';
 import { getOrCreateCurrentLandlord } from '@/lib/actions/landlord.actions';
+import { syncLedgerSafely, syncRentPaymentLedger } from '@/lib/services/tenant-ledger.service';
 
 export async function POST(request: NextRequest) {
   try {
@@ -57,6 +58,8 @@ export async function POST(request: NextRequest) {
 
     const now = new Date();
 
+    let rentPaymentId: string;
+
     if (pendingPayment) {
       // Update existing payment to paid
       await prisma.rentPayment.update({
@@ -68,6 +71,7 @@ export async function POST(request: NextRequest) {
           metadata: { note: note || 'Cash payment received' },
         },
       });
+      rentPaymentId = pendingPayment.id;
     } else {
       // Create a new rent payment record for the cash payment
       // tenantId is required, so we need to ensure we have it
@@ -75,7 +79,7 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({ message: 'No tenant associated with this lease' }, { status: 400 });
       }
 
-      await prisma.rentPayment.create({
+      const created = await prisma.rentPayment.create({
         data: {
           leaseId,
           tenantId: lease.tenant.id,
@@ -87,8 +91,13 @@ export async function POST(request: NextRequest) {
           metadata: { note: note || 'Cash payment received' },
         },
       });
+      rentPaymentId = created.id;
     }
 
+    await syncLedgerSafely(`cash payment ${rentPaymentId}`, () =>
+      syncRentPaymentLedger(rentPaymentId)
+    );
+
     // Add the amount to the landlord's wallet
     await prisma.landlordWallet.upsert({
       where: { landlordId: landlordResult.landlord.id },
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/db/prisma';
 import Stripe from 'stripe';
+import { syncLedgerSafely, syncRentPaymentsForIntent } from '@/lib/services/tenant-ledger.service';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2025-02-24.acacia',
@@ -225,6 +226,10 @@ export async function POST(req: NextRequest) {
 
     if (!result.count) {
       console.warn('No matching rent payments found to update for payment intent:', finalPaymentIntentId);
+    } else if (confirmed.status === 'succeeded') {
+      await syncLedgerSafely(`payment intent ${finalPaymentIntentId}`, () =>
+        syncRentPaymentsForIntent(finalPaymentIntentId)
+      );
     }
 
     return NextResponse.json({
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/db/prisma';
 import Stripe from 'stripe';
+import { syncLedgerSafely, syncRentPaymentsForIntent } from '@/lib/services/tenant-ledger.service';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2025-02-24.acacia',
@@ -117,6 +118,10 @@ export async function POST(req: NextRequest) {
       },
     });
 
+    await syncLedgerSafely(`payment intent ${confirmed.id}`, () =>
+      syncRentPaymentsForIntent(confirmed.id)
+    );
+
     return NextResponse.json({
       success: true,
       paymentIntentId: confirmed.id,
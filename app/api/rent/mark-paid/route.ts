@@ -3,6 +3,7 @@ import { auth } from '@/auth';
 import { prisma } from '@/db/prisma';
 import { revalidatePath } from 'next/cache';
 import Stripe from 'stripe';
+import { syncLedgerSafely, syncRentPaymentLedger } from '@/lib/services/tenant-ledger.service';
 
 export async function POST(req: NextRequest) {
   const session = await auth();
@@ -125,6 +126,10 @@ export async function POST(req: NextRequest) {
     )
   );
 
+  for (const p of payments) {
+    await syncLedgerSafely(`rent payment ${p.id}`, () => syncRentPaymentLedger(p.id));
+  }
+
   revalidatePath('/user/dashboard');
   revalidatePath('/user/profile/rent-receipts');
   revalidatePath('/admin/revenue');
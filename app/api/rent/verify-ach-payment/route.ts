@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/db/prisma';
 import Stripe from 'stripe';
+import { syncLedgerSafely, syncRentPaymentsForIntent } from '@/lib/services/tenant-ledger.service';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2025-02-24.acacia',
@@ -213,6 +214,10 @@ export async function POST(req: NextRequest) {
       },
     });
 
+    await syncLedgerSafely(`payment intent ${verified.id}`, () =>
+      syncRentPaymentsForIntent(verified.id)
+    );
+
     return NextResponse.json({
       success: true,
       paymentIntentId: verified.id,
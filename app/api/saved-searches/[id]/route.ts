@@ -1,6 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/db/prisma';
+import { Prisma } from '@prisma/client';
+import {
+  getSavedSearchErrorStatus,
+  isAlertFrequency,
+  isSavedSearchType,
+  normalizeSavedSearchCriteria,
+  recordSavedSearchBaseline,
+  SavedSearchError,
+} from '@/lib/services/saved-search-alerts.service';
 
 /**
  * PATCH - Update a saved search
@@ -18,7 +27,7 @@ export async function PATCH(
     }
 
     const body = await request.json();
-    const { name, emailAlerts, alertFrequency } = body;
+    const { name, emailAlerts, alertFrequency, criteria } = body;
 
     // Verify ownership
     const search = await prisma.savedSearch.findUnique({
@@ -33,21 +42,43 @@ export async function PATCH(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
     }
 
-    const updateData: any = {};
+    if (alertFrequency !== undefined && !isAlertFrequency(alertFrequency)) {
+      return NextResponse.json({ error: 'alertFrequency must be instant, daily or weekly' }, { status: 400 });
+    }
+
+    const updateData: Prisma.SavedSearchUpdateInput = {};
     if (name !== undefined) updateData.name = name;
-    if (emailAlerts !== undefined) updateData.emailAlerts = emailAlerts;
+    if (emailAlerts !== undefined) updateData.emailAlerts = emailAlerts === true;
     if (alertFrequency !== undefined) updateData.alertFrequency = alertFrequency;
+    if (criteria !== undefined) {
+      const searchType = isSavedSearchType(search.searchType) ? search.searchType : 'contractors';
+      updateData.criteria = normalizeSavedSearchCriteria(searchType, criteria);
+    }
 
-    const updatedSearch = await prisma.savedSearch.update({
+    await prisma.savedSearch.update({
       where: { id },
       data: updateData,
     });
 
+    // New criteria start a new baseline; earlier matches no longer apply
+    if (criteria !== undefined) {
+      await prisma.savedSearchMatch.deleteMany({ where: { savedSearchId: id } });
+      await recordSavedSearchBaseline(id);
+    }
+
+    const updatedSearch = await prisma.savedSearch.findUnique({
+      where: { id },
+      omit: { unsubscribeToken: true },
+    });
+
     return NextResponse.json({
       savedSearch: updatedSearch,
       message: 'Search updated successfully',
     });
   } catch (error) {
+    if (error instanceof SavedSearchError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: getSavedSearchErrorStatus(error.code) });
+    }
     console.error('Error updating saved search:', error);
     return NextResponse.json(
       { error: 'Failed to update search' },
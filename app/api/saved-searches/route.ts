@@ -1,6 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/db/prisma';
+import {
+  getSavedSearchErrorStatus,
+  isAlertFrequency,
+  isSavedSearchType,
+  normalizeSavedSearchCriteria,
+  recordSavedSearchBaseline,
+  SavedSearchError,
+} from '@/lib/services/saved-search-alerts.service';
 
 /**
  * GET - Get user's saved searches
@@ -13,9 +21,11 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const searchType = request.nextUrl.searchParams.get('type');
     const searches = await prisma.savedSearch.findMany({
-      where: { userId: session.user.id },
+      where: { userId: session.user.id, ...(isSavedSearchType(searchType) && { searchType }) },
       orderBy: { createdAt: 'desc' },
+      omit: { unsubscribeToken: true },
     });
 
     return NextResponse.json({ searches });
@@ -40,7 +50,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { name, criteria, emailAlerts = false, alertFrequency = 'daily' } = body;
+    const { name, criteria, emailAlerts = false, alertFrequency = 'daily', searchType = 'contractors' } = body;
 
     if (!name || !criteria) {
       return NextResponse.json(
@@ -48,27 +58,40 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
+    if (!isSavedSearchType(searchType)) {
+      return NextResponse.json({ error: 'searchType must be contractors or jobs' }, { status: 400 });
+    }
+    if (!isAlertFrequency(alertFrequency)) {
+      return NextResponse.json({ error: 'alertFrequency must be instant, daily or weekly' }, { status: 400 });
+    }
 
-    // Count current results for this search
-    // This would use the same logic as the search API
-    const resultCount = 0; // Placeholder
-
-    const savedSearch = await prisma.savedSearch.create({
+    const created = await prisma.savedSearch.create({
       data: {
         userId: session.user.id,
         name,
-        criteria,
-        emailAlerts,
+        searchType,
+        criteria: normalizeSavedSearchCriteria(searchType, criteria),
+        emailAlerts: emailAlerts === true,
         alertFrequency,
-        resultCount,
       },
     });
 
+    // Record what matches today so the first alert only carries new results
+    let resultCount = 0;
+    try {
+      resultCount = (await recordSavedSearchBaseline(created.id)).matched;
+    } catch (error) {
+      console.error('Failed to record saved search baseline:', error);
+    }
+
     return NextResponse.json({
-      savedSearch,
+      savedSearch: { ...created, resultCount },
       message: 'Search saved successfully',
     });
   } catch (error) {
+    if (error instanceof SavedSearchError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: getSavedSearchErrorStatus(error.code) });
+    }
     console.error('Error creating saved search:', error);
     return NextResponse.json(
       { error: 'Failed to save search' },
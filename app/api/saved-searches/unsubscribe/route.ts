@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getSavedSearchErrorStatus,
+  SavedSearchError,
+  unsubscribeSavedSearch,
+} from '@/lib/services/saved-search-alerts.service';
+
+/**
+ * POST - Turn off alerts for a saved search from the email link.
+ * The token is the only credential; no session needed.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const token = typeof body.token === 'string' ? body.token : '';
+
+    const savedSearch = await unsubscribeSavedSearch(token);
+
+    return NextResponse.json({
+      savedSearch,
+      message: `You won't get alerts for "${savedSearch.name}" anymore`,
+    });
+  } catch (error) {
+    if (error instanceof SavedSearchError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: getSavedSearchErrorStatus(error.code) });
+    }
+    console.error('Error unsubscribing saved search:', error);
+    return NextResponse.json(
+      { error: 'Failed to unsubscribe' },
+      { status: 500 }
+    );
+  }
+}
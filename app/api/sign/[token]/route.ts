@@ -7,6 +7,7 @@ import crypto from 'crypto';
 import { sendBrandedEmail } from '@/lib/services/email-service';
 import { NotificationService } from '@/lib/services/notification-service';
 import { generateMoveInCharges } from '@/lib/services/move-in-charges.service';
+import { completeRenewalOnSigning } from '@/lib/services/lease-renewal.service';
 import { revalidatePath } from 'next/cache';
 
 function getClientIp(req: NextRequest) {
@@ -619,8 +620,18 @@ export async function POST(
   revalidatePath('/admin/leases');
   revalidatePath('/admin/tenants');
 
+  // Renewal leases carry the existing deposit and charges forward instead of new move-in charges
+  const isRenewalLease = lease.generatedFrom === 'renewal';
+  if (sig.role === 'landlord' && isRenewalLease) {
+    try {
+      await completeRenewalOnSigning(lease.id);
+    } catch (renewalError) {
+      console.error('Error completing lease renewal:', renewalError);
+    }
+  }
+
   // Generate move-in charges when landlord signs (lease becomes active)
-  if (sig.role === 'landlord') {
+  if (sig.role === 'landlord' && !isRenewalLease) {
     try {
       const moveInResult = await generateMoveInCharges(lease.id);
       if (moveInResult.success && moveInResult.payments.length > 0) {
@@ -710,7 +721,7 @@ export async function POST(
       try {
         await NotificationService.createNotification({
           userId: landlordUserId,
-          type: 'reminder',
+          type: 'lease',
           title: 'Lease Signed by Tenant',
           message: `${tenantName} has signed their lease. Click to sign and complete the agreement.`,
           actionUrl: `/sign/${landlordToken}`,
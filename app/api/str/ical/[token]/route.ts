@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRentalICalendarByToken } from '@/lib/services/str-ical.service';
+
+export const dynamic = 'force-dynamic';
+
+// GET - Public iCal feed for a short-term rental, subscribed to by Airbnb/VRBO
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const calendar = await getRentalICalendarByToken(token.replace(/\.ics$/i, ''));
+
+    if (!calendar) {
+      return NextResponse.json({ error: 'Calendar not found' }, { status: 404 });
+    }
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="calendar.ics"',
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      },
+    });
+  } catch (error) {
+    console.error('Error serving iCal feed:', error);
+    return NextResponse.json({ error: 'Failed to load calendar' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Super Admin API - Audit chains
+ * One chain per landlord plus the platform chain, newest activity first
+ */
+
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/db/prisma';
+import { listAuditChains, PLATFORM_CHAIN } from '@/lib/security/audit-chain';
+
+export async function GET() {
+  const session = await auth();
+  if (session?.user?.role !== 'superAdmin') {
+    return NextResponse.json({ message: 'Not authorized' }, { status: 403 });
+  }
+
+  try {
+    const chains = await listAuditChains();
+    const landlords = await prisma.landlord.findMany({
+      where: { id: { in: chains.map((chain) => chain.chainKey).filter((key) => key !== PLATFORM_CHAIN) } },
+      select: { id: true, name: true },
+    });
+    const names = new Map(landlords.map((landlord) => [landlord.id, landlord.name]));
+
+    return NextResponse.json({
+      chains: chains.map((chain) => ({
+        ...chain,
+        label: chain.chainKey === PLATFORM_CHAIN ? 'Platform' : names.get(chain.chainKey) ?? chain.chainKey,
+      })),
+    });
+  } catch (error) {
+    console.error('List audit chains error:', error);
+    return NextResponse.json({ message: 'Failed to load audit chains' }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Super Admin API - Signed audit log export
+ * GET ?chainKey=<landlordId|platform>&from=<ISO date>&to=<ISO date>
+ * Downloads one chain's entries with their verification, signed with
+ * AUDIT_EXPORT_SIGNING_KEY (Ed25519)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { AuditChainError, buildAuditExport, getAuditChainErrorStatus } from '@/lib/security/audit-chain';
+import { logAuditEvent } from '@/lib/security/audit-logger';
+import { getClientIdentifier } from '@/lib/security/rate-limiter';
+
+function parseDate(value: string | null): Date | undefined | null {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export async function GET(request: NextRequest) {
+  const session = await auth();
+  if (session?.user?.role !== 'superAdmin' || !session.user.id) {
+    return NextResponse.json({ message: 'Not authorized' }, { status: 403 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const chainKey = searchParams.get('chainKey');
+  const from = parseDate(searchParams.get('from'));
+  const to = parseDate(searchParams.get('to'));
+
+  if (!chainKey) {
+    return NextResponse.json({ message: 'chainKey is required' }, { status: 400 });
+  }
+  if (from === null || to === null) {
+    return NextResponse.json({ message: 'from and to must be valid dates' }, { status: 400 });
+  }
+
+  try {
+    const signed = await buildAuditExport({ chainKey, from, to, generatedBy: session.user.id });
+
+    await logAuditEvent({
+      action: 'AUDIT_LOG_EXPORTED',
+      userId: session.user.id,
+      resourceType: 'audit_chain',
+      metadata: {
+        chainKey,
+        from: signed.document.range.from,
+        to: signed.document.range.to,
+        entries: signed.document.entries.length,
+        valid: signed.document.verification.valid,
+        keyId: signed.signature.keyId,
+      },
+      ipAddress: getClientIdentifier(request),
+      userAgent: request.headers.get('user-agent') ?? undefined,
+    });
+
+    const filename = `audit-log-${chainKey}-${signed.document.generatedAt.slice(0, 10)}.json`;
+    return new NextResponse(JSON.stringify(signed, null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof AuditChainError) {
+      return NextResponse.json({ message: error.message, code: error.code }, { status: getAuditChainErrorStatus(error) });
+    }
+    console.error('Audit log export error:', error);
+    return NextResponse.json({ message: 'Failed to export audit log' }, { status: 500 });
+  }
+}
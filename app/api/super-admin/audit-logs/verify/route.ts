@@ -0,0 +1,29 @@
+/**
+ * Super Admin API - Verify an audit chain
+ * Recomputes every hash in the chain and reports gaps, broken links and
+ * edited entries
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { verifyAuditChain } from '@/lib/security/audit-chain';
+
+export async function POST(request: NextRequest) {
+  const session = await auth();
+  if (session?.user?.role !== 'superAdmin') {
+    return NextResponse.json({ message: 'Not authorized' }, { status: 403 });
+  }
+
+  try {
+    const { chainKey } = await request.json();
+    if (!chainKey || typeof chainKey !== 'string') {
+      return NextResponse.json({ message: 'chainKey is required' }, { status: 400 });
+    }
+
+    const verification = await verifyAuditChain(chainKey);
+    return NextResponse.json({ verification });
+  } catch (error) {
+    console.error('Verify audit chain error:', error);
+    return NextResponse.json({ message: 'Failed to verify audit chain' }, { status: 500 });
+  }
+}
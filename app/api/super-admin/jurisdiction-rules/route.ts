@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/db/prisma';
+import {
+  BUILT_IN_JURISDICTION_RULES,
+  createJurisdictionRuleVersion,
+  normalizeJurisdictionKey,
+  normalizeJurisdictionRuleInput,
+} from '@/lib/services/jurisdiction-rules.service';
+
+/**
+ * GET /api/super-admin/jurisdiction-rules?state=CA
+ * Built-in and stored rule versions, optionally for one state
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id || session.user.role !== 'superAdmin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const state = normalizeJurisdictionKey(request.nextUrl.searchParams.get('state'));
+
+    const rules = await prisma.jurisdictionRule.findMany({
+      where: state ? { state } : {},
+      orderBy: [{ state: 'asc' }, { city: 'asc' }, { version: 'desc' }],
+    });
+
+    return NextResponse.json({
+      rules,
+      builtIn: BUILT_IN_JURISDICTION_RULES.filter((rule) => !state || rule.state === state),
+    });
+  } catch (error) {
+    console.error('Error fetching jurisdiction rules:', error);
+    return NextResponse.json({ error: 'Failed to fetch jurisdiction rules' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/super-admin/jurisdiction-rules
+ * Add a new rule version for a state or city. Only the fields being changed
+ * need to be set; the rest carry over from earlier versions. Send null to
+ * clear a field.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id || session.user.role !== 'superAdmin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const normalized = normalizeJurisdictionRuleInput(body);
+    if ('error' in normalized) {
+      return NextResponse.json({ error: normalized.error }, { status: 400 });
+    }
+
+    const rule = await createJurisdictionRuleVersion(normalized.data, session.user.id);
+    return NextResponse.json({ rule }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating jurisdiction rule:', error);
+    return NextResponse.json({ error: 'Failed to create jurisdiction rule' }, { status: 500 });
+  }
+}
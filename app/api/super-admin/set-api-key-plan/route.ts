@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { prisma } from '@/db/prisma';
+import { API_KEY_PLANS, isApiKeyPlan, resolveApiKeyLimits } from '@/lib/services/api-key.service';
+
+/**
+ * Set the plan and optional quota overrides for an API key
+ * Only accessible by superAdmin
+ *
+ * POST /api/super-admin/set-api-key-plan
+ * Body: { apiKeyId: string, plan: 'standard' | 'growth' | 'scale', dailyQuota?: number | null, monthlyQuota?: number | null }
+ * A null quota clears the override so the plan's quota applies again.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id || session.user.role !== 'superAdmin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { apiKeyId, plan, dailyQuota, monthlyQuota } = await request.json();
+
+    if (!apiKeyId || !plan) {
+      return NextResponse.json({ error: 'apiKeyId and plan are required' }, { status: 400 });
+    }
+
+    if (!isApiKeyPlan(plan)) {
+      return NextResponse.json(
+        { error: `Invalid plan. Must be: ${Object.keys(API_KEY_PLANS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    for (const quota of [dailyQuota, monthlyQuota]) {
+      if (quota !== undefined && quota !== null && (!Number.isInteger(quota) || quota < 1)) {
+        return NextResponse.json({ error: 'Quotas must be positive whole numbers' }, { status: 400 });
+      }
+    }
+
+    const existing = await prisma.apiKey.findUnique({ where: { id: apiKeyId }, select: { id: true } });
+    if (!existing) {
+      return NextResponse.json({ error: 'API key not found' }, { status: 404 });
+    }
+
+    const apiKey = await prisma.apiKey.update({
+      where: { id: apiKeyId },
+      data: { plan, dailyQuota, monthlyQuota },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `API key moved to the ${plan} plan`,
+      limits: resolveApiKeyLimits(apiKey),
+    });
+  } catch (error) {
+    console.error('Error setting API key plan:', error);
+    return NextResponse.json({ error: 'Failed to set API key plan' }, { status: 500 });
+  }
+}
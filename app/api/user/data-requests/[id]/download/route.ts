@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import {
+  DataRequestError,
+  getDataRequestErrorStatus,
+  getExportDownloadUrl,
+} from '@/lib/services/data-subject-request.service';
+import { logAuditEvent } from '@/lib/security/audit-logger';
+
+// GET - Redirect to a short-lived signed URL for a completed export
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const url = await getExportDownloadUrl(id, session.user.id);
+
+    await logAuditEvent({
+      action: 'SENSITIVE_DATA_ACCESSED',
+      userId: session.user.id,
+      resourceType: 'data_subject_request',
+      resourceId: id,
+      ipAddress: req.headers.get('x-forwarded-for')?.split(',')[0] || undefined,
+      userAgent: req.headers.get('user-agent') || undefined,
+    });
+
+    return NextResponse.redirect(url);
+  } catch (error) {
+    if (error instanceof DataRequestError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: getDataRequestErrorStatus(error.code) }
+      );
+    }
+    console.error('Download data export error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to download export' }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { listUserDataRequests } from '@/lib/services/data-subject-request.service';
+
+// GET - The signed-in user's data export and erasure requests
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const requests = await listUserDataRequests(session.user.id);
+    return NextResponse.json({ success: true, requests });
+  } catch (error) {
+    console.error('List data requests error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to load data requests' }, { status: 500 });
+  }
+}
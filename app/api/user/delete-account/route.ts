@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import {
+  createDataSubjectRequest,
+  DataRequestError,
+  getDataRequestErrorStatus,
+} from '@/lib/services/data-subject-request.service';
+
+// DELETE - Request erasure of the signed-in user's account; an admin reviews it first
+export async function DELETE(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const { request } = await createDataSubjectRequest({
+      userId: session.user.id,
+      type: 'erasure',
+      reason: typeof body?.reason === 'string' ? body.reason : null,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Your account deletion request has been received. We will confirm by email once it is complete.',
+      request: { id: request.id, status: request.status, dueAt: request.dueAt },
+    });
+  } catch (error) {
+    if (error instanceof DataRequestError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: getDataRequestErrorStatus(error.code) }
+      );
+    }
+    console.error('Delete account error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to request account deletion' }, { status: 500 });
+  }
+}
@@ -1,6 +1,14 @@
 import { NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/db/prisma';
+import {
+  getNotificationSettings,
+  normalizeNotificationSettingsInput,
+  NOTIFICATION_EVENTS,
+  NotificationPreferencesError,
+  saveNotificationSettings,
+  setChannelForAllEvents,
+} from '@/lib/services/notification-preferences.service';
 
 export async function GET() {
   try {
@@ -13,7 +21,7 @@ export async function GET() {
       where: { id: session.user.id },
       select: {
         phoneNumber: true,
-        notificationPreferences: true,
+        _count: { select: { pushTokens: true } },
       },
     });
 
@@ -21,12 +29,21 @@ export async function GET() {
       return NextResponse.json({ message: 'User not found' }, { status: 404 });
     }
 
-    const prefs = (user.notificationPreferences as { email?: boolean; sms?: boolean } | null) ?? {};
+    const settings = await getNotificationSettings(session.user.id);
 
     return NextResponse.json({
       phoneNumber: user.phoneNumber ?? '',
-      emailEnabled: prefs.email ?? true,
-      smsEnabled: prefs.sms ?? false,
+      // Whole-user switches, on when any event uses the channel
+      emailEnabled: NOTIFICATION_EVENTS.some((event) => settings.matrix[event].email),
+      smsEnabled: NOTIFICATION_EVENTS.some((event) => settings.matrix[event].sms),
+      matrix: settings.matrix,
+      timezone: settings.timezone,
+      quietHoursStart: settings.quietHoursStart,
+      quietHoursEnd: settings.quietHoursEnd,
+      digestMode: settings.digestMode,
+      digestHour: settings.digestHour,
+      digestDayOfWeek: settings.digestDayOfWeek,
+      pushDevices: user._count.pushTokens,
     });
   } catch (error) {
     console.error('Error fetching notification preferences:', error);
@@ -48,30 +65,49 @@ export async function PUT(request: Request) {
       smsEnabled?: boolean;
     };
 
+    const current = await getNotificationSettings(session.user.id);
+    const settings = normalizeNotificationSettingsInput(body, current);
+
+    // The whole-user switches apply to every event
+    if (typeof emailEnabled === 'boolean') {
+      settings.matrix = setChannelForAllEvents(settings.matrix, 'email', emailEnabled);
+    }
+    if (typeof smsEnabled === 'boolean') {
+      settings.matrix = setChannelForAllEvents(settings.matrix, 'sms', smsEnabled);
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { phoneNumber: true },
+    });
+    const nextPhone = phoneNumber !== undefined ? phoneNumber.trim() || null : user?.phoneNumber ?? null;
+    const anySms = NOTIFICATION_EVENTS.some((event) => settings.matrix[event].sms);
+    const anyEmail = NOTIFICATION_EVENTS.some((event) => settings.matrix[event].email);
+
     // If SMS is being turned on, a phone number is required
-    if (smsEnabled && !phoneNumber?.trim()) {
+    if (anySms && !nextPhone) {
       return NextResponse.json(
         { message: 'A phone number is required to enable SMS notifications.' },
         { status: 400 }
       );
     }
 
-    const notificationPreferences = {
-      email: emailEnabled ?? true,
-      sms: smsEnabled ?? false,
-      both: (emailEnabled ?? true) && (smsEnabled ?? false),
-    };
+    await saveNotificationSettings(session.user.id, settings);
 
     await prisma.user.update({
       where: { id: session.user.id },
       data: {
-        phoneNumber: phoneNumber?.trim() || null,
-        notificationPreferences,
+        phoneNumber: nextPhone,
+        // Kept in sync for code that still reads the whole-user switches
+        notificationPreferences: { email: anyEmail, sms: anySms, both: anyEmail && anySms },
       },
     });
 
     return NextResponse.json({ success: true });
   } catch (error) {
+    if (error instanceof NotificationPreferencesError) {
+      return NextResponse.json({ message: error.message, code: error.code }, { status: 400 });
+    }
     console.error('Error updating notification preferences:', error);
     return NextResponse.json({ message: 'Failed to update preferences' }, { status: 500 });
   }
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import {
+  createDataSubjectRequest,
+  DataRequestError,
+  getDataRequestErrorStatus,
+} from '@/lib/services/data-subject-request.service';
+
+// POST - Request an export of the signed-in user's personal data
+export async function POST() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { request, created } = await createDataSubjectRequest({ userId: session.user.id, type: 'export' });
+
+    return NextResponse.json({
+      success: true,
+      message: created
+        ? 'Your data export has been requested. We will email you when it is ready to download.'
+        : 'Your data export is already being prepared. We will email you when it is ready.',
+      request: { id: request.id, status: request.status, dueAt: request.dueAt },
+    });
+  } catch (error) {
+    if (error instanceof DataRequestError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: getDataRequestErrorStatus(error.code) }
+      );
+    }
+    console.error('Request data error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to request data export' }, { status: 500 });
+  }
+}
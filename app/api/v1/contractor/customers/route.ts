@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server';
-import { verifyContractorApiKey, hasContractorScope } from '@/lib/contractor-api-auth';
+import { withContractorApiAuth } from '@/lib/contractor-api-auth';
 import { prisma } from '@/db/prisma';
 
 /**
@@ -7,20 +7,12 @@ import { prisma } from '@/db/prisma';
  * List all customers for the authenticated contractor.
  * Requires scope: customers:read
  */
-export async function GET(request: Request) {
-  const auth = await verifyContractorApiKey(request);
-  if (!auth.success) {
-    return NextResponse.json({ error: auth.message }, { status: 401 });
-  }
-  if (!hasContractorScope(auth.apiKey!, 'customers:read') && !hasContractorScope(auth.apiKey!, '*')) {
-    return NextResponse.json({ error: 'Insufficient permissions. Required scope: customers:read' }, { status: 403 });
-  }
-
+export const GET = withContractorApiAuth('customers:read', async (request, auth) => {
   const { searchParams } = new URL(request.url);
   const page = parseInt(searchParams.get('page') || '1');
   const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 100);
 
-  const where = { contractorId: auth.contractor!.id };
+  const where = { contractorId: auth.contractor.id };
 
   const [customers, total] = await Promise.all([
     prisma.contractorCustomer.findMany({
@@ -41,4 +33,4 @@ export async function GET(request: Request) {
     data: customers,
     meta: { total, page, limit, pages: Math.ceil(total / limit) },
   });
-}
+});
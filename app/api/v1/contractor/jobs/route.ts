@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server';
-import { verifyContractorApiKey, hasContractorScope } from '@/lib/contractor-api-auth';
+import { withContractorApiAuth } from '@/lib/contractor-api-auth';
 import { prisma } from '@/db/prisma';
 
 /**
@@ -7,21 +7,13 @@ import { prisma } from '@/db/prisma';
  * List all jobs for the authenticated contractor.
  * Requires scope: jobs:read
  */
-export async function GET(request: Request) {
-  const auth = await verifyContractorApiKey(request);
-  if (!auth.success) {
-    return NextResponse.json({ error: auth.message }, { status: 401 });
-  }
-  if (!hasContractorScope(auth.apiKey!, 'jobs:read') && !hasContractorScope(auth.apiKey!, '*')) {
-    return NextResponse.json({ error: 'Insufficient permissions. Required scope: jobs:read' }, { status: 403 });
-  }
-
+export const GET = withContractorApiAuth('jobs:read', async (request, auth) => {
   const { searchParams } = new URL(request.url);
   const status = searchParams.get('status');
   const page = parseInt(searchParams.get('page') || '1');
   const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 100);
 
-  const where: any = { contractorId: auth.contractor!.id };
+  const where: any = { contractorId: auth.contractor.id };
   if (status) where.status = status;
 
   const [jobs, total] = await Promise.all([
@@ -44,4 +36,4 @@ export async function GET(request: Request) {
     data: jobs,
     meta: { total, page, limit, pages: Math.ceil(total / limit) },
   });
-}
+});
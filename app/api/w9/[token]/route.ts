@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  Form1099Error,
+  getForm1099ErrorStatus,
+  getW9Request,
+  submitW9Request,
+} from '@/lib/services/form-1099.service';
+
+type Params = { params: Promise<{ token: string }> };
+
+/**
+ * GET /api/w9/[token]
+ * Public: load a W-9 request for the contractor's self-service form.
+ */
+export async function GET(_request: NextRequest, { params }: Params) {
+  try {
+    const { token } = await params;
+    const w9Request = await getW9Request(token);
+    return NextResponse.json({ success: true, ...w9Request });
+  } catch (error) {
+    if (error instanceof Form1099Error) {
+      return NextResponse.json(
+        { message: error.message, code: error.code },
+        { status: getForm1099ErrorStatus(error.code) }
+      );
+    }
+    console.error('Error loading W-9 request:', error);
+    return NextResponse.json({ message: 'Failed to load W-9 request' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/w9/[token]
+ * Public: submit the completed, certified W-9. The link stops working after.
+ */
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const { token } = await params;
+    const body = await request.json().catch(() => ({}));
+    const ip = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || null;
+    await submitW9Request(token, body, ip);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof Form1099Error) {
+      return NextResponse.json(
+        { message: error.message, code: error.code },
+        { status: getForm1099ErrorStatus(error.code) }
+      );
+    }
+    console.error('Error submitting W-9:', error);
+    return NextResponse.json({ message: 'Failed to submit W-9' }, { status: 500 });
+  }
+}
@@ -8,7 +8,13 @@ import { formatCurrency } from '@/lib/utils';
 import { formatEstimatedArrival } from '@/lib/config/stripe-constants';
 import { sendLandlordPaymentReceivedEmail } from '@/lib/actions/email.actions';
 import { logFinancialEvent } from '@/lib/security/audit-logger';
+import { diffRecords } from '@/lib/security/audit-chain';
 import { sendMetaServerEvent } from '@/lib/analytics/meta-capi';
+import {
+  syncLedgerSafely,
+  syncRentPaymentLedger,
+  syncRentPaymentsForIntent,
+} from '@/lib/services/tenant-ledger.service';
 
 /**
  * Stripe Webhook Handler
@@ -50,7 +56,7 @@ export async function POST(req: NextRequest) {
         : [];
 
       try {
-        await prisma.$transaction(async (tx) => {
+        const settledRentPaymentIds = await prisma.$transaction(async (tx) => {
           const rentPayments = await tx.rentPayment.findMany({
             where: rentPaymentIds.length
               ? { id: { in: rentPaymentIds } }
@@ -114,6 +120,13 @@ export async function POST(req: NextRequest) {
               leaseId: rentPayments[0]?.leaseId,
               tenantName: rentPayments[0]?.tenant?.name,
             },
+            changes: diffRecords(
+              {
+                status: [...new Set(rentPayments.map((rp) => rp.status))].join(', '),
+                amountPaid: rentPayments.reduce((sum, rp) => sum + Number(rp.amountPaid ?? 0), 0),
+              },
+              { status: 'paid', amountPaid: totalPaidAmount }
+            ),
           }).catch(console.error);
 
           // Best-effort transaction ledger write (avoid duplicates where possible)
@@ -185,7 +198,13 @@ export async function POST(req: NextRequest) {
               });
             }
           }
+
+          return rentPayments.map((rp) => rp.id);
         });
+
+        for (const id of settledRentPaymentIds) {
+          await syncLedgerSafely(`rent payment ${id}`, () => syncRentPaymentLedger(id));
+        }
       } catch (error) {
         console.error('Error processing rent payment payment_intent.succeeded:', error);
         return NextResponse.json({ message: 'Failed to process rent payment webhook' }, { status: 500 });
@@ -269,12 +288,19 @@ export async function POST(req: NextRequest) {
          // Return 500 to signal Stripe to retry the webhook
          return NextResponse.json({ message: 'Failed to process partial payment webhook' }, { status: 500 });
       }
+
+      await syncLedgerSafely(`rent payment ${rentPaymentId}`, () =>
+        syncRentPaymentLedger(rentPaymentId)
+      );
     } else if (paymentIntentId) {
       // Fallback for older logic or payments not using the new flow
       await prisma.rentPayment.updateMany({
         where: { stripePaymentIntentId: paymentIntentId },
         data: { status: 'paid', paidAt: now, paymentMethod: paymentMethodType },
       });
+      await syncLedgerSafely(`payment intent ${paymentIntentId}`, () =>
+        syncRentPaymentsForIntent(paymentIntentId)
+      );
     }
 
     // Handle e-commerce orders
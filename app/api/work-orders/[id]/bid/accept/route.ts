@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/db/prisma';
 import { auth } from '@/auth';
+import { syncMarketplaceListingQuietly } from '@/lib/services/marketplace-feed.service';
 
 // POST - Accept a bid on a work order (landlord only)
 export async function POST(
@@ -110,6 +111,7 @@ export async function POST(
         },
       });
     });
+    await syncMarketplaceListingQuietly('landlord', workOrderId);
 
     return NextResponse.json({
       success: true,
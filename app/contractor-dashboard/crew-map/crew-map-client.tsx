@@ -1,7 +1,7 @@
 'use client';
 
 import { useCallback, useEffect, useMemo, useState } from 'react';
-import { GoogleMap, OverlayView, useJsApiLoader } from '@react-google-maps/api';
+import { GoogleMap, OverlayView, Polyline, useJsApiLoader } from '@react-google-maps/api';
 import {
   Clock,
   MapPin,
@@ -10,6 +10,8 @@ import {
   AlertCircle,
   Briefcase,
   Crown,
+  Route,
+  X,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -27,6 +29,23 @@ type CrewMember = {
   jobId: string | null;
   jobTitle: string | null;
   jobNumber: string | null;
+  lastSeenAt: string;
+  geofenceFlagged: boolean;
+};
+
+type RouteHistory = {
+  employee: { id: string; name: string };
+  pings: { lat: number; lng: number; accuracy: number | null; recordedAt: string }[];
+  events: {
+    id: string;
+    type: 'arrived' | 'left';
+    source: string;
+    occurredAt: string;
+    lat: number;
+    lng: number;
+    job: { title: string; jobNumber: string; address: string | null };
+  }[];
+  summary: { distanceKm: number; travelMinutes: number; onSiteMinutes: number };
 };
 
 interface CrewMapClientProps {
@@ -49,6 +68,11 @@ const formatElapsed = (minutes: number) => {
   return m === 0 ? `${h}h` : `${h}h ${m}m`;
 };
 
+const todayString = () => {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
 const isEnterpriseRequired = false; // crew-map is included on all paid tiers; flip if you want to gate it
 
 export function CrewMapClient({
@@ -61,6 +85,11 @@ export function CrewMapClient({
   const [error, setError] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [historyEmployee, setHistoryEmployee] = useState<string | null>(null);
+  const [historyDate, setHistoryDate] = useState(todayString);
+  const [history, setHistory] = useState<RouteHistory | null>(null);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [replayIndex, setReplayIndex] = useState(0);
 
   const { isLoaded: mapsLoaded, loadError: mapsLoadError } = useJsApiLoader({
     googleMapsApiKey,
@@ -85,6 +114,40 @@ export function CrewMapClient({
     }
   }, []);
 
+  // Route replay for one employee's day
+  useEffect(() => {
+    if (!historyEmployee) {
+      setHistory(null);
+      return;
+    }
+    let cancelled = false;
+    setHistoryError(null);
+    fetch(
+      '/api/contractor/crew-locations/history?' +
+        new URLSearchParams({ employeeId: historyEmployee, date: historyDate }),
+      { cache: 'no-store' }
+    )
+      .then(async (res) => {
+        const body = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body?.error || `Request failed (${res.status})`);
+        if (cancelled) return;
+        setHistory(body as RouteHistory);
+        setReplayIndex(Math.max(0, (body as RouteHistory).pings.length - 1));
+      })
+      .catch((e) => {
+        if (!cancelled) setHistoryError(e instanceof Error ? e.message : 'Failed to load route history');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [historyEmployee, historyDate]);
+
+  const replayPath = useMemo(
+    () => (history?.pings ?? []).map((p) => ({ lat: p.lat, lng: p.lng })),
+    [history]
+  );
+  const replayPing = history?.pings[replayIndex] ?? null;
+
   // Initial load + auto-refresh every 30s.
   useEffect(() => {
     load();
@@ -264,12 +327,131 @@ export function CrewMapClient({
                   </button>
                 </OverlayView>
               ))}
+
+              {history && replayPath.length > 1 && (
+                <Polyline
+                  path={replayPath}
+                  options={{ strokeColor: '#7c3aed', strokeOpacity: 0.8, strokeWeight: 4 }}
+                />
+              )}
+              {history?.events.map((event) => (
+                <OverlayView
+                  key={event.id}
+                  position={{ lat: event.lat, lng: event.lng }}
+                  mapPaneName={OverlayView.OVERLAY_LAYER}
+                >
+                  <div
+                    className={`-translate-x-1/2 -translate-y-1/2 h-5 w-5 rounded-full border-2 border-white shadow text-[9px] font-bold text-white flex items-center justify-center ${
+                      event.type === 'arrived' ? 'bg-emerald-600' : 'bg-gray-600'
+                    }`}
+                    title={`${event.type === 'arrived' ? 'Arrived' : 'Left'} ${event.job.title}`}
+                  >
+                    {event.type === 'arrived' ? 'A' : 'L'}
+                  </div>
+                </OverlayView>
+              ))}
+              {replayPing && (
+                <OverlayView
+                  position={{ lat: replayPing.lat, lng: replayPing.lng }}
+                  mapPaneName={OverlayView.OVERLAY_MOUSE_TARGET}
+                >
+                  <div className='-translate-x-1/2 -translate-y-1/2 h-4 w-4 rounded-full bg-violet-600 border-2 border-white shadow-lg' />
+                </OverlayView>
+              )}
             </GoogleMap>
           )}
         </div>
 
         {/* Crew list */}
         <div className='space-y-3'>
+          {historyEmployee && (
+            <div className='rounded-xl border-2 border-black shadow-xl overflow-hidden bg-white'>
+              <div className='p-3 border-b-2 border-black/10 bg-gradient-to-r from-violet-100 to-indigo-100 flex items-center gap-2'>
+                <Route className='h-4 w-4 text-violet-700' />
+                <span className='text-sm font-bold text-gray-900 truncate'>
+                  {history?.employee.name ?? 'Route history'}
+                </span>
+                <button
+                  type='button'
+                  onClick={() => setHistoryEmployee(null)}
+                  className='ml-auto text-gray-500 hover:text-gray-900'
+                  aria-label='Close route history'
+                >
+                  <X className='h-4 w-4' />
+                </button>
+              </div>
+              <div className='p-3 space-y-3 text-xs'>
+                <input
+                  type='date'
+                  value={historyDate}
+                  max={todayString()}
+                  onChange={(e) => setHistoryDate(e.target.value)}
+                  className='w-full rounded-md border border-gray-200 px-2 py-1 text-xs'
+                />
+                {historyError ? (
+                  <p className='text-red-600'>{historyError}</p>
+                ) : !history ? (
+                  <p className='text-gray-500'>Loading route…</p>
+                ) : history.pings.length === 0 ? (
+                  <p className='text-gray-500'>No breadcrumbs recorded this day.</p>
+                ) : (
+                  <>
+                    <div className='grid grid-cols-3 gap-2 text-center'>
+                      <div>
+                        <div className='font-bold text-gray-900'>{history.summary.distanceKm} km</div>
+                        <div className='text-[10px] text-gray-500'>Driven</div>
+                      </div>
+                      <div>
+                        <div className='font-bold text-gray-900'>{formatElapsed(history.summary.onSiteMinutes)}</div>
+                        <div className='text-[10px] text-gray-500'>On site</div>
+                      </div>
+                      <div>
+                        <div className='font-bold text-gray-900'>{formatElapsed(history.summary.travelMinutes)}</div>
+                        <div className='text-[10px] text-gray-500'>Travel</div>
+                      </div>
+                    </div>
+                    <div>
+                      <input
+                        type='range'
+                        min={0}
+                        max={history.pings.length - 1}
+                        value={replayIndex}
+                        onChange={(e) => setReplayIndex(Number(e.target.value))}
+                        className='w-full accent-violet-600'
+                        aria-label='Replay position'
+                      />
+                      {replayPing && (
+                        <div className='text-[10px] text-gray-500 text-center'>
+                          {new Date(replayPing.recordedAt).toLocaleTimeString()}
+                        </div>
+                      )}
+                    </div>
+                    <div className='divide-y divide-gray-100'>
+                      {history.events.map((event) => (
+                        <div key={event.id} className='py-1.5 flex items-start gap-2'>
+                          <span
+                            className={`mt-0.5 h-2 w-2 rounded-full flex-shrink-0 ${
+                              event.type === 'arrived' ? 'bg-emerald-500' : 'bg-gray-400'
+                            }`}
+                          />
+                          <div className='min-w-0'>
+                            <div className='font-semibold text-gray-900 truncate'>
+                              {event.type === 'arrived' ? 'Arrived' : 'Left'} #{event.job.jobNumber}
+                            </div>
+                            <div className='text-[10px] text-gray-500'>
+                              {new Date(event.occurredAt).toLocaleTimeString()}
+                              {event.source !== 'breadcrumb' && ` · at ${event.source.replace('_', '-')}`}
+                            </div>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+
           <div className='rounded-xl border-2 border-black shadow-xl overflow-hidden bg-white'>
             <div className='p-3 border-b-2 border-black/10 bg-gradient-to-r from-emerald-100 to-teal-100'>
               <div className='flex items-center gap-2'>
@@ -331,6 +513,29 @@ export function CrewMapClient({
                                 No GPS
                               </Badge>
                             )}
+                            {member.geofenceFlagged && (
+                              <Badge className='bg-red-100 text-red-700 border-red-200'>Off-site clock-in</Badge>
+                            )}
+                            {member.employeeId && (
+                              <span
+                                role='button'
+                                tabIndex={0}
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setHistoryEmployee(member.employeeId);
+                                }}
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter') {
+                                    e.stopPropagation();
+                                    setHistoryEmployee(member.employeeId);
+                                  }
+                                }}
+                                className='ml-auto flex items-center gap-1 text-violet-700 hover:underline'
+                              >
+                                <Route className='h-3 w-3' />
+                                Route
+                              </span>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -353,6 +558,79 @@ export function CrewMapClient({
               </div>
             </div>
           )}
+
+          <GeofenceSettings />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/** Default job-site radius and what happens to off-site clock-ins */
+function GeofenceSettings() {
+  const [radiusMeters, setRadiusMeters] = useState('');
+  const [clockInMode, setClockInMode] = useState('flag');
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/contractor/crew-locations/settings', { cache: 'no-store' })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!data) return;
+        setRadiusMeters(String(data.radiusMeters));
+        setClockInMode(data.clockInMode);
+      })
+      .catch(() => undefined);
+  }, []);
+
+  const save = async () => {
+    setStatus(null);
+    const res = await fetch('/api/contractor/crew-locations/settings', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ radiusMeters: Number(radiusMeters), clockInMode }),
+    });
+    const data = await res.json().catch(() => ({}));
+    setStatus(res.ok ? 'Saved' : data?.error || 'Failed to save');
+  };
+
+  return (
+    <div className='rounded-xl border-2 border-black shadow-xl overflow-hidden bg-white'>
+      <div className='p-3 border-b-2 border-black/10 bg-gradient-to-r from-sky-100 to-cyan-100'>
+        <div className='flex items-center gap-2'>
+          <MapPin className='h-4 w-4 text-sky-700' />
+          <span className='text-sm font-bold text-gray-900'>Job-Site Geofence</span>
+        </div>
+      </div>
+      <div className='p-3 space-y-2 text-xs'>
+        <label className='block'>
+          <span className='text-gray-600'>Default radius (meters)</span>
+          <input
+            type='number'
+            min={25}
+            max={5000}
+            value={radiusMeters}
+            onChange={(e) => setRadiusMeters(e.target.value)}
+            className='mt-1 w-full rounded-md border border-gray-200 px-2 py-1'
+          />
+        </label>
+        <label className='block'>
+          <span className='text-gray-600'>Clock-in outside the site</span>
+          <select
+            value={clockInMode}
+            onChange={(e) => setClockInMode(e.target.value)}
+            className='mt-1 w-full rounded-md border border-gray-200 px-2 py-1 bg-white'
+          >
+            <option value='off'>Allow</option>
+            <option value='flag'>Allow and flag for review</option>
+            <option value='reject'>Reject</option>
+          </select>
+        </label>
+        <div className='flex items-center gap-2'>
+          <Button type='button' size='sm' onClick={save} className='h-7 text-xs'>
+            Save
+          </Button>
+          {status && <span className='text-gray-500'>{status}</span>}
         </div>
       </div>
     </div>
@@ -4,6 +4,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { MapPin, Clock, Truck, Users, ChevronLeft, ChevronRight, Briefcase } from 'lucide-react';
 import Link from 'next/link';
+import { DispatchRouteBoard } from '@/components/contractor/dispatch-route-board';
 
 interface Job {
   id: string;
@@ -28,6 +29,7 @@ export default function DispatchBoardPage() {
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [loading, setLoading] = useState(true);
   const [currentDate, setCurrentDate] = useState(new Date());
+  const [routeDate, setRouteDate] = useState(new Date());
 
   const fetchDispatchData = useCallback(async () => {
     try {
@@ -158,6 +160,9 @@ export default function DispatchBoardPage() {
         </div>
       </div>
 
+      {/* Day Routes */}
+      <DispatchRouteBoard date={routeDate} />
+
       {/* Weekly Schedule */}
       <div className='rounded-xl border border-gray-200 bg-white shadow-sm overflow-hidden'>
         <div className='flex items-center justify-between p-4 border-b border-gray-100'>
@@ -169,12 +174,13 @@ export default function DispatchBoardPage() {
               const dayJobs = getJobsForDay(index);
               const dayDate = new Date(currentWeekStart.getTime() + index * 24 * 60 * 60 * 1000);
               const isToday = new Date().toDateString() === dayDate.toDateString();
+              const isRouted = routeDate.toDateString() === dayDate.toDateString();
               return (
                 <div key={day} className={`rounded-lg border p-2 min-h-[180px] ${isToday ? 'border-amber-400 bg-amber-50/50' : 'border-gray-100 bg-gray-50/50'}`}>
-                  <div className='text-center mb-2'>
+                  <button onClick={() => setRouteDate(dayDate)} title='Show routes for this day' className={`w-full text-center mb-2 rounded ${isRouted ? 'ring-1 ring-amber-300' : ''}`}>
                     <div className={`text-xs font-bold ${isToday ? 'text-amber-600' : 'text-gray-600'}`}>{day}</div>
                     <div className={`text-xs ${isToday ? 'text-amber-500 font-bold' : 'text-gray-400'}`}>{dayDate.getDate()}</div>
-                  </div>
+                  </button>
                   <div className='space-y-1.5'>
                     {dayJobs.map((job) => (
                       <Link key={job.id} href={`/contractor-dashboard/jobs/${job.id}`}>
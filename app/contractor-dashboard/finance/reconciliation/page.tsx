@@ -0,0 +1,68 @@
+import { Metadata } from 'next';
+import { auth } from '@/auth';
+import { redirect } from 'next/navigation';
+import { Lock, Zap } from 'lucide-react';
+import Link from 'next/link';
+import { resolveContractorAuth, can, meetsMinTier } from '@/lib/contractor-auth';
+import { BankReconciliation } from '@/components/shared/bank-reconciliation';
+
+export const metadata: Metadata = { title: 'Bank Reconciliation' };
+
+// Same list as the expense form
+const EXPENSE_CATEGORIES = [
+  'Materials',
+  'Tools',
+  'Fuel',
+  'Permits',
+  'Insurance',
+  'Subcontractor',
+  'Marketing',
+  'Office Supplies',
+  'Utilities',
+  'Other',
+].map((category) => ({ value: category, label: category }));
+
+export default async function ReconciliationPage() {
+  const session = await auth();
+  if (!session?.user?.id) redirect('/sign-in');
+
+  const contractorAuth = await resolveContractorAuth(session.user.id);
+  if (!contractorAuth) redirect('/onboarding/contractor');
+
+  const hasAccess = meetsMinTier(contractorAuth, 'pro') && can(contractorAuth, 'financials.manage');
+
+  if (!hasAccess) {
+    return (
+      <main className="w-full px-4 py-10 md:px-0">
+        <div className="max-w-3xl mx-auto">
+          <div className="rounded-2xl border border-amber-500/30 bg-gradient-to-br from-amber-500/10 to-orange-500/10 p-8 text-center">
+            <Lock className="h-12 w-12 text-amber-400 mx-auto mb-4" />
+            <h1 className="text-2xl font-semibold text-white mb-2">Bank Reconciliation</h1>
+            <p className="text-slate-300 mb-6">
+              Matching bank statements to your expenses is available on the Pro plan to users who manage financials.
+            </p>
+            <Link
+              href="/contractor-dashboard/settings/subscription"
+              className="inline-flex items-center gap-2 bg-amber-600 hover:bg-amber-500 text-white px-6 py-3 rounded-full font-semibold transition-colors"
+            >
+              <Zap className="h-5 w-5" />
+              Upgrade to Pro
+            </Link>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="w-full pb-8 space-y-5">
+      <div>
+        <h1 className="text-xl sm:text-2xl md:text-3xl font-bold text-black">Bank Reconciliation</h1>
+        <p className="text-xs sm:text-sm text-gray-500 mt-0.5">
+          Import statements for your business account, match them to expenses and close each month
+        </p>
+      </div>
+      <BankReconciliation apiBase="/api/contractor/finance/reconciliation" theme="light" expenseCategories={EXPENSE_CATEGORIES} />
+    </main>
+  );
+}
@@ -20,6 +20,7 @@ import {
   CheckCircle,
   AlertCircle,
   TrendingUp,
+  Receipt,
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -28,6 +29,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { formatCurrency } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
 import { JobPhotoGallery } from '@/components/contractor/job-photo-gallery';
+import { ProgressBillingPanel } from '@/components/contractor/progress-billing-panel';
 
 interface JobDetailsTabsProps {
   job: any;
@@ -176,7 +178,7 @@ export function JobDetailsTabs({
       <Tabs value={activeTab} onValueChange={setActiveTab} className='w-full'>
         <div className='relative rounded-xl border-2 border-black shadow-xl overflow-hidden bg-gradient-to-r from-violet-100 to-purple-100'>
           <div className='p-3'>
-            <TabsList className='grid w-full grid-cols-3 sm:grid-cols-6 bg-white border-2 border-black'>
+            <TabsList className='grid w-full grid-cols-4 sm:grid-cols-7 bg-white border-2 border-black'>
               <TabsTrigger value='overview' className='text-xs sm:text-sm'>
                 <Briefcase className='h-4 w-4 mr-1' />
                 <span className='hidden sm:inline'>Overview</span>
@@ -193,6 +195,10 @@ export function JobDetailsTabs({
                 <DollarSign className='h-4 w-4 mr-1' />
                 <span className='hidden sm:inline'>Expenses</span>
               </TabsTrigger>
+              <TabsTrigger value='billing' className='text-xs sm:text-sm'>
+                <Receipt className='h-4 w-4 mr-1' />
+                <span className='hidden sm:inline'>Billing</span>
+              </TabsTrigger>
               <TabsTrigger value='photos' className='text-xs sm:text-sm'>
                 <Camera className='h-4 w-4 mr-1' />
                 <span className='hidden sm:inline'>Photos</span>
@@ -471,6 +477,14 @@ export function JobDetailsTabs({
               </Card>
             </TabsContent>
 
+            {/* Billing Tab */}
+            <TabsContent value='billing' className='mt-0'>
+              <ProgressBillingPanel
+                jobId={job.id}
+                estimatedCost={job.estimatedCost ? Number(job.estimatedCost) : null}
+              />
+            </TabsContent>
+
             {/* Photos Tab */}
             <TabsContent value='photos' className='mt-0'>
               <Card className='border-2 border-black'>
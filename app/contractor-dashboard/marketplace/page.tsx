@@ -3,6 +3,7 @@ import { auth } from '@/auth';
 import { redirect } from 'next/navigation';
 import { prisma } from '@/db/prisma';
 import { JobMarketplace } from '@/components/contractor/job-marketplace';
+import { JobAlerts } from '@/components/contractor/job-alerts';
 import { Briefcase, TrendingUp, Clock } from 'lucide-react';
 
 export const metadata: Metadata = {
@@ -80,6 +81,13 @@ export default async function ContractorMarketplacePage({
       : 0;
   const myActiveBids = myBids.length;
 
+  const alertCategories = ['plumbing', 'electrical', 'hvac', 'painting', 'landscaping', 'general'];
+  const defaultAlertCategories = contractor.specialties
+    .map((specialty) => specialty.toLowerCase())
+    .filter((specialty) => alertCategories.includes(specialty));
+  const defaultAlertLocation =
+    contractor.baseZip || [contractor.baseCity, contractor.baseState].filter(Boolean).join(', ');
+
   return (
     <div className='w-full space-y-5'>
       {/* Header */}
@@ -112,6 +120,9 @@ export default async function ContractorMarketplacePage({
         ))}
       </div>
 
+      {/* Job Alerts */}
+      <JobAlerts defaultCategories={defaultAlertCategories} defaultLocation={defaultAlertLocation} />
+
       {/* Success Message */}
       {searchParams && 'success' in searchParams && (
         <div className='flex items-center gap-2 px-3 py-2 rounded-lg bg-emerald-50 border border-emerald-200 text-emerald-700 text-xs font-medium'>
@@ -0,0 +1,35 @@
+import { Metadata } from 'next';
+import { auth } from '@/auth';
+import { redirect } from 'next/navigation';
+import { resolveContractorAuth } from '@/lib/contractor-auth';
+import { PriceBookManager } from '@/components/contractor/price-book-manager';
+
+export const metadata: Metadata = {
+  title: 'Price Book | Contractor Dashboard',
+};
+
+export default async function PriceBookPage() {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    redirect('/sign-in');
+  }
+
+  const contractorAuth = await resolveContractorAuth(session.user.id);
+
+  if (!contractorAuth) {
+    redirect('/onboarding/contractor');
+  }
+
+  return (
+    <div className='w-full space-y-5'>
+      <div>
+        <h1 className='text-xl sm:text-2xl md:text-3xl font-bold text-black'>Price Book</h1>
+        <p className='text-xs sm:text-sm text-gray-500 mt-0.5'>
+          Services, labor rates and materials with markup rules for line-item quotes
+        </p>
+      </div>
+      <PriceBookManager />
+    </div>
+  );
+}
@@ -457,7 +457,7 @@ export default async function ContractorBrandingPage({
             </div>
           </div>
 
-          <form action={handleProfileUpdate} className="grid gap-4 md:grid-cols-3">
+          <form action={handleProfileUpdate} className="grid gap-4 md:grid-cols-4">
             <div className="space-y-2">
               <label className="block text-sm font-medium text-gray-900">City</label>
               <Input
@@ -476,6 +476,17 @@ export default async function ContractorBrandingPage({
                 placeholder="NV"
               />
             </div>
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-900">ZIP Code</label>
+              <Input
+                name="baseZip"
+                defaultValue={profile.baseZip || ''}
+                className="bg-slate-900/50 border-gray-300 text-gray-900"
+                inputMode="numeric"
+                maxLength={5}
+                placeholder="89101"
+              />
+            </div>
             <div className="space-y-2">
               <label className="block text-sm font-medium text-gray-900">Service Radius (miles)</label>
               <Input
@@ -488,7 +499,7 @@ export default async function ContractorBrandingPage({
                 placeholder="25"
               />
             </div>
-            <div className="md:col-span-3">
+            <div className="md:col-span-4">
               <Button type="submit" className="bg-violet-500 hover:bg-violet-400">
                 Save Location
               </Button>
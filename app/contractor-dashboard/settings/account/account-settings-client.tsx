@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect, useCallback } from 'react';
 import { motion } from 'framer-motion';
 import {
   UserCircle,
@@ -17,6 +17,7 @@ import {
   Phone,
   MapPin,
   Building2,
+  Download,
 } from 'lucide-react';
 import Image from 'next/image';
 
@@ -43,6 +44,27 @@ interface AccountSettingsClientProps {
 
 type Tab = 'profile' | 'password' | 'notifications' | 'data';
 
+interface DataRequest {
+  id: string;
+  type: 'export' | 'erasure';
+  status: string;
+  dueAt: string;
+  reviewNote: string | null;
+  exportExpiresAt: string | null;
+  completedAt: string | null;
+  createdAt: string;
+  downloadable: boolean;
+}
+
+const DATA_REQUEST_STATUS_LABELS: Record<string, string> = {
+  pending_review: 'Awaiting review',
+  pending: 'Queued',
+  processing: 'In progress',
+  completed: 'Completed',
+  rejected: 'Declined',
+  failed: 'Delayed — we are looking into it',
+};
+
 export default function AccountSettingsClient({ user, profile }: AccountSettingsClientProps) {
   const [activeTab, setActiveTab] = useState<Tab>('profile');
   const [saving, setSaving] = useState(false);
@@ -76,6 +98,22 @@ export default function AccountSettingsClient({ user, profile }: AccountSettings
   });
 
   const [avatarPreview, setAvatarPreview] = useState<string | null>(null);
+  const [dataRequests, setDataRequests] = useState<DataRequest[]>([]);
+  const [dataMessage, setDataMessage] = useState<string | null>(null);
+
+  const loadDataRequests = useCallback(async () => {
+    try {
+      const res = await fetch('/api/user/data-requests');
+      const data = await res.json();
+      if (data.success) setDataRequests(data.requests);
+    } catch {
+      // The list is informational; the request buttons still work without it
+    }
+  }, []);
+
+  useEffect(() => {
+    if (activeTab === 'data') void loadDataRequests();
+  }, [activeTab, loadDataRequests]);
 
   const handleAvatarChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -161,8 +199,8 @@ export default function AccountSettingsClient({ user, profile }: AccountSettings
       const res = await fetch('/api/user/request-data', { method: 'POST' });
       const data = await res.json();
       if (!data.success) throw new Error(data.message || 'Failed to request data');
-      setSaved(true);
-      setTimeout(() => setSaved(false), 4000);
+      setDataMessage(data.message);
+      await loadDataRequests();
     } catch (err: unknown) {
       setError(err instanceof Error ? err.message : 'Something went wrong');
     } finally {
@@ -171,16 +209,21 @@ export default function AccountSettingsClient({ user, profile }: AccountSettings
   };
 
   const handleDeleteAccount = async () => {
-    const confirmed = window.confirm('Are you sure? This will permanently delete your account, all jobs, invoices, and data. This cannot be undone.');
+    const confirmed = window.confirm('Are you sure? This will permanently delete your account and personal data. This cannot be undone.');
     if (!confirmed) return;
-    const doubleConfirmed = window.confirm('Final confirmation: delete everything permanently?');
+    const doubleConfirmed = window.confirm('Final confirmation: delete your account permanently?');
     if (!doubleConfirmed) return;
     setSaving(true);
+    setError(null);
     try {
-      await fetch('/api/user/delete-account', { method: 'DELETE' });
-      window.location.href = '/';
-    } catch (err: unknown) {
-      setError('Failed to delete account. Please contact support@propertyflowhq.com');
+      const res = await fetch('/api/user/delete-account', { method: 'DELETE' });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.message);
+      setDataMessage(data.message);
+      await loadDataRequests();
+    } catch {
+      setError('Failed to request account deletion. Please contact support@propertyflowhq.com');
+    } finally {
       setSaving(false);
     }
   };
@@ -483,7 +526,7 @@ export default function AccountSettingsClient({ user, profile }: AccountSettings
                 <Lock className="h-5 w-5 text-rose-400" /> Request Your Data
               </h2>
               <p className="text-sm text-slate-400">
-                Request a full export of all your personal data we hold. We will email it to <span className="text-white">{user.email}</span> within 30 days as required by law.
+                Request a full export of all your personal data we hold, as a ZIP of JSON and CSV files. We will email <span className="text-white">{user.email}</span> when it is ready, and the download stays available for 7 days.
               </p>
               <button
                 onClick={handleRequestData}
@@ -493,12 +536,42 @@ export default function AccountSettingsClient({ user, profile }: AccountSettings
                 {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
                 Request My Data Export
               </button>
+              {dataMessage && <p className="text-sm text-emerald-400">{dataMessage}</p>}
+              {dataRequests.length > 0 && (
+                <div className="divide-y divide-white/5 rounded-xl border border-white/10">
+                  {dataRequests.map((request) => (
+                    <div key={request.id} className="flex items-center justify-between gap-4 px-4 py-3 text-sm">
+                      <div>
+                        <p className="text-white">
+                          {request.type === 'export' ? 'Data export' : 'Account deletion'}
+                          <span className="text-slate-500"> · requested {new Date(request.createdAt).toLocaleDateString()}</span>
+                        </p>
+                        <p className="text-xs text-slate-400">
+                          {DATA_REQUEST_STATUS_LABELS[request.status] ?? request.status}
+                          {request.status === 'rejected' && request.reviewNote ? ` — ${request.reviewNote}` : ''}
+                          {request.downloadable && request.exportExpiresAt
+                            ? ` · available until ${new Date(request.exportExpiresAt).toLocaleDateString()}`
+                            : ''}
+                        </p>
+                      </div>
+                      {request.downloadable && (
+                        <a
+                          href={`/api/user/data-requests/${request.id}/download`}
+                          className="flex items-center gap-2 rounded-lg bg-slate-800 border border-white/10 hover:bg-slate-700 px-3 py-2 text-white"
+                        >
+                          <Download className="h-4 w-4" /> Download
+                        </a>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
 
             <div className="bg-red-950/30 border border-red-500/20 rounded-2xl p-6 space-y-4">
               <h2 className="text-lg font-semibold text-red-400">Danger Zone</h2>
               <p className="text-sm text-slate-400">
-                Permanently delete your account, all jobs, invoices, team data, and associated records. <strong className="text-white">This cannot be undone.</strong>
+                Permanently delete your account and personal data. Invoices and payment records we are legally required to keep are retained without your name or contact details. Requests are reviewed and completed within 30 days. <strong className="text-white">This cannot be undone.</strong>
               </p>
               <button
                 onClick={handleDeleteAccount}
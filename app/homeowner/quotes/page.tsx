@@ -1,6 +1,7 @@
 import { auth } from '@/auth';
 import { redirect } from 'next/navigation';
 import { prisma } from '@/db/prisma';
+import { CUSTOMER_QUOTE_LINE_SELECT } from '@/lib/services/price-book.service';
 import QuotesClient from './quotes-client';
 
 export default async function HomeownerQuotesPage() {
@@ -35,6 +36,15 @@ export default async function HomeownerQuotesPage() {
           projectDescription: true,
         },
       },
+      options: {
+        orderBy: { sortOrder: 'asc' },
+        include: { lineItems: { select: CUSTOMER_QUOTE_LINE_SELECT, orderBy: { sortOrder: 'asc' } } },
+      },
+      lineItems: {
+        where: { optionId: null },
+        select: CUSTOMER_QUOTE_LINE_SELECT,
+        orderBy: { sortOrder: 'asc' },
+      },
       _count: {
         select: {
           counterOffers: true,
@@ -45,5 +55,27 @@ export default async function HomeownerQuotesPage() {
     orderBy: { createdAt: 'desc' },
   });
 
-  return <QuotesClient quotes={quotes} />;
+  const toLine = (line: (typeof quotes)[number]['lineItems'][number]) => ({
+    ...line,
+    quantity: Number(line.quantity),
+    unitPrice: Number(line.unitPrice),
+    total: Number(line.total),
+  });
+
+  return (
+    <QuotesClient
+      quotes={quotes.map((quote) => ({
+        ...quote,
+        lineItems: quote.lineItems.map(toLine),
+        options: quote.options.map((option) => ({
+          ...option,
+          subtotal: Number(option.subtotal),
+          discount: Number(option.discount),
+          tax: Number(option.tax),
+          total: Number(option.total),
+          lineItems: option.lineItems.map(toLine),
+        })),
+      }))}
+    />
+  );
 }
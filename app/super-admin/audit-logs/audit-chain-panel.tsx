@@ -0,0 +1,181 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CheckCircle2, Download, Link2, Loader2, ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+interface AuditChain {
+  chainKey: string;
+  label: string;
+  entries: number;
+  lastSequence: number;
+  lastEntryAt: string | null;
+}
+
+interface ChainVerification {
+  chainKey: string;
+  valid: boolean;
+  checked: number;
+  redacted: number;
+  lastSequence: number | null;
+  issues: { type: string; sequence: number; detail: string }[];
+}
+
+export default function AuditChainPanel() {
+  const [chains, setChains] = useState<AuditChain[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [verifying, setVerifying] = useState<string | null>(null);
+  const [results, setResults] = useState<Record<string, ChainVerification>>({});
+  const [exportChain, setExportChain] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/super-admin/audit-logs/chains')
+      .then((res) => (res.ok ? res.json() : Promise.reject(new Error('Failed to load audit chains'))))
+      .then((data) => {
+        setChains(data.chains);
+        if (data.chains[0]) setExportChain(data.chains[0].chainKey);
+      })
+      .catch((err) => setError(err.message))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const verify = async (chainKey: string) => {
+    setVerifying(chainKey);
+    setError(null);
+    try {
+      const res = await fetch('/api/super-admin/audit-logs/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ chainKey }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message || 'Verification failed');
+      setResults((prev) => ({ ...prev, [chainKey]: data.verification }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+    } finally {
+      setVerifying(null);
+    }
+  };
+
+  const downloadExport = async () => {
+    if (!exportChain) return;
+    setExporting(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ chainKey: exportChain });
+      if (from) params.set('from', new Date(`${from}T00:00:00`).toISOString());
+      if (to) params.set('to', new Date(`${to}T23:59:59.999`).toISOString());
+      const res = await fetch(`/api/super-admin/audit-logs/export?${params}`);
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.message || 'Export failed');
+      }
+      const blob = await res.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download =
+        res.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] ?? `audit-log-${exportChain}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className='rounded-xl bg-slate-900/60 border border-white/10 p-4 space-y-4'>
+      <div className='flex items-center gap-2'>
+        <Link2 className='h-4 w-4 text-slate-400' />
+        <h2 className='text-sm font-semibold text-white'>Integrity</h2>
+        <span className='text-xs text-slate-500'>Entries are hash-chained per landlord</span>
+      </div>
+
+      {error && <p className='text-sm text-red-400'>{error}</p>}
+
+      {loading ? (
+        <div className='flex items-center gap-2 text-sm text-slate-400'>
+          <Loader2 className='h-4 w-4 animate-spin' /> Loading chains...
+        </div>
+      ) : chains.length === 0 ? (
+        <p className='text-sm text-slate-500'>No chained entries yet</p>
+      ) : (
+        <div className='max-h-64 overflow-y-auto divide-y divide-white/5'>
+          {chains.map((chain) => {
+            const result = results[chain.chainKey];
+            return (
+              <div key={chain.chainKey} className='py-2 flex flex-wrap items-center gap-3'>
+                <div className='flex-1 min-w-[180px]'>
+                  <p className='text-sm text-white'>{chain.label}</p>
+                  <p className='text-xs text-slate-500'>
+                    {chain.entries.toLocaleString()} entries · #{chain.lastSequence}
+                    {chain.lastEntryAt && ` · last ${new Date(chain.lastEntryAt).toLocaleString()}`}
+                  </p>
+                </div>
+                {result &&
+                  (result.valid ? (
+                    <span className='flex items-center gap-1 text-xs text-emerald-400'>
+                      <CheckCircle2 className='h-4 w-4' /> {result.checked.toLocaleString()} verified
+                      {result.redacted > 0 && ` (${result.redacted.toLocaleString()} redacted)`}
+                    </span>
+                  ) : (
+                    <span className='flex items-center gap-1 text-xs text-red-400' title={result.issues.map((issue) => `#${issue.sequence}: ${issue.detail}`).join('\n')}>
+                      <ShieldAlert className='h-4 w-4' /> {result.issues.length} issue{result.issues.length === 1 ? '' : 's'}, first at #
+                      {result.issues[0]?.sequence}
+                    </span>
+                  ))}
+                <Button
+                  size='sm'
+                  variant='outline'
+                  onClick={() => verify(chain.chainKey)}
+                  disabled={verifying !== null}
+                >
+                  {verifying === chain.chainKey ? <Loader2 className='h-4 w-4 animate-spin' /> : 'Verify'}
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {chains.length > 0 && (
+        <div className='flex flex-col sm:flex-row sm:items-end gap-3 border-t border-white/10 pt-4'>
+          <label className='flex-1 text-xs text-slate-400 space-y-1'>
+            <span>Signed export for auditors</span>
+            <select
+              value={exportChain}
+              onChange={(e) => setExportChain(e.target.value)}
+              className='w-full bg-slate-900/60 border border-white/10 rounded-lg px-3 py-2 text-sm text-white'
+            >
+              {chains.map((chain) => (
+                <option key={chain.chainKey} value={chain.chainKey}>
+                  {chain.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className='text-xs text-slate-400 space-y-1'>
+            <span>From</span>
+            <Input type='date' value={from} onChange={(e) => setFrom(e.target.value)} className='bg-slate-900/60 border-white/10' />
+          </label>
+          <label className='text-xs text-slate-400 space-y-1'>
+            <span>To</span>
+            <Input type='date' value={to} onChange={(e) => setTo(e.target.value)} className='bg-slate-900/60 border-white/10' />
+          </label>
+          <Button onClick={downloadExport} disabled={exporting || !exportChain}>
+            {exporting ? <Loader2 className='h-4 w-4 animate-spin mr-2' /> : <Download className='h-4 w-4 mr-2' />}
+            Export
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import { useState } from 'react';
 import { Shield, AlertTriangle, Lock, DollarSign, Search, Filter } from 'lucide-react';
 import { Input } from '@/components/ui/input';
+import AuditChainPanel from './audit-chain-panel';
 import {
   Table,
   TableBody,
@@ -20,9 +21,13 @@ interface AuditLog {
   resourceType: string | null;
   resourceId: string | null;
   metadata: string | null;
+  details: Record<string, unknown> | null;
+  changes: Record<string, { from: unknown; to: unknown }> | null;
   ipAddress: string | null;
   userAgent: string | null;
   severity: string;
+  sequence: number | null;
+  redactedAt: string | null;
   createdAt: string;
 }
 
@@ -60,6 +65,16 @@ export default function AuditLogsClient({ initialLogs, stats }: AuditLogsClientP
     }
   };
 
+  const describeDetails = (log: AuditLog) => {
+    if (log.redactedAt) return 'Redacted';
+    const changes = log.changes
+      ? Object.entries(log.changes).map(([field, change]) => `${field}: ${JSON.stringify(change.from)} → ${JSON.stringify(change.to)}`)
+      : [];
+    const details = log.details ?? (log.metadata ? JSON.parse(log.metadata) : null);
+    const text = [...changes, details ? JSON.stringify(details) : ''].filter(Boolean).join('; ');
+    return text ? (text.length > 80 ? `${text.slice(0, 80)}...` : text) : '-';
+  };
+
   const getActionIcon = (action: string) => {
     if (action.startsWith('AUTH_')) return <Lock className='h-4 w-4' />;
     if (action.startsWith('PAYMENT_') || action.startsWith('PAYOUT_')) return <DollarSign className='h-4 w-4' />;
@@ -109,6 +124,8 @@ export default function AuditLogsClient({ initialLogs, stats }: AuditLogsClientP
         </div>
       </div>
 
+      <AuditChainPanel />
+
       {/* Filters */}
       <div className='flex flex-col sm:flex-row gap-4'>
         <div className='relative flex-1'>
@@ -178,8 +195,8 @@ export default function AuditLogsClient({ initialLogs, stats }: AuditLogsClientP
                   <TableCell className='text-slate-300 text-sm'>
                     {log.ipAddress || '-'}
                   </TableCell>
-                  <TableCell className='text-slate-400 text-xs max-w-[200px] truncate'>
-                    {log.metadata ? JSON.stringify(JSON.parse(log.metadata)).slice(0, 50) + '...' : '-'}
+                  <TableCell className='text-slate-400 text-xs max-w-[260px] truncate' title={log.sequence ? `Chain entry #${log.sequence}` : undefined}>
+                    {describeDetails(log)}
                   </TableCell>
                 </TableRow>
               ))
@@ -34,6 +34,7 @@ export default async function AuditLogsPage() {
       <AuditLogsClient 
         initialLogs={auditLogs.map((log: any) => ({
           ...log,
+          redactedAt: log.redactedAt?.toISOString() ?? null,
           createdAt: log.createdAt.toISOString(),
         }))}
         stats={{
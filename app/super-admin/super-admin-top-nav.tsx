@@ -12,6 +12,8 @@ const links = [
   { href: '/super-admin/resume-builder', label: 'Resume Builder', emoji: '📄' },
   { href: '/super-admin/affiliates', label: 'Affiliates', emoji: '💰' },
   { href: '/super-admin/audit-logs', label: 'Audit Logs', emoji: '🔒' },
+  { href: '/admin/jobs', label: 'Jobs', emoji: '⚙️' },
+  { href: '/admin/data-requests', label: 'Privacy', emoji: '🗂️' },
   { href: '/super-admin/newsletter', label: 'Newsletter', emoji: '📧' },
   { href: '/super-admin/referrals', label: 'Referrals', emoji: '🎁' },
   { href: '/super-admin/security', label: 'Security', emoji: '🛡️' },
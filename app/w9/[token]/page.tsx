@@ -0,0 +1,129 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { CheckCircle2, Loader2, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { EMPTY_W9_FORM, W9FormFields, type W9FormValues } from '@/components/shared/w9-form-fields';
+
+interface W9Request {
+  requesterName: string;
+  contractorName: string;
+  expiresAt: string | null;
+  prefill: Partial<Record<keyof W9FormValues, string | null>>;
+}
+
+export default function W9Page() {
+  const { token } = useParams<{ token: string }>();
+  const [request, setRequest] = useState<W9Request | null>(null);
+  const [values, setValues] = useState<W9FormValues>(EMPTY_W9_FORM);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let canceled = false;
+    fetch(`/api/w9/${token}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.message || 'Unable to load this W-9 request');
+        if (canceled) return;
+        setRequest(data);
+        const prefill = Object.fromEntries(
+          Object.entries(data.prefill as W9Request['prefill']).filter(([, value]) => value)
+        );
+        setValues({ ...EMPTY_W9_FORM, ...prefill });
+      })
+      .catch((err) => {
+        if (!canceled) setError(err instanceof Error ? err.message : 'Unable to load this W-9 request');
+      })
+      .finally(() => {
+        if (!canceled) setLoading(false);
+      });
+    return () => { canceled = true; };
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/w9/${token}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(values),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message || 'Failed to submit W-9');
+      setSubmitted(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit W-9');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-950">
+        <Loader2 className="h-8 w-8 animate-spin text-violet-400" />
+      </div>
+    );
+  }
+
+  if (submitted) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-950 px-4">
+        <div className="max-w-md text-center space-y-3">
+          <CheckCircle2 className="h-12 w-12 text-emerald-400 mx-auto" />
+          <h1 className="text-xl font-semibold text-white">W-9 received</h1>
+          <p className="text-slate-400">
+            Thanks. {request?.requesterName} now has what it needs to issue your 1099-NEC. You can close this page.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!request) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-950 px-4">
+        <div className="max-w-md bg-red-500/10 border border-red-500/30 rounded-lg p-6 text-center">
+          <h2 className="text-lg font-semibold text-red-400 mb-2">Unable to load W-9 request</h2>
+          <p className="text-slate-400">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-950 py-10 px-4">
+      <form onSubmit={handleSubmit} className="max-w-2xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Form W-9</h1>
+          <p className="text-slate-400 mt-1">
+            {request.requesterName} has asked {request.contractorName} for a Request for Taxpayer Identification
+            Number and Certification.
+          </p>
+        </div>
+
+        <div className="rounded-xl border border-white/10 bg-slate-900/60 p-5">
+          <W9FormFields values={values} onChange={setValues} />
+        </div>
+
+        <div className="flex items-center gap-2 text-xs text-slate-500">
+          <ShieldCheck className="h-4 w-4 text-emerald-400" />
+          Your taxpayer ID is encrypted and only used to file your 1099.
+        </div>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <Button type="submit" disabled={submitting} className="w-full bg-violet-600 hover:bg-violet-700 text-white">
+          {submitting && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+          Sign and Submit
+        </Button>
+      </form>
+    </div>
+  );
+}
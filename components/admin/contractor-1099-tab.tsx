@@ -0,0 +1,489 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertTriangle,
+  Building2,
+  DollarSign,
+  Download,
+  FileText,
+  Loader2,
+  Mail,
+  PenLine,
+  Send,
+} from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency } from '@/lib/utils';
+import { EMPTY_W9_FORM, W9FormFields, type W9FormValues } from '@/components/shared/w9-form-fields';
+
+type PayeeStatus = 'reportable' | 'below_threshold' | 'exempt' | 'missing_w9';
+
+interface Payee {
+  contractorId: string;
+  name: string;
+  email: string;
+  total: number;
+  paymentCount: number;
+  status: PayeeStatus;
+  w9: {
+    status: 'requested' | 'received';
+    legalName?: string;
+    tinType?: 'ssn' | 'ein';
+    tinLast4: string | null;
+    requestedAt: string | null;
+  } | null;
+}
+
+interface Payer {
+  payerName: string;
+  payerTinLast4: string;
+  address1: string;
+  address2: string | null;
+  city: string;
+  state: string;
+  postalCode: string;
+  phone: string | null;
+  transmitterControlCode: string | null;
+  contactName: string | null;
+  contactEmail: string | null;
+}
+
+interface Summary {
+  year: number;
+  threshold: number;
+  payees: Payee[];
+  payer: Payer | null;
+  totals: { paid: number; reportable: number; reportableCount: number; missingW9Count: number };
+}
+
+const statusStyles: Record<PayeeStatus, { label: string; className: string }> = {
+  reportable: { label: '1099 due', className: 'bg-emerald-500/20 text-emerald-300 border-emerald-500/30' },
+  missing_w9: { label: 'W-9 needed', className: 'bg-amber-500/20 text-amber-300 border-amber-500/30' },
+  exempt: { label: 'Exempt', className: 'bg-slate-500/20 text-slate-300 border-slate-500/30' },
+  below_threshold: { label: 'Under threshold', className: 'bg-slate-500/20 text-slate-400 border-slate-500/30' },
+};
+
+const PAYER_FIELDS: { key: keyof Payer | 'tin'; label: string }[] = [
+  { key: 'payerName', label: 'Payer name' },
+  { key: 'tin', label: 'Payer EIN' },
+  { key: 'address1', label: 'Address' },
+  { key: 'address2', label: 'Suite (optional)' },
+  { key: 'city', label: 'City' },
+  { key: 'state', label: 'State' },
+  { key: 'postalCode', label: 'ZIP code' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'transmitterControlCode', label: 'FIRE transmitter control code (TCC)' },
+  { key: 'contactName', label: 'Filing contact name' },
+  { key: 'contactEmail', label: 'Filing contact email' },
+];
+
+const inputClass = 'bg-slate-900 border-slate-700 text-white';
+
+export default function Contractor1099Tab() {
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(currentYear - 1);
+  const [summary, setSummary] = useState<Summary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [payerOpen, setPayerOpen] = useState(false);
+  const [payerForm, setPayerForm] = useState<Record<string, string>>({});
+  const [w9Payee, setW9Payee] = useState<Payee | null>(null);
+  const [w9Form, setW9Form] = useState<W9FormValues>(EMPTY_W9_FORM);
+  const { toast } = useToast();
+
+  const fetchSummary = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/landlord/1099?year=${year}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message);
+      setSummary(data);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error && error.message ? error.message : 'Failed to load 1099 summary',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [year, toast]);
+
+  useEffect(() => {
+    fetchSummary();
+  }, [fetchSummary]);
+
+  const download = async (url: string, key: string) => {
+    setBusy(key);
+    try {
+      const res = await fetch(url);
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.message || 'Download failed');
+      }
+      const filename = res.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || 'download';
+      const href = URL.createObjectURL(await res.blob());
+      const a = document.createElement('a');
+      a.href = href;
+      a.download = filename;
+      a.click();
+      URL.revokeObjectURL(href);
+    } catch (error) {
+      toast({
+        title: 'Cannot generate file',
+        description: error instanceof Error ? error.message : 'Download failed',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const requestW9 = async (payee: Payee) => {
+    setBusy(`request-${payee.contractorId}`);
+    try {
+      const res = await fetch(`/api/landlord/1099/w9/${payee.contractorId}`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message);
+      toast({ title: 'W-9 requested', description: `Sent a secure link to ${payee.email}` });
+      fetchSummary();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error && error.message ? error.message : 'Failed to request W-9',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const openPayer = () => {
+    const payer = summary?.payer;
+    setPayerForm(
+      Object.fromEntries(
+        PAYER_FIELDS.map(({ key }) => [key, key === 'tin' ? '' : ((payer?.[key as keyof Payer] as string | null) ?? '')])
+      )
+    );
+    setPayerOpen(true);
+  };
+
+  const savePayer = async () => {
+    setBusy('payer');
+    try {
+      const res = await fetch('/api/landlord/1099/payer', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payerForm),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message);
+      setSummary((prev) => (prev ? { ...prev, payer: data.payer } : prev));
+      setPayerOpen(false);
+      toast({ title: 'Payer details saved' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error && error.message ? error.message : 'Failed to save payer details',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const openW9 = (payee: Payee) => {
+    setW9Form({ ...EMPTY_W9_FORM, legalName: payee.w9?.legalName ?? payee.name });
+    setW9Payee(payee);
+  };
+
+  const saveW9 = async () => {
+    if (!w9Payee) return;
+    setBusy('w9');
+    try {
+      const res = await fetch(`/api/landlord/1099/w9/${w9Payee.contractorId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(w9Form),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message);
+      setW9Payee(null);
+      toast({ title: 'W-9 saved', description: 'The taxpayer ID is stored encrypted.' });
+      fetchSummary();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error && error.message ? error.message : 'Failed to save W-9',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-violet-400" />
+      </div>
+    );
+  }
+
+  const payer = summary?.payer ?? null;
+  const totals = summary?.totals;
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      {/* Toolbar */}
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <FileText className="h-5 w-5 text-violet-400" />
+            1099-NEC Filing
+          </h3>
+          <p className="text-sm text-slate-400">
+            Contractors paid {formatCurrency(summary?.threshold ?? 0)} or more in {year} need a 1099-NEC
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={year}
+            onChange={(e) => {
+              setLoading(true);
+              setYear(Number(e.target.value));
+            }}
+            className="rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-white"
+          >
+            {[currentYear, currentYear - 1, currentYear - 2].map((y) => (
+              <option key={y} value={y}>{y}</option>
+            ))}
+          </select>
+          <Button
+            variant="outline"
+            className="border-slate-700 text-slate-300 hover:bg-slate-800 hover:text-white"
+            disabled={!totals?.reportableCount || busy !== null}
+            onClick={() => download(`/api/landlord/1099/pdf?year=${year}`, 'pdf')}
+          >
+            {busy === 'pdf' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            Recipient Copies
+          </Button>
+          <Button
+            variant="outline"
+            className="border-slate-700 text-slate-300 hover:bg-slate-800 hover:text-white"
+            disabled={!totals?.reportableCount || busy !== null}
+            onClick={() => download(`/api/landlord/1099/fire?year=${year}&test=1`, 'fire-test')}
+          >
+            {busy === 'fire-test' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            FIRE Test File
+          </Button>
+          <Button
+            className="bg-violet-600 hover:bg-violet-700 text-white"
+            disabled={!totals?.reportableCount || busy !== null}
+            onClick={() => download(`/api/landlord/1099/fire?year=${year}`, 'fire')}
+          >
+            {busy === 'fire' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+            FIRE Export
+          </Button>
+        </div>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card className="border-white/10 bg-gradient-to-br from-emerald-600/20 to-emerald-900/20">
+          <CardContent className="p-4 md:p-5">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-emerald-300/80">1099-NEC Reportable</p>
+                <p className="text-2xl font-bold text-white mt-1">{formatCurrency(totals?.reportable ?? 0)}</p>
+                <p className="text-xs text-emerald-300/60 mt-1">{totals?.reportableCount ?? 0} recipients</p>
+              </div>
+              <div className="h-12 w-12 rounded-full bg-emerald-500/20 flex items-center justify-center">
+                <DollarSign className="h-6 w-6 text-emerald-400" />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="border-white/10 bg-gradient-to-br from-amber-600/20 to-amber-900/20">
+          <CardContent className="p-4 md:p-5">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-amber-300/80">Missing W-9s</p>
+                <p className="text-2xl font-bold text-white mt-1">{totals?.missingW9Count ?? 0}</p>
+                <p className="text-xs text-amber-300/60 mt-1">block filing until collected</p>
+              </div>
+              <div className="h-12 w-12 rounded-full bg-amber-500/20 flex items-center justify-center">
+                <AlertTriangle className="h-6 w-6 text-amber-400" />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="border-white/10 bg-gradient-to-br from-violet-600/20 to-violet-900/20">
+          <CardContent className="p-4 md:p-5">
+            <div className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-sm text-violet-300/80">Payer</p>
+                <p className="text-lg font-bold text-white mt-1 truncate">{payer?.payerName ?? 'Not set up'}</p>
+                <p className="text-xs text-violet-300/60 mt-1">
+                  {payer ? `EIN **-***${payer.payerTinLast4}${payer.transmitterControlCode ? ` · TCC ${payer.transmitterControlCode}` : ''}` : 'Required before filing'}
+                </p>
+              </div>
+              <Button size="sm" variant="outline" className="border-violet-500/40 text-violet-200 hover:bg-violet-500/20" onClick={openPayer}>
+                <Building2 className="h-4 w-4 mr-1.5" />
+                {payer ? 'Edit' : 'Set up'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Payees */}
+      {!summary || summary.payees.length === 0 ? (
+        <Card className="border-white/10 bg-gradient-to-r from-indigo-700 to-indigo-900">
+          <CardContent className="py-12 text-center">
+            <FileText className="h-12 w-12 mx-auto text-slate-400 mb-4" />
+            <h3 className="text-lg font-medium text-white mb-2">No contractor payments in {year}</h3>
+            <p className="text-slate-300 text-sm">Payments to contractors will be totaled here for year-end 1099s</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card className="border-white/10 bg-gradient-to-br from-slate-800/80 to-slate-900/80">
+          <CardContent className="p-4 md:p-5 space-y-3">
+            {summary.payees.map((payee) => {
+              const style = statusStyles[payee.status];
+              return (
+                <div
+                  key={payee.contractorId}
+                  className="flex flex-col md:flex-row md:items-center justify-between gap-3 py-3 px-4 rounded-lg bg-slate-800/50"
+                >
+                  <div className="flex items-center gap-3 min-w-0">
+                    <div className="h-10 w-10 shrink-0 rounded-full bg-gradient-to-br from-violet-500 to-indigo-600 flex items-center justify-center text-white font-semibold">
+                      {payee.name.charAt(0).toUpperCase()}
+                    </div>
+                    <div className="min-w-0">
+                      <p className="font-medium text-white truncate">{payee.name}</p>
+                      <p className="text-sm text-slate-400">
+                        {payee.paymentCount} payment{payee.paymentCount !== 1 ? 's' : ''}
+                        {payee.w9?.status === 'received' && payee.w9.tinLast4 &&
+                          ` · ${payee.w9.tinType === 'ein' ? 'EIN' : 'SSN'} ending ${payee.w9.tinLast4}`}
+                        {payee.w9?.status === 'requested' && payee.w9.requestedAt &&
+                          ` · W-9 requested ${new Date(payee.w9.requestedAt).toLocaleDateString()}`}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 flex-wrap md:justify-end">
+                    <span className="font-bold text-emerald-400 mr-2">{formatCurrency(payee.total)}</span>
+                    <Badge variant="outline" className={`text-xs ${style.className}`}>{style.label}</Badge>
+                    {payee.w9?.status !== 'received' && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-slate-300 hover:text-white hover:bg-slate-700"
+                        disabled={busy !== null}
+                        onClick={() => requestW9(payee)}
+                      >
+                        {busy === `request-${payee.contractorId}` ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Mail className="h-4 w-4" />
+                        )}
+                        <span className="ml-1.5">Request W-9</span>
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="text-slate-300 hover:text-white hover:bg-slate-700"
+                      onClick={() => openW9(payee)}
+                    >
+                      <PenLine className="h-4 w-4 mr-1.5" />
+                      {payee.w9?.status === 'received' ? 'Update W-9' : 'Enter W-9'}
+                    </Button>
+                    {payee.status === 'reportable' && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-slate-300 hover:text-white hover:bg-slate-700"
+                        disabled={busy !== null}
+                        onClick={() =>
+                          download(`/api/landlord/1099/pdf?year=${year}&contractorId=${payee.contractorId}`, `pdf-${payee.contractorId}`)
+                        }
+                      >
+                        {busy === `pdf-${payee.contractorId}` ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Download className="h-4 w-4" />
+                        )}
+                        <span className="ml-1.5">Copy B</span>
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Payer details */}
+      <Dialog open={payerOpen} onOpenChange={setPayerOpen}>
+        <DialogContent className="bg-slate-900 border-slate-700 text-white max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>1099 Payer Details</DialogTitle>
+          </DialogHeader>
+          <div className="grid gap-3 md:grid-cols-2">
+            {PAYER_FIELDS.map(({ key, label }) => (
+              <div key={key}>
+                <Label className="text-xs text-slate-400">{label}</Label>
+                <Input
+                  value={payerForm[key] ?? ''}
+                  placeholder={key === 'tin' && payer ? `On file, ending ${payer.payerTinLast4}` : undefined}
+                  autoComplete={key === 'tin' ? 'off' : undefined}
+                  onChange={(e) => setPayerForm((prev) => ({ ...prev, [key]: e.target.value }))}
+                  className={inputClass}
+                />
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setPayerOpen(false)}>Cancel</Button>
+            <Button className="bg-violet-600 hover:bg-violet-700 text-white" disabled={busy === 'payer'} onClick={savePayer}>
+              {busy === 'payer' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* W-9 entry */}
+      <Dialog open={w9Payee !== null} onOpenChange={(open) => !open && setW9Payee(null)}>
+        <DialogContent className="bg-slate-900 border-slate-700 text-white max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>W-9 for {w9Payee?.name}</DialogTitle>
+          </DialogHeader>
+          <W9FormFields values={w9Form} onChange={setW9Form} signerLabel="Signed by (name on the W-9)" />
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setW9Payee(null)}>Cancel</Button>
+            <Button className="bg-violet-600 hover:bg-violet-700 text-white" disabled={busy === 'w9'} onClick={saveW9}>
+              {busy === 'w9' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save W-9
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -4,14 +4,15 @@ import { useState } from 'react';
 import {
   Users, ClipboardList, CreditCard, Wrench, TrendingUp,
   Clock, CheckCircle2, Globe, Building2, ChevronRight,
-  Plus, ExternalLink,
+  Plus, ExternalLink, FileText,
 } from 'lucide-react';
 import ContractorDirectory from './contractor-directory';
 import WorkOrdersTab from './work-orders-tab';
 import ContractorPaymentsTab from './contractor-payments-tab';
+import Contractor1099Tab from './contractor-1099-tab';
 import Link from 'next/link';
 
-type Tab = 'in-house' | 'marketplace' | 'work-orders' | 'payments';
+type Tab = 'in-house' | 'marketplace' | 'work-orders' | 'payments' | '1099';
 
 export default function ContractorWorkPage() {
   const [activeTab, setActiveTab] = useState<Tab>('in-house');
@@ -21,6 +22,7 @@ export default function ContractorWorkPage() {
     { id: 'marketplace', label: 'Marketplace', icon: Globe, description: 'Open bids & public contractors' },
     { id: 'work-orders', label: 'Work Orders', icon: ClipboardList, description: 'All jobs & assignments' },
     { id: 'payments', label: 'Payments', icon: CreditCard, description: 'Payment history & spending' },
+    { id: '1099', label: '1099s', icon: FileText, description: 'W-9s and year-end 1099-NEC filing' },
   ];
 
   return (
@@ -225,6 +227,7 @@ export default function ContractorWorkPage() {
 
         {activeTab === 'work-orders' && <WorkOrdersTab />}
         {activeTab === 'payments' && <ContractorPaymentsTab />}
+        {activeTab === '1099' && <Contractor1099Tab />}
       </div>
     </main>
   );
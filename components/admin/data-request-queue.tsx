@@ -0,0 +1,355 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { differenceInCalendarDays, format, formatDistanceToNow } from 'date-fns';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Check, Download, Eye, Loader2, RotateCcw, ShieldAlert, Trash2, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface DataRequest {
+  id: string;
+  userId: string;
+  type: 'export' | 'erasure';
+  status: string;
+  source: string;
+  requestedEmail: string;
+  reason: string | null;
+  dueAt: string;
+  reviewedAt: string | null;
+  reviewNote: string | null;
+  summary: {
+    sections?: Record<string, number>;
+    erased?: Record<string, number>;
+    retained?: Record<string, number>;
+    deletedFiles?: number;
+  } | null;
+  error: string | null;
+  completedAt: string | null;
+  createdAt: string;
+  user: { id: string; name: string; email: string; role: string } | null;
+}
+
+interface ErasureImpact {
+  erased: Record<string, number>;
+  retained: Record<string, number>;
+  landlords: { id: string; name: string }[];
+  contractors: { id: string; businessName: string }[];
+}
+
+const statusStyles: Record<string, { label: string; className: string }> = {
+  pending_review: { label: 'Needs review', className: 'bg-amber-500/20 text-amber-300 border-amber-500/30' },
+  pending: { label: 'Queued', className: 'bg-sky-500/20 text-sky-300 border-sky-500/30' },
+  processing: { label: 'Processing', className: 'bg-violet-500/20 text-violet-300 border-violet-500/30' },
+  completed: { label: 'Completed', className: 'bg-emerald-500/20 text-emerald-300 border-emerald-500/30' },
+  rejected: { label: 'Rejected', className: 'bg-slate-500/20 text-slate-300 border-slate-500/30' },
+  failed: { label: 'Failed', className: 'bg-red-500/20 text-red-300 border-red-500/30' },
+};
+
+const STATUS_FILTERS = [
+  { value: 'pending_review', label: 'Needs review' },
+  { value: 'failed', label: 'Failed' },
+  { value: '', label: 'All' },
+];
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.message || data.error || 'Request failed');
+  return data as T;
+}
+
+function labelize(key: string) {
+  return key.replace(/([A-Z])/g, ' $1').replace(/_/g, ' ').toLowerCase();
+}
+
+function CountList({ title, counts }: { title: string; counts?: Record<string, number> }) {
+  if (!counts) return null;
+  return (
+    <div>
+      <p className="text-xs font-medium text-slate-400 mb-1">{title}</p>
+      <ul className="grid grid-cols-2 gap-x-4 text-sm text-slate-200">
+        {Object.entries(counts).map(([key, value]) => (
+          <li key={key} className="flex justify-between">
+            <span className="capitalize">{labelize(key)}</span>
+            <span className="text-slate-400">{value}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function DueBadge({ dueAt, open }: { dueAt: string; open: boolean }) {
+  if (!open) return <span className="text-xs text-slate-500">Due {format(new Date(dueAt), 'MMM d')}</span>;
+  const days = differenceInCalendarDays(new Date(dueAt), new Date());
+  const className = days < 0 ? 'text-red-400' : days <= 7 ? 'text-amber-300' : 'text-slate-400';
+  return (
+    <span className={`text-xs ${className}`}>
+      {days < 0 ? `Overdue by ${-days}d` : `Due in ${days}d`} ({format(new Date(dueAt), 'MMM d')})
+    </span>
+  );
+}
+
+export default function DataRequestQueue() {
+  const [requests, setRequests] = useState<DataRequest[]>([]);
+  const [status, setStatus] = useState('pending_review');
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [selected, setSelected] = useState<DataRequest | null>(null);
+  const [impact, setImpact] = useState<ErasureImpact | null>(null);
+  const [note, setNote] = useState('');
+  const { toast } = useToast();
+
+  const showError = useCallback(
+    (error: unknown, fallback: string) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error && error.message ? error.message : fallback,
+        variant: 'destructive',
+      });
+    },
+    [toast]
+  );
+
+  const load = useCallback(async () => {
+    try {
+      const params = new URLSearchParams();
+      if (status) params.set('status', status);
+      const data = await request<{ requests: DataRequest[] }>(`/api/admin/data-requests?${params}`);
+      setRequests(data.requests);
+    } catch (error) {
+      showError(error, 'Failed to load data requests');
+    } finally {
+      setLoading(false);
+    }
+  }, [status, showError]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const open = async (item: DataRequest) => {
+    setSelected(item);
+    setImpact(null);
+    setNote('');
+    if (item.type !== 'erasure' || item.status !== 'pending_review') return;
+    try {
+      const data = await request<{ impact: ErasureImpact | null }>(`/api/admin/data-requests/${item.id}`);
+      setImpact(data.impact);
+    } catch (error) {
+      showError(error, 'Failed to load erasure impact');
+    }
+  };
+
+  const act = async (item: DataRequest, action: 'approve' | 'reject' | 'retry') => {
+    if (action === 'approve' && !confirm(`Erase ${item.user?.email ?? 'this user'}? This cannot be undone.`)) return;
+    setBusy(`${action}:${item.id}`);
+    try {
+      await request(`/api/admin/data-requests/${item.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, note: note || undefined }),
+      });
+      toast({
+        title:
+          action === 'approve' ? 'Erasure approved and queued' : action === 'reject' ? 'Request rejected' : 'Request re-queued',
+      });
+      setSelected(null);
+      await load();
+    } catch (error) {
+      showError(error, 'Action failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-violet-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        {STATUS_FILTERS.map((filter) => (
+          <Button
+            key={filter.value}
+            size="sm"
+            variant={status === filter.value ? 'default' : 'outline'}
+            onClick={() => setStatus(filter.value)}
+          >
+            {filter.label}
+          </Button>
+        ))}
+      </div>
+
+      <Card className="border-white/10 bg-slate-900/60">
+        <CardContent className="p-0 overflow-x-auto">
+          {requests.length === 0 ? (
+            <p className="p-8 text-center text-sm text-slate-400">No requests here.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-slate-400 border-b border-white/10">
+                  <th className="px-4 py-2 font-medium">User</th>
+                  <th className="px-4 py-2 font-medium">Type</th>
+                  <th className="px-4 py-2 font-medium">Status</th>
+                  <th className="px-4 py-2 font-medium">Requested</th>
+                  <th className="px-4 py-2 font-medium">Deadline</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {requests.map((item) => {
+                  const style = statusStyles[item.status] ?? statusStyles.pending;
+                  const isOpen = ['pending_review', 'pending', 'processing', 'failed'].includes(item.status);
+                  return (
+                    <tr key={item.id} className="border-b border-white/5 last:border-0">
+                      <td className="px-4 py-2">
+                        <p className="text-white">{item.user?.name ?? 'Unknown user'}</p>
+                        <p className="text-xs text-slate-500">{item.requestedEmail}</p>
+                      </td>
+                      <td className="px-4 py-2 text-slate-300">
+                        <span className="flex items-center gap-1">
+                          {item.type === 'export' ? <Download className="h-3 w-3" /> : <Trash2 className="h-3 w-3" />}
+                          {item.type === 'export' ? 'Export' : 'Erasure'}
+                        </span>
+                        <span className="text-xs text-slate-500">via {item.source}</span>
+                      </td>
+                      <td className="px-4 py-2">
+                        <Badge variant="outline" className={style.className}>
+                          {style.label}
+                        </Badge>
+                      </td>
+                      <td className="px-4 py-2 text-xs text-slate-400">
+                        {formatDistanceToNow(new Date(item.createdAt), { addSuffix: true })}
+                      </td>
+                      <td className="px-4 py-2">
+                        <DueBadge dueAt={item.dueAt} open={isOpen} />
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        <Button size="sm" variant="ghost" onClick={() => open(item)}>
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selected} onOpenChange={(value) => !value && setSelected(null)}>
+        <DialogContent className="bg-slate-900 border-white/10 max-w-lg">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="text-white">
+                  {selected.type === 'export' ? 'Data export' : 'Account erasure'} for {selected.user?.email ?? selected.requestedEmail}
+                </DialogTitle>
+                <DialogDescription className="text-slate-400">
+                  Requested {format(new Date(selected.createdAt), 'MMM d, yyyy')} via {selected.source}.{' '}
+                  <DueBadge dueAt={selected.dueAt} open={selected.status !== 'completed' && selected.status !== 'rejected'} />
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                {selected.reason && (
+                  <p className="text-sm text-slate-300">
+                    <span className="text-slate-500">Reason: </span>
+                    {selected.reason}
+                  </p>
+                )}
+                {selected.error && <p className="text-sm text-red-400">{selected.error}</p>}
+                {selected.reviewNote && (
+                  <p className="text-sm text-slate-300">
+                    <span className="text-slate-500">Review note: </span>
+                    {selected.reviewNote}
+                  </p>
+                )}
+
+                {impact && (
+                  <>
+                    <CountList title="Will be erased or anonymized" counts={impact.erased} />
+                    <CountList title="Will be retained (anonymized)" counts={impact.retained} />
+                    {(impact.landlords.length > 0 || impact.contractors.length > 0) && (
+                      <p className="flex gap-2 rounded-lg border border-amber-500/30 bg-amber-500/10 p-3 text-sm text-amber-300">
+                        <ShieldAlert className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                        Owns{' '}
+                        {[
+                          ...impact.landlords.map((landlord) => `landlord account “${landlord.name}”`),
+                          ...impact.contractors.map((contractor) => `contractor business “${contractor.businessName}”`),
+                        ].join(', ')}
+                        . Business records stay with the account and its subscription is canceled.
+                      </p>
+                    )}
+                  </>
+                )}
+
+                {selected.summary && (
+                  <>
+                    <CountList title="Exported records" counts={selected.summary.sections} />
+                    <CountList title="Erased" counts={selected.summary.erased} />
+                    <CountList title="Retained" counts={selected.summary.retained} />
+                  </>
+                )}
+
+                {selected.status === 'pending_review' && (
+                  <Textarea
+                    placeholder="Note for the requester (required to reject)"
+                    value={note}
+                    onChange={(event) => setNote(event.target.value)}
+                    className="bg-slate-800 border-white/10 text-white"
+                  />
+                )}
+              </div>
+
+              <DialogFooter>
+                {selected.status === 'pending_review' && (
+                  <>
+                    <Button variant="ghost" disabled={!!busy} onClick={() => act(selected, 'reject')}>
+                      <X className="h-4 w-4 mr-1" /> Reject
+                    </Button>
+                    <Button
+                      className="bg-red-600 hover:bg-red-500"
+                      disabled={!!busy}
+                      onClick={() => act(selected, 'approve')}
+                    >
+                      {busy === `approve:${selected.id}` ? (
+                        <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                      ) : (
+                        <Check className="h-4 w-4 mr-1" />
+                      )}
+                      Approve erasure
+                    </Button>
+                  </>
+                )}
+                {selected.status === 'failed' && (
+                  <Button disabled={!!busy} onClick={() => act(selected, 'retry')}>
+                    <RotateCcw className="h-4 w-4 mr-1" /> Retry
+                  </Button>
+                )}
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
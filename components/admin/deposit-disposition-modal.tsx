@@ -142,8 +142,10 @@ export function DepositDispositionModal({
         throw new Error(data?.message || 'Failed to create deposit disposition');
       }
 
+      const warnings: string[] = data?.disposition?.complianceWarnings || [];
       toast({
-        description: `Deposit disposition created. Refund amount: $${refundAmount.toFixed(2)}`,
+        description: `Deposit disposition created. Refund amount: $${refundAmount.toFixed(2)}`
+          + (warnings.length ? ` ${warnings.join(' ')}` : ''),
       });
 
       // Reset form
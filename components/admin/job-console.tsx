@@ -0,0 +1,493 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertTriangle,
+  CheckCircle2,
+  Clock,
+  Eye,
+  Loader2,
+  Play,
+  RefreshCw,
+  RotateCcw,
+  Trash2,
+} from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+type JobStatus = 'pending' | 'processing' | 'completed' | 'dead';
+
+interface TypeStats extends Record<JobStatus, number> {
+  name: string;
+  description: string | null;
+  schedule: string | null;
+  concurrency: number;
+  maxAttempts: number;
+}
+
+interface Stats {
+  totals: Record<JobStatus, number>;
+  byType: TypeStats[];
+  oldestDueAt: string | null;
+}
+
+interface Job {
+  id: string;
+  type: string;
+  status: string;
+  payload: unknown;
+  result: unknown;
+  errors: { attempt: number; error: string; at: string }[] | null;
+  priority: number;
+  retryCount: number;
+  maxRetries: number;
+  idempotencyKey: string | null;
+  lastError: string | null;
+  lockedBy: string | null;
+  scheduledFor: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  deadAt: string | null;
+  createdAt: string;
+}
+
+const statusStyles: Record<string, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-sky-500/20 text-sky-300 border-sky-500/30' },
+  processing: { label: 'Running', className: 'bg-violet-500/20 text-violet-300 border-violet-500/30' },
+  completed: { label: 'Completed', className: 'bg-emerald-500/20 text-emerald-300 border-emerald-500/30' },
+  dead: { label: 'Dead', className: 'bg-red-500/20 text-red-300 border-red-500/30' },
+  // Dead-lettered by the old queue
+  failed: { label: 'Dead', className: 'bg-red-500/20 text-red-300 border-red-500/30' },
+};
+
+const STATUS_FILTERS: { value: JobStatus | ''; label: string }[] = [
+  { value: '', label: 'All' },
+  { value: 'pending', label: 'Pending' },
+  { value: 'processing', label: 'Running' },
+  { value: 'dead', label: 'Dead letter' },
+  { value: 'completed', label: 'Completed' },
+];
+
+const PAGE_SIZE = 50;
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.message || data.error || 'Request failed');
+  return data as T;
+}
+
+function formatTime(value: string | null) {
+  if (!value) return '—';
+  return formatDistanceToNow(new Date(value), { addSuffix: true });
+}
+
+export default function JobConsole() {
+  const [stats, setStats] = useState<Stats | null>(null);
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [total, setTotal] = useState(0);
+  const [status, setStatus] = useState<JobStatus | ''>('dead');
+  const [type, setType] = useState('');
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Job | null>(null);
+  const { toast } = useToast();
+
+  const showError = useCallback(
+    (error: unknown, fallback: string) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error && error.message ? error.message : fallback,
+        variant: 'destructive',
+      });
+    },
+    [toast]
+  );
+
+  const load = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ page: String(page) });
+      if (status) params.set('status', status);
+      if (type) params.set('type', type);
+      const [statsData, jobsData] = await Promise.all([
+        request<{ stats: Stats }>('/api/admin/queue-stats'),
+        request<{ jobs: Job[]; total: number }>(`/api/admin/jobs?${params}`),
+      ]);
+      setStats(statsData.stats);
+      setJobs(jobsData.jobs);
+      setTotal(jobsData.total);
+    } catch (error) {
+      showError(error, 'Failed to load jobs');
+    } finally {
+      setLoading(false);
+    }
+  }, [page, status, type, showError]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const runAction = async (key: string, action: () => Promise<string>) => {
+    setBusy(key);
+    try {
+      const message = await action();
+      toast({ title: message });
+      await load();
+    } catch (error) {
+      showError(error, 'Action failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const retryJob = (job: Job) =>
+    runAction(`retry:${job.id}`, async () => {
+      await request(`/api/admin/jobs/${job.id}/retry`, { method: 'POST' });
+      setSelected(null);
+      return 'Job sent back to the queue';
+    });
+
+  const deleteJob = (job: Job) => {
+    if (!confirm(`Delete this ${job.type} job? This cannot be undone.`)) return;
+    runAction(`delete:${job.id}`, async () => {
+      await request(`/api/admin/jobs/${job.id}`, { method: 'DELETE' });
+      setSelected(null);
+      return 'Job deleted';
+    });
+  };
+
+  const purge = (purgeStatus: 'completed' | 'dead', olderThanDays?: number) => {
+    const scope = `${purgeStatus === 'dead' ? 'dead-lettered' : 'completed'}${type ? ` ${type}` : ''} jobs${
+      olderThanDays ? ` older than ${olderThanDays} days` : ''
+    }`;
+    if (!confirm(`Purge all ${scope}?`)) return;
+    runAction(`purge:${purgeStatus}`, async () => {
+      const { purged } = await request<{ purged: number }>('/api/admin/jobs', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: purgeStatus, type: type || undefined, olderThanDays }),
+      });
+      return `Purged ${purged} ${purged === 1 ? 'job' : 'jobs'}`;
+    });
+  };
+
+  const runRecurring = (name: string) =>
+    runAction(`run:${name}`, async () => {
+      const { job } = await request<{ job: Job }>(`/api/admin/jobs/recurring/${name}`, { method: 'POST' });
+      return job.status === 'completed' ? `${name} completed` : `${name} failed: ${job.lastError ?? job.status}`;
+    });
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-violet-400" />
+      </div>
+    );
+  }
+
+  const pageCount = Math.max(Math.ceil(total / PAGE_SIZE), 1);
+
+  return (
+    <div className="space-y-6">
+      {stats && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {[
+            { label: 'Pending', value: stats.totals.pending, icon: Clock, color: 'text-sky-400' },
+            { label: 'Running', value: stats.totals.processing, icon: Loader2, color: 'text-violet-400' },
+            { label: 'Completed', value: stats.totals.completed, icon: CheckCircle2, color: 'text-emerald-400' },
+            { label: 'Dead letter', value: stats.totals.dead, icon: AlertTriangle, color: 'text-red-400' },
+          ].map(({ label, value, icon: Icon, color }) => (
+            <Card key={label} className="border-white/10 bg-slate-900/60">
+              <CardContent className="p-4">
+                <div className="flex items-center gap-2 text-xs text-slate-400">
+                  <Icon className={`h-4 w-4 ${color}`} />
+                  {label}
+                </div>
+                <p className="text-2xl font-semibold text-white mt-1">{value}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {stats?.oldestDueAt && (
+        <p className="text-sm text-amber-300">Oldest overdue job was due {formatTime(stats.oldestDueAt)}.</p>
+      )}
+
+      {stats && (
+        <Card className="border-white/10 bg-slate-900/60">
+          <CardContent className="p-0 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-slate-400 border-b border-white/10">
+                  <th className="px-4 py-2 font-medium">Job type</th>
+                  <th className="px-4 py-2 font-medium">Schedule</th>
+                  <th className="px-4 py-2 font-medium text-right">Pending</th>
+                  <th className="px-4 py-2 font-medium text-right">Running</th>
+                  <th className="px-4 py-2 font-medium text-right">Dead</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {stats.byType.map((row) => (
+                  <tr key={row.name} className="border-b border-white/5 last:border-0">
+                    <td className="px-4 py-2">
+                      <button
+                        type="button"
+                        className="text-white hover:text-violet-300 font-mono text-xs"
+                        onClick={() => {
+                          setType(type === row.name ? '' : row.name);
+                          setPage(1);
+                        }}
+                      >
+                        {row.name}
+                      </button>
+                      {row.description && <p className="text-xs text-slate-500">{row.description}</p>}
+                    </td>
+                    <td className="px-4 py-2 font-mono text-xs text-slate-300">{row.schedule ?? '—'}</td>
+                    <td className="px-4 py-2 text-right text-slate-300">{row.pending}</td>
+                    <td className="px-4 py-2 text-right text-slate-300">
+                      {row.processing}
+                      <span className="text-slate-500">/{row.concurrency}</span>
+                    </td>
+                    <td className={`px-4 py-2 text-right ${row.dead ? 'text-red-300 font-medium' : 'text-slate-300'}`}>
+                      {row.dead}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      {row.schedule && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={busy !== null}
+                          onClick={() => runRecurring(row.name)}
+                        >
+                          {busy === `run:${row.name}` ? (
+                            <Loader2 className="h-3 w-3 animate-spin" />
+                          ) : (
+                            <Play className="h-3 w-3" />
+                          )}
+                          <span className="ml-1">Run now</span>
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        {STATUS_FILTERS.map((filter) => (
+          <Button
+            key={filter.value || 'all'}
+            size="sm"
+            variant={status === filter.value ? 'default' : 'outline'}
+            onClick={() => {
+              setStatus(filter.value);
+              setPage(1);
+            }}
+          >
+            {filter.label}
+          </Button>
+        ))}
+        {type && (
+          <Badge variant="outline" className="border-violet-500/30 text-violet-300">
+            {type}
+            <button type="button" className="ml-2" onClick={() => setType('')}>
+              ×
+            </button>
+          </Badge>
+        )}
+        <div className="ml-auto flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => load()} disabled={busy !== null}>
+            <RefreshCw className="h-3 w-3 mr-1" />
+            Refresh
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => purge('completed', 7)} disabled={busy !== null}>
+            <Trash2 className="h-3 w-3 mr-1" />
+            Purge completed &gt; 7d
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => purge('dead')} disabled={busy !== null}>
+            <Trash2 className="h-3 w-3 mr-1" />
+            Purge dead
+          </Button>
+        </div>
+      </div>
+
+      <Card className="border-white/10 bg-slate-900/60">
+        <CardContent className="p-0 overflow-x-auto">
+          {jobs.length === 0 ? (
+            <p className="p-6 text-center text-sm text-slate-400">No jobs match these filters.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-slate-400 border-b border-white/10">
+                  <th className="px-4 py-2 font-medium">Job</th>
+                  <th className="px-4 py-2 font-medium">Status</th>
+                  <th className="px-4 py-2 font-medium">Attempts</th>
+                  <th className="px-4 py-2 font-medium">Scheduled</th>
+                  <th className="px-4 py-2 font-medium">Last error</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {jobs.map((job) => {
+                  const style = statusStyles[job.status] ?? statusStyles.pending;
+                  const isDead = job.status === 'dead' || job.status === 'failed';
+                  return (
+                    <tr key={job.id} className="border-b border-white/5 last:border-0 align-top">
+                      <td className="px-4 py-2">
+                        <p className="font-mono text-xs text-white">{job.type}</p>
+                        <p className="font-mono text-[11px] text-slate-500">{job.id.slice(0, 8)}</p>
+                      </td>
+                      <td className="px-4 py-2">
+                        <Badge variant="outline" className={style.className}>
+                          {style.label}
+                        </Badge>
+                      </td>
+                      <td className="px-4 py-2 text-slate-300">
+                        {job.retryCount}/{job.maxRetries}
+                      </td>
+                      <td className="px-4 py-2 text-slate-300 whitespace-nowrap">{formatTime(job.scheduledFor)}</td>
+                      <td className="px-4 py-2 text-xs text-red-300 max-w-xs truncate" title={job.lastError ?? ''}>
+                        {job.lastError ?? ''}
+                      </td>
+                      <td className="px-4 py-2">
+                        <div className="flex justify-end gap-1">
+                          <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setSelected(job)}>
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                          {isDead && (
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="h-7 w-7"
+                              disabled={busy !== null}
+                              onClick={() => retryJob(job)}
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {job.status !== 'processing' && (
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="h-7 w-7 text-red-400"
+                              disabled={busy !== null}
+                              onClick={() => deleteJob(job)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-end gap-2 text-sm text-slate-400">
+          <Button size="sm" variant="outline" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+            Previous
+          </Button>
+          Page {page} of {pageCount}
+          <Button size="sm" variant="outline" disabled={page >= pageCount} onClick={() => setPage(page + 1)}>
+            Next
+          </Button>
+        </div>
+      )}
+
+      <Dialog open={selected !== null} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-2xl bg-slate-900 border-slate-700 text-white">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="font-mono text-base">{selected.type}</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4 text-sm max-h-[70vh] overflow-y-auto">
+                <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+                  <dt className="text-slate-400">ID</dt>
+                  <dd className="font-mono">{selected.id}</dd>
+                  <dt className="text-slate-400">Idempotency key</dt>
+                  <dd className="font-mono break-all">{selected.idempotencyKey ?? '—'}</dd>
+                  <dt className="text-slate-400">Created</dt>
+                  <dd>{formatTime(selected.createdAt)}</dd>
+                  <dt className="text-slate-400">Started</dt>
+                  <dd>{formatTime(selected.startedAt)}</dd>
+                  <dt className="text-slate-400">Completed</dt>
+                  <dd>{formatTime(selected.completedAt)}</dd>
+                  <dt className="text-slate-400">Dead-lettered</dt>
+                  <dd>{formatTime(selected.deadAt)}</dd>
+                </dl>
+
+                <div>
+                  <p className="text-xs text-slate-400 mb-1">Payload</p>
+                  <pre className="rounded bg-slate-950 p-3 text-xs overflow-x-auto">
+                    {JSON.stringify(selected.payload, null, 2)}
+                  </pre>
+                </div>
+
+                {selected.result != null && (
+                  <div>
+                    <p className="text-xs text-slate-400 mb-1">Result</p>
+                    <pre className="rounded bg-slate-950 p-3 text-xs overflow-x-auto">
+                      {JSON.stringify(selected.result, null, 2)}
+                    </pre>
+                  </div>
+                )}
+
+                {(selected.errors?.length || selected.lastError) && (
+                  <div>
+                    <p className="text-xs text-slate-400 mb-1">Errors</p>
+                    <ul className="space-y-1">
+                      {(selected.errors?.length
+                        ? selected.errors
+                        : [{ attempt: selected.retryCount, error: selected.lastError ?? '', at: '' }]
+                      ).map((entry, i) => (
+                        <li key={i} className="rounded bg-red-500/10 border border-red-500/20 p-2 text-xs">
+                          <span className="text-slate-400">
+                            Attempt {entry.attempt}
+                            {entry.at && ` · ${formatTime(entry.at)}`}
+                          </span>
+                          <p className="text-red-300 break-words">{entry.error}</p>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {(selected.status === 'dead' || selected.status === 'failed') && (
+                  <Button
+                    className="bg-violet-600 hover:bg-violet-700 text-white"
+                    disabled={busy !== null}
+                    onClick={() => retryJob(selected)}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Retry with fresh attempts
+                  </Button>
+                )}
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -285,7 +285,10 @@ export default function LeaseBuilderModal({
           console.warn('Failed to auto-assign lease to property:', assignError);
         }
         
-        toast({ title: 'Lease generated and assigned to property!' });
+        toast({
+          title: 'Lease generated and assigned to property!',
+          description: data.warnings?.length ? data.warnings.join(' ') : undefined,
+        });
         onLeaseGenerated?.(data.document);
         onClose();
       } else {
@@ -124,7 +124,11 @@ export function RentAutomationSettings({ isPro = false }: RentAutomationSettings
       });
 
       if (res.ok) {
-        toast({ title: 'Late fee settings saved' });
+        const data = await res.json();
+        toast({
+          title: 'Late fee settings saved',
+          description: data.warnings?.length ? data.warnings.join(' ') : undefined,
+        });
       } else {
         const data = await res.json();
         toast({ title: data.message || 'Failed to save', variant: 'destructive' });
@@ -17,7 +17,7 @@ import {
 } from '@/components/ui/dialog';
 import {
   Key, Webhook, Copy, Eye, EyeOff, Trash2, Plus,
-  CheckCircle, XCircle, Clock, AlertCircle, Code
+  CheckCircle, XCircle, Clock, AlertCircle, Code, Gauge
 } from 'lucide-react';
 import { toast } from 'sonner';
 
@@ -31,6 +31,24 @@ interface ApiKey {
   isActive: boolean;
 }
 
+interface QuotaUsage {
+  used: number;
+  quota: number;
+}
+
+interface ApiKeyUsage {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  isActive: boolean;
+  plan: string;
+  rateLimit: number;
+  rateLimitWindow: number;
+  daily: QuotaUsage;
+  monthly: QuotaUsage;
+  history: { day: string; requests: number; throttled: number }[];
+}
+
 interface WebhookEndpoint {
   id: string;
   url: string;
@@ -46,6 +64,7 @@ interface WebhookEndpoint {
 export function DeveloperSettings() {
   const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
   const [webhooks, setWebhooks] = useState<WebhookEndpoint[]>([]);
+  const [usage, setUsage] = useState<ApiKeyUsage[]>([]);
   const [showCreateKey, setShowCreateKey] = useState(false);
   const [showCreateWebhook, setShowCreateWebhook] = useState(false);
   const [newKeyName, setNewKeyName] = useState('');
@@ -60,16 +79,19 @@ export function DeveloperSettings() {
   const loadData = async () => {
     setIsLoading(true);
     try {
-      const [keysRes, webhooksRes] = await Promise.all([
+      const [keysRes, webhooksRes, usageRes] = await Promise.all([
         fetch('/api/admin/developer/api-keys'),
         fetch('/api/admin/developer/webhooks'),
+        fetch('/api/admin/developer/api-keys/usage'),
       ]);
 
       const keysData = await keysRes.json();
       const webhooksData = await webhooksRes.json();
+      const usageData = await usageRes.json();
 
       if (keysData.success) setApiKeys(keysData.apiKeys);
       if (webhooksData.success) setWebhooks(webhooksData.webhooks);
+      if (usageData.success) setUsage(usageData.usage);
     } catch (error) {
       toast.error('Failed to load developer settings');
     } finally {
@@ -146,6 +168,10 @@ export function DeveloperSettings() {
             <Key className="h-4 w-4 mr-2" />
             API Keys
           </TabsTrigger>
+          <TabsTrigger value="usage" className="data-[state=active]:bg-violet-600">
+            <Gauge className="h-4 w-4 mr-2" />
+            Usage
+          </TabsTrigger>
           <TabsTrigger value="webhooks" className="data-[state=active]:bg-violet-600">
             <Webhook className="h-4 w-4 mr-2" />
             Webhooks
@@ -223,6 +249,34 @@ export function DeveloperSettings() {
           </Card>
         </TabsContent>
 
+        {/* Usage Tab */}
+        <TabsContent value="usage" className="space-y-4">
+          <Card className="border-white/10 bg-slate-900/60">
+            <CardHeader>
+              <CardTitle className="text-white">API Usage</CardTitle>
+              <CardDescription className="text-slate-400">
+                Requests against each key&apos;s plan quotas. Daily quotas reset at midnight UTC, monthly quotas on the 1st.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="text-center py-8 text-slate-400">Loading...</div>
+              ) : usage.length === 0 ? (
+                <div className="text-center py-8">
+                  <Gauge className="h-12 w-12 text-slate-500 mx-auto mb-3" />
+                  <p className="text-slate-400">No API keys yet</p>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {usage.map((key) => (
+                    <KeyUsageCard key={key.id} usage={key} />
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         {/* Webhooks Tab */}
         <TabsContent value="webhooks" className="space-y-4">
           <Card className="border-white/10 bg-slate-900/60">
@@ -319,6 +373,16 @@ export function DeveloperSettings() {
                 </code>
               </pre>
 
+              <h3 className="text-white mt-6">Rate Limits</h3>
+              <p className="text-slate-300">
+                Every response includes <code className="text-violet-400">RateLimit-Limit</code>,{' '}
+                <code className="text-violet-400">RateLimit-Remaining</code> and{' '}
+                <code className="text-violet-400">RateLimit-Reset</code> headers for the limit closest to running
+                out, and <code className="text-violet-400">RateLimit-Policy</code> lists every limit that applied.
+                Requests over a limit get a <code className="text-violet-400">429</code> with a{' '}
+                <code className="text-violet-400">Retry-After</code> header.
+              </p>
+
               <h3 className="text-white mt-6">Available Endpoints</h3>
               <ul className="text-slate-300 space-y-2">
                 <li><code className="text-violet-400">GET /v1/properties</code> - List all properties</li>
@@ -426,3 +490,69 @@ export function DeveloperSettings() {
     </div>
   );
 }
+
+function UsageBar({ label, usage }: { label: string; usage: QuotaUsage }) {
+  const percent = usage.quota > 0 ? Math.min(100, (usage.used / usage.quota) * 100) : 0;
+  const color = percent >= 90 ? 'bg-red-500' : percent >= 75 ? 'bg-amber-500' : 'bg-violet-500';
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-slate-400 mb-1">
+        <span>{label}</span>
+        <span>
+          {usage.used.toLocaleString()} / {usage.quota.toLocaleString()}
+        </span>
+      </div>
+      <div className="h-2 rounded-full bg-slate-700 overflow-hidden">
+        <div className={`h-full ${color}`} style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  );
+}
+
+function KeyUsageCard({ usage }: { usage: ApiKeyUsage }) {
+  const peak = Math.max(1, ...usage.history.map((day) => day.requests));
+  const throttled = usage.history.reduce((sum, day) => sum + day.throttled, 0);
+
+  return (
+    <div className="p-4 rounded-lg bg-slate-800/60 border border-white/10 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <h3 className="text-white font-medium">{usage.name}</h3>
+          <Badge variant="outline" className="text-xs capitalize">
+            {usage.plan} plan
+          </Badge>
+          {!usage.isActive && (
+            <Badge variant="secondary" className="text-xs">
+              Inactive
+            </Badge>
+          )}
+        </div>
+        <span className="flex items-center gap-1 text-xs text-slate-500">
+          <Clock className="h-3 w-3" />
+          Burst limit {usage.rateLimit.toLocaleString()} requests / {usage.rateLimitWindow}s
+        </span>
+      </div>
+      <div className="grid gap-3 md:grid-cols-2">
+        <UsageBar label="Today" usage={usage.daily} />
+        <UsageBar label="This month" usage={usage.monthly} />
+      </div>
+      {usage.history.length > 0 && (
+        <div>
+          <div className="flex h-12 items-end gap-1">
+            {usage.history.map((day) => (
+              <div
+                key={day.day}
+                title={`${day.day}: ${day.requests.toLocaleString()} requests, ${day.throttled} throttled`}
+                className={`flex-1 rounded-sm ${day.throttled > 0 ? 'bg-amber-500/70' : 'bg-violet-500/60'}`}
+                style={{ height: `${Math.max(4, (day.requests / peak) * 100)}%` }}
+              />
+            ))}
+          </div>
+          <p className="mt-1 text-xs text-slate-500">
+            Last 14 days{throttled > 0 ? ` · ${throttled.toLocaleString()} requests throttled` : ''}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -250,7 +250,11 @@ export function FeeSettings({ isPro }: FeeSettingsProps) {
         body: JSON.stringify(lateFeeSettings),
       });
       if (res.ok) {
-        toast({ title: 'Late fee settings saved' });
+        const data = await res.json();
+        toast({
+          title: 'Late fee settings saved',
+          description: data.warnings?.length ? data.warnings.join(' ') : undefined,
+        });
         setLateFeeModalOpen(false);
       } else {
         const data = await res.json();
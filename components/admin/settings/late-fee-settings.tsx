@@ -40,7 +40,11 @@ export function LateFeeSettingsForm({ initialSettings }: LateFeeSettingsFormProp
       });
 
       if (result.success) {
-        toast({ description: 'Late fee settings updated successfully.' });
+        toast({
+          description: result.warnings?.length
+            ? `Late fee settings updated. ${result.warnings.join(' ')}`
+            : 'Late fee settings updated successfully.',
+        });
       } else {
         toast({ variant: 'destructive', description: result.message });
       }
@@ -7,6 +7,7 @@ import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { Loader2, Check, Mail, Bell, MessageSquare, Phone } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { NotificationDeliverySettings } from '@/components/notifications/notification-delivery-settings';
 
 export function NotificationSettings() {
   const { toast } = useToast();
@@ -190,6 +191,17 @@ export function NotificationSettings() {
         {saving ? <Loader2 className="w-3.5 h-3.5 animate-spin mr-1.5" /> : <Check className="w-3.5 h-3.5 mr-1.5" />}
         Save Notification Settings
       </Button>
+
+      <div className="rounded-lg sm:rounded-xl bg-white border border-black p-2.5 sm:p-3 md:p-4 space-y-1 shadow-2xl">
+        <div className="flex items-center gap-2 mb-1">
+          <Bell className="w-4 h-4 text-violet-500" />
+          <h3 className="text-sm font-semibold text-slate-900">Your Delivery Preferences</h3>
+        </div>
+        <p className="text-[10px] text-slate-500 mb-3">
+          Choose channels per event, set quiet hours, or switch routine alerts to a daily or weekly digest
+        </p>
+        <NotificationDeliverySettings />
+      </div>
     </div>
   );
 }
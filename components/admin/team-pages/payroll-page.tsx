@@ -25,7 +25,7 @@ import {
   ChevronDown, ChevronRight, Download, Banknote, TrendingUp,
   CreditCard, Building2, Settings, ExternalLink, Wallet,
   CheckCircle2, XCircle, Loader2, Users, FileText,
-  ArrowUpRight, ArrowDownRight, AlertCircle,
+  ArrowUpRight, ArrowDownRight, AlertCircle, Landmark,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import {
@@ -35,7 +35,11 @@ import {
   getTeamPayments,
   getTeamMemberCompensation,
   updateTeamMemberCompensation,
+  getTeamMemberTaxProfile,
+  updateTeamMemberTaxProfile,
+  getPayrollTaxReport,
 } from '@/lib/actions/team-operations.actions';
+import type { QuarterlySummary, TaxProfile, W2Summary } from '@/lib/services/payroll-tax.service';
 import { format } from 'date-fns';
 
 // ============= TYPES =============
@@ -89,6 +93,12 @@ interface CompensationSetup {
   salaryAmount: string;
 }
 
+interface PayrollTaxReport {
+  year: number;
+  quarters: QuarterlySummary[];
+  w2: { employeeId: string; name: string; w2: W2Summary }[];
+}
+
 // ============= MAIN COMPONENT =============
 
 export function PayrollPageWrapper() {
@@ -103,13 +113,23 @@ export function PayrollPageWrapper() {
   const [selectedMemberForComp, setSelectedMemberForComp] = useState<CompensationSetup | null>(null);
   const [isPending, startTransition] = useTransition();
   const [isLoading, setIsLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'pending' | 'history' | 'compensation' | 'integrations'>('pending');
+  const [activeTab, setActiveTab] = useState<'pending' | 'history' | 'compensation' | 'taxes' | 'integrations'>('pending');
   const [walletBalance, setWalletBalance] = useState<number | null>(null);
+  const [taxProfile, setTaxProfile] = useState<TaxProfile | null>(null);
+  const [taxReport, setTaxReport] = useState<PayrollTaxReport | null>(null);
 
   useEffect(() => {
     loadData();
   }, []);
 
+  useEffect(() => {
+    if (activeTab !== 'taxes' || taxReport) return;
+    getPayrollTaxReport().then(result => {
+      if (result.success && result.report) setTaxReport(result.report);
+      else toast.error(result.message || 'Failed to load tax reports');
+    });
+  }, [activeTab, taxReport]);
+
   async function loadData() {
     setIsLoading(true);
     try {
@@ -208,6 +228,10 @@ export function PayrollPageWrapper() {
   }
 
   async function openCompensationSetup(member: TeamMember) {
+    setTaxProfile(null);
+    getTeamMemberTaxProfile(member.id).then(result => {
+      if (result.success && result.profile) setTaxProfile(result.profile);
+    });
     try {
       const result = await getTeamMemberCompensation(member.id);
       if (result.success) {
@@ -245,7 +269,12 @@ export function PayrollPageWrapper() {
         overtimeRate: selectedMemberForComp.payType === 'hourly' ? parseFloat(selectedMemberForComp.overtimeRate) || undefined : undefined,
         salaryAmount: selectedMemberForComp.payType === 'salary' ? parseFloat(selectedMemberForComp.salaryAmount) || 0 : undefined,
       });
-      if (result.success) {
+      const taxResult = result.success && taxProfile
+        ? await updateTeamMemberTaxProfile(selectedMemberForComp.teamMemberId, taxProfile)
+        : null;
+      if (taxResult && !taxResult.success) {
+        toast.error(taxResult.message);
+      } else if (result.success) {
         toast.success('Compensation updated');
         setIsCompSetupOpen(false);
         loadData();
@@ -376,6 +405,7 @@ export function PayrollPageWrapper() {
           { id: 'pending' as const, label: 'Run Payroll', icon: DollarSign },
           { id: 'history' as const, label: 'Payment History', icon: FileText },
           { id: 'compensation' as const, label: 'Compensation', icon: Users },
+          { id: 'taxes' as const, label: 'Taxes', icon: Landmark },
           { id: 'integrations' as const, label: 'Integrations', icon: Settings },
         ].map(tab => (
           <button
@@ -646,6 +676,62 @@ export function PayrollPageWrapper() {
         </div>
       )}
 
+      {/* ============= TAXES TAB ============= */}
+      {activeTab === 'taxes' && (
+        <div className="space-y-4">
+          <div>
+            <h3 className="text-lg font-semibold text-white">Payroll Taxes {taxReport?.year}</h3>
+            <p className="text-sm text-slate-400">Form 941 figures by quarter and W-2 figures by team member</p>
+          </div>
+
+          {!taxReport ? (
+            <div className="flex justify-center p-8">
+              <Loader2 className="h-5 w-5 animate-spin text-slate-400" />
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+                {taxReport.quarters.map(q => (
+                  <div key={q.quarter} className="rounded-xl bg-slate-900/60 border border-white/10 p-4 space-y-1 text-sm text-slate-300">
+                    <div className="font-semibold text-white mb-2">Q{q.quarter}</div>
+                    <div className="flex justify-between"><span className="text-slate-400">Wages (line 2)</span><span>${q.wages.toFixed(2)}</span></div>
+                    <div className="flex justify-between"><span className="text-slate-400">Federal W/H (line 3)</span><span>${q.federalWithholding.toFixed(2)}</span></div>
+                    <div className="flex justify-between"><span className="text-slate-400">FICA (line 5e)</span><span>${q.totalFicaTax.toFixed(2)}</span></div>
+                    <div className="flex justify-between font-semibold text-white border-t border-white/10 pt-1 mt-1">
+                      <span>Total tax (line 10)</span>
+                      <span>${q.totalTax.toFixed(2)}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                {taxReport.w2.length === 0 ? (
+                  <div className="rounded-xl bg-slate-900/60 border border-white/10 p-8 text-center text-slate-400">
+                    No W-2 wages recorded this year
+                  </div>
+                ) : (
+                  taxReport.w2.map(row => (
+                    <div key={row.employeeId} className="rounded-xl bg-slate-900/60 border border-white/10 p-4 grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+                      <div className="font-medium text-white col-span-2 md:col-span-1">{row.name}</div>
+                      <div><div className="text-xs text-slate-400">Wages (1)</div><div className="text-slate-200">${row.w2.wages.toFixed(2)}</div></div>
+                      <div><div className="text-xs text-slate-400">Fed W/H (2)</div><div className="text-slate-200">${row.w2.federalWithholding.toFixed(2)}</div></div>
+                      <div><div className="text-xs text-slate-400">SS / Medicare (4, 6)</div><div className="text-slate-200">${(row.w2.socialSecurityTax + row.w2.medicareTax).toFixed(2)}</div></div>
+                      <div>
+                        <div className="text-xs text-slate-400">State W/H (17)</div>
+                        <div className="text-slate-200">
+                          {row.w2.states.length === 0 ? '—' : row.w2.states.map(st => `${st.state} $${st.withholding.toFixed(2)}`).join(', ')}
+                        </div>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
       {/* ============= INTEGRATIONS TAB ============= */}
       {activeTab === 'integrations' && (
         <div className="space-y-4">
@@ -908,6 +994,59 @@ export function PayrollPageWrapper() {
                 </div>
               )}
 
+              {taxProfile && (
+                <div className="space-y-3 border-t border-white/10 pt-4">
+                  <Label className="text-slate-300">Tax Withholding (Form W-4)</Label>
+                  <div className="grid grid-cols-2 gap-3">
+                    <Select
+                      value={taxProfile.filingStatus}
+                      onValueChange={(v) => setTaxProfile({ ...taxProfile, filingStatus: v as TaxProfile['filingStatus'] })}
+                    >
+                      <SelectTrigger className="bg-white/5 border-white/10">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="single">Single</SelectItem>
+                        <SelectItem value="married_jointly">Married filing jointly</SelectItem>
+                        <SelectItem value="head_of_household">Head of household</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      value={taxProfile.workState ?? ''}
+                      onChange={(e) => setTaxProfile({ ...taxProfile, workState: e.target.value.toUpperCase().slice(0, 2) || null })}
+                      placeholder="Work state (e.g. GA)"
+                      className="bg-white/5 border-white/10"
+                    />
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={taxProfile.dependentsAmount}
+                      onChange={(e) => setTaxProfile({ ...taxProfile, dependentsAmount: Number(e.target.value) })}
+                      placeholder="Dependents credit (Step 3)"
+                      className="bg-white/5 border-white/10"
+                    />
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={taxProfile.extraWithholding}
+                      onChange={(e) => setTaxProfile({ ...taxProfile, extraWithholding: Number(e.target.value) })}
+                      placeholder="Extra per check (Step 4c)"
+                      className="bg-white/5 border-white/10"
+                    />
+                  </div>
+                  <label className="flex items-center gap-2 text-sm text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={taxProfile.multipleJobs}
+                      onChange={(e) => setTaxProfile({ ...taxProfile, multipleJobs: e.target.checked })}
+                    />
+                    Multiple jobs or spouse works (Step 2c)
+                  </label>
+                </div>
+              )}
+
               <DialogFooter className="gap-2">
                 <Button type="button" variant="outline" onClick={() => setIsCompSetupOpen(false)} className="border-white/10">
                   Cancel
@@ -413,6 +413,7 @@ export function AdvancedSearch({ onSearch, initialFilters = {} }: AdvancedSearch
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="relevance">Relevance</SelectItem>
+              {filters.location && <SelectItem value="distance">Nearest</SelectItem>}
               <SelectItem value="rating">Highest Rated</SelectItem>
               <SelectItem value="reviews">Most Reviews</SelectItem>
               <SelectItem value="price_low">Price: Low to High</SelectItem>
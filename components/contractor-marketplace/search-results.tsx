@@ -181,8 +181,19 @@ function ContractorCard({ contractor }: { contractor: any }) {
                 <div className="flex items-center gap-1 text-muted-foreground">
                   <MapPin className="h-4 w-4" />
                   {contractor.location}
+                  {typeof contractor.distanceMiles === 'number' && (
+                    <span>
+                      {' '}
+                      · {contractor.distanceMiles < 1 ? '<1' : Math.round(contractor.distanceMiles)} mi away
+                    </span>
+                  )}
                 </div>
               )}
+              {contractor.servesLocation && (
+                <Badge variant="outline" className="text-xs">
+                  Serves your area
+                </Badge>
+              )}
               {contractor.hourlyRate && (
                 <div className="flex items-center gap-1 text-muted-foreground">
                   <DollarSign className="h-4 w-4" />
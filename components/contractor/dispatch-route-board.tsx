@@ -0,0 +1,346 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { Route, Zap, Send, Pin, AlertTriangle, Car, Loader2, CalendarClock } from 'lucide-react';
+
+interface RouteStop {
+  stopId: string;
+  kind: 'job' | 'appointment';
+  sourceId: string;
+  title: string;
+  address: string | null;
+  durationMinutes: number;
+  driveMinutes: number;
+  estimatedTravel: boolean;
+  start: number;
+  end: number;
+  pinned: boolean;
+}
+
+interface CrewRoute {
+  crewId: string;
+  crewName: string;
+  stops: RouteStop[];
+  driveMinutes: number;
+  workMinutes: number;
+  shiftEnd: number;
+  finish: number;
+  warnings: string[];
+}
+
+interface UnassignedStop {
+  stopId: string;
+  kind: 'job' | 'appointment';
+  sourceId: string;
+  title: string;
+  reason: string;
+}
+
+interface DispatchPlan {
+  id: string;
+  status: string;
+  routes: CrewRoute[];
+  unassigned: UnassignedStop[];
+  totalDriveMinutes: number;
+  distanceProvider: string;
+  optimizedAt: string;
+}
+
+interface EmergencyCandidate {
+  id: string;
+  title: string;
+  jobNumber: string;
+}
+
+const UNASSIGNED = 'unassigned';
+
+// Jobs an emergency insert can pull onto the day
+const EMERGENCY_STATUSES = ['quoted', 'approved', 'scheduled', 'on_hold'];
+
+const formatClock = (minutes: number) => {
+  const hour = Math.floor(minutes / 60) % 24;
+  return `${hour % 12 || 12}:${String(Math.round(minutes % 60)).padStart(2, '0')} ${hour < 12 ? 'AM' : 'PM'}`;
+};
+
+const formatDuration = (minutes: number) =>
+  minutes >= 60 ? `${Math.floor(minutes / 60)}h${minutes % 60 ? ` ${minutes % 60}m` : ''}` : `${minutes}m`;
+
+interface DispatchRouteBoardProps {
+  date: Date;
+}
+
+/**
+ * One day of crew routes from /api/contractor/dispatch. Optimize builds the
+ * draft, dragging a stop between crews pins it there, and Publish writes the
+ * assignments onto the jobs.
+ */
+export function DispatchRouteBoard({ date }: DispatchRouteBoardProps) {
+  const { toast } = useToast();
+  const [plan, setPlan] = useState<DispatchPlan | null>(null);
+  const [candidates, setCandidates] = useState<EmergencyCandidate[]>([]);
+  const [emergencyJobId, setEmergencyJobId] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const day = format(date, 'yyyy-MM-dd');
+
+  const fetchPlan = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [planRes, jobsRes] = await Promise.all([
+        fetch(`/api/contractor/dispatch?date=${day}`),
+        fetch('/api/contractor/jobs'),
+      ]);
+      if (planRes.ok) {
+        const data = await planRes.json();
+        setPlan(data.plan);
+      }
+      if (jobsRes.ok) {
+        const data = await jobsRes.json();
+        setCandidates(
+          ((data.jobs || []) as (EmergencyCandidate & { status: string })[])
+            .filter((job) => EMERGENCY_STATUSES.includes(job.status))
+            .map((job) => ({ id: job.id, title: job.title, jobNumber: job.jobNumber }))
+        );
+      }
+    } catch (err) {
+      console.error('Failed to load dispatch plan:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [day]);
+
+  useEffect(() => {
+    fetchPlan();
+  }, [fetchPlan]);
+
+  const request = async (url: string, method: string, body: Record<string, unknown>) => {
+    setWorking(true);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        toast({ title: 'Dispatch update failed', description: data.error, variant: 'destructive' });
+        return null;
+      }
+      setPlan(data.plan);
+      return data.plan as DispatchPlan;
+    } catch {
+      toast({ title: 'Dispatch update failed', variant: 'destructive' });
+      return null;
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const optimize = async (emergency?: string) => {
+    const next = await request('/api/contractor/dispatch', 'POST', { date: day, emergencyJobId: emergency });
+    if (next && emergency) {
+      setEmergencyJobId('');
+      toast({ title: 'Emergency job inserted', description: 'Routes were re-optimized around it.' });
+    }
+  };
+
+  const publish = async () => {
+    if (!plan) return;
+    const next = await request(`/api/contractor/dispatch/${plan.id}`, 'PATCH', { action: 'publish' });
+    if (next) toast({ title: 'Routes published', description: 'Crews and start times were assigned to the jobs.' });
+  };
+
+  const handleDragEnd = (result: DropResult) => {
+    if (!plan || !result.destination) return;
+    const { source, destination, draggableId } = result;
+    if (source.droppableId === destination.droppableId && source.index === destination.index) return;
+
+    request(`/api/contractor/dispatch/${plan.id}`, 'PATCH', {
+      action: 'move',
+      stopId: draggableId,
+      crewId: destination.droppableId === UNASSIGNED ? null : destination.droppableId,
+      index: destination.index,
+    });
+  };
+
+  const unpin = (stopId: string) => {
+    if (!plan) return;
+    request(`/api/contractor/dispatch/${plan.id}`, 'PATCH', { action: 'unpin', stopId });
+  };
+
+  const hasWarnings = plan?.routes.some((route) => route.warnings.length > 0);
+
+  return (
+    <div className='rounded-xl border border-gray-200 bg-white shadow-sm overflow-hidden'>
+      <div className='flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 p-4 border-b border-gray-100'>
+        <div>
+          <h3 className='text-sm font-bold text-gray-800 flex items-center gap-1.5'>
+            <Route className='h-4 w-4 text-amber-500' />
+            Routes for {format(date, 'EEE, MMM d')}
+          </h3>
+          {plan && (
+            <p className='text-[10px] text-gray-500 mt-0.5'>
+              {plan.totalDriveMinutes} min total drive · {plan.status === 'published' ? 'Published' : 'Draft'} ·
+              optimized {format(new Date(plan.optimizedAt), 'h:mm a')} via {plan.distanceProvider}
+            </p>
+          )}
+        </div>
+        <div className='flex flex-wrap items-center gap-2'>
+          <select
+            value={emergencyJobId}
+            onChange={(e) => setEmergencyJobId(e.target.value)}
+            className='h-7 rounded-md border border-gray-200 bg-white px-2 text-xs text-gray-700 max-w-[200px]'
+          >
+            <option value=''>Emergency job…</option>
+            {candidates.map((job) => (
+              <option key={job.id} value={job.id}>
+                {job.jobNumber} · {job.title}
+              </option>
+            ))}
+          </select>
+          <Button
+            size='sm'
+            variant='outline'
+            disabled={!emergencyJobId || working}
+            onClick={() => optimize(emergencyJobId)}
+            className='text-xs h-7 border-red-200 text-red-600 hover:bg-red-50'
+          >
+            <Zap className='h-3 w-3 mr-1' />
+            Insert
+          </Button>
+          <Button
+            size='sm'
+            disabled={working}
+            onClick={() => optimize()}
+            className='bg-gradient-to-r from-amber-500 to-orange-500 hover:from-amber-600 hover:to-orange-600 text-white text-xs h-7 font-semibold'
+          >
+            {working ? <Loader2 className='h-3 w-3 mr-1 animate-spin' /> : <Route className='h-3 w-3 mr-1' />}
+            {plan ? 'Re-optimize' : 'Optimize Routes'}
+          </Button>
+          {plan && (
+            <Button
+              size='sm'
+              variant='outline'
+              disabled={working || hasWarnings}
+              onClick={publish}
+              className='text-xs h-7'
+            >
+              <Send className='h-3 w-3 mr-1' />
+              Publish
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className='flex items-center justify-center h-32'>
+          <Loader2 className='h-5 w-5 animate-spin text-amber-500' />
+        </div>
+      ) : !plan ? (
+        <div className='p-8 text-center'>
+          <div className='w-12 h-12 mx-auto mb-3 rounded-full bg-amber-50 border border-amber-100 flex items-center justify-center'>
+            <CalendarClock className='h-6 w-6 text-amber-400' />
+          </div>
+          <p className='text-sm text-gray-500'>No routes yet — optimize to split the day&apos;s work across your crews.</p>
+        </div>
+      ) : (
+        <DragDropContext onDragEnd={handleDragEnd}>
+          <div className='p-4 overflow-x-auto'>
+            <div className='flex gap-3 min-w-max'>
+              {plan.routes.map((route) => (
+                <div key={route.crewId} className='w-60 shrink-0 rounded-lg border border-gray-100 bg-gray-50/50'>
+                  <div className='p-2 border-b border-gray-100'>
+                    <p className='text-xs font-bold text-gray-800 truncate'>{route.crewName}</p>
+                    <p className='text-[10px] text-gray-500 flex items-center gap-1'>
+                      <Car className='h-2.5 w-2.5' />
+                      {route.driveMinutes}m drive · {formatDuration(route.workMinutes)} work
+                      {route.stops.length > 0 && ` · done ${formatClock(route.finish)}`}
+                    </p>
+                    {route.warnings.map((warning) => (
+                      <p key={warning} className='text-[10px] text-red-600 flex items-start gap-1 mt-1'>
+                        <AlertTriangle className='h-2.5 w-2.5 mt-0.5 shrink-0' />
+                        {warning}
+                      </p>
+                    ))}
+                  </div>
+                  <Droppable droppableId={route.crewId}>
+                    {(provided) => (
+                      <div {...provided.droppableProps} ref={provided.innerRef} className='p-2 space-y-1.5 min-h-[80px]'>
+                        {route.stops.map((stop, index) => (
+                          <Draggable key={stop.stopId} draggableId={stop.stopId} index={index}>
+                            {(provided) => (
+                              <div
+                                ref={provided.innerRef}
+                                {...provided.draggableProps}
+                                {...provided.dragHandleProps}
+                                className='p-1.5 bg-white rounded-lg border border-amber-100 hover:border-amber-300 shadow-sm'
+                              >
+                                {stop.driveMinutes > 0 && (
+                                  <p className='text-[9px] text-gray-400 mb-0.5'>
+                                    ↓ {stop.estimatedTravel ? '~' : ''}
+                                    {stop.driveMinutes}m drive
+                                  </p>
+                                )}
+                                <div className='flex items-start justify-between gap-1'>
+                                  <p className='text-[10px] font-semibold text-gray-800 truncate'>{stop.title}</p>
+                                  {stop.pinned && (
+                                    <button onClick={() => unpin(stop.stopId)} title='Pinned — click to let the optimizer move it'>
+                                      <Pin className='h-2.5 w-2.5 text-amber-500 shrink-0' />
+                                    </button>
+                                  )}
+                                </div>
+                                <p className='text-[9px] text-gray-500'>
+                                  {formatClock(stop.start)} – {formatClock(stop.end)}
+                                  {stop.kind === 'appointment' && ' · appointment'}
+                                </p>
+                                {stop.address && <p className='text-[9px] text-gray-400 truncate'>{stop.address}</p>}
+                              </div>
+                            )}
+                          </Draggable>
+                        ))}
+                        {provided.placeholder}
+                      </div>
+                    )}
+                  </Droppable>
+                </div>
+              ))}
+
+              <div className='w-60 shrink-0 rounded-lg border border-dashed border-gray-200'>
+                <div className='p-2 border-b border-gray-100'>
+                  <p className='text-xs font-bold text-gray-800'>Unassigned</p>
+                  <p className='text-[10px] text-gray-500'>Drag onto a crew to assign</p>
+                </div>
+                <Droppable droppableId={UNASSIGNED}>
+                  {(provided) => (
+                    <div {...provided.droppableProps} ref={provided.innerRef} className='p-2 space-y-1.5 min-h-[80px]'>
+                      {plan.unassigned.map((stop, index) => (
+                        <Draggable key={stop.stopId} draggableId={stop.stopId} index={index}>
+                          {(provided) => (
+                            <div
+                              ref={provided.innerRef}
+                              {...provided.draggableProps}
+                              {...provided.dragHandleProps}
+                              className='p-1.5 bg-white rounded-lg border border-gray-200 shadow-sm'
+                            >
+                              <p className='text-[10px] font-semibold text-gray-800 truncate'>{stop.title}</p>
+                              <p className='text-[9px] text-gray-500'>{stop.reason}</p>
+                            </div>
+                          )}
+                        </Draggable>
+                      ))}
+                      {provided.placeholder}
+                    </div>
+                  )}
+                </Droppable>
+              </div>
+            </div>
+          </div>
+        </DragDropContext>
+      )}
+    </div>
+  );
+}
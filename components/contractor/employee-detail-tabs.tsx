@@ -19,6 +19,7 @@ import {
 } from 'lucide-react';
 import { formatCurrency } from '@/lib/utils';
 import Link from 'next/link';
+import { EmployeeTaxProfileForm } from '@/components/contractor/payroll/employee-tax-profile-form';
 
 type Employee = {
   id: string;
@@ -477,6 +478,8 @@ export function EmployeeDetailTabs({ employee }: { employee: Employee }) {
 
       {/* Payroll Tab */}
       <TabsContent value="payroll" className="space-y-4">
+        <EmployeeTaxProfileForm employeeId={employee.id} />
+
         <div className="rounded-xl border-2 border-gray-200 bg-white shadow-sm">
           <div className="p-5 border-b border-gray-200 flex items-center justify-between">
             <div>
@@ -0,0 +1,294 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { Bell, Loader2, Plus, Trash2 } from 'lucide-react';
+
+// Matches the categories homeowners pick when posting a job
+const JOB_CATEGORIES = [
+  { id: 'plumbing', label: 'Plumbing' },
+  { id: 'electrical', label: 'Electrical' },
+  { id: 'hvac', label: 'HVAC' },
+  { id: 'painting', label: 'Painting' },
+  { id: 'landscaping', label: 'Landscaping' },
+  { id: 'general', label: 'General Repairs' },
+];
+
+const FREQUENCY_LABELS: Record<string, string> = {
+  instant: 'As jobs are posted',
+  daily: 'Daily digest',
+  weekly: 'Weekly digest',
+};
+
+interface JobAlert {
+  id: string;
+  name: string;
+  criteria: {
+    categories?: string[];
+    location?: string;
+    radius?: number;
+    minBudget?: number | null;
+  };
+  emailAlerts: boolean;
+  alertFrequency: string;
+  lastAlertSent: string | null;
+}
+
+interface JobAlertsProps {
+  /** Pre-selected categories, usually the contractor's specialties */
+  defaultCategories: string[];
+  defaultLocation: string;
+}
+
+export function JobAlerts({ defaultCategories, defaultLocation }: JobAlertsProps) {
+  const { toast } = useToast();
+  const [alerts, setAlerts] = useState<JobAlert[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [categories, setCategories] = useState<string[]>(defaultCategories);
+  const [location, setLocation] = useState(defaultLocation);
+  const [radius, setRadius] = useState('25');
+  const [minBudget, setMinBudget] = useState('');
+  const [frequency, setFrequency] = useState('instant');
+
+  useEffect(() => {
+    fetch('/api/saved-searches?type=jobs')
+      .then((response) => (response.ok ? response.json() : { searches: [] }))
+      .then((data) => setAlerts(data.searches || []))
+      .catch(() => setAlerts([]))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const toggleCategory = (id: string) => {
+    setCategories((current) => (current.includes(id) ? current.filter((c) => c !== id) : [...current, id]));
+  };
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    try {
+      const labels = JOB_CATEGORIES.filter((c) => categories.includes(c.id)).map((c) => c.label);
+      const name = [labels.join(', ') || 'All jobs', location && `near ${location}`].filter(Boolean).join(' ');
+      const response = await fetch('/api/saved-searches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          searchType: 'jobs',
+          criteria: { categories, location, radius: Number(radius), minBudget: minBudget ? Number(minBudget) : null },
+          emailAlerts: true,
+          alertFrequency: frequency,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to create alert');
+
+      setAlerts([data.savedSearch, ...alerts]);
+      setDialogOpen(false);
+      toast({
+        title: 'Job Alert Created',
+        description: `${data.savedSearch.resultCount} open jobs match today. We'll tell you about new ones.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to create alert',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (alert: JobAlert, enabled: boolean) => {
+    const response = await fetch(`/api/saved-searches/${alert.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ emailAlerts: enabled }),
+    });
+    if (!response.ok) {
+      toast({ title: 'Error', description: 'Failed to update alert', variant: 'destructive' });
+      return;
+    }
+    setAlerts(alerts.map((a) => (a.id === alert.id ? { ...a, emailAlerts: enabled } : a)));
+  };
+
+  const handleDelete = async (alert: JobAlert) => {
+    const response = await fetch(`/api/saved-searches/${alert.id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      toast({ title: 'Error', description: 'Failed to delete alert', variant: 'destructive' });
+      return;
+    }
+    setAlerts(alerts.filter((a) => a.id !== alert.id));
+  };
+
+  return (
+    <div className='rounded-xl border border-gray-200 bg-white p-4 shadow-sm space-y-3'>
+      <div className='flex items-center justify-between gap-3'>
+        <div className='flex items-center gap-2'>
+          <div className='h-8 w-8 rounded-lg bg-gradient-to-br from-sky-400 to-blue-500 flex items-center justify-center text-white'>
+            <Bell className='h-4 w-4' />
+          </div>
+          <div>
+            <p className='text-sm font-semibold text-gray-900'>Job Alerts</p>
+            <p className='text-xs text-gray-500'>Get an email and notification when a job in your trade is posted</p>
+          </div>
+        </div>
+        <Button size='sm' variant='outline' onClick={() => setDialogOpen(true)}>
+          <Plus className='h-4 w-4 mr-1' />
+          New Alert
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className='flex justify-center py-2'>
+          <Loader2 className='h-4 w-4 animate-spin text-gray-400' />
+        </div>
+      ) : alerts.length === 0 ? (
+        <p className='text-xs text-gray-500'>No job alerts yet.</p>
+      ) : (
+        <div className='divide-y divide-gray-100'>
+          {alerts.map((alert) => (
+            <div key={alert.id} className='flex items-center justify-between gap-3 py-2'>
+              <div className='min-w-0'>
+                <p className='text-sm font-medium text-gray-900 truncate'>{alert.name}</p>
+                <div className='flex flex-wrap items-center gap-1.5 mt-0.5'>
+                  <Badge variant='secondary' className='text-[10px]'>
+                    {FREQUENCY_LABELS[alert.alertFrequency] || alert.alertFrequency}
+                  </Badge>
+                  {alert.criteria.location && (
+                    <span className='text-xs text-gray-500'>
+                      within {alert.criteria.radius ?? 25} mi of {alert.criteria.location}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <div className='flex items-center gap-2 shrink-0'>
+                <Switch checked={alert.emailAlerts} onCheckedChange={(checked) => handleToggle(alert, checked)} />
+                <Button size='icon' variant='ghost' onClick={() => handleDelete(alert)} aria-label='Delete alert'>
+                  <Trash2 className='h-4 w-4 text-gray-400' />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Job Alert</DialogTitle>
+            <DialogDescription>We&apos;ll only tell you about jobs posted after you create the alert.</DialogDescription>
+          </DialogHeader>
+
+          <div className='space-y-4'>
+            <div className='space-y-2'>
+              <Label>Trades</Label>
+              <div className='flex flex-wrap gap-2'>
+                {JOB_CATEGORIES.map((category) => (
+                  <button
+                    key={category.id}
+                    type='button'
+                    onClick={() => toggleCategory(category.id)}
+                    className={cn(
+                      'px-3 py-1 rounded-full border text-xs font-medium',
+                      categories.includes(category.id)
+                        ? 'bg-blue-600 border-blue-600 text-white'
+                        : 'bg-white border-gray-300 text-gray-700'
+                    )}
+                  >
+                    {category.label}
+                  </button>
+                ))}
+              </div>
+              <p className='text-xs text-gray-500'>Leave all unselected to hear about every job.</p>
+            </div>
+
+            <div className='grid grid-cols-3 gap-3'>
+              <div className='col-span-2 space-y-2'>
+                <Label htmlFor='job-alert-location'>Location</Label>
+                <Input
+                  id='job-alert-location'
+                  value={location}
+                  onChange={(e) => setLocation(e.target.value)}
+                  placeholder='City, ST or ZIP'
+                />
+              </div>
+              <div className='space-y-2'>
+                <Label htmlFor='job-alert-radius'>Radius (mi)</Label>
+                <Input
+                  id='job-alert-radius'
+                  type='number'
+                  min={1}
+                  max={250}
+                  value={radius}
+                  onChange={(e) => setRadius(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className='grid grid-cols-2 gap-3'>
+              <div className='space-y-2'>
+                <Label htmlFor='job-alert-budget'>Minimum budget</Label>
+                <Input
+                  id='job-alert-budget'
+                  type='number'
+                  min={0}
+                  value={minBudget}
+                  onChange={(e) => setMinBudget(e.target.value)}
+                  placeholder='Any'
+                />
+              </div>
+              <div className='space-y-2'>
+                <Label>Frequency</Label>
+                <Select value={frequency} onValueChange={setFrequency}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant='outline' onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={isSaving}>
+              {isSaving && <Loader2 className='h-4 w-4 mr-2 animate-spin' />}
+              Create Alert
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Landmark, Loader2, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+
+interface PreTaxDeduction {
+  label: string;
+  kind: 'retirement' | 'cafeteria';
+  amount?: number;
+  percent?: number;
+}
+
+interface TaxProfile {
+  filingStatus: string;
+  multipleJobs: boolean;
+  dependentsAmount: number;
+  otherIncome: number;
+  deductions: number;
+  extraWithholding: number;
+  exempt: boolean;
+  workState: string | null;
+  stateAllowances: number;
+  stateExtraWithholding: number;
+  preTaxDeductions: PreTaxDeduction[];
+}
+
+const selectClass =
+  'w-full rounded-lg border-2 border-gray-200 px-3 py-2 text-sm focus:border-emerald-400 focus:outline-none';
+
+export function EmployeeTaxProfileForm({ employeeId, canEdit = true }: { employeeId: string; canEdit?: boolean }) {
+  const { toast } = useToast();
+  const [profile, setProfile] = useState<TaxProfile | null>(null);
+  const [employeeType, setEmployeeType] = useState('w2');
+  const [states, setStates] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetch(`/api/contractor/employees/${employeeId}/tax-profile`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (!data) return;
+        setProfile(data.profile);
+        setEmployeeType(data.employeeType);
+        setStates(data.supportedStates);
+      })
+      .catch(err => console.error(err));
+  }, [employeeId]);
+
+  if (!profile) return null;
+
+  if (employeeType !== 'w2') {
+    return (
+      <div className="rounded-xl border-2 border-gray-200 bg-white p-5 text-sm text-gray-600 shadow-sm">
+        {employeeType.toUpperCase()} workers are paid without withholding and handle their own taxes.
+      </div>
+    );
+  }
+
+  function update<K extends keyof TaxProfile>(key: K, value: TaxProfile[K]) {
+    setProfile(prev => (prev ? { ...prev, [key]: value } : prev));
+  }
+
+  function updateDeduction(index: number, changes: Partial<PreTaxDeduction>) {
+    update('preTaxDeductions', profile!.preTaxDeductions.map((d, i) => (i === index ? { ...d, ...changes } : d)));
+  }
+
+  async function save() {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/contractor/employees/${employeeId}/tax-profile`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(profile),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setProfile(data.profile);
+      toast({ title: 'Tax profile saved', description: 'Applies from the next payroll run.' });
+    } catch (err) {
+      toast({
+        title: 'Could not save tax profile',
+        description: err instanceof Error ? err.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const amountField = (key: 'dependentsAmount' | 'otherIncome' | 'deductions' | 'extraWithholding' | 'stateExtraWithholding', label: string) => (
+    <div>
+      <Label className="text-xs text-gray-500">{label}</Label>
+      <Input
+        type="number"
+        min={0}
+        step="0.01"
+        value={profile[key]}
+        disabled={!canEdit}
+        onChange={e => update(key, Number(e.target.value))}
+      />
+    </div>
+  );
+
+  return (
+    <div className="rounded-xl border-2 border-gray-200 bg-white shadow-sm">
+      <div className="p-5 border-b border-gray-200 flex items-center gap-3">
+        <div className="p-2 rounded-lg bg-violet-100">
+          <Landmark className="h-5 w-5 text-violet-600" />
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Tax Withholding</h3>
+          <p className="text-sm text-gray-500 mt-0.5">Form W-4, state withholding and pre-tax deductions</p>
+        </div>
+      </div>
+
+      <div className="p-5 space-y-5">
+        <div className="grid md:grid-cols-3 gap-4">
+          <div>
+            <Label className="text-xs text-gray-500">Filing status (Step 1c)</Label>
+            <select
+              value={profile.filingStatus}
+              disabled={!canEdit}
+              onChange={e => update('filingStatus', e.target.value)}
+              className={selectClass}
+            >
+              <option value="single">Single or married filing separately</option>
+              <option value="married_jointly">Married filing jointly</option>
+              <option value="head_of_household">Head of household</option>
+            </select>
+          </div>
+          {amountField('dependentsAmount', 'Dependents credit (Step 3, annual)')}
+          {amountField('otherIncome', 'Other income (Step 4a, annual)')}
+          {amountField('deductions', 'Deductions (Step 4b, annual)')}
+          {amountField('extraWithholding', 'Extra withholding (Step 4c, per check)')}
+          <div className="flex flex-col justify-end gap-2 text-sm text-gray-700">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={profile.multipleJobs}
+                disabled={!canEdit}
+                onChange={e => update('multipleJobs', e.target.checked)}
+              />
+              Multiple jobs or spouse works (Step 2c)
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={profile.exempt}
+                disabled={!canEdit}
+                onChange={e => update('exempt', e.target.checked)}
+              />
+              Exempt from federal withholding
+            </label>
+          </div>
+        </div>
+
+        <div className="grid md:grid-cols-3 gap-4 border-t border-gray-100 pt-5">
+          <div>
+            <Label className="text-xs text-gray-500">Work state</Label>
+            <select
+              value={profile.workState ?? ''}
+              disabled={!canEdit}
+              onChange={e => update('workState', e.target.value || null)}
+              className={selectClass}
+            >
+              <option value="">No state withholding</option>
+              {states.map(st => <option key={st} value={st}>{st}</option>)}
+            </select>
+          </div>
+          <div>
+            <Label className="text-xs text-gray-500">State allowances</Label>
+            <Input
+              type="number"
+              min={0}
+              step={1}
+              value={profile.stateAllowances}
+              disabled={!canEdit}
+              onChange={e => update('stateAllowances', Number(e.target.value))}
+            />
+          </div>
+          {amountField('stateExtraWithholding', 'State extra withholding (per check)')}
+        </div>
+
+        <div className="border-t border-gray-100 pt-5 space-y-3">
+          <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide">Pre-tax deductions (per check)</p>
+          {profile.preTaxDeductions.map((d, i) => (
+            <div key={i} className="grid grid-cols-[2fr_1.5fr_1fr_1fr_auto] gap-2 items-center">
+              <Input value={d.label} placeholder="401(k)" disabled={!canEdit} onChange={e => updateDeduction(i, { label: e.target.value })} />
+              <select
+                value={d.kind}
+                disabled={!canEdit}
+                onChange={e => updateDeduction(i, { kind: e.target.value as PreTaxDeduction['kind'] })}
+                className={selectClass}
+              >
+                <option value="retirement">Retirement (401k/403b)</option>
+                <option value="cafeteria">Section 125 (health, FSA)</option>
+              </select>
+              <Input
+                type="number"
+                min={0}
+                step="0.01"
+                placeholder="$"
+                value={d.amount ?? ''}
+                disabled={!canEdit}
+                onChange={e => updateDeduction(i, { amount: e.target.value === '' ? undefined : Number(e.target.value), percent: undefined })}
+              />
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                step="0.1"
+                placeholder="%"
+                value={d.percent ?? ''}
+                disabled={!canEdit}
+                onChange={e => updateDeduction(i, { percent: e.target.value === '' ? undefined : Number(e.target.value), amount: undefined })}
+              />
+              {canEdit && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => update('preTaxDeductions', profile.preTaxDeductions.filter((_, j) => j !== i))}
+                >
+                  <Trash2 className="h-4 w-4 text-gray-500" />
+                </Button>
+              )}
+            </div>
+          ))}
+          {canEdit && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="border-gray-200"
+              onClick={() => update('preTaxDeductions', [...profile.preTaxDeductions, { label: '', kind: 'retirement', percent: 0 }])}
+            >
+              <Plus className="h-3.5 w-3.5 mr-1.5" />
+              Add Deduction
+            </Button>
+          )}
+        </div>
+
+        {canEdit && (
+          <div className="flex justify-end">
+            <Button onClick={save} disabled={saving} className="bg-emerald-600 hover:bg-emerald-700 text-white">
+              {saving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Save Tax Profile
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
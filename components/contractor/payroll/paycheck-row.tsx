@@ -1,7 +1,7 @@
 'use client';
 
 import { useState } from 'react';
-import { ChevronDown, ChevronRight, CheckCircle2, Clock, XCircle, Loader2 } from 'lucide-react';
+import { ChevronDown, ChevronRight, CheckCircle2, Clock, XCircle, Loader2, FileDown } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { formatCurrency } from '@/lib/utils';
@@ -192,6 +192,14 @@ export function PaycheckRow({ paycheck: initial, payrollId, canMarkPaid = true,
             <span className="text-xl font-bold text-emerald-700">{formatCurrency(Number(paycheck.netPay))}</span>
           </div>
 
+          {/* Pay stub */}
+          <Button asChild size="sm" variant="outline" className="border-gray-200">
+            <a href={`/api/contractor/payroll/${payrollId}/paychecks/${paycheck.id}/stub`}>
+              <FileDown className="h-3.5 w-3.5 mr-1.5" />
+              Download Pay Stub
+            </a>
+          </Button>
+
           {/* Payment info if paid */}
           {paycheck.status === 'paid' && (
             <div className="text-sm text-gray-600 space-y-1">
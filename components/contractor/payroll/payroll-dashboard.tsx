@@ -19,6 +19,7 @@ import { Badge } from '@/components/ui/badge';
 import { formatCurrency } from '@/lib/utils';
 import { RunPayrollModal } from '@/components/contractor/payroll/run-payroll-modal';
 import { PaycheckRow } from '@/components/contractor/payroll/paycheck-row';
+import { PayrollTaxReports } from '@/components/contractor/payroll/payroll-tax-reports';
 
 interface Employee {
   id: string;
@@ -307,6 +308,9 @@ export function PayrollDashboard({ contractorId, businessName, initialPayrolls,
         })}
       </div>
 
+      {/* Quarterly and year-end tax figures */}
+      {payrolls.length > 0 && <PayrollTaxReports />}
+
       {/* Run payroll modal */}
       {showRunModal && (
         <RunPayrollModal
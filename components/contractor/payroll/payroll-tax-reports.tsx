@@ -0,0 +1,191 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FileText, Download, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { formatCurrency } from '@/lib/utils';
+
+interface QuarterlySummary {
+  quarter: number;
+  employeeCount: number;
+  wages: number;
+  federalWithholding: number;
+  socialSecurityWages: number;
+  socialSecurityTax: number;
+  medicareWages: number;
+  medicareTax: number;
+  additionalMedicareTax: number;
+  fractionsOfCents: number;
+  totalTax: number;
+  monthlyLiability: [number, number, number];
+}
+
+interface W2Row {
+  employeeId: string;
+  name: string;
+  w2: {
+    wages: number;
+    federalWithholding: number;
+    socialSecurityWages: number;
+    socialSecurityTax: number;
+    medicareWages: number;
+    medicareTax: number;
+    retirementDeferrals: number;
+    states: { state: string; wages: number; withholding: number }[];
+  };
+}
+
+interface Report {
+  year: number;
+  quarters: QuarterlySummary[];
+  w2: W2Row[];
+}
+
+export function PayrollTaxReports() {
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(currentYear);
+  const [report, setReport] = useState<Report | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/contractor/payroll/tax-reports?year=${year}`)
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load tax reports');
+        if (!cancelled) setReport(data);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load tax reports');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [year]);
+
+  function exportW2CSV() {
+    if (!report) return;
+    let csv = 'Employee,Box 1 Wages,Box 2 Federal W/H,Box 3 SS Wages,Box 4 SS Tax,Box 5 Medicare Wages,Box 6 Medicare Tax,Box 12 D,State,Box 16 State Wages,Box 17 State W/H\n';
+    report.w2.forEach(row => {
+      const states = row.w2.states.length > 0 ? row.w2.states : [{ state: '', wages: 0, withholding: 0 }];
+      states.forEach((st, i) => {
+        const federal = i === 0
+          ? [row.w2.wages, row.w2.federalWithholding, row.w2.socialSecurityWages, row.w2.socialSecurityTax, row.w2.medicareWages, row.w2.medicareTax, row.w2.retirementDeferrals].map(n => n.toFixed(2))
+          : ['', '', '', '', '', '', ''];
+        csv += `"${row.name}",${federal.join(',')},${st.state},${st.wages.toFixed(2)},${st.withholding.toFixed(2)}\n`;
+      });
+    });
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `w2-${year}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  return (
+    <div className="rounded-xl border-2 border-gray-200 bg-white shadow-sm">
+      <div className="flex items-center justify-between gap-4 p-5 border-b-2 border-gray-100">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-violet-100">
+            <FileText className="h-5 w-5 text-violet-600" />
+          </div>
+          <div>
+            <p className="font-semibold text-gray-900">Payroll Tax Reports</p>
+            <p className="text-xs text-gray-500">Form 941 figures by quarter and W-2 figures by employee</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={year}
+            onChange={e => {
+              setLoading(true);
+              setError(null);
+              setYear(Number(e.target.value));
+            }}
+            className="rounded-lg border-2 border-gray-200 px-3 py-1.5 text-sm focus:border-emerald-400 focus:outline-none"
+          >
+            {[currentYear, currentYear - 1].map(y => <option key={y} value={y}>{y}</option>)}
+          </select>
+          <Button size="sm" variant="outline" className="border-gray-200" onClick={exportW2CSV} disabled={!report?.w2.length}>
+            <Download className="h-3.5 w-3.5 mr-1.5" />
+            W-2 CSV
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center p-8">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : error ? (
+        <p className="p-5 text-sm text-red-600">{error}</p>
+      ) : report && (
+        <div className="p-5 space-y-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+            {report.quarters.map(q => (
+              <div key={q.quarter} className="rounded-lg border border-gray-200 p-4 space-y-1 text-sm">
+                <p className="font-semibold text-gray-900 mb-2">Q{q.quarter} {report.year}</p>
+                <div className="flex justify-between"><span className="text-gray-500">Employees (line 1)</span><span>{q.employeeCount}</span></div>
+                <div className="flex justify-between"><span className="text-gray-500">Wages (line 2)</span><span>{formatCurrency(q.wages)}</span></div>
+                <div className="flex justify-between"><span className="text-gray-500">Federal W/H (line 3)</span><span>{formatCurrency(q.federalWithholding)}</span></div>
+                <div className="flex justify-between"><span className="text-gray-500">Social Security (5a)</span><span>{formatCurrency(q.socialSecurityTax)}</span></div>
+                <div className="flex justify-between"><span className="text-gray-500">Medicare (5c + 5d)</span><span>{formatCurrency(q.medicareTax + q.additionalMedicareTax)}</span></div>
+                {q.fractionsOfCents !== 0 && (
+                  <div className="flex justify-between"><span className="text-gray-500">Fractions of cents (7)</span><span>{formatCurrency(q.fractionsOfCents)}</span></div>
+                )}
+                <div className="flex justify-between font-bold border-t border-gray-200 pt-1 mt-1">
+                  <span>Total tax (line 10)</span>
+                  <span>{formatCurrency(q.totalTax)}</span>
+                </div>
+                <p className="text-xs text-gray-400 pt-1">
+                  By month: {q.monthlyLiability.map(m => formatCurrency(m)).join(' · ')}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          {report.w2.length === 0 ? (
+            <p className="text-sm text-gray-500">No W-2 wages recorded for {report.year}.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs font-semibold text-gray-500 uppercase tracking-wide bg-gray-50">
+                    <th className="text-left px-3 py-2">Employee</th>
+                    <th className="text-right px-3 py-2">Wages (1)</th>
+                    <th className="text-right px-3 py-2">Fed W/H (2)</th>
+                    <th className="text-right px-3 py-2">SS Wages (3)</th>
+                    <th className="text-right px-3 py-2">Medicare Wages (5)</th>
+                    <th className="text-right px-3 py-2">401(k) (12 D)</th>
+                    <th className="text-right px-3 py-2">State W/H (17)</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {report.w2.map(row => (
+                    <tr key={row.employeeId}>
+                      <td className="px-3 py-2 font-medium text-gray-900">{row.name}</td>
+                      <td className="px-3 py-2 text-right">{formatCurrency(row.w2.wages)}</td>
+                      <td className="px-3 py-2 text-right">{formatCurrency(row.w2.federalWithholding)}</td>
+                      <td className="px-3 py-2 text-right">{formatCurrency(row.w2.socialSecurityWages)}</td>
+                      <td className="px-3 py-2 text-right">{formatCurrency(row.w2.medicareWages)}</td>
+                      <td className="px-3 py-2 text-right">{formatCurrency(row.w2.retirementDeferrals)}</td>
+                      <td className="px-3 py-2 text-right">
+                        {row.w2.states.length === 0
+                          ? '—'
+                          : row.w2.states.map(st => `${st.state} ${formatCurrency(st.withholding)}`).join(', ')}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,491 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { BookOpen, Loader2, Pencil, Percent, Plus, Receipt, Trash2, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency } from '@/lib/utils';
+
+type ItemType = 'service' | 'labor' | 'material';
+
+interface PriceBookItem {
+  id: string;
+  type: ItemType;
+  name: string;
+  sku: string | null;
+  category: string | null;
+  unit: string;
+  inventoryItemId: string | null;
+  unitCost: string | null;
+  unitPrice: string | null;
+  markupPercent: string | null;
+  inventoryItem: { id: string; name: string; unitCost: string } | null;
+  price: { unitCost: number; unitPrice: number; markupPercent: number | null; source: 'fixed' | 'markup' };
+}
+
+interface MarkupRuleRow {
+  itemType: ItemType | '';
+  category: string;
+  minCost: string;
+  maxCost: string;
+  markupPercent: string;
+}
+
+interface InventoryOption {
+  id: string;
+  name: string;
+  sku: string | null;
+  unit: string;
+  unitCost: string | number;
+}
+
+interface AcceptedQuote {
+  id: string;
+  title: string;
+  totalPrice: string;
+  invoiceId: string | null;
+  acceptedAt: string | null;
+  customer: { name: string | null } | null;
+  options: { id: string; name: string }[];
+  selectedOptionId: string | null;
+  _count: { lineItems: number };
+}
+
+const ITEM_TYPES: ItemType[] = ['service', 'labor', 'material'];
+
+const emptyItem = {
+  type: 'service' as ItemType,
+  name: '',
+  sku: '',
+  category: '',
+  unit: 'each',
+  inventoryItemId: '',
+  unitCost: '',
+  unitPrice: '',
+  markupPercent: '',
+};
+
+const selectClass = 'w-full px-3 py-2 border border-slate-300 rounded-md text-sm bg-white';
+
+export function PriceBookManager() {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [items, setItems] = useState<PriceBookItem[]>([]);
+  const [rules, setRules] = useState<MarkupRuleRow[]>([]);
+  const [inventory, setInventory] = useState<InventoryOption[]>([]);
+  const [quotes, setQuotes] = useState<AcceptedQuote[]>([]);
+  const [editing, setEditing] = useState<{ id: string | null; form: typeof emptyItem } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [convertingId, setConvertingId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [bookRes, inventoryRes, quotesRes] = await Promise.all([
+        fetch('/api/contractor/price-book'),
+        fetch('/api/contractor/inventory'),
+        fetch('/api/contractor/quotes?status=accepted'),
+      ]);
+      if (bookRes.ok) {
+        const data = await bookRes.json();
+        setItems(data.items);
+        setRules(
+          data.rules.map((rule: { itemType: ItemType | null; category: string | null; minCost: number; maxCost: number | null; markupPercent: number }) => ({
+            itemType: rule.itemType ?? '',
+            category: rule.category ?? '',
+            minCost: String(rule.minCost),
+            maxCost: rule.maxCost === null ? '' : String(rule.maxCost),
+            markupPercent: String(rule.markupPercent),
+          }))
+        );
+      }
+      if (inventoryRes.ok) setInventory(await inventoryRes.json());
+      if (quotesRes.ok) {
+        const data = await quotesRes.json();
+        setQuotes((data.quotes as AcceptedQuote[]).filter((quote) => quote._count.lineItems > 0 && !quote.invoiceId));
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const openEditor = (item?: PriceBookItem) => {
+    setEditing({
+      id: item?.id ?? null,
+      form: item
+        ? {
+            type: item.type,
+            name: item.name,
+            sku: item.sku ?? '',
+            category: item.category ?? '',
+            unit: item.unit,
+            inventoryItemId: item.inventoryItemId ?? '',
+            unitCost: item.unitCost ?? '',
+            unitPrice: item.unitPrice ?? '',
+            markupPercent: item.markupPercent ?? '',
+          }
+        : emptyItem,
+    });
+  };
+
+  const updateForm = (changes: Partial<typeof emptyItem>) =>
+    setEditing((current) => current && { ...current, form: { ...current.form, ...changes } });
+
+  const saveItem = async () => {
+    if (!editing) return;
+    setSaving(true);
+    try {
+      const { form } = editing;
+      const res = await fetch(editing.id ? `/api/contractor/price-book/${editing.id}` : '/api/contractor/price-book', {
+        method: editing.id ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...form,
+          inventoryItemId: form.type === 'material' ? form.inventoryItemId || null : null,
+          unitCost: form.unitCost || null,
+          unitPrice: form.unitPrice || null,
+          markupPercent: form.markupPercent || null,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save item');
+
+      setEditing(null);
+      await load();
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const archiveItem = async (item: PriceBookItem) => {
+    const res = await fetch(`/api/contractor/price-book/${item.id}`, { method: 'DELETE' });
+    if (res.ok) {
+      setItems((current) => current.filter((candidate) => candidate.id !== item.id));
+    } else {
+      toast({ title: 'Error', description: 'Failed to archive item', variant: 'destructive' });
+    }
+  };
+
+  const saveRules = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/contractor/price-book/markup-rules', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          rules: rules.map((rule) => ({
+            itemType: rule.itemType || null,
+            category: rule.category || null,
+            minCost: rule.minCost || 0,
+            maxCost: rule.maxCost || null,
+            markupPercent: rule.markupPercent,
+          })),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save markup rules');
+
+      toast({ title: 'Markup rules saved', description: 'Prices below have been recalculated.' });
+      await load();
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const convertQuote = async (quote: AcceptedQuote) => {
+    setConvertingId(quote.id);
+    try {
+      const res = await fetch(`/api/contractor/quotes/${quote.id}/convert`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || data.message || 'Failed to convert quote');
+
+      toast({
+        title: 'Quote converted',
+        description: `Invoice ${data.invoice.invoiceNumber} drafted and ${data.materialsPlanned} material(s) planned on the job.`,
+      });
+      setQuotes((current) => current.filter((candidate) => candidate.id !== quote.id));
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setConvertingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className='flex items-center justify-center py-16'>
+        <Loader2 className='h-6 w-6 animate-spin text-gray-400' />
+      </div>
+    );
+  }
+
+  return (
+    <div className='space-y-5'>
+      {/* Accepted quotes waiting to be converted */}
+      {quotes.length > 0 && (
+        <Card className='border-emerald-200 bg-emerald-50/50'>
+          <CardHeader>
+            <CardTitle className='text-lg flex items-center gap-2'>
+              <Receipt className='h-5 w-5 text-emerald-600' />
+              Accepted Quotes Ready to Convert
+            </CardTitle>
+          </CardHeader>
+          <CardContent className='space-y-2'>
+            {quotes.map((quote) => {
+              const option = quote.options.find((candidate) => candidate.id === quote.selectedOptionId);
+              return (
+                <div key={quote.id} className='flex items-center justify-between gap-3 rounded-lg bg-white border border-emerald-100 p-3'>
+                  <div>
+                    <p className='font-semibold text-gray-900'>{quote.title}</p>
+                    <p className='text-xs text-gray-500'>
+                      {quote.customer?.name || 'Customer'}
+                      {option && ` · ${option.name}`} · {formatCurrency(Number(quote.totalPrice))}
+                    </p>
+                  </div>
+                  <Button size='sm' onClick={() => convertQuote(quote)} disabled={convertingId !== null}>
+                    {convertingId === quote.id ? <Loader2 className='h-4 w-4 mr-1 animate-spin' /> : <Receipt className='h-4 w-4 mr-1' />}
+                    Create Job Materials & Invoice
+                  </Button>
+                </div>
+              );
+            })}
+            <p className='text-xs text-gray-500'>
+              Drafted invoices appear under <Link href='/contractor-dashboard/invoices' className='underline'>Invoices</Link>.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Items */}
+      <Card>
+        <CardHeader>
+          <div className='flex items-center justify-between'>
+            <CardTitle className='text-lg flex items-center gap-2'>
+              <BookOpen className='h-5 w-5 text-violet-600' />
+              Items
+            </CardTitle>
+            <Button size='sm' onClick={() => openEditor()}>
+              <Plus className='h-4 w-4 mr-1' />
+              Add Item
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {items.length === 0 ? (
+            <p className='text-sm text-gray-500 text-center py-8'>
+              Add the services, labor rates and materials you quote most so estimators can pick them instead of retyping prices.
+            </p>
+          ) : (
+            <div className='overflow-x-auto'>
+              <table className='w-full text-sm'>
+                <thead>
+                  <tr className='text-left text-xs text-gray-500 border-b'>
+                    <th className='py-2 pr-3'>Item</th>
+                    <th className='py-2 pr-3'>Type</th>
+                    <th className='py-2 pr-3'>Category</th>
+                    <th className='py-2 pr-3 text-right'>Cost</th>
+                    <th className='py-2 pr-3 text-right'>Price</th>
+                    <th className='py-2 pr-3'>Pricing</th>
+                    <th className='py-2' />
+                  </tr>
+                </thead>
+                <tbody>
+                  {items.map((item) => (
+                    <tr key={item.id} className='border-b last:border-0'>
+                      <td className='py-2 pr-3'>
+                        <p className='font-medium text-gray-900'>{item.name}</p>
+                        {item.inventoryItem && (
+                          <p className='text-xs text-gray-500'>Inventory: {item.inventoryItem.name}</p>
+                        )}
+                      </td>
+                      <td className='py-2 pr-3 capitalize'>{item.type}</td>
+                      <td className='py-2 pr-3'>{item.category || '—'}</td>
+                      <td className='py-2 pr-3 text-right'>{formatCurrency(item.price.unitCost)}</td>
+                      <td className='py-2 pr-3 text-right font-semibold'>
+                        {formatCurrency(item.price.unitPrice)}
+                        <span className='text-xs text-gray-500 font-normal'> / {item.unit}</span>
+                      </td>
+                      <td className='py-2 pr-3'>
+                        {item.price.source === 'fixed' ? (
+                          <Badge variant='secondary'>Fixed</Badge>
+                        ) : (
+                          <Badge variant='outline'>+{item.price.markupPercent}%</Badge>
+                        )}
+                      </td>
+                      <td className='py-2 text-right whitespace-nowrap'>
+                        <Button size='sm' variant='ghost' onClick={() => openEditor(item)}>
+                          <Pencil className='h-4 w-4' />
+                        </Button>
+                        <Button size='sm' variant='ghost' onClick={() => archiveItem(item)}>
+                          <Trash2 className='h-4 w-4' />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Markup rules */}
+      <Card>
+        <CardHeader>
+          <div className='flex items-center justify-between'>
+            <CardTitle className='text-lg flex items-center gap-2'>
+              <Percent className='h-5 w-5 text-amber-600' />
+              Markup Rules
+            </CardTitle>
+            <Button
+              size='sm'
+              variant='outline'
+              onClick={() => setRules([...rules, { itemType: 'material', category: '', minCost: '0', maxCost: '', markupPercent: '' }])}
+            >
+              <Plus className='h-4 w-4 mr-1' />
+              Add Rule
+            </Button>
+          </div>
+          <p className='text-xs text-gray-500'>
+            Items without a fixed price are marked up from cost. A rule for the item&apos;s category beats one for its type,
+            which beats a catch-all; within those the highest cost tier that fits wins. Costs below every tier are sold at cost.
+          </p>
+        </CardHeader>
+        <CardContent className='space-y-2'>
+          {rules.map((rule, index) => {
+            const update = (changes: Partial<MarkupRuleRow>) =>
+              setRules(rules.map((candidate, i) => (i === index ? { ...candidate, ...changes } : candidate)));
+            return (
+              <div key={index} className='grid grid-cols-2 md:grid-cols-6 gap-2 items-center'>
+                <select className={selectClass} value={rule.itemType} onChange={(e) => update({ itemType: e.target.value as ItemType | '' })}>
+                  <option value=''>Any type</option>
+                  {ITEM_TYPES.map((type) => (
+                    <option key={type} value={type}>{type}</option>
+                  ))}
+                </select>
+                <Input placeholder='Any category' value={rule.category} onChange={(e) => update({ category: e.target.value })} />
+                <Input type='number' step='0.01' placeholder='Cost from' value={rule.minCost} onChange={(e) => update({ minCost: e.target.value })} />
+                <Input type='number' step='0.01' placeholder='Cost under' value={rule.maxCost} onChange={(e) => update({ maxCost: e.target.value })} />
+                <Input type='number' step='0.1' placeholder='Markup %' value={rule.markupPercent} onChange={(e) => update({ markupPercent: e.target.value })} />
+                <Button size='sm' variant='ghost' onClick={() => setRules(rules.filter((_, i) => i !== index))}>
+                  <X className='h-4 w-4' />
+                </Button>
+              </div>
+            );
+          })}
+          <div className='flex justify-end pt-2'>
+            <Button size='sm' onClick={saveRules} disabled={saving}>
+              Save Rules
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className='sm:max-w-lg'>
+          <DialogHeader>
+            <DialogTitle>{editing?.id ? 'Edit Item' : 'Add Item'}</DialogTitle>
+          </DialogHeader>
+          {editing && (
+            <div className='space-y-3'>
+              <div className='grid grid-cols-2 gap-3'>
+                <div>
+                  <Label>Type</Label>
+                  <select className={selectClass} value={editing.form.type} onChange={(e) => updateForm({ type: e.target.value as ItemType })}>
+                    {ITEM_TYPES.map((type) => (
+                      <option key={type} value={type}>{type}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <Label>Unit</Label>
+                  <Input value={editing.form.unit} onChange={(e) => updateForm({ unit: e.target.value })} placeholder='each, hour, foot' />
+                </div>
+              </div>
+              <div>
+                <Label>Name *</Label>
+                <Input value={editing.form.name} onChange={(e) => updateForm({ name: e.target.value })} placeholder='e.g., 50 gal water heater install' />
+              </div>
+              <div className='grid grid-cols-2 gap-3'>
+                <div>
+                  <Label>Category</Label>
+                  <Input value={editing.form.category} onChange={(e) => updateForm({ category: e.target.value })} placeholder='plumbing' />
+                </div>
+                <div>
+                  <Label>SKU</Label>
+                  <Input value={editing.form.sku} onChange={(e) => updateForm({ sku: e.target.value })} />
+                </div>
+              </div>
+              {editing.form.type === 'material' && (
+                <div>
+                  <Label>Inventory Item</Label>
+                  <select
+                    className={selectClass}
+                    value={editing.form.inventoryItemId}
+                    onChange={(e) => updateForm({ inventoryItemId: e.target.value })}
+                  >
+                    <option value=''>Not stocked</option>
+                    {inventory.map((item) => (
+                      <option key={item.id} value={item.id}>
+                        {item.name} ({formatCurrency(Number(item.unitCost))} / {item.unit})
+                      </option>
+                    ))}
+                  </select>
+                  <p className='text-xs text-gray-500 mt-1'>Linked materials are priced from the inventory cost and planned on the job when a quote converts.</p>
+                </div>
+              )}
+              <div className='grid grid-cols-3 gap-3'>
+                <div>
+                  <Label>Unit Cost</Label>
+                  <Input
+                    type='number'
+                    step='0.01'
+                    value={editing.form.unitCost}
+                    disabled={!!editing.form.inventoryItemId}
+                    onChange={(e) => updateForm({ unitCost: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label>Markup %</Label>
+                  <Input type='number' step='0.1' value={editing.form.markupPercent} onChange={(e) => updateForm({ markupPercent: e.target.value })} placeholder='Rules' />
+                </div>
+                <div>
+                  <Label>Fixed Price</Label>
+                  <Input type='number' step='0.01' value={editing.form.unitPrice} onChange={(e) => updateForm({ unitPrice: e.target.value })} placeholder='Optional' />
+                </div>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant='outline' onClick={() => setEditing(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={saveItem} disabled={saving || !editing?.form.name}>
+              {saving && <Loader2 className='h-4 w-4 mr-2 animate-spin' />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
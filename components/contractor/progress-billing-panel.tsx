@@ -0,0 +1,549 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Download, FileText, Loader2, Pencil, Plus, Receipt, Trash2, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency } from '@/lib/utils';
+
+interface BillingLine {
+  id: string;
+  itemNumber: string;
+  description: string;
+  scheduledValue: number;
+  changeOrderId: string | null;
+  completedToDate: number;
+  percentComplete: number;
+  retainage: number;
+  balanceToFinish: number;
+}
+
+interface PayApplication {
+  id: string;
+  applicationNumber: number;
+  kind: 'progress' | 'retainage_release';
+  status: 'draft' | 'invoiced';
+  periodStart: string | null;
+  periodEnd: string;
+  retainagePercent: string;
+  completedToDate: string;
+  retainageHeld: string;
+  currentDue: string;
+  invoice: { id: string; invoiceNumber: string; status: string } | null;
+}
+
+interface JobBilling {
+  job: { id: string; retainagePercent: number };
+  lines: BillingLine[];
+  summary: {
+    originalContractSum: number;
+    netChangeOrders: number;
+    contractSum: number;
+    percentComplete: number;
+    retainageHeld: number;
+    billedToDate: number;
+    remaining: number;
+  };
+  retainageReleased: boolean;
+  payApplications: PayApplication[];
+}
+
+interface ScheduleRow {
+  id: string | null;
+  itemNumber: string;
+  description: string;
+  scheduledValue: string;
+}
+
+interface ProgressBillingPanelProps {
+  jobId: string;
+  /** Seeds the first schedule line when the job has none yet */
+  estimatedCost: number | null;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export function ProgressBillingPanel({ jobId, estimatedCost }: ProgressBillingPanelProps) {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [billing, setBilling] = useState<JobBilling | null>(null);
+  const [schedule, setSchedule] = useState<{ rows: ScheduleRow[]; retainagePercent: string } | null>(null);
+  const [progress, setProgress] = useState<{
+    percents: Record<string, string>;
+    periodStart: string;
+    periodEnd: string;
+    retainagePercent: string;
+  } | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/contractor/jobs/${jobId}/billing`);
+      if (res.ok) setBilling(await res.json());
+    } finally {
+      setLoading(false);
+    }
+  }, [jobId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const request = async (key: string, url: string, init: RequestInit, success: string) => {
+    setBusy(key);
+    try {
+      const res = await fetch(url, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || data.message || 'Request failed');
+
+      toast({ title: success });
+      await load();
+      return true;
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const editSchedule = () => {
+    if (!billing) return;
+    const ownLines = billing.lines.filter((line) => !line.changeOrderId);
+    setSchedule({
+      retainagePercent: String(billing.job.retainagePercent),
+      rows:
+        ownLines.length > 0
+          ? ownLines.map((line) => ({
+              id: line.id,
+              itemNumber: line.itemNumber,
+              description: line.description,
+              scheduledValue: String(line.scheduledValue),
+            }))
+          : [{ id: null, itemNumber: '1', description: 'Base contract', scheduledValue: estimatedCost ? String(estimatedCost) : '' }],
+    });
+  };
+
+  const updateRow = (index: number, changes: Partial<ScheduleRow>) =>
+    setSchedule((current) =>
+      current && { ...current, rows: current.rows.map((row, i) => (i === index ? { ...row, ...changes } : row)) }
+    );
+
+  const saveSchedule = async () => {
+    if (!schedule) return;
+    const saved = await request(
+      'schedule',
+      `/api/contractor/jobs/${jobId}/billing`,
+      {
+        method: 'PUT',
+        body: JSON.stringify({
+          retainagePercent: schedule.retainagePercent,
+          lines: schedule.rows.map((row) => ({
+            id: row.id,
+            itemNumber: row.itemNumber || null,
+            description: row.description,
+            scheduledValue: row.scheduledValue,
+          })),
+        }),
+      },
+      'Schedule of values saved'
+    );
+    if (saved) setSchedule(null);
+  };
+
+  const startPayApplication = () => {
+    if (!billing) return;
+    const lastInvoiced = billing.payApplications.find((app) => app.status === 'invoiced');
+    setProgress({
+      percents: Object.fromEntries(billing.lines.map((line) => [line.id, String(line.percentComplete)])),
+      periodStart: lastInvoiced ? lastInvoiced.periodEnd.slice(0, 10) : '',
+      periodEnd: today(),
+      retainagePercent: lastInvoiced ? String(Number(lastInvoiced.retainagePercent)) : String(billing.job.retainagePercent),
+    });
+  };
+
+  const savePayApplication = async () => {
+    if (!progress) return;
+    const saved = await request(
+      'progress',
+      `/api/contractor/jobs/${jobId}/pay-applications`,
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          periodStart: progress.periodStart || null,
+          periodEnd: progress.periodEnd,
+          retainagePercent: progress.retainagePercent,
+          lines: Object.entries(progress.percents).map(([lineId, percentComplete]) => ({ lineId, percentComplete })),
+        }),
+      },
+      'Draft pay application saved'
+    );
+    if (saved) setProgress(null);
+  };
+
+  if (loading) {
+    return (
+      <div className='flex items-center justify-center py-16'>
+        <Loader2 className='h-6 w-6 animate-spin text-gray-400' />
+      </div>
+    );
+  }
+
+  if (!billing) {
+    return <p className='text-sm text-black/60 text-center py-8'>Billing is not available for this job</p>;
+  }
+
+  const { summary } = billing;
+  const hasDraft = billing.payApplications.some((app) => app.status === 'draft');
+  const canReleaseRetainage =
+    !billing.retainageReleased && !hasDraft && summary.percentComplete >= 100 && summary.retainageHeld > 0;
+
+  return (
+    <div className='space-y-4'>
+      {/* Billed to date */}
+      <div className='grid gap-3 grid-cols-2 sm:grid-cols-5'>
+        {[
+          { label: 'Contract Sum', value: formatCurrency(summary.contractSum) },
+          { label: 'Complete', value: `${summary.percentComplete}%` },
+          { label: 'Billed to Date', value: formatCurrency(summary.billedToDate) },
+          { label: 'Retainage Held', value: formatCurrency(summary.retainageHeld) },
+          { label: 'Remaining', value: formatCurrency(summary.remaining) },
+        ].map((stat) => (
+          <div key={stat.label} className='rounded-lg border border-black/10 bg-gradient-to-r from-violet-50 to-purple-50 p-3'>
+            <p className='text-xs text-black/60'>{stat.label}</p>
+            <p className='text-lg font-bold text-black'>{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Schedule of values */}
+      <Card className='border-2 border-black'>
+        <CardHeader className='flex flex-row items-center justify-between space-y-0'>
+          <CardTitle className='text-black'>Schedule of Values</CardTitle>
+          {!schedule && (
+            <Button size='sm' variant='outline' onClick={editSchedule} disabled={hasDraft}>
+              <Pencil className='h-4 w-4 mr-1' />
+              {billing.lines.length === 0 ? 'Set Up' : 'Edit'}
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {schedule ? (
+            <div className='space-y-3'>
+              {schedule.rows.map((row, index) => (
+                <div key={row.id ?? `new-${index}`} className='grid grid-cols-12 gap-2 items-center'>
+                  <Input
+                    className='col-span-2'
+                    placeholder='#'
+                    value={row.itemNumber}
+                    onChange={(e) => updateRow(index, { itemNumber: e.target.value })}
+                  />
+                  <Input
+                    className='col-span-6'
+                    placeholder='Description of work'
+                    value={row.description}
+                    onChange={(e) => updateRow(index, { description: e.target.value })}
+                  />
+                  <Input
+                    className='col-span-3'
+                    type='number'
+                    min='0'
+                    step='0.01'
+                    placeholder='Scheduled value'
+                    value={row.scheduledValue}
+                    onChange={(e) => updateRow(index, { scheduledValue: e.target.value })}
+                  />
+                  <Button
+                    size='icon'
+                    variant='ghost'
+                    className='col-span-1'
+                    onClick={() =>
+                      setSchedule((current) => current && { ...current, rows: current.rows.filter((_, i) => i !== index) })
+                    }
+                  >
+                    <X className='h-4 w-4' />
+                  </Button>
+                </div>
+              ))}
+              <div className='flex flex-wrap items-end justify-between gap-3'>
+                <Button
+                  size='sm'
+                  variant='outline'
+                  onClick={() =>
+                    setSchedule(
+                      (current) =>
+                        current && {
+                          ...current,
+                          rows: [
+                            ...current.rows,
+                            { id: null, itemNumber: String(current.rows.length + 1), description: '', scheduledValue: '' },
+                          ],
+                        }
+                    )
+                  }
+                >
+                  <Plus className='h-4 w-4 mr-1' />
+                  Add Line
+                </Button>
+                <div className='w-40'>
+                  <Label className='text-xs'>Retainage %</Label>
+                  <Input
+                    type='number'
+                    min='0'
+                    max='100'
+                    step='0.01'
+                    value={schedule.retainagePercent}
+                    onChange={(e) => setSchedule((current) => current && { ...current, retainagePercent: e.target.value })}
+                  />
+                </div>
+              </div>
+              <p className='text-xs text-black/60'>
+                Approved change orders are added to the schedule automatically.
+              </p>
+              <div className='flex justify-end gap-2'>
+                <Button variant='outline' onClick={() => setSchedule(null)}>
+                  Cancel
+                </Button>
+                <Button onClick={saveSchedule} disabled={busy === 'schedule'}>
+                  {busy === 'schedule' && <Loader2 className='h-4 w-4 mr-1 animate-spin' />}
+                  Save Schedule
+                </Button>
+              </div>
+            </div>
+          ) : billing.lines.length === 0 ? (
+            <p className='text-sm text-black/60 text-center py-8'>
+              Split the contract sum into lines of work to bill this job by progress.
+            </p>
+          ) : (
+            <div className='overflow-x-auto'>
+              <table className='w-full text-sm'>
+                <thead>
+                  <tr className='text-left text-xs text-black/60 border-b'>
+                    <th className='py-2 pr-2'>#</th>
+                    <th className='py-2 pr-2'>Description</th>
+                    <th className='py-2 pr-2 text-right'>Scheduled</th>
+                    <th className='py-2 pr-2 text-right'>Completed</th>
+                    <th className='py-2 pr-2 text-right'>%</th>
+                    <th className='py-2 pr-2 text-right'>Retainage</th>
+                    <th className='py-2 text-right'>{progress ? 'New %' : 'Balance'}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {billing.lines.map((line) => (
+                    <tr key={line.id} className='border-b border-black/5'>
+                      <td className='py-2 pr-2 font-medium'>{line.itemNumber}</td>
+                      <td className='py-2 pr-2'>
+                        {line.description}
+                        {line.changeOrderId && (
+                          <Badge variant='outline' className='ml-2 text-xs'>
+                            Change Order
+                          </Badge>
+                        )}
+                      </td>
+                      <td className='py-2 pr-2 text-right'>{formatCurrency(line.scheduledValue)}</td>
+                      <td className='py-2 pr-2 text-right'>{formatCurrency(line.completedToDate)}</td>
+                      <td className='py-2 pr-2 text-right'>{line.percentComplete}%</td>
+                      <td className='py-2 pr-2 text-right'>{formatCurrency(line.retainage)}</td>
+                      <td className='py-2 text-right'>
+                        {progress ? (
+                          <Input
+                            className='w-20 ml-auto text-right'
+                            type='number'
+                            min={line.percentComplete}
+                            max='100'
+                            step='0.01'
+                            value={progress.percents[line.id] ?? ''}
+                            onChange={(e) =>
+                              setProgress(
+                                (current) =>
+                                  current && { ...current, percents: { ...current.percents, [line.id]: e.target.value } }
+                              )
+                            }
+                          />
+                        ) : (
+                          formatCurrency(line.balanceToFinish)
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {summary.netChangeOrders !== 0 && (
+                <p className='text-xs text-black/60 mt-2'>
+                  Original contract {formatCurrency(summary.originalContractSum)} + change orders{' '}
+                  {formatCurrency(summary.netChangeOrders)}
+                </p>
+              )}
+            </div>
+          )}
+
+          {progress && (
+            <div className='mt-4 space-y-3 rounded-lg border border-black/10 p-3'>
+              <div className='grid gap-3 sm:grid-cols-3'>
+                <div>
+                  <Label className='text-xs'>Period From</Label>
+                  <Input
+                    type='date'
+                    value={progress.periodStart}
+                    onChange={(e) => setProgress((current) => current && { ...current, periodStart: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label className='text-xs'>Period To</Label>
+                  <Input
+                    type='date'
+                    value={progress.periodEnd}
+                    onChange={(e) => setProgress((current) => current && { ...current, periodEnd: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label className='text-xs'>Retainage %</Label>
+                  <Input
+                    type='number'
+                    min='0'
+                    max='100'
+                    step='0.01'
+                    value={progress.retainagePercent}
+                    onChange={(e) => setProgress((current) => current && { ...current, retainagePercent: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className='flex justify-end gap-2'>
+                <Button variant='outline' onClick={() => setProgress(null)}>
+                  Cancel
+                </Button>
+                <Button onClick={savePayApplication} disabled={busy === 'progress'}>
+                  {busy === 'progress' && <Loader2 className='h-4 w-4 mr-1 animate-spin' />}
+                  Save Draft
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Pay applications */}
+      <Card className='border-2 border-black'>
+        <CardHeader className='flex flex-row items-center justify-between space-y-0'>
+          <CardTitle className='text-black'>Pay Applications</CardTitle>
+          <div className='flex gap-2'>
+            {canReleaseRetainage && (
+              <Button
+                size='sm'
+                variant='outline'
+                disabled={busy === 'release'}
+                onClick={() =>
+                  request(
+                    'release',
+                    `/api/contractor/jobs/${jobId}/pay-applications`,
+                    { method: 'POST', body: JSON.stringify({ kind: 'retainage_release' }) },
+                    'Retainage release drafted'
+                  )
+                }
+              >
+                <Receipt className='h-4 w-4 mr-1' />
+                Release Retainage
+              </Button>
+            )}
+            {!progress && !schedule && !hasDraft && !billing.retainageReleased && billing.lines.length > 0 && (
+              <Button size='sm' onClick={startPayApplication}>
+                <Plus className='h-4 w-4 mr-1' />
+                New Pay Application
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {billing.payApplications.length === 0 ? (
+            <p className='text-sm text-black/60 text-center py-8'>No pay applications yet</p>
+          ) : (
+            <div className='space-y-2'>
+              {billing.payApplications.map((app) => (
+                <div
+                  key={app.id}
+                  className='flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 rounded-lg border border-black/10 bg-gradient-to-r from-violet-50 to-purple-50'
+                >
+                  <div>
+                    <p className='text-sm font-medium text-black'>
+                      Application #{app.applicationNumber}
+                      {app.kind === 'retainage_release' && ' - Retainage Release'}
+                      <Badge variant='outline' className='ml-2 text-xs capitalize'>
+                        {app.status}
+                      </Badge>
+                    </p>
+                    <p className='text-xs text-black/60'>
+                      {app.periodStart && `${new Date(app.periodStart).toLocaleDateString()} - `}
+                      {new Date(app.periodEnd).toLocaleDateString()} · Retainage held{' '}
+                      {formatCurrency(Number(app.retainageHeld))}
+                    </p>
+                  </div>
+                  <div className='flex items-center gap-2'>
+                    <p className='text-sm font-bold text-black mr-2'>{formatCurrency(Number(app.currentDue))}</p>
+                    {app.status === 'draft' ? (
+                      <>
+                        <Button
+                          size='sm'
+                          disabled={busy === app.id}
+                          onClick={() =>
+                            request(
+                              app.id,
+                              `/api/contractor/jobs/${jobId}/pay-applications/${app.id}/invoice`,
+                              { method: 'POST' },
+                              'Invoice created'
+                            )
+                          }
+                        >
+                          <FileText className='h-4 w-4 mr-1' />
+                          Create Invoice
+                        </Button>
+                        <Button
+                          size='icon'
+                          variant='ghost'
+                          disabled={busy === app.id}
+                          onClick={() =>
+                            request(
+                              app.id,
+                              `/api/contractor/jobs/${jobId}/pay-applications/${app.id}`,
+                              { method: 'DELETE' },
+                              'Draft deleted'
+                            )
+                          }
+                        >
+                          <Trash2 className='h-4 w-4' />
+                        </Button>
+                      </>
+                    ) : (
+                      app.invoice && (
+                        <>
+                          <Link
+                            href={`/contractor-dashboard/invoices/${app.invoice.id}`}
+                            className='text-sm text-violet-700 hover:underline'
+                          >
+                            {app.invoice.invoiceNumber}
+                          </Link>
+                          <Button size='icon' variant='ghost' asChild>
+                            <a href={`/api/contractor/invoices/${app.invoice.id}/pdf`} title='Download PDF'>
+                              <Download className='h-4 w-4' />
+                            </a>
+                          </Button>
+                        </>
+                      )
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import {
   FileText,
@@ -13,6 +13,8 @@ import {
   Sparkles,
   CheckCircle2,
   AlertCircle,
+  ListChecks,
+  Star,
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -31,6 +33,127 @@ import {
 import { useToast } from '@/hooks/use-toast';
 import { formatCurrency } from '@/lib/utils';
 
+interface PriceBookOption {
+  id: string;
+  type: string;
+  name: string;
+  unit: string;
+  price: { unitPrice: number };
+}
+
+interface DraftLine {
+  key: number;
+  priceBookItemId: string;
+  description: string;
+  quantity: string;
+  unitPrice: string;
+  unit: string;
+}
+
+interface DraftOption {
+  tier: 'good' | 'better' | 'best';
+  name: string;
+  description: string;
+  recommended: boolean;
+  lines: DraftLine[];
+}
+
+let nextLineKey = 0;
+const newLine = (): DraftLine => ({
+  key: nextLineKey++,
+  priceBookItemId: '',
+  description: '',
+  quantity: '1',
+  unitPrice: '',
+  unit: 'each',
+});
+
+const defaultOptions = (): DraftOption[] => [
+  { tier: 'good', name: 'Good', description: '', recommended: false, lines: [newLine()] },
+  { tier: 'better', name: 'Better', description: '', recommended: true, lines: [newLine()] },
+  { tier: 'best', name: 'Best', description: '', recommended: false, lines: [newLine()] },
+];
+
+const lineTotal = (line: DraftLine) => (Number(line.quantity) || 0) * (Number(line.unitPrice) || 0);
+
+function LineItemsEditor({
+  lines,
+  priceBook,
+  onChange,
+}: {
+  lines: DraftLine[];
+  priceBook: PriceBookOption[];
+  onChange: (lines: DraftLine[]) => void;
+}) {
+  const update = (key: number, changes: Partial<DraftLine>) =>
+    onChange(lines.map((line) => (line.key === key ? { ...line, ...changes } : line)));
+
+  const pickItem = (key: number, itemId: string) => {
+    const item = priceBook.find((candidate) => candidate.id === itemId);
+    update(
+      key,
+      item
+        ? { priceBookItemId: item.id, description: item.name, unitPrice: String(item.price.unitPrice), unit: item.unit }
+        : { priceBookItemId: '' }
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      {lines.map((line) => (
+        <div key={line.key} className="grid grid-cols-12 gap-2 items-center">
+          <select
+            value={line.priceBookItemId}
+            onChange={(e) => pickItem(line.key, e.target.value)}
+            className="col-span-4 px-2 py-2 border border-slate-300 rounded-md text-sm bg-white"
+          >
+            <option value="">Custom line</option>
+            {priceBook.map((item) => (
+              <option key={item.id} value={item.id}>
+                {item.name} ({formatCurrency(item.price.unitPrice)}/{item.unit})
+              </option>
+            ))}
+          </select>
+          <Input
+            className="col-span-4"
+            value={line.description}
+            onChange={(e) => update(line.key, { description: e.target.value })}
+            placeholder="Description"
+          />
+          <Input
+            className="col-span-1"
+            type="number"
+            step="0.25"
+            value={line.quantity}
+            onChange={(e) => update(line.key, { quantity: e.target.value })}
+          />
+          <Input
+            className="col-span-2"
+            type="number"
+            step="0.01"
+            value={line.unitPrice}
+            onChange={(e) => update(line.key, { unitPrice: e.target.value })}
+            placeholder="Unit price"
+          />
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            className="col-span-1"
+            onClick={() => onChange(lines.filter((candidate) => candidate.key !== line.key))}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" size="sm" variant="outline" onClick={() => onChange([...lines, newLine()])}>
+        <Plus className="h-4 w-4 mr-1" />
+        Add Line
+      </Button>
+    </div>
+  );
+}
+
 interface QuoteBuilderProps {
   leadId: string;
   leadTitle: string;
@@ -67,6 +190,49 @@ export function QuoteBuilder({
 
   const [deliverables, setDeliverables] = useState<string[]>(['']);
 
+  // Line-item pricing from the price book, optionally as good/better/best options
+  const [useLineItems, setUseLineItems] = useState(false);
+  const [useOptions, setUseOptions] = useState(false);
+  const [priceBook, setPriceBook] = useState<PriceBookOption[]>([]);
+  const [sharedLines, setSharedLines] = useState<DraftLine[]>([newLine()]);
+  const [options, setOptions] = useState<DraftOption[]>(defaultOptions);
+  const [taxRate, setTaxRate] = useState('0');
+
+  useEffect(() => {
+    if (!isOpen || !useLineItems || priceBook.length > 0) return;
+    fetch('/api/contractor/price-book')
+      .then((res) => (res.ok ? res.json() : { items: [] }))
+      .then((data) => setPriceBook(data.items))
+      .catch(() => setPriceBook([]));
+  }, [isOpen, useLineItems, priceBook.length]);
+
+  const updateOption = (tier: DraftOption['tier'], changes: Partial<DraftOption>) =>
+    setOptions((current) =>
+      current.map((option) => {
+        if (option.tier === tier) return { ...option, ...changes };
+        // Only one option can be recommended
+        return changes.recommended ? { ...option, recommended: false } : option;
+      })
+    );
+
+  const toLinePayload = (lines: DraftLine[]) =>
+    lines
+      .filter((line) => line.priceBookItemId || line.description.trim())
+      .map((line) => ({
+        priceBookItemId: line.priceBookItemId || null,
+        description: line.description,
+        quantity: Number(line.quantity),
+        unit: line.unit,
+        unitPrice: line.unitPrice === '' ? null : Number(line.unitPrice),
+      }));
+
+  // Preview only; the server prices line items from the price book
+  const totalLines = (lines: DraftLine[]) => {
+    const subtotal = lines.reduce((sum, line) => sum + lineTotal(line), 0);
+    const discount = Math.min(Number(formData.discount) || 0, subtotal);
+    return subtotal - discount + (subtotal - discount) * ((Number(taxRate) || 0) / 100);
+  };
+
   const addDeliverable = () => {
     setDeliverables([...deliverables, '']);
   };
@@ -82,6 +248,10 @@ export function QuoteBuilder({
   };
 
   const calculateTotal = () => {
+    if (useLineItems) {
+      const recommended = options.find((option) => option.recommended) ?? options[0];
+      return totalLines(useOptions ? [...sharedLines, ...recommended.lines] : sharedLines);
+    }
     const base = Number(formData.basePrice) || 0;
     const discount = Number(formData.discount) || 0;
     const tax = Number(formData.tax) || 0;
@@ -91,7 +261,7 @@ export function QuoteBuilder({
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!formData.title || !formData.basePrice) {
+    if (!formData.title || (!useLineItems && !formData.basePrice)) {
       toast({
         title: 'Missing Fields',
         description: 'Please provide a title and base price',
@@ -100,6 +270,28 @@ export function QuoteBuilder({
       return;
     }
 
+    const pricing = useLineItems
+      ? {
+          lineItems: toLinePayload(sharedLines),
+          options: useOptions
+            ? options.map((option) => ({
+                tier: option.tier,
+                name: option.name,
+                description: option.description || null,
+                recommended: option.recommended,
+                lineItems: toLinePayload(option.lines),
+              }))
+            : undefined,
+          discount: Number(formData.discount),
+          taxRate: Number(taxRate),
+        }
+      : {
+          basePrice: Number(formData.basePrice),
+          discount: Number(formData.discount),
+          tax: Number(formData.tax),
+          totalPrice: calculateTotal(),
+        };
+
     setIsSubmitting(true);
 
     try {
@@ -112,10 +304,7 @@ export function QuoteBuilder({
           description: formData.description,
           projectScope: formData.projectScope,
           deliverables: deliverables.filter((d) => d.trim()),
-          basePrice: Number(formData.basePrice),
-          discount: Number(formData.discount),
-          tax: Number(formData.tax),
-          totalPrice: calculateTotal(),
+          ...pricing,
           estimatedHours: formData.estimatedHours ? Number(formData.estimatedHours) : null,
           hourlyRate: formData.hourlyRate ? Number(formData.hourlyRate) : null,
           startDate: formData.startDate || null,
@@ -258,6 +447,91 @@ export function QuoteBuilder({
               </CardContent>
             </Card>
 
+            {/* Line Items */}
+            <Card className="bg-gradient-to-br from-violet-50 to-fuchsia-50 border-violet-200">
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <ListChecks className="h-5 w-5 text-violet-600" />
+                    Line Items
+                  </CardTitle>
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={useLineItems}
+                      onChange={(e) => setUseLineItems(e.target.checked)}
+                    />
+                    Price from price book
+                  </label>
+                </div>
+              </CardHeader>
+              {useLineItems && (
+                <CardContent className="space-y-4">
+                  <div>
+                    <p className="text-sm font-medium text-slate-700 mb-2">
+                      {useOptions ? 'Included in every option' : 'Lines'}
+                    </p>
+                    <LineItemsEditor lines={sharedLines} priceBook={priceBook} onChange={setSharedLines} />
+                  </div>
+
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={useOptions}
+                      onChange={(e) => setUseOptions(e.target.checked)}
+                    />
+                    Offer good / better / best options
+                  </label>
+
+                  {useOptions &&
+                    options.map((option) => (
+                      <div key={option.tier} className="rounded-lg border border-violet-200 bg-white p-3 space-y-2">
+                        <div className="flex items-center gap-2">
+                          <Input
+                            value={option.name}
+                            onChange={(e) => updateOption(option.tier, { name: e.target.value })}
+                            className="max-w-[200px] font-semibold"
+                          />
+                          <Input
+                            value={option.description}
+                            onChange={(e) => updateOption(option.tier, { description: e.target.value })}
+                            placeholder="What sets this option apart"
+                          />
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant={option.recommended ? 'default' : 'outline'}
+                            onClick={() => updateOption(option.tier, { recommended: true })}
+                          >
+                            <Star className="h-4 w-4 mr-1" />
+                            {option.recommended ? 'Recommended' : 'Recommend'}
+                          </Button>
+                        </div>
+                        <LineItemsEditor
+                          lines={option.lines}
+                          priceBook={priceBook}
+                          onChange={(lines) => updateOption(option.tier, { lines })}
+                        />
+                        <p className="text-right text-sm text-slate-600">
+                          Option total: <span className="font-semibold">{formatCurrency(totalLines([...sharedLines, ...option.lines]))}</span>
+                        </p>
+                      </div>
+                    ))}
+
+                  <div className="max-w-[200px]">
+                    <Label htmlFor="taxRate">Tax Rate (%)</Label>
+                    <Input
+                      id="taxRate"
+                      type="number"
+                      step="0.01"
+                      value={taxRate}
+                      onChange={(e) => setTaxRate(e.target.value)}
+                    />
+                  </div>
+                </CardContent>
+              )}
+            </Card>
+
             {/* Pricing */}
             <Card className="bg-gradient-to-br from-emerald-50 to-teal-50 border-emerald-200">
               <CardHeader>
@@ -268,18 +542,20 @@ export function QuoteBuilder({
               </CardHeader>
               <CardContent className="space-y-4">
                 <div className="grid md:grid-cols-2 gap-4">
-                  <div>
-                    <Label htmlFor="basePrice">Base Price *</Label>
-                    <Input
-                      id="basePrice"
-                      type="number"
-                      step="0.01"
-                      value={formData.basePrice}
-                      onChange={(e) => setFormData({ ...formData, basePrice: e.target.value })}
-                      placeholder="0.00"
-                      required
-                    />
-                  </div>
+                  {!useLineItems && (
+                    <div>
+                      <Label htmlFor="basePrice">Base Price *</Label>
+                      <Input
+                        id="basePrice"
+                        type="number"
+                        step="0.01"
+                        value={formData.basePrice}
+                        onChange={(e) => setFormData({ ...formData, basePrice: e.target.value })}
+                        placeholder="0.00"
+                        required
+                      />
+                    </div>
+                  )}
 
                   <div>
                     <Label htmlFor="discount">Discount</Label>
@@ -293,17 +569,19 @@ export function QuoteBuilder({
                     />
                   </div>
 
-                  <div>
-                    <Label htmlFor="tax">Tax</Label>
-                    <Input
-                      id="tax"
-                      type="number"
-                      step="0.01"
-                      value={formData.tax}
-                      onChange={(e) => setFormData({ ...formData, tax: e.target.value })}
-                      placeholder="0.00"
-                    />
-                  </div>
+                  {!useLineItems && (
+                    <div>
+                      <Label htmlFor="tax">Tax</Label>
+                      <Input
+                        id="tax"
+                        type="number"
+                        step="0.01"
+                        value={formData.tax}
+                        onChange={(e) => setFormData({ ...formData, tax: e.target.value })}
+                        placeholder="0.00"
+                      />
+                    </div>
+                  )}
 
                   <div>
                     <Label htmlFor="estimatedHours">Estimated Hours</Label>
@@ -332,7 +610,9 @@ export function QuoteBuilder({
 
                 <div className="bg-white rounded-lg p-4 border-2 border-emerald-300">
                   <div className="flex items-center justify-between">
-                    <span className="text-lg font-semibold text-slate-900">Total Quote</span>
+                    <span className="text-lg font-semibold text-slate-900">
+                      {useLineItems && useOptions ? 'Recommended Option' : 'Total Quote'}
+                    </span>
                     <span className="text-3xl font-bold text-emerald-900">
                       {formatCurrency(total)}
                     </span>
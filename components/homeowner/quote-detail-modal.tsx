@@ -22,6 +22,28 @@ import { useRouter } from 'next/navigation';
 import { toast } from '@/hooks/use-toast';
 import { CounterOfferForm } from './counter-offer-form';
 
+interface QuoteLine {
+  id: string;
+  description: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  total: number;
+}
+
+interface QuoteOption {
+  id: string;
+  tier: string;
+  name: string;
+  description: string | null;
+  recommended: boolean;
+  subtotal: number;
+  discount: number;
+  tax: number;
+  total: number;
+  lineItems: QuoteLine[];
+}
+
 interface QuoteDetailModalProps {
   quote: any;
   open: boolean;
@@ -35,6 +57,13 @@ export function QuoteDetailModal({ quote, open, onOpenChange, onQuoteUpdated }:
   const [isRejecting, setIsRejecting] = useState(false);
   const [showCounterOffer, setShowCounterOffer] = useState(false);
 
+  const options: QuoteOption[] = quote.options ?? [];
+  const sharedLines: QuoteLine[] = quote.lineItems ?? [];
+  const [selectedOptionId, setSelectedOptionId] = useState<string | null>(
+    quote.selectedOptionId ?? options.find((option) => option.recommended)?.id ?? null
+  );
+  const selectedOption = options.find((option) => option.id === selectedOptionId) ?? null;
+
   // Mark as viewed when opened
   const markAsViewed = async () => {
     if (quote.status === 'pending' && !quote.viewedAt) {
@@ -54,10 +83,21 @@ export function QuoteDetailModal({ quote, open, onOpenChange, onQuoteUpdated }:
   }
 
   const handleAccept = async () => {
+    if (options.length > 0 && !selectedOption) {
+      toast({
+        title: 'Choose an option',
+        description: 'Pick the option you want before accepting the quote.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
     setIsAccepting(true);
     try {
       const response = await fetch(`/api/homeowner/quotes/${quote.id}/accept`, {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ optionId: selectedOption?.id }),
       });
 
       if (!response.ok) {
@@ -211,33 +251,97 @@ export function QuoteDetailModal({ quote, open, onOpenChange, onQuoteUpdated }:
             </div>
           </div>
 
+          {/* Options */}
+          {options.length > 0 && (
+            <div>
+              <h3 className="font-semibold text-lg mb-3">Choose an Option</h3>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                {options.map((option) => {
+                  const isSelected = option.id === selectedOptionId;
+                  return (
+                    <button
+                      key={option.id}
+                      type="button"
+                      disabled={!canAccept}
+                      onClick={() => setSelectedOptionId(option.id)}
+                      className={`text-left rounded-lg border-2 p-4 transition-colors ${
+                        isSelected ? 'border-emerald-500 bg-emerald-50' : 'border-slate-200 hover:border-emerald-300'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-semibold">{option.name}</span>
+                        {option.recommended && <Badge variant="secondary">Recommended</Badge>}
+                      </div>
+                      {option.description && (
+                        <p className="text-sm text-muted-foreground mt-1">{option.description}</p>
+                      )}
+                      <ul className="mt-3 space-y-1 text-sm">
+                        {option.lineItems.map((line) => (
+                          <li key={line.id} className="flex justify-between gap-2">
+                            <span>
+                              {line.description}
+                              {line.quantity !== 1 && ` × ${line.quantity} ${line.unit}`}
+                            </span>
+                            <span className="text-muted-foreground">${line.total.toFixed(2)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                      <p className="text-xl font-bold text-emerald-600 mt-3">${option.total.toFixed(2)}</p>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {/* Line Items */}
+          {sharedLines.length > 0 && (
+            <div>
+              <h3 className="font-semibold text-lg mb-3">
+                {options.length > 0 ? 'Included with Every Option' : 'Line Items'}
+              </h3>
+              <div className="border border-slate-200 rounded-lg divide-y">
+                {sharedLines.map((line) => (
+                  <div key={line.id} className="flex justify-between gap-4 p-3 text-sm">
+                    <span>{line.description}</span>
+                    <span className="text-muted-foreground whitespace-nowrap">
+                      {line.quantity} {line.unit} × ${line.unitPrice.toFixed(2)} = ${line.total.toFixed(2)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Pricing */}
           <div className="bg-gradient-to-r from-emerald-50 via-teal-50 to-cyan-50 border-2 border-emerald-100 rounded-lg p-6">
             <div className="flex items-center gap-2 mb-4">
               <DollarSign className="h-5 w-5 text-emerald-600" />
-              <h3 className="font-semibold text-lg">Pricing</h3>
+              <h3 className="font-semibold text-lg">
+                {selectedOption ? `Pricing · ${selectedOption.name}` : 'Pricing'}
+              </h3>
             </div>
             <div className="space-y-2">
               <div className="flex justify-between">
                 <span className="text-muted-foreground">Base Price</span>
-                <span className="font-medium">${quote.basePrice.toFixed(2)}</span>
+                <span className="font-medium">${Number(selectedOption?.subtotal ?? quote.basePrice).toFixed(2)}</span>
               </div>
-              {quote.discount > 0 && (
+              {Number(selectedOption?.discount ?? quote.discount) > 0 && (
                 <div className="flex justify-between text-green-600">
                   <span>Discount</span>
-                  <span>-${quote.discount.toFixed(2)}</span>
+                  <span>-${Number(selectedOption?.discount ?? quote.discount).toFixed(2)}</span>
                 </div>
               )}
-              {quote.tax > 0 && (
+              {Number(selectedOption?.tax ?? quote.tax) > 0 && (
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">Tax</span>
-                  <span className="font-medium">${quote.tax.toFixed(2)}</span>
+                  <span className="font-medium">${Number(selectedOption?.tax ?? quote.tax).toFixed(2)}</span>
                 </div>
               )}
               <Separator />
               <div className="flex justify-between text-xl font-bold">
                 <span>Total</span>
-                <span className="text-emerald-600">${quote.totalPrice.toFixed(2)}</span>
+                <span className="text-emerald-600">${Number(selectedOption?.total ?? quote.totalPrice).toFixed(2)}</span>
               </div>
             </div>
           </div>
@@ -0,0 +1,260 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Check, Moon, Inbox } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+type Channel = 'in_app' | 'email' | 'sms' | 'push';
+type Matrix = Record<string, Record<Channel, boolean>>;
+
+const EVENTS = [
+  { key: 'payment', label: 'Payments & rent' },
+  { key: 'maintenance', label: 'Maintenance' },
+  { key: 'application', label: 'Applications' },
+  { key: 'message', label: 'Messages' },
+  { key: 'lease', label: 'Leases' },
+  { key: 'work_order', label: 'Work orders' },
+];
+
+const CHANNELS: { key: Channel; label: string }[] = [
+  { key: 'in_app', label: 'In-app' },
+  { key: 'email', label: 'Email' },
+  { key: 'sms', label: 'SMS' },
+  { key: 'push', label: 'Push' },
+];
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const formatHour = (hour: number) => `${hour % 12 || 12}:00 ${hour < 12 ? 'AM' : 'PM'}`;
+
+interface NotificationDeliverySettingsProps {
+  className?: string;
+}
+
+/**
+ * Per-event channel matrix, quiet hours and digest settings for the signed-in
+ * user, saved through /api/user/notification-preferences.
+ */
+export function NotificationDeliverySettings({ className }: NotificationDeliverySettingsProps) {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [matrix, setMatrix] = useState<Matrix>({});
+  const [pushDevices, setPushDevices] = useState(0);
+  const [timezone, setTimezone] = useState('');
+  const [quietHoursEnabled, setQuietHoursEnabled] = useState(false);
+  const [quietHoursStart, setQuietHoursStart] = useState('21:00');
+  const [quietHoursEnd, setQuietHoursEnd] = useState('07:00');
+  const [digestMode, setDigestMode] = useState('off');
+  const [digestHour, setDigestHour] = useState(8);
+  const [digestDayOfWeek, setDigestDayOfWeek] = useState(1);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const res = await fetch('/api/user/notification-preferences');
+      if (res.ok) {
+        const data = await res.json();
+        setMatrix(data.matrix ?? {});
+        setPushDevices(data.pushDevices ?? 0);
+        setTimezone(data.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone);
+        setQuietHoursEnabled(!!data.quietHoursStart);
+        if (data.quietHoursStart) setQuietHoursStart(data.quietHoursStart);
+        if (data.quietHoursEnd) setQuietHoursEnd(data.quietHoursEnd);
+        setDigestMode(data.digestMode ?? 'off');
+        setDigestHour(data.digestHour ?? 8);
+        setDigestDayOfWeek(data.digestDayOfWeek ?? 1);
+      }
+    } catch (error) {
+      console.error('Failed to load notification settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggle = (event: string, channel: Channel, checked: boolean) => {
+    setMatrix((prev) => ({ ...prev, [event]: { ...prev[event], [channel]: checked } }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/user/notification-preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          matrix,
+          timezone,
+          quietHoursStart: quietHoursEnabled ? quietHoursStart : null,
+          quietHoursEnd: quietHoursEnabled ? quietHoursEnd : null,
+          digestMode,
+          digestHour,
+          digestDayOfWeek,
+        }),
+      });
+
+      if (res.ok) {
+        toast({ title: 'Notification settings saved' });
+      } else {
+        const data = await res.json().catch(() => ({}));
+        toast({ title: 'Failed to save settings', description: data.message, variant: 'destructive' });
+      }
+    } catch {
+      toast({ title: 'Failed to save settings', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      {/* Event x channel matrix */}
+      <div className="overflow-x-auto rounded-lg border">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b bg-muted/40">
+              <th className="px-3 py-2 text-left font-medium">Event</th>
+              {CHANNELS.map((channel) => (
+                <th key={channel.key} className="px-3 py-2 text-center font-medium">
+                  {channel.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {EVENTS.map((event) => (
+              <tr key={event.key} className="border-b last:border-0">
+                <td className="px-3 py-2">{event.label}</td>
+                {CHANNELS.map((channel) => (
+                  <td key={channel.key} className="px-3 py-2 text-center">
+                    <Checkbox
+                      checked={!!matrix[event.key]?.[channel.key]}
+                      onCheckedChange={(checked) => toggle(event.key, channel.key, checked === true)}
+                      aria-label={`${event.label} ${channel.label}`}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {pushDevices === 0 && (
+        <p className="text-xs text-muted-foreground">
+          Push notifications need the mobile app — sign in there to register this account.
+        </p>
+      )}
+
+      <div className="max-w-xs">
+        <Label htmlFor="timezone" className="text-xs">Your timezone</Label>
+        <Input id="timezone" value={timezone} onChange={(e) => setTimezone(e.target.value)} className="h-9 text-sm mt-1" placeholder="America/Chicago" />
+        <p className="text-[10px] text-muted-foreground mt-1">Quiet hours and digest times use this timezone</p>
+      </div>
+
+      {/* Quiet hours */}
+      <div className="space-y-3 rounded-lg border p-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Moon className="h-4 w-4 text-indigo-500" />
+            <div>
+              <p className="text-sm font-medium">Quiet hours</p>
+              <p className="text-xs text-muted-foreground">Hold email, SMS and push until quiet hours end. Urgent alerts still go out.</p>
+            </div>
+          </div>
+          <Switch checked={quietHoursEnabled} onCheckedChange={setQuietHoursEnabled} />
+        </div>
+        {quietHoursEnabled && (
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div>
+              <Label htmlFor="quietHoursStart" className="text-xs">From</Label>
+              <Input id="quietHoursStart" type="time" value={quietHoursStart} onChange={(e) => setQuietHoursStart(e.target.value)} className="h-9 text-sm mt-1" />
+            </div>
+            <div>
+              <Label htmlFor="quietHoursEnd" className="text-xs">Until</Label>
+              <Input id="quietHoursEnd" type="time" value={quietHoursEnd} onChange={(e) => setQuietHoursEnd(e.target.value)} className="h-9 text-sm mt-1" />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Digest */}
+      <div className="space-y-3 rounded-lg border p-4">
+        <div className="flex items-center gap-2">
+          <Inbox className="h-4 w-4 text-emerald-500" />
+          <div>
+            <p className="text-sm font-medium">Email digest</p>
+            <p className="text-xs text-muted-foreground">Bundle notification emails into one summary instead of one each. Urgent alerts still go out right away.</p>
+          </div>
+        </div>
+        <div className="grid gap-3 sm:grid-cols-3">
+          <div>
+            <Label className="text-xs">Frequency</Label>
+            <Select value={digestMode} onValueChange={setDigestMode}>
+              <SelectTrigger className="h-9 text-sm mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="off">Off — send right away</SelectItem>
+                <SelectItem value="daily">Daily</SelectItem>
+                <SelectItem value="weekly">Weekly</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {digestMode !== 'off' && (
+            <div>
+              <Label className="text-xs">Send at</Label>
+              <Select value={String(digestHour)} onValueChange={(value) => setDigestHour(Number(value))}>
+                <SelectTrigger className="h-9 text-sm mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: 24 }, (_, hour) => (
+                    <SelectItem key={hour} value={String(hour)}>{formatHour(hour)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {digestMode === 'weekly' && (
+            <div>
+              <Label className="text-xs">On</Label>
+              <Select value={String(digestDayOfWeek)} onValueChange={(value) => setDigestDayOfWeek(Number(value))}>
+                <SelectTrigger className="h-9 text-sm mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEEKDAYS.map((day, index) => (
+                    <SelectItem key={day} value={String(index)}>{day}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <Button onClick={handleSave} disabled={saving} size="sm" className="w-full sm:w-auto">
+        {saving ? <Loader2 className="h-3.5 w-3.5 animate-spin mr-1.5" /> : <Check className="h-3.5 w-3.5 mr-1.5" />}
+        Save Delivery Settings
+      </Button>
+    </div>
+  );
+}
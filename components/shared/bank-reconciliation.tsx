@@ -0,0 +1,600 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Ban, Check, Download, Link2, Loader2, Lock, Plus, RotateCcw, Sparkles, Upload, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { cn, formatCurrency } from '@/lib/utils';
+
+type LineStatus = 'unmatched' | 'suggested' | 'matched' | 'excluded';
+
+interface Candidate {
+  type: string;
+  id: string;
+  label: string;
+  amount: number;
+  date: string;
+  confidence: number;
+}
+
+interface StatementLine {
+  id: string;
+  postedAt: string;
+  amount: number;
+  description: string;
+  reference: string | null;
+  status: LineStatus;
+  matchType: string | null;
+  matchLabel: string | null;
+  matchMethod: string | null;
+  matchConfidence: number | null;
+  suggestions: Candidate[] | null;
+  note: string | null;
+  periodId: string | null;
+}
+
+interface Period {
+  id: string;
+  periodStart: string;
+  periodEnd: string;
+  closingBalance: number;
+  reportHash: string;
+}
+
+interface Account {
+  key: string;
+  label: string;
+  open: Record<LineStatus, number>;
+  periods: Period[];
+}
+
+const THEMES = {
+  dark: {
+    panel: 'rounded-xl border border-white/10 bg-slate-900/60 p-4',
+    heading: 'text-white',
+    muted: 'text-slate-400',
+    subtle: 'text-slate-500',
+    input: 'bg-slate-900/60 border-white/10 text-white',
+    select: 'rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-white',
+    row: 'border-white/5',
+    tab: 'text-slate-400 hover:text-white',
+    tabActive: 'bg-white/10 text-white',
+    expanded: 'bg-white/5',
+  },
+  light: {
+    panel: 'rounded-xl border-2 border-gray-200 bg-white p-4 shadow-sm',
+    heading: 'text-gray-900',
+    muted: 'text-gray-500',
+    subtle: 'text-gray-400',
+    input: 'border-2 border-gray-200',
+    select: 'rounded-lg border-2 border-gray-200 bg-white px-3 py-2 text-sm',
+    row: 'border-gray-100',
+    tab: 'text-gray-500 hover:text-gray-900',
+    tabActive: 'bg-gray-100 text-gray-900',
+    expanded: 'bg-gray-50',
+  },
+};
+
+const STATUS_TABS: { value: LineStatus | 'all'; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'unmatched', label: 'Unmatched' },
+  { value: 'suggested', label: 'Suggested' },
+  { value: 'matched', label: 'Matched' },
+  { value: 'excluded', label: 'Excluded' },
+];
+
+const STATUS_STYLES: Record<LineStatus, string> = {
+  unmatched: 'bg-red-500/15 text-red-500',
+  suggested: 'bg-amber-500/15 text-amber-500',
+  matched: 'bg-emerald-500/15 text-emerald-500',
+  excluded: 'bg-slate-500/15 text-slate-500',
+};
+
+interface BankReconciliationProps {
+  /** e.g. /api/landlord/reconciliation */
+  apiBase: string;
+  theme?: keyof typeof THEMES;
+  /** Expense categories offered when creating an expense from a withdrawal */
+  expenseCategories: { value: string; label: string }[];
+}
+
+export function BankReconciliation({ apiBase, theme = 'dark', expenseCategories }: BankReconciliationProps) {
+  const { toast } = useToast();
+  const t = THEMES[theme];
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [accountKey, setAccountKey] = useState('');
+  const [lines, setLines] = useState<StatementLine[]>([]);
+  const [statusFilter, setStatusFilter] = useState<LineStatus | 'all'>('all');
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [expanded, setExpanded] = useState<{ lineId: string; mode: 'match' | 'exclude' | 'expense' } | null>(null);
+  const [candidates, setCandidates] = useState<Candidate[] | null>(null);
+  const [note, setNote] = useState('');
+  const [expense, setExpense] = useState({ category: expenseCategories[0]?.value ?? '', vendor: '' });
+  const [close, setClose] = useState({ periodStart: '', periodEnd: '', closingBalance: '', openingBalance: '' });
+
+  const fail = useCallback(
+    (error: unknown, fallback: string) =>
+      toast({
+        title: 'Error',
+        description: error instanceof Error && error.message ? error.message : fallback,
+        variant: 'destructive',
+      }),
+    [toast]
+  );
+
+  const load = useCallback(async () => {
+    try {
+      const params = new URLSearchParams();
+      if (accountKey) params.set('accountKey', accountKey);
+      if (accountKey && statusFilter !== 'all') params.set('status', statusFilter);
+      const res = await fetch(`${apiBase}?${params}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message || data.error);
+      setAccounts(data.accounts);
+      setLines(data.lines ?? []);
+      if (!accountKey && data.accounts[0]) setAccountKey(data.accounts[0].key);
+    } catch (error) {
+      fail(error, 'Failed to load reconciliation');
+    } finally {
+      setLoading(false);
+    }
+  }, [apiBase, accountKey, statusFilter, fail]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const request = async (key: string, url: string, init: RequestInit, fallback: string) => {
+    setBusy(key);
+    try {
+      const res = await fetch(url, init);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message || data.error);
+      return data;
+    } catch (error) {
+      fail(error, fallback);
+      return null;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const importStatement = async () => {
+    if (!file || !accountKey) return;
+    const body = new FormData();
+    body.set('file', file);
+    body.set('accountKey', accountKey);
+    const data = await request('import', apiBase, { method: 'POST', body }, 'Failed to import statement');
+    if (!data) return;
+    setFile(null);
+    const skipped = [data.duplicates && `${data.duplicates} already imported`, data.locked && `${data.locked} in closed periods`]
+      .filter(Boolean)
+      .join(', ');
+    toast({
+      title: `Imported ${data.imported} line${data.imported === 1 ? '' : 's'}`,
+      description: `${data.matched} matched automatically, ${data.suggested} with suggestions${skipped ? `; skipped ${skipped}` : ''}.`,
+    });
+    load();
+  };
+
+  const autoMatch = async () => {
+    const data = await request(
+      'auto',
+      `${apiBase}/auto-match`,
+      { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ accountKey }) },
+      'Failed to match lines'
+    );
+    if (!data) return;
+    toast({ title: 'Matching complete', description: `${data.matched} matched, ${data.suggested} with suggestions.` });
+    load();
+  };
+
+  const updateLine = async (lineId: string, body: Record<string, unknown>) => {
+    const data = await request(
+      lineId,
+      `${apiBase}/lines/${lineId}`,
+      { method: 'PATCH', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) },
+      'Failed to update line'
+    );
+    if (!data) return;
+    setExpanded(null);
+    load();
+  };
+
+  const openPanel = async (lineId: string, mode: 'match' | 'exclude' | 'expense') => {
+    setExpanded({ lineId, mode });
+    setNote('');
+    if (mode !== 'match') return;
+    setCandidates(null);
+    const data = await request(`candidates:${lineId}`, `${apiBase}/lines/${lineId}`, {}, 'Failed to load candidates');
+    setCandidates(data?.candidates ?? []);
+  };
+
+  const account = accounts.find((candidate) => candidate.key === accountKey);
+  const lastPeriod = account?.periods[0];
+
+  const closePeriod = async () => {
+    const data = await request(
+      'close',
+      `${apiBase}/periods`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          accountKey,
+          periodStart: `${close.periodStart}T00:00:00.000Z`,
+          periodEnd: `${close.periodEnd}T00:00:00.000Z`,
+          closingBalance: close.closingBalance,
+          openingBalance: lastPeriod ? undefined : close.openingBalance,
+        }),
+      },
+      'Failed to close period'
+    );
+    if (!data) return;
+    setClose({ periodStart: '', periodEnd: '', closingBalance: '', openingBalance: '' });
+    toast({ title: 'Period closed', description: 'Its lines are now locked.' });
+    load();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-violet-400" />
+      </div>
+    );
+  }
+
+  if (accounts.length === 0) {
+    return (
+      <div className={cn(t.panel, 'text-center py-10')}>
+        <p className={cn('font-medium', t.heading)}>No bank accounts to reconcile</p>
+        <p className={cn('text-sm mt-1', t.muted)}>Connect a bank account first, then import its statements here.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className={cn(t.panel, 'flex flex-col lg:flex-row lg:items-end gap-3')}>
+        <label className={cn('flex-1 text-xs space-y-1', t.muted)}>
+          <span>Account</span>
+          <select value={accountKey} onChange={(e) => setAccountKey(e.target.value)} className={cn('w-full', t.select)}>
+            {accounts.map((option) => (
+              <option key={option.key} value={option.key}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={cn('text-xs space-y-1', t.muted)}>
+          <span>Statement (OFX, QFX or CSV)</span>
+          <Input
+            type="file"
+            accept=".ofx,.qfx,.csv,text/csv"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            className={t.input}
+          />
+        </label>
+        <Button onClick={importStatement} disabled={!file || busy !== null}>
+          {busy === 'import' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+          Import
+        </Button>
+        <Button variant="outline" onClick={autoMatch} disabled={busy !== null}>
+          {busy === 'auto' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Sparkles className="h-4 w-4 mr-2" />}
+          Auto-match
+        </Button>
+      </div>
+
+      <div className={t.panel}>
+        <div className="flex flex-wrap items-center gap-1 mb-3">
+          {STATUS_TABS.map((tab) => (
+            <button
+              key={tab.value}
+              type="button"
+              onClick={() => setStatusFilter(tab.value)}
+              className={cn('rounded-md px-3 py-1.5 text-sm', statusFilter === tab.value ? t.tabActive : t.tab)}
+            >
+              {tab.label}
+              {tab.value !== 'all' && account && account.open[tab.value] > 0 && (
+                <span className="ml-1 text-xs opacity-70">{account.open[tab.value]}</span>
+              )}
+            </button>
+          ))}
+        </div>
+
+        {lines.length === 0 ? (
+          <p className={cn('text-sm py-6 text-center', t.muted)}>No statement lines here yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className={cn('text-left text-xs', t.subtle)}>
+                  <th className="py-2 pr-3">Date</th>
+                  <th className="py-2 pr-3">Description</th>
+                  <th className="py-2 pr-3 text-right">Amount</th>
+                  <th className="py-2 pr-3">Status</th>
+                  <th className="py-2 pr-3">Matched to</th>
+                  <th className="py-2 text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lines.map((line) => {
+                  const locked = Boolean(line.periodId);
+                  const isExpanded = expanded?.lineId === line.id;
+                  return (
+                    <LineRows
+                      key={line.id}
+                      line={line}
+                      locked={locked}
+                      isExpanded={isExpanded}
+                      mode={isExpanded ? expanded!.mode : null}
+                      busy={busy}
+                      theme={t}
+                      candidates={candidates}
+                      note={note}
+                      setNote={setNote}
+                      expense={expense}
+                      setExpense={setExpense}
+                      expenseCategories={expenseCategories}
+                      onOpen={(mode) => openPanel(line.id, mode)}
+                      onCancel={() => setExpanded(null)}
+                      onUpdate={(body) => updateLine(line.id, body)}
+                    />
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className={cn(t.panel, 'space-y-3')}>
+        <div>
+          <h3 className={cn('font-semibold', t.heading)}>Close a period</h3>
+          <p className={cn('text-xs', t.muted)}>
+            {lastPeriod
+              ? `Closed through ${lastPeriod.periodEnd.slice(0, 10)} at ${formatCurrency(lastPeriod.closingBalance)}. Every line in the period must be matched or excluded.`
+              : 'Every line in the period must be matched or excluded, and the balances must tie out to the statement.'}
+          </p>
+        </div>
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-5 items-end">
+          <label className={cn('text-xs space-y-1', t.muted)}>
+            <span>Start</span>
+            <Input type="date" value={close.periodStart} onChange={(e) => setClose({ ...close, periodStart: e.target.value })} className={t.input} />
+          </label>
+          <label className={cn('text-xs space-y-1', t.muted)}>
+            <span>End</span>
+            <Input type="date" value={close.periodEnd} onChange={(e) => setClose({ ...close, periodEnd: e.target.value })} className={t.input} />
+          </label>
+          {!lastPeriod && (
+            <label className={cn('text-xs space-y-1', t.muted)}>
+              <span>Opening balance</span>
+              <Input
+                type="number"
+                step="0.01"
+                value={close.openingBalance}
+                onChange={(e) => setClose({ ...close, openingBalance: e.target.value })}
+                className={t.input}
+              />
+            </label>
+          )}
+          <label className={cn('text-xs space-y-1', t.muted)}>
+            <span>Statement closing balance</span>
+            <Input
+              type="number"
+              step="0.01"
+              value={close.closingBalance}
+              onChange={(e) => setClose({ ...close, closingBalance: e.target.value })}
+              className={t.input}
+            />
+          </label>
+          <Button
+            onClick={closePeriod}
+            disabled={busy !== null || !close.periodStart || !close.periodEnd || close.closingBalance === ''}
+          >
+            {busy === 'close' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Lock className="h-4 w-4 mr-2" />}
+            Close period
+          </Button>
+        </div>
+
+        {account && account.periods.length > 0 && (
+          <div className={cn('divide-y pt-2', t.row)}>
+            {account.periods.map((period) => (
+              <div key={period.id} className={cn('flex items-center gap-3 py-2 text-sm', t.row)}>
+                <span className={cn('flex-1', t.heading)}>
+                  {period.periodStart.slice(0, 10)} – {period.periodEnd.slice(0, 10)}
+                </span>
+                <span className={t.muted}>{formatCurrency(period.closingBalance)}</span>
+                <span className={cn('font-mono text-xs hidden md:inline', t.subtle)} title={period.reportHash}>
+                  {period.reportHash.slice(0, 12)}
+                </span>
+                <a href={`${apiBase}/periods/${period.id}?format=csv`} className="inline-flex items-center gap-1 text-violet-500 hover:underline">
+                  <Download className="h-4 w-4" /> Report
+                </a>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface LineRowsProps {
+  line: StatementLine;
+  locked: boolean;
+  isExpanded: boolean;
+  mode: 'match' | 'exclude' | 'expense' | null;
+  busy: string | null;
+  theme: (typeof THEMES)[keyof typeof THEMES];
+  candidates: Candidate[] | null;
+  note: string;
+  setNote: (note: string) => void;
+  expense: { category: string; vendor: string };
+  setExpense: (expense: { category: string; vendor: string }) => void;
+  expenseCategories: { value: string; label: string }[];
+  onOpen: (mode: 'match' | 'exclude' | 'expense') => void;
+  onCancel: () => void;
+  onUpdate: (body: Record<string, unknown>) => void;
+}
+
+function LineRows({
+  line,
+  locked,
+  isExpanded,
+  mode,
+  busy,
+  theme: t,
+  candidates,
+  note,
+  setNote,
+  expense,
+  setExpense,
+  expenseCategories,
+  onOpen,
+  onCancel,
+  onUpdate,
+}: LineRowsProps) {
+  const working = busy === line.id;
+  const suggestion = line.status === 'suggested' ? line.suggestions?.[0] : undefined;
+
+  return (
+    <>
+      <tr className={cn('border-t align-top', t.row)}>
+        <td className={cn('py-2 pr-3 whitespace-nowrap', t.muted)}>{line.postedAt.slice(0, 10)}</td>
+        <td className={cn('py-2 pr-3', t.heading)}>
+          {line.description}
+          {line.reference && <span className={cn('block text-xs', t.subtle)}>Ref {line.reference}</span>}
+          {line.note && <span className={cn('block text-xs italic', t.subtle)}>{line.note}</span>}
+        </td>
+        <td className={cn('py-2 pr-3 text-right whitespace-nowrap font-medium', line.amount < 0 ? 'text-red-500' : 'text-emerald-500')}>
+          {formatCurrency(line.amount)}
+        </td>
+        <td className="py-2 pr-3">
+          <span className={cn('inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs capitalize', STATUS_STYLES[line.status])}>
+            {locked && <Lock className="h-3 w-3" />}
+            {line.status}
+          </span>
+        </td>
+        <td className={cn('py-2 pr-3 text-xs', t.muted)}>
+          {line.matchLabel ?? (suggestion ? `${suggestion.label}?` : '—')}
+          {line.matchMethod && <span className={cn('block', t.subtle)}>{line.matchMethod}</span>}
+        </td>
+        <td className="py-2 text-right whitespace-nowrap">
+          {!locked && (
+            <div className="inline-flex gap-1">
+              {suggestion && (
+                <Button size="sm" variant="outline" disabled={busy !== null} title="Accept suggestion" onClick={() => onUpdate({ action: 'match', type: suggestion.type, id: suggestion.id })}>
+                  {working ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                </Button>
+              )}
+              {line.status === 'matched' && (
+                <Button size="sm" variant="outline" disabled={busy !== null} title="Unmatch" onClick={() => onUpdate({ action: 'unmatch' })}>
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+              {line.status === 'excluded' && (
+                <Button size="sm" variant="outline" disabled={busy !== null} title="Include again" onClick={() => onUpdate({ action: 'include' })}>
+                  <RotateCcw className="h-4 w-4" />
+                </Button>
+              )}
+              {(line.status === 'unmatched' || line.status === 'suggested') && (
+                <>
+                  <Button size="sm" variant="outline" disabled={busy !== null} title="Find a match" onClick={() => onOpen('match')}>
+                    <Link2 className="h-4 w-4" />
+                  </Button>
+                  {line.amount < 0 && (
+                    <Button size="sm" variant="outline" disabled={busy !== null} title="Create expense" onClick={() => onOpen('expense')}>
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button size="sm" variant="outline" disabled={busy !== null} title="Exclude" onClick={() => onOpen('exclude')}>
+                    <Ban className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+            </div>
+          )}
+        </td>
+      </tr>
+
+      {isExpanded && (
+        <tr className={t.expanded}>
+          <td colSpan={6} className="p-3">
+            {mode === 'match' &&
+              (candidates === null ? (
+                <Loader2 className="h-4 w-4 animate-spin text-violet-400" />
+              ) : candidates.length === 0 ? (
+                <p className={cn('text-sm', t.muted)}>Nothing in the books within 30 days matches this line.</p>
+              ) : (
+                <div className="space-y-1">
+                  {candidates.map((candidate) => (
+                    <div key={`${candidate.type}:${candidate.id}`} className="flex items-center gap-3 text-sm">
+                      <span className={cn('w-24', t.muted)}>{candidate.date.slice(0, 10)}</span>
+                      <span className={cn('flex-1', t.heading)}>{candidate.label}</span>
+                      <span className={Math.abs(candidate.amount - line.amount) < 0.005 ? 'text-emerald-500' : t.subtle}>
+                        {formatCurrency(candidate.amount)}
+                      </span>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={busy !== null || Math.abs(candidate.amount - line.amount) >= 0.005}
+                        onClick={() => onUpdate({ action: 'match', type: candidate.type, id: candidate.id })}
+                      >
+                        Match
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              ))}
+
+            {mode === 'exclude' && (
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  placeholder="Why isn't this in the books? (bank fee, transfer, ...)"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  className={cn('flex-1', t.input)}
+                />
+                <Button disabled={busy !== null} onClick={() => onUpdate({ action: 'exclude', note })}>
+                  Exclude
+                </Button>
+              </div>
+            )}
+
+            {mode === 'expense' && (
+              <div className="flex flex-col sm:flex-row gap-2">
+                <select value={expense.category} onChange={(e) => setExpense({ ...expense, category: e.target.value })} className={t.select}>
+                  {expenseCategories.map((category) => (
+                    <option key={category.value} value={category.value}>
+                      {category.label}
+                    </option>
+                  ))}
+                </select>
+                <Input
+                  placeholder="Vendor"
+                  value={expense.vendor}
+                  onChange={(e) => setExpense({ ...expense, vendor: e.target.value })}
+                  className={cn('flex-1', t.input)}
+                />
+                <Button
+                  disabled={busy !== null || !expense.category}
+                  onClick={() => onUpdate({ action: 'create_expense', category: expense.category, vendor: expense.vendor })}
+                >
+                  Create {formatCurrency(Math.abs(line.amount))} expense
+                </Button>
+              </div>
+            )}
+
+            <button type="button" onClick={onCancel} className={cn('mt-2 text-xs', t.subtle)}>
+              Cancel
+            </button>
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,134 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+export interface W9FormValues {
+  legalName: string;
+  businessName: string;
+  taxClassification: string;
+  exemptPayeeCode: string;
+  tinType: 'ssn' | 'ein';
+  tin: string;
+  address1: string;
+  address2: string;
+  city: string;
+  state: string;
+  postalCode: string;
+  certifiedByName: string;
+}
+
+export const EMPTY_W9_FORM: W9FormValues = {
+  legalName: '',
+  businessName: '',
+  taxClassification: 'individual',
+  exemptPayeeCode: '',
+  tinType: 'ssn',
+  tin: '',
+  address1: '',
+  address2: '',
+  city: '',
+  state: '',
+  postalCode: '',
+  certifiedByName: '',
+};
+
+const CLASSIFICATIONS: { value: string; label: string }[] = [
+  { value: 'individual', label: 'Individual / sole proprietor / single-member LLC' },
+  { value: 'c_corp', label: 'C corporation' },
+  { value: 's_corp', label: 'S corporation' },
+  { value: 'partnership', label: 'Partnership' },
+  { value: 'trust_estate', label: 'Trust / estate' },
+  { value: 'llc_c', label: 'LLC taxed as a C corporation' },
+  { value: 'llc_s', label: 'LLC taxed as an S corporation' },
+  { value: 'llc_p', label: 'LLC taxed as a partnership' },
+  { value: 'other', label: 'Other' },
+];
+
+const selectClass =
+  'w-full rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-white focus:border-violet-500 focus:outline-none';
+const inputClass = 'bg-slate-900 border-slate-700 text-white';
+const labelClass = 'text-xs text-slate-400';
+
+export function W9FormFields({
+  values,
+  onChange,
+  signerLabel = 'Signature (type full name)',
+}: {
+  values: W9FormValues;
+  onChange: (values: W9FormValues) => void;
+  signerLabel?: string;
+}) {
+  const set = <K extends keyof W9FormValues>(key: K, value: W9FormValues[K]) => onChange({ ...values, [key]: value });
+  const text = (key: keyof W9FormValues, label: string, props: React.ComponentProps<typeof Input> = {}) => (
+    <div>
+      <Label className={labelClass}>{label}</Label>
+      <Input
+        value={values[key]}
+        onChange={(e) => set(key, e.target.value)}
+        className={inputClass}
+        {...props}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-3 md:grid-cols-2">
+        {text('legalName', 'Name (as shown on your income tax return)', { required: true, maxLength: 40 })}
+        {text('businessName', 'Business name / disregarded entity name', { maxLength: 40 })}
+      </div>
+      <div className="grid gap-3 md:grid-cols-[2fr_1fr]">
+        <div>
+          <Label className={labelClass}>Federal tax classification</Label>
+          <select
+            value={values.taxClassification}
+            onChange={(e) => set('taxClassification', e.target.value)}
+            className={selectClass}
+          >
+            {CLASSIFICATIONS.map((c) => (
+              <option key={c.value} value={c.value}>{c.label}</option>
+            ))}
+          </select>
+        </div>
+        {text('exemptPayeeCode', 'Exempt payee code (if any)', { maxLength: 2 })}
+      </div>
+      <div className="grid gap-3 md:grid-cols-[1fr_2fr]">
+        <div>
+          <Label className={labelClass}>Taxpayer ID type</Label>
+          <select
+            value={values.tinType}
+            onChange={(e) => set('tinType', e.target.value as W9FormValues['tinType'])}
+            className={selectClass}
+          >
+            <option value="ssn">SSN / ITIN</option>
+            <option value="ein">EIN</option>
+          </select>
+        </div>
+        {text('tin', values.tinType === 'ein' ? 'Employer identification number' : 'Social security number', {
+          required: true,
+          autoComplete: 'off',
+          inputMode: 'numeric',
+          placeholder: values.tinType === 'ein' ? '12-3456789' : '123-45-6789',
+        })}
+      </div>
+      <div className="grid gap-3 md:grid-cols-2">
+        {text('address1', 'Address', { required: true, maxLength: 40 })}
+        {text('address2', 'Apt, suite (optional)', { maxLength: 40 })}
+      </div>
+      <div className="grid gap-3 grid-cols-[2fr_1fr_1fr]">
+        {text('city', 'City', { required: true, maxLength: 40 })}
+        {text('state', 'State', { required: true, maxLength: 2 })}
+        {text('postalCode', 'ZIP code', { required: true, maxLength: 10 })}
+      </div>
+      <div className="border-t border-slate-700 pt-4 space-y-2">
+        <p className="text-xs text-slate-400">
+          Under penalties of perjury, I certify that the number shown on this form is my correct taxpayer
+          identification number, that I am not subject to backup withholding, and that I am a U.S. citizen or
+          other U.S. person.
+        </p>
+        {text('certifiedByName', signerLabel, { required: true, maxLength: 80 })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import {
+  Body,
+  Container,
+  Head,
+  Heading,
+  Html,
+  Img,
+  Link,
+  Preview,
+  Section,
+  Text,
+  Button,
+  Hr,
+  Font,
+} from '@react-email/components';
+
+interface DigestItem {
+  type: string;
+  title: string;
+  message: string;
+  actionUrl?: string | null;
+  createdAt: string;
+}
+
+interface NotificationDigestEmailProps {
+  landlord: {
+    name: string;
+    logoUrl?: string;
+    subdomain: string;
+  };
+  recipientName: string;
+  title: string;
+  items: DigestItem[];
+  loginUrl: string;
+}
+
+const getTypeIcon = (type: string) => {
+  switch (type) {
+    case 'application':
+      return '📋';
+    case 'payment':
+    case 'reminder':
+      return '💳';
+    case 'maintenance':
+      return '🔧';
+    case 'message':
+      return '💬';
+    case 'lease':
+      return '📝';
+    default:
+      return '📬';
+  }
+};
+
+export default function NotificationDigestEmail({
+  landlord,
+  recipientName,
+  title,
+  items,
+  loginUrl,
+}: NotificationDigestEmailProps) {
+  const rootDomain = process.env.NEXT_PUBLIC_ROOT_DOMAIN || 'localhost:3000';
+  // For emails, use https in production, http for localhost
+  const protocol = rootDomain.includes('localhost') ? 'http' : 'https';
+  const landlordUrl = `${protocol}://${landlord.subdomain}.${rootDomain}`;
+
+  return (
+    <Html>
+      <Head>
+        <Font
+          fontFamily="Inter"
+          fallbackFontFamily="Arial"
+          webFont={{
+            url: 'https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700&display=swap',
+            format: 'woff2',
+          }}
+          fontWeight={400}
+          fontStyle="normal"
+        />
+      </Head>
+      <Preview>{title}</Preview>
+      <Body style={{ backgroundColor: '#f8fafc', fontFamily: 'Inter, Arial, sans-serif' }}>
+        <Container style={{ maxWidth: '600px', margin: '0 auto', padding: '20px' }}>
+          {/* Header */}
+          <Section style={{ textAlign: 'center', marginBottom: '30px' }}>
+            {landlord.logoUrl && (
+              <Img
+                src={landlord.logoUrl}
+                alt={`${landlord.name} logo`}
+                style={{ width: '120px', height: 'auto', marginBottom: '10px' }}
+              />
+            )}
+            <Heading style={{ fontSize: '24px', fontWeight: '600', color: '#1e293b', margin: '0' }}>
+              {landlord.name}
+            </Heading>
+            <Text style={{ fontSize: '14px', color: '#64748b', margin: '5px 0 0' }}>
+              Property Flow HQ
+            </Text>
+          </Section>
+
+          {/* Digest Card */}
+          <Section
+            style={{
+              backgroundColor: '#ffffff',
+              borderRadius: '16px',
+              padding: '30px',
+              boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -1px rgba(0, 0, 0, 0.06)',
+              marginBottom: '20px',
+            }}
+          >
+            <Heading style={{ fontSize: '20px', fontWeight: '600', color: '#1e293b', marginBottom: '8px' }}>
+              {title}
+            </Heading>
+            <Text style={{ fontSize: '14px', color: '#64748b', marginTop: '0', marginBottom: '24px' }}>
+              Hi {recipientName}, here is what happened since your last summary.
+            </Text>
+
+            {items.map((item, index) => (
+              <div
+                key={index}
+                style={{ borderTop: index === 0 ? 'none' : '1px solid #e2e8f0', padding: '12px 0' }}
+              >
+                <Text style={{ fontSize: '15px', fontWeight: '600', color: '#1e293b', margin: '0 0 4px' }}>
+                  {getTypeIcon(item.type)}{' '}
+                  {item.actionUrl ? (
+                    <Link href={item.actionUrl} style={{ color: '#1e293b', textDecoration: 'none' }}>
+                      {item.title}
+                    </Link>
+                  ) : (
+                    item.title
+                  )}
+                </Text>
+                <Text style={{ fontSize: '14px', color: '#475569', lineHeight: '1.5', margin: '0 0 4px' }}>
+                  {item.message}
+                </Text>
+                <Text style={{ fontSize: '12px', color: '#94a3b8', margin: '0' }}>{item.createdAt}</Text>
+              </div>
+            ))}
+
+            <div style={{ textAlign: 'center', marginTop: '24px' }}>
+              <Button
+                href={`${landlordUrl}/user/notifications`}
+                style={{
+                  backgroundColor: '#2563eb',
+                  color: '#ffffff',
+                  padding: '12px 24px',
+                  borderRadius: '8px',
+                  textDecoration: 'none',
+                  fontWeight: '500',
+                  display: 'inline-block',
+                }}
+              >
+                View All Notifications
+              </Button>
+            </div>
+          </Section>
+
+          {/* Footer */}
+          <Hr style={{ borderColor: '#e2e8f0', margin: '30px 0' }} />
+          <Section style={{ textAlign: 'center' }}>
+            <Text style={{ fontSize: '12px', color: '#64748b', marginBottom: '8px' }}>
+              You&apos;re receiving this summary because you turned on notification digests.
+            </Text>
+            <div style={{ marginTop: '12px' }}>
+              <Link
+                href={`${landlordUrl}/user/notifications`}
+                style={{ fontSize: '12px', color: '#2563eb', textDecoration: 'none', marginRight: '16px' }}
+              >
+                Notification Settings
+              </Link>
+              <Link href={loginUrl} style={{ fontSize: '12px', color: '#2563eb', textDecoration: 'none' }}>
+                Sign In
+              </Link>
+            </div>
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  );
+}
@@ -3,6 +3,7 @@
 import { headers } from 'next/headers';
 import { auth } from '@/auth';
 import { prisma } from '@/db/prisma';
+import { appendAuditEntry } from '@/lib/security/audit-chain';
 import { checkRateLimit } from '@/lib/security/rate-limiter';
 
 const ENTERPRISE_TIER = 'enterprise';
@@ -67,7 +68,7 @@ export async function redeemBetaCode(rawCode: string): Promise<RedeemResult> {
 
   // Rate limit: 5 attempts per 10 min per user. Keeps anyone from brute-forcing
   // the 25-spot cap by guessing variants.
-  const limit = checkRateLimit(`beta-redeem:${session.user.id}`, {
+  const limit = await checkRateLimit(`beta-redeem:${session.user.id}`, {
     windowMs: 10 * 60 * 1000,
     maxRequests: 5,
   });
@@ -223,26 +224,24 @@ export async function redeemBetaCode(rawCode: string): Promise<RedeemResult> {
       }
 
       // Audit log entry — the security dashboard surfaces these.
-      await tx.auditLog.create({
-        data: {
-          action: 'BETA_CODE_REDEEMED',
-          userId: session.user!.id,
-          landlordId: landlordId ?? undefined,
-          resourceType: 'beta_program',
-          resourceId: program.id,
-          metadata: JSON.stringify({
-            code: program.code,
-            audience,
-            freeMonths: program.freeMonths,
-            postFreeDiscountPercent: program.postFreeDiscountPercent,
-            postFreeDiscountMonths: program.postFreeDiscountMonths,
-            freePeriodEnd: freePeriodEnd.toISOString(),
-            discountPeriodEnd: discountPeriodEnd.toISOString(),
-          }),
-          ipAddress: ctx.ip ?? null,
-          userAgent: ctx.userAgent ?? null,
-          severity: 'INFO',
+      await appendAuditEntry(tx, {
+        action: 'BETA_CODE_REDEEMED',
+        userId: session.user!.id,
+        landlordId: landlordId ?? undefined,
+        resourceType: 'beta_program',
+        resourceId: program.id,
+        details: {
+          code: program.code,
+          audience,
+          freeMonths: program.freeMonths,
+          postFreeDiscountPercent: program.postFreeDiscountPercent,
+          postFreeDiscountMonths: program.postFreeDiscountMonths,
+          freePeriodEnd: freePeriodEnd.toISOString(),
+          discountPeriodEnd: discountPeriodEnd.toISOString(),
         },
+        ipAddress: ctx.ip ?? null,
+        userAgent: ctx.userAgent ?? null,
+        severity: 'INFO',
       });
     });
   } catch (error) {
@@ -409,26 +408,24 @@ export async function redeemBetaCodeForNewUser(args: {
         },
       });
 
-      await tx.auditLog.create({
-        data: {
-          action: 'BETA_CODE_REDEEMED_AT_SIGNUP',
-          userId,
-          landlordId: landlordId ?? undefined,
-          resourceType: 'beta_program',
-          resourceId: program.id,
-          metadata: JSON.stringify({
-            code: program.code,
-            audience,
-            freeMonths: program.freeMonths,
-            postFreeDiscountPercent: program.postFreeDiscountPercent,
-            postFreeDiscountMonths: program.postFreeDiscountMonths,
-            freePeriodEnd: freePeriodEnd.toISOString(),
-            discountPeriodEnd: discountPeriodEnd.toISOString(),
-          }),
-          ipAddress: ctx.ip ?? null,
-          userAgent: ctx.userAgent ?? null,
-          severity: 'INFO',
+      await appendAuditEntry(tx, {
+        action: 'BETA_CODE_REDEEMED_AT_SIGNUP',
+        userId,
+        landlordId: landlordId ?? undefined,
+        resourceType: 'beta_program',
+        resourceId: program.id,
+        details: {
+          code: program.code,
+          audience,
+          freeMonths: program.freeMonths,
+          postFreeDiscountPercent: program.postFreeDiscountPercent,
+          postFreeDiscountMonths: program.postFreeDiscountMonths,
+          freePeriodEnd: freePeriodEnd.toISOString(),
+          discountPeriodEnd: discountPeriodEnd.toISOString(),
         },
+        ipAddress: ctx.ip ?? null,
+        userAgent: ctx.userAgent ?? null,
+        severity: 'INFO',
       });
     });
   } catch (error) {
@@ -577,7 +574,7 @@ export async function submitBetaFeedback(
   }
 
   // Spam guard — 20 feedback items per hour per user is generous but bounded.
-  const limit = checkRateLimit(`beta-feedback:${session.user.id}`, {
+  const limit = await checkRateLimit(`beta-feedback:${session.user.id}`, {
     windowMs: 60 * 60 * 1000,
     maxRequests: 20,
   });
@@ -12,6 +12,7 @@ import { prisma } from '@/db/prisma';
 import { auth } from '@/auth';
 import { formatError } from '@/lib/utils';
 import { revalidatePath } from 'next/cache';
+import { syncLedgerSafely, syncRentPaymentLedger } from '@/lib/services/tenant-ledger.service';
 
 // ---- Cash provider stubs (replace with real provider when ready) ----
 const CASH_PAYMENT_FEE = 0.88; // $0.88 flat retail fee
@@ -403,6 +404,10 @@ export async function processCashPayment(
       },
     });
 
+    await syncLedgerSafely(`cash payment ${cashPayment.id}`, () =>
+      syncRentPaymentLedger(cashPayment.paymentIntentId)
+    );
+
     revalidatePath('/user/profile/rent-receipts');
     revalidatePath('/admin/products');
 
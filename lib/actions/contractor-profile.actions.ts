@@ -6,6 +6,7 @@ import { revalidatePath } from 'next/cache';
 import { z } from 'zod';
 import { randomUUID } from 'crypto';
 import { uploadToCloudinary } from '@/lib/cloudinary';
+import { syncContractorServiceAreas } from '@/lib/services/contractor-service-area.service';
 
 // Schema for profile updates
 const profileSchema = z.object({
@@ -18,6 +19,7 @@ const profileSchema = z.object({
   website: z.string().trim().url().optional().or(z.literal('')),
   baseCity: z.string().trim().max(100).optional(),
   baseState: z.string().trim().max(50).optional(),
+  baseZip: z.string().trim().regex(/^\d{5}$/, 'Enter a 5-digit ZIP code').optional(),
   serviceRadius: z.number().min(0).max(500).optional(),
   yearsExperience: z.number().min(0).max(100).optional(),
   licenseNumber: z.string().trim().max(100).optional(),
@@ -151,6 +153,13 @@ export async function getOrCreateContractorProfile() {
           lastActiveAt: new Date(),
         },
       });
+
+      try {
+        const { dbTriggers } = await import('@/lib/event-system');
+        await dbTriggers.onContractorProfileCreate(profile);
+      } catch (error) {
+        console.error('Failed to emit contractor profile event:', error);
+      }
     }
 
     return { success: true, profile };
@@ -164,6 +173,18 @@ export async function getOrCreateContractorProfile() {
 }
 
 
+/**
+ * Re-geocode the contractor's coverage after a location change. A geocoding
+ * failure shouldn't fail the save; search falls back to text matching.
+ */
+async function syncServiceAreasQuietly(contractorId: string) {
+  try {
+    await syncContractorServiceAreas(contractorId);
+  } catch (error) {
+    console.error('Failed to geocode contractor service areas:', error);
+  }
+}
+
 export async function updateContractorProfile(formData: FormData) {
   try {
     const session = await auth();
@@ -189,6 +210,7 @@ export async function updateContractorProfile(formData: FormData) {
       website: formData.get('website') as string || undefined,
       baseCity: formData.get('baseCity') as string || undefined,
       baseState: formData.get('baseState') as string || undefined,
+      baseZip: formData.get('baseZip') as string || undefined,
       serviceRadius: formData.get('serviceRadius') ? parseInt(formData.get('serviceRadius') as string) : undefined,
       yearsExperience: formData.get('yearsExperience') ? parseInt(formData.get('yearsExperience') as string) : undefined,
       licenseNumber: formData.get('licenseNumber') as string || undefined,
@@ -232,6 +254,7 @@ export async function updateContractorProfile(formData: FormData) {
       where: { id: profile.id },
       data: validated,
     });
+    await syncServiceAreasQuietly(profile.id);
 
     revalidatePath('/contractor/profile');
     revalidatePath(`/c/${validated.subdomain}`);
@@ -269,10 +292,11 @@ export async function updateContractorServiceAreas(serviceAreas: string[]) {
       return { success: false, message: 'Not authorized' };
     }
 
-    await prisma.contractorProfile.update({
+    const profile = await prisma.contractorProfile.update({
       where: { userId: session.user.id },
       data: { serviceAreas },
     });
+    await syncServiceAreasQuietly(profile.id);
 
     revalidatePath('/contractor/profile');
     return { success: true };
@@ -3,6 +3,7 @@
 import { prisma } from '@/db/prisma';
 import { auth } from '@/auth';
 import { getOrCreateCurrentLandlord } from './landlord.actions';
+import { syncMarketplaceListingQuietly } from '@/lib/services/marketplace-feed.service';
 
 // ============= CONTRACTOR CRUD =============
 
@@ -344,6 +345,7 @@ export async function createWorkOrder(data: {
         postingType: data.postingType || 'bid',
       },
     });
+    await syncMarketplaceListingQuietly('landlord', workOrder.id);
 
     // ✅ NEW: Emit event for work order creation (notifies contractors)
     try {
@@ -436,6 +438,7 @@ export async function updateWorkOrderStatus(data: {
         },
       }),
     ]);
+    await syncMarketplaceListingQuietly('landlord', data.id);
 
     return { success: true, message: 'Work order status updated' };
   } catch (error) {
@@ -506,6 +509,7 @@ export async function updateWorkOrder(id: string, data: {
       where: { id },
       data: updateData,
     });
+    await syncMarketplaceListingQuietly('landlord', id);
 
     return { success: true, message: 'Work order updated successfully' };
   } catch (error) {
@@ -562,6 +566,7 @@ export async function deleteWorkOrder(id: string) {
       prisma.workOrderBid.deleteMany({ where: { workOrderId: id } }),
       prisma.workOrder.delete({ where: { id } }),
     ]);
+    await syncMarketplaceListingQuietly('landlord', id);
 
     return { success: true, message: 'Work order deleted successfully' };
   } catch (error) {
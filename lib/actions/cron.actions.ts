@@ -1,7 +1,19 @@
 'use server';
 
 import { prisma } from '@/db/prisma';
+import type { Prisma } from '@prisma/client';
 import { formatError } from '../utils';
+import {
+  syncLedgerSafely,
+  syncRentPaymentLedger,
+  syncTenantInvoiceLedger,
+} from '@/lib/services/tenant-ledger.service';
+import {
+  describeProration,
+  getRecurringChargeProration,
+  normalizeProrationMethod,
+  sumProration,
+} from '@/lib/services/proration.service';
 
 // This function is designed to be called by a cron job
 export async function applyLateFees() {
@@ -70,7 +82,7 @@ export async function applyLateFees() {
 
         if (feeAmount > 0) {
           // Create a new invoice for the late fee
-          await prisma.tenantInvoice.create({
+          const invoice = await prisma.tenantInvoice.create({
             data: {
               propertyId: payment.lease.unit.propertyId,
               tenantId: payment.tenantId,
@@ -82,6 +94,9 @@ export async function applyLateFees() {
               status: 'pending',
             },
           });
+          await syncLedgerSafely(`late fee invoice ${invoice.id}`, () =>
+            syncTenantInvoiceLedger(invoice.id)
+          );
           feesApplied++;
         }
       }
@@ -98,7 +113,8 @@ export async function applyLateFees() {
 
 /**
  * Process recurring charges (e.g., monthly pet rent)
- * Creates RentPayment records for charges due today
+ * Creates RentPayment records for charges due today, prorated when the
+ * charge starts or ends partway through the period
  */
 export async function processRecurringCharges() {
   console.log('--- Starting Recurring Charges Processing Job ---');
@@ -126,6 +142,7 @@ export async function processRecurringCharges() {
             tenantId: true,
           },
         },
+        landlord: { select: { prorationMethod: true } },
       },
     });
 
@@ -161,21 +178,46 @@ export async function processRecurringCharges() {
         continue; // Already posted
       }
 
+      const segments = getRecurringChargeProration({
+        amount: Number(charge.amount),
+        dayOfMonthToPost: charge.dayOfMonthToPost,
+        startDate: charge.startDate,
+        endDate: charge.endDate,
+        lastPostedDate: charge.lastPostedDate,
+        postDate: today,
+        method: normalizeProrationMethod(charge.landlord.prorationMethod),
+      });
+      const prorated = segments.some((segment) => !segment.full) || segments.length > 1;
+      const amount = sumProration(segments);
+
       // Create the rent payment for this recurring charge
-      await prisma.rentPayment.create({
-        data: {
-          leaseId: charge.leaseId,
-          tenantId: charge.tenantId,
-          amount: charge.amount,
-          dueDate: today,
-          status: 'pending',
-          metadata: {
-            type: 'recurring_charge',
-            recurringChargeId: charge.id,
-            description: charge.description,
+      if (amount > 0) {
+        const rentPayment = await prisma.rentPayment.create({
+          data: {
+            leaseId: charge.leaseId,
+            tenantId: charge.tenantId,
+            amount,
+            dueDate: today,
+            status: 'pending',
+            metadata: prorated
+              ? {
+                  type: 'recurring_charge',
+                  recurringChargeId: charge.id,
+                  description: `${charge.description} (${describeProration(segments)})`,
+                  proration: segments as unknown as Prisma.InputJsonValue,
+                }
+              : {
+                  type: 'recurring_charge',
+                  recurringChargeId: charge.id,
+                  description: charge.description,
+                },
           },
-        },
-      });
+        });
+        await syncLedgerSafely(`recurring charge ${rentPayment.id}`, () =>
+          syncRentPaymentLedger(rentPayment.id)
+        );
+        chargesPosted++;
+      }
 
       // Update the next post date
       const nextMonth = new Date(today);
@@ -200,8 +242,6 @@ export async function processRecurringCharges() {
           },
         });
       }
-
-      chargesPosted++;
     }
 
     console.log(`--- Recurring Charges Job Complete. Posted ${chargesPosted} charges. ---`);
@@ -4,6 +4,7 @@ import { prisma } from '@/db/prisma';
 import { auth } from '@/auth';
 import { revalidatePath } from 'next/cache';
 import { getOrCreateCurrentLandlord } from './landlord.actions';
+import { syncLedgerSafely, syncRentPaymentLedger } from '@/lib/services/tenant-ledger.service';
 
 interface UploadDocumentParams {
   fileUrl: string;
@@ -352,6 +353,10 @@ export async function convertReceiptToPayment(documentId: string, receiptData: a
       },
     });
 
+    await syncLedgerSafely(`scanned receipt ${payment.id}`, () =>
+      syncRentPaymentLedger(payment.id)
+    );
+
     // Update document
     await prisma.scannedDocument.update({
       where: { id: documentId },
@@ -3,6 +3,7 @@
 import { prisma } from '@/db/prisma';
 import { auth } from '@/auth';
 import { formatError } from '../utils';
+import { syncMarketplaceListingQuietly } from '@/lib/services/marketplace-feed.service';
 import { uploadToCloudinary } from '@/lib/cloudinary';
 import { randomUUID } from 'crypto';
 
@@ -395,6 +396,7 @@ export async function createHomeownerWorkOrder(data: {
         address: homeowner.address, // Use homeowner's address by default
       },
     });
+    await syncMarketplaceListingQuietly('homeowner', workOrder.id);
 
     // ✅ NEW: Emit event for work order creation (notifies contractors)
     try {
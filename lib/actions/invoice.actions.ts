@@ -13,6 +13,7 @@ import { getOrCreateCurrentLandlord } from './landlord.actions';
 import { tenantInvoiceSchema } from '@/lib/validators';
 import { revalidatePath } from 'next/cache';
 import { NotificationService } from '@/lib/services/notification-service';
+import { syncLedgerSafely, syncTenantInvoiceLedger } from '@/lib/services/tenant-ledger.service';
 
 // ============= CREATE INVOICE =============
 
@@ -68,6 +69,8 @@ export async function createTenantInvoice(data: z.infer<typeof tenantInvoiceSche
       },
     });
 
+    await syncLedgerSafely(`invoice ${invoice.id}`, () => syncTenantInvoiceLedger(invoice.id));
+
     // Notify the tenant
     await NotificationService.createNotification({
       userId: validatedData.tenantId,
@@ -222,6 +225,8 @@ export async function cancelInvoice(invoiceId: string) {
       data: { status: 'cancelled' },
     });
 
+    await syncLedgerSafely(`invoice ${invoiceId}`, () => syncTenantInvoiceLedger(invoiceId));
+
     revalidatePath('/admin/invoices');
     revalidatePath('/user/profile/invoices');
 
@@ -268,6 +273,8 @@ export async function markInvoicePaid(invoiceId: string) {
       },
     });
 
+    await syncLedgerSafely(`invoice ${invoiceId}`, () => syncTenantInvoiceLedger(invoiceId));
+
     revalidatePath('/admin/invoices');
     revalidatePath('/user/profile/invoices');
 
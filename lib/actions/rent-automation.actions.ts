@@ -4,6 +4,8 @@ import { prisma } from '@/db/prisma';
 import { formatError } from '../utils';
 import { getOrCreateCurrentLandlord } from './landlord.actions';
 import { checkFeatureAccess } from './subscription.actions';
+import { syncLedgerSafely, syncRentPaymentLedger } from '@/lib/services/tenant-ledger.service';
+import { checkLandlordLateFeeSettings } from '@/lib/services/jurisdiction-rules.service';
 
 // Type-safe prisma access for models that may not exist yet
 const rentReminderSettingsModel = () => (prisma as any).rentReminderSettings;
@@ -180,6 +182,23 @@ export async function updateLateFeeSettings(data: {
       };
     }
 
+    // Check the merged settings against every jurisdiction the landlord operates in
+    const existing = await prisma.lateFeeSettings.findUnique({
+      where: { landlordId: landlordResult.landlord.id },
+    });
+    const merged = {
+      enabled: data.enabled ?? existing?.enabled ?? false,
+      gracePeriodDays: data.gracePeriodDays ?? existing?.gracePeriodDays ?? 5,
+      feeType: data.feeType ?? (existing?.feeType as 'flat' | 'percentage' | undefined) ?? 'flat',
+      feeAmount: data.feeAmount ?? (existing ? Number(existing.feeAmount) : 50),
+      maxFee: data.maxFee ?? (existing?.maxFee ? Number(existing.maxFee) : null),
+    };
+    const issues = merged.enabled ? await checkLandlordLateFeeSettings(landlordResult.landlord.id, merged) : [];
+    const errors = issues.filter((issue) => issue.severity === 'error');
+    if (errors.length > 0) {
+      return { success: false, message: errors.map((issue) => issue.message).join(' '), issues };
+    }
+
     let settings;
     try {
       settings = await lateFeeSettingsModel()?.upsert?.({
@@ -195,7 +214,12 @@ export async function updateLateFeeSettings(data: {
       return { success: false, message: 'Database migration required' };
     }
 
-    return { success: true, settings, message: 'Settings updated' };
+    return {
+      success: true,
+      settings,
+      message: 'Settings updated',
+      warnings: issues.map((issue) => issue.message),
+    };
   } catch (error) {
     return { success: false, message: formatError(error) };
   }
@@ -369,6 +393,7 @@ export async function processLateFees() {
               },
             },
           });
+          await syncLedgerSafely(`late fee ${payment.id}`, () => syncRentPaymentLedger(payment.id));
 
           // Notify tenant if enabled
           if (settings.notifyTenant) {
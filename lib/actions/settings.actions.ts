@@ -6,6 +6,7 @@ import { prisma } from '@/db/prisma';
 import { formatError } from '../utils';
 import { revalidatePath } from 'next/cache';
 import { getOrCreateCurrentLandlord } from './landlord.actions';
+import { checkLandlordLateFeeSettings } from '@/lib/services/jurisdiction-rules.service';
 
 const lateFeeSettingsSchema = z.object({
   enabled: z.boolean(),
@@ -80,6 +81,14 @@ export async function updateLateFeeSettings(data: z.infer<typeof lateFeeSettings
 
         const validatedData = lateFeeSettingsSchema.parse(data);
 
+        const issues = validatedData.enabled
+            ? await checkLandlordLateFeeSettings(landlordId, validatedData)
+            : [];
+        const errors = issues.filter((issue) => issue.severity === 'error');
+        if (errors.length > 0) {
+            return { success: false, message: errors.map((issue) => issue.message).join(' ') };
+        }
+
         await prisma.lateFeeSettings.upsert({
             where: { landlordId },
             create: {
@@ -91,7 +100,11 @@ export async function updateLateFeeSettings(data: z.infer<typeof lateFeeSettings
 
         revalidatePath('/admin/settings/financials');
 
-        return { success: true, message: 'Late fee settings updated successfully.' };
+        return {
+            success: true,
+            message: 'Late fee settings updated successfully.',
+            warnings: issues.map((issue) => issue.message),
+        };
 
     } catch (error) {
         return { success: false, message: formatError(error) };
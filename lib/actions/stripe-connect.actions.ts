@@ -10,6 +10,7 @@ import Stripe from 'stripe';
 import { PAYOUT_FEES, calculatePayoutFee, getEstimatedArrival, type PayoutType } from '@/lib/config/payout-fees';
 import { runPayoutSecurityChecks, logPayoutAttempt } from '@/lib/security/payout-security';
 import { logFinancialEvent } from '@/lib/security/audit-logger';
+import { diffRecords } from '@/lib/security/audit-chain';
 
 function getStripe() {
   const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
@@ -596,6 +597,13 @@ export async function createPayout(options: CreatePayoutOptions = {}): Promise<C
           fee,
           payoutMethodLast4: payoutMethod.last4,
         },
+        changes: {
+          ...diffRecords(payout, { status: 'paid', stripeTransferId: stripePayout.id }, ['status', 'stripeTransferId']),
+          walletAvailableBalance: {
+            from: Number(wallet.availableBalance),
+            to: Number(wallet.availableBalance) - requestedAmount,
+          },
+        },
       }).catch(console.error);
 
       return {
@@ -626,6 +634,7 @@ export async function createPayout(options: CreatePayoutOptions = {}): Promise<C
           errorCode: err.code,
           errorMessage: err.message,
         },
+        changes: diffRecords(payout, { status: 'failed' }, ['status']),
       }).catch(console.error);
       
       // Provide helpful error messages
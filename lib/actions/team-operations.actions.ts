@@ -21,6 +21,16 @@ import {
 } from '../validators';
 import { getOrCreateCurrentLandlord } from './landlord.actions';
 import { normalizeTier } from '../config/subscription-tiers';
+import {
+  getQuarterlyReport,
+  getTaxProfile,
+  getW2Report,
+  parseTaxProfileInput,
+  recordPaycheckTaxes,
+  saveTaxProfile,
+  toPayFrequency,
+  withholdPaycheckTaxes,
+} from '../services/payroll-tax.service';
 
 // Helper to check Enterprise tier access
 async function checkEnterpriseTierAccess(landlordId: string) {
@@ -853,16 +863,30 @@ export async function processPayroll(data: z.infer<typeof processPayrollSchema>)
       };
     }
 
+    const settings = await prisma.payrollSettings.findUnique({
+      where: { landlordId: landlord.id },
+      select: { payPeriodType: true },
+    });
+    const payFrequency = toPayFrequency(settings?.payPeriodType);
+    const payDate = new Date();
+
     // Process in transaction
     const payments = await prisma.$transaction(async (tx) => {
-      // Deduct from wallet
-      await tx.landlordWallet.update({
-        where: { landlordId: landlord.id },
-        data: { availableBalance: { decrement: totalNeeded } },
-      });
-
       const createdPayments = [];
+      let totalPaidOut = 0;
       for (const item of payrollItems) {
+        const employer = { landlordId: landlord.id };
+        const employee = { teamMemberId: item.teamMemberId };
+        const taxes = await withholdPaycheckTaxes(tx, {
+          employer,
+          employee,
+          grossPay: item.grossAmount,
+          payDate,
+          payFrequency,
+        });
+        const netAmount = taxes.netPay - item.platformFee;
+        totalPaidOut += netAmount;
+
         const payment = await tx.teamPayment.create({
           data: {
             landlordId: landlord.id,
@@ -870,14 +894,21 @@ export async function processPayroll(data: z.infer<typeof processPayrollSchema>)
             timesheetId: item.timesheetId,
             grossAmount: item.grossAmount,
             platformFee: item.platformFee,
-            netAmount: item.netAmount,
+            netAmount,
             regularPay: item.regularPay,
             overtimePay: item.overtimePay,
             status: 'completed',
-            paidAt: new Date(),
+            paidAt: payDate,
           },
         });
 
+        await recordPaycheckTaxes(tx, taxes, {
+          employer,
+          employee,
+          payDate,
+          paycheck: { teamPaymentId: payment.id },
+        });
+
         await tx.timesheet.update({
           where: { id: item.timesheetId },
           data: { status: 'paid' },
@@ -886,6 +917,12 @@ export async function processPayroll(data: z.infer<typeof processPayrollSchema>)
         createdPayments.push(payment);
       }
 
+      // Withheld taxes stay in the wallet for the landlord's tax deposits
+      await tx.landlordWallet.update({
+        where: { landlordId: landlord.id },
+        data: { availableBalance: { decrement: totalPaidOut } },
+      });
+
       return createdPayments;
     });
 
@@ -1183,6 +1220,68 @@ export async function updatePayrollSettings(data: z.infer<typeof payrollSettings
   }
 }
 
+// Get a team member's W-4 and state withholding elections
+export async function getTeamMemberTaxProfile(teamMemberId: string) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { success: false, message: 'Not authenticated' };
+    }
+
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return { success: false, message: landlordResult.message };
+    }
+
+    const teamMember = await prisma.teamMember.findFirst({
+      where: { id: teamMemberId, landlordId: landlordResult.landlord.id },
+      select: { id: true },
+    });
+
+    if (!teamMember) {
+      return { success: false, message: 'Team member not found' };
+    }
+
+    return { success: true, profile: await getTaxProfile({ teamMemberId }) };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
+
+// Update a team member's W-4 and state withholding elections
+export async function updateTeamMemberTaxProfile(teamMemberId: string, data: unknown) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { success: false, message: 'Not authenticated' };
+    }
+
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return { success: false, message: landlordResult.message };
+    }
+
+    const landlord = landlordResult.landlord;
+    await checkEnterpriseTierAccess(landlord.id);
+
+    const teamMember = await prisma.teamMember.findFirst({
+      where: { id: teamMemberId, landlordId: landlord.id },
+      select: { id: true },
+    });
+
+    if (!teamMember) {
+      return { success: false, message: 'Team member not found' };
+    }
+
+    await saveTaxProfile({ teamMemberId }, parseTaxProfileInput(data));
+
+    revalidatePath('/admin/team-operations');
+    return { success: true, message: 'Tax profile updated' };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
+
 // ============= TIME OFF =============
 
 // Request time off (team member)
@@ -1375,3 +1474,26 @@ export async function getLaborCostsByProperty(dateRange?: { start: Date; end: Da
     return { success: false, message: formatError(error), report: null };
   }
 }
+
+// Get Form 941 figures per quarter and W-2 figures per team member
+export async function getPayrollTaxReport(year: number = new Date().getFullYear()) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { success: false, message: 'Not authenticated', report: null };
+    }
+
+    const landlordResult = await getOrCreateCurrentLandlord();
+    if (!landlordResult.success) {
+      return { success: false, message: landlordResult.message, report: null };
+    }
+
+    const employer = { landlordId: landlordResult.landlord.id };
+    const quarters = await Promise.all([1, 2, 3, 4].map((quarter) => getQuarterlyReport(employer, year, quarter)));
+    const w2 = await getW2Report(employer, year);
+
+    return { success: true, report: { year, quarters, w2 } };
+  } catch (error) {
+    return { success: false, message: formatError(error), report: null };
+  }
+}
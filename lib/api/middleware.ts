@@ -2,11 +2,19 @@
  * API Middleware
  * 
  * Provides authentication, rate limiting, and request logging for the external API.
+ * Every response, errors included, carries the RateLimit-* headers of the
+ * limits that applied (see lib/api/rate-limit.ts).
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/db/prisma';
 import { validateApiKey, hasScope, ApiScope } from '@/lib/services/api-key.service';
+import {
+  applyRateLimitHeaders,
+  enforceApiRateLimits,
+  limitUnauthenticatedApiRequest,
+  rateLimitMessage,
+} from '@/lib/api/rate-limit';
 
 export interface ApiContext {
   apiKeyId: string;
@@ -14,13 +22,6 @@ export interface ApiContext {
   scopes: string[];
 }
 
-interface RateLimitResult {
-  allowed: boolean;
-  remaining: number;
-  reset: number;
-  limit: number;
-}
-
 /**
  * Extract API key from request headers
  */
@@ -32,36 +33,6 @@ function extractApiKey(req: NextRequest): string | null {
   return req.headers.get('x-api-key');
 }
 
-/**
- * Check rate limit for an API key
- */
-async function checkRateLimit(
-  apiKeyId: string,
-  limit: number,
-  windowSeconds: number
-): Promise<RateLimitResult> {
-  const now = new Date();
-  const windowStart = new Date(now.getTime() - windowSeconds * 1000);
-
-  // Count requests in the current window
-  const requestCount = await prisma.apiRequestLog.count({
-    where: {
-      apiKeyId,
-      createdAt: { gte: windowStart },
-    },
-  });
-
-  const remaining = Math.max(0, limit - requestCount - 1);
-  const reset = Math.floor((windowStart.getTime() + windowSeconds * 1000) / 1000);
-
-  return {
-    allowed: requestCount < limit,
-    remaining,
-    reset,
-    limit,
-  };
-}
-
 /**
  * Log an API request
  */
@@ -146,26 +117,40 @@ export function apiPaginated<T>(
 export async function authenticateApiRequest(
   req: NextRequest,
   requiredScopes: ApiScope[] = []
-): Promise<{ context: ApiContext } | { error: NextResponse }> {
+): Promise<{ context: ApiContext; rateLimitHeaders: Headers } | { error: NextResponse }> {
   const startTime = Date.now();
   const apiKey = extractApiKey(req);
-
-  if (!apiKey) {
-    return {
-      error: apiError('Missing API key. Provide via Authorization header or X-API-Key.', 401, 'missing_api_key'),
-    };
+  const validation = apiKey ? await validateApiKey(apiKey) : null;
+
+  if (!validation?.valid || !validation.apiKey) {
+    const limited = await limitUnauthenticatedApiRequest(req);
+    const response = !limited.allowed
+      ? apiError(rateLimitMessage('unauthenticated'), 429, 'rate_limit_exceeded')
+      : apiKey
+        ? apiError(validation?.error || 'Invalid API key', 401, 'invalid_api_key')
+        : apiError('Missing API key. Provide via Authorization header or X-API-Key.', 401, 'missing_api_key');
+    return { error: applyRateLimitHeaders(response, limited.headers) };
   }
 
-  const validation = await validateApiKey(apiKey);
+  const { apiKey: validatedKey } = validation;
+
+  const rateLimit = await enforceApiRateLimits(validatedKey.limits, req);
 
-  if (!validation.valid || !validation.apiKey) {
+  if (!rateLimit.allowed && rateLimit.exceeded) {
+    await logApiRequest(
+      validatedKey.id,
+      validatedKey.landlordId,
+      req,
+      429,
+      Date.now() - startTime,
+      rateLimitMessage(rateLimit.exceeded)
+    );
+    const code = rateLimit.exceeded.endsWith('_quota') ? 'quota_exceeded' : 'rate_limit_exceeded';
     return {
-      error: apiError(validation.error || 'Invalid API key', 401, 'invalid_api_key'),
+      error: applyRateLimitHeaders(apiError(rateLimitMessage(rateLimit.exceeded), 429, code), rateLimit.headers),
     };
   }
 
-  const { apiKey: validatedKey } = validation;
-
   // Check required scopes
   for (const scope of requiredScopes) {
     if (!hasScope(validatedKey.scopes, scope)) {
@@ -178,48 +163,21 @@ export async function authenticateApiRequest(
         `Missing required scope: ${scope}`
       );
       return {
-        error: apiError(`Missing required scope: ${scope}`, 403, 'insufficient_scope'),
+        error: applyRateLimitHeaders(
+          apiError(`Missing required scope: ${scope}`, 403, 'insufficient_scope'),
+          rateLimit.headers
+        ),
       };
     }
   }
 
-  // Get rate limit settings
-  const apiKeyRecord = await prisma.apiKey.findUnique({
-    where: { id: validatedKey.id },
-    select: { rateLimit: true, rateLimitWindow: true },
-  });
-
-  if (apiKeyRecord) {
-    const rateLimit = await checkRateLimit(
-      validatedKey.id,
-      apiKeyRecord.rateLimit,
-      apiKeyRecord.rateLimitWindow
-    );
-
-    if (!rateLimit.allowed) {
-      await logApiRequest(
-        validatedKey.id,
-        validatedKey.landlordId,
-        req,
-        429,
-        Date.now() - startTime,
-        'Rate limit exceeded'
-      );
-      
-      const response = apiError('Rate limit exceeded', 429, 'rate_limit_exceeded');
-      response.headers.set('X-RateLimit-Limit', rateLimit.limit.toString());
-      response.headers.set('X-RateLimit-Remaining', '0');
-      response.headers.set('X-RateLimit-Reset', rateLimit.reset.toString());
-      return { error: response };
-    }
-  }
-
   return {
     context: {
       apiKeyId: validatedKey.id,
       landlordId: validatedKey.landlordId,
       scopes: validatedKey.scopes,
     },
+    rateLimitHeaders: rateLimit.headers,
   };
 }
 
@@ -251,24 +209,7 @@ export function withApiAuth(
         Date.now() - startTime
       );
 
-      // Add rate limit headers
-      const apiKeyRecord = await prisma.apiKey.findUnique({
-        where: { id: authResult.context.apiKeyId },
-        select: { rateLimit: true, rateLimitWindow: true },
-      });
-
-      if (apiKeyRecord) {
-        const rateLimit = await checkRateLimit(
-          authResult.context.apiKeyId,
-          apiKeyRecord.rateLimit,
-          apiKeyRecord.rateLimitWindow
-        );
-        response.headers.set('X-RateLimit-Limit', rateLimit.limit.toString());
-        response.headers.set('X-RateLimit-Remaining', rateLimit.remaining.toString());
-        response.headers.set('X-RateLimit-Reset', rateLimit.reset.toString());
-      }
-
-      return response;
+      return applyRateLimitHeaders(response, authResult.rateLimitHeaders);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Internal server error';
       
@@ -282,7 +223,10 @@ export function withApiAuth(
       );
 
       console.error('API Error:', error);
-      return apiError('Internal server error', 500, 'internal_error');
+      return applyRateLimitHeaders(
+        apiError('Internal server error', 500, 'internal_error'),
+        authResult.rateLimitHeaders
+      );
     }
   };
 }
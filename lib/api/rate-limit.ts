@@ -0,0 +1,125 @@
+/**
+ * Rate limits for the external API (/api/v1)
+ *
+ * Every authenticated request is checked against:
+ *  1. the key's burst limit (ApiKey.rateLimit per rateLimitWindow seconds)
+ *  2. the route policy for its method and path, counted per key
+ *  3. the key's daily and monthly plan quotas
+ * Quotas are only counted for requests that pass the first two, so a client
+ * hammering a throttled route doesn't burn through its monthly allowance.
+ * Requests without a valid key are limited per IP address.
+ */
+
+import type { NextRequest } from 'next/server';
+import {
+  buildRateLimitHeaders,
+  checkQuota,
+  checkRateLimit,
+  getClientIdentifier,
+  type RateLimitResult,
+} from '@/lib/security/rate-limiter';
+import { API_KEY_QUOTA_SCOPE, type ApiKeyLimits } from '@/lib/services/api-key.service';
+
+export interface RoutePolicy {
+  name: string;
+  methods: string[];
+  /** Path prefix the policy applies to */
+  path: string;
+  maxRequests: number;
+  windowMs: number;
+}
+
+// First match wins, so more specific policies go first
+export const API_ROUTE_POLICIES: RoutePolicy[] = [
+  { name: 'v1-payments-write', methods: ['POST'], path: '/api/v1/payments', maxRequests: 30, windowMs: 60 * 1000 },
+  { name: 'v1-write', methods: ['POST', 'PUT', 'PATCH', 'DELETE'], path: '/api/v1', maxRequests: 120, windowMs: 60 * 1000 },
+  { name: 'v1-read', methods: ['GET', 'HEAD'], path: '/api/v1', maxRequests: 600, windowMs: 60 * 1000 },
+];
+
+// Requests that fail authentication, per IP address
+export const UNAUTHENTICATED_API_POLICY = { name: 'v1-unauthenticated', maxRequests: 30, windowMs: 60 * 1000 };
+
+export type ExceededLimit = 'burst' | 'route' | 'daily_quota' | 'monthly_quota' | 'unauthenticated';
+
+export interface ApiRateLimitOutcome {
+  allowed: boolean;
+  headers: Headers;
+  /** Which limit turned the request away */
+  exceeded?: ExceededLimit;
+}
+
+export function resolveRoutePolicy(method: string, path: string): RoutePolicy | null {
+  const upper = method.toUpperCase();
+  return (
+    API_ROUTE_POLICIES.find(
+      (policy) =>
+        policy.methods.includes(upper) && (path === policy.path || path.startsWith(`${policy.path}/`))
+    ) ?? null
+  );
+}
+
+/**
+ * Burst window for a key, shared by landlord and contractor keys
+ */
+export function checkApiKeyBurst(scope: string, keyId: string, rateLimit: number, windowSeconds: number) {
+  return checkRateLimit(keyId, { name: scope, maxRequests: rateLimit, windowMs: windowSeconds * 1000 });
+}
+
+/**
+ * Check a request from a validated landlord key against its burst limit,
+ * route policy and plan quotas
+ */
+export async function enforceApiRateLimits(limits: ApiKeyLimits, req: NextRequest): Promise<ApiRateLimitOutcome> {
+  const results: RateLimitResult[] = [];
+  const policy = resolveRoutePolicy(req.method, new URL(req.url).pathname);
+
+  const [burst, route] = await Promise.all([
+    checkApiKeyBurst('api-key-burst', limits.id, limits.rateLimit, limits.rateLimitWindow),
+    policy ? checkRateLimit(limits.id, policy) : null,
+  ]);
+  results.push(burst);
+  if (route) results.push(route);
+
+  if (!burst.allowed || (route && !route.allowed)) {
+    return { allowed: false, headers: buildRateLimitHeaders(results), exceeded: burst.allowed ? 'route' : 'burst' };
+  }
+
+  const [daily, monthly] = await Promise.all([
+    checkQuota(API_KEY_QUOTA_SCOPE, limits.id, limits.dailyQuota, 'day'),
+    checkQuota(API_KEY_QUOTA_SCOPE, limits.id, limits.monthlyQuota, 'month'),
+  ]);
+  results.push(daily, monthly);
+
+  const exceeded = !monthly.allowed ? 'monthly_quota' : !daily.allowed ? 'daily_quota' : undefined;
+  return { allowed: !exceeded, headers: buildRateLimitHeaders(results), exceeded };
+}
+
+/**
+ * Count a request that couldn't be tied to a key against its IP address
+ */
+export async function limitUnauthenticatedApiRequest(req: Request): Promise<ApiRateLimitOutcome> {
+  const result = await checkRateLimit(getClientIdentifier(req), UNAUTHENTICATED_API_POLICY);
+  return {
+    allowed: result.allowed,
+    headers: buildRateLimitHeaders([result]),
+    exceeded: result.allowed ? undefined : 'unauthenticated',
+  };
+}
+
+export function rateLimitMessage(exceeded: ExceededLimit): string {
+  switch (exceeded) {
+    case 'daily_quota':
+      return 'Daily request quota exceeded for this API key';
+    case 'monthly_quota':
+      return 'Monthly request quota exceeded for this API key';
+    case 'route':
+      return 'Rate limit exceeded for this endpoint';
+    default:
+      return 'Rate limit exceeded';
+  }
+}
+
+export function applyRateLimitHeaders<T extends Response>(response: T, headers: Headers): T {
+  headers.forEach((value, key) => response.headers.set(key, value));
+  return response;
+}
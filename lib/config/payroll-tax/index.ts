@@ -0,0 +1,66 @@
+/**
+ * Payroll tax tables, one versioned data file per tax year.
+ *
+ * To roll over to a new year, copy the latest file, update the figures from
+ * that year's Publication 15-T, SSA wage base and state withholding guides,
+ * bump `version` and register it below. Paychecks record the version they
+ * were computed with, so a corrected table (2026.2) never rewrites history.
+ */
+
+import table2025 from './2025.json';
+import table2026 from './2026.json';
+
+export const FILING_STATUSES = ['single', 'married_jointly', 'head_of_household'] as const;
+export type FilingStatus = (typeof FILING_STATUSES)[number];
+
+export interface TaxBracket {
+  /** Taxable income above which the rate applies */
+  over: number;
+  /** Percent */
+  rate: number;
+}
+
+interface StateTableBase {
+  standardDeduction?: Record<FilingStatus, number>;
+  /** Annual deduction per allowance claimed on the state withholding form */
+  allowance?: number;
+  /** The state doesn't exclude 401(k)-style deferrals from taxable wages */
+  taxesRetirementContributions?: boolean;
+}
+
+export type StateTaxTable =
+  | { type: 'none' }
+  | (StateTableBase & { type: 'flat'; rate: number })
+  | (StateTableBase & { type: 'brackets'; brackets: TaxBracket[] });
+
+export interface TaxTable {
+  version: string;
+  year: number;
+  source: string;
+  federal: {
+    standardDeduction: Record<FilingStatus, number>;
+    brackets: Record<FilingStatus, TaxBracket[]>;
+  };
+  fica: {
+    socialSecurityRate: number;
+    socialSecurityWageBase: number;
+    medicareRate: number;
+    additionalMedicareRate: number;
+    additionalMedicareThreshold: number;
+  };
+  /** Keyed by two-letter state code; states not listed aren't supported yet */
+  states: Record<string, StateTaxTable>;
+}
+
+const TAX_TABLES: Record<number, TaxTable> = {
+  2025: table2025 as TaxTable,
+  2026: table2026 as TaxTable,
+};
+
+export function getTaxTable(year: number): TaxTable | null {
+  return TAX_TABLES[year] ?? null;
+}
+
+export function getSupportedStates(year: number): string[] {
+  return Object.keys(getTaxTable(year)?.states ?? {}).sort();
+}
@@ -1,4 +1,4 @@
-import { Building2, FileText, CreditCard, Wallet, Palette, TrendingUp, ScanText, Users, HardHat, LucideIcon, Settings, LayoutDashboard, Briefcase, MessageCircle, Wrench, Calendar, Clock, FileSpreadsheet, DollarSign, UserPlus, Home, Sparkles, Globe, Star, Receipt, GraduationCap } from 'lucide-react';
+import { Building2, FileText, CreditCard, Wallet, Palette, TrendingUp, ScanText, Users, HardHat, LucideIcon, Settings, LayoutDashboard, Briefcase, MessageCircle, Wrench, Calendar, Clock, FileSpreadsheet, DollarSign, UserPlus, Home, Sparkles, Globe, Star, Receipt, GraduationCap, Landmark } from 'lucide-react';
 
 export interface AdminNavLink {
   title: string;
@@ -65,6 +65,12 @@ export const adminNavGroups: AdminNavGroup[] = [
         href: '/admin/payouts',
         icon: Wallet,
       },
+      {
+        title: 'Reconciliation',
+        description: 'Match bank statements to your books',
+        href: '/admin/reconciliation',
+        icon: Landmark,
+      },
       {
         title: 'Analytics',
         description: 'Financial reports & insights',
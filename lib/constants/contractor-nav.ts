@@ -29,6 +29,7 @@ import {
   MessageSquare,
   Sparkles,
   ShoppingBag,
+  Landmark,
   LucideIcon 
 } from 'lucide-react';
 
@@ -72,6 +73,12 @@ export const contractorNavGroups: ContractorNavGroup[] = [
         href: '/contractor-dashboard/estimates',
         icon: Calculator,
       },
+      {
+        title: 'Price Book',
+        description: 'Quote prices & markups',
+        href: '/contractor-dashboard/price-book',
+        icon: Tag,
+      },
       {
         title: 'Calendar',
         description: 'Schedule & dispatch',
@@ -288,6 +295,13 @@ export const contractorNavGroups: ContractorNavGroup[] = [
         icon: Receipt,
         requiredTier: 'pro',
       },
+      {
+        title: 'Bank Reconciliation',
+        description: 'Match statements to expenses',
+        href: '/contractor-dashboard/finance/reconciliation',
+        icon: Landmark,
+        requiredTier: 'pro',
+      },
       {
         title: 'Contracts',
         description: 'Create & send contracts for signing',
@@ -1,5 +1,15 @@
+import { NextResponse } from 'next/server';
 import { prisma } from '@/db/prisma';
 import crypto from 'crypto';
+import type { ContractorApiKey, ContractorProfile } from '@prisma/client';
+import {
+  applyRateLimitHeaders,
+  checkApiKeyBurst,
+  limitUnauthenticatedApiRequest,
+  rateLimitMessage,
+  resolveRoutePolicy,
+} from '@/lib/api/rate-limit';
+import { buildRateLimitHeaders, checkRateLimit } from '@/lib/security/rate-limiter';
 
 /**
  * Verify a contractor API key from request headers.
@@ -44,6 +54,54 @@ export function hasContractorScope(apiKey: { scopes: string[] }, requiredScope:
   return apiKey.scopes.includes(requiredScope);
 }
 
+interface ContractorApiAuth {
+  contractor: ContractorProfile;
+  apiKey: ContractorApiKey;
+}
+
+/**
+ * Wrap a contractor API route: verifies the key and scope, applies the key's
+ * burst limit and the route policy, and sets RateLimit-* headers on every
+ * response. Failed lookups are limited per IP like landlord keys.
+ */
+export function withContractorApiAuth(
+  scope: string,
+  handler: (request: Request, auth: ContractorApiAuth) => Promise<NextResponse>
+) {
+  return async (request: Request): Promise<NextResponse> => {
+    const auth = await verifyContractorApiKey(request);
+    if (!auth.success || !auth.contractor || !auth.apiKey) {
+      const limited = await limitUnauthenticatedApiRequest(request);
+      const response = limited.allowed
+        ? NextResponse.json({ error: auth.message }, { status: 401 })
+        : NextResponse.json({ error: rateLimitMessage('unauthenticated') }, { status: 429 });
+      return applyRateLimitHeaders(response, limited.headers);
+    }
+
+    const { apiKey, contractor } = auth;
+    const policy = resolveRoutePolicy(request.method, new URL(request.url).pathname);
+    const results = await Promise.all([
+      checkApiKeyBurst('contractor-api-key-burst', apiKey.id, apiKey.rateLimit, apiKey.rateLimitWindow),
+      ...(policy ? [checkRateLimit(apiKey.id, policy)] : []),
+    ]);
+    const headers = buildRateLimitHeaders(results);
+
+    const denied = results.findIndex((result) => !result.allowed);
+    if (denied !== -1) {
+      const message = rateLimitMessage(denied === 0 ? 'burst' : 'route');
+      return applyRateLimitHeaders(NextResponse.json({ error: message }, { status: 429 }), headers);
+    }
+    if (!hasContractorScope(apiKey, scope)) {
+      return applyRateLimitHeaders(
+        NextResponse.json({ error: `Insufficient permissions. Required scope: ${scope}` }, { status: 403 }),
+        headers
+      );
+    }
+
+    return applyRateLimitHeaders(await handler(request, { contractor, apiKey }), headers);
+  };
+}
+
 /** Generate a new contractor API key — returns the raw key (shown once) and the hash to store */
 export function generateContractorApiKey(): { raw: string; hash: string; prefix: string } {
   const random = crypto.randomBytes(32).toString('hex');
@@ -194,6 +194,17 @@ export function createDatabaseTriggers() {
       });
     },
 
+    /**
+     * Emit event when a contractor profile is created (saved-search alerts)
+     */
+    async onContractorProfileCreate(profile: any) {
+      await eventBus.emit('contractor.profile.created', {
+        contractorId: profile.id,
+        userId: profile.userId,
+        specialties: profile.specialties,
+      });
+    },
+
     /**
      * Emit event when invoice is created
      */
@@ -34,11 +34,14 @@ export type SystemEvent =
   | 'work_order.completed'
   | 'contractor.lead_matched'
   | 'contractor.lead_responded'
+  | 'contractor.profile.created'
   | 'contractor.job.created'
   | 'contractor.job.status_changed'
   | 'contractor.job.completed'
   | 'contractor.job.approved'
   | 'contractor.job.deleted'
+  | 'contractor.job.site_arrived'
+  | 'contractor.job.site_left'
   | 'contractor.customer.created'
   | 'contractor.employee.created'
   | 'contractor.time.clock_in'
@@ -55,12 +55,16 @@ export function initializeEventHandlers() {
 
   // Work order events
   eventBus.subscribe('work_order.created', handleWorkOrderCreated);
+  eventBus.subscribe('work_order.created', handleSavedSearchJobPosted);
   eventBus.subscribe('work_order.bid_received', handleWorkOrderBidReceived);
   eventBus.subscribe('work_order.bid_accepted', handleWorkOrderBidAccepted);
 
   // Contractor lead events
   eventBus.subscribe('contractor.lead_matched', handleContractorLeadMatched);
 
+  // Saved-search instant alerts for new contractors
+  eventBus.subscribe('contractor.profile.created', handleContractorProfileCreated);
+
   // Contractor pipeline events
   eventBus.subscribe('contractor.quote.accepted', handleContractorQuoteAccepted);
   eventBus.subscribe('contractor.contract.signed', handleContractorContractSigned);
@@ -515,6 +519,23 @@ async function handleWorkOrderCreated(event: EventPayload) {
   }
 }
 
+/**
+ * Handle work order created - check instant saved-search job alerts
+ */
+async function handleSavedSearchJobPosted(event: EventPayload) {
+  const { workOrderId, posterType, isOpenBid } = event.data;
+  if (!isOpenBid || (posterType !== 'homeowner' && posterType !== 'landlord')) return;
+
+  const resultType = posterType === 'homeowner' ? 'homeowner_job' : 'work_order';
+  await jobQueue.schedule({
+    type: 'saved_search_instant',
+    payload: { resultType, resultId: workOrderId },
+    scheduledFor: new Date(),
+    priority: 5,
+    idempotencyKey: `saved-search-instant:${resultType}:${workOrderId}`,
+  });
+}
+
 /**
  * Handle bid received on work order - notify owner
  */
@@ -715,3 +736,18 @@ async function handleContractorJobStatusChanged(event: EventPayload) {
     });
   }
 }
+
+/**
+ * Handle contractor profile created - check instant saved-search alerts
+ */
+async function handleContractorProfileCreated(event: EventPayload) {
+  const { contractorId } = event.data;
+
+  await jobQueue.schedule({
+    type: 'saved_search_instant',
+    payload: { resultType: 'contractor', resultId: contractorId },
+    scheduledFor: new Date(),
+    priority: 5,
+    idempotencyKey: `saved-search-instant:contractor:${contractorId}`,
+  });
+}
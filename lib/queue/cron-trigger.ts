@@ -0,0 +1,27 @@
+/**
+ * Response for the per-job cron routes, which now just trigger the matching
+ * recurring job. The run itself (cron log, retries, dead-lettering) belongs
+ * to the runtime; this only reports how it went.
+ */
+
+import { NextResponse } from 'next/server';
+import { jobRuntime } from '@/lib/queue';
+import type { RecurringJobName } from './jobs';
+
+export async function triggerRecurringJob(name: RecurringJobName) {
+  const job = await jobRuntime.runRecurringNow(name);
+
+  switch (job.status) {
+    case 'completed':
+      return NextResponse.json({ success: true, jobId: job.id, ...(job.result as Record<string, unknown> | null) });
+    case 'processing':
+      // Another worker has this slot
+      return NextResponse.json({ success: true, jobId: job.id, status: job.status }, { status: 202 });
+    default:
+      // 'pending' means a retry has been scheduled
+      return NextResponse.json(
+        { success: false, jobId: job.id, status: job.status, error: job.lastError },
+        { status: 500 }
+      );
+  }
+}
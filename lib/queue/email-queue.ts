@@ -3,8 +3,9 @@
  * Simplifies queueing emails instead of sending synchronously
  */
 
-import { jobQueue } from './redis-queue';
+import { render } from '@react-email/render';
 import { ReactElement } from 'react';
+import { jobRuntime } from '@/lib/queue';
 
 export interface EmailOptions {
   to: string | string[];
@@ -13,6 +14,8 @@ export interface EmailOptions {
   react?: ReactElement;
   from?: string;
   priority?: number;
+  /** Queue at most one email per key, e.g. `limit-warning:${contractorId}:${month}` */
+  idempotencyKey?: string;
 }
 
 export class EmailQueue {
@@ -20,10 +23,7 @@ export class EmailQueue {
    * Queue an email for async delivery
    */
   static async send(options: EmailOptions): Promise<string> {
-    return jobQueue.enqueue('send_email', options, {
-      priority: options.priority || 5,
-      maxRetries: 3,
-    });
+    return this.enqueue(options);
   }
 
   /**
@@ -37,12 +37,19 @@ export class EmailQueue {
    * Queue email with delay
    */
   static async sendDelayed(options: EmailOptions, delayMs: number): Promise<string> {
-    const scheduledFor = new Date(Date.now() + delayMs);
-    
-    return jobQueue.enqueue('send_email', options, {
-      priority: options.priority || 5,
-      maxRetries: 3,
-      scheduledFor,
-    });
+    return this.enqueue(options, delayMs);
+  }
+
+  private static async enqueue(options: EmailOptions, delayMs?: number): Promise<string> {
+    const { to, subject, from, react, priority, idempotencyKey } = options;
+    // Job payloads are stored as JSON, so React emails are rendered up front
+    const html = react ? await render(react) : options.html ?? '';
+
+    const { id } = await jobRuntime.enqueue(
+      'send_email',
+      { to, subject, html, from },
+      { priority: priority || 5, delayMs, idempotencyKey }
+    );
+    return id;
   }
 }
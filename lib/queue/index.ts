@@ -0,0 +1,12 @@
+/**
+ * Background jobs. Import the runtime from here rather than constructing one.
+ */
+
+import { JobRuntime } from './runtime';
+import { jobDefinitions } from './jobs';
+
+export const jobRuntime = new JobRuntime(jobDefinitions);
+
+export { JobError, JobErrorCodes, getJobErrorStatus, JOB_STATUSES } from './runtime';
+export type { EnqueueOptions, JobContext, JobErrorEntry, JobStatus, WorkSummary } from './runtime';
+export type { JobName, RecurringJobName } from './jobs';
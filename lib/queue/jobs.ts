@@ -0,0 +1,583 @@
+/**
+ * Job Definitions
+ * Every background job the runtime knows about. Enqueue through
+ * `jobRuntime.enqueue(name, payload)`; the payload type comes from the
+ * handler here.
+ *
+ * Handlers must be safe to run again (see JobDefinition.handler), and
+ * those that loop over many records stop when their timeout aborts
+ * `context.signal`.
+ *
+ * Recurring jobs (those with a `schedule`) replace the per-job Vercel cron
+ * routes. Their names match the old CronRunLog job names so the cron health
+ * panel keeps its history.
+ */
+
+import type Stripe from 'stripe';
+import { defineJob, JobError, JobErrorCodes } from './runtime';
+
+const HOUR = 60 * 60 * 1000;
+
+// ============= One-off jobs =============
+
+export interface SendEmailPayload {
+  to: string | string[];
+  subject: string;
+  /** Rendered HTML; React emails are rendered before they're queued */
+  html: string;
+  from?: string;
+}
+
+const sendEmail = defineJob<SendEmailPayload, { id: string | null }>({
+  description: 'Deliver a queued email through Resend',
+  maxAttempts: 3,
+  concurrency: 10,
+  async handler({ to, subject, html, from }) {
+    const { Resend } = await import('resend');
+    const resend = new Resend(process.env.RESEND_API_KEY);
+    const { data, error } = await resend.emails.send({
+      from: from || `${process.env.APP_NAME} <${process.env.SENDER_EMAIL}>`,
+      to,
+      subject,
+      html,
+    });
+    if (error) throw new Error(error.message);
+    return { id: data?.id ?? null };
+  },
+});
+
+const generatePdf = defineJob<{ html: string; callbackUrl?: string }>({
+  description: 'Render HTML to PDF and POST it to a callback URL',
+  concurrency: 2,
+  timeoutMs: 2 * 60 * 1000,
+  async handler({ html, callbackUrl }, { signal }) {
+    // Import dynamically to avoid loading Puppeteer in every request
+    const { htmlToPdfBuffer } = await import('@/lib/services/pdf');
+    const pdfBuffer = await htmlToPdfBuffer(html);
+
+    if (callbackUrl) {
+      const res = await fetch(callbackUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/pdf' },
+        body: new Uint8Array(pdfBuffer),
+        signal,
+      });
+      if (!res.ok) throw new Error(`PDF callback responded ${res.status}`);
+    }
+    return { bytes: pdfBuffer.length };
+  },
+});
+
+export type StripeOperationPayload =
+  | { operation: 'create_payout'; payload: Stripe.PayoutCreateParams & { connectedAccountId: string } }
+  | { operation: 'update_account'; payload: { accountId: string; data: Stripe.AccountUpdateParams } };
+
+const stripeOperation = defineJob<StripeOperationPayload>({
+  description: 'Stripe API call that must not block the request',
+  concurrency: 3,
+  async handler(job, { jobId }) {
+    const StripeClient = (await import('stripe')).default;
+    const stripe = new StripeClient(process.env.STRIPE_SECRET_KEY!, { apiVersion: '2025-02-24.acacia' });
+    // Retries reuse the key so Stripe never applies the operation twice
+    const idempotencyKey = `job-${jobId}`;
+
+    switch (job.operation) {
+      case 'create_payout': {
+        const { connectedAccountId, ...params } = job.payload;
+        const payout = await stripe.payouts.create(params, { stripeAccount: connectedAccountId, idempotencyKey });
+        return { payoutId: payout.id };
+      }
+      case 'update_account':
+        await stripe.accounts.update(job.payload.accountId, job.payload.data, { idempotencyKey });
+        return { accountId: job.payload.accountId };
+    }
+  },
+});
+
+const dailyCheck = defineJob<{ contractorId: string }>({
+  description: 'Contractor daily check (expiring documents, overdue jobs)',
+  async handler({ contractorId }) {
+    const { performDailyCheckIfNeeded } = await import('@/lib/services/contractor-daily-check');
+    await performDailyCheckIfNeeded(contractorId);
+  },
+});
+
+export interface NotificationJobPayload {
+  userId: string;
+  type: string;
+  title: string;
+  message: string;
+  actionUrl?: string;
+  metadata?: Record<string, unknown>;
+  landlordId?: string;
+}
+
+const sendNotification = defineJob<NotificationJobPayload>({
+  description: 'Create an in-app notification and fan it out to the user’s channels',
+  async handler(payload) {
+    // A malformed payload would fail the same way on every attempt, so skip it
+    if (!payload?.userId || !payload?.title || !payload?.message) {
+      console.warn('Skipping malformed send_notification payload (requires userId, title, message):', payload);
+      return { skipped: true };
+    }
+    const { NotificationService } = await import('@/lib/services/notification-service');
+    await NotificationService.createNotification(
+      payload as Parameters<typeof NotificationService.createNotification>[0]
+    );
+    return { skipped: false };
+  },
+});
+
+export interface ReminderJobPayload {
+  reminderType: string;
+  recipientId: string;
+  [key: string]: unknown;
+}
+
+const sendReminder = defineJob<ReminderJobPayload>({
+  description: 'Scheduled reminder from the event system',
+  priority: 5,
+  async handler({ reminderType }) {
+    if (reminderType === 'rent') {
+      const { runAllRentReminders } = await import('@/lib/services/rent-reminder.service');
+      return runAllRentReminders();
+    }
+    // Appointment, lease signing, verification and invoice reminders have no
+    // sender yet; dead-letter them so they show up instead of passing silently
+    throw new JobError(JobErrorCodes.INVALID_INPUT, `No sender for ${reminderType} reminders`);
+  },
+});
+
+const releaseBalance = defineJob<{ transactionId: string }>({
+  description: 'Move a wallet transaction from pending to available',
+  async handler({ transactionId }) {
+    const { releasePendingBalance } = await import('@/lib/services/wallet.service');
+    await releasePendingBalance(transactionId);
+  },
+});
+
+const processLateFee = defineJob<{ leaseId: string }>({
+  description: 'Apply a late fee to a lease',
+  async handler({ leaseId }) {
+    // Nothing applies late fees yet; these land in the dead-letter queue for
+    // someone to review instead of reporting a fee that was never charged
+    throw new JobError(JobErrorCodes.INVALID_INPUT, `Late fee for lease ${leaseId} was not applied: no late fee handler`);
+  },
+});
+
+const cleanupDocuments = defineJob<{ documentId: string }>({
+  description: 'Clean up an expired document',
+  async handler({ documentId }) {
+    // No cleanup service exists yet; dead-letter rather than report a cleanup that didn't happen
+    throw new JobError(JobErrorCodes.INVALID_INPUT, `Document ${documentId} was not cleaned up: no cleanup handler`);
+  },
+});
+
+const processWebhook = defineJob<{ webhookId?: string }>({
+  description: 'Deliver pending outgoing webhooks',
+  concurrency: 1,
+  async handler() {
+    const { processWebhookDeliveries } = await import('@/lib/webhook-delivery');
+    await processWebhookDeliveries();
+  },
+});
+
+const dataExport = defineJob<{ requestId: string }>({
+  description: 'Assemble a user’s personal data export (GDPR / CCPA)',
+  concurrency: 2,
+  maxAttempts: 3,
+  timeoutMs: 5 * 60 * 1000,
+  backoff: { baseMs: 5 * 60 * 1000, maxMs: HOUR },
+  async handler({ requestId }) {
+    const { runDataExport } = await import('@/lib/services/data-subject-request.service');
+    return runDataExport(requestId);
+  },
+});
+
+const dataErasure = defineJob<{ requestId: string }>({
+  description: 'Anonymize a user after an approved erasure request',
+  concurrency: 1,
+  maxAttempts: 3,
+  backoff: { baseMs: 5 * 60 * 1000, maxMs: HOUR },
+  async handler({ requestId }) {
+    const { runDataErasure } = await import('@/lib/services/data-subject-request.service');
+    return runDataErasure(requestId);
+  },
+});
+
+const savedSearchInstant = defineJob<{ resultType: 'contractor' | 'homeowner_job' | 'work_order'; resultId: string }>({
+  description: 'Check instant saved-search alerts against a new contractor profile or job',
+  maxAttempts: 3,
+  async handler({ resultType, resultId }) {
+    const { runInstantSavedSearchAlerts } = await import('@/lib/services/saved-search-alerts.service');
+    return runInstantSavedSearchAlerts(resultType, resultId);
+  },
+});
+
+// ============= Recurring jobs =============
+
+const leaseRenewals = defineJob({
+  description: 'Draft renewal offers for leases entering the renewal window and expire unanswered ones',
+  schedule: '0 7 * * *',
+  concurrency: 1,
+  maxAttempts: 3,
+  async handler() {
+    const { expireRenewalOffers, generateDueRenewalOffers } = await import('@/lib/services/lease-renewal.service');
+    const expired = await expireRenewalOffers();
+    const { created, failed } = await generateDueRenewalOffers();
+    return { drafted: created, failed, expired };
+  },
+});
+
+const notifications = defineJob({
+  description: 'Release notifications held by quiet hours and send digests',
+  schedule: '5 * * * *',
+  concurrency: 1,
+  maxAttempts: 2,
+  async handler() {
+    const { NotificationService } = await import('@/lib/services/notification-service');
+    const held = await NotificationService.releaseHeldNotifications();
+    const digests = await NotificationService.sendNotificationDigests();
+    return { held, digests };
+  },
+});
+
+const ownerStatements = defineJob({
+  description: 'Draft last month’s owner statements for landlords managing properties for others',
+  schedule: '0 6 1 * *',
+  concurrency: 1,
+  maxAttempts: 3,
+  backoff: { baseMs: 5 * 60 * 1000, maxMs: 2 * HOUR },
+  async handler(_payload, { scheduledFor, signal }) {
+    const [{ prisma }, { generateOwnerStatementsForLandlord }] = await Promise.all([
+      import('@/db/prisma'),
+      import('@/lib/services/owner-statement.service'),
+    ]);
+    // The month before the slot, so a late retry still drafts the right month
+    const previousMonth = new Date(scheduledFor.getFullYear(), scheduledFor.getMonth() - 1, 1);
+    const year = previousMonth.getFullYear();
+    const month = previousMonth.getMonth() + 1;
+
+    const landlords = await prisma.landlord.findMany({
+      where: { propertyOwners: { some: { status: 'active' } } },
+      select: { id: true },
+    });
+
+    let generated = 0;
+    let failed = 0;
+
+    for (const landlord of landlords) {
+      signal.throwIfAborted();
+      const results = await generateOwnerStatementsForLandlord(landlord.id, year, month);
+      for (const result of results) {
+        if (result.success) {
+          generated++;
+        } else {
+          failed++;
+          console.error(`Owner statement failed for owner ${result.ownerId}:`, result.message);
+        }
+      }
+    }
+
+    return { year, month, generated, failed };
+  },
+});
+
+const quickbooksSync = defineJob({
+  description: 'Incremental QuickBooks sync for every connected landlord',
+  schedule: '0 * * * *',
+  concurrency: 1,
+  maxAttempts: 1,
+  async handler(_payload, { signal }) {
+    const [{ prisma }, { runQuickBooksSync }] = await Promise.all([
+      import('@/db/prisma'),
+      import('@/lib/services/quickbooks-sync.service'),
+    ]);
+    const connections = await prisma.quickBooksConnection.findMany({
+      where: {
+        connectedAt: { not: null },
+        realmId: { not: null },
+        refreshTokenEncrypted: { not: null },
+      },
+      select: { landlordId: true },
+    });
+
+    let succeeded = 0;
+    let failed = 0;
+
+    for (const connection of connections) {
+      signal.throwIfAborted();
+      try {
+        const summary = await runQuickBooksSync(connection.landlordId, { trigger: 'scheduled' });
+        if (summary.status === 'failed') {
+          failed++;
+        } else {
+          succeeded++;
+        }
+      } catch (error) {
+        failed++;
+        console.error(`QuickBooks sync failed for landlord ${connection.landlordId}:`, error);
+      }
+    }
+
+    return { landlords: connections.length, succeeded, failed };
+  },
+});
+
+const strIcalSync = defineJob({
+  description: 'Pull Airbnb/VRBO/Booking.com calendar feeds and record double-bookings',
+  schedule: '0,30 * * * *',
+  concurrency: 1,
+  maxAttempts: 1,
+  async handler() {
+    const { importAllRentalCalendars } = await import('@/lib/services/str-ical.service');
+    const results = await importAllRentalCalendars();
+
+    const failedFeeds = results.reduce(
+      (total, result) => total + result.feeds.filter((feed) => feed.lastError).length,
+      0
+    );
+    const conflicts = results.reduce((total, result) => total + result.conflicts, 0);
+
+    return { rentals: results.length, failedFeeds, conflicts };
+  },
+});
+
+const workOrderAutoRelease = defineJob({
+  description: 'Release funds for work orders past the PM approval deadline without an open dispute',
+  schedule: '0 * * * *',
+  concurrency: 1,
+  maxAttempts: 2,
+  async handler(_payload, { signal }) {
+    const [{ prisma }, { releaseFundsForWorkOrder }] = await Promise.all([
+      import('@/db/prisma'),
+      import('@/app/api/work-orders/[id]/lifecycle/route'),
+    ]);
+    const now = new Date();
+
+    const candidates = await prisma.workOrder.findMany({
+      where: {
+        lifecycleStatus: 'awaiting_approval',
+        pmApprovalDeadline: { lte: now },
+        disputes: {
+          none: { status: { in: ['open', 'in_review'] } },
+        },
+      },
+      select: { id: true },
+      take: 200,
+    });
+
+    const results: Array<{ workOrderId: string; ok: boolean; error?: string; transferred?: boolean }> = [];
+
+    for (const wo of candidates) {
+      signal.throwIfAborted();
+      try {
+        const r = await releaseFundsForWorkOrder({
+          workOrderId: wo.id,
+          actorUserId: null,
+          actorRole: 'system',
+          note: 'Auto-released after PM approval window expired',
+        });
+        results.push({ workOrderId: wo.id, ok: true, transferred: r.transferred });
+      } catch (e) {
+        results.push({ workOrderId: wo.id, ok: false, error: e instanceof Error ? e.message : 'Unknown' });
+      }
+    }
+
+    return { processed: results.length, results };
+  },
+});
+
+const releaseEscrow = defineJob({
+  description: 'Release contractor escrow after the dispute window and refund no-shows',
+  schedule: '15 * * * *',
+  concurrency: 1,
+  maxAttempts: 2,
+  async handler(_payload, { signal }) {
+    const [{ prisma }, { instantBookingService }] = await Promise.all([
+      import('@/db/prisma'),
+      import('@/lib/services/instant-booking'),
+    ]);
+    const now = new Date();
+
+    const readyForRelease = await prisma.contractorAppointment.findMany({
+      where: {
+        escrowStatus: 'held',
+        autoReleaseAt: { lte: now },
+        disputeFiledAt: null,
+        status: 'completed',
+      },
+      select: { id: true },
+    });
+
+    let released = 0;
+    let failed = 0;
+
+    for (const appointment of readyForRelease) {
+      signal.throwIfAborted();
+      try {
+        await instantBookingService.releaseEscrow(appointment.id);
+        released++;
+      } catch (error) {
+        console.error(`Failed to release escrow for ${appointment.id}:`, error);
+        failed++;
+      }
+    }
+
+    // No-shows: past endTime + 48h with no completion → refund
+    const noShowCutoff = new Date(now.getTime() - 48 * HOUR);
+    const noShows = await prisma.contractorAppointment.findMany({
+      where: {
+        escrowStatus: 'held',
+        status: 'confirmed',
+        endTime: { lte: noShowCutoff },
+        disputeFiledAt: null,
+      },
+      select: { id: true },
+    });
+
+    let refunded = 0;
+    for (const appointment of noShows) {
+      signal.throwIfAborted();
+      try {
+        await prisma.contractorAppointment.update({
+          where: { id: appointment.id },
+          data: { status: 'no_show' },
+        });
+        await instantBookingService.cancelBooking(appointment.id, 'contractor', 'Contractor no-show — automatic refund');
+        refunded++;
+      } catch (error) {
+        console.error(`Failed to process no-show for ${appointment.id}:`, error);
+      }
+    }
+
+    return { released, failed, refunded, noShowsProcessed: noShows.length };
+  },
+});
+
+const dataExportExpiry = defineJob({
+  description: 'Delete personal data exports past their download window',
+  schedule: '30 3 * * *',
+  concurrency: 1,
+  maxAttempts: 2,
+  async handler() {
+    const { expireDataExports } = await import('@/lib/services/data-subject-request.service');
+    return expireDataExports();
+  },
+});
+
+const auditRetention = defineJob({
+  description: 'Redact and delete audit log entries past their retention period',
+  schedule: '15 4 * * *',
+  concurrency: 1,
+  maxAttempts: 2,
+  async handler() {
+    const { applyAuditRetention } = await import('@/lib/security/audit-chain');
+    return applyAuditRetention();
+  },
+});
+
+const auditChainVerification = defineJob({
+  description: 'Recompute audit log hash chains and flag any that were altered',
+  schedule: '45 4 * * 0',
+  concurrency: 1,
+  maxAttempts: 1,
+  async handler() {
+    const [{ verifyAllAuditChains }, { logAuditEvent }] = await Promise.all([
+      import('@/lib/security/audit-chain'),
+      import('@/lib/security/audit-logger'),
+    ]);
+    const results = await verifyAllAuditChains();
+    const broken = results.filter((result) => !result.valid);
+
+    for (const result of broken) {
+      console.error(`[audit-chain] ${result.chainKey} failed verification:`, result.issues.slice(0, 5));
+      await logAuditEvent({
+        action: 'AUDIT_CHAIN_BROKEN',
+        resourceType: 'audit_chain',
+        metadata: { chainKey: result.chainKey, issues: result.issues.slice(0, 20) },
+        severity: 'CRITICAL',
+      });
+    }
+
+    return { chains: results.length, broken: broken.map((result) => result.chainKey) };
+  },
+});
+
+const savedSearchAlerts = defineJob({
+  description: 'Re-run saved searches with alerts on and send digests of new matches',
+  schedule: '20 * * * *',
+  concurrency: 1,
+  maxAttempts: 2,
+  async handler(_payload, { scheduledFor }) {
+    const { runSavedSearchAlerts } = await import('@/lib/services/saved-search-alerts.service');
+    return runSavedSearchAlerts(scheduledFor);
+  },
+});
+
+const marketplaceFeedReconcile = defineJob({
+  description: 'Catch the marketplace job feed up with job edits that skipped the sync and drop closed jobs',
+  schedule: '*/5 * * * *',
+  concurrency: 1,
+  maxAttempts: 1,
+  async handler() {
+    const { reconcileMarketplaceFeed } = await import('@/lib/services/marketplace-feed.service');
+    return reconcileMarketplaceFeed();
+  },
+});
+
+const leadRoutingEscalation = defineJob({
+  description: 'Expire old contractor leads and route leads nobody picked up to the next tier of contractors',
+  schedule: '*/5 * * * *',
+  concurrency: 1,
+  maxAttempts: 1,
+  async handler(_payload, { scheduledFor }) {
+    const { escalateStaleLeads } = await import('@/lib/services/lead-routing.service');
+    return escalateStaleLeads(scheduledFor);
+  },
+});
+
+export const jobDefinitions = {
+  send_email: sendEmail,
+  generate_pdf: generatePdf,
+  stripe_operation: stripeOperation,
+  daily_check: dailyCheck,
+  send_notification: sendNotification,
+  send_reminder: sendReminder,
+  release_balance: releaseBalance,
+  process_late_fee: processLateFee,
+  cleanup_documents: cleanupDocuments,
+  process_webhook: processWebhook,
+  data_export: dataExport,
+  data_erasure: dataErasure,
+  saved_search_instant: savedSearchInstant,
+  'lease-renewals': leaseRenewals,
+  notifications,
+  'owner-statements': ownerStatements,
+  'quickbooks-sync': quickbooksSync,
+  'str-ical-sync': strIcalSync,
+  'work-order-auto-release': workOrderAutoRelease,
+  'release-escrow': releaseEscrow,
+  'data-export-expiry': dataExportExpiry,
+  'audit-retention': auditRetention,
+  'audit-chain-verification': auditChainVerification,
+  'saved-search-alerts': savedSearchAlerts,
+  'marketplace-feed-reconcile': marketplaceFeedReconcile,
+  'lead-routing-escalation': leadRoutingEscalation,
+};
+
+export type JobName = keyof typeof jobDefinitions;
+export type RecurringJobName =
+  | 'lease-renewals'
+  | 'notifications'
+  | 'owner-statements'
+  | 'quickbooks-sync'
+  | 'str-ical-sync'
+  | 'work-order-auto-release'
+  | 'release-escrow'
+  | 'data-export-expiry'
+  | 'audit-retention'
+  | 'audit-chain-verification'
+  | 'saved-search-alerts'
+  | 'marketplace-feed-reconcile'
+  | 'lead-routing-escalation';
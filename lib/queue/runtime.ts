@@ -0,0 +1,632 @@
+/**
+ * Job Runtime
+ * One durable queue for background work, backed by ScheduledJob:
+ * 1. Jobs are typed definitions in lib/queue/jobs.ts; enqueueing checks the
+ *    payload against the handler at compile time
+ * 2. Failed attempts retry with exponential backoff. When a job runs out of
+ *    attempts it moves to the dead-letter queue with its error history
+ *    instead of disappearing into the logs. A handler throws JobError for a
+ *    failure no retry can fix, and the job goes there straight away
+ * 3. An idempotency key makes enqueueing safe to repeat: the second call
+ *    returns the first job
+ * 4. Each job type has a concurrency limit that holds across workers:
+ *    running jobs are recounted in the database under a per-type lock
+ *    before every claim
+ * 5. Recurring jobs carry a cron schedule in their definition. Each tick
+ *    enqueues the latest due slot under a per-slot idempotency key, so late,
+ *    skipped or overlapping ticks never double-run a slot
+ *
+ * Workers are the /api/cron/process-jobs tick in production and the
+ * in-process poller from lib/event-system in long-running servers.
+ */
+
+import crypto from 'crypto';
+import { prisma } from '@/db/prisma';
+import type { Prisma } from '@prisma/client';
+import { withCronLog } from '@/lib/ops/cron-log';
+import { latestSlot, parseCron, type CronSchedule } from './schedule';
+
+export const JOB_STATUSES = ['pending', 'processing', 'completed', 'dead'] as const;
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+// Rows the old queue gave up on are 'failed'; they live in the dead-letter queue too
+const DEAD_STATUSES = ['dead', 'failed'];
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BACKOFF = { baseMs: 30_000, maxMs: 6 * 60 * 60 * 1000 };
+const DEFAULT_CONCURRENCY = 5;
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+const MAX_ABORT_GRACE_MS = 30_000;
+const CLAIM_BATCH_SIZE = 25;
+const MAX_ERROR_HISTORY = 10;
+const RECURRING_LOOKBACK_MINUTES = 10;
+
+// ============= Errors =============
+
+export const JobErrorCodes = {
+  NOT_FOUND: 'NOT_FOUND',
+  INVALID_INPUT: 'INVALID_INPUT',
+  INVALID_STATE: 'INVALID_STATE',
+} as const;
+
+export type JobErrorCode = typeof JobErrorCodes[keyof typeof JobErrorCodes];
+
+export class JobError extends Error {
+  code: JobErrorCode;
+
+  constructor(code: JobErrorCode, message: string) {
+    super(message);
+    this.code = code;
+    this.name = 'JobError';
+  }
+}
+
+export function getJobErrorStatus(code: JobErrorCode): number {
+  switch (code) {
+    case JobErrorCodes.NOT_FOUND:
+      return 404;
+    case JobErrorCodes.INVALID_STATE:
+      return 409;
+    default:
+      return 400;
+  }
+}
+
+// ============= Definitions =============
+
+export interface JobContext {
+  jobId: string;
+  /** 1 on the first run */
+  attempt: number;
+  scheduledFor: Date;
+  /** Aborted when the run times out; long handlers should stop between steps */
+  signal: AbortSignal;
+}
+
+export interface JobDefinition<P = void, R = unknown> {
+  /**
+   * Must be idempotent: a run whose worker died partway is retried, and a
+   * timed-out run that ignores its abort signal may still be finishing when
+   * the job is retried by hand from the dead-letter queue.
+   */
+  handler: (payload: P, context: JobContext) => Promise<R>;
+  description?: string;
+  /** Total attempts, first run included, before the job is dead-lettered */
+  maxAttempts?: number;
+  /** Delay before retry n is baseMs × 2^(n-1), capped at maxMs */
+  backoff?: { baseMs: number; maxMs: number };
+  /** Jobs of this type running at once across all workers */
+  concurrency?: number;
+  /** A run still holding its claim after this long is treated as a failed attempt */
+  timeoutMs?: number;
+  priority?: number;
+  /** Cron expression (UTC). Recurring jobs take no payload. */
+  schedule?: string;
+}
+
+export function defineJob<P = void, R = unknown>(definition: JobDefinition<P, R>): JobDefinition<P, R> {
+  if (definition.schedule) parseCron(definition.schedule);
+  return definition;
+}
+
+export type JobRegistry = Record<string, JobDefinition<never, unknown>>;
+
+export type JobPayload<R extends JobRegistry, N extends keyof R> = R[N] extends JobDefinition<infer P, unknown>
+  ? P
+  : never;
+
+export interface EnqueueOptions {
+  runAt?: Date;
+  delayMs?: number;
+  priority?: number;
+  idempotencyKey?: string;
+  maxAttempts?: number;
+}
+
+export interface WorkSummary {
+  processed: number;
+  succeeded: number;
+  retried: number;
+  deadLettered: number;
+}
+
+export interface JobErrorEntry {
+  attempt: number;
+  error: string;
+  at: string;
+}
+
+type JobRow = NonNullable<Awaited<ReturnType<typeof prisma.scheduledJob.findUnique>>>;
+
+// ============= Pure helpers =============
+
+export function computeBackoff(attempt: number, backoff = DEFAULT_BACKOFF): number {
+  return Math.min(backoff.baseMs * 2 ** Math.max(attempt - 1, 0), backoff.maxMs);
+}
+
+export function recurringIdempotencyKey(name: string, slot: Date): string {
+  return `recurring:${name}:${slot.toISOString()}`;
+}
+
+function errorMessage(error: unknown): string {
+  return (error instanceof Error ? error.message : String(error)).slice(0, 2000);
+}
+
+// Handler results are stored as JSON; anything that doesn't survive the round trip is dropped
+function toJson(value: unknown): Prisma.InputJsonValue | undefined {
+  if (value === undefined) return undefined;
+  try {
+    return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue;
+  } catch {
+    return undefined;
+  }
+}
+
+class JobTimeoutError extends Error {
+  constructor(
+    timeoutMs: number,
+    /** Whether the handler settled after it was aborted */
+    readonly stopped: boolean
+  ) {
+    super(`Timed out after ${timeoutMs}ms${stopped ? '' : ' and kept running after it was aborted'}`);
+    this.name = 'JobTimeoutError';
+  }
+}
+
+function abortGraceMs(timeoutMs: number): number {
+  return Math.min(timeoutMs, MAX_ABORT_GRACE_MS);
+}
+
+/**
+ * Run a handler with a signal that aborts after timeoutMs. A timed-out
+ * attempt only ends once the handler has settled (or its grace period is
+ * up), so a retry never starts while this worker is still running it.
+ */
+async function runWithTimeout<T>(run: (signal: AbortSignal) => Promise<T>, timeoutMs: number): Promise<T> {
+  const controller = new AbortController();
+  const handler = run(controller.signal);
+  const settled = handler.then(
+    () => true,
+    () => true
+  );
+
+  let timer: NodeJS.Timeout | undefined;
+  const expired = new Promise<false>((resolve) => {
+    timer = setTimeout(() => resolve(false), timeoutMs);
+  });
+  try {
+    if (await Promise.race([settled, expired])) return await handler;
+  } finally {
+    clearTimeout(timer);
+  }
+
+  controller.abort(new Error(`Timed out after ${timeoutMs}ms`));
+  const grace = new Promise<false>((resolve) => {
+    timer = setTimeout(() => resolve(false), abortGraceMs(timeoutMs));
+  });
+  try {
+    throw new JobTimeoutError(timeoutMs, await Promise.race([settled, grace]));
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: string }).code === 'P2002';
+}
+
+// ============= Runtime =============
+
+export class JobRuntime<R extends JobRegistry> {
+  private readonly workerId = `${process.env.VERCEL_REGION ?? 'local'}-${process.pid}-${crypto.randomBytes(3).toString('hex')}`;
+  private readonly schedules = new Map<string, CronSchedule>();
+
+  constructor(private readonly definitions: R) {
+    for (const [name, definition] of Object.entries(definitions)) {
+      if (definition.schedule) this.schedules.set(name, parseCron(definition.schedule));
+    }
+  }
+
+  getDefinition(name: string): JobDefinition<never, unknown> {
+    const definition = this.definitions[name];
+    if (!definition) throw new JobError(JobErrorCodes.INVALID_INPUT, `Unknown job type: ${name}`);
+    return definition;
+  }
+
+  listDefinitions() {
+    return Object.entries(this.definitions).map(([name, definition]) => ({
+      name,
+      description: definition.description ?? null,
+      schedule: definition.schedule ?? null,
+      concurrency: definition.concurrency ?? DEFAULT_CONCURRENCY,
+      maxAttempts: definition.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    }));
+  }
+
+  /**
+   * Queue a job. With an idempotency key, a repeat call returns the job the
+   * first call created (whatever its status) with `created: false`.
+   */
+  async enqueue<N extends keyof R & string>(
+    name: N,
+    payload: JobPayload<R, N>,
+    options: EnqueueOptions = {}
+  ): Promise<{ id: string; created: boolean }> {
+    return this.insert(name, payload, options);
+  }
+
+  private async insert(name: string, payload: unknown, options: EnqueueOptions) {
+    const definition = this.getDefinition(name);
+    const { idempotencyKey } = options;
+
+    if (idempotencyKey) {
+      const existing = await prisma.scheduledJob.findUnique({ where: { idempotencyKey }, select: { id: true } });
+      if (existing) return { id: existing.id, created: false };
+    }
+
+    try {
+      const job = await prisma.scheduledJob.create({
+        data: {
+          type: name,
+          payload: toJson(payload) ?? {},
+          scheduledFor: options.runAt ?? new Date(Date.now() + (options.delayMs ?? 0)),
+          priority: options.priority ?? definition.priority ?? 0,
+          maxRetries: options.maxAttempts ?? definition.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+          idempotencyKey,
+        },
+        select: { id: true },
+      });
+      return { id: job.id, created: true };
+    } catch (error) {
+      // Lost a race with another enqueue of the same key
+      if (idempotencyKey && isUniqueViolation(error)) {
+        const existing = await prisma.scheduledJob.findUnique({ where: { idempotencyKey }, select: { id: true } });
+        if (existing) return { id: existing.id, created: false };
+      }
+      throw error;
+    }
+  }
+
+  /** Enqueue the latest due slot of every recurring job; returns how many were new */
+  async scheduleRecurring(now = new Date()): Promise<number> {
+    let created = 0;
+    for (const [name, schedule] of this.schedules) {
+      const slot = latestSlot(schedule, now, RECURRING_LOOKBACK_MINUTES);
+      if (!slot) continue;
+      const result = await this.insert(name, undefined, {
+        runAt: slot,
+        idempotencyKey: recurringIdempotencyKey(name, slot),
+      });
+      if (result.created) created++;
+    }
+    return created;
+  }
+
+  /**
+   * Runs that outlived their timeout and abort grace period (crashed worker,
+   * killed function) count as a failed attempt
+   */
+  async reclaimStale(now = new Date()): Promise<number> {
+    const running = await prisma.scheduledJob.findMany({ where: { status: 'processing' } });
+    let reclaimed = 0;
+    for (const job of running) {
+      const timeoutMs = this.definitions[job.type]?.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+      const lockedAt = job.lockedAt ?? job.startedAt;
+      if (lockedAt && now.getTime() - lockedAt.getTime() > timeoutMs + abortGraceMs(timeoutMs)) {
+        const outcome = await this.recordFailure(job, `Worker ${job.lockedBy ?? 'unknown'} did not finish within ${timeoutMs}ms`, now);
+        if (outcome) reclaimed++;
+      }
+    }
+    return reclaimed;
+  }
+
+  /**
+   * Claim due jobs up to each type's concurrency limit. Each claim takes a
+   * per-type advisory lock and recounts the type's running jobs under it, so
+   * workers claiming at the same time can't push a type past its limit; the
+   * status guard on the update keeps two workers off the same job.
+   */
+  async claim(now = new Date(), limit = CLAIM_BATCH_SIZE): Promise<JobRow[]> {
+    const [due, running] = await Promise.all([
+      prisma.scheduledJob.findMany({
+        where: { status: 'pending', scheduledFor: { lte: now } },
+        orderBy: [{ priority: 'desc' }, { scheduledFor: 'asc' }],
+        take: limit * 4,
+      }),
+      prisma.scheduledJob.groupBy({ by: ['type'], where: { status: 'processing' }, _count: { _all: true } }),
+    ]);
+
+    // A snapshot that only ever undercounts: it lets full types skip the lock
+    const runningByType = new Map(running.map((row) => [row.type, row._count._all]));
+    const claimed: JobRow[] = [];
+
+    for (const job of due) {
+      if (claimed.length >= limit) break;
+      const definition = this.definitions[job.type];
+      if (!definition) {
+        await this.deadLetter(job, `No job definition for type "${job.type}"`, now, { status: 'pending' });
+        continue;
+      }
+      const concurrency = definition.concurrency ?? DEFAULT_CONCURRENCY;
+      if ((runningByType.get(job.type) ?? 0) >= concurrency) continue;
+
+      const { active, won } = await prisma.$transaction(async (tx) => {
+        await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`job-claim:${job.type}`}))`;
+        const active = await tx.scheduledJob.count({ where: { type: job.type, status: 'processing' } });
+        if (active >= concurrency) return { active, won: false };
+        const { count } = await tx.scheduledJob.updateMany({
+          where: { id: job.id, status: 'pending' },
+          data: { status: 'processing', lockedBy: this.workerId, lockedAt: now, startedAt: now },
+        });
+        return { active: active + count, won: count === 1 };
+      });
+      runningByType.set(job.type, active);
+      if (won) claimed.push({ ...job, status: 'processing', lockedBy: this.workerId, lockedAt: now, startedAt: now });
+    }
+    return claimed;
+  }
+
+  /**
+   * Run a claimed job and record the outcome; never throws. A JobError, or
+   * a run that timed out and then ignored its abort signal (it may still be
+   * running), is dead-lettered rather than retried.
+   */
+  async execute(job: JobRow): Promise<'completed' | 'retry' | 'dead'> {
+    const definition = this.definitions[job.type];
+    const run = () =>
+      runWithTimeout(
+        (signal) =>
+          definition.handler(job.payload as never, {
+            jobId: job.id,
+            attempt: job.retryCount + 1,
+            scheduledFor: job.scheduledFor,
+            signal,
+          }),
+        definition.timeoutMs ?? DEFAULT_TIMEOUT_MS
+      );
+
+    try {
+      // Recurring runs keep feeding the cron health panel on the super-admin dashboard
+      const result = definition.schedule ? await withCronLog(job.type, run) : await run();
+      const { count } = await prisma.scheduledJob.updateMany({
+        where: this.claimGuard(job),
+        data: { status: 'completed', completedAt: new Date(), result: toJson(result), lockedBy: null, lockedAt: null },
+      });
+      if (count === 0) console.warn(`[jobs] ${job.type} ${job.id} finished after its claim was reclaimed`);
+      return 'completed';
+    } catch (error) {
+      const retry = !(error instanceof JobError) && !(error instanceof JobTimeoutError && !error.stopped);
+      return (await this.recordFailure(job, errorMessage(error), new Date(), retry)) ?? 'retry';
+    }
+  }
+
+  /** Claim and run jobs until the queue is drained or the time budget is spent */
+  async work(options: { budgetMs?: number; now?: () => Date } = {}): Promise<WorkSummary> {
+    const now = options.now ?? (() => new Date());
+    const deadline = Date.now() + (options.budgetMs ?? 50_000);
+    const summary: WorkSummary = { processed: 0, succeeded: 0, retried: 0, deadLettered: 0 };
+
+    await this.reclaimStale(now());
+    while (Date.now() < deadline) {
+      const batch = await this.claim(now());
+      if (batch.length === 0) break;
+      const outcomes = await Promise.all(batch.map((job) => this.execute(job)));
+      for (const outcome of outcomes) {
+        summary.processed++;
+        if (outcome === 'completed') summary.succeeded++;
+        else if (outcome === 'retry') summary.retried++;
+        else summary.deadLettered++;
+      }
+    }
+    return summary;
+  }
+
+  /** One scheduler pass: enqueue due recurring slots, then work the queue */
+  async tick(options: { budgetMs?: number } = {}) {
+    const scheduled = await this.scheduleRecurring();
+    const summary = await this.work(options);
+    return { scheduled, ...summary };
+  }
+
+  /**
+   * Run a recurring job inline. Cron triggers pass the slot they were fired
+   * for, which shares the tick's idempotency key, so a slot the tick already
+   * ran isn't run twice. Without `manual` a late trigger maps to the slot it
+   * was late for; a manual run always gets a fresh job.
+   */
+  async runRecurringNow(name: keyof R & string, options: { manual?: boolean; now?: Date } = {}) {
+    const schedule = this.schedules.get(name);
+    if (!schedule) throw new JobError(JobErrorCodes.INVALID_INPUT, `${name} is not a recurring job`);
+    const now = options.now ?? new Date();
+
+    if (options.manual) {
+      const { id } = await this.insert(name, undefined, { runAt: now });
+      return this.runNow(id);
+    }
+
+    const slot = latestSlot(schedule, now, RECURRING_LOOKBACK_MINUTES) ?? new Date(now);
+    slot.setUTCSeconds(0, 0);
+    const { id } = await this.insert(name, undefined, {
+      runAt: slot,
+      idempotencyKey: recurringIdempotencyKey(name, slot),
+    });
+    return this.runNow(id);
+  }
+
+  /** Claim one pending job regardless of its schedule and run it inline */
+  async runNow(id: string) {
+    const now = new Date();
+    const { count } = await prisma.scheduledJob.updateMany({
+      where: { id, status: 'pending' },
+      data: { status: 'processing', lockedBy: this.workerId, lockedAt: now, startedAt: now },
+    });
+    const job = await prisma.scheduledJob.findUnique({ where: { id } });
+    if (!job) throw new JobError(JobErrorCodes.NOT_FOUND, 'Job not found');
+    if (count === 1) await this.execute(job);
+    return prisma.scheduledJob.findUniqueOrThrow({ where: { id } });
+  }
+
+  // ============= Failure handling =============
+
+  /** Matches the job only while this attempt still holds its claim */
+  private claimGuard(job: JobRow): Prisma.ScheduledJobWhereInput {
+    return { id: job.id, status: 'processing', retryCount: job.retryCount };
+  }
+
+  /**
+   * Retry or dead-letter a failed attempt. Returns null when the attempt had
+   * already been settled elsewhere (reclaimed as stale, or finished late).
+   */
+  private async recordFailure(
+    job: JobRow,
+    error: string,
+    now = new Date(),
+    retry = true
+  ): Promise<'retry' | 'dead' | null> {
+    const attempt = job.retryCount + 1;
+    const history = [
+      ...((Array.isArray(job.errors) ? job.errors : []) as unknown as JobErrorEntry[]),
+      { attempt, error, at: now.toISOString() },
+    ].slice(-MAX_ERROR_HISTORY);
+
+    if (!retry || attempt >= job.maxRetries) {
+      const dead = await this.deadLetter(
+        { ...job, retryCount: attempt, errors: history as unknown as Prisma.JsonValue },
+        error,
+        now,
+        this.claimGuard(job)
+      );
+      return dead ? 'dead' : null;
+    }
+
+    const definition = this.definitions[job.type];
+    const { count } = await prisma.scheduledJob.updateMany({
+      where: this.claimGuard(job),
+      data: {
+        status: 'pending',
+        retryCount: attempt,
+        scheduledFor: new Date(now.getTime() + computeBackoff(attempt, definition?.backoff)),
+        lastError: error,
+        errors: history as unknown as Prisma.InputJsonValue,
+        lockedBy: null,
+        lockedAt: null,
+      },
+    });
+    if (count === 0) return null;
+    console.warn(`[jobs] ${job.type} ${job.id} attempt ${attempt}/${job.maxRetries} failed: ${error}`);
+    return 'retry';
+  }
+
+  /** Move a job to the dead-letter queue if it still matches `guard`; returns whether it did */
+  private async deadLetter(job: JobRow, error: string, now: Date, guard: Prisma.ScheduledJobWhereInput) {
+    const history = Array.isArray(job.errors)
+      ? job.errors
+      : [{ attempt: job.retryCount, error, at: now.toISOString() }];
+    const { count } = await prisma.scheduledJob.updateMany({
+      where: { ...guard, id: job.id },
+      data: {
+        status: 'dead',
+        deadAt: now,
+        retryCount: job.retryCount,
+        lastError: error,
+        errors: history as Prisma.InputJsonValue,
+        lockedBy: null,
+        lockedAt: null,
+      },
+    });
+    if (count === 0) return false;
+    console.error(`[jobs] ${job.type} ${job.id} moved to the dead-letter queue: ${error}`);
+    return true;
+  }
+
+  // ============= Admin =============
+
+  async getStats() {
+    const [counts, oldestPending] = await Promise.all([
+      prisma.scheduledJob.groupBy({ by: ['type', 'status'], _count: { _all: true } }),
+      prisma.scheduledJob.findFirst({
+        where: { status: 'pending', scheduledFor: { lte: new Date() } },
+        orderBy: { scheduledFor: 'asc' },
+        select: { scheduledFor: true },
+      }),
+    ]);
+
+    const empty = () => ({ pending: 0, processing: 0, completed: 0, dead: 0 });
+    const totals = empty();
+    const byType = new Map(this.listDefinitions().map((definition) => [definition.name, { ...definition, ...empty() }]));
+
+    for (const row of counts) {
+      const status = (DEAD_STATUSES.includes(row.status) ? 'dead' : row.status) as JobStatus;
+      if (!(status in totals)) continue;
+      totals[status] += row._count._all;
+      const entry =
+        byType.get(row.type) ??
+        { name: row.type, description: 'No longer defined', schedule: null, concurrency: 0, maxAttempts: 0, ...empty() };
+      entry[status] += row._count._all;
+      byType.set(row.type, entry);
+    }
+
+    return { totals, byType: [...byType.values()], oldestDueAt: oldestPending?.scheduledFor ?? null };
+  }
+
+  async listJobs(filters: { status?: string; type?: string; page?: number; pageSize?: number } = {}) {
+    const pageSize = Math.min(Math.max(filters.pageSize ?? 50, 1), 200);
+    const page = Math.max(filters.page ?? 1, 1);
+    const where: Prisma.ScheduledJobWhereInput = {
+      ...(filters.status && { status: filters.status === 'dead' ? { in: DEAD_STATUSES } : filters.status }),
+      ...(filters.type && { type: filters.type }),
+    };
+
+    const [jobs, total] = await Promise.all([
+      prisma.scheduledJob.findMany({
+        where,
+        orderBy: filters.status === 'pending' ? { scheduledFor: 'asc' } : { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.scheduledJob.count({ where }),
+    ]);
+    return { jobs, total, page, pageSize };
+  }
+
+  async getJob(id: string) {
+    const job = await prisma.scheduledJob.findUnique({ where: { id } });
+    if (!job) throw new JobError(JobErrorCodes.NOT_FOUND, 'Job not found');
+    return job;
+  }
+
+  /** Send a dead-lettered job back to the queue with a fresh set of attempts */
+  async retryJob(id: string) {
+    const job = await this.getJob(id);
+    if (!DEAD_STATUSES.includes(job.status)) {
+      throw new JobError(JobErrorCodes.INVALID_STATE, `Only dead-lettered jobs can be retried (job is ${job.status})`);
+    }
+    return prisma.scheduledJob.update({
+      where: { id },
+      data: { status: 'pending', retryCount: 0, scheduledFor: new Date(), deadAt: null, lockedBy: null, lockedAt: null },
+    });
+  }
+
+  async deleteJob(id: string) {
+    const job = await this.getJob(id);
+    if (job.status === 'processing') {
+      throw new JobError(JobErrorCodes.INVALID_STATE, 'A running job cannot be deleted');
+    }
+    await prisma.scheduledJob.delete({ where: { id } });
+  }
+
+  /** Delete completed or dead-lettered jobs, optionally of one type and older than a cutoff */
+  async purgeJobs(options: { status: string; type?: string; olderThan?: Date }) {
+    if (options.status !== 'completed' && options.status !== 'dead') {
+      throw new JobError(JobErrorCodes.INVALID_INPUT, 'Only completed or dead jobs can be purged');
+    }
+    const { count } = await prisma.scheduledJob.deleteMany({
+      where: {
+        status: options.status === 'dead' ? { in: DEAD_STATUSES } : 'completed',
+        ...(options.type && { type: options.type }),
+        ...(options.olderThan && { createdAt: { lt: options.olderThan } }),
+      },
+    });
+    return count;
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Cron expressions for recurring jobs.
+ * Standard five fields (minute hour day-of-month month day-of-week) evaluated
+ * in UTC, with `*`, lists, ranges and steps. When both day fields are
+ * restricted, a day matching either one runs, as in Vixie cron.
+ */
+
+const FIELD_RANGES: [min: number, max: number][] = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 6],
+];
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+function parseField(field: string, [min, max]: [number, number], expression: string): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const [from, to] = range.split('-').map(Number);
+      start = from;
+      end = to ?? (stepText === undefined ? from : max);
+    }
+    if (![start, end, step].every(Number.isInteger) || step < 1 || start < min || end > max || start > end) {
+      throw new Error(`Invalid cron expression "${expression}"`);
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) throw new Error(`Invalid cron expression "${expression}"`);
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+    parseField(field, FIELD_RANGES[i], expression)
+  );
+  // 7 is Sunday too
+  if (daysOfWeek.has(7)) daysOfWeek.add(0);
+  return {
+    expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*',
+  };
+}
+
+export function cronMatches(schedule: CronSchedule, date: Date): boolean {
+  if (!schedule.minutes.has(date.getUTCMinutes())) return false;
+  if (!schedule.hours.has(date.getUTCHours())) return false;
+  if (!schedule.months.has(date.getUTCMonth() + 1)) return false;
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) return dayOfMonth && dayOfWeek;
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * The most recent minute at or before `now` that the schedule fires on,
+ * looking back at most `lookbackMinutes`. Ticks can be late or skipped, so
+ * the runtime enqueues this slot rather than requiring an exact match.
+ */
+export function latestSlot(schedule: CronSchedule, now: Date, lookbackMinutes: number): Date | null {
+  const slot = new Date(now);
+  slot.setUTCSeconds(0, 0);
+  for (let i = 0; i <= lookbackMinutes; i++) {
+    if (cronMatches(schedule, slot)) return new Date(slot);
+    slot.setUTCMinutes(slot.getUTCMinutes() - 1);
+  }
+  return null;
+}
@@ -0,0 +1,764 @@
+/**
+ * Tamper-evident audit chain
+ *
+ * Every AuditLog entry belongs to a chain: one per landlord, plus a
+ * "platform" chain for entries without a landlord. Entries are numbered from
+ * 1 and each stores the hash of the one before it, so editing, deleting or
+ * reordering a row breaks every hash after it.
+ *
+ *  1. Hashing      — payloadHash covers the fields redaction clears;
+ *                    contentHash covers the fields it keeps plus payloadHash;
+ *                    hash links contentHash to the previous entry. Redacted
+ *                    entries are still checked through their payloadHash.
+ *  2. Appending    — writers serialize per chain on a transaction-scoped
+ *                    advisory lock; (chainKey, sequence) is unique as a backstop.
+ *  3. Verification — walks a chain and reports gaps, broken links, edits and
+ *                    redactions earlier than retention allows. Each clean
+ *                    run records the chain head in AuditChainCheckpoint, so
+ *                    entries removed from the end of a chain are noticed.
+ *  4. Retention    — redacts short-lived categories, deletes everything past
+ *                    the longest retention and records where the chain resumes.
+ *  5. Export       — an Ed25519-signed JSON document for auditors.
+ */
+
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma, type TransactionClient } from '@/db/prisma';
+
+export const PLATFORM_CHAIN = 'platform';
+export const GENESIS_HASH = '0'.repeat(64);
+
+// ============= Errors =============
+
+export const AuditChainErrorCodes = {
+  NOT_FOUND: 'NOT_FOUND',
+  INVALID_RANGE: 'INVALID_RANGE',
+  SIGNING_NOT_CONFIGURED: 'SIGNING_NOT_CONFIGURED',
+} as const;
+
+export type AuditChainErrorCode = (typeof AuditChainErrorCodes)[keyof typeof AuditChainErrorCodes];
+
+export class AuditChainError extends Error {
+  constructor(
+    public code: AuditChainErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'AuditChainError';
+  }
+}
+
+export function getAuditChainErrorStatus(error: AuditChainError): number {
+  switch (error.code) {
+    case 'NOT_FOUND':
+      return 404;
+    case 'SIGNING_NOT_CONFIGURED':
+      return 503;
+    default:
+      return 400;
+  }
+}
+
+// ============= Hashing =============
+
+export type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+
+/** Plain JSON with dates as ISO strings and undefined values dropped */
+export function toJsonValue(value: unknown): JsonValue {
+  return value === undefined ? null : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * JSON with object keys sorted at every level. Postgres jsonb does not keep
+ * key order, so hashes are computed over this form rather than the original.
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return `[${value.map((item) => canonicalJson(item ?? null)).join(',')}]`;
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function sha256(input: string): string {
+  return crypto.createHash('sha256').update(input).digest('hex');
+}
+
+export interface AuditPayload {
+  action: string;
+  userId: string | null;
+  landlordId: string | null;
+  resourceType: string | null;
+  resourceId: string | null;
+  metadata: string | null;
+  details: JsonValue | null;
+  changes: JsonValue | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  severity: string;
+}
+
+export interface AuditLink {
+  chainKey: string;
+  sequence: number;
+  prevHash: string;
+  contentHash: string;
+  createdAt: Date;
+}
+
+/** Hash of the fields retention redacts */
+export function computePayloadHash(payload: AuditPayload): string {
+  return sha256(
+    canonicalJson({
+      metadata: payload.metadata,
+      details: payload.details,
+      changes: payload.changes,
+      ipAddress: payload.ipAddress,
+      userAgent: payload.userAgent,
+    })
+  );
+}
+
+/** Hash of the fields that outlive redaction, and of the redactable rest */
+export function computeContentHash(payload: AuditPayload, payloadHash = computePayloadHash(payload)): string {
+  return sha256(
+    canonicalJson({
+      action: payload.action,
+      userId: payload.userId,
+      landlordId: payload.landlordId,
+      resourceType: payload.resourceType,
+      resourceId: payload.resourceId,
+      severity: payload.severity,
+      payloadHash,
+    })
+  );
+}
+
+export function computeEntryHash(link: AuditLink): string {
+  return sha256(
+    canonicalJson({
+      chainKey: link.chainKey,
+      sequence: link.sequence,
+      prevHash: link.prevHash,
+      contentHash: link.contentHash,
+      createdAt: link.createdAt.toISOString(),
+    })
+  );
+}
+
+// ============= Diffs =============
+
+export type FieldChanges = Record<string, { from: JsonValue; to: JsonValue }>;
+
+/**
+ * Fields that differ between two versions of a record, as { from, to }.
+ * Only `fields` are compared when given, otherwise every key of either side.
+ * Values compare by their JSON form, so Dates and Prisma Decimals compare
+ * by value.
+ */
+export function diffRecords(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined,
+  fields?: string[]
+): FieldChanges {
+  const keys = fields ?? [...new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])];
+  const changes: FieldChanges = {};
+  for (const key of keys) {
+    const from = toJsonValue(before?.[key] ?? null);
+    const to = toJsonValue(after?.[key] ?? null);
+    if (canonicalJson(from) !== canonicalJson(to)) changes[key] = { from, to };
+  }
+  return changes;
+}
+
+// ============= Appending =============
+
+export interface AuditEntryInput {
+  action: string;
+  userId?: string | null;
+  landlordId?: string | null;
+  resourceType?: string | null;
+  resourceId?: string | null;
+  details?: Record<string, unknown> | null;
+  changes?: FieldChanges | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  severity?: string;
+}
+
+export function chainKeyFor(landlordId?: string | null): string {
+  return landlordId || PLATFORM_CHAIN;
+}
+
+// Entries still present, or the anchor left behind when retention deleted them all
+async function getChainHead(db: TransactionClient, chainKey: string): Promise<{ sequence: number; hash: string }> {
+  const last = await db.auditLog.findFirst({
+    where: { chainKey, sequence: { not: null } },
+    orderBy: { sequence: 'desc' },
+    select: { sequence: true, hash: true },
+  });
+  if (last?.sequence && last.hash) return { sequence: last.sequence, hash: last.hash };
+
+  const anchor = await db.auditChainAnchor.findUnique({ where: { chainKey } });
+  return anchor ? { sequence: anchor.sequence, hash: anchor.hash } : { sequence: 0, hash: GENESIS_HASH };
+}
+
+async function lockChain(db: TransactionClient, chainKey: string): Promise<void> {
+  await db.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`audit-chain:${chainKey}`}))`;
+}
+
+/**
+ * Append an entry to its landlord's chain. Run inside a transaction: the
+ * advisory lock is held until it commits, so concurrent writers line up.
+ */
+export async function appendAuditEntry(db: TransactionClient, entry: AuditEntryInput) {
+  const chainKey = chainKeyFor(entry.landlordId);
+  const payload: AuditPayload = {
+    action: entry.action,
+    userId: entry.userId ?? null,
+    landlordId: entry.landlordId ?? null,
+    resourceType: entry.resourceType ?? null,
+    resourceId: entry.resourceId ?? null,
+    metadata: null,
+    details: entry.details ? toJsonValue(entry.details) : null,
+    changes: entry.changes && Object.keys(entry.changes).length ? toJsonValue(entry.changes) : null,
+    ipAddress: entry.ipAddress ?? null,
+    userAgent: entry.userAgent ?? null,
+    severity: entry.severity ?? 'INFO',
+  };
+
+  await lockChain(db, chainKey);
+  const head = await getChainHead(db, chainKey);
+  const createdAt = new Date();
+  const payloadHash = computePayloadHash(payload);
+  const contentHash = computeContentHash(payload, payloadHash);
+  const link: AuditLink = { chainKey, sequence: head.sequence + 1, prevHash: head.hash, contentHash, createdAt };
+
+  return db.auditLog.create({
+    data: {
+      ...payload,
+      details: payload.details ?? Prisma.DbNull,
+      changes: payload.changes ?? Prisma.DbNull,
+      payloadHash,
+      ...link,
+      hash: computeEntryHash(link),
+    },
+  });
+}
+
+// ============= Verification =============
+
+export type ChainIssueType =
+  | 'gap'
+  | 'broken_link'
+  | 'content_mismatch'
+  | 'hash_mismatch'
+  | 'early_redaction'
+  | 'truncated'
+  | 'checkpoint_mismatch';
+
+export interface ChainIssue {
+  type: ChainIssueType;
+  sequence: number;
+  entryId?: string;
+  detail: string;
+}
+
+export interface ChainVerification {
+  chainKey: string;
+  valid: boolean;
+  checked: number;
+  redacted: number;
+  firstSequence: number | null;
+  lastSequence: number | null;
+  headHash: string | null;
+  issues: ChainIssue[];
+}
+
+export type ChainedAuditRow = Prisma.AuditLogGetPayload<object>;
+
+const VERIFY_BATCH_SIZE = 500;
+const MAX_REPORTED_ISSUES = 100;
+
+/**
+ * Check a run of entries against the entry before it. Rows must be sorted by
+ * sequence. Returns the issues found and the hash the next row should link to.
+ */
+export function checkChainSegment(
+  rows: ChainedAuditRow[],
+  previous: { sequence: number; hash: string }
+): { issues: ChainIssue[]; last: { sequence: number; hash: string } } {
+  const issues: ChainIssue[] = [];
+  let prev = previous;
+
+  for (const row of rows) {
+    const sequence = row.sequence ?? 0;
+    if (sequence !== prev.sequence + 1) {
+      issues.push({
+        type: 'gap',
+        sequence,
+        entryId: row.id,
+        detail:
+          sequence > prev.sequence + 1
+            ? `Entries ${prev.sequence + 1}–${sequence - 1} are missing`
+            : `Sequence ${sequence} follows ${prev.sequence}`,
+      });
+    } else if (row.prevHash !== prev.hash) {
+      issues.push({ type: 'broken_link', sequence, entryId: row.id, detail: 'prevHash does not match the previous entry' });
+    }
+
+    const content: AuditPayload = {
+      action: row.action,
+      userId: row.userId,
+      landlordId: row.landlordId,
+      resourceType: row.resourceType,
+      resourceId: row.resourceId,
+      metadata: row.metadata,
+      details: (row.details ?? null) as JsonValue,
+      changes: (row.changes ?? null) as JsonValue,
+      ipAddress: row.ipAddress,
+      userAgent: row.userAgent,
+      severity: row.severity,
+    };
+    // A redacted row no longer has its payload; its stored payloadHash stands in
+    const payloadHash = row.redactedAt ? row.payloadHash : computePayloadHash(content);
+    if (!payloadHash || computeContentHash(content, payloadHash) !== row.contentHash) {
+      issues.push({ type: 'content_mismatch', sequence, entryId: row.id, detail: 'Entry contents were changed after it was written' });
+    }
+
+    if (row.redactedAt) {
+      const { redactAfterDays } = retentionPolicyFor(row.action);
+      if (redactAfterDays === null || row.redactedAt.getTime() < row.createdAt.getTime() + redactAfterDays * DAY) {
+        issues.push({
+          type: 'early_redaction',
+          sequence,
+          entryId: row.id,
+          detail:
+            redactAfterDays === null
+              ? `${row.action} entries are never redacted`
+              : `Redacted before its ${redactAfterDays}-day retention ended`,
+        });
+      }
+    }
+
+    const hash = computeEntryHash({
+      chainKey: row.chainKey ?? '',
+      sequence,
+      prevHash: row.prevHash ?? '',
+      contentHash: row.contentHash ?? '',
+      createdAt: row.createdAt,
+    });
+    if (hash !== row.hash) {
+      issues.push({ type: 'hash_mismatch', sequence, entryId: row.id, detail: 'Stored hash does not match the entry' });
+    }
+
+    prev = { sequence, hash: row.hash ?? '' };
+  }
+
+  return { issues, last: prev };
+}
+
+// The entry a range starts after: the row itself, the retention anchor, or genesis
+async function getLinkBefore(chainKey: string, sequence: number): Promise<{ sequence: number; hash: string } | null> {
+  if (sequence <= 1) return { sequence: 0, hash: GENESIS_HASH };
+  const row = await prisma.auditLog.findUnique({
+    where: { chainKey_sequence: { chainKey, sequence: sequence - 1 } },
+    select: { sequence: true, hash: true },
+  });
+  if (row?.hash) return { sequence: sequence - 1, hash: row.hash };
+  const anchor = await prisma.auditChainAnchor.findUnique({ where: { chainKey } });
+  return anchor?.sequence === sequence - 1 ? { sequence: anchor.sequence, hash: anchor.hash } : null;
+}
+
+/**
+ * Walk a chain (or the part between two sequence numbers) and report every
+ * gap, broken link and edited entry.
+ */
+export async function verifyAuditChain(
+  chainKey: string,
+  options: { fromSequence?: number; toSequence?: number } = {}
+): Promise<ChainVerification> {
+  const result: ChainVerification = {
+    chainKey,
+    valid: true,
+    checked: 0,
+    redacted: 0,
+    firstSequence: null,
+    lastSequence: null,
+    headHash: null,
+    issues: [],
+  };
+
+  // Only a walk to the end of the chain can tell whether its tail is missing
+  const toHead = options.toSequence === undefined;
+
+  const first = await prisma.auditLog.findFirst({
+    where: { chainKey, sequence: { gte: options.fromSequence ?? 1, lte: options.toSequence } },
+    orderBy: { sequence: 'asc' },
+    select: { sequence: true },
+  });
+  if (!first?.sequence) {
+    if (toHead) {
+      const anchor = await prisma.auditChainAnchor.findUnique({ where: { chainKey } });
+      result.issues.push(...(await checkCheckpoint(chainKey, anchor?.sequence ?? 0)));
+      result.valid = result.issues.length === 0;
+    }
+    return result;
+  }
+
+  let previous = await getLinkBefore(chainKey, first.sequence);
+  if (!previous) {
+    result.issues.push({ type: 'gap', sequence: first.sequence, detail: `No entry or retention anchor before ${first.sequence}` });
+    previous = { sequence: first.sequence - 1, hash: '' };
+  }
+
+  let cursor = first.sequence - 1;
+  for (;;) {
+    const rows = await prisma.auditLog.findMany({
+      where: { chainKey, sequence: { gt: cursor, lte: options.toSequence } },
+      orderBy: { sequence: 'asc' },
+      take: VERIFY_BATCH_SIZE,
+    });
+    if (rows.length === 0) break;
+
+    const segment = checkChainSegment(rows, previous);
+    for (const issue of segment.issues) {
+      // A single edit breaks every hash after it; a short list is enough to find it
+      if (result.issues.length < MAX_REPORTED_ISSUES) result.issues.push(issue);
+    }
+    if (result.firstSequence === null) result.firstSequence = rows[0].sequence;
+    result.checked += rows.length;
+    result.redacted += rows.filter((row) => row.redactedAt).length;
+    previous = segment.last;
+    cursor = segment.last.sequence;
+    if (rows.length < VERIFY_BATCH_SIZE) break;
+  }
+
+  result.lastSequence = previous.sequence;
+  result.headHash = previous.hash;
+  if (toHead) result.issues.push(...(await checkCheckpoint(chainKey, previous.sequence)));
+  result.valid = result.issues.length === 0;
+  return result;
+}
+
+/**
+ * Compare the chain with the head recorded by the last clean verification.
+ * Dropping entries from the end of a chain leaves nothing to break inside it;
+ * only the checkpoint, kept outside AuditLog, shows they were there.
+ */
+async function checkCheckpoint(chainKey: string, headSequence: number): Promise<ChainIssue[]> {
+  const checkpoint = await prisma.auditChainCheckpoint.findUnique({ where: { chainKey } });
+  if (!checkpoint) return [];
+
+  if (checkpoint.sequence > headSequence) {
+    return [
+      {
+        type: 'truncated',
+        sequence: headSequence + 1,
+        detail: `Entries ${headSequence + 1}–${checkpoint.sequence} were present on ${checkpoint.recordedAt.toISOString()} and are missing`,
+      },
+    ];
+  }
+
+  const row = await prisma.auditLog.findUnique({
+    where: { chainKey_sequence: { chainKey, sequence: checkpoint.sequence } },
+    select: { id: true, hash: true },
+  });
+  // Retention may have pruned past the checkpoint; the anchor covers that part
+  if (row && row.hash !== checkpoint.hash) {
+    return [
+      {
+        type: 'checkpoint_mismatch',
+        sequence: checkpoint.sequence,
+        entryId: row.id,
+        detail: 'Entry no longer matches the hash recorded at the last verification; the chain was rewritten',
+      },
+    ];
+  }
+  return [];
+}
+
+export async function listAuditChains() {
+  const chains = await prisma.auditLog.groupBy({
+    by: ['chainKey'],
+    where: { chainKey: { not: null } },
+    _count: { _all: true },
+    _max: { sequence: true, createdAt: true },
+  });
+  return chains
+    .map((chain) => ({
+      chainKey: chain.chainKey as string,
+      entries: chain._count._all,
+      lastSequence: chain._max.sequence ?? 0,
+      lastEntryAt: chain._max.createdAt,
+    }))
+    .sort((a, b) => (b.lastEntryAt?.getTime() ?? 0) - (a.lastEntryAt?.getTime() ?? 0));
+}
+
+/**
+ * Verify every chain, including ones whose entries are all gone, and move
+ * the checkpoint of each chain that verified clean to its current head
+ */
+export async function verifyAllAuditChains(): Promise<ChainVerification[]> {
+  const [chains, checkpoints] = await Promise.all([
+    listAuditChains(),
+    prisma.auditChainCheckpoint.findMany({ select: { chainKey: true } }),
+  ]);
+  const chainKeys = [...new Set([...chains.map((chain) => chain.chainKey), ...checkpoints.map((c) => c.chainKey)])];
+
+  const results: ChainVerification[] = [];
+  for (const chainKey of chainKeys) {
+    const result = await verifyAuditChain(chainKey);
+    if (result.valid && result.lastSequence !== null && result.headHash) {
+      await prisma.auditChainCheckpoint.upsert({
+        where: { chainKey },
+        create: { chainKey, sequence: result.lastSequence, hash: result.headHash },
+        update: { sequence: result.lastSequence, hash: result.headHash, recordedAt: new Date() },
+      });
+    }
+    results.push(result);
+  }
+  return results;
+}
+
+// ============= Retention =============
+
+export interface AuditRetentionPolicy {
+  name: string;
+  prefixes: string[];
+  redactAfterDays: number | null; // null keeps the payload until the entry is deleted
+}
+
+// Entries of every category are deleted after seven years. Deleting by age
+// alone keeps deletion to the oldest end of each chain, which an anchor can
+// stand in for; shorter-lived categories are redacted instead.
+export const AUDIT_DELETE_AFTER_DAYS = 7 * 366;
+
+export const AUDIT_RETENTION_POLICIES: AuditRetentionPolicy[] = [
+  { name: 'financial', prefixes: ['PAYMENT_', 'PAYOUT_', 'REFUND_', 'LEDGER_', 'BANK_ACCOUNT_', 'RECONCILIATION_'], redactAfterDays: null },
+  { name: 'lease', prefixes: ['LEASE_', 'TENANT_'], redactAfterDays: null },
+  { name: 'auth', prefixes: ['AUTH_'], redactAfterDays: 365 },
+];
+
+export const DEFAULT_REDACT_AFTER_DAYS = 2 * 365;
+
+export function retentionPolicyFor(action: string): AuditRetentionPolicy {
+  return (
+    AUDIT_RETENTION_POLICIES.find((policy) => policy.prefixes.some((prefix) => action.startsWith(prefix))) ?? {
+      name: 'default',
+      prefixes: [],
+      redactAfterDays: DEFAULT_REDACT_AFTER_DAYS,
+    }
+  );
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function actionStartsWithAny(prefixes: string[]): Prisma.AuditLogWhereInput[] {
+  return prefixes.map((prefix) => ({ action: { startsWith: prefix } }));
+}
+
+/**
+ * Redact entries past their category's retention and delete everything past
+ * AUDIT_DELETE_AFTER_DAYS, moving each chain's anchor forward.
+ */
+export async function applyAuditRetention(now = new Date()) {
+  const redactData = {
+    metadata: null,
+    details: Prisma.DbNull,
+    changes: Prisma.DbNull,
+    ipAddress: null,
+    userAgent: null,
+    redactedAt: now,
+  };
+
+  let redacted = 0;
+  for (const policy of AUDIT_RETENTION_POLICIES) {
+    if (policy.redactAfterDays === null) continue;
+    const { count } = await prisma.auditLog.updateMany({
+      where: {
+        OR: actionStartsWithAny(policy.prefixes),
+        createdAt: { lt: new Date(now.getTime() - policy.redactAfterDays * DAY) },
+        redactedAt: null,
+      },
+      data: redactData,
+    });
+    redacted += count;
+  }
+  const { count: defaultRedacted } = await prisma.auditLog.updateMany({
+    where: {
+      NOT: { OR: actionStartsWithAny(AUDIT_RETENTION_POLICIES.flatMap((policy) => policy.prefixes)) },
+      createdAt: { lt: new Date(now.getTime() - DEFAULT_REDACT_AFTER_DAYS * DAY) },
+      redactedAt: null,
+    },
+    data: redactData,
+  });
+  redacted += defaultRedacted;
+
+  const deleteBefore = new Date(now.getTime() - AUDIT_DELETE_AFTER_DAYS * DAY);
+  let deleted = 0;
+
+  const chains = await prisma.auditLog.groupBy({
+    by: ['chainKey'],
+    where: { chainKey: { not: null }, createdAt: { lt: deleteBefore } },
+  });
+  for (const { chainKey } of chains) {
+    if (!chainKey) continue;
+    deleted += await prisma.$transaction(async (tx) => {
+      await lockChain(tx, chainKey);
+      const last = await tx.auditLog.findFirst({
+        where: { chainKey, createdAt: { lt: deleteBefore } },
+        orderBy: { sequence: 'desc' },
+        select: { sequence: true, hash: true },
+      });
+      if (!last?.sequence || !last.hash) return 0;
+
+      const { count } = await tx.auditLog.deleteMany({ where: { chainKey, sequence: { lte: last.sequence } } });
+      await tx.auditChainAnchor.upsert({
+        where: { chainKey },
+        create: { chainKey, sequence: last.sequence, hash: last.hash, prunedCount: count },
+        update: { sequence: last.sequence, hash: last.hash, prunedCount: { increment: count } },
+      });
+      return count;
+    });
+  }
+
+  // Entries written before chaining have nothing to anchor
+  const { count: legacyDeleted } = await prisma.auditLog.deleteMany({
+    where: { chainKey: null, createdAt: { lt: deleteBefore } },
+  });
+  deleted += legacyDeleted;
+
+  return { redacted, deleted };
+}
+
+// ============= Export =============
+
+export const AUDIT_EXPORT_FORMAT = 'audit-log-export/v1';
+export const AUDIT_EXPORT_MAX_ENTRIES = 50_000;
+
+export interface AuditExportDocument {
+  format: typeof AUDIT_EXPORT_FORMAT;
+  generatedAt: string;
+  generatedBy: string;
+  chainKey: string;
+  range: { from: string | null; to: string | null };
+  hashing: string;
+  previous: { sequence: number; hash: string } | null;
+  entries: Array<Record<string, JsonValue>>;
+  verification: ChainVerification;
+}
+
+export interface SignedAuditExport {
+  document: AuditExportDocument;
+  signature: { algorithm: 'Ed25519'; keyId: string; publicKey: string; value: string };
+}
+
+const HASHING_DESCRIPTION =
+  'payloadHash = SHA-256 of the canonical JSON (keys sorted) of metadata, details, changes, ipAddress and ' +
+  'userAgent. contentHash = SHA-256 of the canonical JSON of action, userId, landlordId, resourceType, resourceId, ' +
+  'severity and payloadHash. hash = SHA-256 of the canonical JSON of chainKey, sequence, prevHash, contentHash and ' +
+  'createdAt (ISO 8601). Redacted entries keep payloadHash in place of the fields it covers. The signature is ' +
+  'Ed25519 over the canonical JSON of the document.';
+
+function getSigningKey(): crypto.KeyObject {
+  const pem = process.env.AUDIT_EXPORT_SIGNING_KEY;
+  if (!pem) {
+    throw new AuditChainError(
+      AuditChainErrorCodes.SIGNING_NOT_CONFIGURED,
+      'AUDIT_EXPORT_SIGNING_KEY is not set; audit exports cannot be signed'
+    );
+  }
+  return crypto.createPrivateKey(pem.replace(/\\n/g, '\n'));
+}
+
+export function getKeyId(publicKey: crypto.KeyObject): string {
+  return sha256(publicKey.export({ type: 'spki', format: 'der' }).toString('hex')).slice(0, 16);
+}
+
+export function signAuditExport(document: AuditExportDocument, privateKey = getSigningKey()): SignedAuditExport {
+  const publicKey = crypto.createPublicKey(privateKey);
+  const value = crypto.sign(null, Buffer.from(canonicalJson(document)), privateKey).toString('base64');
+  return {
+    document,
+    signature: {
+      algorithm: 'Ed25519',
+      keyId: getKeyId(publicKey),
+      publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+      value,
+    },
+  };
+}
+
+/**
+ * Check an export's signature against a public key the auditor already
+ * trusts. The key embedded in the export only identifies which one was used.
+ */
+export function verifyAuditExportSignature(signed: SignedAuditExport, trustedPublicKeyPem: string): boolean {
+  const publicKey = crypto.createPublicKey(trustedPublicKeyPem);
+  if (getKeyId(publicKey) !== signed.signature.keyId) return false;
+  return crypto.verify(
+    null,
+    Buffer.from(canonicalJson(signed.document)),
+    publicKey,
+    Buffer.from(signed.signature.value, 'base64')
+  );
+}
+
+/**
+ * Entries of one chain between two dates, with the entry they link back to
+ * and a verification of that range, signed for auditors.
+ */
+export async function buildAuditExport(params: {
+  chainKey: string;
+  from?: Date;
+  to?: Date;
+  generatedBy: string;
+}): Promise<SignedAuditExport> {
+  if (params.from && params.to && params.from > params.to) {
+    throw new AuditChainError(AuditChainErrorCodes.INVALID_RANGE, '"from" must be before "to"');
+  }
+  const privateKey = getSigningKey();
+
+  const where: Prisma.AuditLogWhereInput = {
+    chainKey: params.chainKey,
+    createdAt: { gte: params.from, lte: params.to },
+  };
+  const count = await prisma.auditLog.count({ where });
+  if (count === 0) {
+    throw new AuditChainError(AuditChainErrorCodes.NOT_FOUND, 'No audit entries in that range');
+  }
+  if (count > AUDIT_EXPORT_MAX_ENTRIES) {
+    throw new AuditChainError(
+      AuditChainErrorCodes.INVALID_RANGE,
+      `That range has ${count.toLocaleString()} entries; narrow it to at most ${AUDIT_EXPORT_MAX_ENTRIES.toLocaleString()}`
+    );
+  }
+
+  const rows = await prisma.auditLog.findMany({ where, orderBy: { sequence: 'asc' } });
+  const fromSequence = rows[0].sequence ?? 1;
+  const toSequence = rows[rows.length - 1].sequence ?? fromSequence;
+  const [previous, verification] = await Promise.all([
+    getLinkBefore(params.chainKey, fromSequence),
+    verifyAuditChain(params.chainKey, { fromSequence, toSequence }),
+  ]);
+
+  const document: AuditExportDocument = {
+    format: AUDIT_EXPORT_FORMAT,
+    generatedAt: new Date().toISOString(),
+    generatedBy: params.generatedBy,
+    chainKey: params.chainKey,
+    range: { from: params.from?.toISOString() ?? null, to: params.to?.toISOString() ?? null },
+    hashing: HASHING_DESCRIPTION,
+    previous,
+    entries: rows.map((row) => toJsonValue(row) as Record<string, JsonValue>),
+    verification,
+  };
+
+  return signAuditExport(document, privateKey);
+}
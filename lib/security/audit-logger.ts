@@ -1,9 +1,11 @@
 /**
  * Audit Logger for tracking sensitive operations
- * Logs financial transactions, auth events, and admin actions
+ * Logs financial transactions, auth events, and admin actions.
+ * Entries are hash-chained per landlord, see audit-chain.ts.
  */
 
 import { prisma } from '@/db/prisma';
+import { appendAuditEntry, type FieldChanges } from './audit-chain';
 
 export type AuditAction =
   | 'AUTH_LOGIN'
@@ -18,13 +20,17 @@ export type AuditAction =
   | 'PAYMENT_INITIATED'
   | 'PAYMENT_COMPLETED'
   | 'PAYMENT_FAILED'
+  | 'PAYOUT_ATTEMPT'
   | 'PAYOUT_INITIATED'
   | 'PAYOUT_COMPLETED'
   | 'PAYOUT_FAILED'
   | 'REFUND_INITIATED'
   | 'REFUND_COMPLETED'
+  | 'LEDGER_ADJUSTMENT'
+  | 'LEDGER_ENTRY_REVERSED'
   | 'LEASE_CREATED'
   | 'LEASE_SIGNED'
+  | 'LEASE_MODIFIED'
   | 'LEASE_TERMINATED'
   | 'TENANT_INVITED'
   | 'TENANT_REMOVED'
@@ -32,7 +38,14 @@ export type AuditAction =
   | 'SETTINGS_CHANGED'
   | 'BANK_ACCOUNT_ADDED'
   | 'BANK_ACCOUNT_REMOVED'
-  | 'SENSITIVE_DATA_ACCESSED';
+  | 'SENSITIVE_DATA_ACCESSED'
+  | 'DATA_EXPORT_REQUESTED'
+  | 'DATA_EXPORT_COMPLETED'
+  | 'ACCOUNT_ERASURE_REQUESTED'
+  | 'ACCOUNT_ERASED'
+  | 'AUDIT_LOG_EXPORTED'
+  | 'AUDIT_CHAIN_BROKEN'
+  | 'RECONCILIATION_CLOSED';
 
 export type AuditSeverity = 'INFO' | 'WARNING' | 'CRITICAL';
 
@@ -43,6 +56,7 @@ interface AuditLogEntry {
   resourceType?: string;
   resourceId?: string;
   metadata?: Record<string, unknown>;
+  changes?: FieldChanges; // Before/after values, see diffRecords()
   ipAddress?: string;
   userAgent?: string;
   severity?: AuditSeverity;
@@ -53,20 +67,20 @@ interface AuditLogEntry {
  */
 export async function logAuditEvent(entry: AuditLogEntry): Promise<void> {
   try {
-    await prisma.auditLog.create({
-      data: {
+    await prisma.$transaction((tx) =>
+      appendAuditEntry(tx, {
         action: entry.action,
         userId: entry.userId,
         landlordId: entry.landlordId,
         resourceType: entry.resourceType,
         resourceId: entry.resourceId,
-        metadata: entry.metadata ? JSON.stringify(entry.metadata) : null,
+        details: entry.metadata,
+        changes: entry.changes,
         ipAddress: entry.ipAddress,
         userAgent: entry.userAgent,
         severity: entry.severity || 'INFO',
-        createdAt: new Date(),
-      },
-    });
+      })
+    );
   } catch (error) {
     // Don't let audit logging failures break the main flow
     console.error('Failed to log audit event:', error);
@@ -77,7 +91,7 @@ export async function logAuditEvent(entry: AuditLogEntry): Promise<void> {
  * Log a financial transaction
  */
 export async function logFinancialEvent(
-  action: 'PAYMENT_INITIATED' | 'PAYMENT_COMPLETED' | 'PAYMENT_FAILED' | 'PAYOUT_INITIATED' | 'PAYOUT_COMPLETED' | 'PAYOUT_FAILED' | 'REFUND_INITIATED' | 'REFUND_COMPLETED',
+  action: 'PAYMENT_INITIATED' | 'PAYMENT_COMPLETED' | 'PAYMENT_FAILED' | 'PAYOUT_INITIATED' | 'PAYOUT_COMPLETED' | 'PAYOUT_FAILED' | 'REFUND_INITIATED' | 'REFUND_COMPLETED' | 'LEDGER_ADJUSTMENT' | 'LEDGER_ENTRY_REVERSED',
   details: {
     userId?: string;
     landlordId?: string;
@@ -88,6 +102,7 @@ export async function logFinancialEvent(
     ipAddress?: string;
     userAgent?: string;
     additionalData?: Record<string, unknown>;
+    changes?: FieldChanges;
   }
 ): Promise<void> {
   await logAuditEvent({
@@ -102,6 +117,7 @@ export async function logFinancialEvent(
       paymentMethod: details.paymentMethod,
       ...details.additionalData,
     },
+    changes: details.changes,
     ipAddress: details.ipAddress,
     userAgent: details.userAgent,
     severity: action.includes('FAILED') ? 'WARNING' : 'INFO',
@@ -169,3 +185,17 @@ export async function getAuditLogs(params: {
     skip: params.offset || 0,
   });
 }
+
+/**
+ * An entry's metadata as an object: structured details on chained entries,
+ * the parsed JSON string on older ones
+ */
+export function getAuditDetails(log: { details?: unknown; metadata?: string | null }): Record<string, unknown> | null {
+  if (log.details && typeof log.details === 'object') return log.details as Record<string, unknown>;
+  if (!log.metadata) return null;
+  try {
+    return JSON.parse(log.metadata);
+  } catch {
+    return null;
+  }
+}
@@ -12,6 +12,7 @@
 
 import { prisma } from '@/db/prisma';
 import { PAYOUT_SECURITY } from '@/lib/config/payout-security';
+import { getAuditDetails, logAuditEvent } from '@/lib/security/audit-logger';
 
 interface SecurityCheckResult {
   allowed: boolean;
@@ -126,25 +127,20 @@ export async function logPayoutAttempt(data: {
   reason?: string;
 }) {
   try {
-    // Store metadata as JSON string since that's what the schema expects
-    const metadata = JSON.stringify({
-      amount: data.amount,
-      status: data.status,
-      reason: data.reason,
-      timestamp: new Date().toISOString(),
-    });
-
-    await prisma.auditLog.create({
-      data: {
-        userId: data.landlordId,
-        action: 'PAYOUT_ATTEMPT',
-        resourceType: 'payout',
-        resourceId: data.payoutMethodId,
-        metadata,
-        ipAddress: data.ipAddress,
-        userAgent: data.userAgent,
-        severity: data.status === 'blocked' ? 'WARNING' : 'INFO',
+    await logAuditEvent({
+      userId: data.landlordId,
+      landlordId: data.landlordId,
+      action: 'PAYOUT_ATTEMPT',
+      resourceType: 'payout',
+      resourceId: data.payoutMethodId,
+      metadata: {
+        amount: data.amount,
+        status: data.status,
+        reason: data.reason,
       },
+      ipAddress: data.ipAddress,
+      userAgent: data.userAgent,
+      severity: data.status === 'blocked' ? 'WARNING' : 'INFO',
     });
   } catch (error) {
     // Don't fail the payout if audit logging fails
@@ -161,7 +157,7 @@ export async function checkSuspiciousActivity(
   const last24Hours = new Date(Date.now() - 24 * 60 * 60 * 1000);
 
   // Check for recent failed attempts by looking at audit logs
-  // Since metadata is a string, we need to filter in application code
+  // Older entries keep metadata as a JSON string, so filter in application code
   const recentLogs = await prisma.auditLog.findMany({
     where: {
       userId: landlordId,
@@ -172,13 +168,8 @@ export async function checkSuspiciousActivity(
 
   // Count failed attempts from the logs
   const failedAttempts = recentLogs.filter(log => {
-    if (!log.metadata) return false;
-    try {
-      const meta = JSON.parse(log.metadata);
-      return meta.status === 'failed' || meta.status === 'blocked';
-    } catch {
-      return false;
-    }
+    const meta = getAuditDetails(log);
+    return meta?.status === 'failed' || meta?.status === 'blocked';
   }).length;
 
   if (failedAttempts >= PAYOUT_SECURITY.MAX_FAILED_ATTEMPTS_BEFORE_LOCK) {
@@ -0,0 +1,194 @@
+/**
+ * Counter storage for the rate limiter.
+ *
+ * Limits are counted in fixed windows ("buckets"); the sliding window in
+ * rate-limiter.ts weighs the current bucket against the one before it.
+ * Stores are tried in order: Upstash Redis when configured, then the
+ * RateLimitRecord table, then process memory. A store that throws is skipped
+ * for that call, so a Redis or database outage degrades the limiter to
+ * per-instance counting instead of failing requests.
+ */
+
+import { Redis } from '@upstash/redis';
+import { prisma } from '@/db/prisma';
+
+export interface RateLimitBucket {
+  start: Date;
+  end: Date;
+}
+
+export interface BucketCounts {
+  current: number;
+  previous: number;
+}
+
+export interface RateLimitStore {
+  name: 'redis' | 'database' | 'memory';
+  /**
+   * Count one hit in `bucket` and return its new total, along with the total
+   * of the bucket that started at `previousStart` (0 when not asked for).
+   */
+  increment(scope: string, identifier: string, bucket: RateLimitBucket, previousStart?: Date): Promise<BucketCounts>;
+  /** Same as increment without counting a hit */
+  read(scope: string, identifier: string, bucket: RateLimitBucket, previousStart?: Date): Promise<BucketCounts>;
+  clear(scope: string, identifier: string, starts: Date[]): Promise<void>;
+}
+
+// Buckets stay readable for one more window so the next one can weigh them
+function expiresAt(bucket: RateLimitBucket): number {
+  return bucket.end.getTime() * 2 - bucket.start.getTime();
+}
+
+// ============= Redis =============
+
+function redisKey(scope: string, identifier: string, start: Date): string {
+  return `rl:${scope}:${identifier}:${start.getTime()}`;
+}
+
+export function createRedisStore(redis: Redis): RateLimitStore {
+  return {
+    name: 'redis',
+    async increment(scope, identifier, bucket, previousStart) {
+      const key = redisKey(scope, identifier, bucket.start);
+      const pipeline = redis.pipeline();
+      pipeline.incr(key);
+      pipeline.pexpireat(key, expiresAt(bucket));
+      if (previousStart) pipeline.get(redisKey(scope, identifier, previousStart));
+      const [current, , previous] = await pipeline.exec<[number, number, number | null]>();
+      return { current: Number(current), previous: Number(previous ?? 0) };
+    },
+    async read(scope, identifier, bucket, previousStart) {
+      const keys = [redisKey(scope, identifier, bucket.start)];
+      if (previousStart) keys.push(redisKey(scope, identifier, previousStart));
+      const [current, previous] = await redis.mget<(number | null)[]>(...keys);
+      return { current: Number(current ?? 0), previous: Number(previous ?? 0) };
+    },
+    async clear(scope, identifier, starts) {
+      if (starts.length) await redis.del(...starts.map((start) => redisKey(scope, identifier, start)));
+    },
+  };
+}
+
+// ============= Database =============
+
+function isUniqueViolation(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: string }).code === 'P2002';
+}
+
+async function readRecord(identifier: string, endpoint: string, windowStart: Date): Promise<number> {
+  const record = await prisma.rateLimitRecord.findUnique({
+    where: { identifier_endpoint_windowStart: { identifier, endpoint, windowStart } },
+    select: { count: true },
+  });
+  return record?.count ?? 0;
+}
+
+export const databaseStore: RateLimitStore = {
+  name: 'database',
+  async increment(scope, identifier, bucket, previousStart) {
+    const where = { identifier_endpoint_windowStart: { identifier, endpoint: scope, windowStart: bucket.start } };
+    const upsert = () =>
+      prisma.rateLimitRecord.upsert({
+        where,
+        update: { count: { increment: 1 } },
+        create: { identifier, endpoint: scope, count: 1, windowStart: bucket.start, windowEnd: bucket.end },
+        select: { count: true },
+      });
+
+    // Two first hits in a bucket can race on the create; the loser retries as an update
+    const record = await upsert().catch((error) => {
+      if (isUniqueViolation(error)) return upsert();
+      throw error;
+    });
+
+    // Clean up expired records periodically (1% chance). Only this scope's rows:
+    // its window length says nothing about when another policy's previous bucket expires
+    if (Math.random() < 0.01) {
+      const cutoff = new Date(Date.now() - (bucket.end.getTime() - bucket.start.getTime()));
+      await prisma.rateLimitRecord.deleteMany({ where: { endpoint: scope, windowEnd: { lt: cutoff } } }).catch(() => {});
+    }
+
+    const previous = previousStart ? await readRecord(identifier, scope, previousStart) : 0;
+    return { current: record.count, previous };
+  },
+  async read(scope, identifier, bucket, previousStart) {
+    const [current, previous] = await Promise.all([
+      readRecord(identifier, scope, bucket.start),
+      previousStart ? readRecord(identifier, scope, previousStart) : 0,
+    ]);
+    return { current, previous };
+  },
+  async clear(scope, identifier, starts) {
+    await prisma.rateLimitRecord.deleteMany({
+      where: { identifier, endpoint: scope, windowStart: { in: starts } },
+    });
+  },
+};
+
+// ============= Memory =============
+
+export function createMemoryStore(): RateLimitStore {
+  const counters = new Map<string, { count: number; expiresAt: number }>();
+  const key = (scope: string, identifier: string, start: Date) => `${scope}:${identifier}:${start.getTime()}`;
+  const get = (k: string) => {
+    const entry = counters.get(k);
+    if (entry && entry.expiresAt <= Date.now()) {
+      counters.delete(k);
+      return 0;
+    }
+    return entry?.count ?? 0;
+  };
+
+  return {
+    name: 'memory',
+    async increment(scope, identifier, bucket, previousStart) {
+      // Clean up expired entries periodically
+      if (Math.random() < 0.01) {
+        const now = Date.now();
+        for (const [k, entry] of counters) if (entry.expiresAt <= now) counters.delete(k);
+      }
+      const k = key(scope, identifier, bucket.start);
+      const current = get(k) + 1;
+      counters.set(k, { count: current, expiresAt: expiresAt(bucket) });
+      return { current, previous: previousStart ? get(key(scope, identifier, previousStart)) : 0 };
+    },
+    async read(scope, identifier, bucket, previousStart) {
+      return {
+        current: get(key(scope, identifier, bucket.start)),
+        previous: previousStart ? get(key(scope, identifier, previousStart)) : 0,
+      };
+    },
+    async clear(scope, identifier, starts) {
+      for (const start of starts) counters.delete(key(scope, identifier, start));
+    },
+  };
+}
+
+// ============= Store chain =============
+
+const redis =
+  process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN
+    ? new Redis({
+        url: process.env.UPSTASH_REDIS_REST_URL,
+        token: process.env.UPSTASH_REDIS_REST_TOKEN,
+      })
+    : null;
+
+const stores: RateLimitStore[] = [...(redis ? [createRedisStore(redis)] : []), databaseStore, createMemoryStore()];
+
+/**
+ * Run `operation` against the first store that succeeds. The memory store
+ * never throws, so this always resolves.
+ */
+export async function withRateLimitStore<T>(operation: (store: RateLimitStore) => Promise<T>): Promise<T> {
+  let lastError: unknown;
+  for (const store of stores) {
+    try {
+      return await operation(store);
+    } catch (error) {
+      lastError = error;
+      console.error(`[rate-limit] ${store.name} store failed, falling back:`, error);
+    }
+  }
+  throw lastError;
+}
@@ -2,129 +2,181 @@
  * Rate Limiter for API endpoints
  * Prevents brute force attacks and abuse.
  *
- * Two tiers:
- *  1. checkRateLimit()        — fast in-memory Map (general API, non-critical)
- *  2. checkAuthRateLimit()    — database-backed (auth / payment endpoints, survives restarts)
+ * Limits are sliding windows shared by every server instance: hits are
+ * counted in fixed buckets (Redis when configured, otherwise the
+ * RateLimitRecord table, see rate-limit-store.ts) and the previous bucket is
+ * weighted by how much of it still falls inside the window. Calendar quotas
+ * (requests per UTC day or month) use the same counters without the sliding
+ * part.
  *
- * No Redis required. Swap checkRateLimit() for Redis when scaling up.
+ *  - checkRateLimit()      — named policy per identifier (IP, user, API key)
+ *  - checkAuthRateLimit()  — attempts per endpoint for auth / payment flows
+ *  - checkQuota()          — daily / monthly quotas for API keys
  */
-import { prisma } from '@/db/prisma';
-
-/**
- * DB-backed rate limit for auth/payment endpoints.
- * Uses the RateLimitRecord table — persists across serverless cold starts.
- * Falls back to in-memory if DB is unavailable.
- */
-export async function checkAuthRateLimit(
-  identifier: string,
-  endpoint: string,
-  maxAttempts = 5,
-  windowMinutes = 15
-): Promise<{ allowed: boolean; remaining: number; resetIn: number }> {
-  const now = new Date();
-  const windowStart = new Date(now.getTime() - windowMinutes * 60 * 1000);
-  const windowEnd = new Date(now.getTime() + windowMinutes * 60 * 1000);
-
-  try {
-    // Upsert the count for this identifier+endpoint within the current window
-    const record = await prisma.rateLimitRecord.upsert({
-      where: {
-        identifier_endpoint_windowStart: { identifier, endpoint, windowStart },
-      },
-      update: { count: { increment: 1 } },
-      create: { identifier, endpoint, count: 1, windowStart, windowEnd },
-    });
-
-    // Clean up expired records periodically (1% chance)
-    if (Math.random() < 0.01) {
-      await prisma.rateLimitRecord.deleteMany({ where: { windowEnd: { lt: now } } }).catch(() => {});
-    }
-
-    const remaining = Math.max(0, maxAttempts - record.count);
-    return {
-      allowed: record.count <= maxAttempts,
-      remaining,
-      resetIn: windowEnd.getTime() - now.getTime(),
-    };
-  } catch {
-    // DB unavailable — fall back to in-memory check
-    return checkRateLimit(`${identifier}:${endpoint}`, RATE_LIMIT_CONFIGS.authStrict);
-  }
-}
-
-interface RateLimitEntry {
-  count: number;
-  resetTime: number;
-}
-
-// In-memory store (use Redis in production for distributed systems)
-const rateLimitStore = new Map<string, RateLimitEntry>();
+import { withRateLimitStore, type BucketCounts, type RateLimitBucket } from './rate-limit-store';
 
 interface RateLimitConfig {
   windowMs: number; // Time window in milliseconds
   maxRequests: number; // Max requests per window
+  name?: string; // Policy name; counters are kept per policy
 }
 
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  resetIn: number; // Milliseconds until a request would be allowed again (or the window rolls over)
+  limit: number;
+  windowMs: number;
+}
+
+export type QuotaPeriod = 'day' | 'month';
+
 // Default configurations for different endpoint types
 export const RATE_LIMIT_CONFIGS = {
-  auth: { windowMs: 15 * 60 * 1000, maxRequests: 5 }, // 5 attempts per 15 min
-  authStrict: { windowMs: 60 * 60 * 1000, maxRequests: 3 }, // 3 attempts per hour (for 2FA)
-  api: { windowMs: 60 * 1000, maxRequests: 100 }, // 100 requests per minute
-  sensitive: { windowMs: 60 * 1000, maxRequests: 10 }, // 10 requests per minute
+  auth: { name: 'auth', windowMs: 15 * 60 * 1000, maxRequests: 5 }, // 5 attempts per 15 min
+  authStrict: { name: 'authStrict', windowMs: 60 * 60 * 1000, maxRequests: 3 }, // 3 attempts per hour (for 2FA)
+  api: { name: 'api', windowMs: 60 * 1000, maxRequests: 100 }, // 100 requests per minute
+  sensitive: { name: 'sensitive', windowMs: 60 * 1000, maxRequests: 10 }, // 10 requests per minute
 } as const;
 
+function policyScope(config: RateLimitConfig): string {
+  return config.name ?? `${config.maxRequests}/${config.windowMs}`;
+}
+
+// ============= Windows =============
+
+/**
+ * The bucket `now` falls in, the start of the bucket before it, and the
+ * share of that previous bucket still inside the sliding window.
+ */
+export function getSlidingWindow(now: number, windowMs: number) {
+  const start = Math.floor(now / windowMs) * windowMs;
+  return {
+    bucket: { start: new Date(start), end: new Date(start + windowMs) },
+    previousStart: new Date(start - windowMs),
+    previousWeight: 1 - (now - start) / windowMs,
+  };
+}
+
+export function evaluateSlidingWindow(counts: BucketCounts, config: RateLimitConfig, now: number): RateLimitResult {
+  const { bucket, previousWeight } = getSlidingWindow(now, config.windowMs);
+  const estimate = Math.floor(counts.previous * previousWeight) + counts.current;
+  const allowed = estimate <= config.maxRequests;
+  const untilRollover = bucket.end.getTime() - now;
+
+  let resetIn = untilRollover;
+  if (!allowed && counts.current < config.maxRequests && counts.previous > 0) {
+    // The estimate falls as the previous bucket slides out; find when it fits again
+    const weightThatFits = (config.maxRequests - counts.current) / counts.previous;
+    resetIn = Math.max((previousWeight - weightThatFits) * config.windowMs, 1000);
+  }
+
+  return {
+    allowed,
+    remaining: Math.max(0, config.maxRequests - estimate),
+    resetIn: Math.ceil(resetIn),
+    limit: config.maxRequests,
+    windowMs: config.windowMs,
+  };
+}
+
+export function getCalendarWindow(now: number, period: QuotaPeriod): RateLimitBucket {
+  const date = new Date(now);
+  if (period === 'day') {
+    const start = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+    return { start: new Date(start), end: new Date(start + 24 * 60 * 60 * 1000) };
+  }
+  return {
+    start: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1)),
+  };
+}
+
+// ============= Checks =============
+
 /**
- * Check if a request should be rate limited
+ * Check if a request should be rate limited. Counts the request.
  * @param identifier - Unique identifier (IP address, user ID, etc.)
  * @param config - Rate limit configuration
- * @returns Object with allowed status and remaining requests
  */
-export function checkRateLimit(
+export async function checkRateLimit(
   identifier: string,
   config: RateLimitConfig = RATE_LIMIT_CONFIGS.api
-): { allowed: boolean; remaining: number; resetIn: number } {
+): Promise<RateLimitResult> {
   const now = Date.now();
-  const key = identifier;
-  const entry = rateLimitStore.get(key);
+  const { bucket, previousStart } = getSlidingWindow(now, config.windowMs);
+  const counts = await withRateLimitStore((store) =>
+    store.increment(policyScope(config), identifier, bucket, previousStart)
+  );
+  return evaluateSlidingWindow(counts, config, now);
+}
 
-  // Clean up expired entries periodically
-  if (Math.random() < 0.01) {
-    cleanupExpiredEntries();
-  }
+/**
+ * Where an identifier stands against a policy, without counting a request
+ */
+export async function peekRateLimit(identifier: string, config: RateLimitConfig): Promise<RateLimitResult> {
+  const now = Date.now();
+  const { bucket, previousStart } = getSlidingWindow(now, config.windowMs);
+  const counts = await withRateLimitStore((store) => store.read(policyScope(config), identifier, bucket, previousStart));
+  const result = evaluateSlidingWindow(counts, config, now);
+  // Nothing was counted, so "allowed" means the next request would be
+  return { ...result, allowed: result.remaining > 0 };
+}
 
-  if (!entry || now > entry.resetTime) {
-    // First request or window expired
-    rateLimitStore.set(key, {
-      count: 1,
-      resetTime: now + config.windowMs,
-    });
-    return {
-      allowed: true,
-      remaining: config.maxRequests - 1,
-      resetIn: config.windowMs,
-    };
-  }
+/**
+ * Rate limit for auth/payment endpoints: attempts per identifier+endpoint.
+ */
+export async function checkAuthRateLimit(
+  identifier: string,
+  endpoint: string,
+  maxAttempts = 5,
+  windowMinutes = 15
+): Promise<{ allowed: boolean; remaining: number; resetIn: number }> {
+  return checkRateLimit(identifier, { name: `auth:${endpoint}`, windowMs: windowMinutes * 60 * 1000, maxRequests: maxAttempts });
+}
 
-  if (entry.count >= config.maxRequests) {
-    // Rate limit exceeded
-    return {
-      allowed: false,
-      remaining: 0,
-      resetIn: entry.resetTime - now,
-    };
-  }
+/**
+ * Count a request against a calendar quota (UTC day or month).
+ */
+export async function checkQuota(
+  scope: string,
+  identifier: string,
+  limit: number,
+  period: QuotaPeriod
+): Promise<RateLimitResult> {
+  const now = Date.now();
+  const window = getCalendarWindow(now, period);
+  const { current } = await withRateLimitStore((store) => store.increment(`${scope}:${period}`, identifier, window));
+  return quotaResult(current, limit, window, now);
+}
 
-  // Increment counter
-  entry.count++;
-  rateLimitStore.set(key, entry);
+/** Requests used so far in the current quota period */
+export async function getQuotaUsage(scope: string, identifier: string, period: QuotaPeriod): Promise<number> {
+  const window = getCalendarWindow(Date.now(), period);
+  const { current } = await withRateLimitStore((store) => store.read(`${scope}:${period}`, identifier, window));
+  return current;
+}
 
+function quotaResult(used: number, limit: number, window: RateLimitBucket, now: number): RateLimitResult {
   return {
-    allowed: true,
-    remaining: config.maxRequests - entry.count,
-    resetIn: entry.resetTime - now,
+    allowed: used <= limit,
+    remaining: Math.max(0, limit - used),
+    resetIn: window.end.getTime() - now,
+    limit,
+    windowMs: window.end.getTime() - window.start.getTime(),
   };
 }
 
+/**
+ * Reset rate limit for a specific identifier (useful after successful auth)
+ */
+export async function resetRateLimit(identifier: string, config: RateLimitConfig = RATE_LIMIT_CONFIGS.auth): Promise<void> {
+  const { bucket, previousStart } = getSlidingWindow(Date.now(), config.windowMs);
+  await withRateLimitStore((store) => store.clear(policyScope(config), identifier, [bucket.start, previousStart]));
+}
+
+// ============= Request helpers =============
+
 /**
  * Get client identifier from request
  */
@@ -133,14 +185,48 @@ export function getClientIdentifier(request: Request): string {
   const forwarded = request.headers.get('x-forwarded-for');
   const realIp = request.headers.get('x-real-ip');
   const cfConnectingIp = request.headers.get('cf-connecting-ip');
-  
+
   if (cfConnectingIp) return cfConnectingIp;
   if (realIp) return realIp;
   if (forwarded) return forwarded.split(',')[0].trim();
-  
+
   return 'unknown';
 }
 
+/**
+ * Rate limit headers for one or more limits that applied to a request.
+ * RateLimit-Limit/Remaining/Reset describe the limit closest to running out;
+ * RateLimit-Policy lists all of them ("limit;w=window-seconds"). The
+ * X-RateLimit-* headers mirror them for older clients.
+ */
+export function buildRateLimitHeaders(results: RateLimitResult[]): Headers {
+  const headers = new Headers();
+  if (results.length === 0) return headers;
+
+  const tightest = results.reduce((a, b) =>
+    a.remaining < b.remaining || (a.remaining === b.remaining && a.resetIn > b.resetIn) ? a : b
+  );
+  const resetSeconds = Math.ceil(tightest.resetIn / 1000).toString();
+
+  headers.set('RateLimit-Limit', tightest.limit.toString());
+  headers.set('RateLimit-Remaining', tightest.remaining.toString());
+  headers.set('RateLimit-Reset', resetSeconds);
+  headers.set(
+    'RateLimit-Policy',
+    results.map((result) => `${result.limit};w=${Math.round(result.windowMs / 1000)}`).join(', ')
+  );
+  headers.set('X-RateLimit-Limit', tightest.limit.toString());
+  headers.set('X-RateLimit-Remaining', tightest.remaining.toString());
+  headers.set('X-RateLimit-Reset', resetSeconds);
+
+  const denied = results.filter((result) => !result.allowed);
+  if (denied.length) {
+    const retryAfter = Math.max(...denied.map((result) => result.resetIn));
+    headers.set('Retry-After', Math.ceil(retryAfter / 1000).toString());
+  }
+  return headers;
+}
+
 /**
  * Create rate limit response headers
  */
@@ -150,27 +236,11 @@ export function createRateLimitHeaders(
   limit: number
 ): Headers {
   const headers = new Headers();
+  headers.set('RateLimit-Limit', limit.toString());
+  headers.set('RateLimit-Remaining', remaining.toString());
+  headers.set('RateLimit-Reset', Math.ceil(resetIn / 1000).toString());
   headers.set('X-RateLimit-Limit', limit.toString());
   headers.set('X-RateLimit-Remaining', remaining.toString());
   headers.set('X-RateLimit-Reset', Math.ceil(resetIn / 1000).toString());
   return headers;
 }
-
-/**
- * Clean up expired entries from the store
- */
-function cleanupExpiredEntries(): void {
-  const now = Date.now();
-  for (const [key, entry] of rateLimitStore.entries()) {
-    if (now > entry.resetTime) {
-      rateLimitStore.delete(key);
-    }
-  }
-}
-
-/**
- * Reset rate limit for a specific identifier (useful after successful auth)
- */
-export function resetRateLimit(identifier: string): void {
-  rateLimitStore.delete(identifier);
-}
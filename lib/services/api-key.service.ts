@@ -8,6 +8,7 @@
 import { prisma } from '@/db/prisma';
 import { createHash, randomBytes } from 'crypto';
 import { hasFeatureAccess, normalizeTier } from '@/lib/config/subscription-tiers';
+import { getQuotaUsage } from '@/lib/security/rate-limiter';
 
 // API Key Scopes
 export const API_SCOPES = {
@@ -53,6 +54,53 @@ export const API_SCOPES = {
 
 export type ApiScope = keyof typeof API_SCOPES;
 
+// Request quotas by API key plan (UTC day / UTC month). A key's own
+// dailyQuota / monthlyQuota, when set, take precedence over its plan.
+export const API_KEY_PLANS = {
+  standard: { label: 'Standard', dailyQuota: 10_000, monthlyQuota: 200_000 },
+  growth: { label: 'Growth', dailyQuota: 50_000, monthlyQuota: 1_000_000 },
+  scale: { label: 'Scale', dailyQuota: 250_000, monthlyQuota: 5_000_000 },
+} as const;
+
+export type ApiKeyPlan = keyof typeof API_KEY_PLANS;
+
+export interface ApiKeyLimits {
+  id: string;
+  rateLimit: number;
+  rateLimitWindow: number;
+  dailyQuota: number;
+  monthlyQuota: number;
+}
+
+// Counter scope for key quotas in the rate limiter
+export const API_KEY_QUOTA_SCOPE = 'api-key';
+
+export function isApiKeyPlan(plan: string): plan is ApiKeyPlan {
+  return Object.prototype.hasOwnProperty.call(API_KEY_PLANS, plan);
+}
+
+/**
+ * Effective limits for a key: its burst window plus plan quotas with any
+ * per-key overrides applied. Unknown plans fall back to standard.
+ */
+export function resolveApiKeyLimits(apiKey: {
+  id: string;
+  plan: string;
+  rateLimit: number;
+  rateLimitWindow: number;
+  dailyQuota: number | null;
+  monthlyQuota: number | null;
+}): ApiKeyLimits {
+  const plan = API_KEY_PLANS[isApiKeyPlan(apiKey.plan) ? apiKey.plan : 'standard'];
+  return {
+    id: apiKey.id,
+    rateLimit: apiKey.rateLimit,
+    rateLimitWindow: apiKey.rateLimitWindow,
+    dailyQuota: apiKey.dailyQuota ?? plan.dailyQuota,
+    monthlyQuota: apiKey.monthlyQuota ?? plan.monthlyQuota,
+  };
+}
+
 interface CreateApiKeyParams {
   landlordId: string;
   name: string;
@@ -69,6 +117,7 @@ interface ApiKeyValidationResult {
     landlordId: string;
     name: string;
     scopes: string[];
+    limits: ApiKeyLimits;
   };
   error?: string;
 }
@@ -162,7 +211,9 @@ export async function createApiKey(params: CreateApiKeyParams) {
  * Validate an API key and return the associated landlord
  */
 export async function validateApiKey(key: string): Promise<ApiKeyValidationResult> {
-  if (!key || !key.startsWith('pk_live_')) {
+  // pk_live_ keys come from createApiKey, pfhq_ keys from the developer settings page
+  const isLandlordKey = key?.startsWith('pk_live_') || (key?.startsWith('pfhq_') && !key.startsWith('pfhq_c_'));
+  if (!key || !isLandlordKey) {
     return { valid: false, error: 'Invalid API key format' };
   }
 
@@ -208,6 +259,7 @@ export async function validateApiKey(key: string): Promise<ApiKeyValidationResul
       landlordId: apiKey.landlordId,
       name: apiKey.name,
       scopes: apiKey.scopes,
+      limits: resolveApiKeyLimits(apiKey),
     },
   };
 }
@@ -216,7 +268,7 @@ export async function validateApiKey(key: string): Promise<ApiKeyValidationResul
  * Check if an API key has a specific scope
  */
 export function hasScope(apiKeyScopes: string[], requiredScope: ApiScope): boolean {
-  return apiKeyScopes.includes(requiredScope);
+  return apiKeyScopes.includes('*') || apiKeyScopes.includes(requiredScope);
 }
 
 /**
@@ -232,6 +284,9 @@ export async function listApiKeys(landlordId: string) {
       scopes: true,
       rateLimit: true,
       rateLimitWindow: true,
+      plan: true,
+      dailyQuota: true,
+      monthlyQuota: true,
       lastUsedAt: true,
       expiresAt: true,
       isActive: true,
@@ -303,3 +358,70 @@ export async function updateApiKey(
     data,
   });
 }
+
+const USAGE_HISTORY_DAYS = 14;
+
+/**
+ * Quota usage for each of a landlord's keys, plus daily request and
+ * throttled (429) counts over the last two weeks from the request log
+ */
+export async function getApiKeyUsage(landlordId: string) {
+  const keys = await prisma.apiKey.findMany({
+    where: { landlordId },
+    select: {
+      id: true,
+      name: true,
+      keyPrefix: true,
+      isActive: true,
+      plan: true,
+      rateLimit: true,
+      rateLimitWindow: true,
+      dailyQuota: true,
+      monthlyQuota: true,
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  const since = new Date(Date.now() - USAGE_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+  const history = await prisma.$queryRaw<Array<{ api_key_id: string; day: Date; requests: bigint; throttled: bigint }>>`
+    SELECT
+      "apiKeyId" AS api_key_id,
+      date_trunc('day', "createdAt") AS day,
+      COUNT(*) AS requests,
+      COUNT(*) FILTER (WHERE "statusCode" = 429) AS throttled
+    FROM "ApiRequestLog"
+    WHERE "landlordId" = ${landlordId}::uuid
+      AND "apiKeyId" IS NOT NULL
+      AND "createdAt" >= ${since}
+    GROUP BY 1, 2
+    ORDER BY 2
+  `;
+
+  return Promise.all(
+    keys.map(async (key) => {
+      const limits = resolveApiKeyLimits(key);
+      const [usedToday, usedThisMonth] = await Promise.all([
+        getQuotaUsage(API_KEY_QUOTA_SCOPE, key.id, 'day'),
+        getQuotaUsage(API_KEY_QUOTA_SCOPE, key.id, 'month'),
+      ]);
+      return {
+        id: key.id,
+        name: key.name,
+        keyPrefix: key.keyPrefix,
+        isActive: key.isActive,
+        plan: isApiKeyPlan(key.plan) ? key.plan : 'standard',
+        rateLimit: limits.rateLimit,
+        rateLimitWindow: limits.rateLimitWindow,
+        daily: { used: usedToday, quota: limits.dailyQuota },
+        monthly: { used: usedThisMonth, quota: limits.monthlyQuota },
+        history: history
+          .filter((row) => row.api_key_id === key.id)
+          .map((row) => ({
+            day: row.day.toISOString().slice(0, 10),
+            requests: Number(row.requests),
+            throttled: Number(row.throttled),
+          })),
+      };
+    })
+  );
+}
@@ -13,6 +13,7 @@
 import { prisma } from '@/db/prisma';
 import { resolveTemplateForProperty } from './lease-template.service';
 import { generateLeaseHtml, buildLeaseDataFromRecords } from './lease-builder';
+import { getJurisdictionRules, getPropertyLocation } from './jurisdiction-rules.service';
 import { htmlToPdfBuffer } from './pdf';
 import { uploadToCloudinary } from '@/lib/cloudinary';
 import { sendBrandedEmail } from './email-service';
@@ -283,6 +284,7 @@ export async function approveApplication(
       isMonthToMonth,
       billingDayOfMonth,
     },
+    jurisdiction: await getJurisdictionRules(getPropertyLocation(property.address), leaseStartDate),
   });
 
   // Generate HTML
@@ -572,7 +574,7 @@ export async function rejectApplication(
 /**
  * Generate pre-configured signature fields for the lease
  */
-function generateSignatureFields() {
+export function generateSignatureFields() {
   return [
     {
       id: 'landlord_signature',
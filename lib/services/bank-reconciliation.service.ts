@@ -0,0 +1,1082 @@
+/**
+ * Bank Reconciliation Service
+ * Ties imported bank activity to the books and closes reconciled periods:
+ * 1. Statements (OFX/QFX/CSV, see bank-statement-parser.ts) are imported per
+ *    PropertyBankAccount or FinancialAccount. Lines already imported, or
+ *    dated inside a closed period, are skipped
+ * 2. Each line is scored against records of the same amount posted within a
+ *    week of it — a landlord's rent payments, payouts, wallet transactions
+ *    and expenses, or a contractor's expenses. A clear winner is matched
+ *    automatically; close calls are kept as suggestions
+ * 3. Users confirm or pick matches, exclude lines the books don't track
+ *    (bank fees, transfers between accounts) and create the missing expense
+ *    from an unmatched withdrawal
+ * 4. Closing a period needs every line matched or excluded and the statement
+ *    balance to tie out. The report is stored with its hash and the period's
+ *    lines can no longer change
+ */
+
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/db/prisma';
+import { canonicalJson } from '@/lib/security/audit-chain';
+import { logAuditEvent } from '@/lib/security/audit-logger';
+import { parseBankStatement, StatementParseError, withDedupeKeys } from './bank-statement-parser';
+
+export const ACCOUNT_KINDS = ['property_bank_account', 'financial_account'] as const;
+export type AccountKind = (typeof ACCOUNT_KINDS)[number];
+
+export const MATCH_TYPES = ['rent_payment', 'payout', 'wallet_transaction', 'expense', 'contractor_expense'] as const;
+export type MatchType = (typeof MATCH_TYPES)[number];
+
+export const LINE_STATUSES = ['unmatched', 'suggested', 'matched', 'excluded'] as const;
+export type LineStatus = (typeof LINE_STATUSES)[number];
+
+export const MATCH_WINDOW_DAYS = 7; // Auto-matching only looks this far either side of the posting date
+export const MANUAL_WINDOW_DAYS = 30; // Candidates offered when matching by hand
+export const AUTO_MATCH_CONFIDENCE = 0.85;
+export const AUTO_MATCH_MARGIN = 0.1; // Lead the best candidate needs over the runner-up
+const MAX_SUGGESTIONS = 3;
+const DAY = 24 * 60 * 60 * 1000;
+
+// ============= Errors =============
+
+export const ReconciliationErrorCodes = {
+  NOT_FOUND: 'NOT_FOUND',
+  INVALID_INPUT: 'INVALID_INPUT',
+  INVALID_STATE: 'INVALID_STATE',
+} as const;
+
+export type ReconciliationErrorCode = (typeof ReconciliationErrorCodes)[keyof typeof ReconciliationErrorCodes];
+
+export class ReconciliationError extends Error {
+  code: ReconciliationErrorCode;
+
+  constructor(code: ReconciliationErrorCode, message: string) {
+    super(message);
+    this.code = code;
+    this.name = 'ReconciliationError';
+  }
+}
+
+export function getReconciliationErrorStatus(code: ReconciliationErrorCode): number {
+  switch (code) {
+    case ReconciliationErrorCodes.NOT_FOUND:
+      return 404;
+    case ReconciliationErrorCodes.INVALID_STATE:
+      return 409;
+    default:
+      return 400;
+  }
+}
+
+// ============= Types =============
+
+export type ReconciliationOwner = { type: 'landlord'; landlordId: string } | { type: 'contractor'; contractorId: string };
+
+export interface ReconciliationAccount {
+  key: string;
+  kind: AccountKind;
+  id: string;
+  label: string;
+  last4: string | null;
+  propertyId: string | null;
+}
+
+export interface MatchCandidate {
+  type: MatchType;
+  id: string;
+  amount: number; // As it should appear on the statement
+  date: Date;
+  reference: string | null;
+  label: string;
+}
+
+export interface StatementLineForMatching {
+  id: string;
+  postedAt: Date;
+  amount: number;
+  description: string;
+  reference: string | null;
+}
+
+export interface ScoredCandidate {
+  type: MatchType;
+  id: string;
+  label: string;
+  amount: number;
+  date: string;
+  confidence: number;
+}
+
+export function accountKey(kind: AccountKind, id: string): string {
+  return `${kind}:${id}`;
+}
+
+function ownerFields(owner: ReconciliationOwner) {
+  return owner.type === 'landlord'
+    ? { landlordId: owner.landlordId, contractorId: null }
+    : { landlordId: null, contractorId: owner.contractorId };
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// ============= Accounts =============
+
+export async function listReconciliationAccounts(owner: ReconciliationOwner): Promise<ReconciliationAccount[]> {
+  if (owner.type === 'contractor') {
+    const accounts = await prisma.financialAccount.findMany({
+      where: { contractorId: owner.contractorId, status: { not: 'closed' } },
+      orderBy: { createdAt: 'asc' },
+    });
+    return accounts.map((account) => ({
+      key: accountKey('financial_account', account.id),
+      kind: 'financial_account',
+      id: account.id,
+      label: `${account.bankName ?? 'Business account'}${account.accountNumberLast4 ? ` ····${account.accountNumberLast4}` : ''}`,
+      last4: account.accountNumberLast4,
+      propertyId: null,
+    }));
+  }
+
+  const [bankAccounts, financialAccounts] = await Promise.all([
+    prisma.propertyBankAccount.findMany({
+      where: { property: { landlordId: owner.landlordId } },
+      include: { property: { select: { name: true } } },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.financialAccount.findMany({
+      where: { landlordId: owner.landlordId, status: { not: 'closed' } },
+      orderBy: { createdAt: 'asc' },
+    }),
+  ]);
+
+  return [
+    ...bankAccounts.map((account) => ({
+      key: accountKey('property_bank_account', account.id),
+      kind: 'property_bank_account' as const,
+      id: account.id,
+      label: `${account.property.name} — ${account.bankName ?? 'Bank'} ····${account.last4}`,
+      last4: account.last4,
+      propertyId: account.propertyId,
+    })),
+    ...financialAccounts.map((account) => ({
+      key: accountKey('financial_account', account.id),
+      kind: 'financial_account' as const,
+      id: account.id,
+      label: `${account.bankName ?? 'Treasury account'}${account.accountNumberLast4 ? ` ····${account.accountNumberLast4}` : ''}`,
+      last4: account.accountNumberLast4,
+      propertyId: null,
+    })),
+  ];
+}
+
+export async function resolveAccount(owner: ReconciliationOwner, key: string): Promise<ReconciliationAccount> {
+  const account = (await listReconciliationAccounts(owner)).find((candidate) => candidate.key === key);
+  if (!account) throw new ReconciliationError(ReconciliationErrorCodes.NOT_FOUND, 'Bank account not found');
+  return account;
+}
+
+/** Accounts with how many lines are in each state and when they were last closed */
+export async function getReconciliationOverview(owner: ReconciliationOwner) {
+  const accounts = await listReconciliationAccounts(owner);
+  const keys = accounts.map((account) => account.key);
+  const [counts, periods] = await Promise.all([
+    prisma.bankStatementLine.groupBy({
+      by: ['accountKey', 'status'],
+      where: { accountKey: { in: keys }, periodId: null },
+      _count: { _all: true },
+    }),
+    prisma.reconciliationPeriod.findMany({
+      where: { accountKey: { in: keys } },
+      orderBy: { periodEnd: 'desc' },
+      select: { id: true, accountKey: true, periodStart: true, periodEnd: true, closingBalance: true, closedAt: true, reportHash: true },
+    }),
+  ]);
+
+  return accounts.map((account) => {
+    const open = Object.fromEntries(LINE_STATUSES.map((status) => [status, 0])) as Record<LineStatus, number>;
+    for (const row of counts) if (row.accountKey === account.key) open[row.status as LineStatus] = row._count._all;
+    const accountPeriods = periods.filter((period) => period.accountKey === account.key);
+    return {
+      ...account,
+      open,
+      lastClosed: accountPeriods[0] ?? null,
+      periods: accountPeriods.map((period) => ({ ...period, closingBalance: Number(period.closingBalance) })),
+    };
+  });
+}
+
+// ============= Scoring =============
+
+function tokens(text: string | null | undefined): string[] {
+  return (text ?? '')
+    .toLowerCase()
+    .split(/[^a-z0-9_]+/)
+    .filter((token) => token.length >= 3);
+}
+
+/**
+ * Whether the line's description or reference mentions the candidate's
+ * reference (Stripe id, vendor name, check number)
+ */
+export function referenceMatches(line: StatementLineForMatching, candidate: MatchCandidate): boolean {
+  if (!candidate.reference) return false;
+  if (line.reference && line.reference.trim().toLowerCase() === candidate.reference.trim().toLowerCase()) return true;
+  const lineTokens = new Set([...tokens(line.description), ...tokens(line.reference)]);
+  const wanted = tokens(candidate.reference);
+  return wanted.length > 0 && wanted.every((token) => lineTokens.has(token));
+}
+
+/**
+ * 0 when the amounts differ or the dates are more than `windowDays` apart;
+ * otherwise 0.6 for the amount, up to 0.3 for how close the dates are and
+ * 0.1 when the reference lines up.
+ */
+export function scoreMatch(line: StatementLineForMatching, candidate: MatchCandidate, windowDays = MATCH_WINDOW_DAYS): number {
+  if (Math.abs(line.amount - candidate.amount) > 0.005) return 0;
+  const days = Math.abs(line.postedAt.getTime() - candidate.date.getTime()) / DAY;
+  if (days > windowDays) return 0;
+  const dateScore = 0.3 * (1 - Math.min(days, MATCH_WINDOW_DAYS) / MATCH_WINDOW_DAYS);
+  return round2(0.6 + dateScore + (referenceMatches(line, candidate) ? 0.1 : 0));
+}
+
+function toScored(candidate: MatchCandidate, confidence: number): ScoredCandidate {
+  return {
+    type: candidate.type,
+    id: candidate.id,
+    label: candidate.label,
+    amount: candidate.amount,
+    date: candidate.date.toISOString(),
+    confidence,
+  };
+}
+
+/**
+ * Pair lines with candidates. A line is matched when its best candidate
+ * scores at least AUTO_MATCH_CONFIDENCE and beats every other pairing for
+ * either side by AUTO_MATCH_MARGIN — two $1,500 rent payments on the same
+ * day are left for the user to pick. Everything else keeps its top
+ * candidates as suggestions.
+ */
+export function pickMatches(lines: StatementLineForMatching[], candidates: MatchCandidate[]) {
+  const scores = lines.map((line) =>
+    candidates
+      .map((candidate) => ({ candidate, score: scoreMatch(line, candidate) }))
+      .filter((pair) => pair.score > 0)
+      .sort((a, b) => b.score - a.score)
+  );
+
+  const matches = new Map<string, ScoredCandidate>();
+  const used = new Set<string>();
+  lines.forEach((line, index) => {
+    const [best, runnerUp] = scores[index];
+    if (!best || best.score < AUTO_MATCH_CONFIDENCE) return;
+    if (runnerUp && best.score - runnerUp.score < AUTO_MATCH_MARGIN) return;
+    const rival = scores.some(
+      (pairs, other) =>
+        other !== index &&
+        pairs.some((pair) => pair.candidate === best.candidate && best.score - pair.score < AUTO_MATCH_MARGIN)
+    );
+    if (rival) return;
+    matches.set(line.id, toScored(best.candidate, best.score));
+    used.add(`${best.candidate.type}:${best.candidate.id}`);
+  });
+
+  const suggestions = new Map<string, ScoredCandidate[]>();
+  lines.forEach((line, index) => {
+    if (matches.has(line.id)) return;
+    const top = scores[index]
+      .filter((pair) => !used.has(`${pair.candidate.type}:${pair.candidate.id}`))
+      .slice(0, MAX_SUGGESTIONS)
+      .map((pair) => toScored(pair.candidate, pair.score));
+    if (top.length) suggestions.set(line.id, top);
+  });
+
+  return { matches, suggestions };
+}
+
+// ============= Candidates =============
+
+function rentLabel(payment: { tenant: { name: string | null } | null; lease: { unit: { name: string } } }) {
+  return `Rent — ${payment.tenant?.name ?? 'Tenant'}, ${payment.lease.unit.name}`;
+}
+
+/**
+ * Book records the statement could reflect, with amounts signed as the bank
+ * sees them. Wallet payouts are left out: the Payout record is what lands in
+ * the bank.
+ */
+export async function loadCandidates(
+  owner: ReconciliationOwner,
+  account: ReconciliationAccount,
+  from: Date,
+  to: Date,
+  only?: { type: MatchType; id: string }
+): Promise<MatchCandidate[]> {
+  const wants = (type: MatchType) => !only || only.type === type;
+  const idFilter = (type: MatchType) => (only?.type === type ? { id: only.id } : {});
+  const candidates: MatchCandidate[] = [];
+
+  if (owner.type === 'contractor') {
+    if (wants('contractor_expense')) {
+      const expenses = await prisma.contractorExpense.findMany({
+        where: { contractorId: owner.contractorId, expenseDate: { gte: from, lte: to }, status: { not: 'rejected' }, ...idFilter('contractor_expense') },
+      });
+      for (const expense of expenses) {
+        candidates.push({
+          type: 'contractor_expense',
+          id: expense.id,
+          amount: -Number(expense.amount),
+          date: expense.expenseDate,
+          reference: expense.vendor,
+          label: `${expense.category} — ${expense.vendor ?? expense.description}`,
+        });
+      }
+    }
+    return candidates;
+  }
+
+  const landlordId = owner.landlordId;
+  const propertyFilter = account.propertyId ? { propertyId: account.propertyId } : {};
+
+  const [rentPayments, payouts, walletTransactions, expenses] = await Promise.all([
+    wants('rent_payment')
+      ? prisma.rentPayment.findMany({
+          where: {
+            status: 'paid',
+            paidAt: { gte: from, lte: to },
+            lease: { unit: { property: { landlordId, ...(account.propertyId ? { id: account.propertyId } : {}) } } },
+            ...idFilter('rent_payment'),
+          },
+          include: { tenant: { select: { name: true } }, lease: { select: { unit: { select: { name: true } } } } },
+        })
+      : [],
+    wants('payout')
+      ? prisma.payout.findMany({
+          where: {
+            landlordId,
+            status: { in: ['paid', 'processing'] },
+            OR: [{ paidAt: { gte: from, lte: to } }, { paidAt: null, initiatedAt: { gte: from, lte: to } }],
+            ...idFilter('payout'),
+          },
+        })
+      : [],
+    wants('wallet_transaction')
+      ? prisma.walletTransaction.findMany({
+          where: {
+            wallet: { landlordId },
+            type: { not: 'payout' },
+            status: 'completed',
+            createdAt: { gte: from, lte: to },
+            ...idFilter('wallet_transaction'),
+          },
+        })
+      : [],
+    wants('expense')
+      ? prisma.expense.findMany({
+          where: { landlordId, incurredAt: { gte: from, lte: to }, ...propertyFilter, ...idFilter('expense') },
+        })
+      : [],
+  ]);
+
+  for (const payment of rentPayments) {
+    const amountPaid = Number(payment.amountPaid);
+    candidates.push({
+      type: 'rent_payment',
+      id: payment.id,
+      amount: amountPaid > 0 ? amountPaid : Number(payment.amount),
+      date: payment.paidAt!,
+      reference: payment.stripePaymentIntentId,
+      label: rentLabel(payment),
+    });
+  }
+  for (const payout of payouts) {
+    candidates.push({
+      type: 'payout',
+      id: payout.id,
+      amount: Number(payout.amount),
+      date: payout.paidAt ?? payout.initiatedAt,
+      reference: payout.stripeTransferId,
+      label: `Payout${payout.stripeTransferId ? ` ${payout.stripeTransferId}` : ''}`,
+    });
+  }
+  for (const transaction of walletTransactions) {
+    candidates.push({
+      type: 'wallet_transaction',
+      id: transaction.id,
+      amount: Number(transaction.amount),
+      date: transaction.createdAt,
+      reference: null,
+      label: transaction.description ?? `Wallet ${transaction.type}`,
+    });
+  }
+  for (const expense of expenses) {
+    candidates.push({
+      type: 'expense',
+      id: expense.id,
+      amount: -Number(expense.amount),
+      date: expense.incurredAt,
+      reference: expense.vendor,
+      label: `${expense.category} — ${expense.vendor ?? expense.description ?? 'Expense'}`,
+    });
+  }
+
+  return candidates;
+}
+
+// Records already claimed by a line, other than `exceptLineId`
+async function excludeMatched(candidates: MatchCandidate[], exceptLineId?: string): Promise<MatchCandidate[]> {
+  if (candidates.length === 0) return candidates;
+  const claimed = await prisma.bankStatementLine.findMany({
+    where: {
+      matchId: { in: candidates.map((candidate) => candidate.id) },
+      status: 'matched',
+      ...(exceptLineId ? { id: { not: exceptLineId } } : {}),
+    },
+    select: { matchType: true, matchId: true },
+  });
+  const taken = new Set(claimed.map((line) => `${line.matchType}:${line.matchId}`));
+  return candidates.filter((candidate) => !taken.has(`${candidate.type}:${candidate.id}`));
+}
+
+function lineForMatching(line: {
+  id: string;
+  postedAt: Date;
+  amount: Prisma.Decimal | number;
+  description: string;
+  reference: string | null;
+}): StatementLineForMatching {
+  return { id: line.id, postedAt: line.postedAt, amount: Number(line.amount), description: line.description, reference: line.reference };
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: string }).code === 'P2002';
+}
+
+// ============= Auto-matching =============
+
+async function autoMatchLines(owner: ReconciliationOwner, account: ReconciliationAccount, lineIds: string[]) {
+  const lines = await prisma.bankStatementLine.findMany({
+    where: { id: { in: lineIds }, status: { in: ['unmatched', 'suggested'] }, periodId: null },
+  });
+  if (lines.length === 0) return { matched: 0, suggested: 0 };
+
+  const times = lines.map((line) => line.postedAt.getTime());
+  const candidates = await excludeMatched(
+    await loadCandidates(
+      owner,
+      account,
+      new Date(Math.min(...times) - MATCH_WINDOW_DAYS * DAY),
+      new Date(Math.max(...times) + MATCH_WINDOW_DAYS * DAY)
+    )
+  );
+  const { matches, suggestions } = pickMatches(lines.map(lineForMatching), candidates);
+
+  let matched = 0;
+  let suggested = 0;
+  for (const line of lines) {
+    const match = matches.get(line.id);
+    if (match) {
+      try {
+        await prisma.bankStatementLine.update({
+          where: { id: line.id },
+          data: {
+            status: 'matched',
+            matchType: match.type,
+            matchId: match.id,
+            matchConfidence: match.confidence,
+            matchMethod: 'auto',
+            matchedAt: new Date(),
+            suggestions: Prisma.DbNull,
+          },
+        });
+        matched++;
+        continue;
+      } catch (error) {
+        // Another line claimed the record since candidates were loaded
+        if (!isUniqueViolation(error)) throw error;
+      }
+    }
+
+    const top = suggestions.get(line.id);
+    await prisma.bankStatementLine.update({
+      where: { id: line.id },
+      data: top
+        ? { status: 'suggested', suggestions: top as unknown as Prisma.InputJsonValue }
+        : { status: 'unmatched', suggestions: Prisma.DbNull },
+    });
+    if (top) suggested++;
+  }
+
+  return { matched, suggested };
+}
+
+/** Re-run matching over an account's open lines, e.g. after entering missing expenses */
+export async function runAutoMatch(owner: ReconciliationOwner, key: string) {
+  const account = await resolveAccount(owner, key);
+  const lines = await prisma.bankStatementLine.findMany({
+    where: { accountKey: key, status: { in: ['unmatched', 'suggested'] }, periodId: null },
+    select: { id: true },
+  });
+  return autoMatchLines(
+    owner,
+    account,
+    lines.map((line) => line.id)
+  );
+}
+
+// ============= Import =============
+
+function inPeriod(date: Date, periods: { periodStart: Date; periodEnd: Date }[]): boolean {
+  return periods.some((period) => date >= period.periodStart && date <= period.periodEnd);
+}
+
+export async function importBankStatement(
+  owner: ReconciliationOwner,
+  key: string,
+  file: { name: string; content: string },
+  userId: string
+) {
+  const account = await resolveAccount(owner, key);
+
+  let parsed;
+  try {
+    parsed = parseBankStatement(file.name, file.content);
+  } catch (error) {
+    if (error instanceof StatementParseError) {
+      throw new ReconciliationError(ReconciliationErrorCodes.INVALID_INPUT, error.message);
+    }
+    throw error;
+  }
+
+  const closed = await prisma.reconciliationPeriod.findMany({
+    where: { accountKey: key },
+    select: { periodStart: true, periodEnd: true },
+  });
+  const keyed = withDedupeKeys(parsed.lines);
+  const open = keyed.filter((line) => !inPeriod(line.postedAt, closed));
+  const existing = await prisma.bankStatementLine.findMany({
+    where: { accountKey: key, dedupeKey: { in: open.map((line) => line.dedupeKey) } },
+    select: { dedupeKey: true },
+  });
+  const known = new Set(existing.map((line) => line.dedupeKey));
+  const fresh = open.filter((line) => !known.has(line.dedupeKey));
+
+  const statementImport = await prisma.$transaction(async (tx) => {
+    const created = await tx.bankStatementImport.create({
+      data: {
+        ...ownerFields(owner),
+        accountKey: key,
+        fileName: file.name.slice(0, 255),
+        format: parsed.format,
+        statementStart: parsed.statementStart,
+        statementEnd: parsed.statementEnd,
+        closingBalance: parsed.closingBalance,
+        lineCount: fresh.length,
+        duplicateCount: open.length - fresh.length,
+        lockedCount: keyed.length - open.length,
+        importedById: userId,
+      },
+    });
+    await tx.bankStatementLine.createMany({
+      data: fresh.map((line) => ({
+        importId: created.id,
+        accountKey: key,
+        dedupeKey: line.dedupeKey,
+        postedAt: line.postedAt,
+        amount: line.amount,
+        description: line.description.slice(0, 500),
+        reference: line.reference,
+      })),
+      skipDuplicates: true,
+    });
+    return created;
+  });
+
+  const lines = await prisma.bankStatementLine.findMany({ where: { importId: statementImport.id }, select: { id: true } });
+  const result = await autoMatchLines(
+    owner,
+    account,
+    lines.map((line) => line.id)
+  );
+
+  return {
+    import: { ...statementImport, closingBalance: parsed.closingBalance },
+    imported: lines.length,
+    duplicates: statementImport.duplicateCount,
+    locked: statementImport.lockedCount,
+    ...result,
+  };
+}
+
+// ============= Lines =============
+
+export async function listStatementLines(
+  owner: ReconciliationOwner,
+  key: string,
+  filters: { status?: LineStatus; from?: Date; to?: Date } = {}
+) {
+  await resolveAccount(owner, key);
+  const lines = await prisma.bankStatementLine.findMany({
+    where: {
+      accountKey: key,
+      status: filters.status,
+      postedAt: { gte: filters.from, lte: filters.to },
+    },
+    orderBy: [{ postedAt: 'desc' }, { createdAt: 'asc' }],
+    take: 1000,
+  });
+  const labels = await describeMatches(lines);
+  return lines.map((line) => ({
+    ...line,
+    amount: Number(line.amount),
+    matchLabel: line.matchType && line.matchId ? labels.get(`${line.matchType}:${line.matchId}`) ?? null : null,
+  }));
+}
+
+/** Labels for the records lines are matched to, keyed "type:id" */
+async function describeMatches(lines: { matchType: string | null; matchId: string | null }[]): Promise<Map<string, string>> {
+  const ids = (type: MatchType) =>
+    lines.filter((line) => line.matchType === type && line.matchId).map((line) => line.matchId as string);
+  const labels = new Map<string, string>();
+
+  const [rentPayments, payouts, walletTransactions, expenses, contractorExpenses] = await Promise.all([
+    ids('rent_payment').length
+      ? prisma.rentPayment.findMany({
+          where: { id: { in: ids('rent_payment') } },
+          include: { tenant: { select: { name: true } }, lease: { select: { unit: { select: { name: true } } } } },
+        })
+      : [],
+    ids('payout').length ? prisma.payout.findMany({ where: { id: { in: ids('payout') } } }) : [],
+    ids('wallet_transaction').length
+      ? prisma.walletTransaction.findMany({ where: { id: { in: ids('wallet_transaction') } } })
+      : [],
+    ids('expense').length ? prisma.expense.findMany({ where: { id: { in: ids('expense') } } }) : [],
+    ids('contractor_expense').length
+      ? prisma.contractorExpense.findMany({ where: { id: { in: ids('contractor_expense') } } })
+      : [],
+  ]);
+
+  for (const payment of rentPayments) labels.set(`rent_payment:${payment.id}`, rentLabel(payment));
+  for (const payout of payouts) labels.set(`payout:${payout.id}`, `Payout${payout.stripeTransferId ? ` ${payout.stripeTransferId}` : ''}`);
+  for (const transaction of walletTransactions) {
+    labels.set(`wallet_transaction:${transaction.id}`, transaction.description ?? `Wallet ${transaction.type}`);
+  }
+  for (const expense of expenses) {
+    labels.set(`expense:${expense.id}`, `${expense.category} — ${expense.vendor ?? expense.description ?? 'Expense'}`);
+  }
+  for (const expense of contractorExpenses) {
+    labels.set(`contractor_expense:${expense.id}`, `${expense.category} — ${expense.vendor ?? expense.description}`);
+  }
+  return labels;
+}
+
+async function getOpenLine(owner: ReconciliationOwner, lineId: string) {
+  const line = await prisma.bankStatementLine.findUnique({ where: { id: lineId } });
+  if (!line) throw new ReconciliationError(ReconciliationErrorCodes.NOT_FOUND, 'Statement line not found');
+  const account = await resolveAccount(owner, line.accountKey);
+  if (line.periodId) {
+    throw new ReconciliationError(ReconciliationErrorCodes.INVALID_STATE, 'This line is in a closed period and cannot be changed');
+  }
+  return { line, account };
+}
+
+/** Records the user could match a line to, best first */
+export async function getLineCandidates(owner: ReconciliationOwner, lineId: string): Promise<ScoredCandidate[]> {
+  const { line, account } = await getOpenLine(owner, lineId);
+  const candidates = await excludeMatched(
+    await loadCandidates(
+      owner,
+      account,
+      new Date(line.postedAt.getTime() - MANUAL_WINDOW_DAYS * DAY),
+      new Date(line.postedAt.getTime() + MANUAL_WINDOW_DAYS * DAY)
+    ),
+    line.id
+  );
+  const forMatching = lineForMatching(line);
+  return candidates
+    .filter((candidate) => Math.sign(candidate.amount) === Math.sign(forMatching.amount))
+    .map((candidate) => toScored(candidate, scoreMatch(forMatching, candidate, MANUAL_WINDOW_DAYS)))
+    .sort(
+      (a, b) =>
+        b.confidence - a.confidence || Math.abs(a.amount - forMatching.amount) - Math.abs(b.amount - forMatching.amount)
+    )
+    .slice(0, 25);
+}
+
+export type LineAction =
+  | { action: 'match'; type: MatchType; id: string }
+  | { action: 'unmatch' }
+  | { action: 'exclude'; note?: string }
+  | { action: 'include' }
+  | { action: 'create_expense'; category: string; description?: string; vendor?: string; propertyId?: string };
+
+export async function updateStatementLine(owner: ReconciliationOwner, lineId: string, input: LineAction, userId: string) {
+  const { line, account } = await getOpenLine(owner, lineId);
+  const amount = Number(line.amount);
+  const cleared = {
+    matchType: null,
+    matchId: null,
+    matchConfidence: null,
+    matchMethod: null,
+    matchedById: null,
+    matchedAt: null,
+  };
+
+  switch (input.action) {
+    case 'match': {
+      if (!MATCH_TYPES.includes(input.type)) {
+        throw new ReconciliationError(ReconciliationErrorCodes.INVALID_INPUT, 'Unknown record type');
+      }
+      const [candidate] = await excludeMatched(
+        await loadCandidates(owner, account, new Date(0), new Date(8.64e15), { type: input.type, id: input.id }),
+        line.id
+      );
+      if (!candidate) {
+        throw new ReconciliationError(ReconciliationErrorCodes.NOT_FOUND, 'Record not found or already matched to another line');
+      }
+      if (Math.abs(candidate.amount - amount) > 0.005) {
+        throw new ReconciliationError(
+          ReconciliationErrorCodes.INVALID_INPUT,
+          `Amounts differ: the statement shows ${amount.toFixed(2)}, the record ${candidate.amount.toFixed(2)}`
+        );
+      }
+      try {
+        return await prisma.bankStatementLine.update({
+          where: { id: line.id },
+          data: {
+            status: 'matched',
+            matchType: candidate.type,
+            matchId: candidate.id,
+            matchConfidence: scoreMatch(lineForMatching(line), candidate, MANUAL_WINDOW_DAYS),
+            matchMethod: 'manual',
+            matchedById: userId,
+            matchedAt: new Date(),
+            suggestions: Prisma.DbNull,
+            note: null,
+          },
+        });
+      } catch (error) {
+        if (isUniqueViolation(error)) {
+          throw new ReconciliationError(ReconciliationErrorCodes.INVALID_STATE, 'That record is already matched to another line');
+        }
+        throw error;
+      }
+    }
+
+    case 'unmatch':
+      return prisma.bankStatementLine.update({
+        where: { id: line.id },
+        data: { status: 'unmatched', ...cleared },
+      });
+
+    case 'exclude':
+      return prisma.bankStatementLine.update({
+        where: { id: line.id },
+        data: { status: 'excluded', ...cleared, suggestions: Prisma.DbNull, note: input.note?.trim() || null },
+      });
+
+    case 'include':
+      if (line.status !== 'excluded') {
+        throw new ReconciliationError(ReconciliationErrorCodes.INVALID_STATE, 'Only excluded lines can be included again');
+      }
+      return prisma.bankStatementLine.update({ where: { id: line.id }, data: { status: 'unmatched', note: null } });
+
+    case 'create_expense':
+      return createExpenseFromLine(owner, account, line, input, userId);
+
+    default:
+      throw new ReconciliationError(ReconciliationErrorCodes.INVALID_INPUT, 'Unknown action');
+  }
+}
+
+async function createExpenseFromLine(
+  owner: ReconciliationOwner,
+  account: ReconciliationAccount,
+  line: { id: string; status: string; amount: Prisma.Decimal; postedAt: Date; description: string },
+  input: Extract<LineAction, { action: 'create_expense' }>,
+  userId: string
+) {
+  const amount = Number(line.amount);
+  if (amount >= 0) {
+    throw new ReconciliationError(ReconciliationErrorCodes.INVALID_INPUT, 'Expenses can only be created from withdrawals');
+  }
+  if (line.status === 'matched') {
+    throw new ReconciliationError(ReconciliationErrorCodes.INVALID_STATE, 'This line is already matched');
+  }
+  if (!input.category?.trim()) {
+    throw new ReconciliationError(ReconciliationErrorCodes.INVALID_INPUT, 'Category is required');
+  }
+
+  const description = input.description?.trim() || line.description;
+  const vendor = input.vendor?.trim() || null;
+
+  if (owner.type === 'landlord' && input.propertyId && input.propertyId !== account.propertyId) {
+    const property = await prisma.property.findFirst({
+      where: { id: input.propertyId, landlordId: owner.landlordId },
+      select: { id: true },
+    });
+    if (!property) throw new ReconciliationError(ReconciliationErrorCodes.NOT_FOUND, 'Property not found');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const matchId =
+      owner.type === 'landlord'
+        ? (
+            await tx.expense.create({
+              data: {
+                landlordId: owner.landlordId,
+                propertyId: input.propertyId ?? account.propertyId,
+                amount: Math.abs(amount),
+                category: input.category.trim(),
+                description,
+                vendor,
+                incurredAt: line.postedAt,
+              },
+            })
+          ).id
+        : (
+            await tx.contractorExpense.create({
+              data: {
+                contractorId: owner.contractorId,
+                category: input.category.trim(),
+                description,
+                vendor,
+                amount: Math.abs(amount),
+                expenseDate: line.postedAt,
+                paymentMethod: 'bank',
+                paidBy: 'company',
+                billable: false,
+                status: 'approved',
+                approvedBy: userId,
+                approvedAt: new Date(),
+              },
+            })
+          ).id;
+
+    return tx.bankStatementLine.update({
+      where: { id: line.id },
+      data: {
+        status: 'matched',
+        matchType: owner.type === 'landlord' ? 'expense' : 'contractor_expense',
+        matchId,
+        matchConfidence: 1,
+        matchMethod: 'created',
+        matchedById: userId,
+        matchedAt: new Date(),
+        suggestions: Prisma.DbNull,
+        note: null,
+      },
+    });
+  });
+}
+
+// ============= Period close =============
+
+export interface ReconciliationReport {
+  account: { key: string; label: string };
+  periodStart: string;
+  periodEnd: string;
+  openingBalance: number;
+  closingBalance: number;
+  deposits: { count: number; total: number };
+  withdrawals: { count: number; total: number };
+  excluded: { count: number; total: number };
+  lines: Array<{
+    id: string;
+    postedAt: string;
+    description: string;
+    reference: string | null;
+    amount: number;
+    status: string;
+    matchType: string | null;
+    matchId: string | null;
+    matchLabel: string | null;
+    matchMethod: string | null;
+    note: string | null;
+  }>;
+  closedById: string;
+  closedAt: string;
+}
+
+/**
+ * Close [periodStart, periodEnd] for an account. The opening balance carries
+ * over from the previous period; the first period needs one given. Every line
+ * must be matched or excluded, and opening balance plus every line (excluded
+ * ones are still real bank activity) must equal the statement's closing
+ * balance.
+ */
+export async function closeReconciliationPeriod(
+  owner: ReconciliationOwner,
+  key: string,
+  input: { periodStart: Date; periodEnd: Date; closingBalance: number; openingBalance?: number },
+  userId: string
+) {
+  const account = await resolveAccount(owner, key);
+  const { periodStart, periodEnd } = input;
+  if (Number.isNaN(periodStart.getTime()) || Number.isNaN(periodEnd.getTime()) || periodStart > periodEnd) {
+    throw new ReconciliationError(ReconciliationErrorCodes.INVALID_INPUT, 'Period start must be on or before its end');
+  }
+  if (!Number.isFinite(input.closingBalance)) {
+    throw new ReconciliationError(ReconciliationErrorCodes.INVALID_INPUT, 'Closing balance is required');
+  }
+
+  const previous = await prisma.reconciliationPeriod.findFirst({
+    where: { accountKey: key },
+    orderBy: { periodEnd: 'desc' },
+  });
+  if (previous && periodStart <= previous.periodEnd) {
+    throw new ReconciliationError(
+      ReconciliationErrorCodes.INVALID_STATE,
+      `This account is closed through ${previous.periodEnd.toISOString().slice(0, 10)}`
+    );
+  }
+  const openingBalance = previous ? Number(previous.closingBalance) : input.openingBalance;
+  if (openingBalance === undefined || !Number.isFinite(openingBalance)) {
+    throw new ReconciliationError(ReconciliationErrorCodes.INVALID_INPUT, 'Opening balance is required for the first period');
+  }
+
+  const lines = await prisma.bankStatementLine.findMany({
+    where: { accountKey: key, postedAt: { gte: periodStart, lte: periodEnd }, periodId: null },
+    orderBy: [{ postedAt: 'asc' }, { createdAt: 'asc' }],
+  });
+  const pending = lines.filter((line) => line.status === 'unmatched' || line.status === 'suggested');
+  if (pending.length) {
+    throw new ReconciliationError(
+      ReconciliationErrorCodes.INVALID_STATE,
+      `${pending.length} line${pending.length === 1 ? ' still needs' : 's still need'} to be matched or excluded`
+    );
+  }
+
+  const net = round2(lines.reduce((sum, line) => sum + Number(line.amount), 0));
+  const difference = round2(input.closingBalance - openingBalance - net);
+  if (Math.abs(difference) >= 0.01) {
+    throw new ReconciliationError(
+      ReconciliationErrorCodes.INVALID_STATE,
+      `The period doesn't balance: opening ${openingBalance.toFixed(2)} plus activity ${net.toFixed(2)} is off from the statement by ${difference.toFixed(2)}`
+    );
+  }
+
+  const labels = await describeMatches(lines);
+  const sumOf = (selected: typeof lines) => ({
+    count: selected.length,
+    total: round2(selected.reduce((sum, line) => sum + Number(line.amount), 0)),
+  });
+  const matched = lines.filter((line) => line.status === 'matched');
+  const closedAt = new Date();
+  const report: ReconciliationReport = {
+    account: { key, label: account.label },
+    periodStart: periodStart.toISOString(),
+    periodEnd: periodEnd.toISOString(),
+    openingBalance,
+    closingBalance: input.closingBalance,
+    deposits: sumOf(matched.filter((line) => Number(line.amount) > 0)),
+    withdrawals: sumOf(matched.filter((line) => Number(line.amount) < 0)),
+    excluded: sumOf(lines.filter((line) => line.status === 'excluded')),
+    lines: lines.map((line) => ({
+      id: line.id,
+      postedAt: line.postedAt.toISOString(),
+      description: line.description,
+      reference: line.reference,
+      amount: Number(line.amount),
+      status: line.status,
+      matchType: line.matchType,
+      matchId: line.matchId,
+      matchLabel: line.matchType && line.matchId ? labels.get(`${line.matchType}:${line.matchId}`) ?? null : null,
+      matchMethod: line.matchMethod,
+      note: line.note,
+    })),
+    closedById: userId,
+    closedAt: closedAt.toISOString(),
+  };
+  const reportHash = crypto.createHash('sha256').update(canonicalJson(report)).digest('hex');
+
+  const period = await prisma.$transaction(async (tx) => {
+    const created = await tx.reconciliationPeriod.create({
+      data: {
+        ...ownerFields(owner),
+        accountKey: key,
+        periodStart,
+        periodEnd,
+        openingBalance,
+        closingBalance: input.closingBalance,
+        clearedDeposits: report.deposits.total,
+        clearedWithdrawals: report.withdrawals.total,
+        lineCount: lines.length,
+        report: report as unknown as Prisma.InputJsonValue,
+        reportHash,
+        closedById: userId,
+        closedAt,
+      },
+    });
+    // Only lines still open are locked; a concurrent edit shows up as a count mismatch
+    const { count } = await tx.bankStatementLine.updateMany({
+      where: { id: { in: lines.map((line) => line.id) }, periodId: null, status: { in: ['matched', 'excluded'] } },
+      data: { periodId: created.id },
+    });
+    if (count !== lines.length) {
+      throw new ReconciliationError(ReconciliationErrorCodes.INVALID_STATE, 'Lines changed while closing; review and try again');
+    }
+    return created;
+  });
+
+  await logAuditEvent({
+    action: 'RECONCILIATION_CLOSED',
+    userId,
+    landlordId: owner.type === 'landlord' ? owner.landlordId : undefined,
+    resourceType: 'reconciliation_period',
+    resourceId: period.id,
+    metadata: {
+      accountKey: key,
+      contractorId: owner.type === 'contractor' ? owner.contractorId : undefined,
+      periodStart: report.periodStart,
+      periodEnd: report.periodEnd,
+      closingBalance: input.closingBalance,
+      lineCount: lines.length,
+      reportHash,
+    },
+  });
+
+  return period;
+}
+
+export async function getReconciliationPeriod(owner: ReconciliationOwner, periodId: string) {
+  const period = await prisma.reconciliationPeriod.findFirst({ where: { id: periodId, ...ownerFields(owner) } });
+  if (!period) throw new ReconciliationError(ReconciliationErrorCodes.NOT_FOUND, 'Reconciliation period not found');
+  return period;
+}
+
+function csvCell(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function reconciliationReportToCsv(report: ReconciliationReport, reportHash: string): string {
+  const rows: unknown[][] = [
+    ['Account', report.account.label],
+    ['Period', `${report.periodStart.slice(0, 10)} to ${report.periodEnd.slice(0, 10)}`],
+    ['Opening balance', report.openingBalance.toFixed(2)],
+    ['Cleared deposits', report.deposits.total.toFixed(2)],
+    ['Cleared withdrawals', report.withdrawals.total.toFixed(2)],
+    ['Excluded', report.excluded.total.toFixed(2)],
+    ['Closing balance', report.closingBalance.toFixed(2)],
+    ['Closed at', report.closedAt],
+    ['Report SHA-256', reportHash],
+    [],
+    ['Date', 'Description', 'Reference', 'Amount', 'Status', 'Matched to', 'Match method', 'Note'],
+    ...report.lines.map((line) => [
+      line.postedAt.slice(0, 10),
+      line.description,
+      line.reference,
+      line.amount.toFixed(2),
+      line.status,
+      line.matchLabel,
+      line.matchMethod,
+      line.note,
+    ]),
+  ];
+  return rows.map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
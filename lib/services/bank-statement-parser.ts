@@ -0,0 +1,246 @@
+/**
+ * Bank statement parsing for reconciliation
+ * - OFX 1.x (SGML) and 2.x (XML), including Quicken's QFX flavour: one line
+ *   per STMTTRN, plus the statement dates and ledger balance when present
+ * - CSV exports from online banking: the header row is found by name, with
+ *   either a signed amount column or separate debit and credit columns
+ * Dates are kept as calendar days (UTC midnight); amounts are positive for
+ * deposits and negative for withdrawals.
+ */
+
+import crypto from 'crypto';
+import * as XLSX from 'xlsx';
+
+export type StatementFormat = 'ofx' | 'qfx' | 'csv';
+
+export interface ParsedStatementLine {
+  postedAt: Date;
+  amount: number;
+  description: string;
+  reference: string | null;
+  fitId: string | null; // Bank's unique transaction id (OFX only)
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  lines: ParsedStatementLine[];
+  statementStart: Date | null;
+  statementEnd: Date | null;
+  closingBalance: number | null;
+}
+
+export class StatementParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StatementParseError';
+  }
+}
+
+// ============= Values =============
+
+/** "$1,234.50", "(45.00)", "-45", "45.00-" and "1.234,50" style amounts */
+export function parseAmount(raw: string): number | null {
+  let text = raw.trim().replace(/[$£€\s]/g, '');
+  if (!text) return null;
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith('-')) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  } else if (text.startsWith('+')) {
+    text = text.slice(1);
+  }
+  // A comma is the decimal separator when it's the last separator and followed by two digits
+  if (/,\d{2}$/.test(text) && !/\.\d+$/.test(text)) text = text.replace(/\./g, '').replace(',', '.');
+  else text = text.replace(/,/g, '');
+  if (!/^\d*\.?\d+$/.test(text)) return null;
+  const value = Math.round(parseFloat(text) * 100) / 100;
+  return negative ? -value : value;
+}
+
+function utcDay(year: number, month: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+}
+
+/** YYYY-MM-DD, YYYYMMDD, and US-style M/D/YY or M/D/YYYY */
+export function parseStatementDate(raw: string): Date | null {
+  const text = raw.trim();
+  let match = text.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  if (match) return utcDay(Number(match[1]), Number(match[2]), Number(match[3]));
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (match) {
+    const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+    return utcDay(year, Number(match[1]), Number(match[2]));
+  }
+  return null;
+}
+
+// ============= OFX / QFX =============
+
+// Works for both SGML (unclosed elements) and XML: the value runs to the next tag or line break
+function ofxValue(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match?.[1].trim();
+  return value ? decodeEntities(value) : null;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+export function parseOfx(content: string): Omit<ParsedStatement, 'format'> {
+  if (!/<OFX>/i.test(content)) throw new StatementParseError('Not an OFX file');
+
+  const lines: ParsedStatementLine[] = [];
+  for (const [, block] of content.matchAll(/<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi)) {
+    const postedAt = parseStatementDate(ofxValue(block, 'DTPOSTED') ?? '');
+    const amount = parseAmount(ofxValue(block, 'TRNAMT') ?? '');
+    if (!postedAt || amount === null) continue;
+
+    const name = ofxValue(block, 'NAME');
+    const memo = ofxValue(block, 'MEMO');
+    lines.push({
+      postedAt,
+      amount,
+      description: [name, memo && memo !== name ? memo : null].filter(Boolean).join(' — ') || ofxValue(block, 'TRNTYPE') || '',
+      reference: ofxValue(block, 'CHECKNUM') ?? ofxValue(block, 'REFNUM'),
+      fitId: ofxValue(block, 'FITID'),
+    });
+  }
+
+  const tranList = content.match(/<BANKTRANLIST>([\s\S]*?)(<STMTTRN>|<\/BANKTRANLIST>)/i)?.[1] ?? '';
+  const ledger = content.match(/<LEDGERBAL>([\s\S]*?)<\/LEDGERBAL>/i)?.[1] ?? '';
+  return {
+    lines,
+    statementStart: parseStatementDate(ofxValue(tranList, 'DTSTART') ?? ''),
+    statementEnd: parseStatementDate(ofxValue(tranList, 'DTEND') ?? ''),
+    closingBalance: parseAmount(ofxValue(ledger, 'BALAMT') ?? ''),
+  };
+}
+
+// ============= CSV =============
+
+const CSV_COLUMNS = {
+  date: ['date', 'posted date', 'posting date', 'transaction date', 'trans date', 'post date', 'effective date'],
+  description: ['description', 'payee', 'name', 'transaction description', 'details', 'merchant'],
+  memo: ['memo', 'notes', 'extended description'],
+  amount: ['amount', 'transaction amount', 'net amount'],
+  debit: ['debit', 'debits', 'withdrawal', 'withdrawals', 'debit amount', 'money out', 'amount debit'],
+  credit: ['credit', 'credits', 'deposit', 'deposits', 'credit amount', 'money in', 'amount credit'],
+  reference: ['check number', 'check', 'check no', 'reference', 'ref', 'reference number', 'transaction id', 'id'],
+} as const;
+
+type CsvColumn = keyof typeof CSV_COLUMNS;
+
+function normalizeHeader(value: unknown): string {
+  return String(value ?? '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function findColumns(row: unknown[]): Partial<Record<CsvColumn, number>> | null {
+  const headers = row.map(normalizeHeader);
+  const columns: Partial<Record<CsvColumn, number>> = {};
+  for (const [column, names] of Object.entries(CSV_COLUMNS) as [CsvColumn, readonly string[]][]) {
+    const index = headers.findIndex((header) => (names as readonly string[]).includes(header));
+    if (index >= 0) columns[column] = index;
+  }
+  const hasAmount = columns.amount !== undefined || columns.debit !== undefined || columns.credit !== undefined;
+  return columns.date !== undefined && hasAmount ? columns : null;
+}
+
+export function parseCsvStatement(content: string): Omit<ParsedStatement, 'format'> {
+  const workbook = XLSX.read(content, { type: 'string', raw: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  const rows = sheet ? XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: '' }) : [];
+
+  // Banks often put account details above the header row
+  const headerIndex = rows.slice(0, 15).findIndex((row) => findColumns(row));
+  if (headerIndex < 0) {
+    throw new StatementParseError('Could not find a header row with a date column and an amount, debit or credit column');
+  }
+  const columns = findColumns(rows[headerIndex])!;
+  const cell = (row: unknown[], column: CsvColumn) =>
+    columns[column] === undefined ? '' : String(row[columns[column]!] ?? '').trim();
+
+  const lines: ParsedStatementLine[] = [];
+  for (const row of rows.slice(headerIndex + 1)) {
+    const postedAt = parseStatementDate(cell(row, 'date'));
+    if (!postedAt) continue;
+
+    let amount = columns.amount !== undefined ? parseAmount(cell(row, 'amount')) : null;
+    if (amount === null) {
+      const debit = parseAmount(cell(row, 'debit'));
+      const credit = parseAmount(cell(row, 'credit'));
+      if (debit === null && credit === null) continue;
+      amount = (credit ?? 0) - Math.abs(debit ?? 0);
+    }
+
+    const description = cell(row, 'description');
+    const memo = cell(row, 'memo');
+    lines.push({
+      postedAt,
+      amount,
+      description: [description, memo && memo !== description ? memo : ''].filter(Boolean).join(' — '),
+      reference: cell(row, 'reference') || null,
+      fitId: null,
+    });
+  }
+
+  return { lines, statementStart: null, statementEnd: null, closingBalance: null };
+}
+
+// ============= Entry point =============
+
+export function detectStatementFormat(fileName: string, content: string): StatementFormat {
+  if (/OFXHEADER|<OFX>/i.test(content.slice(0, 2000))) {
+    return fileName.toLowerCase().endsWith('.qfx') ? 'qfx' : 'ofx';
+  }
+  return 'csv';
+}
+
+export function parseBankStatement(fileName: string, content: string): ParsedStatement {
+  const format = detectStatementFormat(fileName, content);
+  const parsed = format === 'csv' ? parseCsvStatement(content) : parseOfx(content);
+  if (parsed.lines.length === 0) throw new StatementParseError('The statement has no transactions');
+
+  const dates = parsed.lines.map((line) => line.postedAt.getTime());
+  return {
+    format,
+    ...parsed,
+    statementStart: parsed.statementStart ?? new Date(Math.min(...dates)),
+    statementEnd: parsed.statementEnd ?? new Date(Math.max(...dates)),
+  };
+}
+
+/**
+ * A stable key per line so re-importing an overlapping statement skips what's
+ * already there. OFX lines use the bank's FITID; CSV lines hash their
+ * contents plus how many identical lines came before them in the file, so two
+ * same-day charges of the same amount are both kept.
+ */
+export function withDedupeKeys<T extends ParsedStatementLine>(lines: T[]): Array<T & { dedupeKey: string }> {
+  const seen = new Map<string, number>();
+  return lines.map((line) => {
+    if (line.fitId) return { ...line, dedupeKey: `fitid:${line.fitId}` };
+    const content = [line.postedAt.toISOString().slice(0, 10), line.amount.toFixed(2), line.description, line.reference ?? ''].join('|');
+    const occurrence = seen.get(content) ?? 0;
+    seen.set(content, occurrence + 1);
+    const hash = crypto.createHash('sha256').update(`${content}|${occurrence}`).digest('hex').slice(0, 32);
+    return { ...line, dedupeKey: `line:${hash}` };
+  });
+}
@@ -4,7 +4,7 @@
  * Mirrors the PM-side tenant automation flow.
  */
 
-import { prisma } from '@/db/prisma';
+import { prisma, type TransactionClient } from '@/db/prisma';
 import { randomBytes } from 'crypto';
 import { eventBus } from '@/lib/event-system';
 
@@ -56,6 +56,10 @@ export async function onQuoteAccepted(quoteId: string) {
 
   // 2. Create the job
   const job = await createJobFromQuote(quote, customerRecord.id);
+  await db.contractorQuote.update({
+    where: { id: quote.id },
+    data: { jobId: job.id },
+  });
 
   // 3. Create the contract from quote
   const contract = await createContractFromQuote(quote, job.id, contractor, customer);
@@ -240,7 +244,7 @@ export async function onJobStatusChanged(
 
 // ── Helper Functions ──────────────────────────────────────────────────────────
 
-async function ensureCustomerRecord({
+export async function ensureCustomerRecord({
   contractorId,
   userId,
   name,
@@ -287,17 +291,18 @@ async function ensureCustomerRecord({
   });
 }
 
-async function createJobFromQuote(quote: any, customerRecordId: string) {
+// Pass a transaction client to create the job in the same step as linking it
+export async function createJobFromQuote(quote: any, customerRecordId: string, client: TransactionClient = db) {
   let jobNumber = generateJobNumber();
   let attempts = 0;
   while (attempts < 5) {
-    const existing = await db.contractorJob.findUnique({ where: { jobNumber } });
+    const existing = await client.contractorJob.findUnique({ where: { jobNumber } });
     if (!existing) break;
     jobNumber = generateJobNumber();
     attempts++;
   }
 
-  return db.contractorJob.create({
+  return client.contractorJob.create({
     data: {
       contractorId: quote.contractorId,
       customerId: customerRecordId,
@@ -2,6 +2,7 @@ import { prisma } from '@/db/prisma';
 import { htmlToPdfBuffer } from './pdf';
 import { Resend } from 'resend';
 import crypto from 'crypto';
+import type { Prisma } from '@prisma/client';
 
 const resend = new Resend(process.env.RESEND_API_KEY);
 
@@ -10,6 +11,11 @@ export interface LineItem {
   quantity: number;
   unitPrice: number;
   type: 'labor' | 'material' | 'other';
+  unit?: string;
+  // Set when the line was converted from a price book backed quote
+  priceBookItemId?: string;
+  inventoryItemId?: string;
+  quoteLineItemId?: string;
 }
 
 export interface InvoiceData {
@@ -32,6 +38,16 @@ export interface PaymentData {
   notes?: string;
 }
 
+// Pay application behind a progress bill, printed as G702/G703 pages in the PDF
+const payApplicationInclude = {
+  job: { select: { jobNumber: true, title: true } },
+  lines: {
+    include: { line: { select: { itemNumber: true, description: true, sortOrder: true } } },
+  },
+} satisfies Prisma.ContractorPayApplicationInclude;
+
+type PayApplicationWithLines = Prisma.ContractorPayApplicationGetPayload<{ include: typeof payApplicationInclude }>;
+
 export class ContractorInvoicingService {
   /**
    * Generate a unique invoice number
@@ -268,6 +284,7 @@ export class ContractorInvoicingService {
           },
         },
         payments: true,
+        payApplication: { include: payApplicationInclude },
       },
     });
 
@@ -285,7 +302,11 @@ export class ContractorInvoicingService {
       throw new Error('Customer not found');
     }
 
-    const html = this.generateInvoiceHtml(invoice, customer);
+    let html = this.generateInvoiceHtml(invoice, customer);
+    if (invoice.payApplication) {
+      // Progress bills carry the application and continuation sheet after the invoice
+      html = html.replace('</body>', `${this.generatePayApplicationHtml(invoice.payApplication)}</body>`);
+    }
     return htmlToPdfBuffer(html);
   }
 
@@ -537,6 +558,92 @@ export class ContractorInvoicingService {
     `;
   }
 
+  /**
+   * Generate the application for payment (G702) and continuation sheet (G703)
+   * pages for an invoice raised from a pay application
+   */
+  private static generatePayApplicationHtml(application: PayApplicationWithLines): string {
+    const money = (value: unknown) => `$${Number(value).toFixed(2)}`;
+    const lines = [...application.lines].sort((a, b) => a.line.sortOrder - b.line.sortOrder);
+    const total = (key: 'scheduledValue' | 'previousCompleted' | 'workThisPeriod' | 'completedToDate' | 'retainage') =>
+      lines.reduce((sum, line) => sum + Number(line[key]), 0);
+    const period = application.periodStart
+      ? `${new Date(application.periodStart).toLocaleDateString()} - ${new Date(application.periodEnd).toLocaleDateString()}`
+      : new Date(application.periodEnd).toLocaleDateString();
+
+    return `
+      <div style="page-break-before: always;">
+        <div class="header">
+          <div>
+            <h2>Application for Payment</h2>
+            <p>${application.job.jobNumber} - ${application.job.title}</p>
+          </div>
+          <div>
+            <div class="invoice-number">Application #${application.applicationNumber}</div>
+            <div class="invoice-number">Period: ${period}</div>
+          </div>
+        </div>
+
+        <div class="totals" style="width: 100%;">
+          <div class="totals-row"><span>1. Original contract sum</span><span>${money(application.originalContractSum)}</span></div>
+          <div class="totals-row"><span>2. Net change by change orders</span><span>${money(application.netChangeOrders)}</span></div>
+          <div class="totals-row"><span>3. Contract sum to date</span><span>${money(application.contractSumToDate)}</span></div>
+          <div class="totals-row"><span>4. Total completed to date</span><span>${money(application.completedToDate)}</span></div>
+          <div class="totals-row"><span>5. Retainage (${Number(application.retainagePercent).toFixed(2)}%)</span><span>${money(application.retainageHeld)}</span></div>
+          <div class="totals-row"><span>6. Total earned less retainage</span><span>${money(application.earnedLessRetainage)}</span></div>
+          <div class="totals-row"><span>7. Less previous certificates for payment</span><span>${money(application.previousBilled)}</span></div>
+          <div class="totals-row total"><span>8. Current payment due</span><span>${money(application.currentDue)}</span></div>
+          <div class="totals-row"><span>9. Balance to finish, including retainage</span><span>${money(application.balanceToFinish)}</span></div>
+        </div>
+      </div>
+
+      <div style="page-break-before: always;">
+        <h2>Continuation Sheet</h2>
+        <table>
+          <thead>
+            <tr>
+              <th>Item</th>
+              <th>Description of Work</th>
+              <th class="text-right">Scheduled Value</th>
+              <th class="text-right">Previous Applications</th>
+              <th class="text-right">This Period</th>
+              <th class="text-right">Completed to Date</th>
+              <th class="text-right">%</th>
+              <th class="text-right">Balance to Finish</th>
+              <th class="text-right">Retainage</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${lines.map((line) => `
+              <tr>
+                <td>${line.line.itemNumber}</td>
+                <td>${line.line.description}</td>
+                <td class="text-right">${money(line.scheduledValue)}</td>
+                <td class="text-right">${money(line.previousCompleted)}</td>
+                <td class="text-right">${money(line.workThisPeriod)}</td>
+                <td class="text-right">${money(line.completedToDate)}</td>
+                <td class="text-right">${Number(line.percentComplete).toFixed(2)}%</td>
+                <td class="text-right">${money(Number(line.scheduledValue) - Number(line.completedToDate))}</td>
+                <td class="text-right">${money(line.retainage)}</td>
+              </tr>
+            `).join('')}
+            <tr>
+              <td></td>
+              <td><strong>Grand Total</strong></td>
+              <td class="text-right"><strong>${money(total('scheduledValue'))}</strong></td>
+              <td class="text-right"><strong>${money(total('previousCompleted'))}</strong></td>
+              <td class="text-right"><strong>${money(total('workThisPeriod'))}</strong></td>
+              <td class="text-right"><strong>${money(total('completedToDate'))}</strong></td>
+              <td></td>
+              <td class="text-right"><strong>${money(total('scheduledValue') - total('completedToDate'))}</strong></td>
+              <td class="text-right"><strong>${money(total('retainage'))}</strong></td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    `;
+  }
+
   /**
    * Send reminder for overdue invoice
    */
@@ -0,0 +1,162 @@
+/**
+ * Contractor marketplace search filters
+ *
+ * Shared by the search API and saved-search alerts so a saved search
+ * matches exactly what the user saw when they saved it. Criteria arrive as
+ * query-string values from the search page or as the JSON the saved search
+ * stored; both go through parseContractorSearchCriteria.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { geocodeLocation, type GeocodeResult } from './geocoding';
+import { findContractorsNear, type ContractorProximity } from './contractor-service-area.service';
+
+// ============= Criteria =============
+
+export interface ContractorSearchCriteria {
+  query: string;
+  location: string;
+  radius: number;
+  serviceTypes: string[];
+  minRating: number;
+  maxPrice: number;
+  verified: boolean;
+  licensed: boolean;
+  insured: boolean;
+  backgroundChecked: boolean;
+  minExperience: number;
+  availability: string;
+  sortBy: string;
+}
+
+const NO_MAX_PRICE = 10000;
+
+function toNumber(value: unknown, fallback: number): number {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function toList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String).filter(Boolean);
+  if (typeof value === 'string') return value.split(',').filter(Boolean);
+  return [];
+}
+
+/** Normalize query params or stored JSON into complete criteria */
+export function parseContractorSearchCriteria(input: URLSearchParams | Record<string, unknown>): ContractorSearchCriteria {
+  const get = (key: string): unknown => (input instanceof URLSearchParams ? input.get(key) : input[key]);
+  const flag = (key: string) => get(key) === true || get(key) === 'true';
+
+  return {
+    query: String(get('query') ?? '').trim(),
+    location: String(get('location') ?? '').trim(),
+    radius: Math.min(Math.max(Math.round(toNumber(get('radius'), 25)) || 25, 1), 250),
+    serviceTypes: toList(get('serviceTypes')),
+    minRating: toNumber(get('minRating'), 0),
+    maxPrice: toNumber(get('maxPrice'), NO_MAX_PRICE),
+    verified: flag('verified'),
+    licensed: flag('licensed'),
+    insured: flag('insured'),
+    backgroundChecked: flag('backgroundChecked'),
+    minExperience: toNumber(get('minExperience'), 0),
+    availability: String(get('availability') ?? '') || 'any',
+    sortBy: String(get('sortBy') ?? '') || 'relevance',
+  };
+}
+
+// ============= Query =============
+
+export interface ResolvedContractorSearch {
+  where: Prisma.ContractorProfileWhereInput;
+  /** Where the location geocoded to; null without a location or when it couldn't be placed */
+  origin: GeocodeResult | null;
+  /** Distance and coverage per contractor when the location was geocoded */
+  proximity: Map<string, ContractorProximity> | null;
+}
+
+/**
+ * Turn criteria into a Prisma filter over public profiles. A geocoded
+ * location keeps contractors based within the radius or whose service area
+ * covers the point; a location that can't be placed falls back to text.
+ */
+export async function resolveContractorSearch(criteria: ContractorSearchCriteria): Promise<ResolvedContractorSearch> {
+  const where: Prisma.ContractorProfileWhereInput = {
+    isPublic: true,
+  };
+  const and: Prisma.ContractorProfileWhereInput[] = [];
+  const { query, location } = criteria;
+
+  // Text search
+  if (query) {
+    and.push({
+      OR: [
+        { businessName: { contains: query, mode: 'insensitive' } },
+        { displayName: { contains: query, mode: 'insensitive' } },
+        { bio: { contains: query, mode: 'insensitive' } },
+        { tagline: { contains: query, mode: 'insensitive' } },
+        { specialties: { has: query.toLowerCase() } },
+      ],
+    });
+  }
+
+  let origin: GeocodeResult | null = null;
+  let proximity: Map<string, ContractorProximity> | null = null;
+  if (location) {
+    origin = await geocodeLocation(location);
+    if (origin) {
+      proximity = await findContractorsNear(origin, criteria.radius + origin.spreadMiles);
+      and.push({ id: { in: [...proximity.keys()] } });
+    } else {
+      // Unknown place: fall back to matching the text against city, state and listed areas
+      and.push({
+        OR: [
+          { baseCity: { contains: location, mode: 'insensitive' } },
+          { baseState: { equals: location, mode: 'insensitive' } },
+          { baseZip: location },
+          { serviceAreas: { has: location } },
+        ],
+      });
+    }
+  }
+
+  // Service types
+  if (criteria.serviceTypes.length > 0) {
+    where.specialties = { hasSome: criteria.serviceTypes };
+  }
+
+  // Rating
+  if (criteria.minRating > 0) {
+    where.avgRating = { gte: criteria.minRating };
+  }
+
+  // Price
+  if (criteria.maxPrice < NO_MAX_PRICE) {
+    where.hourlyRate = { lte: criteria.maxPrice };
+  }
+
+  // Experience
+  if (criteria.minExperience > 0) {
+    where.yearsExperience = { gte: criteria.minExperience };
+  }
+
+  // Availability
+  if (criteria.availability !== 'any') {
+    where.isAvailable = true;
+    where.acceptingNewWork = true;
+  }
+
+  // Verification filters
+  const { verified, licensed, insured, backgroundChecked } = criteria;
+  if (verified || licensed || insured || backgroundChecked) {
+    where.verification = {
+      ...(verified && { verificationStatus: 'verified' }),
+      ...(licensed && { licenseStatus: 'verified' }),
+      ...(insured && { insuranceStatus: 'verified' }),
+      ...(backgroundChecked && { backgroundCheckStatus: 'verified' }),
+    };
+  }
+
+  if (and.length > 0) where.AND = and;
+
+  return { where, origin, proximity };
+}
@@ -0,0 +1,451 @@
+/**
+ * Contractor Service Area Service
+ * Where contractors work, as geometry:
+ * 1. The profile's base location (baseZip, or baseCity + baseState) is
+ *    geocoded and becomes a circle of serviceRadius miles
+ * 2. Each serviceAreas entry becomes its own circle: a ZIP covers a few miles
+ *    around its centroid, a city covers all of its ZIP centroids
+ * 3. Contractors can also add areas by hand — a circle around any point or a
+ *    polygon — which survive profile edits
+ * Search uses these to filter and sort by distance; lead routing uses them to
+ * check that a contractor actually serves the property's address.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/db/prisma';
+import type { GeoPoint } from './dispatch-distance';
+import { distanceMiles, geocodeAddress, geocodeLocation, normalizeState, type GeocodeResult } from './geocoding';
+
+export const DEFAULT_SERVICE_RADIUS_MILES = 25;
+export const ZIP_AREA_RADIUS_MILES = 5;
+const CITY_AREA_PADDING_MILES = 3; // Beyond the city's outermost ZIP centroid
+const MILES_PER_DEGREE_LAT = 69.05;
+const MAX_POLYGON_POINTS = 200;
+
+// ============= Errors =============
+
+export const ServiceAreaErrorCodes = {
+  NOT_FOUND: 'NOT_FOUND',
+  INVALID_INPUT: 'INVALID_INPUT',
+  NOT_GEOCODED: 'NOT_GEOCODED',
+} as const;
+
+export type ServiceAreaErrorCode = (typeof ServiceAreaErrorCodes)[keyof typeof ServiceAreaErrorCodes];
+
+export class ServiceAreaError extends Error {
+  code: ServiceAreaErrorCode;
+
+  constructor(code: ServiceAreaErrorCode, message: string) {
+    super(message);
+    this.code = code;
+    this.name = 'ServiceAreaError';
+  }
+}
+
+export function getServiceAreaErrorStatus(code: ServiceAreaErrorCode): number {
+  switch (code) {
+    case ServiceAreaErrorCodes.NOT_FOUND:
+      return 404;
+    case ServiceAreaErrorCodes.NOT_GEOCODED:
+      return 422;
+    default:
+      return 400;
+  }
+}
+
+// ============= Geometry =============
+
+export type ServiceAreaShape =
+  | { kind: 'radius'; latitude: number; longitude: number; radiusMiles: number }
+  | { kind: 'polygon'; polygon: [number, number][] };
+
+export interface BoundingBox {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+function milesPerDegreeLng(lat: number): number {
+  return MILES_PER_DEGREE_LAT * Math.max(Math.cos((lat * Math.PI) / 180), 0.01);
+}
+
+/** Box around a point reaching `miles` in every direction */
+export function boxAround(point: GeoPoint, miles: number): BoundingBox {
+  const dLat = miles / MILES_PER_DEGREE_LAT;
+  const dLng = miles / milesPerDegreeLng(point.lat);
+  return { minLat: point.lat - dLat, maxLat: point.lat + dLat, minLng: point.lng - dLng, maxLng: point.lng + dLng };
+}
+
+export function boundingBox(shape: ServiceAreaShape): BoundingBox {
+  if (shape.kind === 'radius') {
+    return boxAround({ lat: shape.latitude, lng: shape.longitude }, shape.radiusMiles);
+  }
+  const lats = shape.polygon.map(([lat]) => lat);
+  const lngs = shape.polygon.map(([, lng]) => lng);
+  return { minLat: Math.min(...lats), maxLat: Math.max(...lats), minLng: Math.min(...lngs), maxLng: Math.max(...lngs) };
+}
+
+/** Ray casting; fine at city scale where lat/lng can be treated as planar */
+export function pointInPolygon(point: GeoPoint, polygon: [number, number][]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lngI] = polygon[i];
+    const [latJ, lngJ] = polygon[j];
+    const crosses = latI > point.lat !== latJ > point.lat;
+    if (crosses && point.lng < ((lngJ - lngI) * (point.lat - latI)) / (latJ - latI) + lngI) inside = !inside;
+  }
+  return inside;
+}
+
+// Distance from a point to segment a–b, projecting around the point
+function segmentDistanceMiles(point: GeoPoint, a: [number, number], b: [number, number]): number {
+  const scaleX = milesPerDegreeLng(point.lat);
+  const ax = (a[1] - point.lng) * scaleX;
+  const ay = (a[0] - point.lat) * MILES_PER_DEGREE_LAT;
+  const bx = (b[1] - point.lng) * scaleX;
+  const by = (b[0] - point.lat) * MILES_PER_DEGREE_LAT;
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq));
+  return Math.hypot(ax + t * dx, ay + t * dy);
+}
+
+/** Miles from the point to the edge of the area; 0 when the area covers it */
+export function distanceToAreaMiles(point: GeoPoint, shape: ServiceAreaShape): number {
+  if (shape.kind === 'radius') {
+    return Math.max(0, distanceMiles(point, { lat: shape.latitude, lng: shape.longitude }) - shape.radiusMiles);
+  }
+  if (pointInPolygon(point, shape.polygon)) return 0;
+  let nearest = Infinity;
+  for (let i = 0; i < shape.polygon.length; i++) {
+    nearest = Math.min(nearest, segmentDistanceMiles(point, shape.polygon[i], shape.polygon[(i + 1) % shape.polygon.length]));
+  }
+  return nearest;
+}
+
+export function toShape(area: {
+  kind: string;
+  latitude: number | null;
+  longitude: number | null;
+  radiusMiles: number | null;
+  polygon: Prisma.JsonValue | null;
+}): ServiceAreaShape | null {
+  if (area.kind === 'radius' && area.latitude !== null && area.longitude !== null && area.radiusMiles !== null) {
+    return { kind: 'radius', latitude: area.latitude, longitude: area.longitude, radiusMiles: area.radiusMiles };
+  }
+  if (area.kind === 'polygon' && Array.isArray(area.polygon)) {
+    return { kind: 'polygon', polygon: area.polygon as [number, number][] };
+  }
+  return null;
+}
+
+/** A closed ring of at least three valid [lat, lng] pairs */
+export function validatePolygon(input: unknown): [number, number][] {
+  if (!Array.isArray(input)) {
+    throw new ServiceAreaError(ServiceAreaErrorCodes.INVALID_INPUT, 'polygon must be a list of [lat, lng] points');
+  }
+  const points = input.map((point) => {
+    if (
+      !Array.isArray(point) ||
+      point.length !== 2 ||
+      typeof point[0] !== 'number' ||
+      typeof point[1] !== 'number' ||
+      Math.abs(point[0]) > 90 ||
+      Math.abs(point[1]) > 180
+    ) {
+      throw new ServiceAreaError(ServiceAreaErrorCodes.INVALID_INPUT, 'Each polygon point must be [lat, lng]');
+    }
+    return [point[0], point[1]] as [number, number];
+  });
+  // Drop the repeated closing point GeoJSON-style rings carry
+  const [first] = points;
+  const last = points[points.length - 1];
+  if (points.length > 1 && first[0] === last[0] && first[1] === last[1]) points.pop();
+  if (points.length < 3 || points.length > MAX_POLYGON_POINTS) {
+    throw new ServiceAreaError(
+      ServiceAreaErrorCodes.INVALID_INPUT,
+      `A polygon needs between 3 and ${MAX_POLYGON_POINTS} points`
+    );
+  }
+  return points;
+}
+
+// ============= Profile areas =============
+
+interface AreaInput {
+  label: string;
+  source: GeocodeResult['source'] | 'manual';
+  shape: ServiceAreaShape;
+}
+
+function areaData(contractorId: string, area: AreaInput) {
+  return {
+    contractorId,
+    label: area.label.slice(0, 200),
+    kind: area.shape.kind,
+    source: area.source,
+    latitude: area.shape.kind === 'radius' ? area.shape.latitude : null,
+    longitude: area.shape.kind === 'radius' ? area.shape.longitude : null,
+    radiusMiles: area.shape.kind === 'radius' ? area.shape.radiusMiles : null,
+    polygon: area.shape.kind === 'polygon' ? (area.shape.polygon as Prisma.InputJsonValue) : Prisma.DbNull,
+    ...boundingBox(area.shape),
+  };
+}
+
+function circleAround(result: GeocodeResult, radiusMiles: number): ServiceAreaShape {
+  return { kind: 'radius', latitude: result.lat, longitude: result.lng, radiusMiles };
+}
+
+/**
+ * Areas implied by a profile's base location and serviceAreas entries.
+ * Entries that can't be geocoded are returned in `unresolved`.
+ */
+export async function buildProfileServiceAreas(profile: {
+  baseZip: string | null;
+  baseCity: string | null;
+  baseState: string | null;
+  serviceRadius: number | null;
+  serviceAreas: string[];
+}) {
+  const base =
+    profile.baseZip || profile.baseCity
+      ? await geocodeAddress({ zip: profile.baseZip, city: profile.baseCity, state: profile.baseState })
+      : null;
+  const areas: AreaInput[] = [];
+  const unresolved: string[] = [];
+
+  if (base) {
+    areas.push({
+      label: 'Base location',
+      source: base.source,
+      shape: circleAround(base, profile.serviceRadius || DEFAULT_SERVICE_RADIUS_MILES),
+    });
+  }
+
+  const baseState = normalizeState(profile.baseState) ?? base?.state ?? null;
+  for (const entry of profile.serviceAreas) {
+    const label = entry.trim();
+    if (!label) continue;
+    // A bare city name is read as being in the contractor's own state
+    const query = /^\d{5}$/.test(label) || label.includes(',') || !baseState ? label : `${label}, ${baseState}`;
+    const result = await geocodeLocation(query);
+    if (!result) {
+      unresolved.push(label);
+      continue;
+    }
+    const radiusMiles =
+      result.precision === 'city'
+        ? Math.max(result.spreadMiles + CITY_AREA_PADDING_MILES, ZIP_AREA_RADIUS_MILES)
+        : ZIP_AREA_RADIUS_MILES;
+    areas.push({ label, source: result.source, shape: circleAround(result, radiusMiles) });
+  }
+
+  return { base, areas, unresolved };
+}
+
+/**
+ * Re-geocode the profile and replace its derived areas. Manual areas are
+ * kept. Called whenever the base location or serviceAreas change.
+ */
+export async function syncContractorServiceAreas(contractorId: string) {
+  const profile = await prisma.contractorProfile.findUnique({
+    where: { id: contractorId },
+    select: { baseZip: true, baseCity: true, baseState: true, serviceRadius: true, serviceAreas: true },
+  });
+  if (!profile) throw new ServiceAreaError(ServiceAreaErrorCodes.NOT_FOUND, 'Contractor not found');
+
+  const { base, areas, unresolved } = await buildProfileServiceAreas(profile);
+
+  await prisma.$transaction([
+    prisma.contractorServiceArea.deleteMany({ where: { contractorId, source: { not: 'manual' } } }),
+    prisma.contractorServiceArea.createMany({ data: areas.map((area) => areaData(contractorId, area)) }),
+    prisma.contractorProfile.update({
+      where: { id: contractorId },
+      data: {
+        baseLatitude: base?.lat ?? null,
+        baseLongitude: base?.lng ?? null,
+        geocodedAt: new Date(),
+      },
+    }),
+  ]);
+
+  return { base, areas: areas.length, unresolved };
+}
+
+export async function listServiceAreas(contractorId: string) {
+  return prisma.contractorServiceArea.findMany({
+    where: { contractorId },
+    orderBy: [{ source: 'asc' }, { createdAt: 'asc' }],
+  });
+}
+
+/**
+ * Add a hand-drawn area: a polygon, or a circle around a point or an address
+ */
+export async function addManualServiceArea(
+  contractorId: string,
+  input: {
+    label?: string;
+    polygon?: unknown;
+    latitude?: number;
+    longitude?: number;
+    location?: string;
+    radiusMiles?: number;
+  }
+) {
+  let shape: ServiceAreaShape;
+  let label = input.label?.trim() || '';
+
+  if (input.polygon !== undefined) {
+    shape = { kind: 'polygon', polygon: validatePolygon(input.polygon) };
+    label ||= 'Custom area';
+  } else {
+    const radiusMiles = Number(input.radiusMiles);
+    if (!Number.isFinite(radiusMiles) || radiusMiles <= 0 || radiusMiles > 500) {
+      throw new ServiceAreaError(ServiceAreaErrorCodes.INVALID_INPUT, 'radiusMiles must be between 0 and 500');
+    }
+    let center: GeoPoint | null = null;
+    if (typeof input.latitude === 'number' && typeof input.longitude === 'number') {
+      center = { lat: input.latitude, lng: input.longitude };
+    } else if (input.location?.trim()) {
+      center = await geocodeLocation(input.location);
+      if (!center) throw new ServiceAreaError(ServiceAreaErrorCodes.NOT_GEOCODED, `Couldn't find "${input.location}"`);
+      label ||= input.location.trim();
+    }
+    if (!center || Math.abs(center.lat) > 90 || Math.abs(center.lng) > 180) {
+      throw new ServiceAreaError(ServiceAreaErrorCodes.INVALID_INPUT, 'A location or latitude and longitude is required');
+    }
+    shape = { kind: 'radius', latitude: center.lat, longitude: center.lng, radiusMiles };
+    label ||= `${radiusMiles} mi radius`;
+  }
+
+  return prisma.contractorServiceArea.create({ data: areaData(contractorId, { label, source: 'manual', shape }) });
+}
+
+export async function removeManualServiceArea(contractorId: string, areaId: string) {
+  const { count } = await prisma.contractorServiceArea.deleteMany({
+    where: { id: areaId, contractorId, source: 'manual' },
+  });
+  if (count === 0) throw new ServiceAreaError(ServiceAreaErrorCodes.NOT_FOUND, 'Service area not found');
+}
+
+// ============= Queries =============
+
+export interface ContractorProximity {
+  contractorId: string;
+  /** Miles from the point to the contractor's base, or to their nearest area when the base isn't known */
+  distanceMiles: number;
+  /** Whether one of the contractor's areas covers the point */
+  servesLocation: boolean;
+}
+
+/**
+ * Contractors near a point: those based within `radiusMiles` of it, plus
+ * those with a service area covering it wherever they're based
+ */
+export async function findContractorsNear(point: GeoPoint, radiusMiles: number): Promise<Map<string, ContractorProximity>> {
+  const box = boxAround(point, radiusMiles);
+  const [based, areas] = await Promise.all([
+    prisma.contractorProfile.findMany({
+      where: {
+        baseLatitude: { gte: box.minLat, lte: box.maxLat },
+        baseLongitude: { gte: box.minLng, lte: box.maxLng },
+      },
+      select: { id: true, baseLatitude: true, baseLongitude: true },
+    }),
+    prisma.contractorServiceArea.findMany({
+      where: {
+        minLat: { lte: box.maxLat },
+        maxLat: { gte: box.minLat },
+        minLng: { lte: box.maxLng },
+        maxLng: { gte: box.minLng },
+      },
+      include: { contractor: { select: { baseLatitude: true, baseLongitude: true } } },
+    }),
+  ]);
+
+  const results = new Map<string, ContractorProximity>();
+  for (const profile of based) {
+    const distance = distanceMiles(point, { lat: profile.baseLatitude!, lng: profile.baseLongitude! });
+    if (distance <= radiusMiles) {
+      results.set(profile.id, { contractorId: profile.id, distanceMiles: distance, servesLocation: false });
+    }
+  }
+
+  for (const area of areas) {
+    const shape = toShape(area);
+    if (!shape) continue;
+    const toArea = distanceToAreaMiles(point, shape);
+    const existing = results.get(area.contractorId);
+    const base = area.contractor;
+    const distance =
+      base.baseLatitude !== null && base.baseLongitude !== null
+        ? distanceMiles(point, { lat: base.baseLatitude, lng: base.baseLongitude })
+        : toArea;
+
+    if (toArea === 0) {
+      results.set(area.contractorId, {
+        contractorId: area.contractorId,
+        distanceMiles: Math.min(distance, existing?.distanceMiles ?? Infinity),
+        servesLocation: true,
+      });
+    } else if (!existing && base.baseLatitude === null && toArea <= radiusMiles) {
+      // No base location to measure from: count the nearest area instead
+      results.set(area.contractorId, { contractorId: area.contractorId, distanceMiles: toArea, servesLocation: false });
+    } else if (existing && base.baseLatitude === null) {
+      existing.distanceMiles = Math.min(existing.distanceMiles, toArea);
+    }
+  }
+
+  for (const entry of results.values()) entry.distanceMiles = Math.round(entry.distanceMiles * 10) / 10;
+  return results;
+}
+
+/** Contractors with a service area covering the point */
+export async function findContractorsServing(point: GeoPoint): Promise<Map<string, ContractorProximity>> {
+  const nearby = await findContractorsNear(point, 0);
+  return new Map([...nearby].filter(([, entry]) => entry.servesLocation));
+}
+
+export async function contractorServesLocation(contractorId: string, point: GeoPoint): Promise<boolean> {
+  const areas = await prisma.contractorServiceArea.findMany({
+    where: {
+      contractorId,
+      minLat: { lte: point.lat },
+      maxLat: { gte: point.lat },
+      minLng: { lte: point.lng },
+      maxLng: { gte: point.lng },
+    },
+  });
+  return areas.some((area) => {
+    const shape = toShape(area);
+    return shape !== null && distanceToAreaMiles(point, shape) === 0;
+  });
+}
+
+/**
+ * Geocode a lead's property and store the point. Returns null when the
+ * address can't be placed; routing then falls back to ZIP and state matching.
+ */
+export async function geocodeLead(lead: {
+  id: string;
+  propertyAddress: string | null;
+  propertyCity: string | null;
+  propertyState: string | null;
+  propertyZip: string | null;
+}): Promise<GeoPoint | null> {
+  const result = await geocodeAddress({
+    address: lead.propertyAddress,
+    city: lead.propertyCity,
+    state: lead.propertyState,
+    zip: lead.propertyZip,
+  });
+  if (!result) return null;
+  await prisma.contractorLead.update({
+    where: { id: lead.id },
+    data: { propertyLatitude: result.lat, propertyLongitude: result.lng },
+  });
+  return { lat: result.lat, lng: result.lng };
+}
@@ -0,0 +1,667 @@
+/**
+ * Crew Tracking Service
+ * Location history and job-site geofences for contractor employees:
+ * 1. The employee app posts GPS breadcrumbs in batches while the employee is
+ *    on the clock; pings off the clock are dropped
+ * 2. Every job with coordinates is a geofence (job radius, else the
+ *    contractor default). Coordinates come from geocoding the job's street
+ *    address when the job is created or its address changes. Breadcrumbs entering a site record an "arrived"
+ *    event; leaving needs consecutive fixes beyond the radius plus a buffer
+ *    so GPS drift doesn't bounce the crew in and out
+ * 3. Clock-in checks the fix against the job's geofence and, per the
+ *    contractor's mode, allows it, flags the time entry for review or
+ *    rejects it
+ * 4. Route history replays one employee's day: breadcrumbs, site visits,
+ *    distance driven and billable travel time between sites
+ */
+
+import { prisma } from '@/db/prisma';
+import { eventBus } from '@/lib/event-system';
+import { endOfDay, startOfDay } from 'date-fns';
+import { haversineKm, type GeoPoint } from './dispatch-distance';
+import { geocodeAddress } from './geocoding';
+
+export const GEOFENCE_MODES = ['off', 'flag', 'reject'] as const;
+export type GeofenceMode = (typeof GEOFENCE_MODES)[number];
+
+const DEFAULT_GEOFENCE_RADIUS_METERS = 150;
+
+// Bounds for the contractor default and per-job radius overrides
+export const MIN_GEOFENCE_RADIUS_METERS = 25;
+export const MAX_GEOFENCE_RADIUS_METERS = 5000;
+
+// Fixes less precise than this are stored but don't change arrival state
+const MAX_USABLE_ACCURACY_METERS = 100;
+
+// A fix's reported accuracy widens the fence by at most this much
+const MAX_ACCURACY_SLACK_METERS = 50;
+
+// Leaving needs this far past the radius on this many fixes in a row
+const EXIT_BUFFER_METERS = 50;
+const EXIT_CONFIRMATIONS = 2;
+
+const MAX_PINGS_PER_BATCH = 500;
+
+// Device clocks drift; accept fixes slightly outside the time entry
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// Jobs a crew can be expected to show up at
+const TRACKED_JOB_STATUSES = ['approved', 'scheduled', 'in_progress'];
+
+// ============= Errors =============
+
+export const CrewTrackingErrorCodes = {
+  NOT_FOUND: 'NOT_FOUND',
+  INVALID_INPUT: 'INVALID_INPUT',
+  OUTSIDE_GEOFENCE: 'OUTSIDE_GEOFENCE',
+} as const;
+
+export type CrewTrackingErrorCode = typeof CrewTrackingErrorCodes[keyof typeof CrewTrackingErrorCodes];
+
+export class CrewTrackingError extends Error {
+  code: CrewTrackingErrorCode;
+  distanceMeters?: number | null;
+
+  constructor(code: CrewTrackingErrorCode, message: string, distanceMeters?: number | null) {
+    super(message);
+    this.code = code;
+    this.name = 'CrewTrackingError';
+    this.distanceMeters = distanceMeters;
+  }
+}
+
+export function getCrewTrackingErrorStatus(code: CrewTrackingErrorCode): number {
+  switch (code) {
+    case CrewTrackingErrorCodes.NOT_FOUND:
+      return 404;
+    case CrewTrackingErrorCodes.OUTSIDE_GEOFENCE:
+      return 422;
+    default:
+      return 400;
+  }
+}
+
+// ============= Types =============
+
+export interface LocationFix extends GeoPoint {
+  accuracy?: number | null;
+  speed?: number | null;
+  heading?: number | null;
+  recordedAt: Date;
+}
+
+export interface JobSite {
+  jobId: string;
+  location: GeoPoint;
+  radiusMeters: number;
+}
+
+/** Which site the employee is on, carried between breadcrumb batches */
+export interface SiteState {
+  jobId: string | null;
+  /** First fix of a possible exit, until it is confirmed */
+  pendingExit: LocationFix | null;
+  exitCount: number;
+}
+
+export interface SiteTransition {
+  type: 'arrived' | 'left';
+  jobId: string;
+  fix: LocationFix;
+  distanceMeters: number;
+}
+
+export interface ClockInCheck {
+  /** no_site: the job has no geocoded location to check against */
+  status: 'inside' | 'outside' | 'unknown' | 'no_site';
+  distanceMeters: number | null;
+  decision: 'allow' | 'flag' | 'reject';
+}
+
+export interface SiteVisit {
+  jobId: string;
+  arrivedAt: Date;
+  leftAt: Date | null;
+  minutes: number;
+}
+
+export interface RouteSummary {
+  distanceKm: number;
+  travelMinutes: number;
+  onSiteMinutes: number;
+  visits: SiteVisit[];
+}
+
+// ============= Geofences =============
+
+export function distanceMeters(a: GeoPoint, b: GeoPoint): number {
+  return Math.round(haversineKm(a, b) * 1000);
+}
+
+function accuracySlack(fix: { accuracy?: number | null }): number {
+  return Math.min(Math.max(fix.accuracy ?? 0, 0), MAX_ACCURACY_SLACK_METERS);
+}
+
+export function isInsideSite(fix: LocationFix | GeoPoint, site: JobSite): boolean {
+  return distanceMeters(fix, site.location) <= site.radiusMeters + accuracySlack(fix as LocationFix);
+}
+
+function isUsable(fix: LocationFix): boolean {
+  return fix.accuracy == null || fix.accuracy <= MAX_USABLE_ACCURACY_METERS;
+}
+
+/** Nearest site containing the fix */
+function findSite(fix: LocationFix, sites: JobSite[]): { site: JobSite; distance: number } | null {
+  let best: { site: JobSite; distance: number } | null = null;
+  for (const site of sites) {
+    const distance = distanceMeters(fix, site.location);
+    if (distance <= site.radiusMeters + accuracySlack(fix) && (!best || distance < best.distance)) {
+      best = { site, distance };
+    }
+  }
+  return best;
+}
+
+export const emptySiteState = (): SiteState => ({ jobId: null, pendingExit: null, exitCount: 0 });
+
+/**
+ * Walk fixes in time order and report arrivals and departures. Departures
+ * are dated at the first fix outside the buffer, once confirmed.
+ */
+export function detectSiteTransitions(
+  fixes: LocationFix[],
+  sites: JobSite[],
+  initial: SiteState = emptySiteState()
+): { transitions: SiteTransition[]; state: SiteState } {
+  const transitions: SiteTransition[] = [];
+  let state = { ...initial };
+  const sorted = [...fixes].sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+
+  for (const fix of sorted) {
+    if (!isUsable(fix)) continue;
+
+    if (state.jobId) {
+      const site = sites.find((s) => s.jobId === state.jobId);
+      // A site that dropped off the list (job finished) is left immediately
+      const distance = site ? distanceMeters(fix, site.location) : Infinity;
+      const outside = !site || distance > site.radiusMeters + EXIT_BUFFER_METERS + accuracySlack(fix);
+
+      if (!outside) {
+        state = { ...state, pendingExit: null, exitCount: 0 };
+        continue;
+      }
+
+      const pendingExit = state.pendingExit ?? fix;
+      const exitCount = state.exitCount + 1;
+      if (site && exitCount < EXIT_CONFIRMATIONS) {
+        state = { ...state, pendingExit, exitCount };
+        continue;
+      }
+
+      transitions.push({
+        type: 'left',
+        jobId: state.jobId,
+        fix: pendingExit,
+        distanceMeters: site ? distanceMeters(pendingExit, site.location) : 0,
+      });
+      state = emptySiteState();
+    }
+
+    const entered = findSite(fix, sites);
+    if (entered) {
+      transitions.push({ type: 'arrived', jobId: entered.site.jobId, fix, distanceMeters: entered.distance });
+      state = { jobId: entered.site.jobId, pendingExit: null, exitCount: 0 };
+    }
+  }
+
+  return { transitions, state };
+}
+
+/**
+ * Decide what happens to a clock-in given where the employee is. Without a
+ * job site there is nothing to check; without a fix, reject mode refuses
+ * and flag mode flags.
+ */
+export function evaluateClockIn(
+  location: GeoPoint | null | undefined,
+  site: JobSite | null,
+  mode: GeofenceMode
+): ClockInCheck {
+  if (!site) {
+    return { status: 'no_site', distanceMeters: null, decision: 'allow' };
+  }
+  if (mode === 'off') {
+    return {
+      status: location ? (isInsideSite(location, site) ? 'inside' : 'outside') : 'unknown',
+      distanceMeters: location ? distanceMeters(location, site.location) : null,
+      decision: 'allow',
+    };
+  }
+  if (!location) {
+    return { status: 'unknown', distanceMeters: null, decision: mode };
+  }
+
+  const distance = distanceMeters(location, site.location);
+  if (isInsideSite(location, site)) {
+    return { status: 'inside', distanceMeters: distance, decision: 'allow' };
+  }
+  return { status: 'outside', distanceMeters: distance, decision: mode };
+}
+
+// ============= Route History =============
+
+/**
+ * Distance driven, time on site and travel time between sites. Travel runs
+ * from the first fix or a departure to the next arrival; the drive home
+ * after the last site isn't travel to a job.
+ */
+export function summarizeRoute(
+  fixes: LocationFix[],
+  events: { type: string; jobId: string; occurredAt: Date }[],
+  until: Date = new Date()
+): RouteSummary {
+  const usable = fixes.filter(isUsable).sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+  let distanceKm = 0;
+  for (let i = 1; i < usable.length; i++) distanceKm += haversineKm(usable[i - 1], usable[i]);
+
+  const sorted = [...events].sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+  const visits: SiteVisit[] = [];
+  let travelMinutes = 0;
+  let travelStart: Date | null = usable[0]?.recordedAt ?? null;
+
+  for (const event of sorted) {
+    if (event.type === 'arrived') {
+      if (travelStart && event.occurredAt > travelStart) {
+        travelMinutes += (event.occurredAt.getTime() - travelStart.getTime()) / 60000;
+      }
+      travelStart = null;
+      visits.push({ jobId: event.jobId, arrivedAt: event.occurredAt, leftAt: null, minutes: 0 });
+    } else if (event.type === 'left') {
+      const visit = [...visits].reverse().find((v) => v.jobId === event.jobId && !v.leftAt);
+      if (visit) visit.leftAt = event.occurredAt;
+      travelStart = event.occurredAt;
+    }
+  }
+
+  for (const visit of visits) {
+    const end = visit.leftAt ?? until;
+    visit.minutes = Math.max(0, Math.round((end.getTime() - visit.arrivedAt.getTime()) / 60000));
+  }
+
+  return {
+    distanceKm: Math.round(distanceKm * 100) / 100,
+    travelMinutes: Math.round(travelMinutes),
+    onSiteMinutes: visits.reduce((sum, visit) => sum + visit.minutes, 0),
+    visits,
+  };
+}
+
+// ============= Input =============
+
+/** Validate a breadcrumb batch from the app */
+export function parseLocationFixes(input: unknown): LocationFix[] {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new CrewTrackingError(CrewTrackingErrorCodes.INVALID_INPUT, 'pings must be a non-empty array');
+  }
+  if (input.length > MAX_PINGS_PER_BATCH) {
+    throw new CrewTrackingError(
+      CrewTrackingErrorCodes.INVALID_INPUT,
+      `Send at most ${MAX_PINGS_PER_BATCH} pings per request`
+    );
+  }
+
+  const optional = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : null);
+
+  return input.map((raw, index) => {
+    const ping = (raw ?? {}) as Record<string, unknown>;
+    const recordedAt = new Date(ping.recordedAt as string);
+    if (
+      typeof ping.lat !== 'number' ||
+      typeof ping.lng !== 'number' ||
+      Math.abs(ping.lat) > 90 ||
+      Math.abs(ping.lng) > 180 ||
+      isNaN(recordedAt.getTime())
+    ) {
+      throw new CrewTrackingError(
+        CrewTrackingErrorCodes.INVALID_INPUT,
+        `pings[${index}] needs numeric lat, lng and an ISO recordedAt`
+      );
+    }
+    return {
+      lat: ping.lat,
+      lng: ping.lng,
+      accuracy: optional(ping.accuracy),
+      speed: optional(ping.speed),
+      heading: optional(ping.heading),
+      recordedAt,
+    };
+  });
+}
+
+function readPoint(value: unknown): GeoPoint | null {
+  const point = value as { lat?: unknown; lng?: unknown } | null;
+  if (!point || typeof point.lat !== 'number' || typeof point.lng !== 'number') return null;
+  return { lat: point.lat, lng: point.lng };
+}
+
+// ============= Sites =============
+
+/**
+ * Geofence centre for a job's address. Only a street-level result is close
+ * enough for a fence of a few hundred metres; a ZIP or city centroid gives no
+ * site, and clock-ins on the job report 'no_site' instead of 'outside'.
+ */
+export async function geocodeJobSite(job: {
+  address?: string | null;
+  city?: string | null;
+  state?: string | null;
+  zipCode?: string | null;
+}): Promise<GeoPoint | null> {
+  if (!job.address?.trim()) return null;
+  try {
+    const result = await geocodeAddress({ address: job.address, city: job.city, state: job.state, zip: job.zipCode });
+    return result?.precision === 'address' ? { lat: result.lat, lng: result.lng } : null;
+  } catch (error) {
+    console.error('Failed to geocode job site:', error);
+    return null;
+  }
+}
+
+async function getGeofenceSettings(contractorId: string) {
+  const profile = await prisma.contractorProfile.findUnique({
+    where: { id: contractorId },
+    select: { geofenceRadiusMeters: true, geofenceClockInMode: true },
+  });
+  const mode = (GEOFENCE_MODES as readonly string[]).includes(profile?.geofenceClockInMode ?? '')
+    ? (profile!.geofenceClockInMode as GeofenceMode)
+    : 'flag';
+  return { radiusMeters: profile?.geofenceRadiusMeters ?? DEFAULT_GEOFENCE_RADIUS_METERS, mode };
+}
+
+function toSite(
+  job: { id: string; coordinates: unknown; geofenceRadiusMeters: number | null },
+  defaultRadius: number
+): JobSite | null {
+  const location = readPoint(job.coordinates);
+  return location ? { jobId: job.id, location, radiusMeters: job.geofenceRadiusMeters ?? defaultRadius } : null;
+}
+
+/** Sites the employee is assigned to, plus the job on their time entry */
+async function getEmployeeSites(contractorId: string, employeeId: string, extraJobId?: string | null) {
+  const { radiusMeters } = await getGeofenceSettings(contractorId);
+  const jobs = await prisma.contractorJob.findMany({
+    where: {
+      contractorId,
+      OR: [
+        {
+          status: { in: TRACKED_JOB_STATUSES },
+          OR: [{ assignedEmployeeIds: { has: employeeId } }, { leadTechnicianId: employeeId }],
+        },
+        ...(extraJobId ? [{ id: extraJobId }] : []),
+      ],
+    },
+    select: { id: true, coordinates: true, geofenceRadiusMeters: true },
+  });
+  return jobs.map((job) => toSite(job, radiusMeters)).filter((site): site is JobSite => !!site);
+}
+
+/** Where the employee stands now, from their last site event this shift */
+async function getSiteState(employeeId: string, since: Date): Promise<SiteState> {
+  const last = await prisma.contractorJobSiteEvent.findFirst({
+    where: { employeeId, occurredAt: { gte: since } },
+    orderBy: { occurredAt: 'desc' },
+  });
+  return last?.type === 'arrived' ? { jobId: last.jobId, pendingExit: null, exitCount: 0 } : emptySiteState();
+}
+
+async function saveTransitions(
+  employee: { id: string; contractorId: string },
+  timeEntryId: string | null,
+  transitions: SiteTransition[],
+  source: string
+) {
+  for (const transition of transitions) {
+    await prisma.contractorJobSiteEvent.create({
+      data: {
+        contractorId: employee.contractorId,
+        jobId: transition.jobId,
+        employeeId: employee.id,
+        timeEntryId,
+        type: transition.type,
+        source,
+        occurredAt: transition.fix.recordedAt,
+        lat: transition.fix.lat,
+        lng: transition.fix.lng,
+        distanceMeters: transition.distanceMeters,
+      },
+    });
+
+    if (transition.type === 'arrived') {
+      // First crew on site starts the job clock
+      await prisma.contractorJob.updateMany({
+        where: { id: transition.jobId, actualStartDate: null },
+        data: { actualStartDate: transition.fix.recordedAt },
+      });
+    }
+
+    await eventBus.emit(transition.type === 'arrived' ? 'contractor.job.site_arrived' : 'contractor.job.site_left', {
+      contractorId: employee.contractorId,
+      jobId: transition.jobId,
+      employeeId: employee.id,
+      occurredAt: transition.fix.recordedAt,
+      source,
+    });
+  }
+}
+
+// ============= Breadcrumbs =============
+
+/**
+ * Store a breadcrumb batch for an on-the-clock employee and record any site
+ * arrivals or departures it shows. Returns how many pings were kept.
+ */
+export async function recordLocationPings(employee: { id: string; contractorId: string }, fixes: LocationFix[]) {
+  const entry = await prisma.contractorTimeEntry.findFirst({
+    where: { employeeId: employee.id, clockOut: null },
+    orderBy: { clockIn: 'desc' },
+    select: { id: true, clockIn: true, jobId: true },
+  });
+  if (!entry) return { accepted: 0, events: [] as SiteTransition[], clockedIn: false };
+
+  const earliest = entry.clockIn.getTime() - CLOCK_SKEW_MS;
+  const latest = Date.now() + CLOCK_SKEW_MS;
+  const onShift = fixes.filter((fix) => fix.recordedAt.getTime() >= earliest && fix.recordedAt.getTime() <= latest);
+
+  const { count } = await prisma.contractorLocationPing.createMany({
+    data: onShift.map((fix) => ({
+      contractorId: employee.contractorId,
+      employeeId: employee.id,
+      timeEntryId: entry.id,
+      lat: fix.lat,
+      lng: fix.lng,
+      accuracy: fix.accuracy ?? null,
+      speed: fix.speed ?? null,
+      heading: fix.heading ?? null,
+      recordedAt: fix.recordedAt,
+    })),
+    skipDuplicates: true,
+  });
+
+  // Late-arriving fixes older than the last event can't change what already happened
+  const lastEvent = await prisma.contractorJobSiteEvent.findFirst({
+    where: { employeeId: employee.id, occurredAt: { gte: entry.clockIn } },
+    orderBy: { occurredAt: 'desc' },
+    select: { occurredAt: true },
+  });
+  const fresh = lastEvent ? onShift.filter((fix) => fix.recordedAt > lastEvent.occurredAt) : onShift;
+
+  const [sites, state] = await Promise.all([
+    getEmployeeSites(employee.contractorId, employee.id, entry.jobId),
+    getSiteState(employee.id, entry.clockIn),
+  ]);
+  const { transitions } = detectSiteTransitions(fresh, sites, state);
+  await saveTransitions(employee, entry.id, transitions, 'breadcrumb');
+
+  return { accepted: count, events: transitions, clockedIn: true };
+}
+
+// ============= Clock In / Out =============
+
+/**
+ * Check a clock-in against the job's geofence. Throws OUTSIDE_GEOFENCE when
+ * the contractor rejects off-site clock-ins; otherwise returns the fields to
+ * store on the time entry.
+ */
+export async function checkClockInGeofence(contractorId: string, jobId: string | null | undefined, location: unknown) {
+  const point = readPoint(location);
+  const settings = await getGeofenceSettings(contractorId);
+
+  let site: JobSite | null = null;
+  if (jobId) {
+    const job = await prisma.contractorJob.findFirst({
+      where: { id: jobId, contractorId },
+      select: { id: true, coordinates: true, geofenceRadiusMeters: true },
+    });
+    if (!job) throw new CrewTrackingError(CrewTrackingErrorCodes.NOT_FOUND, 'Job not found');
+    site = toSite(job, settings.radiusMeters);
+  }
+
+  const check = evaluateClockIn(point, site, settings.mode);
+  if (check.decision === 'reject') {
+    throw new CrewTrackingError(
+      CrewTrackingErrorCodes.OUTSIDE_GEOFENCE,
+      check.distanceMeters === null
+        ? 'Share your location to clock in to this job'
+        : `You are ${check.distanceMeters} m from the job site. Clock in once you arrive.`,
+      check.distanceMeters
+    );
+  }
+
+  return {
+    check,
+    site,
+    data: {
+      geofenceStatus: check.status,
+      clockInDistanceMeters: check.distanceMeters,
+      geofenceFlagged: check.decision === 'flag',
+    },
+  };
+}
+
+/** Clocking in on site counts as arriving; it also seeds the breadcrumb trail */
+export async function recordClockInLocation(
+  employee: { id: string; contractorId: string },
+  timeEntryId: string,
+  location: unknown,
+  site: JobSite | null,
+  at: Date
+) {
+  const point = readPoint(location);
+  if (!point) return;
+
+  await prisma.contractorLocationPing.createMany({
+    data: [{ contractorId: employee.contractorId, employeeId: employee.id, timeEntryId, ...point, recordedAt: at }],
+    skipDuplicates: true,
+  });
+
+  if (site && isInsideSite(point, site)) {
+    await saveTransitions(
+      employee,
+      timeEntryId,
+      [{ type: 'arrived', jobId: site.jobId, fix: { ...point, recordedAt: at }, distanceMeters: distanceMeters(point, site.location) }],
+      'clock_in'
+    );
+  }
+}
+
+/** Clocking out closes any open site visit */
+export async function recordClockOutLocation(
+  employee: { id: string; contractorId: string },
+  timeEntry: { id: string; clockIn: Date },
+  location: unknown,
+  at: Date
+) {
+  const point = readPoint(location);
+  const state = await getSiteState(employee.id, timeEntry.clockIn);
+  if (!state.jobId) return;
+
+  const job = await prisma.contractorJob.findUnique({
+    where: { id: state.jobId },
+    select: { coordinates: true },
+  });
+  const site = readPoint(job?.coordinates);
+  const where = point ?? site;
+  if (!where) return;
+  const fix = { ...where, recordedAt: at };
+
+  await saveTransitions(
+    employee,
+    timeEntry.id,
+    [{ type: 'left', jobId: state.jobId, fix, distanceMeters: point && site ? distanceMeters(point, site) : 0 }],
+    'clock_out'
+  );
+}
+
+// ============= Reads =============
+
+/** Latest breadcrumb per employee, for the live map */
+export async function getLatestPings(employeeIds: string[]) {
+  if (employeeIds.length === 0) return new Map<string, { lat: number; lng: number; accuracy: number | null; recordedAt: Date }>();
+
+  const pings = await prisma.contractorLocationPing.findMany({
+    where: { employeeId: { in: employeeIds }, recordedAt: { gte: startOfDay(new Date()) } },
+    orderBy: { recordedAt: 'desc' },
+    distinct: ['employeeId'],
+    select: { employeeId: true, lat: true, lng: true, accuracy: true, recordedAt: true },
+  });
+  return new Map(pings.map(({ employeeId, ...ping }) => [employeeId, ping]));
+}
+
+/** One employee's day for replay on the crew map */
+export async function getRouteHistory(contractorId: string, employeeId: string, date: Date) {
+  const employee = await prisma.contractorEmployee.findFirst({
+    where: { id: employeeId, contractorId },
+    select: { id: true, firstName: true, lastName: true },
+  });
+  if (!employee) throw new CrewTrackingError(CrewTrackingErrorCodes.NOT_FOUND, 'Employee not found');
+
+  const range = { gte: startOfDay(date), lte: endOfDay(date) };
+  const [pings, events, entries] = await Promise.all([
+    prisma.contractorLocationPing.findMany({
+      where: { contractorId, employeeId, recordedAt: range },
+      orderBy: { recordedAt: 'asc' },
+      select: { lat: true, lng: true, accuracy: true, speed: true, heading: true, recordedAt: true },
+    }),
+    prisma.contractorJobSiteEvent.findMany({
+      where: { contractorId, employeeId, occurredAt: range },
+      orderBy: { occurredAt: 'asc' },
+      include: { job: { select: { title: true, jobNumber: true, address: true } } },
+    }),
+    prisma.contractorTimeEntry.findMany({
+      where: { contractorId, employeeId, clockIn: range },
+      orderBy: { clockIn: 'asc' },
+      select: {
+        id: true,
+        clockIn: true,
+        clockOut: true,
+        jobId: true,
+        geofenceStatus: true,
+        clockInDistanceMeters: true,
+        geofenceFlagged: true,
+      },
+    }),
+  ]);
+
+  const lastClockOut = entries.every((entry) => entry.clockOut)
+    ? entries[entries.length - 1]?.clockOut ?? undefined
+    : undefined;
+  const summary = summarizeRoute(pings, events, lastClockOut ?? new Date());
+
+  return {
+    employee: { id: employee.id, name: `${employee.firstName} ${employee.lastName}`.trim() },
+    pings,
+    events,
+    timeEntries: entries,
+    summary,
+  };
+}
@@ -0,0 +1,854 @@
+/**
+ * Data Subject Request Service
+ * GDPR / CCPA requests to export or erase a user's personal data:
+ * 1. Users file requests from the web or mobile app. Exports are queued as a
+ *    background job straight away; erasure waits in the admin review queue
+ *    because it can't be undone
+ * 2. Exports gather the user's records across models into a ZIP with a JSON
+ *    and (for lists) a CSV file per section. The ZIP is uploaded privately to
+ *    Cloudinary and handed out through short-lived signed URLs until it
+ *    expires a week later
+ * 3. Erasure anonymizes the user in place rather than deleting the row.
+ *    Leases, rent payments and invoices cascade from the user, and tax and
+ *    accounting rules require landlords to keep them, so those stay linked to
+ *    an anonymized "Deleted user". Credentials, sessions, notifications,
+ *    saved searches and uploaded identity documents are deleted outright.
+ *    The user's contractor profile is unpublished and scrubbed; landlord
+ *    accounts keep their business name and address for those records but
+ *    lose their contact details
+ * 4. Every request has a statutory due date (one month, the stricter of the
+ *    GDPR and CCPA deadlines) shown in the review queue
+ */
+
+import { prisma, type TransactionClient } from '@/db/prisma';
+import { Prisma } from '@prisma/client';
+import Stripe from 'stripe';
+import { cloudinary, getSignedCloudinaryUrl, uploadToCloudinary } from '@/lib/cloudinary';
+import { jobRuntime } from '@/lib/queue';
+import { logAuditEvent } from '@/lib/security/audit-logger';
+import { createZip } from '@/lib/utils/zip';
+
+export const DATA_REQUEST_TYPES = ['export', 'erasure'] as const;
+export type DataRequestType = (typeof DATA_REQUEST_TYPES)[number];
+
+export const DATA_REQUEST_STATUSES = [
+  'pending_review',
+  'pending',
+  'processing',
+  'completed',
+  'rejected',
+  'failed',
+] as const;
+export type DataRequestStatus = (typeof DATA_REQUEST_STATUSES)[number];
+
+const OPEN_STATUSES: DataRequestStatus[] = ['pending_review', 'pending', 'processing'];
+
+const DAY = 24 * 60 * 60 * 1000;
+const RESPONSE_DEADLINE_DAYS = 30;
+const EXPORT_RETENTION_DAYS = 7;
+const DOWNLOAD_URL_TTL_SECONDS = 5 * 60;
+
+export const ERASED_NAME = 'Deleted user';
+
+export function erasedEmail(userId: string): string {
+  return `erased-${userId}@erased.invalid`;
+}
+
+// ============= Errors =============
+
+export const DataRequestErrorCodes = {
+  NOT_FOUND: 'NOT_FOUND',
+  INVALID_INPUT: 'INVALID_INPUT',
+  INVALID_STATE: 'INVALID_STATE',
+  EXPIRED: 'EXPIRED',
+} as const;
+
+export type DataRequestErrorCode = typeof DataRequestErrorCodes[keyof typeof DataRequestErrorCodes];
+
+export class DataRequestError extends Error {
+  code: DataRequestErrorCode;
+
+  constructor(code: DataRequestErrorCode, message: string) {
+    super(message);
+    this.code = code;
+    this.name = 'DataRequestError';
+  }
+}
+
+export function getDataRequestErrorStatus(code: DataRequestErrorCode): number {
+  switch (code) {
+    case DataRequestErrorCodes.NOT_FOUND:
+      return 404;
+    case DataRequestErrorCodes.INVALID_STATE:
+      return 409;
+    case DataRequestErrorCodes.EXPIRED:
+      return 410;
+    default:
+      return 400;
+  }
+}
+
+// ============= Requests =============
+
+export interface DataRequestSummary {
+  sections?: Record<string, number>;
+  erased?: Record<string, number>;
+  retained?: Record<string, number>;
+  deletedFiles?: number;
+  cancelledSubscriptions?: number;
+}
+
+export function isDataRequestType(value: unknown): value is DataRequestType {
+  return typeof value === 'string' && (DATA_REQUEST_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * File a request. A user has at most one open request of each type; asking
+ * again returns the open one.
+ */
+export async function createDataSubjectRequest(params: {
+  userId: string;
+  type: DataRequestType;
+  source?: 'web' | 'mobile' | 'admin';
+  reason?: string | null;
+}) {
+  if (!isDataRequestType(params.type)) {
+    throw new DataRequestError(DataRequestErrorCodes.INVALID_INPUT, 'Request type must be export or erasure');
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: params.userId }, select: { id: true, email: true } });
+  if (!user) throw new DataRequestError(DataRequestErrorCodes.NOT_FOUND, 'User not found');
+
+  const open = await prisma.dataSubjectRequest.findFirst({
+    where: { userId: user.id, type: params.type, status: { in: OPEN_STATUSES } },
+  });
+  if (open) return { request: open, created: false };
+
+  const now = new Date();
+  const request = await prisma.dataSubjectRequest.create({
+    data: {
+      userId: user.id,
+      type: params.type,
+      status: params.type === 'export' ? 'pending' : 'pending_review',
+      source: params.source ?? 'web',
+      requestedEmail: user.email,
+      reason: params.reason?.trim() || null,
+      dueAt: new Date(now.getTime() + RESPONSE_DEADLINE_DAYS * DAY),
+    },
+  });
+
+  await logAuditEvent({
+    action: params.type === 'export' ? 'DATA_EXPORT_REQUESTED' : 'ACCOUNT_ERASURE_REQUESTED',
+    userId: user.id,
+    resourceType: 'data_subject_request',
+    resourceId: request.id,
+    metadata: { source: request.source },
+    severity: params.type === 'erasure' ? 'WARNING' : 'INFO',
+  });
+
+  if (params.type === 'export') {
+    return { request: await queueRequest(request.id, 'export'), created: true };
+  }
+  return { request, created: true };
+}
+
+async function queueRequest(requestId: string, type: DataRequestType) {
+  const { id: jobId } = await jobRuntime.enqueue(
+    type === 'export' ? 'data_export' : 'data_erasure',
+    { requestId },
+    { idempotencyKey: `data-request:${requestId}` }
+  );
+  return prisma.dataSubjectRequest.update({ where: { id: requestId }, data: { status: 'pending', jobId } });
+}
+
+export async function listUserDataRequests(userId: string) {
+  const requests = await prisma.dataSubjectRequest.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+    take: 20,
+    select: {
+      id: true,
+      type: true,
+      status: true,
+      dueAt: true,
+      reviewNote: true,
+      exportSize: true,
+      exportExpiresAt: true,
+      exportPublicId: true,
+      completedAt: true,
+      createdAt: true,
+    },
+  });
+
+  const now = new Date();
+  return requests.map(({ exportPublicId, ...request }) => ({
+    ...request,
+    downloadable: Boolean(exportPublicId && request.exportExpiresAt && request.exportExpiresAt > now),
+  }));
+}
+
+/**
+ * Short-lived signed URL for the user's own completed export
+ */
+export async function getExportDownloadUrl(requestId: string, userId: string): Promise<string> {
+  const request = await prisma.dataSubjectRequest.findFirst({ where: { id: requestId, userId, type: 'export' } });
+  if (!request) throw new DataRequestError(DataRequestErrorCodes.NOT_FOUND, 'Export not found');
+  if (request.status !== 'completed') {
+    throw new DataRequestError(DataRequestErrorCodes.INVALID_STATE, 'This export is not ready yet');
+  }
+  if (!request.exportPublicId || !request.exportExpiresAt || request.exportExpiresAt <= new Date()) {
+    throw new DataRequestError(DataRequestErrorCodes.EXPIRED, 'This export has expired. Request a new one.');
+  }
+
+  return getSignedCloudinaryUrl({
+    publicId: request.exportPublicId,
+    resourceType: 'raw',
+    expiresInSeconds: DOWNLOAD_URL_TTL_SECONDS,
+  });
+}
+
+// ============= Admin review =============
+
+export async function listDataSubjectRequests(filters: { status?: string; type?: string } = {}) {
+  const where: Prisma.DataSubjectRequestWhereInput = {};
+  if (filters.status) where.status = filters.status;
+  if (filters.type) where.type = filters.type;
+
+  const requests = await prisma.dataSubjectRequest.findMany({
+    where,
+    orderBy: [{ dueAt: 'asc' }, { createdAt: 'asc' }],
+    take: 200,
+  });
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: [...new Set(requests.map((request) => request.userId))] } },
+    select: { id: true, name: true, email: true, role: true },
+  });
+  const byId = new Map(users.map((user) => [user.id, user]));
+
+  return requests.map((request) => ({ ...request, user: byId.get(request.userId) ?? null }));
+}
+
+/**
+ * What erasing a user would remove and what it would keep, for the reviewer
+ */
+export async function getErasureImpact(userId: string) {
+  const [erased, retained, businesses] = await Promise.all([
+    countErasable(prisma, userId),
+    countRetained(prisma, userId),
+    Promise.all([
+      prisma.landlord.findMany({ where: { ownerUserId: userId }, select: { id: true, name: true } }),
+      prisma.contractorProfile.findMany({ where: { userId }, select: { id: true, businessName: true } }),
+    ]),
+  ]);
+  const [landlords, contractors] = businesses;
+  return { erased, retained, landlords, contractors };
+}
+
+export async function reviewDataSubjectRequest(params: {
+  requestId: string;
+  reviewerId: string;
+  decision: 'approve' | 'reject';
+  note?: string | null;
+}) {
+  const request = await prisma.dataSubjectRequest.findUnique({ where: { id: params.requestId } });
+  if (!request) throw new DataRequestError(DataRequestErrorCodes.NOT_FOUND, 'Request not found');
+  if (request.status !== 'pending_review') {
+    throw new DataRequestError(DataRequestErrorCodes.INVALID_STATE, `Request is ${request.status}, not awaiting review`);
+  }
+  if (params.decision === 'reject' && !params.note?.trim()) {
+    throw new DataRequestError(DataRequestErrorCodes.INVALID_INPUT, 'Explain why the request is being rejected');
+  }
+
+  const reviewed = await prisma.dataSubjectRequest.update({
+    where: { id: request.id },
+    data: {
+      status: params.decision === 'approve' ? 'pending' : 'rejected',
+      reviewedById: params.reviewerId,
+      reviewedAt: new Date(),
+      reviewNote: params.note?.trim() || null,
+    },
+  });
+
+  await logAuditEvent({
+    action: 'ADMIN_ACTION',
+    userId: params.reviewerId,
+    resourceType: 'data_subject_request',
+    resourceId: request.id,
+    metadata: { decision: params.decision, type: request.type, subjectUserId: request.userId },
+  });
+
+  if (params.decision === 'reject') {
+    await notifyRequester(
+      reviewed.requestedEmail,
+      'Your account deletion request',
+      `<p>We reviewed your request to delete your account and can't complete it right now.</p><p>${escapeHtml(reviewed.reviewNote ?? '')}</p><p>Reply to this email if you have questions.</p>`
+    );
+    return reviewed;
+  }
+  return queueRequest(request.id, request.type as DataRequestType);
+}
+
+/**
+ * Re-queue a failed request
+ */
+export async function retryDataSubjectRequest(requestId: string) {
+  const request = await prisma.dataSubjectRequest.findUnique({ where: { id: requestId } });
+  if (!request) throw new DataRequestError(DataRequestErrorCodes.NOT_FOUND, 'Request not found');
+  if (request.status !== 'failed') {
+    throw new DataRequestError(DataRequestErrorCodes.INVALID_STATE, 'Only failed requests can be retried');
+  }
+  const { id: jobId } = await jobRuntime.enqueue(
+    request.type === 'export' ? 'data_export' : 'data_erasure',
+    { requestId },
+    { idempotencyKey: `data-request:${requestId}:retry:${Date.now()}` }
+  );
+  return prisma.dataSubjectRequest.update({ where: { id: requestId }, data: { status: 'pending', jobId, error: null } });
+}
+
+// ============= Export =============
+
+type Row = Record<string, unknown>;
+
+// Never exported, even when a section selects whole rows
+const SECRET_FIELDS = new Set([
+  'password',
+  'encryptedSsn',
+  'keyHash',
+  'refresh_token',
+  'access_token',
+  'id_token',
+  'sessionToken',
+  'token',
+  'ocrText',
+]);
+
+function toPlain(value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'bigint') return value.toString();
+  if (Array.isArray(value)) return value.map(toPlain);
+  if (typeof value === 'object') {
+    // Prisma Decimals
+    if ('toFixed' in value && typeof (value as { toString: unknown }).toString === 'function') {
+      return (value as { toString(): string }).toString();
+    }
+    const out: Row = {};
+    for (const [key, entry] of Object.entries(value)) {
+      if (!SECRET_FIELDS.has(key)) out[key] = toPlain(entry);
+    }
+    return out;
+  }
+  return value;
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: Row[]): string {
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  const lines = [columns.join(','), ...rows.map((row) => columns.map((column) => csvCell(row[column])).join(','))];
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Everything we hold about a user, one entry per export section. Document
+ * sections hold metadata only; the files themselves stay in storage.
+ */
+export async function collectUserData(userId: string): Promise<Record<string, Row | Row[]>> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      emailVerified: true,
+      image: true,
+      role: true,
+      phoneNumber: true,
+      phoneVerified: true,
+      address: true,
+      shippingAddress: true,
+      billingAddress: true,
+      notificationPreferences: true,
+      twoFactorEnabled: true,
+      onboardingCompleted: true,
+      createdAt: true,
+      updatedAt: true,
+      account: { select: { provider: true, type: true } },
+    },
+  });
+  if (!user) throw new DataRequestError(DataRequestErrorCodes.NOT_FOUND, 'User not found');
+
+  const [
+    leases,
+    rentPayments,
+    cashPayments,
+    invoices,
+    messages,
+    applications,
+    scannedDocuments,
+    applicationDocuments,
+    verificationDocuments,
+    maintenanceTickets,
+    notifications,
+    auditLogs,
+    savedSearches,
+    reviews,
+  ] = await Promise.all([
+    prisma.lease.findMany({
+      where: { tenantId: userId },
+      include: { unit: { select: { name: true, property: { select: { name: true, address: true } } } } },
+      orderBy: { startDate: 'asc' },
+    }),
+    prisma.rentPayment.findMany({ where: { tenantId: userId }, orderBy: { dueDate: 'asc' } }),
+    prisma.cashPayment.findMany({ where: { tenantId: userId }, orderBy: { createdAt: 'asc' } }),
+    prisma.tenantInvoice.findMany({ where: { tenantId: userId }, orderBy: { createdAt: 'asc' } }),
+    prisma.message.findMany({
+      where: { OR: [{ senderUserId: userId }, { thread: { participants: { some: { userId } } } }] },
+      select: { id: true, threadId: true, senderUserId: true, senderName: true, content: true, role: true, createdAt: true },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.rentalApplication.findMany({ where: { applicantId: userId }, omit: { encryptedSsn: true } }),
+    prisma.scannedDocument.findMany({
+      where: { uploadedBy: userId },
+      select: { id: true, originalFileName: true, fileType: true, fileSize: true, documentType: true, createdAt: true },
+    }),
+    prisma.applicationDocument.findMany({
+      where: { uploadedById: userId },
+      select: { id: true, applicationId: true, category: true, docType: true, originalFileName: true, mimeType: true, fileSize: true, status: true, createdAt: true },
+    }),
+    prisma.verificationDocument.findMany({
+      where: { uploadedById: userId },
+      omit: { cloudinaryPublicId: true, cloudinarySecureUrl: true },
+    }),
+    prisma.maintenanceTicket.findMany({ where: { tenantId: userId }, orderBy: { createdAt: 'asc' } }),
+    prisma.notification.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+    prisma.auditLog.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+    prisma.savedSearch.findMany({ where: { userId } }),
+    prisma.contractorReview.findMany({ where: { customerId: userId } }),
+  ]);
+
+  return {
+    profile: toPlain(user) as Row,
+    leases: toPlain(leases) as Row[],
+    payments: toPlain([
+      ...rentPayments.map((payment) => ({ kind: 'rent', ...payment })),
+      ...cashPayments.map((payment) => ({ kind: 'cash', ...payment })),
+    ]) as Row[],
+    invoices: toPlain(invoices) as Row[],
+    messages: toPlain(messages) as Row[],
+    applications: toPlain(applications) as Row[],
+    documents: toPlain([
+      ...scannedDocuments.map((doc) => ({ source: 'scanned', ...doc })),
+      ...applicationDocuments.map((doc) => ({ source: 'application', ...doc })),
+      ...verificationDocuments.map((doc) => ({ source: 'verification', ...doc })),
+    ]) as Row[],
+    maintenance_requests: toPlain(maintenanceTickets) as Row[],
+    notifications: toPlain(notifications) as Row[],
+    audit_log: toPlain(auditLogs) as Row[],
+    saved_searches: toPlain(savedSearches) as Row[],
+    reviews: toPlain(reviews) as Row[],
+  };
+}
+
+export function buildExportArchive(
+  sections: Record<string, Row | Row[]>,
+  meta: { requestId: string; userId: string; generatedAt: Date }
+): { archive: Buffer; counts: Record<string, number> } {
+  const counts: Record<string, number> = {};
+  const entries = [];
+
+  for (const [name, data] of Object.entries(sections)) {
+    counts[name] = Array.isArray(data) ? data.length : 1;
+    entries.push({ name: `${name}.json`, content: JSON.stringify(data, null, 2), modifiedAt: meta.generatedAt });
+    if (Array.isArray(data) && data.length) {
+      entries.push({ name: `${name}.csv`, content: toCsv(data), modifiedAt: meta.generatedAt });
+    }
+  }
+
+  const manifest = { requestId: meta.requestId, userId: meta.userId, generatedAt: meta.generatedAt.toISOString(), sections: counts };
+  const readme = [
+    'PropertyFlow HQ personal data export',
+    '',
+    `Generated ${meta.generatedAt.toISOString()} for user ${meta.userId}.`,
+    '',
+    'Each section is a JSON file; lists are also provided as CSV. manifest.json',
+    'lists the number of records in each section. Uploaded documents are listed',
+    'by name and type; contact support for copies of the files themselves.',
+    'Passwords and encrypted identifiers (such as SSNs) are never exported.',
+    '',
+  ].join('\n');
+
+  return {
+    archive: createZip([
+      { name: 'README.txt', content: readme, modifiedAt: meta.generatedAt },
+      { name: 'manifest.json', content: JSON.stringify(manifest, null, 2), modifiedAt: meta.generatedAt },
+      ...entries,
+    ]),
+    counts,
+  };
+}
+
+async function startProcessing(requestId: string) {
+  const request = await prisma.dataSubjectRequest.findUnique({ where: { id: requestId } });
+  if (!request) throw new DataRequestError(DataRequestErrorCodes.NOT_FOUND, 'Request not found');
+  if (request.status === 'completed' || request.status === 'rejected') return null;
+  return prisma.dataSubjectRequest.update({ where: { id: requestId }, data: { status: 'processing', error: null } });
+}
+
+async function markFailed(requestId: string, error: unknown) {
+  await prisma.dataSubjectRequest.update({
+    where: { id: requestId },
+    data: { status: 'failed', error: error instanceof Error ? error.message : String(error) },
+  });
+}
+
+/**
+ * Job handler: build, upload and announce a user's export
+ */
+export async function runDataExport(requestId: string) {
+  const request = await startProcessing(requestId);
+  if (!request) return { skipped: true };
+
+  try {
+    const generatedAt = new Date();
+    const sections = await collectUserData(request.userId);
+    const { archive, counts } = buildExportArchive(sections, { requestId, userId: request.userId, generatedAt });
+
+    const upload = await uploadToCloudinary(archive, {
+      folder: `data-exports/${request.userId}`,
+      resource_type: 'raw',
+      type: 'authenticated',
+      public_id: `export-${requestId}.zip`,
+    });
+
+    const exportExpiresAt = new Date(generatedAt.getTime() + EXPORT_RETENTION_DAYS * DAY);
+    await prisma.dataSubjectRequest.update({
+      where: { id: requestId },
+      data: {
+        status: 'completed',
+        exportPublicId: upload.public_id,
+        exportSize: archive.length,
+        exportExpiresAt,
+        summary: { sections: counts } satisfies DataRequestSummary,
+        completedAt: new Date(),
+      },
+    });
+
+    await logAuditEvent({
+      action: 'DATA_EXPORT_COMPLETED',
+      userId: request.userId,
+      resourceType: 'data_subject_request',
+      resourceId: requestId,
+      metadata: { bytes: archive.length },
+    });
+
+    await notifyRequester(
+      request.requestedEmail,
+      'Your data export is ready',
+      `<p>The copy of your personal data you requested is ready.</p><p>Sign in and open <strong>Settings → Data &amp; Privacy</strong> to download it. The download is available until ${exportExpiresAt.toUTCString()}.</p>`
+    );
+
+    return { bytes: archive.length, sections: counts };
+  } catch (error) {
+    await markFailed(requestId, error);
+    throw error;
+  }
+}
+
+// ============= Erasure =============
+
+type Db = TransactionClient | typeof prisma;
+
+async function countErasable(db: Db, userId: string) {
+  const [accounts, sessions, pushTokens, notifications, savedSearches, messages, applications, documents] =
+    await Promise.all([
+      db.account.count({ where: { userId } }),
+      db.session.count({ where: { userId } }),
+      db.pushToken.count({ where: { userId } }),
+      db.notification.count({ where: { userId } }),
+      db.savedSearch.count({ where: { userId } }),
+      db.message.count({ where: { senderUserId: userId } }),
+      db.rentalApplication.count({ where: { applicantId: userId } }),
+      Promise.all([
+        db.applicationDocument.count({ where: { uploadedById: userId } }),
+        db.verificationDocument.count({ where: { uploadedById: userId } }),
+      ]).then(([a, b]) => a + b),
+    ]);
+  return { accounts, sessions, pushTokens, notifications, savedSearches, messages, applications, documents };
+}
+
+// Kept with the user anonymized: financial records and the security audit trail
+async function countRetained(db: Db, userId: string) {
+  const [leases, rentPayments, cashPayments, invoices, auditLogs] = await Promise.all([
+    db.lease.count({ where: { tenantId: userId } }),
+    db.rentPayment.count({ where: { tenantId: userId } }),
+    db.cashPayment.count({ where: { tenantId: userId } }),
+    db.tenantInvoice.count({ where: { tenantId: userId } }),
+    db.auditLog.count({ where: { userId } }),
+  ]);
+  return { leases, rentPayments, cashPayments, invoices, auditLogs };
+}
+
+/**
+ * Anonymize a user. Returns counts of what was erased and retained, and the
+ * storage ids of deleted documents so their files can be removed afterwards.
+ */
+export async function eraseUserData(db: TransactionClient, userId: string) {
+  const email = erasedEmail(userId);
+  const erased = await countErasable(db, userId);
+  const retained = await countRetained(db, userId);
+
+  const [applicationDocs, verificationDocs] = await Promise.all([
+    db.applicationDocument.findMany({
+      where: { uploadedById: userId },
+      select: { cloudinaryPublicId: true, cloudinaryResourceType: true },
+    }),
+    db.verificationDocument.findMany({
+      where: { uploadedById: userId },
+      select: { cloudinaryPublicId: true, cloudinaryResourceType: true },
+    }),
+  ]);
+
+  await db.user.update({
+    where: { id: userId },
+    data: {
+      name: ERASED_NAME,
+      email,
+      emailVerified: null,
+      image: null,
+      password: null,
+      phoneNumber: null,
+      phoneVerified: null,
+      address: Prisma.DbNull,
+      shippingAddress: Prisma.DbNull,
+      billingAddress: Prisma.DbNull,
+      notificationPreferences: Prisma.DbNull,
+      paymentMethod: null,
+      twoFactorEnabled: false,
+      isBlocked: true,
+      blockedAt: new Date(),
+      blockedReason: 'Account erased at the owner’s request',
+    },
+  });
+
+  await db.account.deleteMany({ where: { userId } });
+  await db.session.deleteMany({ where: { userId } });
+  await db.pushToken.deleteMany({ where: { userId } });
+  await db.notification.deleteMany({ where: { userId } });
+  await db.notificationSettings.deleteMany({ where: { userId } });
+  await db.savedPaymentMethod.deleteMany({ where: { userId } });
+  await db.savedSearch.deleteMany({ where: { userId } });
+  await db.favoriteContractor.deleteMany({ where: { userId } });
+
+  await db.message.updateMany({
+    where: { senderUserId: userId },
+    data: { senderName: ERASED_NAME, senderEmail: null, content: '[Message removed at the sender’s request]' },
+  });
+
+  // Business accounts: off the marketplace, no way to reach the person
+  await db.contractorProfile.updateMany({
+    where: { userId },
+    data: {
+      isPublic: false,
+      isAvailable: false,
+      acceptingNewWork: false,
+      instantBookingEnabled: false,
+      slug: `erased-${userId}`,
+      subdomain: null,
+      businessName: ERASED_NAME,
+      displayName: ERASED_NAME,
+      email,
+      phone: null,
+      verifiedPhone: null,
+      website: null,
+      tagline: null,
+      bio: null,
+      aboutBio: null,
+      aboutPhoto: null,
+      profilePhoto: null,
+      coverPhoto: null,
+      logoUrl: null,
+      taxId: null,
+      googleCalendarToken: null,
+      googleCalendarId: null,
+      outlookCalendarToken: null,
+      outlookCalendarId: null,
+    },
+  });
+  await db.landlord.updateMany({
+    where: { ownerUserId: userId },
+    data: {
+      companyEmail: null,
+      companyPhone: null,
+      notificationEmail: null,
+      notificationPhone: null,
+      aboutBio: null,
+      aboutPhoto: null,
+    },
+  });
+
+  await db.rentalApplication.updateMany({
+    where: { applicantId: userId },
+    data: {
+      fullName: ERASED_NAME,
+      email,
+      phone: null,
+      encryptedSsn: null,
+      notes: null,
+      monthlyIncome: null,
+      employmentStatus: null,
+      screeningReportUrl: null,
+    },
+  });
+  await db.applicationDocument.deleteMany({ where: { uploadedById: userId } });
+  await db.verificationDocument.deleteMany({ where: { uploadedById: userId } });
+
+  return {
+    erased,
+    retained,
+    files: [...applicationDocs, ...verificationDocs].map((doc) => ({
+      publicId: doc.cloudinaryPublicId,
+      resourceType: doc.cloudinaryResourceType,
+    })),
+  };
+}
+
+/**
+ * Cancel the Stripe subscriptions on the user's landlord and contractor
+ * accounts so billing stops with the erasure. Throws if one can't be
+ * cancelled, before anything is erased, so the job retries from a clean start.
+ */
+async function cancelUserSubscriptions(userId: string): Promise<number> {
+  const [landlords, contractor] = await Promise.all([
+    prisma.landlord.findMany({
+      where: { ownerUserId: userId, stripeSubscriptionId: { not: null } },
+      select: { stripeSubscriptionId: true },
+    }),
+    prisma.contractorProfile.findUnique({ where: { userId }, select: { stripeSubscriptionId: true } }),
+  ]);
+  const subscriptionIds = [...landlords.map((l) => l.stripeSubscriptionId), contractor?.stripeSubscriptionId].filter(
+    (id): id is string => !!id
+  );
+
+  let cancelled = 0;
+  if (subscriptionIds.length > 0) {
+    const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
+    if (!stripeSecretKey) throw new Error('Stripe secret key not configured; subscriptions were not cancelled');
+    const stripe = new Stripe(stripeSecretKey);
+
+    for (const subscriptionId of subscriptionIds) {
+      try {
+        const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+        if (subscription.status === 'canceled') continue;
+        await stripe.subscriptions.cancel(subscriptionId);
+        cancelled++;
+      } catch (error) {
+        // Already deleted in Stripe: nothing left to bill
+        if (error instanceof Stripe.errors.StripeInvalidRequestError && error.code === 'resource_missing') continue;
+        throw error;
+      }
+    }
+  }
+
+  await prisma.landlord.updateMany({ where: { ownerUserId: userId }, data: { subscriptionStatus: 'canceled' } });
+  await prisma.contractorProfile.updateMany({ where: { userId }, data: { subscriptionStatus: 'canceled' } });
+  return cancelled;
+}
+
+/**
+ * Job handler: stop the user's subscriptions, then erase them and remove
+ * their uploads
+ */
+export async function runDataErasure(requestId: string) {
+  const request = await startProcessing(requestId);
+  if (!request) return { skipped: true };
+
+  try {
+    const cancelledSubscriptions = await cancelUserSubscriptions(request.userId);
+    const result = await prisma.$transaction((tx) => eraseUserData(tx, request.userId), { timeout: 60_000 });
+
+    // Files go after the commit; a leftover file is unreachable once its row is gone
+    let deletedFiles = 0;
+    for (const file of result.files) {
+      try {
+        await cloudinary.uploader.destroy(file.publicId, { resource_type: file.resourceType, type: 'authenticated' });
+        deletedFiles++;
+      } catch (error) {
+        console.error(`Failed to delete erased document ${file.publicId}:`, error);
+      }
+    }
+
+    const summary: DataRequestSummary = {
+      erased: result.erased,
+      retained: result.retained,
+      deletedFiles,
+      cancelledSubscriptions,
+    };
+    await prisma.dataSubjectRequest.update({
+      where: { id: requestId },
+      data: { status: 'completed', summary: summary as Prisma.InputJsonValue, completedAt: new Date() },
+    });
+
+    await logAuditEvent({
+      action: 'ACCOUNT_ERASED',
+      userId: request.userId,
+      resourceType: 'data_subject_request',
+      resourceId: requestId,
+      metadata: { ...summary },
+      severity: 'WARNING',
+    });
+
+    await notifyRequester(
+      request.requestedEmail,
+      'Your account has been deleted',
+      '<p>Your account and personal data have been deleted as you requested.</p><p>Lease, payment and invoice records that landlords are legally required to keep have been retained without your name or contact details.</p>'
+    );
+
+    return summary;
+  } catch (error) {
+    await markFailed(requestId, error);
+    throw error;
+  }
+}
+
+/**
+ * Recurring job: remove export archives past their download window
+ */
+export async function expireDataExports(now = new Date()) {
+  const expired = await prisma.dataSubjectRequest.findMany({
+    where: { type: 'export', exportPublicId: { not: null }, exportExpiresAt: { lte: now } },
+    select: { id: true, exportPublicId: true },
+    take: 200,
+  });
+
+  let removed = 0;
+  for (const request of expired) {
+    try {
+      await cloudinary.uploader.destroy(request.exportPublicId!, { resource_type: 'raw', type: 'authenticated' });
+      await prisma.dataSubjectRequest.update({ where: { id: request.id }, data: { exportPublicId: null } });
+      removed++;
+    } catch (error) {
+      console.error(`Failed to remove expired export ${request.id}:`, error);
+    }
+  }
+  return { expired: expired.length, removed };
+}
+
+// ============= Helpers =============
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+async function notifyRequester(to: string, subject: string, html: string) {
+  try {
+    await jobRuntime.enqueue('send_email', { to, subject, html });
+  } catch (error) {
+    console.error('Failed to queue data request email:', error);
+  }
+}
@@ -6,6 +6,15 @@ import type {
   DepositRefundMethod,
 } from '@/types/tenant-lifecycle';
 import { v2 as cloudinary } from 'cloudinary';
+import {
+  syncDepositDispositionLedger,
+  syncLedgerSafely,
+} from '@/lib/services/tenant-ledger.service';
+import {
+  checkDepositReturn,
+  getJurisdictionRules,
+  getPropertyLocation,
+} from '@/lib/services/jurisdiction-rules.service';
 
 // Configure cloudinary if not already configured
 if (!cloudinary.config().cloud_name) {
@@ -18,7 +27,8 @@ if (!cloudinary.config().cloud_name) {
 
 export class DepositService {
   /**
-   * Creates a deposit disposition with itemized deductions
+   * Creates a deposit disposition with itemized deductions. Records the
+   * jurisdiction's return deadline and warns if it has passed.
    */
   async createDisposition(
     params: CreateDepositDispositionRequest
@@ -66,6 +76,20 @@ export class DepositService {
       throw new Error('Property has no associated landlord');
     }
 
+    // Return deadline runs from move-out: the recorded departure, else the lease end
+    const departure = await prisma.tenantDeparture.findFirst({
+      where: { leaseId },
+      orderBy: { departureDate: 'desc' },
+      select: { departureDate: true },
+    });
+    const now = new Date();
+    const moveOutDate = departure?.departureDate ?? lease.endDate ?? now;
+    const rules = await getJurisdictionRules(getPropertyLocation(lease.unit.property.address), moveOutDate);
+    const { returnDeadline, issues } = checkDepositReturn(
+      { moveOutDate, dispositionDate: now, originalAmount, monthlyRent: Number(lease.rentAmount) },
+      rules
+    );
+
     // Create the deposit disposition with deductions in a transaction
     const disposition = await prisma.$transaction(async (tx) => {
       const depositDisposition = await tx.depositDisposition.create({
@@ -79,6 +103,8 @@ export class DepositService {
           refundMethod,
           refundStatus: 'pending',
           notes,
+          returnDeadline,
+          complianceWarnings: issues.map((issue) => issue.message),
         },
       });
 
@@ -106,6 +132,10 @@ export class DepositService {
       throw new Error('Failed to create deposit disposition');
     }
 
+    await syncLedgerSafely(`deposit disposition ${disposition.id}`, () =>
+      syncDepositDispositionLedger(disposition.id)
+    );
+
     return disposition;
   }
 
@@ -178,13 +208,21 @@ export class DepositService {
     status: 'pending' | 'processing' | 'completed',
     processedAt?: Date
   ): Promise<DepositDisposition> {
-    return prisma.depositDisposition.update({
+    const disposition = await prisma.depositDisposition.update({
       where: { id: dispositionId },
       data: {
         refundStatus: status,
         processedAt: status === 'completed' ? (processedAt || new Date()) : undefined,
       },
     });
+
+    if (status === 'completed') {
+      await syncLedgerSafely(`deposit refund ${dispositionId}`, () =>
+        syncDepositDispositionLedger(dispositionId)
+      );
+    }
+
+    return disposition;
   }
 
   /**
@@ -0,0 +1,146 @@
+/**
+ * Dispatch distance providers
+ *
+ * The dispatch optimizer asks a provider for a drive-time matrix between
+ * crew start points and job sites. Haversine needs no network and is always
+ * available; Google Distance Matrix is used when GOOGLE_MAPS_SERVER_KEY is
+ * set, fetched in blocks that fit its per-request limits, and falls back to
+ * haversine if any request fails so dispatch still runs offline.
+ */
+
+// ============= Types =============
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface DistanceProvider {
+  name: string;
+  /** Drive minutes from every point to every other point */
+  getTravelMinutes(points: GeoPoint[]): Promise<number[][]>;
+}
+
+// ============= Haversine =============
+
+const EARTH_RADIUS_KM = 6371;
+
+// Straight-line distance understates road distance; 1.3 is a common
+// urban/suburban detour factor
+const ROAD_FACTOR = 1.3;
+const AVERAGE_SPEED_KMH = 40;
+
+export function haversineKm(a: GeoPoint, b: GeoPoint): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+export function estimateDriveMinutes(a: GeoPoint, b: GeoPoint): number {
+  return Math.round(((haversineKm(a, b) * ROAD_FACTOR) / AVERAGE_SPEED_KMH) * 60);
+}
+
+export const haversineProvider: DistanceProvider = {
+  name: 'haversine',
+  async getTravelMinutes(points) {
+    return points.map((from) => points.map((to) => estimateDriveMinutes(from, to)));
+  },
+};
+
+// ============= Google Distance Matrix =============
+
+const GOOGLE_MATRIX_URL = 'https://maps.googleapis.com/maps/api/distancematrix/json';
+
+// Distance Matrix allows at most 25 origins or destinations, and 100
+// origin × destination elements, per request
+const GOOGLE_MAX_POINTS = 25;
+const GOOGLE_MAX_ELEMENTS = 100;
+
+interface GoogleMatrixResponse {
+  status: string;
+  rows: { elements: { status: string; duration?: { value: number } }[] }[];
+}
+
+/**
+ * Split an n×n matrix into origin/destination blocks that each fit one
+ * request: destinations in runs of up to 25, origins in as many rows as the
+ * element cap leaves room for.
+ */
+export function planMatrixBlocks(count: number): { origins: [number, number]; destinations: [number, number] }[] {
+  const destinationSize = Math.min(count, GOOGLE_MAX_POINTS);
+  const originSize = Math.min(GOOGLE_MAX_POINTS, Math.max(1, Math.floor(GOOGLE_MAX_ELEMENTS / destinationSize)));
+  const blocks: { origins: [number, number]; destinations: [number, number] }[] = [];
+  for (let o = 0; o < count; o += originSize) {
+    for (let d = 0; d < count; d += destinationSize) {
+      blocks.push({
+        origins: [o, Math.min(o + originSize, count)],
+        destinations: [d, Math.min(d + destinationSize, count)],
+      });
+    }
+  }
+  return blocks;
+}
+
+export function createGoogleProvider(apiKey: string): DistanceProvider {
+  return {
+    name: 'google',
+    async getTravelMinutes(points) {
+      const matrix = points.map(() => new Array<number>(points.length));
+      const encode = (slice: GeoPoint[]) => slice.map((p) => `${p.lat},${p.lng}`).join('|');
+
+      for (const { origins, destinations } of planMatrixBlocks(points.length)) {
+        const params = new URLSearchParams({
+          origins: encode(points.slice(...origins)),
+          destinations: encode(points.slice(...destinations)),
+          key: apiKey,
+        });
+        const response = await fetch(`${GOOGLE_MATRIX_URL}?${params}`);
+        if (!response.ok) throw new Error(`Distance Matrix responded ${response.status}`);
+
+        const data = (await response.json()) as GoogleMatrixResponse;
+        if (data.status !== 'OK') throw new Error(`Distance Matrix status ${data.status}`);
+
+        // Unroutable pairs (islands, closed roads) fall back to the estimate
+        for (let i = origins[0]; i < origins[1]; i++) {
+          for (let j = destinations[0]; j < destinations[1]; j++) {
+            const element = data.rows[i - origins[0]]?.elements[j - destinations[0]];
+            matrix[i][j] =
+              element?.status === 'OK' && element.duration
+                ? Math.round(element.duration.value / 60)
+                : estimateDriveMinutes(points[i], points[j]);
+          }
+        }
+      }
+      return matrix;
+    },
+  };
+}
+
+// ============= Resolution =============
+
+/** Configured provider, or haversine when none is set up */
+export function getDistanceProvider(): DistanceProvider {
+  const key = process.env.GOOGLE_MAPS_SERVER_KEY;
+  return key ? createGoogleProvider(key) : haversineProvider;
+}
+
+/**
+ * Matrix from the given provider, falling back to haversine on any error.
+ * Returns the name of the provider that actually answered.
+ */
+export async function getTravelMatrix(
+  points: GeoPoint[],
+  provider: DistanceProvider = getDistanceProvider()
+): Promise<{ matrix: number[][]; provider: string }> {
+  if (points.length === 0) return { matrix: [], provider: provider.name };
+
+  try {
+    return { matrix: await provider.getTravelMinutes(points), provider: provider.name };
+  } catch (error) {
+    if (provider === haversineProvider) throw error;
+    console.error(`[dispatch] ${provider.name} distance provider failed, using haversine:`, error);
+    return { matrix: await haversineProvider.getTravelMinutes(points), provider: haversineProvider.name };
+  }
+}
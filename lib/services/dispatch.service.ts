@@ -0,0 +1,1023 @@
+/**
+ * Dispatch Service
+ * Plans a contractor's day across crews:
+ * 1. The day's approved/scheduled jobs and booked appointments become stops,
+ *    each with a duration (service duration, job estimate or a default),
+ *    required skills and, for appointments, a fixed arrival window
+ * 2. Active employees are crews, starting from the board depot, working the
+ *    contractor's hours for that weekday minus approved time off and
+ *    blocked dates
+ * 3. optimizeDispatch() assigns and orders stops to minimize total drive
+ *    time (cheapest insertion, then relocate and 2-opt passes) while keeping
+ *    skills, shift ends, appointment windows and manual pins
+ * 4. Dragging a stop pins it to the new crew; re-optimizing (for example
+ *    after an emergency job is inserted) keeps those pins
+ * 5. Publishing writes crew leads, assignments and start times back onto the
+ *    jobs and appointments
+ */
+
+import { prisma } from '@/db/prisma';
+import { Prisma } from '@prisma/client';
+import { addMinutes, differenceInMinutes, endOfDay, isValid, parse, startOfDay } from 'date-fns';
+import { getTravelMatrix, type GeoPoint } from './dispatch-distance';
+
+export const STOP_PRIORITIES = ['urgent', 'high', 'normal', 'low'] as const;
+export type StopPriority = (typeof STOP_PRIORITIES)[number];
+
+// Job statuses the dispatcher may route; completed and billed work is left alone
+const DISPATCHABLE_JOB_STATUSES = ['approved', 'scheduled', 'in_progress'];
+const DISPATCHABLE_APPOINTMENT_STATUSES = ['confirmed', 'in_progress'];
+
+// Statuses an emergency insert may pull a job from
+const EMERGENCY_JOB_STATUSES = ['quoted', 'approved', 'scheduled', 'on_hold'];
+
+const DEFAULT_STOP_MINUTES = 60;
+const DEFAULT_SHIFT = { start: '08:00', end: '17:00' };
+
+// Crews may arrive this long after a booked appointment start
+const APPOINTMENT_GRACE_MINUTES = 15;
+
+// Drive time assumed when a stop has no coordinates
+const UNKNOWN_TRAVEL_MINUTES = 20;
+
+const MAX_IMPROVEMENT_PASSES = 25;
+
+// Employees with these legacy roles work the office, not the field
+const OFFICE_ROLE_PATTERN = /admin|office|dispatch|bookkeep|account/i;
+
+// ============= Errors =============
+
+export const DispatchErrorCodes = {
+  NOT_FOUND: 'NOT_FOUND',
+  INVALID_INPUT: 'INVALID_INPUT',
+  INVALID_STATUS: 'INVALID_STATUS',
+} as const;
+
+export type DispatchErrorCode = typeof DispatchErrorCodes[keyof typeof DispatchErrorCodes];
+
+export class DispatchError extends Error {
+  code: DispatchErrorCode;
+
+  constructor(code: DispatchErrorCode, message: string) {
+    super(message);
+    this.code = code;
+    this.name = 'DispatchError';
+  }
+}
+
+export function getDispatchErrorStatus(code: DispatchErrorCode): number {
+  switch (code) {
+    case DispatchErrorCodes.NOT_FOUND:
+      return 404;
+    case DispatchErrorCodes.INVALID_STATUS:
+      return 409;
+    default:
+      return 400;
+  }
+}
+
+// ============= Types =============
+
+/** Minutes after midnight on the dispatch day */
+export interface TimeBlock {
+  start: number;
+  end: number;
+}
+
+export interface DispatchStop {
+  /** 'job:<id>' or 'appointment:<id>' */
+  id: string;
+  kind: 'job' | 'appointment';
+  sourceId: string;
+  title: string;
+  address: string | null;
+  location: GeoPoint | null;
+  durationMinutes: number;
+  requiredSkills: string[];
+  priority: StopPriority;
+  /** Allowed start times; appointments only */
+  window: TimeBlock | null;
+  /** Already under way, so it stays first on its crew's route */
+  inProgress?: boolean;
+}
+
+export interface DispatchCrew {
+  id: string;
+  name: string;
+  skills: string[];
+  /** Depot the crew leaves from and returns to; null starts at the first stop */
+  start: GeoPoint | null;
+  shiftStart: number;
+  shiftEnd: number;
+  /** Time off and blocked hours */
+  blocked: TimeBlock[];
+}
+
+export interface TravelTable {
+  keys: string[];
+  matrix: number[][];
+}
+
+export interface DispatchInput {
+  crews: DispatchCrew[];
+  stops: DispatchStop[];
+  travel: TravelTable;
+  /** Stop id -> crew id the stop must stay with */
+  pins?: Record<string, string>;
+  /** Minutes after midnight; nothing new starts before this on the current day */
+  now?: number;
+}
+
+export interface ScheduledStop {
+  stopId: string;
+  kind: DispatchStop['kind'];
+  sourceId: string;
+  title: string;
+  address: string | null;
+  durationMinutes: number;
+  /** Drive from the previous stop or the depot */
+  driveMinutes: number;
+  /** True when a leg used the flat estimate because a stop had no coordinates */
+  estimatedTravel: boolean;
+  arrival: number;
+  start: number;
+  end: number;
+  pinned: boolean;
+}
+
+export interface CrewRoute {
+  crewId: string;
+  crewName: string;
+  stops: ScheduledStop[];
+  /** Includes the drive back to the depot */
+  driveMinutes: number;
+  workMinutes: number;
+  shiftStart: number;
+  shiftEnd: number;
+  finish: number;
+  warnings: string[];
+}
+
+export interface UnassignedStop {
+  stopId: string;
+  kind: DispatchStop['kind'];
+  sourceId: string;
+  title: string;
+  reason: string;
+}
+
+export interface DispatchPlanResult {
+  routes: CrewRoute[];
+  unassigned: UnassignedStop[];
+  totalDriveMinutes: number;
+}
+
+/** Crew id -> ordered stop ids */
+export type DispatchAssignment = Record<string, string[]>;
+
+// ============= Time Helpers =============
+
+/** '08:30' -> 510 */
+export function parseClock(value: string | null | undefined, fallback: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value ?? '') ?? /^(\d{1,2}):(\d{2})$/.exec(fallback)!;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/** 510 -> '8:30 AM' */
+export function formatClock(minutes: number): string {
+  const hour = Math.floor(minutes / 60) % 24;
+  const minute = Math.round(minutes % 60);
+  return `${hour % 12 || 12}:${String(minute).padStart(2, '0')} ${hour < 12 ? 'AM' : 'PM'}`;
+}
+
+/** Earliest start at or after `start` that doesn't overlap a blocked period */
+export function nextFreeStart(start: number, duration: number, blocked: TimeBlock[]): number {
+  let candidate = start;
+  let moved = true;
+  while (moved) {
+    moved = false;
+    for (const block of blocked) {
+      if (candidate < block.end && candidate + duration > block.start) {
+        candidate = block.end;
+        moved = true;
+      }
+    }
+  }
+  return candidate;
+}
+
+// ============= Travel =============
+
+// Crews sharing a depot share one matrix row
+const depotKey = (point: GeoPoint) => `depot:${point.lat},${point.lng}`;
+
+/** Points the distance provider needs, keyed by depot or stop id */
+export function getRoutablePoints(
+  crews: DispatchCrew[],
+  stops: DispatchStop[]
+): { keys: string[]; points: GeoPoint[] } {
+  const keys: string[] = [];
+  const points: GeoPoint[] = [];
+  for (const crew of crews) {
+    if (crew.start && !keys.includes(depotKey(crew.start))) {
+      keys.push(depotKey(crew.start));
+      points.push(crew.start);
+    }
+  }
+  for (const stop of stops) {
+    if (stop.location) {
+      keys.push(stop.id);
+      points.push(stop.location);
+    }
+  }
+  return { keys, points };
+}
+
+interface Leg {
+  minutes: number;
+  estimated: boolean;
+}
+
+function createTravelLookup(table: TravelTable): (from: string, to: string) => Leg {
+  const index = new Map(table.keys.map((key, i) => [key, i]));
+  return (from, to) => {
+    if (from === to) return { minutes: 0, estimated: false };
+    const i = index.get(from);
+    const j = index.get(to);
+    if (i === undefined || j === undefined) return { minutes: UNKNOWN_TRAVEL_MINUTES, estimated: true };
+    return { minutes: table.matrix[i]?.[j] ?? UNKNOWN_TRAVEL_MINUTES, estimated: false };
+  };
+}
+
+// ============= Route Simulation =============
+
+interface PlanContext {
+  crews: Map<string, DispatchCrew>;
+  stops: Map<string, DispatchStop>;
+  travel: (from: string, to: string) => Leg;
+  pins: Record<string, string>;
+  now: number;
+}
+
+interface RouteSimulation {
+  stops: ScheduledStop[];
+  driveMinutes: number;
+  finish: number;
+  violations: string[];
+}
+
+function createContext(input: DispatchInput): PlanContext {
+  return {
+    crews: new Map(input.crews.map((crew) => [crew.id, crew])),
+    stops: new Map(input.stops.map((stop) => [stop.id, stop])),
+    travel: createTravelLookup(input.travel),
+    pins: input.pins ?? {},
+    now: input.now ?? 0,
+  };
+}
+
+function simulateRoute(crew: DispatchCrew, stopIds: string[], ctx: PlanContext): RouteSimulation {
+  const depot = crew.start ? depotKey(crew.start) : null;
+  let at = depot;
+  let time = Math.max(crew.shiftStart, ctx.now);
+  let driveMinutes = 0;
+  const stops: ScheduledStop[] = [];
+  const violations: string[] = [];
+
+  for (const stopId of stopIds) {
+    const stop = ctx.stops.get(stopId)!;
+    // A crew already on site has no leg to drive
+    const leg = stop.inProgress || at === null ? { minutes: 0, estimated: false } : ctx.travel(at, stopId);
+    const arrival = time + leg.minutes;
+    const start = stop.inProgress
+      ? time
+      : nextFreeStart(Math.max(arrival, stop.window?.start ?? 0), stop.durationMinutes, crew.blocked);
+    const end = start + stop.durationMinutes;
+
+    if (stop.window && start > stop.window.end) {
+      violations.push(`${stop.title} starts after its ${formatClock(stop.window.start)} appointment`);
+    }
+    if (end > crew.shiftEnd) {
+      violations.push(`${stop.title} runs past the ${formatClock(crew.shiftEnd)} end of shift`);
+    }
+
+    stops.push({
+      stopId,
+      kind: stop.kind,
+      sourceId: stop.sourceId,
+      title: stop.title,
+      address: stop.address,
+      durationMinutes: stop.durationMinutes,
+      driveMinutes: leg.minutes,
+      estimatedTravel: leg.estimated,
+      arrival,
+      start,
+      end,
+      pinned: ctx.pins[stopId] === crew.id,
+    });
+    driveMinutes += leg.minutes;
+    time = end;
+    at = stopId;
+  }
+
+  if (depot && at && at !== depot) driveMinutes += ctx.travel(at, depot).minutes;
+
+  return { stops, driveMinutes, finish: time, violations };
+}
+
+function hasSkills(crew: DispatchCrew, stop: DispatchStop): boolean {
+  const skills = new Set(crew.skills.map((skill) => skill.toLowerCase()));
+  return stop.requiredSkills.every((skill) => skills.has(skill.toLowerCase()));
+}
+
+function eligibleCrews(stop: DispatchStop, ctx: PlanContext): DispatchCrew[] {
+  const pinned = ctx.pins[stop.id];
+  if (pinned) {
+    const crew = ctx.crews.get(pinned);
+    return crew ? [crew] : [];
+  }
+  return [...ctx.crews.values()].filter((crew) => hasSkills(crew, stop));
+}
+
+/** In-progress work stays at the head of its route */
+function firstMovableIndex(stopIds: string[], ctx: PlanContext): number {
+  let index = 0;
+  while (index < stopIds.length && ctx.stops.get(stopIds[index])?.inProgress) index++;
+  return index;
+}
+
+// ============= Optimizer =============
+
+const PRIORITY_RANK: Record<StopPriority, number> = { urgent: 0, high: 1, normal: 2, low: 3 };
+
+/** Urgent work first, then fixed appointments, then the longest jobs */
+function compareStops(a: DispatchStop, b: DispatchStop): number {
+  return (
+    PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+    (a.window?.end ?? Infinity) - (b.window?.end ?? Infinity) ||
+    b.durationMinutes - a.durationMinutes ||
+    a.id.localeCompare(b.id)
+  );
+}
+
+interface Insertion {
+  crewId: string;
+  position: number;
+  delta: number;
+  finish: number;
+}
+
+function findBestInsertion(
+  stop: DispatchStop,
+  routes: Map<string, string[]>,
+  ctx: PlanContext
+): Insertion | null {
+  let best: Insertion | null = null;
+
+  for (const crew of eligibleCrews(stop, ctx)) {
+    const current = routes.get(crew.id) ?? [];
+    const baseline = simulateRoute(crew, current, ctx).driveMinutes;
+
+    for (let position = firstMovableIndex(current, ctx); position <= current.length; position++) {
+      const candidate = [...current.slice(0, position), stop.id, ...current.slice(position)];
+      const simulation = simulateRoute(crew, candidate, ctx);
+      if (simulation.violations.length > 0) continue;
+
+      const delta = simulation.driveMinutes - baseline;
+      // Equal drive cost goes to the crew that finishes earliest, spreading the work
+      if (!best || delta < best.delta || (delta === best.delta && simulation.finish < best.finish)) {
+        best = { crewId: crew.id, position, delta, finish: simulation.finish };
+      }
+    }
+  }
+
+  return best;
+}
+
+function getUnassignedReason(stop: DispatchStop, ctx: PlanContext): string {
+  const pinned = ctx.pins[stop.id];
+  if (pinned && !ctx.crews.has(pinned)) return 'The crew it was assigned to is not working this day';
+  if (eligibleCrews(stop, ctx).length === 0) {
+    return `No crew has the required skills: ${stop.requiredSkills.join(', ')}`;
+  }
+  return stop.window
+    ? `No crew can reach it by ${formatClock(stop.window.end)}`
+    : 'No crew has enough time left in their shift';
+}
+
+function toUnassigned(stop: DispatchStop, reason: string): UnassignedStop {
+  return { stopId: stop.id, kind: stop.kind, sourceId: stop.sourceId, title: stop.title, reason };
+}
+
+function totalDrive(routes: Map<string, string[]>, ctx: PlanContext): number {
+  let total = 0;
+  for (const [crewId, stopIds] of routes) {
+    total += simulateRoute(ctx.crews.get(crewId)!, stopIds, ctx).driveMinutes;
+  }
+  return total;
+}
+
+/** Move single stops to cheaper spots, on any crew, until nothing improves */
+function relocatePass(routes: Map<string, string[]>, ctx: PlanContext): boolean {
+  let improved = false;
+
+  for (const crewId of [...routes.keys()]) {
+    for (const stopId of [...routes.get(crewId)!]) {
+      const stop = ctx.stops.get(stopId)!;
+      if (stop.inProgress) continue;
+
+      const crew = ctx.crews.get(crewId)!;
+      const current = routes.get(crewId)!;
+      const without = current.filter((id) => id !== stopId);
+      const saving = simulateRoute(crew, current, ctx).driveMinutes - simulateRoute(crew, without, ctx).driveMinutes;
+
+      routes.set(crewId, without);
+      const best = findBestInsertion(stop, routes, ctx);
+      if (best && best.delta < saving) {
+        const target = routes.get(best.crewId)!;
+        routes.set(best.crewId, [...target.slice(0, best.position), stopId, ...target.slice(best.position)]);
+        improved = true;
+      } else {
+        routes.set(crewId, current);
+      }
+    }
+  }
+
+  return improved;
+}
+
+/** Reverse segments of each route where that shortens the drive */
+function twoOptPass(routes: Map<string, string[]>, ctx: PlanContext): boolean {
+  let improved = false;
+
+  for (const [crewId, stopIds] of routes) {
+    const crew = ctx.crews.get(crewId)!;
+    let best = stopIds;
+    let bestDrive = simulateRoute(crew, best, ctx).driveMinutes;
+
+    for (let i = firstMovableIndex(best, ctx); i < best.length - 1; i++) {
+      for (let j = i + 1; j < best.length; j++) {
+        const candidate = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+        const simulation = simulateRoute(crew, candidate, ctx);
+        if (simulation.violations.length === 0 && simulation.driveMinutes < bestDrive) {
+          best = candidate;
+          bestDrive = simulation.driveMinutes;
+          improved = true;
+        }
+      }
+    }
+
+    routes.set(crewId, best);
+  }
+
+  return improved;
+}
+
+function buildResult(
+  routes: Map<string, string[]>,
+  unassigned: UnassignedStop[],
+  ctx: PlanContext
+): DispatchPlanResult {
+  const crewRoutes: CrewRoute[] = [...ctx.crews.values()].map((crew) => {
+    const simulation = simulateRoute(crew, routes.get(crew.id) ?? [], ctx);
+    return {
+      crewId: crew.id,
+      crewName: crew.name,
+      stops: simulation.stops,
+      driveMinutes: simulation.driveMinutes,
+      workMinutes: simulation.stops.reduce((sum, stop) => sum + stop.durationMinutes, 0),
+      shiftStart: crew.shiftStart,
+      shiftEnd: crew.shiftEnd,
+      finish: simulation.finish,
+      warnings: simulation.violations,
+    };
+  });
+
+  return {
+    routes: crewRoutes,
+    unassigned,
+    totalDriveMinutes: crewRoutes.reduce((sum, route) => sum + route.driveMinutes, 0),
+  };
+}
+
+/**
+ * Assign and order the day's stops across crews to minimize total drive
+ * time. Pinned stops only go to their crew; stops nobody can take come back
+ * in `unassigned` with the reason.
+ */
+export function optimizeDispatch(input: DispatchInput): DispatchPlanResult {
+  const ctx = createContext(input);
+  const routes = new Map(input.crews.map((crew) => [crew.id, [] as string[]]));
+  const unassigned: UnassignedStop[] = [];
+
+  for (const stop of input.stops.filter((s) => s.inProgress)) {
+    const crewId = ctx.pins[stop.id];
+    if (crewId && routes.has(crewId)) {
+      routes.get(crewId)!.push(stop.id);
+    } else {
+      unassigned.push(toUnassigned(stop, 'In progress without a crew working today'));
+    }
+  }
+
+  const queue = input.stops.filter((s) => !s.inProgress).sort(compareStops);
+  for (const stop of queue) {
+    const best = findBestInsertion(stop, routes, ctx);
+    if (!best) {
+      unassigned.push(toUnassigned(stop, getUnassignedReason(stop, ctx)));
+      continue;
+    }
+    const route = routes.get(best.crewId)!;
+    route.splice(best.position, 0, stop.id);
+  }
+
+  for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+    const before = totalDrive(routes, ctx);
+    const relocated = relocatePass(routes, ctx);
+    const reordered = twoOptPass(routes, ctx);
+    if ((!relocated && !reordered) || totalDrive(routes, ctx) >= before) break;
+  }
+
+  return buildResult(routes, unassigned, ctx);
+}
+
+/**
+ * Re-time a dispatcher's own assignment without reordering it. Broken
+ * windows and overtime come back as route warnings rather than being fixed.
+ */
+export function scheduleAssignment(
+  input: DispatchInput,
+  assignment: DispatchAssignment,
+  unassigned: UnassignedStop[] = []
+): DispatchPlanResult {
+  const ctx = createContext(input);
+  const routes = new Map(
+    input.crews.map((crew) => [crew.id, (assignment[crew.id] ?? []).filter((id) => ctx.stops.has(id))])
+  );
+
+  const placed = new Set([...routes.values()].flat());
+  const listed = new Set(unassigned.map((stop) => stop.stopId));
+  const remaining = unassigned.filter((stop) => ctx.stops.has(stop.stopId) && !placed.has(stop.stopId));
+  // Stops booked since the plan was made show up as unassigned
+  for (const stop of input.stops) {
+    if (!placed.has(stop.id) && !listed.has(stop.id)) {
+      remaining.push(toUnassigned(stop, 'Added after the plan was optimized'));
+    }
+  }
+
+  return buildResult(routes, remaining, ctx);
+}
+
+export function getAssignment(routes: CrewRoute[]): DispatchAssignment {
+  return Object.fromEntries(routes.map((route) => [route.crewId, route.stops.map((stop) => stop.stopId)]));
+}
+
+/**
+ * Move a stop to `index` on a crew's route, or off every route when crewId
+ * is null (drag-to-reassign).
+ */
+export function moveStop(
+  assignment: DispatchAssignment,
+  stopId: string,
+  crewId: string | null,
+  index: number
+): DispatchAssignment {
+  const next: DispatchAssignment = {};
+  for (const [id, stopIds] of Object.entries(assignment)) {
+    next[id] = stopIds.filter((s) => s !== stopId);
+  }
+  if (crewId) {
+    const route = next[crewId] ?? [];
+    const position = Math.max(0, Math.min(index, route.length));
+    next[crewId] = [...route.slice(0, position), stopId, ...route.slice(position)];
+  }
+  return next;
+}
+
+// ============= Loading =============
+
+export function parseDispatchDate(value: string | null | undefined): Date {
+  const date = value ? parse(value, 'yyyy-MM-dd', new Date()) : new Date();
+  if (!isValid(date)) {
+    throw new DispatchError(DispatchErrorCodes.INVALID_INPUT, 'date must be formatted yyyy-MM-dd');
+  }
+  return startOfDay(date);
+}
+
+function readPoint(value: unknown): GeoPoint | null {
+  const point = value as { lat?: unknown; lng?: unknown } | null;
+  if (!point || typeof point.lat !== 'number' || typeof point.lng !== 'number') return null;
+  return { lat: point.lat, lng: point.lng };
+}
+
+function formatAddress(value: unknown): string | null {
+  if (typeof value === 'string') return value;
+  const address = value as { street?: string; city?: string; state?: string; zip?: string } | null;
+  if (!address) return null;
+  return [address.street, address.city, [address.state, address.zip].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ') || null;
+}
+
+/** Clip a date range to the day, in minutes after midnight */
+function toBlock(day: Date, start: Date, end: Date): TimeBlock | null {
+  const from = Math.max(0, differenceInMinutes(start, day));
+  const to = Math.min(24 * 60, differenceInMinutes(end, day));
+  return to > from ? { start: from, end: to } : null;
+}
+
+const WEEKDAY_FIELDS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+interface DispatchDay {
+  boardId: string | null;
+  input: Omit<DispatchInput, 'travel' | 'pins'>;
+}
+
+async function loadDispatchDay(contractorId: string, day: Date): Promise<DispatchDay> {
+  const dayEnd = endOfDay(day);
+
+  const [board, availability, blockedDates, employees, timeOff, durations, jobs, appointments] = await Promise.all([
+    prisma.contractorDispatchBoard.findFirst({
+      where: { contractorId },
+      orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+    }),
+    prisma.contractorAvailability.findUnique({ where: { contractorId } }),
+    prisma.contractorBlockedDate.findMany({
+      where: { contractorId, startDate: { lte: dayEnd }, endDate: { gte: day } },
+    }),
+    prisma.contractorEmployee.findMany({
+      where: { contractorId, status: 'active' },
+      select: { id: true, firstName: true, lastName: true, role: true, skills: true },
+      orderBy: [{ firstName: 'asc' }, { lastName: 'asc' }],
+    }),
+    prisma.contractorTimeOff.findMany({
+      where: { contractorId, status: 'approved', startDate: { lte: dayEnd }, endDate: { gte: day } },
+      select: { employeeId: true, startDate: true, endDate: true },
+    }),
+    prisma.contractorServiceDuration.findMany({
+      where: { contractorId },
+      select: { serviceName: true, duration: true },
+    }),
+    prisma.contractorJob.findMany({
+      where: {
+        contractorId,
+        status: { in: DISPATCHABLE_JOB_STATUSES },
+        estimatedStartDate: { gte: day, lte: dayEnd },
+      },
+    }),
+    prisma.contractorAppointment.findMany({
+      where: {
+        contractorId,
+        status: { in: DISPATCHABLE_APPOINTMENT_STATUSES },
+        startTime: { gte: day, lte: dayEnd },
+      },
+    }),
+  ]);
+
+  // Shift hours come from the contractor's weekly availability
+  const weekday = WEEKDAY_FIELDS[day.getDay()];
+  const schedule = availability as unknown as Record<string, string | boolean | null> | null;
+  const closed = schedule ? schedule[`${weekday}Enabled`] === false : false;
+  const shiftStart = parseClock(schedule?.[`${weekday}Start`] as string | null, DEFAULT_SHIFT.start);
+  const shiftEnd = closed ? shiftStart : parseClock(schedule?.[`${weekday}End`] as string | null, DEFAULT_SHIFT.end);
+
+  const companyBlocks = blockedDates
+    .map((blocked) => (blocked.isAllDay ? { start: 0, end: 24 * 60 } : toBlock(day, blocked.startDate, blocked.endDate)))
+    .filter((block): block is TimeBlock => !!block);
+
+  // A board can narrow the crews it dispatches with filters.employeeIds
+  const boardEmployeeIds = (board?.filters as { employeeIds?: string[] } | null)?.employeeIds;
+  const depot = readPoint(board?.depot);
+  const crews: DispatchCrew[] = employees
+    .filter((employee) =>
+      boardEmployeeIds?.length ? boardEmployeeIds.includes(employee.id) : !OFFICE_ROLE_PATTERN.test(employee.role)
+    )
+    .map((employee) => ({
+      id: employee.id,
+      name: `${employee.firstName} ${employee.lastName}`.trim(),
+      skills: employee.skills,
+      start: depot,
+      shiftStart,
+      shiftEnd,
+      blocked: [
+        ...companyBlocks,
+        ...timeOff
+          .filter((entry) => entry.employeeId === employee.id)
+          .map((entry) => toBlock(day, entry.startDate, entry.endDate))
+          .filter((block): block is TimeBlock => !!block),
+      ],
+    }));
+
+  const durationByService = new Map(durations.map((d) => [d.serviceName.toLowerCase(), d.duration]));
+
+  const stops: DispatchStop[] = [
+    ...jobs.map((job) => ({
+      id: `job:${job.id}`,
+      kind: 'job' as const,
+      sourceId: job.id,
+      title: `${job.jobNumber} · ${job.title}`,
+      address: [job.address, job.city, job.state].filter(Boolean).join(', ') || null,
+      location: readPoint(job.coordinates),
+      durationMinutes:
+        (job.jobType && durationByService.get(job.jobType.toLowerCase())) ||
+        (job.estimatedHours ? job.estimatedHours * 60 : DEFAULT_STOP_MINUTES),
+      requiredSkills: job.requiredSkills,
+      priority: (STOP_PRIORITIES as readonly string[]).includes(job.priority) ? (job.priority as StopPriority) : 'normal',
+      window: null,
+      inProgress: job.status === 'in_progress',
+    })),
+    ...appointments.map((appointment) => {
+      const start = differenceInMinutes(appointment.startTime, day);
+      return {
+        id: `appointment:${appointment.id}`,
+        kind: 'appointment' as const,
+        sourceId: appointment.id,
+        title: appointment.title,
+        address: formatAddress(appointment.address),
+        location: readPoint(appointment.address),
+        durationMinutes: Math.max(1, differenceInMinutes(appointment.endTime, appointment.startTime)),
+        requiredSkills: [],
+        priority: 'high' as const,
+        window: { start, end: start + APPOINTMENT_GRACE_MINUTES },
+        inProgress: appointment.status === 'in_progress',
+      };
+    }),
+  ];
+
+  const now = startOfDay(new Date()).getTime() === day.getTime() ? differenceInMinutes(new Date(), day) : undefined;
+
+  return { boardId: board?.id ?? null, input: { crews, stops, now } };
+}
+
+/** Work already under way stays with whoever is doing it */
+function getInProgressPins(
+  stops: DispatchStop[],
+  jobs: { id: string; leadTechnicianId: string | null }[],
+  appointments: { id: string; assignedEmployeeId: string | null }[]
+): Record<string, string> {
+  const pins: Record<string, string> = {};
+  for (const stop of stops.filter((s) => s.inProgress)) {
+    const crewId =
+      stop.kind === 'job'
+        ? jobs.find((job) => job.id === stop.sourceId)?.leadTechnicianId
+        : appointments.find((appointment) => appointment.id === stop.sourceId)?.assignedEmployeeId;
+    if (crewId) pins[stop.id] = crewId;
+  }
+  return pins;
+}
+
+async function withTravel(day: DispatchDay) {
+  const { keys, points } = getRoutablePoints(day.input.crews, day.input.stops);
+  const { matrix, provider } = await getTravelMatrix(points);
+  return { travel: { keys, matrix }, provider };
+}
+
+// ============= Plans =============
+
+export async function getDispatchPlan(contractorId: string, date: Date) {
+  return prisma.contractorDispatchPlan.findUnique({
+    where: { contractorId_date: { contractorId, date } },
+  });
+}
+
+async function getPlanOrThrow(contractorId: string, planId: string) {
+  const plan = await prisma.contractorDispatchPlan.findFirst({ where: { id: planId, contractorId } });
+  if (!plan) throw new DispatchError(DispatchErrorCodes.NOT_FOUND, 'Dispatch plan not found');
+  return plan;
+}
+
+async function savePlan(
+  contractorId: string,
+  date: Date,
+  boardId: string | null,
+  result: DispatchPlanResult,
+  pins: Record<string, string>,
+  provider: string
+) {
+  const data = {
+    boardId,
+    status: 'draft',
+    routes: result.routes as unknown as Prisma.InputJsonValue,
+    unassigned: result.unassigned as unknown as Prisma.InputJsonValue,
+    pins: pins as Prisma.InputJsonValue,
+    totalDriveMinutes: result.totalDriveMinutes,
+    distanceProvider: provider,
+    optimizedAt: new Date(),
+    publishedAt: null,
+  };
+  return prisma.contractorDispatchPlan.upsert({
+    where: { contractorId_date: { contractorId, date } },
+    create: { contractorId, date, ...data },
+    update: data,
+  });
+}
+
+/**
+ * Build (or rebuild) the draft plan for a day. Pass emergencyJobId to pull a
+ * job onto the day as urgent work and re-route everyone around it; manual
+ * pins from the previous draft are kept.
+ */
+export async function optimizeDispatchDay(
+  contractorId: string,
+  date: Date,
+  options: { emergencyJobId?: string } = {}
+) {
+  if (options.emergencyJobId) {
+    const job = await prisma.contractorJob.findFirst({
+      where: { id: options.emergencyJobId, contractorId },
+      select: { id: true, status: true, estimatedStartDate: true },
+    });
+    if (!job) throw new DispatchError(DispatchErrorCodes.NOT_FOUND, 'Job not found');
+    if (!EMERGENCY_JOB_STATUSES.includes(job.status) && job.status !== 'in_progress') {
+      throw new DispatchError(DispatchErrorCodes.INVALID_STATUS, `A ${job.status} job can't be dispatched`);
+    }
+
+    const onDay = job.estimatedStartDate && startOfDay(job.estimatedStartDate).getTime() === date.getTime();
+    await prisma.contractorJob.update({
+      where: { id: job.id },
+      data: {
+        priority: 'urgent',
+        ...(job.status === 'in_progress' ? {} : { status: 'approved' }),
+        ...(onDay ? {} : { estimatedStartDate: date }),
+      },
+    });
+  }
+
+  const [existing, day] = await Promise.all([getDispatchPlan(contractorId, date), loadDispatchDay(contractorId, date)]);
+  const [jobs, appointments] = await Promise.all([
+    prisma.contractorJob.findMany({
+      where: { id: { in: day.input.stops.filter((s) => s.kind === 'job').map((s) => s.sourceId) } },
+      select: { id: true, leadTechnicianId: true },
+    }),
+    prisma.contractorAppointment.findMany({
+      where: { id: { in: day.input.stops.filter((s) => s.kind === 'appointment').map((s) => s.sourceId) } },
+      select: { id: true, assignedEmployeeId: true },
+    }),
+  ]);
+
+  const pins = {
+    ...((existing?.pins as Record<string, string> | null) ?? {}),
+    ...getInProgressPins(day.input.stops, jobs, appointments),
+  };
+  const { travel, provider } = await withTravel(day);
+  const result = optimizeDispatch({ ...day.input, travel, pins });
+
+  return savePlan(contractorId, date, day.boardId, result, pins, provider);
+}
+
+/**
+ * Drag-to-reassign: move a stop onto a crew (or off every route) and pin it
+ * there. The rest of the plan keeps its order; only times are recomputed.
+ */
+export async function moveDispatchStop(
+  contractorId: string,
+  planId: string,
+  move: { stopId: string; crewId: string | null; index: number }
+) {
+  const plan = await getPlanOrThrow(contractorId, planId);
+  const day = await loadDispatchDay(contractorId, plan.date);
+
+  const stop = day.input.stops.find((s) => s.id === move.stopId);
+  if (!stop) throw new DispatchError(DispatchErrorCodes.NOT_FOUND, 'Stop is no longer scheduled for this day');
+  if (move.crewId && !day.input.crews.some((crew) => crew.id === move.crewId)) {
+    throw new DispatchError(DispatchErrorCodes.INVALID_INPUT, 'Crew is not available for dispatch');
+  }
+
+  const pins = { ...((plan.pins as Record<string, string> | null) ?? {}) };
+  delete pins[move.stopId];
+  if (move.crewId) pins[move.stopId] = move.crewId;
+
+  const previous = plan.unassigned as unknown as UnassignedStop[];
+  const unassigned = move.crewId
+    ? previous.filter((s) => s.stopId !== move.stopId)
+    : [...previous.filter((s) => s.stopId !== move.stopId), toUnassigned(stop, 'Unassigned by dispatcher')];
+
+  const assignment = moveStop(getAssignment(plan.routes as unknown as CrewRoute[]), move.stopId, move.crewId, move.index);
+  const { travel, provider } = await withTravel(day);
+  const result = scheduleAssignment({ ...day.input, travel, pins }, assignment, unassigned);
+
+  return savePlan(contractorId, plan.date, day.boardId, result, pins, provider);
+}
+
+/** Drop a manual pin so the next optimization may move the stop again */
+export async function unpinDispatchStop(contractorId: string, planId: string, stopId: string) {
+  const plan = await getPlanOrThrow(contractorId, planId);
+  const pins = { ...((plan.pins as Record<string, string> | null) ?? {}) };
+  delete pins[stopId];
+
+  const routes = (plan.routes as unknown as CrewRoute[]).map((route) => ({
+    ...route,
+    stops: route.stops.map((stop) => (stop.stopId === stopId ? { ...stop, pinned: false } : stop)),
+  }));
+
+  return prisma.contractorDispatchPlan.update({
+    where: { id: plan.id },
+    data: { pins: pins as Prisma.InputJsonValue, routes: routes as unknown as Prisma.InputJsonValue },
+  });
+}
+
+/**
+ * Write the plan onto the work: each job gets its crew as lead technician,
+ * an assignment row and its planned start; appointments get their crew.
+ */
+export async function publishDispatchPlan(contractorId: string, planId: string) {
+  const plan = await getPlanOrThrow(contractorId, planId);
+  const routes = plan.routes as unknown as CrewRoute[];
+  const blocking = routes.filter((route) => route.warnings.length > 0);
+  if (blocking.length > 0) {
+    throw new DispatchError(
+      DispatchErrorCodes.INVALID_STATUS,
+      `Resolve route warnings before publishing: ${blocking.map((route) => route.crewName).join(', ')}`
+    );
+  }
+
+  const jobIds = routes.flatMap((route) => route.stops.filter((s) => s.kind === 'job').map((s) => s.sourceId));
+  const jobs = await prisma.contractorJob.findMany({
+    where: { id: { in: jobIds }, contractorId },
+    select: { id: true, status: true, leadTechnicianId: true, assignedEmployeeIds: true },
+  });
+  const jobsById = new Map(jobs.map((job) => [job.id, job]));
+
+  await prisma.$transaction(async (tx) => {
+    for (const route of routes) {
+      for (const stop of route.stops) {
+        const startsAt = addMinutes(plan.date, stop.start);
+
+        if (stop.kind === 'appointment') {
+          await tx.contractorAppointment.updateMany({
+            where: { id: stop.sourceId, contractorId },
+            data: { assignedEmployeeId: route.crewId },
+          });
+          continue;
+        }
+
+        const job = jobsById.get(stop.sourceId);
+        if (!job) continue;
+
+        // The previous lead comes off the job when dispatch moves it
+        const crew = new Set(job.assignedEmployeeIds.filter((id) => id !== job.leadTechnicianId));
+        crew.add(route.crewId);
+
+        await tx.contractorJob.update({
+          where: { id: job.id },
+          data: {
+            leadTechnicianId: route.crewId,
+            assignedEmployeeIds: [...crew],
+            estimatedStartDate: startsAt,
+            ...(job.status === 'approved' ? { status: 'scheduled' } : {}),
+          },
+        });
+
+        if (job.leadTechnicianId && job.leadTechnicianId !== route.crewId) {
+          await tx.contractorJobAssignment.updateMany({
+            where: { jobId: job.id, employeeId: job.leadTechnicianId },
+            data: { isLead: false, role: 'technician' },
+          });
+        }
+        await tx.contractorJobAssignment.upsert({
+          where: { jobId_employeeId: { jobId: job.id, employeeId: route.crewId } },
+          create: {
+            contractorId,
+            jobId: job.id,
+            employeeId: route.crewId,
+            role: 'lead',
+            isLead: true,
+            startDate: startsAt,
+          },
+          update: { role: 'lead', isLead: true, startDate: startsAt, status: 'assigned' },
+        });
+      }
+    }
+
+    await tx.contractorDispatchPlan.update({
+      where: { id: plan.id },
+      data: { status: 'published', publishedAt: new Date() },
+    });
+  });
+
+  return getPlanOrThrow(contractorId, planId);
+}
+
+/** Where crews start and end the day, stored on the default board */
+export async function setDispatchDepot(
+  contractorId: string,
+  depot: { lat: number; lng: number; address?: string | null } | null
+) {
+  if (depot && (!Number.isFinite(depot.lat) || !Number.isFinite(depot.lng))) {
+    throw new DispatchError(DispatchErrorCodes.INVALID_INPUT, 'Depot needs numeric lat and lng');
+  }
+  const value = depot ? { lat: depot.lat, lng: depot.lng, address: depot.address ?? null } : Prisma.DbNull;
+
+  const board = await prisma.contractorDispatchBoard.findFirst({
+    where: { contractorId },
+    orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+  });
+  if (board) {
+    return prisma.contractorDispatchBoard.update({
+      where: { id: board.id },
+      data: { depot: value },
+    });
+  }
+  return prisma.contractorDispatchBoard.create({
+    data: { contractorId, name: 'Dispatch', isDefault: true, depot: value },
+  });
+}
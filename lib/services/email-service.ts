@@ -5,6 +5,7 @@ import { render } from '@react-email/render';
 import MaintenanceUpdateEmail from '@/email/templates/maintenance-update';
 import ApplicationStatusEmail from '@/email/templates/application-status';
 import NotificationEmail from '@/email/templates/notification';
+import NotificationDigestEmail from '@/email/templates/notification-digest';
 
 // Initialize Resend client
 const resend = new Resend(process.env.RESEND_API_KEY);
@@ -12,7 +13,7 @@ const resend = new Resend(process.env.RESEND_API_KEY);
 interface EmailOptions {
   to: string | string[];
   subject: string;
-  template: 'rent-reminder' | 'maintenance-update' | 'application-status' | 'notification';
+  template: 'rent-reminder' | 'maintenance-update' | 'application-status' | 'notification' | 'notification-digest';
   data: any;
   landlordId: string;
 }
@@ -64,6 +65,9 @@ export async function sendBrandedEmail({ to, subject, template, data, landlordId
       case 'notification':
         emailHtml = await render(NotificationEmail({ ...data, landlord }));
         break;
+      case 'notification-digest':
+        emailHtml = await render(NotificationDigestEmail({ ...data, landlord }));
+        break;
       default:
         throw new Error('Unknown email template');
     }
@@ -9,12 +9,21 @@ import type {
 import {
   NOTICE_DAYS,
   isValidStatusTransition,
-  calculateDeadlineDate,
 } from '@/types/tenant-lifecycle';
+import {
+  calculateNoticeDeadline,
+  checkEvictionNotice,
+  classifyEvictionNotice,
+  getJurisdictionRules,
+  getPropertyLocation,
+  JurisdictionComplianceError,
+} from './jurisdiction-rules.service';
 
 export class EvictionService {
   /**
-   * Creates an eviction notice and calculates deadline based on notice type
+   * Creates an eviction notice and calculates deadline based on notice type.
+   * Throws JurisdictionComplianceError when the notice is shorter than the
+   * property's jurisdiction requires.
    */
   async createNotice(params: CreateEvictionNoticeRequest): Promise<EvictionNotice> {
     const { leaseId, noticeType, reason, amountOwed, additionalNotes } = params;
@@ -49,9 +58,20 @@ export class EvictionService {
       throw new Error('Property has no associated landlord');
     }
 
-    // Calculate deadline date
     const serveDate = new Date();
-    const deadlineDate = calculateDeadlineDate(serveDate, noticeType);
+    const rules = await getJurisdictionRules(getPropertyLocation(lease.unit.property.address), serveDate);
+    const kind = classifyEvictionNotice(noticeType, amountOwed);
+    const issues = checkEvictionNotice({ noticeDays: NOTICE_DAYS[noticeType], kind }, rules);
+    if (issues.length > 0) {
+      throw new JurisdictionComplianceError(issues);
+    }
+
+    // Calculate deadline date; pay/cure notices count court days where required
+    const deadlineDate = calculateNoticeDeadline(
+      serveDate,
+      NOTICE_DAYS[noticeType],
+      rules.noticeCourtDaysOnly && kind !== 'termination'
+    );
 
     // Create the eviction notice
     const evictionNotice = await prisma.evictionNotice.create({
@@ -0,0 +1,889 @@
+/**
+ * Form 1099 Service
+ * Year-end 1099-NEC reporting for landlords who pay contractors:
+ * 1. Payments are aggregated per payee from settled ContractorPayment rows
+ *    plus work orders marked paid without a payment row, by calendar year
+ * 2. Payees under the year's filing threshold, corporations and exempt
+ *    payees are kept in the summary but never filed
+ * 3. W-9s are keyed in by the landlord or collected through an emailed,
+ *    single-use link. TINs are stored encrypted with only the last four
+ *    digits in the clear, and are decrypted just long enough to build a
+ *    filing
+ * 4. Recipient copies (Copy B) render to PDF with the payee TIN truncated
+ * 5. The FIRE export follows Publication 1220: fixed 750-byte T, A, B, C and
+ *    F records with amounts in cents
+ */
+
+import crypto from 'crypto';
+import { prisma } from '@/db/prisma';
+import { format } from 'date-fns';
+import { decryptSensitiveData, encryptSensitiveData } from '@/lib/security/encryption';
+import { sendBrandedEmail } from './email-service';
+import { htmlToPdfBuffer } from './pdf';
+
+export const TAX_CLASSIFICATIONS = [
+  'individual',
+  'c_corp',
+  's_corp',
+  'partnership',
+  'trust_estate',
+  'llc_c',
+  'llc_s',
+  'llc_p',
+  'other',
+] as const;
+export type TaxClassification = (typeof TAX_CLASSIFICATIONS)[number];
+
+export const TIN_TYPES = ['ssn', 'ein'] as const;
+export type TinType = (typeof TIN_TYPES)[number];
+
+// Payments to corporations aren't reportable on 1099-NEC (attorneys aside)
+const CORPORATE_CLASSIFICATIONS: TaxClassification[] = ['c_corp', 's_corp', 'llc_c', 'llc_s'];
+
+// Escrow releases record 'completed', direct payouts record 'paid'
+const SETTLED_PAYMENT_STATUSES = ['paid', 'completed'];
+
+const W9_REQUEST_TTL_DAYS = 30;
+
+// ============= Errors =============
+
+export const Form1099ErrorCodes = {
+  NOT_FOUND: 'NOT_FOUND',
+  INVALID_INPUT: 'INVALID_INPUT',
+  EXPIRED: 'EXPIRED',
+} as const;
+
+export type Form1099ErrorCode = typeof Form1099ErrorCodes[keyof typeof Form1099ErrorCodes];
+
+export class Form1099Error extends Error {
+  code: Form1099ErrorCode;
+
+  constructor(code: Form1099ErrorCode, message: string) {
+    super(message);
+    this.code = code;
+    this.name = 'Form1099Error';
+  }
+}
+
+export function getForm1099ErrorStatus(code: Form1099ErrorCode): number {
+  switch (code) {
+    case Form1099ErrorCodes.NOT_FOUND:
+      return 404;
+    case Form1099ErrorCodes.EXPIRED:
+      return 410;
+    default:
+      return 400;
+  }
+}
+
+// ============= Types =============
+
+export interface PayeePayment {
+  contractorId: string;
+  amount: number;
+  paidAt: Date;
+}
+
+export interface W9Details {
+  legalName: string;
+  businessName: string | null;
+  taxClassification: TaxClassification;
+  exemptPayeeCode: string | null;
+  tinType: TinType;
+  address1: string;
+  address2: string | null;
+  city: string;
+  state: string;
+  postalCode: string;
+}
+
+export interface W9Input extends W9Details {
+  tin: string;
+  certifiedByName: string;
+}
+
+/** What the API and UI see; the TIN never leaves the service unmasked */
+export interface W9Summary extends Partial<W9Details> {
+  status: 'requested' | 'received';
+  tinLast4: string | null;
+  certifiedAt: Date | null;
+  certifiedByName: string | null;
+  requestedAt: Date | null;
+  requestExpiresAt: Date | null;
+}
+
+export type PayeeStatus = 'reportable' | 'below_threshold' | 'exempt' | 'missing_w9';
+
+export interface Payee1099 {
+  contractorId: string;
+  name: string;
+  email: string;
+  total: number;
+  paymentCount: number;
+  status: PayeeStatus;
+  w9: W9Summary | null;
+}
+
+export interface PayerDetails {
+  payerName: string;
+  tin: string;
+  address1: string;
+  address2: string | null;
+  city: string;
+  state: string;
+  postalCode: string;
+  phone: string | null;
+  transmitterControlCode: string | null;
+  contactName: string | null;
+  contactEmail: string | null;
+}
+
+export interface FilingPayee extends W9Details {
+  contractorId: string;
+  tin: string;
+  amount: number;
+}
+
+// ============= Thresholds and classification =============
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Reporting threshold for nonemployee compensation: $600 through 2025, then
+ * $2,000 for payments made after 2025 (indexed for inflation from 2027, so
+ * extend this when the IRS publishes the adjusted figure).
+ */
+export function getNecThreshold(year: number): number {
+  return year >= 2026 ? 2000 : 600;
+}
+
+export function classifyPayee(total: number, w9: W9Summary | null, threshold: number): PayeeStatus {
+  if (total < threshold) return 'below_threshold';
+  if (!w9 || w9.status !== 'received') return 'missing_w9';
+  if (w9.exemptPayeeCode || (w9.taxClassification && CORPORATE_CLASSIFICATIONS.includes(w9.taxClassification))) {
+    return 'exempt';
+  }
+  return 'reportable';
+}
+
+export function summarizePayees(
+  year: number,
+  contractors: { id: string; name: string; email: string; w9: W9Summary | null }[],
+  payments: PayeePayment[]
+): Payee1099[] {
+  const threshold = getNecThreshold(year);
+  const totals = new Map<string, { total: number; count: number }>();
+  for (const payment of payments) {
+    if (payment.paidAt.getFullYear() !== year) continue;
+    const entry = totals.get(payment.contractorId) ?? { total: 0, count: 0 };
+    entry.total += payment.amount;
+    entry.count += 1;
+    totals.set(payment.contractorId, entry);
+  }
+
+  return contractors
+    .filter((contractor) => totals.has(contractor.id))
+    .map((contractor) => {
+      const { total, count } = totals.get(contractor.id)!;
+      const rounded = roundMoney(total);
+      return {
+        contractorId: contractor.id,
+        name: contractor.name,
+        email: contractor.email,
+        total: rounded,
+        paymentCount: count,
+        status: classifyPayee(rounded, contractor.w9, threshold),
+        w9: contractor.w9,
+      };
+    })
+    .sort((a, b) => b.total - a.total);
+}
+
+// ============= TIN and W-9 validation =============
+
+function invalid(message: string): never {
+  throw new Form1099Error(Form1099ErrorCodes.INVALID_INPUT, message);
+}
+
+/**
+ * Digits-only TIN. SSNs (and ITINs, which go in the same box) can't have an
+ * all-zero area, group or serial or a 666 area; EINs can't start with 00.
+ */
+export function normalizeTin(value: unknown, tinType: TinType): string {
+  const digits = typeof value === 'string' ? value.replace(/[\s-]/g, '') : '';
+  if (!/^\d{9}$/.test(digits) || /^(\d)\1{8}$/.test(digits)) {
+    invalid(`${tinType.toUpperCase()} must be 9 digits`);
+  }
+  if (tinType === 'ssn') {
+    const [area, group, serial] = [digits.slice(0, 3), digits.slice(3, 5), digits.slice(5)];
+    if (area === '000' || area === '666' || group === '00' || serial === '0000') invalid('SSN is not valid');
+  } else if (digits.startsWith('00')) {
+    invalid('EIN is not valid');
+  }
+  return digits;
+}
+
+export function maskTin(last4: string | null, tinType: TinType | null | undefined): string {
+  if (!last4) return '';
+  return tinType === 'ein' ? `**-***${last4}` : `***-**-${last4}`;
+}
+
+function requiredText(body: Record<string, unknown>, key: string, max = 40): string {
+  const value = typeof body[key] === 'string' ? (body[key] as string).trim() : '';
+  if (!value) invalid(`${key} is required`);
+  if (value.length > max) invalid(`${key} must be ${max} characters or fewer`);
+  return value;
+}
+
+function optionalText(body: Record<string, unknown>, key: string, max = 40): string | null {
+  const value = typeof body[key] === 'string' ? (body[key] as string).trim() : '';
+  if (value.length > max) invalid(`${key} must be ${max} characters or fewer`);
+  return value || null;
+}
+
+function parseAddress(body: Record<string, unknown>) {
+  const state = requiredText(body, 'state').toUpperCase();
+  if (!/^[A-Z]{2}$/.test(state)) invalid('state must be a two-letter code');
+  const postalCode = requiredText(body, 'postalCode').replace(/[\s-]/g, '');
+  if (!/^\d{5}(\d{4})?$/.test(postalCode)) invalid('postalCode must be a 5 or 9 digit ZIP code');
+  return {
+    address1: requiredText(body, 'address1'),
+    address2: optionalText(body, 'address2'),
+    city: requiredText(body, 'city'),
+    state,
+    postalCode,
+  };
+}
+
+export function parseW9Input(input: unknown): W9Input {
+  const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+
+  const taxClassification = body.taxClassification as TaxClassification;
+  if (!TAX_CLASSIFICATIONS.includes(taxClassification)) {
+    invalid(`taxClassification must be one of ${TAX_CLASSIFICATIONS.join(', ')}`);
+  }
+  const tinType = body.tinType as TinType;
+  if (!TIN_TYPES.includes(tinType)) invalid('tinType must be ssn or ein');
+
+  const exemptPayeeCode = optionalText(body, 'exemptPayeeCode', 2);
+  if (exemptPayeeCode && !/^([1-9]|1[0-3])$/.test(exemptPayeeCode)) invalid('exemptPayeeCode must be 1-13');
+
+  return {
+    legalName: requiredText(body, 'legalName'),
+    businessName: optionalText(body, 'businessName'),
+    taxClassification,
+    exemptPayeeCode,
+    tinType,
+    tin: normalizeTin(body.tin, tinType),
+    ...parseAddress(body),
+    certifiedByName: requiredText(body, 'certifiedByName', 80),
+  };
+}
+
+/** The payer TIN may be omitted on update to keep the one already on file */
+export function parsePayerInput(input: unknown, requireTin = true): Omit<PayerDetails, 'tin'> & { tin: string | null } {
+  const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+
+  const tcc = optionalText(body, 'transmitterControlCode', 5)?.toUpperCase() ?? null;
+  if (tcc && !/^[A-Z0-9]{5}$/.test(tcc)) invalid('transmitterControlCode must be 5 characters');
+  const contactEmail = optionalText(body, 'contactEmail', 50);
+  if (contactEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(contactEmail)) invalid('contactEmail is not valid');
+  const phone = optionalText(body, 'phone', 20)?.replace(/\D/g, '') || null;
+  const tinProvided = typeof body.tin === 'string' && body.tin.trim() !== '';
+  if (requireTin && !tinProvided) invalid('tin is required');
+
+  return {
+    payerName: requiredText(body, 'payerName'),
+    tin: tinProvided ? normalizeTin(body.tin, 'ein') : null,
+    ...parseAddress(body),
+    phone,
+    transmitterControlCode: tcc,
+    contactName: optionalText(body, 'contactName'),
+    contactEmail,
+  };
+}
+
+/**
+ * Name control: the first four characters of an individual's surname, or of
+ * a business name with a leading "The" dropped. Only letters, digits,
+ * hyphens and ampersands count.
+ */
+export function getNameControl(name: string, individual: boolean): string {
+  const words = name
+    .toUpperCase()
+    .replace(/[^A-Z0-9&\- ]/g, '')
+    .split(/\s+/)
+    .filter(Boolean);
+  if (individual) {
+    const suffixes = ['JR', 'SR', 'II', 'III', 'IV'];
+    while (words.length > 1 && suffixes.includes(words[words.length - 1])) words.pop();
+    return (words[words.length - 1] ?? '').slice(0, 4);
+  }
+  if (words[0] === 'THE' && words.length > 1) words.shift();
+  return words.join('').slice(0, 4);
+}
+
+// ============= FIRE export =============
+
+const RECORD_LENGTH = 748;
+
+// FIRE accepts uppercase letters, digits and a handful of punctuation marks
+function alpha(value: string | null | undefined, length: number): string {
+  return (value ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9 &\-,.'#/]/g, '')
+    .slice(0, length)
+    .padEnd(length, ' ');
+}
+
+function numeric(value: number | string, length: number): string {
+  const digits = String(value).replace(/\D/g, '');
+  if (digits.length > length) throw new Error(`Value ${value} does not fit in ${length} positions`);
+  return digits.padStart(length, '0');
+}
+
+function cents(amount: number, length: number): string {
+  return numeric(Math.round(amount * 100), length);
+}
+
+/** Lays fields out at their Publication 1220 positions (1-based) in a blank record */
+function fireRecord(fields: [position: number, value: string][]): string {
+  const chars = Array<string>(RECORD_LENGTH).fill(' ');
+  for (const [position, value] of fields) {
+    if (position - 1 + value.length > RECORD_LENGTH) throw new Error(`Field at ${position} overruns the record`);
+    for (let i = 0; i < value.length; i++) chars[position - 1 + i] = value[i];
+  }
+  return chars.join('');
+}
+
+function singleLineAddress(address1: string, address2: string | null): string {
+  return address2 ? `${address1} ${address2}` : address1;
+}
+
+export function buildFireFile(input: {
+  year: number;
+  test: boolean;
+  payer: PayerDetails;
+  payees: FilingPayee[];
+}): string {
+  const { year, payer, payees } = input;
+  if (!payer.transmitterControlCode) invalid('A transmitter control code is required for FIRE filing');
+  if (payees.length === 0) invalid(`No reportable 1099-NEC payees for ${year}`);
+
+  let sequence = 0;
+  const next = () => numeric(++sequence, 8);
+  const payerNameControl = getNameControl(payer.payerName, false);
+  const records: string[] = [];
+
+  // T: transmitter (the landlord files for itself)
+  records.push(
+    fireRecord([
+      [1, 'T'],
+      [2, numeric(year, 4)],
+      [7, numeric(payer.tin, 9)],
+      [16, alpha(payer.transmitterControlCode, 5)],
+      [28, input.test ? 'T' : ' '],
+      [30, alpha(payer.payerName, 40)],
+      [110, alpha(payer.payerName, 40)],
+      [190, alpha(singleLineAddress(payer.address1, payer.address2), 40)],
+      [230, alpha(payer.city, 40)],
+      [270, alpha(payer.state, 2)],
+      [272, alpha(payer.postalCode, 9)],
+      [296, numeric(payees.length, 8)],
+      [304, alpha(payer.contactName ?? payer.payerName, 40)],
+      [344, alpha(payer.phone, 15)],
+      [359, (payer.contactEmail ?? '').slice(0, 50).padEnd(50, ' ')],
+      [500, next()],
+      [518, 'I'],
+    ])
+  );
+
+  // A: payer, type of return NE with amount code 1 (nonemployee compensation)
+  records.push(
+    fireRecord([
+      [1, 'A'],
+      [2, numeric(year, 4)],
+      [12, numeric(payer.tin, 9)],
+      [21, alpha(payerNameControl, 4)],
+      [26, 'NE'],
+      [28, alpha('1', 18)],
+      [53, alpha(payer.payerName, 40)],
+      [133, '0'],
+      [134, alpha(singleLineAddress(payer.address1, payer.address2), 40)],
+      [174, alpha(payer.city, 40)],
+      [214, alpha(payer.state, 2)],
+      [216, alpha(payer.postalCode, 9)],
+      [225, alpha(payer.phone, 15)],
+      [500, next()],
+    ])
+  );
+
+  // B: one per payee. Unused amount fields 2-9, A-H and J are zero-filled.
+  let total = 0;
+  for (const payee of payees) {
+    total += payee.amount;
+    const individual = payee.tinType === 'ssn';
+    records.push(
+      fireRecord([
+        [1, 'B'],
+        [2, numeric(year, 4)],
+        [7, alpha(getNameControl(payee.legalName, individual), 4)],
+        [11, individual ? '2' : '1'],
+        [12, numeric(payee.tin, 9)],
+        [21, alpha(payee.contractorId.replace(/-/g, ''), 20)],
+        [55, cents(payee.amount, 12)],
+        [67, numeric(0, 204)],
+        [288, alpha(payee.legalName, 40)],
+        [328, alpha(payee.businessName, 40)],
+        [368, alpha(singleLineAddress(payee.address1, payee.address2), 40)],
+        [448, alpha(payee.city, 40)],
+        [488, alpha(payee.state, 2)],
+        [490, alpha(payee.postalCode, 9)],
+        [500, next()],
+        [723, numeric(0, 24)],
+      ])
+    );
+  }
+
+  // C: end of payer, 18 control totals of 18 positions each
+  records.push(
+    fireRecord([
+      [1, 'C'],
+      [2, numeric(payees.length, 8)],
+      [16, cents(total, 18)],
+      [34, numeric(0, 306)],
+      [500, next()],
+    ])
+  );
+
+  // F: end of transmission
+  records.push(
+    fireRecord([
+      [1, 'F'],
+      [2, numeric(1, 8)],
+      [10, numeric(0, 21)],
+      [50, numeric(payees.length, 8)],
+      [500, next()],
+    ])
+  );
+
+  return records.map((record) => `${record}\r\n`).join('');
+}
+
+// ============= Recipient copies =============
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function money(value: number): string {
+  return `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export function generate1099NecHtml(input: { year: number; payer: PayerDetails; payees: FilingPayee[] }): string {
+  const { year, payer } = input;
+  const address = (lines: (string | null)[]) => lines.filter(Boolean).map((line) => escapeHtml(line!)).join('<br />');
+  const payerBlock = address([
+    payer.payerName,
+    singleLineAddress(payer.address1, payer.address2),
+    `${payer.city}, ${payer.state} ${payer.postalCode}`,
+    payer.phone,
+  ]);
+
+  const forms = input.payees.map(
+    (payee) => `
+  <section class="form">
+    <div class="header">
+      <div><strong>Form 1099-NEC</strong> · Nonemployee Compensation</div>
+      <div>Copy B — For Recipient · ${year}</div>
+    </div>
+    <table>
+      <tr>
+        <td rowspan="2" class="wide"><span class="label">PAYER'S name, street address, city, state, ZIP and telephone</span>${payerBlock}</td>
+        <td><span class="label">1 Nonemployee compensation</span><span class="amount">${money(payee.amount)}</span></td>
+      </tr>
+      <tr><td><span class="label">2 Direct sales of $5,000 or more</span>&nbsp;</td></tr>
+      <tr>
+        <td><span class="label">PAYER'S TIN</span>${payer.tin.slice(0, 2)}-${payer.tin.slice(2)}</td>
+        <td><span class="label">4 Federal income tax withheld</span>${money(0)}</td>
+      </tr>
+      <tr>
+        <td><span class="label">RECIPIENT'S TIN</span>${maskTin(payee.tin.slice(-4), payee.tinType)}</td>
+        <td rowspan="2"><span class="label">5-7 State information</span>&nbsp;</td>
+      </tr>
+      <tr>
+        <td><span class="label">RECIPIENT'S name and address</span>${address([
+          payee.legalName,
+          payee.businessName,
+          singleLineAddress(payee.address1, payee.address2),
+          `${payee.city}, ${payee.state} ${payee.postalCode}`,
+        ])}</td>
+      </tr>
+      <tr><td colspan="2"><span class="label">Account number</span>${escapeHtml(payee.contractorId)}</td></tr>
+    </table>
+    <p class="note">This is important tax information and is being furnished to the IRS. If you are required to file a
+    return, a negligence penalty or other sanction may be imposed on you if this income is taxable and the IRS
+    determines that it has not been reported. Report this amount on Schedule C or other applicable form.</p>
+  </section>`
+  );
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<style>
+  body { font-family: Helvetica, Arial, sans-serif; font-size: 11px; color: #111827; margin: 32px; }
+  .form { page-break-after: always; }
+  .form:last-child { page-break-after: auto; }
+  .header { display: flex; justify-content: space-between; font-size: 13px; margin-bottom: 8px; }
+  table { width: 100%; border-collapse: collapse; }
+  td { border: 1px solid #111827; padding: 6px 8px; vertical-align: top; width: 50%; }
+  .label { display: block; font-size: 9px; color: #4b5563; margin-bottom: 4px; }
+  .amount { font-size: 15px; font-weight: bold; }
+  .note { color: #4b5563; font-size: 9px; margin-top: 8px; }
+</style>
+</head>
+<body>${forms.join('')}
+</body>
+</html>`;
+}
+
+// ============= Persistence =============
+
+type W9Row = NonNullable<Awaited<ReturnType<typeof prisma.contractorW9.findUnique>>>;
+
+export function toW9Summary(row: W9Row | null): W9Summary | null {
+  if (!row) return null;
+  return {
+    status: row.status === 'received' ? 'received' : 'requested',
+    legalName: row.legalName ?? undefined,
+    businessName: row.businessName,
+    taxClassification: (row.taxClassification as TaxClassification | null) ?? undefined,
+    exemptPayeeCode: row.exemptPayeeCode,
+    tinType: (row.tinType as TinType | null) ?? undefined,
+    tinLast4: row.tinLast4,
+    address1: row.address1 ?? undefined,
+    address2: row.address2,
+    city: row.city ?? undefined,
+    state: row.state ?? undefined,
+    postalCode: row.postalCode ?? undefined,
+    certifiedAt: row.certifiedAt,
+    certifiedByName: row.certifiedByName,
+    requestedAt: row.requestedAt,
+    requestExpiresAt: row.requestExpiresAt,
+  };
+}
+
+function w9Data(input: W9Input) {
+  const { tin, ...details } = input;
+  return {
+    ...details,
+    status: 'received',
+    tinEncrypted: encryptSensitiveData(tin),
+    tinLast4: tin.slice(-4),
+    certifiedAt: new Date(),
+  };
+}
+
+async function findContractor(landlordId: string, contractorId: string) {
+  const contractor = await prisma.contractor.findFirst({
+    where: { id: contractorId, landlordId },
+    include: { w9: true },
+  });
+  if (!contractor) throw new Form1099Error(Form1099ErrorCodes.NOT_FOUND, 'Contractor not found');
+  return contractor;
+}
+
+export async function getContractorW9(landlordId: string, contractorId: string): Promise<W9Summary | null> {
+  const contractor = await findContractor(landlordId, contractorId);
+  return toW9Summary(contractor.w9);
+}
+
+/** Landlord keys in a W-9 the contractor returned on paper or by email */
+export async function saveContractorW9(landlordId: string, contractorId: string, body: unknown): Promise<W9Summary> {
+  await findContractor(landlordId, contractorId);
+  const data = { ...w9Data(parseW9Input(body)), signatureIp: null };
+
+  const row = await prisma.contractorW9.upsert({
+    where: { contractorId },
+    create: { contractorId, ...data },
+    update: { ...data, requestToken: null },
+  });
+  return toW9Summary(row)!;
+}
+
+export async function requestContractorW9(landlordId: string, contractorId: string): Promise<{ url: string; expiresAt: Date }> {
+  const contractor = await findContractor(landlordId, contractorId);
+  const requestToken = crypto.randomBytes(24).toString('hex');
+  const requestedAt = new Date();
+  const requestExpiresAt = new Date(requestedAt.getTime() + W9_REQUEST_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+  await prisma.contractorW9.upsert({
+    where: { contractorId },
+    create: { contractorId, requestToken, requestedAt, requestExpiresAt },
+    update: { requestToken, requestedAt, requestExpiresAt },
+  });
+
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+  const url = `${baseUrl}/w9/${requestToken}`;
+
+  try {
+    await sendBrandedEmail({
+      to: contractor.email,
+      subject: 'Please complete your Form W-9',
+      template: 'notification',
+      data: {
+        recipientName: contractor.contactName || contractor.name,
+        notificationType: 'reminder',
+        title: 'Form W-9 requested',
+        message: `We need a current Form W-9 on file to issue your year-end 1099-NEC. The secure link expires on ${format(requestExpiresAt, 'MMM d, yyyy')}.`,
+        actionUrl: url,
+        loginUrl: url,
+      },
+      landlordId,
+    });
+  } catch (error) {
+    // The link still works; the landlord can copy it from the response
+    console.error('Failed to send W-9 request email:', error);
+  }
+
+  return { url, expiresAt: requestExpiresAt };
+}
+
+async function findW9Request(token: string) {
+  const row = await prisma.contractorW9.findUnique({
+    where: { requestToken: token },
+    include: { contractor: { include: { landlord: { select: { name: true } } } } },
+  });
+  if (!row) throw new Form1099Error(Form1099ErrorCodes.NOT_FOUND, 'This W-9 link is not valid or has already been used');
+  if (row.requestExpiresAt && row.requestExpiresAt < new Date()) {
+    throw new Form1099Error(Form1099ErrorCodes.EXPIRED, 'This W-9 link has expired. Ask the requester for a new one.');
+  }
+  return row;
+}
+
+export async function getW9Request(token: string) {
+  const row = await findW9Request(token);
+  const summary = toW9Summary(row)!;
+  return {
+    requesterName: row.contractor.landlord.name,
+    contractorName: row.contractor.businessName || row.contractor.name,
+    expiresAt: row.requestExpiresAt,
+    // Prefill everything but the TIN, which is always re-entered
+    prefill: {
+      legalName: summary.legalName ?? row.contractor.contactName ?? row.contractor.name,
+      businessName: summary.businessName ?? row.contractor.businessName,
+      taxClassification: summary.taxClassification ?? null,
+      tinType: summary.tinType ?? null,
+      address1: summary.address1 ?? null,
+      address2: summary.address2 ?? null,
+      city: summary.city ?? null,
+      state: summary.state ?? null,
+      postalCode: summary.postalCode ?? null,
+    },
+  };
+}
+
+/** Contractor submits through the emailed link; the link is single-use */
+export async function submitW9Request(token: string, body: unknown, ip: string | null): Promise<void> {
+  const row = await findW9Request(token);
+  await prisma.contractorW9.update({
+    where: { id: row.id },
+    data: { ...w9Data(parseW9Input(body)), signatureIp: ip, requestToken: null },
+  });
+}
+
+// The encrypted payer TIN stays in the database; callers only see the last four digits
+const PAYER_OMIT = { payerTinEncrypted: true } as const;
+
+export async function getPayerSettings(landlordId: string) {
+  return prisma.landlord1099Settings.findUnique({ where: { landlordId }, omit: PAYER_OMIT });
+}
+
+export async function savePayerSettings(landlordId: string, body: unknown) {
+  const existing = await prisma.landlord1099Settings.findUnique({ where: { landlordId } });
+  const { tin, ...details } = parsePayerInput(body, !existing);
+  const tinFields = tin ? { payerTinEncrypted: encryptSensitiveData(tin), payerTinLast4: tin.slice(-4) } : {};
+
+  if (existing) {
+    return prisma.landlord1099Settings.update({
+      where: { landlordId },
+      data: { ...details, ...tinFields },
+      omit: PAYER_OMIT,
+    });
+  }
+  return prisma.landlord1099Settings.create({
+    data: { landlordId, ...details, payerTinEncrypted: encryptSensitiveData(tin!), payerTinLast4: tin!.slice(-4) },
+    omit: PAYER_OMIT,
+  });
+}
+
+function yearRange(year: number) {
+  return { gte: new Date(year, 0, 1), lt: new Date(year + 1, 0, 1) };
+}
+
+async function loadPayees(landlordId: string, year: number) {
+  const range = yearRange(year);
+  const [contractors, payments, workOrders] = await Promise.all([
+    prisma.contractor.findMany({
+      where: { landlordId },
+      include: { w9: true },
+    }),
+    prisma.contractorPayment.findMany({
+      where: {
+        landlordId,
+        status: { in: SETTLED_PAYMENT_STATUSES },
+        OR: [{ paidAt: range }, { paidAt: null, createdAt: range }],
+      },
+      select: { contractorId: true, amount: true, paidAt: true, createdAt: true },
+    }),
+    // Work orders settled outside the payments flow
+    prisma.workOrder.findMany({
+      where: {
+        landlordId,
+        status: 'paid',
+        contractorId: { not: null },
+        payment: { is: null },
+        updatedAt: { gte: range.gte },
+      },
+      select: {
+        contractorId: true,
+        escrowAmount: true,
+        actualCost: true,
+        agreedPrice: true,
+        escrowReleasedAt: true,
+        completedAt: true,
+        updatedAt: true,
+      },
+    }),
+  ]);
+
+  const flat: PayeePayment[] = [
+    ...payments.map((payment) => ({
+      contractorId: payment.contractorId,
+      amount: Number(payment.amount),
+      paidAt: payment.paidAt ?? payment.createdAt,
+    })),
+    ...workOrders.map((order) => ({
+      contractorId: order.contractorId!,
+      amount: Number(order.escrowAmount ?? order.actualCost ?? order.agreedPrice ?? 0),
+      paidAt: order.escrowReleasedAt ?? order.completedAt ?? order.updatedAt,
+    })),
+  ];
+
+  const payees = summarizePayees(
+    year,
+    contractors.map((contractor) => ({
+      id: contractor.id,
+      name: contractor.businessName || contractor.name,
+      email: contractor.email,
+      w9: toW9Summary(contractor.w9),
+    })),
+    flat
+  );
+  return { contractors, payees };
+}
+
+export async function get1099Summary(landlordId: string, year: number) {
+  const { payees } = await loadPayees(landlordId, year);
+  const reportable = payees.filter((payee) => payee.status === 'reportable');
+  return {
+    year,
+    threshold: getNecThreshold(year),
+    payees,
+    totals: {
+      paid: roundMoney(payees.reduce((sum, payee) => sum + payee.total, 0)),
+      reportable: roundMoney(reportable.reduce((sum, payee) => sum + payee.total, 0)),
+      reportableCount: reportable.length,
+      missingW9Count: payees.filter((payee) => payee.status === 'missing_w9').length,
+    },
+  };
+}
+
+/**
+ * Everything needed to file: decrypted payer and payee TINs. Payees over the
+ * threshold without a W-9 block filing rather than going out with a blank TIN.
+ */
+async function loadFiling(landlordId: string, year: number, contractorId?: string) {
+  const settings = await prisma.landlord1099Settings.findUnique({ where: { landlordId } });
+  if (!settings) invalid('Add your payer details before generating 1099s');
+
+  const { contractors, payees } = await loadPayees(landlordId, year);
+  const scoped = contractorId ? payees.filter((payee) => payee.contractorId === contractorId) : payees;
+  const missing = scoped.filter((payee) => payee.status === 'missing_w9');
+  if (missing.length > 0) {
+    invalid(`Collect W-9s before filing: ${missing.map((payee) => payee.name).join(', ')}`);
+  }
+
+  const w9ById = new Map(contractors.map((contractor) => [contractor.id, contractor.w9!]));
+  const filingPayees: FilingPayee[] = scoped
+    .filter((payee) => payee.status === 'reportable')
+    .map((payee) => {
+      const w9 = w9ById.get(payee.contractorId)!;
+      return {
+        contractorId: payee.contractorId,
+        amount: payee.total,
+        legalName: w9.legalName!,
+        businessName: w9.businessName,
+        taxClassification: w9.taxClassification as TaxClassification,
+        exemptPayeeCode: w9.exemptPayeeCode,
+        tinType: w9.tinType as TinType,
+        tin: decryptSensitiveData(w9.tinEncrypted!),
+        address1: w9.address1!,
+        address2: w9.address2,
+        city: w9.city!,
+        state: w9.state!,
+        postalCode: w9.postalCode!,
+      };
+    });
+  if (contractorId && filingPayees.length === 0) invalid(`This contractor has no reportable 1099-NEC for ${year}`);
+
+  const payer: PayerDetails = {
+    payerName: settings.payerName,
+    tin: decryptSensitiveData(settings.payerTinEncrypted),
+    address1: settings.address1,
+    address2: settings.address2,
+    city: settings.city,
+    state: settings.state,
+    postalCode: settings.postalCode,
+    phone: settings.phone,
+    transmitterControlCode: settings.transmitterControlCode,
+    contactName: settings.contactName,
+    contactEmail: settings.contactEmail,
+  };
+  return { payer, payees: filingPayees };
+}
+
+export async function generateFireExport(
+  landlordId: string,
+  year: number,
+  options: { test?: boolean } = {}
+): Promise<{ filename: string; content: string }> {
+  const { payer, payees } = await loadFiling(landlordId, year);
+  const test = options.test ?? false;
+  return {
+    filename: `${test ? 'TEST-' : ''}1099NEC-${year}-${payer.tin.slice(-4)}.txt`,
+    content: buildFireFile({ year, test, payer, payees }),
+  };
+}
+
+export async function generateRecipientCopiesPdf(
+  landlordId: string,
+  year: number,
+  contractorId?: string
+): Promise<{ filename: string; pdf: Buffer }> {
+  const { payer, payees } = await loadFiling(landlordId, year, contractorId);
+  if (payees.length === 0) invalid(`No reportable 1099-NEC payees for ${year}`);
+
+  const suffix = contractorId
+    ? payees[0].legalName.replace(/[^a-z0-9]+/gi, '-').toLowerCase()
+    : 'recipients';
+  return {
+    filename: `1099-nec-${year}-${suffix}.pdf`,
+    pdf: await htmlToPdfBuffer(generate1099NecHtml({ year, payer, payees })),
+  };
+}
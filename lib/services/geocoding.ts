@@ -0,0 +1,237 @@
+/**
+ * Geocoding for contractor search and lead routing
+ *
+ * ZIP codes and "City, ST" strings resolve against the ZipCentroid table
+ * (loaded by scripts/import-zip-centroids.ts), so search and routing work
+ * with no external API. Street addresses go to the Google Geocoding API when
+ * GOOGLE_MAPS_SERVER_KEY is set, and fall back to the ZIP or city centroid
+ * when it isn't or the request fails.
+ */
+
+import { prisma } from '@/db/prisma';
+import { haversineKm, type GeoPoint } from './dispatch-distance';
+
+// ============= Types =============
+
+export interface GeocodeResult extends GeoPoint {
+  source: 'zip_centroid' | 'city_centroid' | 'google';
+  precision: 'address' | 'zip' | 'city';
+  zip: string | null;
+  city: string | null;
+  state: string | null;
+  /** How far the real location may be from the point: 0 for an address, the city's extent for a city */
+  spreadMiles: number;
+}
+
+export interface AddressParts {
+  address?: string | null;
+  city?: string | null;
+  state?: string | null;
+  zip?: string | null;
+}
+
+const KM_PER_MILE = 1.609344;
+
+export function distanceMiles(a: GeoPoint, b: GeoPoint): number {
+  return haversineKm(a, b) / KM_PER_MILE;
+}
+
+// ============= Parsing =============
+
+const STATES: Record<string, string> = {
+  alabama: 'AL', alaska: 'AK', arizona: 'AZ', arkansas: 'AR', california: 'CA', colorado: 'CO',
+  connecticut: 'CT', delaware: 'DE', 'district of columbia': 'DC', florida: 'FL', georgia: 'GA',
+  hawaii: 'HI', idaho: 'ID', illinois: 'IL', indiana: 'IN', iowa: 'IA', kansas: 'KS', kentucky: 'KY',
+  louisiana: 'LA', maine: 'ME', maryland: 'MD', massachusetts: 'MA', michigan: 'MI', minnesota: 'MN',
+  mississippi: 'MS', missouri: 'MO', montana: 'MT', nebraska: 'NE', nevada: 'NV', 'new hampshire': 'NH',
+  'new jersey': 'NJ', 'new mexico': 'NM', 'new york': 'NY', 'north carolina': 'NC', 'north dakota': 'ND',
+  ohio: 'OH', oklahoma: 'OK', oregon: 'OR', pennsylvania: 'PA', 'puerto rico': 'PR', 'rhode island': 'RI',
+  'south carolina': 'SC', 'south dakota': 'SD', tennessee: 'TN', texas: 'TX', utah: 'UT', vermont: 'VT',
+  virginia: 'VA', washington: 'WA', 'west virginia': 'WV', wisconsin: 'WI', wyoming: 'WY',
+};
+const STATE_CODES = new Set(Object.values(STATES));
+
+/** "NV", "nv" or "Nevada" → "NV" */
+export function normalizeState(value: string | null | undefined): string | null {
+  const text = value?.trim();
+  if (!text) return null;
+  const upper = text.toUpperCase();
+  if (STATE_CODES.has(upper)) return upper;
+  return STATES[text.toLowerCase().replace(/\s+/g, ' ')] ?? null;
+}
+
+/**
+ * Pull a ZIP, city and state out of free text such as "89101",
+ * "Henderson, NV", "Las Vegas Nevada" or "123 Main St, Reno, NV 89501"
+ */
+export function parseLocationQuery(query: string): { zip: string | null; city: string | null; state: string | null } {
+  const text = query.trim();
+  const zip = text.match(/\b(\d{5})(?:-\d{4})?\b/)?.[1] ?? null;
+  const rest = text
+    .replace(/\b\d{5}(?:-\d{4})?\b/, '')
+    .replace(/\s*,\s*$/, '')
+    .trim();
+
+  const parts = rest.split(',').map((part) => part.trim()).filter(Boolean);
+  let state: string | null = null;
+  let city: string | null = null;
+
+  if (parts.length >= 2) {
+    state = normalizeState(parts[parts.length - 1]);
+    city = state ? parts[parts.length - 2] : parts[parts.length - 1];
+  } else if (parts.length === 1) {
+    // No comma: try the last one or two words as the state
+    const words = parts[0].split(/\s+/);
+    for (const take of [2, 1]) {
+      if (words.length <= take) continue;
+      const candidate = normalizeState(words.slice(-take).join(' '));
+      if (candidate) {
+        state = candidate;
+        city = words.slice(0, -take).join(' ');
+        break;
+      }
+    }
+    if (!state) {
+      state = normalizeState(parts[0]);
+      city = state ? null : parts[0];
+    }
+  }
+
+  return { zip, city: city || null, state };
+}
+
+// ============= ZIP centroid table =============
+
+export async function lookupZip(zip: string): Promise<GeocodeResult | null> {
+  const row = await prisma.zipCentroid.findUnique({ where: { zip: zip.slice(0, 5) } });
+  if (!row) return null;
+  return {
+    lat: row.latitude,
+    lng: row.longitude,
+    source: 'zip_centroid',
+    precision: 'zip',
+    zip: row.zip,
+    city: row.city,
+    state: row.state,
+    spreadMiles: 0,
+  };
+}
+
+/** Centre of a city's ZIP centroids; spreadMiles reaches the farthest of them */
+export async function lookupCity(city: string, state: string | null): Promise<GeocodeResult | null> {
+  const rows = await prisma.zipCentroid.findMany({
+    where: { city: { equals: city.trim(), mode: 'insensitive' }, ...(state ? { state } : {}) },
+  });
+  if (rows.length === 0) return null;
+  // Without a state, "Springfield" is ambiguous; use the state with the most ZIPs
+  const states = new Map<string, typeof rows>();
+  for (const row of rows) states.set(row.state, [...(states.get(row.state) ?? []), row]);
+  const chosen = [...states.values()].sort((a, b) => b.length - a.length)[0];
+
+  const center = {
+    lat: chosen.reduce((sum, row) => sum + row.latitude, 0) / chosen.length,
+    lng: chosen.reduce((sum, row) => sum + row.longitude, 0) / chosen.length,
+  };
+  const spreadMiles = Math.max(
+    0,
+    ...chosen.map((row) => distanceMiles(center, { lat: row.latitude, lng: row.longitude }))
+  );
+  return {
+    ...center,
+    source: 'city_centroid',
+    precision: 'city',
+    zip: null,
+    city: chosen[0].city,
+    state: chosen[0].state,
+    spreadMiles: Math.round(spreadMiles * 10) / 10,
+  };
+}
+
+// ============= Google =============
+
+const GOOGLE_GEOCODE_URL = 'https://maps.googleapis.com/maps/api/geocode/json';
+
+interface GoogleGeocodeResponse {
+  status: string;
+  results: {
+    geometry: { location: { lat: number; lng: number }; location_type: string };
+    address_components: { short_name: string; types: string[] }[];
+  }[];
+}
+
+async function geocodeWithGoogle(address: string, apiKey: string): Promise<GeocodeResult | null> {
+  const params = new URLSearchParams({ address, components: 'country:US', key: apiKey });
+  const response = await fetch(`${GOOGLE_GEOCODE_URL}?${params}`);
+  if (!response.ok) throw new Error(`Geocoding responded ${response.status}`);
+
+  const data = (await response.json()) as GoogleGeocodeResponse;
+  if (data.status === 'ZERO_RESULTS') return null;
+  if (data.status !== 'OK') throw new Error(`Geocoding status ${data.status}`);
+
+  const [result] = data.results;
+  const component = (type: string) => result.address_components.find((c) => c.types.includes(type))?.short_name ?? null;
+  const approximate = result.geometry.location_type === 'APPROXIMATE';
+  return {
+    lat: result.geometry.location.lat,
+    lng: result.geometry.location.lng,
+    source: 'google',
+    precision: approximate ? 'city' : 'address',
+    zip: component('postal_code'),
+    city: component('locality'),
+    state: component('administrative_area_level_1'),
+    spreadMiles: 0,
+  };
+}
+
+// ============= Entry points =============
+
+/**
+ * Geocode a search box entry. ZIPs and cities come from the centroid table;
+ * anything else (a street address, a neighbourhood) needs Google.
+ */
+export async function geocodeLocation(query: string): Promise<GeocodeResult | null> {
+  const text = query.trim();
+  if (!text) return null;
+  const parsed = parseLocationQuery(text);
+  const looksLikeAddress = /^\d+\s+\S/.test(text) && !/^\d{5}(-\d{4})?$/.test(text);
+
+  if (!looksLikeAddress) {
+    if (parsed.zip) {
+      const byZip = await lookupZip(parsed.zip);
+      if (byZip) return byZip;
+    }
+    if (parsed.city) {
+      const byCity = await lookupCity(parsed.city, parsed.state);
+      if (byCity) return byCity;
+    }
+  }
+
+  return geocodeAddress({ address: text, city: parsed.city, state: parsed.state, zip: parsed.zip });
+}
+
+/**
+ * Geocode a structured address: Google for the street address when
+ * configured, then the ZIP centroid, then the city centroid.
+ */
+export async function geocodeAddress(parts: AddressParts): Promise<GeocodeResult | null> {
+  const apiKey = process.env.GOOGLE_MAPS_SERVER_KEY;
+  const zip = parts.zip?.match(/\d{5}/)?.[0] ?? null;
+  const state = normalizeState(parts.state);
+
+  if (apiKey && parts.address?.trim()) {
+    const full = [parts.address, parts.city, [state, zip].filter(Boolean).join(' ')].filter((part) => part?.trim()).join(', ');
+    try {
+      const result = await geocodeWithGoogle(full, apiKey);
+      if (result) return result;
+    } catch (error) {
+      console.error('Google geocoding failed, using ZIP centroids:', error);
+    }
+  }
+
+  if (zip) {
+    const byZip = await lookupZip(zip);
+    if (byZip) return byZip;
+  }
+  if (parts.city?.trim()) return lookupCity(parts.city, state);
+  return null;
+}
@@ -0,0 +1,903 @@
+/**
+ * Jurisdiction Rules Service
+ * Versioned landlord-tenant rules at the state and city level: deposit caps
+ * and return deadlines, late-fee caps and grace periods, notice periods and
+ * required lease disclosures.
+ *
+ * Rules resolve in layers - DEFAULT, then the state, then the city - with
+ * each layer overriding only the fields it sets. Within a layer every version
+ * in effect on the given date applies in order, so a new version only needs
+ * the fields that changed; a field set to null is cleared (no cap, no tiers,
+ * or the engine's fallback). Versions stored in the JurisdictionRule table
+ * apply after the built-in baseline below.
+ */
+
+import { prisma } from '@/db/prisma';
+import type { JurisdictionRule, Prisma } from '@prisma/client';
+import { addDays, isWeekend } from 'date-fns';
+
+// ============= Types =============
+
+export type DisclosureKey =
+  | 'lead_paint'
+  | 'mold'
+  | 'bed_bugs'
+  | 'radon'
+  | 'asbestos'
+  | 'flood_zone'
+  | 'sex_offender'
+  | 'smoking_policy';
+
+export const DISCLOSURE_KEYS: DisclosureKey[] = [
+  'lead_paint',
+  'mold',
+  'bed_bugs',
+  'radon',
+  'asbestos',
+  'flood_zone',
+  'sex_offender',
+  'smoking_policy',
+];
+
+export interface RentIncreaseNoticeTier {
+  minIncreasePercent?: number;
+  minTenancyMonths?: number;
+  noticeDays: number;
+}
+
+/**
+ * Fields a rule version can set; anything left out (undefined) inherits from
+ * the layer below, and null clears the field.
+ */
+export interface JurisdictionRuleFields {
+  depositCapMonths?: number | null;
+  depositReturnDays?: number | null;
+  lateFeeCapPercent?: number | null;
+  lateFeeCapAmount?: number | null;
+  lateFeeCapRule?: 'lesser' | 'greater' | null;
+  lateFeeMinGraceDays?: number | null;
+  entryNoticeHours?: number | null;
+  terminationNoticeDays?: number | null;
+  rentIncreaseNoticeDays?: number | null;
+  rentIncreaseNoticeTiers?: RentIncreaseNoticeTier[] | null;
+  payOrQuitNoticeDays?: number | null;
+  cureOrQuitNoticeDays?: number | null;
+  noticeCourtDaysOnly?: boolean | null;
+  requiredDisclosures?: DisclosureKey[];
+  notes?: string[];
+}
+
+export interface JurisdictionRuleVersion extends JurisdictionRuleFields {
+  /** Database id; absent for built-in rules */
+  id?: string;
+  state: string;
+  city?: string | null;
+  version: number;
+  effectiveFrom: Date;
+  effectiveTo?: Date | null;
+  source?: string | null;
+}
+
+export interface ResolvedJurisdictionRules {
+  state: string;
+  city: string | null;
+  depositCapMonths: number | null;
+  depositReturnDays: number;
+  lateFeeCapPercent: number | null;
+  lateFeeCapAmount: number | null;
+  lateFeeCapRule: 'lesser' | 'greater';
+  lateFeeMinGraceDays: number;
+  entryNoticeHours: number;
+  terminationNoticeDays: number;
+  rentIncreaseNoticeDays: number;
+  rentIncreaseNoticeTiers: RentIncreaseNoticeTier[];
+  payOrQuitNoticeDays: number;
+  cureOrQuitNoticeDays: number;
+  noticeCourtDaysOnly: boolean;
+  requiredDisclosures: DisclosureKey[];
+  notes: string[];
+  /** Rule versions applied, lowest layer first, e.g. "CA v2 (built-in)" */
+  sources: string[];
+}
+
+export interface JurisdictionIssue {
+  severity: 'error' | 'warning';
+  code: string;
+  message: string;
+}
+
+export type EvictionNoticeKind = 'nonpayment' | 'lease_violation' | 'termination';
+
+export class JurisdictionComplianceError extends Error {
+  issues: JurisdictionIssue[];
+
+  constructor(issues: JurisdictionIssue[]) {
+    super(issues.map((issue) => issue.message).join(' '));
+    this.issues = issues;
+    this.name = 'JurisdictionComplianceError';
+  }
+}
+
+// ============= Built-in Rules =============
+
+const BASELINE = new Date('2000-01-01T00:00:00.000Z');
+
+/**
+ * Baseline rules shipped with the app. Add a new version (rather than editing
+ * one in place) when a law changes so earlier leases and notices keep the
+ * rules that applied to them.
+ */
+export const BUILT_IN_JURISDICTION_RULES: JurisdictionRuleVersion[] = [
+  {
+    state: 'DEFAULT',
+    version: 1,
+    effectiveFrom: BASELINE,
+    depositReturnDays: 30,
+    lateFeeMinGraceDays: 0,
+    entryNoticeHours: 24,
+    terminationNoticeDays: 30,
+    rentIncreaseNoticeDays: 30,
+    payOrQuitNoticeDays: 3,
+    cureOrQuitNoticeDays: 3,
+    requiredDisclosures: ['lead_paint'],
+  },
+  {
+    state: 'CA',
+    version: 1,
+    effectiveFrom: BASELINE,
+    depositCapMonths: 2,
+    depositReturnDays: 21,
+    entryNoticeHours: 24,
+    rentIncreaseNoticeDays: 30,
+    rentIncreaseNoticeTiers: [{ minIncreasePercent: 10, noticeDays: 90 }],
+    payOrQuitNoticeDays: 3,
+    cureOrQuitNoticeDays: 3,
+    noticeCourtDaysOnly: true,
+    requiredDisclosures: ['lead_paint', 'mold', 'bed_bugs', 'asbestos', 'flood_zone', 'sex_offender', 'smoking_policy'],
+    notes: ['Requires specific CA lease addendum', 'Rent control may apply in some cities'],
+    source: 'Cal. Civ. Code 1950.5, 1954; CCP 1161',
+  },
+  {
+    state: 'CA',
+    version: 2,
+    effectiveFrom: new Date('2024-07-01T00:00:00.000Z'),
+    depositCapMonths: 1,
+    source: 'AB 12 (2023)',
+  },
+  {
+    state: 'CA',
+    city: 'LOS ANGELES',
+    version: 1,
+    effectiveFrom: BASELINE,
+    notes: ['Los Angeles RSO units have separate rent increase limits'],
+  },
+  {
+    state: 'NY',
+    version: 1,
+    effectiveFrom: BASELINE,
+    depositCapMonths: 1,
+    depositReturnDays: 14,
+    lateFeeCapPercent: 5,
+    lateFeeCapAmount: 50,
+    lateFeeCapRule: 'lesser',
+    lateFeeMinGraceDays: 5,
+    rentIncreaseNoticeDays: 30,
+    rentIncreaseNoticeTiers: [
+      { minTenancyMonths: 12, noticeDays: 60 },
+      { minTenancyMonths: 24, noticeDays: 90 },
+    ],
+    payOrQuitNoticeDays: 14,
+    cureOrQuitNoticeDays: 10,
+    requiredDisclosures: ['lead_paint', 'mold', 'bed_bugs', 'asbestos', 'flood_zone', 'smoking_policy'],
+    notes: ['NYC has additional requirements', 'Rent stabilization may apply'],
+    source: 'NY Housing Stability and Tenant Protection Act of 2019',
+  },
+  {
+    state: 'TX',
+    version: 1,
+    effectiveFrom: BASELINE,
+    depositReturnDays: 30,
+    lateFeeCapPercent: 12,
+    lateFeeMinGraceDays: 2,
+    payOrQuitNoticeDays: 3,
+    cureOrQuitNoticeDays: 3,
+    requiredDisclosures: ['lead_paint', 'flood_zone'],
+    source: 'Tex. Prop. Code 92.019, 92.103, 24.005',
+  },
+  {
+    state: 'FL',
+    version: 1,
+    effectiveFrom: BASELINE,
+    depositReturnDays: 15,
+    lateFeeCapPercent: 5,
+    entryNoticeHours: 12,
+    terminationNoticeDays: 15,
+    rentIncreaseNoticeDays: 15,
+    payOrQuitNoticeDays: 3,
+    cureOrQuitNoticeDays: 7,
+    requiredDisclosures: ['lead_paint', 'radon', 'flood_zone'],
+    source: 'Fla. Stat. 83.49, 83.53, 83.56, 83.57',
+  },
+  {
+    state: 'FL',
+    version: 2,
+    effectiveFrom: new Date('2023-07-01T00:00:00.000Z'),
+    terminationNoticeDays: 30,
+    source: 'HB 1417 (2023)',
+  },
+  {
+    state: 'NV',
+    version: 1,
+    effectiveFrom: BASELINE,
+    depositCapMonths: 3,
+    depositReturnDays: 30,
+    lateFeeCapPercent: 5,
+    rentIncreaseNoticeDays: 45,
+    payOrQuitNoticeDays: 7,
+    cureOrQuitNoticeDays: 5,
+    noticeCourtDaysOnly: true,
+    requiredDisclosures: ['lead_paint'],
+    source: 'NRS 118A.200, 118A.242, 40.2512',
+  },
+  {
+    state: 'AZ',
+    version: 1,
+    effectiveFrom: BASELINE,
+    depositCapMonths: 1.5,
+    depositReturnDays: 14,
+    entryNoticeHours: 48,
+    payOrQuitNoticeDays: 5,
+    cureOrQuitNoticeDays: 10,
+    requiredDisclosures: ['lead_paint', 'bed_bugs'],
+    source: 'A.R.S. 33-1321, 33-1343, 33-1368',
+  },
+  {
+    state: 'CO',
+    version: 1,
+    effectiveFrom: BASELINE,
+    depositReturnDays: 30,
+    lateFeeCapPercent: 5,
+    lateFeeCapAmount: 50,
+    lateFeeCapRule: 'greater',
+    lateFeeMinGraceDays: 7,
+    rentIncreaseNoticeDays: 60,
+    payOrQuitNoticeDays: 10,
+    cureOrQuitNoticeDays: 10,
+    requiredDisclosures: ['lead_paint', 'radon'],
+    source: 'C.R.S. 38-12-103, 38-12-105, 13-40-104',
+  },
+  {
+    state: 'WA',
+    version: 1,
+    effectiveFrom: BASELINE,
+    depositReturnDays: 21,
+    lateFeeMinGraceDays: 5,
+    entryNoticeHours: 48,
+    rentIncreaseNoticeDays: 90,
+    payOrQuitNoticeDays: 14,
+    cureOrQuitNoticeDays: 10,
+    requiredDisclosures: ['lead_paint', 'mold', 'sex_offender', 'smoking_policy'],
+    source: 'RCW 59.18.150, 59.18.170, 59.18.280',
+  },
+  {
+    state: 'WA',
+    version: 2,
+    effectiveFrom: new Date('2023-06-06T00:00:00.000Z'),
+    depositReturnDays: 30,
+    source: 'SB 5198 (2023)',
+  },
+  {
+    state: 'WA',
+    city: 'SEATTLE',
+    version: 1,
+    effectiveFrom: BASELINE,
+    rentIncreaseNoticeDays: 180,
+    source: 'SMC 7.24.030',
+  },
+  {
+    state: 'OR',
+    version: 1,
+    effectiveFrom: BASELINE,
+    depositReturnDays: 31,
+    lateFeeMinGraceDays: 4,
+    entryNoticeHours: 24,
+    rentIncreaseNoticeDays: 90,
+    payOrQuitNoticeDays: 10,
+    cureOrQuitNoticeDays: 14,
+    requiredDisclosures: ['lead_paint', 'mold', 'flood_zone', 'smoking_policy'],
+    source: 'ORS 90.260, 90.300, 90.394',
+  },
+  {
+    state: 'IL',
+    version: 1,
+    effectiveFrom: BASELINE,
+    depositReturnDays: 30,
+    payOrQuitNoticeDays: 5,
+    cureOrQuitNoticeDays: 10,
+    requiredDisclosures: ['lead_paint', 'bed_bugs', 'radon'],
+    source: '765 ILCS 710; 735 ILCS 5/9-209',
+  },
+  {
+    state: 'IL',
+    city: 'CHICAGO',
+    version: 1,
+    effectiveFrom: BASELINE,
+    depositReturnDays: 45,
+    entryNoticeHours: 48,
+    notes: ['Chicago RLTO summary must be attached to the lease'],
+    source: 'Chicago RLTO 5-12-050, 5-12-080',
+  },
+];
+
+// ============= Resolution =============
+
+export function normalizeJurisdictionKey(value: string | null | undefined): string | null {
+  const trimmed = value?.trim().toUpperCase();
+  return trimmed ? trimmed : null;
+}
+
+function isInEffect(rule: JurisdictionRuleVersion, asOf: Date): boolean {
+  return rule.effectiveFrom <= asOf && (!rule.effectiveTo || rule.effectiveTo > asOf);
+}
+
+/**
+ * Versions in effect for one layer, in the order they apply: built-in
+ * versions first, then stored ones, each by version number.
+ */
+function pickLayerVersions(
+  candidates: JurisdictionRuleVersion[],
+  state: string,
+  city: string | null,
+  asOf: Date
+): JurisdictionRuleVersion[] {
+  return candidates
+    .filter(
+      (rule) =>
+        normalizeJurisdictionKey(rule.state) === state &&
+        normalizeJurisdictionKey(rule.city) === city &&
+        isInEffect(rule, asOf)
+    )
+    .sort((a, b) => Number(!!a.id) - Number(!!b.id) || a.version - b.version);
+}
+
+const SCALAR_FIELDS = [
+  'depositCapMonths',
+  'depositReturnDays',
+  'lateFeeCapPercent',
+  'lateFeeCapAmount',
+  'lateFeeCapRule',
+  'lateFeeMinGraceDays',
+  'entryNoticeHours',
+  'terminationNoticeDays',
+  'rentIncreaseNoticeDays',
+  'rentIncreaseNoticeTiers',
+  'payOrQuitNoticeDays',
+  'cureOrQuitNoticeDays',
+  'noticeCourtDaysOnly',
+] as const;
+
+type ScalarField = (typeof SCALAR_FIELDS)[number];
+
+/**
+ * Merge the DEFAULT, state and city layers in effect on `asOf`. Disclosures
+ * accumulate across layers; other fields take the most specific value set.
+ */
+export function resolveJurisdictionRules(
+  candidates: JurisdictionRuleVersion[],
+  location: { state?: string | null; city?: string | null },
+  asOf: Date = new Date()
+): ResolvedJurisdictionRules {
+  const state = normalizeJurisdictionKey(location.state);
+  const city = normalizeJurisdictionKey(location.city);
+
+  // Values with no rule in effect; a version that clears a field returns it here
+  const fallback: Pick<ResolvedJurisdictionRules, ScalarField> = {
+    depositCapMonths: null,
+    depositReturnDays: 30,
+    lateFeeCapPercent: null,
+    lateFeeCapAmount: null,
+    lateFeeCapRule: 'lesser',
+    lateFeeMinGraceDays: 0,
+    entryNoticeHours: 24,
+    terminationNoticeDays: 30,
+    rentIncreaseNoticeDays: 30,
+    rentIncreaseNoticeTiers: [],
+    payOrQuitNoticeDays: 3,
+    cureOrQuitNoticeDays: 3,
+    noticeCourtDaysOnly: false,
+  };
+  const resolved: ResolvedJurisdictionRules = {
+    ...fallback,
+    state: state || 'DEFAULT',
+    city: state ? city : null,
+    requiredDisclosures: [],
+    notes: [],
+    sources: [],
+  };
+
+  const layers: [string, string | null][] = [['DEFAULT', null]];
+  if (state && state !== 'DEFAULT') {
+    layers.push([state, null]);
+    if (city) layers.push([state, city]);
+  }
+
+  for (const [layerState, layerCity] of layers) {
+    for (const rule of pickLayerVersions(candidates, layerState, layerCity, asOf)) {
+      for (const field of SCALAR_FIELDS) {
+        const value = rule[field];
+        if (value !== undefined) {
+          (resolved as unknown as Record<string, unknown>)[field] = value ?? fallback[field];
+        }
+      }
+      for (const key of rule.requiredDisclosures || []) {
+        if (!resolved.requiredDisclosures.includes(key)) resolved.requiredDisclosures.push(key);
+      }
+      resolved.notes.push(...(rule.notes || []));
+      const label = layerCity ? `${layerCity}, ${layerState}` : layerState;
+      resolved.sources.push(`${label} v${rule.version} (${rule.id ? 'custom' : 'built-in'})`);
+    }
+  }
+
+  return resolved;
+}
+
+/** Built-in rules only, for callers that can't reach the database */
+export function getBuiltInJurisdictionRules(
+  state?: string | null,
+  city?: string | null,
+  asOf: Date = new Date()
+): ResolvedJurisdictionRules {
+  return resolveJurisdictionRules(BUILT_IN_JURISDICTION_RULES, { state, city }, asOf);
+}
+
+/**
+ * A stored version as the resolver sees it. Null columns are unset unless
+ * the version lists them in clearedFields.
+ */
+export function toJurisdictionRuleVersion(row: JurisdictionRule): JurisdictionRuleVersion {
+  const num = (value: Prisma.Decimal | null) => (value === null ? null : Number(value));
+  const fields: JurisdictionRuleFields = {
+    depositCapMonths: num(row.depositCapMonths),
+    depositReturnDays: row.depositReturnDays,
+    lateFeeCapPercent: num(row.lateFeeCapPercent),
+    lateFeeCapAmount: num(row.lateFeeCapAmount),
+    lateFeeCapRule: row.lateFeeCapRule as 'lesser' | 'greater' | null,
+    lateFeeMinGraceDays: row.lateFeeMinGraceDays,
+    entryNoticeHours: row.entryNoticeHours,
+    terminationNoticeDays: row.terminationNoticeDays,
+    rentIncreaseNoticeDays: row.rentIncreaseNoticeDays,
+    rentIncreaseNoticeTiers: Array.isArray(row.rentIncreaseNoticeTiers)
+      ? (row.rentIncreaseNoticeTiers as unknown as RentIncreaseNoticeTier[])
+      : null,
+    payOrQuitNoticeDays: row.payOrQuitNoticeDays,
+    cureOrQuitNoticeDays: row.cureOrQuitNoticeDays,
+    noticeCourtDaysOnly: row.noticeCourtDaysOnly,
+  };
+  for (const field of SCALAR_FIELDS) {
+    if (fields[field] === null && !row.clearedFields.includes(field)) delete fields[field];
+  }
+
+  return {
+    ...fields,
+    id: row.id,
+    state: row.state,
+    city: row.city,
+    version: row.version,
+    effectiveFrom: row.effectiveFrom,
+    effectiveTo: row.effectiveTo,
+    requiredDisclosures: row.requiredDisclosures as DisclosureKey[],
+    notes: row.notes,
+    source: row.source,
+  };
+}
+
+/** Rules in effect for a location, including versions stored in the database */
+export async function getJurisdictionRules(
+  location: { state?: string | null; city?: string | null },
+  asOf: Date = new Date()
+): Promise<ResolvedJurisdictionRules> {
+  const state = normalizeJurisdictionKey(location.state);
+  const rows = await prisma.jurisdictionRule.findMany({
+    where: { state: { in: state ? ['DEFAULT', state] : ['DEFAULT'] } },
+  });
+  return resolveJurisdictionRules(
+    [...BUILT_IN_JURISDICTION_RULES, ...rows.map(toJurisdictionRuleVersion)],
+    location,
+    asOf
+  );
+}
+
+/** State and city from a Property.address JSON value */
+export function getPropertyLocation(address: Prisma.JsonValue | null | undefined): {
+  state: string | null;
+  city: string | null;
+} {
+  const value = (address && typeof address === 'object' && !Array.isArray(address) ? address : {}) as {
+    state?: unknown;
+    city?: unknown;
+  };
+  return {
+    state: typeof value.state === 'string' ? normalizeJurisdictionKey(value.state) : null,
+    city: typeof value.city === 'string' ? normalizeJurisdictionKey(value.city) : null,
+  };
+}
+
+export function formatJurisdiction(rules: Pick<ResolvedJurisdictionRules, 'state' | 'city'>): string {
+  if (rules.state === 'DEFAULT') return 'Default rules';
+  return rules.city ? `${rules.city}, ${rules.state}` : rules.state;
+}
+
+// ============= Compliance Checks =============
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** Largest late fee allowed for a month's rent, or null when uncapped */
+export function getLateFeeCap(
+  rules: Pick<ResolvedJurisdictionRules, 'lateFeeCapPercent' | 'lateFeeCapAmount' | 'lateFeeCapRule'>,
+  monthlyRent: number
+): number | null {
+  const caps: number[] = [];
+  if (rules.lateFeeCapPercent !== null) caps.push(round2((monthlyRent * rules.lateFeeCapPercent) / 100));
+  if (rules.lateFeeCapAmount !== null) caps.push(rules.lateFeeCapAmount);
+  if (caps.length === 0) return null;
+  return rules.lateFeeCapRule === 'greater' ? Math.max(...caps) : Math.min(...caps);
+}
+
+/**
+ * Check late fee settings against a jurisdiction. Pass `monthlyRents` for the
+ * units they apply to so flat fees can be checked against percentage caps.
+ */
+export function checkLateFeeSettings(
+  settings: { gracePeriodDays: number; feeType: 'flat' | 'percentage'; feeAmount: number; maxFee?: number | null },
+  rules: ResolvedJurisdictionRules,
+  monthlyRents: number[] = []
+): JurisdictionIssue[] {
+  const issues: JurisdictionIssue[] = [];
+  const where = formatJurisdiction(rules);
+
+  if (settings.gracePeriodDays < rules.lateFeeMinGraceDays) {
+    issues.push({
+      severity: 'error',
+      code: 'LATE_FEE_GRACE_PERIOD',
+      message: `${where} requires a grace period of at least ${rules.lateFeeMinGraceDays} days before a late fee.`,
+    });
+  }
+
+  if (monthlyRents.length > 0) {
+    // The lowest rent has the tightest percentage cap
+    const rent = Math.min(...monthlyRents);
+    const cap = getLateFeeCap(rules, rent);
+    const fee =
+      settings.feeType === 'percentage' ? round2((rent * settings.feeAmount) / 100) : settings.feeAmount;
+    const charged = settings.maxFee ? Math.min(fee, settings.maxFee) : fee;
+    if (cap !== null && charged > cap) {
+      issues.push({
+        severity: 'error',
+        code: 'LATE_FEE_CAP',
+        message: `${where} caps late fees at $${cap.toFixed(2)} for a $${rent.toFixed(2)} rent; this setting charges $${charged.toFixed(2)}.`,
+      });
+    }
+  } else if (
+    settings.feeType === 'percentage' &&
+    rules.lateFeeCapPercent !== null &&
+    rules.lateFeeCapRule !== 'greater' &&
+    settings.feeAmount > rules.lateFeeCapPercent
+  ) {
+    issues.push({
+      severity: 'error',
+      code: 'LATE_FEE_CAP',
+      message: `${where} caps late fees at ${rules.lateFeeCapPercent}% of monthly rent.`,
+    });
+  }
+
+  return issues;
+}
+
+export function getDepositCap(
+  rules: Pick<ResolvedJurisdictionRules, 'depositCapMonths'>,
+  monthlyRent: number
+): number | null {
+  return rules.depositCapMonths === null ? null : round2(monthlyRent * rules.depositCapMonths);
+}
+
+/** Lease terms that can't be enforced in the jurisdiction */
+export function checkLeaseTerms(
+  terms: {
+    monthlyRent: number;
+    securityDepositAmount: number;
+    depositReturnDays: number;
+    gracePeriodDays: number;
+    lateFeeAmount?: number;
+    lateFeePercent?: number;
+    maxLateFee?: number;
+    entryNoticeHours: number;
+  },
+  rules: ResolvedJurisdictionRules
+): JurisdictionIssue[] {
+  const issues: JurisdictionIssue[] = [];
+  const where = formatJurisdiction(rules);
+
+  const depositCap = getDepositCap(rules, terms.monthlyRent);
+  if (depositCap !== null && terms.securityDepositAmount > depositCap) {
+    issues.push({
+      severity: 'error',
+      code: 'DEPOSIT_CAP',
+      message: `${where} limits security deposits to ${rules.depositCapMonths} month(s) of rent ($${depositCap.toFixed(2)}).`,
+    });
+  }
+
+  if (terms.depositReturnDays > rules.depositReturnDays) {
+    issues.push({
+      severity: 'error',
+      code: 'DEPOSIT_RETURN_DAYS',
+      message: `${where} requires the deposit to be returned within ${rules.depositReturnDays} days.`,
+    });
+  }
+
+  if (terms.gracePeriodDays < rules.lateFeeMinGraceDays) {
+    issues.push({
+      severity: 'error',
+      code: 'LATE_FEE_GRACE_PERIOD',
+      message: `${where} requires a grace period of at least ${rules.lateFeeMinGraceDays} days before a late fee.`,
+    });
+  }
+
+  const lateFeeCap = getLateFeeCap(rules, terms.monthlyRent);
+  if (lateFeeCap !== null) {
+    const fee =
+      terms.lateFeeAmount ?? (terms.lateFeePercent ? round2((terms.monthlyRent * terms.lateFeePercent) / 100) : 0);
+    const charged = terms.maxLateFee ? Math.min(fee, terms.maxLateFee) : fee;
+    if (charged > lateFeeCap) {
+      issues.push({
+        severity: 'error',
+        code: 'LATE_FEE_CAP',
+        message: `${where} caps late fees at $${lateFeeCap.toFixed(2)} for this rent.`,
+      });
+    }
+  }
+
+  if (terms.entryNoticeHours < rules.entryNoticeHours) {
+    issues.push({
+      severity: 'warning',
+      code: 'ENTRY_NOTICE',
+      message: `${where} expects at least ${rules.entryNoticeHours} hours' notice before entry.`,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Statutory deadline for returning a deposit after move-out, with a warning
+ * when the disposition is being made after it.
+ */
+export function checkDepositReturn(
+  params: { moveOutDate: Date; dispositionDate: Date; originalAmount: number; monthlyRent: number },
+  rules: ResolvedJurisdictionRules
+): { returnDeadline: Date; issues: JurisdictionIssue[] } {
+  const where = formatJurisdiction(rules);
+  const returnDeadline = addDays(params.moveOutDate, rules.depositReturnDays);
+  const issues: JurisdictionIssue[] = [];
+
+  if (params.dispositionDate > returnDeadline) {
+    issues.push({
+      severity: 'warning',
+      code: 'DEPOSIT_RETURN_LATE',
+      message: `${where} required the deposit to be returned by ${returnDeadline.toLocaleDateString('en-US')}. Late returns can forfeit the right to deductions.`,
+    });
+  }
+
+  const cap = getDepositCap(rules, params.monthlyRent);
+  if (cap !== null && params.originalAmount > cap) {
+    issues.push({
+      severity: 'warning',
+      code: 'DEPOSIT_CAP',
+      message: `${where} limits security deposits to $${cap.toFixed(2)}; the amount held is $${params.originalAmount.toFixed(2)}.`,
+    });
+  }
+
+  return { returnDeadline, issues };
+}
+
+/** Nonpayment if money is owed, no-cause termination for 30-day notices, otherwise a lease violation */
+export function classifyEvictionNotice(noticeType: string, amountOwed?: number | null): EvictionNoticeKind {
+  if (amountOwed && amountOwed > 0) return 'nonpayment';
+  if (noticeType === '30-day') return 'termination';
+  return 'lease_violation';
+}
+
+export function getRequiredEvictionNoticeDays(kind: EvictionNoticeKind, rules: ResolvedJurisdictionRules): number {
+  switch (kind) {
+    case 'nonpayment':
+      return rules.payOrQuitNoticeDays;
+    case 'lease_violation':
+      return rules.cureOrQuitNoticeDays;
+    case 'termination':
+      return rules.terminationNoticeDays;
+  }
+}
+
+/** Deadline for a notice period, skipping weekends where only court days count */
+export function calculateNoticeDeadline(serveDate: Date, days: number, courtDaysOnly: boolean): Date {
+  if (!courtDaysOnly) return addDays(serveDate, days);
+  let deadline = serveDate;
+  let counted = 0;
+  while (counted < days) {
+    deadline = addDays(deadline, 1);
+    if (!isWeekend(deadline)) counted++;
+  }
+  return deadline;
+}
+
+export function checkEvictionNotice(
+  params: { noticeDays: number; kind: EvictionNoticeKind },
+  rules: ResolvedJurisdictionRules
+): JurisdictionIssue[] {
+  const required = getRequiredEvictionNoticeDays(params.kind, rules);
+  if (params.noticeDays >= required) return [];
+  const label = { nonpayment: 'pay-or-quit', lease_violation: 'cure-or-quit', termination: 'termination' }[params.kind];
+  return [
+    {
+      severity: 'error',
+      code: 'EVICTION_NOTICE_PERIOD',
+      message: `${formatJurisdiction(rules)} requires at least ${required} ${rules.noticeCourtDaysOnly && params.kind !== 'termination' ? 'court ' : ''}days for a ${label} notice.`,
+    },
+  ];
+}
+
+// ============= Landlord Checks =============
+
+/**
+ * Check late fee settings against every jurisdiction the landlord has
+ * properties in, using the lowest rent in each.
+ */
+export async function checkLandlordLateFeeSettings(
+  landlordId: string,
+  settings: Parameters<typeof checkLateFeeSettings>[0]
+): Promise<JurisdictionIssue[]> {
+  const properties = await prisma.property.findMany({
+    where: { landlordId },
+    select: { address: true, units: { select: { rentAmount: true } } },
+  });
+
+  const rentsByLocation = new Map<string, { state: string | null; city: string | null; rents: number[] }>();
+  for (const property of properties) {
+    const location = getPropertyLocation(property.address);
+    const key = `${location.state}|${location.city}`;
+    const entry = rentsByLocation.get(key) || { ...location, rents: [] };
+    entry.rents.push(...property.units.map((unit) => Number(unit.rentAmount)).filter((rent) => rent > 0));
+    rentsByLocation.set(key, entry);
+  }
+
+  const issues: JurisdictionIssue[] = [];
+  for (const { state, city, rents } of rentsByLocation.values()) {
+    const rules = await getJurisdictionRules({ state, city });
+    for (const issue of checkLateFeeSettings(settings, rules, rents)) {
+      if (!issues.some((existing) => existing.message === issue.message)) issues.push(issue);
+    }
+  }
+  return issues;
+}
+
+// ============= Rule Management =============
+
+/** Validate rule fields from an admin request */
+export function normalizeJurisdictionRuleInput(
+  input: Record<string, unknown>
+): { data: JurisdictionRuleFields & { state: string; city: string | null; effectiveFrom: Date; effectiveTo: Date | null; source: string | null } } | { error: string } {
+  const state = normalizeJurisdictionKey(typeof input.state === 'string' ? input.state : null);
+  if (!state || (state !== 'DEFAULT' && !/^[A-Z]{2}$/.test(state))) {
+    return { error: 'state must be a two-letter code or DEFAULT' };
+  }
+  const city = normalizeJurisdictionKey(typeof input.city === 'string' ? input.city : null);
+  if (city && state === 'DEFAULT') {
+    return { error: 'DEFAULT rules cannot have a city' };
+  }
+
+  const effectiveFrom = input.effectiveFrom ? new Date(String(input.effectiveFrom)) : new Date();
+  const effectiveTo = input.effectiveTo ? new Date(String(input.effectiveTo)) : null;
+  if (Number.isNaN(effectiveFrom.getTime()) || (effectiveTo && Number.isNaN(effectiveTo.getTime()))) {
+    return { error: 'Invalid effective dates' };
+  }
+  if (effectiveTo && effectiveTo <= effectiveFrom) {
+    return { error: 'effectiveTo must be after effectiveFrom' };
+  }
+
+  const data: JurisdictionRuleFields = {};
+  const numberFields = [
+    'depositCapMonths',
+    'depositReturnDays',
+    'lateFeeCapPercent',
+    'lateFeeCapAmount',
+    'lateFeeMinGraceDays',
+    'entryNoticeHours',
+    'terminationNoticeDays',
+    'rentIncreaseNoticeDays',
+    'payOrQuitNoticeDays',
+    'cureOrQuitNoticeDays',
+  ] as const;
+  // An explicit null clears the field; leaving it out inherits it
+  for (const field of numberFields) {
+    const raw = input[field];
+    if (raw === null) {
+      data[field] = null;
+      continue;
+    }
+    if (raw === undefined || raw === '') continue;
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < 0) {
+      return { error: `Invalid ${field}` };
+    }
+    data[field] = value;
+  }
+
+  if (input.lateFeeCapRule !== undefined) {
+    if (input.lateFeeCapRule !== null && input.lateFeeCapRule !== 'lesser' && input.lateFeeCapRule !== 'greater') {
+      return { error: 'lateFeeCapRule must be lesser or greater' };
+    }
+    data.lateFeeCapRule = input.lateFeeCapRule;
+  }
+  if (typeof input.noticeCourtDaysOnly === 'boolean' || input.noticeCourtDaysOnly === null) {
+    data.noticeCourtDaysOnly = input.noticeCourtDaysOnly;
+  }
+
+  if (input.rentIncreaseNoticeTiers === null) {
+    data.rentIncreaseNoticeTiers = null;
+  } else if (input.rentIncreaseNoticeTiers !== undefined) {
+    if (
+      !Array.isArray(input.rentIncreaseNoticeTiers) ||
+      !input.rentIncreaseNoticeTiers.every((tier) => Number.isInteger(Number(tier?.noticeDays)))
+    ) {
+      return { error: 'Invalid rentIncreaseNoticeTiers' };
+    }
+    data.rentIncreaseNoticeTiers = input.rentIncreaseNoticeTiers.map((tier) => ({
+      ...(tier.minIncreasePercent !== undefined ? { minIncreasePercent: Number(tier.minIncreasePercent) } : {}),
+      ...(tier.minTenancyMonths !== undefined ? { minTenancyMonths: Number(tier.minTenancyMonths) } : {}),
+      noticeDays: Number(tier.noticeDays),
+    }));
+  }
+
+  const disclosures = Array.isArray(input.requiredDisclosures) ? input.requiredDisclosures : [];
+  if (!disclosures.every((key) => DISCLOSURE_KEYS.includes(key))) {
+    return { error: 'Unknown disclosure in requiredDisclosures' };
+  }
+  data.requiredDisclosures = disclosures;
+  data.notes = Array.isArray(input.notes) ? input.notes.filter((note): note is string => typeof note === 'string') : [];
+
+  return {
+    data: {
+      ...data,
+      state,
+      city,
+      effectiveFrom,
+      effectiveTo,
+      source: typeof input.source === 'string' && input.source.trim() ? input.source.trim() : null,
+    },
+  };
+}
+
+/** Store a new version for a state or city; versions are never edited in place */
+export async function createJurisdictionRuleVersion(
+  data: Extract<ReturnType<typeof normalizeJurisdictionRuleInput>, { data: unknown }>['data'],
+  createdById?: string
+): Promise<JurisdictionRule> {
+  const latest = await prisma.jurisdictionRule.findFirst({
+    where: { state: data.state, city: data.city },
+    orderBy: { version: 'desc' },
+    select: { version: true },
+  });
+
+  return prisma.jurisdictionRule.create({
+    data: {
+      ...data,
+      rentIncreaseNoticeTiers: data.rentIncreaseNoticeTiers
+        ? (data.rentIncreaseNoticeTiers as unknown as Prisma.InputJsonValue)
+        : undefined,
+      requiredDisclosures: data.requiredDisclosures || [],
+      notes: data.notes || [],
+      clearedFields: SCALAR_FIELDS.filter((field) => data[field] === null),
+      version: (latest?.version ?? 0) + 1,
+      createdById,
+    },
+  });
+}
@@ -0,0 +1,846 @@
+/**
+ * Lead Routing Service
+ * Decides which contractors receive a ContractorLead and settles what they
+ * pay for it:
+ * 1. routeLead gathers contractors offering the project type around the
+ *    property. Preferences (paused, project types, job value, emergencies,
+ *    property type, ZIPs, radius), daily/weekly lead caps and credit are
+ *    hard filters. Everyone left is scored on merit (calculateMeritScore),
+ *    service-area fit, how often they answer routed leads, capacity headroom
+ *    and preference fit, and the best maxContractors get a match.
+ * 2. A tier that nobody picks up within its urgency's response window (or
+ *    that everyone declines) is expired by escalateStaleLeads, and the lead
+ *    goes to the next-ranked contractors, up to MAX_ROUTING_TIERS tiers.
+ * 3. chargeLeadMatch takes payment once, when the contractor accepts or
+ *    responds (acceptLeadMatch, respondToLeadMatch): a subscription lead
+ *    while the month's allowance lasts, otherwise the lead cost from the
+ *    credit balance. per_booking and free matches pay nothing up front. The
+ *    match's status moves in the same transaction, and only while the match
+ *    is open and its lead neither expired nor cancelled.
+ * 4. refundLeadMatch returns a match's charge; invalidateLead cancels a bad
+ *    lead and refunds everyone who paid for it.
+ */
+
+import type {
+  ContractorLead,
+  ContractorLeadCredit,
+  ContractorLeadPreferences,
+  ContractorProfile,
+  Prisma,
+} from '@prisma/client';
+import { prisma, type TransactionClient } from '@/db/prisma';
+import { CANONICAL_SPECIALTIES, calculateMeritScore, normalizeSpecialty, type RankableContractor } from './contractor-ranking';
+import { findContractorsServing, geocodeLead, type ContractorProximity } from './contractor-service-area.service';
+import type { GeoPoint } from './dispatch-distance';
+
+export const MAX_ROUTING_TIERS = 3;
+export const BASE_LEAD_COST = 10;
+export const BOOKING_FEE_PERCENT = 6;
+const CANDIDATE_POOL_SIZE = 50;
+const HISTORY_DAYS = 90;
+const MIN_HISTORY_SAMPLES = 3;
+const ESCALATION_BATCH_SIZE = 200;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/** Hours a tier has to pick a lead up before it moves on */
+export const RESPONSE_WINDOW_HOURS: Record<string, number> = {
+  emergency: 1,
+  urgent: 4,
+  normal: 24,
+  flexible: 48,
+};
+
+/** Contractor picked the lead up: accepted, responded, quoted or booked */
+const ENGAGED_MATCH_STATUSES = ['sent', 'responded', 'quoted', 'won'];
+/** Still waiting on the contractor */
+const OPEN_MATCH_STATUSES = ['pending', 'viewed'];
+/** Accepted but not yet answered: the contractor can still respond */
+const RESPONDABLE_MATCH_STATUSES = [...OPEN_MATCH_STATUSES, 'sent'];
+const ROUTABLE_LEAD_STATUSES = ['new', 'matching'];
+/** Nobody can take these on any more, or be charged for them */
+const CLOSED_LEAD_STATUSES = ['expired', 'cancelled'];
+
+// ============= Errors =============
+
+export const LeadRoutingErrorCodes = {
+  NOT_FOUND: 'NOT_FOUND',
+  INVALID_STATE: 'INVALID_STATE',
+  INSUFFICIENT_CREDITS: 'INSUFFICIENT_CREDITS',
+} as const;
+
+export type LeadRoutingErrorCode = (typeof LeadRoutingErrorCodes)[keyof typeof LeadRoutingErrorCodes];
+
+export class LeadRoutingError extends Error {
+  code: LeadRoutingErrorCode;
+
+  constructor(code: LeadRoutingErrorCode, message: string) {
+    super(message);
+    this.code = code;
+    this.name = 'LeadRoutingError';
+  }
+}
+
+export function getLeadRoutingErrorStatus(code: LeadRoutingErrorCode): number {
+  switch (code) {
+    case LeadRoutingErrorCodes.NOT_FOUND:
+      return 404;
+    case LeadRoutingErrorCodes.INVALID_STATE:
+      return 409;
+    case LeadRoutingErrorCodes.INSUFFICIENT_CREDITS:
+      return 402;
+    default:
+      return 500;
+  }
+}
+
+// ============= Types =============
+
+export type RoutableLead = Pick<
+  ContractorLead,
+  | 'projectType'
+  | 'budgetMin'
+  | 'budgetMax'
+  | 'urgency'
+  | 'propertyZip'
+  | 'propertyCity'
+  | 'propertyState'
+  | 'propertyType'
+  | 'leadScore'
+  | 'isExclusive'
+>;
+
+export interface RoutingCandidate {
+  profile: ContractorProfile & {
+    leadCredit: ContractorLeadCredit | null;
+    leadPreferences: ContractorLeadPreferences | null;
+  };
+  /** Set when the contractor's geocoded service areas cover the property */
+  proximity: ContractorProximity | null;
+  leadsToday: number;
+  leadsThisWeek: number;
+  /** Routed leads old enough to judge, and how many of them the contractor picked up */
+  history: { routed: number; answered: number };
+}
+
+export interface MatchPricing {
+  pricingModel: 'per_lead' | 'per_booking' | 'subscription' | 'free';
+  leadCost: number | null;
+  bookingFeePercent: number | null;
+}
+
+export type CandidateEvaluation =
+  | { eligible: true; score: number; reasons: string[]; pricing: MatchPricing }
+  | { eligible: false; reason: string };
+
+export interface RoutedMatch {
+  matchId: string;
+  contractorId: string;
+  score: number;
+}
+
+export interface RoutingResult {
+  leadId: string;
+  tier: number;
+  matches: RoutedMatch[];
+  /** Candidates filtered out, by reason */
+  excluded: Record<string, number>;
+}
+
+export interface LeadCharge {
+  pricingModel: string;
+  amount: number;
+  alreadyCharged: boolean;
+}
+
+/** Status change made together with a charge, from any of the `from` statuses */
+export interface MatchTransition {
+  from: string[];
+  data: Prisma.ContractorLeadMatchUpdateManyMutationInput;
+  leadStatus?: string;
+}
+
+export interface LeadResponse {
+  message: string;
+  quoteAmount: number | null;
+  estimatedDuration: string | null;
+}
+
+// ============= Pricing =============
+
+/** Base price, doubled for exclusive leads, plus a premium for high-quality ones */
+export function calculateLeadCost(lead: Pick<ContractorLead, 'isExclusive' | 'leadScore'>): number {
+  let cost = BASE_LEAD_COST;
+  if (lead.isExclusive) cost *= 2;
+  if (lead.leadScore > 70) cost += 5;
+  if (lead.leadScore > 85) cost += 5;
+  return cost;
+}
+
+/**
+ * How a contractor pays for a match. Contractors without a credit account
+ * get their leads free; a subscription that isn't active falls back to
+ * paying per lead.
+ */
+export function resolveMatchPricing(credit: ContractorLeadCredit | null, leadCost: number): MatchPricing {
+  if (!credit) return { pricingModel: 'free', leadCost: null, bookingFeePercent: null };
+  if (credit.preferredPricing === 'per_booking') {
+    return { pricingModel: 'per_booking', leadCost: null, bookingFeePercent: BOOKING_FEE_PERCENT };
+  }
+  if (credit.preferredPricing === 'subscription' && credit.subscriptionStatus === 'active') {
+    // Priced in case the month's allowance runs out before they accept
+    return { pricingModel: 'subscription', leadCost, bookingFeePercent: null };
+  }
+  return { pricingModel: 'per_lead', leadCost, bookingFeePercent: null };
+}
+
+function hasSubscriptionLeadsLeft(credit: ContractorLeadCredit): boolean {
+  return credit.subscriptionStatus === 'active' && credit.leadsUsedThisMonth < credit.leadsIncluded;
+}
+
+// ============= Scoring =============
+
+/** Stored spellings a project type may have in contractor specialties */
+export function specialtyVariants(projectType: string): string[] {
+  const normalized = normalizeSpecialty(projectType);
+  const canonical = CANONICAL_SPECIALTIES.find((s) => normalizeSpecialty(s) === normalized);
+  return [...new Set([projectType, projectType.toLowerCase(), normalized, ...(canonical ? [canonical] : [])])];
+}
+
+function sameSpecialty(a: string, b: string): boolean {
+  return normalizeSpecialty(a.trim()) === normalizeSpecialty(b.trim());
+}
+
+function toRankable(profile: ContractorProfile): RankableContractor {
+  return {
+    id: profile.id,
+    avgRating: profile.avgRating,
+    totalReviews: profile.totalReviews,
+    completedJobs: profile.completedJobs,
+    responseRate: profile.responseRate ?? 0,
+    onTimeRate: profile.onTimeRate ?? 0,
+    identityVerified: profile.identityVerified,
+    insuranceVerified: profile.insuranceVerified,
+    backgroundChecked: profile.backgroundChecked ?? false,
+    profilePhoto: profile.profilePhoto,
+    coverPhoto: profile.coverPhoto,
+    bio: profile.bio,
+    tagline: profile.tagline,
+    specialties: profile.specialties,
+    baseCity: profile.baseCity,
+    baseState: profile.baseState,
+    featuredUntil: profile.featuredUntil,
+    visibilityCredits: profile.visibilityCredits,
+    newContractorBoostUntil: profile.newContractorBoostUntil,
+    lastActiveAt: profile.lastActiveAt,
+    createdAt: profile.createdAt,
+    name: '', email: '', isPaymentReady: false, user: null,
+    coverPhotoDisplay: null, taglineDisplay: null, baseCity2: null,
+    baseState2: null, hourlyRate: null, yearsExperience: null,
+    slug: null, source: 'profile', responseTime: '',
+  };
+}
+
+function isPaused(prefs: ContractorLeadPreferences | null, now: Date): boolean {
+  if (!prefs?.isPaused) return false;
+  return !prefs.pausedUntil || prefs.pausedUntil > now;
+}
+
+/** 0–20: served area and distance, or city/state for contractors not geocoded yet */
+function areaScore(lead: RoutableLead, candidate: RoutingCandidate): { points: number; reason: string } {
+  const { proximity, profile } = candidate;
+  if (proximity) {
+    const miles = proximity.distanceMiles;
+    const points = miles <= 10 ? 20 : miles <= 25 ? 16 : miles <= 50 ? 10 : 6;
+    return { points, reason: `serves the property (${miles} mi)` };
+  }
+  if (lead.propertyCity && profile.baseCity?.toLowerCase() === lead.propertyCity.toLowerCase()) {
+    return { points: 14, reason: `based in ${profile.baseCity}` };
+  }
+  return { points: 8, reason: `works in ${profile.baseState ?? lead.propertyState ?? 'the area'}` };
+}
+
+/**
+ * 0–20: share of routed leads picked up. Too little lead history falls back
+ * to the profile's message response rate.
+ */
+function responseScore(candidate: RoutingCandidate): { points: number; reason: string } {
+  const { routed, answered } = candidate.history;
+  if (routed >= MIN_HISTORY_SAMPLES) {
+    const rate = answered / routed;
+    return { points: rate * 20, reason: `picks up ${Math.round(rate * 100)}% of leads` };
+  }
+  const rate = (candidate.profile.responseRate ?? 0) / 100;
+  return { points: rate * 20, reason: `${Math.round(rate * 100)}% message response rate` };
+}
+
+/** 0–10: room left under the tighter of the daily and weekly caps */
+function capacityScore(candidate: RoutingCandidate): number {
+  const prefs = candidate.profile.leadPreferences;
+  const headroom = [
+    prefs?.maxLeadsPerDay ? 1 - candidate.leadsToday / prefs.maxLeadsPerDay : 1,
+    prefs?.maxLeadsPerWeek ? 1 - candidate.leadsThisWeek / prefs.maxLeadsPerWeek : 1,
+  ];
+  return Math.max(0, Math.min(...headroom)) * 10;
+}
+
+/**
+ * Check a contractor against a lead. Ineligible candidates come back with
+ * the first rule they failed; eligible ones with a 0–100 score, the
+ * factors behind it and how the match would be priced.
+ */
+export function evaluateCandidate(lead: RoutableLead, candidate: RoutingCandidate, now = new Date()): CandidateEvaluation {
+  const { profile } = candidate;
+  const prefs = profile.leadPreferences;
+  const budgetMin = lead.budgetMin === null ? null : Number(lead.budgetMin);
+  const budgetMax = lead.budgetMax === null ? null : Number(lead.budgetMax);
+  const propertyType = lead.propertyType || 'residential';
+
+  if (!profile.specialties.some((s) => sameSpecialty(s, lead.projectType))) return { eligible: false, reason: 'specialty' };
+  if (isPaused(prefs, now)) return { eligible: false, reason: 'paused' };
+
+  if (prefs) {
+    if (prefs.excludedTypes.some((t) => sameSpecialty(t, lead.projectType))) {
+      return { eligible: false, reason: 'excluded_type' };
+    }
+    if (prefs.acceptedTypes.length > 0 && !prefs.acceptedTypes.some((t) => sameSpecialty(t, lead.projectType))) {
+      return { eligible: false, reason: 'unaccepted_type' };
+    }
+    if (prefs.minJobValue && budgetMax !== null && budgetMax < Number(prefs.minJobValue)) {
+      return { eligible: false, reason: 'below_min_job_value' };
+    }
+    if (prefs.maxJobValue && budgetMin !== null && budgetMin > Number(prefs.maxJobValue)) {
+      return { eligible: false, reason: 'above_max_job_value' };
+    }
+    if (lead.urgency === 'emergency' && !prefs.acceptEmergency) return { eligible: false, reason: 'no_emergencies' };
+    if (prefs.residentialOnly && propertyType === 'commercial') return { eligible: false, reason: 'property_type' };
+    if (prefs.commercialOnly && propertyType !== 'commercial') return { eligible: false, reason: 'property_type' };
+    if (
+      prefs.serviceZipCodes.length > 0 &&
+      !candidate.proximity &&
+      !prefs.serviceZipCodes.includes(lead.propertyZip ?? '')
+    ) {
+      return { eligible: false, reason: 'outside_zip_codes' };
+    }
+    // Lead preferences can narrow the profile's service radius
+    if (prefs.serviceRadius && candidate.proximity && candidate.proximity.distanceMiles > prefs.serviceRadius) {
+      return { eligible: false, reason: 'outside_radius' };
+    }
+    if (prefs.maxLeadsPerDay && candidate.leadsToday >= prefs.maxLeadsPerDay) return { eligible: false, reason: 'daily_cap' };
+    if (prefs.maxLeadsPerWeek && candidate.leadsThisWeek >= prefs.maxLeadsPerWeek) {
+      return { eligible: false, reason: 'weekly_cap' };
+    }
+  }
+
+  if (profile.minimumJobSize && budgetMax !== null && budgetMax < Number(profile.minimumJobSize)) {
+    return { eligible: false, reason: 'below_min_job_value' };
+  }
+
+  const credit = profile.leadCredit;
+  const pricing = resolveMatchPricing(credit, calculateLeadCost(lead));
+  const paysFromBalance =
+    credit && (pricing.pricingModel === 'per_lead' || (pricing.pricingModel === 'subscription' && !hasSubscriptionLeadsLeft(credit)));
+  if (credit && paysFromBalance && pricing.leadCost !== null) {
+    if (credit.maxLeadCost && pricing.leadCost > Number(credit.maxLeadCost)) return { eligible: false, reason: 'over_max_lead_cost' };
+    if (Number(credit.creditBalance) < pricing.leadCost) return { eligible: false, reason: 'insufficient_credits' };
+  }
+
+  const merit = calculateMeritScore(toRankable(profile));
+  const area = areaScore(lead, candidate);
+  const response = responseScore(candidate);
+  const reasons = [`merit ${merit}`, area.reason, response.reason];
+
+  // 0–15: explicit interest in this kind of work, and a budget in their range
+  let fit = 5;
+  if (prefs?.acceptedTypes.some((t) => sameSpecialty(t, lead.projectType))) {
+    fit += 6;
+    reasons.push(`asked for ${normalizeSpecialty(lead.projectType)} leads`);
+  }
+  if ((prefs?.minJobValue || prefs?.maxJobValue) && (budgetMin !== null || budgetMax !== null)) fit += 4;
+
+  const score = merit * 0.35 + area.points + response.points + capacityScore(candidate) + fit;
+  return { eligible: true, score: Math.min(100, Math.round(score)), reasons, pricing };
+}
+
+// ============= Routing =============
+
+async function locateLead(lead: ContractorLead): Promise<GeoPoint | null> {
+  if (lead.propertyLatitude !== null && lead.propertyLongitude !== null) {
+    return { lat: lead.propertyLatitude, lng: lead.propertyLongitude };
+  }
+  try {
+    return await geocodeLead(lead);
+  } catch (error) {
+    console.error('Failed to geocode lead, matching by ZIP and state:', error);
+    return null;
+  }
+}
+
+/**
+ * Contractors who could take the lead: public, available, offering the
+ * project type and either serving the property's location or, when they
+ * have no geocoded areas yet, listing its ZIP or state
+ */
+async function findCandidates(lead: ContractorLead, excludeIds: string[], now: Date): Promise<RoutingCandidate[]> {
+  const point = await locateLead(lead);
+  const serving = point ? await findContractorsServing(point) : new Map<string, ContractorProximity>();
+
+  const legacyLocationMatch = [
+    { serviceAreas: { has: lead.propertyZip || '' } },
+    { baseState: lead.propertyState },
+    { serviceAreas: { isEmpty: true }, baseState: lead.propertyState },
+  ];
+
+  const profiles = await prisma.contractorProfile.findMany({
+    where: {
+      id: { notIn: excludeIds },
+      isPublic: true,
+      acceptingNewWork: true,
+      isAvailable: true,
+      specialties: { hasSome: specialtyVariants(lead.projectType) },
+      OR: [
+        { id: { in: [...serving.keys()] } },
+        { coverageAreas: { none: {} }, OR: legacyLocationMatch },
+      ],
+    },
+    include: { leadCredit: true, leadPreferences: true },
+    orderBy: [{ rankScore: 'desc' }, { avgRating: 'desc' }],
+    take: CANDIDATE_POOL_SIZE,
+  });
+  if (profiles.length === 0) return [];
+
+  const history = await prisma.contractorLeadMatch.findMany({
+    where: {
+      contractorId: { in: profiles.map((p) => p.id) },
+      createdAt: { gte: new Date(now.getTime() - HISTORY_DAYS * DAY_MS) },
+    },
+    select: { contractorId: true, status: true, respondedAt: true, createdAt: true },
+  });
+
+  return profiles.map((profile) => {
+    const own = history.filter((m) => m.contractorId === profile.id);
+    const age = (m: { createdAt: Date }) => now.getTime() - m.createdAt.getTime();
+    const answered = (m: { status: string; respondedAt: Date | null }) =>
+      m.respondedAt !== null || ENGAGED_MATCH_STATUSES.includes(m.status);
+    // Leads from the last day may still be picked up; don't count them as missed yet
+    const judged = own.filter((m) => answered(m) || age(m) >= DAY_MS);
+
+    return {
+      profile,
+      proximity: serving.get(profile.id) ?? null,
+      leadsToday: own.filter((m) => age(m) < DAY_MS).length,
+      leadsThisWeek: own.filter((m) => age(m) < 7 * DAY_MS).length,
+      history: { routed: judged.length, answered: judged.filter(answered).length },
+    };
+  });
+}
+
+async function emitLeadMatched(match: { id: string; contractorId: string }, lead: ContractorLead) {
+  try {
+    const { dbTriggers } = await import('@/lib/event-system');
+    await dbTriggers.onContractorLeadMatch(match, lead);
+  } catch (error) {
+    console.error('Failed to emit lead match event:', error);
+  }
+}
+
+/**
+ * Send a lead to the best-scoring contractors not matched to it yet, up to
+ * its maxContractors. Tiers after the first expire the earlier tiers'
+ * matches nobody picked up, so only one tier is ever open at a time.
+ */
+export async function routeLead(leadId: string, tier = 1): Promise<RoutingResult> {
+  const lead = await prisma.contractorLead.findUnique({
+    where: { id: leadId },
+    include: { matches: { select: { contractorId: true } } },
+  });
+  if (!lead) throw new LeadRoutingError(LeadRoutingErrorCodes.NOT_FOUND, 'Lead not found');
+  if (!ROUTABLE_LEAD_STATUSES.includes(lead.status)) {
+    throw new LeadRoutingError(LeadRoutingErrorCodes.INVALID_STATE, `Lead is ${lead.status} and can't be routed`);
+  }
+
+  const now = new Date();
+  const candidates = await findCandidates(lead, lead.matches.map((m) => m.contractorId), now);
+
+  const excluded: Record<string, number> = {};
+  const ranked: Array<{ candidate: RoutingCandidate; score: number; reasons: string[]; pricing: MatchPricing }> = [];
+  for (const candidate of candidates) {
+    const evaluation = evaluateCandidate(lead, candidate, now);
+    if (evaluation.eligible) ranked.push({ candidate, ...evaluation });
+    else excluded[evaluation.reason] = (excluded[evaluation.reason] ?? 0) + 1;
+  }
+  ranked.sort((a, b) => b.score - a.score);
+
+  const matches: RoutedMatch[] = [];
+  for (const { candidate, score, reasons, pricing } of ranked.slice(0, lead.maxContractors)) {
+    const match = await prisma.contractorLeadMatch.create({
+      data: {
+        leadId,
+        contractorId: candidate.profile.id,
+        ...pricing,
+        matchScore: score,
+        matchReason: reasons.join('; '),
+        priority: score,
+        routingTier: tier,
+        status: 'pending',
+      },
+    });
+    matches.push({ matchId: match.id, contractorId: match.contractorId, score });
+    await emitLeadMatched(match, lead);
+  }
+
+  if (matches.length > 0) {
+    if (tier > 1) {
+      await prisma.contractorLeadMatch.updateMany({
+        where: { leadId, routingTier: { lt: tier }, status: { in: OPEN_MATCH_STATUSES } },
+        data: { status: 'expired' },
+      });
+    }
+    await prisma.contractorLead.update({
+      where: { id: leadId },
+      data: { status: 'matching', routingTier: tier, routedAt: now },
+    });
+  }
+
+  return { leadId, tier, matches, excluded };
+}
+
+/**
+ * Match a lead to the one contractor the customer chose. It isn't scored or
+ * escalated, and is priced as an exclusive lead.
+ */
+export async function assignLeadToContractor(leadId: string, contractorId: string) {
+  const [lead, contractor] = await Promise.all([
+    prisma.contractorLead.findUnique({ where: { id: leadId } }),
+    prisma.contractorProfile.findUnique({ where: { id: contractorId }, include: { leadCredit: true } }),
+  ]);
+  if (!lead || !contractor) throw new LeadRoutingError(LeadRoutingErrorCodes.NOT_FOUND, 'Lead or contractor not found');
+
+  const pricing = resolveMatchPricing(contractor.leadCredit ?? null, calculateLeadCost({ ...lead, isExclusive: true }));
+  const match = await prisma.contractorLeadMatch.create({
+    data: {
+      leadId,
+      contractorId,
+      ...pricing,
+      matchScore: 50,
+      matchReason: 'Chosen by the customer',
+      priority: 50,
+      status: 'pending',
+    },
+  });
+  await emitLeadMatched(match, lead);
+  return match;
+}
+
+// ============= Escalation =============
+
+export function responseWindowMs(urgency: string): number {
+  return (RESPONSE_WINDOW_HOURS[urgency] ?? RESPONSE_WINDOW_HOURS.normal) * HOUR_MS;
+}
+
+/**
+ * A routed lead moves to the next tier once its window passes with nobody
+ * picking it up, or as soon as every contractor in the current tier has
+ * declined or expired
+ */
+export function isEscalationDue(
+  lead: Pick<ContractorLead, 'urgency' | 'routedAt' | 'routingTier'> & {
+    matches: Array<{ routingTier: number; status: string; respondedAt: Date | null }>;
+  },
+  now = new Date()
+): boolean {
+  if (!lead.routedAt) return false;
+  if (lead.matches.some((m) => m.respondedAt !== null || ENGAGED_MATCH_STATUSES.includes(m.status))) return false;
+  if (now.getTime() - lead.routedAt.getTime() >= responseWindowMs(lead.urgency)) return true;
+  const tierMatches = lead.matches.filter((m) => m.routingTier === lead.routingTier);
+  return tierMatches.length > 0 && tierMatches.every((m) => !OPEN_MATCH_STATUSES.includes(m.status));
+}
+
+/**
+ * Expire leads past their expiry date, then move leads nobody picked up
+ * to their next tier. A lead with nobody left to route to stays with its
+ * current tier until it expires.
+ */
+export async function escalateStaleLeads(now = new Date()) {
+  const expiring = await prisma.contractorLead.findMany({
+    where: { status: { in: ROUTABLE_LEAD_STATUSES }, expiresAt: { lte: now } },
+    select: { id: true },
+    take: ESCALATION_BATCH_SIZE,
+  });
+  if (expiring.length > 0) {
+    const ids = expiring.map((lead) => lead.id);
+    await prisma.contractorLeadMatch.updateMany({
+      where: { leadId: { in: ids }, status: { in: OPEN_MATCH_STATUSES } },
+      data: { status: 'expired' },
+    });
+    await prisma.contractorLead.updateMany({ where: { id: { in: ids } }, data: { status: 'expired' } });
+  }
+
+  const shortestWindow = Math.min(...Object.values(RESPONSE_WINDOW_HOURS)) * HOUR_MS;
+  const leads = await prisma.contractorLead.findMany({
+    where: {
+      status: 'matching',
+      routingTier: { gte: 1, lt: MAX_ROUTING_TIERS },
+      routedAt: { lte: new Date(now.getTime() - shortestWindow) },
+      expiresAt: { gt: now },
+    },
+    include: { matches: { select: { routingTier: true, status: true, respondedAt: true } } },
+    orderBy: { routedAt: 'asc' },
+    take: ESCALATION_BATCH_SIZE,
+  });
+
+  let escalated = 0;
+  let exhausted = 0;
+  let failed = 0;
+  for (const lead of leads) {
+    if (!isEscalationDue(lead, now)) continue;
+    try {
+      const result = await routeLead(lead.id, lead.routingTier + 1);
+      if (result.matches.length > 0) {
+        escalated++;
+      } else {
+        // Nobody left to try: leave the current tier open until the lead expires
+        await prisma.contractorLead.update({ where: { id: lead.id }, data: { routingTier: MAX_ROUTING_TIERS } });
+        exhausted++;
+      }
+    } catch (error) {
+      console.error(`Failed to escalate lead ${lead.id}:`, error);
+      failed++;
+    }
+  }
+
+  return { expired: expiring.length, escalated, exhausted, failed };
+}
+
+// ============= Charges & Refunds =============
+
+/**
+ * Charge a contractor for a lead they accepted or responded to, and move the
+ * match on in the same transaction. Safe to call more than once per match:
+ * only the first call pays. A match that escalation expired, or whose lead
+ * was cancelled or expired, is refused and nothing is charged.
+ */
+export async function chargeLeadMatch(matchId: string, transition?: MatchTransition): Promise<LeadCharge> {
+  return prisma.$transaction(async (tx) => {
+    const match = await tx.contractorLeadMatch.findUnique({
+      where: { id: matchId },
+      include: { lead: { select: { projectTitle: true, projectType: true } } },
+    });
+    if (!match) throw new LeadRoutingError(LeadRoutingErrorCodes.NOT_FOUND, 'Lead match not found');
+    if (match.status === 'refunded') {
+      throw new LeadRoutingError(LeadRoutingErrorCodes.INVALID_STATE, 'This lead was refunded');
+    }
+
+    const live = (statuses: string[]) => ({
+      id: matchId,
+      status: { in: statuses },
+      lead: { status: { notIn: CLOSED_LEAD_STATUSES } },
+    });
+    const alreadyCharged = async (): Promise<LeadCharge> => {
+      if (transition) {
+        const moved = await tx.contractorLeadMatch.updateMany({ where: live(transition.from), data: transition.data });
+        if (moved.count === 0) throw unavailable();
+        await moveLead(tx, match.leadId, transition);
+      }
+      return { pricingModel: match.pricingModel, amount: Number(match.chargedAmount ?? 0), alreadyCharged: true };
+    };
+    if (match.chargedAt) return alreadyCharged();
+
+    // Claim the charge first so a concurrent accept and respond can't both
+    // pay, and only while the match is open and its lead still live
+    const claimed = await tx.contractorLeadMatch.updateMany({
+      where: { ...live(OPEN_MATCH_STATUSES), chargedAt: null },
+      data: { ...transition?.data, chargedAt: new Date(), chargedAmount: 0 },
+    });
+    if (claimed.count === 0) {
+      const current = await tx.contractorLeadMatch.findUnique({ where: { id: matchId }, select: { chargedAt: true } });
+      if (current?.chargedAt) return alreadyCharged();
+      throw unavailable();
+    }
+    if (transition) await moveLead(tx, match.leadId, transition);
+
+    const free = { pricingModel: match.pricingModel, amount: 0, alreadyCharged: false };
+    const cost = Number(match.leadCost ?? 0);
+    if (match.pricingModel !== 'per_lead' && match.pricingModel !== 'subscription') return free;
+
+    const account = await tx.contractorLeadCredit.findUnique({ where: { contractorId: match.contractorId } });
+    if (!account) return free;
+    const label = match.lead.projectTitle || match.lead.projectType;
+
+    if (match.pricingModel === 'subscription' && hasSubscriptionLeadsLeft(account)) {
+      const updated = await tx.contractorLeadCredit.update({
+        where: { id: account.id },
+        data: { leadsUsedThisMonth: { increment: 1 } },
+      });
+      await tx.contractorCreditTransaction.create({
+        data: {
+          creditAccountId: account.id,
+          type: 'subscription',
+          amount: 0,
+          balanceAfter: updated.creditBalance,
+          description: `Subscription lead ${updated.leadsUsedThisMonth}/${updated.leadsIncluded}: ${label}`,
+          leadMatchId: matchId,
+        },
+      });
+      return free;
+    }
+    if (cost <= 0) return free;
+
+    const debited = await tx.contractorLeadCredit.updateMany({
+      where: { id: account.id, creditBalance: { gte: cost } },
+      data: { creditBalance: { decrement: cost } },
+    });
+    if (debited.count === 0) {
+      throw new LeadRoutingError(
+        LeadRoutingErrorCodes.INSUFFICIENT_CREDITS,
+        `This lead costs $${cost.toFixed(2)}. Add credits to accept it.`
+      );
+    }
+
+    const after = await tx.contractorLeadCredit.findUniqueOrThrow({ where: { id: account.id } });
+    await tx.contractorCreditTransaction.create({
+      data: {
+        creditAccountId: account.id,
+        type: 'lead_charge',
+        amount: -cost,
+        balanceAfter: after.creditBalance,
+        description: `Lead accepted: ${label}`,
+        leadMatchId: matchId,
+      },
+    });
+    await tx.contractorLeadMatch.update({ where: { id: matchId }, data: { chargedAmount: cost } });
+    return { pricingModel: match.pricingModel, amount: cost, alreadyCharged: false };
+  });
+}
+
+function unavailable() {
+  return new LeadRoutingError(LeadRoutingErrorCodes.INVALID_STATE, 'This lead is no longer available');
+}
+
+async function moveLead(tx: TransactionClient, leadId: string, transition: MatchTransition) {
+  if (!transition.leadStatus) return;
+  await tx.contractorLead.updateMany({
+    where: { id: leadId, status: { notIn: CLOSED_LEAD_STATUSES } },
+    data: { status: transition.leadStatus },
+  });
+}
+
+/** Contractor takes an open lead: pay for it and mark it sent */
+export async function acceptLeadMatch(matchId: string): Promise<LeadCharge> {
+  const now = new Date();
+  return chargeLeadMatch(matchId, {
+    from: OPEN_MATCH_STATUSES,
+    data: { status: 'sent', sentAt: now, viewedAt: now },
+  });
+}
+
+/** Contractor answers a lead, paying for it unless accepting it already did */
+export async function respondToLeadMatch(matchId: string, response: LeadResponse): Promise<LeadCharge> {
+  const now = new Date();
+  const quoted = response.quoteAmount !== null;
+  return chargeLeadMatch(matchId, {
+    from: RESPONDABLE_MATCH_STATUSES,
+    data: {
+      status: quoted ? 'quoted' : 'responded',
+      responseMessage: response.message,
+      quoteAmount: response.quoteAmount,
+      estimatedDuration: response.estimatedDuration,
+      respondedAt: now,
+      quotedAt: quoted ? now : null,
+    },
+    leadStatus: 'responded',
+  });
+}
+
+/**
+ * Give back what a match was charged: credits go back on the balance, a
+ * subscription lead goes back into the month's allowance. Returns the
+ * amount credited; matches never charged, or already refunded, return 0
+ * and are left alone.
+ */
+export async function refundLeadMatch(matchId: string, reason: string): Promise<number> {
+  return prisma.$transaction(async (tx) => {
+    const claimed = await tx.contractorLeadMatch.updateMany({
+      where: { id: matchId, chargedAt: { not: null }, refundedAt: null },
+      data: { refundedAt: new Date() },
+    });
+    if (claimed.count === 0) return 0;
+
+    const charges = await tx.contractorCreditTransaction.findMany({
+      where: { leadMatchId: matchId, type: { in: ['lead_charge', 'subscription'] } },
+    });
+
+    let refunded = 0;
+    for (const charge of charges) {
+      const amount = -Number(charge.amount);
+      if (charge.type === 'subscription') {
+        await tx.contractorLeadCredit.updateMany({
+          where: { id: charge.creditAccountId, leadsUsedThisMonth: { gt: 0 } },
+          data: { leadsUsedThisMonth: { decrement: 1 } },
+        });
+      } else {
+        await tx.contractorLeadCredit.update({
+          where: { id: charge.creditAccountId },
+          data: { creditBalance: { increment: amount } },
+        });
+        refunded += amount;
+      }
+      const account = await tx.contractorLeadCredit.findUniqueOrThrow({ where: { id: charge.creditAccountId } });
+      await tx.contractorCreditTransaction.create({
+        data: {
+          creditAccountId: charge.creditAccountId,
+          type: 'refund',
+          amount: charge.type === 'subscription' ? 0 : amount,
+          balanceAfter: account.creditBalance,
+          description: `Refund: ${reason}`,
+          leadMatchId: matchId,
+        },
+      });
+    }
+
+    await tx.contractorLeadMatch.update({
+      where: { id: matchId },
+      data: {
+        status: 'refunded',
+        refundRequested: true,
+        refundApproved: true,
+        refundReason: reason,
+        refundAmount: refunded,
+      },
+    });
+    return refunded;
+  });
+}
+
+/**
+ * Cancel a lead that turned out to be spam, a duplicate or unreachable,
+ * close the matches still open and refund every contractor who paid for it.
+ * The lead is cancelled first so nobody can be charged for it after the
+ * refunds are worked out.
+ */
+export async function invalidateLead(leadId: string, reason: string) {
+  const lead = await prisma.contractorLead.findUnique({ where: { id: leadId }, select: { status: true } });
+  if (!lead) throw new LeadRoutingError(LeadRoutingErrorCodes.NOT_FOUND, 'Lead not found');
+  if (lead.status === 'cancelled') {
+    throw new LeadRoutingError(LeadRoutingErrorCodes.INVALID_STATE, 'Lead is already cancelled');
+  }
+
+  await prisma.contractorLead.update({ where: { id: leadId }, data: { status: 'cancelled' } });
+  await prisma.contractorLeadMatch.updateMany({
+    where: { leadId, status: { in: OPEN_MATCH_STATUSES } },
+    data: { status: 'expired' },
+  });
+
+  const charged = await prisma.contractorLeadMatch.findMany({
+    where: { leadId, chargedAt: { not: null }, refundedAt: null },
+    select: { id: true },
+  });
+  let refundedMatches = 0;
+  let refundedAmount = 0;
+  for (const match of charged) {
+    refundedAmount += await refundLeadMatch(match.id, reason);
+    refundedMatches++;
+  }
+
+  return { refundedMatches, refundedAmount };
+}
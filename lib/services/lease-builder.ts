@@ -4,6 +4,15 @@
  * Auto-populates from property, unit, landlord, and tenant data
  */
 
+import {
+  checkLeaseTerms,
+  getBuiltInJurisdictionRules,
+  getDepositCap,
+  getLateFeeCap,
+  type JurisdictionIssue,
+  type ResolvedJurisdictionRules,
+} from './jurisdiction-rules.service';
+
 export interface LeaseBuilderData {
   // Parties
   landlordLegalName: string;
@@ -102,6 +111,8 @@ export interface LeaseBuilderData {
   
   // State-specific
   state: string; // for state-specific legal requirements
+  city?: string; // for city-level rules (e.g. Chicago RLTO)
+  jurisdiction?: ResolvedJurisdictionRules; // rules the lease was built against
   
   // Signing date
   signingDate: Date;
@@ -132,40 +143,6 @@ export interface LeaseAuditEvent {
   documentHash?: string; // SHA-256 hash of document at this point
 }
 
-// State-specific disclosure requirements
-export const STATE_DISCLOSURES: Record<string, {
-  leadPaint: boolean;
-  mold: boolean;
-  bedBugs: boolean;
-  radon: boolean;
-  asbestos: boolean;
-  floodZone: boolean;
-  sexOffender: boolean;
-  smokingPolicy: boolean;
-  securityDepositLimit?: number; // multiplier of monthly rent
-  depositReturnDays: number;
-  lateFeeLimit?: number; // percentage or flat
-  notes?: string[];
-}> = {
-  // States with strict disclosure requirements
-  CA: { leadPaint: true, mold: true, bedBugs: true, radon: false, asbestos: true, floodZone: true, sexOffender: true, smokingPolicy: true, securityDepositLimit: 2, depositReturnDays: 21, notes: ['Requires specific CA lease addendum', 'Rent control may apply in some cities'] },
-  NY: { leadPaint: true, mold: true, bedBugs: true, radon: false, asbestos: true, floodZone: true, sexOffender: false, smokingPolicy: true, depositReturnDays: 14, notes: ['NYC has additional requirements', 'Rent stabilization may apply'] },
-  TX: { leadPaint: true, mold: false, bedBugs: false, radon: false, asbestos: false, floodZone: true, sexOffender: false, smokingPolicy: false, depositReturnDays: 30 },
-  FL: { leadPaint: true, mold: false, bedBugs: false, radon: true, asbestos: false, floodZone: true, sexOffender: false, smokingPolicy: false, depositReturnDays: 15, lateFeeLimit: 5 },
-  NV: { leadPaint: true, mold: false, bedBugs: false, radon: false, asbestos: false, floodZone: false, sexOffender: false, smokingPolicy: false, depositReturnDays: 30, securityDepositLimit: 3 },
-  AZ: { leadPaint: true, mold: false, bedBugs: true, radon: false, asbestos: false, floodZone: false, sexOffender: false, smokingPolicy: false, depositReturnDays: 14, securityDepositLimit: 1.5 },
-  CO: { leadPaint: true, mold: false, bedBugs: false, radon: true, asbestos: false, floodZone: false, sexOffender: false, smokingPolicy: false, depositReturnDays: 30 },
-  WA: { leadPaint: true, mold: true, bedBugs: false, radon: false, asbestos: false, floodZone: false, sexOffender: true, smokingPolicy: true, depositReturnDays: 21 },
-  OR: { leadPaint: true, mold: true, bedBugs: false, radon: false, asbestos: false, floodZone: true, sexOffender: false, smokingPolicy: true, depositReturnDays: 31 },
-  IL: { leadPaint: true, mold: false, bedBugs: true, radon: true, asbestos: false, floodZone: false, sexOffender: false, smokingPolicy: false, depositReturnDays: 30 },
-  // Default for unlisted states
-  DEFAULT: { leadPaint: true, mold: false, bedBugs: false, radon: false, asbestos: false, floodZone: false, sexOffender: false, smokingPolicy: false, depositReturnDays: 30 },
-};
-
-export function getStateDisclosures(state: string) {
-  return STATE_DISCLOSURES[state.toUpperCase()] || STATE_DISCLOSURES.DEFAULT;
-}
-
 // Legal disclaimer that must appear on all generated leases
 export const LEGAL_DISCLAIMER = `
 IMPORTANT LEGAL NOTICE
@@ -1696,7 +1673,8 @@ export function generateLeaseHtml(data: LeaseBuilderData): string {
  * Generate state-specific disclosure sections
  */
 function generateStateDisclosures(state: string, data: LeaseBuilderData): string {
-  const disclosures = getStateDisclosures(state);
+  const rules = data.jurisdiction ?? getBuiltInJurisdictionRules(state, data.city);
+  const required = new Set(rules.requiredDisclosures);
   const sections: string[] = [];
   
   sections.push('<div class="page-break"></div>');
@@ -1705,7 +1683,7 @@ function generateStateDisclosures(state: string, data: LeaseBuilderData): string
   sections.push('<p>The following disclosures are required by ' + state + ' law:</p>');
   
   // Lead-based paint (federal requirement for pre-1978)
-  if (disclosures.leadPaint || data.leadPaintDisclosure) {
+  if (required.has('lead_paint') || data.leadPaintDisclosure) {
     sections.push(`
     <div class="legal-notice">
       <strong>LEAD-BASED PAINT DISCLOSURE (Required for Pre-1978 Housing)</strong><br/><br/>
@@ -1732,7 +1710,7 @@ function generateStateDisclosures(state: string, data: LeaseBuilderData): string
   }
   
   // Mold disclosure
-  if (disclosures.mold || data.moldDisclosure) {
+  if (required.has('mold') || data.moldDisclosure) {
     sections.push(`
     <div class="legal-notice" style="margin-top: 16pt;">
       <strong>MOLD DISCLOSURE</strong><br/><br/>
@@ -1752,7 +1730,7 @@ function generateStateDisclosures(state: string, data: LeaseBuilderData): string
   }
   
   // Bed bug disclosure
-  if (disclosures.bedBugs || data.bedBugDisclosure) {
+  if (required.has('bed_bugs') || data.bedBugDisclosure) {
     sections.push(`
     <div class="legal-notice" style="margin-top: 16pt;">
       <strong>BED BUG DISCLOSURE</strong><br/><br/>
@@ -1771,7 +1749,7 @@ function generateStateDisclosures(state: string, data: LeaseBuilderData): string
   }
   
   // Radon disclosure
-  if (disclosures.radon || data.radonDisclosure) {
+  if (required.has('radon') || data.radonDisclosure) {
     sections.push(`
     <div class="legal-notice" style="margin-top: 16pt;">
       <strong>RADON DISCLOSURE</strong><br/><br/>
@@ -1788,7 +1766,7 @@ function generateStateDisclosures(state: string, data: LeaseBuilderData): string
   }
   
   // Flood zone disclosure
-  if (disclosures.floodZone || data.floodZoneDisclosure) {
+  if (required.has('flood_zone') || data.floodZoneDisclosure) {
     sections.push(`
     <div class="legal-notice" style="margin-top: 16pt;">
       <strong>FLOOD ZONE DISCLOSURE</strong><br/><br/>
@@ -1803,7 +1781,7 @@ function generateStateDisclosures(state: string, data: LeaseBuilderData): string
   }
   
   // Sex offender registry notice
-  if (disclosures.sexOffender) {
+  if (required.has('sex_offender')) {
     sections.push(`
     <div class="legal-notice" style="margin-top: 16pt;">
       <strong>SEX OFFENDER REGISTRY NOTICE</strong><br/><br/>
@@ -1818,8 +1796,8 @@ function generateStateDisclosures(state: string, data: LeaseBuilderData): string
   }
   
   // State-specific notes
-  if (disclosures.notes && disclosures.notes.length > 0) {
-    const notesList = disclosures.notes.map(note => '<li>' + note + '</li>').join('');
+  if (rules.notes.length > 0) {
+    const notesList = rules.notes.map(note => '<li>' + note + '</li>').join('');
     sections.push(`
     <div class="legal-notice" style="margin-top: 16pt;">
       <strong>ADDITIONAL ${state} REQUIREMENTS</strong><br/><br/>
@@ -1880,8 +1858,13 @@ export function buildLeaseDataFromRecords(params: {
     billingDayOfMonth: number;
   };
   customizations?: Partial<LeaseBuilderData>;
+  /** Rules for the property's location; defaults to the built-in rules */
+  jurisdiction?: ResolvedJurisdictionRules;
 }): LeaseBuilderData {
   const { landlord, property, unit, tenant, leaseTerms, customizations = {} } = params;
+  const state = property.address.state || 'NV';
+  const rules =
+    params.jurisdiction ?? getBuiltInJurisdictionRules(state, property.address.city, leaseTerms.startDate);
   
   const propertyAddress = [
     property.address.street,
@@ -1890,7 +1873,15 @@ export function buildLeaseDataFromRecords(params: {
     property.address.zipCode,
   ].filter(Boolean).join(', ');
 
-  const securityDeposit = unit.rentAmount * landlord.securityDepositMonths;
+  // Keep the defaults inside the jurisdiction's limits
+  const depositCap = getDepositCap(rules, unit.rentAmount);
+  const securityDeposit = Math.min(
+    unit.rentAmount * landlord.securityDepositMonths,
+    depositCap ?? Infinity
+  );
+  const gracePeriodDays = Math.max(LEASE_DEFAULTS.gracePeriodDays, rules.lateFeeMinGraceDays);
+  const lateFeeCap = getLateFeeCap(rules, unit.rentAmount);
+  const defaultLateFee = (unit.rentAmount * 5) / 100;
   
   return {
     // Parties
@@ -1920,18 +1911,19 @@ export function buildLeaseDataFromRecords(params: {
     // Rent & Payment
     monthlyRent: unit.rentAmount,
     rentDueDay: leaseTerms.billingDayOfMonth,
-    gracePeriodDays: LEASE_DEFAULTS.gracePeriodDays,
+    gracePeriodDays,
     acceptedPaymentMethods: LEASE_DEFAULTS.acceptedPaymentMethods,
     allowPartialPayments: false,
     
     // Late Fees
     lateFeePercent: 5,
-    lateFeeStartDay: LEASE_DEFAULTS.lateFeeStartDay,
+    lateFeeStartDay: Math.max(LEASE_DEFAULTS.lateFeeStartDay, gracePeriodDays + 1),
+    maxLateFee: lateFeeCap !== null && lateFeeCap < defaultLateFee ? lateFeeCap : undefined,
     
     // Security Deposit
     securityDepositAmount: securityDeposit,
     depositUseCases: LEASE_DEFAULTS.depositUseCases,
-    depositReturnDays: LEASE_DEFAULTS.depositReturnDays,
+    depositReturnDays: Math.min(LEASE_DEFAULTS.depositReturnDays, rules.depositReturnDays),
     depositNotLastMonthRent: true,
     
     // Utilities
@@ -1947,7 +1939,7 @@ export function buildLeaseDataFromRecords(params: {
     smokingAllowed: false,
     
     // Entry & Access
-    entryNoticeDays: LEASE_DEFAULTS.entryNoticeDays,
+    entryNoticeDays: Math.max(LEASE_DEFAULTS.entryNoticeDays, rules.entryNoticeHours),
     entryReasons: LEASE_DEFAULTS.entryReasons,
     
     // Insurance
@@ -1958,7 +1950,9 @@ export function buildLeaseDataFromRecords(params: {
     moveOutCleaningRequirements: LEASE_DEFAULTS.moveOutCleaningRequirements,
     
     // State
-    state: property.address.state || 'NV',
+    state,
+    city: property.address.city || undefined,
+    jurisdiction: rules,
     
     // Signing date
     signingDate: new Date(),
@@ -1967,3 +1961,24 @@ export function buildLeaseDataFromRecords(params: {
     ...customizations,
   };
 }
+
+/**
+ * Terms in the lease that conflict with the jurisdiction's rules. Customized
+ * leases can override the compliant defaults, so check before generating.
+ */
+export function getLeaseComplianceIssues(data: LeaseBuilderData): JurisdictionIssue[] {
+  const rules = data.jurisdiction ?? getBuiltInJurisdictionRules(data.state, data.city);
+  return checkLeaseTerms(
+    {
+      monthlyRent: data.monthlyRent,
+      securityDepositAmount: data.securityDepositAmount,
+      depositReturnDays: data.depositReturnDays,
+      gracePeriodDays: data.gracePeriodDays,
+      lateFeeAmount: data.lateFeeAmount,
+      lateFeePercent: data.lateFeePercent,
+      maxLateFee: data.maxLateFee,
+      entryNoticeHours: data.entryNoticeDays,
+    },
+    rules
+  );
+}
@@ -0,0 +1,994 @@
+/**
+ * Lease Renewal Service
+ * Runs the renewal pipeline for expiring leases:
+ * 1. Drafts a renewal offer N days before the lease ends (Landlord.renewalLeadDays)
+ *    with several term/rent options
+ * 2. Checks the state's rent-increase notice period before the offer is sent
+ * 3. Lets the tenant accept an option, decline, or counter with their own terms
+ * 4. On acceptance, generates the new lease with the lease builder and sends
+ *    it for e-signature
+ * 5. When the landlord countersigns, rolls recurring charges forward onto
+ *    the new lease and completes the renewal
+ */
+
+import { prisma } from '@/db/prisma';
+import type { Prisma } from '@prisma/client';
+import { addDays, addMonths, differenceInCalendarMonths, getDaysInMonth, subDays } from 'date-fns';
+import crypto from 'crypto';
+import { generateLeaseHtml, buildLeaseDataFromRecords } from './lease-builder';
+import {
+  formatJurisdiction,
+  getJurisdictionRules,
+  getPropertyLocation,
+  type ResolvedJurisdictionRules,
+} from './jurisdiction-rules.service';
+import { generateSignatureFields } from './application-approval.service';
+import { htmlToPdfBuffer } from './pdf';
+import { uploadToCloudinary } from '@/lib/cloudinary';
+import { sendBrandedEmail } from './email-service';
+import { NotificationService } from './notification-service';
+
+// Error codes for the renewal workflow
+export const RenewalErrorCodes = {
+  LEASE_NOT_FOUND: 'LEASE_NOT_FOUND',
+  RENEWAL_NOT_FOUND: 'RENEWAL_NOT_FOUND',
+  LEASE_NOT_RENEWABLE: 'LEASE_NOT_RENEWABLE',
+  RENEWAL_ALREADY_OPEN: 'RENEWAL_ALREADY_OPEN',
+  INVALID_STATUS: 'INVALID_STATUS',
+  INVALID_OPTIONS: 'INVALID_OPTIONS',
+  NOTICE_PERIOD: 'NOTICE_PERIOD',
+  LEASE_GENERATION_FAILED: 'LEASE_GENERATION_FAILED',
+} as const;
+
+export type RenewalErrorCode = typeof RenewalErrorCodes[keyof typeof RenewalErrorCodes];
+
+export class RenewalError extends Error {
+  code: RenewalErrorCode;
+
+  constructor(code: RenewalErrorCode, message: string) {
+    super(message);
+    this.code = code;
+    this.name = 'RenewalError';
+  }
+}
+
+/** HTTP status for a renewal error code */
+export function getRenewalErrorStatus(code: RenewalErrorCode): number {
+  switch (code) {
+    case RenewalErrorCodes.LEASE_NOT_FOUND:
+    case RenewalErrorCodes.RENEWAL_NOT_FOUND:
+      return 404;
+    case RenewalErrorCodes.RENEWAL_ALREADY_OPEN:
+    case RenewalErrorCodes.INVALID_STATUS:
+      return 409;
+    case RenewalErrorCodes.LEASE_GENERATION_FAILED:
+      return 500;
+    default:
+      return 400;
+  }
+}
+
+// ============= Types =============
+
+export type RenewalStatus =
+  | 'draft'
+  | 'offered'
+  | 'countered'
+  | 'accepted'
+  | 'declined'
+  | 'expired'
+  | 'withdrawn'
+  | 'completed';
+
+export type RenewalAction =
+  | 'send'
+  | 'revise'
+  | 'withdraw'
+  | 'accept'
+  | 'decline'
+  | 'counter'
+  | 'accept_counter'
+  | 'expire'
+  | 'complete';
+
+export interface RenewalOption {
+  id: string;
+  label: string;
+  /** 0 = month-to-month */
+  termMonths: number;
+  rentAmount: number;
+}
+
+export interface RenewalNoticeCheck {
+  noticeDays: number;
+  increasePercent: number;
+  /** Last day the offer can go out and still give the required notice */
+  deadline: Date;
+  ok: boolean;
+}
+
+/** Statuses that block drafting another renewal for the same lease */
+export const OPEN_RENEWAL_STATUSES: RenewalStatus[] = ['draft', 'offered', 'countered', 'accepted'];
+
+const DEFAULT_OFFER_DAYS = 14;
+
+/** Premium over the 12-month rent for shorter commitments, in percentage points */
+const SHORT_TERM_PREMIUMS: { termMonths: number; label: string; premium: number }[] = [
+  { termMonths: 12, label: '12-month renewal', premium: 0 },
+  { termMonths: 6, label: '6-month renewal', premium: 2 },
+  { termMonths: 0, label: 'Month-to-month', premium: 5 },
+];
+
+const TRANSITIONS: Record<RenewalStatus, Partial<Record<RenewalAction, RenewalStatus>>> = {
+  draft: { send: 'offered', revise: 'draft', withdraw: 'withdrawn' },
+  offered: {
+    revise: 'offered',
+    withdraw: 'withdrawn',
+    accept: 'accepted',
+    decline: 'declined',
+    counter: 'countered',
+    expire: 'expired',
+  },
+  countered: {
+    revise: 'offered',
+    withdraw: 'withdrawn',
+    accept: 'accepted',
+    decline: 'declined',
+    accept_counter: 'accepted',
+    expire: 'expired',
+  },
+  // Withdrawing an accepted renewal is only allowed before its lease exists
+  accepted: { complete: 'completed', withdraw: 'withdrawn' },
+  declined: {},
+  expired: {},
+  withdrawn: {},
+  completed: {},
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// ============= Pure Helpers =============
+
+/** Status after applying an action, or null if the action isn't allowed */
+export function nextRenewalStatus(status: string, action: RenewalAction): RenewalStatus | null {
+  return TRANSITIONS[status as RenewalStatus]?.[action] ?? null;
+}
+
+/** Default 12-month / 6-month / month-to-month options */
+export function buildDefaultRenewalOptions(currentRent: number, increasePercent: number): RenewalOption[] {
+  return SHORT_TERM_PREMIUMS.map(({ termMonths, label, premium }) => ({
+    id: termMonths === 0 ? 'mtm' : `${termMonths}m`,
+    label,
+    termMonths,
+    rentAmount: round2(currentRent * (1 + (increasePercent + premium) / 100)),
+  }));
+}
+
+/** Validate landlord-supplied options */
+export function normalizeRenewalOptions(input: unknown): { options: RenewalOption[] } | { error: string } {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { error: 'At least one renewal option is required' };
+  }
+
+  const options: RenewalOption[] = [];
+  for (const [index, raw] of input.entries()) {
+    const termMonths = Number(raw?.termMonths);
+    const rentAmount = Number(raw?.rentAmount);
+    if (!Number.isInteger(termMonths) || termMonths < 0 || termMonths > 60) {
+      return { error: 'Invalid termMonths' };
+    }
+    if (!Number.isFinite(rentAmount) || rentAmount <= 0) {
+      return { error: 'Invalid rentAmount' };
+    }
+    const id = typeof raw?.id === 'string' && raw.id.trim() ? raw.id.trim() : `option-${index + 1}`;
+    if (options.some((option) => option.id === id)) {
+      return { error: 'Duplicate option id' };
+    }
+    options.push({
+      id,
+      label:
+        typeof raw?.label === 'string' && raw.label.trim()
+          ? raw.label.trim()
+          : termMonths === 0
+            ? 'Month-to-month'
+            : `${termMonths}-month renewal`,
+      termMonths,
+      rentAmount: round2(rentAmount),
+    });
+  }
+
+  return { options };
+}
+
+/**
+ * Notice the state requires before the renewal rent takes effect on the day
+ * after the current lease ends. Offers without an increase need no notice.
+ */
+export function checkRenewalNotice(params: {
+  rules: Pick<ResolvedJurisdictionRules, 'rentIncreaseNoticeDays' | 'rentIncreaseNoticeTiers'>;
+  currentRent: number;
+  newRent: number;
+  tenancyStart: Date;
+  currentEndDate: Date;
+  sendDate: Date;
+}): RenewalNoticeCheck {
+  const effectiveDate = addDays(params.currentEndDate, 1);
+  const increasePercent =
+    params.currentRent > 0 ? round2(((params.newRent - params.currentRent) / params.currentRent) * 100) : 0;
+
+  let noticeDays = 0;
+  if (increasePercent > 0) {
+    const { rules } = params;
+    const tenancyMonths = differenceInCalendarMonths(effectiveDate, params.tenancyStart);
+    noticeDays = rules.rentIncreaseNoticeDays;
+    for (const tier of rules.rentIncreaseNoticeTiers) {
+      if (tier.minIncreasePercent !== undefined && increasePercent <= tier.minIncreasePercent) continue;
+      if (tier.minTenancyMonths !== undefined && tenancyMonths < tier.minTenancyMonths) continue;
+      noticeDays = Math.max(noticeDays, tier.noticeDays);
+    }
+  }
+
+  const deadline = subDays(effectiveDate, noticeDays);
+  return { noticeDays, increasePercent, deadline, ok: params.sendDate <= deadline };
+}
+
+/** Notice check against the highest rent among the options */
+export function checkRenewalOptionsNotice(
+  options: RenewalOption[],
+  params: Omit<Parameters<typeof checkRenewalNotice>[0], 'newRent'>
+): RenewalNoticeCheck {
+  const newRent = Math.max(...options.map((option) => option.rentAmount));
+  return checkRenewalNotice({ ...params, newRent });
+}
+
+/** Dates of the renewed lease: starts the day after the current lease ends */
+export function getRenewalTerm(currentEndDate: Date, termMonths: number): { startDate: Date; endDate: Date | null } {
+  const startDate = addDays(currentEndDate, 1);
+  return {
+    startDate,
+    endDate: termMonths > 0 ? subDays(addMonths(startDate, termMonths), 1) : null,
+  };
+}
+
+/**
+ * First posting date on or after `from` for a charge posted on `dayOfMonth`;
+ * in short months the charge posts on the last day of the month
+ */
+export function getFirstPostDate(from: Date, dayOfMonth: number): Date {
+  const postDayIn = (month: Date) =>
+    new Date(month.getFullYear(), month.getMonth(), Math.min(dayOfMonth, getDaysInMonth(month)));
+
+  const thisMonth = new Date(from.getFullYear(), from.getMonth(), 1);
+  const postDate = postDayIn(thisMonth);
+  return postDate < new Date(from.getFullYear(), from.getMonth(), from.getDate())
+    ? postDayIn(addMonths(thisMonth, 1))
+    : postDate;
+}
+
+export function parseRenewalOptions(value: Prisma.JsonValue): RenewalOption[] {
+  return Array.isArray(value) ? (value as unknown as RenewalOption[]) : [];
+}
+
+// ============= Loading =============
+
+const renewalLeaseInclude = {
+  tenant: { select: { id: true, name: true, email: true } },
+  unit: {
+    include: {
+      property: {
+        include: {
+          landlord: {
+            select: {
+              id: true,
+              name: true,
+              companyName: true,
+              companyAddress: true,
+              companyEmail: true,
+              companyPhone: true,
+              securityDepositMonths: true,
+              petDepositEnabled: true,
+              petDepositAmount: true,
+              petRentEnabled: true,
+              petRentAmount: true,
+              cleaningFeeEnabled: true,
+              cleaningFeeAmount: true,
+              ownerUserId: true,
+              renewalLeadDays: true,
+              renewalIncreasePercent: true,
+            },
+          },
+        },
+      },
+    },
+  },
+} satisfies Prisma.LeaseInclude;
+
+/** Lease with everything renewal needs; null when missing or not tied to a landlord */
+async function loadLease(leaseId: string) {
+  const lease = await prisma.lease.findUnique({ where: { id: leaseId }, include: renewalLeaseInclude });
+  const landlord = lease?.unit.property.landlord;
+  if (!lease || !landlord) return null;
+  return { ...lease, unit: { ...lease.unit, property: { ...lease.unit.property, landlord } } };
+}
+
+type RenewalLease = NonNullable<Awaited<ReturnType<typeof loadLease>>>;
+
+function leaseJurisdiction(lease: RenewalLease): Promise<ResolvedJurisdictionRules> {
+  return getJurisdictionRules(getPropertyLocation(lease.unit.property.address));
+}
+
+function propertyLabel(lease: RenewalLease): string {
+  return `${lease.unit.property.name} - ${lease.unit.name}`;
+}
+
+async function loadRenewal(renewalId: string) {
+  const renewal = await prisma.leaseRenewal.findUnique({ where: { id: renewalId } });
+  if (!renewal) {
+    throw new RenewalError(RenewalErrorCodes.RENEWAL_NOT_FOUND, 'Renewal not found');
+  }
+  return renewal;
+}
+
+/** Accepted, but generating the renewal lease failed and can be retried */
+function isAwaitingLease(renewal: { status: string; newLeaseId: string | null }): boolean {
+  return renewal.status === 'accepted' && !renewal.newLeaseId;
+}
+
+function requireTransition(status: string, action: RenewalAction): RenewalStatus {
+  const next = nextRenewalStatus(status, action);
+  if (!next) {
+    throw new RenewalError(
+      RenewalErrorCodes.INVALID_STATUS,
+      `Cannot ${action.replace('_', ' ')} a ${status} renewal`
+    );
+  }
+  return next;
+}
+
+// ============= Workflow =============
+
+/**
+ * Draft a renewal offer for an active fixed-term lease. Options default to
+ * the landlord's renewal increase.
+ */
+export async function createRenewalOffer(input: {
+  leaseId: string;
+  landlordId: string;
+  options?: RenewalOption[];
+  now?: Date;
+}) {
+  const lease = await loadLease(input.leaseId);
+  if (!lease || lease.unit.property.landlordId !== input.landlordId) {
+    throw new RenewalError(RenewalErrorCodes.LEASE_NOT_FOUND, 'Lease not found');
+  }
+  if (lease.status !== 'active' || !lease.endDate) {
+    throw new RenewalError(
+      RenewalErrorCodes.LEASE_NOT_RENEWABLE,
+      'Only active fixed-term leases can be renewed'
+    );
+  }
+
+  const open = await prisma.leaseRenewal.findFirst({
+    where: { leaseId: lease.id, status: { in: OPEN_RENEWAL_STATUSES } },
+    select: { id: true },
+  });
+  if (open) {
+    throw new RenewalError(RenewalErrorCodes.RENEWAL_ALREADY_OPEN, 'This lease already has an open renewal');
+  }
+
+  const currentRent = Number(lease.rentAmount);
+  const landlord = lease.unit.property.landlord;
+  const options =
+    input.options ?? buildDefaultRenewalOptions(currentRent, Number(landlord.renewalIncreasePercent));
+  const rules = await leaseJurisdiction(lease);
+  const notice = checkRenewalOptionsNotice(options, {
+    rules,
+    currentRent,
+    tenancyStart: lease.startDate,
+    currentEndDate: lease.endDate,
+    sendDate: input.now ?? new Date(),
+  });
+
+  return prisma.leaseRenewal.create({
+    data: {
+      landlordId: input.landlordId,
+      leaseId: lease.id,
+      currentRent,
+      currentEndDate: lease.endDate,
+      options: options as unknown as Prisma.InputJsonValue,
+      state: rules.state === 'DEFAULT' ? null : rules.state,
+      noticeDaysRequired: notice.noticeDays,
+      noticeDeadline: notice.deadline,
+    },
+  });
+}
+
+/** Replace the options on a draft/offered/countered renewal */
+export async function reviseRenewalOffer(renewalId: string, landlordId: string, options: RenewalOption[]) {
+  const renewal = await loadRenewal(renewalId);
+  if (renewal.landlordId !== landlordId) {
+    throw new RenewalError(RenewalErrorCodes.RENEWAL_NOT_FOUND, 'Renewal not found');
+  }
+  const status = requireTransition(renewal.status, 'revise');
+  const lease = await loadLease(renewal.leaseId);
+  if (!lease) {
+    throw new RenewalError(RenewalErrorCodes.LEASE_NOT_FOUND, 'Lease not found');
+  }
+
+  const rules = await leaseJurisdiction(lease);
+  const notice = checkRenewalOptionsNotice(options, {
+    rules,
+    currentRent: Number(renewal.currentRent),
+    tenancyStart: lease.startDate,
+    currentEndDate: renewal.currentEndDate,
+    sendDate: new Date(),
+  });
+  // A revised offer that's already out counts as a new notice
+  if (status === 'offered' && !notice.ok) {
+    throw new RenewalError(RenewalErrorCodes.NOTICE_PERIOD, noticeMessage(rules, notice));
+  }
+
+  const updated = await prisma.leaseRenewal.update({
+    where: { id: renewal.id },
+    data: {
+      status,
+      options: options as unknown as Prisma.InputJsonValue,
+      noticeDaysRequired: notice.noticeDays,
+      noticeDeadline: notice.deadline,
+      counterTermMonths: null,
+      counterRent: null,
+      ...(status === 'offered' ? { offeredAt: new Date() } : {}),
+    },
+  });
+
+  if (status === 'offered') {
+    await notifyTenantOfOffer(lease, updated.id, 'Your renewal offer has been updated');
+  }
+  return updated;
+}
+
+function noticeMessage(rules: ResolvedJurisdictionRules, notice: RenewalNoticeCheck): string {
+  const where = rules.state === 'DEFAULT' ? 'This state' : formatJurisdiction(rules);
+  return (
+    `${where} requires ${notice.noticeDays} days' notice for a ${notice.increasePercent}% ` +
+    `rent increase; the offer needed to go out by ${notice.deadline.toLocaleDateString('en-US')}`
+  );
+}
+
+/** Send a draft offer to the tenant after checking the notice period */
+export async function sendRenewalOffer(
+  renewalId: string,
+  landlordId: string,
+  options: { offerExpiresAt?: Date; now?: Date } = {}
+) {
+  const renewal = await loadRenewal(renewalId);
+  if (renewal.landlordId !== landlordId) {
+    throw new RenewalError(RenewalErrorCodes.RENEWAL_NOT_FOUND, 'Renewal not found');
+  }
+  const status = requireTransition(renewal.status, 'send');
+  const lease = await loadLease(renewal.leaseId);
+  if (!lease) {
+    throw new RenewalError(RenewalErrorCodes.LEASE_NOT_FOUND, 'Lease not found');
+  }
+
+  const now = options.now ?? new Date();
+  const rules = await leaseJurisdiction(lease);
+  const notice = checkRenewalOptionsNotice(parseRenewalOptions(renewal.options), {
+    rules,
+    currentRent: Number(renewal.currentRent),
+    tenancyStart: lease.startDate,
+    currentEndDate: renewal.currentEndDate,
+    sendDate: now,
+  });
+  if (!notice.ok) {
+    throw new RenewalError(RenewalErrorCodes.NOTICE_PERIOD, noticeMessage(rules, notice));
+  }
+
+  // Offers stay open for two weeks, but never past the end of the current lease
+  const defaultExpiry = addDays(now, DEFAULT_OFFER_DAYS);
+  const offerExpiresAt =
+    options.offerExpiresAt ?? (defaultExpiry < renewal.currentEndDate ? defaultExpiry : renewal.currentEndDate);
+
+  const updated = await prisma.leaseRenewal.update({
+    where: { id: renewal.id },
+    data: { status, offeredAt: now, offerExpiresAt },
+  });
+
+  await notifyTenantOfOffer(lease, updated.id, 'Your lease renewal offer is ready');
+  return updated;
+}
+
+async function notifyTenantOfOffer(lease: RenewalLease, renewalId: string, title: string) {
+  const landlord = lease.unit.property.landlord;
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+  const actionUrl = `${baseUrl}/user/profile/lease?renewal=${renewalId}`;
+  const message =
+    `Your lease at ${propertyLabel(lease)} ends on ${lease.endDate?.toLocaleDateString('en-US')}. ` +
+    'Review your renewal options and let us know your decision.';
+
+  try {
+    await NotificationService.createNotification({
+      userId: lease.tenant.id,
+      type: 'lease',
+      title,
+      message,
+      actionUrl: '/user/profile/lease',
+      metadata: { leaseId: lease.id, renewalId },
+      landlordId: landlord.id,
+    });
+  } catch (error) {
+    console.error('Failed to create renewal notification:', error);
+  }
+
+  if (lease.tenant.email) {
+    try {
+      await sendBrandedEmail({
+        to: lease.tenant.email,
+        subject: title,
+        template: 'notification',
+        data: {
+          landlord,
+          recipientName: lease.tenant.name,
+          notificationType: 'lease_renewal',
+          title,
+          message,
+          actionUrl,
+          loginUrl: actionUrl,
+        },
+        landlordId: landlord.id,
+      });
+    } catch (error) {
+      console.error('Failed to send renewal offer email:', error);
+    }
+  }
+}
+
+async function notifyLandlord(lease: RenewalLease, renewalId: string, title: string, message: string) {
+  const landlord = lease.unit.property.landlord;
+  if (!landlord.ownerUserId) return;
+  try {
+    await NotificationService.createNotification({
+      userId: landlord.ownerUserId,
+      type: 'lease',
+      title,
+      message,
+      actionUrl: `/admin/leases/${lease.id}`,
+      metadata: { leaseId: lease.id, renewalId },
+      landlordId: landlord.id,
+    });
+  } catch (error) {
+    console.error('Failed to notify landlord about renewal:', error);
+  }
+}
+
+/** Tenant accepts an option, declines, or counters */
+export async function respondToRenewal(input: {
+  renewalId: string;
+  tenantId: string;
+  action: 'accept' | 'decline' | 'counter';
+  optionId?: string;
+  termMonths?: number;
+  rentAmount?: number;
+  message?: string;
+}) {
+  const renewal = await loadRenewal(input.renewalId);
+  const lease = await loadLease(renewal.leaseId);
+  if (!lease || lease.tenantId !== input.tenantId) {
+    throw new RenewalError(RenewalErrorCodes.RENEWAL_NOT_FOUND, 'Renewal not found');
+  }
+  // Accepted before, but the lease failed to generate: accepting again retries it
+  if (input.action === 'accept' && isAwaitingLease(renewal) && renewal.selectedOptionId === input.optionId) {
+    return generateRenewalLease(renewal.id);
+  }
+  const status = requireTransition(renewal.status, input.action);
+  if (renewal.offerExpiresAt && renewal.offerExpiresAt < new Date()) {
+    throw new RenewalError(RenewalErrorCodes.INVALID_STATUS, 'This renewal offer has expired');
+  }
+  const tenantMessage = input.message?.trim() || null;
+
+  if (input.action === 'decline') {
+    const updated = await prisma.leaseRenewal.update({
+      where: { id: renewal.id },
+      data: { status, respondedAt: new Date(), tenantMessage },
+    });
+    await notifyLandlord(
+      lease,
+      renewal.id,
+      'Renewal Declined',
+      `${lease.tenant.name} declined the renewal offer for ${propertyLabel(lease)}.`
+    );
+    return { renewal: updated };
+  }
+
+  if (input.action === 'counter') {
+    const normalized = normalizeRenewalOptions([{ termMonths: input.termMonths, rentAmount: input.rentAmount }]);
+    if ('error' in normalized) {
+      throw new RenewalError(RenewalErrorCodes.INVALID_OPTIONS, normalized.error);
+    }
+    const [counter] = normalized.options;
+    const updated = await prisma.leaseRenewal.update({
+      where: { id: renewal.id },
+      data: {
+        status,
+        respondedAt: new Date(),
+        counterTermMonths: counter.termMonths,
+        counterRent: counter.rentAmount,
+        tenantMessage,
+      },
+    });
+    await notifyLandlord(
+      lease,
+      renewal.id,
+      'Renewal Counter-Offer',
+      `${lease.tenant.name} proposed ${counter.label.toLowerCase()} at ` +
+        `$${counter.rentAmount.toLocaleString()} for ${propertyLabel(lease)}.`
+    );
+    return { renewal: updated };
+  }
+
+  const option = parseRenewalOptions(renewal.options).find((o) => o.id === input.optionId);
+  if (!option) {
+    throw new RenewalError(RenewalErrorCodes.INVALID_OPTIONS, 'Renewal option not found');
+  }
+
+  const accepted = await prisma.leaseRenewal.update({
+    where: { id: renewal.id },
+    data: {
+      status,
+      respondedAt: new Date(),
+      selectedOptionId: option.id,
+      acceptedTermMonths: option.termMonths,
+      acceptedRent: option.rentAmount,
+      tenantMessage,
+    },
+  });
+  return generateRenewalLease(accepted.id);
+}
+
+/** Landlord accepts the tenant's counter-offer */
+export async function acceptRenewalCounter(renewalId: string, landlordId: string) {
+  const renewal = await loadRenewal(renewalId);
+  if (renewal.landlordId !== landlordId) {
+    throw new RenewalError(RenewalErrorCodes.RENEWAL_NOT_FOUND, 'Renewal not found');
+  }
+  if (isAwaitingLease(renewal) && renewal.selectedOptionId === 'counter') {
+    return generateRenewalLease(renewal.id);
+  }
+  const status = requireTransition(renewal.status, 'accept_counter');
+  if (renewal.counterTermMonths === null || renewal.counterRent === null) {
+    throw new RenewalError(RenewalErrorCodes.INVALID_STATUS, 'There is no counter-offer to accept');
+  }
+
+  await prisma.leaseRenewal.update({
+    where: { id: renewal.id },
+    data: {
+      status,
+      selectedOptionId: 'counter',
+      acceptedTermMonths: renewal.counterTermMonths,
+      acceptedRent: renewal.counterRent,
+    },
+  });
+  return generateRenewalLease(renewal.id);
+}
+
+export async function withdrawRenewal(renewalId: string, landlordId: string) {
+  const renewal = await loadRenewal(renewalId);
+  if (renewal.landlordId !== landlordId) {
+    throw new RenewalError(RenewalErrorCodes.RENEWAL_NOT_FOUND, 'Renewal not found');
+  }
+  const status = requireTransition(renewal.status, 'withdraw');
+  if (renewal.newLeaseId) {
+    throw new RenewalError(RenewalErrorCodes.INVALID_STATUS, 'The renewal lease has already been sent for signature');
+  }
+  return prisma.leaseRenewal.update({ where: { id: renewal.id }, data: { status } });
+}
+
+/**
+ * Build the renewed lease from the accepted terms and send it to the tenant
+ * for signature, mirroring the application approval flow.
+ */
+export async function generateRenewalLease(renewalId: string) {
+  const renewal = await loadRenewal(renewalId);
+  if (renewal.status !== 'accepted' || renewal.acceptedTermMonths === null || renewal.acceptedRent === null) {
+    throw new RenewalError(RenewalErrorCodes.INVALID_STATUS, 'Renewal has not been accepted');
+  }
+  if (renewal.newLeaseId) {
+    return { renewal, leaseId: renewal.newLeaseId, signingUrl: null };
+  }
+
+  const lease = await loadLease(renewal.leaseId);
+  if (!lease) {
+    throw new RenewalError(RenewalErrorCodes.LEASE_NOT_FOUND, 'Lease not found');
+  }
+
+  const { property } = lease.unit;
+  const landlord = property.landlord;
+  const rentAmount = Number(renewal.acceptedRent);
+  const term = getRenewalTerm(renewal.currentEndDate, renewal.acceptedTermMonths);
+  const address = property.address as { street?: string; city?: string; state?: string; zipCode?: string } | null;
+
+  const leaseData = buildLeaseDataFromRecords({
+    landlord: {
+      name: landlord.name,
+      companyName: landlord.companyName,
+      companyAddress: landlord.companyAddress,
+      companyEmail: landlord.companyEmail,
+      companyPhone: landlord.companyPhone,
+      securityDepositMonths: Number(landlord.securityDepositMonths) || 1,
+      petDepositEnabled: landlord.petDepositEnabled,
+      petDepositAmount: landlord.petDepositAmount ? Number(landlord.petDepositAmount) : null,
+      petRentEnabled: landlord.petRentEnabled,
+      petRentAmount: landlord.petRentAmount ? Number(landlord.petRentAmount) : null,
+      cleaningFeeEnabled: landlord.cleaningFeeEnabled,
+      cleaningFeeAmount: landlord.cleaningFeeAmount ? Number(landlord.cleaningFeeAmount) : null,
+    },
+    property: {
+      name: property.name,
+      address: {
+        street: address?.street || '',
+        city: address?.city || '',
+        state: address?.state || '',
+        zipCode: address?.zipCode || '',
+      },
+      amenities: property.amenities || [],
+    },
+    unit: { name: lease.unit.name, type: lease.unit.type, rentAmount },
+    tenant: { name: lease.tenant.name, email: lease.tenant.email },
+    leaseTerms: {
+      startDate: term.startDate,
+      endDate: term.endDate,
+      isMonthToMonth: term.endDate === null,
+      billingDayOfMonth: lease.billingDayOfMonth,
+    },
+    jurisdiction: await getJurisdictionRules(getPropertyLocation(property.address), term.startDate),
+    customizations: {
+      additionalTerms: [
+        `This lease renews the tenancy that began on ${lease.startDate.toLocaleDateString('en-US')}. ` +
+          'The security deposit held under the prior lease carries over to this lease.',
+      ],
+    },
+  });
+
+  const html = generateLeaseHtml(leaseData);
+  const publicId = `lease-renewal-${property.slug}-${lease.unit.name.replace(/\s+/g, '-')}-${Date.now()}`;
+
+  let fileUrl: string;
+  let fileType: string;
+  let fileSize: number;
+  try {
+    try {
+      const pdfBuffer = await htmlToPdfBuffer(html);
+      const result = await uploadToCloudinary(pdfBuffer, {
+        folder: `leases/${landlord.id}`,
+        resource_type: 'raw',
+        public_id: publicId,
+      });
+      fileUrl = result.secure_url;
+      fileType = 'pdf';
+      fileSize = pdfBuffer.length;
+    } catch (pdfError) {
+      console.warn('Renewal PDF generation failed, falling back to HTML:', pdfError);
+      const htmlBuffer = Buffer.from(html, 'utf-8');
+      const result = await uploadToCloudinary(htmlBuffer, {
+        folder: `leases/${landlord.id}`,
+        resource_type: 'raw',
+        public_id: `${publicId}.html`,
+      });
+      fileUrl = result.secure_url;
+      fileType = 'html';
+      fileSize = htmlBuffer.length;
+    }
+  } catch (error) {
+    console.error('Failed to store renewal lease document:', error);
+    throw new RenewalError(RenewalErrorCodes.LEASE_GENERATION_FAILED, 'Failed to generate the renewal lease');
+  }
+
+  const document = await prisma.legalDocument.create({
+    data: {
+      landlordId: landlord.id,
+      name: `Lease Renewal - ${propertyLabel(lease)}`,
+      type: 'lease',
+      category: 'generated',
+      state: address?.state || null,
+      fileUrl,
+      fileType,
+      fileSize,
+      isTemplate: false,
+      isActive: true,
+      isFieldsConfigured: true,
+      description: `Renewal lease for ${lease.tenant.name} at ${propertyLabel(lease)}`,
+      signatureFields: generateSignatureFields(),
+    },
+  });
+
+  const tenantToken = crypto.randomBytes(24).toString('hex');
+
+  const newLease = await prisma.$transaction(async (tx) => {
+    const created = await tx.lease.create({
+      data: {
+        unitId: lease.unitId,
+        tenantId: lease.tenantId,
+        legalDocumentId: document.id,
+        templateId: lease.templateId,
+        startDate: term.startDate,
+        endDate: term.endDate,
+        rentAmount,
+        billingDayOfMonth: lease.billingDayOfMonth,
+        status: 'pending_signature',
+        generatedFrom: 'renewal',
+        generatedAt: new Date(),
+      },
+    });
+
+    await tx.documentSignatureRequest.create({
+      data: {
+        documentId: document.id,
+        leaseId: created.id,
+        recipientEmail: lease.tenant.email,
+        recipientName: lease.tenant.name,
+        status: 'sent',
+        expiresAt: addDays(new Date(), 30),
+        token: tenantToken,
+        role: 'tenant',
+      },
+    });
+
+    await tx.leaseRenewal.update({
+      where: { id: renewal.id },
+      data: { newLeaseId: created.id },
+    });
+
+    return created;
+  });
+
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+  const signingUrl = `${baseUrl}/sign/${tenantToken}`;
+
+  try {
+    await sendBrandedEmail({
+      to: lease.tenant.email,
+      subject: 'Your Renewal Lease is Ready to Sign',
+      template: 'notification',
+      data: {
+        landlord,
+        recipientName: lease.tenant.name,
+        notificationType: 'lease_signing',
+        title: 'Your Renewal Lease is Ready to Sign',
+        message: `Your renewal for ${propertyLabel(lease)} has been accepted. Please sign the new lease to complete your renewal.`,
+        actionUrl: signingUrl,
+        loginUrl: signingUrl,
+      },
+      landlordId: landlord.id,
+    });
+  } catch (error) {
+    console.error('Failed to send renewal signing email:', error);
+  }
+
+  await notifyLandlord(
+    lease,
+    renewal.id,
+    'Renewal Accepted',
+    `${lease.tenant.name} accepted the renewal for ${propertyLabel(lease)}. The new lease has been sent for signature.`
+  );
+
+  return { renewal: { ...renewal, newLeaseId: newLease.id }, leaseId: newLease.id, signingUrl };
+}
+
+/**
+ * Called when the landlord countersigns a renewal lease: rolls the prior
+ * lease's recurring charges forward and completes the renewal. Returns false
+ * if the lease didn't come from a renewal.
+ */
+export async function completeRenewalOnSigning(leaseId: string): Promise<boolean> {
+  const renewal = await prisma.leaseRenewal.findUnique({
+    where: { newLeaseId: leaseId },
+    include: { newLease: true },
+  });
+  if (!renewal || !renewal.newLease) return false;
+  if (renewal.status === 'completed') return true;
+
+  const newLease = renewal.newLease;
+  const priorEnd = renewal.currentEndDate;
+
+  await prisma.$transaction(async (tx) => {
+    const charges = await tx.recurringCharge.findMany({
+      where: {
+        leaseId: renewal.leaseId,
+        status: { in: ['active', 'paused'] },
+        OR: [{ endDate: null }, { endDate: { gt: priorEnd } }],
+      },
+    });
+
+    for (const charge of charges) {
+      await tx.recurringCharge.update({
+        where: { id: charge.id },
+        data: {
+          endDate: priorEnd,
+          ...(charge.nextPostDate > priorEnd ? { status: 'ended' } : {}),
+        },
+      });
+
+      await tx.recurringCharge.create({
+        data: {
+          landlordId: charge.landlordId,
+          leaseId: newLease.id,
+          tenantId: newLease.tenantId,
+          description: charge.description,
+          amount: charge.amount,
+          dayOfMonthToPost: charge.dayOfMonthToPost,
+          status: charge.status,
+          startDate: newLease.startDate,
+          endDate: newLease.endDate,
+          nextPostDate: getFirstPostDate(newLease.startDate, charge.dayOfMonthToPost),
+        },
+      });
+    }
+
+    await tx.leaseRenewal.update({
+      where: { id: renewal.id },
+      data: { status: requireTransition(renewal.status, 'complete'), completedAt: new Date() },
+    });
+  });
+
+  return true;
+}
+
+// ============= Scheduled Jobs =============
+
+/**
+ * Draft renewal offers for leases entering their landlord's renewal window
+ * and notify the landlord to review and send them.
+ */
+export async function generateDueRenewalOffers(now = new Date()) {
+  const landlords = await prisma.landlord.findMany({
+    where: { renewalLeadDays: { gt: 0 } },
+    select: { id: true, renewalLeadDays: true },
+  });
+
+  let created = 0;
+  let failed = 0;
+
+  for (const landlord of landlords) {
+    const leases = await prisma.lease.findMany({
+      where: {
+        status: 'active',
+        endDate: { gt: now, lte: addDays(now, landlord.renewalLeadDays) },
+        unit: { property: { landlordId: landlord.id } },
+        renewals: { none: {} },
+      },
+      select: { id: true },
+    });
+
+    for (const { id } of leases) {
+      try {
+        const renewal = await createRenewalOffer({ leaseId: id, landlordId: landlord.id, now });
+        const lease = await loadLease(id);
+        if (lease) {
+          const deadline = renewal.noticeDeadline?.toLocaleDateString('en-US');
+          await notifyLandlord(
+            lease,
+            renewal.id,
+            'Renewal Offer Ready',
+            `A renewal offer for ${lease.tenant.name} at ${propertyLabel(lease)} is ready to review` +
+              (renewal.noticeDaysRequired > 0 && deadline ? `. Send it by ${deadline} to meet the notice period.` : '.')
+          );
+        }
+        created++;
+      } catch (error) {
+        failed++;
+        console.error(`Failed to draft renewal for lease ${id}:`, error);
+      }
+    }
+  }
+
+  return { created, failed };
+}
+
+/** Mark offers the tenant didn't answer in time as expired */
+export async function expireRenewalOffers(now = new Date()) {
+  const result = await prisma.leaseRenewal.updateMany({
+    where: { status: { in: ['offered', 'countered'] }, offerExpiresAt: { lt: now } },
+    data: { status: 'expired' },
+  });
+  return result.count;
+}
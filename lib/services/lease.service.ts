@@ -6,6 +6,7 @@
  */
 
 import { prisma } from '@/db/prisma';
+import { applyRentChangeProration } from './proration.service';
 
 export interface LeaseImmutabilityCheckResult {
   isImmutable: boolean;
@@ -88,21 +89,30 @@ export interface UpdateLeaseTermsInput {
   startDate?: Date;
   endDate?: Date | null;
   billingDayOfMonth?: number;
+  /** When a rent change takes effect; mid-period changes are prorated */
+  rentEffectiveDate?: Date;
 }
 
 /**
  * Update lease terms with immutability check
  * 
+ * A rent change with `rentEffectiveDate` partway through a billing period
+ * charges (or credits) the difference for the rest of that period.
+ * 
  * @param input - The lease update input
  * @returns Updated lease
  * @throws Error if lease is immutable
  */
 export async function updateLeaseTerms(input: UpdateLeaseTermsInput) {
-  const { leaseId, ...updates } = input;
+  const { leaseId, rentEffectiveDate, ...updates } = input;
 
   // Check immutability first
   await validateLeaseModification(leaseId);
 
+  const previous = rentEffectiveDate && updates.rentAmount !== undefined
+    ? await prisma.lease.findUnique({ where: { id: leaseId }, select: { rentAmount: true } })
+    : null;
+
   // Build update data
   const updateData: Record<string, any> = {};
   if (updates.rentAmount !== undefined) {
@@ -122,8 +132,19 @@ export async function updateLeaseTerms(input: UpdateLeaseTermsInput) {
     throw new Error('No updates provided');
   }
 
-  return prisma.lease.update({
+  const lease = await prisma.lease.update({
     where: { id: leaseId },
     data: updateData,
   });
+
+  if (previous && rentEffectiveDate && updates.rentAmount !== undefined) {
+    await applyRentChangeProration({
+      leaseId,
+      previousRent: Number(previous.rentAmount),
+      newRent: updates.rentAmount,
+      effectiveDate: rentEffectiveDate,
+    });
+  }
+
+  return lease;
 }
@@ -0,0 +1,606 @@
+/**
+ * Marketplace Feed Service
+ * The contractor job marketplace reads from MarketplaceJobListing, one row
+ * per job open for bids, instead of loading every open homeowner and
+ * landlord job and merging them in memory:
+ * 1. Write sites call syncMarketplaceListing after changing a job, which
+ *    copies it into the feed while it takes bids and removes it after
+ * 2. A reconcile job picks up jobs whose updatedAt moved past their
+ *    listing's (writes that skipped the sync) and drops listings whose job
+ *    closed or was deleted. Its first run backfills the feed.
+ * 3. queryMarketplaceFeed filters, searches, sorts and pages in one SQL
+ *    query. Pages are cursor-based: each sort has a unique (key, id) order,
+ *    so paging stays stable while jobs are added and removed.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/db/prisma';
+import { geocodeAddress, geocodeLocation, normalizeState, type GeocodeResult } from './geocoding';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+export const DEFAULT_RADIUS_MILES = 25;
+const MAX_RADIUS_MILES = 250;
+const RECONCILE_BATCH_SIZE = 500;
+const EARTH_RADIUS_MILES = 3958.8;
+const MILES_PER_DEGREE_LAT = 69.05;
+
+// Must match the GIN index in prisma/migrations/manual/add_marketplace_job_feed.sql
+const SEARCH_VECTOR = Prisma.sql`to_tsvector('english', "title" || ' ' || "description")`;
+
+// ============= Errors =============
+
+export const MarketplaceFeedErrorCodes = {
+  INVALID_CURSOR: 'INVALID_CURSOR',
+  INVALID_INPUT: 'INVALID_INPUT',
+} as const;
+
+export type MarketplaceFeedErrorCode = (typeof MarketplaceFeedErrorCodes)[keyof typeof MarketplaceFeedErrorCodes];
+
+export class MarketplaceFeedError extends Error {
+  code: MarketplaceFeedErrorCode;
+
+  constructor(code: MarketplaceFeedErrorCode, message: string) {
+    super(message);
+    this.code = code;
+    this.name = 'MarketplaceFeedError';
+  }
+}
+
+export function getMarketplaceFeedErrorStatus(code: MarketplaceFeedErrorCode): number {
+  switch (code) {
+    case MarketplaceFeedErrorCodes.INVALID_CURSOR:
+    case MarketplaceFeedErrorCodes.INVALID_INPUT:
+      return 400;
+    default:
+      return 500;
+  }
+}
+
+// ============= Types =============
+
+export type FeedSourceType = 'homeowner' | 'landlord';
+
+export const FEED_SORTS = ['newest', 'budget_high', 'budget_low', 'deadline', 'relevance', 'distance'] as const;
+export type FeedSort = (typeof FEED_SORTS)[number];
+
+export interface MarketplaceFeedOptions {
+  /** Full-text search over title and description */
+  query?: string;
+  category?: string;
+  priority?: string;
+  posterType?: FeedSourceType | 'agent';
+  city?: string;
+  state?: string;
+  /** ZIP, "City, ST" or an address; jobs within `radius` miles of it */
+  location?: string;
+  radius?: number;
+  minBudget?: number;
+  maxBudget?: number;
+  /** Defaults to relevance when searching, otherwise newest */
+  sortBy?: FeedSort;
+  limit?: number;
+  cursor?: string | null;
+  /** Offset paging for older callers; ignored when a cursor is given */
+  offset?: number;
+}
+
+export interface MarketplaceFeedItem {
+  listingId: string;
+  sourceType: FeedSourceType;
+  sourceId: string;
+  title: string;
+  description: string;
+  category: string;
+  priority: string;
+  postingType: string;
+  budgetMin: number | null;
+  budgetMax: number | null;
+  bidDeadline: Date | null;
+  postedAt: Date;
+  posterName: string | null;
+  posterCompanyName: string | null;
+  propertyName: string | null;
+  street: string | null;
+  city: string | null;
+  state: string | null;
+  zip: string | null;
+  distanceMiles: number | null;
+  bidCount: number;
+}
+
+export interface MarketplaceFeedPage {
+  items: MarketplaceFeedItem[];
+  nextCursor: string | null;
+  total: number;
+}
+
+interface ListingSource {
+  sourceType: FeedSourceType;
+  title: string;
+  description: string;
+  category: string | null;
+  priority: string;
+  postingType: string | null;
+  budgetMin: Prisma.Decimal | null;
+  budgetMax: Prisma.Decimal | null;
+  bidDeadline: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  posterName: string | null;
+  posterCompanyName: string | null;
+  propertyName: string | null;
+  address: unknown;
+}
+
+interface FeedRow {
+  id: string;
+  sourceType: FeedSourceType;
+  sourceId: string;
+  title: string;
+  description: string;
+  category: string;
+  priority: string;
+  postingType: string;
+  budgetMin: Prisma.Decimal | null;
+  budgetMax: Prisma.Decimal | null;
+  bidDeadline: Date | null;
+  postedAt: Date;
+  posterName: string | null;
+  posterCompanyName: string | null;
+  propertyName: string | null;
+  street: string | null;
+  city: string | null;
+  state: string | null;
+  zip: string | null;
+  sortKey: string;
+  distanceMiles: number | null;
+}
+
+// ============= Listing snapshots =============
+
+export function readListingAddress(value: unknown) {
+  const address = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const text = (key: string) => (typeof address[key] === 'string' && (address[key] as string).trim() ? (address[key] as string).trim() : null);
+  const state = text('state');
+  return {
+    street: text('street') ?? text('address') ?? text('line1'),
+    city: text('city'),
+    state: normalizeState(state) ?? state,
+    zip: (text('zipCode') ?? text('zip') ?? text('postalCode'))?.match(/\d{5}/)?.[0] ?? null,
+  };
+}
+
+/** The listing row for a job, placed at its ZIP or city centroid */
+export function buildListingData(source: ListingSource, point: GeocodeResult | null) {
+  const address = readListingAddress(source.address);
+  return {
+    title: source.title,
+    description: source.description,
+    category: (source.category || 'general').trim().toLowerCase(),
+    priority: source.priority,
+    postingType: source.postingType || 'bid',
+    budgetMin: source.budgetMin,
+    budgetMax: source.budgetMax,
+    bidDeadline: source.bidDeadline,
+    postedAt: source.createdAt,
+    posterName: source.posterName,
+    posterCompanyName: source.posterCompanyName,
+    propertyName: source.propertyName,
+    ...address,
+    latitude: point?.lat ?? null,
+    longitude: point?.lng ?? null,
+    sourceUpdatedAt: source.updatedAt,
+  };
+}
+
+async function loadListingSource(sourceType: FeedSourceType, sourceId: string): Promise<ListingSource | null> {
+  if (sourceType === 'homeowner') {
+    const job = await prisma.homeownerWorkOrder.findUnique({
+      where: { id: sourceId },
+      include: { homeowner: { select: { name: true, address: true } } },
+    });
+    if (!job || job.status !== 'open' || !job.isOpenBid) return null;
+    return {
+      sourceType,
+      title: job.title,
+      description: job.description,
+      category: job.category,
+      priority: job.priority,
+      postingType: null,
+      budgetMin: job.budgetMin,
+      budgetMax: job.budgetMax,
+      bidDeadline: job.bidDeadline,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+      posterName: job.homeowner.name,
+      posterCompanyName: null,
+      propertyName: null,
+      address: job.address ?? job.homeowner.address,
+    };
+  }
+
+  const job = await prisma.workOrder.findUnique({
+    where: { id: sourceId },
+    include: {
+      landlord: { select: { name: true, companyName: true } },
+      property: { select: { name: true, address: true } },
+    },
+  });
+  if (!job || job.status !== 'open' || !job.isOpenBid) return null;
+  return {
+    sourceType,
+    title: job.title,
+    description: job.description,
+    category: null, // WorkOrder doesn't have a category field
+    priority: job.priority,
+    postingType: job.postingType,
+    budgetMin: job.budgetMin,
+    budgetMax: job.budgetMax,
+    bidDeadline: job.bidDeadline,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    posterName: job.landlord.name,
+    posterCompanyName: job.landlord.companyName,
+    propertyName: job.property.name,
+    address: job.property.address,
+  };
+}
+
+// ============= Sync =============
+
+/**
+ * Bring one job's listing up to date: written while the job is open for
+ * bids, removed otherwise. Safe to call after any write to the job.
+ */
+export async function syncMarketplaceListing(sourceType: FeedSourceType, sourceId: string): Promise<'upserted' | 'removed'> {
+  const source = await loadListingSource(sourceType, sourceId);
+  if (!source) {
+    await prisma.marketplaceJobListing.deleteMany({ where: { sourceType, sourceId } });
+    return 'removed';
+  }
+
+  // Centroids only: the feed is rewritten on every job edit, too often for paid geocoding
+  const { city, state, zip } = readListingAddress(source.address);
+  const point = await geocodeAddress({ city, state, zip });
+  const data = buildListingData(source, point);
+
+  await prisma.marketplaceJobListing.upsert({
+    where: { sourceType_sourceId: { sourceType, sourceId } },
+    create: { sourceType, sourceId, ...data },
+    update: data,
+  });
+  return 'upserted';
+}
+
+/**
+ * For write sites: a feed failure shouldn't fail the write, and the
+ * reconcile job repairs the listing on its next run.
+ */
+export async function syncMarketplaceListingQuietly(sourceType: FeedSourceType, sourceId: string) {
+  try {
+    await syncMarketplaceListing(sourceType, sourceId);
+  } catch (error) {
+    console.error(`Failed to sync marketplace listing for ${sourceType} job ${sourceId}:`, error);
+  }
+}
+
+/**
+ * Catch the feed up with the job tables: list open jobs that are missing
+ * or changed since their listing was written, and drop listings for jobs
+ * that closed or were deleted.
+ */
+export async function reconcileMarketplaceFeed() {
+  const [staleHomeowner, staleLandlord] = await Promise.all([
+    prisma.$queryRaw<Array<{ id: string }>>`
+      SELECT j."id" FROM "HomeownerWorkOrder" j
+      LEFT JOIN "MarketplaceJobListing" l ON l."sourceType" = 'homeowner' AND l."sourceId" = j."id"
+      WHERE j."status" = 'open' AND j."isOpenBid" = true
+        AND (l."id" IS NULL OR l."sourceUpdatedAt" < j."updatedAt")
+      LIMIT ${RECONCILE_BATCH_SIZE}
+    `,
+    prisma.$queryRaw<Array<{ id: string }>>`
+      SELECT j."id" FROM "WorkOrder" j
+      LEFT JOIN "MarketplaceJobListing" l ON l."sourceType" = 'landlord' AND l."sourceId" = j."id"
+      WHERE j."status" = 'open' AND j."isOpenBid" = true
+        AND (l."id" IS NULL OR l."sourceUpdatedAt" < j."updatedAt")
+      LIMIT ${RECONCILE_BATCH_SIZE}
+    `,
+  ]);
+
+  let synced = 0;
+  let failed = 0;
+  const stale: Array<[FeedSourceType, string]> = [
+    ...staleHomeowner.map((row): [FeedSourceType, string] => ['homeowner', row.id]),
+    ...staleLandlord.map((row): [FeedSourceType, string] => ['landlord', row.id]),
+  ];
+  for (const [sourceType, sourceId] of stale) {
+    try {
+      await syncMarketplaceListing(sourceType, sourceId);
+      synced++;
+    } catch (error) {
+      failed++;
+      console.error(`Failed to reconcile marketplace listing for ${sourceType} job ${sourceId}:`, error);
+    }
+  }
+
+  const removed =
+    (await prisma.$executeRaw`
+      DELETE FROM "MarketplaceJobListing" l
+      WHERE l."sourceType" = 'homeowner' AND NOT EXISTS (
+        SELECT 1 FROM "HomeownerWorkOrder" j
+        WHERE j."id" = l."sourceId" AND j."status" = 'open' AND j."isOpenBid" = true
+      )
+    `) +
+    (await prisma.$executeRaw`
+      DELETE FROM "MarketplaceJobListing" l
+      WHERE l."sourceType" = 'landlord' AND NOT EXISTS (
+        SELECT 1 FROM "WorkOrder" j
+        WHERE j."id" = l."sourceId" AND j."status" = 'open' AND j."isOpenBid" = true
+      )
+    `);
+
+  return { synced, failed, removed };
+}
+
+// ============= Cursors =============
+
+interface FeedCursor {
+  sort: FeedSort;
+  key: string;
+  id: string;
+}
+
+/** SQL type of each sort's key; cursors carry the key as text */
+type SortKeyType = 'timestamp' | 'float8';
+
+const SORT_KEY_TYPES: Record<FeedSort, SortKeyType> = {
+  newest: 'timestamp',
+  budget_high: 'float8',
+  budget_low: 'float8',
+  deadline: 'timestamp',
+  relevance: 'float8',
+  distance: 'float8',
+};
+
+/**
+ * Whether a cursor key is text Postgres will cast back to its sort's type,
+ * as produced by float8::text and timestamp::text
+ */
+function isValidSortKey(key: string, type: SortKeyType): boolean {
+  if (type === 'float8') return /^(-?\d+(\.\d+)?(e[+-]?\d+)?|-?Infinity)$/.test(key);
+  if (key === 'infinity' || key === '-infinity') return true;
+  const match = key.match(/^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})(\.\d{1,6})?$/);
+  if (!match) return false;
+  const [year, month, day, hour, minute, second] = match.slice(1, 7).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+  return (
+    year >= 1 &&
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day &&
+    date.getUTCHours() === hour &&
+    date.getUTCMinutes() === minute &&
+    date.getUTCSeconds() === second
+  );
+}
+
+export function encodeFeedCursor(cursor: FeedCursor): string {
+  return Buffer.from(JSON.stringify([cursor.sort, cursor.key, cursor.id])).toString('base64url');
+}
+
+export function decodeFeedCursor(value: string, sort: FeedSort): FeedCursor {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+  } catch {
+    throw new MarketplaceFeedError(MarketplaceFeedErrorCodes.INVALID_CURSOR, 'Invalid cursor');
+  }
+  if (
+    !Array.isArray(parsed) ||
+    parsed.length !== 3 ||
+    !parsed.every((part) => typeof part === 'string') ||
+    !/^[0-9a-f-]{36}$/i.test(parsed[2])
+  ) {
+    throw new MarketplaceFeedError(MarketplaceFeedErrorCodes.INVALID_CURSOR, 'Invalid cursor');
+  }
+  if (parsed[0] !== sort) {
+    throw new MarketplaceFeedError(MarketplaceFeedErrorCodes.INVALID_CURSOR, 'Cursor belongs to a different sort order');
+  }
+  if (!isValidSortKey(parsed[1], SORT_KEY_TYPES[sort])) {
+    throw new MarketplaceFeedError(MarketplaceFeedErrorCodes.INVALID_CURSOR, 'Invalid cursor');
+  }
+  return { sort, key: parsed[1], id: parsed[2] };
+}
+
+// ============= Query =============
+
+interface SortSpec {
+  key: Prisma.Sql;
+  /** SQL type the cursor's text key is cast back to */
+  type: SortKeyType;
+  descending: boolean;
+}
+
+function resolveSort(requested: FeedSort | undefined, searching: boolean, located: boolean): FeedSort {
+  if (requested !== undefined && !FEED_SORTS.includes(requested)) {
+    throw new MarketplaceFeedError(MarketplaceFeedErrorCodes.INVALID_INPUT, `sortBy must be one of ${FEED_SORTS.join(', ')}`);
+  }
+  const sort = requested ?? (searching ? 'relevance' : 'newest');
+  if (sort === 'relevance' && !searching) return 'newest';
+  if (sort === 'distance' && !located) return 'newest';
+  return sort;
+}
+
+function sortSpec(sort: FeedSort, tsQuery: Prisma.Sql, distance: Prisma.Sql | null): SortSpec {
+  switch (sort) {
+    case 'budget_high':
+      return { key: Prisma.sql`COALESCE("budgetMax", -1)::float8`, type: SORT_KEY_TYPES[sort], descending: true };
+    case 'budget_low':
+      return { key: Prisma.sql`COALESCE("budgetMin", 0)::float8`, type: SORT_KEY_TYPES[sort], descending: false };
+    case 'deadline':
+      return { key: Prisma.sql`COALESCE("bidDeadline", 'infinity'::timestamp)`, type: SORT_KEY_TYPES[sort], descending: false };
+    case 'relevance':
+      return { key: Prisma.sql`ts_rank(${SEARCH_VECTOR}, ${tsQuery})::float8`, type: SORT_KEY_TYPES[sort], descending: true };
+    case 'distance':
+      return { key: Prisma.sql`COALESCE(${distance ?? Prisma.sql`NULL`}, 1e9)::float8`, type: SORT_KEY_TYPES[sort], descending: false };
+    default:
+      return { key: Prisma.sql`"postedAt"`, type: SORT_KEY_TYPES[sort], descending: true };
+  }
+}
+
+function distanceSql(origin: GeocodeResult): Prisma.Sql {
+  return Prisma.sql`(${EARTH_RADIUS_MILES}::float8 * 2 * ASIN(SQRT(LEAST(1,
+    POWER(SIN(RADIANS("latitude" - ${origin.lat}::float8) / 2), 2) +
+    COS(RADIANS(${origin.lat}::float8)) * COS(RADIANS("latitude")) *
+    POWER(SIN(RADIANS("longitude" - ${origin.lng}::float8) / 2), 2)))))`;
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Jobs inside the search area. Listings with coordinates are checked by
+ * distance (a bounding box first, so the lat/lng index can narrow them);
+ * listings that couldn't be placed fall back to matching city and state.
+ */
+function areaCondition(location: string, origin: GeocodeResult | null, radius: number): Prisma.Sql {
+  if (!origin) {
+    const text = location.toLowerCase();
+    return Prisma.sql`(("city" IS NOT NULL AND strpos(${text}, lower("city")) > 0) OR ("zip" IS NOT NULL AND strpos(${text}, "zip") > 0))`;
+  }
+
+  const reach = radius + origin.spreadMiles;
+  const latDelta = reach / MILES_PER_DEGREE_LAT;
+  const lngDelta = reach / (MILES_PER_DEGREE_LAT * Math.max(Math.cos((origin.lat * Math.PI) / 180), 0.01));
+  const placed = Prisma.sql`("latitude" BETWEEN ${origin.lat - latDelta} AND ${origin.lat + latDelta}
+    AND "longitude" BETWEEN ${origin.lng - lngDelta} AND ${origin.lng + lngDelta}
+    AND ${distanceSql(origin)} <= ${reach}::float8)`;
+
+  const unplaced = origin.city
+    ? Prisma.sql`lower("city") = ${origin.city.toLowerCase()}${origin.state ? Prisma.sql` AND "state" = ${origin.state}` : Prisma.empty}`
+    : origin.state
+      ? Prisma.sql`"state" = ${origin.state}`
+      : Prisma.sql`false`;
+
+  return Prisma.sql`(${placed} OR ("latitude" IS NULL AND ${unplaced}))`;
+}
+
+function whereClause(conditions: Prisma.Sql[]): Prisma.Sql {
+  return conditions.length > 0 ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}` : Prisma.empty;
+}
+
+async function countBids(rows: FeedRow[]): Promise<Map<string, number>> {
+  const idsOf = (type: FeedSourceType) => rows.filter((row) => row.sourceType === type).map((row) => row.sourceId);
+  const homeownerIds = idsOf('homeowner');
+  const landlordIds = idsOf('landlord');
+
+  const [homeownerBids, landlordBids] = await Promise.all([
+    homeownerIds.length > 0
+      ? prisma.homeownerWorkOrderBid.groupBy({ by: ['workOrderId'], where: { workOrderId: { in: homeownerIds } }, _count: { _all: true } })
+      : Promise.resolve([]),
+    landlordIds.length > 0
+      ? prisma.workOrderBid.groupBy({ by: ['workOrderId'], where: { workOrderId: { in: landlordIds } }, _count: { _all: true } })
+      : Promise.resolve([]),
+  ]);
+
+  const counts = new Map<string, number>();
+  for (const group of [...homeownerBids, ...landlordBids]) {
+    counts.set(group.workOrderId, group._count._all);
+  }
+  return counts;
+}
+
+function toItem(row: FeedRow, bidCount: number): MarketplaceFeedItem {
+  return {
+    listingId: row.id,
+    sourceType: row.sourceType,
+    sourceId: row.sourceId,
+    title: row.title,
+    description: row.description,
+    category: row.category,
+    priority: row.priority,
+    postingType: row.postingType,
+    budgetMin: row.budgetMin !== null ? Number(row.budgetMin) : null,
+    budgetMax: row.budgetMax !== null ? Number(row.budgetMax) : null,
+    bidDeadline: row.bidDeadline,
+    postedAt: row.postedAt,
+    posterName: row.posterName,
+    posterCompanyName: row.posterCompanyName,
+    propertyName: row.propertyName,
+    street: row.street,
+    city: row.city,
+    state: row.state,
+    zip: row.zip,
+    distanceMiles: row.distanceMiles !== null ? Math.round(row.distanceMiles * 10) / 10 : null,
+    bidCount,
+  };
+}
+
+export async function queryMarketplaceFeed(options: MarketplaceFeedOptions = {}): Promise<MarketplaceFeedPage> {
+  // Agent work orders aren't listed until the marketplace supports them
+  if (options.posterType === 'agent') return { items: [], nextCursor: null, total: 0 };
+
+  const limit = Math.min(Math.max(Math.floor(options.limit ?? DEFAULT_PAGE_SIZE) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const text = options.query?.trim() ?? '';
+  const location = options.location?.trim() ?? '';
+  const radius = Math.min(Math.max(options.radius ?? DEFAULT_RADIUS_MILES, 1), MAX_RADIUS_MILES);
+  const origin = location ? await geocodeLocation(location) : null;
+
+  const sort = resolveSort(options.sortBy, !!text, !!origin);
+  const cursor = options.cursor ? decodeFeedCursor(options.cursor, sort) : null;
+  const tsQuery = Prisma.sql`websearch_to_tsquery('english', ${text})`;
+  const distance = origin ? distanceSql(origin) : null;
+  const spec = sortSpec(sort, tsQuery, distance);
+
+  const conditions: Prisma.Sql[] = [];
+  if (text) conditions.push(Prisma.sql`${SEARCH_VECTOR} @@ ${tsQuery}`);
+  if (options.category) conditions.push(Prisma.sql`"category" = ${options.category.trim().toLowerCase()}`);
+  if (options.priority) conditions.push(Prisma.sql`"priority" = ${options.priority}`);
+  if (options.posterType) conditions.push(Prisma.sql`"sourceType" = ${options.posterType}`);
+  if (options.minBudget !== undefined) conditions.push(Prisma.sql`"budgetMax" >= ${options.minBudget}`);
+  if (options.maxBudget !== undefined) conditions.push(Prisma.sql`"budgetMin" <= ${options.maxBudget}`);
+  if (options.city?.trim()) conditions.push(Prisma.sql`"city" ILIKE ${`%${escapeLike(options.city.trim())}%`}`);
+  if (options.state?.trim()) {
+    const state = normalizeState(options.state);
+    conditions.push(state ? Prisma.sql`"state" = ${state}` : Prisma.sql`"state" ILIKE ${`%${escapeLike(options.state.trim())}%`}`);
+  }
+  if (location) conditions.push(areaCondition(location, origin, radius));
+
+  const direction = Prisma.raw(spec.descending ? 'DESC' : 'ASC');
+  const pageConditions = cursor
+    ? [
+        ...conditions,
+        Prisma.sql`(${spec.key}, "id") ${Prisma.raw(spec.descending ? '<' : '>')} (${cursor.key}::${Prisma.raw(spec.type)}, ${cursor.id}::uuid)`,
+      ]
+    : conditions;
+  const offset = cursor ? 0 : Math.max(Math.floor(options.offset ?? 0), 0);
+
+  const [rows, counted] = await Promise.all([
+    prisma.$queryRaw<FeedRow[]>`
+      SELECT "id", "sourceType", "sourceId", "title", "description", "category", "priority", "postingType",
+        "budgetMin", "budgetMax", "bidDeadline", "postedAt", "posterName", "posterCompanyName", "propertyName",
+        "street", "city", "state", "zip",
+        (${spec.key})::text AS "sortKey",
+        ${distance ?? Prisma.sql`NULL::float8`} AS "distanceMiles"
+      FROM "MarketplaceJobListing"
+      ${whereClause(pageConditions)}
+      ORDER BY ${spec.key} ${direction}, "id" ${direction}
+      LIMIT ${limit + 1} OFFSET ${offset}
+    `,
+    prisma.$queryRaw<Array<{ total: number }>>`
+      SELECT COUNT(*)::int AS "total" FROM "MarketplaceJobListing" ${whereClause(conditions)}
+    `,
+  ]);
+
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  const bidCounts = await countBids(page);
+
+  return {
+    items: page.map((row) => toItem(row, bidCounts.get(row.sourceId) ?? 0)),
+    nextCursor: rows.length > limit && last ? encodeFeedCursor({ sort, key: last.sortKey, id: last.id }) : null,
+    total: counted[0]?.total ?? 0,
+  };
+}
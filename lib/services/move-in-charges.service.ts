@@ -2,10 +2,22 @@
  * Move-In Charges Service
  * Creates initial move-in payments when a lease is activated
  * Includes: first month rent, last month rent, security deposit, pet deposit, cleaning fee
+ * First and last month rent are prorated when the lease starts or ends
+ * partway through a billing period (Landlord.prorationMethod).
  */
 
 import { prisma } from '@/db/prisma';
+import type { Prisma } from '@prisma/client';
 import { getEffectiveFeeSettings, LandlordFeeSettings } from '@/lib/utils/fee-settings.utils';
+import { syncLedgerSafely, syncRentPaymentLedger } from '@/lib/services/tenant-ledger.service';
+import {
+  describeProration,
+  getBillingPeriod,
+  normalizeProrationMethod,
+  prorate,
+  type ProrationBreakdown,
+  type ProrationMethod,
+} from '@/lib/services/proration.service';
 
 export interface MoveInChargeResult {
   success: boolean;
@@ -44,6 +56,7 @@ export async function generateMoveInCharges(leaseId: string): Promise<MoveInChar
                     petRentAmount: true,
                     cleaningFeeEnabled: true,
                     cleaningFeeAmount: true,
+                    prorationMethod: true,
                   },
                 },
               },
@@ -115,19 +128,32 @@ export async function generateMoveInCharges(leaseId: string): Promise<MoveInChar
     const rentAmount = Number(lease.rentAmount);
     const dueDate = lease.startDate || new Date();
     const payments: { type: string; amount: number; id: string }[] = [];
+    const { firstMonth, lastMonth } = getMoveInRentProration({
+      rentAmount,
+      startDate: dueDate,
+      endDate: lease.endDate,
+      billingDay: lease.billingDayOfMonth || 1,
+      method: normalizeProrationMethod(landlord.prorationMethod),
+    });
 
     // 1. First Month's Rent (always required)
     const firstMonthPayment = await prisma.rentPayment.create({
       data: {
         leaseId,
         tenantId: lease.tenant.id,
-        amount: rentAmount,
+        amount: firstMonth.amount,
         dueDate,
         status: 'pending',
-        metadata: { type: 'first_month_rent', description: 'First Month Rent' },
+        metadata: firstMonth.full
+          ? { type: 'first_month_rent', description: 'First Month Rent' }
+          : {
+              type: 'first_month_rent',
+              description: `First Month Rent (${describeProration([firstMonth])})`,
+              proration: [firstMonth] as unknown as Prisma.InputJsonValue,
+            },
       },
     });
-    payments.push({ type: 'first_month_rent', amount: rentAmount, id: firstMonthPayment.id });
+    payments.push({ type: 'first_month_rent', amount: firstMonth.amount, id: firstMonthPayment.id });
 
     // 2. Security Deposit
     if (effectiveFees.securityDepositMonths > 0) {
@@ -150,17 +176,24 @@ export async function generateMoveInCharges(leaseId: string): Promise<MoveInChar
 
     // 3. Last Month's Rent
     if (effectiveFees.lastMonthRentRequired) {
+      const lastMonthAmount = lastMonth ? lastMonth.amount : rentAmount;
       const lastMonthPayment = await prisma.rentPayment.create({
         data: {
           leaseId,
           tenantId: lease.tenant.id,
-          amount: rentAmount,
+          amount: lastMonthAmount,
           dueDate,
           status: 'pending',
-          metadata: { type: 'last_month_rent', description: 'Last Month Rent' },
+          metadata: lastMonth && !lastMonth.full
+            ? {
+                type: 'last_month_rent',
+                description: `Last Month Rent (${describeProration([lastMonth])})`,
+                proration: [lastMonth] as unknown as Prisma.InputJsonValue,
+              }
+            : { type: 'last_month_rent', description: 'Last Month Rent' },
         },
       });
-      payments.push({ type: 'last_month_rent', amount: rentAmount, id: lastMonthPayment.id });
+      payments.push({ type: 'last_month_rent', amount: lastMonthAmount, id: lastMonthPayment.id });
     }
 
     // 4. Pet Deposit (one-time)
@@ -214,6 +247,11 @@ export async function generateMoveInCharges(leaseId: string): Promise<MoveInChar
       });
     }
 
+    // Post each move-in charge to the tenant ledger
+    for (const payment of payments) {
+      await syncLedgerSafely(`move-in charge ${payment.id}`, () => syncRentPaymentLedger(payment.id));
+    }
+
     const totalAmount = payments.reduce((sum, p) => sum + p.amount, 0);
 
     return {
@@ -232,6 +270,37 @@ export async function generateMoveInCharges(leaseId: string): Promise<MoveInChar
   }
 }
 
+/**
+ * Rent for the first and last billing periods of a lease. The first period
+ * runs from move-in to the day before the next billing day; the last from
+ * the final billing day to the lease end. Null lastMonth = open-ended lease.
+ */
+export function getMoveInRentProration(params: {
+  rentAmount: number;
+  startDate: Date;
+  endDate: Date | null;
+  billingDay: number;
+  method: ProrationMethod;
+}): { firstMonth: ProrationBreakdown; lastMonth: ProrationBreakdown | null } {
+  const { rentAmount, startDate, endDate, billingDay, method } = params;
+  const firstPeriod = getBillingPeriod(startDate, billingDay);
+  const firstMonth = prorate({
+    monthlyAmount: rentAmount,
+    period: firstPeriod,
+    from: startDate,
+    to: endDate && endDate < firstPeriod.end ? endDate : firstPeriod.end,
+    method,
+  });
+
+  if (!endDate || endDate <= firstPeriod.end) {
+    return { firstMonth, lastMonth: null };
+  }
+
+  const lastPeriod = getBillingPeriod(endDate, billingDay);
+  const lastMonth = prorate({ monthlyAmount: rentAmount, period: lastPeriod, from: lastPeriod.start, to: endDate, method });
+  return { firstMonth, lastMonth };
+}
+
 /**
  * Calculate the next post date for a recurring charge
  */
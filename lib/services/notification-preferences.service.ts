@@ -0,0 +1,497 @@
+/**
+ * Notification Preferences Service
+ *
+ * Decides how a notification reaches its user. Each event type (payment,
+ * maintenance, application, message, lease, work order) has its own in-app,
+ * email, SMS and push switch; quiet hours hold email/SMS/push until the
+ * window ends in the user's timezone; and in digest mode every email that
+ * isn't high priority waits for one daily or weekly summary instead of
+ * going out one by one.
+ *
+ * Users without a NotificationSettings row get a matrix derived from the
+ * legacy User.notificationPreferences JSON and, for landlord owners, the
+ * Landlord notify* flags. NotificationService applies the plan, and the
+ * notifications cron releases held deliveries and sends the digests.
+ */
+
+import { prisma } from '@/db/prisma';
+import type { Prisma } from '@prisma/client';
+
+// ============= Constants =============
+
+export const NOTIFICATION_EVENTS = ['payment', 'maintenance', 'application', 'message', 'lease', 'work_order'] as const;
+export type NotificationEvent = typeof NOTIFICATION_EVENTS[number];
+
+export const NOTIFICATION_CHANNELS = ['in_app', 'email', 'sms', 'push'] as const;
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+export type DeliveryChannel = Exclude<NotificationChannel, 'in_app'>;
+
+export const NOTIFICATION_PRIORITIES = ['low', 'normal', 'high'] as const;
+export type NotificationPriority = typeof NOTIFICATION_PRIORITIES[number];
+
+export const DIGEST_MODES = ['off', 'daily', 'weekly'] as const;
+export type DigestMode = typeof DIGEST_MODES[number];
+
+export const DEFAULT_TIMEZONE = 'America/New_York';
+
+const DEFAULT_CHANNELS: ChannelPreferences = { in_app: true, email: true, sms: false, push: true };
+
+// Notification.type values that don't match an event name one-to-one
+const TYPE_EVENTS: Record<string, NotificationEvent> = {
+  reminder: 'payment',
+  payment_released: 'work_order',
+  escrow_funded: 'work_order',
+  contract_signed: 'work_order',
+};
+
+const WORK_ORDER_TYPE_PREFIXES = ['work_order', 'milestone_', 'bid_'];
+
+// Reminders are routine enough to skip SMS and push for digest users unless a caller says otherwise
+const TYPE_PRIORITIES: Record<string, NotificationPriority> = {
+  reminder: 'low',
+};
+
+// ============= Errors =============
+
+export const NotificationPreferencesErrorCodes = {
+  INVALID_INPUT: 'INVALID_INPUT',
+} as const;
+
+export type NotificationPreferencesErrorCode =
+  typeof NotificationPreferencesErrorCodes[keyof typeof NotificationPreferencesErrorCodes];
+
+export class NotificationPreferencesError extends Error {
+  code: NotificationPreferencesErrorCode;
+
+  constructor(code: NotificationPreferencesErrorCode, message: string) {
+    super(message);
+    this.code = code;
+    this.name = 'NotificationPreferencesError';
+  }
+}
+
+// ============= Types =============
+
+export type ChannelPreferences = Record<NotificationChannel, boolean>;
+export type PreferenceMatrix = Record<NotificationEvent, ChannelPreferences>;
+
+export interface NotificationSettingsData {
+  matrix: PreferenceMatrix;
+  timezone: string;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  digestMode: DigestMode;
+  digestHour: number;
+  digestDayOfWeek: number;
+  lastDigestSentAt: Date | null;
+}
+
+export interface LegacyNotificationPreferences {
+  email?: boolean;
+  sms?: boolean;
+  both?: boolean;
+}
+
+export interface LandlordNotifyFlags {
+  notifyNewApplications: boolean;
+  notifyMaintenanceTickets: boolean;
+  notifyLatePayments: boolean;
+  notifyLeaseExpiring: boolean;
+  notifyNewMessages: boolean;
+}
+
+export interface DeliveryPlan {
+  /** Show in the in-app notification list */
+  inApp: boolean;
+  /** Channels to deliver right away */
+  send: DeliveryChannel[];
+  /** Channels held for quiet hours or the digest */
+  hold: DeliveryChannel[];
+  /** When held channels go out; null means they wait for the digest */
+  releaseAt: Date | null;
+}
+
+export interface LocalTime {
+  minutes: number;
+  dayOfWeek: number;
+  dateKey: string;
+}
+
+// ============= Matrix =============
+
+/** Event a Notification.type belongs to, or null for account/system notices */
+export function getNotificationEvent(type: string): NotificationEvent | null {
+  if ((NOTIFICATION_EVENTS as readonly string[]).includes(type)) return type as NotificationEvent;
+  if (TYPE_EVENTS[type]) return TYPE_EVENTS[type];
+  if (WORK_ORDER_TYPE_PREFIXES.some((prefix) => type.startsWith(prefix))) return 'work_order';
+  if (type.startsWith('lease')) return 'lease';
+  if (type.startsWith('payment')) return 'payment';
+  return null;
+}
+
+export function getDefaultPriority(type: string): NotificationPriority {
+  return TYPE_PRIORITIES[type] ?? 'normal';
+}
+
+/**
+ * Matrix for a user who never saved settings: the old whole-user email/SMS
+ * switches apply to every event, and a landlord owner's notify* flags turn
+ * off email for the matching events.
+ */
+export function buildDefaultMatrix(
+  legacy?: LegacyNotificationPreferences | null,
+  landlord?: LandlordNotifyFlags | null
+): PreferenceMatrix {
+  const email = legacy ? (legacy.email ?? true) || !!legacy.both : DEFAULT_CHANNELS.email;
+  const sms = legacy ? !!legacy.sms || !!legacy.both : DEFAULT_CHANNELS.sms;
+
+  const matrix = {} as PreferenceMatrix;
+  for (const event of NOTIFICATION_EVENTS) {
+    matrix[event] = { ...DEFAULT_CHANNELS, email, sms };
+  }
+
+  if (landlord) {
+    matrix.application.email &&= landlord.notifyNewApplications;
+    matrix.maintenance.email &&= landlord.notifyMaintenanceTickets;
+    matrix.payment.email &&= landlord.notifyLatePayments;
+    matrix.lease.email &&= landlord.notifyLeaseExpiring;
+    matrix.message.email &&= landlord.notifyNewMessages;
+  }
+
+  return matrix;
+}
+
+/** Fill a stored or submitted matrix out to every event and channel */
+export function normalizeMatrix(input: unknown, fallback: PreferenceMatrix = buildDefaultMatrix()): PreferenceMatrix {
+  const source = input && typeof input === 'object' ? (input as Record<string, unknown>) : {};
+  const matrix = {} as PreferenceMatrix;
+
+  for (const event of NOTIFICATION_EVENTS) {
+    const row = source[event] && typeof source[event] === 'object' ? (source[event] as Record<string, unknown>) : {};
+    matrix[event] = { ...fallback[event] };
+    for (const channel of NOTIFICATION_CHANNELS) {
+      if (typeof row[channel] === 'boolean') matrix[event][channel] = row[channel] as boolean;
+    }
+  }
+
+  return matrix;
+}
+
+/** Switch one channel on or off for every event (the old whole-user toggles) */
+export function setChannelForAllEvents(
+  matrix: PreferenceMatrix,
+  channel: NotificationChannel,
+  enabled: boolean
+): PreferenceMatrix {
+  const next = normalizeMatrix(matrix, matrix);
+  for (const event of NOTIFICATION_EVENTS) {
+    next[event][channel] = enabled;
+  }
+  return next;
+}
+
+// ============= Time =============
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Minutes after midnight for an HH:mm string, or null if malformed */
+export function parseTimeOfDay(value: string | null | undefined): number | null {
+  const match = value?.match(/^([01]\d|2[0-3]):([0-5]\d)$/);
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/** Wall-clock time in the given timezone */
+export function getLocalTime(date: Date, timezone: string): LocalTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    weekday: 'short',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? '';
+
+  return {
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+    dayOfWeek: WEEKDAYS.indexOf(part('weekday')),
+    dateKey: `${part('year')}-${part('month')}-${part('day')}`,
+  };
+}
+
+type QuietHours = Pick<NotificationSettingsData, 'timezone' | 'quietHoursStart' | 'quietHoursEnd'>;
+
+/** Whether `now` falls in the quiet window; windows may wrap past midnight */
+export function isInQuietHours(settings: QuietHours, now: Date): boolean {
+  const start = parseTimeOfDay(settings.quietHoursStart);
+  const end = parseTimeOfDay(settings.quietHoursEnd);
+  if (start === null || end === null || start === end) return false;
+
+  const { minutes } = getLocalTime(now, settings.timezone);
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+/**
+ * Next moment the quiet window ends. Counted in wall-clock minutes, so on a
+ * DST change night the release can land an hour early or late.
+ */
+export function getQuietHoursEnd(settings: QuietHours, now: Date): Date {
+  const end = parseTimeOfDay(settings.quietHoursEnd) ?? 0;
+  const { minutes } = getLocalTime(now, settings.timezone);
+  const wait = (end - minutes + 1440) % 1440 || 1440;
+  const minuteStart = Math.floor(now.getTime() / 60000) * 60000;
+  return new Date(minuteStart + wait * 60000);
+}
+
+// ============= Delivery Plan =============
+
+/**
+ * Work out which channels a notification goes to and when.
+ *
+ * - The event's matrix row picks the channels; notices outside the six
+ *   events always show in-app and go by email.
+ * - High priority ignores quiet hours and the digest.
+ * - In digest mode email goes into the digest. Low priority drops SMS and
+ *   push too, since the summary replaces real-time alerts; normal priority
+ *   still sends them.
+ * - Otherwise quiet hours hold every outbound channel until the window ends;
+ *   planHeldRelease moves held email into the digest at that point.
+ */
+export function planNotificationDelivery({
+  settings,
+  type,
+  priority,
+  now,
+}: {
+  settings: NotificationSettingsData;
+  type: string;
+  priority: NotificationPriority;
+  now: Date;
+}): DeliveryPlan {
+  const event = getNotificationEvent(type);
+  const channels: ChannelPreferences = event
+    ? settings.matrix[event]
+    : { in_app: true, email: true, sms: false, push: false };
+  const outbound = (['email', 'sms', 'push'] as const).filter((channel) => channels[channel]);
+
+  if (priority === 'high' || outbound.length === 0) {
+    return { inApp: channels.in_app, send: outbound, hold: [], releaseAt: null };
+  }
+
+  const digest: DeliveryChannel[] = settings.digestMode !== 'off' && channels.email ? ['email'] : [];
+  if (priority === 'low' && settings.digestMode !== 'off') {
+    return { inApp: channels.in_app, send: [], hold: digest, releaseAt: null };
+  }
+
+  if (isInQuietHours(settings, now)) {
+    return { inApp: channels.in_app, send: [], hold: outbound, releaseAt: getQuietHoursEnd(settings, now) };
+  }
+
+  return {
+    inApp: channels.in_app,
+    send: outbound.filter((channel) => !digest.includes(channel)),
+    hold: digest,
+    releaseAt: null,
+  };
+}
+
+/**
+ * Channels held for quiet hours, once the window ends: email goes to the
+ * digest if the user takes one (and the notification isn't high priority),
+ * everything else goes out now.
+ */
+export function planHeldRelease(
+  settings: Pick<NotificationSettingsData, 'digestMode'>,
+  held: DeliveryChannel[],
+  priority: string
+): { send: DeliveryChannel[]; digest: boolean } {
+  const digest = held.includes('email') && settings.digestMode !== 'off' && priority !== 'high';
+  return { send: digest ? held.filter((channel) => channel !== 'email') : held, digest };
+}
+
+// ============= Digest =============
+
+/**
+ * Digests go out on the first cron run at or after the user's digest hour,
+ * once per local day (daily) or on the chosen weekday (weekly).
+ */
+export function isDigestDue(
+  settings: Pick<NotificationSettingsData, 'timezone' | 'digestMode' | 'digestHour' | 'digestDayOfWeek' | 'lastDigestSentAt'>,
+  now: Date
+): boolean {
+  if (settings.digestMode === 'off') return false;
+
+  const local = getLocalTime(now, settings.timezone);
+  if (local.minutes < settings.digestHour * 60) return false;
+  if (settings.digestMode === 'weekly' && local.dayOfWeek !== settings.digestDayOfWeek) return false;
+  if (!settings.lastDigestSentAt) return true;
+
+  return getLocalTime(settings.lastDigestSentAt, settings.timezone).dateKey !== local.dateKey;
+}
+
+/** Short local timestamp for a digest line, e.g. "Mar 4, 9:15 AM" */
+export function formatDigestTime(date: Date, timezone: string): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  }).format(date);
+}
+
+export function formatDigestSubject(mode: DigestMode, count: number): string {
+  const label = mode === 'weekly' ? 'Weekly' : 'Daily';
+  return `${label} summary: ${count} update${count === 1 ? '' : 's'}`;
+}
+
+// ============= Settings Input =============
+
+/**
+ * Validate a settings update on top of the current settings. Only fields
+ * present in the body change.
+ */
+export function normalizeNotificationSettingsInput(
+  body: Record<string, unknown>,
+  current: NotificationSettingsData
+): NotificationSettingsData {
+  const invalid = (message: string) =>
+    new NotificationPreferencesError(NotificationPreferencesErrorCodes.INVALID_INPUT, message);
+  const next: NotificationSettingsData = { ...current, matrix: normalizeMatrix(body.matrix, current.matrix) };
+
+  if (body.timezone !== undefined) {
+    if (typeof body.timezone !== 'string' || !isValidTimezone(body.timezone)) {
+      throw invalid('timezone must be an IANA timezone such as America/Chicago');
+    }
+    next.timezone = body.timezone;
+  }
+
+  for (const field of ['quietHoursStart', 'quietHoursEnd'] as const) {
+    if (body[field] === undefined) continue;
+    if (body[field] === null || body[field] === '') {
+      next[field] = null;
+    } else if (typeof body[field] === 'string' && parseTimeOfDay(body[field] as string) !== null) {
+      next[field] = body[field] as string;
+    } else {
+      throw invalid(`${field} must be HH:mm`);
+    }
+  }
+  if (!next.quietHoursStart !== !next.quietHoursEnd) {
+    throw invalid('Quiet hours need both a start and an end');
+  }
+
+  if (body.digestMode !== undefined) {
+    if (!(DIGEST_MODES as readonly unknown[]).includes(body.digestMode)) {
+      throw invalid(`digestMode must be one of ${DIGEST_MODES.join(', ')}`);
+    }
+    next.digestMode = body.digestMode as DigestMode;
+  }
+
+  if (body.digestHour !== undefined) {
+    const hour = Number(body.digestHour);
+    if (!Number.isInteger(hour) || hour < 0 || hour > 23) throw invalid('digestHour must be 0-23');
+    next.digestHour = hour;
+  }
+
+  if (body.digestDayOfWeek !== undefined) {
+    const day = Number(body.digestDayOfWeek);
+    if (!Number.isInteger(day) || day < 0 || day > 6) throw invalid('digestDayOfWeek must be 0 (Sunday) to 6');
+    next.digestDayOfWeek = day;
+  }
+
+  return next;
+}
+
+// ============= Database =============
+
+/** Saved settings, or defaults derived from the legacy preferences */
+export async function getNotificationSettings(userId: string): Promise<NotificationSettingsData> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      notificationPreferences: true,
+      notificationSettings: true,
+      landlordsOwned: {
+        select: {
+          notifyNewApplications: true,
+          notifyMaintenanceTickets: true,
+          notifyLatePayments: true,
+          notifyLeaseExpiring: true,
+          notifyNewMessages: true,
+        },
+        take: 1,
+      },
+    },
+  });
+
+  const defaults = buildDefaultMatrix(
+    user?.notificationPreferences as LegacyNotificationPreferences | null,
+    user?.landlordsOwned[0] ?? null
+  );
+  const saved = user?.notificationSettings;
+
+  if (!saved) {
+    return {
+      matrix: defaults,
+      timezone: DEFAULT_TIMEZONE,
+      quietHoursStart: null,
+      quietHoursEnd: null,
+      digestMode: 'off',
+      digestHour: 8,
+      digestDayOfWeek: 1,
+      lastDigestSentAt: null,
+    };
+  }
+
+  return {
+    matrix: normalizeMatrix(saved.matrix, defaults),
+    timezone: isValidTimezone(saved.timezone) ? saved.timezone : DEFAULT_TIMEZONE,
+    quietHoursStart: saved.quietHoursStart,
+    quietHoursEnd: saved.quietHoursEnd,
+    digestMode: (DIGEST_MODES as readonly string[]).includes(saved.digestMode) ? (saved.digestMode as DigestMode) : 'off',
+    digestHour: saved.digestHour,
+    digestDayOfWeek: saved.digestDayOfWeek,
+    lastDigestSentAt: saved.lastDigestSentAt,
+  };
+}
+
+export async function saveNotificationSettings(userId: string, settings: NotificationSettingsData) {
+  const data = {
+    matrix: settings.matrix as unknown as Prisma.InputJsonValue,
+    timezone: settings.timezone,
+    quietHoursStart: settings.quietHoursStart,
+    quietHoursEnd: settings.quietHoursEnd,
+    digestMode: settings.digestMode,
+    digestHour: settings.digestHour,
+    digestDayOfWeek: settings.digestDayOfWeek,
+  };
+
+  const saved = await prisma.notificationSettings.upsert({
+    where: { userId },
+    create: { userId, ...data },
+    update: data,
+  });
+
+  // Turning the digest off drops mail still waiting for it; those
+  // notifications remain in the in-app list
+  if (settings.digestMode === 'off') {
+    await prisma.notification.updateMany({
+      where: { userId, releaseAt: null, heldChannels: { has: 'email' } },
+      data: { heldChannels: [] },
+    });
+  }
+
+  return saved;
+}
@@ -1,6 +1,20 @@
 import { prisma } from '@/db/prisma';
 import { decryptField } from '@/lib/encrypt';
 import { sendSms } from '@/lib/services/sms-service';
+import { sendPush } from '@/lib/services/push-service';
+import {
+  formatDigestSubject,
+  formatDigestTime,
+  getDefaultPriority,
+  getNotificationSettings,
+  isDigestDue,
+  planHeldRelease,
+  planNotificationDelivery,
+  type DeliveryChannel,
+  type DigestMode,
+  type NotificationPriority,
+  type NotificationSettingsData,
+} from '@/lib/services/notification-preferences.service';
 
 // Dynamic import to avoid bundling nodemailer in client
 const getEmailService = async () => {
@@ -10,43 +24,36 @@ const getEmailService = async () => {
 
 interface NotificationOptions {
   userId: string;
-  type: 'application' | 'message' | 'maintenance' | 'payment' | 'reminder';
+  type: 'application' | 'message' | 'maintenance' | 'payment' | 'reminder' | 'lease' | 'work_order';
   title: string;
   message: string;
   actionUrl?: string;
   metadata?: any;
   landlordId?: string;
+  // Defaults by type; high skips quiet hours and the digest, low skips SMS/push for digest users
+  priority?: NotificationPriority;
 }
 
-interface NotificationPreferences {
-  email: boolean;
-  sms: boolean;
-  both: boolean;
-}
+// Notifications per digest email; anything beyond waits for the next one
+const DIGEST_BATCH_SIZE = 100;
 
 export class NotificationService {
-  // Get user's notification preferences from DB (default to email only)
-  static async getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { notificationPreferences: true },
-    });
-
-    const prefs = user?.notificationPreferences as Partial<NotificationPreferences> | null;
-    if (!prefs) return { email: true, sms: false, both: false };
-
-    return {
-      email: prefs.email ?? true,
-      sms: prefs.sms ?? false,
-      both: prefs.both ?? false,
-    };
+  // Get user's per-event channel matrix, quiet hours and digest settings
+  static async getNotificationPreferences(userId: string): Promise<NotificationSettingsData> {
+    return getNotificationSettings(userId);
   }
 
   // Create notification and send based on preferences
   static async createNotification(options: NotificationOptions) {
     const { userId, type, title, message, actionUrl, metadata, landlordId } = options;
+    const priority = options.priority ?? getDefaultPriority(type);
 
-    // Create the notification in database
+    const preferences = await this.getNotificationPreferences(userId);
+    const plan = planNotificationDelivery({ settings: preferences, type, priority, now: new Date() });
+
+    // Create the notification in database. With in-app turned off for the
+    // event the row is still kept (it carries any held delivery) but starts
+    // out read so it stays out of the unread badge.
     const notification = await prisma.notification.create({
       data: {
         userId,
@@ -55,20 +62,58 @@ export class NotificationService {
         message,
         actionUrl,
         metadata,
+        priority,
+        isRead: !plan.inApp,
+        heldChannels: plan.hold,
+        releaseAt: plan.releaseAt,
+        landlordId,
       },
     });
 
-    // Get user preferences and send notifications
-    const preferences = await this.getNotificationPreferences(userId);
+    await this.deliver({
+      channels: plan.send,
+      notificationId: notification.id,
+      userId,
+      type,
+      title,
+      message,
+      actionUrl,
+      landlordId,
+    });
+
+    return notification;
+  }
+
+  // Send a notification over email, SMS and/or push
+  private static async deliver({
+    channels,
+    notificationId,
+    userId,
+    type,
+    title,
+    message,
+    actionUrl,
+    landlordId,
+  }: {
+    channels: DeliveryChannel[];
+    notificationId: string;
+    userId: string;
+    type: string;
+    title: string;
+    message: string;
+    actionUrl?: string;
+    landlordId?: string;
+  }) {
+    if (channels.length === 0) return;
+
     const user = await prisma.user.findUnique({
       where: { id: userId },
       select: { email: true, phoneNumber: true, name: true },
     });
 
-    if (!user) return notification;
+    if (!user) return;
 
-    // Send email notification (default or if email/both is enabled)
-    if (preferences.email || preferences.both) {
+    if (channels.includes('email')) {
       await this.sendEmailNotification({
         userId,
         type,
@@ -80,8 +125,8 @@ export class NotificationService {
       });
     }
 
-    // Send SMS notification (if sms/both is enabled and phone number exists)
-    if ((preferences.sms || preferences.both) && user.phoneNumber) {
+    // SMS only goes out when the user has a phone number on file
+    if (channels.includes('sms') && user.phoneNumber) {
       await this.sendSMSNotification({
         userId,
         type,
@@ -91,7 +136,166 @@ export class NotificationService {
       });
     }
 
-    return notification;
+    if (channels.includes('push')) {
+      await sendPush({ userId, title, message, data: { notificationId, type, actionUrl } });
+    }
+  }
+
+  // Send deliveries held for quiet hours once the window has ended; email
+  // for users who take a digest waits for it instead
+  static async releaseHeldNotifications(now = new Date()) {
+    const held = await prisma.notification.findMany({
+      where: {
+        releaseAt: { lte: now },
+        heldChannels: { isEmpty: false },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: 500,
+    });
+
+    let released = 0;
+    let failed = 0;
+    const settingsByUser = new Map<string, NotificationSettingsData>();
+
+    for (const notification of held) {
+      let settings = settingsByUser.get(notification.userId);
+      if (!settings) {
+        settings = await this.getNotificationPreferences(notification.userId);
+        settingsByUser.set(notification.userId, settings);
+      }
+      const release = planHeldRelease(settings, notification.heldChannels as DeliveryChannel[], notification.priority);
+
+      // Clear first so an overlapping run can't send the same notification twice
+      await prisma.notification.update({
+        where: { id: notification.id },
+        data: { heldChannels: release.digest ? ['email'] : [], releaseAt: null },
+      });
+
+      try {
+        await this.deliver({
+          channels: release.send,
+          notificationId: notification.id,
+          userId: notification.userId,
+          type: notification.type,
+          title: notification.title,
+          message: notification.message,
+          actionUrl: notification.actionUrl ?? undefined,
+          landlordId: notification.landlordId ?? undefined,
+        });
+        released++;
+      } catch (error) {
+        console.error(`Failed to release notification ${notification.id}:`, error);
+        failed++;
+      }
+    }
+
+    return { released, failed };
+  }
+
+  // Email each user whose digest is due everything that waited for it
+  static async sendNotificationDigests(now = new Date()) {
+    const schedules = await prisma.notificationSettings.findMany({
+      where: { digestMode: { not: 'off' } },
+      select: {
+        userId: true,
+        timezone: true,
+        digestMode: true,
+        digestHour: true,
+        digestDayOfWeek: true,
+        lastDigestSentAt: true,
+      },
+    });
+
+    let sent = 0;
+    let failed = 0;
+
+    for (const schedule of schedules) {
+      const digestMode = schedule.digestMode as DigestMode;
+      if (!isDigestDue({ ...schedule, digestMode }, now)) continue;
+
+      const items = await prisma.notification.findMany({
+        where: {
+          userId: schedule.userId,
+          releaseAt: null,
+          heldChannels: { has: 'email' },
+        },
+        orderBy: { createdAt: 'asc' },
+        take: DIGEST_BATCH_SIZE,
+      });
+      if (items.length === 0) continue;
+
+      const user = await prisma.user.findUnique({
+        where: { id: schedule.userId },
+        select: { email: true, name: true, landlordsOwned: { select: { id: true }, take: 1 } },
+      });
+
+      // Brand with the landlord behind the latest notification, falling back
+      // to the one the user owns
+      const landlordId =
+        [...items].reverse().find((item) => item.landlordId)?.landlordId ?? user?.landlordsOwned[0]?.id;
+      if (!user || !landlordId) continue;
+
+      try {
+        const landlord = await prisma.landlord.findUnique({
+          where: { id: landlordId },
+          select: { name: true, subdomain: true, logoUrl: true, useSubdomain: true },
+        });
+        if (!landlord) continue;
+
+        const title = formatDigestSubject(digestMode, items.length);
+        const { sendBrandedEmail } = await getEmailService();
+        await sendBrandedEmail({
+          to: user.email,
+          subject: title,
+          template: 'notification-digest',
+          data: {
+            recipientName: user.name,
+            title,
+            items: items.map((item) => ({
+              type: item.type,
+              title: item.title,
+              message: item.message,
+              actionUrl: item.actionUrl,
+              createdAt: formatDigestTime(item.createdAt, schedule.timezone),
+            })),
+            loginUrl: this.getLoginUrl(landlord),
+          },
+          landlordId,
+        });
+
+        await prisma.notification.updateMany({
+          where: { id: { in: items.map((item) => item.id) } },
+          data: { heldChannels: [] },
+        });
+        await prisma.notificationSettings.update({
+          where: { userId: schedule.userId },
+          data: { lastDigestSentAt: now },
+        });
+        sent++;
+      } catch (error) {
+        console.error(`Failed to send notification digest to user ${schedule.userId}:`, error);
+        failed++;
+      }
+    }
+
+    return { sent, failed };
+  }
+
+  // Sign-in link on the landlord's subdomain when they use one
+  private static getLoginUrl(landlord: { subdomain: string; useSubdomain: boolean }) {
+    // Get the root domain for login link
+    const rawApex = process.env.NEXT_PUBLIC_ROOT_DOMAIN || 'localhost:3000';
+
+    // Build login URL based on environment
+    const isLocalhost = rawApex.includes('localhost');
+    const protocol = isLocalhost ? 'http' : 'https';
+
+    // If landlord has a subdomain, use it for the login URL
+    if (landlord.subdomain && landlord.useSubdomain) {
+      return `${protocol}://${landlord.subdomain}.${rawApex}/sign-in`;
+    }
+    // Fallback to main domain
+    return `${protocol}://${rawApex}/sign-in`;
   }
 
   // Send email notification
@@ -122,21 +326,7 @@ export class NotificationService {
 
     if (!landlord) return;
 
-    // Get the root domain for login link
-    const rawApex = process.env.NEXT_PUBLIC_ROOT_DOMAIN || 'localhost:3000';
-    
-    // Build login URL based on environment
-    const isLocalhost = rawApex.includes('localhost');
-    const protocol = isLocalhost ? 'http' : 'https';
-    
-    // If landlord has a subdomain, use it for the login URL
-    let loginUrl: string;
-    if (landlord.subdomain && landlord.useSubdomain) {
-      loginUrl = `${protocol}://${landlord.subdomain}.${rawApex}/sign-in`;
-    } else {
-      // Fallback to main domain
-      loginUrl = `${protocol}://${rawApex}/sign-in`;
-    }
+    const loginUrl = this.getLoginUrl(landlord);
 
     try {
       const { sendBrandedEmail } = await getEmailService();
@@ -13,6 +13,8 @@ import type {
   OutstandingBalanceParams,
   BalanceDisposition,
 } from '@/types/tenant-lifecycle';
+import { syncLedgerSafely, syncRentPaymentLedger } from '@/lib/services/tenant-ledger.service';
+import { settleMoveOutProration } from '@/lib/services/proration.service';
 
 export class OffboardingService {
   /**
@@ -85,9 +87,10 @@ export class OffboardingService {
         // Continue - departure recording is not critical
       }
 
-      // Step 3: Cancel pending payments
+      // Step 3: Prorate the final billing period, then cancel the remaining pending payments
       try {
-        await this.cancelPendingPayments(leaseId);
+        const settled = await this.settleFinalPeriod(leaseId, departureDate);
+        await this.cancelPendingPayments(leaseId, settled);
       } catch (error: any) {
         result.errors?.push(`Failed to cancel pending payments: ${error.message}`);
         // Continue - not critical
@@ -191,18 +194,46 @@ export class OffboardingService {
   }
 
   /**
-   * Cancels all pending rent payments for a lease
+   * Credits unused days of the charges covering the departure date. Returns
+   * the settled payment ids; on failure nothing is settled and every pending
+   * payment is cancelled as before.
    */
-  private async cancelPendingPayments(leaseId: string): Promise<number> {
+  private async settleFinalPeriod(leaseId: string, departureDate: Date): Promise<string[]> {
+    try {
+      return await settleMoveOutProration(leaseId, departureDate);
+    } catch (error) {
+      console.error('Failed to prorate final billing period:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Cancels pending rent payments for a lease, except those kept for the
+   * days the tenant stayed in the final billing period
+   */
+  private async cancelPendingPayments(leaseId: string, keepPaymentIds: string[] = []): Promise<number> {
     const result = await prisma.rentPayment.updateMany({
       where: {
         leaseId,
         status: { in: ['pending', 'scheduled'] },
+        ...(keepPaymentIds.length > 0 && { id: { notIn: keepPaymentIds } }),
       },
       data: {
         status: 'cancelled',
       },
     });
+
+    // Void the cancelled charges on the tenant ledger
+    await syncLedgerSafely(`cancelled payments ${leaseId}`, async () => {
+      const cancelled = await prisma.rentPayment.findMany({
+        where: { leaseId, status: 'cancelled' },
+        select: { id: true },
+      });
+      for (const payment of cancelled) {
+        await syncRentPaymentLedger(payment.id);
+      }
+    });
+
     return result.count;
   }
 
@@ -332,6 +363,12 @@ export class OffboardingService {
             metadata: { writtenOff: true, writtenOffAt: new Date().toISOString() },
           },
         });
+
+        for (const payment of lease.rentPayments) {
+          await syncLedgerSafely(`write-off ${payment.id}`, () =>
+            syncRentPaymentLedger(payment.id)
+          );
+        }
         break;
 
       case 'apply_deposit':
@@ -351,6 +388,9 @@ export class OffboardingService {
                   metadata: { paidFromDeposit: true },
                 },
               });
+              await syncLedgerSafely(`deposit applied ${payment.id}`, () =>
+                syncRentPaymentLedger(payment.id)
+              );
               remaining -= paymentAmount;
             }
           }
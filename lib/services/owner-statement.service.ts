@@ -0,0 +1,578 @@
+/**
+ * Owner Statement Service
+ * For landlords who manage properties on behalf of owners. Resolves each
+ * owner's management-fee rules, rolls up the month's collected income and
+ * expenses per property, holds back the operating reserve and produces the
+ * net distribution owed to the owner.
+ *
+ * The calculation is pure (`calculateOwnerStatement`); the DB helpers only
+ * gather inputs and persist the result as an OwnerStatement row.
+ */
+
+import { prisma } from '@/db/prisma';
+import type { Prisma, PropertyOwner } from '@prisma/client';
+import { categoryForRentPaymentType } from './tenant-ledger.service';
+import { generateOwnerStatementPdf, type OwnerStatementReportData } from './report-pdf.service';
+
+// ============= Types =============
+
+export type OwnerFeeType = 'percent' | 'flat' | 'percent_with_minimum';
+
+export interface OwnerFeeRule {
+  feeType: OwnerFeeType;
+  managementFeePercent: number;
+  flatFeeMonthly: number;
+  minimumFeeMonthly: number;
+  leasingFeePercent: number;
+  maintenanceMarkupPercent: number;
+}
+
+export interface OwnerIncomeLine {
+  date: Date;
+  description: string;
+  category: string;
+  amount: number;
+}
+
+export interface OwnerExpenseLine {
+  date: Date;
+  description: string;
+  category: string;
+  amount: number;
+}
+
+export interface OwnerStatementPropertyInput {
+  propertyId: string;
+  propertyName: string;
+  /** PropertyFinance.managementFeePercent, which overrides the owner's percent */
+  managementFeePercentOverride?: number | null;
+  income: OwnerIncomeLine[];
+  expenses: OwnerExpenseLine[];
+  /** Monthly rent of leases that started during the period */
+  newLeaseRents: number[];
+}
+
+export interface OwnerStatementPropertySummary {
+  propertyId: string;
+  propertyName: string;
+  income: OwnerIncomeLine[];
+  expenses: OwnerExpenseLine[];
+  totalIncome: number;
+  totalExpenses: number;
+  managementFee: number;
+  leasingFee: number;
+  maintenanceMarkup: number;
+  totalFees: number;
+  net: number;
+}
+
+export interface OwnerStatementSummary {
+  properties: OwnerStatementPropertySummary[];
+  totalIncome: number;
+  totalExpenses: number;
+  managementFees: number;
+  cashAvailable: number;
+  reserveTarget: number;
+  openingReserve: number;
+  reserveContribution: number;
+  closingReserve: number;
+  netDistribution: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const sum = (values: number[]) => round2(values.reduce((total, value) => total + value, 0));
+
+// Deposits are held in trust for the tenant, not owner income
+const NON_INCOME_CATEGORIES = new Set(['security_deposit', 'pet_deposit']);
+
+// ============= Fee Rules =============
+
+export function resolveFeeRule(owner: {
+  feeType: string;
+  managementFeePercent?: number | Prisma.Decimal | null;
+  flatFeeMonthly?: number | Prisma.Decimal | null;
+  minimumFeeMonthly?: number | Prisma.Decimal | null;
+  leasingFeePercent?: number | Prisma.Decimal | null;
+  maintenanceMarkupPercent?: number | Prisma.Decimal | null;
+}): OwnerFeeRule {
+  const feeType: OwnerFeeType =
+    owner.feeType === 'flat' || owner.feeType === 'percent_with_minimum' ? owner.feeType : 'percent';
+
+  return {
+    feeType,
+    managementFeePercent: Number(owner.managementFeePercent ?? 0),
+    flatFeeMonthly: Number(owner.flatFeeMonthly ?? 0),
+    minimumFeeMonthly: Number(owner.minimumFeeMonthly ?? 0),
+    leasingFeePercent: Number(owner.leasingFeePercent ?? 0),
+    maintenanceMarkupPercent: Number(owner.maintenanceMarkupPercent ?? 0),
+  };
+}
+
+/**
+ * Monthly management fee for one property. A per-property percent from
+ * PropertyFinance takes precedence over the owner's default percent.
+ */
+export function calculateManagementFee(
+  rule: OwnerFeeRule,
+  collectedIncome: number,
+  percentOverride?: number | null
+): number {
+  if (rule.feeType === 'flat') {
+    return round2(Math.max(0, rule.flatFeeMonthly));
+  }
+
+  const percent = percentOverride ?? rule.managementFeePercent;
+  const percentFee = Math.max(0, collectedIncome) * (Math.max(0, percent) / 100);
+
+  if (rule.feeType === 'percent_with_minimum') {
+    return round2(Math.max(percentFee, Math.max(0, rule.minimumFeeMonthly)));
+  }
+
+  return round2(percentFee);
+}
+
+/**
+ * Split the cash left after expenses and fees between the reserve and the
+ * owner. Surplus tops the reserve up to its target first; a shortfall is
+ * covered from the reserve, and anything it can't cover is owed by the owner
+ * (a negative distribution).
+ */
+export function allocateReserve(
+  cashAvailable: number,
+  openingReserve: number,
+  reserveTarget: number
+): { reserveContribution: number; closingReserve: number; netDistribution: number } {
+  const opening = Math.max(0, openingReserve);
+
+  if (cashAvailable >= 0) {
+    const contribution = Math.min(cashAvailable, Math.max(0, reserveTarget - opening));
+    return {
+      reserveContribution: round2(contribution),
+      closingReserve: round2(opening + contribution),
+      netDistribution: round2(cashAvailable - contribution),
+    };
+  }
+
+  const draw = Math.min(opening, -cashAvailable);
+  return {
+    reserveContribution: round2(-draw),
+    closingReserve: round2(opening - draw),
+    netDistribution: round2(cashAvailable + draw),
+  };
+}
+
+export function calculateOwnerStatement(params: {
+  rule: OwnerFeeRule;
+  properties: OwnerStatementPropertyInput[];
+  openingReserve: number;
+  reservePerProperty: number;
+}): OwnerStatementSummary {
+  const { rule } = params;
+
+  const properties = params.properties.map((property): OwnerStatementPropertySummary => {
+    const totalIncome = sum(property.income.map((line) => line.amount));
+    const totalExpenses = sum(property.expenses.map((line) => line.amount));
+    const managementFee = calculateManagementFee(rule, totalIncome, property.managementFeePercentOverride);
+    const leasingFee = sum(
+      property.newLeaseRents.map((rent) => Math.max(0, rent) * (Math.max(0, rule.leasingFeePercent) / 100))
+    );
+    const maintenanceMarkup = round2(
+      Math.max(0, totalExpenses) * (Math.max(0, rule.maintenanceMarkupPercent) / 100)
+    );
+    const totalFees = round2(managementFee + leasingFee + maintenanceMarkup);
+
+    return {
+      propertyId: property.propertyId,
+      propertyName: property.propertyName,
+      income: property.income,
+      expenses: property.expenses,
+      totalIncome,
+      totalExpenses,
+      managementFee,
+      leasingFee,
+      maintenanceMarkup,
+      totalFees,
+      net: round2(totalIncome - totalExpenses - totalFees),
+    };
+  });
+
+  const totalIncome = sum(properties.map((p) => p.totalIncome));
+  const totalExpenses = sum(properties.map((p) => p.totalExpenses));
+  const managementFees = sum(properties.map((p) => p.totalFees));
+  const cashAvailable = round2(totalIncome - totalExpenses - managementFees);
+  const reserveTarget = round2(Math.max(0, params.reservePerProperty) * properties.length);
+  const openingReserve = round2(Math.max(0, params.openingReserve));
+
+  return {
+    properties,
+    totalIncome,
+    totalExpenses,
+    managementFees,
+    cashAvailable,
+    reserveTarget,
+    openingReserve,
+    ...allocateReserve(cashAvailable, openingReserve, reserveTarget),
+  };
+}
+
+export function getStatementPeriod(year: number, month: number): { periodStart: Date; periodEnd: Date } {
+  if (!Number.isInteger(year) || !Number.isInteger(month) || month < 1 || month > 12) {
+    throw new Error('Invalid statement period');
+  }
+  return {
+    periodStart: new Date(year, month - 1, 1, 0, 0, 0, 0),
+    periodEnd: new Date(year, month, 0, 23, 59, 59, 999),
+  };
+}
+
+// ============= Data Loading =============
+
+async function loadPropertyInputs(
+  owner: PropertyOwner,
+  periodStart: Date,
+  periodEnd: Date
+): Promise<OwnerStatementPropertyInput[]> {
+  const properties = await prisma.property.findMany({
+    where: { ownerId: owner.id, landlordId: owner.landlordId, deletedAt: null },
+    select: {
+      id: true,
+      name: true,
+      finance: { select: { managementFeePercent: true } },
+    },
+    orderBy: { name: 'asc' },
+  });
+  if (properties.length === 0) return [];
+
+  const propertyIds = properties.map((p) => p.id);
+
+  const [rentPayments, invoices, expenses, newLeases] = await Promise.all([
+    prisma.rentPayment.findMany({
+      where: {
+        status: 'paid',
+        paidAt: { gte: periodStart, lte: periodEnd },
+        lease: { unit: { propertyId: { in: propertyIds } } },
+      },
+      select: {
+        amount: true,
+        paidAt: true,
+        metadata: true,
+        lease: { select: { unit: { select: { name: true, propertyId: true } } } },
+      },
+    }),
+    prisma.tenantInvoice.findMany({
+      where: {
+        status: 'paid',
+        propertyId: { in: propertyIds },
+        paidAt: { gte: periodStart, lte: periodEnd },
+      },
+      select: { propertyId: true, amount: true, paidAt: true, reason: true },
+    }),
+    prisma.expense.findMany({
+      where: {
+        landlordId: owner.landlordId,
+        propertyId: { in: propertyIds },
+        incurredAt: { gte: periodStart, lte: periodEnd },
+      },
+      select: { propertyId: true, amount: true, incurredAt: true, category: true, description: true, vendor: true },
+    }),
+    prisma.lease.findMany({
+      where: {
+        startDate: { gte: periodStart, lte: periodEnd },
+        status: { in: ['active', 'pending_signature', 'ended'] },
+        unit: { propertyId: { in: propertyIds } },
+      },
+      select: { rentAmount: true, unit: { select: { propertyId: true } } },
+    }),
+  ]);
+
+  return properties.map((property) => {
+    const income: OwnerIncomeLine[] = [];
+
+    for (const payment of rentPayments) {
+      if (payment.lease.unit.propertyId !== property.id) continue;
+      const metadata = (payment.metadata || {}) as { type?: string };
+      const category = categoryForRentPaymentType(metadata.type);
+      if (NON_INCOME_CATEGORIES.has(category)) continue;
+      income.push({
+        date: payment.paidAt as Date,
+        description: `${category === 'rent' ? 'Rent' : category.replace(/_/g, ' ')} - Unit ${payment.lease.unit.name}`,
+        category,
+        amount: Number(payment.amount),
+      });
+    }
+
+    for (const invoice of invoices) {
+      if (invoice.propertyId !== property.id) continue;
+      income.push({
+        date: invoice.paidAt as Date,
+        description: invoice.reason,
+        category: 'invoice',
+        amount: Number(invoice.amount),
+      });
+    }
+
+    const expenseLines: OwnerExpenseLine[] = expenses
+      .filter((expense) => expense.propertyId === property.id)
+      .map((expense) => ({
+        date: expense.incurredAt,
+        description: expense.description || expense.vendor || expense.category,
+        category: expense.category,
+        amount: Number(expense.amount),
+      }));
+
+    income.sort((a, b) => a.date.getTime() - b.date.getTime());
+    expenseLines.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    return {
+      propertyId: property.id,
+      propertyName: property.name,
+      managementFeePercentOverride:
+        property.finance?.managementFeePercent != null ? Number(property.finance.managementFeePercent) : null,
+      income,
+      expenses: expenseLines,
+      newLeaseRents: newLeases
+        .filter((lease) => lease.unit.propertyId === property.id)
+        .map((lease) => Number(lease.rentAmount)),
+    };
+  });
+}
+
+// ============= Statements =============
+
+/**
+ * Build (or rebuild) the draft statement for an owner's month. Finalized and
+ * sent statements are never recalculated.
+ */
+export async function generateOwnerStatement(params: {
+  landlordId: string;
+  ownerId: string;
+  year: number;
+  month: number;
+}) {
+  const owner = await prisma.propertyOwner.findFirst({
+    where: { id: params.ownerId, landlordId: params.landlordId },
+  });
+  if (!owner) {
+    throw new Error('Owner not found');
+  }
+
+  const { periodStart, periodEnd } = getStatementPeriod(params.year, params.month);
+
+  const existing = await prisma.ownerStatement.findUnique({
+    where: { ownerId_periodStart: { ownerId: owner.id, periodStart } },
+  });
+  if (existing && existing.status !== 'draft') {
+    throw new Error('Statement has already been finalized');
+  }
+
+  // The reserve carries over from the previous statement
+  const previous = await prisma.ownerStatement.findFirst({
+    where: { ownerId: owner.id, periodStart: { lt: periodStart } },
+    orderBy: { periodStart: 'desc' },
+    select: { closingReserve: true },
+  });
+
+  const properties = await loadPropertyInputs(owner, periodStart, periodEnd);
+  const summary = calculateOwnerStatement({
+    rule: resolveFeeRule(owner),
+    properties,
+    openingReserve: previous ? Number(previous.closingReserve) : 0,
+    reservePerProperty: Number(owner.reserveAmount),
+  });
+
+  const data = {
+    totalIncome: summary.totalIncome,
+    totalExpenses: summary.totalExpenses,
+    managementFees: summary.managementFees,
+    openingReserve: summary.openingReserve,
+    reserveContribution: summary.reserveContribution,
+    closingReserve: summary.closingReserve,
+    netDistribution: summary.netDistribution,
+    data: JSON.parse(JSON.stringify(summary)) as Prisma.InputJsonValue,
+  };
+
+  return prisma.ownerStatement.upsert({
+    where: { ownerId_periodStart: { ownerId: owner.id, periodStart } },
+    create: {
+      landlordId: owner.landlordId,
+      ownerId: owner.id,
+      periodStart,
+      periodEnd,
+      ...data,
+    },
+    update: data,
+  });
+}
+
+/**
+ * Generate draft statements for every active owner of a landlord.
+ */
+export async function generateOwnerStatementsForLandlord(landlordId: string, year: number, month: number) {
+  const owners = await prisma.propertyOwner.findMany({
+    where: { landlordId, status: 'active' },
+    select: { id: true },
+  });
+
+  const results: { ownerId: string; success: boolean; statementId?: string; message?: string }[] = [];
+  for (const owner of owners) {
+    try {
+      const statement = await generateOwnerStatement({ landlordId, ownerId: owner.id, year, month });
+      results.push({ ownerId: owner.id, success: true, statementId: statement.id });
+    } catch (error) {
+      results.push({
+        ownerId: owner.id,
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to generate statement',
+      });
+    }
+  }
+  return results;
+}
+
+export async function renderOwnerStatementPdf(statementId: string, landlordId: string): Promise<Buffer> {
+  const statement = await prisma.ownerStatement.findFirst({
+    where: { id: statementId, landlordId },
+    include: {
+      owner: true,
+      landlord: { select: { name: true, companyName: true, companyEmail: true, companyPhone: true } },
+    },
+  });
+  if (!statement) {
+    throw new Error('Statement not found');
+  }
+
+  const summary = statement.data as unknown as OwnerStatementSummary;
+  const reportData: OwnerStatementReportData = {
+    ownerName: statement.owner.companyName || statement.owner.name,
+    managerName: statement.landlord.companyName || statement.landlord.name,
+    managerEmail: statement.landlord.companyEmail,
+    managerPhone: statement.landlord.companyPhone,
+    periodLabel: statement.periodStart.toLocaleDateString('en-US', { month: 'long', year: 'numeric' }),
+    generatedAt: new Date().toISOString(),
+    status: statement.status,
+    totals: {
+      totalIncome: Number(statement.totalIncome),
+      totalExpenses: Number(statement.totalExpenses),
+      managementFees: Number(statement.managementFees),
+      openingReserve: Number(statement.openingReserve),
+      reserveContribution: Number(statement.reserveContribution),
+      closingReserve: Number(statement.closingReserve),
+      netDistribution: Number(statement.netDistribution),
+    },
+    properties: (summary.properties || []).map((property) => ({
+      name: property.propertyName,
+      totalIncome: property.totalIncome,
+      totalExpenses: property.totalExpenses,
+      managementFee: property.managementFee,
+      leasingFee: property.leasingFee,
+      maintenanceMarkup: property.maintenanceMarkup,
+      net: property.net,
+      income: property.income.map((line) => ({ ...line, date: new Date(line.date).toISOString() })),
+      expenses: property.expenses.map((line) => ({ ...line, date: new Date(line.date).toISOString() })),
+    })),
+  };
+
+  return generateOwnerStatementPdf(reportData);
+}
+
+// ============= Owner Input =============
+
+export interface OwnerInput {
+  name?: string;
+  companyName?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  address?: Prisma.InputJsonValue | null;
+  status?: string;
+  notes?: string | null;
+  feeType?: string;
+  managementFeePercent?: number | string | null;
+  flatFeeMonthly?: number | string | null;
+  minimumFeeMonthly?: number | string | null;
+  leasingFeePercent?: number | string | null;
+  maintenanceMarkupPercent?: number | string | null;
+  reserveAmount?: number | string | null;
+}
+
+export interface OwnerFields {
+  name?: string;
+  companyName?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  address?: Prisma.InputJsonValue;
+  status?: string;
+  notes?: string | null;
+  feeType?: OwnerFeeType;
+  managementFeePercent?: number | null;
+  flatFeeMonthly?: number | null;
+  minimumFeeMonthly?: number | null;
+  leasingFeePercent?: number | null;
+  maintenanceMarkupPercent?: number | null;
+  reserveAmount?: number;
+}
+
+const FEE_TYPES: OwnerFeeType[] = ['percent', 'flat', 'percent_with_minimum'];
+
+/**
+ * Validate owner create/update input. Only keys present in the input are
+ * returned so the result can be used directly for partial updates.
+ */
+export function normalizeOwnerInput(
+  input: OwnerInput,
+  { requireName }: { requireName: boolean }
+): { data: OwnerFields } | { error: string } {
+  const data: OwnerFields = {};
+  const optionalText = (value: string | null | undefined) =>
+    typeof value === 'string' && value.trim() ? value.trim() : null;
+
+  if (input.name !== undefined || requireName) {
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+      return { error: 'Owner name is required' };
+    }
+    data.name = input.name.trim();
+  }
+  if (input.companyName !== undefined) data.companyName = optionalText(input.companyName);
+  if (input.email !== undefined) data.email = optionalText(input.email);
+  if (input.phone !== undefined) data.phone = optionalText(input.phone);
+  if (input.notes !== undefined) data.notes = optionalText(input.notes);
+  if (input.address !== undefined) data.address = input.address ?? undefined;
+
+  if (input.status !== undefined) {
+    if (input.status !== 'active' && input.status !== 'inactive') {
+      return { error: 'Invalid status' };
+    }
+    data.status = input.status;
+  }
+
+  if (input.feeType !== undefined) {
+    if (!FEE_TYPES.includes(input.feeType as OwnerFeeType)) {
+      return { error: 'Invalid fee type' };
+    }
+    data.feeType = input.feeType as OwnerFeeType;
+  }
+
+  const numericFields = [
+    ['managementFeePercent', 100],
+    ['flatFeeMonthly', null],
+    ['minimumFeeMonthly', null],
+    ['leasingFeePercent', 200],
+    ['maintenanceMarkupPercent', 100],
+    ['reserveAmount', null],
+  ] as const;
+
+  for (const [field, max] of numericFields) {
+    const raw = input[field];
+    if (raw === undefined) continue;
+    const value = raw === null || raw === '' ? null : typeof raw === 'string' ? Number(raw) : raw;
+    if (value !== null && (Number.isNaN(value) || value < 0 || (max !== null && value > max))) {
+      return { error: `Invalid ${field}` };
+    }
+    if (field === 'reserveAmount') {
+      data.reserveAmount = value ?? 0;
+    } else {
+      data[field] = value;
+    }
+  }
+
+  return { data };
+}
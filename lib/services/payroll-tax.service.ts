@@ -0,0 +1,1008 @@
+/**
+ * Payroll Tax Service
+ * Withholding and employer tax for contractor payroll runs and landlord team
+ * payments:
+ * 1. Federal income tax follows the Publication 15-T percentage method for
+ *    2020+ Forms W-4: wages are annualized, adjusted by Steps 2-4, taxed on
+ *    the year's brackets and spread back over the pay periods
+ * 2. Social Security stops at the annual wage base and additional Medicare
+ *    starts at its threshold, both measured against year-to-date wages from
+ *    earlier tax records
+ * 3. State withholding uses the employee's work state table (none, flat or
+ *    brackets); states without a table are refused rather than guessed
+ * 4. Retirement deferrals come out of federal and state wages but not FICA;
+ *    cafeteria (Section 125) deductions come out of all of them
+ * 5. Every paycheck stores a PayrollTaxRecord with the table version it was
+ *    computed with. Pay stubs, 941 summaries and W-2 figures all read those
+ *    records, and voided paychecks drop out of every total
+ *
+ * Tax tables live in lib/config/payroll-tax as one data file per year.
+ */
+
+import { prisma, type TransactionClient } from '@/db/prisma';
+import type { Prisma } from '@prisma/client';
+import { format } from 'date-fns';
+import {
+  FILING_STATUSES,
+  getTaxTable,
+  type FilingStatus,
+  type TaxBracket,
+  type TaxTable,
+} from '@/lib/config/payroll-tax';
+import { htmlToPdfBuffer } from './pdf';
+
+export const PAY_FREQUENCIES = {
+  weekly: 52,
+  biweekly: 26,
+  semimonthly: 24,
+  monthly: 12,
+} as const;
+export type PayFrequency = keyof typeof PAY_FREQUENCIES;
+
+export const PRE_TAX_DEDUCTION_KINDS = ['retirement', 'cafeteria'] as const;
+export type PreTaxDeductionKind = (typeof PRE_TAX_DEDUCTION_KINDS)[number];
+
+// Employee types withheld on; 1099 workers and subcontractors handle their own taxes
+const WITHHELD_EMPLOYEE_TYPES = ['w2'];
+
+const MAX_PRE_TAX_DEDUCTIONS = 10;
+
+// ============= Errors =============
+
+export const PayrollTaxErrorCodes = {
+  NOT_FOUND: 'NOT_FOUND',
+  INVALID_INPUT: 'INVALID_INPUT',
+  UNSUPPORTED: 'UNSUPPORTED',
+} as const;
+
+export type PayrollTaxErrorCode = typeof PayrollTaxErrorCodes[keyof typeof PayrollTaxErrorCodes];
+
+export class PayrollTaxError extends Error {
+  code: PayrollTaxErrorCode;
+
+  constructor(code: PayrollTaxErrorCode, message: string) {
+    super(message);
+    this.code = code;
+    this.name = 'PayrollTaxError';
+  }
+}
+
+export function getPayrollTaxErrorStatus(code: PayrollTaxErrorCode): number {
+  switch (code) {
+    case PayrollTaxErrorCodes.NOT_FOUND:
+      return 404;
+    case PayrollTaxErrorCodes.UNSUPPORTED:
+      return 422;
+    default:
+      return 400;
+  }
+}
+
+// ============= Types =============
+
+export interface PreTaxDeduction {
+  label: string;
+  kind: PreTaxDeductionKind;
+  /** Fixed amount per pay period */
+  amount?: number;
+  /** Percent of gross pay; used when no fixed amount is set */
+  percent?: number;
+}
+
+export interface TaxProfile {
+  filingStatus: FilingStatus;
+  multipleJobs: boolean;
+  dependentsAmount: number;
+  otherIncome: number;
+  deductions: number;
+  extraWithholding: number;
+  /** Exempt from federal income tax withholding only; FICA and state still apply */
+  exempt: boolean;
+  workState: string | null;
+  stateAllowances: number;
+  stateExtraWithholding: number;
+  preTaxDeductions: PreTaxDeduction[];
+}
+
+export interface YearToDate {
+  grossPay: number;
+  federalWages: number;
+  socialSecurityWages: number;
+  medicareWages: number;
+  federalWithholding: number;
+  socialSecurityTax: number;
+  medicareTax: number;
+  stateWithholding: number;
+  retirementDeductions: number;
+  cafeteriaDeductions: number;
+  netPay: number;
+}
+
+export interface DeductionLine {
+  label: string;
+  amount: number;
+  type: string; // federal_tax, state_tax, social_security, medicare, retirement, cafeteria, health, other
+}
+
+export interface PaycheckTaxes {
+  tableVersion: string;
+  taxYear: number;
+  quarter: number;
+  state: string | null;
+  grossPay: number;
+  retirementDeductions: number;
+  cafeteriaDeductions: number;
+  federalWages: number;
+  socialSecurityWages: number;
+  medicareWages: number;
+  additionalMedicareWages: number;
+  stateWages: number;
+  federalWithholding: number;
+  socialSecurityTax: number;
+  medicareTax: number;
+  stateWithholding: number;
+  employerSocialSecurity: number;
+  employerMedicare: number;
+  /** Pre-tax deductions and taxes, in pay stub order */
+  deductions: DeductionLine[];
+  totalDeductions: number;
+  netPay: number;
+}
+
+export type PayrollEmployer = { contractorId: string } | { landlordId: string };
+export type PayrollEmployee = { contractorEmployeeId: string } | { teamMemberId: string };
+
+export const DEFAULT_TAX_PROFILE: TaxProfile = {
+  filingStatus: 'single',
+  multipleJobs: false,
+  dependentsAmount: 0,
+  otherIncome: 0,
+  deductions: 0,
+  extraWithholding: 0,
+  exempt: false,
+  workState: null,
+  stateAllowances: 0,
+  stateExtraWithholding: 0,
+  preTaxDeductions: [],
+};
+
+export const EMPTY_YEAR_TO_DATE: YearToDate = {
+  grossPay: 0,
+  federalWages: 0,
+  socialSecurityWages: 0,
+  medicareWages: 0,
+  federalWithholding: 0,
+  socialSecurityTax: 0,
+  medicareTax: 0,
+  stateWithholding: 0,
+  retirementDeductions: 0,
+  cafeteriaDeductions: 0,
+  netPay: 0,
+};
+
+// ============= Calculation =============
+
+function roundMoney(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+export function isWithheldEmployeeType(employeeType: string): boolean {
+  return WITHHELD_EMPLOYEE_TYPES.includes(employeeType);
+}
+
+export function toPayFrequency(value: string | null | undefined): PayFrequency {
+  return value && value in PAY_FREQUENCIES ? (value as PayFrequency) : 'biweekly';
+}
+
+export function getQuarter(date: Date): number {
+  return Math.floor(date.getUTCMonth() / 3) + 1;
+}
+
+function requireTaxTable(year: number): TaxTable {
+  const table = getTaxTable(year);
+  if (!table) {
+    throw new PayrollTaxError(PayrollTaxErrorCodes.UNSUPPORTED, `No payroll tax table for ${year}`);
+  }
+  return table;
+}
+
+/**
+ * Tax on an annual amount. `widthScale` halves every bracket for the Form W-4
+ * Step 2 (multiple jobs) schedule.
+ */
+export function calculateBracketTax(taxable: number, brackets: TaxBracket[], widthScale = 1): number {
+  if (taxable <= 0) return 0;
+  let tax = 0;
+  for (let i = 0; i < brackets.length; i++) {
+    const floor = brackets[i].over * widthScale;
+    const ceiling = i + 1 < brackets.length ? brackets[i + 1].over * widthScale : Infinity;
+    if (taxable <= floor) break;
+    tax += ((Math.min(taxable, ceiling) - floor) * brackets[i].rate) / 100;
+  }
+  return tax;
+}
+
+function calculateFederalWithholding(
+  wages: number,
+  periods: number,
+  profile: TaxProfile,
+  table: TaxTable
+): number {
+  if (profile.exempt) return 0;
+
+  // Worksheet 1A, steps 1-2: annualize, then adjust for Step 4(a)/(b) and the standard deduction
+  const standardDeduction = table.federal.standardDeduction[profile.filingStatus];
+  const scale = profile.multipleJobs ? 0.5 : 1;
+  const annualWages = wages * periods + profile.otherIncome - profile.deductions;
+  const taxable = annualWages - standardDeduction * scale;
+  const annualTax = calculateBracketTax(taxable, table.federal.brackets[profile.filingStatus], scale);
+
+  // Step 3: credits for dependents, then Step 4(c) extra withholding
+  const perPeriod = Math.max(0, (annualTax - profile.dependentsAmount) / periods);
+  return roundMoney(perPeriod + profile.extraWithholding);
+}
+
+function calculateStateWithholding(
+  wages: number,
+  periods: number,
+  profile: TaxProfile,
+  table: TaxTable
+): number {
+  if (!profile.workState) return 0;
+  const state = table.states[profile.workState];
+  if (!state) {
+    throw new PayrollTaxError(
+      PayrollTaxErrorCodes.UNSUPPORTED,
+      `No ${table.year} withholding table for ${profile.workState}`
+    );
+  }
+  if (state.type === 'none') return 0;
+
+  const taxable =
+    wages * periods -
+    (state.standardDeduction?.[profile.filingStatus] ?? 0) -
+    (state.allowance ?? 0) * profile.stateAllowances;
+  const annualTax =
+    state.type === 'flat' ? (Math.max(0, taxable) * state.rate) / 100 : calculateBracketTax(taxable, state.brackets);
+
+  return roundMoney(annualTax / periods + profile.stateExtraWithholding);
+}
+
+function calculatePreTaxDeductions(grossPay: number, deductions: PreTaxDeduction[]): DeductionLine[] {
+  let remaining = grossPay;
+  const lines: DeductionLine[] = [];
+  for (const deduction of deductions) {
+    const requested = deduction.amount ?? (grossPay * (deduction.percent ?? 0)) / 100;
+    const amount = roundMoney(Math.min(Math.max(0, requested), remaining));
+    if (amount <= 0) continue;
+    remaining -= amount;
+    lines.push({ label: deduction.label, amount, type: deduction.kind });
+  }
+  return lines;
+}
+
+/**
+ * Taxes on one paycheck. `ytd` is everything paid to the employee earlier in
+ * the same tax year and drives the Social Security wage base and additional
+ * Medicare threshold.
+ */
+export function calculatePaycheckTaxes(input: {
+  grossPay: number;
+  payDate: Date;
+  payFrequency: PayFrequency;
+  profile: TaxProfile;
+  ytd: YearToDate;
+}): PaycheckTaxes {
+  const { profile, ytd } = input;
+  const grossPay = roundMoney(Math.max(0, input.grossPay));
+  const taxYear = input.payDate.getUTCFullYear();
+  const table = requireTaxTable(taxYear);
+  const periods = PAY_FREQUENCIES[input.payFrequency];
+  const stateTable = profile.workState ? table.states[profile.workState] : undefined;
+
+  const preTaxLines = calculatePreTaxDeductions(grossPay, profile.preTaxDeductions);
+  const sumKind = (kind: PreTaxDeductionKind) =>
+    roundMoney(preTaxLines.filter((line) => line.type === kind).reduce((sum, line) => sum + line.amount, 0));
+  const retirementDeductions = sumKind('retirement');
+  const cafeteriaDeductions = sumKind('cafeteria');
+
+  const federalWages = roundMoney(grossPay - retirementDeductions - cafeteriaDeductions);
+  const ficaWages = roundMoney(grossPay - cafeteriaDeductions);
+  const stateWages =
+    stateTable && stateTable.type !== 'none' && stateTable.taxesRetirementContributions
+      ? ficaWages
+      : federalWages;
+
+  const { fica } = table;
+  const socialSecurityWages = roundMoney(
+    Math.min(ficaWages, Math.max(0, fica.socialSecurityWageBase - ytd.socialSecurityWages))
+  );
+  const additionalMedicareWages = roundMoney(
+    Math.max(0, ytd.medicareWages + ficaWages - fica.additionalMedicareThreshold) -
+      Math.max(0, ytd.medicareWages - fica.additionalMedicareThreshold)
+  );
+
+  const federalWithholding = calculateFederalWithholding(federalWages, periods, profile, table);
+  const socialSecurityTax = roundMoney((socialSecurityWages * fica.socialSecurityRate) / 100);
+  const medicareTax = roundMoney(
+    (ficaWages * fica.medicareRate) / 100 + (additionalMedicareWages * fica.additionalMedicareRate) / 100
+  );
+  const stateWithholding = calculateStateWithholding(stateWages, periods, profile, table);
+
+  const taxLines: DeductionLine[] = [
+    { label: 'Federal Income Tax', amount: federalWithholding, type: 'federal_tax' },
+    { label: 'Social Security', amount: socialSecurityTax, type: 'social_security' },
+    { label: 'Medicare', amount: medicareTax, type: 'medicare' },
+    ...(profile.workState
+      ? [{ label: `${profile.workState} State Income Tax`, amount: stateWithholding, type: 'state_tax' }]
+      : []),
+  ];
+  const deductions = [...preTaxLines, ...taxLines.filter((line) => line.amount > 0)];
+
+  // Refuse a run whose withholding would take more than the check
+  const totalDeductions = roundMoney(deductions.reduce((sum, line) => sum + line.amount, 0));
+  if (totalDeductions > grossPay) {
+    throw new PayrollTaxError(
+      PayrollTaxErrorCodes.INVALID_INPUT,
+      `Deductions of ${totalDeductions.toFixed(2)} exceed gross pay of ${grossPay.toFixed(2)}; lower the extra withholding or pre-tax deductions`
+    );
+  }
+
+  return {
+    tableVersion: table.version,
+    taxYear,
+    quarter: getQuarter(input.payDate),
+    state: profile.workState,
+    grossPay,
+    retirementDeductions,
+    cafeteriaDeductions,
+    federalWages,
+    socialSecurityWages,
+    medicareWages: ficaWages,
+    additionalMedicareWages,
+    stateWages: profile.workState ? stateWages : 0,
+    federalWithholding,
+    socialSecurityTax,
+    medicareTax,
+    stateWithholding,
+    employerSocialSecurity: socialSecurityTax,
+    employerMedicare: roundMoney((ficaWages * fica.medicareRate) / 100),
+    deductions,
+    totalDeductions,
+    netPay: roundMoney(grossPay - totalDeductions),
+  };
+}
+
+// ============= Reports =============
+
+export interface TaxRecordFigures {
+  payDate: Date;
+  state: string | null;
+  grossPay: number;
+  retirementDeductions: number;
+  cafeteriaDeductions: number;
+  federalWages: number;
+  socialSecurityWages: number;
+  medicareWages: number;
+  additionalMedicareWages: number;
+  stateWages: number;
+  federalWithholding: number;
+  socialSecurityTax: number;
+  medicareTax: number;
+  stateWithholding: number;
+  employerSocialSecurity: number;
+  employerMedicare: number;
+  netPay: number;
+}
+
+export interface QuarterlySummary {
+  year: number;
+  quarter: number;
+  /** Line 1: employees paid during the quarter */
+  employeeCount: number;
+  /** Line 2 */
+  wages: number;
+  /** Line 3 */
+  federalWithholding: number;
+  /** Lines 5a, 5c, 5d: wages and combined employee + employer tax */
+  socialSecurityWages: number;
+  socialSecurityTax: number;
+  medicareWages: number;
+  medicareTax: number;
+  additionalMedicareWages: number;
+  additionalMedicareTax: number;
+  /** Line 5e */
+  totalFicaTax: number;
+  /** Line 6 */
+  totalTaxBeforeAdjustments: number;
+  /** Line 7: difference between 5e and the per-paycheck amounts actually withheld and owed */
+  fractionsOfCents: number;
+  /** Line 10 */
+  totalTax: number;
+  /** Line 16: tax liability by month of the quarter */
+  monthlyLiability: [number, number, number];
+}
+
+export interface W2Summary {
+  /** Box 1 */
+  wages: number;
+  /** Box 2 */
+  federalWithholding: number;
+  /** Box 3 */
+  socialSecurityWages: number;
+  /** Box 4 */
+  socialSecurityTax: number;
+  /** Box 5 */
+  medicareWages: number;
+  /** Box 6 */
+  medicareTax: number;
+  /** Box 12, code D: elective 401(k) deferrals */
+  retirementDeferrals: number;
+  /** Boxes 15-17 */
+  states: { state: string; wages: number; withholding: number }[];
+}
+
+/** The figures a PayrollTaxRecord keeps for one calculated paycheck */
+export function toRecordFigures(taxes: PaycheckTaxes, payDate: Date): TaxRecordFigures {
+  return {
+    payDate,
+    state: taxes.state,
+    grossPay: taxes.grossPay,
+    retirementDeductions: taxes.retirementDeductions,
+    cafeteriaDeductions: taxes.cafeteriaDeductions,
+    federalWages: taxes.federalWages,
+    socialSecurityWages: taxes.socialSecurityWages,
+    medicareWages: taxes.medicareWages,
+    additionalMedicareWages: taxes.additionalMedicareWages,
+    stateWages: taxes.stateWages,
+    federalWithholding: taxes.federalWithholding,
+    socialSecurityTax: taxes.socialSecurityTax,
+    medicareTax: taxes.medicareTax,
+    stateWithholding: taxes.stateWithholding,
+    employerSocialSecurity: taxes.employerSocialSecurity,
+    employerMedicare: taxes.employerMedicare,
+    netPay: taxes.netPay,
+  };
+}
+
+function sumField(records: TaxRecordFigures[], field: keyof Omit<TaxRecordFigures, 'payDate' | 'state'>): number {
+  return roundMoney(records.reduce((sum, record) => sum + record[field], 0));
+}
+
+export function summarizeYearToDate(records: TaxRecordFigures[]): YearToDate {
+  return {
+    grossPay: sumField(records, 'grossPay'),
+    federalWages: sumField(records, 'federalWages'),
+    socialSecurityWages: sumField(records, 'socialSecurityWages'),
+    medicareWages: sumField(records, 'medicareWages'),
+    federalWithholding: sumField(records, 'federalWithholding'),
+    socialSecurityTax: sumField(records, 'socialSecurityTax'),
+    medicareTax: sumField(records, 'medicareTax'),
+    stateWithholding: sumField(records, 'stateWithholding'),
+    retirementDeductions: sumField(records, 'retirementDeductions'),
+    cafeteriaDeductions: sumField(records, 'cafeteriaDeductions'),
+    netPay: sumField(records, 'netPay'),
+  };
+}
+
+/** Form 941 figures for one quarter's non-voided records */
+export function summarizeQuarter(
+  records: (TaxRecordFigures & { employeeId: string })[],
+  year: number,
+  quarter: number
+): QuarterlySummary {
+  const { fica } = requireTaxTable(year);
+  const socialSecurityWages = sumField(records, 'socialSecurityWages');
+  const medicareWages = sumField(records, 'medicareWages');
+  const additionalMedicareWages = sumField(records, 'additionalMedicareWages');
+  const federalWithholding = sumField(records, 'federalWithholding');
+
+  const socialSecurityTax = roundMoney((socialSecurityWages * fica.socialSecurityRate * 2) / 100);
+  const medicareTax = roundMoney((medicareWages * fica.medicareRate * 2) / 100);
+  const additionalMedicareTax = roundMoney((additionalMedicareWages * fica.additionalMedicareRate) / 100);
+  const totalFicaTax = roundMoney(socialSecurityTax + medicareTax + additionalMedicareTax);
+
+  const ficaPaid = (record: TaxRecordFigures) =>
+    record.socialSecurityTax + record.medicareTax + record.employerSocialSecurity + record.employerMedicare;
+  const fractionsOfCents = roundMoney(records.reduce((sum, record) => sum + ficaPaid(record), 0) - totalFicaTax);
+  const totalTaxBeforeAdjustments = roundMoney(federalWithholding + totalFicaTax);
+
+  const monthlyLiability: [number, number, number] = [0, 0, 0];
+  for (const record of records) {
+    const month = record.payDate.getUTCMonth() % 3;
+    monthlyLiability[month] = roundMoney(monthlyLiability[month] + record.federalWithholding + ficaPaid(record));
+  }
+
+  return {
+    year,
+    quarter,
+    employeeCount: new Set(records.map((record) => record.employeeId)).size,
+    wages: sumField(records, 'federalWages'),
+    federalWithholding,
+    socialSecurityWages,
+    socialSecurityTax,
+    medicareWages,
+    medicareTax,
+    additionalMedicareWages,
+    additionalMedicareTax,
+    totalFicaTax,
+    totalTaxBeforeAdjustments,
+    fractionsOfCents,
+    totalTax: roundMoney(totalTaxBeforeAdjustments + fractionsOfCents),
+    monthlyLiability,
+  };
+}
+
+/** W-2 boxes for one employee's non-voided records in a year */
+export function buildW2(records: TaxRecordFigures[]): W2Summary {
+  const byState = new Map<string, TaxRecordFigures[]>();
+  for (const record of records) {
+    if (!record.state) continue;
+    byState.set(record.state, [...(byState.get(record.state) ?? []), record]);
+  }
+
+  return {
+    wages: sumField(records, 'federalWages'),
+    federalWithholding: sumField(records, 'federalWithholding'),
+    socialSecurityWages: sumField(records, 'socialSecurityWages'),
+    socialSecurityTax: sumField(records, 'socialSecurityTax'),
+    medicareWages: sumField(records, 'medicareWages'),
+    medicareTax: sumField(records, 'medicareTax'),
+    retirementDeferrals: sumField(records, 'retirementDeductions'),
+    states: [...byState.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([state, stateRecords]) => ({
+        state,
+        wages: sumField(stateRecords, 'stateWages'),
+        withholding: sumField(stateRecords, 'stateWithholding'),
+      })),
+  };
+}
+
+// ============= Input parsing =============
+
+function parseAmount(value: unknown, field: string, fallback = 0): number {
+  if (value === undefined || value === null || value === '') return fallback;
+  const amount = Number(value);
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new PayrollTaxError(PayrollTaxErrorCodes.INVALID_INPUT, `${field} must be a non-negative number`);
+  }
+  return roundMoney(amount);
+}
+
+function parsePreTaxDeductions(value: unknown): PreTaxDeduction[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.length > MAX_PRE_TAX_DEDUCTIONS) {
+    throw new PayrollTaxError(
+      PayrollTaxErrorCodes.INVALID_INPUT,
+      `preTaxDeductions must be a list of at most ${MAX_PRE_TAX_DEDUCTIONS} deductions`
+    );
+  }
+
+  return value.map((raw, index) => {
+    const item = (raw ?? {}) as Record<string, unknown>;
+    const label = typeof item.label === 'string' ? item.label.trim() : '';
+    if (!label) {
+      throw new PayrollTaxError(PayrollTaxErrorCodes.INVALID_INPUT, `preTaxDeductions[${index}].label is required`);
+    }
+    if (!PRE_TAX_DEDUCTION_KINDS.includes(item.kind as PreTaxDeductionKind)) {
+      throw new PayrollTaxError(
+        PayrollTaxErrorCodes.INVALID_INPUT,
+        `preTaxDeductions[${index}].kind must be one of: ${PRE_TAX_DEDUCTION_KINDS.join(', ')}`
+      );
+    }
+    const hasAmount = item.amount !== undefined && item.amount !== null && item.amount !== '';
+    const hasPercent = item.percent !== undefined && item.percent !== null && item.percent !== '';
+    if (hasAmount === hasPercent) {
+      throw new PayrollTaxError(
+        PayrollTaxErrorCodes.INVALID_INPUT,
+        `preTaxDeductions[${index}] needs either an amount or a percent`
+      );
+    }
+    if (hasPercent) {
+      const percent = parseAmount(item.percent, `preTaxDeductions[${index}].percent`);
+      if (percent > 100) {
+        throw new PayrollTaxError(
+          PayrollTaxErrorCodes.INVALID_INPUT,
+          `preTaxDeductions[${index}].percent must be 100 or less`
+        );
+      }
+      return { label: label.slice(0, 60), kind: item.kind as PreTaxDeductionKind, percent };
+    }
+    return {
+      label: label.slice(0, 60),
+      kind: item.kind as PreTaxDeductionKind,
+      amount: parseAmount(item.amount, `preTaxDeductions[${index}].amount`),
+    };
+  });
+}
+
+export function parseTaxProfileInput(body: unknown, year = new Date().getFullYear()): TaxProfile {
+  const input = (body ?? {}) as Record<string, unknown>;
+
+  const filingStatus = (input.filingStatus ?? DEFAULT_TAX_PROFILE.filingStatus) as FilingStatus;
+  if (!FILING_STATUSES.includes(filingStatus)) {
+    throw new PayrollTaxError(
+      PayrollTaxErrorCodes.INVALID_INPUT,
+      `filingStatus must be one of: ${FILING_STATUSES.join(', ')}`
+    );
+  }
+
+  let workState: string | null = null;
+  if (typeof input.workState === 'string' && input.workState.trim()) {
+    workState = input.workState.trim().toUpperCase();
+    const table = getTaxTable(year);
+    if (table && !table.states[workState]) {
+      throw new PayrollTaxError(
+        PayrollTaxErrorCodes.UNSUPPORTED,
+        `State withholding for ${workState} isn't supported yet`
+      );
+    }
+  }
+
+  const stateAllowances = Number(input.stateAllowances ?? 0);
+  if (!Number.isInteger(stateAllowances) || stateAllowances < 0 || stateAllowances > 99) {
+    throw new PayrollTaxError(PayrollTaxErrorCodes.INVALID_INPUT, 'stateAllowances must be a whole number from 0 to 99');
+  }
+
+  return {
+    filingStatus,
+    multipleJobs: input.multipleJobs === true,
+    dependentsAmount: parseAmount(input.dependentsAmount, 'dependentsAmount'),
+    otherIncome: parseAmount(input.otherIncome, 'otherIncome'),
+    deductions: parseAmount(input.deductions, 'deductions'),
+    extraWithholding: parseAmount(input.extraWithholding, 'extraWithholding'),
+    exempt: input.exempt === true,
+    workState,
+    stateAllowances,
+    stateExtraWithholding: parseAmount(input.stateExtraWithholding, 'stateExtraWithholding'),
+    preTaxDeductions: parsePreTaxDeductions(input.preTaxDeductions),
+  };
+}
+
+// ============= Persistence =============
+
+type TaxProfileRow = Prisma.PayrollTaxProfileGetPayload<object>;
+type TaxRecordRow = Prisma.PayrollTaxRecordGetPayload<object>;
+
+export function toTaxProfile(row: TaxProfileRow | null): TaxProfile {
+  if (!row) return { ...DEFAULT_TAX_PROFILE };
+  return {
+    filingStatus: FILING_STATUSES.includes(row.filingStatus as FilingStatus)
+      ? (row.filingStatus as FilingStatus)
+      : 'single',
+    multipleJobs: row.multipleJobs,
+    dependentsAmount: Number(row.dependentsAmount),
+    otherIncome: Number(row.otherIncome),
+    deductions: Number(row.deductions),
+    extraWithholding: Number(row.extraWithholding),
+    exempt: row.exempt,
+    workState: row.workState,
+    stateAllowances: row.stateAllowances,
+    stateExtraWithholding: Number(row.stateExtraWithholding),
+    preTaxDeductions: Array.isArray(row.preTaxDeductions)
+      ? (row.preTaxDeductions as unknown as PreTaxDeduction[])
+      : [],
+  };
+}
+
+export function toTaxRecordFigures(row: TaxRecordRow): TaxRecordFigures {
+  return {
+    payDate: row.payDate,
+    state: row.state,
+    grossPay: Number(row.grossPay),
+    retirementDeductions: Number(row.retirementDeductions),
+    cafeteriaDeductions: Number(row.cafeteriaDeductions),
+    federalWages: Number(row.federalWages),
+    socialSecurityWages: Number(row.socialSecurityWages),
+    medicareWages: Number(row.medicareWages),
+    additionalMedicareWages: Number(row.additionalMedicareWages),
+    stateWages: Number(row.stateWages),
+    federalWithholding: Number(row.federalWithholding),
+    socialSecurityTax: Number(row.socialSecurityTax),
+    medicareTax: Number(row.medicareTax),
+    stateWithholding: Number(row.stateWithholding),
+    employerSocialSecurity: Number(row.employerSocialSecurity),
+    employerMedicare: Number(row.employerMedicare),
+    netPay: Number(row.netPay),
+  };
+}
+
+function employeeWhere(employee: PayrollEmployee): Prisma.PayrollTaxRecordWhereInput {
+  return 'contractorEmployeeId' in employee
+    ? { contractorEmployeeId: employee.contractorEmployeeId }
+    : { teamMemberId: employee.teamMemberId };
+}
+
+function employerWhere(employer: PayrollEmployer): Prisma.PayrollTaxRecordWhereInput {
+  return 'contractorId' in employer ? { contractorId: employer.contractorId } : { landlordId: employer.landlordId };
+}
+
+export async function getTaxProfile(
+  employee: PayrollEmployee,
+  db: TransactionClient = prisma
+): Promise<TaxProfile> {
+  const row = await db.payrollTaxProfile.findUnique({ where: employee as Prisma.PayrollTaxProfileWhereUniqueInput });
+  return toTaxProfile(row);
+}
+
+export async function saveTaxProfile(employee: PayrollEmployee, profile: TaxProfile): Promise<TaxProfile> {
+  const data = { ...profile, preTaxDeductions: profile.preTaxDeductions as unknown as Prisma.InputJsonValue };
+  const row = await prisma.payrollTaxProfile.upsert({
+    where: employee as Prisma.PayrollTaxProfileWhereUniqueInput,
+    create: { ...employee, ...data },
+    update: data,
+  });
+  return toTaxProfile(row);
+}
+
+export async function getYearToDate(
+  employee: PayrollEmployee,
+  taxYear: number,
+  db: TransactionClient = prisma
+): Promise<YearToDate> {
+  const records = await db.payrollTaxRecord.findMany({
+    where: { ...employeeWhere(employee), taxYear, voidedAt: null },
+  });
+  return summarizeYearToDate(records.map(toTaxRecordFigures));
+}
+
+/**
+ * Computes and records the taxes on one paycheck. Call inside the transaction
+ * that creates the paycheck so later paychecks in the run see its YTD wages.
+ */
+export async function withholdPaycheckTaxes(
+  tx: TransactionClient,
+  input: {
+    employer: PayrollEmployer;
+    employee: PayrollEmployee;
+    grossPay: number;
+    payDate: Date;
+    payFrequency: PayFrequency;
+  }
+): Promise<PaycheckTaxes> {
+  const profile = await getTaxProfile(input.employee, tx);
+  const ytd = await getYearToDate(input.employee, input.payDate.getUTCFullYear(), tx);
+  return calculatePaycheckTaxes({ ...input, profile, ytd });
+}
+
+export async function recordPaycheckTaxes(
+  tx: TransactionClient,
+  taxes: PaycheckTaxes,
+  link: {
+    employer: PayrollEmployer;
+    employee: PayrollEmployee;
+    payDate: Date;
+    paycheck: { contractorPaycheckId: string } | { teamPaymentId: string };
+  }
+) {
+  return tx.payrollTaxRecord.create({
+    data: {
+      ...link.employer,
+      ...link.employee,
+      ...link.paycheck,
+      ...toRecordFigures(taxes, link.payDate),
+      taxYear: taxes.taxYear,
+      quarter: taxes.quarter,
+      tableVersion: taxes.tableVersion,
+    },
+  });
+}
+
+export async function voidPaycheckTaxes(
+  paycheck: { contractorPaycheckId: string } | { teamPaymentId: string },
+  voided: boolean,
+  db: TransactionClient = prisma
+): Promise<void> {
+  await db.payrollTaxRecord.updateMany({
+    where: paycheck,
+    data: { voidedAt: voided ? new Date() : null },
+  });
+}
+
+export async function getQuarterlyReport(
+  employer: PayrollEmployer,
+  year: number,
+  quarter: number
+): Promise<QuarterlySummary> {
+  if (!Number.isInteger(quarter) || quarter < 1 || quarter > 4) {
+    throw new PayrollTaxError(PayrollTaxErrorCodes.INVALID_INPUT, 'quarter must be 1-4');
+  }
+  const records = await prisma.payrollTaxRecord.findMany({
+    where: { ...employerWhere(employer), taxYear: year, quarter, voidedAt: null },
+  });
+  return summarizeQuarter(
+    records.map((record) => ({
+      ...toTaxRecordFigures(record),
+      employeeId: record.contractorEmployeeId ?? record.teamMemberId ?? record.id,
+    })),
+    year,
+    quarter
+  );
+}
+
+export async function getW2Report(
+  employer: PayrollEmployer,
+  year: number
+): Promise<{ employeeId: string; name: string; w2: W2Summary }[]> {
+  const records = await prisma.payrollTaxRecord.findMany({
+    where: { ...employerWhere(employer), taxYear: year, voidedAt: null },
+    include: {
+      contractorEmployee: { select: { firstName: true, lastName: true } },
+      teamMember: { select: { invitedEmail: true, user: { select: { name: true } } } },
+    },
+    orderBy: { payDate: 'asc' },
+  });
+
+  const byEmployee = new Map<string, { name: string; records: TaxRecordFigures[] }>();
+  for (const record of records) {
+    const employeeId = record.contractorEmployeeId ?? record.teamMemberId ?? record.id;
+    const name = record.contractorEmployee
+      ? `${record.contractorEmployee.firstName} ${record.contractorEmployee.lastName}`
+      : record.teamMember?.user?.name ?? record.teamMember?.invitedEmail ?? 'Unknown';
+    const entry = byEmployee.get(employeeId) ?? { name, records: [] };
+    entry.records.push(toTaxRecordFigures(record));
+    byEmployee.set(employeeId, entry);
+  }
+
+  return [...byEmployee.entries()]
+    .map(([employeeId, entry]) => ({ employeeId, name: entry.name, w2: buildW2(entry.records) }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// ============= Pay stubs =============
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function money(value: number): string {
+  return `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export interface PayStub {
+  employerName: string;
+  employeeName: string;
+  periodStart: Date;
+  periodEnd: Date;
+  payDate: Date;
+  earnings: { label: string; hours?: number; rate?: number; amount: number }[];
+  deductions: DeductionLine[];
+  grossPay: number;
+  netPay: number;
+  ytd: YearToDate;
+  tableVersion: string | null;
+  voided: boolean;
+}
+
+export function generatePayStubHtml(stub: PayStub): string {
+  const row = (cells: string[]) => `<tr>${cells.map((cell) => `<td>${cell}</td>`).join('')}</tr>`;
+  const ytdByType: Record<string, number> = {
+    federal_tax: stub.ytd.federalWithholding,
+    social_security: stub.ytd.socialSecurityTax,
+    medicare: stub.ytd.medicareTax,
+    state_tax: stub.ytd.stateWithholding,
+    retirement: stub.ytd.retirementDeductions,
+    cafeteria: stub.ytd.cafeteriaDeductions,
+  };
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<style>
+  body { font-family: Helvetica, Arial, sans-serif; font-size: 12px; color: #111827; margin: 40px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  .muted { color: #6b7280; }
+  .void { color: #b91c1c; font-weight: bold; font-size: 16px; }
+  table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+  th, td { padding: 6px 8px; border-bottom: 1px solid #e5e7eb; text-align: right; }
+  th:first-child, td:first-child { text-align: left; }
+  th { background: #f3f4f6; font-size: 11px; text-transform: uppercase; }
+  .total td { font-weight: bold; border-top: 2px solid #111827; }
+</style>
+</head>
+<body>
+  <h1>${escapeHtml(stub.employerName)}</h1>
+  <div>Earnings statement for <strong>${escapeHtml(stub.employeeName)}</strong></div>
+  <div class="muted">Pay period ${format(stub.periodStart, 'MMM d, yyyy')} – ${format(stub.periodEnd, 'MMM d, yyyy')} · Paid ${format(stub.payDate, 'MMM d, yyyy')}</div>
+  ${stub.voided ? '<p class="void">VOID</p>' : ''}
+  <table>
+    <thead><tr><th>Earnings</th><th>Hours</th><th>Rate</th><th>Current</th></tr></thead>
+    <tbody>
+      ${stub.earnings
+        .map((line) =>
+          row([
+            escapeHtml(line.label),
+            line.hours !== undefined ? line.hours.toFixed(2) : '',
+            line.rate !== undefined ? money(line.rate) : '',
+            money(line.amount),
+          ])
+        )
+        .join('')}
+      <tr class="total">${['Gross pay', '', '', money(stub.grossPay)].map((cell) => `<td>${cell}</td>`).join('')}</tr>
+    </tbody>
+  </table>
+  <table>
+    <thead><tr><th>Deductions</th><th>Current</th><th>Year to date</th></tr></thead>
+    <tbody>
+      ${stub.deductions
+        .map((line) =>
+          row([escapeHtml(line.label), money(line.amount), line.type in ytdByType ? money(ytdByType[line.type]) : ''])
+        )
+        .join('')}
+      <tr class="total">${['Net pay', money(stub.netPay), money(stub.ytd.netPay)].map((cell) => `<td>${cell}</td>`).join('')}</tr>
+    </tbody>
+  </table>
+  <p class="muted">Year-to-date gross ${money(stub.ytd.grossPay)}${stub.tableVersion ? ` · Withholding computed with tax table ${escapeHtml(stub.tableVersion)}` : ''}</p>
+</body>
+</html>`;
+}
+
+export async function generateContractorPayStubPdf(
+  contractorId: string,
+  payrollId: string,
+  paycheckId: string
+): Promise<{ filename: string; pdf: Buffer }> {
+  const paycheck = await prisma.contractorPaycheck.findFirst({
+    where: { id: paycheckId, payrollId, contractorId },
+    include: {
+      payroll: true,
+      employee: { select: { firstName: true, lastName: true } },
+      contractor: { select: { businessName: true } },
+      taxRecord: true,
+    },
+  });
+  if (!paycheck) {
+    throw new PayrollTaxError(PayrollTaxErrorCodes.NOT_FOUND, 'Paycheck not found');
+  }
+
+  // YTD through this check: everything earlier in the year plus this check itself
+  const payDate = paycheck.taxRecord?.payDate ?? paycheck.payroll.payDate;
+  const ytdRecords = await prisma.payrollTaxRecord.findMany({
+    where: {
+      contractorEmployeeId: paycheck.employeeId,
+      taxYear: payDate.getUTCFullYear(),
+      payDate: { lte: payDate },
+      voidedAt: null,
+    },
+  });
+
+  const earnings: PayStub['earnings'] = [
+    paycheck.payType === 'salary'
+      ? { label: 'Salary', amount: Number(paycheck.regularPay) || Number(paycheck.grossPay) - Number(paycheck.ptoPay) }
+      : { label: 'Regular', hours: Number(paycheck.regularHours), rate: Number(paycheck.payRate), amount: Number(paycheck.regularPay) },
+  ];
+  if (Number(paycheck.overtimeHours) > 0) {
+    earnings.push({
+      label: 'Overtime',
+      hours: Number(paycheck.overtimeHours),
+      rate: Number(paycheck.overtimeRate),
+      amount: Number(paycheck.overtimePay),
+    });
+  }
+  if (Number(paycheck.ptoHours) > 0) {
+    earnings.push({ label: 'Paid time off', hours: Number(paycheck.ptoHours), amount: Number(paycheck.ptoPay) });
+  }
+
+  const employeeName = `${paycheck.employee.firstName} ${paycheck.employee.lastName}`;
+  const html = generatePayStubHtml({
+    employerName: paycheck.contractor.businessName,
+    employeeName,
+    periodStart: paycheck.payroll.periodStart,
+    periodEnd: paycheck.payroll.periodEnd,
+    payDate,
+    earnings,
+    deductions: Array.isArray(paycheck.deductions) ? (paycheck.deductions as unknown as DeductionLine[]) : [],
+    grossPay: Number(paycheck.grossPay),
+    netPay: Number(paycheck.netPay),
+    ytd: summarizeYearToDate(ytdRecords.map(toTaxRecordFigures)),
+    tableVersion: paycheck.taxRecord?.tableVersion ?? null,
+    voided: paycheck.status === 'void',
+  });
+
+  return {
+    filename: `pay-stub-${employeeName.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-${format(payDate, 'yyyy-MM-dd')}.pdf`,
+    pdf: await htmlToPdfBuffer(html),
+  };
+}
@@ -0,0 +1,989 @@
+/**
+ * Price Book Service
+ * Line-item quoting from a contractor's price book:
+ * 1. Price book items are services, labor rates or materials. A fixed unit
+ *    price wins; otherwise the unit cost (the linked inventory item's cost for
+ *    materials) is marked up by the item's own percentage or the most specific
+ *    markup rule for its type, category and cost tier
+ * 2. Quotes are built from line items. Lines without an option are included
+ *    in every option; good/better/best options each add their own lines and
+ *    are totalled with the quote's discount and tax rate
+ * 3. Prices and costs are snapshotted onto the quote lines, so editing the
+ *    price book never changes a quote that was already sent
+ * 4. The homeowner picks an option when accepting; the quote's headline
+ *    pricing then follows that option
+ * 5. Converting an accepted quote plans the chosen materials on the job and
+ *    raises an invoice with typed line items
+ */
+
+import { prisma, type TransactionClient } from '@/db/prisma';
+import type { Prisma } from '@prisma/client';
+import { addDays } from 'date-fns';
+import { ContractorInvoicingService, type LineItem } from './contractor-invoicing';
+import { createJobFromQuote, ensureCustomerRecord } from './contractor-automation';
+
+export const PRICE_BOOK_ITEM_TYPES = ['service', 'labor', 'material'] as const;
+export type PriceBookItemType = (typeof PRICE_BOOK_ITEM_TYPES)[number];
+
+export const QUOTE_LINE_TYPES = [...PRICE_BOOK_ITEM_TYPES, 'other'] as const;
+export type QuoteLineType = (typeof QUOTE_LINE_TYPES)[number];
+
+export const QUOTE_OPTION_TIERS = ['good', 'better', 'best'] as const;
+export type QuoteOptionTier = (typeof QUOTE_OPTION_TIERS)[number];
+
+const MAX_LINES_PER_QUOTE = 200;
+const MAX_MARKUP_RULES = 50;
+
+// Invoices raised from a converted quote fall due after this many days
+const CONVERTED_INVOICE_DUE_DAYS = 30;
+// A conversion claim older than this belongs to a request that died midway
+const CONVERSION_CLAIM_MS = 10 * 60 * 1000;
+
+// Quote lines the homeowner may see; unit cost is our margin and stays internal
+export const CUSTOMER_QUOTE_LINE_SELECT = {
+  id: true,
+  optionId: true,
+  type: true,
+  description: true,
+  quantity: true,
+  unit: true,
+  unitPrice: true,
+  total: true,
+  sortOrder: true,
+} satisfies Prisma.ContractorQuoteLineItemSelect;
+
+// ============= Errors =============
+
+export const PriceBookErrorCodes = {
+  NOT_FOUND: 'NOT_FOUND',
+  INVALID_INPUT: 'INVALID_INPUT',
+  INVALID_STATUS: 'INVALID_STATUS',
+} as const;
+
+export type PriceBookErrorCode = typeof PriceBookErrorCodes[keyof typeof PriceBookErrorCodes];
+
+export class PriceBookError extends Error {
+  code: PriceBookErrorCode;
+
+  constructor(code: PriceBookErrorCode, message: string) {
+    super(message);
+    this.code = code;
+    this.name = 'PriceBookError';
+  }
+}
+
+export function getPriceBookErrorStatus(code: PriceBookErrorCode): number {
+  switch (code) {
+    case PriceBookErrorCodes.NOT_FOUND:
+      return 404;
+    case PriceBookErrorCodes.INVALID_STATUS:
+      return 409;
+    default:
+      return 400;
+  }
+}
+
+// ============= Types =============
+
+export interface MarkupRule {
+  /** null matches every item type */
+  itemType: PriceBookItemType | null;
+  /** null matches every category */
+  category: string | null;
+  minCost: number;
+  /** Exclusive; null means no upper bound */
+  maxCost: number | null;
+  markupPercent: number;
+}
+
+export interface PriceableItem {
+  type: PriceBookItemType;
+  category: string | null;
+  unitCost: number | null;
+  unitPrice: number | null;
+  markupPercent: number | null;
+  /** Cost of the linked inventory item; replaces unitCost when set */
+  inventoryCost?: number | null;
+}
+
+export interface ResolvedPrice {
+  unitCost: number;
+  unitPrice: number;
+  /** Markup applied to cost; null for fixed prices */
+  markupPercent: number | null;
+  source: 'fixed' | 'markup';
+}
+
+export interface PriceBookEntry extends PriceableItem {
+  id: string;
+  name: string;
+  unit: string;
+  inventoryItemId: string | null;
+}
+
+export interface QuoteLineInput {
+  priceBookItemId: string | null;
+  type: QuoteLineType | null;
+  description: string | null;
+  quantity: number;
+  unit: string | null;
+  /** Overrides the price book price for this quote only */
+  unitPrice: number | null;
+}
+
+export interface QuoteOptionInput {
+  tier: QuoteOptionTier;
+  name: string;
+  description: string | null;
+  recommended: boolean;
+  lineItems: QuoteLineInput[];
+}
+
+export interface QuoteDraft {
+  /** Included in every option */
+  lineItems: QuoteLineInput[];
+  options: QuoteOptionInput[];
+  discount: number;
+  taxRate: number;
+}
+
+export interface PricedLine {
+  priceBookItemId: string | null;
+  inventoryItemId: string | null;
+  type: QuoteLineType;
+  description: string;
+  quantity: number;
+  unit: string;
+  unitCost: number;
+  unitPrice: number;
+  total: number;
+  sortOrder: number;
+}
+
+export interface QuoteTotals {
+  subtotal: number;
+  discount: number;
+  tax: number;
+  total: number;
+}
+
+export interface PricedOption extends QuoteTotals {
+  tier: QuoteOptionTier;
+  name: string;
+  description: string | null;
+  recommended: boolean;
+  sortOrder: number;
+  lines: PricedLine[];
+}
+
+export interface QuotePricing {
+  sharedLines: PricedLine[];
+  options: PricedOption[];
+  taxRate: number;
+  /** Written to the quote's basePrice/discount/tax/totalPrice */
+  headline: { basePrice: number; discount: number; tax: number; totalPrice: number };
+}
+
+export interface ConversionLine {
+  id: string;
+  priceBookItemId: string | null;
+  inventoryItemId: string | null;
+  type: string;
+  description: string;
+  quantity: number;
+  unit: string;
+  unitCost: number;
+  unitPrice: number;
+  total: number;
+}
+
+export interface PlannedMaterial {
+  inventoryItemId: string;
+  quantityNeeded: number;
+  unitCost: number;
+}
+
+export interface QuoteConversionPlan {
+  materials: PlannedMaterial[];
+  invoiceLines: LineItem[];
+  laborCost: number;
+  materialCost: number;
+}
+
+// ============= Pricing =============
+
+function roundMoney(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+function normalizeCategory(category: string | null | undefined): string | null {
+  return category?.trim().toLowerCase() || null;
+}
+
+/**
+ * The markup rule for an item: rules scoped to its category beat rules scoped
+ * to its type, which beat catch-all rules. Among equally specific rules the
+ * cost tier with the highest floor wins.
+ */
+export function findMarkupRule(
+  rules: MarkupRule[],
+  itemType: PriceBookItemType,
+  category: string | null,
+  cost: number
+): MarkupRule | null {
+  const itemCategory = normalizeCategory(category);
+  const specificity = (rule: MarkupRule) => (rule.category ? 2 : 0) + (rule.itemType ? 1 : 0);
+
+  const matches = rules.filter(
+    (rule) =>
+      (!rule.itemType || rule.itemType === itemType) &&
+      (!rule.category || normalizeCategory(rule.category) === itemCategory) &&
+      cost >= rule.minCost &&
+      (rule.maxCost === null || cost < rule.maxCost)
+  );
+
+  matches.sort((a, b) => specificity(b) - specificity(a) || b.minCost - a.minCost);
+  return matches[0] ?? null;
+}
+
+/** Sell price for one unit of a price book item */
+export function priceItem(item: PriceableItem, rules: MarkupRule[]): ResolvedPrice {
+  const unitCost = item.inventoryCost ?? item.unitCost ?? 0;
+
+  if (item.unitPrice !== null) {
+    return { unitCost, unitPrice: item.unitPrice, markupPercent: null, source: 'fixed' };
+  }
+
+  const markupPercent =
+    item.markupPercent ?? findMarkupRule(rules, item.type, item.category, unitCost)?.markupPercent ?? 0;
+
+  return {
+    unitCost,
+    unitPrice: roundMoney(unitCost * (1 + markupPercent / 100)),
+    markupPercent,
+    source: 'markup',
+  };
+}
+
+/** Tax applies after the discount, matching how invoices total a discount line */
+export function totalQuoteLines(lines: PricedLine[], discount: number, taxRate: number): QuoteTotals {
+  const subtotal = roundMoney(lines.reduce((sum, line) => sum + line.total, 0));
+  const appliedDiscount = roundMoney(Math.min(Math.max(discount, 0), subtotal));
+  const tax = roundMoney((subtotal - appliedDiscount) * (taxRate / 100));
+
+  return {
+    subtotal,
+    discount: appliedDiscount,
+    tax,
+    total: roundMoney(subtotal - appliedDiscount + tax),
+  };
+}
+
+function priceLine(
+  input: QuoteLineInput,
+  catalog: Map<string, PriceBookEntry>,
+  rules: MarkupRule[],
+  sortOrder: number,
+  label: string
+): PricedLine {
+  if (input.priceBookItemId) {
+    const entry = catalog.get(input.priceBookItemId);
+    if (!entry) {
+      throw new PriceBookError(PriceBookErrorCodes.INVALID_INPUT, `${label}: price book item not found`);
+    }
+    const price = priceItem(entry, rules);
+    const unitPrice = input.unitPrice ?? price.unitPrice;
+
+    return {
+      priceBookItemId: entry.id,
+      inventoryItemId: entry.inventoryItemId,
+      type: entry.type,
+      description: input.description || entry.name,
+      quantity: input.quantity,
+      unit: input.unit || entry.unit,
+      unitCost: price.unitCost,
+      unitPrice,
+      total: roundMoney(input.quantity * unitPrice),
+      sortOrder,
+    };
+  }
+
+  if (!input.description || input.unitPrice === null) {
+    throw new PriceBookError(
+      PriceBookErrorCodes.INVALID_INPUT,
+      `${label}: custom lines need a description and unit price`
+    );
+  }
+
+  return {
+    priceBookItemId: null,
+    inventoryItemId: null,
+    type: input.type ?? 'other',
+    description: input.description,
+    quantity: input.quantity,
+    unit: input.unit || 'each',
+    unitCost: 0,
+    unitPrice: input.unitPrice,
+    total: roundMoney(input.quantity * input.unitPrice),
+    sortOrder,
+  };
+}
+
+/**
+ * Prices a quote draft against the price book. Each option's totals include
+ * the shared lines; the headline is the recommended option (or the first)
+ * until the homeowner chooses.
+ */
+export function buildQuotePricing(
+  draft: QuoteDraft,
+  catalog: Map<string, PriceBookEntry>,
+  rules: MarkupRule[]
+): QuotePricing {
+  const sharedLines = draft.lineItems.map((line, index) =>
+    priceLine(line, catalog, rules, index, `lineItems[${index}]`)
+  );
+
+  const options = [...draft.options]
+    .sort((a, b) => QUOTE_OPTION_TIERS.indexOf(a.tier) - QUOTE_OPTION_TIERS.indexOf(b.tier))
+    .map((option, sortOrder) => {
+      const lines = option.lineItems.map((line, index) =>
+        priceLine(line, catalog, rules, index, `${option.tier} option lineItems[${index}]`)
+      );
+      return {
+        tier: option.tier,
+        name: option.name,
+        description: option.description,
+        recommended: option.recommended,
+        sortOrder,
+        lines,
+        ...totalQuoteLines([...sharedLines, ...lines], draft.discount, draft.taxRate),
+      };
+    });
+
+  const headlineTotals =
+    options.find((option) => option.recommended) ??
+    options[0] ??
+    totalQuoteLines(sharedLines, draft.discount, draft.taxRate);
+
+  return {
+    sharedLines,
+    options,
+    taxRate: draft.taxRate,
+    headline: {
+      basePrice: headlineTotals.subtotal,
+      discount: headlineTotals.discount,
+      tax: headlineTotals.tax,
+      totalPrice: headlineTotals.total,
+    },
+  };
+}
+
+/** Lines billed for an accepted quote: the shared lines plus the chosen option's */
+export function getSelectedLines<T extends { optionId: string | null }>(
+  lines: T[],
+  selectedOptionId: string | null
+): T[] {
+  return lines.filter((line) => line.optionId === null || line.optionId === selectedOptionId);
+}
+
+function toInvoiceType(type: string): LineItem['type'] {
+  if (type === 'labor') return 'labor';
+  if (type === 'material') return 'material';
+  return 'other';
+}
+
+/**
+ * Materials to plan on the job (whole units per inventory item) and the
+ * invoice lines for the accepted option. A discount becomes its own negative
+ * line so the invoice totals match the quote.
+ */
+export function planQuoteConversion(lines: ConversionLine[], discount: number): QuoteConversionPlan {
+  const materials = new Map<string, PlannedMaterial>();
+  for (const line of lines) {
+    if (line.type !== 'material' || !line.inventoryItemId) continue;
+    const planned = materials.get(line.inventoryItemId);
+    if (planned) {
+      planned.quantityNeeded += line.quantity;
+    } else {
+      materials.set(line.inventoryItemId, {
+        inventoryItemId: line.inventoryItemId,
+        quantityNeeded: line.quantity,
+        unitCost: line.unitCost,
+      });
+    }
+  }
+
+  const invoiceLines: LineItem[] = lines.map((line) => ({
+    description: line.description,
+    quantity: line.quantity,
+    unitPrice: line.unitPrice,
+    type: toInvoiceType(line.type),
+    unit: line.unit,
+    ...(line.priceBookItemId && { priceBookItemId: line.priceBookItemId }),
+    ...(line.inventoryItemId && { inventoryItemId: line.inventoryItemId }),
+    quoteLineItemId: line.id,
+  }));
+  if (discount > 0) {
+    invoiceLines.push({ description: 'Discount', quantity: 1, unitPrice: -discount, type: 'other' });
+  }
+
+  const sumOf = (type: string) =>
+    roundMoney(lines.filter((line) => line.type === type).reduce((sum, line) => sum + line.total, 0));
+
+  return {
+    materials: [...materials.values()].map((material) => ({
+      ...material,
+      quantityNeeded: Math.ceil(material.quantityNeeded),
+    })),
+    invoiceLines,
+    laborCost: sumOf('labor'),
+    materialCost: sumOf('material'),
+  };
+}
+
+// ============= Input Parsing =============
+
+function optionalNumber(value: unknown, label: string, { min = 0 } = {}): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < min) {
+    throw new PriceBookError(PriceBookErrorCodes.INVALID_INPUT, `${label} must be a number of at least ${min}`);
+  }
+  return number;
+}
+
+function optionalString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function parseLine(raw: unknown, label: string): QuoteLineInput {
+  const line = (raw ?? {}) as Record<string, unknown>;
+  const quantity = optionalNumber(line.quantity, `${label}.quantity`);
+  if (quantity === null || quantity === 0) {
+    throw new PriceBookError(PriceBookErrorCodes.INVALID_INPUT, `${label}.quantity must be greater than 0`);
+  }
+  if (line.type != null && !QUOTE_LINE_TYPES.includes(line.type as QuoteLineType)) {
+    throw new PriceBookError(PriceBookErrorCodes.INVALID_INPUT, `${label}.type must be one of ${QUOTE_LINE_TYPES.join(', ')}`);
+  }
+
+  return {
+    priceBookItemId: optionalString(line.priceBookItemId),
+    type: (line.type as QuoteLineType | undefined) ?? null,
+    description: optionalString(line.description),
+    quantity,
+    unit: optionalString(line.unit),
+    unitPrice: optionalNumber(line.unitPrice, `${label}.unitPrice`),
+  };
+}
+
+function parseLines(raw: unknown, label: string): QuoteLineInput[] {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) {
+    throw new PriceBookError(PriceBookErrorCodes.INVALID_INPUT, `${label} must be an array`);
+  }
+  return raw.map((line, index) => parseLine(line, `${label}[${index}]`));
+}
+
+/**
+ * Line items and options from a quote request body. Returns null for a
+ * flat-priced quote (no lineItems or options), which keeps using basePrice.
+ */
+export function parseQuoteDraft(body: Record<string, unknown>): QuoteDraft | null {
+  if (body.lineItems == null && body.options == null) return null;
+
+  const lineItems = parseLines(body.lineItems, 'lineItems');
+
+  if (body.options != null && !Array.isArray(body.options)) {
+    throw new PriceBookError(PriceBookErrorCodes.INVALID_INPUT, 'options must be an array');
+  }
+  const options = ((body.options as unknown[] | undefined) ?? []).map((raw, index) => {
+    const option = (raw ?? {}) as Record<string, unknown>;
+    if (!QUOTE_OPTION_TIERS.includes(option.tier as QuoteOptionTier)) {
+      throw new PriceBookError(
+        PriceBookErrorCodes.INVALID_INPUT,
+        `options[${index}].tier must be one of ${QUOTE_OPTION_TIERS.join(', ')}`
+      );
+    }
+    const tier = option.tier as QuoteOptionTier;
+    const optionLines = parseLines(option.lineItems, `options[${index}].lineItems`);
+    if (optionLines.length === 0) {
+      throw new PriceBookError(PriceBookErrorCodes.INVALID_INPUT, `The ${tier} option needs at least one line item`);
+    }
+    return {
+      tier,
+      name: optionalString(option.name) ?? tier.charAt(0).toUpperCase() + tier.slice(1),
+      description: optionalString(option.description),
+      recommended: option.recommended === true,
+      lineItems: optionLines,
+    };
+  });
+
+  const tiers = new Set(options.map((option) => option.tier));
+  if (tiers.size !== options.length) {
+    throw new PriceBookError(PriceBookErrorCodes.INVALID_INPUT, 'Each option tier may only be used once');
+  }
+  if (options.length === 1) {
+    throw new PriceBookError(
+      PriceBookErrorCodes.INVALID_INPUT,
+      'Offer at least two options, or put every line in lineItems'
+    );
+  }
+  if (options.filter((option) => option.recommended).length > 1) {
+    throw new PriceBookError(PriceBookErrorCodes.INVALID_INPUT, 'Only one option can be recommended');
+  }
+
+  const lineCount = lineItems.length + options.reduce((sum, option) => sum + option.lineItems.length, 0);
+  if (lineCount === 0) {
+    throw new PriceBookError(PriceBookErrorCodes.INVALID_INPUT, 'A line-item quote needs at least one line');
+  }
+  if (lineCount > MAX_LINES_PER_QUOTE) {
+    throw new PriceBookError(
+      PriceBookErrorCodes.INVALID_INPUT,
+      `A quote can have at most ${MAX_LINES_PER_QUOTE} lines`
+    );
+  }
+
+  const taxRate = optionalNumber(body.taxRate, 'taxRate') ?? 0;
+  if (taxRate > 100) {
+    throw new PriceBookError(PriceBookErrorCodes.INVALID_INPUT, 'taxRate is a percentage and must be at most 100');
+  }
+
+  return {
+    lineItems,
+    options,
+    discount: optionalNumber(body.discount, 'discount') ?? 0,
+    taxRate,
+  };
+}
+
+export interface PriceBookItemInput {
+  type: PriceBookItemType;
+  name: string;
+  sku: string | null;
+  category: string | null;
+  description: string | null;
+  unit: string;
+  inventoryItemId: string | null;
+  unitCost: number | null;
+  unitPrice: number | null;
+  markupPercent: number | null;
+}
+
+/** Validates a price book item body; with `partial` only the given fields are returned */
+export function parsePriceBookItemInput(body: Record<string, unknown>, partial = false): Partial<PriceBookItemInput> {
+  const input: Partial<PriceBookItemInput> = {};
+  const has = (key: string) => !partial || key in body;
+
+  if (has('type')) {
+    if (!PRICE_BOOK_ITEM_TYPES.includes(body.type as PriceBookItemType)) {
+      throw new PriceBookError(
+        PriceBookErrorCodes.INVALID_INPUT,
+        `type must be one of ${PRICE_BOOK_ITEM_TYPES.join(', ')}`
+      );
+    }
+    input.type = body.type as PriceBookItemType;
+  }
+  if (has('name')) {
+    const name = optionalString(body.name);
+    if (!name) throw new PriceBookError(PriceBookErrorCodes.INVALID_INPUT, 'name is required');
+    input.name = name;
+  }
+  if (has('sku')) input.sku = optionalString(body.sku);
+  if (has('category')) input.category = optionalString(body.category);
+  if (has('description')) input.description = optionalString(body.description);
+  if (has('unit')) input.unit = optionalString(body.unit) ?? 'each';
+  if (has('inventoryItemId')) input.inventoryItemId = optionalString(body.inventoryItemId);
+  if (has('unitCost')) input.unitCost = optionalNumber(body.unitCost, 'unitCost');
+  if (has('unitPrice')) input.unitPrice = optionalNumber(body.unitPrice, 'unitPrice');
+  if (has('markupPercent')) input.markupPercent = optionalNumber(body.markupPercent, 'markupPercent', { min: -100 });
+
+  if (!partial && input.unitPrice === null && input.unitCost === null && !input.inventoryItemId) {
+    throw new PriceBookError(
+      PriceBookErrorCodes.INVALID_INPUT,
+      'Give a fixed unitPrice, a unitCost to mark up, or link an inventory item'
+    );
+  }
+  if (input.inventoryItemId && input.type && input.type !== 'material') {
+    throw new PriceBookError(PriceBookErrorCodes.INVALID_INPUT, 'Only materials can be linked to inventory');
+  }
+
+  return input;
+}
+
+export function parseMarkupRules(input: unknown): MarkupRule[] {
+  if (!Array.isArray(input)) {
+    throw new PriceBookError(PriceBookErrorCodes.INVALID_INPUT, 'rules must be an array');
+  }
+  if (input.length > MAX_MARKUP_RULES) {
+    throw new PriceBookError(PriceBookErrorCodes.INVALID_INPUT, `At most ${MAX_MARKUP_RULES} markup rules`);
+  }
+
+  return input.map((raw, index) => {
+    const rule = (raw ?? {}) as Record<string, unknown>;
+    const label = `rules[${index}]`;
+    if (rule.itemType != null && !PRICE_BOOK_ITEM_TYPES.includes(rule.itemType as PriceBookItemType)) {
+      throw new PriceBookError(PriceBookErrorCodes.INVALID_INPUT, `${label}.itemType is not a price book item type`);
+    }
+    const markupPercent = optionalNumber(rule.markupPercent, `${label}.markupPercent`, { min: -100 });
+    if (markupPercent === null) {
+      throw new PriceBookError(PriceBookErrorCodes.INVALID_INPUT, `${label}.markupPercent is required`);
+    }
+    const minCost = optionalNumber(rule.minCost, `${label}.minCost`) ?? 0;
+    const maxCost = optionalNumber(rule.maxCost, `${label}.maxCost`);
+    if (maxCost !== null && maxCost <= minCost) {
+      throw new PriceBookError(PriceBookErrorCodes.INVALID_INPUT, `${label}.maxCost must be above minCost`);
+    }
+
+    return {
+      itemType: (rule.itemType as PriceBookItemType | undefined) ?? null,
+      category: optionalString(rule.category),
+      minCost,
+      maxCost,
+      markupPercent,
+    };
+  });
+}
+
+// ============= Price Book =============
+
+const inventorySelect = {
+  id: true,
+  name: true,
+  sku: true,
+  unit: true,
+  unitCost: true,
+  quantity: true,
+} satisfies Prisma.ContractorInventoryItemSelect;
+
+type PriceBookRow = Prisma.ContractorPriceBookItemGetPayload<{ include: { inventoryItem: { select: typeof inventorySelect } } }>;
+
+function toEntry(row: PriceBookRow): PriceBookEntry {
+  const toNumber = (value: Prisma.Decimal | null) => (value === null ? null : Number(value));
+  return {
+    id: row.id,
+    name: row.name,
+    unit: row.unit,
+    type: row.type as PriceBookItemType,
+    category: row.category,
+    inventoryItemId: row.inventoryItemId,
+    unitCost: toNumber(row.unitCost),
+    unitPrice: toNumber(row.unitPrice),
+    markupPercent: toNumber(row.markupPercent),
+    inventoryCost: row.inventoryItem ? Number(row.inventoryItem.unitCost) : null,
+  };
+}
+
+export async function getMarkupRules(contractorId: string): Promise<MarkupRule[]> {
+  const rules = await prisma.contractorMarkupRule.findMany({
+    where: { contractorId },
+    orderBy: [{ itemType: 'asc' }, { category: 'asc' }, { minCost: 'asc' }],
+  });
+  return rules.map((rule) => ({
+    itemType: rule.itemType as PriceBookItemType | null,
+    category: rule.category,
+    minCost: Number(rule.minCost),
+    maxCost: rule.maxCost === null ? null : Number(rule.maxCost),
+    markupPercent: Number(rule.markupPercent),
+  }));
+}
+
+/** Rules are edited as one table, so saving replaces the whole set */
+export async function replaceMarkupRules(contractorId: string, rules: MarkupRule[]) {
+  await prisma.$transaction([
+    prisma.contractorMarkupRule.deleteMany({ where: { contractorId } }),
+    prisma.contractorMarkupRule.createMany({
+      data: rules.map((rule) => ({ contractorId, ...rule })),
+    }),
+  ]);
+  return getMarkupRules(contractorId);
+}
+
+/** Active price book items with their current sell price */
+export async function listPriceBook(contractorId: string, { includeArchived = false } = {}) {
+  const [rows, rules] = await Promise.all([
+    prisma.contractorPriceBookItem.findMany({
+      where: { contractorId, ...(!includeArchived && { isActive: true }) },
+      include: { inventoryItem: { select: inventorySelect } },
+      orderBy: [{ type: 'asc' }, { category: 'asc' }, { name: 'asc' }],
+    }),
+    getMarkupRules(contractorId),
+  ]);
+
+  return {
+    items: rows.map((row) => ({ ...row, price: priceItem(toEntry(row), rules) })),
+    rules,
+  };
+}
+
+async function assertInventoryItem(contractorId: string, inventoryItemId: string | null | undefined) {
+  if (!inventoryItemId) return;
+  const item = await prisma.contractorInventoryItem.findFirst({
+    where: { id: inventoryItemId, contractorId },
+    select: { id: true },
+  });
+  if (!item) throw new PriceBookError(PriceBookErrorCodes.NOT_FOUND, 'Inventory item not found');
+}
+
+export async function createPriceBookItem(contractorId: string, input: PriceBookItemInput) {
+  await assertInventoryItem(contractorId, input.inventoryItemId);
+  return prisma.contractorPriceBookItem.create({
+    data: { contractorId, ...input },
+    include: { inventoryItem: { select: inventorySelect } },
+  });
+}
+
+export async function updatePriceBookItem(contractorId: string, id: string, input: Partial<PriceBookItemInput>) {
+  const existing = await prisma.contractorPriceBookItem.findFirst({ where: { id, contractorId } });
+  if (!existing) throw new PriceBookError(PriceBookErrorCodes.NOT_FOUND, 'Price book item not found');
+
+  const type = input.type ?? existing.type;
+  const inventoryItemId = 'inventoryItemId' in input ? input.inventoryItemId : existing.inventoryItemId;
+  if (inventoryItemId && type !== 'material') {
+    throw new PriceBookError(PriceBookErrorCodes.INVALID_INPUT, 'Only materials can be linked to inventory');
+  }
+  await assertInventoryItem(contractorId, input.inventoryItemId);
+
+  return prisma.contractorPriceBookItem.update({
+    where: { id },
+    data: input,
+    include: { inventoryItem: { select: inventorySelect } },
+  });
+}
+
+/** Archived items drop out of the picker; quotes keep their snapshotted lines */
+export async function archivePriceBookItem(contractorId: string, id: string) {
+  const { count } = await prisma.contractorPriceBookItem.updateMany({
+    where: { id, contractorId },
+    data: { isActive: false },
+  });
+  if (count === 0) throw new PriceBookError(PriceBookErrorCodes.NOT_FOUND, 'Price book item not found');
+}
+
+// ============= Quotes =============
+
+/** Prices a draft against the contractor's own active price book */
+export async function priceQuoteDraft(contractorId: string, draft: QuoteDraft): Promise<QuotePricing> {
+  const ids = [
+    ...draft.lineItems,
+    ...draft.options.flatMap((option) => option.lineItems),
+  ].flatMap((line) => (line.priceBookItemId ? [line.priceBookItemId] : []));
+
+  const [rows, rules] = await Promise.all([
+    ids.length
+      ? prisma.contractorPriceBookItem.findMany({
+          where: { id: { in: [...new Set(ids)] }, contractorId, isActive: true },
+          include: { inventoryItem: { select: inventorySelect } },
+        })
+      : Promise.resolve([]),
+    getMarkupRules(contractorId),
+  ]);
+
+  return buildQuotePricing(draft, new Map(rows.map((row) => [row.id, toEntry(row)])), rules);
+}
+
+function lineData(quoteId: string, optionId: string | null, line: PricedLine) {
+  return {
+    quoteId,
+    optionId,
+    priceBookItemId: line.priceBookItemId,
+    inventoryItemId: line.inventoryItemId,
+    type: line.type,
+    description: line.description,
+    quantity: line.quantity,
+    unit: line.unit,
+    unitCost: line.unitCost,
+    unitPrice: line.unitPrice,
+    total: line.total,
+    sortOrder: line.sortOrder,
+  };
+}
+
+/** Writes the options and line items of a freshly created quote */
+export async function saveQuotePricing(tx: TransactionClient, quoteId: string, pricing: QuotePricing) {
+  if (pricing.sharedLines.length) {
+    await tx.contractorQuoteLineItem.createMany({
+      data: pricing.sharedLines.map((line) => lineData(quoteId, null, line)),
+    });
+  }
+
+  for (const option of pricing.options) {
+    const created = await tx.contractorQuoteOption.create({
+      data: {
+        quoteId,
+        tier: option.tier,
+        name: option.name,
+        description: option.description,
+        recommended: option.recommended,
+        sortOrder: option.sortOrder,
+        subtotal: option.subtotal,
+        discount: option.discount,
+        tax: option.tax,
+        total: option.total,
+      },
+    });
+    await tx.contractorQuoteLineItem.createMany({
+      data: option.lines.map((line) => lineData(quoteId, created.id, line)),
+    });
+  }
+}
+
+/**
+ * Records the homeowner's choice on a quote with options and moves the
+ * headline pricing to it. Quotes without options are left alone (null).
+ */
+export async function selectQuoteOption(quoteId: string, optionId: unknown) {
+  const options = await prisma.contractorQuoteOption.findMany({ where: { quoteId } });
+  if (options.length === 0) return null;
+
+  const option = options.find((candidate) => candidate.id === optionId);
+  if (!option) {
+    throw new PriceBookError(
+      PriceBookErrorCodes.INVALID_INPUT,
+      `Choose one of the quote options: ${options.map((candidate) => candidate.name).join(', ')}`
+    );
+  }
+
+  return prisma.contractorQuote.update({
+    where: { id: quoteId },
+    data: {
+      selectedOptionId: option.id,
+      basePrice: option.subtotal,
+      discount: option.discount,
+      tax: option.tax,
+      totalPrice: option.total,
+    },
+  });
+}
+
+/**
+ * Turns an accepted quote into work: plans the chosen materials on the job
+ * (creating the job if acceptance didn't) and raises a draft invoice with
+ * typed line items. The conversion is claimed on the quote before any work,
+ * so two requests can't both raise an invoice; a failed conversion releases
+ * the claim. A new job is linked to the quote in the same transaction that
+ * creates it, and material quantities are set, not added, so a retry after a
+ * failed invoice reuses the job without doubling them.
+ */
+export async function convertQuoteToJob(contractorId: string, quoteId: string) {
+  const quote = await prisma.contractorQuote.findFirst({
+    where: { id: quoteId, contractorId },
+    include: {
+      lead: { select: { convertedToJobId: true, source: true } },
+      customer: { select: { id: true, name: true, email: true, phoneNumber: true } },
+      options: { select: { id: true } },
+      lineItems: { orderBy: [{ optionId: 'asc' }, { sortOrder: 'asc' }] },
+    },
+  });
+  if (!quote) throw new PriceBookError(PriceBookErrorCodes.NOT_FOUND, 'Quote not found');
+  if (quote.status !== 'accepted') {
+    throw new PriceBookError(PriceBookErrorCodes.INVALID_STATUS, 'Only accepted quotes can be converted');
+  }
+  if (quote.invoiceId) {
+    throw new PriceBookError(PriceBookErrorCodes.INVALID_STATUS, 'This quote has already been converted');
+  }
+  if (quote.lineItems.length === 0) {
+    throw new PriceBookError(PriceBookErrorCodes.INVALID_STATUS, 'Only line-item quotes can be converted');
+  }
+  if (quote.options.length > 0 && !quote.selectedOptionId) {
+    throw new PriceBookError(PriceBookErrorCodes.INVALID_STATUS, 'The homeowner has not chosen an option yet');
+  }
+
+  const lines = getSelectedLines(quote.lineItems, quote.selectedOptionId).map((line) => ({
+    ...line,
+    quantity: Number(line.quantity),
+    unitCost: Number(line.unitCost),
+    unitPrice: Number(line.unitPrice),
+    total: Number(line.total),
+  }));
+  const plan = planQuoteConversion(lines, Number(quote.discount));
+
+  const claimedAt = new Date();
+  const claimed = await prisma.contractorQuote.updateMany({
+    where: {
+      id: quote.id,
+      contractorId,
+      status: 'accepted',
+      invoiceId: null,
+      OR: [{ convertedAt: null }, { convertedAt: { lt: new Date(claimedAt.getTime() - CONVERSION_CLAIM_MS) } }],
+    },
+    data: { convertedAt: claimedAt },
+  });
+  if (claimed.count === 0) {
+    throw new PriceBookError(PriceBookErrorCodes.INVALID_STATUS, 'This quote has already been converted');
+  }
+
+  try {
+    const customerRecord = await ensureCustomerRecord({
+      contractorId,
+      userId: quote.customer.id,
+      name: quote.customer.name,
+      email: quote.customer.email,
+      phone: quote.customer.phoneNumber,
+      source: quote.lead?.source || 'marketplace',
+    });
+
+    const existingJobId = quote.jobId ?? quote.lead?.convertedToJobId ?? null;
+    const existingJob = existingJobId
+      ? await prisma.contractorJob.findFirst({ where: { id: existingJobId, contractorId } })
+      : null;
+    const job =
+      existingJob ??
+      (await prisma.$transaction(async (tx) => {
+        const created = await createJobFromQuote(quote, customerRecord.id, tx);
+        await tx.contractorQuote.update({ where: { id: quote.id }, data: { jobId: created.id } });
+        return created;
+      }));
+
+    await prisma.$transaction([
+      prisma.contractorJob.update({
+        where: { id: job.id },
+        data: {
+          customerId: job.customerId ?? customerRecord.id,
+          estimatedCost: quote.totalPrice,
+          laborCost: plan.laborCost,
+          materialCost: plan.materialCost,
+        },
+      }),
+      ...plan.materials.map((material) =>
+        prisma.contractorJobMaterial.upsert({
+          where: { jobId_itemId: { jobId: job.id, itemId: material.inventoryItemId } },
+          create: {
+            contractorId,
+            jobId: job.id,
+            itemId: material.inventoryItemId,
+            quantityNeeded: material.quantityNeeded,
+            unitCostAtTime: material.unitCost,
+            totalCost: 0,
+            notes: `From quote: ${quote.title}`,
+          },
+          update: { quantityNeeded: material.quantityNeeded, unitCostAtTime: material.unitCost },
+        })
+      ),
+    ]);
+
+    const invoice = await ContractorInvoicingService.createInvoice({
+      contractorId,
+      customerId: job.customerId ?? customerRecord.id,
+      jobId: job.id,
+      lineItems: plan.invoiceLines,
+      taxRate: quote.taxRate === null ? undefined : Number(quote.taxRate),
+      terms: quote.paymentTerms ?? undefined,
+      notes: quote.warranty ? `Warranty: ${quote.warranty}` : undefined,
+      dueDate: addDays(new Date(), CONVERTED_INVOICE_DUE_DAYS),
+    });
+
+    await prisma.contractorQuote.update({
+      where: { id: quote.id },
+      data: { jobId: job.id, invoiceId: invoice.id, convertedAt: new Date() },
+    });
+
+    return { jobId: job.id, invoice, materialsPlanned: plan.materials.length };
+  } catch (error) {
+    // Let the contractor try again; the job (if one was created) stays linked
+    await prisma.contractorQuote.updateMany({
+      where: { id: quote.id, invoiceId: null, convertedAt: claimedAt },
+      data: { convertedAt: null },
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,795 @@
+/**
+ * Progress Billing Service
+ * AIA-style progress billing for contractor jobs:
+ * 1. A job's contract sum is split into a schedule of values. Change orders
+ *    are rolled in as their own lines once approved
+ * 2. Each pay application records the cumulative percent complete of every
+ *    line for one period, withholds retainage on the work completed to date
+ *    and bills the difference from what earlier applications already billed
+ * 3. A pay application is saved as a draft, then invoiced through
+ *    ContractorInvoicingService; the invoice carries one line per line of work
+ *    billed this period plus a negative retainage line
+ * 4. Once every line is 100% complete, a retainage release application bills
+ *    everything still withheld
+ * 5. Figures are snapshotted on the application, so its G702/G703 pages can
+ *    be reprinted with the invoice PDF after the schedule changes
+ */
+
+import { prisma, type TransactionClient } from '@/db/prisma';
+import { addDays, format } from 'date-fns';
+import { ContractorInvoicingService, type LineItem } from './contractor-invoicing';
+
+export const PAY_APPLICATION_KINDS = ['progress', 'retainage_release'] as const;
+export type PayApplicationKind = (typeof PAY_APPLICATION_KINDS)[number];
+
+export const DEFAULT_RETAINAGE_PERCENT = 10;
+
+const MAX_SCHEDULE_LINES = 100;
+
+// Pay application invoices fall due after this many days
+const PAY_APPLICATION_DUE_DAYS = 30;
+
+// Change order lines sort after the original contract lines
+const CHANGE_ORDER_SORT_OFFSET = 1000;
+
+// ============= Errors =============
+
+export const ProgressBillingErrorCodes = {
+  NOT_FOUND: 'NOT_FOUND',
+  INVALID_INPUT: 'INVALID_INPUT',
+  INVALID_STATUS: 'INVALID_STATUS',
+} as const;
+
+export type ProgressBillingErrorCode = typeof ProgressBillingErrorCodes[keyof typeof ProgressBillingErrorCodes];
+
+export class ProgressBillingError extends Error {
+  code: ProgressBillingErrorCode;
+
+  constructor(code: ProgressBillingErrorCode, message: string) {
+    super(message);
+    this.code = code;
+    this.name = 'ProgressBillingError';
+  }
+}
+
+export function getProgressBillingErrorStatus(code: ProgressBillingErrorCode): number {
+  switch (code) {
+    case ProgressBillingErrorCodes.NOT_FOUND:
+      return 404;
+    case ProgressBillingErrorCodes.INVALID_STATUS:
+      return 409;
+    default:
+      return 400;
+  }
+}
+
+// ============= Types =============
+
+export interface ScheduleLine {
+  id: string;
+  itemNumber: string;
+  description: string;
+  scheduledValue: number;
+  /** Set for lines rolled in from an approved change order */
+  changeOrderId: string | null;
+}
+
+export interface LineProgress {
+  lineId: string;
+  /** Cumulative, 0-100 */
+  percentComplete: number;
+}
+
+export interface BilledLine {
+  lineId: string;
+  scheduledValue: number;
+  previousCompleted: number;
+  workThisPeriod: number;
+  completedToDate: number;
+  percentComplete: number;
+  retainage: number;
+}
+
+/** G702 summary of an application */
+export interface PayApplicationTotals {
+  originalContractSum: number;
+  netChangeOrders: number;
+  contractSumToDate: number;
+  completedToDate: number;
+  retainageHeld: number;
+  earnedLessRetainage: number;
+  previousBilled: number;
+  currentDue: number;
+  /** Including retainage */
+  balanceToFinish: number;
+}
+
+export interface PayApplicationCalculation {
+  lines: BilledLine[];
+  totals: PayApplicationTotals;
+}
+
+export interface CalculatePayApplicationInput {
+  lines: ScheduleLine[];
+  /** Lines of the latest invoiced application, keyed by schedule line */
+  previous: Map<string, BilledLine>;
+  /** Lines left out keep their previous percent complete */
+  progress: LineProgress[];
+  retainagePercent: number;
+  /** Sum of what earlier applications billed */
+  previousBilled: number;
+}
+
+export interface ScheduleLineInput {
+  id: string | null;
+  itemNumber: string | null;
+  description: string;
+  scheduledValue: number;
+}
+
+export interface ScheduleInput {
+  retainagePercent?: number;
+  lines: ScheduleLineInput[];
+}
+
+export interface PayApplicationInput {
+  kind: PayApplicationKind;
+  periodStart: Date | null;
+  periodEnd: Date;
+  retainagePercent: number | null;
+  notes: string | null;
+  progress: LineProgress[];
+}
+
+export interface BillingSummary {
+  originalContractSum: number;
+  netChangeOrders: number;
+  contractSum: number;
+  completedToDate: number;
+  percentComplete: number;
+  retainageHeld: number;
+  billedToDate: number;
+  /** Contract sum not yet billed, including retainage */
+  remaining: number;
+}
+
+// ============= Calculations =============
+
+function roundMoney(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+function sumBy<T>(items: T[], value: (item: T) => number): number {
+  return roundMoney(items.reduce((sum, item) => sum + value(item), 0));
+}
+
+function percentOf(part: number, whole: number): number {
+  return whole > 0 ? roundMoney((part / whole) * 100) : 0;
+}
+
+/**
+ * Bill every schedule line to its cumulative percent complete and work out
+ * the G702 totals. Retainage is withheld on everything completed to date, so
+ * lowering the rate on a later application releases the difference.
+ */
+export function calculatePayApplication(input: CalculatePayApplicationInput): PayApplicationCalculation {
+  const progress = new Map(input.progress.map((p) => [p.lineId, p.percentComplete]));
+  for (const lineId of progress.keys()) {
+    if (!input.lines.some((line) => line.id === lineId)) {
+      throw new ProgressBillingError(ProgressBillingErrorCodes.INVALID_INPUT, `Schedule line ${lineId} not found`);
+    }
+  }
+
+  const lines = input.lines.map((line): BilledLine => {
+    const previousCompleted = input.previous.get(line.id)?.completedToDate ?? 0;
+    const percent = progress.get(line.id);
+    const completedToDate =
+      percent === undefined
+        ? Math.min(previousCompleted, line.scheduledValue)
+        : roundMoney((line.scheduledValue * percent) / 100);
+
+    if (completedToDate < previousCompleted) {
+      throw new ProgressBillingError(
+        ProgressBillingErrorCodes.INVALID_INPUT,
+        `${line.itemNumber}. ${line.description}: percent complete cannot go below what was already billed (${percentOf(previousCompleted, line.scheduledValue)}%)`
+      );
+    }
+
+    return {
+      lineId: line.id,
+      scheduledValue: line.scheduledValue,
+      previousCompleted,
+      workThisPeriod: roundMoney(completedToDate - previousCompleted),
+      completedToDate,
+      percentComplete: percentOf(completedToDate, line.scheduledValue),
+      retainage: roundMoney((completedToDate * input.retainagePercent) / 100),
+    };
+  });
+
+  const originalContractSum = sumBy(input.lines.filter((l) => !l.changeOrderId), (l) => l.scheduledValue);
+  const netChangeOrders = sumBy(input.lines.filter((l) => l.changeOrderId), (l) => l.scheduledValue);
+  const contractSumToDate = roundMoney(originalContractSum + netChangeOrders);
+  const completedToDate = sumBy(lines, (l) => l.completedToDate);
+  const retainageHeld = sumBy(lines, (l) => l.retainage);
+  const earnedLessRetainage = roundMoney(completedToDate - retainageHeld);
+
+  return {
+    lines,
+    totals: {
+      originalContractSum,
+      netChangeOrders,
+      contractSumToDate,
+      completedToDate,
+      retainageHeld,
+      earnedLessRetainage,
+      previousBilled: input.previousBilled,
+      currentDue: roundMoney(earnedLessRetainage - input.previousBilled),
+      balanceToFinish: roundMoney(contractSumToDate - earnedLessRetainage),
+    },
+  };
+}
+
+/**
+ * Final application that bills the retainage still withheld. Only allowed
+ * once every line, change orders included, is fully billed.
+ */
+export function calculateRetainageRelease(
+  input: Omit<CalculatePayApplicationInput, 'progress' | 'retainagePercent'>
+): PayApplicationCalculation {
+  const incomplete = input.lines.filter(
+    (line) => (input.previous.get(line.id)?.completedToDate ?? 0) < line.scheduledValue
+  );
+  if (incomplete.length > 0) {
+    throw new ProgressBillingError(
+      ProgressBillingErrorCodes.INVALID_STATUS,
+      `Retainage can only be released once every line is billed to 100% (outstanding: ${incomplete
+        .map((line) => line.itemNumber)
+        .join(', ')})`
+    );
+  }
+
+  const calculation = calculatePayApplication({ ...input, progress: [], retainagePercent: 0 });
+  if (calculation.totals.currentDue <= 0) {
+    throw new ProgressBillingError(ProgressBillingErrorCodes.INVALID_STATUS, 'There is no retainage left to release');
+  }
+  return calculation;
+}
+
+/**
+ * Invoice lines for an application: the work billed on each line this period
+ * less the change in retainage withheld. They always add up to currentDue.
+ */
+export function planPayApplicationInvoice(
+  lines: ScheduleLine[],
+  calculation: PayApplicationCalculation,
+  previousRetainage: number,
+  retainagePercent: number
+): LineItem[] {
+  const byId = new Map(lines.map((line) => [line.id, line]));
+  const invoiceLines: LineItem[] = calculation.lines
+    .filter((billed) => billed.workThisPeriod !== 0)
+    .map((billed) => {
+      const line = byId.get(billed.lineId)!;
+      return {
+        description: `${line.itemNumber}. ${line.description} (${billed.percentComplete}% complete)`,
+        quantity: 1,
+        unitPrice: billed.workThisPeriod,
+        type: 'other',
+      };
+    });
+
+  const retainageChange = roundMoney(calculation.totals.retainageHeld - previousRetainage);
+  if (retainageChange > 0) {
+    invoiceLines.push({
+      description: `Less retainage (${retainagePercent}%)`,
+      quantity: 1,
+      unitPrice: -retainageChange,
+      type: 'other',
+    });
+  } else if (retainageChange < 0) {
+    invoiceLines.push({
+      description: 'Retainage released',
+      quantity: 1,
+      unitPrice: -retainageChange,
+      type: 'other',
+    });
+  }
+
+  return invoiceLines;
+}
+
+/**
+ * Billed-to-date position of a job from its latest invoiced application.
+ */
+export function summarizeBilling(
+  lines: ScheduleLine[],
+  previous: Map<string, BilledLine>,
+  billedToDate: number
+): BillingSummary {
+  const originalContractSum = sumBy(lines.filter((l) => !l.changeOrderId), (l) => l.scheduledValue);
+  const netChangeOrders = sumBy(lines.filter((l) => l.changeOrderId), (l) => l.scheduledValue);
+  const contractSum = roundMoney(originalContractSum + netChangeOrders);
+  const completedToDate = sumBy(lines, (l) => previous.get(l.id)?.completedToDate ?? 0);
+
+  return {
+    originalContractSum,
+    netChangeOrders,
+    contractSum,
+    completedToDate,
+    percentComplete: percentOf(completedToDate, contractSum),
+    retainageHeld: sumBy(lines, (l) => previous.get(l.id)?.retainage ?? 0),
+    billedToDate,
+    remaining: roundMoney(contractSum - billedToDate),
+  };
+}
+
+// ============= Input Parsing =============
+
+function parseNumber(value: unknown, label: string, { min = 0, max = Infinity } = {}): number {
+  const number = Number(value);
+  if (value === null || value === '' || !Number.isFinite(number) || number < min || number > max) {
+    const range = max === Infinity ? `of at least ${min}` : `between ${min} and ${max}`;
+    throw new ProgressBillingError(ProgressBillingErrorCodes.INVALID_INPUT, `${label} must be a number ${range}`);
+  }
+  return number;
+}
+
+function optionalString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function parseDate(value: unknown, label: string): Date {
+  const date = new Date(value as string);
+  if (typeof value !== 'string' || Number.isNaN(date.getTime())) {
+    throw new ProgressBillingError(ProgressBillingErrorCodes.INVALID_INPUT, `${label} must be a date`);
+  }
+  return date;
+}
+
+export function parseScheduleInput(body: Record<string, unknown>): ScheduleInput {
+  if (!Array.isArray(body.lines)) {
+    throw new ProgressBillingError(ProgressBillingErrorCodes.INVALID_INPUT, 'lines must be an array');
+  }
+  if (body.lines.length > MAX_SCHEDULE_LINES) {
+    throw new ProgressBillingError(
+      ProgressBillingErrorCodes.INVALID_INPUT,
+      `A schedule of values can have at most ${MAX_SCHEDULE_LINES} lines`
+    );
+  }
+
+  const lines = body.lines.map((raw: Record<string, unknown>, index): ScheduleLineInput => {
+    const label = `lines[${index}]`;
+    const description = optionalString(raw?.description);
+    if (!description) {
+      throw new ProgressBillingError(ProgressBillingErrorCodes.INVALID_INPUT, `${label}: description is required`);
+    }
+    return {
+      id: optionalString(raw.id),
+      itemNumber: optionalString(raw.itemNumber),
+      description,
+      scheduledValue: parseNumber(raw.scheduledValue, `${label}.scheduledValue`),
+    };
+  });
+
+  return {
+    lines,
+    ...(body.retainagePercent !== undefined && {
+      retainagePercent: parseNumber(body.retainagePercent, 'retainagePercent', { max: 100 }),
+    }),
+  };
+}
+
+export function parsePayApplicationInput(body: Record<string, unknown>): PayApplicationInput {
+  const kind = (body.kind ?? 'progress') as PayApplicationKind;
+  if (!PAY_APPLICATION_KINDS.includes(kind)) {
+    throw new ProgressBillingError(
+      ProgressBillingErrorCodes.INVALID_INPUT,
+      `kind must be one of: ${PAY_APPLICATION_KINDS.join(', ')}`
+    );
+  }
+
+  const periodEnd = body.periodEnd === undefined ? new Date() : parseDate(body.periodEnd, 'periodEnd');
+  const periodStart = body.periodStart ? parseDate(body.periodStart, 'periodStart') : null;
+  if (periodStart && periodStart > periodEnd) {
+    throw new ProgressBillingError(ProgressBillingErrorCodes.INVALID_INPUT, 'periodStart must be before periodEnd');
+  }
+
+  const rawProgress = body.lines ?? [];
+  if (!Array.isArray(rawProgress)) {
+    throw new ProgressBillingError(ProgressBillingErrorCodes.INVALID_INPUT, 'lines must be an array');
+  }
+  const progress = rawProgress.map((raw: Record<string, unknown>, index): LineProgress => {
+    const lineId = optionalString(raw?.lineId);
+    if (!lineId) {
+      throw new ProgressBillingError(ProgressBillingErrorCodes.INVALID_INPUT, `lines[${index}]: lineId is required`);
+    }
+    return {
+      lineId,
+      percentComplete: parseNumber(raw.percentComplete, `lines[${index}].percentComplete`, { max: 100 }),
+    };
+  });
+  if (new Set(progress.map((p) => p.lineId)).size !== progress.length) {
+    throw new ProgressBillingError(ProgressBillingErrorCodes.INVALID_INPUT, 'Each schedule line can only be listed once');
+  }
+
+  return {
+    kind,
+    periodStart,
+    periodEnd,
+    retainagePercent:
+      body.retainagePercent === undefined || body.retainagePercent === null
+        ? null
+        : parseNumber(body.retainagePercent, 'retainagePercent', { max: 100 }),
+    notes: optionalString(body.notes),
+    progress,
+  };
+}
+
+// ============= Database =============
+
+type Db = TransactionClient | typeof prisma;
+
+async function getJob(db: Db, contractorId: string, jobId: string) {
+  const job = await db.contractorJob.findFirst({
+    where: { id: jobId, contractorId },
+    select: { id: true, jobNumber: true, title: true, customerId: true, retainagePercent: true },
+  });
+  if (!job) {
+    throw new ProgressBillingError(ProgressBillingErrorCodes.NOT_FOUND, 'Job not found');
+  }
+  return job;
+}
+
+/**
+ * Roll approved change orders that aren't on the schedule yet into it.
+ */
+async function syncChangeOrderLines(db: Db, contractorId: string, jobId: string) {
+  const pending = await db.contractorChangeOrder.findMany({
+    where: { jobId, contractorId, status: 'approved', scheduleLine: { is: null } },
+    orderBy: [{ approvedAt: 'asc' }, { createdAt: 'asc' }],
+    select: { id: true, title: true, additionalCost: true },
+  });
+  if (pending.length === 0) return;
+
+  const existing = await db.contractorScheduleOfValuesLine.count({
+    where: { jobId, changeOrderId: { not: null } },
+  });
+  await db.contractorScheduleOfValuesLine.createMany({
+    data: pending.map((changeOrder, index) => ({
+      contractorId,
+      jobId,
+      changeOrderId: changeOrder.id,
+      itemNumber: `CO-${existing + index + 1}`,
+      description: changeOrder.title,
+      scheduledValue: changeOrder.additionalCost,
+      sortOrder: CHANGE_ORDER_SORT_OFFSET + existing + index,
+    })),
+  });
+}
+
+async function getScheduleLines(db: Db, jobId: string): Promise<ScheduleLine[]> {
+  const rows = await db.contractorScheduleOfValuesLine.findMany({
+    where: { jobId },
+    orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }],
+    select: { id: true, itemNumber: true, description: true, scheduledValue: true, changeOrderId: true },
+  });
+  return rows.map((row) => ({ ...row, scheduledValue: Number(row.scheduledValue) }));
+}
+
+/**
+ * Lines of the latest invoiced application and what all invoiced
+ * applications billed between them.
+ */
+async function getBillingToDate(db: Db, jobId: string) {
+  const invoiced = await db.contractorPayApplication.findMany({
+    where: { jobId, status: 'invoiced' },
+    orderBy: { applicationNumber: 'desc' },
+    select: {
+      kind: true,
+      retainagePercent: true,
+      currentDue: true,
+      lines: {
+        select: {
+          lineId: true,
+          scheduledValue: true,
+          previousCompleted: true,
+          workThisPeriod: true,
+          completedToDate: true,
+          percentComplete: true,
+          retainage: true,
+        },
+      },
+    },
+  });
+
+  const latest = invoiced[0];
+  const previous = new Map<string, BilledLine>(
+    (latest?.lines ?? []).map((line) => [
+      line.lineId,
+      {
+        lineId: line.lineId,
+        scheduledValue: Number(line.scheduledValue),
+        previousCompleted: Number(line.previousCompleted),
+        workThisPeriod: Number(line.workThisPeriod),
+        completedToDate: Number(line.completedToDate),
+        percentComplete: Number(line.percentComplete),
+        retainage: Number(line.retainage),
+      },
+    ])
+  );
+
+  return {
+    previous,
+    billedToDate: sumBy(invoiced, (app) => Number(app.currentDue)),
+    lastRetainagePercent: latest ? Number(latest.retainagePercent) : null,
+    retainageReleased: invoiced.some((app) => app.kind === 'retainage_release'),
+  };
+}
+
+export async function getJobBilling(contractorId: string, jobId: string) {
+  const job = await getJob(prisma, contractorId, jobId);
+  await syncChangeOrderLines(prisma, contractorId, jobId);
+
+  const [lines, billing, payApplications] = await Promise.all([
+    getScheduleLines(prisma, jobId),
+    getBillingToDate(prisma, jobId),
+    prisma.contractorPayApplication.findMany({
+      where: { jobId },
+      orderBy: { applicationNumber: 'desc' },
+      include: {
+        invoice: { select: { id: true, invoiceNumber: true, status: true, amountDue: true } },
+      },
+    }),
+  ]);
+
+  return {
+    job: {
+      ...job,
+      retainagePercent: job.retainagePercent === null ? DEFAULT_RETAINAGE_PERCENT : Number(job.retainagePercent),
+    },
+    lines: lines.map((line) => {
+      const billed = billing.previous.get(line.id);
+      return {
+        ...line,
+        completedToDate: billed?.completedToDate ?? 0,
+        percentComplete: billed?.percentComplete ?? 0,
+        retainage: billed?.retainage ?? 0,
+        balanceToFinish: roundMoney(line.scheduledValue - (billed?.completedToDate ?? 0)),
+      };
+    }),
+    summary: summarizeBilling(lines, billing.previous, billing.billedToDate),
+    retainageReleased: billing.retainageReleased,
+    payApplications,
+  };
+}
+
+/**
+ * Replace the job's own schedule lines. Change order lines are kept as they
+ * are, and lines that have been billed can't be removed or cut below what
+ * was billed on them.
+ */
+export async function updateSchedule(contractorId: string, jobId: string, input: ScheduleInput) {
+  await prisma.$transaction(async (tx) => {
+    await getJob(tx, contractorId, jobId);
+
+    const draft = await tx.contractorPayApplication.findFirst({ where: { jobId, status: 'draft' }, select: { id: true } });
+    if (draft) {
+      throw new ProgressBillingError(
+        ProgressBillingErrorCodes.INVALID_STATUS,
+        'Invoice or delete the draft pay application before changing the schedule of values'
+      );
+    }
+
+    const existing = (await getScheduleLines(tx, jobId)).filter((line) => !line.changeOrderId);
+    const { previous } = await getBillingToDate(tx, jobId);
+    const keepIds = new Set(input.lines.map((line) => line.id).filter(Boolean));
+
+    for (const line of input.lines) {
+      if (line.id && !existing.some((e) => e.id === line.id)) {
+        throw new ProgressBillingError(ProgressBillingErrorCodes.NOT_FOUND, `Schedule line ${line.id} not found`);
+      }
+      const billed = line.id ? previous.get(line.id)?.completedToDate ?? 0 : 0;
+      if (line.scheduledValue < billed) {
+        throw new ProgressBillingError(
+          ProgressBillingErrorCodes.INVALID_INPUT,
+          `${line.description}: scheduled value cannot be less than the ${billed.toFixed(2)} already billed`
+        );
+      }
+    }
+
+    const removed = existing.filter((line) => !keepIds.has(line.id));
+    const billedRemoval = removed.find((line) => previous.has(line.id));
+    if (billedRemoval) {
+      throw new ProgressBillingError(
+        ProgressBillingErrorCodes.INVALID_STATUS,
+        `${billedRemoval.itemNumber}. ${billedRemoval.description} has been billed and can't be removed`
+      );
+    }
+    if (removed.length > 0) {
+      await tx.contractorScheduleOfValuesLine.deleteMany({ where: { id: { in: removed.map((line) => line.id) } } });
+    }
+
+    for (const [index, line] of input.lines.entries()) {
+      const data = {
+        itemNumber: line.itemNumber ?? String(index + 1),
+        description: line.description,
+        scheduledValue: line.scheduledValue,
+        sortOrder: index,
+      };
+      if (line.id) {
+        await tx.contractorScheduleOfValuesLine.update({ where: { id: line.id }, data });
+      } else {
+        await tx.contractorScheduleOfValuesLine.create({ data: { ...data, contractorId, jobId } });
+      }
+    }
+
+    if (input.retainagePercent !== undefined) {
+      await tx.contractorJob.update({ where: { id: jobId }, data: { retainagePercent: input.retainagePercent } });
+    }
+  });
+
+  return getJobBilling(contractorId, jobId);
+}
+
+/**
+ * Save a draft pay application. Only one draft may be open per job; it is
+ * billed against the applications invoiced before it.
+ */
+export async function createPayApplication(contractorId: string, jobId: string, input: PayApplicationInput) {
+  return prisma.$transaction(async (tx) => {
+    const job = await getJob(tx, contractorId, jobId);
+    await syncChangeOrderLines(tx, contractorId, jobId);
+
+    const draft = await tx.contractorPayApplication.findFirst({ where: { jobId, status: 'draft' }, select: { id: true } });
+    if (draft) {
+      throw new ProgressBillingError(ProgressBillingErrorCodes.INVALID_STATUS, 'This job already has a draft pay application');
+    }
+
+    const lines = await getScheduleLines(tx, jobId);
+    if (lines.length === 0) {
+      throw new ProgressBillingError(ProgressBillingErrorCodes.INVALID_STATUS, 'Set up a schedule of values before billing');
+    }
+
+    const billing = await getBillingToDate(tx, jobId);
+    if (billing.retainageReleased) {
+      throw new ProgressBillingError(ProgressBillingErrorCodes.INVALID_STATUS, 'Retainage has already been released on this job');
+    }
+
+    const base = { lines, previous: billing.previous, previousBilled: billing.billedToDate };
+    let retainagePercent = 0;
+    let calculation: PayApplicationCalculation;
+    if (input.kind === 'retainage_release') {
+      calculation = calculateRetainageRelease(base);
+    } else {
+      retainagePercent =
+        input.retainagePercent ??
+        billing.lastRetainagePercent ??
+        (job.retainagePercent === null ? DEFAULT_RETAINAGE_PERCENT : Number(job.retainagePercent));
+      calculation = calculatePayApplication({ ...base, progress: input.progress, retainagePercent });
+      if (calculation.totals.currentDue <= 0) {
+        throw new ProgressBillingError(ProgressBillingErrorCodes.INVALID_INPUT, 'Nothing to bill for this period');
+      }
+    }
+
+    const last = await tx.contractorPayApplication.findFirst({
+      where: { jobId },
+      orderBy: { applicationNumber: 'desc' },
+      select: { applicationNumber: true },
+    });
+
+    return tx.contractorPayApplication.create({
+      data: {
+        contractorId,
+        jobId,
+        applicationNumber: (last?.applicationNumber ?? 0) + 1,
+        kind: input.kind,
+        periodStart: input.periodStart,
+        periodEnd: input.periodEnd,
+        retainagePercent,
+        notes: input.notes,
+        ...calculation.totals,
+        lines: { create: calculation.lines },
+      },
+      include: { lines: true },
+    });
+  });
+}
+
+export async function deletePayApplication(contractorId: string, jobId: string, payApplicationId: string) {
+  const application = await prisma.contractorPayApplication.findFirst({
+    where: { id: payApplicationId, jobId, contractorId },
+    select: { id: true, status: true },
+  });
+  if (!application) {
+    throw new ProgressBillingError(ProgressBillingErrorCodes.NOT_FOUND, 'Pay application not found');
+  }
+  if (application.status !== 'draft') {
+    throw new ProgressBillingError(ProgressBillingErrorCodes.INVALID_STATUS, 'Only draft pay applications can be deleted');
+  }
+  await prisma.contractorPayApplication.delete({ where: { id: application.id } });
+}
+
+/**
+ * Raise the invoice for a draft pay application and mark it invoiced. The
+ * application is claimed (moved to invoiced) before the invoice is raised,
+ * so a double submit can't bill it twice; it goes back to draft if raising
+ * the invoice fails.
+ */
+export async function invoicePayApplication(contractorId: string, jobId: string, payApplicationId: string) {
+  const job = await getJob(prisma, contractorId, jobId);
+  if (!job.customerId) {
+    throw new ProgressBillingError(ProgressBillingErrorCodes.INVALID_STATUS, 'Link a customer to the job before billing it');
+  }
+
+  const application = await prisma.contractorPayApplication.findFirst({
+    where: { id: payApplicationId, jobId, contractorId },
+    include: { lines: true },
+  });
+  if (!application) {
+    throw new ProgressBillingError(ProgressBillingErrorCodes.NOT_FOUND, 'Pay application not found');
+  }
+  if (application.status !== 'draft') {
+    throw new ProgressBillingError(ProgressBillingErrorCodes.INVALID_STATUS, 'This pay application has already been invoiced');
+  }
+
+  const [lines, billing] = await Promise.all([getScheduleLines(prisma, jobId), getBillingToDate(prisma, jobId)]);
+  const calculation: PayApplicationCalculation = {
+    lines: application.lines.map((line) => ({
+      lineId: line.lineId,
+      scheduledValue: Number(line.scheduledValue),
+      previousCompleted: Number(line.previousCompleted),
+      workThisPeriod: Number(line.workThisPeriod),
+      completedToDate: Number(line.completedToDate),
+      percentComplete: Number(line.percentComplete),
+      retainage: Number(line.retainage),
+    })),
+    totals: {
+      originalContractSum: Number(application.originalContractSum),
+      netChangeOrders: Number(application.netChangeOrders),
+      contractSumToDate: Number(application.contractSumToDate),
+      completedToDate: Number(application.completedToDate),
+      retainageHeld: Number(application.retainageHeld),
+      earnedLessRetainage: Number(application.earnedLessRetainage),
+      previousBilled: Number(application.previousBilled),
+      currentDue: Number(application.currentDue),
+      balanceToFinish: Number(application.balanceToFinish),
+    },
+  };
+  const previousRetainage = sumBy([...billing.previous.values()], (line) => line.retainage);
+  const period = `${application.periodStart ? `${format(application.periodStart, 'MMM d, yyyy')} - ` : 'period ending '}${format(application.periodEnd, 'MMM d, yyyy')}`;
+
+  const claimed = await prisma.contractorPayApplication.updateMany({
+    where: { id: application.id, status: 'draft' },
+    data: { status: 'invoiced', invoicedAt: new Date() },
+  });
+  if (claimed.count === 0) {
+    throw new ProgressBillingError(ProgressBillingErrorCodes.INVALID_STATUS, 'This pay application has already been invoiced');
+  }
+
+  let invoice: Awaited<ReturnType<typeof ContractorInvoicingService.createInvoice>>;
+  try {
+    invoice = await ContractorInvoicingService.createInvoice({
+      contractorId,
+      customerId: job.customerId,
+      jobId,
+      lineItems: planPayApplicationInvoice(lines, calculation, previousRetainage, Number(application.retainagePercent)),
+      dueDate: addDays(new Date(), PAY_APPLICATION_DUE_DAYS),
+      notes:
+        application.kind === 'retainage_release'
+          ? `Release of retainage for ${job.jobNumber} ${job.title} (application #${application.applicationNumber})`
+          : `Application #${application.applicationNumber} for ${job.jobNumber} ${job.title}, ${period}`,
+    });
+  } catch (error) {
+    await prisma.contractorPayApplication.updateMany({
+      where: { id: application.id, status: 'invoiced', invoiceId: null },
+      data: { status: 'draft', invoicedAt: null },
+    });
+    throw error;
+  }
+
+  return prisma.contractorPayApplication.update({
+    where: { id: application.id },
+    data: { invoiceId: invoice.id },
+    include: { invoice: { select: { id: true, invoiceNumber: true, status: true, amountDue: true } } },
+  });
+}
@@ -0,0 +1,510 @@
+/**
+ * Proration Service
+ * Shared partial-period math for rent and recurring charges. A billing period
+ * runs from one billing day (Lease.billingDayOfMonth or
+ * RecurringCharge.dayOfMonthToPost) to the day before the next; in short
+ * months the billing day falls on the last day of the month.
+ *
+ * Landlords pick how a day is priced (Landlord.prorationMethod):
+ * - actual_days: monthly amount ÷ days in that billing period
+ * - thirty_day: monthly amount ÷ 30
+ * - annual_365: monthly amount × 12 ÷ 365
+ *
+ * Writers store the breakdown segments on the charge
+ * (RentPayment.metadata.proration or LedgerEntry.metadata.proration) so a
+ * tenant or auditor can see how a partial amount was reached.
+ */
+
+import { prisma } from '@/db/prisma';
+import type { Prisma } from '@prisma/client';
+import { addDays, addMonths, differenceInCalendarDays, format, getDaysInMonth, startOfDay, subDays } from 'date-fns';
+import { postProrationCredit, syncLedgerSafely, syncRentPaymentLedger } from './tenant-ledger.service';
+
+export const PRORATION_METHODS = ['actual_days', 'thirty_day', 'annual_365'] as const;
+export type ProrationMethod = (typeof PRORATION_METHODS)[number];
+
+export const DEFAULT_PRORATION_METHOD: ProrationMethod = 'actual_days';
+
+// RentPayment types that cover a billing period and can be prorated at move-out
+const PERIOD_CHARGE_TYPES = ['monthly_rent', 'first_month_rent', 'recurring_charge', 'rent_adjustment'];
+
+export interface BillingPeriod {
+  start: Date;
+  /** Inclusive */
+  end: Date;
+  days: number;
+}
+
+/** JSON-safe record of one prorated segment */
+export interface ProrationBreakdown {
+  method: ProrationMethod;
+  monthlyAmount: number;
+  periodStart: string;
+  periodEnd: string;
+  periodDays: number;
+  from: string;
+  to: string;
+  days: number;
+  dailyRate: number;
+  amount: number;
+  full: boolean;
+}
+
+export interface RentChangeAdjustment {
+  /** Positive = owed by the tenant, negative = credit */
+  amount: number;
+  segments: ProrationBreakdown[];
+}
+
+// ============= Periods =============
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toDateKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+function parseDateKey(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function normalizeProrationMethod(value: unknown): ProrationMethod {
+  return PRORATION_METHODS.includes(value as ProrationMethod)
+    ? (value as ProrationMethod)
+    : DEFAULT_PRORATION_METHOD;
+}
+
+/** The billing day in a given month, clamped to the month's last day */
+function billingDayIn(year: number, month: number, billingDay: number): Date {
+  const day = Math.min(Math.max(1, billingDay), getDaysInMonth(new Date(year, month, 1)));
+  return new Date(year, month, day);
+}
+
+/** The billing period that contains `date` */
+export function getBillingPeriod(date: Date, billingDay: number): BillingPeriod {
+  const day = startOfDay(date);
+  let start = billingDayIn(day.getFullYear(), day.getMonth(), billingDay);
+  if (start > day) {
+    const previous = addMonths(new Date(day.getFullYear(), day.getMonth(), 1), -1);
+    start = billingDayIn(previous.getFullYear(), previous.getMonth(), billingDay);
+  }
+
+  const following = addMonths(new Date(start.getFullYear(), start.getMonth(), 1), 1);
+  const end = subDays(billingDayIn(following.getFullYear(), following.getMonth(), billingDay), 1);
+
+  return { start, end, days: differenceInCalendarDays(end, start) + 1 };
+}
+
+/** Billing period recorded on a breakdown */
+export function periodFromBreakdown(breakdown: ProrationBreakdown): BillingPeriod {
+  const start = parseDateKey(breakdown.periodStart);
+  const end = parseDateKey(breakdown.periodEnd);
+  return { start, end, days: breakdown.periodDays };
+}
+
+// ============= Proration =============
+
+/** Price of one day under a method */
+export function getDailyRate(monthlyAmount: number, periodDays: number, method: ProrationMethod): number {
+  switch (method) {
+    case 'thirty_day':
+      return monthlyAmount / 30;
+    case 'annual_365':
+      return (monthlyAmount * 12) / 365;
+    default:
+      return monthlyAmount / periodDays;
+  }
+}
+
+/**
+ * Prorates a monthly amount for the days from `from` to `to` (inclusive)
+ * that fall inside `period`. A whole period is always the full monthly
+ * amount, and a partial one never costs more than it.
+ */
+export function prorate(params: {
+  monthlyAmount: number;
+  period: BillingPeriod;
+  from: Date;
+  to: Date;
+  method: ProrationMethod;
+}): ProrationBreakdown {
+  const { monthlyAmount, period, method } = params;
+  const from = startOfDay(params.from) > period.start ? startOfDay(params.from) : period.start;
+  const to = startOfDay(params.to) < period.end ? startOfDay(params.to) : period.end;
+  const days = Math.max(0, differenceInCalendarDays(to, from) + 1);
+  const full = days >= period.days;
+  const dailyRate = getDailyRate(monthlyAmount, period.days, method);
+
+  return {
+    method,
+    monthlyAmount: roundMoney(monthlyAmount),
+    periodStart: toDateKey(period.start),
+    periodEnd: toDateKey(period.end),
+    periodDays: period.days,
+    from: toDateKey(days > 0 ? from : period.start),
+    to: toDateKey(days > 0 ? to : period.start),
+    days,
+    dailyRate: Math.round(dailyRate * 10000) / 10000,
+    amount: full ? roundMoney(monthlyAmount) : Math.min(roundMoney(monthlyAmount), roundMoney(dailyRate * days)),
+    full,
+  };
+}
+
+/** Prorates a date range that may span several billing periods, one segment per period */
+export function prorateRange(params: {
+  monthlyAmount: number;
+  from: Date;
+  to: Date;
+  billingDay: number;
+  method: ProrationMethod;
+}): ProrationBreakdown[] {
+  const segments: ProrationBreakdown[] = [];
+  const last = startOfDay(params.to);
+  let cursor = startOfDay(params.from);
+
+  while (cursor <= last) {
+    const period = getBillingPeriod(cursor, params.billingDay);
+    segments.push(prorate({ ...params, period, from: cursor }));
+    cursor = addDays(period.end, 1);
+  }
+
+  return segments;
+}
+
+/** Sum of segment amounts, to the cent */
+export function sumProration(segments: ProrationBreakdown[]): number {
+  return roundMoney(segments.reduce((sum, segment) => sum + segment.amount, 0));
+}
+
+/**
+ * Settles a rent change that takes effect mid-period: the difference between
+ * the new and old rent for the rest of that period. Null when the change
+ * starts on a billing day (the next full period simply bills the new rent).
+ */
+export function calculateRentChangeAdjustment(params: {
+  previousRent: number;
+  newRent: number;
+  effectiveDate: Date;
+  billingDay: number;
+  method: ProrationMethod;
+}): RentChangeAdjustment | null {
+  const period = getBillingPeriod(params.effectiveDate, params.billingDay);
+  if (differenceInCalendarDays(params.effectiveDate, period.start) === 0) return null;
+  if (params.newRent === params.previousRent) return null;
+
+  const newPortion = prorate({
+    monthlyAmount: params.newRent,
+    period,
+    from: params.effectiveDate,
+    to: period.end,
+    method: params.method,
+  });
+  const previousPortion = prorate({
+    monthlyAmount: params.previousRent,
+    period,
+    from: params.effectiveDate,
+    to: period.end,
+    method: params.method,
+  });
+
+  return {
+    amount: roundMoney(newPortion.amount - previousPortion.amount),
+    segments: [newPortion, previousPortion],
+  };
+}
+
+/**
+ * Credit owed when a tenant leaves partway through a period they were
+ * charged for: the charge less the prorated amount for the days they stayed.
+ */
+export function calculateMoveOutCredit(params: {
+  chargedAmount: number;
+  monthlyAmount: number;
+  period: BillingPeriod;
+  coveredFrom: Date;
+  lastDay: Date;
+  method: ProrationMethod;
+}): { credit: number; used: ProrationBreakdown } | null {
+  const lastDay = startOfDay(params.lastDay);
+  if (lastDay >= params.period.end || lastDay < params.period.start) return null;
+
+  const used = prorate({ ...params, from: params.coveredFrom, to: lastDay });
+  const credit = roundMoney(params.chargedAmount - used.amount);
+
+  return credit > 0 ? { credit, used } : null;
+}
+
+/**
+ * Segments billed when a recurring charge posts on `postDate`: the period
+ * starting that day, clipped to the charge's start/end dates, plus (on the
+ * first posting only) a stub for a start date in the previous period.
+ * Empty when the charge doesn't cover any of those days.
+ */
+export function getRecurringChargeProration(params: {
+  amount: number;
+  dayOfMonthToPost: number;
+  startDate: Date;
+  endDate: Date | null;
+  lastPostedDate: Date | null;
+  postDate: Date;
+  method: ProrationMethod;
+}): ProrationBreakdown[] {
+  const { amount, dayOfMonthToPost, method } = params;
+  const startDate = startOfDay(params.startDate);
+  const endDate = params.endDate ? startOfDay(params.endDate) : null;
+  const period = getBillingPeriod(params.postDate, dayOfMonthToPost);
+  const segments: ProrationBreakdown[] = [];
+
+  if (!params.lastPostedDate && startDate < period.start) {
+    const previous = getBillingPeriod(subDays(period.start, 1), dayOfMonthToPost);
+    if (startDate >= previous.start && (!endDate || endDate >= startDate)) {
+      segments.push(prorate({
+        monthlyAmount: amount,
+        period: previous,
+        from: startDate,
+        to: endDate && endDate < previous.end ? endDate : previous.end,
+        method,
+      }));
+    }
+  }
+
+  const current = prorate({
+    monthlyAmount: amount,
+    period,
+    from: startDate > period.start ? startDate : period.start,
+    to: endDate && endDate < period.end ? endDate : period.end,
+    method,
+  });
+  if (current.days > 0) segments.push(current);
+
+  return segments.filter((segment) => segment.days > 0);
+}
+
+/** Short description for charge lines, e.g. "prorated 12 of 31 days" */
+export function describeProration(segments: ProrationBreakdown[]): string {
+  const partial = segments.filter((segment) => !segment.full);
+  if (partial.length === 0) return 'full period';
+  return partial.map((segment) => `prorated ${segment.days} of ${segment.periodDays} days`).join(' + ');
+}
+
+// ============= Landlord settings =============
+
+export async function getLandlordProrationMethod(landlordId: string): Promise<ProrationMethod> {
+  const landlord = await prisma.landlord.findUnique({
+    where: { id: landlordId },
+    select: { prorationMethod: true },
+  });
+  return normalizeProrationMethod(landlord?.prorationMethod);
+}
+
+// ============= Writers =============
+
+interface PeriodChargeMetadata {
+  type?: string;
+  description?: string;
+  recurringChargeId?: string;
+  previousRent?: number;
+  newRent?: number;
+  proration?: ProrationBreakdown[];
+  moveOut?: { departureDate: string; credit: number; used: ProrationBreakdown };
+}
+
+/**
+ * The days a period charge paid for. Prorated charges cover their last
+ * recorded segment (earlier segments are stub periods already lived in);
+ * rent adjustments cover the rent difference from the change date; anything
+ * else is a full period starting at its due date.
+ */
+function getChargeCoverage(metadata: PeriodChargeMetadata, amount: number, fallback: BillingPeriod) {
+  const segments = Array.isArray(metadata.proration) ? metadata.proration : [];
+  if (metadata.type === 'rent_adjustment' && segments[0]) {
+    return {
+      period: periodFromBreakdown(segments[0]),
+      coveredFrom: parseDateKey(segments[0].from),
+      chargedAmount: amount,
+      monthlyAmount: (metadata.newRent ?? 0) - (metadata.previousRent ?? 0),
+    };
+  }
+
+  const covering = segments[segments.length - 1];
+  if (covering) {
+    return {
+      period: periodFromBreakdown(covering),
+      coveredFrom: parseDateKey(covering.from),
+      chargedAmount: covering.amount,
+      monthlyAmount: covering.monthlyAmount,
+    };
+  }
+
+  return { period: fallback, coveredFrom: fallback.start, chargedAmount: amount, monthlyAmount: amount };
+}
+
+/**
+ * Charges (or credits) the difference when rent changes partway through a
+ * billing period. Increases become a 'rent_adjustment' RentPayment; decreases
+ * are credited on the tenant ledger.
+ */
+export async function applyRentChangeProration(params: {
+  leaseId: string;
+  previousRent: number;
+  newRent: number;
+  effectiveDate: Date;
+}): Promise<RentChangeAdjustment | null> {
+  const lease = await prisma.lease.findUnique({
+    where: { id: params.leaseId },
+    select: {
+      id: true,
+      status: true,
+      tenantId: true,
+      billingDayOfMonth: true,
+      unit: { select: { property: { select: { landlordId: true } } } },
+    },
+  });
+  if (!lease || lease.status !== 'active') return null;
+
+  const landlordId = lease.unit.property.landlordId;
+  const method = landlordId ? await getLandlordProrationMethod(landlordId) : DEFAULT_PRORATION_METHOD;
+  const adjustment = calculateRentChangeAdjustment({
+    previousRent: params.previousRent,
+    newRent: params.newRent,
+    effectiveDate: params.effectiveDate,
+    billingDay: lease.billingDayOfMonth,
+    method,
+  });
+  if (!adjustment || adjustment.amount === 0) return adjustment;
+
+  const [newPortion] = adjustment.segments;
+  const description = `Rent change ${newPortion.from} - ${newPortion.to} (${describeProration([newPortion])})`;
+
+  if (adjustment.amount > 0) {
+    const payment = await prisma.rentPayment.create({
+      data: {
+        leaseId: lease.id,
+        tenantId: lease.tenantId,
+        amount: adjustment.amount,
+        dueDate: startOfDay(params.effectiveDate),
+        status: 'pending',
+        metadata: {
+          type: 'rent_adjustment',
+          description,
+          previousRent: params.previousRent,
+          newRent: params.newRent,
+          proration: adjustment.segments,
+        } as unknown as Prisma.InputJsonValue,
+      },
+    });
+    await syncLedgerSafely(`rent adjustment ${payment.id}`, () => syncRentPaymentLedger(payment.id));
+  } else {
+    await syncLedgerSafely(`rent change credit ${lease.id}`, async () => {
+      await postProrationCredit({
+        leaseId: lease.id,
+        amount: -adjustment.amount,
+        description,
+        effectiveDate: startOfDay(params.effectiveDate),
+        idempotencyKey: `proration:rent_change:${lease.id}:${toDateKey(params.effectiveDate)}`,
+        metadata: {
+          previousRent: params.previousRent,
+          newRent: params.newRent,
+          proration: adjustment.segments,
+        } as unknown as Prisma.InputJsonValue,
+      });
+    });
+  }
+
+  return adjustment;
+}
+
+/**
+ * Settles the billing period a tenant moves out in. Period charges that cover
+ * days after `departureDate` are credited back for the unused days, and the
+ * lease's recurring charges end on the departure date.
+ *
+ * Returns the ids of the settled charges; they remain owed (net of the
+ * credit) rather than being cancelled with the rest of the lease's charges.
+ */
+export async function settleMoveOutProration(leaseId: string, departureDate: Date): Promise<string[]> {
+  const lease = await prisma.lease.findUnique({
+    where: { id: leaseId },
+    select: {
+      id: true,
+      billingDayOfMonth: true,
+      unit: { select: { property: { select: { landlordId: true } } } },
+      rentPayments: {
+        where: {
+          status: { in: ['pending', 'overdue', 'processing', 'paid'] },
+          dueDate: { lte: addDays(startOfDay(departureDate), 1) },
+        },
+        orderBy: { dueDate: 'desc' },
+        take: 24,
+      },
+      recurringCharges: {
+        select: { id: true, dayOfMonthToPost: true, status: true },
+      },
+    },
+  });
+  if (!lease) return [];
+
+  const landlordId = lease.unit.property.landlordId;
+  const method = landlordId ? await getLandlordProrationMethod(landlordId) : DEFAULT_PRORATION_METHOD;
+  const postingDays = new Map(lease.recurringCharges.map((charge) => [charge.id, charge.dayOfMonthToPost]));
+  const settled: string[] = [];
+
+  for (const payment of lease.rentPayments) {
+    const metadata = (payment.metadata as PeriodChargeMetadata | null) || {};
+    const type = metadata.type || 'monthly_rent';
+    if (!PERIOD_CHARGE_TYPES.includes(type) || metadata.moveOut) continue;
+
+    const billingDay = (metadata.recurringChargeId && postingDays.get(metadata.recurringChargeId))
+      || lease.billingDayOfMonth;
+    const coverage = getChargeCoverage(metadata, Number(payment.amount), getBillingPeriod(payment.dueDate, billingDay));
+    const result = calculateMoveOutCredit({ ...coverage, lastDay: departureDate, method });
+    if (!result) continue;
+
+    settled.push(payment.id);
+
+    // Unpaid charges drop to what the tenant owes so checkout collects the
+    // right amount; the ledger keeps the full charge and posts the credit
+    if (payment.status === 'pending' || payment.status === 'overdue') {
+      await prisma.rentPayment.update({
+        where: { id: payment.id },
+        data: {
+          amount: roundMoney(Number(payment.amount) - result.credit),
+          metadata: {
+            ...metadata,
+            moveOut: { departureDate: toDateKey(departureDate), credit: result.credit, used: result.used },
+          } as unknown as Prisma.InputJsonValue,
+        },
+      });
+    }
+
+    await syncLedgerSafely(`move-out proration ${payment.id}`, async () => {
+      await postProrationCredit({
+        leaseId: lease.id,
+        amount: result.credit,
+        description: `Unused days - ${metadata.description || 'Rent'} (${describeProration([result.used])})`,
+        effectiveDate: startOfDay(departureDate),
+        idempotencyKey: `proration:move_out:${payment.id}`,
+        metadata: {
+          rentPaymentId: payment.id,
+          chargedAmount: coverage.chargedAmount,
+          proration: [result.used],
+        } as unknown as Prisma.InputJsonValue,
+      });
+    });
+  }
+
+  const openCharges = lease.recurringCharges
+    .filter((charge) => charge.status !== 'ended')
+    .map((charge) => charge.id);
+  if (openCharges.length > 0) {
+    await prisma.recurringCharge.updateMany({
+      where: { id: { in: openCharges } },
+      data: { status: 'ended', endDate: startOfDay(departureDate) },
+    });
+  }
+
+  return settled;
+}
@@ -0,0 +1,77 @@
+/**
+ * Push Service — Expo push notifications
+ *
+ * Sends to every token the mobile app registered for a user through
+ * /api/mobile/push-tokens. Optional in .env:
+ *   EXPO_ACCESS_TOKEN  (only needed when enhanced push security is on)
+ *
+ * Tokens Expo reports as DeviceNotRegistered are deleted so uninstalled
+ * apps stop receiving sends.
+ */
+
+import { prisma } from '@/db/prisma';
+
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+
+interface SendPushOptions {
+  userId: string;
+  title: string;
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+interface PushResult {
+  success: boolean;
+  sent: number;
+  error?: string;
+}
+
+interface ExpoTicket {
+  status: 'ok' | 'error';
+  message?: string;
+  details?: { error?: string };
+}
+
+export async function sendPush({ userId, title, message, data }: SendPushOptions): Promise<PushResult> {
+  const tokens = await prisma.pushToken.findMany({
+    where: { userId },
+    select: { token: true },
+  });
+  if (tokens.length === 0) return { success: false, sent: 0, error: 'No push tokens registered' };
+
+  try {
+    const response = await fetch(EXPO_PUSH_URL, {
+      method: 'POST',
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+        ...(process.env.EXPO_ACCESS_TOKEN ? { Authorization: `Bearer ${process.env.EXPO_ACCESS_TOKEN}` } : {}),
+      },
+      body: JSON.stringify(
+        tokens.map(({ token }) => ({ to: token, title, body: message, data, sound: 'default' }))
+      ),
+    });
+
+    if (!response.ok) {
+      console.error(`[Push] ✗ Expo responded ${response.status} for user ${userId}`);
+      return { success: false, sent: 0, error: `Expo responded ${response.status}` };
+    }
+
+    // Tickets come back in the same order as the messages
+    const { data: tickets = [] } = (await response.json()) as { data?: ExpoTicket[] };
+    const stale = tickets
+      .map((ticket, index) => (ticket.details?.error === 'DeviceNotRegistered' ? tokens[index]?.token : null))
+      .filter((token): token is string => !!token);
+
+    if (stale.length > 0) {
+      await prisma.pushToken.deleteMany({ where: { token: { in: stale } } });
+    }
+
+    const sent = tickets.filter((ticket) => ticket.status === 'ok').length;
+    return { success: sent > 0, sent };
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    console.error(`[Push] ✗ Failed to send to user ${userId}:`, error);
+    return { success: false, sent: 0, error };
+  }
+}
@@ -146,16 +146,145 @@ export const getQuickBooksAccessToken = async (landlordId: string): Promise<{
   return { accessToken: newAccess, realmId: conn.realmId };
 };
 
+const QUICKBOOKS_MINOR_VERSION = '65';
+
+/**
+ * Base URL of the QBO accounting API. QUICKBOOKS_API_BASE_URL points the
+ * client at a local mock of the REST API for development and tests.
+ */
+export const getQuickBooksApiBaseUrl = () => {
+  if (process.env.QUICKBOOKS_API_BASE_URL) {
+    return process.env.QUICKBOOKS_API_BASE_URL.replace(/\/$/, '');
+  }
+
+  const environment = (process.env.QUICKBOOKS_ENVIRONMENT || 'sandbox').toLowerCase();
+  return environment === 'production'
+    ? 'https://quickbooks.api.intuit.com'
+    : 'https://sandbox-quickbooks.api.intuit.com';
+};
+
+export type QuickBooksEntityName = 'Account' | 'Class' | 'Department' | 'Customer' | 'Vendor' | 'Deposit' | 'Purchase';
+
+export type QuickBooksObject = {
+  Id: string;
+  SyncToken: string;
+  Active?: boolean;
+  [key: string]: unknown;
+};
+
+export class QuickBooksApiError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public code?: string
+  ) {
+    super(message);
+    this.name = 'QuickBooksApiError';
+  }
+
+  /** QBO rejects writes with an outdated SyncToken (object edited in QuickBooks) */
+  get isStaleObject() {
+    return this.code === '5010';
+  }
+
+  get isNotFound() {
+    return this.status === 404 || this.code === '610';
+  }
+}
+
+type QuickBooksFault = { Fault?: { Error?: Array<{ Message?: string; Detail?: string; code?: string }> } };
+
+export type QuickBooksApiClient = ReturnType<typeof createQuickBooksApiClient>;
+
+export const createQuickBooksApiClient = (opts: {
+  realmId: string;
+  accessToken: string;
+  baseUrl?: string;
+  fetchImpl?: typeof fetch;
+}) => {
+  const fetchImpl = opts.fetchImpl || fetch;
+  const companyUrl = `${opts.baseUrl || getQuickBooksApiBaseUrl()}/v3/company/${encodeURIComponent(opts.realmId)}`;
+
+  const request = async <T>(method: 'GET' | 'POST', path: string, body?: unknown): Promise<T> => {
+    const separator = path.includes('?') ? '&' : '?';
+    const res = await fetchImpl(`${companyUrl}${path}${separator}minorversion=${QUICKBOOKS_MINOR_VERSION}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${opts.accessToken}`,
+        Accept: 'application/json',
+        ...(body ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    const text = await res.text();
+    const json = text ? (JSON.parse(text) as T & QuickBooksFault) : ({} as T & QuickBooksFault);
+
+    if (!res.ok || json.Fault) {
+      const fault = json.Fault?.Error?.[0];
+      throw new QuickBooksApiError(
+        res.ok ? 400 : res.status,
+        `QuickBooks API error (${res.status}): ${fault?.Detail || fault?.Message || text}`,
+        fault?.code
+      );
+    }
+
+    return json;
+  };
+
+  return {
+    query: async (sql: string): Promise<QuickBooksObject[]> => {
+      const json = await request<{ QueryResponse?: Record<string, unknown> }>(
+        'GET',
+        `/query?query=${encodeURIComponent(sql)}`
+      );
+      const rows = Object.values(json.QueryResponse || {}).find(Array.isArray);
+      return (rows || []) as QuickBooksObject[];
+    },
+
+    read: async (entity: QuickBooksEntityName, id: string): Promise<QuickBooksObject> => {
+      const json = await request<Record<string, QuickBooksObject>>(
+        'GET',
+        `/${entity.toLowerCase()}/${encodeURIComponent(id)}`
+      );
+      return json[entity];
+    },
+
+    create: async (entity: QuickBooksEntityName, payload: Record<string, unknown>): Promise<QuickBooksObject> => {
+      const json = await request<Record<string, QuickBooksObject>>('POST', `/${entity.toLowerCase()}`, payload);
+      return json[entity];
+    },
+
+    /** Sparse update; `payload` must carry the current Id and SyncToken */
+    update: async (
+      entity: QuickBooksEntityName,
+      payload: Record<string, unknown> & { Id: string; SyncToken: string }
+    ): Promise<QuickBooksObject> => {
+      const json = await request<Record<string, QuickBooksObject>>('POST', `/${entity.toLowerCase()}`, {
+        ...payload,
+        sparse: true,
+      });
+      return json[entity];
+    },
+
+    /** Hard delete, only supported for transactions (Deposit, Purchase) */
+    remove: async (entity: QuickBooksEntityName, id: string, syncToken: string): Promise<void> => {
+      await request('POST', `/${entity.toLowerCase()}?operation=delete`, { Id: id, SyncToken: syncToken });
+    },
+  };
+};
+
+export const getQuickBooksApiClient = async (landlordId: string) => {
+  const { accessToken, realmId } = await getQuickBooksAccessToken(landlordId);
+  return createQuickBooksApiClient({ accessToken, realmId });
+};
+
 export const fetchQuickBooksCompanyInfo = async (opts: {
   landlordId: string;
 }) => {
   const { accessToken, realmId } = await getQuickBooksAccessToken(opts.landlordId);
 
-  const environment = (process.env.QUICKBOOKS_ENVIRONMENT || 'sandbox').toLowerCase();
-  const baseUrl =
-    environment === 'production'
-      ? 'https://quickbooks.api.intuit.com'
-      : 'https://sandbox-quickbooks.api.intuit.com';
+  const baseUrl = getQuickBooksApiBaseUrl();
 
   const url = `${baseUrl}/v3/company/${encodeURIComponent(realmId)}/companyinfo/${encodeURIComponent(realmId)}`;
 
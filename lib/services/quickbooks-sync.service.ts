@@ -0,0 +1,785 @@
+/**
+ * QuickBooks Sync Service
+ * Incremental push of landlord books to QuickBooks Online:
+ *   - properties        -> Class (or Department when tracking by location)
+ *   - tenants           -> Customer
+ *   - contractors       -> Vendor
+ *   - paid rent         -> Deposit into the bank account, credited to income
+ *   - expenses          -> Purchase from the bank account
+ *   - contractor pay    -> Purchase with the contractor as vendor
+ *
+ * Every pushed record gets a QuickBooksSyncMapping holding the QBO id, the
+ * last SyncToken we saw and a hash of the payload we sent. A run only touches
+ * records that changed since the last run; unchanged payloads are skipped,
+ * records removed or voided locally are deleted (transactions) or made
+ * inactive (lists), and objects edited inside QuickBooks since our last push
+ * are reported as conflicts instead of being overwritten.
+ */
+
+import { createHash } from 'crypto';
+import { prisma } from '@/db/prisma';
+import type { Prisma } from '@prisma/client';
+import {
+  getQuickBooksApiClient,
+  QuickBooksApiError,
+  type QuickBooksApiClient,
+  type QuickBooksEntityName,
+} from './quickbooks-service';
+import { categoryForRentPaymentType } from './tenant-ledger.service';
+
+// ============= Types =============
+
+export type QuickBooksSyncEntityType =
+  | 'property'
+  | 'tenant'
+  | 'contractor'
+  | 'rent_payment'
+  | 'expense'
+  | 'contractor_payment';
+
+export type QuickBooksSyncAction = 'created' | 'updated' | 'deleted' | 'skipped' | 'conflict' | 'failed';
+
+export type ConflictStrategy = 'skip' | 'overwrite';
+
+export interface QuickBooksSyncMappingRecord {
+  entityType: QuickBooksSyncEntityType;
+  localId: string;
+  qboType: QuickBooksEntityName;
+  qboId: string;
+  syncToken: string | null;
+  payloadHash: string | null;
+  status: 'synced' | 'deleted' | 'conflict' | 'error';
+  lastError?: string | null;
+}
+
+/** Where mappings are persisted; Prisma in production, in-memory in tests */
+export interface QuickBooksMappingStore {
+  get(entityType: QuickBooksSyncEntityType, localId: string): Promise<QuickBooksSyncMappingRecord | null>;
+  save(record: QuickBooksSyncMappingRecord): Promise<void>;
+}
+
+export interface QuickBooksSyncLogEntry {
+  entityType: QuickBooksSyncEntityType;
+  localId: string;
+  action: QuickBooksSyncAction;
+  qboId?: string;
+  message?: string;
+}
+
+export interface QuickBooksSyncItem {
+  entityType: QuickBooksSyncEntityType;
+  localId: string;
+  qboType: QuickBooksEntityName;
+  /** null when the record was deleted or voided locally */
+  payload: Record<string, unknown> | null;
+}
+
+export interface QuickBooksSyncAccounts {
+  bankAccountId: string;
+  incomeAccountId: string;
+  expenseAccountId: string;
+  propertyTracking: 'class' | 'department';
+}
+
+export interface QuickBooksSyncSummary {
+  runId: string;
+  status: 'success' | 'partial' | 'failed';
+  created: number;
+  updated: number;
+  deleted: number;
+  skipped: number;
+  failed: number;
+  conflicts: number;
+  log: QuickBooksSyncLogEntry[];
+}
+
+type Ref = { value: string };
+
+const LIST_ENTITIES: QuickBooksEntityName[] = ['Class', 'Department', 'Customer', 'Vendor'];
+
+// QBO "Duplicate Name Exists" validation error
+const DUPLICATE_NAME_CODE = '6240';
+
+const toDate = (date: Date) => date.toISOString().slice(0, 10);
+const money = (value: number | Prisma.Decimal) => Math.round(Number(value) * 100) / 100;
+const qboString = (value: string, max: number) => value.replace(/:/g, '-').trim().slice(0, max);
+
+// ============= Payload Builders =============
+
+export function buildPropertyPayload(property: { name: string }): Record<string, unknown> {
+  return { Name: qboString(property.name, 100), Active: true };
+}
+
+export function buildCustomerPayload(tenant: {
+  name: string;
+  email: string;
+  phoneNumber?: string | null;
+}): Record<string, unknown> {
+  // DisplayName must be unique in QBO; the email keeps same-name tenants apart
+  return {
+    DisplayName: qboString(`${tenant.name} <${tenant.email}>`, 500),
+    PrimaryEmailAddr: { Address: tenant.email },
+    ...(tenant.phoneNumber ? { PrimaryPhone: { FreeFormNumber: tenant.phoneNumber } } : {}),
+    Active: true,
+  };
+}
+
+export function buildVendorPayload(contractor: {
+  name: string;
+  email: string;
+  phone?: string | null;
+  businessName?: string | null;
+}): Record<string, unknown> {
+  return {
+    DisplayName: qboString(contractor.businessName || contractor.name, 500),
+    ...(contractor.businessName ? { CompanyName: contractor.businessName } : {}),
+    PrimaryEmailAddr: { Address: contractor.email },
+    ...(contractor.phone ? { PrimaryPhone: { FreeFormNumber: contractor.phone } } : {}),
+    Vendor1099: true,
+    Active: true,
+  };
+}
+
+function propertyRefs(accounts: QuickBooksSyncAccounts, propertyRef: Ref | null) {
+  if (!propertyRef) return { line: {}, header: {} };
+  return accounts.propertyTracking === 'department'
+    ? { line: {}, header: { DepartmentRef: propertyRef } }
+    : { line: { ClassRef: propertyRef }, header: {} };
+}
+
+export function buildRentDepositPayload(
+  payment: { id: string; amount: number | Prisma.Decimal; paidAt: Date; description: string },
+  refs: { accounts: QuickBooksSyncAccounts; customerRef: Ref | null; propertyRef: Ref | null }
+): Record<string, unknown> {
+  const tracking = propertyRefs(refs.accounts, refs.propertyRef);
+  return {
+    TxnDate: toDate(payment.paidAt),
+    DepositToAccountRef: { value: refs.accounts.bankAccountId },
+    PrivateNote: `Rent payment ${payment.id}`,
+    ...tracking.header,
+    Line: [
+      {
+        Amount: money(payment.amount),
+        DetailType: 'DepositLineDetail',
+        Description: payment.description,
+        DepositLineDetail: {
+          AccountRef: { value: refs.accounts.incomeAccountId },
+          ...(refs.customerRef ? { Entity: { ...refs.customerRef, type: 'Customer' } } : {}),
+          ...tracking.line,
+        },
+      },
+    ],
+  };
+}
+
+export function buildExpensePurchasePayload(
+  expense: {
+    id: string;
+    amount: number | Prisma.Decimal;
+    incurredAt: Date;
+    category: string;
+    description?: string | null;
+    vendor?: string | null;
+  },
+  refs: { accounts: QuickBooksSyncAccounts; propertyRef: Ref | null }
+): Record<string, unknown> {
+  const tracking = propertyRefs(refs.accounts, refs.propertyRef);
+  const description = [expense.category, expense.vendor, expense.description].filter(Boolean).join(' - ');
+  return {
+    PaymentType: 'Cash',
+    TxnDate: toDate(expense.incurredAt),
+    AccountRef: { value: refs.accounts.bankAccountId },
+    PrivateNote: `Expense ${expense.id}`,
+    ...tracking.header,
+    Line: [
+      {
+        Amount: money(expense.amount),
+        DetailType: 'AccountBasedExpenseLineDetail',
+        Description: description,
+        AccountBasedExpenseLineDetail: {
+          AccountRef: { value: refs.accounts.expenseAccountId },
+          ...tracking.line,
+        },
+      },
+    ],
+  };
+}
+
+export function buildContractorPaymentPayload(
+  payment: { id: string; amount: number | Prisma.Decimal; paidAt: Date; description?: string | null },
+  refs: { accounts: QuickBooksSyncAccounts; vendorRef: Ref; propertyRef: Ref | null }
+): Record<string, unknown> {
+  const tracking = propertyRefs(refs.accounts, refs.propertyRef);
+  return {
+    PaymentType: 'Cash',
+    TxnDate: toDate(payment.paidAt),
+    AccountRef: { value: refs.accounts.bankAccountId },
+    EntityRef: { ...refs.vendorRef, type: 'Vendor' },
+    PrivateNote: `Contractor payment ${payment.id}`,
+    ...tracking.header,
+    Line: [
+      {
+        Amount: money(payment.amount),
+        DetailType: 'AccountBasedExpenseLineDetail',
+        Description: payment.description || 'Contractor payment',
+        AccountBasedExpenseLineDetail: {
+          AccountRef: { value: refs.accounts.expenseAccountId },
+          ...tracking.line,
+        },
+      },
+    ],
+  };
+}
+
+/** Stable hash of a payload, independent of key order */
+export function hashPayload(payload: Record<string, unknown>): string {
+  const normalize = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(normalize);
+    if (value && typeof value === 'object') {
+      return Object.keys(value as Record<string, unknown>)
+        .sort()
+        .reduce<Record<string, unknown>>((acc, key) => {
+          acc[key] = normalize((value as Record<string, unknown>)[key]);
+          return acc;
+        }, {});
+    }
+    return value;
+  };
+  return createHash('sha256').update(JSON.stringify(normalize(payload))).digest('hex');
+}
+
+// ============= Engine =============
+
+async function findListObjectByName(
+  client: QuickBooksApiClient,
+  qboType: QuickBooksEntityName,
+  payload: Record<string, unknown>
+) {
+  const field = qboType === 'Class' || qboType === 'Department' ? 'Name' : 'DisplayName';
+  const name = String(payload[field] ?? '').replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+  const rows = await client.query(`select * from ${qboType} where ${field} = '${name}'`);
+  return rows[0] ?? null;
+}
+
+/**
+ * Push one record. Never throws; failures are returned (and stored on the
+ * mapping) so one bad record doesn't stop the run.
+ */
+export async function syncQuickBooksItem(
+  client: QuickBooksApiClient,
+  store: QuickBooksMappingStore,
+  item: QuickBooksSyncItem,
+  options: { conflictStrategy?: ConflictStrategy } = {}
+): Promise<QuickBooksSyncLogEntry> {
+  const { entityType, localId, qboType, payload } = item;
+  const overwrite = options.conflictStrategy === 'overwrite';
+  const isList = LIST_ENTITIES.includes(qboType);
+  const mapping = await store.get(entityType, localId);
+  const entry = (action: QuickBooksSyncAction, qboId?: string, message?: string): QuickBooksSyncLogEntry => ({
+    entityType,
+    localId,
+    action,
+    ...(qboId ? { qboId } : {}),
+    ...(message ? { message } : {}),
+  });
+
+  try {
+    // Removed or voided locally
+    if (!payload) {
+      if (!mapping || mapping.status === 'deleted') {
+        return entry('skipped');
+      }
+
+      let current;
+      try {
+        current = await client.read(mapping.qboType, mapping.qboId);
+      } catch (error) {
+        if (error instanceof QuickBooksApiError && error.isNotFound) {
+          await store.save({ ...mapping, status: 'deleted', lastError: null });
+          return entry('deleted', mapping.qboId, 'Already removed in QuickBooks');
+        }
+        throw error;
+      }
+
+      if (current.SyncToken !== mapping.syncToken && !overwrite) {
+        await store.save({ ...mapping, status: 'conflict', lastError: 'Changed in QuickBooks; not deleted' });
+        return entry('conflict', mapping.qboId, 'Changed in QuickBooks since last sync; not deleted');
+      }
+
+      if (isList) {
+        await client.update(mapping.qboType, { Id: current.Id, SyncToken: current.SyncToken, Active: false });
+      } else {
+        await client.remove(mapping.qboType, current.Id, current.SyncToken);
+      }
+      await store.save({ ...mapping, status: 'deleted', syncToken: null, payloadHash: null, lastError: null });
+      return entry('deleted', mapping.qboId);
+    }
+
+    const payloadHash = hashPayload(payload);
+
+    if (mapping && mapping.status === 'synced' && mapping.payloadHash === payloadHash) {
+      return entry('skipped', mapping.qboId);
+    }
+
+    // Transactions deleted earlier are re-created; list objects are reactivated
+    if (mapping && (mapping.status !== 'deleted' || isList)) {
+      let current = null;
+      try {
+        current = await client.read(mapping.qboType, mapping.qboId);
+      } catch (error) {
+        if (!(error instanceof QuickBooksApiError && error.isNotFound)) throw error;
+      }
+
+      if (current) {
+        const editedRemotely = mapping.status !== 'deleted' && current.SyncToken !== mapping.syncToken;
+        if (editedRemotely && !overwrite) {
+          await store.save({ ...mapping, status: 'conflict', lastError: 'Changed in QuickBooks since last sync' });
+          return entry('conflict', mapping.qboId, 'Changed in QuickBooks since last sync');
+        }
+
+        const updated = await client.update(mapping.qboType, {
+          ...payload,
+          Id: current.Id,
+          SyncToken: current.SyncToken,
+        });
+        await store.save({
+          ...mapping,
+          syncToken: updated.SyncToken,
+          payloadHash,
+          status: 'synced',
+          lastError: null,
+        });
+        return entry('updated', updated.Id);
+      }
+    }
+
+    let created;
+    try {
+      created = await client.create(qboType, payload);
+    } catch (error) {
+      // A list object with this name already exists in QBO: adopt it
+      if (!(isList && error instanceof QuickBooksApiError && error.code === DUPLICATE_NAME_CODE)) throw error;
+      const existing = await findListObjectByName(client, qboType, payload);
+      if (!existing) throw error;
+      created = await client.update(qboType, { ...payload, Id: existing.Id, SyncToken: existing.SyncToken });
+    }
+
+    await store.save({
+      entityType,
+      localId,
+      qboType,
+      qboId: created.Id,
+      syncToken: created.SyncToken,
+      payloadHash,
+      status: 'synced',
+      lastError: null,
+    });
+    return entry('created', created.Id);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    if (mapping) {
+      await store.save({ ...mapping, status: 'error', lastError: message }).catch(() => undefined);
+    }
+    return entry('failed', mapping?.qboId, message);
+  }
+}
+
+export function summarizeSyncLog(log: QuickBooksSyncLogEntry[]) {
+  const count = (action: QuickBooksSyncAction) => log.filter((e) => e.action === action).length;
+  const failed = count('failed');
+  const conflicts = count('conflict');
+  const total = log.length;
+
+  return {
+    created: count('created'),
+    updated: count('updated'),
+    deleted: count('deleted'),
+    skipped: count('skipped'),
+    failed,
+    conflicts,
+    status: (failed > 0 && failed === total ? 'failed' : failed > 0 || conflicts > 0 ? 'partial' : 'success') as
+      | 'success'
+      | 'partial'
+      | 'failed',
+  };
+}
+
+// ============= Prisma-backed Sync =============
+
+export function createPrismaMappingStore(landlordId: string): QuickBooksMappingStore {
+  return {
+    async get(entityType, localId) {
+      const row = await prisma.quickBooksSyncMapping.findUnique({
+        where: { landlordId_entityType_localId: { landlordId, entityType, localId } },
+      });
+      if (!row) return null;
+      return {
+        entityType: row.entityType as QuickBooksSyncEntityType,
+        localId: row.localId,
+        qboType: row.qboType as QuickBooksEntityName,
+        qboId: row.qboId,
+        syncToken: row.syncToken,
+        payloadHash: row.payloadHash,
+        status: row.status as QuickBooksSyncMappingRecord['status'],
+        lastError: row.lastError,
+      };
+    },
+
+    async save(record) {
+      const data = {
+        qboType: record.qboType,
+        qboId: record.qboId,
+        syncToken: record.syncToken,
+        payloadHash: record.payloadHash,
+        status: record.status,
+        lastError: record.lastError ?? null,
+        syncedAt: new Date(),
+      };
+      await prisma.quickBooksSyncMapping.upsert({
+        where: {
+          landlordId_entityType_localId: { landlordId, entityType: record.entityType, localId: record.localId },
+        },
+        create: { landlordId, entityType: record.entityType, localId: record.localId, ...data },
+        update: data,
+      });
+    },
+  };
+}
+
+async function resolveAccounts(
+  client: QuickBooksApiClient,
+  connection: {
+    landlordId: string;
+    bankAccountId: string | null;
+    incomeAccountId: string | null;
+    expenseAccountId: string | null;
+    propertyTracking: string;
+  }
+): Promise<QuickBooksSyncAccounts> {
+  const firstAccount = async (accountType: string) => {
+    const rows = await client.query(
+      `select * from Account where AccountType = '${accountType}' and Active = true maxresults 1`
+    );
+    if (!rows[0]) {
+      throw new Error(`No active ${accountType} account found in QuickBooks`);
+    }
+    return rows[0].Id;
+  };
+
+  const accounts: QuickBooksSyncAccounts = {
+    bankAccountId: connection.bankAccountId || (await firstAccount('Bank')),
+    incomeAccountId: connection.incomeAccountId || (await firstAccount('Income')),
+    expenseAccountId: connection.expenseAccountId || (await firstAccount('Expense')),
+    propertyTracking: connection.propertyTracking === 'department' ? 'department' : 'class',
+  };
+
+  if (
+    accounts.bankAccountId !== connection.bankAccountId ||
+    accounts.incomeAccountId !== connection.incomeAccountId ||
+    accounts.expenseAccountId !== connection.expenseAccountId
+  ) {
+    await prisma.quickBooksConnection.update({
+      where: { landlordId: connection.landlordId },
+      data: {
+        bankAccountId: accounts.bankAccountId,
+        incomeAccountId: accounts.incomeAccountId,
+        expenseAccountId: accounts.expenseAccountId,
+      },
+    });
+  }
+
+  return accounts;
+}
+
+/**
+ * Run an incremental sync for a landlord and record it as a
+ * QuickBooksSyncRun. Pass `full: true` to reconsider every record instead of
+ * only those changed since the last successful run.
+ */
+export async function runQuickBooksSync(
+  landlordId: string,
+  options: { trigger?: 'manual' | 'scheduled'; full?: boolean; conflictStrategy?: ConflictStrategy } = {}
+): Promise<QuickBooksSyncSummary> {
+  const connection = await prisma.quickBooksConnection.findUnique({ where: { landlordId } });
+  if (!connection?.connectedAt || !connection.realmId) {
+    throw new Error('QuickBooks not connected');
+  }
+
+  const startedAt = new Date();
+  const since = options.full ? null : connection.lastSyncedAt;
+  const run = await prisma.quickBooksSyncRun.create({
+    data: { landlordId, trigger: options.trigger || 'manual', status: 'running', since, startedAt },
+    select: { id: true },
+  });
+
+  const log: QuickBooksSyncLogEntry[] = [];
+
+  try {
+    const client = await getQuickBooksApiClient(landlordId);
+    const accounts = await resolveAccounts(client, connection);
+    const store = createPrismaMappingStore(landlordId);
+    const syncOptions = { conflictStrategy: options.conflictStrategy };
+    const changedSince = since ? { gt: since } : undefined;
+
+    // References are pushed on demand and memoized for the run
+    const refCache = new Map<string, Ref | null>();
+    const ensureRef = async (item: QuickBooksSyncItem): Promise<Ref | null> => {
+      const key = `${item.entityType}:${item.localId}`;
+      if (refCache.has(key)) return refCache.get(key) ?? null;
+      const result = await syncQuickBooksItem(client, store, item, syncOptions);
+      if (result.action !== 'skipped') log.push(result);
+      const ref = result.qboId && result.action !== 'failed' ? { value: result.qboId } : null;
+      refCache.set(key, ref);
+      return ref;
+    };
+
+    const propertyRef = async (property: { id: string; name: string } | null | undefined) =>
+      property
+        ? ensureRef({
+            entityType: 'property',
+            localId: property.id,
+            qboType: accounts.propertyTracking === 'department' ? 'Department' : 'Class',
+            payload: buildPropertyPayload(property),
+          })
+        : null;
+
+    // Properties: renames and removals
+    const properties = await prisma.property.findMany({
+      where: { landlordId, ...(changedSince ? { updatedAt: changedSince } : {}) },
+      select: { id: true, name: true, deletedAt: true },
+    });
+    for (const property of properties) {
+      if (property.deletedAt) {
+        log.push(
+          await syncQuickBooksItem(
+            client,
+            store,
+            {
+              entityType: 'property',
+              localId: property.id,
+              qboType: accounts.propertyTracking === 'department' ? 'Department' : 'Class',
+              payload: null,
+            },
+            syncOptions
+          )
+        );
+      } else {
+        await propertyRef(property);
+      }
+    }
+
+    // Rent income. Deposits are held in trust, so only operating income is pushed.
+    const mappedRentIds = (
+      await prisma.quickBooksSyncMapping.findMany({
+        where: { landlordId, entityType: 'rent_payment', status: { not: 'deleted' } },
+        select: { localId: true },
+      })
+    ).map((m) => m.localId);
+
+    const rentPayments = await prisma.rentPayment.findMany({
+      where: {
+        lease: { unit: { property: { landlordId } } },
+        ...(changedSince ? { updatedAt: changedSince } : {}),
+        OR: [{ status: 'paid' }, { id: { in: mappedRentIds } }],
+      },
+      select: {
+        id: true,
+        amount: true,
+        amountPaid: true,
+        status: true,
+        paidAt: true,
+        metadata: true,
+        tenant: { select: { id: true, name: true, email: true, phoneNumber: true } },
+        lease: { select: { unit: { select: { name: true, property: { select: { id: true, name: true } } } } } },
+      },
+    });
+
+    for (const payment of rentPayments) {
+      const category = categoryForRentPaymentType((payment.metadata as { type?: string } | null)?.type);
+      const isIncome = payment.status === 'paid' && payment.paidAt && !category.endsWith('deposit');
+      let payload: Record<string, unknown> | null = null;
+
+      if (isIncome && payment.paidAt) {
+        const customerRef = await ensureRef({
+          entityType: 'tenant',
+          localId: payment.tenant.id,
+          qboType: 'Customer',
+          payload: buildCustomerPayload(payment.tenant),
+        });
+        payload = buildRentDepositPayload(
+          {
+            id: payment.id,
+            amount: Number(payment.amountPaid) > 0 ? payment.amountPaid : payment.amount,
+            paidAt: payment.paidAt,
+            description: `${category === 'rent' ? 'Rent' : category.replace(/_/g, ' ')} - ${payment.lease.unit.property.name} ${payment.lease.unit.name}`,
+          },
+          { accounts, customerRef, propertyRef: await propertyRef(payment.lease.unit.property) }
+        );
+      }
+
+      log.push(
+        await syncQuickBooksItem(
+          client,
+          store,
+          { entityType: 'rent_payment', localId: payment.id, qboType: 'Deposit', payload },
+          syncOptions
+        )
+      );
+    }
+
+    // Expenses, including ones deleted locally since the last run
+    const expenses = await prisma.expense.findMany({
+      where: { landlordId, ...(changedSince ? { updatedAt: changedSince } : {}) },
+      select: {
+        id: true,
+        amount: true,
+        incurredAt: true,
+        category: true,
+        description: true,
+        vendor: true,
+        property: { select: { id: true, name: true } },
+      },
+    });
+    for (const expense of expenses) {
+      const payload = buildExpensePurchasePayload(expense, {
+        accounts,
+        propertyRef: await propertyRef(expense.property),
+      });
+      log.push(
+        await syncQuickBooksItem(
+          client,
+          store,
+          { entityType: 'expense', localId: expense.id, qboType: 'Purchase', payload },
+          syncOptions
+        )
+      );
+    }
+
+    const mappedExpenseIds = (
+      await prisma.quickBooksSyncMapping.findMany({
+        where: { landlordId, entityType: 'expense', status: { not: 'deleted' } },
+        select: { localId: true },
+      })
+    ).map((m) => m.localId);
+    if (mappedExpenseIds.length > 0) {
+      const stillExisting = new Set(
+        (
+          await prisma.expense.findMany({ where: { id: { in: mappedExpenseIds } }, select: { id: true } })
+        ).map((e) => e.id)
+      );
+      for (const localId of mappedExpenseIds.filter((id) => !stillExisting.has(id))) {
+        log.push(
+          await syncQuickBooksItem(
+            client,
+            store,
+            { entityType: 'expense', localId, qboType: 'Purchase', payload: null },
+            syncOptions
+          )
+        );
+      }
+    }
+
+    // Contractor payments (no updatedAt, so paidAt/createdAt mark changes)
+    const mappedContractorPaymentIds = (
+      await prisma.quickBooksSyncMapping.findMany({
+        where: { landlordId, entityType: 'contractor_payment', status: { not: 'deleted' } },
+        select: { localId: true },
+      })
+    ).map((m) => m.localId);
+
+    const contractorPayments = await prisma.contractorPayment.findMany({
+      where: {
+        landlordId,
+        OR: [
+          changedSince
+            ? { status: 'paid', OR: [{ paidAt: changedSince }, { createdAt: changedSince }] }
+            : { status: 'paid' },
+          { id: { in: mappedContractorPaymentIds }, status: { not: 'paid' } },
+        ],
+      },
+      select: {
+        id: true,
+        amount: true,
+        status: true,
+        paidAt: true,
+        createdAt: true,
+        description: true,
+        contractor: { select: { id: true, name: true, email: true, phone: true, businessName: true } },
+        workOrder: { select: { property: { select: { id: true, name: true } } } },
+      },
+    });
+
+    for (const payment of contractorPayments) {
+      let payload: Record<string, unknown> | null = null;
+      if (payment.status === 'paid') {
+        const vendorRef = await ensureRef({
+          entityType: 'contractor',
+          localId: payment.contractor.id,
+          qboType: 'Vendor',
+          payload: buildVendorPayload(payment.contractor),
+        });
+        if (!vendorRef) {
+          log.push({
+            entityType: 'contractor_payment',
+            localId: payment.id,
+            action: 'failed',
+            message: 'Contractor could not be synced as a vendor',
+          });
+          continue;
+        }
+        payload = buildContractorPaymentPayload(
+          { ...payment, paidAt: payment.paidAt || payment.createdAt },
+          { accounts, vendorRef, propertyRef: await propertyRef(payment.workOrder?.property) }
+        );
+      }
+
+      log.push(
+        await syncQuickBooksItem(
+          client,
+          store,
+          { entityType: 'contractor_payment', localId: payment.id, qboType: 'Purchase', payload },
+          syncOptions
+        )
+      );
+    }
+
+    const summary = summarizeSyncLog(log);
+    await prisma.$transaction([
+      prisma.quickBooksSyncRun.update({
+        where: { id: run.id },
+        data: {
+          ...summary,
+          log: log as unknown as Prisma.InputJsonValue,
+          finishedAt: new Date(),
+        },
+      }),
+      // Only move the watermark when nothing failed, so failed records are retried
+      ...(summary.failed === 0
+        ? [prisma.quickBooksConnection.update({ where: { landlordId }, data: { lastSyncedAt: startedAt } })]
+        : []),
+    ]);
+
+    return { runId: run.id, ...summary, log };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Sync failed';
+    await prisma.quickBooksSyncRun.update({
+      where: { id: run.id },
+      data: {
+        ...summarizeSyncLog(log),
+        status: 'failed',
+        error: message,
+        log: log as unknown as Prisma.InputJsonValue,
+        finishedAt: new Date(),
+      },
+    });
+    throw error;
+  }
+}
+
+export async function getQuickBooksSyncRuns(landlordId: string, take = 20) {
+  return prisma.quickBooksSyncRun.findMany({
+    where: { landlordId },
+    orderBy: { startedAt: 'desc' },
+    take,
+  });
+}
@@ -689,6 +689,256 @@ function generateInvestorReportHtml(data: InvestorReportData): string {
   `;
 }
 
+export interface OwnerStatementLine {
+  date: string;
+  description: string;
+  category: string;
+  amount: number;
+}
+
+export interface OwnerStatementReportData {
+  ownerName: string;
+  managerName: string;
+  managerEmail?: string | null;
+  managerPhone?: string | null;
+  periodLabel: string;
+  generatedAt: string;
+  status: string;
+  totals: {
+    totalIncome: number;
+    totalExpenses: number;
+    managementFees: number;
+    openingReserve: number;
+    reserveContribution: number;
+    closingReserve: number;
+    netDistribution: number;
+  };
+  properties: Array<{
+    name: string;
+    totalIncome: number;
+    totalExpenses: number;
+    managementFee: number;
+    leasingFee: number;
+    maintenanceMarkup: number;
+    net: number;
+    income: OwnerStatementLine[];
+    expenses: OwnerStatementLine[];
+  }>;
+}
+
+export async function generateOwnerStatementPdf(data: OwnerStatementReportData): Promise<Buffer> {
+  const html = generateOwnerStatementHtml(data);
+  return htmlToPdfBuffer(html);
+}
+
+function formatCurrencyCents(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+  }).format(amount);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function generateOwnerStatementHtml(data: OwnerStatementReportData): string {
+  const { totals } = data;
+  const formatDate = (iso: string) =>
+    new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+  const lineRows = (lines: OwnerStatementLine[], className: string) =>
+    lines.length === 0
+      ? `<tr><td colspan="3" class="empty">None this period</td></tr>`
+      : lines.map(line => `
+            <tr>
+              <td>${formatDate(line.date)}</td>
+              <td>${escapeHtml(line.description)}</td>
+              <td class="text-right ${className}">${formatCurrencyCents(line.amount)}</td>
+            </tr>
+          `).join('');
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+
+    body {
+      font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+      font-size: 11px;
+      line-height: 1.5;
+      color: #1e293b;
+      background: #fff;
+    }
+
+    .page { padding: 40px; }
+
+    .header {
+      display: flex;
+      justify-content: space-between;
+      align-items: flex-end;
+      padding-bottom: 16px;
+      margin-bottom: 24px;
+      border-bottom: 3px solid #6366f1;
+    }
+
+    .header h1 { font-size: 24px; font-weight: 700; }
+    .header .subtitle { font-size: 14px; color: #6366f1; font-weight: 600; }
+    .header .meta { font-size: 10px; color: #64748b; text-align: right; }
+
+    .draft-badge {
+      display: inline-block;
+      padding: 2px 8px;
+      border-radius: 4px;
+      background: #fef3c7;
+      color: #92400e;
+      font-size: 9px;
+      font-weight: 700;
+      text-transform: uppercase;
+    }
+
+    .section { margin-bottom: 24px; }
+
+    .section-title {
+      font-size: 13px;
+      font-weight: 700;
+      margin-bottom: 10px;
+      padding-bottom: 6px;
+      border-bottom: 2px solid #e2e8f0;
+    }
+
+    .summary-table td { padding: 6px 8px; border-bottom: 1px solid #f1f5f9; }
+    .summary-table .total td {
+      font-size: 13px;
+      font-weight: 700;
+      border-top: 2px solid #1e293b;
+      border-bottom: none;
+    }
+
+    table { width: 100%; border-collapse: collapse; font-size: 10px; }
+
+    th {
+      background: #f1f5f9;
+      padding: 8px;
+      text-align: left;
+      font-weight: 600;
+      color: #475569;
+      text-transform: uppercase;
+      font-size: 9px;
+      border-bottom: 2px solid #e2e8f0;
+    }
+
+    td { padding: 6px 8px; border-bottom: 1px solid #f1f5f9; }
+
+    .text-right { text-align: right; }
+    .positive { color: #10b981; }
+    .negative { color: #ef4444; }
+    .empty { color: #94a3b8; font-style: italic; }
+
+    .property-block { margin-bottom: 20px; page-break-inside: avoid; }
+    .property-name { font-size: 12px; font-weight: 700; margin-bottom: 6px; }
+    .subtotal td { font-weight: 600; background: #f8fafc; }
+
+    .footer {
+      margin-top: 30px;
+      padding-top: 12px;
+      border-top: 1px solid #e2e8f0;
+      font-size: 9px;
+      color: #94a3b8;
+      text-align: center;
+    }
+  </style>
+</head>
+<body>
+  <div class="page">
+    <div class="header">
+      <div>
+        <h1>Owner Statement</h1>
+        <div class="subtitle">${escapeHtml(data.ownerName)} • ${escapeHtml(data.periodLabel)}</div>
+        ${data.status === 'draft' ? '<span class="draft-badge">Draft</span>' : ''}
+      </div>
+      <div class="meta">
+        <div><strong>${escapeHtml(data.managerName)}</strong></div>
+        ${data.managerEmail ? `<div>${escapeHtml(data.managerEmail)}</div>` : ''}
+        ${data.managerPhone ? `<div>${escapeHtml(data.managerPhone)}</div>` : ''}
+        <div>Generated ${new Date(data.generatedAt).toLocaleDateString('en-US')}</div>
+      </div>
+    </div>
+
+    <!-- Summary -->
+    <div class="section">
+      <div class="section-title">Summary</div>
+      <table class="summary-table">
+        <tbody>
+          <tr><td>Total income collected</td><td class="text-right positive">${formatCurrencyCents(totals.totalIncome)}</td></tr>
+          <tr><td>Property expenses</td><td class="text-right negative">(${formatCurrencyCents(totals.totalExpenses)})</td></tr>
+          <tr><td>Management fees</td><td class="text-right negative">(${formatCurrencyCents(totals.managementFees)})</td></tr>
+          <tr>
+            <td>${totals.reserveContribution >= 0 ? 'Reserve contribution' : 'Reserve draw'}</td>
+            <td class="text-right">${totals.reserveContribution >= 0
+              ? `(${formatCurrencyCents(totals.reserveContribution)})`
+              : formatCurrencyCents(-totals.reserveContribution)}</td>
+          </tr>
+          <tr class="total">
+            <td>${totals.netDistribution >= 0 ? 'Net distribution to owner' : 'Balance due from owner'}</td>
+            <td class="text-right ${totals.netDistribution >= 0 ? 'positive' : 'negative'}">${formatCurrencyCents(Math.abs(totals.netDistribution))}</td>
+          </tr>
+        </tbody>
+      </table>
+      <p style="margin-top: 8px; font-size: 10px; color: #64748b;">
+        Operating reserve: ${formatCurrencyCents(totals.openingReserve)} opening → ${formatCurrencyCents(totals.closingReserve)} closing
+      </p>
+    </div>
+
+    <!-- Property Detail -->
+    <div class="section">
+      <div class="section-title">Property Detail</div>
+      ${data.properties.map(p => `
+        <div class="property-block">
+          <div class="property-name">${escapeHtml(p.name)}</div>
+          <table>
+            <thead>
+              <tr><th style="width: 70px;">Date</th><th>Income</th><th class="text-right">Amount</th></tr>
+            </thead>
+            <tbody>
+              ${lineRows(p.income, 'positive')}
+              <tr class="subtotal"><td></td><td>Total income</td><td class="text-right">${formatCurrencyCents(p.totalIncome)}</td></tr>
+            </tbody>
+          </table>
+          <table style="margin-top: 8px;">
+            <thead>
+              <tr><th style="width: 70px;">Date</th><th>Expenses</th><th class="text-right">Amount</th></tr>
+            </thead>
+            <tbody>
+              ${lineRows(p.expenses, 'negative')}
+              <tr class="subtotal"><td></td><td>Total expenses</td><td class="text-right">${formatCurrencyCents(p.totalExpenses)}</td></tr>
+              <tr><td></td><td>Management fee</td><td class="text-right negative">${formatCurrencyCents(p.managementFee)}</td></tr>
+              ${p.leasingFee > 0 ? `<tr><td></td><td>Leasing fee</td><td class="text-right negative">${formatCurrencyCents(p.leasingFee)}</td></tr>` : ''}
+              ${p.maintenanceMarkup > 0 ? `<tr><td></td><td>Maintenance markup</td><td class="text-right negative">${formatCurrencyCents(p.maintenanceMarkup)}</td></tr>` : ''}
+              <tr class="subtotal"><td></td><td>Property net</td><td class="text-right ${p.net >= 0 ? 'positive' : 'negative'}">${formatCurrencyCents(p.net)}</td></tr>
+            </tbody>
+          </table>
+        </div>
+      `).join('')}
+    </div>
+
+    <div class="footer">
+      <p>Amounts reflect payments collected and expenses incurred during the statement period.</p>
+      <p>© ${new Date().getFullYear()} ${escapeHtml(data.managerName)} • Confidential</p>
+    </div>
+  </div>
+</body>
+</html>
+  `;
+}
+
 export function generateFinancialCSV(data: any): string {
   const lines: string[] = [];
   
@@ -0,0 +1,640 @@
+/**
+ * Saved Search Alerts
+ *
+ * Re-runs saved searches and tells their owners about results they haven't
+ * seen. Two search types exist:
+ * 1. contractors - marketplace contractor searches (criteria match
+ *    /api/contractors/search)
+ * 2. jobs - open-bid homeowner jobs and landlord work orders, for
+ *    contractors who want to hear about new work in their trade
+ *
+ * Every result a search has returned is recorded in SavedSearchMatch, so an
+ * alert only ever carries new matches. The first run for a search records
+ * the baseline without alerting. Searches with alerts on are swept by the
+ * hourly `saved-search-alerts` job according to their frequency; instant
+ * searches are also checked against each new contractor profile or job as
+ * the event bus reports it.
+ *
+ * Alerts go out as one digest email (with an unsubscribe link) plus one
+ * in-app notification per run.
+ */
+
+import { randomBytes } from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/db/prisma';
+import { jobRuntime } from '@/lib/queue';
+import { distanceMiles, geocodeLocation, lookupZip, normalizeState, type GeocodeResult } from './geocoding';
+import { parseContractorSearchCriteria, resolveContractorSearch } from './contractor-search';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Candidates loaded per run; older results were seen by earlier runs
+const MAX_RESULTS_PER_RUN = 500;
+const JOB_LOOKBACK_DAYS = 30;
+// Searches checked per sweep, least recently checked first
+const SWEEP_BATCH_SIZE = 500;
+// Items listed in one digest; the rest are summarized as a count
+const DIGEST_ITEM_LIMIT = 10;
+
+export const SAVED_SEARCH_TYPES = ['contractors', 'jobs'] as const;
+export type SavedSearchType = (typeof SAVED_SEARCH_TYPES)[number];
+
+export const ALERT_FREQUENCIES = ['instant', 'daily', 'weekly'] as const;
+export type AlertFrequency = (typeof ALERT_FREQUENCIES)[number];
+
+// Sweeps run hourly, so allow a little drift before a search counts as due
+const SWEEP_SLACK_MS = 30 * 60 * 1000;
+const ALERT_INTERVALS_MS: Record<AlertFrequency, number> = {
+  instant: 0,
+  daily: DAY - SWEEP_SLACK_MS,
+  weekly: 7 * DAY - SWEEP_SLACK_MS,
+};
+
+// ============= Errors =============
+
+export const SavedSearchErrorCodes = {
+  NOT_FOUND: 'NOT_FOUND',
+  INVALID_INPUT: 'INVALID_INPUT',
+} as const;
+
+export type SavedSearchErrorCode = (typeof SavedSearchErrorCodes)[keyof typeof SavedSearchErrorCodes];
+
+export class SavedSearchError extends Error {
+  code: SavedSearchErrorCode;
+
+  constructor(code: SavedSearchErrorCode, message: string) {
+    super(message);
+    this.code = code;
+    this.name = 'SavedSearchError';
+  }
+}
+
+export function getSavedSearchErrorStatus(code: SavedSearchErrorCode): number {
+  switch (code) {
+    case SavedSearchErrorCodes.NOT_FOUND:
+      return 404;
+    case SavedSearchErrorCodes.INVALID_INPUT:
+      return 400;
+  }
+}
+
+// ============= Types =============
+
+export type ResultType = 'contractor' | 'homeowner_job' | 'work_order';
+
+export interface AlertResult {
+  resultType: ResultType;
+  resultId: string;
+  title: string;
+  subtitle: string;
+  url: string;
+}
+
+export interface JobSearchCriteria {
+  query: string;
+  categories: string[];
+  location: string;
+  radius: number;
+  minBudget: number | null;
+  maxBudget: number | null;
+  posterTypes: ('homeowner' | 'landlord')[];
+}
+
+interface SavedSearchRecord {
+  id: string;
+  userId: string;
+  name: string;
+  searchType: string;
+  criteria: unknown;
+  alertFrequency: string;
+  lastCheckedAt: Date | null;
+  unsubscribeToken: string | null;
+}
+
+/** Limit a run to specific results, e.g. the profile or job an event announced */
+type ResultScope = { resultType: ResultType; ids: string[] } | null;
+
+// ============= Criteria =============
+
+export function isSavedSearchType(value: unknown): value is SavedSearchType {
+  return SAVED_SEARCH_TYPES.includes(value as SavedSearchType);
+}
+
+export function isAlertFrequency(value: unknown): value is AlertFrequency {
+  return ALERT_FREQUENCIES.includes(value as AlertFrequency);
+}
+
+function optionalNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export function parseJobSearchCriteria(input: Record<string, unknown>): JobSearchCriteria {
+  const list = (value: unknown) =>
+    (Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [])
+      .map((item) => String(item).trim().toLowerCase())
+      .filter(Boolean);
+  const posterTypes = list(input.posterTypes).filter(
+    (type): type is 'homeowner' | 'landlord' => type === 'homeowner' || type === 'landlord'
+  );
+  const radius = optionalNumber(input.radius) ?? 25;
+
+  return {
+    query: String(input.query ?? '').trim(),
+    categories: list(input.categories ?? input.category),
+    location: String(input.location ?? '').trim(),
+    radius: Math.min(Math.max(Math.round(radius) || 25, 1), 250),
+    minBudget: optionalNumber(input.minBudget),
+    maxBudget: optionalNumber(input.maxBudget),
+    posterTypes: posterTypes.length > 0 ? posterTypes : ['homeowner', 'landlord'],
+  };
+}
+
+/** Validate criteria on save; returns the normalized form that gets stored */
+export function normalizeSavedSearchCriteria(searchType: SavedSearchType, criteria: unknown): Prisma.InputJsonObject {
+  if (!criteria || typeof criteria !== 'object' || Array.isArray(criteria)) {
+    throw new SavedSearchError(SavedSearchErrorCodes.INVALID_INPUT, 'criteria must be an object');
+  }
+  const input = criteria as Record<string, unknown>;
+  const normalized = searchType === 'jobs' ? parseJobSearchCriteria(input) : parseContractorSearchCriteria(input);
+  return { ...normalized } as Prisma.InputJsonObject;
+}
+
+/** Short human summary of a search's criteria for emails and notifications */
+export function describeCriteria(searchType: string, criteria: unknown): string {
+  const input = (criteria ?? {}) as Record<string, unknown>;
+  const parts: string[] = [];
+  if (searchType === 'jobs') {
+    const job = parseJobSearchCriteria(input);
+    if (job.query) parts.push(`"${job.query}"`);
+    if (job.categories.length > 0) parts.push(job.categories.join(', '));
+    if (job.location) parts.push(`within ${job.radius} mi of ${job.location}`);
+    if (job.minBudget !== null) parts.push(`budget from $${job.minBudget}`);
+    return parts.join(' · ') || 'All open jobs';
+  }
+  const search = parseContractorSearchCriteria(input);
+  if (search.query) parts.push(`"${search.query}"`);
+  if (search.serviceTypes.length > 0) parts.push(search.serviceTypes.join(', '));
+  if (search.location) parts.push(`within ${search.radius} mi of ${search.location}`);
+  if (search.minRating > 0) parts.push(`${search.minRating}+ stars`);
+  if (search.verified) parts.push('verified');
+  return parts.join(' · ') || 'All contractors';
+}
+
+// ============= Matching =============
+
+async function findContractorResults(criteria: unknown, scope: ResultScope): Promise<AlertResult[]> {
+  if (scope && scope.resultType !== 'contractor') return [];
+  const { where } = await resolveContractorSearch(parseContractorSearchCriteria((criteria ?? {}) as Record<string, unknown>));
+
+  const contractors = await prisma.contractorProfile.findMany({
+    where: scope ? { AND: [where, { id: { in: scope.ids } }] } : where,
+    select: {
+      id: true,
+      businessName: true,
+      displayName: true,
+      baseCity: true,
+      baseState: true,
+      specialties: true,
+      avgRating: true,
+      totalReviews: true,
+    },
+    orderBy: { createdAt: 'desc' },
+    take: MAX_RESULTS_PER_RUN,
+  });
+
+  return contractors.map((contractor) => ({
+    resultType: 'contractor' as const,
+    resultId: contractor.id,
+    title: contractor.displayName || contractor.businessName,
+    subtitle: [
+      [contractor.baseCity, contractor.baseState].filter(Boolean).join(', '),
+      contractor.specialties.slice(0, 3).join(', '),
+      contractor.totalReviews > 0 ? `${contractor.avgRating.toFixed(1)}★ (${contractor.totalReviews})` : null,
+    ]
+      .filter(Boolean)
+      .join(' · '),
+    url: `/contractors/${contractor.id}`,
+  }));
+}
+
+interface JobAddress {
+  city: string | null;
+  state: string | null;
+  zip: string | null;
+}
+
+function readAddress(value: unknown): JobAddress {
+  const address = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const text = (key: string) => (typeof address[key] === 'string' && address[key] ? (address[key] as string) : null);
+  return {
+    city: text('city'),
+    state: normalizeState(text('state')) ?? text('state'),
+    zip: (text('zipCode') ?? text('zip') ?? text('postalCode'))?.match(/\d{5}/)?.[0] ?? null,
+  };
+}
+
+function formatBudget(min: unknown, max: unknown): string | null {
+  const low = min === null || min === undefined ? null : Number(min);
+  const high = max === null || max === undefined ? null : Number(max);
+  if (low !== null && high !== null) return `$${low.toLocaleString()}–$${high.toLocaleString()}`;
+  if (high !== null) return `up to $${high.toLocaleString()}`;
+  if (low !== null) return `from $${low.toLocaleString()}`;
+  return null;
+}
+
+/**
+ * Whether a job falls inside the search area. Jobs are placed by their ZIP
+ * centroid; without a ZIP, they match on the same city (or state, when the
+ * search was for a whole state).
+ */
+async function jobInArea(
+  address: JobAddress,
+  origin: GeocodeResult | null,
+  criteria: JobSearchCriteria,
+  zipCache: Map<string, GeocodeResult | null>
+): Promise<boolean> {
+  if (!criteria.location) return true;
+
+  if (origin) {
+    if (address.zip) {
+      if (!zipCache.has(address.zip)) zipCache.set(address.zip, await lookupZip(address.zip));
+      const point = zipCache.get(address.zip);
+      if (point) return distanceMiles(origin, point) <= criteria.radius + origin.spreadMiles;
+    }
+    if (!address.city && !address.state) return false;
+    if (origin.city && address.city) {
+      return origin.city.toLowerCase() === address.city.toLowerCase() && (!origin.state || origin.state === address.state);
+    }
+    return !!origin.state && origin.state === address.state;
+  }
+
+  // The search location couldn't be placed: plain text match
+  const location = criteria.location.toLowerCase();
+  return [address.city, address.state, address.zip].some((part) => part && location.includes(part.toLowerCase()));
+}
+
+async function findJobResults(rawCriteria: unknown, scope: ResultScope): Promise<AlertResult[]> {
+  const criteria = parseJobSearchCriteria((rawCriteria ?? {}) as Record<string, unknown>);
+  const since = new Date(Date.now() - JOB_LOOKBACK_DAYS * DAY);
+  const text = criteria.query
+    ? {
+        OR: [
+          { title: { contains: criteria.query, mode: 'insensitive' as const } },
+          { description: { contains: criteria.query, mode: 'insensitive' as const } },
+        ],
+      }
+    : {};
+  const budget = {
+    ...(criteria.minBudget !== null && { budgetMax: { gte: criteria.minBudget } }),
+    ...(criteria.maxBudget !== null && { budgetMin: { lte: criteria.maxBudget } }),
+  };
+  const wants = (type: ResultType) => !scope || scope.resultType === type;
+
+  const [homeownerJobs, workOrders] = await Promise.all([
+    criteria.posterTypes.includes('homeowner') && wants('homeowner_job')
+      ? prisma.homeownerWorkOrder.findMany({
+          where: {
+            status: 'open',
+            isOpenBid: true,
+            ...(scope ? { id: { in: scope.ids } } : { createdAt: { gte: since } }),
+            ...(criteria.categories.length > 0 && {
+              OR: criteria.categories.map((category) => ({ category: { equals: category, mode: 'insensitive' as const } })),
+            }),
+            ...(criteria.query && { AND: [text] }),
+            ...budget,
+          },
+          select: {
+            id: true,
+            title: true,
+            category: true,
+            budgetMin: true,
+            budgetMax: true,
+            address: true,
+            homeowner: { select: { address: true } },
+          },
+          orderBy: { createdAt: 'desc' },
+          take: MAX_RESULTS_PER_RUN,
+        })
+      : [],
+    // Landlord work orders carry no trade, so they only match searches open to general work
+    criteria.posterTypes.includes('landlord') &&
+    wants('work_order') &&
+    (criteria.categories.length === 0 || criteria.categories.includes('general'))
+      ? prisma.workOrder.findMany({
+          where: {
+            status: 'open',
+            isOpenBid: true,
+            ...(scope ? { id: { in: scope.ids } } : { createdAt: { gte: since } }),
+            ...text,
+            ...budget,
+          },
+          select: {
+            id: true,
+            title: true,
+            budgetMin: true,
+            budgetMax: true,
+            property: { select: { address: true } },
+          },
+          orderBy: { createdAt: 'desc' },
+          take: MAX_RESULTS_PER_RUN,
+        })
+      : [],
+  ]);
+
+  const origin = criteria.location ? await geocodeLocation(criteria.location) : null;
+  const zipCache = new Map<string, GeocodeResult | null>();
+  const results: AlertResult[] = [];
+
+  for (const job of homeownerJobs) {
+    const address = readAddress(job.address ?? job.homeowner.address);
+    if (!(await jobInArea(address, origin, criteria, zipCache))) continue;
+    results.push({
+      resultType: 'homeowner_job',
+      resultId: job.id,
+      title: job.title,
+      subtitle: [job.category, [address.city, address.state].filter(Boolean).join(', '), formatBudget(job.budgetMin, job.budgetMax)]
+        .filter(Boolean)
+        .join(' · '),
+      url: '/contractor-dashboard/marketplace',
+    });
+  }
+
+  for (const job of workOrders) {
+    const address = readAddress(job.property.address);
+    if (!(await jobInArea(address, origin, criteria, zipCache))) continue;
+    results.push({
+      resultType: 'work_order',
+      resultId: job.id,
+      title: job.title,
+      subtitle: [[address.city, address.state].filter(Boolean).join(', '), formatBudget(job.budgetMin, job.budgetMax)]
+        .filter(Boolean)
+        .join(' · '),
+      url: `/contractors/jobs/${job.id}`,
+    });
+  }
+
+  return results;
+}
+
+export async function findSavedSearchResults(
+  search: Pick<SavedSearchRecord, 'searchType' | 'criteria'>,
+  scope: ResultScope = null
+): Promise<AlertResult[]> {
+  return search.searchType === 'jobs' ? findJobResults(search.criteria, scope) : findContractorResults(search.criteria, scope);
+}
+
+// ============= Evaluation =============
+
+export interface EvaluationResult {
+  searchId: string;
+  baseline: boolean;
+  matched: number;
+  newMatches: AlertResult[];
+}
+
+/**
+ * Re-run one saved search and record what it returned. New matches are
+ * alerted unless this is the baseline run. A scoped run (one event's
+ * result) leaves the stored result count alone.
+ */
+export async function evaluateSavedSearch(
+  search: SavedSearchRecord,
+  options: { scope?: ResultScope; now?: Date } = {}
+): Promise<EvaluationResult> {
+  const now = options.now ?? new Date();
+  const scope = options.scope ?? null;
+  const baseline = search.lastCheckedAt === null;
+  const results = await findSavedSearchResults(search, scope);
+
+  // Insert-and-return so two overlapping runs can't both claim the same result
+  const inserted =
+    results.length > 0
+      ? await prisma.savedSearchMatch.createManyAndReturn({
+          data: results.map((result) => ({
+            savedSearchId: search.id,
+            resultType: result.resultType,
+            resultId: result.resultId,
+            firstSeenAt: now,
+            notifiedAt: baseline ? null : now,
+          })),
+          skipDuplicates: true,
+          select: { resultType: true, resultId: true },
+        })
+      : [];
+  const insertedKeys = new Set(inserted.map((row) => `${row.resultType}:${row.resultId}`));
+  const newMatches = baseline ? [] : results.filter((result) => insertedKeys.has(`${result.resultType}:${result.resultId}`));
+
+  await prisma.savedSearch.update({
+    where: { id: search.id },
+    data: {
+      lastCheckedAt: now,
+      ...(!scope && { resultCount: results.length }),
+      ...(newMatches.length > 0 && { lastAlertSent: now }),
+    },
+  });
+
+  if (newMatches.length > 0) {
+    await sendSavedSearchAlert(search, newMatches, now);
+  }
+
+  return { searchId: search.id, baseline, matched: results.length, newMatches };
+}
+
+/**
+ * Record what a search currently returns without alerting, so the first
+ * alert after saving only carries results that appear afterwards
+ */
+export async function recordSavedSearchBaseline(searchId: string) {
+  const search = await prisma.savedSearch.findUnique({ where: { id: searchId } });
+  if (!search) throw new SavedSearchError(SavedSearchErrorCodes.NOT_FOUND, 'Saved search not found');
+  return evaluateSavedSearch({ ...search, lastCheckedAt: null });
+}
+
+export function isSavedSearchDue(
+  search: { alertFrequency: string; lastCheckedAt: Date | null },
+  now: Date
+): boolean {
+  if (!search.lastCheckedAt) return true;
+  const interval = ALERT_INTERVALS_MS[isAlertFrequency(search.alertFrequency) ? search.alertFrequency : 'daily'];
+  return now.getTime() - search.lastCheckedAt.getTime() >= interval;
+}
+
+/** Hourly sweep over every search with alerts on */
+export async function runSavedSearchAlerts(now = new Date()) {
+  const searches = await prisma.savedSearch.findMany({
+    where: { emailAlerts: true },
+    orderBy: { lastCheckedAt: { sort: 'asc', nulls: 'first' } },
+    take: SWEEP_BATCH_SIZE,
+  });
+
+  let checked = 0;
+  let alerted = 0;
+  let failed = 0;
+
+  for (const search of searches) {
+    if (!isSavedSearchDue(search, now)) continue;
+    try {
+      const result = await evaluateSavedSearch(search, { now });
+      checked++;
+      if (result.newMatches.length > 0) alerted++;
+    } catch (error) {
+      failed++;
+      console.error(`Saved search ${search.id} failed:`, error);
+    }
+  }
+
+  return { checked, alerted, failed };
+}
+
+/**
+ * Check instant searches against one new profile or job. Called from the
+ * event bus via the `saved_search_instant` job.
+ */
+export async function runInstantSavedSearchAlerts(resultType: ResultType, resultId: string) {
+  const searchType: SavedSearchType = resultType === 'contractor' ? 'contractors' : 'jobs';
+  const searches = await prisma.savedSearch.findMany({
+    where: { emailAlerts: true, alertFrequency: 'instant', searchType, lastCheckedAt: { not: null } },
+  });
+
+  let alerted = 0;
+  for (const search of searches) {
+    try {
+      const result = await evaluateSavedSearch(search, { scope: { resultType, ids: [resultId] } });
+      if (result.newMatches.length > 0) alerted++;
+    } catch (error) {
+      console.error(`Instant check of saved search ${search.id} failed:`, error);
+    }
+  }
+
+  return { searches: searches.length, alerted };
+}
+
+// ============= Delivery =============
+
+function appUrl(path: string): string {
+  const rootDomain = process.env.NEXT_PUBLIC_ROOT_DOMAIN || 'localhost:3000';
+  const protocol = rootDomain.includes('localhost') ? 'http' : 'https';
+  return `${protocol}://${rootDomain}${path}`;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+async function ensureUnsubscribeToken(search: SavedSearchRecord): Promise<string> {
+  if (search.unsubscribeToken) return search.unsubscribeToken;
+  const token = randomBytes(24).toString('base64url');
+  await prisma.savedSearch.update({ where: { id: search.id }, data: { unsubscribeToken: token } });
+  search.unsubscribeToken = token;
+  return token;
+}
+
+export function buildAlertEmailHtml(params: {
+  recipientName: string;
+  searchName: string;
+  summary: string;
+  matches: AlertResult[];
+  manageUrl: string;
+  unsubscribeUrl: string;
+}): string {
+  const { recipientName, searchName, summary, matches, manageUrl, unsubscribeUrl } = params;
+  const listed = matches.slice(0, DIGEST_ITEM_LIMIT);
+  const more = matches.length - listed.length;
+
+  const items = listed
+    .map(
+      (match) => `
+        <li style="margin-bottom: 12px;">
+          <a href="${appUrl(match.url)}" style="color: #2563eb; font-weight: bold; text-decoration: none;">${escapeHtml(match.title)}</a>
+          ${match.subtitle ? `<div style="font-size: 13px; color: #6b7280;">${escapeHtml(match.subtitle)}</div>` : ''}
+        </li>`
+    )
+    .join('');
+
+  return `
+    <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2>${matches.length} new ${matches.length === 1 ? 'match' : 'matches'} for "${escapeHtml(searchName)}"</h2>
+      <p>Hi ${escapeHtml(recipientName)},</p>
+      <p>Here's what's new since your last alert for <strong>${escapeHtml(summary)}</strong>:</p>
+
+      <ul style="background-color: #f3f4f6; padding: 20px 20px 8px 36px; border-radius: 8px; margin: 20px 0;">
+        ${items}
+      </ul>
+      ${more > 0 ? `<p>…and ${more} more.</p>` : ''}
+
+      <a href="${manageUrl}" style="display: inline-block; background-color: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: bold;">View all results</a>
+
+      <p style="margin-top: 20px; font-size: 12px; color: #6b7280;">
+        You're receiving this because you turned on alerts for this saved search.
+        <a href="${unsubscribeUrl}" style="color: #6b7280;">Unsubscribe from this alert</a>.
+      </p>
+    </div>
+  `;
+}
+
+async function sendSavedSearchAlert(search: SavedSearchRecord, matches: AlertResult[], now: Date) {
+  const user = await prisma.user.findUnique({ where: { id: search.userId }, select: { email: true, name: true } });
+  if (!user) return;
+
+  const count = matches.length;
+  const noun = search.searchType === 'jobs' ? (count === 1 ? 'job' : 'jobs') : count === 1 ? 'contractor' : 'contractors';
+  const title = `${count} new ${noun} for "${search.name}"`;
+  const managePath = search.searchType === 'jobs' ? '/contractor-dashboard/marketplace' : '/contractors';
+  const actionUrl = count === 1 ? matches[0].url : managePath;
+
+  await prisma.notification.create({
+    data: {
+      userId: search.userId,
+      type: 'saved_search',
+      title,
+      message: matches
+        .slice(0, 3)
+        .map((match) => match.title)
+        .join(', ') + (count > 3 ? ` and ${count - 3} more` : ''),
+      actionUrl,
+      metadata: { savedSearchId: search.id, results: matches.map(({ resultType, resultId }) => ({ resultType, resultId })) },
+    },
+  });
+
+  if (!user.email) return;
+  const token = await ensureUnsubscribeToken(search);
+  await jobRuntime.enqueue(
+    'send_email',
+    {
+      to: user.email,
+      subject: title,
+      html: buildAlertEmailHtml({
+        recipientName: user.name || 'there',
+        searchName: search.name,
+        summary: describeCriteria(search.searchType, search.criteria),
+        matches,
+        manageUrl: appUrl(managePath),
+        unsubscribeUrl: appUrl(`/alerts/unsubscribe?token=${token}`),
+      }),
+    },
+    { idempotencyKey: `saved-search-alert:${search.id}:${now.toISOString()}` }
+  );
+}
+
+// ============= Unsubscribe =============
+
+export async function findSearchByUnsubscribeToken(token: string) {
+  if (!token) return null;
+  return prisma.savedSearch.findUnique({
+    where: { unsubscribeToken: token },
+    select: { id: true, name: true, emailAlerts: true, searchType: true },
+  });
+}
+
+export async function unsubscribeSavedSearch(token: string) {
+  const search = await findSearchByUnsubscribeToken(token);
+  if (!search) throw new SavedSearchError(SavedSearchErrorCodes.NOT_FOUND, 'This unsubscribe link is no longer valid');
+  return prisma.savedSearch.update({
+    where: { id: search.id },
+    data: { emailAlerts: false },
+    select: { id: true, name: true, emailAlerts: true },
+  });
+}
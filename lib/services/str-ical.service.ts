@@ -0,0 +1,859 @@
+/**
+ * STR iCal Channel Sync
+ * Keeps short-term rental calendars in step with Airbnb, VRBO and
+ * Booking.com using the iCal feeds every channel supports:
+ *   - export: a public, token-protected .ics feed per listing with our
+ *     bookings and blocked dates, which the channels subscribe to
+ *   - import: each listing's channel feeds are pulled on a schedule;
+ *     reservations become STRBookings, "not available" blocks become
+ *     STRBlockedDates, and events that disappear from a feed are released
+ *
+ * After every import the listing's future calendar is checked for overlaps
+ * and each double-booking is recorded as an STRCalendarConflict.
+ *
+ * Dates are handled as whole days. Bookings are half-open (checkOut is the
+ * departure day); blocked dates are inclusive of endDate, matching the
+ * calendar UI.
+ */
+
+import { randomBytes } from 'crypto';
+import { lookup } from 'dns/promises';
+import { request as httpsRequest } from 'https';
+import { isIP, type LookupFunction } from 'net';
+import { Readable } from 'stream';
+import { prisma } from '@/db/prisma';
+import { Prisma } from '@prisma/client';
+
+// ============= Types =============
+
+export type ICalPlatform = 'airbnb' | 'vrbo' | 'booking' | 'ical';
+
+export interface ICalFeedConfig {
+  platform: ICalPlatform;
+  url: string;
+  lastSyncedAt?: string | null;
+  lastError?: string | null;
+  eventCount?: number;
+}
+
+export interface ICalEvent {
+  uid: string;
+  summary: string;
+  description: string;
+  /** First night (UTC midnight) */
+  start: Date;
+  /** Day after the last night (UTC midnight) */
+  end: Date;
+  status: string;
+}
+
+export interface CalendarRange {
+  kind: 'booking' | 'blocked';
+  id: string;
+  source: string;
+  /** First night, UTC midnight */
+  start: Date;
+  /** Day after the last night, UTC midnight */
+  end: Date;
+  /** `<platform>:<uid>` for ranges imported from a channel feed */
+  icalUid?: string | null;
+  /** Event summary as the channel published it */
+  summary?: string | null;
+}
+
+export interface CalendarOverlap {
+  conflictKey: string;
+  first: CalendarRange;
+  second: CalendarRange;
+  start: Date;
+  end: Date;
+}
+
+export interface ICalImportResult {
+  rentalId: string;
+  feeds: ICalFeedConfig[];
+  bookingsCreated: number;
+  bookingsUpdated: number;
+  bookingsCancelled: number;
+  blocksCreated: number;
+  blocksUpdated: number;
+  blocksRemoved: number;
+  conflicts: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ACTIVE_BOOKING_STATUSES = ['pending', 'confirmed', 'checked_in'];
+const PLATFORMS: ICalPlatform[] = ['airbnb', 'vrbo', 'booking', 'ical'];
+
+const toDay = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+const formatICalDate = (date: Date) => date.toISOString().slice(0, 10).replace(/-/g, '');
+const formatICalTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// ============= Parsing =============
+
+function unescapeText(value: string): string {
+  return value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1');
+}
+
+/**
+ * All-day and timed values both map to the calendar day they fall on;
+ * channel feeds use VALUE=DATE, timed values only appear in hand-made feeds.
+ */
+function parseICalDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T\d{6}Z?)?$/);
+  if (!match) return null;
+  const [, y, m, d] = match;
+  return new Date(Date.UTC(Number(y), Number(m) - 1, Number(d)));
+}
+
+/**
+ * Parse VEVENTs from an iCalendar document. Unfolds continuation lines and
+ * skips events without a UID or start date. A missing DTEND means a
+ * one-night event.
+ */
+export function parseICalendar(text: string): ICalEvent[] {
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const events: ICalEvent[] = [];
+  let current: Partial<ICalEvent> | null = null;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      current = { summary: '', description: '', status: 'CONFIRMED' };
+      continue;
+    }
+    if (line === 'END:VEVENT') {
+      if (current?.uid && current.start) {
+        const end = current.end && current.end > current.start ? current.end : addDays(current.start, 1);
+        events.push({
+          uid: current.uid,
+          summary: current.summary || '',
+          description: current.description || '',
+          start: current.start,
+          end,
+          status: current.status || 'CONFIRMED',
+        });
+      }
+      current = null;
+      continue;
+    }
+    if (!current) continue;
+
+    const colon = line.indexOf(':');
+    if (colon === -1) continue;
+    const name = line.slice(0, colon).split(';')[0];
+    const value = line.slice(colon + 1);
+
+    switch (name.toUpperCase()) {
+      case 'UID':
+        current.uid = value.trim();
+        break;
+      case 'SUMMARY':
+        current.summary = unescapeText(value);
+        break;
+      case 'DESCRIPTION':
+        current.description = unescapeText(value);
+        break;
+      case 'STATUS':
+        current.status = value.trim().toUpperCase();
+        break;
+      case 'DTSTART':
+        current.start = parseICalDate(value.trim()) ?? undefined;
+        break;
+      case 'DTEND':
+        current.end = parseICalDate(value.trim()) ?? undefined;
+        break;
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Channel feeds mark guest reservations differently from host blocks:
+ * Airbnb uses "Reserved" vs "Airbnb (Not available)", VRBO uses
+ * "Reserved - <name>" vs "Blocked". Anything that isn't clearly a block is
+ * treated as a reservation so it's never silently double-booked.
+ */
+export function classifyICalEvent(event: ICalEvent): 'booking' | 'blocked' {
+  const summary = event.summary.toLowerCase();
+  if (/not available|blocked|unavailable|closed/.test(summary)) return 'blocked';
+  return 'booking';
+}
+
+export function guestNameFromEvent(event: ICalEvent, platform: ICalPlatform): string {
+  const match = event.summary.match(/^reserved\s*[-:]\s*(.+)$/i);
+  if (match?.[1]?.trim()) return match[1].trim();
+  const label = platform === 'ical' ? 'External' : platform.charAt(0).toUpperCase() + platform.slice(1);
+  return `${label} guest`;
+}
+
+// ============= Export =============
+
+const EXPORT_SUMMARY: Record<CalendarRange['kind'], string> = { booking: 'Reserved', blocked: 'Not available' };
+
+function exportedUid(kind: CalendarRange['kind'], id: string): string {
+  return `${kind === 'booking' ? 'booking' : 'block'}-${id}@str`;
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/** Fold lines longer than 75 octets as required by RFC 5545 */
+function foldLine(line: string): string {
+  if (line.length <= 75) return line;
+  const parts: string[] = [line.slice(0, 75)];
+  for (let i = 75; i < line.length; i += 74) {
+    parts.push(` ${line.slice(i, i + 74)}`);
+  }
+  return parts.join('\r\n');
+}
+
+/**
+ * Build the public feed for a listing. Guest details are left out; channels
+ * only need to know the nights are taken.
+ */
+export function buildICalendar(params: {
+  rental: { id: string; name: string };
+  bookings: Array<{ id: string; checkIn: Date; checkOut: Date; source: string; icalUid?: string | null }>;
+  blockedDates: Array<{ id: string; startDate: Date; endDate: Date; source: string; icalUid?: string | null }>;
+  now?: Date;
+}): string {
+  const stamp = formatICalTimestamp(params.now || new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Property Flow HQ//STR Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(params.rental.name)}`,
+  ];
+
+  const pushEvent = (uid: string, start: Date, end: Date, summary: string) => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatICalDate(start)}`,
+      `DTEND;VALUE=DATE:${formatICalDate(end)}`,
+      `SUMMARY:${escapeText(summary)}`,
+      'END:VEVENT'
+    );
+  };
+
+  for (const booking of params.bookings) {
+    pushEvent(exportedUid('booking', booking.id), toDay(booking.checkIn), toDay(booking.checkOut), EXPORT_SUMMARY.booking);
+  }
+  for (const block of params.blockedDates) {
+    pushEvent(exportedUid('blocked', block.id), toDay(block.startDate), addDays(toDay(block.endDate), 1), EXPORT_SUMMARY.blocked);
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// ============= Conflict Detection =============
+
+export function conflictKeyFor(a: CalendarRange, b: CalendarRange): string {
+  return [`${a.kind}:${a.id}`, `${b.kind}:${b.id}`].sort().join('|');
+}
+
+/**
+ * Whether an imported range is a channel's copy of one of our exported
+ * events: same nights, and it kept our UID or our summary (optionally
+ * wrapped as "Airbnb (Not available)").
+ */
+function mirrorsExport(copy: CalendarRange, original: CalendarRange): boolean {
+  if (!copy.icalUid || copy.source === original.source) return false;
+  if (copy.start.getTime() !== original.start.getTime() || copy.end.getTime() !== original.end.getTime()) return false;
+  if (copy.icalUid.includes(exportedUid(original.kind, original.id))) return true;
+  // Channels often re-export our reservations as their own blocks
+  const summary = copy.summary?.trim().toLowerCase();
+  if (!summary) return false;
+  return Object.values(EXPORT_SUMMARY).some((ours) => {
+    const label = ours.toLowerCase();
+    return summary === label || summary.endsWith(`(${label})`);
+  });
+}
+
+/**
+ * Every pair of ranges that share at least one night. Touching ranges
+ * (one checks out the day the other checks in) don't overlap, and neither
+ * does an exported event and the copy a channel feeds back to us.
+ */
+export function findCalendarOverlaps(ranges: CalendarRange[]): CalendarOverlap[] {
+  const sorted = [...ranges].sort((a, b) => a.start.getTime() - b.start.getTime());
+  const overlaps: CalendarOverlap[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    for (let j = i + 1; j < sorted.length; j++) {
+      const a = sorted[i];
+      const b = sorted[j];
+      if (b.start >= a.end) break;
+      // An imported block that mirrors one of our own exported events isn't a conflict
+      if (a.source === b.source && a.kind === 'blocked' && b.kind === 'blocked') continue;
+      if (mirrorsExport(a, b) || mirrorsExport(b, a)) continue;
+      overlaps.push({
+        conflictKey: conflictKeyFor(a, b),
+        first: a,
+        second: b,
+        start: b.start,
+        end: a.end < b.end ? a.end : b.end,
+      });
+    }
+  }
+
+  return overlaps;
+}
+
+// ============= Feeds =============
+
+/**
+ * Clean up stored or submitted feed settings. Plain http feeds (accepted
+ * before feeds had to be https) are upgraded, since every channel serves
+ * its calendars over https; the upgraded URL is saved on the next import.
+ */
+export function normalizeFeedConfigs(value: unknown): ICalFeedConfig[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((feed): feed is ICalFeedConfig => Boolean(feed && typeof feed.url === 'string' && feed.url.trim()))
+    .map((feed) => ({
+      ...feed,
+      url: feed.url.trim().replace(/^http:\/\//i, 'https://'),
+      platform: PLATFORMS.includes(feed.platform) ? feed.platform : 'ical',
+    }));
+}
+
+const FEED_TIMEOUT_MS = 15_000;
+const MAX_FEED_BYTES = 5 * 1024 * 1024;
+const MAX_FEED_REDIRECTS = 3;
+
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split('.').map(Number);
+  return parts.length === 4 && parts.every((p) => Number.isInteger(p) && p >= 0 && p <= 255) ? parts : null;
+}
+
+/** Expand an IPv6 address to its eight 16-bit groups */
+function parseIPv6(address: string): number[] | null {
+  let text = address.replace(/^\[|\]$/g, '').split('%')[0];
+  // Trailing dotted quad, as in ::ffff:10.0.0.1
+  const quad = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (quad) {
+    const v4 = parseIPv4(quad[1]);
+    if (!v4) return null;
+    text = text.slice(0, -quad[1].length) + `${((v4[0] << 8) | v4[1]).toString(16)}:${((v4[2] << 8) | v4[3]).toString(16)}`;
+  }
+  const [head, tail] = text.split('::');
+  const left = head ? head.split(':') : [];
+  const right = tail ? tail.split(':') : [];
+  const groups = text.includes('::') ? [...left, ...Array(8 - left.length - right.length).fill('0'), ...right] : left;
+  if (groups.length !== 8) return null;
+  const values = groups.map((g) => parseInt(g, 16));
+  return values.every((v) => Number.isInteger(v) && v >= 0 && v <= 0xffff) ? values : null;
+}
+
+function isPublicIPv4([a, b, c]: number[]): boolean {
+  if (a === 0 || a === 10 || a === 127) return false; // "this" network, private, loopback
+  if (a === 100 && b >= 64 && b <= 127) return false; // carrier-grade NAT
+  if (a === 169 && b === 254) return false; // link-local, including cloud metadata
+  if (a === 172 && b >= 16 && b <= 31) return false;
+  if (a === 192 && b === 168) return false;
+  if (a === 192 && b === 0 && c === 0) return false;
+  if (a === 198 && (b === 18 || b === 19)) return false; // benchmarking
+  return a < 224; // multicast and reserved
+}
+
+/**
+ * Whether an IP address is on the public internet. Loopback, private,
+ * link-local, unique-local, multicast and reserved ranges are not, nor are
+ * IPv6 addresses that embed one of those IPv4 addresses.
+ */
+export function isPublicAddress(address: string): boolean {
+  const version = isIP(address.replace(/^\[|\]$/g, ''));
+  if (version === 4) return isPublicIPv4(parseIPv4(address)!);
+  if (version !== 6) return false;
+
+  const groups = parseIPv6(address);
+  if (!groups) return false;
+  const [first] = groups;
+  if (groups.every((g) => g === 0) || (groups.slice(0, 7).every((g) => g === 0) && groups[7] === 1)) return false;
+  // IPv4-mapped (::ffff:a.b.c.d) and IPv4-compatible (::a.b.c.d)
+  if (groups.slice(0, 5).every((g) => g === 0) && (groups[5] === 0xffff || groups[5] === 0)) {
+    return isPublicIPv4([groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff]);
+  }
+  if ((first & 0xfe00) === 0xfc00) return false; // unique local fc00::/7
+  if ((first & 0xffc0) === 0xfe80) return false; // link-local fe80::/10
+  if ((first & 0xff00) === 0xff00) return false; // multicast
+  return true;
+}
+
+/**
+ * Syntax check for a feed URL: https (webcal is https) with no credentials,
+ * naming a host that isn't local or a non-public IP. Hostnames are resolved
+ * separately by assertPublicFeedUrl.
+ */
+export function validateFeedUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url.replace(/^webcal:/i, 'https:'));
+    if (parsed.protocol !== 'https:' || parsed.username || parsed.password) return false;
+    const host = parsed.hostname.toLowerCase();
+    if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal')) return false;
+    return isIP(host.replace(/^\[|\]$/g, '')) ? isPublicAddress(host) : host.includes('.');
+  } catch {
+    return false;
+  }
+}
+
+interface ResolvedFeedUrl {
+  url: URL;
+  /** Checked address the feed is fetched from */
+  address: string;
+  family: number;
+}
+
+async function resolvePublicFeedUrl(url: string): Promise<ResolvedFeedUrl> {
+  if (!validateFeedUrl(url)) throw new Error('Calendar URL must be a public https address');
+  const parsed = new URL(url.replace(/^webcal:/i, 'https:'));
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host)) return { url: parsed, address: host, family: isIP(host) };
+
+  const addresses = await lookup(host, { all: true, verbatim: true });
+  if (addresses.length === 0 || addresses.some(({ address }) => !isPublicAddress(address))) {
+    throw new Error('Calendar URL must be a public https address');
+  }
+  return { url: parsed, address: addresses[0].address, family: addresses[0].family };
+}
+
+/**
+ * Validate a feed URL and resolve its host, rejecting hosts with any
+ * non-public address. Feeds are fetched by the server, so this keeps a
+ * landlord-supplied URL from reaching internal services.
+ */
+export async function assertPublicFeedUrl(url: string): Promise<URL> {
+  return (await resolvePublicFeedUrl(url)).url;
+}
+
+export function getIcalExportUrl(token: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_SERVER_URL || 'http://localhost:3000';
+  return `${baseUrl}/api/str/ical/${token}.ics`;
+}
+
+/** Create (or rotate) the secret token behind a listing's public feed */
+export async function ensureIcalExportToken(rentalId: string, rotate = false): Promise<string> {
+  const rental = await prisma.shortTermRental.findUniqueOrThrow({
+    where: { id: rentalId },
+    select: { icalExportToken: true },
+  });
+  if (rental.icalExportToken && !rotate) return rental.icalExportToken;
+
+  const token = randomBytes(24).toString('hex');
+  await prisma.shortTermRental.update({
+    where: { id: rentalId },
+    data: { icalExportToken: token, icalExportUrl: getIcalExportUrl(token) },
+  });
+  return token;
+}
+
+export async function getRentalICalendarByToken(token: string): Promise<string | null> {
+  const rental = await prisma.shortTermRental.findUnique({
+    where: { icalExportToken: token },
+    select: { id: true, name: true, isActive: true },
+  });
+  if (!rental || !rental.isActive) return null;
+
+  const since = addDays(toDay(new Date()), -30);
+  const [bookings, blockedDates] = await Promise.all([
+    prisma.sTRBooking.findMany({
+      where: { rentalId: rental.id, status: { in: ACTIVE_BOOKING_STATUSES }, checkOut: { gte: since } },
+      select: { id: true, checkIn: true, checkOut: true, source: true, icalUid: true },
+      orderBy: { checkIn: 'asc' },
+    }),
+    prisma.sTRBlockedDate.findMany({
+      where: { rentalId: rental.id, endDate: { gte: since } },
+      select: { id: true, startDate: true, endDate: true, source: true, icalUid: true },
+      orderBy: { startDate: 'asc' },
+    }),
+  ]);
+
+  return buildICalendar({ rental, bookings, blockedDates });
+}
+
+/** Read a response body, giving up once it passes MAX_FEED_BYTES */
+async function readCappedText(res: Response): Promise<string> {
+  if (Number(res.headers.get('content-length')) > MAX_FEED_BYTES) throw new Error('Feed is too large');
+  if (!res.body) return '';
+
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_FEED_BYTES) {
+      await reader.cancel();
+      throw new Error('Feed is too large');
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * GET a feed from the address it was checked against. The connection's DNS
+ * lookup is answered with that address, so a host that re-resolves to an
+ * internal address after the check (DNS rebinding) can't redirect the
+ * request; TLS still verifies the certificate against the hostname.
+ */
+function requestPinned(target: ResolvedFeedUrl, signal: AbortSignal): Promise<Response> {
+  const pinnedLookup = ((_hostname, options, callback) => {
+    if (options.all) callback(null, [{ address: target.address, family: target.family }]);
+    else callback(null, target.address, target.family);
+  }) as LookupFunction;
+
+  return new Promise((resolve, reject) => {
+    const req = httpsRequest(
+      target.url,
+      { method: 'GET', headers: { Accept: 'text/calendar' }, lookup: pinnedLookup, signal },
+      (res) => {
+        const status = res.statusCode ?? 0;
+        if (status < 200 || status > 599) {
+          res.destroy();
+          reject(new Error(`Feed returned ${status}`));
+          return;
+        }
+        const headers = new Headers();
+        for (const [name, value] of Object.entries(res.headers)) {
+          if (value !== undefined) headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+        }
+        const body = status === 204 || status === 304 ? null : (Readable.toWeb(res) as ReadableStream<Uint8Array>);
+        if (!body) res.resume();
+        resolve(new Response(body, { status, headers }));
+      }
+    );
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+/**
+ * Fetch a channel feed. Redirects are followed by hand so every hop is
+ * checked with assertPublicFeedUrl and fetched from the checked address,
+ * and the body is capped in size. `fetchImpl` replaces the pinned request.
+ */
+async function fetchFeed(url: string, fetchImpl?: typeof fetch): Promise<string> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), FEED_TIMEOUT_MS);
+  const get = (target: ResolvedFeedUrl) =>
+    fetchImpl
+      ? fetchImpl(target.url, { headers: { Accept: 'text/calendar' }, redirect: 'manual', signal: controller.signal })
+      : requestPinned(target, controller.signal);
+  try {
+    let target = await resolvePublicFeedUrl(url);
+    let res = await get(target);
+    for (let hops = 0; res.status >= 300 && res.status < 400; hops++) {
+      const location = res.headers.get('location');
+      if (!location || hops >= MAX_FEED_REDIRECTS) throw new Error(`Feed returned ${res.status}`);
+      target = await resolvePublicFeedUrl(new URL(location, target.url).toString());
+      res = await get(target);
+    }
+    if (!res.ok) {
+      throw new Error(`Feed returned ${res.status}`);
+    }
+    const text = await readCappedText(res);
+    if (!text.includes('BEGIN:VCALENDAR')) {
+      throw new Error('Response is not an iCalendar feed');
+    }
+    return text;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Import every configured channel feed for a listing, then refresh its
+ * conflict list.
+ */
+export async function importRentalCalendars(
+  rentalId: string,
+  options: { fetchImpl?: typeof fetch } = {}
+): Promise<ICalImportResult> {
+  const { fetchImpl } = options;
+  const rental = await prisma.shortTermRental.findUniqueOrThrow({
+    where: { id: rentalId },
+    select: { id: true, icalImportUrls: true },
+  });
+
+  const feeds = normalizeFeedConfigs(rental.icalImportUrls);
+  const today = toDay(new Date());
+  const result: ICalImportResult = {
+    rentalId,
+    feeds: [],
+    bookingsCreated: 0,
+    bookingsUpdated: 0,
+    bookingsCancelled: 0,
+    blocksCreated: 0,
+    blocksUpdated: 0,
+    blocksRemoved: 0,
+    conflicts: 0,
+  };
+  // Imported UIDs are keyed by platform, so a listing with two feeds on one
+  // channel sweeps against what all of them returned
+  const seenByPlatform = new Map<ICalPlatform, Set<string>>();
+  const failedPlatforms = new Set<ICalPlatform>();
+
+  for (const feed of feeds) {
+    try {
+      const events = parseICalendar(await fetchFeed(feed.url, fetchImpl)).filter(
+        (event) => event.status !== 'CANCELLED' && event.end > today
+      );
+      // Feeds echo our own export back; skip events we published
+      const external = events.filter((event) => !/^(booking|block)-[0-9a-f-]{36}@str$/.test(event.uid));
+      const seenUids = seenByPlatform.get(feed.platform) ?? new Set<string>();
+      seenByPlatform.set(feed.platform, seenUids);
+
+      for (const event of external) {
+        const icalUid = `${feed.platform}:${event.uid}`;
+        seenUids.add(icalUid);
+
+        if (classifyICalEvent(event) === 'blocked') {
+          const data = {
+            startDate: event.start,
+            endDate: addDays(event.end, -1),
+            reason: 'external_booking',
+            notes: event.summary || null,
+            source: feed.platform,
+          };
+          const existing = await prisma.sTRBlockedDate.findUnique({
+            where: { rentalId_icalUid: { rentalId, icalUid } },
+            select: { id: true },
+          });
+          if (existing) {
+            await prisma.sTRBlockedDate.update({ where: { id: existing.id }, data });
+            result.blocksUpdated++;
+          } else {
+            await prisma.sTRBlockedDate.create({ data: { ...data, rentalId, icalUid } });
+            result.blocksCreated++;
+          }
+          continue;
+        }
+
+        const nights = Math.round((event.end.getTime() - event.start.getTime()) / DAY_MS);
+        const existing = await prisma.sTRBooking.findUnique({
+          where: { rentalId_icalUid: { rentalId, icalUid } },
+          select: { id: true, status: true },
+        });
+        if (existing) {
+          await prisma.sTRBooking.update({
+            where: { id: existing.id },
+            data: {
+              checkIn: event.start,
+              checkOut: event.end,
+              nights,
+              ...(existing.status === 'cancelled' ? { status: 'confirmed', cancelledAt: null } : {}),
+            },
+          });
+          result.bookingsUpdated++;
+        } else {
+          await prisma.sTRBooking.create({
+            data: {
+              rentalId,
+              icalUid,
+              guestName: guestNameFromEvent(event, feed.platform),
+              guestEmail: '',
+              numberOfGuests: 1,
+              checkIn: event.start,
+              checkOut: event.end,
+              nights,
+              basePrice: 0,
+              totalPrice: 0,
+              paymentStatus: 'paid',
+              paymentMethod: 'platform',
+              source: feed.platform,
+              externalBookingId: event.uid,
+              status: 'confirmed',
+              confirmationCode: `ICAL${Date.now()}${randomBytes(4).toString('hex').toUpperCase()}`,
+              notes: [event.summary, event.description].filter(Boolean).join('\n') || null,
+            },
+          });
+          result.bookingsCreated++;
+        }
+      }
+
+      result.feeds.push({
+        ...feed,
+        lastSyncedAt: new Date().toISOString(),
+        lastError: null,
+        eventCount: external.length,
+      });
+    } catch (error) {
+      console.error(`iCal import failed for rental ${rentalId} (${feed.platform}):`, error);
+      failedPlatforms.add(feed.platform);
+      result.feeds.push({
+        ...feed,
+        lastError: error instanceof Error ? error.message : 'Import failed',
+      });
+    }
+  }
+
+  // Events gone from every feed of a channel were cancelled or released there.
+  // A channel with a failed feed is left alone: its events weren't all seen.
+  for (const [platform, seenUids] of seenByPlatform) {
+    if (failedPlatforms.has(platform)) continue;
+    const cancelled = await prisma.sTRBooking.updateMany({
+      where: {
+        rentalId,
+        icalUid: { startsWith: `${platform}:`, notIn: [...seenUids] },
+        status: { in: ACTIVE_BOOKING_STATUSES },
+        checkOut: { gt: today },
+      },
+      data: { status: 'cancelled', cancelledAt: new Date(), cancellationReason: 'Removed from channel calendar' },
+    });
+    const removed = await prisma.sTRBlockedDate.deleteMany({
+      where: {
+        rentalId,
+        icalUid: { startsWith: `${platform}:`, notIn: [...seenUids] },
+        endDate: { gte: today },
+      },
+    });
+    result.bookingsCancelled += cancelled.count;
+    result.blocksRemoved += removed.count;
+  }
+
+  await prisma.shortTermRental.update({
+    where: { id: rentalId },
+    data: {
+      icalImportUrls: result.feeds as unknown as Prisma.InputJsonValue,
+      lastIcalSync: new Date(),
+    },
+  });
+
+  result.conflicts = await refreshCalendarConflicts(rentalId);
+  return result;
+}
+
+/**
+ * Record every current overlap on the listing's upcoming calendar and
+ * resolve conflicts that no longer overlap. Returns the open conflict count.
+ */
+export async function refreshCalendarConflicts(rentalId: string): Promise<number> {
+  const today = toDay(new Date());
+  const [bookings, blockedDates] = await Promise.all([
+    prisma.sTRBooking.findMany({
+      where: { rentalId, status: { in: ACTIVE_BOOKING_STATUSES }, checkOut: { gt: today } },
+      select: { id: true, checkIn: true, checkOut: true, source: true, icalUid: true, notes: true },
+    }),
+    prisma.sTRBlockedDate.findMany({
+      where: { rentalId, endDate: { gte: today } },
+      select: { id: true, startDate: true, endDate: true, source: true, icalUid: true, notes: true },
+    }),
+  ]);
+
+  const overlaps = findCalendarOverlaps([
+    ...bookings.map((b) => ({
+      kind: 'booking' as const,
+      id: b.id,
+      source: b.source,
+      start: toDay(b.checkIn),
+      end: toDay(b.checkOut),
+      icalUid: b.icalUid,
+      // Imported bookings keep the event summary on the first line of notes
+      summary: b.notes?.split('\n')[0] ?? null,
+    })),
+    ...blockedDates.map((b) => ({
+      kind: 'blocked' as const,
+      id: b.id,
+      source: b.source,
+      start: toDay(b.startDate),
+      end: addDays(toDay(b.endDate), 1),
+      icalUid: b.icalUid,
+      summary: b.notes,
+    })),
+  ]);
+
+  for (const overlap of overlaps) {
+    await prisma.sTRCalendarConflict.upsert({
+      where: { rentalId_conflictKey: { rentalId, conflictKey: overlap.conflictKey } },
+      create: {
+        rentalId,
+        conflictKey: overlap.conflictKey,
+        firstKind: overlap.first.kind,
+        firstId: overlap.first.id,
+        firstSource: overlap.first.source,
+        secondKind: overlap.second.kind,
+        secondId: overlap.second.id,
+        secondSource: overlap.second.source,
+        startDate: overlap.start,
+        endDate: overlap.end,
+      },
+      update: {
+        startDate: overlap.start,
+        endDate: overlap.end,
+        status: 'open',
+        resolvedAt: null,
+      },
+    });
+  }
+
+  await prisma.sTRCalendarConflict.updateMany({
+    where: {
+      rentalId,
+      status: 'open',
+      conflictKey: { notIn: overlaps.map((o) => o.conflictKey) },
+    },
+    data: { status: 'resolved', resolvedAt: new Date() },
+  });
+
+  return overlaps.length;
+}
+
+/** Import feeds for every active listing that has any configured */
+export async function importAllRentalCalendars(options: { fetchImpl?: typeof fetch } = {}) {
+  const rentals = await prisma.shortTermRental.findMany({
+    where: { isActive: true, icalImportUrls: { not: Prisma.DbNull } },
+    select: { id: true },
+  });
+
+  const results: ICalImportResult[] = [];
+  for (const rental of rentals) {
+    try {
+      results.push(await importRentalCalendars(rental.id, options));
+    } catch (error) {
+      console.error(`iCal import failed for rental ${rental.id}:`, error);
+    }
+  }
+  return results;
+}
+
+/**
+ * Overlap check used before creating a direct booking or block, covering
+ * both bookings and (imported) blocked dates.
+ */
+export async function findCalendarOverlap(
+  rentalId: string,
+  start: Date,
+  endExclusive: Date,
+  options: { excludeBookingId?: string } = {}
+) {
+  const [booking, blocked] = await Promise.all([
+    prisma.sTRBooking.findFirst({
+      where: {
+        rentalId,
+        status: { in: ACTIVE_BOOKING_STATUSES },
+        ...(options.excludeBookingId ? { id: { not: options.excludeBookingId } } : {}),
+        checkIn: { lt: endExclusive },
+        checkOut: { gt: start },
+      },
+      select: { id: true, source: true, checkIn: true, checkOut: true },
+    }),
+    prisma.sTRBlockedDate.findFirst({
+      where: { rentalId, startDate: { lt: endExclusive }, endDate: { gte: start } },
+      select: { id: true, source: true, startDate: true, endDate: true },
+    }),
+  ]);
+
+  if (booking) return { kind: 'booking' as const, ...booking };
+  if (blocked) return { kind: 'blocked' as const, ...blocked };
+  return null;
+}
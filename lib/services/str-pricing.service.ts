@@ -0,0 +1,560 @@
+/**
+ * STR Pricing Engine
+ * Turns a short-term rental's base/weekend price and its STRPricingRules
+ * into nightly rates and itemized stay quotes.
+ *
+ * Each night is priced in three steps:
+ *   1. base price, or the weekend price on Friday/Saturday nights
+ *   2. the highest-priority matching rule with a fixed `price` replaces it
+ *   3. percentage adjustments are applied, at most one per rule type
+ *      (seasonal, day_of_week, last_minute, early_bird, occupancy), each
+ *      taken from the highest-priority matching rule of that type
+ *
+ * Weekly/monthly discounts then apply to the accommodation subtotal, and
+ * cleaning, extra-guest fees and lodging tax are added on top. The minimum
+ * stay comes from the highest-priority rule that matches the check-in night
+ * and sets one, falling back to the rental's own minStay.
+ *
+ * The pricing functions are pure; the DB helpers load inputs and measure
+ * occupancy for occupancy-based rules.
+ */
+
+import { prisma } from '@/db/prisma';
+import type { STRPricingRule, ShortTermRental } from '@prisma/client';
+
+// ============= Types =============
+
+export type PricingRuleType = 'seasonal' | 'day_of_week' | 'last_minute' | 'early_bird' | 'occupancy';
+
+export const PRICING_RULE_TYPES: PricingRuleType[] = [
+  'seasonal',
+  'day_of_week',
+  'last_minute',
+  'early_bird',
+  'occupancy',
+];
+
+export interface PricingRental {
+  basePrice: number;
+  weekendPrice: number | null;
+  weeklyDiscount: number | null;
+  monthlyDiscount: number | null;
+  cleaningFee: number | null;
+  extraGuestFee: number | null;
+  extraGuestThreshold: number;
+  taxRate: number | null;
+  minStay: number;
+  maxStay: number | null;
+  maxGuests: number;
+  advanceNotice: number;
+}
+
+export interface PricingRule {
+  id: string;
+  name: string;
+  ruleType: PricingRuleType;
+  startDate: Date | null;
+  endDate: Date | null;
+  daysOfWeek: number[];
+  price: number | null;
+  adjustmentPercent: number | null;
+  leadDays: number | null;
+  occupancyMin: number | null;
+  occupancyMax: number | null;
+  occupancyWindowDays: number;
+  minStay: number | null;
+  priority: number;
+}
+
+export interface PricingContext {
+  /** Quote date (UTC midnight) used for lead-time rules */
+  today: Date;
+  /** Occupancy percentage (0-100) keyed by window length in days */
+  occupancyByWindow?: Record<number, number>;
+}
+
+export interface AppliedPricingRule {
+  ruleId: string;
+  name: string;
+  ruleType: PricingRuleType;
+  price?: number;
+  adjustmentPercent?: number;
+}
+
+export interface NightlyRate {
+  /** YYYY-MM-DD */
+  date: string;
+  baseRate: number;
+  rate: number;
+  minStay: number;
+  appliedRules: AppliedPricingRule[];
+}
+
+export interface StayQuote {
+  checkIn: string;
+  checkOut: string;
+  nights: number;
+  guests: number;
+  nightlyRates: NightlyRate[];
+  averageNightlyRate: number;
+  accommodation: number;
+  lengthOfStayDiscount: { type: 'weekly' | 'monthly'; percent: number; amount: number } | null;
+  discount: number;
+  cleaningFee: number;
+  extraGuests: number;
+  extraGuestFee: number;
+  taxRate: number;
+  taxes: number;
+  total: number;
+  minStay: number;
+  /** Booking rule violations; empty when the stay can be booked as quoted */
+  errors: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ACTIVE_BOOKING_STATUSES = ['pending', 'confirmed', 'checked_in'];
+
+const toCents = (value: number) => Math.round(value * 100);
+const fromCents = (cents: number) => cents / 100;
+const toDay = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+const daysBetween = (from: Date, to: Date) => Math.round((toDay(to).getTime() - toDay(from).getTime()) / DAY_MS);
+const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+
+// ============= Rule Matching =============
+
+/**
+ * Whether a rule applies to a night. `leadDays` is the number of days
+ * between the quote date and check-in (for calendar rates, the night itself).
+ */
+export function ruleMatchesNight(
+  rule: PricingRule,
+  night: Date,
+  leadDays: number,
+  context: PricingContext
+): boolean {
+  const day = toDay(night);
+  if (rule.startDate && day < toDay(rule.startDate)) return false;
+  if (rule.endDate && day > toDay(rule.endDate)) return false;
+  if (rule.daysOfWeek.length > 0 && !rule.daysOfWeek.includes(day.getUTCDay())) return false;
+
+  switch (rule.ruleType) {
+    case 'seasonal':
+      return Boolean(rule.startDate && rule.endDate);
+    case 'day_of_week':
+      return rule.daysOfWeek.length > 0;
+    case 'last_minute':
+      return rule.leadDays !== null && leadDays >= 0 && leadDays <= rule.leadDays;
+    case 'early_bird':
+      return rule.leadDays !== null && leadDays >= rule.leadDays;
+    case 'occupancy': {
+      const occupancy = context.occupancyByWindow?.[rule.occupancyWindowDays];
+      if (occupancy === undefined) return false;
+      return occupancy >= (rule.occupancyMin ?? 0) && occupancy <= (rule.occupancyMax ?? 100);
+    }
+    default:
+      return false;
+  }
+}
+
+const byPriority = (a: PricingRule, b: PricingRule) => b.priority - a.priority;
+
+function isWeekendNight(night: Date): boolean {
+  const weekday = toDay(night).getUTCDay();
+  return weekday === 5 || weekday === 6;
+}
+
+// ============= Pricing =============
+
+/** Price a single night */
+export function calculateNightlyRate(
+  rental: PricingRental,
+  rules: PricingRule[],
+  night: Date,
+  leadDays: number,
+  context: PricingContext
+): NightlyRate {
+  const matching = rules.filter((rule) => ruleMatchesNight(rule, night, leadDays, context)).sort(byPriority);
+  const appliedRules: AppliedPricingRule[] = [];
+
+  const baseRate =
+    isWeekendNight(night) && rental.weekendPrice !== null ? rental.weekendPrice : rental.basePrice;
+  let cents = toCents(baseRate);
+
+  const fixed = matching.find((rule) => rule.price !== null);
+  if (fixed) {
+    cents = toCents(fixed.price as number);
+    appliedRules.push({ ruleId: fixed.id, name: fixed.name, ruleType: fixed.ruleType, price: fixed.price as number });
+  }
+
+  const adjustedTypes = new Set<PricingRuleType>();
+  for (const rule of matching) {
+    if (rule.adjustmentPercent === null || adjustedTypes.has(rule.ruleType)) continue;
+    adjustedTypes.add(rule.ruleType);
+    cents = Math.round(cents * (1 + rule.adjustmentPercent / 100));
+    appliedRules.push({
+      ruleId: rule.id,
+      name: rule.name,
+      ruleType: rule.ruleType,
+      adjustmentPercent: rule.adjustmentPercent,
+    });
+  }
+
+  const minStayRule = matching.find((rule) => rule.minStay !== null);
+
+  return {
+    date: isoDay(toDay(night)),
+    baseRate,
+    rate: fromCents(Math.max(0, cents)),
+    minStay: minStayRule ? (minStayRule.minStay as number) : rental.minStay,
+    appliedRules,
+  };
+}
+
+/** Nightly rates for a calendar range (inclusive of both ends) */
+export function calculateCalendarRates(
+  rental: PricingRental,
+  rules: PricingRule[],
+  start: Date,
+  end: Date,
+  context: PricingContext
+): NightlyRate[] {
+  const rates: NightlyRate[] = [];
+  for (let night = toDay(start); night <= toDay(end); night = addDays(night, 1)) {
+    rates.push(calculateNightlyRate(rental, rules, night, daysBetween(context.today, night), context));
+  }
+  return rates;
+}
+
+/** Itemized quote for a stay from checkIn up to (not including) checkOut */
+export function calculateStayQuote(
+  rental: PricingRental,
+  rules: PricingRule[],
+  stay: { checkIn: Date; checkOut: Date; guests: number },
+  context: PricingContext
+): StayQuote {
+  const checkIn = toDay(stay.checkIn);
+  const checkOut = toDay(stay.checkOut);
+  const nights = Math.max(0, daysBetween(checkIn, checkOut));
+  const leadDays = daysBetween(context.today, checkIn);
+
+  const nightlyRates: NightlyRate[] = [];
+  for (let i = 0; i < nights; i++) {
+    nightlyRates.push(calculateNightlyRate(rental, rules, addDays(checkIn, i), leadDays, context));
+  }
+
+  const accommodationCents = nightlyRates.reduce((total, night) => total + toCents(night.rate), 0);
+
+  let lengthOfStayDiscount: StayQuote['lengthOfStayDiscount'] = null;
+  if (nights >= 28 && rental.monthlyDiscount) {
+    lengthOfStayDiscount = { type: 'monthly', percent: rental.monthlyDiscount, amount: 0 };
+  } else if (nights >= 7 && rental.weeklyDiscount) {
+    lengthOfStayDiscount = { type: 'weekly', percent: rental.weeklyDiscount, amount: 0 };
+  }
+  const discountCents = lengthOfStayDiscount
+    ? Math.round((accommodationCents * lengthOfStayDiscount.percent) / 100)
+    : 0;
+  if (lengthOfStayDiscount) lengthOfStayDiscount.amount = fromCents(discountCents);
+
+  const cleaningCents = nights > 0 ? toCents(rental.cleaningFee ?? 0) : 0;
+  const extraGuests = Math.max(0, stay.guests - rental.extraGuestThreshold);
+  const extraGuestCents = extraGuests * nights * toCents(rental.extraGuestFee ?? 0);
+
+  const taxRate = rental.taxRate ?? 0;
+  const taxableCents = accommodationCents - discountCents + cleaningCents + extraGuestCents;
+  const taxCents = Math.round((taxableCents * taxRate) / 100);
+
+  const minStay = nightlyRates[0]?.minStay ?? rental.minStay;
+  const errors: string[] = [];
+  if (nights < 1) errors.push('Check-out must be after check-in');
+  if (nights > 0 && nights < minStay) errors.push(`Minimum stay is ${minStay} nights`);
+  if (rental.maxStay && nights > rental.maxStay) errors.push(`Maximum stay is ${rental.maxStay} nights`);
+  if (stay.guests < 1) errors.push('At least one guest is required');
+  if (stay.guests > rental.maxGuests) errors.push(`Maximum ${rental.maxGuests} guests`);
+  if (leadDays < rental.advanceNotice) {
+    errors.push(`Bookings require ${rental.advanceNotice} day${rental.advanceNotice === 1 ? '' : 's'} notice`);
+  }
+
+  return {
+    checkIn: isoDay(checkIn),
+    checkOut: isoDay(checkOut),
+    nights,
+    guests: stay.guests,
+    nightlyRates,
+    averageNightlyRate: nights > 0 ? fromCents(Math.round(accommodationCents / nights)) : 0,
+    accommodation: fromCents(accommodationCents),
+    lengthOfStayDiscount,
+    discount: fromCents(discountCents),
+    cleaningFee: fromCents(cleaningCents),
+    extraGuests,
+    extraGuestFee: fromCents(extraGuestCents),
+    taxRate,
+    taxes: fromCents(taxCents),
+    total: fromCents(taxableCents + taxCents),
+    minStay,
+    errors,
+  };
+}
+
+// ============= Input =============
+
+export interface PricingRuleInput {
+  name?: unknown;
+  ruleType?: unknown;
+  startDate?: unknown;
+  endDate?: unknown;
+  daysOfWeek?: unknown;
+  price?: unknown;
+  adjustmentPercent?: unknown;
+  leadDays?: unknown;
+  occupancyMin?: unknown;
+  occupancyMax?: unknown;
+  occupancyWindowDays?: unknown;
+  minStay?: unknown;
+  priority?: unknown;
+  isActive?: unknown;
+}
+
+export interface PricingRuleFields {
+  name: string;
+  ruleType: PricingRuleType;
+  startDate: Date | null;
+  endDate: Date | null;
+  daysOfWeek: number[];
+  price: number | null;
+  adjustmentPercent: number | null;
+  leadDays: number | null;
+  occupancyMin: number | null;
+  occupancyMax: number | null;
+  occupancyWindowDays: number;
+  minStay: number | null;
+  priority: number;
+  isActive: boolean;
+}
+
+/** null when blank, NaN when not a number */
+function optionalNumber(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : NaN;
+}
+
+function optionalDate(value: unknown): Date | null | 'invalid' {
+  if (value === undefined || value === null || value === '') return null;
+  const date = new Date(String(value));
+  return Number.isNaN(date.getTime()) ? 'invalid' : toDay(date);
+}
+
+/** Validate a pricing rule from the API */
+export function normalizePricingRuleInput(
+  input: PricingRuleInput
+): { data: PricingRuleFields } | { error: string } {
+  if (typeof input.name !== 'string' || !input.name.trim()) {
+    return { error: 'Rule name is required' };
+  }
+
+  const ruleType = (input.ruleType ?? 'seasonal') as PricingRuleType;
+  if (!PRICING_RULE_TYPES.includes(ruleType)) {
+    return { error: 'Invalid rule type' };
+  }
+
+  const startDate = optionalDate(input.startDate);
+  const endDate = optionalDate(input.endDate);
+  if (startDate === 'invalid' || endDate === 'invalid') {
+    return { error: 'Invalid date' };
+  }
+  if (startDate && endDate && endDate < startDate) {
+    return { error: 'End date must be on or after start date' };
+  }
+  if (ruleType === 'seasonal' && (!startDate || !endDate)) {
+    return { error: 'Seasonal rules need a start and end date' };
+  }
+
+  const daysOfWeek = Array.isArray(input.daysOfWeek) ? input.daysOfWeek.map(Number) : [];
+  if (daysOfWeek.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+    return { error: 'Invalid day of week' };
+  }
+  if (ruleType === 'day_of_week' && daysOfWeek.length === 0) {
+    return { error: 'Day-of-week rules need at least one day' };
+  }
+
+  const price = optionalNumber(input.price);
+  const adjustmentPercent = optionalNumber(input.adjustmentPercent);
+  const leadDays = optionalNumber(input.leadDays);
+  const occupancyMin = optionalNumber(input.occupancyMin);
+  const occupancyMax = optionalNumber(input.occupancyMax);
+  const occupancyWindowDays = optionalNumber(input.occupancyWindowDays);
+  const minStay = optionalNumber(input.minStay);
+  const priority = optionalNumber(input.priority);
+
+  if (Number.isNaN(price) || (price !== null && price < 0)) return { error: 'Invalid price' };
+  if (
+    Number.isNaN(adjustmentPercent) ||
+    (adjustmentPercent !== null && (adjustmentPercent < -100 || adjustmentPercent > 1000))
+  ) {
+    return { error: 'Invalid adjustmentPercent' };
+  }
+  if (price === null && adjustmentPercent === null && minStay === null) {
+    return { error: 'Rule must set a price, an adjustment or a minimum stay' };
+  }
+  if (Number.isNaN(leadDays) || (leadDays !== null && (!Number.isInteger(leadDays) || leadDays < 0))) {
+    return { error: 'Invalid leadDays' };
+  }
+  if ((ruleType === 'last_minute' || ruleType === 'early_bird') && leadDays === null) {
+    return { error: 'Lead-time rules need leadDays' };
+  }
+  for (const value of [occupancyMin, occupancyMax]) {
+    if (Number.isNaN(value) || (value !== null && (value < 0 || value > 100))) {
+      return { error: 'Occupancy must be between 0 and 100' };
+    }
+  }
+  if (ruleType === 'occupancy' && occupancyMin === null && occupancyMax === null) {
+    return { error: 'Occupancy rules need a minimum or maximum occupancy' };
+  }
+  if (
+    Number.isNaN(occupancyWindowDays) ||
+    (occupancyWindowDays !== null &&
+      (!Number.isInteger(occupancyWindowDays) || occupancyWindowDays < 1 || occupancyWindowDays > 365))
+  ) {
+    return { error: 'Invalid occupancyWindowDays' };
+  }
+  if (Number.isNaN(minStay) || (minStay !== null && (!Number.isInteger(minStay) || minStay < 1))) {
+    return { error: 'Invalid minStay' };
+  }
+  if (Number.isNaN(priority) || (priority !== null && !Number.isInteger(priority))) {
+    return { error: 'Invalid priority' };
+  }
+
+  return {
+    data: {
+      name: input.name.trim(),
+      ruleType,
+      startDate,
+      endDate,
+      daysOfWeek,
+      price,
+      adjustmentPercent,
+      leadDays,
+      occupancyMin,
+      occupancyMax,
+      occupancyWindowDays: occupancyWindowDays ?? 30,
+      minStay,
+      priority: priority ?? 0,
+      isActive: input.isActive === undefined ? true : Boolean(input.isActive),
+    },
+  };
+}
+
+// ============= DB Helpers =============
+
+const numberOrNull = (value: { toString(): string } | null) => (value === null ? null : Number(value));
+
+export function toPricingRental(rental: ShortTermRental): PricingRental {
+  return {
+    basePrice: Number(rental.basePrice),
+    weekendPrice: numberOrNull(rental.weekendPrice),
+    weeklyDiscount: numberOrNull(rental.weeklyDiscount),
+    monthlyDiscount: numberOrNull(rental.monthlyDiscount),
+    cleaningFee: numberOrNull(rental.cleaningFee),
+    extraGuestFee: numberOrNull(rental.extraGuestFee),
+    extraGuestThreshold: rental.extraGuestThreshold,
+    taxRate: numberOrNull(rental.taxRate),
+    minStay: rental.minStay,
+    maxStay: rental.maxStay,
+    maxGuests: rental.maxGuests,
+    advanceNotice: rental.advanceNotice,
+  };
+}
+
+export function toPricingRule(rule: STRPricingRule): PricingRule {
+  return {
+    id: rule.id,
+    name: rule.name,
+    ruleType: PRICING_RULE_TYPES.includes(rule.ruleType as PricingRuleType)
+      ? (rule.ruleType as PricingRuleType)
+      : 'seasonal',
+    startDate: rule.startDate,
+    endDate: rule.endDate,
+    daysOfWeek: rule.daysOfWeek,
+    price: numberOrNull(rule.price),
+    adjustmentPercent: numberOrNull(rule.adjustmentPercent),
+    leadDays: rule.leadDays,
+    occupancyMin: numberOrNull(rule.occupancyMin),
+    occupancyMax: numberOrNull(rule.occupancyMax),
+    occupancyWindowDays: rule.occupancyWindowDays,
+    minStay: rule.minStay,
+    priority: rule.priority,
+  };
+}
+
+/**
+ * Booked share of the next `windowDays` nights for each window used by the
+ * rental's occupancy rules.
+ */
+async function getOccupancyByWindow(rentalId: string, today: Date, windows: number[]) {
+  const occupancyByWindow: Record<number, number> = {};
+  if (windows.length === 0) return occupancyByWindow;
+
+  const horizon = addDays(today, Math.max(...windows));
+  const bookings = await prisma.sTRBooking.findMany({
+    where: {
+      rentalId,
+      status: { in: ACTIVE_BOOKING_STATUSES },
+      checkIn: { lt: horizon },
+      checkOut: { gt: today },
+    },
+    select: { checkIn: true, checkOut: true },
+  });
+
+  for (const windowDays of windows) {
+    const windowEnd = addDays(today, windowDays);
+    const bookedNights = bookings.reduce((total, booking) => {
+      const start = toDay(booking.checkIn) > today ? toDay(booking.checkIn) : today;
+      const end = toDay(booking.checkOut) < windowEnd ? toDay(booking.checkOut) : windowEnd;
+      return total + Math.max(0, daysBetween(start, end));
+    }, 0);
+    occupancyByWindow[windowDays] = Math.min(100, Math.round((bookedNights / windowDays) * 10000) / 100);
+  }
+
+  return occupancyByWindow;
+}
+
+async function loadPricingInputs(rentalId: string, today: Date) {
+  const rental = await prisma.shortTermRental.findUnique({
+    where: { id: rentalId },
+    include: { pricingRules: { where: { isActive: true } } },
+  });
+  if (!rental) {
+    throw new Error('Rental not found');
+  }
+
+  const rules = rental.pricingRules.map(toPricingRule);
+  const windows = [...new Set(rules.filter((r) => r.ruleType === 'occupancy').map((r) => r.occupancyWindowDays))];
+  const context: PricingContext = {
+    today,
+    occupancyByWindow: await getOccupancyByWindow(rentalId, today, windows),
+  };
+
+  return { rental: toPricingRental(rental), rules, context };
+}
+
+/** Quote a stay at a rental using its current rules */
+export async function getStayQuote(
+  rentalId: string,
+  stay: { checkIn: Date; checkOut: Date; guests: number },
+  now = new Date()
+): Promise<StayQuote> {
+  const { rental, rules, context } = await loadPricingInputs(rentalId, toDay(now));
+  return calculateStayQuote(rental, rules, stay, context);
+}
+
+/** Nightly rates for the calendar */
+export async function getCalendarRates(
+  rentalId: string,
+  start: Date,
+  end: Date,
+  now = new Date()
+): Promise<NightlyRate[]> {
+  const { rental, rules, context } = await loadPricingInputs(rentalId, toDay(now));
+  return calculateCalendarRates(rental, rules, start, end, context);
+}
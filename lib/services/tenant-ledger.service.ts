@@ -0,0 +1,915 @@
+/**
+ * Tenant Ledger Service
+ * Double-entry ledger per lease. Every money-moving writer (move-in charges,
+ * recurring charges, late fees, tenant invoices, rent checkout, cash payments,
+ * deposit dispositions) posts here so a lease has one auditable balance.
+ *
+ * Writers call the `sync*` helpers after they update their own records. The
+ * helpers compare the source record with what is already on the ledger and
+ * post only the difference, using deterministic idempotency keys, so calling
+ * them twice (or from two webhooks) never double-posts.
+ */
+
+import { prisma, type TransactionClient } from '@/db/prisma';
+import type { LedgerEntry, Prisma } from '@prisma/client';
+
+// ============= Accounts & Types =============
+
+export const LEDGER_ACCOUNTS = {
+  TENANT_RECEIVABLE: 'tenant_receivable',
+  CASH: 'cash',
+  RENTAL_INCOME: 'rental_income',
+  FEE_INCOME: 'fee_income',
+  OTHER_INCOME: 'other_income',
+  PREPAID_RENT: 'prepaid_rent',
+  DEPOSIT_LIABILITY: 'deposit_liability',
+  CONCESSIONS: 'concessions',
+  BAD_DEBT: 'bad_debt',
+} as const;
+
+export type LedgerAccount = (typeof LEDGER_ACCOUNTS)[keyof typeof LEDGER_ACCOUNTS];
+
+export type LedgerEntryType =
+  | 'charge'
+  | 'payment'
+  | 'credit'
+  | 'write_off'
+  | 'refund'
+  | 'reversal';
+
+export type LedgerCategory =
+  | 'rent'
+  | 'last_month_rent'
+  | 'security_deposit'
+  | 'pet_deposit'
+  | 'cleaning_fee'
+  | 'late_fee'
+  | 'recurring_charge'
+  | 'invoice'
+  | 'deposit_deduction'
+  | 'deposit_applied'
+  | 'deposit_refund'
+  | 'other';
+
+export type LedgerSourceType =
+  | 'rent_payment'
+  | 'tenant_invoice'
+  | 'deposit_disposition'
+  | 'manual';
+
+export interface LedgerPosting {
+  entryType: LedgerEntryType;
+  category: LedgerCategory;
+  amount: number;
+  effectiveDate: Date;
+  description: string;
+  debitAccount: LedgerAccount;
+  creditAccount: LedgerAccount;
+}
+
+/** Minimal shape needed for balance math; satisfied by LedgerEntry rows. */
+export interface LedgerLineInput {
+  id?: string;
+  entryType: string;
+  category: string;
+  amount: number | Prisma.Decimal;
+  effectiveDate: Date;
+  description: string;
+  debitAccount: string;
+  creditAccount: string;
+}
+
+export interface LedgerLineWithBalance extends LedgerLineInput {
+  charge: number;
+  credit: number;
+  runningBalance: number;
+}
+
+export interface LedgerStatement {
+  periodStart: Date;
+  periodEnd: Date;
+  openingBalance: number;
+  closingBalance: number;
+  totalCharges: number;
+  totalCredits: number;
+  depositHeld: number;
+  lines: LedgerLineWithBalance[];
+}
+
+// ============= Pure Calculations =============
+
+const toCents = (value: number | Prisma.Decimal) => Math.round(Number(value) * 100);
+const fromCents = (cents: number) => cents / 100;
+
+/**
+ * Maps a charge category to the account credited when the charge is posted.
+ */
+export function incomeAccountFor(category: LedgerCategory): LedgerAccount {
+  switch (category) {
+    case 'rent':
+    case 'recurring_charge':
+      return LEDGER_ACCOUNTS.RENTAL_INCOME;
+    case 'last_month_rent':
+      return LEDGER_ACCOUNTS.PREPAID_RENT;
+    case 'security_deposit':
+    case 'pet_deposit':
+      return LEDGER_ACCOUNTS.DEPOSIT_LIABILITY;
+    case 'late_fee':
+    case 'cleaning_fee':
+      return LEDGER_ACCOUNTS.FEE_INCOME;
+    default:
+      return LEDGER_ACCOUNTS.OTHER_INCOME;
+  }
+}
+
+/**
+ * Builds the balanced posting for an entry type. Reversals are built with
+ * `buildReversalPosting` instead because they mirror an existing entry.
+ */
+export function buildPosting(params: {
+  entryType: Exclude<LedgerEntryType, 'reversal'>;
+  category: LedgerCategory;
+  amount: number;
+  effectiveDate: Date;
+  description: string;
+}): LedgerPosting {
+  const { entryType, category } = params;
+
+  if (!(params.amount > 0)) {
+    throw new Error('Ledger amount must be positive');
+  }
+
+  let debitAccount: LedgerAccount;
+  let creditAccount: LedgerAccount;
+
+  switch (entryType) {
+    case 'charge':
+      debitAccount = LEDGER_ACCOUNTS.TENANT_RECEIVABLE;
+      creditAccount = incomeAccountFor(category);
+      break;
+    case 'payment':
+      debitAccount = LEDGER_ACCOUNTS.CASH;
+      creditAccount = LEDGER_ACCOUNTS.TENANT_RECEIVABLE;
+      break;
+    case 'credit':
+      debitAccount =
+        category === 'deposit_applied'
+          ? LEDGER_ACCOUNTS.DEPOSIT_LIABILITY
+          : LEDGER_ACCOUNTS.CONCESSIONS;
+      creditAccount = LEDGER_ACCOUNTS.TENANT_RECEIVABLE;
+      break;
+    case 'write_off':
+      debitAccount = LEDGER_ACCOUNTS.BAD_DEBT;
+      creditAccount = LEDGER_ACCOUNTS.TENANT_RECEIVABLE;
+      break;
+    case 'refund':
+      debitAccount = LEDGER_ACCOUNTS.DEPOSIT_LIABILITY;
+      creditAccount = LEDGER_ACCOUNTS.CASH;
+      break;
+  }
+
+  return {
+    ...params,
+    amount: fromCents(toCents(params.amount)),
+    debitAccount,
+    creditAccount,
+  };
+}
+
+/**
+ * A reversal swaps the debit and credit sides of the original entry.
+ */
+export function buildReversalPosting(
+  original: LedgerLineInput,
+  effectiveDate: Date,
+  reason?: string
+): LedgerPosting {
+  return {
+    entryType: 'reversal',
+    category: original.category as LedgerCategory,
+    amount: Number(original.amount),
+    effectiveDate,
+    description: `Reversal: ${original.description}${reason ? ` (${reason})` : ''}`,
+    debitAccount: original.creditAccount as LedgerAccount,
+    creditAccount: original.debitAccount as LedgerAccount,
+  };
+}
+
+/**
+ * Effect of a line on the tenant's balance, in cents. Positive means the
+ * tenant owes more.
+ */
+function receivableEffectCents(line: LedgerLineInput): number {
+  const cents = toCents(line.amount);
+  if (line.debitAccount === LEDGER_ACCOUNTS.TENANT_RECEIVABLE) return cents;
+  if (line.creditAccount === LEDGER_ACCOUNTS.TENANT_RECEIVABLE) return -cents;
+  return 0;
+}
+
+function depositEffectCents(line: LedgerLineInput): number {
+  const cents = toCents(line.amount);
+  if (line.creditAccount === LEDGER_ACCOUNTS.DEPOSIT_LIABILITY) return cents;
+  if (line.debitAccount === LEDGER_ACCOUNTS.DEPOSIT_LIABILITY) return -cents;
+  return 0;
+}
+
+function sortLines<T extends LedgerLineInput>(lines: T[]): T[] {
+  return [...lines].sort((a, b) => a.effectiveDate.getTime() - b.effectiveDate.getTime());
+}
+
+/**
+ * Current balance owed by the tenant (negative means a credit balance).
+ */
+export function calculateLedgerBalance(lines: LedgerLineInput[]): number {
+  return fromCents(lines.reduce((sum, line) => sum + receivableEffectCents(line), 0));
+}
+
+/**
+ * Security and pet deposits currently held for the tenant.
+ */
+export function calculateDepositHeld(lines: LedgerLineInput[]): number {
+  return fromCents(lines.reduce((sum, line) => sum + depositEffectCents(line), 0));
+}
+
+/**
+ * Orders lines by effective date and annotates each with its charge/credit
+ * column and the running balance after it.
+ */
+export function withRunningBalance<T extends LedgerLineInput>(
+  lines: T[],
+  openingBalance = 0
+): (T & LedgerLineWithBalance)[] {
+  let balanceCents = toCents(openingBalance);
+
+  return sortLines(lines).map((line) => {
+    const effect = receivableEffectCents(line);
+    balanceCents += effect;
+    return {
+      ...line,
+      charge: effect > 0 ? fromCents(effect) : 0,
+      credit: effect < 0 ? fromCents(-effect) : 0,
+      runningBalance: fromCents(balanceCents),
+    };
+  });
+}
+
+/**
+ * Balance-forward statement: everything before `periodStart` is rolled into
+ * the opening balance, lines inside the period are listed individually.
+ */
+export function buildBalanceForwardStatement(
+  lines: LedgerLineInput[],
+  periodStart: Date,
+  periodEnd: Date
+): LedgerStatement {
+  const before = lines.filter((line) => line.effectiveDate < periodStart);
+  const during = lines.filter(
+    (line) => line.effectiveDate >= periodStart && line.effectiveDate <= periodEnd
+  );
+  const throughEnd = lines.filter((line) => line.effectiveDate <= periodEnd);
+
+  const openingBalance = calculateLedgerBalance(before);
+  const statementLines = withRunningBalance(during, openingBalance);
+
+  const totalChargesCents = statementLines.reduce((sum, line) => sum + toCents(line.charge), 0);
+  const totalCreditsCents = statementLines.reduce((sum, line) => sum + toCents(line.credit), 0);
+
+  return {
+    periodStart,
+    periodEnd,
+    openingBalance,
+    closingBalance: fromCents(toCents(openingBalance) + totalChargesCents - totalCreditsCents),
+    totalCharges: fromCents(totalChargesCents),
+    totalCredits: fromCents(totalCreditsCents),
+    depositHeld: calculateDepositHeld(throughEnd),
+    lines: statementLines,
+  };
+}
+
+/**
+ * Maps RentPayment.metadata.type (set by move-in charges and the recurring
+ * charge job) to a ledger category.
+ */
+export function categoryForRentPaymentType(type: unknown): LedgerCategory {
+  switch (type) {
+    case 'last_month_rent':
+      return 'last_month_rent';
+    case 'security_deposit':
+      return 'security_deposit';
+    case 'pet_deposit':
+    case 'pet_deposit_annual':
+      return 'pet_deposit';
+    case 'cleaning_fee':
+      return 'cleaning_fee';
+    case 'recurring_charge':
+      return 'recurring_charge';
+    default:
+      return 'rent';
+  }
+}
+
+// ============= Posting =============
+
+/**
+ * Writes a posting. If the idempotency key already exists the existing row is
+ * returned unchanged.
+ */
+export async function postLedgerEntry(
+  params: LedgerPosting & {
+    landlordId: string;
+    leaseId: string;
+    tenantId: string;
+    idempotencyKey: string;
+    sourceType?: LedgerSourceType;
+    sourceId?: string;
+    reversesEntryId?: string;
+    createdById?: string;
+    metadata?: Prisma.InputJsonValue;
+  },
+  db: TransactionClient = prisma
+): Promise<LedgerEntry> {
+  const existing = await db.ledgerEntry.findUnique({
+    where: { idempotencyKey: params.idempotencyKey },
+  });
+  if (existing) return existing;
+
+  try {
+    return await db.ledgerEntry.create({
+      data: {
+        landlordId: params.landlordId,
+        leaseId: params.leaseId,
+        tenantId: params.tenantId,
+        entryType: params.entryType,
+        category: params.category,
+        debitAccount: params.debitAccount,
+        creditAccount: params.creditAccount,
+        amount: params.amount,
+        effectiveDate: params.effectiveDate,
+        description: params.description,
+        sourceType: params.sourceType,
+        sourceId: params.sourceId,
+        idempotencyKey: params.idempotencyKey,
+        reversesEntryId: params.reversesEntryId,
+        createdById: params.createdById,
+        metadata: params.metadata,
+      },
+    });
+  } catch (error) {
+    // A concurrent writer may have posted the same key between our read and create
+    const raced = await db.ledgerEntry.findUnique({
+      where: { idempotencyKey: params.idempotencyKey },
+    });
+    if (raced) return raced;
+    throw error;
+  }
+}
+
+async function getLeaseContext(leaseId: string, db: TransactionClient) {
+  const lease = await db.lease.findUnique({
+    where: { id: leaseId },
+    select: {
+      id: true,
+      tenantId: true,
+      unit: { select: { property: { select: { landlordId: true } } } },
+    },
+  });
+
+  if (!lease) {
+    throw new Error('Lease not found');
+  }
+
+  const landlordId = lease.unit.property.landlordId;
+  if (!landlordId) {
+    throw new Error('Property has no associated landlord');
+  }
+
+  return { leaseId: lease.id, tenantId: lease.tenantId, landlordId };
+}
+
+async function sumPostedCents(
+  db: TransactionClient,
+  where: Prisma.LedgerEntryWhereInput
+): Promise<number> {
+  const entries = await db.ledgerEntry.findMany({
+    where,
+    select: { amount: true },
+  });
+  return entries.reduce((sum, entry) => sum + toCents(entry.amount), 0);
+}
+
+/**
+ * Reverses a posted entry. Each entry can only be reversed once.
+ */
+export async function reverseLedgerEntry(
+  entryId: string,
+  options: { reason?: string; createdById?: string; effectiveDate?: Date } = {},
+  db: TransactionClient = prisma
+): Promise<LedgerEntry> {
+  const original = await db.ledgerEntry.findUnique({
+    where: { id: entryId },
+    include: { reversedBy: true },
+  });
+
+  if (!original) {
+    throw new Error('Ledger entry not found');
+  }
+  if (original.entryType === 'reversal') {
+    throw new Error('A reversal cannot itself be reversed');
+  }
+  if (original.reversedBy) {
+    return original.reversedBy;
+  }
+
+  const posting = buildReversalPosting(
+    original,
+    options.effectiveDate || new Date(),
+    options.reason
+  );
+
+  return postLedgerEntry(
+    {
+      ...posting,
+      landlordId: original.landlordId,
+      leaseId: original.leaseId,
+      tenantId: original.tenantId,
+      idempotencyKey: `reversal:${original.id}`,
+      sourceType: (original.sourceType as LedgerSourceType) || undefined,
+      sourceId: original.sourceId || undefined,
+      reversesEntryId: original.id,
+      createdById: options.createdById,
+    },
+    db
+  );
+}
+
+/**
+ * Posts a manual credit, write-off or charge entered by a landlord.
+ */
+export async function postManualEntry(
+  params: {
+    leaseId: string;
+    entryType: 'charge' | 'credit' | 'write_off';
+    category?: LedgerCategory;
+    amount: number;
+    description: string;
+    effectiveDate?: Date;
+    createdById?: string;
+  },
+  db: TransactionClient = prisma
+): Promise<LedgerEntry> {
+  const context = await getLeaseContext(params.leaseId, db);
+  const posting = buildPosting({
+    entryType: params.entryType,
+    category: params.category || 'other',
+    amount: params.amount,
+    effectiveDate: params.effectiveDate || new Date(),
+    description: params.description,
+  });
+
+  return postLedgerEntry(
+    {
+      ...posting,
+      ...context,
+      idempotencyKey: `manual:${params.leaseId}:${crypto.randomUUID()}`,
+      sourceType: 'manual',
+      createdById: params.createdById,
+    },
+    db
+  );
+}
+
+// ============= Source Sync =============
+
+/** RentPayment.metadata keys written by the rent pipeline that affect the ledger. */
+interface RentPaymentLedgerMetadata {
+  type?: string;
+  description?: string;
+  lateFee?: number;
+  lateFeeAppliedAt?: string;
+  paidFromDeposit?: boolean;
+  writtenOff?: boolean;
+  writtenOffAt?: string;
+  cashPaymentId?: string;
+}
+
+/**
+ * Brings the ledger in line with a RentPayment: posts its charge, any late
+ * fee accrued in metadata, payments received (cash, card, ACH, deposit) and
+ * write-offs/cancellations. Safe to call after every update.
+ */
+export async function syncRentPaymentLedger(
+  rentPaymentId: string,
+  db: TransactionClient = prisma
+): Promise<void> {
+  const payment = await db.rentPayment.findUnique({ where: { id: rentPaymentId } });
+  if (!payment) return;
+
+  const context = await getLeaseContext(payment.leaseId, db);
+  const metadata = (payment.metadata as RentPaymentLedgerMetadata | null) || {};
+  const source = { sourceType: 'rent_payment' as const, sourceId: payment.id };
+  const keyBase = `rent_payment:${payment.id}`;
+  const description = metadata.description || 'Rent';
+
+  await postLedgerEntry(
+    {
+      ...buildPosting({
+        entryType: 'charge',
+        category: categoryForRentPaymentType(metadata.type),
+        amount: Number(payment.amount),
+        effectiveDate: payment.dueDate,
+        description,
+      }),
+      ...context,
+      ...source,
+      idempotencyKey: `${keyBase}:charge`,
+    },
+    db
+  );
+
+  // Late fees accrue cumulatively in metadata.lateFee; post the increase
+  const lateFeeCents = toCents(Number(metadata.lateFee) || 0);
+  const postedLateFeeCents = await sumPostedCents(db, {
+    ...source,
+    entryType: 'charge',
+    category: 'late_fee',
+  });
+  if (lateFeeCents > postedLateFeeCents) {
+    await postLedgerEntry(
+      {
+        ...buildPosting({
+          entryType: 'charge',
+          category: 'late_fee',
+          amount: fromCents(lateFeeCents - postedLateFeeCents),
+          effectiveDate: metadata.lateFeeAppliedAt ? new Date(metadata.lateFeeAppliedAt) : new Date(),
+          description: `Late fee - ${description}`,
+        }),
+        ...context,
+        ...source,
+        idempotencyKey: `${keyBase}:late_fee:${lateFeeCents}`,
+      },
+      db
+    );
+  }
+
+  // Payments: post the difference between what the record says was paid and
+  // what is already on the ledger. The cumulative amount keys the posting.
+  const paidCents =
+    payment.status === 'paid'
+      ? Math.max(toCents(payment.amountPaid), toCents(payment.amount))
+      : toCents(payment.amountPaid);
+  const postedPaidCents = await sumPostedCents(db, {
+    ...source,
+    entryType: { in: ['payment', 'credit'] },
+  });
+
+  if (paidCents > postedPaidCents) {
+    const fromDeposit = Boolean(metadata.paidFromDeposit);
+    await postLedgerEntry(
+      {
+        ...buildPosting({
+          entryType: fromDeposit ? 'credit' : 'payment',
+          category: fromDeposit ? 'deposit_applied' : categoryForRentPaymentType(metadata.type),
+          amount: fromCents(paidCents - postedPaidCents),
+          effectiveDate: payment.paidAt || new Date(),
+          description: fromDeposit
+            ? `Deposit applied - ${description}`
+            : `Payment - ${description}`,
+        }),
+        ...context,
+        ...source,
+        idempotencyKey: `${keyBase}:paid:${paidCents}`,
+        metadata: {
+          paymentMethod: payment.paymentMethod,
+          stripePaymentIntentId: payment.stripePaymentIntentId,
+          cashPaymentId: metadata.cashPaymentId,
+        },
+      },
+      db
+    );
+  }
+
+  // Cancelled: either a write-off of the unpaid remainder or a voided charge
+  if (payment.status === 'cancelled') {
+    const totalChargedCents = toCents(payment.amount) + lateFeeCents;
+    const settledCents =
+      Math.max(paidCents, postedPaidCents) +
+      (await sumPostedCents(db, { ...source, entryType: 'write_off' }));
+    const remainingCents = totalChargedCents - settledCents;
+
+    if (metadata.writtenOff && remainingCents > 0) {
+      await postLedgerEntry(
+        {
+          ...buildPosting({
+            entryType: 'write_off',
+            category: categoryForRentPaymentType(metadata.type),
+            amount: fromCents(remainingCents),
+            effectiveDate: metadata.writtenOffAt ? new Date(metadata.writtenOffAt) : new Date(),
+            description: `Write-off - ${description}`,
+          }),
+          ...context,
+          ...source,
+          idempotencyKey: `${keyBase}:write_off`,
+        },
+        db
+      );
+    } else if (!metadata.writtenOff && paidCents === 0) {
+      const charges = await db.ledgerEntry.findMany({
+        where: { ...source, entryType: 'charge', reversedBy: { is: null } },
+        select: { id: true },
+      });
+      for (const entry of charges) {
+        await reverseLedgerEntry(entry.id, { reason: 'charge cancelled' }, db);
+      }
+    }
+  }
+}
+
+/**
+ * Syncs every RentPayment settled by a Stripe PaymentIntent. Used by the
+ * checkout confirmation routes, which update payments with `updateMany`.
+ */
+export async function syncRentPaymentsForIntent(paymentIntentId: string): Promise<void> {
+  const payments = await prisma.rentPayment.findMany({
+    where: { stripePaymentIntentId: paymentIntentId },
+    select: { id: true },
+  });
+  for (const payment of payments) {
+    await syncRentPaymentLedger(payment.id);
+  }
+}
+
+/**
+ * Resolves the lease a tenant invoice belongs to. Older invoices may not
+ * carry `leaseId`; fall back to the tenant's lease at the invoiced property.
+ */
+async function resolveInvoiceLeaseId(
+  invoice: { leaseId: string | null; tenantId: string; propertyId: string },
+  db: TransactionClient
+): Promise<string | null> {
+  if (invoice.leaseId) return invoice.leaseId;
+
+  const lease = await db.lease.findFirst({
+    where: { tenantId: invoice.tenantId, unit: { propertyId: invoice.propertyId } },
+    orderBy: [{ status: 'asc' }, { startDate: 'desc' }],
+    select: { id: true },
+  });
+  return lease?.id || null;
+}
+
+/**
+ * Brings the ledger in line with a TenantInvoice: charge on creation, payment
+ * when paid, reversal when cancelled.
+ */
+export async function syncTenantInvoiceLedger(
+  invoiceId: string,
+  db: TransactionClient = prisma
+): Promise<void> {
+  const invoice = await db.tenantInvoice.findUnique({ where: { id: invoiceId } });
+  if (!invoice) return;
+
+  const leaseId = await resolveInvoiceLeaseId(invoice, db);
+  if (!leaseId) return;
+
+  const context = await getLeaseContext(leaseId, db);
+  const category: LedgerCategory = /late fee/i.test(invoice.reason) ? 'late_fee' : 'invoice';
+  const source = { sourceType: 'tenant_invoice' as const, sourceId: invoice.id };
+  const keyBase = `tenant_invoice:${invoice.id}`;
+
+  const charge = await postLedgerEntry(
+    {
+      ...buildPosting({
+        entryType: 'charge',
+        category,
+        amount: Number(invoice.amount),
+        effectiveDate: invoice.createdAt,
+        description: invoice.reason,
+      }),
+      ...context,
+      ...source,
+      idempotencyKey: `${keyBase}:charge`,
+    },
+    db
+  );
+
+  if (invoice.status === 'paid') {
+    await postLedgerEntry(
+      {
+        ...buildPosting({
+          entryType: 'payment',
+          category,
+          amount: Number(invoice.amount),
+          effectiveDate: invoice.paidAt || new Date(),
+          description: `Payment - ${invoice.reason}`,
+        }),
+        ...context,
+        ...source,
+        idempotencyKey: `${keyBase}:payment`,
+        metadata: { paymentMethod: invoice.paymentMethod },
+      },
+      db
+    );
+  } else if (invoice.status === 'cancelled') {
+    await reverseLedgerEntry(charge.id, { reason: 'invoice cancelled' }, db);
+  }
+}
+
+/**
+ * Posts a deposit disposition: deductions other than unpaid rent are charged,
+ * the deducted total is applied from the deposit, and a completed refund
+ * releases the remainder.
+ */
+export async function syncDepositDispositionLedger(
+  dispositionId: string,
+  db: TransactionClient = prisma
+): Promise<void> {
+  const disposition = await db.depositDisposition.findUnique({
+    where: { id: dispositionId },
+    include: { deductions: true },
+  });
+  if (!disposition) return;
+
+  const context = await getLeaseContext(disposition.leaseId, db);
+  const source = { sourceType: 'deposit_disposition' as const, sourceId: disposition.id };
+  const keyBase = `deposit_disposition:${disposition.id}`;
+  const effectiveDate = disposition.createdAt;
+
+  for (const deduction of disposition.deductions) {
+    // Unpaid rent is already on the ledger as a rent charge
+    if (deduction.category === 'unpaid_rent') continue;
+
+    await postLedgerEntry(
+      {
+        ...buildPosting({
+          entryType: 'charge',
+          category: 'deposit_deduction',
+          amount: Number(deduction.amount),
+          effectiveDate,
+          description: `Deposit deduction (${deduction.category}): ${deduction.description}`,
+        }),
+        ...context,
+        ...source,
+        idempotencyKey: `${keyBase}:deduction:${deduction.id}`,
+      },
+      db
+    );
+  }
+
+  if (Number(disposition.totalDeductions) > 0) {
+    await postLedgerEntry(
+      {
+        ...buildPosting({
+          entryType: 'credit',
+          category: 'deposit_applied',
+          amount: Number(disposition.totalDeductions),
+          effectiveDate,
+          description: 'Security deposit applied to deductions',
+        }),
+        ...context,
+        ...source,
+        idempotencyKey: `${keyBase}:applied`,
+      },
+      db
+    );
+  }
+
+  if (disposition.refundStatus === 'completed' && Number(disposition.refundAmount) > 0) {
+    await postLedgerEntry(
+      {
+        ...buildPosting({
+          entryType: 'refund',
+          category: 'deposit_refund',
+          amount: Number(disposition.refundAmount),
+          effectiveDate: disposition.processedAt || new Date(),
+          description: 'Security deposit refund',
+        }),
+        ...context,
+        ...source,
+        idempotencyKey: `${keyBase}:refund`,
+        metadata: { refundMethod: disposition.refundMethod },
+      },
+      db
+    );
+  }
+}
+
+/**
+ * Credits rent for days a tenant was charged but won't occupy (mid-period
+ * rent decreases, early move-outs). The idempotency key comes from the caller
+ * so re-running a settlement never credits twice; the proration breakdown
+ * rides along in metadata.
+ */
+export async function postProrationCredit(
+  params: {
+    leaseId: string;
+    amount: number;
+    description: string;
+    effectiveDate: Date;
+    idempotencyKey: string;
+    metadata?: Prisma.InputJsonValue;
+  },
+  db: TransactionClient = prisma
+): Promise<LedgerEntry> {
+  const context = await getLeaseContext(params.leaseId, db);
+
+  return postLedgerEntry(
+    {
+      ...buildPosting({
+        entryType: 'credit',
+        category: 'rent',
+        amount: params.amount,
+        effectiveDate: params.effectiveDate,
+        description: params.description,
+      }),
+      ...context,
+      // Not sourced to the RentPayment: its sync counts source credits as paid
+      sourceType: 'manual',
+      idempotencyKey: params.idempotencyKey,
+      metadata: params.metadata,
+    },
+    db
+  );
+}
+
+/**
+ * Re-syncs every source record for a lease. Used to backfill leases that
+ * existed before the ledger, and by the "rebuild" action on the report.
+ */
+export async function syncLeaseLedger(leaseId: string): Promise<void> {
+  const lease = await prisma.lease.findUnique({
+    where: { id: leaseId },
+    select: {
+      id: true,
+      tenantId: true,
+      unit: { select: { propertyId: true } },
+      rentPayments: { select: { id: true } },
+      depositDispositions: { select: { id: true } },
+    },
+  });
+  if (!lease) {
+    throw new Error('Lease not found');
+  }
+
+  const invoices = await prisma.tenantInvoice.findMany({
+    where: {
+      OR: [
+        { leaseId },
+        { leaseId: null, tenantId: lease.tenantId, propertyId: lease.unit.propertyId },
+      ],
+    },
+    select: { id: true },
+  });
+
+  for (const payment of lease.rentPayments) {
+    await syncRentPaymentLedger(payment.id);
+  }
+  for (const invoice of invoices) {
+    await syncTenantInvoiceLedger(invoice.id);
+  }
+  for (const disposition of lease.depositDispositions) {
+    await syncDepositDispositionLedger(disposition.id);
+  }
+}
+
+/**
+ * Fire-and-forget wrapper for writers: ledger failures are logged but never
+ * block the payment flow that triggered them.
+ */
+export function syncLedgerSafely(label: string, fn: () => Promise<void>): Promise<void> {
+  return fn().catch((error) => {
+    console.error(`tenant-ledger: ${label} failed`, error);
+  });
+}
+
+// ============= Reporting =============
+
+export async function getLeaseLedgerEntries(leaseId: string): Promise<LedgerEntry[]> {
+  return prisma.ledgerEntry.findMany({
+    where: { leaseId },
+    orderBy: [{ effectiveDate: 'asc' }, { createdAt: 'asc' }],
+  });
+}
+
+/**
+ * Full tenant ledger for a lease with running balance.
+ */
+export async function getTenantLedgerReport(leaseId: string) {
+  const entries = await getLeaseLedgerEntries(leaseId);
+  return {
+    leaseId,
+    balance: calculateLedgerBalance(entries),
+    depositHeld: calculateDepositHeld(entries),
+    lines: withRunningBalance(entries),
+  };
+}
+
+/**
+ * Balance-forward statement for a lease over a period.
+ */
+export async function getTenantLedgerStatement(
+  leaseId: string,
+  periodStart: Date,
+  periodEnd: Date
+): Promise<LedgerStatement> {
+  const entries = await getLeaseLedgerEntries(leaseId);
+  return buildBalanceForwardStatement(entries, periodStart, periodEnd);
+}
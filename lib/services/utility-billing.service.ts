@@ -0,0 +1,772 @@
+/**
+ * Utility Billing Service
+ * Bills shared-meter utilities back to tenants (RUBS / sub-metering):
+ * 1. A property-level bill is recorded against an Expense for the period
+ * 2. The billable share (recoveryPercent) is allocated across the leases
+ *    that occupied the property during the period, by occupants, square
+ *    footage, bedrooms, sub-meter usage or equally
+ * 3. Each tenancy's share is prorated by its move-in/move-out dates; days a
+ *    unit sat vacant stay with the landlord
+ * 4. Posting the bill creates one TenantInvoice per tenancy and syncs the
+ *    tenant ledger; voiding cancels any invoices that are still unpaid
+ */
+
+import { prisma } from '@/db/prisma';
+import { addDays, differenceInCalendarDays, format, startOfDay } from 'date-fns';
+import { NotificationService } from './notification-service';
+import { syncLedgerSafely, syncTenantInvoiceLedger } from './tenant-ledger.service';
+
+export const UTILITY_TYPES = ['water', 'sewer', 'trash', 'gas', 'electric', 'other'] as const;
+export type UtilityType = (typeof UTILITY_TYPES)[number];
+
+export const ALLOCATION_METHODS = ['occupants', 'square_feet', 'bedrooms', 'submeter', 'equal'] as const;
+export type AllocationMethod = (typeof ALLOCATION_METHODS)[number];
+
+// Lease statuses that count as occupancy for a past or current period
+const OCCUPYING_LEASE_STATUSES = ['active', 'ended', 'terminated'];
+
+// Days a tenant has to pay a posted utility charge when the bill has no due date
+const DEFAULT_DUE_DAYS = 14;
+
+// Error codes for utility billing
+export const UtilityBillingErrorCodes = {
+  NOT_FOUND: 'NOT_FOUND',
+  INVALID_INPUT: 'INVALID_INPUT',
+  INVALID_STATUS: 'INVALID_STATUS',
+  MISSING_UNIT_DATA: 'MISSING_UNIT_DATA',
+  NO_OCCUPANCY: 'NO_OCCUPANCY',
+} as const;
+
+export type UtilityBillingErrorCode = typeof UtilityBillingErrorCodes[keyof typeof UtilityBillingErrorCodes];
+
+export class UtilityBillingError extends Error {
+  code: UtilityBillingErrorCode;
+
+  constructor(code: UtilityBillingErrorCode, message: string) {
+    super(message);
+    this.code = code;
+    this.name = 'UtilityBillingError';
+  }
+}
+
+/** HTTP status for a utility billing error code */
+export function getUtilityBillingErrorStatus(code: UtilityBillingErrorCode): number {
+  switch (code) {
+    case UtilityBillingErrorCodes.NOT_FOUND:
+      return 404;
+    case UtilityBillingErrorCodes.INVALID_STATUS:
+      return 409;
+    case UtilityBillingErrorCodes.MISSING_UNIT_DATA:
+    case UtilityBillingErrorCodes.NO_OCCUPANCY:
+      return 422;
+    default:
+      return 400;
+  }
+}
+
+// ============= Types =============
+
+export interface AllocationUnit {
+  unitId: string;
+  name: string;
+  sizeSqFt: number | null;
+  bedrooms: number | null;
+  /** Metered usage for the period (submeter method only) */
+  usage?: number | null;
+}
+
+export interface AllocationTenancy {
+  leaseId: string;
+  unitId: string;
+  tenantId: string;
+  startDate: Date;
+  /** Move-out: termination date, else lease end; null for open-ended leases */
+  endDate: Date | null;
+  occupantCount: number | null;
+}
+
+export interface AllocationInput {
+  totalAmount: number;
+  recoveryPercent: number;
+  method: AllocationMethod;
+  periodStart: Date;
+  /** Inclusive */
+  periodEnd: Date;
+  units: AllocationUnit[];
+  tenancies: AllocationTenancy[];
+}
+
+export interface AllocationLine {
+  leaseId: string;
+  unitId: string;
+  tenantId: string;
+  basis: number;
+  occupiedDays: number;
+  periodDays: number;
+  /** Share of the billable amount, 0-1 */
+  sharePercent: number;
+  amount: number;
+}
+
+export interface AllocationResult {
+  billableAmount: number;
+  allocatedAmount: number;
+  /** Billable amount not charged to anyone (vacant unit-days) */
+  unallocatedAmount: number;
+  lines: AllocationLine[];
+}
+
+export interface MeterReadingPoint {
+  readAt: Date;
+  reading: number;
+}
+
+export interface UtilityBillInput {
+  propertyId: string;
+  expenseId?: string | null;
+  utilityType: UtilityType;
+  periodStart: Date;
+  periodEnd: Date;
+  totalAmount: number;
+  allocationMethod: AllocationMethod;
+  recoveryPercent: number;
+  dueDate: Date | null;
+  notes: string | null;
+}
+
+// ============= Allocation =============
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Days in a billing period, both ends inclusive */
+export function getPeriodDays(periodStart: Date, periodEnd: Date): number {
+  return differenceInCalendarDays(periodEnd, periodStart) + 1;
+}
+
+/** Days of the billing period a tenancy occupied its unit, both ends inclusive */
+export function getOccupiedDays(
+  tenancy: Pick<AllocationTenancy, 'startDate' | 'endDate'>,
+  periodStart: Date,
+  periodEnd: Date
+): number {
+  const from = tenancy.startDate > periodStart ? tenancy.startDate : periodStart;
+  const to = tenancy.endDate && tenancy.endDate < periodEnd ? tenancy.endDate : periodEnd;
+  return Math.max(0, differenceInCalendarDays(to, from) + 1);
+}
+
+/**
+ * Usage between the last read on or before the period start and the last read
+ * on or before the period end. Null when either read is missing; a meter that
+ * went backwards (replaced or rolled over) is reported as null too.
+ */
+export function getMeterUsage(
+  readings: MeterReadingPoint[],
+  periodStart: Date,
+  periodEnd: Date
+): number | null {
+  const sorted = [...readings].sort((a, b) => a.readAt.getTime() - b.readAt.getTime());
+  const endCutoff = addDays(startOfDay(periodEnd), 1);
+  const startCutoff = addDays(startOfDay(periodStart), 1);
+
+  const lastBefore = (cutoff: Date) => {
+    let found: MeterReadingPoint | null = null;
+    for (const reading of sorted) {
+      if (reading.readAt < cutoff) found = reading;
+    }
+    return found;
+  };
+
+  const opening = lastBefore(startCutoff);
+  const closing = lastBefore(endCutoff);
+  if (!opening || !closing || closing.readAt <= opening.readAt) return null;
+
+  const usage = closing.reading - opening.reading;
+  return usage >= 0 ? Math.round(usage * 1000) / 1000 : null;
+}
+
+/** Per-day weight of a unit under a ratio method */
+function unitWeight(unit: AllocationUnit, method: AllocationMethod): number | null {
+  switch (method) {
+    case 'square_feet':
+      return unit.sizeSqFt && unit.sizeSqFt > 0 ? unit.sizeSqFt : null;
+    case 'bedrooms':
+      // Studios count as one bedroom
+      return unit.bedrooms == null ? null : Math.max(1, unit.bedrooms);
+    case 'equal':
+      return 1;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Spreads cents so the lines add up exactly to the rounded total: each line
+ * gets its floor, then leftover cents go to the largest remainders.
+ */
+function distributeCents(rawAmounts: number[], totalCents: number): number[] {
+  const cents = rawAmounts.map((amount) => Math.floor(amount * 100 + 1e-9));
+  let leftover = totalCents - cents.reduce((sum, value) => sum + value, 0);
+
+  const order = rawAmounts
+    .map((amount, index) => ({ index, remainder: amount * 100 - cents[index] }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+  for (let i = 0; leftover > 0 && order.length > 0; i = (i + 1) % order.length) {
+    cents[order[i].index] += 1;
+    leftover -= 1;
+  }
+
+  return cents.map((value) => value / 100);
+}
+
+/**
+ * Allocates the billable share of a utility bill across tenancies.
+ *
+ * - occupants: occupant-days; the whole billable amount is split among the
+ *   people who lived there, so only a fully vacant property leaves a remainder
+ * - square_feet / bedrooms / equal: unit weight × occupied days over the
+ *   weight of every unit for the full period, so vacancy stays with the landlord
+ * - submeter: each unit's metered usage over total metered usage, split
+ *   between that unit's tenancies by occupied days
+ */
+export function allocateUtilityBill(input: AllocationInput): AllocationResult {
+  const { method, periodStart, periodEnd } = input;
+  const periodDays = getPeriodDays(periodStart, periodEnd);
+
+  if (!Number.isFinite(input.totalAmount) || input.totalAmount < 0) {
+    throw new UtilityBillingError(UtilityBillingErrorCodes.INVALID_INPUT, 'Bill amount must be zero or more');
+  }
+  if (periodDays < 1) {
+    throw new UtilityBillingError(UtilityBillingErrorCodes.INVALID_INPUT, 'Billing period ends before it starts');
+  }
+  if (!(input.recoveryPercent >= 0 && input.recoveryPercent <= 100)) {
+    throw new UtilityBillingError(UtilityBillingErrorCodes.INVALID_INPUT, 'Recovery percent must be between 0 and 100');
+  }
+
+  const billableAmount = roundMoney((input.totalAmount * input.recoveryPercent) / 100);
+  const unitsById = new Map(input.units.map((unit) => [unit.unitId, unit]));
+
+  const occupancies = input.tenancies
+    .filter((tenancy) => unitsById.has(tenancy.unitId))
+    .map((tenancy) => ({ tenancy, occupiedDays: getOccupiedDays(tenancy, periodStart, periodEnd) }))
+    .filter((occupancy) => occupancy.occupiedDays > 0);
+
+  if (occupancies.length === 0) {
+    throw new UtilityBillingError(
+      UtilityBillingErrorCodes.NO_OCCUPANCY,
+      'No leases occupied the property during this billing period'
+    );
+  }
+
+  let denominator = 0;
+  const weighted: Array<{ tenancy: AllocationTenancy; occupiedDays: number; basis: number; weight: number }> = [];
+
+  if (method === 'occupants') {
+    for (const { tenancy, occupiedDays } of occupancies) {
+      const basis = Math.max(1, tenancy.occupantCount ?? 1);
+      weighted.push({ tenancy, occupiedDays, basis, weight: basis * occupiedDays });
+    }
+    denominator = weighted.reduce((sum, line) => sum + line.weight, 0);
+  } else if (method === 'submeter') {
+    const missing = input.units.filter((unit) => unit.usage == null).map((unit) => unit.name);
+    if (missing.length > 0) {
+      throw new UtilityBillingError(
+        UtilityBillingErrorCodes.MISSING_UNIT_DATA,
+        `Missing meter reads for the period: ${missing.join(', ')}`
+      );
+    }
+    denominator = input.units.reduce((sum, unit) => sum + (unit.usage ?? 0), 0);
+    for (const { tenancy, occupiedDays } of occupancies) {
+      const usage = unitsById.get(tenancy.unitId)?.usage ?? 0;
+      weighted.push({ tenancy, occupiedDays, basis: usage, weight: (usage * occupiedDays) / periodDays });
+    }
+  } else {
+    const missing = input.units.filter((unit) => unitWeight(unit, method) == null).map((unit) => unit.name);
+    if (missing.length > 0) {
+      const field = method === 'square_feet' ? 'square footage' : 'bedroom count';
+      throw new UtilityBillingError(
+        UtilityBillingErrorCodes.MISSING_UNIT_DATA,
+        `Units missing ${field}: ${missing.join(', ')}`
+      );
+    }
+    denominator = input.units.reduce((sum, unit) => sum + (unitWeight(unit, method) ?? 0) * periodDays, 0);
+    for (const { tenancy, occupiedDays } of occupancies) {
+      const basis = unitWeight(unitsById.get(tenancy.unitId)!, method) ?? 0;
+      weighted.push({ tenancy, occupiedDays, basis, weight: basis * occupiedDays });
+    }
+  }
+
+  const shares = weighted.map((line) => (denominator > 0 ? line.weight / denominator : 0));
+  const totalShare = Math.min(1, shares.reduce((sum, share) => sum + share, 0));
+  const amounts = distributeCents(
+    shares.map((share) => billableAmount * share),
+    Math.round(billableAmount * totalShare * 100)
+  );
+
+  const lines: AllocationLine[] = weighted.map((line, index) => ({
+    leaseId: line.tenancy.leaseId,
+    unitId: line.tenancy.unitId,
+    tenantId: line.tenancy.tenantId,
+    basis: line.basis,
+    occupiedDays: line.occupiedDays,
+    periodDays,
+    sharePercent: Math.round(shares[index] * 1e6) / 1e6,
+    amount: amounts[index],
+  }));
+
+  const allocatedAmount = roundMoney(lines.reduce((sum, line) => sum + line.amount, 0));
+  return {
+    billableAmount,
+    allocatedAmount,
+    unallocatedAmount: roundMoney(billableAmount - allocatedAmount),
+    lines,
+  };
+}
+
+/**
+ * Validates create/update input from the API. Dates are day-granular and
+ * the period end is inclusive.
+ */
+export function normalizeUtilityBillInput(body: Record<string, unknown>): UtilityBillInput {
+  const invalid = (message: string) => new UtilityBillingError(UtilityBillingErrorCodes.INVALID_INPUT, message);
+
+  const propertyId = typeof body.propertyId === 'string' ? body.propertyId : '';
+  if (!propertyId) throw invalid('propertyId is required');
+
+  const utilityType = body.utilityType as UtilityType;
+  if (!UTILITY_TYPES.includes(utilityType)) {
+    throw invalid(`utilityType must be one of ${UTILITY_TYPES.join(', ')}`);
+  }
+
+  const allocationMethod = body.allocationMethod as AllocationMethod;
+  if (!ALLOCATION_METHODS.includes(allocationMethod)) {
+    throw invalid(`allocationMethod must be one of ${ALLOCATION_METHODS.join(', ')}`);
+  }
+
+  const parseDate = (value: unknown, field: string) => {
+    const date = new Date(String(value));
+    if (value == null || value === '' || Number.isNaN(date.getTime())) throw invalid(`${field} is required`);
+    return startOfDay(date);
+  };
+  const periodStart = parseDate(body.periodStart, 'periodStart');
+  const periodEnd = parseDate(body.periodEnd, 'periodEnd');
+  if (periodEnd < periodStart) throw invalid('periodEnd must be on or after periodStart');
+
+  const totalAmount = Number(body.totalAmount);
+  if (!Number.isFinite(totalAmount) || totalAmount <= 0) throw invalid('totalAmount must be greater than 0');
+
+  const recoveryPercent = body.recoveryPercent == null || body.recoveryPercent === '' ? 100 : Number(body.recoveryPercent);
+  if (!Number.isFinite(recoveryPercent) || recoveryPercent < 0 || recoveryPercent > 100) {
+    throw invalid('recoveryPercent must be between 0 and 100');
+  }
+
+  return {
+    propertyId,
+    expenseId: typeof body.expenseId === 'string' && body.expenseId ? body.expenseId : null,
+    utilityType,
+    periodStart,
+    periodEnd,
+    totalAmount: roundMoney(totalAmount),
+    allocationMethod,
+    recoveryPercent,
+    dueDate: body.dueDate ? parseDate(body.dueDate, 'dueDate') : null,
+    notes: typeof body.notes === 'string' && body.notes.trim() ? body.notes.trim() : null,
+  };
+}
+
+/** Invoice reason for a tenant's share, e.g. "Utility - Water (Jan 1 - Jan 31, 2026)" */
+export function formatUtilityChargeReason(utilityType: string, periodStart: Date, periodEnd: Date): string {
+  const label = utilityType.charAt(0).toUpperCase() + utilityType.slice(1);
+  return `Utility - ${label} (${format(periodStart, 'MMM d')} - ${format(periodEnd, 'MMM d, yyyy')})`;
+}
+
+// ============= Data loading =============
+
+/** Units, overlapping tenancies and (for sub-metering) usage for a property and period */
+async function loadAllocationInput(
+  bill: Pick<UtilityBillInput, 'propertyId' | 'utilityType' | 'allocationMethod' | 'periodStart' | 'periodEnd'>,
+  totalAmount: number,
+  recoveryPercent: number
+): Promise<AllocationInput> {
+  const units = await prisma.unit.findMany({
+    where: { propertyId: bill.propertyId },
+    select: { id: true, name: true, sizeSqFt: true, bedrooms: true },
+    orderBy: { name: 'asc' },
+  });
+  const unitIds = units.map((unit) => unit.id);
+
+  const leases = await prisma.lease.findMany({
+    where: {
+      unitId: { in: unitIds },
+      status: { in: OCCUPYING_LEASE_STATUSES },
+      startDate: { lte: bill.periodEnd },
+      OR: [{ endDate: null }, { endDate: { gte: bill.periodStart } }],
+    },
+    select: {
+      id: true,
+      unitId: true,
+      tenantId: true,
+      startDate: true,
+      endDate: true,
+      terminatedAt: true,
+      occupantCount: true,
+    },
+  });
+
+  const usageByUnit = new Map<string, number | null>();
+  if (bill.allocationMethod === 'submeter') {
+    const readings = await prisma.utilityMeterReading.findMany({
+      where: {
+        unitId: { in: unitIds },
+        utilityType: bill.utilityType,
+        readAt: { lt: addDays(bill.periodEnd, 1) },
+      },
+      select: { unitId: true, readAt: true, reading: true },
+    });
+    for (const unitId of unitIds) {
+      const points = readings
+        .filter((reading) => reading.unitId === unitId)
+        .map((reading) => ({ readAt: reading.readAt, reading: Number(reading.reading) }));
+      usageByUnit.set(unitId, getMeterUsage(points, bill.periodStart, bill.periodEnd));
+    }
+  }
+
+  return {
+    totalAmount,
+    recoveryPercent,
+    method: bill.allocationMethod,
+    periodStart: bill.periodStart,
+    periodEnd: bill.periodEnd,
+    units: units.map((unit) => ({
+      unitId: unit.id,
+      name: unit.name,
+      sizeSqFt: unit.sizeSqFt,
+      bedrooms: unit.bedrooms,
+      usage: usageByUnit.get(unit.id),
+    })),
+    tenancies: leases.map((lease) => {
+      const moveOut = lease.terminatedAt && (!lease.endDate || lease.terminatedAt < lease.endDate)
+        ? lease.terminatedAt
+        : lease.endDate;
+      return {
+        leaseId: lease.id,
+        unitId: lease.unitId,
+        tenantId: lease.tenantId,
+        startDate: lease.startDate,
+        endDate: moveOut,
+        occupantCount: lease.occupantCount,
+      };
+    }),
+  };
+}
+
+function allocationRows(result: AllocationResult) {
+  return result.lines.map((line) => ({
+    unitId: line.unitId,
+    leaseId: line.leaseId,
+    tenantId: line.tenantId,
+    basis: line.basis,
+    occupiedDays: line.occupiedDays,
+    periodDays: line.periodDays,
+    sharePercent: line.sharePercent,
+    amount: line.amount,
+  }));
+}
+
+async function findBill(landlordId: string, billId: string) {
+  const bill = await prisma.utilityBill.findFirst({
+    where: { id: billId, landlordId },
+    include: { allocations: true },
+  });
+  if (!bill) {
+    throw new UtilityBillingError(UtilityBillingErrorCodes.NOT_FOUND, 'Utility bill not found');
+  }
+  return bill;
+}
+
+// ============= Bills =============
+
+/**
+ * Records a utility bill as a draft with its allocations. Without an
+ * expenseId, a 'utilities' Expense is created for the bill.
+ */
+export async function createUtilityBill(landlordId: string, input: UtilityBillInput) {
+  const property = await prisma.property.findFirst({
+    where: { id: input.propertyId, landlordId },
+    select: { id: true },
+  });
+  if (!property) {
+    throw new UtilityBillingError(UtilityBillingErrorCodes.NOT_FOUND, 'Property not found');
+  }
+
+  if (input.expenseId) {
+    const expense = await prisma.expense.findFirst({
+      where: { id: input.expenseId, landlordId },
+      select: { id: true, utilityBill: { select: { id: true } } },
+    });
+    if (!expense) {
+      throw new UtilityBillingError(UtilityBillingErrorCodes.NOT_FOUND, 'Expense not found');
+    }
+    if (expense.utilityBill) {
+      throw new UtilityBillingError(
+        UtilityBillingErrorCodes.INVALID_STATUS,
+        'This expense is already billed back as a utility bill'
+      );
+    }
+  }
+
+  const allocation = allocateUtilityBill(
+    await loadAllocationInput(input, input.totalAmount, input.recoveryPercent)
+  );
+
+  return prisma.$transaction(async (tx) => {
+    const expenseId = input.expenseId
+      ? input.expenseId
+      : (
+          await tx.expense.create({
+            data: {
+              landlordId,
+              propertyId: input.propertyId,
+              amount: input.totalAmount,
+              category: 'utilities',
+              description: `${input.utilityType} bill ${format(input.periodStart, 'MMM d')} - ${format(input.periodEnd, 'MMM d, yyyy')}`,
+              incurredAt: input.periodEnd,
+            },
+          })
+        ).id;
+
+    return tx.utilityBill.create({
+      data: {
+        landlordId,
+        propertyId: input.propertyId,
+        expenseId,
+        utilityType: input.utilityType,
+        periodStart: input.periodStart,
+        periodEnd: input.periodEnd,
+        totalAmount: input.totalAmount,
+        allocationMethod: input.allocationMethod,
+        recoveryPercent: input.recoveryPercent,
+        allocatedAmount: allocation.allocatedAmount,
+        dueDate: input.dueDate,
+        notes: input.notes,
+        allocations: { create: allocationRows(allocation) },
+      },
+      include: { allocations: true },
+    });
+  });
+}
+
+/**
+ * Re-runs the allocation for a draft bill, e.g. after meter reads were
+ * entered or a move-out date was corrected.
+ */
+export async function recalculateUtilityBill(landlordId: string, billId: string) {
+  const bill = await findBill(landlordId, billId);
+  if (bill.status !== 'draft') {
+    throw new UtilityBillingError(UtilityBillingErrorCodes.INVALID_STATUS, 'Only draft bills can be recalculated');
+  }
+
+  const allocation = allocateUtilityBill(
+    await loadAllocationInput(
+      {
+        propertyId: bill.propertyId,
+        utilityType: bill.utilityType as UtilityType,
+        allocationMethod: bill.allocationMethod as AllocationMethod,
+        periodStart: bill.periodStart,
+        periodEnd: bill.periodEnd,
+      },
+      Number(bill.totalAmount),
+      Number(bill.recoveryPercent)
+    )
+  );
+
+  return prisma.$transaction(async (tx) => {
+    // Locks the bill against a concurrent post, which claims it the same way
+    const stillDraft = await tx.utilityBill.updateMany({
+      where: { id: bill.id, status: 'draft' },
+      data: { allocatedAmount: allocation.allocatedAmount },
+    });
+    if (stillDraft.count === 0) {
+      throw new UtilityBillingError(UtilityBillingErrorCodes.INVALID_STATUS, 'Only draft bills can be recalculated');
+    }
+    await tx.utilityBillAllocation.deleteMany({ where: { utilityBillId: bill.id } });
+    return tx.utilityBill.update({
+      where: { id: bill.id },
+      data: { allocations: { create: allocationRows(allocation) } },
+      include: { allocations: true },
+    });
+  });
+}
+
+/**
+ * Posts a draft bill: one TenantInvoice per non-zero allocation, ledger
+ * charges, and a notification to each tenant. The bill is claimed (moved
+ * off draft) first thing in the transaction, so posting it twice at once
+ * raises one set of invoices.
+ */
+export async function postUtilityBill(landlordId: string, billId: string) {
+  const bill = await findBill(landlordId, billId);
+  if (bill.status !== 'draft') {
+    throw new UtilityBillingError(UtilityBillingErrorCodes.INVALID_STATUS, 'Only draft bills can be posted');
+  }
+
+  const reason = formatUtilityChargeReason(bill.utilityType, bill.periodStart, bill.periodEnd);
+  const dueDate = bill.dueDate ?? addDays(startOfDay(new Date()), DEFAULT_DUE_DAYS);
+
+  const invoices = await prisma.$transaction(async (tx) => {
+    const claimed = await tx.utilityBill.updateMany({
+      where: { id: bill.id, status: 'draft' },
+      data: { status: 'posted', postedAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      throw new UtilityBillingError(UtilityBillingErrorCodes.INVALID_STATUS, 'Only draft bills can be posted');
+    }
+
+    // Read after the claim so a recalculation that committed first is what gets billed
+    const allocations = await tx.utilityBillAllocation.findMany({ where: { utilityBillId: bill.id } });
+    const created = [];
+    for (const allocation of allocations.filter((row) => Number(row.amount) > 0)) {
+      const invoice = await tx.tenantInvoice.create({
+        data: {
+          propertyId: bill.propertyId,
+          tenantId: allocation.tenantId,
+          leaseId: allocation.leaseId,
+          amount: allocation.amount,
+          reason,
+          description: `${allocation.occupiedDays} of ${allocation.periodDays} days, ${(Number(allocation.sharePercent) * 100).toFixed(2)}% of the billed amount`,
+          dueDate,
+          status: 'pending',
+        },
+      });
+      await tx.utilityBillAllocation.update({
+        where: { id: allocation.id },
+        data: { tenantInvoiceId: invoice.id },
+      });
+      created.push(invoice);
+    }
+    return created;
+  });
+
+  for (const invoice of invoices) {
+    await syncLedgerSafely(`invoice ${invoice.id}`, () => syncTenantInvoiceLedger(invoice.id));
+    try {
+      await NotificationService.createNotification({
+        userId: invoice.tenantId,
+        type: 'payment',
+        title: 'New Utility Charge',
+        message: `You have a new utility charge for $${Number(invoice.amount).toFixed(2)} - ${reason}`,
+        actionUrl: '/user/profile/invoices',
+        landlordId,
+      });
+    } catch (error) {
+      console.error('Failed to notify tenant of utility charge:', error);
+    }
+  }
+
+  return { bill: await findBill(landlordId, billId), invoiceCount: invoices.length };
+}
+
+/**
+ * Voids a bill. Unpaid invoices from a posted bill are cancelled (reversing
+ * their ledger charges); paid ones are left for the landlord to refund.
+ */
+export async function voidUtilityBill(landlordId: string, billId: string) {
+  const bill = await findBill(landlordId, billId);
+  if (bill.status === 'void') {
+    throw new UtilityBillingError(UtilityBillingErrorCodes.INVALID_STATUS, 'Bill is already void');
+  }
+
+  const invoiceIds = bill.allocations
+    .map((allocation) => allocation.tenantInvoiceId)
+    .filter((id): id is string => Boolean(id));
+
+  const cancellable = invoiceIds.length
+    ? await prisma.tenantInvoice.findMany({
+        where: { id: { in: invoiceIds }, status: { in: ['pending', 'overdue'] } },
+        select: { id: true },
+      })
+    : [];
+
+  await prisma.$transaction(async (tx) => {
+    if (cancellable.length > 0) {
+      await tx.tenantInvoice.updateMany({
+        where: { id: { in: cancellable.map((invoice) => invoice.id) } },
+        data: { status: 'cancelled' },
+      });
+    }
+    await tx.utilityBill.update({
+      where: { id: bill.id },
+      data: { status: 'void', voidedAt: new Date() },
+    });
+  });
+
+  for (const invoice of cancellable) {
+    await syncLedgerSafely(`invoice ${invoice.id}`, () => syncTenantInvoiceLedger(invoice.id));
+  }
+
+  return {
+    bill: await findBill(landlordId, billId),
+    cancelledInvoices: cancellable.length,
+    paidInvoices: invoiceIds.length - cancellable.length,
+  };
+}
+
+/** Deletes a draft bill; its expense is kept */
+export async function deleteUtilityBill(landlordId: string, billId: string) {
+  const bill = await findBill(landlordId, billId);
+  if (bill.status !== 'draft') {
+    throw new UtilityBillingError(
+      UtilityBillingErrorCodes.INVALID_STATUS,
+      'Only draft bills can be deleted; void a posted bill instead'
+    );
+  }
+  await prisma.utilityBill.delete({ where: { id: bill.id } });
+}
+
+// ============= Meter readings =============
+
+/** Records (or corrects) a sub-meter read for a landlord's unit */
+export async function recordMeterReading(
+  landlordId: string,
+  input: { unitId: string; utilityType: string; readAt: Date; reading: number }
+) {
+  if (!UTILITY_TYPES.includes(input.utilityType as UtilityType)) {
+    throw new UtilityBillingError(
+      UtilityBillingErrorCodes.INVALID_INPUT,
+      `utilityType must be one of ${UTILITY_TYPES.join(', ')}`
+    );
+  }
+  if (Number.isNaN(input.readAt.getTime())) {
+    throw new UtilityBillingError(UtilityBillingErrorCodes.INVALID_INPUT, 'readAt is required');
+  }
+  if (!Number.isFinite(input.reading) || input.reading < 0) {
+    throw new UtilityBillingError(UtilityBillingErrorCodes.INVALID_INPUT, 'reading must be zero or more');
+  }
+
+  const unit = await prisma.unit.findFirst({
+    where: { id: input.unitId, property: { landlordId } },
+    select: { id: true },
+  });
+  if (!unit) {
+    throw new UtilityBillingError(UtilityBillingErrorCodes.NOT_FOUND, 'Unit not found');
+  }
+
+  return prisma.utilityMeterReading.upsert({
+    where: {
+      unitId_utilityType_readAt: {
+        unitId: unit.id,
+        utilityType: input.utilityType,
+        readAt: input.readAt,
+      },
+    },
+    create: {
+      unitId: unit.id,
+      utilityType: input.utilityType,
+      readAt: input.readAt,
+      reading: input.reading,
+    },
+    update: { reading: input.reading },
+  });
+}
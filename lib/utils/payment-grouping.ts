@@ -83,6 +83,8 @@ export function getPaymentTypeLabel(type: string): string {
       return 'Cleaning Fee';
     case 'monthly_rent':
       return 'Monthly Rent';
+    case 'rent_adjustment':
+      return 'Rent Adjustment';
     case 'move_in':
       return 'Move-in Payment';
     default:
@@ -0,0 +1,12 @@
+-- Migration: Marketplace job feed full-text search
+-- Run after `prisma db push` has created the "MarketplaceJobListing" table.
+-- Prisma can't declare expression indexes, so the search index lives here.
+
+-- Full-text index over title and description. The expression must match the
+-- one in lib/services/marketplace-feed.service.ts for the planner to use it.
+CREATE INDEX IF NOT EXISTS "MarketplaceJobListing_search_idx"
+ON "MarketplaceJobListing"
+USING GIN (to_tsvector('english', "title" || ' ' || "description"));
+
+-- Backfill is done by the marketplace-feed-reconcile job, which picks up every
+-- open job without a listing on its first run.
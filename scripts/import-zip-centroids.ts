@@ -0,0 +1,88 @@
+import { PrismaClient } from '@prisma/client';
+import { PrismaNeon } from '@prisma/adapter-neon';
+import { config } from 'dotenv';
+import { readFileSync } from 'fs';
+
+// Load environment variables from .env file
+config();
+
+/**
+ * Load US ZIP code centroids into the ZipCentroid table
+ *
+ * Contractor search and lead routing geocode ZIPs and cities from this table,
+ * so they work without a geocoding API. Source: the GeoNames postal code dump
+ * (https://download.geonames.org/export/zip/US.zip), tab separated:
+ *   country, zip, place, state name, state code, county, county code, -, -, lat, lng, accuracy
+ *
+ * Usage:
+ *   npx tsx scripts/import-zip-centroids.ts path/to/US.txt [--backfill]
+ *
+ * --backfill re-geocodes every contractor profile afterwards.
+ */
+
+const BATCH_SIZE = 1000;
+
+async function main() {
+  const file = process.argv.slice(2).find((arg) => !arg.startsWith('--'));
+  const backfill = process.argv.includes('--backfill');
+  if (!file) {
+    throw new Error('Usage: npx tsx scripts/import-zip-centroids.ts path/to/US.txt [--backfill]');
+  }
+
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) {
+    throw new Error('DATABASE_URL is not set');
+  }
+
+  const adapter = new PrismaNeon({ connectionString });
+  const prisma = new PrismaClient({ adapter });
+
+  const rows = readFileSync(file, 'utf8')
+    .split('\n')
+    .map((line) => line.split('\t'))
+    .filter((cols) => cols.length >= 11 && /^\d{5}$/.test(cols[1]) && /^[A-Z]{2}$/.test(cols[4]))
+    .map((cols) => ({
+      zip: cols[1],
+      city: cols[2].trim(),
+      state: cols[4],
+      latitude: parseFloat(cols[9]),
+      longitude: parseFloat(cols[10]),
+    }))
+    .filter((row) => Number.isFinite(row.latitude) && Number.isFinite(row.longitude));
+
+  console.log(`📍 Importing ${rows.length} ZIP centroids...`);
+
+  let inserted = 0;
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    const { count } = await prisma.zipCentroid.createMany({
+      data: rows.slice(i, i + BATCH_SIZE),
+      skipDuplicates: true,
+    });
+    inserted += count;
+  }
+  console.log(`✅ Inserted ${inserted} new ZIPs (${rows.length - inserted} already present)`);
+
+  if (backfill) {
+    // Imported here so the service's shared client only connects when needed
+    const { syncContractorServiceAreas } = await import('../lib/services/contractor-service-area.service');
+    const profiles = await prisma.contractorProfile.findMany({ select: { id: true, businessName: true } });
+    console.log(`🗺️  Geocoding service areas for ${profiles.length} contractors...`);
+
+    let unresolved = 0;
+    for (const profile of profiles) {
+      const result = await syncContractorServiceAreas(profile.id);
+      if (!result.base && result.areas === 0) {
+        unresolved++;
+        console.log(`   ⚠️  ${profile.businessName}: no location could be geocoded`);
+      }
+    }
+    console.log(`✅ Backfill complete (${unresolved} without a location)`);
+  }
+
+  await prisma.$disconnect();
+}
+
+main().catch((e) => {
+  console.error('❌ Error importing ZIP centroids:', e);
+  process.exit(1);
+});
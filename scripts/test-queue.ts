@@ -1,61 +1,51 @@
 /**
- * Test script for Redis queue
+ * Test script for the job runtime
  * Run with: npx ts-node scripts/test-queue.ts
  */
 
-import { jobQueue } from '../lib/queue/redis-queue';
+import { jobRuntime } from '../lib/queue';
 import { EmailQueue } from '../lib/queue/email-queue';
 
 async function testQueue() {
-  console.log('🧪 Testing Redis Queue...\n');
+  console.log('🧪 Testing job runtime...\n');
 
   try {
     // Test 1: Enqueue a job
     console.log('1️⃣ Enqueueing test job...');
-    const jobId = await jobQueue.enqueue('send_email', {
-      to: 'test@example.com',
-      subject: 'Test Email',
-      html: '<p>This is a test</p>',
-    });
-    console.log(`✅ Job enqueued: ${jobId}\n`);
-
-    // Test 2: Check queue stats
-    console.log('2️⃣ Checking queue stats...');
-    const stats = await jobQueue.getStats();
-    console.log(`✅ Queue stats:`, stats);
+    const idempotencyKey = `test-queue:${Date.now()}`;
+    const first = await jobRuntime.enqueue(
+      'send_email',
+      { to: 'test@example.com', subject: 'Test Email', html: '<p>This is a test</p>' },
+      { idempotencyKey, delayMs: 60 * 60 * 1000 }
+    );
+    console.log(`✅ Job enqueued: ${first.id}\n`);
+
+    // Test 2: Same idempotency key returns the same job
+    console.log('2️⃣ Enqueueing again with the same idempotency key...');
+    const second = await jobRuntime.enqueue(
+      'send_email',
+      { to: 'test@example.com', subject: 'Test Email', html: '<p>This is a test</p>' },
+      { idempotencyKey }
+    );
+    console.log(`✅ ${second.created ? '❌ duplicate created' : 'Deduplicated'}: ${second.id}\n`);
+
+    // Test 3: Check queue stats
+    console.log('3️⃣ Checking queue stats...');
+    const stats = await jobRuntime.getStats();
+    console.log(`✅ Queue stats:`, stats.totals);
     console.log('');
 
-    // Test 3: Dequeue a job
-    console.log('3️⃣ Dequeueing job...');
-    const job = await jobQueue.dequeue();
-    if (job) {
-      console.log(`✅ Job dequeued: ${job.id}`);
-      console.log(`   Type: ${job.type}`);
-      console.log(`   Priority: ${job.priority}`);
-      console.log('');
-
-      // Test 4: Complete the job
-      console.log('4️⃣ Completing job...');
-      await jobQueue.complete(job.id);
-      console.log(`✅ Job completed\n`);
-    } else {
-      console.log('⚠️  No jobs in queue\n');
-    }
-
-    // Test 5: Email queue helper
-    console.log('5️⃣ Testing email queue helper...');
-    const emailJobId = await EmailQueue.send({
-      to: 'test@example.com',
-      subject: 'Test via EmailQueue',
-      html: '<p>Test</p>',
-      priority: 8,
-    });
+    // Test 4: Email queue helper
+    console.log('4️⃣ Testing email queue helper...');
+    const emailJobId = await EmailQueue.sendDelayed(
+      { to: 'test@example.com', subject: 'Test via EmailQueue', html: '<p>Test</p>', priority: 8 },
+      60 * 60 * 1000
+    );
     console.log(`✅ Email queued: ${emailJobId}\n`);
 
-    // Final stats
-    console.log('📊 Final queue stats:');
-    const finalStats = await jobQueue.getStats();
-    console.log(finalStats);
+    // Clean up so the test emails are never sent
+    await jobRuntime.deleteJob(first.id);
+    await jobRuntime.deleteJob(emailJobId);
 
     console.log('\n✅ All tests passed!');
   } catch (error: any) {
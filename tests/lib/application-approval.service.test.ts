@@ -33,6 +33,9 @@ const mockPrisma = {
   leaseTemplate: {
     findFirst: jest.fn(),
   },
+  jurisdictionRule: {
+    findMany: jest.fn().mockResolvedValue([]),
+  },
 };
 
 const mockResolveTemplateForProperty = jest.fn();
@@ -0,0 +1,354 @@
+/**
+ * Tests for the tamper-evident audit chain: canonical hashing, appending,
+ * detecting gaps and edits, before/after diffs, retention and signed exports
+ * Feature: audit-chain
+ */
+
+jest.mock('@/db/prisma', () => ({
+  prisma: {
+    auditLog: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+      groupBy: jest.fn(),
+    },
+    auditChainAnchor: { findUnique: jest.fn(), upsert: jest.fn() },
+    auditChainCheckpoint: { findUnique: jest.fn(), findMany: jest.fn(), upsert: jest.fn() },
+    $transaction: jest.fn(),
+  },
+}));
+
+import crypto from 'crypto';
+import { prisma } from '@/db/prisma';
+import {
+  appendAuditEntry,
+  applyAuditRetention,
+  canonicalJson,
+  checkChainSegment,
+  computeContentHash,
+  computeEntryHash,
+  computePayloadHash,
+  diffRecords,
+  GENESIS_HASH,
+  PLATFORM_CHAIN,
+  retentionPolicyFor,
+  signAuditExport,
+  verifyAllAuditChains,
+  verifyAuditChain,
+  verifyAuditExportSignature,
+  type AuditExportDocument,
+  type AuditPayload,
+  type ChainedAuditRow,
+} from '@/lib/security/audit-chain';
+
+const db = prisma as unknown as {
+  auditLog: Record<string, jest.Mock>;
+  auditChainAnchor: Record<string, jest.Mock>;
+  auditChainCheckpoint: Record<string, jest.Mock>;
+  $transaction: jest.Mock;
+};
+
+function payload(overrides: Partial<AuditPayload> = {}): AuditPayload {
+  return {
+    action: 'PAYMENT_COMPLETED',
+    userId: 'user-1',
+    landlordId: 'landlord-1',
+    resourceType: 'transaction',
+    resourceId: 'pi_123',
+    metadata: null,
+    details: { amount: 1500, currency: 'USD' },
+    changes: { status: { from: 'pending', to: 'paid' } },
+    ipAddress: '10.0.0.1',
+    userAgent: 'jest',
+    severity: 'INFO',
+    ...overrides,
+  };
+}
+
+/** A valid chain of `count` rows for landlord-1 */
+function buildChain(count: number, action = 'PAYMENT_COMPLETED'): ChainedAuditRow[] {
+  const rows: ChainedAuditRow[] = [];
+  let prevHash = GENESIS_HASH;
+  for (let sequence = 1; sequence <= count; sequence++) {
+    const content = payload({ action, details: { amount: sequence * 100 } });
+    const createdAt = new Date(Date.UTC(2026, 2, 1, 9, sequence));
+    const contentHash = computeContentHash(content);
+    const hash = computeEntryHash({ chainKey: 'landlord-1', sequence, prevHash, contentHash, createdAt });
+    rows.push({
+      id: `entry-${sequence}`,
+      ...content,
+      chainKey: 'landlord-1',
+      sequence,
+      prevHash,
+      payloadHash: computePayloadHash(content),
+      contentHash,
+      hash,
+      redactedAt: null,
+      createdAt,
+    } as ChainedAuditRow);
+    prevHash = hash;
+  }
+  return rows;
+}
+
+const genesis = { sequence: 0, hash: GENESIS_HASH };
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('canonicalJson', () => {
+  it('ignores key order and drops undefined values', () => {
+    expect(canonicalJson({ b: 1, a: { d: [1, { z: 1, y: 2 }], c: undefined } })).toBe(
+      canonicalJson({ a: { d: [1, { y: 2, z: 1 }] }, b: 1 })
+    );
+    expect(canonicalJson({ at: new Date('2026-03-01T00:00:00Z') })).toBe('{"at":"2026-03-01T00:00:00.000Z"}');
+  });
+});
+
+describe('diffRecords', () => {
+  it('reports only changed fields, comparing dates and decimals by value', () => {
+    const decimal = (value: string) => ({ toJSON: () => value });
+    const before = { rentAmount: decimal('1500'), startDate: new Date('2026-01-01'), billingDayOfMonth: 1 };
+    const after = { rentAmount: decimal('1650'), startDate: new Date('2026-01-01'), billingDayOfMonth: 1 };
+
+    expect(diffRecords(before, after)).toEqual({ rentAmount: { from: '1500', to: '1650' } });
+    expect(diffRecords({ status: 'active' }, { status: 'terminated', extra: 1 }, ['status'])).toEqual({
+      status: { from: 'active', to: 'terminated' },
+    });
+  });
+});
+
+describe('appendAuditEntry', () => {
+  const tx = {
+    $executeRaw: jest.fn(),
+    auditLog: { findFirst: jest.fn(), create: jest.fn((args) => args.data) },
+    auditChainAnchor: { findUnique: jest.fn() },
+  };
+
+  it('links the entry to the head of its landlord chain', async () => {
+    tx.auditLog.findFirst.mockResolvedValueOnce({ sequence: 4, hash: 'a'.repeat(64) });
+
+    const entry = await appendAuditEntry(tx as never, {
+      action: 'LEDGER_ADJUSTMENT',
+      landlordId: 'landlord-1',
+      details: { amount: 25, at: new Date('2026-03-01T00:00:00Z') },
+    });
+
+    expect(tx.$executeRaw).toHaveBeenCalled();
+    expect(entry).toMatchObject({ chainKey: 'landlord-1', sequence: 5, prevHash: 'a'.repeat(64) });
+    expect(entry.details).toEqual({ amount: 25, at: '2026-03-01T00:00:00.000Z' });
+    expect(entry.hash).toBe(
+      computeEntryHash({
+        chainKey: 'landlord-1',
+        sequence: 5,
+        prevHash: 'a'.repeat(64),
+        contentHash: entry.contentHash,
+        createdAt: entry.createdAt,
+      })
+    );
+  });
+
+  it('starts platform entries from genesis, or from the retention anchor', async () => {
+    tx.auditLog.findFirst.mockResolvedValue(null);
+    tx.auditChainAnchor.findUnique.mockResolvedValueOnce(null).mockResolvedValueOnce({ sequence: 90, hash: 'b'.repeat(64) });
+
+    const first = await appendAuditEntry(tx as never, { action: 'ADMIN_ACTION' });
+    expect(first).toMatchObject({ chainKey: PLATFORM_CHAIN, sequence: 1, prevHash: GENESIS_HASH });
+
+    const resumed = await appendAuditEntry(tx as never, { action: 'ADMIN_ACTION' });
+    expect(resumed).toMatchObject({ sequence: 91, prevHash: 'b'.repeat(64) });
+  });
+});
+
+describe('checkChainSegment', () => {
+  it('accepts an untouched chain', () => {
+    const rows = buildChain(4);
+    const { issues, last } = checkChainSegment(rows, genesis);
+    expect(issues).toEqual([]);
+    expect(last).toEqual({ sequence: 4, hash: rows[3].hash });
+  });
+
+  it('detects an edited amount', () => {
+    const rows = buildChain(3);
+    rows[1] = { ...rows[1], details: { amount: 1 } };
+
+    expect(checkChainSegment(rows, genesis).issues).toEqual([
+      expect.objectContaining({ type: 'content_mismatch', sequence: 2 }),
+    ]);
+  });
+
+  it('detects a rewritten entry even when its hashes are recomputed', () => {
+    const rows = buildChain(3);
+    const details = { amount: 1 };
+    const contentHash = computeContentHash(payload({ details }));
+    const hash = computeEntryHash({ ...rows[1], chainKey: 'landlord-1', sequence: 2, prevHash: rows[0].hash!, contentHash });
+    rows[1] = { ...rows[1], details, contentHash, hash };
+
+    expect(checkChainSegment(rows, genesis).issues).toEqual([
+      expect.objectContaining({ type: 'broken_link', sequence: 3 }),
+    ]);
+  });
+
+  it('detects a deleted entry', () => {
+    const rows = buildChain(4);
+    rows.splice(1, 1);
+
+    expect(checkChainSegment(rows, genesis).issues).toEqual([
+      expect.objectContaining({ type: 'gap', sequence: 3, detail: 'Entries 2–2 are missing' }),
+    ]);
+  });
+
+  const redact = (row: ChainedAuditRow, afterDays: number): ChainedAuditRow => ({
+    ...row,
+    details: null,
+    changes: null,
+    ipAddress: null,
+    userAgent: null,
+    redactedAt: new Date(row.createdAt.getTime() + afterDays * 24 * 60 * 60 * 1000),
+  });
+
+  it('keeps redacted entries in the chain', () => {
+    const rows = buildChain(3, 'SETTINGS_CHANGED');
+    rows[0] = redact(rows[0], 800);
+
+    expect(checkChainSegment(rows, genesis).issues).toEqual([]);
+  });
+
+  it('detects edits to the fields a redacted entry keeps', () => {
+    const rows = buildChain(3, 'SETTINGS_CHANGED');
+    rows[0] = { ...redact(rows[0], 800), userId: 'someone-else' };
+    rows[1] = { ...redact(rows[1], 800), payloadHash: null };
+
+    expect(checkChainSegment(rows, genesis).issues).toEqual([
+      expect.objectContaining({ type: 'content_mismatch', sequence: 1 }),
+      expect.objectContaining({ type: 'content_mismatch', sequence: 2 }),
+    ]);
+  });
+
+  it('flags redactions the retention policy does not allow yet', () => {
+    const settings = buildChain(2, 'SETTINGS_CHANGED');
+    settings[1] = redact(settings[1], 10);
+    const payments = buildChain(1);
+    payments[0] = redact(payments[0], 5000);
+
+    expect(checkChainSegment(settings, genesis).issues).toEqual([
+      expect.objectContaining({ type: 'early_redaction', sequence: 2 }),
+    ]);
+    expect(checkChainSegment(payments, genesis).issues).toEqual([
+      expect.objectContaining({ type: 'early_redaction', detail: 'PAYMENT_COMPLETED entries are never redacted' }),
+    ]);
+  });
+});
+
+describe('chain checkpoints', () => {
+  const rows = buildChain(3);
+
+  beforeEach(() => {
+    db.auditLog.findFirst.mockResolvedValue({ sequence: 1 });
+    db.auditLog.findMany.mockResolvedValue(rows);
+    db.auditLog.findUnique.mockImplementation(({ where }) =>
+      Promise.resolve(rows.find((row) => row.sequence === where.chainKey_sequence.sequence) ?? null)
+    );
+  });
+
+  it('detects entries removed from the end of a chain', async () => {
+    db.auditChainCheckpoint.findUnique.mockResolvedValue({
+      chainKey: 'landlord-1',
+      sequence: 5,
+      hash: 'd'.repeat(64),
+      recordedAt: new Date('2026-03-08T04:45:00Z'),
+    });
+
+    const result = await verifyAuditChain('landlord-1');
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([expect.objectContaining({ type: 'truncated', sequence: 4 })]);
+  });
+
+  it('detects a tail rewritten with fresh hashes', async () => {
+    db.auditChainCheckpoint.findUnique.mockResolvedValue({ chainKey: 'landlord-1', sequence: 2, hash: 'd'.repeat(64), recordedAt: new Date() });
+
+    const result = await verifyAuditChain('landlord-1');
+
+    expect(result.issues).toEqual([expect.objectContaining({ type: 'checkpoint_mismatch', sequence: 2 })]);
+  });
+
+  it('moves the checkpoint to the head of chains that verify', async () => {
+    db.auditLog.groupBy.mockResolvedValue([{ chainKey: 'landlord-1', _count: { _all: 3 }, _max: { sequence: 3, createdAt: new Date() } }]);
+    db.auditChainCheckpoint.findMany.mockResolvedValue([]);
+    db.auditChainCheckpoint.findUnique.mockResolvedValue({ chainKey: 'landlord-1', sequence: 2, hash: rows[1].hash, recordedAt: new Date() });
+
+    const [result] = await verifyAllAuditChains();
+
+    expect(result.valid).toBe(true);
+    expect(db.auditChainCheckpoint.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ update: expect.objectContaining({ sequence: 3, hash: rows[2].hash }) })
+    );
+  });
+});
+
+describe('retention', () => {
+  it('keeps financial and lease payloads, redacts auth and other entries', () => {
+    expect(retentionPolicyFor('PAYOUT_COMPLETED')).toMatchObject({ name: 'financial', redactAfterDays: null });
+    expect(retentionPolicyFor('LEASE_MODIFIED')).toMatchObject({ name: 'lease', redactAfterDays: null });
+    expect(retentionPolicyFor('AUTH_LOGIN')).toMatchObject({ name: 'auth', redactAfterDays: 365 });
+    expect(retentionPolicyFor('SETTINGS_CHANGED').name).toBe('default');
+  });
+
+  it('moves the chain anchor forward when deleting old entries', async () => {
+    const tx = {
+      $executeRaw: jest.fn(),
+      auditLog: {
+        findFirst: jest.fn().mockResolvedValue({ sequence: 40, hash: 'c'.repeat(64) }),
+        deleteMany: jest.fn().mockResolvedValue({ count: 40 }),
+      },
+      auditChainAnchor: { upsert: jest.fn() },
+    };
+    db.auditLog.updateMany.mockResolvedValue({ count: 2 });
+    db.auditLog.groupBy.mockResolvedValue([{ chainKey: 'landlord-1' }]);
+    db.auditLog.deleteMany.mockResolvedValue({ count: 3 });
+    db.$transaction.mockImplementation((fn: (client: typeof tx) => unknown) => fn(tx));
+
+    await expect(applyAuditRetention(new Date('2033-06-01T00:00:00Z'))).resolves.toEqual({ redacted: 4, deleted: 43 });
+    expect(tx.auditLog.deleteMany).toHaveBeenCalledWith({ where: { chainKey: 'landlord-1', sequence: { lte: 40 } } });
+    expect(tx.auditChainAnchor.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: expect.objectContaining({ chainKey: 'landlord-1', sequence: 40, hash: 'c'.repeat(64), prunedCount: 40 }),
+      })
+    );
+  });
+});
+
+describe('signed export', () => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+  const trusted = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+  const document = {
+    format: 'audit-log-export/v1',
+    generatedAt: '2026-03-02T00:00:00.000Z',
+    generatedBy: 'admin-1',
+    chainKey: 'landlord-1',
+    range: { from: null, to: null },
+    hashing: 'sha256',
+    previous: genesis,
+    entries: [{ id: 'entry-1', sequence: 1 }],
+    verification: { chainKey: 'landlord-1', valid: true, checked: 1, redacted: 0, firstSequence: 1, lastSequence: 1, headHash: 'x', issues: [] },
+  } as AuditExportDocument;
+
+  it('verifies against the trusted key and rejects edits', () => {
+    const signed = signAuditExport(document, privateKey);
+    expect(verifyAuditExportSignature(signed, trusted)).toBe(true);
+
+    const edited = { ...signed, document: { ...document, entries: [{ id: 'entry-1', sequence: 2 }] } };
+    expect(verifyAuditExportSignature(edited, trusted)).toBe(false);
+  });
+
+  it('rejects a signature from another key', () => {
+    const other = crypto.generateKeyPairSync('ed25519');
+    const signed = signAuditExport(document, other.privateKey);
+    expect(verifyAuditExportSignature(signed, trusted)).toBe(false);
+  });
+});
@@ -0,0 +1,300 @@
+/**
+ * Tests for bank statement import and reconciliation: OFX/CSV parsing,
+ * de-duplication keys, match scoring, auto-matching and period close
+ * Feature: bank-reconciliation
+ */
+
+jest.mock('@/db/prisma', () => ({
+  prisma: {
+    propertyBankAccount: { findMany: jest.fn() },
+    financialAccount: { findMany: jest.fn() },
+    bankStatementLine: { findMany: jest.fn(), findUnique: jest.fn(), update: jest.fn() },
+    reconciliationPeriod: { findFirst: jest.fn() },
+    rentPayment: { findMany: jest.fn() },
+    payout: { findMany: jest.fn() },
+    walletTransaction: { findMany: jest.fn() },
+    expense: { findMany: jest.fn() },
+    contractorExpense: { findMany: jest.fn() },
+    $transaction: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/security/audit-logger', () => ({ logAuditEvent: jest.fn() }));
+
+import { prisma } from '@/db/prisma';
+import { logAuditEvent } from '@/lib/security/audit-logger';
+import {
+  parseAmount,
+  parseBankStatement,
+  parseStatementDate,
+  StatementParseError,
+  withDedupeKeys,
+} from '@/lib/services/bank-statement-parser';
+import {
+  closeReconciliationPeriod,
+  pickMatches,
+  ReconciliationError,
+  scoreMatch,
+  updateStatementLine,
+  type MatchCandidate,
+  type StatementLineForMatching,
+} from '@/lib/services/bank-reconciliation.service';
+
+const db = prisma as unknown as Record<string, Record<string, jest.Mock>> & { $transaction: jest.Mock };
+
+const OFX = `OFXHEADER:100
+DATA:OFXSGML
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<BANKTRANLIST>
+<DTSTART>20260301
+<DTEND>20260331
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20260303120000[-5:EST]
+<TRNAMT>1500.00
+<FITID>2026030301
+<NAME>STRIPE TRANSFER
+<MEMO>po_123
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CHECK
+<DTPOSTED>20260310
+<TRNAMT>-245.10
+<FITID>2026031002
+<CHECKNUM>1042
+<NAME>ACE PLUMBING &amp; HEAT
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL><BALAMT>8254.90<DTASOF>20260331</LEDGERBAL>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+const landlord = { type: 'landlord' as const, landlordId: 'landlord-1' };
+const accountKey = 'property_bank_account:bank-1';
+
+function line(overrides: Partial<StatementLineForMatching> = {}): StatementLineForMatching {
+  return {
+    id: 'line-1',
+    postedAt: new Date('2026-03-03T00:00:00Z'),
+    amount: 1500,
+    description: 'STRIPE TRANSFER',
+    reference: null,
+    ...overrides,
+  };
+}
+
+function candidate(overrides: Partial<MatchCandidate> = {}): MatchCandidate {
+  return {
+    type: 'payout',
+    id: 'payout-1',
+    amount: 1500,
+    date: new Date('2026-03-02T00:00:00Z'),
+    reference: null,
+    label: 'Payout',
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  db.propertyBankAccount.findMany.mockResolvedValue([
+    { id: 'bank-1', propertyId: 'property-1', bankName: 'Chase', last4: '6789', property: { name: 'Elm St' } },
+  ]);
+  db.financialAccount.findMany.mockResolvedValue([]);
+});
+
+describe('statement parsing', () => {
+  it('reads OFX transactions, statement dates and the ledger balance', () => {
+    const statement = parseBankStatement('march.qfx', OFX);
+
+    expect(statement.format).toBe('qfx');
+    expect(statement.lines).toEqual([
+      expect.objectContaining({ amount: 1500, description: 'STRIPE TRANSFER — po_123', fitId: '2026030301' }),
+      expect.objectContaining({ amount: -245.1, description: 'ACE PLUMBING & HEAT', reference: '1042' }),
+    ]);
+    expect(statement.lines[0].postedAt.toISOString()).toBe('2026-03-03T00:00:00.000Z');
+    expect(statement.statementEnd?.toISOString()).toBe('2026-03-31T00:00:00.000Z');
+    expect(statement.closingBalance).toBe(8254.9);
+  });
+
+  it('finds the CSV header below preamble rows and combines debit and credit columns', () => {
+    const csv = [
+      'Account,Business Checking ****6789',
+      '',
+      'Posting Date,Description,Debit,Credit,Check Number',
+      '03/05/2026,"HOME DEPOT #123, AUSTIN","$1,204.33",,',
+      '03/06/2026,Tenant deposit,,950.00,',
+      'not a date,ignored,1,,',
+    ].join('\n');
+
+    const statement = parseBankStatement('export.csv', csv);
+    expect(statement.format).toBe('csv');
+    expect(statement.lines.map((entry) => [entry.postedAt.toISOString().slice(0, 10), entry.amount, entry.description])).toEqual([
+      ['2026-03-05', -1204.33, 'HOME DEPOT #123, AUSTIN'],
+      ['2026-03-06', 950, 'Tenant deposit'],
+    ]);
+  });
+
+  it('rejects files without a usable header', () => {
+    expect(() => parseBankStatement('notes.csv', 'hello,world\n1,2')).toThrow(StatementParseError);
+  });
+
+  it('parses the amount and date formats banks export', () => {
+    expect(parseAmount('(45.00)')).toBe(-45);
+    expect(parseAmount('45.00-')).toBe(-45);
+    expect(parseAmount('1.234,50')).toBe(1234.5);
+    expect(parseAmount('abc')).toBeNull();
+    expect(parseStatementDate('2/30/2026')).toBeNull();
+    expect(parseStatementDate('3/1/26')?.toISOString()).toBe('2026-03-01T00:00:00.000Z');
+  });
+
+  it('keys OFX lines by FITID and keeps identical CSV lines apart', () => {
+    const base = { postedAt: new Date('2026-03-05T00:00:00Z'), amount: -4.5, description: 'COFFEE', reference: null };
+    const keyed = withDedupeKeys([
+      { ...base, fitId: 'abc' },
+      { ...base, fitId: null },
+      { ...base, fitId: null },
+    ]);
+
+    expect(keyed[0].dedupeKey).toBe('fitid:abc');
+    expect(keyed[1].dedupeKey).not.toBe(keyed[2].dedupeKey);
+    // The same file imported again produces the same keys
+    expect(withDedupeKeys([{ ...base, fitId: null }])[0].dedupeKey).toBe(keyed[1].dedupeKey);
+  });
+});
+
+describe('scoreMatch', () => {
+  it('requires the same amount within the window', () => {
+    expect(scoreMatch(line(), candidate({ amount: 1499.99 }))).toBe(0);
+    expect(scoreMatch(line(), candidate({ date: new Date('2026-03-20T00:00:00Z') }))).toBe(0);
+  });
+
+  it('prefers closer dates and a matching reference', () => {
+    const sameDay = scoreMatch(line(), candidate({ date: new Date('2026-03-03T00:00:00Z') }));
+    const dayApart = scoreMatch(line(), candidate());
+    const withReference = scoreMatch(line({ description: 'STRIPE TRANSFER po_123' }), candidate({ reference: 'po_123' }));
+
+    expect(sameDay).toBe(0.9);
+    expect(dayApart).toBeLessThan(sameDay);
+    expect(withReference).toBeGreaterThan(dayApart);
+  });
+});
+
+describe('pickMatches', () => {
+  it('auto-matches a clear winner', () => {
+    const { matches, suggestions } = pickMatches(
+      [line()],
+      [candidate(), candidate({ id: 'payout-2', date: new Date('2026-03-09T00:00:00Z') })]
+    );
+
+    expect(matches.get('line-1')).toMatchObject({ id: 'payout-1' });
+    expect(suggestions.size).toBe(0);
+  });
+
+  it('leaves two equally good candidates as suggestions', () => {
+    const { matches, suggestions } = pickMatches([line()], [candidate(), candidate({ id: 'payout-2' })]);
+
+    expect(matches.size).toBe(0);
+    expect(suggestions.get('line-1')?.map((entry) => entry.id)).toEqual(['payout-1', 'payout-2']);
+  });
+
+  it("doesn't hand one record to either of two identical lines", () => {
+    const { matches, suggestions } = pickMatches([line(), line({ id: 'line-2' })], [candidate()]);
+
+    expect(matches.size).toBe(0);
+    expect(suggestions.get('line-2')).toHaveLength(1);
+  });
+});
+
+describe('updateStatementLine', () => {
+  it('rejects changes to lines in a closed period', async () => {
+    db.bankStatementLine.findUnique.mockResolvedValue({ id: 'line-1', accountKey, periodId: 'period-1', amount: 10 });
+
+    await expect(updateStatementLine(landlord, 'line-1', { action: 'unmatch' }, 'user-1')).rejects.toMatchObject({
+      code: 'INVALID_STATE',
+    });
+  });
+
+  it("rejects lines on another landlord's account", async () => {
+    db.bankStatementLine.findUnique.mockResolvedValue({ id: 'line-1', accountKey: 'property_bank_account:other', periodId: null });
+
+    await expect(updateStatementLine(landlord, 'line-1', { action: 'unmatch' }, 'user-1')).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+    });
+  });
+});
+
+describe('closeReconciliationPeriod', () => {
+  const period = {
+    periodStart: new Date('2026-03-01T00:00:00Z'),
+    periodEnd: new Date('2026-03-31T00:00:00Z'),
+    closingBalance: 8254.9,
+  };
+  const statementLine = (overrides: Record<string, unknown>) => ({
+    id: 'line-1',
+    postedAt: new Date('2026-03-03T00:00:00Z'),
+    amount: 1500,
+    description: 'STRIPE TRANSFER',
+    reference: null,
+    status: 'matched',
+    matchType: null,
+    matchId: null,
+    matchMethod: 'auto',
+    note: null,
+    ...overrides,
+  });
+
+  it('needs an opening balance for the first period', async () => {
+    db.reconciliationPeriod.findFirst.mockResolvedValue(null);
+
+    await expect(closeReconciliationPeriod(landlord, accountKey, period, 'user-1')).rejects.toThrow('Opening balance');
+  });
+
+  it('refuses to overlap a closed period', async () => {
+    db.reconciliationPeriod.findFirst.mockResolvedValue({ periodEnd: new Date('2026-03-15T00:00:00Z'), closingBalance: 7000 });
+
+    await expect(closeReconciliationPeriod(landlord, accountKey, period, 'user-1')).rejects.toMatchObject({
+      code: 'INVALID_STATE',
+    });
+  });
+
+  it('refuses while lines are unresolved or the balance is off', async () => {
+    db.reconciliationPeriod.findFirst.mockResolvedValue(null);
+    db.bankStatementLine.findMany.mockResolvedValueOnce([statementLine({ status: 'suggested' })]);
+
+    await expect(
+      closeReconciliationPeriod(landlord, accountKey, { ...period, openingBalance: 7000 }, 'user-1')
+    ).rejects.toThrow('1 line still needs to be matched or excluded');
+
+    db.bankStatementLine.findMany.mockResolvedValueOnce([statementLine({})]);
+    await expect(
+      closeReconciliationPeriod(landlord, accountKey, { ...period, openingBalance: 7000 }, 'user-1')
+    ).rejects.toThrow(ReconciliationError);
+  });
+
+  it('stores a hashed report, locks the lines and logs the close', async () => {
+    const tx = {
+      reconciliationPeriod: { create: jest.fn((args) => ({ id: 'period-1', ...args.data })) },
+      bankStatementLine: { updateMany: jest.fn().mockResolvedValue({ count: 2 }) },
+    };
+    db.reconciliationPeriod.findFirst.mockResolvedValue({ periodEnd: new Date('2026-02-28T00:00:00Z'), closingBalance: 7000 });
+    db.bankStatementLine.findMany.mockResolvedValueOnce([
+      statementLine({}),
+      statementLine({ id: 'line-2', amount: -245.1, status: 'excluded', note: 'Transfer to savings' }),
+    ]);
+    db.$transaction.mockImplementation((fn: (client: typeof tx) => unknown) => fn(tx));
+
+    const closed = await closeReconciliationPeriod(landlord, accountKey, period, 'user-1');
+
+    expect(closed).toMatchObject({ openingBalance: 7000, clearedDeposits: 1500, clearedWithdrawals: 0, lineCount: 2 });
+    expect(closed.reportHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(closed.report).toMatchObject({ excluded: { count: 1, total: -245.1 } });
+    expect(tx.bankStatementLine.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { periodId: 'period-1' } })
+    );
+    expect(logAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'RECONCILIATION_CLOSED', resourceId: 'period-1' })
+    );
+  });
+});
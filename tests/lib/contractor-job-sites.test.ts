@@ -0,0 +1,114 @@
+/**
+ * Tests for job-site geofences from the job's address: a job created through
+ * the contractor jobs API is geocoded, and clock-in checks against it
+ * Feature: crew-tracking
+ */
+
+jest.mock('@/db/prisma', () => ({
+  prisma: {
+    contractorProfile: { findUnique: jest.fn() },
+    contractorJob: { findFirst: jest.fn(), create: jest.fn(), update: jest.fn() },
+    zipCentroid: { findUnique: jest.fn() },
+  },
+}));
+jest.mock('@/auth', () => ({ auth: jest.fn() }));
+jest.mock('@/lib/event-system', () => ({ eventBus: { emit: jest.fn() } }));
+jest.mock('@/lib/contractor-auth', () => ({ resolveContractorAuth: jest.fn(), can: () => true }));
+jest.mock('@/lib/services/contractor-feature-gate', () => ({ checkLimit: jest.fn() }));
+jest.mock('@/lib/services/contractor-usage-tracker', () => ({ incrementJobCount: jest.fn() }));
+jest.mock('@/lib/middleware/contractor-background-ops', () => ({ runBackgroundOps: jest.fn() }));
+
+import { prisma } from '@/db/prisma';
+import { auth } from '@/auth';
+import { resolveContractorAuth } from '@/lib/contractor-auth';
+import { checkLimit } from '@/lib/services/contractor-feature-gate';
+import { checkClockInGeofence } from '@/lib/services/crew-tracking.service';
+import { POST } from '@/app/api/contractor/jobs/route';
+import { PATCH } from '@/app/api/contractor/jobs/[id]/route';
+
+const db = prisma as unknown as Record<string, Record<string, jest.Mock>>;
+const CONTRACTOR_ID = 'contractor-1';
+const SITE = { lat: 36.1699, lng: -115.1398 };
+
+function googleResponse(locationType: string) {
+  return new Response(
+    JSON.stringify({
+      status: 'OK',
+      results: [{ geometry: { location: SITE, location_type: locationType }, address_components: [] }],
+    })
+  );
+}
+
+async function createJob() {
+  const response = await POST(
+    new Request('http://localhost/api/contractor/jobs', {
+      method: 'POST',
+      body: JSON.stringify({ title: 'Water heater', address: '400 Fremont St', city: 'Las Vegas', state: 'NV', zipCode: '89101' }),
+    })
+  );
+  expect(response.status).toBe(201);
+  return db.contractorJob.create.mock.calls[0][0].data;
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  process.env.GOOGLE_MAPS_SERVER_KEY = 'test-key';
+  (auth as jest.Mock).mockResolvedValue({ user: { id: 'user-1' } });
+  (resolveContractorAuth as jest.Mock).mockResolvedValue({ contractorId: CONTRACTOR_ID });
+  (checkLimit as jest.Mock).mockResolvedValue({ allowed: true });
+  db.contractorProfile.findUnique.mockResolvedValue({ id: CONTRACTOR_ID, geofenceRadiusMeters: 150, geofenceClockInMode: 'reject' });
+  db.contractorJob.findFirst.mockResolvedValue(null);
+  db.contractorJob.create.mockImplementation(async ({ data }) => ({ id: 'job-1', ...data }));
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  delete process.env.GOOGLE_MAPS_SERVER_KEY;
+});
+
+describe('job sites', () => {
+  it('geocodes a new job and fences clock-ins at its address', async () => {
+    jest.spyOn(global, 'fetch').mockResolvedValue(googleResponse('ROOFTOP'));
+
+    const data = await createJob();
+    expect(data.coordinates).toEqual(SITE);
+
+    db.contractorJob.findFirst.mockResolvedValue({ id: 'job-1', coordinates: data.coordinates, geofenceRadiusMeters: null });
+    const onSite = await checkClockInGeofence(CONTRACTOR_ID, 'job-1', { lat: SITE.lat + 0.0005, lng: SITE.lng });
+    expect(onSite.check).toMatchObject({ status: 'inside', decision: 'allow' });
+    await expect(checkClockInGeofence(CONTRACTOR_ID, 'job-1', { lat: SITE.lat + 0.01, lng: SITE.lng })).rejects.toThrow(
+      'from the job site'
+    );
+  });
+
+  it('leaves the site unset when only a ZIP or city centroid is known', async () => {
+    jest.spyOn(global, 'fetch').mockResolvedValue(googleResponse('APPROXIMATE'));
+
+    const data = await createJob();
+    expect(data.coordinates).toBeUndefined();
+
+    db.contractorJob.findFirst.mockResolvedValue({ id: 'job-1', coordinates: null, geofenceRadiusMeters: null });
+    const result = await checkClockInGeofence(CONTRACTOR_ID, 'job-1', SITE);
+    expect(result.check).toEqual({ status: 'no_site', distanceMeters: null, decision: 'allow' });
+  });
+
+  it('only accepts a whole-meter radius override within bounds', async () => {
+    (auth as jest.Mock).mockResolvedValue({ user: { id: 'user-1', role: 'contractor' } });
+    db.contractorJob.findFirst.mockResolvedValue({ id: 'job-1', status: 'scheduled' });
+    db.contractorJob.update.mockImplementation(async ({ data }) => ({ id: 'job-1', status: 'scheduled', ...data }));
+    const patch = (geofenceRadiusMeters: unknown) =>
+      PATCH(new Request('http://localhost/api/contractor/jobs/job-1', { method: 'PATCH', body: JSON.stringify({ geofenceRadiusMeters }) }), {
+        params: Promise.resolve({ id: 'job-1' }),
+      });
+
+    for (const radius of ['far', -50, 0, 12.5, 100000]) {
+      expect((await patch(radius)).status).toBe(400);
+    }
+    expect(db.contractorJob.update).not.toHaveBeenCalled();
+
+    expect((await patch(300)).status).toBe(200);
+    expect(db.contractorJob.update.mock.calls[0][0].data.geofenceRadiusMeters).toBe(300);
+    expect((await patch(null)).status).toBe(200);
+    expect(db.contractorJob.update.mock.calls[1][0].data.geofenceRadiusMeters).toBeNull();
+  });
+});
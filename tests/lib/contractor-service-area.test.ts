@@ -0,0 +1,241 @@
+/**
+ * Tests for geocoded contractor service areas: location parsing, ZIP/city
+ * centroid lookup, area geometry and radius search
+ * Feature: contractor-service-areas
+ */
+
+jest.mock('@/db/prisma', () => ({
+  prisma: {
+    zipCentroid: { findUnique: jest.fn(), findMany: jest.fn() },
+    contractorProfile: { findMany: jest.fn() },
+    contractorServiceArea: { findMany: jest.fn() },
+  },
+}));
+
+import { prisma } from '@/db/prisma';
+import { distanceMiles, geocodeLocation, normalizeState, parseLocationQuery } from '@/lib/services/geocoding';
+import {
+  buildProfileServiceAreas,
+  distanceToAreaMiles,
+  findContractorsNear,
+  pointInPolygon,
+  ServiceAreaError,
+  validatePolygon,
+} from '@/lib/services/contractor-service-area.service';
+
+const db = prisma as unknown as Record<string, Record<string, jest.Mock>>;
+
+const LAS_VEGAS = { lat: 36.1699, lng: -115.1398 };
+const HENDERSON = { lat: 36.0395, lng: -114.9817 };
+const RENO = { lat: 39.5296, lng: -119.8138 };
+
+// Rough box around central Las Vegas
+const STRIP_POLYGON: [number, number][] = [
+  [36.25, -115.25],
+  [36.25, -115.05],
+  [36.08, -115.05],
+  [36.08, -115.25],
+];
+
+function zipRow(zip: string, city: string, state: string, point: { lat: number; lng: number }) {
+  return { zip, city, state, latitude: point.lat, longitude: point.lng };
+}
+
+function radiusArea(contractorId: string, center: { lat: number; lng: number }, radiusMiles: number, base: { lat: number; lng: number } | null) {
+  return {
+    contractorId,
+    kind: 'radius',
+    latitude: center.lat,
+    longitude: center.lng,
+    radiusMiles,
+    polygon: null,
+    contractor: { baseLatitude: base?.lat ?? null, baseLongitude: base?.lng ?? null },
+  };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  delete process.env.GOOGLE_MAPS_SERVER_KEY;
+});
+
+describe('parseLocationQuery', () => {
+  it('reads a bare ZIP, including ZIP+4', () => {
+    expect(parseLocationQuery('89101')).toEqual({ zip: '89101', city: null, state: null });
+    expect(parseLocationQuery('89101-1234').zip).toBe('89101');
+  });
+
+  it('splits city and state with or without a comma', () => {
+    expect(parseLocationQuery('Henderson, NV')).toEqual({ zip: null, city: 'Henderson', state: 'NV' });
+    expect(parseLocationQuery('Las Vegas Nevada')).toEqual({ zip: null, city: 'Las Vegas', state: 'NV' });
+    expect(parseLocationQuery('Kansas City, Missouri')).toEqual({ zip: null, city: 'Kansas City', state: 'MO' });
+  });
+
+  it('pulls city, state and ZIP out of a full address', () => {
+    expect(parseLocationQuery('123 Main St, Reno, NV 89501')).toEqual({ zip: '89501', city: 'Reno', state: 'NV' });
+  });
+
+  it('treats a lone state as a state and anything else as a city', () => {
+    expect(parseLocationQuery('Texas')).toEqual({ zip: null, city: null, state: 'TX' });
+    expect(parseLocationQuery('Summerlin')).toEqual({ zip: null, city: 'Summerlin', state: null });
+  });
+});
+
+describe('normalizeState', () => {
+  it('accepts codes and names in any case', () => {
+    expect(normalizeState('nv')).toBe('NV');
+    expect(normalizeState('New  Mexico')).toBe('NM');
+    expect(normalizeState('Atlantis')).toBeNull();
+    expect(normalizeState(null)).toBeNull();
+  });
+});
+
+describe('geocodeLocation', () => {
+  it('resolves a ZIP from the centroid table', async () => {
+    db.zipCentroid.findUnique.mockResolvedValue(zipRow('89101', 'Las Vegas', 'NV', LAS_VEGAS));
+
+    const result = await geocodeLocation('89101');
+
+    expect(result).toMatchObject({ ...LAS_VEGAS, source: 'zip_centroid', precision: 'zip', spreadMiles: 0 });
+  });
+
+  it('averages a city\'s ZIPs and reports how far they spread', async () => {
+    db.zipCentroid.findMany.mockResolvedValue([
+      zipRow('89101', 'Las Vegas', 'NV', { lat: 36.1, lng: -115.1 }),
+      zipRow('89102', 'Las Vegas', 'NV', { lat: 36.2, lng: -115.2 }),
+    ]);
+
+    const result = await geocodeLocation('Las Vegas, NV');
+
+    expect(result?.lat).toBeCloseTo(36.15);
+    expect(result?.lng).toBeCloseTo(-115.15);
+    expect(result?.precision).toBe('city');
+    expect(result?.spreadMiles).toBeGreaterThan(4);
+    expect(db.zipCentroid.findMany).toHaveBeenCalledWith({
+      where: { city: { equals: 'Las Vegas', mode: 'insensitive' }, state: 'NV' },
+    });
+  });
+
+  it('picks the state with the most ZIPs for an ambiguous city', async () => {
+    db.zipCentroid.findMany.mockResolvedValue([
+      zipRow('62701', 'Springfield', 'IL', { lat: 39.8, lng: -89.6 }),
+      zipRow('62702', 'Springfield', 'IL', { lat: 39.82, lng: -89.64 }),
+      zipRow('65801', 'Springfield', 'MO', { lat: 37.2, lng: -93.3 }),
+    ]);
+
+    expect((await geocodeLocation('Springfield'))?.state).toBe('IL');
+  });
+
+  it('falls back to the ZIP centroid for a street address without an API key', async () => {
+    db.zipCentroid.findUnique.mockResolvedValue(zipRow('89501', 'Reno', 'NV', RENO));
+
+    const result = await geocodeLocation('123 Main St, Reno, NV 89501');
+
+    expect(result).toMatchObject({ ...RENO, source: 'zip_centroid' });
+  });
+
+  it('returns null for places it cannot find', async () => {
+    db.zipCentroid.findMany.mockResolvedValue([]);
+    expect(await geocodeLocation('Nowhere Special')).toBeNull();
+  });
+});
+
+describe('area geometry', () => {
+  it('finds points inside and outside a polygon', () => {
+    expect(pointInPolygon(LAS_VEGAS, STRIP_POLYGON)).toBe(true);
+    expect(pointInPolygon(HENDERSON, STRIP_POLYGON)).toBe(false);
+  });
+
+  it('measures to the edge of a radius area, 0 inside it', () => {
+    const circle = { kind: 'radius' as const, latitude: LAS_VEGAS.lat, longitude: LAS_VEGAS.lng, radiusMiles: 5 };
+    const apart = distanceMiles(LAS_VEGAS, HENDERSON);
+
+    expect(apart).toBeGreaterThan(10);
+    expect(apart).toBeLessThan(15);
+    expect(distanceToAreaMiles(LAS_VEGAS, circle)).toBe(0);
+    expect(distanceToAreaMiles(HENDERSON, circle)).toBeCloseTo(apart - 5);
+  });
+
+  it('measures to the nearest polygon edge', () => {
+    const polygon = { kind: 'polygon' as const, polygon: STRIP_POLYGON };
+    expect(distanceToAreaMiles(LAS_VEGAS, polygon)).toBe(0);
+
+    // Due south of the bottom edge by 0.1 degrees of latitude, about 6.9 miles
+    expect(distanceToAreaMiles({ lat: 35.98, lng: -115.15 }, polygon)).toBeCloseTo(6.9, 0);
+  });
+
+  it('validates polygons and drops a closing point', () => {
+    expect(validatePolygon([...STRIP_POLYGON, STRIP_POLYGON[0]])).toHaveLength(4);
+    expect(() => validatePolygon([[36, -115], [37, -115]])).toThrow(ServiceAreaError);
+    expect(() => validatePolygon([[36, -115], [37, -115], [95, -115]])).toThrow(ServiceAreaError);
+    expect(() => validatePolygon('not a polygon')).toThrow(ServiceAreaError);
+  });
+});
+
+describe('buildProfileServiceAreas', () => {
+  it('draws the base circle at the service radius and a circle per listed ZIP', async () => {
+    db.zipCentroid.findUnique.mockImplementation(({ where }: { where: { zip: string } }) =>
+      Promise.resolve(
+        where.zip === '89101'
+          ? zipRow('89101', 'Las Vegas', 'NV', LAS_VEGAS)
+          : where.zip === '89002'
+            ? zipRow('89002', 'Henderson', 'NV', HENDERSON)
+            : null
+      )
+    );
+    db.zipCentroid.findMany.mockResolvedValue([]);
+
+    const { base, areas, unresolved } = await buildProfileServiceAreas({
+      baseZip: '89101',
+      baseCity: 'Las Vegas',
+      baseState: 'NV',
+      serviceRadius: 30,
+      serviceAreas: ['89002', 'Atlantis'],
+    });
+
+    expect(base).toMatchObject(LAS_VEGAS);
+    expect(areas).toEqual([
+      { label: 'Base location', source: 'zip_centroid', shape: expect.objectContaining({ kind: 'radius', radiusMiles: 30 }) },
+      { label: '89002', source: 'zip_centroid', shape: expect.objectContaining({ kind: 'radius', radiusMiles: 5 }) },
+    ]);
+    expect(unresolved).toEqual(['Atlantis']);
+    // Bare city names are looked up in the contractor's own state
+    expect(db.zipCentroid.findMany).toHaveBeenCalledWith({
+      where: { city: { equals: 'Atlantis', mode: 'insensitive' }, state: 'NV' },
+    });
+  });
+});
+
+describe('findContractorsNear', () => {
+  it('keeps contractors based within the radius and anyone whose area covers the point', async () => {
+    db.contractorProfile.findMany.mockResolvedValue([
+      { id: 'local', baseLatitude: HENDERSON.lat, baseLongitude: HENDERSON.lng },
+      // Inside the bounding box but beyond the radius
+      { id: 'corner', baseLatitude: LAS_VEGAS.lat + 0.2, baseLongitude: LAS_VEGAS.lng + 0.25 },
+    ]);
+    db.contractorServiceArea.findMany.mockResolvedValue([
+      // Based in Reno but covers Las Vegas
+      radiusArea('travelling', LAS_VEGAS, 10, RENO),
+      // Area reaches toward Las Vegas but not over it
+      radiusArea('nearby-area', HENDERSON, 2, RENO),
+      radiusArea('local', HENDERSON, 25, HENDERSON),
+    ]);
+
+    const results = await findContractorsNear(LAS_VEGAS, 15);
+
+    expect([...results.keys()].sort()).toEqual(['local', 'travelling']);
+    expect(results.get('local')).toMatchObject({ servesLocation: true });
+    expect(results.get('local')!.distanceMiles).toBeCloseTo(distanceMiles(LAS_VEGAS, HENDERSON), 0);
+    expect(results.get('travelling')).toMatchObject({ servesLocation: true });
+    expect(results.get('travelling')!.distanceMiles).toBeGreaterThan(300);
+  });
+
+  it('measures to the nearest area for contractors without a base location', async () => {
+    db.contractorProfile.findMany.mockResolvedValue([]);
+    db.contractorServiceArea.findMany.mockResolvedValue([radiusArea('no-base', HENDERSON, 2, null)]);
+
+    const results = await findContractorsNear(LAS_VEGAS, 15);
+
+    expect(results.get('no-base')).toMatchObject({ servesLocation: false });
+    expect(results.get('no-base')!.distanceMiles).toBeCloseTo(distanceMiles(LAS_VEGAS, HENDERSON) - 2, 0);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Tests for job-site geofences, arrival/departure detection from GPS
+ * breadcrumbs, clock-in checks and route summaries
+ * Feature: crew-tracking
+ */
+
+jest.mock('@/db/prisma', () => ({ prisma: {} }));
+jest.mock('@/lib/event-system', () => ({ eventBus: { emit: jest.fn() } }));
+
+import {
+  detectSiteTransitions,
+  evaluateClockIn,
+  parseLocationFixes,
+  summarizeRoute,
+  CrewTrackingError,
+  type JobSite,
+  type LocationFix,
+} from '@/lib/services/crew-tracking.service';
+
+// About 111 m per 0.001 degrees of latitude
+const site: JobSite = { jobId: 'job-1', location: { lat: 40, lng: -75 }, radiusMeters: 150 };
+const otherSite: JobSite = { jobId: 'job-2', location: { lat: 40.05, lng: -75 }, radiusMeters: 150 };
+
+const at = (minute: number) => new Date(Date.UTC(2026, 5, 1, 14, minute));
+const fix = (minute: number, metersNorth: number, accuracy: number | null = 10): LocationFix => ({
+  lat: 40 + metersNorth / 111_195,
+  lng: -75,
+  accuracy,
+  recordedAt: at(minute),
+});
+
+describe('detectSiteTransitions', () => {
+  it('records an arrival on the first fix inside the site', () => {
+    const { transitions, state } = detectSiteTransitions([fix(0, 2000), fix(5, 600), fix(10, 80)], [site]);
+    expect(transitions).toEqual([expect.objectContaining({ type: 'arrived', jobId: 'job-1', fix: fix(10, 80) })]);
+    expect(state.jobId).toBe('job-1');
+  });
+
+  it('needs two fixes past the buffer to leave, dated at the first', () => {
+    const fixes = [fix(0, 0), fix(5, 260), fix(6, 40), fix(20, 300), fix(21, 900)];
+    const { transitions } = detectSiteTransitions(fixes, [site]);
+    expect(transitions.map((t) => [t.type, t.fix.recordedAt])).toEqual([
+      ['arrived', at(0)],
+      ['left', at(20)],
+    ]);
+  });
+
+  it('ignores imprecise fixes', () => {
+    const { transitions } = detectSiteTransitions([fix(0, 0, 400), fix(1, 0, 250)], [site]);
+    expect(transitions).toEqual([]);
+  });
+
+  it('continues from the state of the previous batch', () => {
+    const first = detectSiteTransitions([fix(0, 0), fix(10, 400)], [site]);
+    expect(first.transitions.map((t) => t.type)).toEqual(['arrived']);
+
+    const second = detectSiteTransitions([fix(11, 5000), fix(30, 5560)], [site, otherSite], first.state);
+    expect(second.transitions.map((t) => [t.type, t.jobId])).toEqual([
+      ['left', 'job-1'],
+      ['arrived', 'job-2'],
+    ]);
+    expect(second.transitions[0].fix.recordedAt).toEqual(at(10));
+  });
+
+  it('sorts out-of-order fixes before walking them', () => {
+    const { transitions } = detectSiteTransitions([fix(10, 0), fix(0, 3000)], [site]);
+    expect(transitions).toHaveLength(1);
+    expect(transitions[0].fix.recordedAt).toEqual(at(10));
+  });
+});
+
+describe('evaluateClockIn', () => {
+  it('allows clock-in on site', () => {
+    expect(evaluateClockIn({ lat: 40.0005, lng: -75 }, site, 'reject')).toEqual({
+      status: 'inside',
+      distanceMeters: 56,
+      decision: 'allow',
+    });
+  });
+
+  it('flags or rejects outside the fence depending on the mode', () => {
+    const away = { lat: 40.01, lng: -75 };
+    expect(evaluateClockIn(away, site, 'flag')).toMatchObject({ status: 'outside', decision: 'flag' });
+    expect(evaluateClockIn(away, site, 'reject')).toMatchObject({ status: 'outside', decision: 'reject' });
+    expect(evaluateClockIn(away, site, 'off')).toMatchObject({ status: 'outside', decision: 'allow' });
+  });
+
+  it('treats a missing fix as unverifiable', () => {
+    expect(evaluateClockIn(null, site, 'flag')).toEqual({ status: 'unknown', distanceMeters: null, decision: 'flag' });
+    expect(evaluateClockIn(null, site, 'reject').decision).toBe('reject');
+  });
+
+  it('has nothing to check without a job site', () => {
+    expect(evaluateClockIn({ lat: 1, lng: 1 }, null, 'reject')).toEqual({
+      status: 'no_site',
+      distanceMeters: null,
+      decision: 'allow',
+    });
+  });
+});
+
+describe('summarizeRoute', () => {
+  it('splits the day into travel and time on site', () => {
+    const fixes = [fix(0, 5000), fix(20, 0), fix(80, 0), fix(100, 5560)];
+    const events = [
+      { type: 'arrived', jobId: 'job-1', occurredAt: at(20) },
+      { type: 'left', jobId: 'job-1', occurredAt: at(80) },
+      { type: 'arrived', jobId: 'job-2', occurredAt: at(100) },
+    ];
+
+    const summary = summarizeRoute(fixes, events, at(130));
+    expect(summary.travelMinutes).toBe(40);
+    expect(summary.onSiteMinutes).toBe(90);
+    expect(summary.visits.map((v) => [v.jobId, v.minutes])).toEqual([
+      ['job-1', 60],
+      ['job-2', 30],
+    ]);
+    expect(summary.distanceKm).toBeCloseTo(10.56, 1);
+  });
+});
+
+describe('parseLocationFixes', () => {
+  it('keeps numeric extras and drops junk', () => {
+    const [parsed] = parseLocationFixes([
+      { lat: 40, lng: -75, accuracy: 12, speed: 'fast', recordedAt: '2026-06-01T14:00:00Z' },
+    ]);
+    expect(parsed).toEqual({
+      lat: 40,
+      lng: -75,
+      accuracy: 12,
+      speed: null,
+      heading: null,
+      recordedAt: new Date('2026-06-01T14:00:00Z'),
+    });
+  });
+
+  it('rejects empty batches and bad coordinates', () => {
+    expect(() => parseLocationFixes([])).toThrow(CrewTrackingError);
+    expect(() => parseLocationFixes([{ lat: 95, lng: 0, recordedAt: '2026-06-01T14:00:00Z' }])).toThrow('pings[0]');
+    expect(() => parseLocationFixes([{ lat: 40, lng: -75, recordedAt: 'yesterday' }])).toThrow('recordedAt');
+  });
+});
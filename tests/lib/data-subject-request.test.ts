@@ -0,0 +1,317 @@
+/**
+ * Tests for GDPR / CCPA data subject requests: the ZIP writer, CSV export,
+ * request intake and review, and what erasure removes versus retains
+ * Feature: data-subject-requests
+ */
+
+jest.mock('@/db/prisma', () => {
+  const delegate = () => ({
+    findUnique: jest.fn(),
+    findFirst: jest.fn(),
+    findMany: jest.fn().mockResolvedValue([]),
+    create: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+    deleteMany: jest.fn(),
+    count: jest.fn().mockResolvedValue(0),
+  });
+  return {
+    prisma: {
+      $transaction: jest.fn(),
+      ...Object.fromEntries(
+        [
+          'user',
+          'dataSubjectRequest',
+          'account',
+          'session',
+          'pushToken',
+          'notification',
+          'notificationSettings',
+          'savedPaymentMethod',
+          'savedSearch',
+          'favoriteContractor',
+          'message',
+          'rentalApplication',
+          'applicationDocument',
+          'verificationDocument',
+          'lease',
+          'rentPayment',
+          'cashPayment',
+          'tenantInvoice',
+          'auditLog',
+          'landlord',
+          'contractorProfile',
+        ].map((name) => [name, delegate()])
+      ),
+    },
+  };
+});
+jest.mock('@/lib/queue', () => ({ jobRuntime: { enqueue: jest.fn() } }));
+jest.mock('@/lib/cloudinary', () => ({
+  cloudinary: { uploader: { destroy: jest.fn() } },
+  getSignedCloudinaryUrl: jest.fn(),
+  uploadToCloudinary: jest.fn(),
+}));
+jest.mock('@/lib/security/audit-logger', () => ({ logAuditEvent: jest.fn() }));
+const mockStripe = { subscriptions: { retrieve: jest.fn(), cancel: jest.fn() } };
+jest.mock('stripe', () => {
+  class StripeInvalidRequestError extends Error {
+    code?: string;
+  }
+  return { __esModule: true, default: Object.assign(jest.fn(() => mockStripe), { errors: { StripeInvalidRequestError } }) };
+});
+
+import { inflateRawSync } from 'zlib';
+import { prisma } from '@/db/prisma';
+import { jobRuntime } from '@/lib/queue';
+import {
+  buildExportArchive,
+  createDataSubjectRequest,
+  DataRequestError,
+  eraseUserData,
+  ERASED_NAME,
+  erasedEmail,
+  reviewDataSubjectRequest,
+  runDataErasure,
+  toCsv,
+} from '@/lib/services/data-subject-request.service';
+import { crc32, createZip } from '@/lib/utils/zip';
+
+const db = prisma as unknown as Record<string, Record<string, jest.Mock>> & { $transaction: jest.Mock };
+const enqueue = jobRuntime.enqueue as jest.Mock;
+
+/** Read entries back through the central directory */
+function readZip(archive: Buffer): Record<string, string> {
+  const end = archive.length - 22;
+  expect(archive.readUInt32LE(end)).toBe(0x06054b50);
+  const count = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+  const files: Record<string, string> = {};
+
+  for (let i = 0; i < count; i++) {
+    expect(archive.readUInt32LE(offset)).toBe(0x02014b50);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.subarray(offset + 46, offset + 46 + nameLength).toString('utf8');
+
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26);
+    const content = inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize));
+    expect(crc32(content)).toBe(archive.readUInt32LE(offset + 16));
+    files[name] = content.toString('utf8');
+    offset += 46 + nameLength;
+  }
+  return files;
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  for (const delegate of Object.values(db)) {
+    if (typeof delegate === 'function') continue;
+    delegate.findMany.mockResolvedValue([]);
+    delegate.count.mockResolvedValue(0);
+  }
+});
+
+describe('zip writer', () => {
+  it('computes the standard CRC-32', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('writes entries that read back intact', () => {
+    const archive = createZip([
+      { name: 'a.json', content: '{"hello":"world"}' },
+      { name: 'notes/ü.txt', content: 'x'.repeat(5000) },
+    ]);
+
+    expect(readZip(archive)).toEqual({ 'a.json': '{"hello":"world"}', 'notes/ü.txt': 'x'.repeat(5000) });
+  });
+});
+
+describe('export archive', () => {
+  it('quotes CSV cells and unions columns across rows', () => {
+    expect(toCsv([{ a: 'plain', b: 'has, comma' }, { a: 'say "hi"', c: { nested: true } }])).toBe(
+      'a,b,c\r\nplain,"has, comma",\r\n"say ""hi""",,"{""nested"":true}"\r\n'
+    );
+  });
+
+  it('adds a manifest, JSON for every section and CSV for non-empty lists', () => {
+    const generatedAt = new Date('2026-03-02T10:00:00Z');
+    const { archive, counts } = buildExportArchive(
+      { profile: { id: 'u1', name: 'Ada' }, payments: [{ id: 'p1', amount: '1200.00' }], messages: [] },
+      { requestId: 'r1', userId: 'u1', generatedAt }
+    );
+    const files = readZip(archive);
+
+    expect(counts).toEqual({ profile: 1, payments: 1, messages: 0 });
+    expect(Object.keys(files).sort()).toEqual(
+      ['README.txt', 'manifest.json', 'messages.json', 'payments.csv', 'payments.json', 'profile.json'].sort()
+    );
+    expect(JSON.parse(files['manifest.json'])).toMatchObject({ requestId: 'r1', sections: counts });
+    expect(files['payments.csv']).toBe('id,amount\r\np1,1200.00\r\n');
+  });
+});
+
+describe('createDataSubjectRequest', () => {
+  beforeEach(() => {
+    db.user.findUnique.mockResolvedValue({ id: 'u1', email: 'ada@test' });
+    db.dataSubjectRequest.findFirst.mockResolvedValue(null);
+    db.dataSubjectRequest.create.mockImplementation(({ data }) => Promise.resolve({ id: 'r1', ...data }));
+    db.dataSubjectRequest.update.mockImplementation(({ data }) => Promise.resolve({ id: 'r1', ...data }));
+    enqueue.mockResolvedValue({ id: 'job-1', created: true });
+  });
+
+  it('queues exports straight away with a 30-day deadline', async () => {
+    const before = Date.now();
+    const { request, created } = await createDataSubjectRequest({ userId: 'u1', type: 'export' });
+
+    expect(created).toBe(true);
+    expect(enqueue).toHaveBeenCalledWith('data_export', { requestId: 'r1' }, { idempotencyKey: 'data-request:r1' });
+    expect(request).toMatchObject({ status: 'pending', jobId: 'job-1' });
+    const { dueAt } = db.dataSubjectRequest.create.mock.calls[0][0].data;
+    expect(dueAt.getTime() - before).toBeGreaterThanOrEqual(30 * 24 * 60 * 60 * 1000);
+  });
+
+  it('holds erasure for review', async () => {
+    const { request } = await createDataSubjectRequest({ userId: 'u1', type: 'erasure', source: 'mobile' });
+
+    expect(request).toMatchObject({ status: 'pending_review', source: 'mobile', requestedEmail: 'ada@test' });
+    expect(enqueue).not.toHaveBeenCalled();
+  });
+
+  it('returns the open request instead of filing another', async () => {
+    db.dataSubjectRequest.findFirst.mockResolvedValueOnce({ id: 'open', status: 'processing' });
+
+    await expect(createDataSubjectRequest({ userId: 'u1', type: 'export' })).resolves.toEqual({
+      request: { id: 'open', status: 'processing' },
+      created: false,
+    });
+    expect(db.dataSubjectRequest.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('reviewDataSubjectRequest', () => {
+  const pending = { id: 'r1', userId: 'u1', type: 'erasure', status: 'pending_review', requestedEmail: 'ada@test' };
+
+  it('requires a note to reject', async () => {
+    db.dataSubjectRequest.findUnique.mockResolvedValueOnce(pending);
+
+    await expect(
+      reviewDataSubjectRequest({ requestId: 'r1', reviewerId: 'admin', decision: 'reject' })
+    ).rejects.toBeInstanceOf(DataRequestError);
+  });
+
+  it('queues the erasure job on approval', async () => {
+    db.dataSubjectRequest.findUnique.mockResolvedValueOnce(pending);
+    db.dataSubjectRequest.update.mockImplementation(({ data }) => Promise.resolve({ ...pending, ...data }));
+    enqueue.mockResolvedValue({ id: 'job-2', created: true });
+
+    const reviewed = await reviewDataSubjectRequest({ requestId: 'r1', reviewerId: 'admin', decision: 'approve' });
+
+    expect(enqueue).toHaveBeenCalledWith('data_erasure', { requestId: 'r1' }, expect.anything());
+    expect(db.dataSubjectRequest.update.mock.calls[0][0].data).toMatchObject({ reviewedById: 'admin' });
+    expect(reviewed).toMatchObject({ status: 'pending', jobId: 'job-2' });
+  });
+
+  it('refuses requests that are not awaiting review', async () => {
+    db.dataSubjectRequest.findUnique.mockResolvedValueOnce({ ...pending, status: 'completed' });
+
+    await expect(
+      reviewDataSubjectRequest({ requestId: 'r1', reviewerId: 'admin', decision: 'approve' })
+    ).rejects.toMatchObject({ code: 'INVALID_STATE' });
+  });
+});
+
+describe('eraseUserData', () => {
+  it('anonymizes the user, deletes personal records and keeps financial ones', async () => {
+    db.lease.count.mockResolvedValue(2);
+    db.rentPayment.count.mockResolvedValue(24);
+    db.message.count.mockResolvedValue(5);
+    db.applicationDocument.findMany.mockResolvedValue([{ cloudinaryPublicId: 'docs/id-front', cloudinaryResourceType: 'image' }]);
+
+    const result = await eraseUserData(prisma as never, 'u1');
+
+    const userUpdate = db.user.update.mock.calls[0][0];
+    expect(userUpdate.data).toMatchObject({
+      name: ERASED_NAME,
+      email: erasedEmail('u1'),
+      password: null,
+      phoneNumber: null,
+      isBlocked: true,
+    });
+    expect(db.session.deleteMany).toHaveBeenCalledWith({ where: { userId: 'u1' } });
+    expect(db.applicationDocument.deleteMany).toHaveBeenCalledWith({ where: { uploadedById: 'u1' } });
+    expect(db.rentalApplication.updateMany.mock.calls[0][0].data).toMatchObject({ encryptedSsn: null, phone: null });
+    expect(db.message.updateMany.mock.calls[0][0].data).toMatchObject({ senderName: ERASED_NAME, senderEmail: null });
+
+    // Financial records are never deleted
+    expect(db.lease.deleteMany).not.toHaveBeenCalled();
+    expect(db.rentPayment.deleteMany).not.toHaveBeenCalled();
+    expect(result.retained).toMatchObject({ leases: 2, rentPayments: 24 });
+    expect(result.erased).toMatchObject({ messages: 5 });
+    expect(result.files).toEqual([{ publicId: 'docs/id-front', resourceType: 'image' }]);
+  });
+
+  it('takes the contractor profile off the marketplace and strips business contact details', async () => {
+    await eraseUserData(prisma as never, 'u1');
+
+    const profile = db.contractorProfile.updateMany.mock.calls[0][0];
+    expect(profile.where).toEqual({ userId: 'u1' });
+    expect(profile.data).toMatchObject({
+      isPublic: false,
+      acceptingNewWork: false,
+      businessName: ERASED_NAME,
+      displayName: ERASED_NAME,
+      email: erasedEmail('u1'),
+      phone: null,
+      slug: 'erased-u1',
+    });
+    expect(db.landlord.updateMany).toHaveBeenCalledWith({
+      where: { ownerUserId: 'u1' },
+      data: expect.objectContaining({ companyEmail: null, companyPhone: null, notificationEmail: null, notificationPhone: null }),
+    });
+  });
+});
+
+describe('runDataErasure', () => {
+  const erasure = { id: 'r1', type: 'erasure', status: 'pending', userId: 'u1', requestedEmail: 'tenant@example.com' };
+
+  beforeEach(() => {
+    process.env.STRIPE_SECRET_KEY = 'sk_test_123';
+    db.$transaction.mockImplementation((fn: (tx: unknown) => unknown) => fn(prisma));
+    db.dataSubjectRequest.findUnique.mockResolvedValue(erasure);
+    db.dataSubjectRequest.update.mockResolvedValue(erasure);
+  });
+
+  it('cancels live Stripe subscriptions before erasing', async () => {
+    db.landlord.findMany.mockResolvedValue([{ stripeSubscriptionId: 'sub_landlord' }]);
+    db.contractorProfile.findUnique.mockResolvedValue({ stripeSubscriptionId: 'sub_contractor' });
+    mockStripe.subscriptions.retrieve.mockImplementation((id: string) =>
+      Promise.resolve({ id, status: id === 'sub_landlord' ? 'active' : 'canceled' })
+    );
+
+    const summary = await runDataErasure('r1');
+
+    expect(mockStripe.subscriptions.cancel).toHaveBeenCalledTimes(1);
+    expect(mockStripe.subscriptions.cancel).toHaveBeenCalledWith('sub_landlord');
+    expect(db.landlord.updateMany).toHaveBeenCalledWith({ where: { ownerUserId: 'u1' }, data: { subscriptionStatus: 'canceled' } });
+    expect(summary).toMatchObject({ cancelledSubscriptions: 1 });
+    expect(db.dataSubjectRequest.update).toHaveBeenLastCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ status: 'completed' }) })
+    );
+  });
+
+  it('fails without erasing when Stripe can’t cancel, so the job retries', async () => {
+    db.contractorProfile.findUnique.mockResolvedValue({ stripeSubscriptionId: 'sub_contractor' });
+    mockStripe.subscriptions.retrieve.mockResolvedValue({ id: 'sub_contractor', status: 'active' });
+    mockStripe.subscriptions.cancel.mockRejectedValue(new Error('Stripe is down'));
+
+    await expect(runDataErasure('r1')).rejects.toThrow('Stripe is down');
+
+    expect(db.user.update).not.toHaveBeenCalled();
+    expect(db.dataSubjectRequest.update).toHaveBeenLastCalledWith({
+      where: { id: 'r1' },
+      data: { status: 'failed', error: 'Stripe is down' },
+    });
+  });
+});
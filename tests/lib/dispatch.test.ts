@@ -0,0 +1,252 @@
+/**
+ * Tests for dispatch route optimization, drag-to-reassign and the haversine
+ * distance fallback
+ * Feature: dispatch-board
+ */
+
+jest.mock('@/db/prisma', () => ({ prisma: {} }));
+
+import {
+  createGoogleProvider,
+  getTravelMatrix,
+  haversineKm,
+  haversineProvider,
+  planMatrixBlocks,
+  type DistanceProvider,
+  type GeoPoint,
+} from '@/lib/services/dispatch-distance';
+import {
+  getAssignment,
+  getRoutablePoints,
+  moveStop,
+  nextFreeStart,
+  optimizeDispatch,
+  scheduleAssignment,
+  type DispatchCrew,
+  type DispatchInput,
+  type DispatchStop,
+} from '@/lib/services/dispatch.service';
+
+// Grid of points roughly 1 km apart so drive minutes follow distance
+const at = (x: number, y: number): GeoPoint => ({ lat: 40 + y * 0.009, lng: -75 + x * 0.0118 });
+
+const crew = (id: string, overrides: Partial<DispatchCrew> = {}): DispatchCrew => ({
+  id,
+  name: id,
+  skills: [],
+  start: at(0, 0),
+  shiftStart: 8 * 60,
+  shiftEnd: 17 * 60,
+  blocked: [],
+  ...overrides,
+});
+
+const job = (id: string, location: GeoPoint | null, overrides: Partial<DispatchStop> = {}): DispatchStop => ({
+  id: `job:${id}`,
+  kind: 'job',
+  sourceId: id,
+  title: id,
+  address: null,
+  location,
+  durationMinutes: 60,
+  requiredSkills: [],
+  priority: 'normal',
+  window: null,
+  ...overrides,
+});
+
+async function buildInput(
+  crews: DispatchCrew[],
+  stops: DispatchStop[],
+  extra: Partial<DispatchInput> = {}
+): Promise<DispatchInput> {
+  const { keys, points } = getRoutablePoints(crews, stops);
+  const { matrix } = await getTravelMatrix(points, haversineProvider);
+  return { crews, stops, travel: { keys, matrix }, ...extra };
+}
+
+const stopIds = (result: ReturnType<typeof optimizeDispatch>, crewId: string) =>
+  result.routes.find((route) => route.crewId === crewId)!.stops.map((stop) => stop.sourceId);
+
+describe('dispatch distance', () => {
+  it('measures great-circle distance', () => {
+    // One degree of latitude is about 111 km
+    expect(haversineKm({ lat: 0, lng: 0 }, { lat: 1, lng: 0 })).toBeCloseTo(111.2, 0);
+  });
+
+  it('falls back to haversine when the provider fails', async () => {
+    const failing: DistanceProvider = {
+      name: 'google',
+      getTravelMinutes: jest.fn().mockRejectedValue(new Error('quota')),
+    };
+    const spy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const result = await getTravelMatrix([at(0, 0), at(10, 0)], failing);
+    expect(result.provider).toBe('haversine');
+    expect(result.matrix[0][1]).toBeGreaterThan(15);
+    spy.mockRestore();
+  });
+
+  it('splits a large Google matrix into requests within its element cap', async () => {
+    const points = Array.from({ length: 30 }, (_, i) => at(i, 0));
+    const blocks = planMatrixBlocks(points.length);
+    expect(blocks.every(({ origins, destinations }) => (origins[1] - origins[0]) * (destinations[1] - destinations[0]) <= 100)).toBe(true);
+
+    // Every element is 60 seconds × (origin index + 1)
+    const fetchSpy = jest.spyOn(global, 'fetch').mockImplementation(async (url) => {
+      const params = new URL(String(url)).searchParams;
+      const origins = params.get('origins')!.split('|');
+      const destinations = params.get('destinations')!.split('|');
+      expect(origins.length * destinations.length).toBeLessThanOrEqual(100);
+      const rows = origins.map((origin) => {
+        const index = points.findIndex((p) => `${p.lat},${p.lng}` === origin);
+        return { elements: destinations.map(() => ({ status: 'OK', duration: { value: 60 * (index + 1) } })) };
+      });
+      return new Response(JSON.stringify({ status: 'OK', rows }));
+    });
+
+    const matrix = await createGoogleProvider('key').getTravelMinutes(points);
+    expect(fetchSpy).toHaveBeenCalledTimes(blocks.length);
+    expect(matrix).toHaveLength(30);
+    expect(matrix.every((row, i) => row.length === 30 && row.every((minutes) => minutes === i + 1))).toBe(true);
+    fetchSpy.mockRestore();
+  });
+
+  it('shares one matrix row between crews at the same depot', () => {
+    const { keys } = getRoutablePoints([crew('a'), crew('b')], [job('1', at(1, 1)), job('2', null)]);
+    expect(keys).toEqual(['depot:40,-75', 'job:1']);
+  });
+});
+
+describe('optimizeDispatch', () => {
+  it('sends each crew to the cluster nearest its depot', async () => {
+    const west = crew('west', { start: at(-10, 0) });
+    const east = crew('east', { start: at(10, 0) });
+    const stops = [
+      job('w1', at(-11, 1)),
+      job('e1', at(11, 1)),
+      job('w2', at(-9, -1)),
+      job('e2', at(9, -1)),
+    ];
+
+    const result = optimizeDispatch(await buildInput([west, east], stops));
+    expect(stopIds(result, 'west').sort()).toEqual(['w1', 'w2']);
+    expect(stopIds(result, 'east').sort()).toEqual(['e1', 'e2']);
+    expect(result.unassigned).toEqual([]);
+  });
+
+  it('orders a route to avoid doubling back', async () => {
+    const stops = [job('far', at(6, 0)), job('near', at(2, 0)), job('mid', at(4, 0))];
+    const result = optimizeDispatch(await buildInput([crew('a', { shiftEnd: 20 * 60 })], stops));
+    const order = stopIds(result, 'a');
+    expect([order, [...order].reverse()]).toContainEqual(['near', 'mid', 'far']);
+  });
+
+  it('only routes jobs to crews with every required skill', async () => {
+    const plumber = crew('plumber', { skills: ['Plumbing'], start: at(20, 0) });
+    const helper = crew('helper');
+    const stops = [job('leak', at(1, 0), { requiredSkills: ['plumbing'] }), job('wire', at(1, 0), { requiredSkills: ['electrical'] })];
+
+    const result = optimizeDispatch(await buildInput([plumber, helper], stops));
+    expect(stopIds(result, 'plumber')).toEqual(['leak']);
+    expect(result.unassigned).toEqual([
+      expect.objectContaining({ sourceId: 'wire', reason: 'No crew has the required skills: electrical' }),
+    ]);
+  });
+
+  it('keeps appointments inside their arrival window', async () => {
+    const appointment = job('visit', at(3, 0), {
+      id: 'appointment:visit',
+      kind: 'appointment',
+      priority: 'high',
+      window: { start: 13 * 60, end: 13 * 60 + 15 },
+    });
+    const result = optimizeDispatch(await buildInput([crew('a')], [appointment, job('other', at(2, 0))]));
+    const visit = result.routes[0].stops.find((stop) => stop.sourceId === 'visit')!;
+    expect(visit.start).toBe(13 * 60);
+    expect(result.routes[0].warnings).toEqual([]);
+  });
+
+  it('works around time off and leaves what does not fit unassigned', async () => {
+    const busy = crew('a', { blocked: [{ start: 9 * 60, end: 16 * 60 }] });
+    const stops = [job('short', at(1, 0), { durationMinutes: 45 }), job('long', at(1, 0), { durationMinutes: 180 })];
+
+    const result = optimizeDispatch(await buildInput([busy], stops));
+    expect(stopIds(result, 'a')).toEqual(['short']);
+    expect(result.unassigned.map((stop) => stop.sourceId)).toEqual(['long']);
+    expect(result.unassigned[0].reason).toBe('No crew has enough time left in their shift');
+  });
+
+  it('keeps pinned stops on their crew and in-progress work first', async () => {
+    const crews = [crew('a'), crew('b', { start: at(30, 0) })];
+    const stops = [
+      job('pinned', at(1, 0)),
+      job('running', at(29, 0), { inProgress: true }),
+      job('next', at(31, 0)),
+    ];
+    const pins = { 'job:pinned': 'b', 'job:running': 'b' };
+
+    const result = optimizeDispatch(await buildInput(crews, stops, { pins }));
+    const route = stopIds(result, 'b');
+    expect(route[0]).toBe('running');
+    expect(route).toContain('pinned');
+    expect(result.routes.find((r) => r.crewId === 'b')!.stops[0].driveMinutes).toBe(0);
+  });
+
+  it('puts an emergency job on the day and bumps lower priority work', async () => {
+    const stops = [
+      job('routine1', at(1, 0), { durationMinutes: 240 }),
+      job('routine2', at(2, 0), { durationMinutes: 240 }),
+      job('burst-pipe', at(5, 0), { durationMinutes: 90, priority: 'urgent' }),
+    ];
+
+    const result = optimizeDispatch(await buildInput([crew('a')], stops, { now: 8 * 60 }));
+    expect(stopIds(result, 'a')).toContain('burst-pipe');
+    expect(result.unassigned).toHaveLength(1);
+  });
+
+  it('does not start anything before now on the current day', async () => {
+    const result = optimizeDispatch(await buildInput([crew('a', { start: null })], [job('1', at(1, 0))], { now: 11 * 60 }));
+    expect(result.routes[0].stops[0].start).toBe(11 * 60);
+  });
+});
+
+describe('drag to reassign', () => {
+  it('moves a stop between crews and re-times both routes', async () => {
+    const crews = [crew('a'), crew('b')];
+    const stops = [job('1', at(1, 0)), job('2', at(2, 0)), job('3', at(3, 0))];
+    const input = await buildInput(crews, stops);
+
+    const assignment = moveStop({ a: ['job:1', 'job:2', 'job:3'], b: [] }, 'job:2', 'b', 0);
+    expect(assignment).toEqual({ a: ['job:1', 'job:3'], b: ['job:2'] });
+
+    const result = scheduleAssignment({ ...input, pins: { 'job:2': 'b' } }, assignment);
+    expect(getAssignment(result.routes)).toEqual(assignment);
+    expect(result.routes[1].stops[0]).toMatchObject({ sourceId: '2', pinned: true });
+  });
+
+  it('warns instead of refusing when the dispatcher overloads a crew', async () => {
+    const stops = [job('1', at(1, 0), { durationMinutes: 300 }), job('2', at(2, 0), { durationMinutes: 300 })];
+    const result = scheduleAssignment(await buildInput([crew('a')], stops), { a: ['job:1', 'job:2'] });
+    expect(result.routes[0].warnings).toEqual([expect.stringContaining('runs past the 5:00 PM end of shift')]);
+  });
+
+  it('reports stops missing from the plan as unassigned', async () => {
+    const stops = [job('1', at(1, 0)), job('new', at(2, 0))];
+    const result = scheduleAssignment(await buildInput([crew('a')], stops), { a: ['job:1'] });
+    expect(result.unassigned).toEqual([
+      expect.objectContaining({ sourceId: 'new', reason: 'Added after the plan was optimized' }),
+    ]);
+  });
+});
+
+describe('nextFreeStart', () => {
+  it('skips overlapping and back-to-back blocks', () => {
+    const blocked = [
+      { start: 600, end: 660 },
+      { start: 660, end: 700 },
+    ];
+    expect(nextFreeStart(590, 30, blocked)).toBe(700);
+    expect(nextFreeStart(540, 60, blocked)).toBe(540);
+  });
+});
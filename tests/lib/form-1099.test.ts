@@ -0,0 +1,245 @@
+/**
+ * Tests for landlord 1099-NEC reporting: per-payee aggregation and
+ * threshold filtering, W-9 and TIN validation, recipient copies and the
+ * Publication 1220 FIRE record layout
+ * Feature: form-1099
+ */
+
+jest.mock('@/db/prisma', () => ({ prisma: {} }));
+jest.mock('@/lib/services/pdf', () => ({ htmlToPdfBuffer: jest.fn() }));
+jest.mock('@/lib/services/email-service', () => ({ sendBrandedEmail: jest.fn() }));
+
+import {
+  buildFireFile,
+  classifyPayee,
+  Form1099Error,
+  generate1099NecHtml,
+  getNameControl,
+  getNecThreshold,
+  normalizeTin,
+  parsePayerInput,
+  parseW9Input,
+  summarizePayees,
+  type FilingPayee,
+  type PayerDetails,
+  type W9Summary,
+} from '@/lib/services/form-1099.service';
+
+const receivedW9: W9Summary = {
+  status: 'received',
+  taxClassification: 'individual',
+  exemptPayeeCode: null,
+  tinLast4: '6789',
+  certifiedAt: new Date('2026-01-05'),
+  certifiedByName: 'Dana Reyes',
+  requestedAt: null,
+  requestExpiresAt: null,
+};
+
+const payer: PayerDetails = {
+  payerName: 'The Maple Property Group',
+  tin: '123456789',
+  address1: '100 Main St',
+  address2: 'Suite 4',
+  city: 'Austin',
+  state: 'TX',
+  postalCode: '78701',
+  phone: '5125550100',
+  transmitterControlCode: '5AB12',
+  contactName: 'Pat Owner',
+  contactEmail: 'pat@maple.test',
+};
+
+const payees: FilingPayee[] = [
+  {
+    contractorId: '3f2c1a9e-0000-4000-8000-000000000001',
+    amount: 2450.5,
+    legalName: 'Dana Reyes',
+    businessName: 'Reyes Plumbing',
+    taxClassification: 'individual',
+    exemptPayeeCode: null,
+    tinType: 'ssn',
+    tin: '234567890',
+    address1: '12 Oak Ave',
+    address2: null,
+    city: 'Round Rock',
+    state: 'TX',
+    postalCode: '786641234',
+  },
+  {
+    contractorId: '3f2c1a9e-0000-4000-8000-000000000002',
+    amount: 5000,
+    legalName: 'Brightline Electric LLC',
+    businessName: null,
+    taxClassification: 'llc_p',
+    exemptPayeeCode: null,
+    tinType: 'ein',
+    tin: '987654321',
+    address1: '9 Elm Rd',
+    address2: null,
+    city: 'Austin',
+    state: 'TX',
+    postalCode: '78702',
+  },
+];
+
+describe('thresholds and classification', () => {
+  it('raises the filing threshold from $600 to $2,000 after 2025', () => {
+    expect(getNecThreshold(2025)).toBe(600);
+    expect(getNecThreshold(2026)).toBe(2000);
+  });
+
+  it('files only non-exempt payees over the threshold with a W-9', () => {
+    expect(classifyPayee(1999.99, receivedW9, 2000)).toBe('below_threshold');
+    expect(classifyPayee(2000, null, 2000)).toBe('missing_w9');
+    expect(classifyPayee(2000, { ...receivedW9, status: 'requested' }, 2000)).toBe('missing_w9');
+    expect(classifyPayee(2000, { ...receivedW9, taxClassification: 's_corp' }, 2000)).toBe('exempt');
+    expect(classifyPayee(2000, { ...receivedW9, exemptPayeeCode: '5' }, 2000)).toBe('exempt');
+    expect(classifyPayee(2000, receivedW9, 2000)).toBe('reportable');
+  });
+
+  it('totals payments per payee for the calendar year only', () => {
+    const rows = summarizePayees(
+      2025,
+      [
+        { id: 'a', name: 'Reyes Plumbing', email: 'a@test', w9: receivedW9 },
+        { id: 'b', name: 'Handy Hank', email: 'b@test', w9: null },
+        { id: 'c', name: 'Unpaid Co', email: 'c@test', w9: null },
+      ],
+      [
+        { contractorId: 'a', amount: 400.1, paidAt: new Date(2025, 2, 1) },
+        { contractorId: 'a', amount: 200.2, paidAt: new Date(2025, 10, 1) },
+        { contractorId: 'a', amount: 999, paidAt: new Date(2026, 0, 2) },
+        { contractorId: 'b', amount: 150, paidAt: new Date(2025, 5, 1) },
+      ]
+    );
+
+    expect(rows).toEqual([
+      expect.objectContaining({ contractorId: 'a', total: 600.3, paymentCount: 2, status: 'reportable' }),
+      expect.objectContaining({ contractorId: 'b', total: 150, paymentCount: 1, status: 'below_threshold' }),
+    ]);
+  });
+});
+
+describe('W-9 validation', () => {
+  const w9 = {
+    legalName: 'Dana Reyes',
+    taxClassification: 'individual',
+    tinType: 'ssn',
+    tin: '234-56-7890',
+    address1: '12 Oak Ave',
+    city: 'Round Rock',
+    state: 'tx',
+    postalCode: '78664-1234',
+    certifiedByName: 'Dana Reyes',
+  };
+
+  it('normalizes TINs and rejects impossible ones', () => {
+    expect(normalizeTin('234-56-7890', 'ssn')).toBe('234567890');
+    expect(normalizeTin('98-7654321', 'ein')).toBe('987654321');
+    expect(() => normalizeTin('666-12-3456', 'ssn')).toThrow('SSN is not valid');
+    expect(() => normalizeTin('123-00-4567', 'ssn')).toThrow('SSN is not valid');
+    expect(() => normalizeTin('00-1234567', 'ein')).toThrow('EIN is not valid');
+    expect(() => normalizeTin('111111111', 'ssn')).toThrow('9 digits');
+    expect(() => normalizeTin('12345', 'ein')).toThrow(Form1099Error);
+  });
+
+  it('parses a certified W-9', () => {
+    expect(parseW9Input(w9)).toMatchObject({
+      tin: '234567890',
+      state: 'TX',
+      postalCode: '786641234',
+      businessName: null,
+      exemptPayeeCode: null,
+    });
+    expect(() => parseW9Input({ ...w9, taxClassification: 'nonprofit' })).toThrow('taxClassification');
+    expect(() => parseW9Input({ ...w9, certifiedByName: '' })).toThrow('certifiedByName is required');
+    expect(() => parseW9Input({ ...w9, exemptPayeeCode: '14' })).toThrow('exemptPayeeCode');
+  });
+
+  it('keeps the payer EIN on file when it is omitted on update', () => {
+    const input = { payerName: 'Maple', address1: '1 Main', city: 'Austin', state: 'TX', postalCode: '78701' };
+    expect(() => parsePayerInput(input)).toThrow('tin is required');
+    expect(parsePayerInput(input, false).tin).toBeNull();
+    expect(() => parsePayerInput({ ...input, tin: '12-3456789', transmitterControlCode: 'ABC' })).toThrow('5 characters');
+  });
+
+  it('derives name controls from surnames and business names', () => {
+    expect(getNameControl('Dana Reyes Jr.', true)).toBe('REYE');
+    expect(getNameControl('Li Ng', true)).toBe('NG');
+    expect(getNameControl('The Maple Property Group', false)).toBe('MAPL');
+    expect(getNameControl('A&B Roofing', false)).toBe('A&BR');
+  });
+});
+
+describe('buildFireFile', () => {
+  const file = buildFireFile({ year: 2025, test: true, payer, payees });
+  const records = file.split('\r\n').slice(0, -1);
+  const field = (record: string, start: number, end: number) => record.slice(start - 1, end);
+
+  it('writes fixed-length T, A, B, C and F records', () => {
+    expect(file.endsWith('\r\n')).toBe(true);
+    expect(records.map((record) => record[0]).join('')).toBe('TABBCF');
+    records.forEach((record) => expect(record).toHaveLength(748));
+    records.forEach((record, i) => expect(field(record, 500, 507)).toBe(String(i + 1).padStart(8, '0')));
+  });
+
+  it('fills the transmitter and payer records', () => {
+    const [t, a] = records;
+    expect(field(t, 2, 5)).toBe('2025');
+    expect(field(t, 7, 15)).toBe('123456789');
+    expect(field(t, 16, 20)).toBe('5AB12');
+    expect(field(t, 28, 28)).toBe('T');
+    expect(field(t, 296, 303)).toBe('00000002');
+    expect(field(t, 518, 518)).toBe('I');
+
+    expect(field(a, 21, 24)).toBe('MAPL');
+    expect(field(a, 26, 27)).toBe('NE');
+    expect(field(a, 28, 45).trim()).toBe('1');
+    expect(field(a, 53, 92).trim()).toBe('THE MAPLE PROPERTY GROUP');
+    expect(field(a, 134, 173).trim()).toBe('100 MAIN ST SUITE 4');
+  });
+
+  it('fills payee records with cents and zero-filled unused amounts', () => {
+    const b = records[2];
+    expect(field(b, 7, 10)).toBe('REYE');
+    expect(field(b, 11, 11)).toBe('2');
+    expect(field(b, 12, 20)).toBe('234567890');
+    expect(field(b, 55, 66)).toBe('000000245050');
+    expect(field(b, 67, 270)).toMatch(/^0+$/);
+    expect(field(b, 288, 327).trim()).toBe('DANA REYES');
+    expect(field(b, 328, 367).trim()).toBe('REYES PLUMBING');
+    expect(field(b, 488, 489)).toBe('TX');
+    expect(field(b, 490, 498)).toBe('786641234');
+    expect(field(records[3], 11, 11)).toBe('1');
+  });
+
+  it('closes with payer totals and the transmission trailer', () => {
+    const [c, f] = records.slice(4);
+    expect(field(c, 2, 9)).toBe('00000002');
+    expect(field(c, 16, 33)).toBe('000000000000745050');
+    expect(field(c, 34, 339)).toMatch(/^0+$/);
+    expect(field(f, 2, 9)).toBe('00000001');
+    expect(field(f, 50, 57)).toBe('00000002');
+  });
+
+  it('refuses to build without a TCC or payees', () => {
+    expect(() => buildFireFile({ year: 2025, test: false, payer: { ...payer, transmitterControlCode: null }, payees })).toThrow(
+      'transmitter control code'
+    );
+    expect(() => buildFireFile({ year: 2025, test: false, payer, payees: [] })).toThrow('No reportable');
+  });
+});
+
+describe('generate1099NecHtml', () => {
+  it('renders one Copy B per payee with the payer EIN and truncated recipient TINs', () => {
+    const html = generate1099NecHtml({ year: 2025, payer, payees });
+
+    expect(html.match(/class="form"/g)).toHaveLength(2);
+    expect(html).toContain('$2,450.50');
+    expect(html).toContain('12-3456789');
+    expect(html).toContain('***-**-7890');
+    expect(html).toContain('**-***4321');
+    expect(html).not.toContain('234567890');
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Tests for the job runtime: cron schedules, backoff, idempotent enqueueing,
+ * per-type concurrency when claiming, and retry versus dead-lettering
+ * Feature: job-runtime
+ */
+
+jest.mock('@/db/prisma', () => ({
+  prisma: {
+    scheduledJob: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      groupBy: jest.fn(),
+      count: jest.fn(),
+    },
+    $transaction: jest.fn(),
+    $executeRaw: jest.fn(),
+  },
+}));
+jest.mock('@/lib/ops/cron-log', () => ({
+  withCronLog: jest.fn((_name: string, fn: () => Promise<unknown>) => fn()),
+}));
+
+import { prisma } from '@/db/prisma';
+import { withCronLog } from '@/lib/ops/cron-log';
+import { computeBackoff, defineJob, JobError, JobRuntime, recurringIdempotencyKey } from '@/lib/queue/runtime';
+import { cronMatches, latestSlot, parseCron } from '@/lib/queue/schedule';
+
+const db = prisma.scheduledJob as unknown as Record<string, jest.Mock>;
+const client = prisma as unknown as { $transaction: jest.Mock; $executeRaw: jest.Mock };
+
+function jobRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'job-1',
+    type: 'send',
+    payload: { to: 'a@test' },
+    status: 'processing',
+    priority: 0,
+    retryCount: 0,
+    maxRetries: 3,
+    errors: null,
+    lastError: null,
+    scheduledFor: new Date('2026-03-02T10:00:00Z'),
+    lockedBy: 'worker',
+    lockedAt: new Date('2026-03-02T10:00:00Z'),
+    startedAt: new Date('2026-03-02T10:00:00Z'),
+    ...overrides,
+  };
+}
+
+const send = jest.fn();
+const digest = jest.fn();
+const slow = jest.fn();
+const runtime = new JobRuntime({
+  send: defineJob<{ to: string }>({ handler: send, concurrency: 1, backoff: { baseMs: 1000, maxMs: 60_000 } }),
+  digest: defineJob({ handler: digest, schedule: '0 7 * * *' }),
+  slow: defineJob({ handler: slow, timeoutMs: 20 }),
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  client.$transaction.mockImplementation((fn: (tx: unknown) => unknown) => fn(prisma));
+  db.count.mockResolvedValue(0);
+  db.updateMany.mockResolvedValue({ count: 1 });
+});
+
+describe('cron schedules', () => {
+  it('parses lists, ranges and steps', () => {
+    const schedule = parseCron('0,30 9-17/4 * * 1-5');
+    expect([...schedule.minutes]).toEqual([0, 30]);
+    expect([...schedule.hours]).toEqual([9, 13, 17]);
+    expect(() => parseCron('60 * * * *')).toThrow('Invalid cron expression');
+    expect(() => parseCron('* * *')).toThrow('Invalid cron expression');
+  });
+
+  it('runs on either restricted day field', () => {
+    const schedule = parseCron('0 6 1 * 1');
+    // Sunday 1 March and Monday 9 March both match; Tuesday 10 March doesn't
+    expect(cronMatches(schedule, new Date('2026-03-01T06:00:00Z'))).toBe(true);
+    expect(cronMatches(schedule, new Date('2026-03-09T06:00:00Z'))).toBe(true);
+    expect(cronMatches(schedule, new Date('2026-03-10T06:00:00Z'))).toBe(false);
+  });
+
+  it('finds the latest slot within the lookback window', () => {
+    const schedule = parseCron('0 * * * *');
+    expect(latestSlot(schedule, new Date('2026-03-02T10:07:42Z'), 10)).toEqual(new Date('2026-03-02T10:00:00Z'));
+    expect(latestSlot(schedule, new Date('2026-03-02T10:17:00Z'), 10)).toBeNull();
+  });
+});
+
+describe('computeBackoff', () => {
+  it('doubles the delay per attempt up to the cap', () => {
+    const backoff = { baseMs: 1000, maxMs: 5000 };
+    expect([1, 2, 3, 4].map((attempt) => computeBackoff(attempt, backoff))).toEqual([1000, 2000, 4000, 5000]);
+  });
+});
+
+describe('enqueue', () => {
+  it('returns the existing job for a repeated idempotency key', async () => {
+    db.findUnique.mockResolvedValueOnce({ id: 'existing' });
+
+    await expect(runtime.enqueue('send', { to: 'a@test' }, { idempotencyKey: 'k' })).resolves.toEqual({
+      id: 'existing',
+      created: false,
+    });
+    expect(db.create).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the winner when a concurrent enqueue takes the key', async () => {
+    db.findUnique.mockResolvedValueOnce(null).mockResolvedValueOnce({ id: 'winner' });
+    db.create.mockRejectedValueOnce(Object.assign(new Error('Unique constraint'), { code: 'P2002' }));
+
+    await expect(runtime.enqueue('send', { to: 'a@test' }, { idempotencyKey: 'k' })).resolves.toEqual({
+      id: 'winner',
+      created: false,
+    });
+  });
+
+  it('enqueues due recurring slots under a per-slot key', async () => {
+    db.findUnique.mockResolvedValue(null);
+    db.create.mockResolvedValue({ id: 'new' });
+
+    await expect(runtime.scheduleRecurring(new Date('2026-03-02T07:04:00Z'))).resolves.toBe(1);
+    const slot = new Date('2026-03-02T07:00:00Z');
+    expect(db.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          type: 'digest',
+          scheduledFor: slot,
+          idempotencyKey: recurringIdempotencyKey('digest', slot),
+        }),
+      })
+    );
+  });
+});
+
+describe('claim', () => {
+  it('respects per-type concurrency and dead-letters unknown types', async () => {
+    const now = new Date('2026-03-02T10:00:00Z');
+    db.findMany.mockResolvedValueOnce([
+      jobRow({ id: 'a', status: 'pending' }),
+      jobRow({ id: 'b', status: 'pending' }),
+      jobRow({ id: 'c', type: 'digest', status: 'pending' }),
+      jobRow({ id: 'd', type: 'retired', status: 'pending' }),
+    ]);
+    db.groupBy.mockResolvedValueOnce([]);
+    db.updateMany.mockResolvedValue({ count: 1 });
+
+    const claimed = await runtime.claim(now);
+
+    expect(claimed.map((job) => job.id)).toEqual(['a', 'c']);
+    expect(db.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { status: 'pending', id: 'd' }, data: expect.objectContaining({ status: 'dead' }) })
+    );
+  });
+
+  it('skips jobs another worker claimed first', async () => {
+    db.findMany.mockResolvedValueOnce([jobRow({ id: 'a', status: 'pending' })]);
+    db.groupBy.mockResolvedValueOnce([]);
+    db.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    await expect(runtime.claim()).resolves.toEqual([]);
+  });
+
+  it('recounts running jobs under a per-type lock before claiming', async () => {
+    db.findMany.mockResolvedValueOnce([
+      jobRow({ id: 'a', status: 'pending' }),
+      jobRow({ id: 'b', type: 'digest', status: 'pending' }),
+    ]);
+    // The snapshot saw nothing running, but another worker claimed a send job since
+    db.groupBy.mockResolvedValueOnce([]);
+    db.count.mockResolvedValueOnce(1).mockResolvedValueOnce(0);
+    db.updateMany.mockResolvedValue({ count: 1 });
+
+    const claimed = await runtime.claim();
+
+    expect(claimed.map((job) => job.id)).toEqual(['b']);
+    expect(client.$executeRaw).toHaveBeenCalledTimes(2);
+    expect(db.count).toHaveBeenCalledWith({ where: { type: 'send', status: 'processing' } });
+    expect(db.updateMany).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('execute', () => {
+  it('stores the result of a successful run', async () => {
+    send.mockResolvedValueOnce({ messageId: 'm1' });
+
+    await expect(runtime.execute(jobRow() as never)).resolves.toBe('completed');
+    expect(send).toHaveBeenCalledWith({ to: 'a@test' }, expect.objectContaining({ jobId: 'job-1', attempt: 1 }));
+    expect(db.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ status: 'completed', result: { messageId: 'm1' } }) })
+    );
+  });
+
+  it('reschedules a failed attempt with backoff', async () => {
+    send.mockRejectedValueOnce(new Error('SMTP down'));
+    const before = Date.now();
+
+    await expect(runtime.execute(jobRow({ retryCount: 1 }) as never)).resolves.toBe('retry');
+    const { data } = db.updateMany.mock.calls[0][0];
+    expect(data).toMatchObject({ status: 'pending', retryCount: 2, lastError: 'SMTP down' });
+    expect(data.errors).toEqual([expect.objectContaining({ attempt: 2, error: 'SMTP down' })]);
+    expect(data.scheduledFor.getTime()).toBeGreaterThanOrEqual(before + 2000);
+  });
+
+  it('dead-letters the last attempt with its error history', async () => {
+    send.mockRejectedValueOnce(new Error('Bounced'));
+    const errors = [
+      { attempt: 1, error: 'Timeout', at: '2026-03-02T09:00:00.000Z' },
+      { attempt: 2, error: 'Timeout', at: '2026-03-02T09:30:00.000Z' },
+    ];
+
+    await expect(runtime.execute(jobRow({ retryCount: 2, errors }) as never)).resolves.toBe('dead');
+    const { data } = db.updateMany.mock.calls[0][0];
+    expect(data).toMatchObject({ status: 'dead', retryCount: 3, lastError: 'Bounced' });
+    expect(data.errors.map((entry: { error: string }) => entry.error)).toEqual(['Timeout', 'Timeout', 'Bounced']);
+  });
+
+  it('dead-letters a JobError without retrying', async () => {
+    send.mockRejectedValueOnce(new JobError('INVALID_INPUT', 'No sender for invoice reminders'));
+
+    await expect(runtime.execute(jobRow() as never)).resolves.toBe('dead');
+    expect(db.updateMany.mock.calls[0][0].data).toMatchObject({
+      status: 'dead',
+      retryCount: 1,
+      lastError: 'No sender for invoice reminders',
+    });
+  });
+
+  it('aborts a run that times out and retries it once it has stopped', async () => {
+    slow.mockImplementationOnce(
+      (_payload, { signal }: { signal: AbortSignal }) =>
+        new Promise((_, reject) => signal.addEventListener('abort', () => reject(signal.reason)))
+    );
+
+    await expect(runtime.execute(jobRow({ type: 'slow', payload: {} }) as never)).resolves.toBe('retry');
+    expect(db.updateMany.mock.calls[0][0].data).toMatchObject({ status: 'pending', lastError: 'Timed out after 20ms' });
+  });
+
+  it('dead-letters a timed-out run that ignores the abort', async () => {
+    slow.mockImplementationOnce(() => new Promise((resolve) => setTimeout(resolve, 200)));
+
+    await expect(runtime.execute(jobRow({ type: 'slow', payload: {} }) as never)).resolves.toBe('dead');
+    expect(db.updateMany.mock.calls[0][0].data).toMatchObject({
+      status: 'dead',
+      lastError: 'Timed out after 20ms and kept running after it was aborted',
+    });
+  });
+
+  it('only settles the attempt that still holds the claim', async () => {
+    send.mockRejectedValueOnce(new Error('SMTP down'));
+    db.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    await runtime.execute(jobRow({ retryCount: 1 }) as never);
+    expect(db.updateMany.mock.calls[0][0].where).toEqual({ id: 'job-1', status: 'processing', retryCount: 1 });
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
+  it('reclaims stale runs without overwriting one that moved on', async () => {
+    db.findMany.mockResolvedValueOnce([jobRow({ id: 'a' }), jobRow({ id: 'b', retryCount: 1 })]);
+    db.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+
+    await expect(runtime.reclaimStale(new Date('2026-03-02T11:00:00Z'))).resolves.toBe(1);
+    expect(db.updateMany.mock.calls.map(([args]) => args.where)).toEqual([
+      { id: 'a', status: 'processing', retryCount: 0 },
+      { id: 'b', status: 'processing', retryCount: 1 },
+    ]);
+  });
+
+  it('records recurring runs in the cron log', async () => {
+    digest.mockResolvedValueOnce(undefined);
+
+    await runtime.execute(jobRow({ type: 'digest', payload: {} }) as never);
+    expect(withCronLog).toHaveBeenCalledWith('digest', expect.any(Function));
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * Tests for the jurisdiction rules engine
+ * Feature: jurisdiction-rules
+ */
+
+jest.mock('@/db/prisma', () => ({ prisma: {} }));
+
+import {
+  BUILT_IN_JURISDICTION_RULES,
+  calculateNoticeDeadline,
+  checkDepositReturn,
+  checkEvictionNotice,
+  checkLateFeeSettings,
+  checkLeaseTerms,
+  classifyEvictionNotice,
+  getBuiltInJurisdictionRules,
+  getLateFeeCap,
+  getPropertyLocation,
+  normalizeJurisdictionRuleInput,
+  resolveJurisdictionRules,
+  toJurisdictionRuleVersion,
+  type JurisdictionRuleVersion,
+} from '@/lib/services/jurisdiction-rules.service';
+import type { JurisdictionRule } from '@prisma/client';
+import { buildLeaseDataFromRecords, getLeaseComplianceIssues } from '@/lib/services/lease-builder';
+
+const day = (iso: string) => new Date(`${iso}T12:00:00.000Z`);
+
+describe('resolveJurisdictionRules', () => {
+  it('applies versions in effect on the date', () => {
+    expect(getBuiltInJurisdictionRules('CA', null, day('2024-06-30')).depositCapMonths).toBe(2);
+    expect(getBuiltInJurisdictionRules('CA', null, day('2024-07-01')).depositCapMonths).toBe(1);
+  });
+
+  it('layers city rules over state rules', () => {
+    const seattle = getBuiltInJurisdictionRules('wa', 'Seattle', day('2026-10-19'));
+    expect(seattle.rentIncreaseNoticeDays).toBe(180);
+    expect(seattle.depositReturnDays).toBe(30);
+    expect(seattle.sources).toEqual([
+      'DEFAULT v1 (built-in)',
+      'WA v1 (built-in)',
+      'WA v2 (built-in)',
+      'SEATTLE, WA v1 (built-in)',
+    ]);
+  });
+
+  it('falls back to the default rules for unknown states', () => {
+    const rules = getBuiltInJurisdictionRules('ZZ');
+    expect(rules.state).toBe('ZZ');
+    expect(rules.depositReturnDays).toBe(30);
+    expect(rules.requiredDisclosures).toEqual(['lead_paint']);
+  });
+
+  it('accumulates required disclosures across layers', () => {
+    const rules = getBuiltInJurisdictionRules('FL');
+    expect(rules.requiredDisclosures).toEqual(['lead_paint', 'radon', 'flood_zone']);
+  });
+
+  it('applies stored versions after built-in ones and honours effectiveTo', () => {
+    const stored: JurisdictionRuleVersion[] = [
+      { id: 'r1', state: 'TX', version: 1, effectiveFrom: day('2025-01-01'), lateFeeCapPercent: 10 },
+      {
+        id: 'r2',
+        state: 'TX',
+        version: 2,
+        effectiveFrom: day('2026-01-01'),
+        effectiveTo: day('2026-06-01'),
+        lateFeeMinGraceDays: 4,
+      },
+    ];
+    const candidates = [...BUILT_IN_JURISDICTION_RULES, ...stored];
+
+    const spring = resolveJurisdictionRules(candidates, { state: 'TX' }, day('2026-03-01'));
+    expect(spring.lateFeeCapPercent).toBe(10);
+    expect(spring.lateFeeMinGraceDays).toBe(4);
+    expect(spring.sources.slice(-2)).toEqual(['TX v1 (custom)', 'TX v2 (custom)']);
+
+    const autumn = resolveJurisdictionRules(candidates, { state: 'TX' }, day('2026-10-01'));
+    expect(autumn.lateFeeCapPercent).toBe(10);
+    expect(autumn.lateFeeMinGraceDays).toBe(2);
+  });
+
+  it('clears fields set to null and inherits fields left out', () => {
+    const stored: JurisdictionRuleVersion[] = [
+      {
+        id: 'r1',
+        state: 'NY',
+        version: 1,
+        effectiveFrom: day('2026-01-01'),
+        lateFeeCapAmount: null,
+        rentIncreaseNoticeTiers: null,
+        payOrQuitNoticeDays: null,
+      },
+    ];
+    const rules = resolveJurisdictionRules([...BUILT_IN_JURISDICTION_RULES, ...stored], { state: 'NY' }, day('2026-03-01'));
+    expect(rules.lateFeeCapAmount).toBeNull();
+    expect(rules.rentIncreaseNoticeTiers).toEqual([]);
+    expect(rules.payOrQuitNoticeDays).toBe(3);
+    expect(rules.lateFeeCapPercent).toBe(5);
+  });
+
+  it('only treats stored nulls as cleared when the version says so', () => {
+    const row = {
+      id: 'r1',
+      state: 'NY',
+      city: null,
+      version: 1,
+      effectiveFrom: day('2026-01-01'),
+      effectiveTo: null,
+      depositCapMonths: null,
+      depositReturnDays: 21,
+      lateFeeCapPercent: null,
+      lateFeeCapAmount: null,
+      lateFeeCapRule: null,
+      lateFeeMinGraceDays: null,
+      entryNoticeHours: null,
+      terminationNoticeDays: null,
+      rentIncreaseNoticeDays: null,
+      rentIncreaseNoticeTiers: null,
+      payOrQuitNoticeDays: null,
+      cureOrQuitNoticeDays: null,
+      noticeCourtDaysOnly: null,
+      clearedFields: ['lateFeeCapAmount'],
+      requiredDisclosures: [],
+      notes: [],
+      source: null,
+    } as unknown as JurisdictionRule;
+    const rules = resolveJurisdictionRules(
+      [...BUILT_IN_JURISDICTION_RULES, toJurisdictionRuleVersion(row)],
+      { state: 'NY' },
+      day('2026-03-01')
+    );
+    expect(rules.depositReturnDays).toBe(21);
+    expect(rules.lateFeeCapAmount).toBeNull();
+    expect(rules.lateFeeCapPercent).toBe(5);
+    expect(rules.depositCapMonths).toBe(1);
+  });
+});
+
+describe('late fees', () => {
+  it('combines percentage and flat caps', () => {
+    expect(getLateFeeCap(getBuiltInJurisdictionRules('NY'), 2000)).toBe(50);
+    expect(getLateFeeCap(getBuiltInJurisdictionRules('NY'), 800)).toBe(40);
+    expect(getLateFeeCap(getBuiltInJurisdictionRules('CO'), 800)).toBe(50);
+    expect(getLateFeeCap(getBuiltInJurisdictionRules('CA'), 2000)).toBeNull();
+  });
+
+  it('flags short grace periods and fees over the cap', () => {
+    const issues = checkLateFeeSettings(
+      { gracePeriodDays: 3, feeType: 'flat', feeAmount: 75 },
+      getBuiltInJurisdictionRules('NY'),
+      [2400, 1800]
+    );
+    expect(issues.map((issue) => issue.code)).toEqual(['LATE_FEE_GRACE_PERIOD', 'LATE_FEE_CAP']);
+    expect(issues[1].message).toContain('$50.00');
+  });
+
+  it('accepts fees limited by maxFee', () => {
+    const issues = checkLateFeeSettings(
+      { gracePeriodDays: 5, feeType: 'percentage', feeAmount: 10, maxFee: 50 },
+      getBuiltInJurisdictionRules('NY'),
+      [2000]
+    );
+    expect(issues).toEqual([]);
+  });
+
+  it('checks percentage fees without rents', () => {
+    const issues = checkLateFeeSettings(
+      { gracePeriodDays: 5, feeType: 'percentage', feeAmount: 8 },
+      getBuiltInJurisdictionRules('FL')
+    );
+    expect(issues.map((issue) => issue.code)).toEqual(['LATE_FEE_CAP']);
+  });
+});
+
+describe('lease terms', () => {
+  const terms = {
+    monthlyRent: 2000,
+    securityDepositAmount: 2000,
+    depositReturnDays: 14,
+    gracePeriodDays: 5,
+    lateFeeAmount: 50,
+    entryNoticeHours: 24,
+  };
+
+  it('passes compliant terms', () => {
+    expect(checkLeaseTerms(terms, getBuiltInJurisdictionRules('NY'))).toEqual([]);
+  });
+
+  it('flags deposits, return windows and entry notice outside the rules', () => {
+    const issues = checkLeaseTerms(
+      { ...terms, securityDepositAmount: 4000, depositReturnDays: 30, entryNoticeHours: 24 },
+      getBuiltInJurisdictionRules('AZ')
+    );
+    expect(issues.map((issue) => [issue.code, issue.severity])).toEqual([
+      ['DEPOSIT_CAP', 'error'],
+      ['DEPOSIT_RETURN_DAYS', 'error'],
+      ['ENTRY_NOTICE', 'warning'],
+    ]);
+  });
+
+  it('builds leases inside the limits by default', () => {
+    const lease = buildLeaseDataFromRecords({
+      landlord: { name: 'Landlord', securityDepositMonths: 2 },
+      property: { name: 'Elm', address: { state: 'NY', city: 'Albany' } },
+      unit: { name: '1A', type: 'apartment', rentAmount: 2000 },
+      tenant: { name: 'Tenant', email: 'tenant@example.com' },
+      leaseTerms: { startDate: day('2026-11-01'), billingDayOfMonth: 1 },
+    });
+    expect(lease.securityDepositAmount).toBe(2000);
+    expect(lease.depositReturnDays).toBe(14);
+    expect(lease.maxLateFee).toBe(50);
+    expect(getLeaseComplianceIssues(lease)).toEqual([]);
+    expect(getLeaseComplianceIssues({ ...lease, gracePeriodDays: 2 }).map((issue) => issue.code)).toEqual([
+      'LATE_FEE_GRACE_PERIOD',
+    ]);
+  });
+});
+
+describe('deposit returns', () => {
+  it('sets the deadline from move-out and warns when late', () => {
+    const rules = getBuiltInJurisdictionRules('CA', null, day('2026-01-31'));
+    const onTime = checkDepositReturn(
+      { moveOutDate: day('2026-01-31'), dispositionDate: day('2026-02-10'), originalAmount: 2000, monthlyRent: 2000 },
+      rules
+    );
+    expect(onTime.returnDeadline).toEqual(day('2026-02-21'));
+    expect(onTime.issues).toEqual([]);
+
+    const late = checkDepositReturn(
+      { moveOutDate: day('2026-01-31'), dispositionDate: day('2026-03-01'), originalAmount: 4000, monthlyRent: 2000 },
+      rules
+    );
+    expect(late.issues.map((issue) => issue.code)).toEqual(['DEPOSIT_RETURN_LATE', 'DEPOSIT_CAP']);
+  });
+});
+
+describe('eviction notices', () => {
+  it('classifies notices', () => {
+    expect(classifyEvictionNotice('3-day', 1200)).toBe('nonpayment');
+    expect(classifyEvictionNotice('30-day')).toBe('termination');
+    expect(classifyEvictionNotice('7-day', 0)).toBe('lease_violation');
+  });
+
+  it('rejects notices shorter than the jurisdiction requires', () => {
+    const ny = getBuiltInJurisdictionRules('NY');
+    expect(checkEvictionNotice({ noticeDays: 7, kind: 'nonpayment' }, ny)[0].message).toContain('14 days');
+    expect(checkEvictionNotice({ noticeDays: 30, kind: 'termination' }, ny)).toEqual([]);
+    expect(checkEvictionNotice({ noticeDays: 3, kind: 'nonpayment' }, getBuiltInJurisdictionRules('CA'))).toEqual([]);
+  });
+
+  it('skips weekends when only court days count', () => {
+    // Thursday + 3 court days = Tuesday
+    expect(calculateNoticeDeadline(day('2026-10-15'), 3, true)).toEqual(day('2026-10-20'));
+    expect(calculateNoticeDeadline(day('2026-10-15'), 3, false)).toEqual(day('2026-10-18'));
+  });
+});
+
+describe('input handling', () => {
+  it('reads state and city from a property address', () => {
+    expect(getPropertyLocation({ street: '1 Main', city: ' Chicago ', state: 'il' })).toEqual({
+      state: 'IL',
+      city: 'CHICAGO',
+    });
+    expect(getPropertyLocation(null)).toEqual({ state: null, city: null });
+  });
+
+  it('validates new rule versions', () => {
+    const result = normalizeJurisdictionRuleInput({
+      state: 'tx',
+      effectiveFrom: '2027-01-01',
+      lateFeeCapPercent: '10',
+      requiredDisclosures: ['lead_paint'],
+    });
+    expect(result).toMatchObject({
+      data: { state: 'TX', city: null, lateFeeCapPercent: 10, requiredDisclosures: ['lead_paint'] },
+    });
+    expect(normalizeJurisdictionRuleInput({ state: 'Texas' })).toEqual({
+      error: 'state must be a two-letter code or DEFAULT',
+    });
+    expect(normalizeJurisdictionRuleInput({ state: 'TX', lateFeeCapPercent: null, lateFeeCapRule: null })).toMatchObject({
+      data: { lateFeeCapPercent: null, lateFeeCapRule: null },
+    });
+    expect(normalizeJurisdictionRuleInput({ state: 'TX', requiredDisclosures: ['pets'] })).toEqual({
+      error: 'Unknown disclosure in requiredDisclosures',
+    });
+  });
+});
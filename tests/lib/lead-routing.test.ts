@@ -0,0 +1,510 @@
+/**
+ * Tests for lead routing: candidate scoring and filters, tiered escalation,
+ * charging by pricing model and refunds
+ * Feature: lead-routing
+ */
+
+jest.mock('@/db/prisma', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    contractorLead: { findUnique: jest.fn(), findMany: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+    contractorLeadMatch: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    contractorProfile: { findMany: jest.fn(), findUnique: jest.fn() },
+    contractorLeadCredit: { findUnique: jest.fn(), findUniqueOrThrow: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+    contractorCreditTransaction: { create: jest.fn(), findMany: jest.fn() },
+  },
+}));
+
+jest.mock('@/lib/services/contractor-service-area.service', () => ({
+  findContractorsServing: jest.fn(),
+  geocodeLead: jest.fn(),
+}));
+
+jest.mock('@/lib/event-system', () => ({
+  dbTriggers: { onContractorLeadMatch: jest.fn() },
+}));
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/db/prisma';
+import { findContractorsServing } from '@/lib/services/contractor-service-area.service';
+import {
+  acceptLeadMatch,
+  calculateLeadCost,
+  chargeLeadMatch,
+  escalateStaleLeads,
+  evaluateCandidate,
+  invalidateLead,
+  isEscalationDue,
+  LeadRoutingError,
+  MAX_ROUTING_TIERS,
+  refundLeadMatch,
+  resolveMatchPricing,
+  respondToLeadMatch,
+  routeLead,
+  type RoutingCandidate,
+} from '@/lib/services/lead-routing.service';
+
+const db = prisma as unknown as Record<string, Record<string, jest.Mock>> & { $transaction: jest.Mock };
+
+const NOW = new Date('2026-05-04T15:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+function lead(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'lead-1',
+    projectType: 'plumbing',
+    projectTitle: 'Leaking water heater',
+    budgetMin: new Prisma.Decimal(300),
+    budgetMax: new Prisma.Decimal(800),
+    urgency: 'normal',
+    propertyAddress: null,
+    propertyZip: '89101',
+    propertyCity: 'Las Vegas',
+    propertyState: 'NV',
+    propertyType: 'residential',
+    propertyLatitude: 36.17,
+    propertyLongitude: -115.14,
+    leadScore: 60,
+    isExclusive: false,
+    maxContractors: 2,
+    status: 'new',
+    routingTier: 0,
+    routedAt: null,
+    matches: [],
+    ...overrides,
+  };
+}
+
+function credit(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'credit-1',
+    contractorId: 'c-1',
+    creditBalance: new Prisma.Decimal(100),
+    subscriptionStatus: 'none',
+    leadsIncluded: 0,
+    leadsUsedThisMonth: 0,
+    preferredPricing: 'per_lead',
+    maxLeadCost: null,
+    ...overrides,
+  };
+}
+
+function candidate(id: string, overrides: Partial<RoutingCandidate> & { profile?: Record<string, unknown> } = {}): RoutingCandidate {
+  const { profile, ...rest } = overrides;
+  return {
+    profile: {
+      id,
+      specialties: ['Plumbing'],
+      avgRating: 4.6,
+      totalReviews: 30,
+      completedJobs: 40,
+      responseRate: 80,
+      onTimeRate: 90,
+      identityVerified: true,
+      insuranceVerified: true,
+      backgroundChecked: false,
+      profilePhoto: null,
+      coverPhoto: null,
+      bio: null,
+      tagline: null,
+      baseCity: 'Las Vegas',
+      baseState: 'NV',
+      featuredUntil: null,
+      visibilityCredits: 0,
+      newContractorBoostUntil: null,
+      lastActiveAt: NOW,
+      createdAt: new Date('2025-01-01'),
+      minimumJobSize: null,
+      leadCredit: null,
+      leadPreferences: null,
+      ...profile,
+    } as unknown as RoutingCandidate['profile'],
+    proximity: { contractorId: id, distanceMiles: 5, servesLocation: true },
+    leadsToday: 0,
+    leadsThisWeek: 0,
+    history: { routed: 10, answered: 8 },
+    ...rest,
+  };
+}
+
+function preferences(overrides: Record<string, unknown> = {}) {
+  return {
+    acceptedTypes: [],
+    excludedTypes: [],
+    minJobValue: null,
+    maxJobValue: null,
+    serviceZipCodes: [],
+    serviceRadius: null,
+    acceptEmergency: true,
+    maxLeadsPerDay: null,
+    maxLeadsPerWeek: null,
+    residentialOnly: false,
+    commercialOnly: false,
+    isPaused: false,
+    pausedUntil: null,
+    ...overrides,
+  };
+}
+
+function profileRow(id: string, overrides: Record<string, unknown> = {}) {
+  return { ...candidate(id).profile, ...overrides };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  db.$transaction.mockImplementation((fn: (tx: unknown) => unknown) => fn(prisma));
+  (findContractorsServing as jest.Mock).mockResolvedValue(new Map());
+  db.contractorLeadMatch.findMany.mockResolvedValue([]);
+  db.contractorLeadMatch.create.mockImplementation(({ data }) => Promise.resolve({ id: `match-${data.contractorId}`, ...data }));
+});
+
+describe('pricing', () => {
+  it('charges more for exclusive and high-quality leads', () => {
+    expect(calculateLeadCost({ isExclusive: false, leadScore: 50 })).toBe(10);
+    expect(calculateLeadCost({ isExclusive: true, leadScore: 90 })).toBe(30);
+  });
+
+  it('prices by the contractor’s preferred model', () => {
+    expect(resolveMatchPricing(null, 10)).toEqual({ pricingModel: 'free', leadCost: null, bookingFeePercent: null });
+    expect(resolveMatchPricing(credit({ preferredPricing: 'per_booking' }) as never, 10).bookingFeePercent).toBe(6);
+    // An inactive subscription pays per lead
+    expect(resolveMatchPricing(credit({ preferredPricing: 'subscription' }) as never, 10).pricingModel).toBe('per_lead');
+  });
+});
+
+describe('evaluateCandidate', () => {
+  it('matches specialties regardless of case', () => {
+    const result = evaluateCandidate(lead() as never, candidate('c-1'), NOW);
+    expect(result.eligible).toBe(true);
+  });
+
+  it.each([
+    ['paused', { leadPreferences: preferences({ isPaused: true, pausedUntil: new Date('2026-06-01') }) }],
+    ['excluded_type', { leadPreferences: preferences({ excludedTypes: ['Plumbing'] }) }],
+    ['below_min_job_value', { leadPreferences: preferences({ minJobValue: new Prisma.Decimal(1000) }) }],
+    ['property_type', { leadPreferences: preferences({ commercialOnly: true }) }],
+    ['insufficient_credits', { leadCredit: credit({ creditBalance: new Prisma.Decimal(5) }) }],
+    ['over_max_lead_cost', { leadCredit: credit({ maxLeadCost: new Prisma.Decimal(8) }) }],
+  ])('filters out %s', (reason, profile) => {
+    expect(evaluateCandidate(lead() as never, candidate('c-1', { profile }), NOW)).toEqual({ eligible: false, reason });
+  });
+
+  it('enforces lead caps and the preference radius', () => {
+    const capped = candidate('c-1', { profile: { leadPreferences: preferences({ maxLeadsPerWeek: 5 }) }, leadsThisWeek: 5 });
+    const far = candidate('c-2', {
+      profile: { leadPreferences: preferences({ serviceRadius: 10 }) },
+      proximity: { contractorId: 'c-2', distanceMiles: 18, servesLocation: true },
+    });
+
+    expect(evaluateCandidate(lead() as never, capped, NOW)).toEqual({ eligible: false, reason: 'weekly_cap' });
+    expect(evaluateCandidate(lead() as never, far, NOW)).toEqual({ eligible: false, reason: 'outside_radius' });
+  });
+
+  it('ignores a pause that has ended', () => {
+    const profile = { leadPreferences: preferences({ isPaused: true, pausedUntil: new Date('2026-05-01') }) };
+    expect(evaluateCandidate(lead() as never, candidate('c-1', { profile }), NOW).eligible).toBe(true);
+  });
+
+  it('ranks responsive, nearby contractors higher', () => {
+    const strong = evaluateCandidate(lead() as never, candidate('c-1'), NOW);
+    const weak = evaluateCandidate(
+      lead() as never,
+      candidate('c-2', { proximity: { contractorId: 'c-2', distanceMiles: 45, servesLocation: true }, history: { routed: 10, answered: 1 } }),
+      NOW
+    );
+
+    if (!strong.eligible || !weak.eligible) throw new Error('expected both to be eligible');
+    expect(strong.score).toBeGreaterThan(weak.score);
+    expect(strong.reasons).toEqual(expect.arrayContaining(['serves the property (5 mi)', 'picks up 80% of leads']));
+  });
+
+  it('lets a subscriber with leads left skip the credit check', () => {
+    const leadCredit = credit({
+      preferredPricing: 'subscription',
+      subscriptionStatus: 'active',
+      leadsIncluded: 10,
+      leadsUsedThisMonth: 3,
+      creditBalance: new Prisma.Decimal(0),
+    });
+    const result = evaluateCandidate(lead() as never, candidate('c-1', { profile: { leadCredit } }), NOW);
+    expect(result).toMatchObject({ eligible: true, pricing: { pricingModel: 'subscription', leadCost: 10 } });
+  });
+});
+
+describe('routeLead', () => {
+  it('matches the best contractors up to the lead’s cap', async () => {
+    db.contractorLead.findUnique.mockResolvedValue(lead());
+    db.contractorProfile.findMany.mockResolvedValue([
+      profileRow('c-1', { avgRating: 3, totalReviews: 2 }),
+      profileRow('c-2'),
+      profileRow('c-3', { leadPreferences: preferences({ isPaused: true }) }),
+      profileRow('c-4', { avgRating: 4.9, totalReviews: 120, completedJobs: 200 }),
+    ]);
+
+    const result = await routeLead('lead-1');
+
+    expect(result.matches.map((m) => m.contractorId)).toEqual(['c-4', 'c-2']);
+    expect(result.excluded).toEqual({ paused: 1 });
+    expect(db.contractorLeadMatch.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ contractorId: 'c-4', pricingModel: 'free', routingTier: 1, status: 'pending' }),
+    });
+    expect(db.contractorLead.update).toHaveBeenCalledWith({
+      where: { id: 'lead-1' },
+      data: expect.objectContaining({ status: 'matching', routingTier: 1 }),
+    });
+    expect(db.contractorLeadMatch.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('skips contractors already matched and expires the earlier tier', async () => {
+    db.contractorLead.findUnique.mockResolvedValue(lead({ status: 'matching', routingTier: 1, matches: [{ contractorId: 'c-1' }] }));
+    db.contractorProfile.findMany.mockResolvedValue([profileRow('c-5')]);
+
+    await routeLead('lead-1', 2);
+
+    expect(db.contractorProfile.findMany.mock.calls[0][0].where.id).toEqual({ notIn: ['c-1'] });
+    expect(db.contractorLeadMatch.updateMany).toHaveBeenCalledWith({
+      where: { leadId: 'lead-1', routingTier: { lt: 2 }, status: { in: ['pending', 'viewed'] } },
+      data: { status: 'expired' },
+    });
+  });
+
+  it('refuses leads that are no longer open', async () => {
+    db.contractorLead.findUnique.mockResolvedValue(lead({ status: 'booked' }));
+    await expect(routeLead('lead-1')).rejects.toThrow(LeadRoutingError);
+  });
+});
+
+describe('escalation', () => {
+  const routed = (overrides: Record<string, unknown> = {}) => ({
+    urgency: 'normal',
+    routingTier: 1,
+    routedAt: new Date(NOW.getTime() - 25 * HOUR),
+    matches: [{ routingTier: 1, status: 'viewed', respondedAt: null }],
+    ...overrides,
+  });
+
+  it('is due once the urgency window passes without a response', () => {
+    expect(isEscalationDue(routed(), NOW)).toBe(true);
+    expect(isEscalationDue(routed({ routedAt: new Date(NOW.getTime() - 2 * HOUR) }), NOW)).toBe(false);
+    expect(isEscalationDue(routed({ urgency: 'emergency', routedAt: new Date(NOW.getTime() - 2 * HOUR) }), NOW)).toBe(true);
+  });
+
+  it('is due early when the whole tier declined, and never once someone engaged', () => {
+    const recent = new Date(NOW.getTime() - 2 * HOUR);
+    expect(isEscalationDue(routed({ routedAt: recent, matches: [{ routingTier: 1, status: 'lost', respondedAt: null }] }), NOW)).toBe(true);
+    expect(isEscalationDue(routed({ matches: [{ routingTier: 1, status: 'sent', respondedAt: null }] }), NOW)).toBe(false);
+  });
+
+  it('stops escalating a lead with nobody left to route to', async () => {
+    db.contractorLead.findMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ id: 'lead-1', ...routed() }]);
+    db.contractorLead.findUnique.mockResolvedValue(lead({ status: 'matching', routingTier: 1 }));
+    db.contractorProfile.findMany.mockResolvedValue([]);
+
+    const result = await escalateStaleLeads(NOW);
+
+    expect(result).toEqual({ expired: 0, escalated: 0, exhausted: 1, failed: 0 });
+    expect(db.contractorLead.update).toHaveBeenCalledWith({ where: { id: 'lead-1' }, data: { routingTier: MAX_ROUTING_TIERS } });
+  });
+
+  it('expires leads past their expiry date', async () => {
+    db.contractorLead.findMany.mockResolvedValueOnce([{ id: 'lead-9' }]).mockResolvedValueOnce([]);
+
+    const result = await escalateStaleLeads(NOW);
+
+    expect(result.expired).toBe(1);
+    expect(db.contractorLead.updateMany).toHaveBeenCalledWith({ where: { id: { in: ['lead-9'] } }, data: { status: 'expired' } });
+  });
+});
+
+describe('chargeLeadMatch', () => {
+  const match = (overrides: Record<string, unknown> = {}) => ({
+    id: 'match-1',
+    leadId: 'lead-1',
+    contractorId: 'c-1',
+    pricingModel: 'per_lead',
+    leadCost: new Prisma.Decimal(15),
+    status: 'pending',
+    chargedAt: null,
+    chargedAmount: null,
+    lead: { projectTitle: null, projectType: 'plumbing' },
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    db.contractorLeadMatch.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('debits the credit balance once', async () => {
+    db.contractorLeadMatch.findUnique.mockResolvedValue(match());
+    db.contractorLeadCredit.findUnique.mockResolvedValue(credit());
+    db.contractorLeadCredit.updateMany.mockResolvedValue({ count: 1 });
+    db.contractorLeadCredit.findUniqueOrThrow.mockResolvedValue(credit({ creditBalance: new Prisma.Decimal(85) }));
+
+    const charge = await chargeLeadMatch('match-1');
+
+    expect(charge).toEqual({ pricingModel: 'per_lead', amount: 15, alreadyCharged: false });
+    expect(db.contractorLeadCredit.updateMany).toHaveBeenCalledWith({
+      where: { id: 'credit-1', creditBalance: { gte: 15 } },
+      data: { creditBalance: { decrement: 15 } },
+    });
+    expect(db.contractorCreditTransaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: 'lead_charge', amount: -15, leadMatchId: 'match-1' }),
+    });
+  });
+
+  it('does not charge twice', async () => {
+    db.contractorLeadMatch.findUnique.mockResolvedValue(match({ chargedAt: NOW, chargedAmount: new Prisma.Decimal(15) }));
+
+    await expect(chargeLeadMatch('match-1')).resolves.toEqual({ pricingModel: 'per_lead', amount: 15, alreadyCharged: true });
+    expect(db.contractorLeadCredit.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('uses a subscription lead before touching credits', async () => {
+    const account = credit({ preferredPricing: 'subscription', subscriptionStatus: 'active', leadsIncluded: 5, leadsUsedThisMonth: 2 });
+    db.contractorLeadMatch.findUnique.mockResolvedValue(match({ pricingModel: 'subscription' }));
+    db.contractorLeadCredit.findUnique.mockResolvedValue(account);
+    db.contractorLeadCredit.update.mockResolvedValue({ ...account, leadsUsedThisMonth: 3 });
+
+    const charge = await chargeLeadMatch('match-1');
+
+    expect(charge.amount).toBe(0);
+    expect(db.contractorLeadCredit.update).toHaveBeenCalledWith({ where: { id: 'credit-1' }, data: { leadsUsedThisMonth: { increment: 1 } } });
+    expect(db.contractorCreditTransaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: 'subscription', amount: 0, description: 'Subscription lead 3/5: plumbing' }),
+    });
+    expect(db.contractorLeadCredit.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('refuses when the balance can’t cover the lead', async () => {
+    db.contractorLeadMatch.findUnique.mockResolvedValue(match());
+    db.contractorLeadCredit.findUnique.mockResolvedValue(credit({ creditBalance: new Prisma.Decimal(4) }));
+    db.contractorLeadCredit.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(chargeLeadMatch('match-1')).rejects.toMatchObject({ code: 'INSUFFICIENT_CREDITS' });
+  });
+
+  it('takes nothing up front for pay-per-booking', async () => {
+    db.contractorLeadMatch.findUnique.mockResolvedValue(match({ pricingModel: 'per_booking', leadCost: null }));
+
+    await expect(chargeLeadMatch('match-1')).resolves.toEqual({ pricingModel: 'per_booking', amount: 0, alreadyCharged: false });
+    expect(db.contractorLeadCredit.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('accepts only an open match on a live lead, in the same step as the charge', async () => {
+    db.contractorLeadMatch.findUnique.mockResolvedValue(match({ pricingModel: 'per_booking', leadCost: null }));
+
+    await acceptLeadMatch('match-1');
+
+    expect(db.contractorLeadMatch.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: 'match-1',
+        status: { in: ['pending', 'viewed'] },
+        lead: { status: { notIn: ['expired', 'cancelled'] } },
+        chargedAt: null,
+      },
+      data: expect.objectContaining({ status: 'sent', chargedAt: expect.any(Date), chargedAmount: 0 }),
+    });
+    expect(db.contractorLeadMatch.update).not.toHaveBeenCalled();
+  });
+
+  it('charges nothing once the match expired or the lead was cancelled', async () => {
+    db.contractorLeadMatch.findUnique.mockResolvedValueOnce(match()).mockResolvedValueOnce({ chargedAt: null });
+    db.contractorLeadMatch.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(acceptLeadMatch('match-1')).rejects.toMatchObject({ code: 'INVALID_STATE' });
+    expect(db.contractorLeadCredit.findUnique).not.toHaveBeenCalled();
+    expect(db.contractorCreditTransaction.create).not.toHaveBeenCalled();
+  });
+
+  it('records a response to an accepted lead without charging again', async () => {
+    db.contractorLeadMatch.findUnique.mockResolvedValue(
+      match({ status: 'sent', chargedAt: NOW, chargedAmount: new Prisma.Decimal(15) })
+    );
+
+    const charge = await respondToLeadMatch('match-1', { message: 'Can do Tuesday', quoteAmount: 250, estimatedDuration: null });
+
+    expect(charge).toEqual({ pricingModel: 'per_lead', amount: 15, alreadyCharged: true });
+    expect(db.contractorLeadMatch.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: 'match-1',
+        status: { in: ['pending', 'viewed', 'sent'] },
+        lead: { status: { notIn: ['expired', 'cancelled'] } },
+      },
+      data: expect.objectContaining({ status: 'quoted', quoteAmount: 250, respondedAt: expect.any(Date) }),
+    });
+    expect(db.contractorLead.updateMany).toHaveBeenCalledWith({
+      where: { id: 'lead-1', status: { notIn: ['expired', 'cancelled'] } },
+      data: { status: 'responded' },
+    });
+    expect(db.contractorLeadCredit.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('refuses a response once the lead was cancelled', async () => {
+    db.contractorLeadMatch.findUnique.mockResolvedValue(match({ status: 'sent', chargedAt: NOW }));
+    db.contractorLeadMatch.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(
+      respondToLeadMatch('match-1', { message: 'Still available?', quoteAmount: null, estimatedDuration: null })
+    ).rejects.toMatchObject({ code: 'INVALID_STATE' });
+    expect(db.contractorLead.updateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('refunds', () => {
+  it('puts lead charges back on the balance', async () => {
+    db.contractorLeadMatch.updateMany.mockResolvedValue({ count: 1 });
+    db.contractorCreditTransaction.findMany.mockResolvedValue([
+      { creditAccountId: 'credit-1', type: 'lead_charge', amount: new Prisma.Decimal(-15) },
+    ]);
+    db.contractorLeadCredit.findUniqueOrThrow.mockResolvedValue(credit({ creditBalance: new Prisma.Decimal(100) }));
+
+    const refunded = await refundLeadMatch('match-1', 'Spam');
+
+    expect(refunded).toBe(15);
+    expect(db.contractorLeadCredit.update).toHaveBeenCalledWith({ where: { id: 'credit-1' }, data: { creditBalance: { increment: 15 } } });
+    expect(db.contractorCreditTransaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: 'refund', amount: 15, description: 'Refund: Spam' }),
+    });
+    expect(db.contractorLeadMatch.update).toHaveBeenCalledWith({
+      where: { id: 'match-1' },
+      data: expect.objectContaining({ status: 'refunded', refundApproved: true, refundAmount: 15 }),
+    });
+  });
+
+  it('leaves uncharged or already refunded matches alone', async () => {
+    db.contractorLeadMatch.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(refundLeadMatch('match-1', 'Spam')).resolves.toBe(0);
+    expect(db.contractorCreditTransaction.findMany).not.toHaveBeenCalled();
+  });
+
+  it('cancels an invalid lead and refunds only the matches that paid', async () => {
+    db.contractorLead.findUnique.mockResolvedValue(lead({ status: 'matching' }));
+    db.contractorLeadMatch.findMany.mockResolvedValue([{ id: 'match-1' }]);
+    db.contractorLeadMatch.updateMany.mockResolvedValue({ count: 1 });
+    db.contractorCreditTransaction.findMany.mockResolvedValue([
+      { creditAccountId: 'credit-1', type: 'lead_charge', amount: new Prisma.Decimal(-10) },
+    ]);
+    db.contractorLeadCredit.findUniqueOrThrow.mockResolvedValue(credit());
+
+    const result = await invalidateLead('lead-1', 'Duplicate request');
+
+    expect(result).toEqual({ refundedMatches: 1, refundedAmount: 10 });
+    expect(db.contractorLead.update).toHaveBeenCalledWith({ where: { id: 'lead-1' }, data: { status: 'cancelled' } });
+    expect(db.contractorLeadMatch.findMany).toHaveBeenCalledWith({
+      where: { leadId: 'lead-1', chargedAt: { not: null }, refundedAt: null },
+      select: { id: true },
+    });
+    expect(db.contractorLead.update.mock.invocationCallOrder[0]).toBeLessThan(
+      db.contractorLeadMatch.findMany.mock.invocationCallOrder[0]
+    );
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Tests for the lease renewal workflow helpers
+ * Feature: lease-renewal
+ */
+
+import * as fc from 'fast-check';
+
+jest.mock('@/db/prisma', () => ({
+  prisma: {
+    leaseRenewal: { findUnique: jest.fn(), update: jest.fn() },
+    lease: { findUnique: jest.fn() },
+  },
+}));
+jest.mock('@/lib/services/pdf', () => ({ htmlToPdfBuffer: jest.fn() }));
+jest.mock('@/lib/cloudinary', () => ({ uploadToCloudinary: jest.fn() }));
+jest.mock('@/lib/services/email-service', () => ({ sendBrandedEmail: jest.fn() }));
+jest.mock('@/lib/services/notification-service', () => ({ NotificationService: {} }));
+jest.mock('@/lib/services/application-approval.service', () => ({ generateSignatureFields: jest.fn() }));
+
+import { prisma } from '@/db/prisma';
+import {
+  acceptRenewalCounter,
+  buildDefaultRenewalOptions,
+  checkRenewalNotice,
+  checkRenewalOptionsNotice,
+  getFirstPostDate,
+  getRenewalTerm,
+  nextRenewalStatus,
+  normalizeRenewalOptions,
+  withdrawRenewal,
+} from '@/lib/services/lease-renewal.service';
+import { getBuiltInJurisdictionRules } from '@/lib/services/jurisdiction-rules.service';
+
+const date = (y: number, m: number, d: number) => new Date(y, m - 1, d);
+
+describe('nextRenewalStatus', () => {
+  it('follows the offer lifecycle', () => {
+    expect(nextRenewalStatus('draft', 'send')).toBe('offered');
+    expect(nextRenewalStatus('offered', 'counter')).toBe('countered');
+    expect(nextRenewalStatus('countered', 'revise')).toBe('offered');
+    expect(nextRenewalStatus('countered', 'accept_counter')).toBe('accepted');
+    expect(nextRenewalStatus('accepted', 'complete')).toBe('completed');
+  });
+
+  it('rejects actions that do not apply', () => {
+    expect(nextRenewalStatus('draft', 'accept')).toBeNull();
+    expect(nextRenewalStatus('offered', 'accept_counter')).toBeNull();
+    expect(nextRenewalStatus('declined', 'send')).toBeNull();
+    expect(nextRenewalStatus('unknown', 'send')).toBeNull();
+  });
+});
+
+describe('buildDefaultRenewalOptions', () => {
+  it('charges a premium for shorter commitments', () => {
+    expect(buildDefaultRenewalOptions(2000, 3)).toEqual([
+      { id: '12m', label: '12-month renewal', termMonths: 12, rentAmount: 2060 },
+      { id: '6m', label: '6-month renewal', termMonths: 6, rentAmount: 2100 },
+      { id: 'mtm', label: 'Month-to-month', termMonths: 0, rentAmount: 2160 },
+    ]);
+  });
+
+  it('never offers less than the current rent', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 100, max: 20000 }), fc.integer({ min: 0, max: 25 }), (rent, pct) =>
+        buildDefaultRenewalOptions(rent, pct).every((option) => option.rentAmount >= rent)
+      )
+    );
+  });
+});
+
+describe('normalizeRenewalOptions', () => {
+  it('fills in ids and labels', () => {
+    const result = normalizeRenewalOptions([
+      { termMonths: 12, rentAmount: '1850.555' },
+      { termMonths: 0, rentAmount: 1950 },
+    ]);
+    expect(result).toEqual({
+      options: [
+        { id: 'option-1', label: '12-month renewal', termMonths: 12, rentAmount: 1850.56 },
+        { id: 'option-2', label: 'Month-to-month', termMonths: 0, rentAmount: 1950 },
+      ],
+    });
+  });
+
+  it('rejects empty, invalid and duplicate options', () => {
+    expect(normalizeRenewalOptions([])).toEqual({ error: 'At least one renewal option is required' });
+    expect(normalizeRenewalOptions([{ termMonths: 1.5, rentAmount: 1000 }])).toEqual({ error: 'Invalid termMonths' });
+    expect(normalizeRenewalOptions([{ termMonths: 12, rentAmount: 0 }])).toEqual({ error: 'Invalid rentAmount' });
+    expect(
+      normalizeRenewalOptions([
+        { id: 'a', termMonths: 12, rentAmount: 1000 },
+        { id: 'a', termMonths: 6, rentAmount: 1050 },
+      ])
+    ).toEqual({ error: 'Duplicate option id' });
+  });
+});
+
+describe('checkRenewalNotice', () => {
+  const CA = getBuiltInJurisdictionRules('CA');
+  const NY = getBuiltInJurisdictionRules('NY');
+  const DEFAULT_RULES = getBuiltInJurisdictionRules(null);
+  const base = {
+    tenancyStart: date(2026, 1, 1),
+    currentEndDate: date(2026, 12, 31),
+    currentRent: 2000,
+  };
+
+  it('needs no notice when rent does not go up', () => {
+    const check = checkRenewalNotice({ ...base, rules: CA, newRent: 2000, sendDate: date(2026, 12, 30) });
+    expect(check).toMatchObject({ noticeDays: 0, increasePercent: 0, ok: true });
+  });
+
+  it('uses the longer California notice above a 10% increase', () => {
+    const small = checkRenewalNotice({ ...base, rules: CA, newRent: 2100, sendDate: date(2026, 11, 1) });
+    expect(small.noticeDays).toBe(30);
+    expect(small.deadline).toEqual(date(2026, 12, 2));
+    expect(small.ok).toBe(true);
+
+    const large = checkRenewalNotice({ ...base, rules: CA, newRent: 2300, sendDate: date(2026, 11, 1) });
+    expect(large.noticeDays).toBe(90);
+    expect(large.deadline).toEqual(date(2026, 10, 3));
+    expect(large.ok).toBe(false);
+  });
+
+  it('scales New York notice with the length of the tenancy', () => {
+    const params = { ...base, rules: NY, newRent: 2050, sendDate: date(2026, 10, 1) };
+    expect(checkRenewalNotice(params).noticeDays).toBe(60);
+    expect(checkRenewalNotice({ ...params, tenancyStart: date(2024, 6, 1) }).noticeDays).toBe(90);
+    expect(checkRenewalNotice({ ...params, tenancyStart: date(2026, 6, 1) }).noticeDays).toBe(30);
+  });
+
+  it('falls back to the default rules for unknown states', () => {
+    const check = checkRenewalNotice({ ...base, rules: DEFAULT_RULES, newRent: 2050, sendDate: date(2026, 12, 1) });
+    expect(check.noticeDays).toBe(30);
+    expect(check.ok).toBe(true);
+  });
+
+  it('checks options against the highest rent', () => {
+    const options = buildDefaultRenewalOptions(2000, 8);
+    const check = checkRenewalOptionsNotice(options, { ...base, rules: CA, sendDate: date(2026, 11, 1) });
+    expect(check.increasePercent).toBe(13);
+    expect(check.noticeDays).toBe(90);
+  });
+});
+
+describe('getRenewalTerm', () => {
+  it('starts the day after the current lease ends', () => {
+    expect(getRenewalTerm(date(2026, 12, 31), 12)).toEqual({
+      startDate: date(2027, 1, 1),
+      endDate: date(2027, 12, 31),
+    });
+    expect(getRenewalTerm(date(2026, 6, 30), 6)).toEqual({
+      startDate: date(2026, 7, 1),
+      endDate: date(2026, 12, 31),
+    });
+  });
+
+  it('has no end date for month-to-month', () => {
+    expect(getRenewalTerm(date(2026, 12, 31), 0).endDate).toBeNull();
+  });
+});
+
+describe('getFirstPostDate', () => {
+  it('posts this month when the day has not passed', () => {
+    expect(getFirstPostDate(date(2027, 1, 1), 1)).toEqual(date(2027, 1, 1));
+    expect(getFirstPostDate(date(2027, 1, 1), 15)).toEqual(date(2027, 1, 15));
+  });
+
+  it('rolls to next month when the day has passed', () => {
+    expect(getFirstPostDate(date(2027, 1, 16), 15)).toEqual(date(2027, 2, 15));
+  });
+
+  it('posts on the last day of short months', () => {
+    expect(getFirstPostDate(date(2027, 2, 1), 29)).toEqual(date(2027, 2, 28));
+    expect(getFirstPostDate(date(2027, 2, 1), 30)).toEqual(date(2027, 2, 28));
+    expect(getFirstPostDate(date(2027, 2, 1), 31)).toEqual(date(2027, 2, 28));
+    expect(getFirstPostDate(date(2028, 2, 1), 31)).toEqual(date(2028, 2, 29));
+  });
+
+  it('does not skip February when rolling past a late day', () => {
+    expect(getFirstPostDate(date(2027, 1, 31), 29)).toEqual(date(2027, 2, 28));
+    expect(getFirstPostDate(date(2027, 1, 31), 30)).toEqual(date(2027, 2, 28));
+    expect(getFirstPostDate(date(2027, 1, 31), 31)).toEqual(date(2027, 1, 31));
+    expect(getFirstPostDate(date(2028, 1, 31), 30)).toEqual(date(2028, 2, 29));
+  });
+});
+
+describe('accepted renewals without a lease', () => {
+  const db = prisma as unknown as Record<string, Record<string, jest.Mock>>;
+  const accepted = {
+    id: 'renewal-1',
+    leaseId: 'lease-1',
+    landlordId: 'landlord-1',
+    status: 'accepted',
+    selectedOptionId: 'counter',
+    acceptedTermMonths: 12,
+    acceptedRent: 1650,
+    newLeaseId: null as string | null,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.leaseRenewal.update.mockImplementation(async ({ data }) => ({ ...accepted, ...data }));
+  });
+
+  it('retries lease generation when the counter is accepted again', async () => {
+    db.leaseRenewal.findUnique.mockResolvedValue(accepted);
+    db.lease.findUnique.mockResolvedValue(null);
+
+    await expect(acceptRenewalCounter('renewal-1', 'landlord-1')).rejects.toMatchObject({ code: 'LEASE_NOT_FOUND' });
+    expect(db.lease.findUnique).toHaveBeenCalled();
+    expect(db.leaseRenewal.update).not.toHaveBeenCalled();
+  });
+
+  it('can be withdrawn until the lease is generated', async () => {
+    db.leaseRenewal.findUnique.mockResolvedValue(accepted);
+    await expect(withdrawRenewal('renewal-1', 'landlord-1')).resolves.toMatchObject({ status: 'withdrawn' });
+
+    db.leaseRenewal.findUnique.mockResolvedValue({ ...accepted, newLeaseId: 'lease-2' });
+    await expect(withdrawRenewal('renewal-1', 'landlord-1')).rejects.toThrow('already been sent for signature');
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * Tests for the marketplace job feed: listing snapshots, write-time sync,
+ * cursors and the SQL the feed query builds
+ * Feature: marketplace-feed
+ */
+
+jest.mock('@/db/prisma', () => ({
+  prisma: {
+    $queryRaw: jest.fn(),
+    $executeRaw: jest.fn(),
+    marketplaceJobListing: { upsert: jest.fn(), deleteMany: jest.fn() },
+    homeownerWorkOrder: { findUnique: jest.fn() },
+    workOrder: { findUnique: jest.fn() },
+    homeownerWorkOrderBid: { groupBy: jest.fn() },
+    workOrderBid: { groupBy: jest.fn() },
+    zipCentroid: { findUnique: jest.fn(), findMany: jest.fn() },
+  },
+}));
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/db/prisma';
+import {
+  buildListingData,
+  decodeFeedCursor,
+  encodeFeedCursor,
+  MarketplaceFeedError,
+  queryMarketplaceFeed,
+  reconcileMarketplaceFeed,
+  syncMarketplaceListing,
+} from '@/lib/services/marketplace-feed.service';
+
+const db = prisma as unknown as Record<string, Record<string, jest.Mock>> & { $queryRaw: jest.Mock; $executeRaw: jest.Mock };
+
+const JOB_ID = '11111111-1111-4111-8111-111111111111';
+const LISTING_ID = '22222222-2222-4222-8222-222222222222';
+const POSTED_AT = new Date('2026-03-01T10:00:00Z');
+
+function homeownerJob(overrides: Record<string, unknown> = {}) {
+  return {
+    id: JOB_ID,
+    title: 'Fix leaking sink',
+    description: 'Kitchen sink drips under the cabinet',
+    category: 'Plumbing',
+    status: 'open',
+    isOpenBid: true,
+    priority: 'high',
+    budgetMin: new Prisma.Decimal(200),
+    budgetMax: new Prisma.Decimal(500),
+    bidDeadline: null,
+    address: null,
+    createdAt: POSTED_AT,
+    updatedAt: POSTED_AT,
+    homeowner: { name: 'Dana', address: { street: '1 Main St', city: 'Las Vegas', state: 'Nevada', zipCode: '89101-1234' } },
+    ...overrides,
+  };
+}
+
+function feedRow(id: string, sortKey: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    sourceType: 'homeowner',
+    sourceId: JOB_ID,
+    title: 'Fix leaking sink',
+    description: 'Kitchen sink drips',
+    category: 'plumbing',
+    priority: 'high',
+    postingType: 'bid',
+    budgetMin: new Prisma.Decimal(200),
+    budgetMax: new Prisma.Decimal(500),
+    bidDeadline: null,
+    postedAt: POSTED_AT,
+    posterName: 'Dana',
+    posterCompanyName: null,
+    propertyName: null,
+    street: '1 Main St',
+    city: 'Las Vegas',
+    state: 'NV',
+    zip: '89101',
+    sortKey,
+    distanceMiles: null,
+    ...overrides,
+  };
+}
+
+/** Rebuild the tagged-template call so the SQL text and bound values can be checked */
+function rawCall(index: number) {
+  const [strings, ...values] = db.$queryRaw.mock.calls[index];
+  return Prisma.sql(strings, ...values);
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  delete process.env.GOOGLE_MAPS_SERVER_KEY;
+  db.homeownerWorkOrderBid.groupBy.mockResolvedValue([]);
+  db.workOrderBid.groupBy.mockResolvedValue([]);
+});
+
+describe('buildListingData', () => {
+  it('lowercases the category and reads the address', () => {
+    const job = homeownerJob();
+    const data = buildListingData(
+      { ...job, sourceType: 'homeowner', postingType: null, posterName: 'Dana', posterCompanyName: null, propertyName: null, address: job.homeowner.address },
+      null
+    );
+
+    expect(data).toMatchObject({
+      category: 'plumbing',
+      postingType: 'bid',
+      street: '1 Main St',
+      city: 'Las Vegas',
+      state: 'NV',
+      zip: '89101',
+      latitude: null,
+      postedAt: POSTED_AT,
+    });
+  });
+
+  it('files landlord work orders without a category under general', () => {
+    const job = homeownerJob();
+    const data = buildListingData(
+      { ...job, sourceType: 'landlord', category: null, postingType: 'estimate', posterName: 'Lee', posterCompanyName: 'Lee PM', propertyName: 'Oak Apartments', address: null },
+      null
+    );
+
+    expect(data.category).toBe('general');
+    expect(data.postingType).toBe('estimate');
+  });
+});
+
+describe('syncMarketplaceListing', () => {
+  it('writes an open job at its ZIP centroid', async () => {
+    db.homeownerWorkOrder.findUnique.mockResolvedValue(homeownerJob());
+    db.zipCentroid.findUnique.mockResolvedValue({ zip: '89101', city: 'Las Vegas', state: 'NV', latitude: 36.17, longitude: -115.14 });
+
+    const result = await syncMarketplaceListing('homeowner', JOB_ID);
+
+    expect(result).toBe('upserted');
+    expect(db.zipCentroid.findUnique).toHaveBeenCalledWith({ where: { zip: '89101' } });
+    expect(db.marketplaceJobListing.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { sourceType_sourceId: { sourceType: 'homeowner', sourceId: JOB_ID } },
+        create: expect.objectContaining({ sourceType: 'homeowner', sourceId: JOB_ID, latitude: 36.17, longitude: -115.14 }),
+      })
+    );
+  });
+
+  it('removes the listing once the job stops taking bids', async () => {
+    db.homeownerWorkOrder.findUnique.mockResolvedValue(homeownerJob({ status: 'assigned' }));
+
+    const result = await syncMarketplaceListing('homeowner', JOB_ID);
+
+    expect(result).toBe('removed');
+    expect(db.marketplaceJobListing.deleteMany).toHaveBeenCalledWith({ where: { sourceType: 'homeowner', sourceId: JOB_ID } });
+    expect(db.marketplaceJobListing.upsert).not.toHaveBeenCalled();
+  });
+
+  it('removes the listing when the job was deleted', async () => {
+    db.workOrder.findUnique.mockResolvedValue(null);
+
+    await expect(syncMarketplaceListing('landlord', JOB_ID)).resolves.toBe('removed');
+  });
+});
+
+describe('reconcileMarketplaceFeed', () => {
+  it('syncs stale jobs and reports removed listings', async () => {
+    db.$queryRaw.mockResolvedValueOnce([{ id: JOB_ID }]).mockResolvedValueOnce([]);
+    db.$executeRaw.mockResolvedValueOnce(2).mockResolvedValueOnce(1);
+    db.homeownerWorkOrder.findUnique.mockResolvedValue(homeownerJob({ homeowner: { name: 'Dana', address: null } }));
+
+    const result = await reconcileMarketplaceFeed();
+
+    expect(result).toEqual({ synced: 1, failed: 0, removed: 3 });
+    expect(db.marketplaceJobListing.upsert).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('feed cursors', () => {
+  it('round-trips the sort key and id', () => {
+    const cursor = encodeFeedCursor({ sort: 'budget_high', key: '500', id: LISTING_ID });
+    expect(decodeFeedCursor(cursor, 'budget_high')).toEqual({ sort: 'budget_high', key: '500', id: LISTING_ID });
+  });
+
+  it('rejects garbage and cursors from another sort order', () => {
+    expect(() => decodeFeedCursor('not-a-cursor', 'newest')).toThrow(MarketplaceFeedError);
+    const cursor = encodeFeedCursor({ sort: 'newest', key: '2026-03-01 10:00:00', id: LISTING_ID });
+    expect(() => decodeFeedCursor(cursor, 'deadline')).toThrow('different sort order');
+  });
+
+  it("rejects keys that don't match the sort's key type", () => {
+    const decode = (sort: 'newest' | 'deadline' | 'budget_high' | 'relevance', key: string) =>
+      decodeFeedCursor(encodeFeedCursor({ sort, key, id: LISTING_ID }), sort);
+
+    expect(decode('newest', '2026-03-01 10:00:00.123456').key).toBe('2026-03-01 10:00:00.123456');
+    expect(decode('deadline', 'infinity').key).toBe('infinity');
+    expect(decode('budget_high', '-1').key).toBe('-1');
+    expect(decode('relevance', '6.079271e-05').key).toBe('6.079271e-05');
+
+    for (const [sort, key] of [
+      ['newest', 'yesterday'],
+      ['newest', '2026-02-30 10:00:00'],
+      ['deadline', '2026-03-01T10:00:00Z'],
+      ['budget_high', 'lots'],
+      ['relevance', '2026-03-01 10:00:00'],
+    ] as const) {
+      expect(() => decode(sort, key)).toThrow('Invalid cursor');
+    }
+  });
+});
+
+describe('queryMarketplaceFeed', () => {
+  it('returns a cursor when there is another page', async () => {
+    db.$queryRaw
+      .mockResolvedValueOnce([feedRow(LISTING_ID, '2026-03-01 10:00:00'), feedRow('33333333-3333-4333-8333-333333333333', '2026-02-28 09:00:00')])
+      .mockResolvedValueOnce([{ total: 7 }]);
+    db.homeownerWorkOrderBid.groupBy.mockResolvedValue([{ workOrderId: JOB_ID, _count: { _all: 4 } }]);
+
+    const page = await queryMarketplaceFeed({ limit: 1 });
+
+    expect(page.total).toBe(7);
+    expect(page.items).toHaveLength(1);
+    expect(page.items[0]).toMatchObject({ sourceId: JOB_ID, budgetMin: 200, budgetMax: 500, bidCount: 4 });
+    expect(decodeFeedCursor(page.nextCursor!, 'newest')).toEqual({ sort: 'newest', key: '2026-03-01 10:00:00', id: LISTING_ID });
+  });
+
+  it('pages after the cursor instead of using an offset', async () => {
+    db.$queryRaw.mockResolvedValueOnce([]).mockResolvedValueOnce([{ total: 0 }]);
+    const cursor = encodeFeedCursor({ sort: 'newest', key: '2026-03-01 10:00:00', id: LISTING_ID });
+
+    const page = await queryMarketplaceFeed({ cursor, offset: 40 });
+    const query = rawCall(0);
+
+    expect(page.nextCursor).toBeNull();
+    expect(query.text).toContain('("postedAt", "id") < ($1::timestamp, $2::uuid)');
+    expect(query.values).toEqual(['2026-03-01 10:00:00', LISTING_ID, 21, 0]);
+  });
+
+  it('searches the full-text index and ranks by relevance', async () => {
+    db.$queryRaw.mockResolvedValueOnce([]).mockResolvedValueOnce([{ total: 0 }]);
+
+    await queryMarketplaceFeed({ query: 'water heater', category: 'Plumbing', minBudget: 100 });
+    const query = rawCall(0);
+
+    expect(query.sql).toContain(`to_tsvector('english', "title" || ' ' || "description") @@ websearch_to_tsquery('english', `);
+    expect(query.sql).toContain('ORDER BY ts_rank(');
+    expect(query.values).toEqual(expect.arrayContaining(['water heater', 'plumbing', 100]));
+  });
+
+  it('filters by distance from a located search', async () => {
+    db.zipCentroid.findUnique.mockResolvedValue({ zip: '89101', city: 'Las Vegas', state: 'NV', latitude: 36.17, longitude: -115.14 });
+    db.$queryRaw.mockResolvedValueOnce([]).mockResolvedValueOnce([{ total: 0 }]);
+
+    await queryMarketplaceFeed({ location: '89101', radius: 10, sortBy: 'distance' });
+    const query = rawCall(0);
+
+    expect(query.sql).toContain('"latitude" BETWEEN');
+    expect(query.sql).toContain('ASIN(SQRT(');
+    expect(query.sql).toMatch(/ORDER BY COALESCE\(.*1e9\)::float8 ASC, "id" ASC/s);
+  });
+
+  it('falls back to newest when relevance is asked for without a search', async () => {
+    db.$queryRaw.mockResolvedValueOnce([]).mockResolvedValueOnce([{ total: 0 }]);
+
+    await queryMarketplaceFeed({ sortBy: 'relevance' });
+
+    expect(rawCall(0).sql).toContain('ORDER BY "postedAt" DESC, "id" DESC');
+  });
+
+  it('lists no agent jobs', async () => {
+    await expect(queryMarketplaceFeed({ posterType: 'agent' })).resolves.toEqual({ items: [], nextCursor: null, total: 0 });
+    expect(db.$queryRaw).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Tests for the mobile privacy routes: a signed mobile token reaches the
+ * data subject request pipeline with the token's user
+ * Feature: data-subject-requests
+ */
+
+jest.mock('@/lib/services/data-subject-request.service', () => {
+  const actual = jest.requireActual('@/lib/services/data-subject-request.service');
+  return {
+    DataRequestError: actual.DataRequestError,
+    getDataRequestErrorStatus: actual.getDataRequestErrorStatus,
+    createDataSubjectRequest: jest.fn(),
+    listUserDataRequests: jest.fn(),
+  };
+});
+
+jest.mock('@/db/prisma', () => ({ prisma: {} }));
+jest.mock('@/lib/queue', () => ({ jobRuntime: { enqueue: jest.fn() } }));
+
+// jose ships ESM only, which jest can't load; verify HS256 the same way here
+jest.mock('jose', () => {
+  const { createHmac, timingSafeEqual } = jest.requireActual('crypto');
+  return {
+    jwtVerify: async (token: string, secret: Uint8Array) => {
+      const [header, body, signature] = token.split('.');
+      const expected = createHmac('sha256', Buffer.from(secret)).update(`${header}.${body}`).digest();
+      const given = Buffer.from(signature ?? '', 'base64url');
+      if (given.length !== expected.length || !timingSafeEqual(given, expected)) throw new Error('signature verification failed');
+      return { payload: JSON.parse(Buffer.from(body, 'base64url').toString()) };
+    },
+  };
+});
+
+import { createHmac } from 'crypto';
+import { NextRequest } from 'next/server';
+import { createDataSubjectRequest, listUserDataRequests } from '@/lib/services/data-subject-request.service';
+import { DELETE } from '@/app/api/mobile/account/delete/route';
+import { GET, POST } from '@/app/api/mobile/account/request-data/route';
+
+const USER_ID = '11111111-1111-4111-8111-111111111111';
+const SECRET = 'mobile-test-secret';
+
+/** An HS256 token with the claims the mobile login issues */
+function mobileToken(secret = SECRET) {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const unsigned = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode({ userId: USER_ID, email: 'tenant@example.com', role: 'tenant' })}`;
+  return `${unsigned}.${createHmac('sha256', secret).update(unsigned).digest('base64url')}`;
+}
+
+function request(method: string, token?: string) {
+  return new NextRequest('http://localhost/api/mobile/account', {
+    method,
+    headers: token ? { authorization: `Bearer ${token}` } : {},
+  });
+}
+
+const created = {
+  request: { id: 'req-1', status: 'pending', dueAt: new Date('2026-06-01'), requestedEmail: 'tenant@example.com' },
+  created: true,
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  process.env.MOBILE_JWT_SECRET = SECRET;
+  (createDataSubjectRequest as jest.Mock).mockResolvedValue(created);
+  (listUserDataRequests as jest.Mock).mockResolvedValue([]);
+});
+
+describe('mobile data requests', () => {
+  it('lists the token user’s requests', async () => {
+    const response = await GET(request('GET', mobileToken()));
+
+    expect(response.status).toBe(200);
+    expect(listUserDataRequests).toHaveBeenCalledWith(USER_ID);
+  });
+
+  it('files an export for the token user', async () => {
+    const response = await POST(request('POST', mobileToken()));
+
+    expect(response.status).toBe(200);
+    expect(createDataSubjectRequest).toHaveBeenCalledWith({ userId: USER_ID, type: 'export', source: 'mobile' });
+  });
+
+  it('files an erasure for the token user', async () => {
+    const response = await DELETE(request('DELETE', mobileToken()));
+
+    expect(response.status).toBe(200);
+    expect(createDataSubjectRequest).toHaveBeenCalledWith({ userId: USER_ID, type: 'erasure', source: 'mobile' });
+  });
+
+  it('rejects a token signed with another secret', async () => {
+    const forged = mobileToken('someone-else');
+
+    expect((await POST(request('POST', forged))).status).toBe(401);
+    expect((await DELETE(request('DELETE'))).status).toBe(401);
+    expect(createDataSubjectRequest).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Tests for the notification preference matrix, quiet hours, digest timing
+ * and delivery planning
+ * Feature: notification-preferences
+ */
+
+jest.mock('@/db/prisma', () => ({ prisma: {} }));
+
+import {
+  buildDefaultMatrix,
+  getNotificationEvent,
+  getQuietHoursEnd,
+  isDigestDue,
+  isInQuietHours,
+  normalizeMatrix,
+  normalizeNotificationSettingsInput,
+  planHeldRelease,
+  planNotificationDelivery,
+  setChannelForAllEvents,
+  NotificationPreferencesError,
+  type NotificationSettingsData,
+} from '@/lib/services/notification-preferences.service';
+
+const settings = (overrides: Partial<NotificationSettingsData> = {}): NotificationSettingsData => ({
+  matrix: buildDefaultMatrix(),
+  timezone: 'America/Chicago',
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  digestMode: 'off',
+  digestHour: 8,
+  digestDayOfWeek: 1,
+  lastDigestSentAt: null,
+  ...overrides,
+});
+
+// 2026-03-04 is a Wednesday; Chicago is UTC-6 until DST on March 8
+const chicago = (day: number, hour: number, minute = 0) =>
+  new Date(Date.UTC(2026, 2, day, hour + 6, minute));
+
+describe('getNotificationEvent', () => {
+  it('maps notification types onto preference events', () => {
+    expect(getNotificationEvent('maintenance')).toBe('maintenance');
+    expect(getNotificationEvent('reminder')).toBe('payment');
+    expect(getNotificationEvent('milestone_completed')).toBe('work_order');
+    expect(getNotificationEvent('bid_accepted')).toBe('work_order');
+    expect(getNotificationEvent('lease_signed')).toBe('lease');
+    expect(getNotificationEvent('subscription')).toBeNull();
+  });
+});
+
+describe('buildDefaultMatrix', () => {
+  it('spreads the legacy whole-user switches over every event', () => {
+    const matrix = buildDefaultMatrix({ email: false, sms: true, both: false });
+    expect(matrix.payment).toEqual({ in_app: true, email: false, sms: true, push: true });
+    expect(matrix.work_order).toEqual(matrix.payment);
+  });
+
+  it('turns off email for landlord alerts the owner disabled', () => {
+    const matrix = buildDefaultMatrix(null, {
+      notifyNewApplications: false,
+      notifyMaintenanceTickets: true,
+      notifyLatePayments: true,
+      notifyLeaseExpiring: true,
+      notifyNewMessages: false,
+    });
+    expect(matrix.application.email).toBe(false);
+    expect(matrix.message.email).toBe(false);
+    expect(matrix.maintenance.email).toBe(true);
+  });
+});
+
+describe('normalizeMatrix', () => {
+  it('keeps valid switches and fills the rest from the fallback', () => {
+    const matrix = normalizeMatrix({ payment: { email: false, sms: 'yes' }, bogus: { email: true } });
+    expect(matrix.payment).toEqual({ in_app: true, email: false, sms: false, push: true });
+    expect(Object.keys(matrix)).not.toContain('bogus');
+  });
+
+  it('switches one channel for every event', () => {
+    const matrix = setChannelForAllEvents(buildDefaultMatrix(), 'sms', true);
+    expect(Object.values(matrix).every((row) => row.sms)).toBe(true);
+  });
+});
+
+describe('quiet hours', () => {
+  const overnight = settings({ quietHoursStart: '21:00', quietHoursEnd: '07:00' });
+
+  it('handles windows that wrap past midnight in the user timezone', () => {
+    expect(isInQuietHours(overnight, chicago(4, 22))).toBe(true);
+    expect(isInQuietHours(overnight, chicago(4, 3))).toBe(true);
+    expect(isInQuietHours(overnight, chicago(4, 7))).toBe(false);
+    expect(isInQuietHours(overnight, chicago(4, 12))).toBe(false);
+  });
+
+  it('is off without both ends', () => {
+    expect(isInQuietHours(settings({ quietHoursStart: '21:00' }), chicago(4, 22))).toBe(false);
+  });
+
+  it('releases at the next local end time', () => {
+    expect(getQuietHoursEnd(overnight, chicago(4, 22, 30))).toEqual(chicago(5, 7));
+    expect(getQuietHoursEnd(overnight, chicago(4, 3, 15))).toEqual(chicago(4, 7));
+  });
+});
+
+describe('planNotificationDelivery', () => {
+  const quiet = settings({ quietHoursStart: '21:00', quietHoursEnd: '07:00' });
+
+  it('sends enabled channels right away outside quiet hours', () => {
+    const plan = planNotificationDelivery({ settings: settings(), type: 'payment', priority: 'normal', now: chicago(4, 12) });
+    expect(plan).toEqual({ inApp: true, send: ['email', 'push'], hold: [], releaseAt: null });
+  });
+
+  it('holds outbound channels until quiet hours end', () => {
+    const plan = planNotificationDelivery({ settings: quiet, type: 'message', priority: 'normal', now: chicago(4, 23) });
+    expect(plan.send).toEqual([]);
+    expect(plan.hold).toEqual(['email', 'push']);
+    expect(plan.releaseAt).toEqual(chicago(5, 7));
+  });
+
+  it('lets high priority through quiet hours', () => {
+    const plan = planNotificationDelivery({ settings: quiet, type: 'maintenance', priority: 'high', now: chicago(4, 23) });
+    expect(plan.send).toEqual(['email', 'push']);
+    expect(plan.hold).toEqual([]);
+  });
+
+  it('moves low-priority email into the digest and drops real-time alerts', () => {
+    const plan = planNotificationDelivery({
+      settings: settings({ digestMode: 'daily' }),
+      type: 'reminder',
+      priority: 'low',
+      now: chicago(4, 12),
+    });
+    expect(plan).toEqual({ inApp: true, send: [], hold: ['email'], releaseAt: null });
+  });
+
+  it('moves normal-priority email into the digest but still sends push', () => {
+    const plan = planNotificationDelivery({
+      settings: settings({ digestMode: 'weekly' }),
+      type: 'maintenance',
+      priority: 'normal',
+      now: chicago(4, 12),
+    });
+    expect(plan).toEqual({ inApp: true, send: ['push'], hold: ['email'], releaseAt: null });
+  });
+
+  it('hands email held for quiet hours to the digest when it is released', () => {
+    const digest = settings({ digestMode: 'daily', quietHoursStart: '21:00', quietHoursEnd: '07:00' });
+    const plan = planNotificationDelivery({ settings: digest, type: 'message', priority: 'normal', now: chicago(4, 23) });
+    expect(plan.hold).toEqual(['email', 'push']);
+
+    expect(planHeldRelease(digest, plan.hold, 'normal')).toEqual({ send: ['push'], digest: true });
+    expect(planHeldRelease(settings(), plan.hold, 'normal')).toEqual({ send: ['email', 'push'], digest: false });
+  });
+
+  it('follows the matrix row for the event', () => {
+    const matrix = buildDefaultMatrix();
+    matrix.work_order = { in_app: false, email: false, sms: false, push: true };
+    const plan = planNotificationDelivery({
+      settings: settings({ matrix }),
+      type: 'bid_accepted',
+      priority: 'normal',
+      now: chicago(4, 12),
+    });
+    expect(plan).toEqual({ inApp: false, send: ['push'], hold: [], releaseAt: null });
+  });
+});
+
+describe('isDigestDue', () => {
+  it('sends a daily digest once per local day after the digest hour', () => {
+    const daily = settings({ digestMode: 'daily', digestHour: 8 });
+    expect(isDigestDue(daily, chicago(4, 7))).toBe(false);
+    expect(isDigestDue(daily, chicago(4, 9))).toBe(true);
+    expect(isDigestDue({ ...daily, lastDigestSentAt: chicago(4, 8) }, chicago(4, 15))).toBe(false);
+    expect(isDigestDue({ ...daily, lastDigestSentAt: chicago(4, 8) }, chicago(5, 8))).toBe(true);
+  });
+
+  it('sends a weekly digest only on the chosen weekday', () => {
+    const weekly = settings({ digestMode: 'weekly', digestDayOfWeek: 3 });
+    expect(isDigestDue(weekly, chicago(4, 10))).toBe(true);
+    expect(isDigestDue(weekly, chicago(5, 10))).toBe(false);
+  });
+});
+
+describe('normalizeNotificationSettingsInput', () => {
+  it('changes only the fields given', () => {
+    const next = normalizeNotificationSettingsInput(
+      { quietHoursStart: '22:00', quietHoursEnd: '06:30', digestMode: 'weekly' },
+      settings()
+    );
+    expect(next).toMatchObject({ quietHoursStart: '22:00', quietHoursEnd: '06:30', digestMode: 'weekly', digestHour: 8 });
+    expect(next.timezone).toBe('America/Chicago');
+  });
+
+  it('rejects bad timezones, times and digest settings', () => {
+    expect(() => normalizeNotificationSettingsInput({ timezone: 'Mars/Olympus' }, settings())).toThrow(
+      NotificationPreferencesError
+    );
+    expect(() => normalizeNotificationSettingsInput({ quietHoursStart: '25:00' }, settings())).toThrow('HH:mm');
+    expect(() => normalizeNotificationSettingsInput({ quietHoursStart: '22:00' }, settings())).toThrow('both');
+    expect(() => normalizeNotificationSettingsInput({ digestHour: 24 }, settings())).toThrow('digestHour');
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Property-based tests for owner statements
+ * Feature: owner-statements
+ */
+
+import * as fc from 'fast-check';
+
+jest.mock('@/db/prisma', () => ({ prisma: {} }));
+jest.mock('@/lib/services/report-pdf.service', () => ({ generateOwnerStatementPdf: jest.fn() }));
+
+import {
+  allocateReserve,
+  calculateManagementFee,
+  calculateOwnerStatement,
+  getStatementPeriod,
+  normalizeOwnerInput,
+  resolveFeeRule,
+  type OwnerStatementPropertyInput,
+} from '@/lib/services/owner-statement.service';
+
+const centsArbitrary = fc.integer({ min: 0, max: 2_000_000 }).map((cents) => cents / 100);
+
+const lineArbitrary = fc.record({
+  date: fc.date({ min: new Date('2025-01-01'), max: new Date('2025-01-31'), noInvalidDate: true }),
+  description: fc.string(),
+  category: fc.constant('rent'),
+  amount: centsArbitrary,
+});
+
+const propertyArbitrary: fc.Arbitrary<OwnerStatementPropertyInput> = fc.record({
+  propertyId: fc.uuid(),
+  propertyName: fc.string({ minLength: 1 }),
+  managementFeePercentOverride: fc.option(fc.integer({ min: 0, max: 20 }), { nil: null }),
+  income: fc.array(lineArbitrary, { maxLength: 8 }),
+  expenses: fc.array(lineArbitrary, { maxLength: 8 }),
+  newLeaseRents: fc.array(centsArbitrary, { maxLength: 2 }),
+});
+
+const ruleArbitrary = fc
+  .record({
+    feeType: fc.constantFrom('percent', 'flat', 'percent_with_minimum'),
+    managementFeePercent: fc.integer({ min: 0, max: 15 }),
+    flatFeeMonthly: fc.integer({ min: 0, max: 500 }),
+    minimumFeeMonthly: fc.integer({ min: 0, max: 200 }),
+    leasingFeePercent: fc.integer({ min: 0, max: 100 }),
+    maintenanceMarkupPercent: fc.integer({ min: 0, max: 15 }),
+  })
+  .map(resolveFeeRule);
+
+describe('Owner Statements', () => {
+  describe('Management fees', () => {
+    it('should charge the owner percent of collected income', () => {
+      const rule = resolveFeeRule({ feeType: 'percent', managementFeePercent: 8 });
+      expect(calculateManagementFee(rule, 2500)).toBe(200);
+    });
+
+    it('should prefer the property finance percent over the owner default', () => {
+      const rule = resolveFeeRule({ feeType: 'percent', managementFeePercent: 8 });
+      expect(calculateManagementFee(rule, 2500, 10)).toBe(250);
+    });
+
+    it('should apply the monthly minimum for percent_with_minimum', () => {
+      const rule = resolveFeeRule({ feeType: 'percent_with_minimum', managementFeePercent: 8, minimumFeeMonthly: 100 });
+      expect(calculateManagementFee(rule, 500)).toBe(100);
+      expect(calculateManagementFee(rule, 2500)).toBe(200);
+    });
+
+    it('should charge flat fees regardless of income', () => {
+      const rule = resolveFeeRule({ feeType: 'flat', flatFeeMonthly: 150, managementFeePercent: 8 });
+      expect(calculateManagementFee(rule, 0)).toBe(150);
+      expect(calculateManagementFee(rule, 10000)).toBe(150);
+    });
+
+    it('should fall back to percent for unknown fee types', () => {
+      expect(resolveFeeRule({ feeType: 'bogus', managementFeePercent: 5 }).feeType).toBe('percent');
+    });
+  });
+
+  describe('Reserves', () => {
+    it('should conserve cash between reserve and distribution', () => {
+      fc.assert(
+        fc.property(
+          fc.integer({ min: -1_000_000, max: 1_000_000 }),
+          fc.integer({ min: 0, max: 500_000 }),
+          fc.integer({ min: 0, max: 500_000 }),
+          (cashCents, openingCents, targetCents) => {
+            const result = allocateReserve(cashCents / 100, openingCents / 100, targetCents / 100);
+
+            expect(Math.round((result.reserveContribution + result.netDistribution) * 100)).toBe(cashCents);
+            expect(Math.round((result.closingReserve - result.reserveContribution) * 100)).toBe(openingCents);
+            expect(result.closingReserve).toBeGreaterThanOrEqual(0);
+          }
+        ),
+        { numRuns: 200 }
+      );
+    });
+
+    it('should top up the reserve before distributing', () => {
+      expect(allocateReserve(1000, 200, 500)).toEqual({
+        reserveContribution: 300,
+        closingReserve: 500,
+        netDistribution: 700,
+      });
+    });
+
+    it('should draw on the reserve to cover a shortfall', () => {
+      expect(allocateReserve(-300, 500, 500)).toEqual({
+        reserveContribution: -300,
+        closingReserve: 200,
+        netDistribution: 0,
+      });
+      expect(allocateReserve(-800, 500, 500)).toEqual({
+        reserveContribution: -500,
+        closingReserve: 0,
+        netDistribution: -300,
+      });
+    });
+  });
+
+  describe('Statement totals', () => {
+    it('should reconcile income - expenses - fees = reserve contribution + distribution', () => {
+      fc.assert(
+        fc.property(
+          ruleArbitrary,
+          fc.array(propertyArbitrary, { maxLength: 5 }),
+          centsArbitrary,
+          centsArbitrary,
+          (rule, properties, openingReserve, reservePerProperty) => {
+            const statement = calculateOwnerStatement({ rule, properties, openingReserve, reservePerProperty });
+
+            const left = Math.round(
+              (statement.totalIncome - statement.totalExpenses - statement.managementFees) * 100
+            );
+            const right = Math.round((statement.reserveContribution + statement.netDistribution) * 100);
+            expect(left).toBe(right);
+
+            const propertyNet = statement.properties.reduce((total, p) => total + Math.round(p.net * 100), 0);
+            expect(propertyNet).toBe(Math.round(statement.cashAvailable * 100));
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should never make fees negative', () => {
+      fc.assert(
+        fc.property(ruleArbitrary, fc.array(propertyArbitrary, { maxLength: 5 }), (rule, properties) => {
+          const statement = calculateOwnerStatement({ rule, properties, openingReserve: 0, reservePerProperty: 0 });
+          statement.properties.forEach((p) => {
+            expect(p.managementFee).toBeGreaterThanOrEqual(0);
+            expect(p.leasingFee).toBeGreaterThanOrEqual(0);
+            expect(p.maintenanceMarkup).toBeGreaterThanOrEqual(0);
+          });
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should include leasing fees and maintenance markup', () => {
+      const rule = resolveFeeRule({
+        feeType: 'percent',
+        managementFeePercent: 10,
+        leasingFeePercent: 50,
+        maintenanceMarkupPercent: 10,
+      });
+      const date = new Date('2025-01-15');
+      const statement = calculateOwnerStatement({
+        rule,
+        openingReserve: 0,
+        reservePerProperty: 250,
+        properties: [
+          {
+            propertyId: 'p1',
+            propertyName: 'Maple',
+            income: [{ date, description: 'Rent', category: 'rent', amount: 2000 }],
+            expenses: [{ date, description: 'Plumber', category: 'repairs', amount: 300 }],
+            newLeaseRents: [2000],
+          },
+        ],
+      });
+
+      expect(statement.properties[0]).toMatchObject({
+        managementFee: 200,
+        leasingFee: 1000,
+        maintenanceMarkup: 30,
+        totalFees: 1230,
+        net: 470,
+      });
+      expect(statement.reserveContribution).toBe(250);
+      expect(statement.netDistribution).toBe(220);
+    });
+  });
+
+  describe('Periods and input', () => {
+    it('should cover the whole calendar month', () => {
+      const { periodStart, periodEnd } = getStatementPeriod(2024, 2);
+      expect(periodStart.getDate()).toBe(1);
+      expect(periodEnd.getMonth()).toBe(1);
+      expect(periodEnd.getDate()).toBe(29);
+      expect(() => getStatementPeriod(2024, 13)).toThrow('Invalid statement period');
+    });
+
+    it('should validate owner input', () => {
+      expect(normalizeOwnerInput({}, { requireName: true })).toEqual({ error: 'Owner name is required' });
+      expect(normalizeOwnerInput({ managementFeePercent: 120 }, { requireName: false })).toEqual({
+        error: 'Invalid managementFeePercent',
+      });
+      expect(normalizeOwnerInput({ feeType: 'hourly' }, { requireName: false })).toEqual({ error: 'Invalid fee type' });
+      expect(
+        normalizeOwnerInput({ name: ' Jane Owner ', managementFeePercent: '8.5', reserveAmount: null }, { requireName: true })
+      ).toEqual({ data: { name: 'Jane Owner', managementFeePercent: 8.5, reserveAmount: 0 } });
+    });
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Tests for the payroll tax engine: W-4 federal withholding, Social Security
+ * wage base, additional Medicare, state tables, pre-tax deductions and the
+ * 941 / W-2 rollups, all against the versioned tax table files
+ * Feature: payroll-tax
+ */
+
+jest.mock('@/db/prisma', () => ({ prisma: {} }));
+jest.mock('@/lib/services/pdf', () => ({ htmlToPdfBuffer: jest.fn() }));
+
+import { getSupportedStates, getTaxTable } from '@/lib/config/payroll-tax';
+import {
+  buildW2,
+  calculateBracketTax,
+  calculatePaycheckTaxes,
+  DEFAULT_TAX_PROFILE,
+  EMPTY_YEAR_TO_DATE,
+  generatePayStubHtml,
+  parseTaxProfileInput,
+  summarizeQuarter,
+  summarizeYearToDate,
+  toRecordFigures,
+  PayrollTaxError,
+  type TaxProfile,
+} from '@/lib/services/payroll-tax.service';
+
+const payDate = new Date('2026-03-13T00:00:00Z');
+
+function paycheck(grossPay: number, profile: Partial<TaxProfile> = {}, ytd = EMPTY_YEAR_TO_DATE) {
+  return calculatePaycheckTaxes({
+    grossPay,
+    payDate,
+    payFrequency: 'biweekly',
+    profile: { ...DEFAULT_TAX_PROFILE, ...profile },
+    ytd,
+  });
+}
+
+describe('tax tables', () => {
+  it('ships a versioned table per year', () => {
+    expect(getTaxTable(2025)?.version).toBe('2025.1');
+    expect(getTaxTable(2026)?.fica.socialSecurityWageBase).toBe(184500);
+    expect(getTaxTable(1999)).toBeNull();
+    expect(getSupportedStates(2026)).toEqual(expect.arrayContaining(['TX', 'PA', 'GA', 'NC']));
+  });
+
+  it('taxes each bracket only on the income inside it', () => {
+    const brackets = [
+      { over: 0, rate: 10 },
+      { over: 1000, rate: 20 },
+    ];
+    expect(calculateBracketTax(1500, brackets)).toBe(200);
+    expect(calculateBracketTax(1500, brackets, 0.5)).toBe(250);
+    expect(calculateBracketTax(-50, brackets)).toBe(0);
+  });
+});
+
+describe('calculatePaycheckTaxes', () => {
+  it('withholds federal income tax and FICA for a default W-4', () => {
+    const taxes = paycheck(2000);
+
+    // (52,000 - 16,100) taxed at 10% / 12% = 4,060 a year
+    expect(taxes.federalWithholding).toBe(156.15);
+    expect(taxes.socialSecurityTax).toBe(124);
+    expect(taxes.medicareTax).toBe(29);
+    expect(taxes.netPay).toBe(1690.85);
+    expect(taxes).toMatchObject({ tableVersion: '2026.1', taxYear: 2026, quarter: 1 });
+    expect(taxes.deductions.map((line) => line.label)).toEqual(['Federal Income Tax', 'Social Security', 'Medicare']);
+  });
+
+  it('applies the W-4 multiple jobs, dependents and extra withholding steps', () => {
+    expect(paycheck(2000, { multipleJobs: true }).federalWithholding).toBe(270.19);
+    expect(paycheck(2000, { dependentsAmount: 2000, extraWithholding: 25 }).federalWithholding).toBe(104.23);
+    expect(paycheck(2000, { exempt: true }).federalWithholding).toBe(0);
+  });
+
+  it('stops Social Security at the wage base', () => {
+    const ytd = { ...EMPTY_YEAR_TO_DATE, socialSecurityWages: 184000, medicareWages: 184000 };
+    const taxes = paycheck(2000, {}, ytd);
+
+    expect(taxes.socialSecurityWages).toBe(500);
+    expect(taxes.socialSecurityTax).toBe(31);
+    expect(taxes.employerSocialSecurity).toBe(31);
+    expect(paycheck(2000, {}, { ...ytd, socialSecurityWages: 184500 }).socialSecurityTax).toBe(0);
+  });
+
+  it('adds the employee-only additional Medicare tax past the threshold', () => {
+    const taxes = paycheck(2000, {}, { ...EMPTY_YEAR_TO_DATE, medicareWages: 199000 });
+
+    expect(taxes.additionalMedicareWages).toBe(1000);
+    expect(taxes.medicareTax).toBe(38);
+    expect(taxes.employerMedicare).toBe(29);
+  });
+
+  it('takes retirement out of income tax wages only and cafeteria plans out of everything', () => {
+    const taxes = paycheck(2000, {
+      workState: 'GA',
+      preTaxDeductions: [
+        { label: '401(k)', kind: 'retirement', percent: 5 },
+        { label: 'Health plan', kind: 'cafeteria', amount: 50 },
+      ],
+    });
+
+    expect(taxes).toMatchObject({
+      retirementDeductions: 100,
+      cafeteriaDeductions: 50,
+      federalWages: 1850,
+      stateWages: 1850,
+      socialSecurityWages: 1950,
+      medicareWages: 1950,
+    });
+    // GA: (48,100 - 12,000) × 5.09% / 26
+    expect(taxes.stateWithholding).toBe(70.67);
+    expect(taxes.deductions[0]).toEqual({ label: '401(k)', amount: 100, type: 'retirement' });
+  });
+
+  it('keeps retirement deferrals in state wages where the state taxes them', () => {
+    const taxes = paycheck(2000, {
+      workState: 'PA',
+      preTaxDeductions: [{ label: '401(k)', kind: 'retirement', amount: 100 }],
+    });
+
+    expect(taxes.federalWithholding).toBe(144.15);
+    expect(taxes.stateWages).toBe(2000);
+    expect(taxes.stateWithholding).toBe(61.4);
+    expect(taxes.netPay).toBe(1541.45);
+  });
+
+  it('withholds nothing for no-income-tax states and refuses unsupported ones', () => {
+    expect(paycheck(2000, { workState: 'TX' }).stateWithholding).toBe(0);
+    expect(() => paycheck(2000, { workState: 'ZZ' })).toThrow(PayrollTaxError);
+    expect(() =>
+      calculatePaycheckTaxes({
+        grossPay: 2000,
+        payDate: new Date('1999-06-01T00:00:00Z'),
+        payFrequency: 'weekly',
+        profile: DEFAULT_TAX_PROFILE,
+        ytd: EMPTY_YEAR_TO_DATE,
+      })
+    ).toThrow('No payroll tax table for 1999');
+  });
+
+  it('refuses withholding larger than the check', () => {
+    expect(() => paycheck(100, { extraWithholding: 500 })).toThrow('exceed gross pay');
+  });
+});
+
+describe('reports', () => {
+  const first = paycheck(2000, { workState: 'GA', preTaxDeductions: [{ label: '401(k)', kind: 'retirement', amount: 100 }] });
+  const second = paycheck(1500);
+  const records = [
+    { ...toRecordFigures(first, payDate), employeeId: 'a' },
+    { ...toRecordFigures(first, new Date('2026-02-27T00:00:00Z')), employeeId: 'a' },
+    { ...toRecordFigures(second, payDate), employeeId: 'b' },
+  ];
+
+  it('rolls records up into year-to-date totals', () => {
+    const ytd = summarizeYearToDate(records);
+    expect(ytd.grossPay).toBe(5500);
+    expect(ytd.retirementDeductions).toBe(200);
+  });
+
+  it('summarizes a quarter for Form 941', () => {
+    const summary = summarizeQuarter(records, 2026, 1);
+
+    expect(summary.employeeCount).toBe(2);
+    expect(summary.wages).toBe(5300);
+    expect(summary.socialSecurityWages).toBe(5500);
+    expect(summary.socialSecurityTax).toBe(682);
+    expect(summary.medicareTax).toBe(159.5);
+    expect(summary.totalTax).toBeCloseTo(summary.federalWithholding + summary.totalFicaTax + summary.fractionsOfCents, 2);
+    expect(summary.monthlyLiability[0]).toBe(0);
+    expect(summary.monthlyLiability[1] + summary.monthlyLiability[2]).toBeCloseTo(summary.totalTax, 2);
+  });
+
+  it('builds W-2 boxes with retirement deferrals and per-state wages', () => {
+    const w2 = buildW2(records.filter((record) => record.employeeId === 'a'));
+
+    expect(w2).toMatchObject({
+      wages: 3800,
+      socialSecurityWages: 4000,
+      medicareWages: 4000,
+      retirementDeferrals: 200,
+      states: [{ state: 'GA', wages: 3800, withholding: first.stateWithholding * 2 }],
+    });
+  });
+
+  it('renders a pay stub with year-to-date columns', () => {
+    const html = generatePayStubHtml({
+      employerName: 'Acme <Roofing>',
+      employeeName: 'Sam Lee',
+      periodStart: new Date('2026-03-01T12:00:00Z'),
+      periodEnd: new Date('2026-03-13T12:00:00Z'),
+      payDate: new Date('2026-03-13T12:00:00Z'),
+      earnings: [{ label: 'Regular', hours: 80, rate: 25, amount: 2000 }],
+      deductions: first.deductions,
+      grossPay: 2000,
+      netPay: first.netPay,
+      ytd: summarizeYearToDate(records.filter((record) => record.employeeId === 'a')),
+      tableVersion: first.tableVersion,
+      voided: false,
+    });
+
+    expect(html).toContain('Acme &#60;Roofing&#62;');
+    expect(html).toContain('GA State Income Tax');
+    expect(html).toContain(`$${(first.netPay * 2).toLocaleString('en-US', { minimumFractionDigits: 2 })}`);
+  });
+});
+
+describe('parseTaxProfileInput', () => {
+  it('validates W-4 elections and pre-tax deductions', () => {
+    expect(() => parseTaxProfileInput({ filingStatus: 'widowed' })).toThrow('filingStatus');
+    expect(() => parseTaxProfileInput({ workState: 'zz' }, 2026)).toThrow('ZZ');
+    expect(() => parseTaxProfileInput({ extraWithholding: -5 })).toThrow('extraWithholding');
+    expect(() =>
+      parseTaxProfileInput({ preTaxDeductions: [{ label: '401(k)', kind: 'retirement', amount: 10, percent: 5 }] })
+    ).toThrow('either an amount or a percent');
+
+    expect(
+      parseTaxProfileInput(
+        { filingStatus: 'married_jointly', workState: 'nc', dependentsAmount: '4000', preTaxDeductions: [{ label: 'HSA', kind: 'cafeteria', amount: '25' }] },
+        2026
+      )
+    ).toMatchObject({
+      filingStatus: 'married_jointly',
+      workState: 'NC',
+      dependentsAmount: 4000,
+      preTaxDeductions: [{ label: 'HSA', kind: 'cafeteria', amount: 25 }],
+    });
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * Tests for price book pricing, markup rules, good/better/best quote options
+ * and converting an accepted option into job materials and invoice lines
+ * Feature: price-book
+ */
+
+jest.mock('@/db/prisma', () => ({
+  prisma: {
+    contractorQuote: { findFirst: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+    contractorJob: { findFirst: jest.fn(), update: jest.fn() },
+    contractorJobMaterial: { upsert: jest.fn() },
+    $transaction: jest.fn(),
+  },
+}));
+jest.mock('@/lib/services/contractor-invoicing', () => ({ ContractorInvoicingService: { createInvoice: jest.fn() } }));
+jest.mock('@/lib/services/contractor-automation', () => ({
+  createJobFromQuote: jest.fn(),
+  ensureCustomerRecord: jest.fn(),
+}));
+
+import { prisma } from '@/db/prisma';
+import { ContractorInvoicingService } from '@/lib/services/contractor-invoicing';
+import { createJobFromQuote, ensureCustomerRecord } from '@/lib/services/contractor-automation';
+import {
+  buildQuotePricing,
+  convertQuoteToJob,
+  findMarkupRule,
+  getSelectedLines,
+  parseMarkupRules,
+  parsePriceBookItemInput,
+  parseQuoteDraft,
+  planQuoteConversion,
+  priceItem,
+  totalQuoteLines,
+  PriceBookError,
+  type ConversionLine,
+  type MarkupRule,
+  type PriceBookEntry,
+} from '@/lib/services/price-book.service';
+
+const rules: MarkupRule[] = [
+  { itemType: null, category: null, minCost: 0, maxCost: null, markupPercent: 20 },
+  { itemType: 'material', category: null, minCost: 0, maxCost: 50, markupPercent: 100 },
+  { itemType: 'material', category: null, minCost: 50, maxCost: null, markupPercent: 40 },
+  { itemType: 'material', category: 'Water Heaters', minCost: 0, maxCost: null, markupPercent: 25 },
+];
+
+const entry = (id: string, overrides: Partial<PriceBookEntry> = {}): PriceBookEntry => ({
+  id,
+  name: id,
+  unit: 'each',
+  type: 'material',
+  category: null,
+  inventoryItemId: null,
+  unitCost: null,
+  unitPrice: null,
+  markupPercent: null,
+  ...overrides,
+});
+
+const catalog = new Map(
+  [
+    entry('valve', { inventoryItemId: 'inv-valve', inventoryCost: 12.5, unitCost: 99 }),
+    entry('heater-40', { category: 'water heaters', inventoryItemId: 'inv-40', inventoryCost: 600 }),
+    entry('heater-50', { category: 'water heaters', inventoryItemId: 'inv-50', inventoryCost: 800 }),
+    entry('labor', { type: 'labor', unit: 'hour', unitPrice: 95 }),
+    entry('permit', { type: 'service', unitCost: 150 }),
+  ].map((item) => [item.id, item])
+);
+
+describe('markup rules', () => {
+  it('prefers category rules over type rules over catch-alls', () => {
+    expect(findMarkupRule(rules, 'material', ' water heaters ', 800)?.markupPercent).toBe(25);
+    expect(findMarkupRule(rules, 'material', 'fittings', 800)?.markupPercent).toBe(40);
+    expect(findMarkupRule(rules, 'service', null, 800)?.markupPercent).toBe(20);
+  });
+
+  it('picks the cost tier the item falls in', () => {
+    expect(findMarkupRule(rules, 'material', null, 49.99)?.markupPercent).toBe(100);
+    expect(findMarkupRule(rules, 'material', null, 50)?.markupPercent).toBe(40);
+  });
+});
+
+describe('priceItem', () => {
+  it('marks up the linked inventory cost rather than the stored cost', () => {
+    expect(priceItem(catalog.get('valve')!, rules)).toEqual({
+      unitCost: 12.5,
+      unitPrice: 25,
+      markupPercent: 100,
+      source: 'markup',
+    });
+  });
+
+  it('keeps fixed prices and item markups ahead of rules', () => {
+    expect(priceItem(catalog.get('labor')!, rules)).toMatchObject({ unitPrice: 95, source: 'fixed' });
+    expect(priceItem(entry('x', { unitCost: 10, markupPercent: 15 }), rules).unitPrice).toBe(11.5);
+  });
+
+  it('sells at cost when no rule matches', () => {
+    expect(priceItem(entry('x', { unitCost: 10 }), []).unitPrice).toBe(10);
+  });
+});
+
+describe('buildQuotePricing', () => {
+  const line = (priceBookItemId: string | null, quantity: number, extra = {}) => ({
+    priceBookItemId,
+    type: null,
+    description: null,
+    quantity,
+    unit: null,
+    unitPrice: null,
+    ...extra,
+  });
+
+  const draft = {
+    lineItems: [line('permit', 1), line('labor', 3)],
+    options: [
+      { tier: 'best' as const, name: 'Best', description: null, recommended: false, lineItems: [line('heater-50', 1)] },
+      { tier: 'good' as const, name: 'Good', description: null, recommended: false, lineItems: [line('heater-40', 1), line('valve', 2)] },
+      { tier: 'better' as const, name: 'Better', description: null, recommended: true, lineItems: [line('heater-50', 1, { unitPrice: 950 })] },
+    ],
+    discount: 50,
+    taxRate: 8,
+  };
+
+  it('totals each option with the shared lines, discount and tax', () => {
+    const pricing = buildQuotePricing(draft, catalog, rules);
+
+    // Shared: permit 180 + labor 285 = 465
+    expect(pricing.sharedLines.map((l) => l.total)).toEqual([180, 285]);
+    expect(pricing.options.map((o) => [o.tier, o.subtotal, o.total])).toEqual([
+      ['good', 1265, 1312.2],
+      ['better', 1415, 1474.2],
+      ['best', 1465, 1528.2],
+    ]);
+  });
+
+  it('snapshots cost and inventory links and honours price overrides', () => {
+    const pricing = buildQuotePricing(draft, catalog, rules);
+    const better = pricing.options.find((o) => o.tier === 'better')!;
+    expect(better.lines[0]).toMatchObject({ inventoryItemId: 'inv-50', unitCost: 800, unitPrice: 950 });
+  });
+
+  it('headlines the recommended option', () => {
+    expect(buildQuotePricing(draft, catalog, rules).headline).toEqual({
+      basePrice: 1415,
+      discount: 50,
+      tax: 109.2,
+      totalPrice: 1474.2,
+    });
+  });
+
+  it('rejects lines the price book does not have', () => {
+    expect(() =>
+      buildQuotePricing({ ...draft, options: [], lineItems: [line('gone', 1)] }, catalog, rules)
+    ).toThrow('lineItems[0]: price book item not found');
+  });
+});
+
+describe('totalQuoteLines', () => {
+  it('never discounts below zero', () => {
+    const lines = [{ total: 40 }] as Parameters<typeof totalQuoteLines>[0];
+    expect(totalQuoteLines(lines, 100, 10)).toEqual({ subtotal: 40, discount: 40, tax: 0, total: 0 });
+  });
+});
+
+describe('parseQuoteDraft', () => {
+  it('returns null for flat-priced quotes', () => {
+    expect(parseQuoteDraft({ basePrice: 500 })).toBeNull();
+  });
+
+  it('validates tiers, option counts and custom lines', () => {
+    const option = (tier: string) => ({ tier, lineItems: [{ description: 'x', quantity: 1, unitPrice: 1 }] });
+
+    expect(() => parseQuoteDraft({ options: [option('good'), option('premium')] })).toThrow('options[1].tier');
+    expect(() => parseQuoteDraft({ options: [option('good'), option('good')] })).toThrow('only be used once');
+    expect(() => parseQuoteDraft({ options: [option('good')] })).toThrow('at least two options');
+    expect(() => parseQuoteDraft({ lineItems: [{ quantity: 0 }] })).toThrow(PriceBookError);
+    expect(parseQuoteDraft({ options: [option('good'), option('best')] })?.options[1].name).toBe('Best');
+  });
+});
+
+describe('price book input', () => {
+  it('needs some way to price the item', () => {
+    expect(() => parsePriceBookItemInput({ type: 'service', name: 'Diagnostic' })).toThrow('fixed unitPrice');
+    expect(parsePriceBookItemInput({ type: 'service', name: 'Diagnostic', unitPrice: 89 })).toMatchObject({
+      unit: 'each',
+      unitPrice: 89,
+    });
+  });
+
+  it('only links materials to inventory and validates partial updates', () => {
+    expect(() =>
+      parsePriceBookItemInput({ type: 'labor', name: 'Tech', inventoryItemId: 'inv-1' })
+    ).toThrow('Only materials');
+    expect(parsePriceBookItemInput({ unitPrice: '120' }, true)).toEqual({ unitPrice: 120 });
+  });
+
+  it('rejects inverted cost tiers', () => {
+    expect(() => parseMarkupRules([{ minCost: 50, maxCost: 10, markupPercent: 30 }])).toThrow('maxCost');
+  });
+});
+
+describe('quote conversion', () => {
+  const conversionLine = (id: string, overrides: Partial<ConversionLine> = {}): ConversionLine => ({
+    id,
+    priceBookItemId: null,
+    inventoryItemId: null,
+    type: 'material',
+    description: id,
+    quantity: 1,
+    unit: 'each',
+    unitCost: 0,
+    unitPrice: 10,
+    total: 10,
+    ...overrides,
+  });
+
+  it('bills the shared lines and the chosen option only', () => {
+    const lines = [
+      { id: 'shared', optionId: null },
+      { id: 'good', optionId: 'opt-good' },
+      { id: 'best', optionId: 'opt-best' },
+    ];
+    expect(getSelectedLines(lines, 'opt-best').map((l) => l.id)).toEqual(['shared', 'best']);
+  });
+
+  it('plans whole units of each inventory item and types the invoice lines', () => {
+    const plan = planQuoteConversion(
+      [
+        conversionLine('pipe-a', { inventoryItemId: 'inv-pipe', quantity: 2.5, unitCost: 3 }),
+        conversionLine('pipe-b', { inventoryItemId: 'inv-pipe', quantity: 1 }),
+        conversionLine('labor', { type: 'labor', quantity: 2, unitPrice: 95, total: 190 }),
+        conversionLine('permit', { type: 'service', total: 150, unitPrice: 150 }),
+      ],
+      25
+    );
+
+    expect(plan.materials).toEqual([{ inventoryItemId: 'inv-pipe', quantityNeeded: 4, unitCost: 3 }]);
+    expect(plan.invoiceLines.map((l) => [l.description, l.type])).toEqual([
+      ['pipe-a', 'material'],
+      ['pipe-b', 'material'],
+      ['labor', 'labor'],
+      ['permit', 'other'],
+      ['Discount', 'other'],
+    ]);
+    expect(plan.invoiceLines[0]).toMatchObject({ inventoryItemId: 'inv-pipe', quoteLineItemId: 'pipe-a' });
+    expect(plan.invoiceLines[4].unitPrice).toBe(-25);
+    expect([plan.laborCost, plan.materialCost]).toEqual([190, 20]);
+  });
+});
+
+describe('convertQuoteToJob', () => {
+  const db = prisma as unknown as Record<string, Record<string, jest.Mock>> & { $transaction: jest.Mock };
+  const quote = {
+    id: 'quote-1',
+    contractorId: 'contractor-1',
+    title: 'Water heater swap',
+    status: 'accepted',
+    invoiceId: null,
+    jobId: null,
+    selectedOptionId: null,
+    discount: 0,
+    taxRate: null,
+    totalPrice: 190,
+    lead: null,
+    customer: { id: 'user-1', name: 'Dana', email: 'dana@example.com', phoneNumber: null },
+    options: [],
+    lineItems: [{ id: 'labor', optionId: null, type: 'labor', description: 'Labor', quantity: 2, unit: 'hour', unitCost: 0, unitPrice: 95, total: 190, priceBookItemId: null, inventoryItemId: null }],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.contractorQuote.findFirst.mockResolvedValue(quote);
+    db.contractorQuote.updateMany.mockResolvedValue({ count: 1 });
+    db.$transaction.mockImplementation((arg: unknown) =>
+      typeof arg === 'function' ? (arg as (tx: unknown) => unknown)(prisma) : Promise.all(arg as unknown[])
+    );
+    (ensureCustomerRecord as jest.Mock).mockResolvedValue({ id: 'customer-1' });
+    (createJobFromQuote as jest.Mock).mockResolvedValue({ id: 'job-1', customerId: 'customer-1' });
+  });
+
+  it('refuses a conversion another request already claimed', async () => {
+    db.contractorQuote.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    await expect(convertQuoteToJob('contractor-1', 'quote-1')).rejects.toMatchObject({ code: 'INVALID_STATUS' });
+    expect(createJobFromQuote).not.toHaveBeenCalled();
+    expect(ContractorInvoicingService.createInvoice).not.toHaveBeenCalled();
+  });
+
+  it('links a new job as it is created and releases the claim if invoicing fails', async () => {
+    (ContractorInvoicingService.createInvoice as jest.Mock).mockRejectedValueOnce(new Error('numbering clash'));
+
+    await expect(convertQuoteToJob('contractor-1', 'quote-1')).rejects.toThrow('numbering clash');
+
+    expect(createJobFromQuote).toHaveBeenCalledWith(expect.objectContaining({ id: 'quote-1' }), 'customer-1', prisma);
+    expect(db.contractorQuote.update).toHaveBeenCalledWith({ where: { id: 'quote-1' }, data: { jobId: 'job-1' } });
+    const [claim, release] = db.contractorQuote.updateMany.mock.calls.map(([args]) => args);
+    expect(claim.where).toMatchObject({ id: 'quote-1', status: 'accepted', invoiceId: null });
+    expect(release).toEqual({
+      where: { id: 'quote-1', invoiceId: null, convertedAt: claim.data.convertedAt },
+      data: { convertedAt: null },
+    });
+  });
+});
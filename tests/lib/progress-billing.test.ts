@@ -0,0 +1,266 @@
+/**
+ * Tests for AIA-style progress billing: schedule of values, percent complete
+ * per line, retainage withheld and released, and change orders in the
+ * contract sum
+ * Feature: progress-billing
+ */
+
+jest.mock('@/db/prisma', () => ({
+  prisma: {
+    contractorJob: { findFirst: jest.fn() },
+    contractorScheduleOfValuesLine: { findMany: jest.fn() },
+    contractorPayApplication: { findFirst: jest.fn(), findMany: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+  },
+}));
+jest.mock('@/lib/services/contractor-invoicing', () => ({ ContractorInvoicingService: { createInvoice: jest.fn() } }));
+
+import { prisma } from '@/db/prisma';
+import { ContractorInvoicingService } from '@/lib/services/contractor-invoicing';
+import {
+  calculatePayApplication,
+  invoicePayApplication,
+  calculateRetainageRelease,
+  parsePayApplicationInput,
+  parseScheduleInput,
+  planPayApplicationInvoice,
+  summarizeBilling,
+  ProgressBillingError,
+  type BilledLine,
+  type ScheduleLine,
+} from '@/lib/services/progress-billing.service';
+
+const schedule: ScheduleLine[] = [
+  { id: 'demo', itemNumber: '1', description: 'Demolition', scheduledValue: 10000, changeOrderId: null },
+  { id: 'framing', itemNumber: '2', description: 'Framing', scheduledValue: 40000, changeOrderId: null },
+  { id: 'co-1', itemNumber: 'CO-1', description: 'Extra outlets', scheduledValue: 2500, changeOrderId: 'co-uuid' },
+];
+
+const asPrevious = (lines: BilledLine[]) => new Map(lines.map((line) => [line.lineId, line]));
+
+describe('calculatePayApplication', () => {
+  const first = calculatePayApplication({
+    lines: schedule,
+    previous: new Map(),
+    progress: [
+      { lineId: 'demo', percentComplete: 100 },
+      { lineId: 'framing', percentComplete: 25 },
+    ],
+    retainagePercent: 10,
+    previousBilled: 0,
+  });
+
+  it('withholds retainage on the work completed to date, change orders included', () => {
+    expect(first.totals).toEqual({
+      originalContractSum: 50000,
+      netChangeOrders: 2500,
+      contractSumToDate: 52500,
+      completedToDate: 20000,
+      retainageHeld: 2000,
+      earnedLessRetainage: 18000,
+      previousBilled: 0,
+      currentDue: 18000,
+      balanceToFinish: 34500,
+    });
+  });
+
+  it('bills only the difference from earlier applications', () => {
+    const second = calculatePayApplication({
+      lines: schedule,
+      previous: asPrevious(first.lines),
+      progress: [
+        { lineId: 'framing', percentComplete: 60 },
+        { lineId: 'co-1', percentComplete: 50 },
+      ],
+      retainagePercent: 10,
+      previousBilled: first.totals.currentDue,
+    });
+
+    const framing = second.lines.find((line) => line.lineId === 'framing')!;
+    expect(framing).toMatchObject({ previousCompleted: 10000, workThisPeriod: 14000, completedToDate: 24000 });
+    // Demo was left out and keeps its 100%
+    expect(second.lines.find((line) => line.lineId === 'demo')).toMatchObject({ workThisPeriod: 0, percentComplete: 100 });
+    // 10000 + 24000 + 1250 = 35250 completed, 3525 retained, 18000 already billed
+    expect(second.totals.currentDue).toBe(13725);
+  });
+
+  it('refuses to bill a line below what was already billed', () => {
+    expect(() =>
+      calculatePayApplication({
+        lines: schedule,
+        previous: asPrevious(first.lines),
+        progress: [{ lineId: 'framing', percentComplete: 20 }],
+        retainagePercent: 10,
+        previousBilled: 18000,
+      })
+    ).toThrow('cannot go below');
+  });
+
+  it('rejects lines that are not on the schedule', () => {
+    expect(() =>
+      calculatePayApplication({
+        lines: schedule,
+        previous: new Map(),
+        progress: [{ lineId: 'gone', percentComplete: 10 }],
+        retainagePercent: 10,
+        previousBilled: 0,
+      })
+    ).toThrow(ProgressBillingError);
+  });
+});
+
+describe('retainage release', () => {
+  const complete = calculatePayApplication({
+    lines: schedule,
+    previous: new Map(),
+    progress: schedule.map((line) => ({ lineId: line.id, percentComplete: 100 })),
+    retainagePercent: 10,
+    previousBilled: 0,
+  });
+
+  it('bills everything withheld once every line is complete', () => {
+    const release = calculateRetainageRelease({
+      lines: schedule,
+      previous: asPrevious(complete.lines),
+      previousBilled: complete.totals.currentDue,
+    });
+
+    expect(release.totals).toMatchObject({ retainageHeld: 0, currentDue: 5250, balanceToFinish: 0 });
+    expect(planPayApplicationInvoice(schedule, release, complete.totals.retainageHeld, 0)).toEqual([
+      { description: 'Retainage released', quantity: 1, unitPrice: 5250, type: 'other' },
+    ]);
+  });
+
+  it('waits for unbilled change orders', () => {
+    const withNewChangeOrder = [
+      ...schedule,
+      { id: 'co-2', itemNumber: 'CO-2', description: 'Skylight', scheduledValue: 1800, changeOrderId: 'co-2-uuid' },
+    ];
+    expect(() =>
+      calculateRetainageRelease({
+        lines: withNewChangeOrder,
+        previous: asPrevious(complete.lines),
+        previousBilled: complete.totals.currentDue,
+      })
+    ).toThrow('outstanding: CO-2');
+  });
+});
+
+describe('planPayApplicationInvoice', () => {
+  it('bills each line worked this period less the retainage withheld', () => {
+    const calculation = calculatePayApplication({
+      lines: schedule,
+      previous: new Map(),
+      progress: [
+        { lineId: 'demo', percentComplete: 100 },
+        { lineId: 'framing', percentComplete: 25 },
+      ],
+      retainagePercent: 10,
+      previousBilled: 0,
+    });
+    const lines = planPayApplicationInvoice(schedule, calculation, 0, 10);
+
+    expect(lines.map((line) => [line.description, line.unitPrice])).toEqual([
+      ['1. Demolition (100% complete)', 10000],
+      ['2. Framing (25% complete)', 10000],
+      ['Less retainage (10%)', -2000],
+    ]);
+    expect(lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0)).toBe(calculation.totals.currentDue);
+  });
+});
+
+describe('summarizeBilling', () => {
+  it('tracks billed to date against the contract sum', () => {
+    const calculation = calculatePayApplication({
+      lines: schedule,
+      previous: new Map(),
+      progress: [{ lineId: 'framing', percentComplete: 50 }],
+      retainagePercent: 5,
+      previousBilled: 0,
+    });
+
+    expect(summarizeBilling(schedule, asPrevious(calculation.lines), calculation.totals.currentDue)).toEqual({
+      originalContractSum: 50000,
+      netChangeOrders: 2500,
+      contractSum: 52500,
+      completedToDate: 20000,
+      percentComplete: 38.1,
+      retainageHeld: 1000,
+      billedToDate: 19000,
+      remaining: 33500,
+    });
+  });
+});
+
+describe('input parsing', () => {
+  it('validates schedule lines and retainage', () => {
+    expect(() => parseScheduleInput({ lines: [{ description: '', scheduledValue: 10 }] })).toThrow('description');
+    expect(() => parseScheduleInput({ lines: [], retainagePercent: 150 })).toThrow('retainagePercent');
+    expect(parseScheduleInput({ lines: [{ description: 'Roofing', scheduledValue: '8000' }] })).toEqual({
+      lines: [{ id: null, itemNumber: null, description: 'Roofing', scheduledValue: 8000 }],
+    });
+  });
+
+  it('validates pay application periods and progress', () => {
+    expect(() => parsePayApplicationInput({ kind: 'final' })).toThrow('kind');
+    expect(() =>
+      parsePayApplicationInput({ periodStart: '2026-03-01', periodEnd: '2026-02-01' })
+    ).toThrow('periodStart');
+    expect(() =>
+      parsePayApplicationInput({
+        lines: [
+          { lineId: 'a', percentComplete: 10 },
+          { lineId: 'a', percentComplete: 20 },
+        ],
+      })
+    ).toThrow('only be listed once');
+    expect(parsePayApplicationInput({ lines: [{ lineId: 'a', percentComplete: '40' }] })).toMatchObject({
+      kind: 'progress',
+      retainagePercent: null,
+      progress: [{ lineId: 'a', percentComplete: 40 }],
+    });
+  });
+});
+
+describe('invoicePayApplication', () => {
+  const db = prisma as unknown as Record<string, Record<string, jest.Mock>>;
+  const createInvoice = ContractorInvoicingService.createInvoice as jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.contractorJob.findFirst.mockResolvedValue({ id: 'job-1', jobNumber: 'JOB-1', title: 'Remodel', customerId: 'customer-1' });
+    db.contractorScheduleOfValuesLine.findMany.mockResolvedValue([]);
+    db.contractorPayApplication.findMany.mockResolvedValue([]);
+    db.contractorPayApplication.findFirst.mockResolvedValue({
+      id: 'app-1',
+      kind: 'progress',
+      status: 'draft',
+      applicationNumber: 1,
+      periodStart: null,
+      periodEnd: new Date('2026-03-31'),
+      retainagePercent: 10,
+      lines: [],
+    });
+  });
+
+  it('raises one invoice when the same application is submitted twice', async () => {
+    db.contractorPayApplication.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    await expect(invoicePayApplication('contractor-1', 'job-1', 'app-1')).rejects.toMatchObject({ code: 'INVALID_STATUS' });
+    expect(db.contractorPayApplication.updateMany).toHaveBeenCalledWith({
+      where: { id: 'app-1', status: 'draft' },
+      data: { status: 'invoiced', invoicedAt: expect.any(Date) },
+    });
+    expect(createInvoice).not.toHaveBeenCalled();
+  });
+
+  it('puts the application back to draft when the invoice fails', async () => {
+    db.contractorPayApplication.updateMany.mockResolvedValue({ count: 1 });
+    createInvoice.mockRejectedValueOnce(new Error('numbering clash'));
+
+    await expect(invoicePayApplication('contractor-1', 'job-1', 'app-1')).rejects.toThrow('numbering clash');
+    expect(db.contractorPayApplication.updateMany).toHaveBeenLastCalledWith({
+      where: { id: 'app-1', status: 'invoiced', invoiceId: null },
+      data: { status: 'draft', invoicedAt: null },
+    });
+  });
+});
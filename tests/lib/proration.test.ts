@@ -0,0 +1,202 @@
+/**
+ * Tests for billing periods, proration methods and the move-in, rent change,
+ * recurring charge and move-out calculations built on them
+ * Feature: proration
+ */
+
+import * as fc from 'fast-check';
+
+jest.mock('@/db/prisma', () => ({ prisma: {} }));
+
+import {
+  calculateMoveOutCredit,
+  calculateRentChangeAdjustment,
+  getBillingPeriod,
+  getRecurringChargeProration,
+  prorate,
+  prorateRange,
+  sumProration,
+  PRORATION_METHODS,
+} from '@/lib/services/proration.service';
+import { getMoveInRentProration } from '@/lib/services/move-in-charges.service';
+
+const date = (y: number, m: number, d: number) => new Date(y, m - 1, d);
+
+describe('getBillingPeriod', () => {
+  it('runs from the billing day to the day before the next', () => {
+    const period = getBillingPeriod(date(2026, 3, 20), 1);
+    expect(period.start).toEqual(date(2026, 3, 1));
+    expect(period.end).toEqual(date(2026, 3, 31));
+    expect(period.days).toBe(31);
+
+    const mid = getBillingPeriod(date(2026, 3, 10), 15);
+    expect(mid.start).toEqual(date(2026, 2, 15));
+    expect(mid.end).toEqual(date(2026, 3, 14));
+    expect(mid.days).toBe(28);
+  });
+
+  it('falls back to the last day of short months', () => {
+    const period = getBillingPeriod(date(2026, 2, 28), 31);
+    expect(period.start).toEqual(date(2026, 2, 28));
+    expect(period.end).toEqual(date(2026, 3, 30));
+  });
+});
+
+describe('prorate', () => {
+  const period = getBillingPeriod(date(2026, 4, 1), 1); // 30 days
+
+  it('prices a day by the landlord method', () => {
+    const args = { monthlyAmount: 1500, period, from: date(2026, 4, 21), to: date(2026, 4, 30) };
+    expect(prorate({ ...args, method: 'actual_days' }).amount).toBe(500);
+    expect(prorate({ ...args, method: 'thirty_day' }).amount).toBe(500);
+    expect(prorate({ ...args, method: 'annual_365' }).amount).toBe(493.15);
+  });
+
+  it('charges exactly the monthly amount for a whole period', () => {
+    for (const method of PRORATION_METHODS) {
+      const breakdown = prorate({ monthlyAmount: 1234.56, period, from: date(2026, 3, 1), to: date(2026, 5, 31), method });
+      expect(breakdown).toMatchObject({ full: true, days: 30, amount: 1234.56, from: '2026-04-01', to: '2026-04-30' });
+    }
+  });
+
+  it('never exceeds the monthly amount', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 100, max: 1000000 }),
+        fc.integer({ min: 1, max: 28 }),
+        fc.integer({ min: 0, max: 400 }),
+        fc.integer({ min: 0, max: 40 }),
+        fc.constantFrom(...PRORATION_METHODS),
+        (cents, billingDay, offset, length, method) => {
+          const from = new Date(2026, 0, 1 + offset);
+          const to = new Date(2026, 0, 1 + offset + length);
+          const segments = prorateRange({ monthlyAmount: cents / 100, from, to, billingDay, method });
+          expect(segments.reduce((sum, segment) => sum + segment.days, 0)).toBe(length + 1);
+          for (const segment of segments) {
+            expect(segment.amount).toBeLessThanOrEqual(cents / 100);
+            expect(segment.amount).toBeGreaterThanOrEqual(0);
+          }
+        }
+      )
+    );
+  });
+});
+
+describe('getMoveInRentProration', () => {
+  it('prorates a mid-month move-in and lease end', () => {
+    const { firstMonth, lastMonth } = getMoveInRentProration({
+      rentAmount: 3100,
+      startDate: date(2026, 1, 22),
+      endDate: date(2027, 1, 21),
+      billingDay: 1,
+      method: 'actual_days',
+    });
+    expect(firstMonth).toMatchObject({ days: 10, amount: 1000, full: false });
+    expect(lastMonth).toMatchObject({ days: 21, amount: 2100, full: false });
+  });
+
+  it('charges full months when the lease lines up with the billing day', () => {
+    const { firstMonth, lastMonth } = getMoveInRentProration({
+      rentAmount: 2000,
+      startDate: date(2026, 2, 1),
+      endDate: date(2027, 1, 31),
+      billingDay: 1,
+      method: 'thirty_day',
+    });
+    expect(firstMonth.full).toBe(true);
+    expect(firstMonth.amount).toBe(2000);
+    expect(lastMonth?.full).toBe(true);
+  });
+});
+
+describe('calculateRentChangeAdjustment', () => {
+  it('charges the difference for the rest of the period', () => {
+    const adjustment = calculateRentChangeAdjustment({
+      previousRent: 3000,
+      newRent: 3100,
+      effectiveDate: date(2026, 1, 17),
+      billingDay: 1,
+      method: 'actual_days',
+    });
+    expect(adjustment?.amount).toBe(48.39);
+    expect(adjustment?.segments[0]).toMatchObject({ from: '2026-01-17', to: '2026-01-31', days: 15 });
+  });
+
+  it('credits a decrease and skips changes on the billing day', () => {
+    expect(
+      calculateRentChangeAdjustment({ previousRent: 1500, newRent: 1200, effectiveDate: date(2026, 4, 16), billingDay: 1, method: 'thirty_day' })?.amount
+    ).toBe(-150);
+    expect(
+      calculateRentChangeAdjustment({ previousRent: 1500, newRent: 1200, effectiveDate: date(2026, 4, 1), billingDay: 1, method: 'thirty_day' })
+    ).toBeNull();
+  });
+});
+
+describe('getRecurringChargeProration', () => {
+  const base = { amount: 60, dayOfMonthToPost: 1, lastPostedDate: null, method: 'actual_days' as const };
+
+  it('adds a stub for a start date in the previous period on the first posting', () => {
+    const segments = getRecurringChargeProration({
+      ...base,
+      startDate: date(2026, 4, 21),
+      endDate: null,
+      postDate: date(2026, 5, 1),
+    });
+    expect(segments.map((segment) => segment.amount)).toEqual([20, 60]);
+    expect(sumProration(segments)).toBe(80);
+  });
+
+  it('bills only through the end date', () => {
+    const segments = getRecurringChargeProration({
+      ...base,
+      startDate: date(2025, 1, 1),
+      endDate: date(2026, 6, 15),
+      lastPostedDate: date(2026, 5, 1),
+      postDate: date(2026, 6, 1),
+    });
+    expect(segments).toHaveLength(1);
+    expect(segments[0]).toMatchObject({ days: 15, amount: 30 });
+  });
+
+  it('bills nothing after the charge ended', () => {
+    expect(
+      getRecurringChargeProration({
+        ...base,
+        startDate: date(2025, 1, 1),
+        endDate: date(2026, 5, 31),
+        lastPostedDate: date(2026, 5, 1),
+        postDate: date(2026, 6, 1),
+      })
+    ).toEqual([]);
+  });
+});
+
+describe('calculateMoveOutCredit', () => {
+  const period = getBillingPeriod(date(2026, 6, 1), 1);
+
+  it('credits the days after the departure date', () => {
+    const result = calculateMoveOutCredit({
+      chargedAmount: 1500,
+      monthlyAmount: 1500,
+      period,
+      coveredFrom: period.start,
+      lastDay: date(2026, 6, 10),
+      method: 'actual_days',
+    });
+    expect(result?.used).toMatchObject({ days: 10, amount: 500 });
+    expect(result?.credit).toBe(1000);
+  });
+
+  it('credits nothing when the tenant stays through the period', () => {
+    expect(
+      calculateMoveOutCredit({
+        chargedAmount: 1500,
+        monthlyAmount: 1500,
+        period,
+        coveredFrom: period.start,
+        lastDay: date(2026, 6, 30),
+        method: 'actual_days',
+      })
+    ).toBeNull();
+  });
+});
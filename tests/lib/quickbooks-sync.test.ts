@@ -0,0 +1,324 @@
+/**
+ * Tests for the QuickBooks Online sync engine, run against an in-memory mock
+ * of the QBO REST API.
+ * Feature: quickbooks-sync
+ */
+
+import * as fc from 'fast-check';
+
+jest.mock('@/db/prisma', () => ({ prisma: {} }));
+jest.mock('intuit-oauth', () => jest.fn());
+
+import { createQuickBooksApiClient, type QuickBooksObject } from '@/lib/services/quickbooks-service';
+import {
+  buildExpensePurchasePayload,
+  buildPropertyPayload,
+  buildRentDepositPayload,
+  hashPayload,
+  summarizeSyncLog,
+  syncQuickBooksItem,
+  type QuickBooksMappingStore,
+  type QuickBooksSyncAccounts,
+  type QuickBooksSyncItem,
+  type QuickBooksSyncMappingRecord,
+} from '@/lib/services/quickbooks-sync.service';
+
+// ============= Mock QBO API =============
+
+function createMockQuickBooks() {
+  const objects = new Map<string, QuickBooksObject>(); // key: `${entity}:${id}`
+  let nextId = 1;
+  const requests: string[] = [];
+
+  const respond = (status: number, body: unknown) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+  const fault = (status: number, code: string, message: string) =>
+    respond(status, { Fault: { Error: [{ Message: message, code }], type: 'ValidationFault' } });
+  const entityName = (segment: string) =>
+    ({ class: 'Class', department: 'Department', customer: 'Customer', vendor: 'Vendor', deposit: 'Deposit', purchase: 'Purchase' })[
+      segment
+    ] as string;
+
+  const fetchImpl = (async (input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(String(input));
+    const [, , , , segment, id] = url.pathname.split('/'); // /v3/company/:realm/:entity/:id
+    const method = init?.method || 'GET';
+    requests.push(`${method} ${segment}${url.searchParams.get('operation') ? ':delete' : ''}`);
+
+    if (segment === 'query') {
+      const sql = url.searchParams.get('query') || '';
+      const match = sql.match(/from (\w+) where (\w+) = '(.*)'/i);
+      const rows = match
+        ? [...objects.entries()]
+            .filter(([key, obj]) => key.startsWith(`${match[1]}:`) && obj[match[2]] === match[3])
+            .map(([, obj]) => obj)
+        : [];
+      return respond(200, { QueryResponse: match ? { [match[1]]: rows } : {} });
+    }
+
+    const entity = entityName(segment);
+    if (!entity) return fault(400, '2010', 'Unsupported entity');
+    if (method === 'GET') {
+      const obj = objects.get(`${entity}:${id}`);
+      return obj ? respond(200, { [entity]: obj }) : fault(404, '610', 'Object Not Found');
+    }
+
+    const body = JSON.parse(String(init?.body || '{}')) as Record<string, unknown>;
+
+    if (url.searchParams.get('operation') === 'delete') {
+      const existing = objects.get(`${entity}:${body.Id}`);
+      if (!existing) return fault(404, '610', 'Object Not Found');
+      if (existing.SyncToken !== body.SyncToken) return fault(400, '5010', 'Stale Object Error');
+      objects.delete(`${entity}:${body.Id}`);
+      return respond(200, { [entity]: { Id: body.Id, status: 'Deleted' } });
+    }
+
+    if (body.Id) {
+      const existing = objects.get(`${entity}:${body.Id}`);
+      if (!existing) return fault(404, '610', 'Object Not Found');
+      if (existing.SyncToken !== body.SyncToken) return fault(400, '5010', 'Stale Object Error');
+      delete body.sparse;
+      const updated = { ...existing, ...body, SyncToken: String(Number(existing.SyncToken) + 1) } as QuickBooksObject;
+      objects.set(`${entity}:${body.Id}`, updated);
+      return respond(200, { [entity]: updated });
+    }
+
+    const nameField = entity === 'Class' || entity === 'Department' ? 'Name' : 'DisplayName';
+    if (body[nameField] && [...objects.entries()].some(([key, obj]) => key.startsWith(`${entity}:`) && obj[nameField] === body[nameField])) {
+      return fault(400, '6240', 'Duplicate Name Exists Error');
+    }
+
+    const created = { ...body, Id: String(nextId++), SyncToken: '0' } as QuickBooksObject;
+    objects.set(`${entity}:${created.Id}`, created);
+    return respond(200, { [entity]: created });
+  }) as typeof fetch;
+
+  /** Simulate a bookkeeper editing an object inside QuickBooks */
+  const editInQuickBooks = (entity: string, id: string, fields: Record<string, unknown>) => {
+    const existing = objects.get(`${entity}:${id}`) as QuickBooksObject;
+    objects.set(`${entity}:${id}`, { ...existing, ...fields, SyncToken: String(Number(existing.SyncToken) + 1) });
+  };
+
+  const seed = (entity: string, fields: Record<string, unknown>) => {
+    const obj = { ...fields, Id: String(nextId++), SyncToken: '0' } as QuickBooksObject;
+    objects.set(`${entity}:${obj.Id}`, obj);
+    return obj;
+  };
+
+  return { objects, requests, fetchImpl, editInQuickBooks, seed };
+}
+
+function createMemoryStore(): QuickBooksMappingStore & { rows: Map<string, QuickBooksSyncMappingRecord> } {
+  const rows = new Map<string, QuickBooksSyncMappingRecord>();
+  return {
+    rows,
+    async get(entityType, localId) {
+      return rows.get(`${entityType}:${localId}`) ?? null;
+    },
+    async save(record) {
+      rows.set(`${record.entityType}:${record.localId}`, { ...record });
+    },
+  };
+}
+
+const accounts: QuickBooksSyncAccounts = {
+  bankAccountId: '35',
+  incomeAccountId: '79',
+  expenseAccountId: '7',
+  propertyTracking: 'class',
+};
+
+function setup() {
+  const qbo = createMockQuickBooks();
+  const client = createQuickBooksApiClient({
+    realmId: 'realm-1',
+    accessToken: 'token',
+    baseUrl: 'http://qbo.mock',
+    fetchImpl: qbo.fetchImpl,
+  });
+  return { qbo, client, store: createMemoryStore() };
+}
+
+const expenseItem = (amount: number, id = 'exp-1'): QuickBooksSyncItem => ({
+  entityType: 'expense',
+  localId: id,
+  qboType: 'Purchase',
+  payload: buildExpensePurchasePayload(
+    { id, amount, incurredAt: new Date('2025-03-04'), category: 'repairs', vendor: 'Ace Plumbing' },
+    { accounts, propertyRef: { value: '1' } }
+  ),
+});
+
+describe('QuickBooks Sync', () => {
+  describe('Payloads', () => {
+    it('should hash payloads independently of key order', () => {
+      fc.assert(
+        fc.property(fc.dictionary(fc.string({ minLength: 1 }), fc.jsonValue()), (payload) => {
+          const reversed = Object.fromEntries(Object.entries(payload).reverse());
+          expect(hashPayload(reversed)).toBe(hashPayload(payload));
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should post rent as a deposit credited to income and tagged with the property class', () => {
+      const payload = buildRentDepositPayload(
+        { id: 'rp-1', amount: 1450.5, paidAt: new Date('2025-03-01T15:00:00Z'), description: 'Rent - Maple 2B' },
+        { accounts, customerRef: { value: '12' }, propertyRef: { value: '3' } }
+      );
+
+      expect(payload).toMatchObject({
+        TxnDate: '2025-03-01',
+        DepositToAccountRef: { value: '35' },
+        Line: [
+          {
+            Amount: 1450.5,
+            DepositLineDetail: {
+              AccountRef: { value: '79' },
+              Entity: { value: '12', type: 'Customer' },
+              ClassRef: { value: '3' },
+            },
+          },
+        ],
+      });
+    });
+
+    it('should tag transactions with a department when tracking properties as locations', () => {
+      const payload = buildExpensePurchasePayload(
+        { id: 'e', amount: 10, incurredAt: new Date('2025-01-01'), category: 'supplies' },
+        { accounts: { ...accounts, propertyTracking: 'department' }, propertyRef: { value: '9' } }
+      );
+      expect(payload.DepartmentRef).toEqual({ value: '9' });
+      expect(JSON.stringify(payload.Line)).not.toContain('ClassRef');
+    });
+  });
+
+  describe('Engine', () => {
+    it('should create once and skip unchanged records on later runs', async () => {
+      const { qbo, client, store } = setup();
+
+      const first = await syncQuickBooksItem(client, store, expenseItem(120));
+      const second = await syncQuickBooksItem(client, store, expenseItem(120));
+
+      expect(first.action).toBe('created');
+      expect(second).toMatchObject({ action: 'skipped', qboId: first.qboId });
+      expect(qbo.requests.filter((r) => r.startsWith('POST'))).toHaveLength(1);
+      expect(store.rows.get('expense:exp-1')).toMatchObject({ qboId: first.qboId, syncToken: '0', status: 'synced' });
+    });
+
+    it('should update the existing object when the local record changes', async () => {
+      const { qbo, client, store } = setup();
+
+      const created = await syncQuickBooksItem(client, store, expenseItem(120));
+      const updated = await syncQuickBooksItem(client, store, expenseItem(135));
+
+      expect(updated).toMatchObject({ action: 'updated', qboId: created.qboId });
+      expect(qbo.objects.size).toBe(1);
+      const purchase = qbo.objects.get(`Purchase:${created.qboId}`) as QuickBooksObject & { Line: { Amount: number }[] };
+      expect(purchase.Line[0].Amount).toBe(135);
+      expect(store.rows.get('expense:exp-1')?.syncToken).toBe('1');
+    });
+
+    it('should report a conflict instead of overwriting edits made in QuickBooks', async () => {
+      const { qbo, client, store } = setup();
+
+      const created = await syncQuickBooksItem(client, store, expenseItem(120));
+      qbo.editInQuickBooks('Purchase', created.qboId as string, { PrivateNote: 'Edited by bookkeeper' });
+
+      const result = await syncQuickBooksItem(client, store, expenseItem(150));
+
+      expect(result.action).toBe('conflict');
+      expect(store.rows.get('expense:exp-1')?.status).toBe('conflict');
+      expect(qbo.objects.get(`Purchase:${created.qboId}`)?.PrivateNote).toBe('Edited by bookkeeper');
+
+      const overwritten = await syncQuickBooksItem(client, store, expenseItem(150), { conflictStrategy: 'overwrite' });
+      expect(overwritten.action).toBe('updated');
+      expect(store.rows.get('expense:exp-1')?.status).toBe('synced');
+    });
+
+    it('should delete transactions removed locally and re-create them if they return', async () => {
+      const { qbo, client, store } = setup();
+
+      const created = await syncQuickBooksItem(client, store, expenseItem(120));
+      const deleted = await syncQuickBooksItem(client, store, { ...expenseItem(120), payload: null });
+
+      expect(deleted).toMatchObject({ action: 'deleted', qboId: created.qboId });
+      expect(qbo.objects.size).toBe(0);
+      expect(store.rows.get('expense:exp-1')?.status).toBe('deleted');
+
+      expect((await syncQuickBooksItem(client, store, { ...expenseItem(120), payload: null })).action).toBe('skipped');
+      expect((await syncQuickBooksItem(client, store, expenseItem(120))).action).toBe('created');
+    });
+
+    it('should deactivate list objects rather than delete them', async () => {
+      const { qbo, client, store } = setup();
+      const item: QuickBooksSyncItem = {
+        entityType: 'property',
+        localId: 'prop-1',
+        qboType: 'Class',
+        payload: buildPropertyPayload({ name: 'Maple Court' }),
+      };
+
+      const created = await syncQuickBooksItem(client, store, item);
+      const removed = await syncQuickBooksItem(client, store, { ...item, payload: null });
+
+      expect(removed.action).toBe('deleted');
+      expect(qbo.objects.get(`Class:${created.qboId}`)?.Active).toBe(false);
+      expect(qbo.requests).not.toContain('POST class:delete');
+    });
+
+    it('should adopt an existing list object with the same name', async () => {
+      const { qbo, client, store } = setup();
+      const existing = qbo.seed('Class', { Name: 'Maple Court', Active: true });
+
+      const result = await syncQuickBooksItem(client, store, {
+        entityType: 'property',
+        localId: 'prop-1',
+        qboType: 'Class',
+        payload: buildPropertyPayload({ name: 'Maple Court' }),
+      });
+
+      expect(result).toMatchObject({ action: 'created', qboId: existing.Id });
+      expect(qbo.objects.size).toBe(1);
+    });
+
+    it('should re-create objects that were deleted in QuickBooks', async () => {
+      const { qbo, client, store } = setup();
+
+      const created = await syncQuickBooksItem(client, store, expenseItem(120));
+      qbo.objects.delete(`Purchase:${created.qboId}`);
+
+      const result = await syncQuickBooksItem(client, store, expenseItem(140));
+      expect(result.action).toBe('created');
+      expect(result.qboId).not.toBe(created.qboId);
+    });
+
+    it('should record failures without throwing', async () => {
+      const { client, store } = setup();
+      const result = await syncQuickBooksItem(client, store, {
+        entityType: 'expense',
+        localId: 'bad',
+        qboType: 'Account',
+        payload: { Name: 'x' },
+      });
+      expect(result.action).toBe('failed');
+      expect(result.message).toBeDefined();
+    });
+  });
+
+  describe('Run summary', () => {
+    it('should count actions and derive the run status', () => {
+      const entry = (action: 'created' | 'skipped' | 'failed' | 'conflict') => ({
+        entityType: 'expense' as const,
+        localId: 'x',
+        action,
+      });
+
+      expect(summarizeSyncLog([entry('created'), entry('skipped')]).status).toBe('success');
+      expect(summarizeSyncLog([entry('created'), entry('conflict')]).status).toBe('partial');
+      expect(summarizeSyncLog([entry('created'), entry('failed')])).toMatchObject({ status: 'partial', failed: 1 });
+      expect(summarizeSyncLog([entry('failed')]).status).toBe('failed');
+      expect(summarizeSyncLog([]).status).toBe('success');
+    });
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Tests for the rate limiter: sliding window estimates, calendar quota
+ * windows, RateLimit-* headers, route policies, API key plan limits, and
+ * falling back to in-memory counting when the database is unavailable
+ * Feature: rate-limiting
+ */
+
+jest.mock('@/db/prisma', () => ({
+  prisma: {
+    rateLimitRecord: {
+      upsert: jest.fn(),
+      findUnique: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}));
+
+import { NextRequest } from 'next/server';
+import { prisma } from '@/db/prisma';
+import {
+  buildRateLimitHeaders,
+  checkRateLimit,
+  evaluateSlidingWindow,
+  getCalendarWindow,
+  type RateLimitResult,
+} from '@/lib/security/rate-limiter';
+import { enforceApiRateLimits, resolveRoutePolicy } from '@/lib/api/rate-limit';
+import { resolveApiKeyLimits } from '@/lib/services/api-key.service';
+
+const db = prisma.rateLimitRecord as unknown as Record<string, jest.Mock>;
+const minute = { windowMs: 60_000, maxRequests: 10 };
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('evaluateSlidingWindow', () => {
+  it('weighs the previous bucket by how much of it is still in the window', () => {
+    // 15s into the bucket: 75% of the previous bucket still counts
+    const now = Date.UTC(2026, 2, 2, 10, 0, 15);
+    const result = evaluateSlidingWindow({ current: 3, previous: 8 }, minute, now);
+
+    expect(result).toMatchObject({ allowed: true, remaining: 1, limit: 10, windowMs: 60_000 });
+    expect(result.resetIn).toBe(45_000);
+  });
+
+  it('denies over the limit and reports when the estimate fits again', () => {
+    const now = Date.UTC(2026, 2, 2, 10, 0, 15);
+    const result = evaluateSlidingWindow({ current: 5, previous: 10 }, minute, now);
+
+    // 7 + 5 = 12; the previous bucket has to slide down to half weight, 15s from now
+    expect(result.allowed).toBe(false);
+    expect(result.remaining).toBe(0);
+    expect(result.resetIn).toBe(15_000);
+  });
+
+  it('waits for the rollover when the current bucket alone is over', () => {
+    const now = Date.UTC(2026, 2, 2, 10, 0, 40);
+    const result = evaluateSlidingWindow({ current: 11, previous: 4 }, minute, now);
+
+    expect(result.allowed).toBe(false);
+    expect(result.resetIn).toBe(20_000);
+  });
+});
+
+describe('getCalendarWindow', () => {
+  it('uses UTC days and months', () => {
+    const now = Date.UTC(2026, 1, 28, 23, 30);
+
+    expect(getCalendarWindow(now, 'day')).toEqual({
+      start: new Date('2026-02-28T00:00:00Z'),
+      end: new Date('2026-03-01T00:00:00Z'),
+    });
+    expect(getCalendarWindow(now, 'month')).toEqual({
+      start: new Date('2026-02-01T00:00:00Z'),
+      end: new Date('2026-03-01T00:00:00Z'),
+    });
+  });
+});
+
+describe('buildRateLimitHeaders', () => {
+  const result = (overrides: Partial<RateLimitResult>): RateLimitResult => ({
+    allowed: true,
+    remaining: 50,
+    resetIn: 30_000,
+    limit: 100,
+    windowMs: 60_000,
+    ...overrides,
+  });
+
+  it('reports the limit closest to running out and lists every policy', () => {
+    const headers = buildRateLimitHeaders([
+      result({}),
+      result({ remaining: 9_000, limit: 10_000, resetIn: 3_600_000, windowMs: 86_400_000 }),
+    ]);
+
+    expect(headers.get('RateLimit-Limit')).toBe('100');
+    expect(headers.get('RateLimit-Remaining')).toBe('50');
+    expect(headers.get('RateLimit-Reset')).toBe('30');
+    expect(headers.get('RateLimit-Policy')).toBe('100;w=60, 10000;w=86400');
+    expect(headers.get('X-RateLimit-Remaining')).toBe('50');
+    expect(headers.get('Retry-After')).toBeNull();
+  });
+
+  it('sets Retry-After from the longest denied limit', () => {
+    const headers = buildRateLimitHeaders([
+      result({ allowed: false, remaining: 0, resetIn: 12_500 }),
+      result({ allowed: false, remaining: 0, limit: 30, resetIn: 40_000 }),
+    ]);
+
+    expect(headers.get('Retry-After')).toBe('40');
+  });
+});
+
+describe('resolveRoutePolicy', () => {
+  it('picks the most specific policy for the method and path', () => {
+    expect(resolveRoutePolicy('POST', '/api/v1/payments')?.name).toBe('v1-payments-write');
+    expect(resolveRoutePolicy('GET', '/api/v1/payments')?.name).toBe('v1-read');
+    expect(resolveRoutePolicy('patch', '/api/v1/properties/abc')?.name).toBe('v1-write');
+    expect(resolveRoutePolicy('GET', '/api/v1x/other')).toBeNull();
+  });
+});
+
+describe('resolveApiKeyLimits', () => {
+  const key = { id: 'key-1', plan: 'growth', rateLimit: 1000, rateLimitWindow: 3600, dailyQuota: null, monthlyQuota: null };
+
+  it('applies plan quotas unless the key overrides them', () => {
+    expect(resolveApiKeyLimits(key)).toMatchObject({ dailyQuota: 50_000, monthlyQuota: 1_000_000 });
+    expect(resolveApiKeyLimits({ ...key, dailyQuota: 75_000 })).toMatchObject({
+      dailyQuota: 75_000,
+      monthlyQuota: 1_000_000,
+    });
+  });
+
+  it('falls back to the standard plan for unknown plans', () => {
+    expect(resolveApiKeyLimits({ ...key, plan: 'toString' })).toMatchObject({ dailyQuota: 10_000 });
+  });
+});
+
+describe('store fallback', () => {
+  it('keeps counting in memory when the database store fails', async () => {
+    db.upsert.mockRejectedValue(new Error('connection refused'));
+    const config = { name: 'test-fallback', windowMs: 60_000, maxRequests: 2 };
+
+    const results = [];
+    for (let i = 0; i < 3; i++) results.push(await checkRateLimit('1.2.3.4', config));
+
+    expect(results.map((result) => result.allowed)).toEqual([true, true, false]);
+  });
+
+  it('skips quota counting for requests a burst limit turned away', async () => {
+    db.upsert.mockRejectedValue(new Error('connection refused'));
+    const limits = { id: 'key-burst', rateLimit: 1, rateLimitWindow: 60, dailyQuota: 100, monthlyQuota: 1000 };
+    const req = new NextRequest('https://app.test/api/v1/tenants');
+
+    const first = await enforceApiRateLimits(limits, req);
+    const second = await enforceApiRateLimits(limits, req);
+
+    expect(first.allowed).toBe(true);
+    expect(first.headers.get('RateLimit-Policy')).toMatch(/^1;w=60, 600;w=60, 100;w=86400, 1000;w=\d+$/);
+    expect(second).toMatchObject({ allowed: false, exceeded: 'burst' });
+    expect(second.headers.get('Retry-After')).not.toBeNull();
+    // Burst and route counters only: quotas were counted once
+    expect(db.upsert).toHaveBeenCalledTimes(6);
+  });
+});
+
+describe('database store cleanup', () => {
+  it('only expires rows of the scope being counted', async () => {
+    db.upsert.mockResolvedValue({ count: 1 });
+    db.findUnique.mockResolvedValue(null);
+    db.deleteMany.mockResolvedValue({ count: 0 });
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+
+    await checkRateLimit('1.2.3.4', { name: 'test-cleanup', windowMs: 60_000, maxRequests: 10 });
+
+    // A one-minute policy must not sweep the previous buckets an hour-long policy still weighs
+    expect(db.deleteMany).toHaveBeenCalledWith({
+      where: { endpoint: 'test-cleanup', windowEnd: { lt: expect.any(Date) } },
+    });
+  });
+});
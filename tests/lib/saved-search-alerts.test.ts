@@ -0,0 +1,232 @@
+/**
+ * Tests for saved-search alerts: criteria parsing, schedule checks,
+ * diffing against previously seen results and alert delivery
+ * Feature: saved-search-alerts
+ */
+
+jest.mock('@/db/prisma', () => ({
+  prisma: {
+    savedSearch: { findUnique: jest.fn(), findMany: jest.fn(), update: jest.fn() },
+    savedSearchMatch: { createManyAndReturn: jest.fn() },
+    homeownerWorkOrder: { findMany: jest.fn() },
+    workOrder: { findMany: jest.fn() },
+    user: { findUnique: jest.fn() },
+    notification: { create: jest.fn() },
+    zipCentroid: { findUnique: jest.fn(), findMany: jest.fn() },
+  },
+}));
+
+jest.mock('@/lib/queue', () => ({
+  jobRuntime: { enqueue: jest.fn() },
+}));
+
+import { prisma } from '@/db/prisma';
+import { jobRuntime } from '@/lib/queue';
+import {
+  buildAlertEmailHtml,
+  evaluateSavedSearch,
+  isSavedSearchDue,
+  normalizeSavedSearchCriteria,
+  parseJobSearchCriteria,
+  SavedSearchError,
+  unsubscribeSavedSearch,
+} from '@/lib/services/saved-search-alerts.service';
+
+const db = prisma as unknown as Record<string, Record<string, jest.Mock>>;
+const enqueue = jobRuntime.enqueue as jest.Mock;
+
+const HOUR = 60 * 60 * 1000;
+const NOW = new Date('2026-03-02T12:00:00Z');
+
+function jobSearch(overrides: Partial<Parameters<typeof evaluateSavedSearch>[0]> = {}) {
+  return {
+    id: 'search-1',
+    userId: 'user-1',
+    name: 'Plumbing jobs',
+    searchType: 'jobs',
+    criteria: { categories: ['plumbing'], posterTypes: ['homeowner'] },
+    alertFrequency: 'daily',
+    lastCheckedAt: new Date(NOW.getTime() - 25 * HOUR),
+    unsubscribeToken: 'tok-123',
+    ...overrides,
+  };
+}
+
+function homeownerJob(id: string, title: string) {
+  return {
+    id,
+    title,
+    category: 'plumbing',
+    budgetMin: 200,
+    budgetMax: 500,
+    address: { city: 'Las Vegas', state: 'NV', zipCode: '89101' },
+    homeowner: { address: null },
+  };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  db.savedSearch.update.mockResolvedValue({});
+  db.notification.create.mockResolvedValue({});
+  db.user.findUnique.mockResolvedValue({ email: 'pro@example.com', name: 'Pat' });
+});
+
+describe('parseJobSearchCriteria', () => {
+  it('normalizes categories, clamps radius and defaults poster types', () => {
+    const criteria = parseJobSearchCriteria({
+      categories: 'Plumbing, HVAC',
+      location: ' Las Vegas, NV ',
+      radius: '900',
+      minBudget: '150',
+      maxBudget: '',
+    });
+
+    expect(criteria).toEqual({
+      query: '',
+      categories: ['plumbing', 'hvac'],
+      location: 'Las Vegas, NV',
+      radius: 250,
+      minBudget: 150,
+      maxBudget: null,
+      posterTypes: ['homeowner', 'landlord'],
+    });
+  });
+
+  it('keeps only known poster types', () => {
+    expect(parseJobSearchCriteria({ posterTypes: ['landlord', 'agent'] }).posterTypes).toEqual(['landlord']);
+  });
+});
+
+describe('normalizeSavedSearchCriteria', () => {
+  it('rejects criteria that are not an object', () => {
+    expect(() => normalizeSavedSearchCriteria('jobs', ['plumbing'])).toThrow(SavedSearchError);
+    expect(() => normalizeSavedSearchCriteria('jobs', null)).toThrow(SavedSearchError);
+  });
+});
+
+describe('isSavedSearchDue', () => {
+  it('is due when the search has never been checked', () => {
+    expect(isSavedSearchDue({ alertFrequency: 'weekly', lastCheckedAt: null }, NOW)).toBe(true);
+  });
+
+  it('allows some slack so an hourly sweep does not drift a day late', () => {
+    const lastCheckedAt = new Date(NOW.getTime() - 24 * HOUR + 10 * 60 * 1000);
+    expect(isSavedSearchDue({ alertFrequency: 'daily', lastCheckedAt }, NOW)).toBe(true);
+  });
+
+  it('waits out the interval for weekly searches', () => {
+    const lastCheckedAt = new Date(NOW.getTime() - 3 * 24 * HOUR);
+    expect(isSavedSearchDue({ alertFrequency: 'weekly', lastCheckedAt }, NOW)).toBe(false);
+  });
+});
+
+describe('evaluateSavedSearch', () => {
+  it('records a baseline without alerting on the first run', async () => {
+    db.homeownerWorkOrder.findMany.mockResolvedValue([homeownerJob('job-1', 'Fix leaking sink')]);
+    db.savedSearchMatch.createManyAndReturn.mockResolvedValue([{ resultType: 'homeowner_job', resultId: 'job-1' }]);
+
+    const result = await evaluateSavedSearch(jobSearch({ lastCheckedAt: null }), { now: NOW });
+
+    expect(result.baseline).toBe(true);
+    expect(result.newMatches).toHaveLength(0);
+    expect(db.savedSearchMatch.createManyAndReturn).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: [expect.objectContaining({ resultId: 'job-1', notifiedAt: null })],
+        skipDuplicates: true,
+      })
+    );
+    expect(db.notification.create).not.toHaveBeenCalled();
+    expect(enqueue).not.toHaveBeenCalled();
+  });
+
+  it('only alerts on results that were not seen before', async () => {
+    db.homeownerWorkOrder.findMany.mockResolvedValue([
+      homeownerJob('job-1', 'Fix leaking sink'),
+      homeownerJob('job-2', 'Replace water heater'),
+    ]);
+    // job-1 was already recorded, so only job-2 comes back from the insert
+    db.savedSearchMatch.createManyAndReturn.mockResolvedValue([{ resultType: 'homeowner_job', resultId: 'job-2' }]);
+
+    const result = await evaluateSavedSearch(jobSearch(), { now: NOW });
+
+    expect(result.newMatches.map((match) => match.resultId)).toEqual(['job-2']);
+    expect(db.savedSearch.update).toHaveBeenCalledWith({
+      where: { id: 'search-1' },
+      data: { lastCheckedAt: NOW, resultCount: 2, lastAlertSent: NOW },
+    });
+    expect(db.notification.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: 'user-1',
+        type: 'saved_search',
+        title: '1 new job for "Plumbing jobs"',
+        message: 'Replace water heater',
+      }),
+    });
+    expect(enqueue).toHaveBeenCalledWith(
+      'send_email',
+      expect.objectContaining({ to: 'pro@example.com', subject: '1 new job for "Plumbing jobs"' }),
+      { idempotencyKey: `saved-search-alert:search-1:${NOW.toISOString()}` }
+    );
+  });
+
+  it('skips landlord work orders when the search wants a specific trade', async () => {
+    db.homeownerWorkOrder.findMany.mockResolvedValue([]);
+
+    await evaluateSavedSearch(
+      jobSearch({ criteria: { categories: ['electrical'], posterTypes: ['homeowner', 'landlord'] } }),
+      { now: NOW }
+    );
+
+    expect(db.workOrder.findMany).not.toHaveBeenCalled();
+  });
+
+  it('leaves the stored result count alone for a scoped run', async () => {
+    db.homeownerWorkOrder.findMany.mockResolvedValue([homeownerJob('job-3', 'Unclog drain')]);
+    db.savedSearchMatch.createManyAndReturn.mockResolvedValue([]);
+
+    await evaluateSavedSearch(jobSearch(), { now: NOW, scope: { resultType: 'homeowner_job', ids: ['job-3'] } });
+
+    expect(db.savedSearch.update).toHaveBeenCalledWith({ where: { id: 'search-1' }, data: { lastCheckedAt: NOW } });
+    expect(db.homeownerWorkOrder.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ id: { in: ['job-3'] } }) })
+    );
+  });
+});
+
+describe('buildAlertEmailHtml', () => {
+  it('escapes user-provided text and includes the unsubscribe link', () => {
+    const html = buildAlertEmailHtml({
+      recipientName: 'Pat',
+      searchName: '<script>alert(1)</script>',
+      summary: 'plumbing',
+      matches: [
+        { resultType: 'homeowner_job', resultId: 'job-1', title: 'Sink & tub', subtitle: '', url: '/contractor-dashboard/marketplace' },
+      ],
+      manageUrl: 'https://example.com/contractor-dashboard/marketplace',
+      unsubscribeUrl: 'https://example.com/alerts/unsubscribe?token=tok-123',
+    });
+
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('Sink &#38; tub');
+    expect(html).toContain('https://example.com/alerts/unsubscribe?token=tok-123');
+  });
+});
+
+describe('unsubscribeSavedSearch', () => {
+  it('turns alerts off for the search that owns the token', async () => {
+    db.savedSearch.findUnique.mockResolvedValue({ id: 'search-1', name: 'Plumbing jobs', emailAlerts: true });
+    db.savedSearch.update.mockResolvedValue({ id: 'search-1', name: 'Plumbing jobs', emailAlerts: false });
+
+    const result = await unsubscribeSavedSearch('tok-123');
+
+    expect(result.emailAlerts).toBe(false);
+    expect(db.savedSearch.update).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'search-1' }, data: { emailAlerts: false } })
+    );
+  });
+
+  it('rejects unknown tokens', async () => {
+    db.savedSearch.findUnique.mockResolvedValue(null);
+    await expect(unsubscribeSavedSearch('nope')).rejects.toThrow(SavedSearchError);
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Tests for the STR pricing engine
+ * Feature: str-pricing
+ */
+
+import * as fc from 'fast-check';
+
+jest.mock('@/db/prisma', () => ({ prisma: {} }));
+
+import {
+  calculateCalendarRates,
+  calculateNightlyRate,
+  calculateStayQuote,
+  normalizePricingRuleInput,
+  type PricingRental,
+  type PricingRule,
+} from '@/lib/services/str-pricing.service';
+
+const day = (iso: string) => new Date(`${iso}T00:00:00.000Z`);
+const TODAY = day('2026-10-19'); // Monday
+
+const rental: PricingRental = {
+  basePrice: 100,
+  weekendPrice: 150,
+  weeklyDiscount: 10,
+  monthlyDiscount: 25,
+  cleaningFee: 80,
+  extraGuestFee: 20,
+  extraGuestThreshold: 2,
+  taxRate: 12,
+  minStay: 2,
+  maxStay: 60,
+  maxGuests: 6,
+  advanceNotice: 1,
+};
+
+let ruleId = 0;
+const rule = (overrides: Partial<PricingRule>): PricingRule => ({
+  id: `rule-${++ruleId}`,
+  name: 'Rule',
+  ruleType: 'seasonal',
+  startDate: null,
+  endDate: null,
+  daysOfWeek: [],
+  price: null,
+  adjustmentPercent: null,
+  leadDays: null,
+  occupancyMin: null,
+  occupancyMax: null,
+  occupancyWindowDays: 30,
+  minStay: null,
+  priority: 0,
+  ...overrides,
+});
+
+describe('STR pricing engine', () => {
+  describe('Nightly rates', () => {
+    it('should use the weekend price on Friday and Saturday nights', () => {
+      const rates = calculateCalendarRates(rental, [], day('2026-11-05'), day('2026-11-08'), { today: TODAY });
+      expect(rates.map((r) => [r.date, r.rate])).toEqual([
+        ['2026-11-05', 100],
+        ['2026-11-06', 150],
+        ['2026-11-07', 150],
+        ['2026-11-08', 100],
+      ]);
+    });
+
+    it('should let the highest-priority fixed price win', () => {
+      const rules = [
+        rule({ name: 'Holidays', startDate: day('2026-12-20'), endDate: day('2027-01-02'), price: 250, priority: 1 }),
+        rule({ name: 'Winter', startDate: day('2026-12-01'), endDate: day('2027-02-28'), price: 120 }),
+      ];
+      const holiday = calculateNightlyRate(rental, rules, day('2026-12-24'), 66, { today: TODAY });
+      const winter = calculateNightlyRate(rental, rules, day('2026-12-10'), 52, { today: TODAY });
+
+      expect(holiday.rate).toBe(250);
+      expect(holiday.appliedRules.map((r) => r.name)).toEqual(['Holidays']);
+      expect(winter.rate).toBe(120);
+    });
+
+    it('should compose adjustments across rule types but not within a type', () => {
+      const rules = [
+        rule({ ruleType: 'day_of_week', daysOfWeek: [2], adjustmentPercent: -10 }),
+        rule({ ruleType: 'day_of_week', daysOfWeek: [2], adjustmentPercent: -50, priority: -1 }),
+        rule({ ruleType: 'last_minute', leadDays: 3, adjustmentPercent: -20 }),
+      ];
+      // Tuesday, one day out: 100 * 0.9 * 0.8
+      const rate = calculateNightlyRate(rental, rules, day('2026-10-20'), 1, { today: TODAY });
+      expect(rate.rate).toBe(72);
+      expect(rate.appliedRules).toHaveLength(2);
+    });
+
+    it('should apply early-bird and occupancy rules from context', () => {
+      const rules = [
+        rule({ ruleType: 'early_bird', leadDays: 60, adjustmentPercent: -5 }),
+        rule({ ruleType: 'occupancy', occupancyMin: 80, adjustmentPercent: 15, occupancyWindowDays: 14 }),
+      ];
+      const night = day('2026-11-03');
+
+      expect(calculateNightlyRate(rental, rules, night, 15, { today: TODAY }).rate).toBe(100);
+      expect(calculateNightlyRate(rental, rules, night, 90, { today: TODAY }).rate).toBe(95);
+      expect(
+        calculateNightlyRate(rental, rules, night, 15, { today: TODAY, occupancyByWindow: { 14: 85 } }).rate
+      ).toBe(115);
+    });
+
+    it('should never price a night below zero', () => {
+      fc.assert(
+        fc.property(
+          fc.array(fc.integer({ min: -100, max: 300 }), { maxLength: 5 }),
+          fc.integer({ min: 0, max: 365 }),
+          (adjustments, offset) => {
+            const rules = adjustments.map((adjustmentPercent, i) =>
+              rule({
+                ruleType: i % 2 ? 'day_of_week' : 'last_minute',
+                daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+                leadDays: 400,
+                adjustmentPercent,
+              })
+            );
+            const night = new Date(TODAY.getTime() + offset * 86400000);
+            expect(calculateNightlyRate(rental, rules, night, offset, { today: TODAY }).rate).toBeGreaterThanOrEqual(0);
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('Stay quotes', () => {
+    it('should itemize nights, fees, discount and taxes', () => {
+      // Mon 2 Nov - Mon 9 Nov: 5 weekday nights + Fri/Sat
+      const quote = calculateStayQuote(
+        rental,
+        [],
+        { checkIn: day('2026-11-02'), checkOut: day('2026-11-09'), guests: 4 },
+        { today: TODAY }
+      );
+
+      expect(quote).toMatchObject({
+        nights: 7,
+        accommodation: 800,
+        lengthOfStayDiscount: { type: 'weekly', percent: 10, amount: 80 },
+        discount: 80,
+        cleaningFee: 80,
+        extraGuests: 2,
+        extraGuestFee: 280,
+        taxes: 129.6,
+        total: 1209.6,
+        averageNightlyRate: 114.29,
+        errors: [],
+      });
+    });
+
+    it('should prefer the monthly discount for 28+ night stays', () => {
+      const quote = calculateStayQuote(
+        rental,
+        [],
+        { checkIn: day('2026-11-02'), checkOut: day('2026-11-30'), guests: 2 },
+        { today: TODAY }
+      );
+      expect(quote.lengthOfStayDiscount?.type).toBe('monthly');
+    });
+
+    it('should reconcile the total with its line items', () => {
+      fc.assert(
+        fc.property(
+          fc.integer({ min: 1, max: 90 }),
+          fc.integer({ min: 1, max: 40 }),
+          fc.integer({ min: 1, max: 6 }),
+          (lead, nights, guests) => {
+            const checkIn = new Date(TODAY.getTime() + lead * 86400000);
+            const checkOut = new Date(checkIn.getTime() + nights * 86400000);
+            const quote = calculateStayQuote(rental, [], { checkIn, checkOut, guests }, { today: TODAY });
+
+            const nightly = quote.nightlyRates.reduce((total, n) => total + Math.round(n.rate * 100), 0);
+            expect(nightly).toBe(Math.round(quote.accommodation * 100));
+            const items =
+              quote.accommodation - quote.discount + quote.cleaningFee + quote.extraGuestFee + quote.taxes;
+            expect(Math.round(items * 100)).toBe(Math.round(quote.total * 100));
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should enforce min-stay overrides on the check-in night', () => {
+      const rules = [rule({ name: 'Peak min stay', startDate: day('2026-12-20'), endDate: day('2027-01-02'), minStay: 5 })];
+      const stay = { checkIn: day('2026-12-22'), checkOut: day('2026-12-25'), guests: 2 };
+
+      expect(calculateStayQuote(rental, rules, stay, { today: TODAY }).errors).toEqual(['Minimum stay is 5 nights']);
+      expect(calculateStayQuote(rental, [], stay, { today: TODAY }).errors).toEqual([]);
+
+      const lastMinute = [rule({ ruleType: 'last_minute', leadDays: 3, minStay: 1 })];
+      const tomorrow = { checkIn: day('2026-10-20'), checkOut: day('2026-10-21'), guests: 1 };
+      expect(calculateStayQuote(rental, lastMinute, tomorrow, { today: TODAY }).errors).toEqual([]);
+    });
+
+    it('should report guest, notice and date errors', () => {
+      const quote = calculateStayQuote(
+        rental,
+        [],
+        { checkIn: day('2026-10-19'), checkOut: day('2026-10-19'), guests: 8 },
+        { today: TODAY }
+      );
+      expect(quote.errors).toEqual([
+        'Check-out must be after check-in',
+        'Maximum 6 guests',
+        'Bookings require 1 day notice',
+      ]);
+    });
+  });
+
+  describe('Rule input', () => {
+    it('should validate rules per type', () => {
+      expect(normalizePricingRuleInput({ ruleType: 'seasonal', price: 100 })).toEqual({ error: 'Rule name is required' });
+      expect(normalizePricingRuleInput({ name: 'Summer', price: 100 })).toEqual({
+        error: 'Seasonal rules need a start and end date',
+      });
+      expect(normalizePricingRuleInput({ name: 'Weekends', ruleType: 'day_of_week', daysOfWeek: [7], price: 1 })).toEqual({
+        error: 'Invalid day of week',
+      });
+      expect(normalizePricingRuleInput({ name: 'Late', ruleType: 'last_minute', adjustmentPercent: -10 })).toEqual({
+        error: 'Lead-time rules need leadDays',
+      });
+      expect(normalizePricingRuleInput({ name: 'Noop', ruleType: 'early_bird', leadDays: 30 })).toEqual({
+        error: 'Rule must set a price, an adjustment or a minimum stay',
+      });
+
+      const result = normalizePricingRuleInput({
+        name: ' Summer ',
+        startDate: '2027-06-01',
+        endDate: '2027-08-31',
+        price: '180',
+        minStay: '3',
+      });
+      expect(result).toEqual({
+        data: expect.objectContaining({
+          name: 'Summer',
+          ruleType: 'seasonal',
+          startDate: day('2027-06-01'),
+          price: 180,
+          minStay: 3,
+          priority: 0,
+          occupancyWindowDays: 30,
+          isActive: true,
+        }),
+      });
+    });
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Property-based tests for the tenant ledger
+ * Feature: tenant-ledger
+ */
+
+import * as fc from 'fast-check';
+
+jest.mock('@/db/prisma', () => ({ prisma: {} }));
+
+import {
+  LEDGER_ACCOUNTS,
+  buildBalanceForwardStatement,
+  buildPosting,
+  buildReversalPosting,
+  calculateDepositHeld,
+  calculateLedgerBalance,
+  categoryForRentPaymentType,
+  withRunningBalance,
+  type LedgerCategory,
+  type LedgerEntryType,
+} from '@/lib/services/tenant-ledger.service';
+
+const entryTypes: Exclude<LedgerEntryType, 'reversal'>[] = [
+  'charge',
+  'payment',
+  'credit',
+  'write_off',
+  'refund',
+];
+
+const categories: LedgerCategory[] = [
+  'rent',
+  'last_month_rent',
+  'security_deposit',
+  'pet_deposit',
+  'cleaning_fee',
+  'late_fee',
+  'recurring_charge',
+  'invoice',
+  'deposit_applied',
+  'other',
+];
+
+const postingArbitrary = fc
+  .record({
+    entryType: fc.constantFrom(...entryTypes),
+    category: fc.constantFrom(...categories),
+    cents: fc.integer({ min: 1, max: 1_000_000 }),
+    effectiveDate: fc.date({ min: new Date('2023-01-01'), max: new Date('2026-12-31'), noInvalidDate: true }),
+  })
+  .map(({ entryType, category, cents, effectiveDate }) =>
+    buildPosting({
+      entryType,
+      category,
+      amount: cents / 100,
+      effectiveDate,
+      description: `${entryType} ${category}`,
+    })
+  );
+
+describe('Tenant Ledger', () => {
+  describe('Postings', () => {
+    it('should always post to two different accounts', () => {
+      fc.assert(
+        fc.property(postingArbitrary, (posting) => {
+          expect(posting.debitAccount).not.toBe(posting.creditAccount);
+          expect(posting.amount).toBeGreaterThan(0);
+        }),
+        { numRuns: 200 }
+      );
+    });
+
+    it('should increase the balance for charges and decrease it for payments, credits and write-offs', () => {
+      const date = new Date('2025-01-01');
+      const charge = buildPosting({ entryType: 'charge', category: 'rent', amount: 1500, effectiveDate: date, description: 'Rent' });
+      const payment = buildPosting({ entryType: 'payment', category: 'rent', amount: 1000, effectiveDate: date, description: 'Payment' });
+      const credit = buildPosting({ entryType: 'credit', category: 'other', amount: 100, effectiveDate: date, description: 'Concession' });
+      const writeOff = buildPosting({ entryType: 'write_off', category: 'rent', amount: 400, effectiveDate: date, description: 'Write-off' });
+
+      expect(calculateLedgerBalance([charge])).toBe(1500);
+      expect(calculateLedgerBalance([charge, payment])).toBe(500);
+      expect(calculateLedgerBalance([charge, payment, credit])).toBe(400);
+      expect(calculateLedgerBalance([charge, payment, credit, writeOff])).toBe(0);
+    });
+
+    it('should not affect the tenant balance when refunding a deposit', () => {
+      const refund = buildPosting({
+        entryType: 'refund',
+        category: 'deposit_refund',
+        amount: 800,
+        effectiveDate: new Date('2025-06-01'),
+        description: 'Deposit refund',
+      });
+
+      expect(calculateLedgerBalance([refund])).toBe(0);
+      expect(refund.debitAccount).toBe(LEDGER_ACCOUNTS.DEPOSIT_LIABILITY);
+    });
+
+    it('should reject non-positive amounts', () => {
+      expect(() =>
+        buildPosting({ entryType: 'charge', category: 'rent', amount: 0, effectiveDate: new Date(), description: 'Rent' })
+      ).toThrow('Ledger amount must be positive');
+    });
+  });
+
+  describe('Reversals', () => {
+    it('should net every posting to zero when combined with its reversal', () => {
+      fc.assert(
+        fc.property(postingArbitrary, (posting) => {
+          const reversal = buildReversalPosting(posting, posting.effectiveDate, 'test');
+
+          expect(calculateLedgerBalance([posting, reversal])).toBe(0);
+          expect(calculateDepositHeld([posting, reversal])).toBe(0);
+          expect(reversal.entryType).toBe('reversal');
+        }),
+        { numRuns: 200 }
+      );
+    });
+  });
+
+  describe('Running balance', () => {
+    it('should end the running balance at the ledger balance', () => {
+      fc.assert(
+        fc.property(fc.array(postingArbitrary, { minLength: 1, maxLength: 30 }), (postings) => {
+          const lines = withRunningBalance(postings);
+          const last = lines[lines.length - 1];
+
+          expect(last.runningBalance).toBe(calculateLedgerBalance(postings));
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should order lines by effective date', () => {
+      fc.assert(
+        fc.property(fc.array(postingArbitrary, { minLength: 2, maxLength: 30 }), (postings) => {
+          const lines = withRunningBalance(postings);
+          for (let i = 1; i < lines.length; i++) {
+            expect(lines[i].effectiveDate.getTime()).toBeGreaterThanOrEqual(
+              lines[i - 1].effectiveDate.getTime()
+            );
+          }
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('Balance-forward statement', () => {
+    it('should satisfy opening + charges - credits = closing', () => {
+      fc.assert(
+        fc.property(
+          fc.array(postingArbitrary, { minLength: 0, maxLength: 40 }),
+          fc.date({ min: new Date('2023-01-01'), max: new Date('2026-12-31'), noInvalidDate: true }),
+          fc.integer({ min: 1, max: 365 }),
+          (postings, periodStart, days) => {
+            const periodEnd = new Date(periodStart.getTime() + days * 24 * 60 * 60 * 1000);
+            const statement = buildBalanceForwardStatement(postings, periodStart, periodEnd);
+
+            const expectedClosing =
+              Math.round((statement.openingBalance + statement.totalCharges - statement.totalCredits) * 100) / 100;
+            expect(statement.closingBalance).toBe(expectedClosing);
+
+            const throughEnd = postings.filter((p) => p.effectiveDate <= periodEnd);
+            expect(statement.closingBalance).toBe(calculateLedgerBalance(throughEnd));
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should roll entries before the period into the opening balance', () => {
+      const rent = (date: string, amount: number) =>
+        buildPosting({ entryType: 'charge', category: 'rent', amount, effectiveDate: new Date(date), description: 'Rent' });
+      const paid = (date: string, amount: number) =>
+        buildPosting({ entryType: 'payment', category: 'rent', amount, effectiveDate: new Date(date), description: 'Payment' });
+
+      const statement = buildBalanceForwardStatement(
+        [rent('2025-01-01', 1200), paid('2025-01-05', 1000), rent('2025-02-01', 1200), paid('2025-02-03', 1400)],
+        new Date('2025-02-01'),
+        new Date('2025-02-28')
+      );
+
+      expect(statement.openingBalance).toBe(200);
+      expect(statement.lines).toHaveLength(2);
+      expect(statement.lines.map((line) => line.runningBalance)).toEqual([1400, 0]);
+      expect(statement.closingBalance).toBe(0);
+    });
+  });
+
+  describe('Deposits', () => {
+    it('should track deposits charged, applied and refunded', () => {
+      const date = new Date('2025-01-01');
+      const deposit = buildPosting({ entryType: 'charge', category: 'security_deposit', amount: 1500, effectiveDate: date, description: 'Deposit' });
+      const applied = buildPosting({ entryType: 'credit', category: 'deposit_applied', amount: 300, effectiveDate: date, description: 'Applied' });
+      const refund = buildPosting({ entryType: 'refund', category: 'deposit_refund', amount: 1200, effectiveDate: date, description: 'Refund' });
+
+      expect(calculateDepositHeld([deposit])).toBe(1500);
+      expect(calculateDepositHeld([deposit, applied])).toBe(1200);
+      expect(calculateDepositHeld([deposit, applied, refund])).toBe(0);
+    });
+
+    it('should map move-in payment types to ledger categories', () => {
+      expect(categoryForRentPaymentType('security_deposit')).toBe('security_deposit');
+      expect(categoryForRentPaymentType('pet_deposit_annual')).toBe('pet_deposit');
+      expect(categoryForRentPaymentType('last_month_rent')).toBe('last_month_rent');
+      expect(categoryForRentPaymentType('recurring_charge')).toBe('recurring_charge');
+      expect(categoryForRentPaymentType(undefined)).toBe('rent');
+    });
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Tests for RUBS utility bill allocation and sub-meter usage
+ * Feature: utility-billing
+ */
+
+import * as fc from 'fast-check';
+
+jest.mock('@/db/prisma', () => ({
+  prisma: {
+    utilityBill: { findFirst: jest.fn(), updateMany: jest.fn() },
+    utilityBillAllocation: { findMany: jest.fn(), update: jest.fn() },
+    tenantInvoice: { create: jest.fn() },
+    $transaction: jest.fn(),
+  },
+}));
+jest.mock('@/lib/services/notification-service', () => ({ NotificationService: { createNotification: jest.fn() } }));
+jest.mock('@/lib/services/tenant-ledger.service', () => ({
+  syncLedgerSafely: jest.fn(),
+  syncTenantInvoiceLedger: jest.fn(),
+}));
+
+import { prisma } from '@/db/prisma';
+import {
+  allocateUtilityBill,
+  formatUtilityChargeReason,
+  getMeterUsage,
+  getOccupiedDays,
+  normalizeUtilityBillInput,
+  postUtilityBill,
+  UtilityBillingError,
+  type AllocationInput,
+  type AllocationTenancy,
+  type AllocationUnit,
+} from '@/lib/services/utility-billing.service';
+
+const date = (y: number, m: number, d: number) => new Date(y, m - 1, d);
+
+const units: AllocationUnit[] = [
+  { unitId: 'u1', name: '101', sizeSqFt: 600, bedrooms: 1 },
+  { unitId: 'u2', name: '102', sizeSqFt: 900, bedrooms: 2 },
+  { unitId: 'u3', name: '103', sizeSqFt: 1500, bedrooms: 3 },
+];
+
+const fullPeriod = (unitId: string, occupantCount: number | null = 1): AllocationTenancy => ({
+  leaseId: `lease-${unitId}`,
+  unitId,
+  tenantId: `tenant-${unitId}`,
+  startDate: date(2025, 1, 1),
+  endDate: null,
+  occupantCount,
+});
+
+const baseInput = (overrides: Partial<AllocationInput> = {}): AllocationInput => ({
+  totalAmount: 300,
+  recoveryPercent: 100,
+  method: 'equal',
+  periodStart: date(2026, 1, 1),
+  periodEnd: date(2026, 1, 31),
+  units,
+  tenancies: units.map((unit) => fullPeriod(unit.unitId)),
+  ...overrides,
+});
+
+describe('getOccupiedDays', () => {
+  it('counts both ends of the period and clips to move-in/out', () => {
+    const start = date(2026, 1, 1);
+    const end = date(2026, 1, 31);
+    expect(getOccupiedDays({ startDate: date(2025, 6, 1), endDate: null }, start, end)).toBe(31);
+    expect(getOccupiedDays({ startDate: date(2026, 1, 16), endDate: null }, start, end)).toBe(16);
+    expect(getOccupiedDays({ startDate: date(2025, 6, 1), endDate: date(2026, 1, 10) }, start, end)).toBe(10);
+    expect(getOccupiedDays({ startDate: date(2025, 6, 1), endDate: date(2025, 12, 31) }, start, end)).toBe(0);
+  });
+});
+
+describe('allocateUtilityBill', () => {
+  it('splits by square footage', () => {
+    const result = allocateUtilityBill(baseInput({ method: 'square_feet' }));
+    expect(result.lines.map((line) => line.amount)).toEqual([60, 90, 150]);
+    expect(result.allocatedAmount).toBe(300);
+    expect(result.unallocatedAmount).toBe(0);
+  });
+
+  it('splits by occupants and defaults a missing household size to one', () => {
+    const result = allocateUtilityBill(
+      baseInput({
+        method: 'occupants',
+        tenancies: [fullPeriod('u1', 1), fullPeriod('u2', 3), fullPeriod('u3', null)],
+      })
+    );
+    expect(result.lines.map((line) => line.amount)).toEqual([60, 180, 60]);
+  });
+
+  it('leaves vacant unit-days with the landlord for ratio methods', () => {
+    const result = allocateUtilityBill(
+      baseInput({ method: 'equal', tenancies: [fullPeriod('u1'), fullPeriod('u2')] })
+    );
+    expect(result.lines.map((line) => line.amount)).toEqual([100, 100]);
+    expect(result.unallocatedAmount).toBe(100);
+  });
+
+  it('prorates move-ins and move-outs within the period', () => {
+    const result = allocateUtilityBill(
+      baseInput({
+        method: 'equal',
+        totalAmount: 310,
+        units: [units[0]],
+        tenancies: [
+          { ...fullPeriod('u1'), leaseId: 'old', endDate: date(2026, 1, 10) },
+          { ...fullPeriod('u1'), leaseId: 'new', startDate: date(2026, 1, 21) },
+        ],
+      })
+    );
+    expect(result.lines).toEqual([
+      expect.objectContaining({ leaseId: 'old', occupiedDays: 10, amount: 100 }),
+      expect.objectContaining({ leaseId: 'new', occupiedDays: 11, amount: 110 }),
+    ]);
+    expect(result.unallocatedAmount).toBe(100);
+  });
+
+  it('bills only the recovery percent', () => {
+    const result = allocateUtilityBill(baseInput({ recoveryPercent: 80 }));
+    expect(result.billableAmount).toBe(240);
+    expect(result.allocatedAmount).toBe(240);
+  });
+
+  it('splits sub-metered usage', () => {
+    const result = allocateUtilityBill(
+      baseInput({
+        method: 'submeter',
+        units: units.map((unit, index) => ({ ...unit, usage: [10, 30, 60][index] })),
+      })
+    );
+    expect(result.lines.map((line) => line.amount)).toEqual([30, 90, 180]);
+  });
+
+  it('rejects units without the data the method needs', () => {
+    expect(() =>
+      allocateUtilityBill(
+        baseInput({ method: 'square_feet', units: [...units, { unitId: 'u4', name: '104', sizeSqFt: null, bedrooms: 1 }] })
+      )
+    ).toThrow('Units missing square footage: 104');
+    expect(() => allocateUtilityBill(baseInput({ method: 'submeter' }))).toThrow(UtilityBillingError);
+  });
+
+  it('rejects a period nobody occupied', () => {
+    expect(() => allocateUtilityBill(baseInput({ tenancies: [] }))).toThrow('No leases occupied');
+  });
+
+  it('never allocates more than the billable amount and always to the cent', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 500000 }),
+        fc.array(fc.tuple(fc.integer({ min: 1, max: 31 }), fc.integer({ min: 1, max: 6 })), { minLength: 1, maxLength: 8 }),
+        fc.constantFrom('occupants' as const, 'equal' as const, 'bedrooms' as const),
+        (cents, tenancies, method) => {
+          const ratioUnits = tenancies.map((_, index) => ({
+            unitId: `u${index}`,
+            name: `${index}`,
+            sizeSqFt: 500,
+            bedrooms: index % 3,
+          }));
+          const result = allocateUtilityBill(
+            baseInput({
+              totalAmount: cents / 100,
+              method,
+              units: ratioUnits,
+              tenancies: tenancies.map(([moveIn, occupants], index) => ({
+                ...fullPeriod(`u${index}`, occupants),
+                startDate: date(2026, 1, moveIn),
+              })),
+            })
+          );
+          const sumCents = result.lines.reduce((sum, line) => sum + Math.round(line.amount * 100), 0);
+          expect(sumCents).toBe(Math.round(result.allocatedAmount * 100));
+          expect(result.allocatedAmount).toBeLessThanOrEqual(result.billableAmount);
+          for (const line of result.lines) {
+            expect(Math.round(line.amount * 100)).toBeCloseTo(line.amount * 100, 6);
+          }
+        }
+      )
+    );
+  });
+});
+
+describe('getMeterUsage', () => {
+  const reads = [
+    { readAt: date(2025, 12, 31), reading: 1000 },
+    { readAt: date(2026, 1, 15), reading: 1040 },
+    { readAt: date(2026, 1, 31), reading: 1100 },
+    { readAt: date(2026, 2, 10), reading: 1150 },
+  ];
+
+  it('uses the last reads on or before each end of the period', () => {
+    expect(getMeterUsage(reads, date(2026, 1, 1), date(2026, 1, 31))).toBe(100);
+    expect(getMeterUsage(reads, date(2026, 1, 15), date(2026, 1, 31))).toBe(60);
+  });
+
+  it('returns null without an opening read or when the meter went backwards', () => {
+    expect(getMeterUsage(reads.slice(1), date(2026, 1, 1), date(2026, 1, 31))).toBeNull();
+    expect(
+      getMeterUsage(
+        [{ readAt: date(2026, 1, 1), reading: 500 }, { readAt: date(2026, 1, 31), reading: 20 }],
+        date(2026, 1, 1),
+        date(2026, 1, 31)
+      )
+    ).toBeNull();
+  });
+});
+
+describe('normalizeUtilityBillInput', () => {
+  const body = {
+    propertyId: 'p1',
+    utilityType: 'water',
+    allocationMethod: 'occupants',
+    periodStart: '2026-01-01T00:00:00',
+    periodEnd: '2026-01-31T00:00:00',
+    totalAmount: '412.5',
+  };
+
+  it('defaults recovery to 100% and parses amounts', () => {
+    const input = normalizeUtilityBillInput(body);
+    expect(input.recoveryPercent).toBe(100);
+    expect(input.totalAmount).toBe(412.5);
+    expect(input.periodEnd).toEqual(date(2026, 1, 31));
+  });
+
+  it('rejects unknown methods and reversed periods', () => {
+    expect(() => normalizeUtilityBillInput({ ...body, allocationMethod: 'income' })).toThrow('allocationMethod');
+    expect(() => normalizeUtilityBillInput({ ...body, periodEnd: '2025-12-01T00:00:00' })).toThrow('periodEnd');
+  });
+});
+
+describe('formatUtilityChargeReason', () => {
+  it('names the utility and period', () => {
+    expect(formatUtilityChargeReason('water', date(2026, 1, 1), date(2026, 1, 31))).toBe(
+      'Utility - Water (Jan 1 - Jan 31, 2026)'
+    );
+  });
+});
+
+describe('postUtilityBill', () => {
+  const db = prisma as unknown as Record<string, Record<string, jest.Mock>> & { $transaction: jest.Mock };
+  const bill = {
+    id: 'bill-1',
+    landlordId: 'landlord-1',
+    propertyId: 'property-1',
+    status: 'draft',
+    utilityType: 'water',
+    periodStart: date(2025, 1, 1),
+    periodEnd: date(2025, 1, 31),
+    dueDate: date(2025, 2, 15),
+    allocations: [],
+  };
+  const allocation = {
+    id: 'alloc-1',
+    tenantId: 'tenant-u1',
+    leaseId: 'lease-u1',
+    amount: 42.5,
+    occupiedDays: 31,
+    periodDays: 31,
+    sharePercent: 0.5,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.$transaction.mockImplementation((fn: (tx: unknown) => unknown) => fn(prisma));
+    db.utilityBill.findFirst.mockResolvedValue(bill);
+    db.utilityBillAllocation.findMany.mockResolvedValue([allocation]);
+    db.tenantInvoice.create.mockResolvedValue({ id: 'invoice-1', tenantId: 'tenant-u1', amount: 42.5 });
+  });
+
+  it('claims the draft before raising invoices', async () => {
+    db.utilityBill.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(postUtilityBill('landlord-1', 'bill-1')).resolves.toMatchObject({ invoiceCount: 1 });
+    expect(db.utilityBill.updateMany).toHaveBeenCalledWith({
+      where: { id: 'bill-1', status: 'draft' },
+      data: { status: 'posted', postedAt: expect.any(Date) },
+    });
+    expect(db.utilityBill.updateMany.mock.invocationCallOrder[0]).toBeLessThan(
+      db.tenantInvoice.create.mock.invocationCallOrder[0]
+    );
+  });
+
+  it('raises nothing when another request posted the bill first', async () => {
+    db.utilityBill.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(postUtilityBill('landlord-1', 'bill-1')).rejects.toMatchObject({ code: 'INVALID_STATUS' });
+    expect(db.tenantInvoice.create).not.toHaveBeenCalled();
+  });
+});